@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+// Lists untranslated strings per language.
+//
+//   npm run i18n:missing             report only
+//   npm run i18n:missing -- --strict exit non-zero when anything is missing
+//
+// English (supabase/functions/_shared/i18n/locales/en.json) is the reference
+// catalog. For every other catalog it prints the keys that are missing or
+// empty, plus keys that no longer exist in English. It also scans src/ and
+// supabase/functions/ for t('...') and translate(language, '...') calls whose
+// key is not in the English catalog at all.
+
+import { readdirSync, readFileSync, statSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(fileURLToPath(new URL('.', import.meta.url)), '..');
+const localesDir = join(root, 'supabase', 'functions', '_shared', 'i18n', 'locales');
+const strict = process.argv.includes('--strict');
+
+const readCatalog = (file) => JSON.parse(readFileSync(join(localesDir, file), 'utf8'));
+
+const english = readCatalog('en.json');
+const englishKeys = Object.keys(english);
+let problems = 0;
+
+for (const file of readdirSync(localesDir).filter((f) => f.endsWith('.json') && f !== 'en.json').sort()) {
+  const language = file.replace(/\.json$/, '');
+  const catalog = readCatalog(file);
+  const missing = englishKeys.filter((key) => !catalog[key]);
+  const stale = Object.keys(catalog).filter((key) => !(key in english));
+  const translated = englishKeys.length - missing.length;
+
+  console.log(`\n${language}: ${translated}/${englishKeys.length} translated`);
+  for (const key of missing) console.log(`  missing  ${key}  (en: ${JSON.stringify(english[key])})`);
+  for (const key of stale) console.log(`  stale    ${key}`);
+  problems += missing.length + stale.length;
+}
+
+// t('key') / t("key") with a literal key, as used across src/, and
+// translate(language, 'key') in the edge functions
+const KEY_PATTERNS = [/\bt\(\s*['"]([\w.-]+)['"]/g, /\btranslate\([^,()]+,\s*['"]([\w.-]+)['"]/g];
+
+const sourceFiles = (dir) =>
+  readdirSync(dir).flatMap((entry) => {
+    const path = join(dir, entry);
+    if (statSync(path).isDirectory()) return sourceFiles(path);
+    return /\.(ts|tsx)$/.test(entry) ? [path] : [];
+  });
+
+const unknown = new Map();
+const scanned = [join(root, 'src'), join(root, 'supabase', 'functions')].flatMap(sourceFiles);
+for (const file of scanned) {
+  const source = readFileSync(file, 'utf8');
+  for (const [, key] of KEY_PATTERNS.flatMap((pattern) => [...source.matchAll(pattern)])) {
+    if (key in english) continue;
+    const files = unknown.get(key) ?? new Set();
+    files.add(relative(root, file));
+    unknown.set(key, files);
+  }
+}
+
+if (unknown.size > 0) {
+  console.log(`\nKeys used in code but missing from en.json: ${unknown.size}`);
+  for (const [key, files] of [...unknown].sort(([a], [b]) => a.localeCompare(b))) {
+    console.log(`  ${key}  (${[...files].join(', ')})`);
+  }
+  problems += unknown.size;
+}
+
+console.log(problems === 0 ? '\nAll catalogs are complete.' : `\n${problems} issue(s) found.`);
+process.exit(strict && problems > 0 ? 1 : 0);
@@ -5,9 +5,12 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate, useLocation } from "react-router-dom";
 import { LanguageProvider } from "@/contexts/LanguageContext";
+import { CurrencyProvider } from "@/contexts/CurrencyContext";
 import { AuthProvider, useAuth } from "@/hooks/useAuth";
 import VerticalNavigation from "@/components/VerticalNavigation";
 import HorizontalSubNav from "@/components/HorizontalSubNav";
+import PinStepUpPrompt from "@/components/auth/PinStepUpPrompt";
+import DeviceSessionGuard from "@/components/auth/DeviceSessionGuard";
 
 // Page imports
 import Index from "./pages/Index";
@@ -151,70 +154,74 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <LanguageProvider>
-        <TooltipProvider>
-          <Toaster />
-          <Sonner />
-          <BrowserRouter>
-            <AuthProvider>
-              <Routes>
-                <Route path="/" element={<CompanyPage />} />
-                <Route path="/company" element={<Navigate to="/" replace />} />
-                <Route path="/portal" element={<PortalPage />} />
-                <Route path="/auth" element={<AuthPage />} />
-                <Route path="/download" element={<AppDownloadPage />} />
-                <Route path="/terms" element={<TermsOfServicePage />} />
-                <Route path="/privacy" element={<PrivacyPolicyPage />} />
-                <Route path="*" element={
-                  <ProtectedRoute>
-                    <AppLayout>
-                      <Routes>
-                        <Route path="/dashboard" element={<DashboardPage />} />
-                        <Route path="/chamas" element={<ChamasPage />} />
-                        <Route path="/available-chamas" element={<AvailableChamasPage />} />
-                        <Route path="/chama/:id" element={<ChamaDetailPage />} />
-                        <Route path="/chama/:id/invite" element={<InviteMembersPage />} />
-                        <Route path="/chama-detail/:id" element={<ChamaDetailPage />} />
-                        <Route path="/create-chama" element={<CreateChamaPage />} />
-                        <Route path="/join-chama" element={<JoinChamaPage />} />
-                        <Route path="/advanced-chama" element={<AdvancedChamaPage />} />
-                        <Route path="/smart-finance" element={<SmartFinancePage />} />
-                        <Route path="/partner-dashboard" element={<PartnerDashboardPage />} />
-                        <Route path="/investment" element={<InvestmentPage />} />
-                        <Route path="/staking" element={<StakingPage />} />
-                        <Route path="/p2p-trading" element={<P2PTradingPage />} />
-                        <Route path="/smart-wallet" element={<SmartWalletPage />} />
-                        <Route path="/mobile-money" element={<MobileMoneyPage />} />
-                        <Route path="/personal-savings" element={<PersonalSavingsPage />} />
-                        <Route path="/apply-loan" element={<ApplyLoanPage />} />
-                        <Route path="/loan-management" element={<LoanManagementPage />} />
-                        <Route path="/adaptive-credit" element={<AdaptiveCreditPage />} />
-                        <Route path="/blockchain-lending" element={<BlockchainLendingPage />} />
-                        <Route path="/analytics" element={<AnalyticsPage />} />
-                        <Route path="/wifi-access" element={<WifiAccessPage />} />
-                        <Route path="/community" element={<CommunityPage />} />
-                        <Route path="/community-hub" element={<CommunityHubPage />} />
-                        <Route path="/community-networking" element={<CommunityNetworkingPage />} />
-                        <Route path="/voting-system" element={<VotingSystemPage />} />
-                        <Route path="/financial-navigator" element={<FinancialNavigatorPage />} />
-                        <Route path="/admin-portal" element={<AdminPortalPage />} />
-                        <Route path="/admin-demo" element={<AdminDemoPage />} />
-                        <Route path="/bank-portal" element={<BankPortalPage />} />
-                        <Route path="/budget-tracker" element={<BudgetTrackerPage />} />
-                        <Route path="/deals-and-bills" element={<DealsAndBillsPage />} />
-                        <Route path="/trivia-game" element={<TriviaGamePage />} />
-                        <Route path="/make-contribution" element={<MakeContributionPage />} />
-                        <Route path="/profile-settings" element={<ProfileSettingsPage />} />
-                        <Route path="*" element={<NotFound />} />
-                      </Routes>
-                    </AppLayout>
-                  </ProtectedRoute>
-                } />
-              </Routes>
-            </AuthProvider>
-          </BrowserRouter>
-        </TooltipProvider>
-      </LanguageProvider>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <AuthProvider>
+            <LanguageProvider>
+              <CurrencyProvider>
+                <PinStepUpPrompt />
+                <DeviceSessionGuard />
+                <Routes>
+                  <Route path="/" element={<CompanyPage />} />
+                  <Route path="/company" element={<Navigate to="/" replace />} />
+                  <Route path="/portal" element={<PortalPage />} />
+                  <Route path="/auth" element={<AuthPage />} />
+                  <Route path="/download" element={<AppDownloadPage />} />
+                  <Route path="/terms" element={<TermsOfServicePage />} />
+                  <Route path="/privacy" element={<PrivacyPolicyPage />} />
+                  <Route path="*" element={
+                    <ProtectedRoute>
+                      <AppLayout>
+                        <Routes>
+                          <Route path="/dashboard" element={<DashboardPage />} />
+                          <Route path="/chamas" element={<ChamasPage />} />
+                          <Route path="/available-chamas" element={<AvailableChamasPage />} />
+                          <Route path="/chama/:id" element={<ChamaDetailPage />} />
+                          <Route path="/chama/:id/invite" element={<InviteMembersPage />} />
+                          <Route path="/chama-detail/:id" element={<ChamaDetailPage />} />
+                          <Route path="/create-chama" element={<CreateChamaPage />} />
+                          <Route path="/join-chama" element={<JoinChamaPage />} />
+                          <Route path="/advanced-chama" element={<AdvancedChamaPage />} />
+                          <Route path="/smart-finance" element={<SmartFinancePage />} />
+                          <Route path="/partner-dashboard" element={<PartnerDashboardPage />} />
+                          <Route path="/investment" element={<InvestmentPage />} />
+                          <Route path="/staking" element={<StakingPage />} />
+                          <Route path="/p2p-trading" element={<P2PTradingPage />} />
+                          <Route path="/smart-wallet" element={<SmartWalletPage />} />
+                          <Route path="/mobile-money" element={<MobileMoneyPage />} />
+                          <Route path="/personal-savings" element={<PersonalSavingsPage />} />
+                          <Route path="/apply-loan" element={<ApplyLoanPage />} />
+                          <Route path="/loan-management" element={<LoanManagementPage />} />
+                          <Route path="/adaptive-credit" element={<AdaptiveCreditPage />} />
+                          <Route path="/blockchain-lending" element={<BlockchainLendingPage />} />
+                          <Route path="/analytics" element={<AnalyticsPage />} />
+                          <Route path="/wifi-access" element={<WifiAccessPage />} />
+                          <Route path="/community" element={<CommunityPage />} />
+                          <Route path="/community-hub" element={<CommunityHubPage />} />
+                          <Route path="/community-networking" element={<CommunityNetworkingPage />} />
+                          <Route path="/voting-system" element={<VotingSystemPage />} />
+                          <Route path="/financial-navigator" element={<FinancialNavigatorPage />} />
+                          <Route path="/admin-portal" element={<AdminPortalPage />} />
+                          <Route path="/admin-demo" element={<AdminDemoPage />} />
+                          <Route path="/bank-portal" element={<BankPortalPage />} />
+                          <Route path="/budget-tracker" element={<BudgetTrackerPage />} />
+                          <Route path="/deals-and-bills" element={<DealsAndBillsPage />} />
+                          <Route path="/trivia-game" element={<TriviaGamePage />} />
+                          <Route path="/make-contribution" element={<MakeContributionPage />} />
+                          <Route path="/profile-settings" element={<ProfileSettingsPage />} />
+                          <Route path="*" element={<NotFound />} />
+                        </Routes>
+                      </AppLayout>
+                    </ProtectedRoute>
+                  } />
+                </Routes>
+              </CurrencyProvider>
+            </LanguageProvider>
+          </AuthProvider>
+        </BrowserRouter>
+      </TooltipProvider>
     </QueryClientProvider>
   );
 }
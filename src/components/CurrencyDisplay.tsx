@@ -1,49 +1,41 @@
-
 import React, { useState } from 'react';
 import { cn } from '@/lib/utils';
+import { useCurrency } from '@/hooks/useCurrency';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { CurrencyCode, formatCurrency } from '@/lib/currency';
 
 interface CurrencyDisplayProps {
   amount: number;
+  // Currency the amount is held in; defaults to the surrounding CurrencyProvider's
+  currency?: CurrencyCode;
   className?: string;
   showToggle?: boolean;
 }
 
-const CurrencyDisplay: React.FC<CurrencyDisplayProps> = ({ 
-  amount, 
+const CurrencyDisplay: React.FC<CurrencyDisplayProps> = ({
+  amount,
+  currency,
   className = '',
-  showToggle = true 
+  showToggle = true
 }) => {
-  const [currency, setCurrency] = useState<'KES' | 'USD'>('KES');
-  
-  const formatCurrency = (value: number, curr: 'KES' | 'USD') => {
-    const exchangeRate = 150; // 1 USD = 150 KES (approximate)
-    
-    if (curr === 'KES') {
-      return new Intl.NumberFormat('en-KE', {
-        style: 'currency',
-        currency: 'KES',
-        minimumFractionDigits: 0,
-        maximumFractionDigits: 0,
-      }).format(value);
-    } else {
-      const usdValue = value / exchangeRate;
-      return new Intl.NumberFormat('en-US', {
-        style: 'currency',
-        currency: 'USD',
-        minimumFractionDigits: 0,
-        maximumFractionDigits: 0,
-      }).format(usdValue);
-    }
-  };
+  const { currency: scopeCurrency, walletCurrency } = useCurrency();
+  const { convert } = useExchangeRates();
+  const [converted, setConverted] = useState(false);
+
+  const sourceCurrency = currency ?? scopeCurrency;
+  // Offer the member's own currency when it differs, otherwise dollars (or shillings for dollar amounts)
+  const alternateCurrency: CurrencyCode =
+    walletCurrency !== sourceCurrency ? walletCurrency : sourceCurrency === 'USD' ? 'KES' : 'USD';
+  const convertedAmount = converted ? convert(amount, sourceCurrency, alternateCurrency) : null;
 
   const toggleCurrency = () => {
     if (showToggle) {
-      setCurrency(currency === 'KES' ? 'USD' : 'KES');
+      setConverted(!converted);
     }
   };
 
   return (
-    <span 
+    <span
       className={cn(
         showToggle ? 'cursor-pointer hover:opacity-80 transition-opacity' : '',
         className
@@ -51,7 +43,9 @@ const CurrencyDisplay: React.FC<CurrencyDisplayProps> = ({
       onClick={toggleCurrency}
       title={showToggle ? 'Click to switch currency' : undefined}
     >
-      {formatCurrency(amount, currency)}
+      {convertedAmount !== null
+        ? `≈ ${formatCurrency(convertedAmount, alternateCurrency, { wholeUnits: true })}`
+        : formatCurrency(amount, sourceCurrency, { wholeUnits: true })}
     </span>
   );
 };
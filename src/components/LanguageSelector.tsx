@@ -2,27 +2,21 @@
 import React from 'react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useLanguage } from '@/contexts/LanguageContext';
+import { LANGUAGES, isLanguage } from '@/i18n/catalogs';
 import { Globe } from 'lucide-react';
 
 const LanguageSelector = () => {
   const { language, setLanguage } = useLanguage();
 
-  const languages = [
-    { code: 'en', name: 'English' },
-    { code: 'sw', name: 'Kiswahili' },
-    { code: 'sheng', name: 'Sheng' },
-    { code: 'giriama', name: 'Giriama' }
-  ];
-
   return (
     <div className="flex items-center gap-2">
       <Globe className="h-4 w-4" />
-      <Select value={language} onValueChange={setLanguage}>
+      <Select value={language} onValueChange={(value) => { if (isLanguage(value)) setLanguage(value); }}>
         <SelectTrigger className="w-32">
           <SelectValue />
         </SelectTrigger>
         <SelectContent>
-          {languages.map((lang) => (
+          {LANGUAGES.map((lang) => (
             <SelectItem key={lang.code} value={lang.code}>
               {lang.name}
             </SelectItem>
@@ -43,55 +43,55 @@ const Navigation = () => {
   const mainTabs = [
     {
       id: 'home',
-      label: 'Home',
+      label: t('nav.home'),
       icon: Home,
       path: '/dashboard',
       subtabs: []
     },
     {
       id: 'chamas',
-      label: 'Chamas',
+      label: t('nav.chamas'),
       icon: Users,
       path: '/chamas',
       subtabs: [
-        { label: 'My Chamas', path: '/chamas' },
-        { label: 'Available Chamas', path: '/available-chamas' },
-        { label: 'Create Chama', path: '/create-chama' },
-        { label: 'Join Chama', path: '/join-chama' }
+        { label: t('nav.myChamas'), path: '/chamas' },
+        { label: t('nav.availableChamas'), path: '/available-chamas' },
+        { label: t('nav.createChama'), path: '/create-chama' },
+        { label: t('nav.joinChama'), path: '/join-chama' }
       ]
     },
     {
       id: 'loans',
-      label: 'Loans',
+      label: t('nav.loans'),
       icon: HandCoins,
       path: '/loan-management',
       subtabs: [
-        { label: 'My Loans', path: '/loan-management' },
-        { label: 'Adaptive Credit', path: '/adaptive-credit' },
-        { label: 'Blockchain Lending', path: '/blockchain-lending' }
+        { label: t('nav.myLoans'), path: '/loan-management' },
+        { label: t('nav.adaptiveCredit'), path: '/adaptive-credit' },
+        { label: t('nav.blockchainLending'), path: '/blockchain-lending' }
       ]
     },
     {
       id: 'investments',
-      label: 'Investments',
+      label: t('nav.investments'),
       icon: TrendingUp,
       path: '/investment',
       subtabs: [
-        { label: 'Portfolio', path: '/investment' },
-        { label: 'Staking', path: '/staking' },
-        { label: 'P2P Trading', path: '/p2p-trading' }
+        { label: t('nav.portfolio'), path: '/investment' },
+        { label: t('nav.staking'), path: '/staking' },
+        { label: t('nav.p2pTrading'), path: '/p2p-trading' }
       ]
     },
     {
       id: 'community',
-      label: 'Community',
+      label: t('nav.community'),
       icon: Globe,
       path: '/community',
       subtabs: [
-        { label: 'Community Hub', path: '/community' },
-        { label: 'Networking', path: '/community' },
-        { label: 'Voting System', path: '/community' },
-        { label: 'Financial Navigator', path: '/community' }
+        { label: t('nav.communityHub'), path: '/community' },
+        { label: t('nav.networking'), path: '/community' },
+        { label: t('nav.votingSystem'), path: '/community' },
+        { label: t('nav.financialNavigator'), path: '/community' }
       ]
     }
   ];
@@ -177,7 +177,7 @@ const Navigation = () => {
                       <p className="text-sm font-medium text-foreground">
                         {user.email?.split('@')[0]}
                       </p>
-                      <p className="text-xs text-kenyan-green font-medium">Online</p>
+                      <p className="text-xs text-kenyan-green font-medium">{t('nav.online')}</p>
                     </div>
                   </div>
 
@@ -196,7 +196,7 @@ const Navigation = () => {
                   onClick={() => setAuthModalOpen(true)}
                   className="h-9"
                 >
-                  {t('nav.signIn', 'Sign In')}
+                  {t('nav.signIn')}
                 </Button>
               )}
             </div>
@@ -4,7 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Bell, BellRing, Check, DollarSign, Users, Vote, AlertTriangle } from 'lucide-react';
+import { Bell, BellRing, Check, DollarSign, Users, Vote, AlertTriangle, Shield } from 'lucide-react';
 import { useNotifications } from '@/hooks/useNotifications';
 import CurrencyDisplay from '@/components/CurrencyDisplay';
 import { formatDistanceToNow } from 'date-fns';
@@ -30,6 +30,7 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ isOpen, onClose
       case 'member_joined': return <Users className="h-4 w-4" />;
       case 'vote_created': return <Vote className="h-4 w-4" />;
       case 'payment_due': return <AlertTriangle className="h-4 w-4" />;
+      case 'security': return <Shield className="h-4 w-4" />;
       default: return <Bell className="h-4 w-4" />;
     }
   };
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowRightLeft, Loader2, Pin, RefreshCw } from 'lucide-react';
+import { ExchangeRateRow, useCurrencySettings, useExchangeRates } from '@/hooks/useExchangeRates';
+import { isCurrencyCode } from '@/lib/currency';
+
+const isActiveOverride = (rate: ExchangeRateRow) =>
+  !!rate.is_override && (!rate.override_expires_at || new Date(rate.override_expires_at) > new Date());
+
+const AdminExchangeRates: React.FC = () => {
+  const { rates, isLoading } = useExchangeRates();
+  const { overrideRate, clearOverride, syncRates } = useCurrencySettings();
+  const [editing, setEditing] = useState<ExchangeRateRow | null>(null);
+  const [rateInput, setRateInput] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+
+  const openOverride = (rate: ExchangeRateRow) => {
+    setEditing(rate);
+    setRateInput(String(rate.rate));
+    setExpiresAt('');
+  };
+
+  const handlePin = () => {
+    if (!editing || !isCurrencyCode(editing.from_currency) || !isCurrencyCode(editing.to_currency)) return;
+
+    overrideRate.mutate(
+      {
+        fromCurrency: editing.from_currency,
+        toCurrency: editing.to_currency,
+        rate: Number(rateInput),
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+      },
+      { onSuccess: () => setEditing(null) }
+    );
+  };
+
+  const handleClear = (rate: ExchangeRateRow) => {
+    if (!isCurrencyCode(rate.from_currency) || !isCurrencyCode(rate.to_currency)) return;
+    clearOverride.mutate({ fromCurrency: rate.from_currency, toCurrency: rate.to_currency });
+  };
+
+  return (
+    <Card className="border-0 shadow-lg">
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <ArrowRightLeft className="h-5 w-5" />
+            Exchange Rates
+          </CardTitle>
+          <CardDescription>
+            Refreshed hourly from the rates feed. Pinned rates are kept until they expire or are released.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => syncRates.mutate()} disabled={syncRates.isPending}>
+          {syncRates.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4 mr-2" />
+          )}
+          Refresh now
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Pair</TableHead>
+                <TableHead>Rate</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Updated</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rates.map((rate) => (
+                <TableRow key={rate.id}>
+                  <TableCell className="font-medium">
+                    1 {rate.from_currency} → {rate.to_currency}
+                  </TableCell>
+                  <TableCell>{Number(rate.rate).toLocaleString('en-KE', { maximumFractionDigits: 6 })}</TableCell>
+                  <TableCell>
+                    {isActiveOverride(rate) ? (
+                      <Badge variant="secondary">
+                        Pinned{rate.override_expires_at && ` until ${new Date(rate.override_expires_at).toLocaleString()}`}
+                      </Badge>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">{rate.source || '—'}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {new Date(rate.updated_at).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => openOverride(rate)}>
+                      <Pin className="h-3 w-3 mr-1" />
+                      Pin
+                    </Button>
+                    {isActiveOverride(rate) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleClear(rate)}
+                        disabled={clearOverride.isPending}
+                      >
+                        Release
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Pin {editing?.from_currency}/{editing?.to_currency}
+            </DialogTitle>
+            <DialogDescription>
+              Transfers between these currencies use this rate, and the hourly sync leaves it alone, until it expires or you release it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="override_rate">
+                {editing?.to_currency} per 1 {editing?.from_currency}
+              </Label>
+              <Input
+                id="override_rate"
+                type="number"
+                min="0"
+                step="any"
+                value={rateInput}
+                onChange={(e) => setRateInput(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="override_expires">Expires (optional)</Label>
+              <Input
+                id="override_expires"
+                type="datetime-local"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handlePin} disabled={overrideRate.isPending || !(Number(rateInput) > 0)}>
+              {overrideRate.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Pin rate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default AdminExchangeRates;
@@ -28,6 +28,7 @@ import {
   useAdminLoanRegions,
   AdminLoanData 
 } from '@/hooks/useAdminLoanOversight';
+import { ArrearsAgeingReport } from '@/components/loans/ArrearsAgeingReport';
 
 const AdminLoanOversight: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
@@ -228,6 +229,9 @@ const AdminLoanOversight: React.FC = () => {
         </Card>
       </div>
 
+      {/* Arrears Ageing */}
+      <ArrearsAgeingReport />
+
       {/* Filters and Search */}
       <Card className="border-0 shadow-lg">
         <CardHeader>
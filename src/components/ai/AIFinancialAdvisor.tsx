@@ -32,7 +32,7 @@ export const AIFinancialAdvisor: React.FC = () => {
     }
   ]);
   const [input, setInput] = useState('');
-  const { chatMutation } = useAIServices();
+  const { streamChatMutation } = useAIServices();
 
   const quickActions = [
     { icon: DollarSign, label: 'Budget Help', query: 'Help me create a monthly budget plan' },
@@ -51,38 +51,37 @@ export const AIFinancialAdvisor: React.FC = () => {
       timestamp: new Date(),
     };
 
-    setMessages(prev => [...prev, userMessage]);
+    const assistantId = (Date.now() + 1).toString();
+    setMessages(prev => [
+      ...prev,
+      userMessage,
+      { id: assistantId, role: 'assistant', content: '', timestamp: new Date() },
+    ]);
     setInput('');
 
-    try {
-      // Simulate AI response for now
-      const responses = [
-        "Based on your spending patterns, I recommend allocating 50% for needs, 30% for wants, and 20% for savings and debt repayment.",
-        "Consider starting with index funds or ETFs for your investment journey. They offer diversification with lower risk.",
-        "An emergency fund should cover 3-6 months of essential expenses. Start with Ksh 10,000 and build gradually.",
-        "Track your expenses for a week to identify areas where you can cut costs. Small changes add up over time.",
-        "Your financial health is improving! Consider increasing your savings rate by 5% this month.",
-      ];
+    const updateAssistant = (update: (message: ChatMessage) => ChatMessage) =>
+      setMessages(prev => prev.map(message => (message.id === assistantId ? update(message) : message)));
 
-      const aiResponse: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: responses[Math.floor(Math.random() * responses.length)],
-        timestamp: new Date(),
+    try {
+      const { response } = await streamChatMutation.mutateAsync({
+        message: userMessage.content,
+        onDelta: (text) => updateAssistant(message => ({ ...message, content: message.content + text })),
+      });
+
+      updateAssistant(message => ({
+        ...message,
+        content: response,
         suggestions: [
           'Tell me more about this',
           'Show me specific steps',
           'What are the risks?',
           'How do I get started?'
         ]
-      };
-
-      setTimeout(() => {
-        setMessages(prev => [...prev, aiResponse]);
-      }, 1000);
-
+      }));
     } catch (error) {
       console.error('Failed to get AI response:', error);
+      // Drop the empty bubble; the hook has already shown the error
+      setMessages(prev => prev.filter(message => message.id !== assistantId || message.content));
     }
   };
 
@@ -131,7 +130,7 @@ export const AIFinancialAdvisor: React.FC = () => {
         {/* Chat Messages */}
         <ScrollArea className="flex-1 p-4">
           <div className="space-y-4">
-            {messages.map((message) => (
+            {messages.filter(message => message.content).map((message) => (
               <div
                 key={message.id}
                 className={`flex items-start space-x-3 ${
@@ -151,7 +150,7 @@ export const AIFinancialAdvisor: React.FC = () => {
                         : 'bg-muted'
                     }`}
                   >
-                    <p className="text-sm">{message.content}</p>
+                    <p className="text-sm whitespace-pre-wrap">{message.content}</p>
                   </div>
                   
                   {message.suggestions && (
@@ -177,7 +176,7 @@ export const AIFinancialAdvisor: React.FC = () => {
               </div>
             ))}
             
-            {chatMutation.isPending && (
+            {streamChatMutation.isPending && !messages[messages.length - 1]?.content && (
               <div className="flex items-center space-x-3">
                 <Avatar className="h-8 w-8">
                   <AvatarFallback>
@@ -204,11 +203,11 @@ export const AIFinancialAdvisor: React.FC = () => {
               onChange={(e) => setInput(e.target.value)}
               placeholder="Ask me about budgeting, investments, savings..."
               onKeyPress={(e) => e.key === 'Enter' && handleSendMessage(input)}
-              disabled={chatMutation.isPending}
+              disabled={streamChatMutation.isPending}
             />
             <Button
               onClick={() => handleSendMessage(input)}
-              disabled={!input.trim() || chatMutation.isPending}
+              disabled={!input.trim() || streamChatMutation.isPending}
             >
               <Send className="h-4 w-4" />
             </Button>
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import PinVerificationModal from '@/components/PinVerificationModal';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { confirmDevicePin, registerDevice } from '@/hooks/useDeviceSessions';
+
+// How often a signed-in app checks whether its session was ended elsewhere
+const CHECK_IN_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Registers this device and session with manage-devices when a member signs
+ * in and every few minutes after. Signs the app out locally once the session
+ * has been ended from another device, and holds it behind the PIN when the
+ * member asked for it on new devices. Mounted once inside AuthProvider.
+ */
+const DeviceSessionGuard: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [pinRequired, setPinRequired] = useState(false);
+  // Check in again when a different member signs in, not on every auth refresh
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) {
+      setPinRequired(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const checkIn = async () => {
+      try {
+        const registration = await registerDevice();
+        if (cancelled) return;
+
+        if (registration.revoked) {
+          // The server side is already gone; only the local tokens are left
+          await supabase.auth.signOut({ scope: 'local' });
+          toast({
+            title: 'Signed out',
+            description: 'This device was signed out from another device.',
+            variant: 'destructive',
+          });
+          return;
+        }
+
+        setPinRequired(!!registration.require_pin);
+      } catch (error) {
+        // A failed check-in must not lock the member out; the next one retries
+        console.error('Device check-in failed:', error);
+      }
+    };
+
+    checkIn();
+    const interval = setInterval(checkIn, CHECK_IN_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [userId, toast]);
+
+  const handleVerify = async (pin: string) => {
+    try {
+      await confirmDevicePin(pin);
+      setPinRequired(false);
+      toast({ title: 'Device confirmed', description: 'This device can now be used with your account.' });
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Invalid PIN',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  return (
+    <PinVerificationModal
+      isOpen={!!user && pinRequired}
+      onClose={() => undefined}
+      onVerify={handleVerify}
+      title="New device"
+      description="You have asked for your PIN on every new device. Enter it to start using your account here."
+      required
+    />
+  );
+};
+
+export default DeviceSessionGuard;
@@ -0,0 +1,56 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import PinVerificationModal from '@/components/PinVerificationModal';
+import { useUserPin } from '@/hooks/useUserPin';
+import { registerPinStepUpPrompt } from '@/lib/pinStepUp';
+
+/**
+ * Asks for the PIN whenever a transaction needs a step-up token and there is
+ * no live one. Mounted once inside AuthProvider; requirePinStepUp() waits on it.
+ */
+const PinStepUpPrompt: React.FC = () => {
+  const { verifyPin, isLoading } = useUserPin();
+  const [isOpen, setIsOpen] = useState(false);
+  const resolver = useRef<((verified: boolean) => void) | null>(null);
+
+  const settle = useCallback((verified: boolean) => {
+    resolver.current?.(verified);
+    resolver.current = null;
+    setIsOpen(false);
+  }, []);
+
+  useEffect(
+    () =>
+      registerPinStepUpPrompt(
+        () =>
+          new Promise<boolean>((resolve) => {
+            // A second request while the prompt is open waits on the same PIN entry
+            const previous = resolver.current;
+            resolver.current = (verified) => {
+              previous?.(verified);
+              resolve(verified);
+            };
+            setIsOpen(true);
+          })
+      ),
+    []
+  );
+
+  const handleVerify = async (pin: string) => {
+    const verified = await verifyPin(pin);
+    if (verified) settle(true);
+    return verified;
+  };
+
+  return (
+    <PinVerificationModal
+      isOpen={isOpen}
+      onClose={() => settle(false)}
+      onVerify={handleVerify}
+      title="Confirm with your PIN"
+      description="Enter your PIN to authorise this transaction. You won't be asked again for a few minutes."
+      isLoading={isLoading}
+    />
+  );
+};
+
+export default PinStepUpPrompt;
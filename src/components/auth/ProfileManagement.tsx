@@ -21,15 +21,20 @@ import {
   Upload,
   CheckCircle,
   AlertTriangle,
-  Loader2
+  Loader2,
+  Wallet
 } from 'lucide-react';
 import { useEnhancedAuth } from '@/hooks/useEnhancedAuth';
+import { useCurrencySettings, useWalletCurrency } from '@/hooks/useExchangeRates';
+import { CURRENCIES, isCurrencyCode } from '@/lib/currency';
 import { useToast } from '@/hooks/use-toast';
 import ProfilePhotoUpload from '@/components/ProfilePhotoUpload';
 
 const ProfileManagement: React.FC = () => {
   const { profile, updateProfile, profileCompletion, loading } = useEnhancedAuth();
   const { toast } = useToast();
+  const walletCurrency = useWalletCurrency();
+  const { setWalletCurrency } = useCurrencySettings();
   const [editing, setEditing] = useState(false);
   const [saving, setSaving] = useState(false);
   const [formData, setFormData] = useState({
@@ -313,6 +318,43 @@ const ProfileManagement: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* Wallet Currency */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            Wallet Currency
+          </CardTitle>
+          <CardDescription>
+            The currency your wallets and savings goals are held in. Money sent to you in another currency is converted when it arrives.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Label htmlFor="wallet_currency">Currency</Label>
+          <Select
+            value={walletCurrency}
+            onValueChange={(value) => {
+              if (isCurrencyCode(value)) setWalletCurrency.mutate(value);
+            }}
+            disabled={setWalletCurrency.isPending}
+          >
+            <SelectTrigger id="wallet_currency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCIES.map((currency) => (
+                <SelectItem key={currency.code} value={currency.code}>
+                  {currency.code} · {currency.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            You can switch only while your wallets and savings goals are empty.
+          </p>
+        </CardContent>
+      </Card>
+
       {/* Privacy Settings */}
       <Card>
         <CardHeader>
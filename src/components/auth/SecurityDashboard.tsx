@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Switch } from "@/components/ui/switch";
 import { 
   Shield, 
   Eye, 
@@ -23,19 +24,8 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
-
-interface UserSession {
-  id: string;
-  user_id: string;
-  session_token: string;
-  device_info: any;
-  ip_address: string;
-  location_data: any;
-  is_active: boolean;
-  expires_at: string;
-  last_activity: string;
-  created_at: string;
-}
+import { useDeviceSessions } from '@/hooks/useDeviceSessions';
+import { isMobilePlatform } from '@/lib/device';
 
 interface FraudLog {
   id: string;
@@ -55,9 +45,16 @@ interface FraudLog {
 const SecurityDashboard: React.FC = () => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const {
+    devices,
+    requirePinOnNewDevice,
+    currentDeviceKey,
+    revokeSession,
+    revokeDevice,
+    setPinRequirement,
+  } = useDeviceSessions();
   
   const [loading, setLoading] = useState(false);
-  const [sessions, setSessions] = useState<UserSession[]>([]);
   const [fraudLogs, setFraudLogs] = useState<FraudLog[]>([]);
   const [securitySettings, setSecuritySettings] = useState({
     twoFactorEnabled: false,
@@ -68,31 +65,11 @@ const SecurityDashboard: React.FC = () => {
 
   React.useEffect(() => {
     if (user) {
-      fetchSessions();
       fetchFraudLogs();
       fetchSecuritySettings();
     }
   }, [user]);
 
-  const fetchSessions = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('user_sessions')
-        .select('*')
-        .eq('user_id', user?.id)
-        .order('last_activity', { ascending: false })
-        .limit(10);
-
-      if (error) throw error;
-      setSessions((data || []).map(session => ({
-        ...session,
-        ip_address: session.ip_address as string || 'Unknown'
-      })));
-    } catch (error: any) {
-      console.error('Error fetching sessions:', error);
-    }
-  };
-
   const fetchFraudLogs = async () => {
     try {
       const { data, error } = await supabase
@@ -130,61 +107,16 @@ const SecurityDashboard: React.FC = () => {
     // For now, we'll use default values
   };
 
-  const terminateSession = async (sessionId: string) => {
-    setLoading(true);
-    
-    try {
-      const { error } = await supabase
-        .from('user_sessions')
-        .update({ is_active: false })
-        .eq('id', sessionId)
-        .eq('user_id', user?.id);
-
-      if (error) throw error;
-
-      toast({
-        title: "Session Terminated",
-        description: "The selected session has been terminated",
-      });
+  const otherDevices = devices.filter(device => device.device_key !== currentDeviceKey);
+  const activeSessionCount = devices.reduce((count, device) => count + device.sessions.length, 0);
 
-      fetchSessions();
-    } catch (error: any) {
-      console.error('Error terminating session:', error);
-      toast({
-        title: "Error",
-        description: "Failed to terminate session",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const terminateAllSessions = async () => {
+  const signOutOtherDevices = async () => {
     setLoading(true);
     
     try {
-      const { error } = await supabase
-        .from('user_sessions')
-        .update({ is_active: false })
-        .eq('user_id', user?.id)
-        .neq('session_token', 'current'); // Keep current session active
-
-      if (error) throw error;
-
-      toast({
-        title: "All Sessions Terminated",
-        description: "All other sessions have been terminated. You remain logged in on this device.",
-      });
-
-      fetchSessions();
-    } catch (error: any) {
-      console.error('Error terminating all sessions:', error);
-      toast({
-        title: "Error",
-        description: "Failed to terminate all sessions",
-        variant: "destructive",
-      });
+      for (const device of otherDevices) {
+        await revokeDevice.mutateAsync(device.id);
+      }
     } finally {
       setLoading(false);
     }
@@ -222,8 +154,8 @@ const SecurityDashboard: React.FC = () => {
     return <Badge className="bg-green-100 text-green-800">Low Risk</Badge>;
   };
 
-  const getDeviceIcon = (deviceInfo: any) => {
-    if (deviceInfo?.device_type === 'mobile') return <Smartphone className="h-4 w-4" />;
+  const getDeviceIcon = (platform: string | null) => {
+    if (isMobilePlatform(platform)) return <Smartphone className="h-4 w-4" />;
     return <Monitor className="h-4 w-4" />;
   };
 
@@ -248,8 +180,8 @@ const SecurityDashboard: React.FC = () => {
             <Monitor className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{sessions.filter(s => s.is_active).length}</div>
-            <p className="text-xs text-muted-foreground">Current devices</p>
+            <div className="text-2xl font-bold">{activeSessionCount}</div>
+            <p className="text-xs text-muted-foreground">On {devices.length} device{devices.length === 1 ? '' : 's'}</p>
           </CardContent>
         </Card>
 
@@ -301,57 +233,78 @@ const SecurityDashboard: React.FC = () => {
               <Button 
                 variant="destructive" 
                 size="sm"
-                onClick={terminateAllSessions}
-                disabled={loading}
+                onClick={signOutOtherDevices}
+                disabled={loading || otherDevices.length === 0}
                 className="gap-2"
               >
                 <UserX className="h-4 w-4" />
-                Terminate All
+                Sign Out Other Devices
               </Button>
             </CardHeader>
             <CardContent>
-              {sessions.length === 0 ? (
+              {devices.length === 0 ? (
                 <div className="text-center py-8 text-muted-foreground">
                   <Monitor className="h-12 w-12 mx-auto mb-4 opacity-50" />
                   <p>No active sessions found</p>
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {sessions.filter(session => session.is_active).map((session) => (
-                    <div key={session.id} className="flex items-center justify-between p-4 border rounded-lg">
-                      <div className="flex items-center gap-3">
-                        {getDeviceIcon(session.device_info)}
-                        <div>
-                          <p className="font-medium">
-                            {session.device_info?.browser || 'Unknown Browser'} on {session.device_info?.os || 'Unknown OS'}
-                          </p>
-                          <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                            <span className="flex items-center gap-1">
-                              <MapPin className="h-3 w-3" />
-                              {session.ip_address}
-                            </span>
-                            <span className="flex items-center gap-1">
-                              <Clock className="h-3 w-3" />
-                              Last active: {new Date(session.last_activity).toLocaleString()}
-                            </span>
-                          </div>
-                          {session.location_data?.city && (
-                            <p className="text-xs text-muted-foreground">
-                              {session.location_data.city}, {session.location_data.country}
+                  {devices.map((device) => (
+                    <div key={device.id} className="p-4 border rounded-lg space-y-3">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                          {getDeviceIcon(device.platform)}
+                          <div>
+                            <p className="font-medium flex items-center gap-2">
+                              {device.device_name || 'Unknown device'}
+                              {device.device_key === currentDeviceKey && (
+                                <Badge variant="secondary">This device</Badge>
+                              )}
                             </p>
-                          )}
+                            <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                              <span className="flex items-center gap-1">
+                                <MapPin className="h-3 w-3" />
+                                {device.last_ip || 'Unknown'}
+                              </span>
+                              <span className="flex items-center gap-1">
+                                <Clock className="h-3 w-3" />
+                                Last seen: {new Date(device.last_seen_at).toLocaleString()}
+                              </span>
+                            </div>
+                          </div>
                         </div>
+                        {device.device_key !== currentDeviceKey && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => revokeDevice.mutate(device.id)}
+                            disabled={loading || revokeDevice.isPending}
+                            className="gap-2"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                            Forget Device
+                          </Button>
+                        )}
                       </div>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => terminateSession(session.id)}
-                        disabled={loading}
-                        className="gap-2"
-                      >
-                        <LogOut className="h-4 w-4" />
-                        Terminate
-                      </Button>
+                      {device.sessions.map((session) => (
+                        <div key={session.id} className="flex items-center justify-between pl-7 text-sm">
+                          <span className="text-muted-foreground">
+                            Signed in {new Date(session.created_at).toLocaleString()}
+                            {session.ip_address && ` from ${session.ip_address}`}
+                            {' · '}active {new Date(session.last_activity).toLocaleString()}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => revokeSession.mutate(session.id)}
+                            disabled={loading || revokeSession.isPending}
+                            className="gap-2"
+                          >
+                            <LogOut className="h-4 w-4" />
+                            Sign Out
+                          </Button>
+                        </div>
+                      ))}
                     </div>
                   ))}
                 </div>
@@ -438,6 +391,20 @@ const SecurityDashboard: React.FC = () => {
                   </Button>
                 </div>
 
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h4 className="font-medium">Require PIN on New Devices</h4>
+                    <p className="text-sm text-muted-foreground">
+                      Ask for your PIN before a device you have not used before can access your account
+                    </p>
+                  </div>
+                  <Switch
+                    checked={requirePinOnNewDevice}
+                    onCheckedChange={(checked) => setPinRequirement.mutate(checked)}
+                    disabled={setPinRequirement.isPending}
+                  />
+                </div>
+
                 <div className="flex items-center justify-between">
                   <div>
                     <h4 className="font-medium">Email Notifications</h4>
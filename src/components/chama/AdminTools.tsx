@@ -98,9 +98,19 @@ const AdminTools: React.FC<AdminToolsProps> = ({ chamaData, userRole }) => {
         p_chama_id: chamaData.id
       });
       if (error) throw error;
-      return data;
+      // Pending when the deletion has gone to the officers (or a member vote) for approval
+      const result = data as { success?: boolean; pending?: boolean; message?: string } | null;
+      if (result?.success === false) throw new Error(result.message);
+      return result;
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
+      if (result?.pending) {
+        toast({
+          title: "Awaiting Approval",
+          description: result.message
+        });
+        return;
+      }
       toast({
         title: "Success",
         description: "Chama deleted successfully"
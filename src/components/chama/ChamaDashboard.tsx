@@ -40,7 +40,7 @@ export const ChamaDashboard: React.FC<ChamaDashboardProps> = ({ chamaId }) => {
               showToggle={false} 
             />
             <p className="text-xs text-muted-foreground">
-              Total group savings
+              {t('dashboard.group.savings')}
             </p>
           </CardContent>
         </Card>
@@ -53,7 +53,7 @@ export const ChamaDashboard: React.FC<ChamaDashboardProps> = ({ chamaId }) => {
           <CardContent>
             <div className="text-2xl font-bold">{(metrics as any)?.upcoming_contributions_count || 0}</div>
             <p className="text-xs text-muted-foreground">
-              Members due this month
+              {t('dashboard.members.due', { count: metrics?.upcoming_contributions_count || 0 })}
             </p>
           </CardContent>
         </Card>
@@ -66,7 +66,7 @@ export const ChamaDashboard: React.FC<ChamaDashboardProps> = ({ chamaId }) => {
           <CardContent>
             <div className="text-2xl font-bold">{(metrics as any)?.pending_votes_count || 0}</div>
             <p className="text-xs text-muted-foreground">
-              Active voting sessions
+              {t('dashboard.voting.sessions', { count: metrics?.pending_votes_count || 0 })}
             </p>
           </CardContent>
         </Card>
@@ -79,7 +79,7 @@ export const ChamaDashboard: React.FC<ChamaDashboardProps> = ({ chamaId }) => {
           <CardContent>
             <div className="text-2xl font-bold">{(metrics as any)?.roi_percentage || 0}%</div>
             <p className="text-xs text-muted-foreground">
-              Annual return rate
+              {t('analytics.annual.return')}
             </p>
           </CardContent>
         </Card>
@@ -91,13 +91,13 @@ export const ChamaDashboard: React.FC<ChamaDashboardProps> = ({ chamaId }) => {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Target className="h-5 w-5" />
-              Group Performance
+              {t('dashboard.group.performance')}
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
             <div>
               <div className="flex justify-between text-sm mb-2">
-                <span>Contribution Compliance</span>
+                <span>{t('dashboard.contribution.compliance')}</span>
                 <span>{(metrics as any)?.average_repayment_performance || 0}%</span>
               </div>
               <Progress 
@@ -107,7 +107,7 @@ export const ChamaDashboard: React.FC<ChamaDashboardProps> = ({ chamaId }) => {
                        (metrics as any)?.average_repayment_performance >= 70 ? 'warning' : 'destructive'}
               />
               <p className="text-sm text-muted-foreground">
-                {(metrics as any)?.average_repayment_performance || 0}% Average Repayment Rate
+                {t('dashboard.average.repayment', { rate: metrics?.average_repayment_performance || 0 })}
               </p>
             </div>
           </CardContent>
@@ -117,21 +117,21 @@ export const ChamaDashboard: React.FC<ChamaDashboardProps> = ({ chamaId }) => {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <CheckCircle className="h-5 w-5" />
-              Quick Actions
+              {t('dashboard.quick.actions')}
             </CardTitle>
           </CardHeader>
           <CardContent>
             <div className="grid gap-2">
               <div className="flex items-center justify-between p-2 border rounded-lg">
-                <span className="text-sm">Pending Approvals</span>
+                <span className="text-sm">{t('dashboard.pending.approvals')}</span>
                 <span className="font-medium">3</span>
               </div>
               <div className="flex items-center justify-between p-2 border rounded-lg">
-                <span className="text-sm">Loan Applications</span>
+                <span className="text-sm">{t('dashboard.loan.applications')}</span>
                 <span className="font-medium">2</span>
               </div>
               <div className="flex items-center justify-between p-2 border rounded-lg">
-                <span className="text-sm">Overdue Payments</span>
+                <span className="text-sm">{t('dashboard.overdue.payments')}</span>
                 <span className="font-medium text-destructive">1</span>
               </div>
             </div>
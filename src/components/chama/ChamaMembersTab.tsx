@@ -11,6 +11,8 @@ import { useChamaMembers } from '@/hooks/useChamaMembers';
 import { useCSVExport } from '@/hooks/useCSVExport';
 import { RoleManagement } from './RoleManagement';
 import { toast } from '@/hooks/use-toast';
+import { useCurrency } from '@/hooks/useCurrency';
+import { formatCurrency } from '@/lib/currency';
 
 interface ChamaMembersTabProps {
   chamaId: string;
@@ -31,6 +33,7 @@ export const ChamaMembersTab: React.FC<ChamaMembersTabProps> = ({
   
   const { data: members, isLoading } = useChamaMembers(chamaId);
   const { exportToCSV } = useCSVExport();
+  const { currency } = useCurrency();
 
   const filteredMembers = members?.filter(member => {
     const profile = member.profiles as any;
@@ -87,13 +90,6 @@ export const ChamaMembersTab: React.FC<ChamaMembersTabProps> = ({
     );
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-KE', {
-      style: 'currency',
-      currency: 'KES'
-    }).format(amount);
-  };
-
   const getInitials = (name: string) => {
     return name?.split(' ').map(n => n[0]).join('').toUpperCase() || '??';
   };
@@ -273,7 +269,7 @@ export const ChamaMembersTab: React.FC<ChamaMembersTabProps> = ({
 
                   <div className="flex items-center gap-4">
                     <div className="text-right">
-                      <p className="font-medium text-foreground">{formatCurrency(member.total_contributed || 0)}</p>
+                      <p className="font-medium text-foreground">{formatCurrency(member.total_contributed || 0, currency)}</p>
                       <p className="text-xs text-muted-foreground">Total Contributed</p>
                       {member.last_contribution_date && (
                         <p className="text-xs text-muted-foreground mt-1">
@@ -358,13 +354,7 @@ const MemberDetailsView: React.FC<{ member: any; chamaId: string; isAdmin: boole
 }) => {
   const profile = member.profiles as any;
   const memberName = profile?.full_name || profile?.email || 'Unknown Member';
-  
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-KE', {
-      style: 'currency',
-      currency: 'KES'
-    }).format(amount);
-  };
+  const { currency } = useCurrency();
 
   return (
     <div className="space-y-6">
@@ -406,19 +396,19 @@ const MemberDetailsView: React.FC<{ member: any; chamaId: string; isAdmin: boole
         <Card>
           <CardContent className="p-4">
             <p className="text-sm text-muted-foreground">Total Contributed</p>
-            <p className="text-2xl font-bold">{formatCurrency(member.total_contributed || 0)}</p>
+            <p className="text-2xl font-bold">{formatCurrency(member.total_contributed || 0, currency)}</p>
           </CardContent>
         </Card>
         <Card>
           <CardContent className="p-4">
             <p className="text-sm text-muted-foreground">Savings Balance</p>
-            <p className="text-2xl font-bold">{formatCurrency(member.savings_balance || 0)}</p>
+            <p className="text-2xl font-bold">{formatCurrency(member.savings_balance || 0, currency)}</p>
           </CardContent>
         </Card>
         <Card>
           <CardContent className="p-4">
             <p className="text-sm text-muted-foreground">MGR Balance</p>
-            <p className="text-2xl font-bold">{formatCurrency(member.mgr_balance || 0)}</p>
+            <p className="text-2xl font-bold">{formatCurrency(member.mgr_balance || 0, currency)}</p>
           </CardContent>
         </Card>
         <Card>
@@ -441,11 +431,11 @@ const MemberDetailsView: React.FC<{ member: any; chamaId: string; isAdmin: boole
         <CardContent className="space-y-3">
           <div className="flex justify-between items-center p-3 bg-muted/30 rounded">
             <span className="text-sm">Chama Savings Wallet</span>
-            <span className="font-semibold">{formatCurrency(member.savings_balance || 0)}</span>
+            <span className="font-semibold">{formatCurrency(member.savings_balance || 0, currency)}</span>
           </div>
           <div className="flex justify-between items-center p-3 bg-muted/30 rounded">
             <span className="text-sm">Merry-Go-Round Wallet</span>
-            <span className="font-semibold">{formatCurrency(member.mgr_balance || 0)}</span>
+            <span className="font-semibold">{formatCurrency(member.mgr_balance || 0, currency)}</span>
           </div>
           <div className="flex justify-between items-center p-3 bg-muted/30 rounded">
             <span className="text-sm">Withdrawal Status</span>
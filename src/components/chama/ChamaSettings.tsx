@@ -5,10 +5,14 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Lock, Unlock, Edit2, Save, X, Upload, Shield, Eye } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useCurrencySettings } from '@/hooks/useExchangeRates';
+import { CURRENCIES, currencyOf, isCurrencyCode } from '@/lib/currency';
+import SmsSettingsCard from './SmsSettingsCard';
 
 interface ChamaSettingsProps {
   chamaData: any;
@@ -27,6 +31,7 @@ const ChamaSettings: React.FC<ChamaSettingsProps> = ({
 }) => {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { setChamaCurrency } = useCurrencySettings();
   const [isEditing, setIsEditing] = useState(false);
   const [formData, setFormData] = useState({
     name: chamaData?.name || '',
@@ -229,6 +234,40 @@ const ChamaSettings: React.FC<ChamaSettingsProps> = ({
             )}
           </div>
 
+          {/* Currency */}
+          <div className="space-y-2">
+            <Label>Currency</Label>
+            {canEdit ? (
+              <>
+                <Select
+                  value={currencyOf(chamaData)}
+                  onValueChange={(currency) => {
+                    if (isCurrencyCode(currency)) {
+                      setChamaCurrency.mutate({ chamaId: chamaData.id, currency });
+                    }
+                  }}
+                  disabled={setChamaCurrency.isPending}
+                >
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCIES.map((currency) => (
+                      <SelectItem key={currency.code} value={currency.code}>
+                        {currency.code} · {currency.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Can only be changed while the chama's wallets are empty. Members in other currencies are converted when they pay in.
+                </p>
+              </>
+            ) : (
+              <p className="text-sm font-medium">{currencyOf(chamaData)}</p>
+            )}
+          </div>
+
           {/* Description */}
           <div className="space-y-2">
             <Label>Description</Label>
@@ -375,6 +414,8 @@ const ChamaSettings: React.FC<ChamaSettingsProps> = ({
           </CardContent>
         </Card>
       )}
+
+      {chamaData?.id && <SmsSettingsCard chamaId={chamaData.id} />}
     </div>
   );
 };
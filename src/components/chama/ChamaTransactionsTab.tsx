@@ -6,6 +6,8 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { useChamaTransactions } from '@/hooks/useChamaTransactions';
+import { useCurrency } from '@/hooks/useCurrency';
+import { formatCurrency } from '@/lib/currency';
 
 interface ChamaTransactionsTabProps {
   chamaId: string;
@@ -24,6 +26,7 @@ export const ChamaTransactionsTab: React.FC<ChamaTransactionsTabProps> = ({
   const [sortBy, setSortBy] = useState('date_desc');
   
   const { data: transactions, isLoading } = useChamaTransactions(chamaId);
+  const { currency } = useCurrency();
 
   const filteredTransactions = transactions?.filter(transaction => {
     const matchesSearch = !searchQuery || 
@@ -78,13 +81,6 @@ export const ChamaTransactionsTab: React.FC<ChamaTransactionsTabProps> = ({
     );
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-KE', {
-      style: 'currency',
-      currency: 'KES'
-    }).format(amount);
-  };
-
   const calculateTotals = () => {
     const deposits = sortedTransactions
       .filter(t => t.transaction_type === 'deposit' && t.status === 'completed')
@@ -136,7 +132,7 @@ export const ChamaTransactionsTab: React.FC<ChamaTransactionsTabProps> = ({
               <div>
                 <p className="text-sm text-muted-foreground">Total Deposits</p>
                 <p className="text-lg font-semibold text-green-600">
-                  {formatCurrency(totals.deposits)}
+                  {formatCurrency(totals.deposits, currency)}
                 </p>
               </div>
             </div>
@@ -152,7 +148,7 @@ export const ChamaTransactionsTab: React.FC<ChamaTransactionsTabProps> = ({
               <div>
                 <p className="text-sm text-muted-foreground">Total Withdrawals</p>
                 <p className="text-lg font-semibold text-red-600">
-                  {formatCurrency(totals.withdrawals)}
+                  {formatCurrency(totals.withdrawals, currency)}
                 </p>
               </div>
             </div>
@@ -168,7 +164,7 @@ export const ChamaTransactionsTab: React.FC<ChamaTransactionsTabProps> = ({
               <div>
                 <p className="text-sm text-muted-foreground">Net Balance</p>
                 <p className={`text-lg font-semibold ${totals.net >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                  {formatCurrency(totals.net)}
+                  {formatCurrency(totals.net, currency)}
                 </p>
               </div>
             </div>
@@ -277,7 +273,7 @@ export const ChamaTransactionsTab: React.FC<ChamaTransactionsTabProps> = ({
                       transaction.transaction_type === 'deposit' ? 'text-green-600' : 'text-red-600'
                     }`}>
                       {transaction.transaction_type === 'deposit' ? '+' : '-'}
-                      {formatCurrency(transaction.amount)}
+                      {formatCurrency(transaction.amount, currency)}
                     </p>
                   </div>
                 </div>
@@ -1,11 +1,11 @@
 import React, { useState } from 'react';
-import { Vote, Users, Clock, CheckCircle, XCircle, Calendar } from 'lucide-react';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Vote, CheckCircle, XCircle, Lock, Scale, ShieldCheck, Users } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { useChamaVotes } from '@/hooks/useChamaVotes';
-import { useToast } from '@/hooks/use-toast';
+import { useChamaVotes, ChamaVote, ApprovalThreshold, BallotType, VoteAction, VoteOutcome } from '@/hooks/useChamaVotes';
+import CreateVoteModal from './CreateVoteModal';
 
 interface ChamaVotingTabProps {
   chamaId: string;
@@ -13,30 +13,68 @@ interface ChamaVotingTabProps {
   isAdmin?: boolean;
 }
 
-export const ChamaVotingTab: React.FC<ChamaVotingTabProps> = ({ 
-  chamaId, 
+const BALLOT_LABELS: Record<BallotType, string> = {
+  yes_no: 'Yes / No',
+  multiple_choice: 'Multiple choice',
+  ranked: 'Ranked choice',
+};
+
+const THRESHOLD_LABELS: Record<ApprovalThreshold, string> = {
+  plurality: 'Most votes',
+  simple_majority: 'Over 50%',
+  two_thirds: 'Two-thirds',
+  unanimous: 'Unanimous',
+};
+
+const OUTCOME_LABELS: Record<VoteOutcome, string> = {
+  passed: 'PASSED',
+  rejected: 'REJECTED',
+  no_quorum: 'NO QUORUM',
+};
+
+const ACTION_APPLIED_LABELS: Record<VoteAction, string> = {
+  approve_loan: 'Loan decision applied',
+  update_settings: 'Chama settings updated',
+  withdrawal: 'Withdrawal paid out',
+  loan_disbursement: 'Loan disbursed',
+  role_change: 'Role changed',
+  delete_chama: 'Chama deleted',
+};
+
+export const ChamaVotingTab: React.FC<ChamaVotingTabProps> = ({
+  chamaId,
   userRole = 'member',
-  isAdmin = false 
+  isAdmin = false
 }) => {
   const [selectedFilter, setSelectedFilter] = useState('active');
-  
-  const { votes, isLoading, castVote, isCasting } = useChamaVotes(chamaId);
-  const { toast } = useToast();
-
-  const handleVote = async (voteId: string, response: boolean) => {
-    try {
-      await castVote({ voteId, response });
-      toast({
-        title: "Vote Cast! 🗳️",
-        description: `Your ${response ? 'YES' : 'NO'} vote has been recorded`,
-      });
-    } catch (error: any) {
-      toast({
-        title: "Vote Failed",
-        description: error.message || "Failed to cast vote",
-        variant: "destructive",
-      });
-    }
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  // Ranked ballots being filled in, by vote id
+  const [rankings, setRankings] = useState<Record<string, number[]>>({});
+
+  const { votes, isLoading, castVote, isCasting, createVote, isCreating } = useChamaVotes(chamaId);
+  const canOpenVotes = isAdmin || userRole === 'treasurer';
+
+  const handleVote = (voteId: string, optionIndex: number) => {
+    castVote({ voteId, optionIndex });
+  };
+
+  const handleRank = (voteId: string, optionIndex: number) => {
+    setRankings((current) => {
+      const ranked = current[voteId] ?? [];
+      return {
+        ...current,
+        [voteId]: ranked.includes(optionIndex)
+          ? ranked.filter((index) => index !== optionIndex)
+          : [...ranked, optionIndex],
+      };
+    });
+  };
+
+  const handleSubmitRanking = (voteId: string) => {
+    castVote(
+      { voteId, rankings: rankings[voteId] },
+      { onSuccess: () => setRankings((current) => ({ ...current, [voteId]: [] })) }
+    );
   };
 
   const filteredVotes = votes?.filter(vote => {
@@ -66,31 +104,161 @@ export const ChamaVotingTab: React.FC<ChamaVotingTabProps> = ({
     );
   };
 
-  const calculateVotePercentage = (yesVotes: number, noVotes: number) => {
-    const total = yesVotes + noVotes;
-    if (total === 0) return { yesPercent: 0, noPercent: 0 };
-    
-    return {
-      yesPercent: (yesVotes / total) * 100,
-      noPercent: (noVotes / total) * 100
-    };
-  };
-
   const getTimeRemaining = (deadline: string) => {
     const now = new Date();
     const deadlineDate = new Date(deadline);
     const diff = deadlineDate.getTime() - now.getTime();
-    
+
     if (diff <= 0) return 'Expired';
-    
+
     const days = Math.floor(diff / (1000 * 60 * 60 * 24));
     const hours = Math.floor((diff % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
-    
+
     if (days > 0) return `${days} day${days > 1 ? 's' : ''} left`;
     if (hours > 0) return `${hours} hour${hours > 1 ? 's' : ''} left`;
     return 'Less than 1 hour left';
   };
 
+  const renderTally = (vote: ChamaVote) => {
+    if (vote.required_approvals !== null) {
+      return (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between text-sm">
+            <span className="flex items-center gap-2">
+              <ShieldCheck className="h-4 w-4 text-green-600" />
+              Approvals: {vote.yes_votes} of {vote.required_approvals}
+            </span>
+            {vote.no_votes > 0 && (
+              <span className="text-muted-foreground">{vote.no_votes} declined</span>
+            )}
+          </div>
+          <Progress value={Math.min(100, (vote.yes_votes * 100) / vote.required_approvals)} className="h-2" />
+        </div>
+      );
+    }
+
+    if (!vote.results) {
+      return (
+        <p className="text-sm text-muted-foreground flex items-center gap-2">
+          <Lock className="h-4 w-4" />
+          {vote.is_secret ? 'Secret ballot: results are revealed when voting closes' : 'No votes yet'}
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-2">
+        {vote.results.options.map((option) => (
+          <div key={option.index} className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span className="flex items-center gap-2">
+                {vote.ballot_type === 'yes_no' && (option.index === 0
+                  ? <CheckCircle className="h-4 w-4 text-green-600" />
+                  : <XCircle className="h-4 w-4 text-red-600" />)}
+                {option.label}: {option.votes}
+                {vote.ballot_type === 'ranked' && ' first choice'}
+              </span>
+              <span className="text-muted-foreground">{Math.round(option.percent)}%</span>
+            </div>
+            <Progress value={option.percent} className="h-2" />
+          </div>
+        ))}
+        {vote.results.rounds && vote.results.rounds.length > 1 && (
+          <p className="text-xs text-muted-foreground">
+            {vote.results.rounds
+              .filter((round) => round.eliminated !== null)
+              .map((round) => `Round ${round.round}: ${vote.options[round.eliminated as number]} eliminated`)
+              .join(' · ')}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  const renderBallot = (vote: ChamaVote) => {
+    const myChoice = vote.my_ballot?.option_index;
+
+    if (vote.ballot_type === 'yes_no') {
+      const isSignOff = vote.electorate === 'officers';
+      return (
+        <div className="flex gap-3 pt-2">
+          <Button
+            size="sm"
+            onClick={() => handleVote(vote.id, 0)}
+            disabled={isCasting}
+            className="flex-1 bg-green-600 hover:bg-green-700"
+          >
+            <CheckCircle className="h-4 w-4 mr-1" />
+            {isSignOff ? (myChoice === 0 ? 'Approved' : 'Approve') : (myChoice === 0 ? 'Voted YES' : 'Vote YES')}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => handleVote(vote.id, 1)}
+            disabled={isCasting}
+            className="flex-1 text-red-600 border-red-200 hover:bg-red-50"
+          >
+            <XCircle className="h-4 w-4 mr-1" />
+            {isSignOff ? (myChoice === 1 ? 'Declined' : 'Decline') : (myChoice === 1 ? 'Voted NO' : 'Vote NO')}
+          </Button>
+        </div>
+      );
+    }
+
+    if (vote.ballot_type === 'multiple_choice') {
+      return (
+        <div className="grid gap-2 pt-2 sm:grid-cols-2">
+          {vote.options.map((option, index) => (
+            <Button
+              key={index}
+              size="sm"
+              variant={myChoice === index ? 'default' : 'outline'}
+              onClick={() => handleVote(vote.id, index)}
+              disabled={isCasting}
+            >
+              {option}
+            </Button>
+          ))}
+        </div>
+      );
+    }
+
+    const ranked = rankings[vote.id] ?? [];
+    return (
+      <div className="space-y-2 pt-2">
+        <p className="text-xs text-muted-foreground">
+          Tap options in order of preference{vote.my_ballot?.rankings ? '; submitting again replaces your ranking' : ''}
+        </p>
+        <div className="grid gap-2 sm:grid-cols-2">
+          {vote.options.map((option, index) => {
+            const position = ranked.indexOf(index);
+            return (
+              <Button
+                key={index}
+                size="sm"
+                variant={position >= 0 ? 'default' : 'outline'}
+                onClick={() => handleRank(vote.id, index)}
+                disabled={isCasting}
+                className="justify-start"
+              >
+                {position >= 0 && <span className="mr-2 font-bold">{position + 1}.</span>}
+                {option}
+              </Button>
+            );
+          })}
+        </div>
+        <Button
+          size="sm"
+          className="w-full"
+          onClick={() => handleSubmitRanking(vote.id)}
+          disabled={isCasting || ranked.length === 0}
+        >
+          Submit Ranking
+        </Button>
+      </div>
+    );
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center p-8">
@@ -109,8 +277,8 @@ export const ChamaVotingTab: React.FC<ChamaVotingTabProps> = ({
             Participate in group decisions and proposals
           </p>
         </div>
-        {isAdmin && (
-          <Button>
+        {canOpenVotes && (
+          <Button onClick={() => setShowCreateModal(true)}>
             Create Vote
           </Button>
         )}
@@ -149,16 +317,16 @@ export const ChamaVotingTab: React.FC<ChamaVotingTabProps> = ({
               <Vote className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <h3 className="font-medium text-foreground mb-2">No votes found</h3>
               <p className="text-sm text-muted-foreground">
-                {selectedFilter === 'active' 
-                  ? 'No active votes at the moment.' 
+                {selectedFilter === 'active'
+                  ? 'No active votes at the moment.'
                   : `No ${selectedFilter} votes to display.`}
               </p>
             </CardContent>
           </Card>
         ) : (
           filteredVotes.map((vote) => {
-            const { yesPercent, noPercent } = calculateVotePercentage(vote.yes_votes, vote.no_votes);
-            
+            const castVotes = vote.results?.cast_votes ?? 0;
+
             return (
               <Card key={vote.id} className="hover:shadow-md transition-shadow">
                 <CardContent className="p-6">
@@ -169,24 +337,53 @@ export const ChamaVotingTab: React.FC<ChamaVotingTabProps> = ({
                         <div className="flex items-center gap-3 mb-2">
                           <h4 className="font-medium text-foreground">{vote.title}</h4>
                           {getStatusBadge(vote.status)}
+                          {vote.electorate === 'officers' && (
+                            <Badge variant="outline">
+                              <ShieldCheck className="h-3 w-3 mr-1" />
+                              Officer approval
+                            </Badge>
+                          )}
+                          {vote.is_secret && (
+                            <Badge variant="outline">
+                              <Lock className="h-3 w-3 mr-1" />
+                              Secret
+                            </Badge>
+                          )}
                         </div>
-                        
+
                         {vote.description && (
                           <p className="text-sm text-muted-foreground mb-3">
                             {vote.description}
                           </p>
                         )}
 
-                        <div className="flex items-center gap-6 text-sm text-muted-foreground">
+                        <div className="flex flex-wrap items-center gap-6 text-sm text-muted-foreground">
                           <div>
                             <p className="text-muted-foreground">Initiated by</p>
-                            <p className="font-medium">Admin</p>
+                            <p className="font-medium">{vote.initiator?.profiles?.full_name || 'Admin'}</p>
                           </div>
                           <div>
                             <p className="text-muted-foreground">Type</p>
-                            <p className="font-medium capitalize">{vote.vote_type}</p>
+                            <p className="font-medium">{BALLOT_LABELS[vote.ballot_type]}</p>
                           </div>
-                          {vote.deadline && (
+                          {vote.required_approvals !== null ? (
+                            <div>
+                              <p className="text-muted-foreground">To pass</p>
+                              <p className="font-medium">{vote.required_approvals} officer approvals</p>
+                            </div>
+                          ) : (
+                            <>
+                              <div>
+                                <p className="text-muted-foreground">To pass</p>
+                                <p className="font-medium">{THRESHOLD_LABELS[vote.approval_threshold]}</p>
+                              </div>
+                              <div>
+                                <p className="text-muted-foreground">Quorum</p>
+                                <p className="font-medium">{vote.quorum_percent}%</p>
+                              </div>
+                            </>
+                          )}
+                          {vote.deadline && vote.status === 'active' && (
                             <div>
                               <p className="text-muted-foreground">Deadline</p>
                               <p className="font-medium">{getTimeRemaining(vote.deadline)}</p>
@@ -199,80 +396,59 @@ export const ChamaVotingTab: React.FC<ChamaVotingTabProps> = ({
                     {/* Vote Progress */}
                     <div className="space-y-3">
                       <div className="flex items-center justify-between text-sm">
-                        <span className="text-muted-foreground">
-                          Votes: {vote.yes_votes + vote.no_votes} of {vote.total_eligible_voters}
+                        <span className="text-muted-foreground flex items-center gap-1">
+                          <Users className="h-4 w-4" />
+                          {vote.results
+                            ? `Votes: ${castVotes} of ${vote.total_eligible_voters}`
+                            : `${vote.total_eligible_voters} eligible voters`}
                         </span>
-                        <span className="text-muted-foreground">
-                          {vote.total_eligible_voters > 0 
-                            ? Math.round(((vote.yes_votes + vote.no_votes) / vote.total_eligible_voters) * 100)
-                            : 0
-                          }% participation
-                        </span>
-                      </div>
-                      
-                      <div className="space-y-2">
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center gap-2">
-                            <CheckCircle className="h-4 w-4 text-green-600" />
-                            <span className="text-sm">YES: {vote.yes_votes}</span>
-                          </div>
-                          <span className="text-sm text-muted-foreground">
-                            {Math.round(yesPercent)}%
+                        {vote.results && (
+                          <span className="text-muted-foreground">
+                            {Math.round(vote.results.turnout_percent)}% turnout
                           </span>
-                        </div>
-                        <Progress value={yesPercent} className="h-2" />
-                        
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center gap-2">
-                            <XCircle className="h-4 w-4 text-red-600" />
-                            <span className="text-sm">NO: {vote.no_votes}</span>
-                          </div>
-                          <span className="text-sm text-muted-foreground">
-                            {Math.round(noPercent)}%
-                          </span>
-                        </div>
-                        <Progress value={noPercent} className="h-2" />
+                        )}
                       </div>
+                      {vote.weighting === 'savings' && (
+                        <p className="text-xs text-muted-foreground flex items-center gap-1">
+                          <Scale className="h-3 w-3" />
+                          Weighted by savings{vote.my_weight !== null && ` · your vote counts KES ${Number(vote.my_weight).toLocaleString()}`}
+                        </p>
+                      )}
+                      {renderTally(vote)}
                     </div>
 
                     {/* Vote Actions */}
-                    {vote.status === 'active' && (
-                      <div className="flex gap-3 pt-2">
-                        <Button
-                          size="sm"
-                          onClick={() => handleVote(vote.id, true)}
-                          disabled={isCasting}
-                          className="flex-1 bg-green-600 hover:bg-green-700"
-                        >
-                          <CheckCircle className="h-4 w-4 mr-1" />
-                          Vote YES
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => handleVote(vote.id, false)}
-                          disabled={isCasting}
-                          className="flex-1 text-red-600 border-red-200 hover:bg-red-50"
-                        >
-                          <XCircle className="h-4 w-4 mr-1" />
-                          Vote NO
-                        </Button>
-                      </div>
+                    {vote.can_vote && renderBallot(vote)}
+                    {vote.status === 'active' && !vote.can_vote && (
+                      <p className="text-xs text-muted-foreground">
+                        {vote.electorate === 'officers'
+                          ? 'Only the chama officers can approve this request.'
+                          : 'Only members who were active when this vote opened can vote.'}
+                      </p>
                     )}
 
                     {/* Vote Result */}
-                    {vote.status === 'completed' && (
+                    {vote.outcome && (
                       <div className="pt-2">
                         <div className={`p-3 rounded-lg ${
-                          vote.yes_votes > vote.no_votes 
-                            ? 'bg-green-50 border border-green-200' 
+                          vote.outcome === 'passed'
+                            ? 'bg-green-50 border border-green-200'
                             : 'bg-red-50 border border-red-200'
                         }`}>
                           <p className={`text-sm font-medium ${
-                            vote.yes_votes > vote.no_votes ? 'text-green-800' : 'text-red-800'
+                            vote.outcome === 'passed' ? 'text-green-800' : 'text-red-800'
                           }`}>
-                            Vote {vote.yes_votes > vote.no_votes ? 'PASSED' : 'FAILED'}
+                            Vote {OUTCOME_LABELS[vote.outcome]}
+                            {vote.ballot_type !== 'yes_no' && vote.results?.winner_label && `: ${vote.results.winner_label}`}
                           </p>
+                          {vote.action_executed_at && (
+                            <p className="text-xs text-green-700 mt-1">
+                              {vote.action_type && ACTION_APPLIED_LABELS[vote.action_type]}
+                            </p>
+                          )}
+                          {vote.action_error && (
+                            <p className="text-xs text-red-700 mt-1">Action not applied: {vote.action_error}</p>
+                          )}
                         </div>
                       </div>
                     )}
@@ -283,6 +459,14 @@ export const ChamaVotingTab: React.FC<ChamaVotingTabProps> = ({
           })
         )}
       </div>
+
+      <CreateVoteModal
+        isOpen={showCreateModal}
+        onClose={() => setShowCreateModal(false)}
+        chamaId={chamaId}
+        onCreate={createVote}
+        isCreating={isCreating}
+      />
     </div>
   );
-};
\ No newline at end of file
+};
@@ -9,8 +9,12 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { DollarSign, Loader2, Wallet, Smartphone, AlertCircle } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
+import { useIdempotencyKey } from '@/hooks/useIdempotencyKey';
+import { invokeWithPinStepUp } from '@/lib/pinStepUp';
 import { supabase } from '@/lib/supabase';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useCurrency } from '@/hooks/useCurrency';
+import { formatCurrency } from '@/lib/currency';
 
 interface ContributeModalProps {
   isOpen: boolean;
@@ -35,7 +39,9 @@ export const ContributeModal: React.FC<ContributeModalProps> = ({
 
   const { user } = useAuth();
   const { toast } = useToast();
+  const { getIdempotencyHeaders, resetKey } = useIdempotencyKey();
   const queryClient = useQueryClient();
+  const { currency } = useCurrency();
 
   // Get user central wallet balance
   const { data: walletData } = useQuery({
@@ -56,16 +62,19 @@ export const ContributeModal: React.FC<ContributeModalProps> = ({
   // Wallet contribution mutation
   const walletContributionMutation = useMutation({
     mutationFn: async ({ amount, notes }: { amount: number; notes: string }) => {
-      const { data, error } = await supabase.functions.invoke('make-contribution', {
-        body: {
-          chamaId,
-          amount,
-          paymentMethod: 'wallet',
-          notes
-        }
+      const body = {
+        chamaId,
+        amount,
+        paymentMethod: 'wallet',
+        notes
+      };
+      const { data, error } = await invokeWithPinStepUp('make-contribution', {
+        body,
+        headers: getIdempotencyHeaders(body)
       });
       if (error) throw error;
       if (!data.success) throw new Error(data.error || 'Contribution failed');
+      resetKey();
       return data;
     },
     onSuccess: () => {
@@ -144,13 +153,6 @@ export const ContributeModal: React.FC<ContributeModalProps> = ({
     }));
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-KE', {
-      style: 'currency',
-      currency: 'KES'
-    }).format(amount);
-  };
-
   const walletBalance = walletData?.balance || 0;
   const amount = parseFloat(formData.amount) || 0;
   const isProcessing = walletContributionMutation.isPending;
@@ -175,7 +177,7 @@ export const ContributeModal: React.FC<ContributeModalProps> = ({
                   <div>
                     <p className="text-sm text-muted-foreground">Central Wallet Balance</p>
                     <p className="text-2xl font-bold text-foreground">
-                      {formatCurrency(walletBalance)}
+                      {formatCurrency(walletBalance, currency)}
                     </p>
                   </div>
                 </div>
@@ -193,7 +195,7 @@ export const ContributeModal: React.FC<ContributeModalProps> = ({
                 <div className="text-center">
                   <p className="text-sm text-muted-foreground mb-1">Expected Contribution</p>
                   <p className="text-xl font-semibold text-foreground">
-                    {formatCurrency(expectedAmount)}
+                    {formatCurrency(expectedAmount, currency)}
                   </p>
                 </div>
               </CardContent>
@@ -218,7 +220,7 @@ export const ContributeModal: React.FC<ContributeModalProps> = ({
                 <Alert variant="destructive">
                   <AlertCircle className="h-4 w-4" />
                   <AlertDescription>
-                    Insufficient balance. You need {formatCurrency(amount - walletBalance)} more.
+                    Insufficient balance. You need {formatCurrency(amount - walletBalance, currency)} more.
                   </AlertDescription>
                 </Alert>
               )}
@@ -290,7 +292,7 @@ export const ContributeModal: React.FC<ContributeModalProps> = ({
                   Processing...
                 </>
               ) : (
-                `Contribute ${formatCurrency(amount)}`
+                `Contribute ${formatCurrency(amount, currency)}`
               )}
             </Button>
           </div>
@@ -0,0 +1,356 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Vote, X } from 'lucide-react';
+import { useChamaLoans } from '@/hooks/useChamaLoans';
+import { ApprovalThreshold, BallotType, NewVote, VoteWeighting } from '@/hooks/useChamaVotes';
+
+interface CreateVoteModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  chamaId: string;
+  onCreate: (vote: NewVote) => Promise<unknown>;
+  isCreating: boolean;
+}
+
+const BALLOT_TYPES: { value: BallotType; label: string }[] = [
+  { value: 'yes_no', label: 'Yes / No' },
+  { value: 'multiple_choice', label: 'Multiple choice' },
+  { value: 'ranked', label: 'Ranked choice' },
+];
+
+const THRESHOLDS: { value: ApprovalThreshold; label: string }[] = [
+  { value: 'plurality', label: 'Most votes wins' },
+  { value: 'simple_majority', label: 'Simple majority (over 50%)' },
+  { value: 'two_thirds', label: 'Two-thirds' },
+  { value: 'unanimous', label: 'Unanimous' },
+];
+
+// Settings a vote can change, as columns of chama_settings
+const VOTABLE_SETTINGS: { value: string; label: string }[] = [
+  { value: 'loan_interest_rate', label: 'Loan interest rate (%)' },
+  { value: 'max_loan_amount', label: 'Maximum loan amount (KES)' },
+  { value: 'late_payment_penalty', label: 'Late payment penalty (%)' },
+  { value: 'min_guarantors', label: 'Minimum guarantors' },
+  { value: 'guarantor_coverage_percent', label: 'Guarantor coverage (%)' },
+  { value: 'voting_threshold', label: 'Default approval threshold (%)' },
+  { value: 'vote_quorum_percent', label: 'Default quorum (%)' },
+  { value: 'sensitive_approvals_required', label: 'Officer approvals required' },
+  { value: 'withdrawal_approval_threshold', label: 'Withdrawals needing approval from (KES)' },
+  { value: 'disbursement_approval_threshold', label: 'Disbursements needing approval from (KES)' },
+  { value: 'absence_fine', label: 'Meeting absence fine (KES)' },
+  { value: 'lateness_fine', label: 'Meeting lateness fine (KES)' },
+  { value: 'lateness_grace_minutes', label: 'Minutes late before fining' },
+];
+
+const CHAMA_DEFAULT = 'default';
+
+const defaultDeadline = () => {
+  const date = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 16);
+};
+
+const CreateVoteModal: React.FC<CreateVoteModalProps> = ({
+  isOpen,
+  onClose,
+  chamaId,
+  onCreate,
+  isCreating
+}) => {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [ballotType, setBallotType] = useState<BallotType>('yes_no');
+  const [options, setOptions] = useState<string[]>(['', '']);
+  const [threshold, setThreshold] = useState<string>(CHAMA_DEFAULT);
+  const [quorum, setQuorum] = useState('');
+  const [weighting, setWeighting] = useState<string>(CHAMA_DEFAULT);
+  const [isSecret, setIsSecret] = useState(false);
+  const [deadline, setDeadline] = useState(defaultDeadline);
+  const [actionType, setActionType] = useState<string>('none');
+  const [loanId, setLoanId] = useState('');
+  const [setting, setSetting] = useState(VOTABLE_SETTINGS[0].value);
+  const [settingValue, setSettingValue] = useState('');
+
+  const { loans } = useChamaLoans(chamaId);
+  const pendingLoans = loans.filter((loan) => loan.status === 'pending');
+
+  const filledOptions = options.map((option) => option.trim()).filter(Boolean);
+  const isValid = !!title.trim()
+    && (ballotType === 'yes_no' || filledOptions.length >= 2)
+    && (actionType !== 'approve_loan' || !!loanId)
+    && (actionType !== 'update_settings' || settingValue !== '');
+
+  const reset = () => {
+    setTitle('');
+    setDescription('');
+    setBallotType('yes_no');
+    setOptions(['', '']);
+    setThreshold(CHAMA_DEFAULT);
+    setQuorum('');
+    setWeighting(CHAMA_DEFAULT);
+    setIsSecret(false);
+    setDeadline(defaultDeadline());
+    setActionType('none');
+    setLoanId('');
+    setSettingValue('');
+  };
+
+  const handleSubmit = async () => {
+    if (!isValid) return;
+
+    try {
+      await onCreate({
+        title,
+        description,
+        ballotType,
+        options: ballotType === 'yes_no' ? undefined : filledOptions,
+        approvalThreshold: threshold === CHAMA_DEFAULT ? undefined : threshold as ApprovalThreshold,
+        quorumPercent: quorum === '' ? undefined : parseFloat(quorum),
+        weighting: weighting === CHAMA_DEFAULT ? undefined : weighting as VoteWeighting,
+        isSecret,
+        deadline: new Date(deadline).toISOString(),
+        actionType: actionType === 'none' ? undefined : actionType as NewVote['actionType'],
+        referenceId: actionType === 'approve_loan' ? loanId : undefined,
+        actionPayload: actionType === 'update_settings' ? { [setting]: parseFloat(settingValue) } : undefined,
+      });
+      reset();
+      onClose();
+    } catch (error) {
+      console.error('Failed to open vote:', error);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Vote className="h-5 w-5" />
+            Open a Vote
+          </DialogTitle>
+          <DialogDescription>
+            Rules left on the chama default follow your constitution settings
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="vote-title">Question</Label>
+            <Input
+              id="vote-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="What should members decide?"
+              disabled={isCreating}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="vote-description">Details</Label>
+            <Textarea
+              id="vote-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              disabled={isCreating}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Ballot</Label>
+              <Select
+                value={ballotType}
+                onValueChange={(value) => {
+                  setBallotType(value as BallotType);
+                  if (value !== 'yes_no') setActionType('none');
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BALLOT_TYPES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vote-deadline">Closes</Label>
+              <Input
+                id="vote-deadline"
+                type="datetime-local"
+                value={deadline}
+                onChange={(e) => setDeadline(e.target.value)}
+                disabled={isCreating}
+              />
+            </div>
+          </div>
+
+          {ballotType !== 'yes_no' && (
+            <div className="space-y-2">
+              <Label>Options</Label>
+              {options.map((option, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    value={option}
+                    onChange={(e) => setOptions((rows) => rows.map((row, i) => (i === index ? e.target.value : row)))}
+                    placeholder={`Option ${index + 1}`}
+                    disabled={isCreating}
+                  />
+                  {options.length > 2 && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setOptions((rows) => rows.filter((_, i) => i !== index))}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              <Button type="button" variant="ghost" size="sm" onClick={() => setOptions((rows) => [...rows, ''])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add option
+              </Button>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>To pass</Label>
+              <Select value={threshold} onValueChange={setThreshold}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CHAMA_DEFAULT}>Chama default</SelectItem>
+                  {THRESHOLDS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vote-quorum">Quorum (%)</Label>
+              <Input
+                id="vote-quorum"
+                type="number"
+                min={0}
+                max={100}
+                value={quorum}
+                onChange={(e) => setQuorum(e.target.value)}
+                placeholder="Chama default"
+                disabled={isCreating}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 items-end">
+            <div className="space-y-2">
+              <Label>Votes count</Label>
+              <Select value={weighting} onValueChange={setWeighting}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CHAMA_DEFAULT}>Chama default</SelectItem>
+                  <SelectItem value="per_member">One member, one vote</SelectItem>
+                  <SelectItem value="savings">Weighted by savings</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch id="vote-secret" checked={isSecret} onCheckedChange={setIsSecret} />
+              <Label htmlFor="vote-secret">Secret ballot</Label>
+            </div>
+          </div>
+
+          {ballotType === 'yes_no' && (
+            <div className="space-y-2">
+              <Label>If the vote passes</Label>
+              <Select value={actionType} onValueChange={setActionType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Nothing happens automatically</SelectItem>
+                  <SelectItem value="approve_loan" disabled={pendingLoans.length === 0}>Approve a loan</SelectItem>
+                  <SelectItem value="update_settings">Change a chama setting</SelectItem>
+                </SelectContent>
+              </Select>
+
+              {actionType === 'approve_loan' && (
+                <>
+                  <Select value={loanId} onValueChange={setLoanId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a pending loan" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {pendingLoans.map((loan) => (
+                        <SelectItem key={loan.id} value={loan.id}>
+                          KES {loan.amount.toLocaleString()}{loan.purpose ? ` · ${loan.purpose}` : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    The loan is approved if the vote passes and rejected if it fails.
+                  </p>
+                </>
+              )}
+
+              {actionType === 'update_settings' && (
+                <div className="grid grid-cols-2 gap-3">
+                  <Select value={setting} onValueChange={setSetting}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {VOTABLE_SETTINGS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    value={settingValue}
+                    onChange={(e) => setSettingValue(e.target.value)}
+                    placeholder="New value"
+                    disabled={isCreating}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-2">
+          <Button variant="outline" onClick={onClose} disabled={isCreating}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isValid || isCreating}>
+            {isCreating ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Opening...
+              </>
+            ) : (
+              'Open Vote'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CreateVoteModal;
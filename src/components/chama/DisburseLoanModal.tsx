@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/lib/supabase';
+import { invokeWithPinStepUp } from '@/lib/pinStepUp';
 import { CheckCircle } from 'lucide-react';
 
 interface DisburseLoanModalProps {
@@ -25,7 +25,7 @@ export const DisburseLoanModal: React.FC<DisburseLoanModalProps> = ({
     setIsProcessing(true);
 
     try {
-      const { data, error } = await supabase.functions.invoke('disburse-loan', {
+      const { data, error } = await invokeWithPinStepUp('disburse-loan', {
         body: {
           loanId: loan.id,
           chamaId
@@ -34,6 +34,16 @@ export const DisburseLoanModal: React.FC<DisburseLoanModalProps> = ({
 
       if (error) throw error;
 
+      // Large disbursements go to the officers (or a member vote) first
+      if (data?.pending) {
+        toast({
+          title: "Awaiting Approval",
+          description: data.message
+        });
+        onClose();
+        return;
+      }
+
       toast({
         title: "Loan Disbursed! ✅",
         description: "Member has been notified to provide payment details"
@@ -1,29 +1,68 @@
 import React from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Calculator, Info } from 'lucide-react';
-import { useFeeCalculation } from '@/hooks/useFeeCalculation';
+import { useFeeCalculation, fetchFeeQuotes } from '@/hooks/useFeeCalculation';
+import { useAuth } from '@/hooks/useAuth';
 import CurrencyDisplay from "@/components/CurrencyDisplay";
 
 interface FeeStructureCardProps {
   transactionTypes?: string[];
+  chamaId?: string;
   showExamples?: boolean;
   className?: string;
 }
 
+const exampleAmounts = [100, 500, 1000, 5000, 10000];
+
 export const FeeStructureCard: React.FC<FeeStructureCardProps> = ({
   transactionTypes = [],
+  chamaId,
   showExamples = true,
   className = ""
 }) => {
-  const { feeConfigurations, getTransactionTypeLabel, calculateFeeLocally } = useFeeCalculation();
+  const { user } = useAuth();
+  const { feeConfigurations, getTransactionTypeLabel } = useFeeCalculation();
   
-  const relevantConfigs = transactionTypes.length > 0 
-    ? feeConfigurations.filter(config => transactionTypes.includes(config.transaction_type))
-    : feeConfigurations;
+  // Other chamas' overrides are not relevant here
+  const relevantConfigs = feeConfigurations
+    .filter(config => !config.chama_id || config.chama_id === chamaId)
+    .filter(config => transactionTypes.length === 0 || transactionTypes.includes(config.transaction_type));
+
+  const exampleTypes = Array.from(new Set(relevantConfigs.map(config => config.transaction_type))).slice(0, 3);
+
+  // Examples are quoted by the fee engine so they include tier pricing and promotions
+  const { data: exampleQuotes = [] } = useQuery({
+    queryKey: ['fee-quote-examples', user?.id, chamaId, exampleTypes],
+    queryFn: () => fetchFeeQuotes(
+      exampleTypes.flatMap(transactionType =>
+        exampleAmounts.map(amount => ({ transactionType, amount, chamaId }))
+      )
+    ),
+    enabled: !!user && showExamples && exampleTypes.length > 0,
+    staleTime: 60000,
+  });
 
-  const exampleAmounts = [100, 500, 1000, 5000, 10000];
+  const getExampleQuote = (transactionType: string, amount: number) =>
+    exampleQuotes.find(quote => quote.transaction_type === transactionType && quote.amount === amount);
+
+  const renderScope = (config: { channel?: string | null; chama_id?: string | null; user_tier?: string | null }) => {
+    const scopes = [
+      config.channel && `via ${config.channel}`,
+      config.user_tier && `${config.user_tier} members`,
+      config.chama_id && 'this chama',
+    ].filter(Boolean);
+
+    return scopes.length > 0 ? (
+      <div className="flex flex-wrap gap-1">
+        {scopes.map(scope => (
+          <Badge key={scope as string} variant="secondary" className="text-xs">{scope}</Badge>
+        ))}
+      </div>
+    ) : null;
+  };
 
   const renderFeeStructure = (config: any) => {
     switch (config.fee_type) {
@@ -88,6 +127,7 @@ export const FeeStructureCard: React.FC<FeeStructureCardProps> = ({
                         <Badge variant="outline" className="text-xs">
                           {config.transaction_type}
                         </Badge>
+                        {renderScope(config)}
                       </div>
                     </TableCell>
                     <TableCell>
@@ -115,22 +155,25 @@ export const FeeStructureCard: React.FC<FeeStructureCardProps> = ({
                 Fee Examples
               </h4>
               
-              {relevantConfigs.slice(0, 3).map(config => (
-                <div key={config.id} className="space-y-2">
+              {exampleTypes.map(transactionType => (
+                <div key={transactionType} className="space-y-2">
                   <h5 className="font-medium text-sm">
-                    {getTransactionTypeLabel(config.transaction_type)}
+                    {getTransactionTypeLabel(transactionType)}
                   </h5>
                   <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-xs">
                     {exampleAmounts.map(amount => {
-                      const fee = calculateFeeLocally(config.transaction_type, amount);
+                      const quote = getExampleQuote(transactionType, amount);
                       return (
                         <div key={amount} className="bg-gray-50 p-2 rounded text-center">
                           <div className="font-medium">
                             <CurrencyDisplay amount={amount} showToggle={false} />
                           </div>
                           <div className="text-red-600">
-                            Fee: <CurrencyDisplay amount={fee} showToggle={false} />
+                            Fee: {quote ? <CurrencyDisplay amount={quote.fee} showToggle={false} /> : '...'}
                           </div>
+                          {quote?.waiver_name && (
+                            <div className="text-green-600">{quote.waiver_name}</div>
+                          )}
                         </div>
                       );
                     })}
@@ -149,6 +192,7 @@ export const FeeStructureCard: React.FC<FeeStructureCardProps> = ({
               <li>• M-Pesa charges may apply separately for mobile money transactions</li>
               <li>• Fee structures are designed to be competitive and fair</li>
               <li>• Premium subscribers may enjoy reduced fees on certain transactions</li>
+              <li>• Fees can differ by payment channel; the fee shown before you pay is the fee charged</li>
             </ul>
           </div>
         </div>
@@ -5,22 +5,109 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
-import { MessageSquare, Send, Wifi, WifiOff, Loader2 } from 'lucide-react';
-import { useGroupChat } from '@/hooks/useGroupChat';
-import { useAuth } from '@/hooks/useAuth';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  MessageSquare,
+  Send,
+  Wifi,
+  WifiOff,
+  Loader2,
+  Paperclip,
+  Reply,
+  Pin,
+  PinOff,
+  Trash2,
+  VolumeX,
+  Volume2,
+  MoreVertical,
+  FileText,
+  X,
+  CheckCheck,
+  Users,
+} from 'lucide-react';
+import { ChatMessage, isOfficerRole, useGroupChat } from '@/hooks/useGroupChat';
 import { formatDistanceToNow } from 'date-fns';
 
 interface GroupChatProps {
   chamaData: any;
 }
 
+const MUTE_HOURS = 24;
+
+const AttachmentPreview: React.FC<{
+  message: ChatMessage;
+  getAttachmentUrl: (path: string) => Promise<string>;
+}> = ({ message, getAttachmentUrl }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!message.attachment_path) return;
+    getAttachmentUrl(message.attachment_path)
+      .then(setUrl)
+      .catch((error) => console.error('Error loading attachment:', error));
+  }, [message.attachment_path, getAttachmentUrl]);
+
+  if (message.attachment_mime_type?.startsWith('image/')) {
+    return url ? (
+      <a href={url} target="_blank" rel="noopener noreferrer">
+        <img src={url} alt={message.attachment_name ?? 'Attachment'} className="rounded-lg max-h-48 mb-2" />
+      </a>
+    ) : (
+      <div className="h-24 w-40 rounded-lg bg-muted animate-pulse mb-2" />
+    );
+  }
+
+  return (
+    <a
+      href={url ?? undefined}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-center gap-2 text-sm underline mb-2"
+    >
+      <FileText className="h-4 w-4" />
+      {message.attachment_name ?? 'Document'}
+    </a>
+  );
+};
+
 const GroupChat: React.FC<GroupChatProps> = ({ chamaData }) => {
-  const { user } = useAuth();
-  const { messages, isLoading, sendMessage, connectionStatus, sendTypingIndicator } = useGroupChat(chamaData.id);
+  const {
+    messages,
+    pinnedMessages,
+    isLoading,
+    hasMore,
+    loadOlderMessages,
+    sendMessage,
+    connectionStatus,
+    sendTypingIndicator,
+    typingMembers,
+    onlineMembers,
+    currentMember,
+    isOfficer,
+    mutedUntil,
+    mutes,
+    getMember,
+    getMessage,
+    getSeenBy,
+    getAttachmentUrl,
+    deleteMessage,
+    setMessagePinned,
+    muteMember,
+    unmuteMember,
+  } = useGroupChat(chamaData.id);
   const [newMessage, setNewMessage] = useState('');
   const [isSending, setIsSending] = useState(false);
+  const [replyTo, setReplyTo] = useState<ChatMessage | null>(null);
+  const [file, setFile] = useState<File | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -28,7 +115,7 @@ const GroupChat: React.FC<GroupChatProps> = ({ chamaData }) => {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages.length]);
 
   // Focus input when component mounts
   useEffect(() => {
@@ -37,12 +124,16 @@ const GroupChat: React.FC<GroupChatProps> = ({ chamaData }) => {
 
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newMessage.trim() || isSending) return;
+    if ((!newMessage.trim() && !file) || isSending) return;
 
     setIsSending(true);
     try {
-      await sendMessage(newMessage);
+      await sendMessage(newMessage, { replyToId: replyTo?.id, file: file ?? undefined });
       setNewMessage('');
+      setReplyTo(null);
+      setFile(null);
+    } catch {
+      // The hook has already shown the error; keep the draft so it can be retried
     } finally {
       setIsSending(false);
       inputRef.current?.focus();
@@ -55,15 +146,16 @@ const GroupChat: React.FC<GroupChatProps> = ({ chamaData }) => {
     sendTypingIndicator();
   };
 
-  const getSenderName = (message: any) => {
-    return message.chama_members?.profiles?.full_name || 
-           message.chama_members?.profiles?.email || 
-           'Unknown User';
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] ?? null);
+    e.target.value = '';
   };
 
-  const isMyMessage = (message: any) => {
-    return message.chama_members?.user_id === user?.id;
-  };
+  const getSenderName = (message: ChatMessage) => getMember(message.sender_id)?.name || 'Unknown User';
+
+  const isMyMessage = (message: ChatMessage) => !!currentMember && message.sender_id === currentMember.id;
+
+  const isMuted = (memberId: string | null) => mutes.some((mute) => mute.member_id === memberId);
 
   const getConnectionStatusIcon = () => {
     switch (connectionStatus) {
@@ -98,6 +190,60 @@ const GroupChat: React.FC<GroupChatProps> = ({ chamaData }) => {
     }
   };
 
+  const renderActions = (message: ChatMessage) => {
+    const mine = isMyMessage(message);
+    const sender = getMember(message.sender_id);
+    const canMute = isOfficer && !mine && !!sender && !isOfficerRole(sender.role);
+
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0 opacity-60 hover:opacity-100">
+            <MoreVertical className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align={mine ? 'end' : 'start'}>
+          <DropdownMenuItem onClick={() => { setReplyTo(message); inputRef.current?.focus(); }}>
+            <Reply className="h-4 w-4 mr-2" />
+            Reply
+          </DropdownMenuItem>
+          {isOfficer && (
+            <DropdownMenuItem onClick={() => setMessagePinned(message.id, !message.is_pinned)}>
+              {message.is_pinned ? <PinOff className="h-4 w-4 mr-2" /> : <Pin className="h-4 w-4 mr-2" />}
+              {message.is_pinned ? 'Unpin' : 'Pin'}
+            </DropdownMenuItem>
+          )}
+          {canMute && sender && (
+            isMuted(sender.id) ? (
+              <DropdownMenuItem onClick={() => unmuteMember(sender.id)}>
+                <Volume2 className="h-4 w-4 mr-2" />
+                Unmute {sender.name}
+              </DropdownMenuItem>
+            ) : (
+              <DropdownMenuItem
+                onClick={() => muteMember(sender.id, new Date(Date.now() + MUTE_HOURS * 60 * 60 * 1000).toISOString())}
+              >
+                <VolumeX className="h-4 w-4 mr-2" />
+                Mute {sender.name} for {MUTE_HOURS}h
+              </DropdownMenuItem>
+            )
+          )}
+          {(mine || isOfficer) && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem className="text-destructive" onClick={() => deleteMessage(message.id)}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    );
+  };
+
+  const canSend = connectionStatus === 'connected' && !mutedUntil && !isSending;
+
   return (
     <div className="space-y-6">
       <div>
@@ -112,14 +258,36 @@ const GroupChat: React.FC<GroupChatProps> = ({ chamaData }) => {
               <MessageSquare className="h-5 w-5" />
               {chamaData.name} Chat
             </CardTitle>
-            <Badge variant="secondary" className={`flex items-center gap-2 ${getConnectionStatusColor()}`}>
-              {getConnectionStatusIcon()}
-              {getConnectionStatusText()}
-            </Badge>
+            <div className="flex items-center gap-2">
+              <Badge
+                variant="outline"
+                className="flex items-center gap-1"
+                title={onlineMembers.map((member) => member.name).join(', ')}
+              >
+                <Users className="h-3 w-3" />
+                {onlineMembers.length} online
+              </Badge>
+              <Badge variant="secondary" className={`flex items-center gap-2 ${getConnectionStatusColor()}`}>
+                {getConnectionStatusIcon()}
+                {getConnectionStatusText()}
+              </Badge>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
+            {pinnedMessages.length > 0 && (
+              <div className="border rounded-lg p-3 bg-amber-50 space-y-1">
+                {pinnedMessages.map((message) => (
+                  <div key={message.id} className="flex items-start gap-2 text-sm">
+                    <Pin className="h-3 w-3 mt-1 text-amber-700 shrink-0" />
+                    <span className="font-medium">{getSenderName(message)}:</span>
+                    <span className="truncate">{message.message || message.attachment_name}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
             <ScrollArea className="h-[400px] border rounded-lg p-4 bg-gray-50/50">
               {isLoading ? (
                 <div className="flex items-center justify-center h-full">
@@ -138,18 +306,29 @@ const GroupChat: React.FC<GroupChatProps> = ({ chamaData }) => {
                 </div>
               ) : (
                 <div className="space-y-4">
+                  {hasMore && (
+                    <div className="flex justify-center">
+                      <Button variant="ghost" size="sm" onClick={loadOlderMessages}>
+                        Load earlier messages
+                      </Button>
+                    </div>
+                  )}
                   {messages.map((message, index) => {
-                    const isFirst = index === 0 || messages[index - 1].chama_members.user_id !== message.chama_members.user_id;
-                    const isLast = index === messages.length - 1 || messages[index + 1].chama_members.user_id !== message.chama_members.user_id;
-                    
+                    const isFirst = index === 0 || messages[index - 1].sender_id !== message.sender_id;
+                    const isLast = index === messages.length - 1 || messages[index + 1].sender_id !== message.sender_id;
+                    const mine = isMyMessage(message);
+                    const repliedTo = getMessage(message.reply_to_id);
+                    const seenBy = mine ? getSeenBy(message) : [];
+
                     return (
                       <div
                         key={message.id}
-                        className={`flex ${isMyMessage(message) ? 'justify-end' : 'justify-start'}`}
+                        className={`flex items-start gap-1 ${mine ? 'justify-end' : 'justify-start'}`}
                       >
+                        {mine && !message.deleted_at && renderActions(message)}
                         <div
-                          className={`max-w-xs lg:max-w-md px-4 py-3 rounded-2xl transition-all duration-200 hover:scale-[1.02] ${
-                            isMyMessage(message)
+                          className={`max-w-xs lg:max-w-md px-4 py-3 rounded-2xl transition-all duration-200 ${
+                            mine
                               ? 'bg-blue-600 text-white rounded-br-md'
                               : 'bg-white border shadow-sm rounded-bl-md'
                           } ${
@@ -158,18 +337,45 @@ const GroupChat: React.FC<GroupChatProps> = ({ chamaData }) => {
                             isLast ? 'mb-2' : ''
                           }`}
                         >
-                          {!isMyMessage(message) && isFirst && (
+                          {!mine && isFirst && (
                             <div className="text-xs font-medium mb-2 opacity-75">
                               {getSenderName(message)}
                             </div>
                           )}
-                          <div className="text-sm leading-relaxed">{message.message}</div>
-                          <div className={`text-xs mt-2 flex justify-end ${
-                            isMyMessage(message) ? 'text-blue-100' : 'text-muted-foreground'
+                          {message.deleted_at ? (
+                            <div className="text-sm italic opacity-75">This message was deleted</div>
+                          ) : (
+                            <>
+                              {repliedTo && (
+                                <div className={`text-xs border-l-2 pl-2 mb-2 ${mine ? 'border-blue-200 text-blue-100' : 'border-gray-300 text-muted-foreground'}`}>
+                                  <span className="font-medium">{getSenderName(repliedTo)}</span>
+                                  <p className="truncate">
+                                    {repliedTo.deleted_at ? 'Deleted message' : repliedTo.message || repliedTo.attachment_name}
+                                  </p>
+                                </div>
+                              )}
+                              {message.attachment_path && (
+                                <AttachmentPreview message={message} getAttachmentUrl={getAttachmentUrl} />
+                              )}
+                              {message.message && (
+                                <div className="text-sm leading-relaxed whitespace-pre-wrap">{message.message}</div>
+                              )}
+                            </>
+                          )}
+                          <div className={`text-xs mt-2 flex items-center justify-end gap-1 ${
+                            mine ? 'text-blue-100' : 'text-muted-foreground'
                           }`}>
+                            {message.is_pinned && <Pin className="h-3 w-3" />}
                             {formatDistanceToNow(new Date(message.sent_at), { addSuffix: true })}
+                            {mine && seenBy.length > 0 && (
+                              <span className="flex items-center gap-1" title={seenBy.map((member) => member.name).join(', ')}>
+                                <CheckCheck className="h-3 w-3" />
+                                {seenBy.length}
+                              </span>
+                            )}
                           </div>
                         </div>
+                        {!mine && !message.deleted_at && renderActions(message)}
                       </div>
                     );
                   })}
@@ -178,20 +384,75 @@ const GroupChat: React.FC<GroupChatProps> = ({ chamaData }) => {
               )}
             </ScrollArea>
 
+            {typingMembers.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {typingMembers.join(', ')} {typingMembers.length === 1 ? 'is' : 'are'} typing...
+              </p>
+            )}
+
+            {mutedUntil && (
+              <p className="text-sm text-destructive">
+                An officer has muted you in this chat
+                {mutedUntil === 'indefinitely' ? '.' : ` until ${new Date(mutedUntil).toLocaleString()}.`}
+              </p>
+            )}
+
+            {(replyTo || file) && (
+              <div className="space-y-1">
+                {replyTo && (
+                  <div className="flex items-center justify-between text-xs bg-muted rounded px-3 py-2">
+                    <span className="truncate">
+                      Replying to <span className="font-medium">{getSenderName(replyTo)}</span>: {replyTo.message || replyTo.attachment_name}
+                    </span>
+                    <Button variant="ghost" size="sm" className="h-5 w-5 p-0" onClick={() => setReplyTo(null)}>
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
+                {file && (
+                  <div className="flex items-center justify-between text-xs bg-muted rounded px-3 py-2">
+                    <span className="flex items-center gap-1 truncate">
+                      <Paperclip className="h-3 w-3" />
+                      {file.name}
+                    </span>
+                    <Button variant="ghost" size="sm" className="h-5 w-5 p-0" onClick={() => setFile(null)}>
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+
             <form onSubmit={handleSendMessage} className="flex gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                className="hidden"
+                accept="image/*,.pdf,.doc,.docx,.xls,.xlsx,.txt"
+                onChange={handleFileChange}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={!canSend}
+              >
+                <Paperclip className="h-4 w-4" />
+              </Button>
               <Input
                 ref={inputRef}
                 value={newMessage}
                 onChange={handleInputChange}
                 placeholder={connectionStatus === 'connected' ? "Type your message..." : "Connecting..."}
                 className="flex-1"
-                disabled={connectionStatus !== 'connected' || isSending}
-                maxLength={1000}
+                disabled={!canSend}
+                maxLength={2000}
               />
-              <Button 
-                type="submit" 
-                size="sm" 
-                disabled={!newMessage.trim() || connectionStatus !== 'connected' || isSending}
+              <Button
+                type="submit"
+                size="sm"
+                disabled={(!newMessage.trim() && !file) || !canSend}
                 className="px-4"
               >
                 {isSending ? (
@@ -201,10 +462,10 @@ const GroupChat: React.FC<GroupChatProps> = ({ chamaData }) => {
                 )}
               </Button>
             </form>
-            
-            {newMessage.length > 900 && (
+
+            {newMessage.length > 1900 && (
               <p className="text-xs text-muted-foreground text-right">
-                {1000 - newMessage.length} characters remaining
+                {2000 - newMessage.length} characters remaining
               </p>
             )}
           </div>
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import PinVerificationModal from '@/components/PinVerificationModal';
+import { useLoanGuarantors, GuaranteeRequest, GuaranteeStatus } from '@/hooks/useLoanGuarantors';
+import { useCurrency } from '@/hooks/useCurrency';
+import { formatCurrency } from '@/lib/currency';
+
+interface GuarantorRequestsProps {
+  chamaId: string;
+}
+
+const STATUS_VARIANTS: Record<GuaranteeStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "secondary",
+  accepted: "default",
+  declined: "outline",
+  withdrawn: "outline",
+  released: "outline",
+  recovered: "destructive",
+};
+
+export const GuarantorRequests: React.FC<GuarantorRequestsProps> = ({ chamaId }) => {
+  const { currency } = useCurrency();
+  const { myRequests, respond } = useLoanGuarantors(chamaId);
+  const [pending, setPending] = useState<{ request: GuaranteeRequest; accept: boolean } | null>(null);
+
+  // Nothing to show until someone has asked this member to guarantee a loan
+  if (myRequests.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <ShieldCheck className="h-5 w-5" />
+          Loans I Guarantee
+        </CardTitle>
+        <CardDescription>
+          Accepting locks part of your savings until the loan is repaid
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {myRequests.map((request) => (
+          <div key={request.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+            <div className="min-w-0">
+              <p className="font-medium truncate">
+                {request.loan.borrower?.profiles?.full_name || 'A member'} · {formatCurrency(request.loan.amount, currency)}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                Guaranteeing {formatCurrency(request.guaranteed_amount, currency)}
+                {request.locked_amount > 0 && ` · ${formatCurrency(request.locked_amount, currency)} locked`}
+                {request.recovered_amount > 0 && ` · ${formatCurrency(request.recovered_amount, currency)} recovered`}
+              </p>
+              {request.loan.purpose && (
+                <p className="text-xs text-muted-foreground truncate">{request.loan.purpose}</p>
+              )}
+            </div>
+            {request.status === 'pending' && request.loan.status === 'pending' ? (
+              <div className="flex gap-2 shrink-0">
+                <Button size="sm" onClick={() => setPending({ request, accept: true })}>
+                  Accept
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setPending({ request, accept: false })}>
+                  Decline
+                </Button>
+              </div>
+            ) : (
+              <Badge variant={STATUS_VARIANTS[request.status]}>{request.status}</Badge>
+            )}
+          </div>
+        ))}
+      </CardContent>
+
+      <PinVerificationModal
+        isOpen={!!pending}
+        onClose={() => setPending(null)}
+        onVerify={async (pin) => (pending ? respond(pending.request.id, pending.accept, pin) : false)}
+        title={pending?.accept ? 'Confirm Guarantee' : 'Decline Guarantee'}
+        description={pending?.accept
+          ? `Enter your PIN to guarantee ${formatCurrency(pending.request.guaranteed_amount, currency)} of this loan`
+          : 'Enter your PIN to decline this request'}
+      />
+    </Card>
+  );
+};
@@ -5,11 +5,15 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
 import { Award, Send, FileText, CheckCircle } from 'lucide-react';
 import { useChamaLoans } from '@/hooks/useChamaLoans';
+import { useLoanGuarantors } from '@/hooks/useLoanGuarantors';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/lib/supabase';
 import { DisburseLoanModal } from './DisburseLoanModal';
 import { SendFundsModal } from './SendFundsModal';
 import { LoanReportModal } from './LoanReportModal';
+import { ArrearsAgeingReport } from '@/components/loans/ArrearsAgeingReport';
+import { useCurrency } from '@/hooks/useCurrency';
+import { formatCurrency } from '@/lib/currency';
 
 interface LoanLeaderViewProps {
   chamaId: string;
@@ -23,14 +27,9 @@ export const LoanLeaderView: React.FC<LoanLeaderViewProps> = ({ chamaId, userRol
   const [showReportModal, setShowReportModal] = useState(false);
   
   const { loans, isLoading } = useChamaLoans(chamaId);
+  const { guarantees, policy } = useLoanGuarantors(chamaId);
   const { toast } = useToast();
-
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-KE', {
-      style: 'currency',
-      currency: 'KES'
-    }).format(amount);
-  };
+  const { currency } = useCurrency();
 
   const getStatusBadge = (status: string) => {
     const variants: Record<string, "default" | "secondary" | "destructive"> = {
@@ -44,6 +43,24 @@ export const LoanLeaderView: React.FC<LoanLeaderViewProps> = ({ chamaId, userRol
     return <Badge variant={variants[status] || "secondary"}>{status}</Badge>;
   };
 
+  // Accepted guarantees against the cover a loan needs before it can be approved
+  const getGuaranteeBadge = (loanId: string, amount: number) => {
+    const accepted = guarantees.filter((g) => g.loan_id === loanId && g.status === 'accepted');
+    const covered = accepted.reduce((sum, g) => sum + Number(g.guaranteed_amount), 0);
+    const required = (Number(amount) * (policy?.coveragePercent ?? 0)) / 100;
+    const met = accepted.length >= (policy?.minGuarantors ?? 0) && covered >= required;
+
+    if (!policy || (policy.minGuarantors === 0 && accepted.length === 0)) {
+      return <span className="text-sm text-muted-foreground">-</span>;
+    }
+
+    return (
+      <Badge variant={met ? "default" : "secondary"} title={`${formatCurrency(covered, currency)} of ${formatCurrency(required, currency)} covered`}>
+        {accepted.length}/{policy.minGuarantors} · {required > 0 ? Math.min(100, Math.round((covered / required) * 100)) : 100}%
+      </Badge>
+    );
+  };
+
   const handleDisburse = (loan: any) => {
     setSelectedLoan(loan);
     setShowDisburseModal(true);
@@ -96,6 +113,7 @@ export const LoanLeaderView: React.FC<LoanLeaderViewProps> = ({ chamaId, userRol
                 <TableHead>Amount Paid</TableHead>
                 <TableHead>Amount Remaining</TableHead>
                 <TableHead>Status</TableHead>
+                <TableHead>Guarantors</TableHead>
                 <TableHead>Disbursement</TableHead>
                 <TableHead>Report</TableHead>
                 <TableHead>Send</TableHead>
@@ -111,10 +129,11 @@ export const LoanLeaderView: React.FC<LoanLeaderViewProps> = ({ chamaId, userRol
                     <TableCell className="font-medium">
                       Member
                     </TableCell>
-                    <TableCell>{formatCurrency(loan.amount)}</TableCell>
-                    <TableCell>{formatCurrency(loan.amount_paid || 0)}</TableCell>
-                    <TableCell>{formatCurrency(amountRemaining)}</TableCell>
+                    <TableCell>{formatCurrency(loan.amount, currency)}</TableCell>
+                    <TableCell>{formatCurrency(loan.amount_paid || 0, currency)}</TableCell>
+                    <TableCell>{formatCurrency(amountRemaining, currency)}</TableCell>
                     <TableCell>{getStatusBadge(loan.status)}</TableCell>
+                    <TableCell>{getGuaranteeBadge(loan.id, loan.amount)}</TableCell>
                     <TableCell>
                       {loan.status === 'approved' && !loan.disbursement_status ? (
                         <Button
@@ -172,6 +191,8 @@ export const LoanLeaderView: React.FC<LoanLeaderViewProps> = ({ chamaId, userRol
         </div>
       )}
 
+      <ArrearsAgeingReport chamaId={chamaId} />
+
       {/* Modals */}
       {selectedLoan && (
         <>
@@ -8,6 +8,9 @@ import { useChamaLoans } from '@/hooks/useChamaLoans';
 import LoanRequestModal from './LoanRequestModal';
 import { RepayLoanModal } from './RepayLoanModal';
 import { LoanReportModal } from './LoanReportModal';
+import { GuarantorRequests } from './GuarantorRequests';
+import { useCurrency } from '@/hooks/useCurrency';
+import { formatCurrency } from '@/lib/currency';
 
 interface LoanMemberViewProps {
   chamaId: string;
@@ -21,13 +24,7 @@ export const LoanMemberView: React.FC<LoanMemberViewProps> = ({ chamaId, chamaDa
   const [selectedLoan, setSelectedLoan] = useState<any>(null);
   
   const { loans, isLoading } = useChamaLoans(chamaId);
-
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-KE', {
-      style: 'currency',
-      currency: 'KES'
-    }).format(amount);
-  };
+  const { currency } = useCurrency();
 
   const getStatusBadge = (status: string) => {
     const variants: Record<string, "default" | "secondary" | "destructive"> = {
@@ -117,6 +114,8 @@ export const LoanMemberView: React.FC<LoanMemberViewProps> = ({ chamaId, chamaDa
         </Card>
       </div>
 
+      <GuarantorRequests chamaId={chamaId} />
+
       {/* Active Loans */}
       <div className="space-y-4">
         <h4 className="font-medium">Active Loans</h4>
@@ -145,7 +144,7 @@ export const LoanMemberView: React.FC<LoanMemberViewProps> = ({ chamaId, chamaDa
                     <div className="flex items-start justify-between">
                       <div>
                         <h4 className="font-medium text-lg">
-                          {formatCurrency(loan.amount)}
+                          {formatCurrency(loan.amount, currency)}
                         </h4>
                         <p className="text-sm text-muted-foreground">
                           {loan.purpose}
@@ -157,11 +156,11 @@ export const LoanMemberView: React.FC<LoanMemberViewProps> = ({ chamaId, chamaDa
                     <div className="grid grid-cols-2 gap-4 text-sm">
                       <div>
                         <p className="text-muted-foreground">Amount Paid</p>
-                        <p className="font-medium">{formatCurrency(loan.repaid_amount || 0)}</p>
+                        <p className="font-medium">{formatCurrency(loan.repaid_amount || 0, currency)}</p>
                       </div>
                       <div>
                         <p className="text-muted-foreground">Remaining Balance</p>
-                        <p className="font-medium">{formatCurrency(amountRemaining)}</p>
+                        <p className="font-medium">{formatCurrency(amountRemaining, currency)}</p>
                       </div>
                       <div>
                         <p className="text-muted-foreground">Duration</p>
@@ -235,7 +234,7 @@ export const LoanMemberView: React.FC<LoanMemberViewProps> = ({ chamaId, chamaDa
                 <div className="flex items-start justify-between">
                   <div className="flex-1">
                     <div className="flex items-center gap-2 mb-2">
-                      <h4 className="font-medium">{formatCurrency(loan.amount)}</h4>
+                      <h4 className="font-medium">{formatCurrency(loan.amount, currency)}</h4>
                       <Award className="h-5 w-5 text-yellow-500" />
                       <Badge variant="default" className="bg-green-500">Completed</Badge>
                     </div>
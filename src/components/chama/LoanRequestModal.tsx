@@ -1,13 +1,26 @@
 import React, { useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Loader2, CreditCard, TrendingUp } from 'lucide-react';
+import { Loader2, CreditCard, TrendingUp, ShieldCheck, Plus, X } from 'lucide-react';
 import { useChamaLoans } from '@/hooks/useChamaLoans';
+import { useChamaMembers } from '@/hooks/useChamaMembers';
+import { useLoanGuarantors } from '@/hooks/useLoanGuarantors';
+import { useAuth } from '@/hooks/useAuth';
 import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AMORTIZATION_METHODS,
+  REPAYMENT_FREQUENCIES,
+  AmortizationMethod,
+  RepaymentFrequency,
+  fetchLoanSchedule,
+  summarizeSchedule
+} from '@/lib/loanSchedule';
 
 interface LoanRequestModalProps {
   isOpen: boolean;
@@ -16,6 +29,12 @@ interface LoanRequestModalProps {
   chamaData: any;
 }
 
+interface GuarantorCandidate {
+  id: string;
+  user_id: string;
+  profiles: { full_name: string | null } | null;
+}
+
 const LoanRequestModal: React.FC<LoanRequestModalProps> = ({
   isOpen,
   onClose,
@@ -25,13 +44,48 @@ const LoanRequestModal: React.FC<LoanRequestModalProps> = ({
   const [amount, setAmount] = useState('');
   const [purpose, setPurpose] = useState('');
   const [repaymentPeriod, setRepaymentPeriod] = useState('6');
+  const [method, setMethod] = useState<AmortizationMethod>('flat');
+  const [frequency, setFrequency] = useState<RepaymentFrequency>('monthly');
+  const [guarantors, setGuarantors] = useState<{ memberId: string; amount: string }[]>([]);
   
-  const { applyForLoan, isApplying, creditScore } = useChamaLoans(chamaId);
+  const { user } = useAuth();
+  const { applyForLoanAsync, isApplying, creditScore, loanSettings } = useChamaLoans(chamaId);
+  const { policy, nominateGuarantors, isNominating } = useLoanGuarantors(chamaId);
+  const { data: members = [] } = useChamaMembers(chamaId);
+  const interestRate = loanSettings?.interestRate ?? 10;
+  const isSubmitting = isApplying || isNominating;
 
   const score = creditScore?.credit_score || 30;
   const maxLoanAmount = 100000; // Default, can be from chama settings
   const eligibleAmount = Math.min(maxLoanAmount, (score / 100) * maxLoanAmount);
 
+  const scheduleInput = {
+    principal: parseFloat(amount) || 0,
+    annualRate: interestRate,
+    termMonths: parseInt(repaymentPeriod),
+    method,
+    frequency,
+  };
+  const { data: schedule = [] } = useQuery({
+    queryKey: ['loan-schedule-preview', scheduleInput],
+    queryFn: () => fetchLoanSchedule(scheduleInput),
+    placeholderData: keepPreviousData,
+  });
+  const scheduleSummary = summarizeSchedule(schedule);
+
+  // Guarantors must together cover this share of the loan before it can be approved
+  const minGuarantors = policy?.minGuarantors ?? 0;
+  const requiredCover = ((parseFloat(amount) || 0) * (policy?.coveragePercent ?? 0)) / 100;
+  const nominated = guarantors.filter((g) => g.memberId && parseFloat(g.amount) > 0);
+  const nominatedCover = nominated.reduce((sum, g) => sum + parseFloat(g.amount), 0);
+  const guarantorsReady = minGuarantors === 0
+    || (nominated.length >= minGuarantors && nominatedCover >= requiredCover);
+  const candidates = (members as unknown as GuarantorCandidate[]).filter((member) => member.user_id !== user?.id);
+
+  const updateGuarantor = (index: number, changes: Partial<{ memberId: string; amount: string }>) => {
+    setGuarantors((rows) => rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
   const handleSubmit = async () => {
     if (!amount || !purpose) return;
 
@@ -42,16 +96,28 @@ const LoanRequestModal: React.FC<LoanRequestModalProps> = ({
     }
     
     try {
-      await applyForLoan({
+      const loan = await applyForLoanAsync({
         amount: loanAmount,
         purpose,
-        repaymentPeriodMonths: parseInt(repaymentPeriod)
+        repaymentPeriodMonths: parseInt(repaymentPeriod),
+        amortizationMethod: method,
+        repaymentFrequency: frequency
       });
+
+      if (nominated.length > 0) {
+        await nominateGuarantors({
+          loanId: loan.id,
+          guarantors: nominated.map((g) => ({ memberId: g.memberId, amount: parseFloat(g.amount) })),
+        });
+      }
       
       // Reset form
       setAmount('');
       setPurpose('');
       setRepaymentPeriod('6');
+      setMethod('flat');
+      setFrequency('monthly');
+      setGuarantors([]);
       onClose();
     } catch (error) {
       console.error('Loan application failed:', error);
@@ -68,7 +134,7 @@ const LoanRequestModal: React.FC<LoanRequestModalProps> = ({
   return (
     <>
       <Dialog open={isOpen} onOpenChange={onClose}>
-        <DialogContent className="sm:max-w-md">
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <CreditCard className="h-5 w-5" />
@@ -110,7 +176,7 @@ const LoanRequestModal: React.FC<LoanRequestModalProps> = ({
                 value={amount}
                 onChange={(e) => setAmount(e.target.value)}
                 max={eligibleAmount}
-                disabled={isApplying}
+                disabled={isSubmitting}
               />
               {parseFloat(amount) > eligibleAmount && (
                 <p className="text-xs text-destructive">
@@ -137,6 +203,151 @@ const LoanRequestModal: React.FC<LoanRequestModalProps> = ({
               </Select>
             </div>
 
+            {/* Repayment terms */}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Interest Method</Label>
+                <Select value={method} onValueChange={(value) => setMethod(value as AmortizationMethod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {AMORTIZATION_METHODS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Pay</Label>
+                <Select value={frequency} onValueChange={(value) => setFrequency(value as RepaymentFrequency)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REPAYMENT_FREQUENCIES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {AMORTIZATION_METHODS.find((option) => option.value === method)?.description} · {interestRate}% a year
+            </p>
+
+            {/* Schedule preview */}
+            {schedule.length > 0 && (
+              <div className="space-y-2">
+                <div className="grid grid-cols-3 gap-2 text-center">
+                  <div className="bg-muted p-2 rounded-lg">
+                    <p className="text-xs text-muted-foreground">
+                      {scheduleSummary.instalments} × instalment
+                    </p>
+                    <p className="text-sm font-bold">KES {scheduleSummary.firstPayment.toLocaleString()}</p>
+                  </div>
+                  <div className="bg-muted p-2 rounded-lg">
+                    <p className="text-xs text-muted-foreground">Total interest</p>
+                    <p className="text-sm font-bold">KES {scheduleSummary.totalInterest.toLocaleString()}</p>
+                  </div>
+                  <div className="bg-muted p-2 rounded-lg">
+                    <p className="text-xs text-muted-foreground">Total to repay</p>
+                    <p className="text-sm font-bold">KES {scheduleSummary.totalRepayable.toLocaleString()}</p>
+                  </div>
+                </div>
+                <div className="border rounded-lg max-h-48 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>#</TableHead>
+                        <TableHead>Due</TableHead>
+                        <TableHead className="text-right">Payment</TableHead>
+                        <TableHead className="text-right">Interest</TableHead>
+                        <TableHead className="text-right">Balance</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {schedule.map((row) => (
+                        <TableRow key={row.payment_number}>
+                          <TableCell>{row.payment_number}</TableCell>
+                          <TableCell>{new Date(row.due_date).toLocaleDateString()}</TableCell>
+                          <TableCell className="text-right">{row.payment_amount.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">{row.interest_amount.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">{row.remaining_balance.toLocaleString()}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Preview only; due dates are set from the day the loan is disbursed.
+                </p>
+              </div>
+            )}
+
+            {/* Guarantors */}
+            {policy && minGuarantors > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="flex items-center gap-1">
+                    <ShieldCheck className="h-4 w-4" />
+                    Guarantors
+                  </Label>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setGuarantors((rows) => [...rows, { memberId: '', amount: '' }])}
+                    disabled={isSubmitting || guarantors.length >= candidates.length}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add
+                  </Button>
+                </div>
+                {guarantors.map((row, index) => (
+                  <div key={index} className="flex gap-2">
+                    <Select value={row.memberId} onValueChange={(value) => updateGuarantor(index, { memberId: value })}>
+                      <SelectTrigger className="flex-1">
+                        <SelectValue placeholder="Select member" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {candidates
+                          .filter((member) => member.id === row.memberId || !guarantors.some((g) => g.memberId === member.id))
+                          .map((member) => (
+                            <SelectItem key={member.id} value={member.id}>
+                              {member.profiles?.full_name || 'Member'}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      placeholder="Amount"
+                      className="w-32"
+                      value={row.amount}
+                      onChange={(e) => updateGuarantor(index, { amount: e.target.value })}
+                      disabled={isSubmitting}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setGuarantors((rows) => rows.filter((_, i) => i !== index))}
+                      disabled={isSubmitting}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <p className={`text-xs ${guarantorsReady ? 'text-muted-foreground' : 'text-destructive'}`}>
+                  At least {minGuarantors} guarantor{minGuarantors === 1 ? '' : 's'} covering
+                  KES {requiredCover.toLocaleString()} ({policy.coveragePercent}% of the loan).
+                  Nominated: KES {nominatedCover.toLocaleString()}. Each guarantor confirms with their PIN
+                  and {policy.lockPercent}% of what they guarantee is locked from their savings.
+                </p>
+              </div>
+            )}
+
             {/* Purpose */}
             <div className="space-y-2">
               <Label htmlFor="purpose">Loan Purpose</Label>
@@ -146,20 +357,20 @@ const LoanRequestModal: React.FC<LoanRequestModalProps> = ({
                 value={purpose}
                 onChange={(e) => setPurpose(e.target.value)}
                 rows={3}
-                disabled={isApplying}
+                disabled={isSubmitting}
               />
             </div>
           </div>
 
           <DialogFooter className="flex gap-2">
-            <Button variant="outline" onClick={onClose} disabled={isApplying}>
+            <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
               Cancel
             </Button>
             <Button 
               onClick={handleSubmit}
-              disabled={!amount || !purpose || parseFloat(amount) > eligibleAmount || isApplying}
+              disabled={!amount || !purpose || parseFloat(amount) > eligibleAmount || !guarantorsReady || isSubmitting}
             >
-              {isApplying ? (
+              {isSubmitting ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                   Applying...
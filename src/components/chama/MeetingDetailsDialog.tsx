@@ -0,0 +1,367 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { CheckCircle, FileText, Gavel, ListOrdered, Plus, Send, Trash2, Users } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { isOfficerRole } from '@/hooks/useGroupChat';
+import { useCurrency } from '@/hooks/useCurrency';
+import { formatCurrency } from '@/lib/currency';
+import { AgendaItemInput, AttendanceStatus, MeetingResolution, useChamaMeetings } from '@/hooks/useChamaMeetings';
+
+interface MeetingDetailsDialogProps {
+  chamaId: string;
+  meetingId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ATTENDANCE_OPTIONS: { value: AttendanceStatus; label: string }[] = [
+  { value: 'present', label: 'Present' },
+  { value: 'late', label: 'Late' },
+  { value: 'absent', label: 'Absent' },
+  { value: 'excused', label: 'Apology' },
+];
+
+const ATTENDANCE_BADGES: Record<AttendanceStatus, string> = {
+  present: 'bg-green-100 text-green-800',
+  late: 'bg-yellow-100 text-yellow-800',
+  absent: 'bg-red-100 text-red-800',
+  excused: 'bg-gray-100 text-gray-800',
+};
+
+// Vote-linked resolutions report the vote; the rest were decided in the room
+const resolutionStatus = (resolution: MeetingResolution) => {
+  if (!resolution.vote) {
+    return resolution.outcome === 'adopted'
+      ? { label: 'Adopted', className: 'bg-green-100 text-green-800' }
+      : { label: 'Rejected', className: 'bg-red-100 text-red-800' };
+  }
+  if (resolution.vote.outcome === 'passed') return { label: 'Passed by vote', className: 'bg-green-100 text-green-800' };
+  if (resolution.vote.outcome) return { label: 'Not passed', className: 'bg-red-100 text-red-800' };
+  return { label: 'Vote open', className: 'bg-blue-100 text-blue-800' };
+};
+
+const MeetingDetailsDialog: React.FC<MeetingDetailsDialogProps> = ({ chamaId, meetingId, onOpenChange }) => {
+  const {
+    meetings,
+    members,
+    votes,
+    currentMember,
+    setAgenda,
+    recordAttendance,
+    saveMinutes,
+    addResolution,
+  } = useChamaMeetings(chamaId);
+  const { currency } = useCurrency();
+
+  const meeting = meetings.find((m) => m.id === meetingId) ?? null;
+  const isOfficer = isOfficerRole(currentMember?.role);
+
+  const [agendaItems, setAgendaItems] = useState<AgendaItemInput[]>([]);
+  const [minutes, setMinutes] = useState('');
+  const [resolutionText, setResolutionText] = useState('');
+  const [resolutionDecision, setResolutionDecision] = useState<string>('adopted');
+
+  // Reset the drafts whenever a different meeting is opened
+  useEffect(() => {
+    if (!meeting) return;
+    setAgendaItems(meeting.agenda.map((item) => ({
+      title: item.title,
+      description: item.description ?? undefined,
+      durationMinutes: item.duration_minutes ?? undefined,
+    })));
+    setMinutes(meeting.minutes?.content ?? '');
+    setResolutionText('');
+    setResolutionDecision('adopted');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [meeting?.id]);
+
+  if (!meeting) {
+    return null;
+  }
+
+  const canEditAgenda = isOfficer && meeting.status === 'scheduled';
+  const minutesLocked = !!meeting.minutes?.approved_at;
+  const canRecord = isOfficer && meeting.status !== 'cancelled';
+
+  // Everyone expected at the meeting, plus anyone recorded who has since left
+  const expected = members.filter((m) => m.is_active && new Date(m.joined_at) <= new Date(meeting.scheduled_at));
+  const attendees = [
+    ...expected,
+    ...members.filter((m) => !expected.includes(m) && meeting.attendance.some((a) => a.member_id === m.id)),
+  ];
+
+  const updateAgendaItem = (index: number, patch: Partial<AgendaItemInput>) => {
+    setAgendaItems((items) => items.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+  };
+
+  const handleSaveAgenda = (publish: boolean) => {
+    setAgenda.mutate({
+      meetingId: meeting.id,
+      agenda: agendaItems.filter((item) => item.title.trim()),
+      publish,
+    });
+  };
+
+  const handleAddResolution = () => {
+    if (!resolutionText.trim()) return;
+    const linkedVote = resolutionDecision !== 'adopted' && resolutionDecision !== 'rejected';
+    addResolution.mutate(
+      {
+        meetingId: meeting.id,
+        resolution: resolutionText,
+        voteId: linkedVote ? resolutionDecision : undefined,
+        outcome: linkedVote ? undefined : resolutionDecision as 'adopted' | 'rejected',
+      },
+      { onSuccess: () => setResolutionText('') }
+    );
+  };
+
+  return (
+    <Dialog open={!!meetingId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{meeting.title}</DialogTitle>
+          <DialogDescription>
+            {format(new Date(meeting.scheduled_at), 'EEEE d MMM yyyy, HH:mm')} · {meeting.duration_minutes} min
+            {meeting.location ? ` · ${meeting.location}` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue={meeting.status === 'scheduled' ? 'agenda' : 'minutes'}>
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="agenda"><ListOrdered className="h-4 w-4 mr-1" />Agenda</TabsTrigger>
+            <TabsTrigger value="attendance"><Users className="h-4 w-4 mr-1" />Attendance</TabsTrigger>
+            <TabsTrigger value="minutes"><FileText className="h-4 w-4 mr-1" />Minutes</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="agenda" className="space-y-4">
+            {meeting.agenda_published_at ? (
+              <p className="text-sm text-muted-foreground">
+                Published {format(new Date(meeting.agenda_published_at), 'd MMM yyyy, HH:mm')}
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground">Not yet published to members</p>
+            )}
+
+            {canEditAgenda ? (
+              <div className="space-y-3">
+                {agendaItems.map((item, index) => (
+                  <div key={index} className="flex gap-2 items-start">
+                    <span className="pt-2 text-sm text-muted-foreground w-6">{index + 1}.</span>
+                    <div className="flex-1 space-y-2">
+                      <Input
+                        placeholder="Agenda item"
+                        value={item.title}
+                        onChange={(e) => updateAgendaItem(index, { title: e.target.value })}
+                      />
+                      <Input
+                        placeholder="Notes (optional)"
+                        value={item.description ?? ''}
+                        onChange={(e) => updateAgendaItem(index, { description: e.target.value })}
+                      />
+                    </div>
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-24"
+                      placeholder="Min"
+                      value={item.durationMinutes ?? ''}
+                      onChange={(e) => updateAgendaItem(index, { durationMinutes: e.target.value ? Number(e.target.value) : undefined })}
+                    />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setAgendaItems((items) => items.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="outline" size="sm" onClick={() => setAgendaItems((items) => [...items, { title: '' }])}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Item
+                </Button>
+                <div className="flex gap-2 justify-end">
+                  <Button variant="outline" onClick={() => handleSaveAgenda(false)} disabled={setAgenda.isPending}>
+                    Save Draft
+                  </Button>
+                  <Button onClick={() => handleSaveAgenda(true)} disabled={setAgenda.isPending || agendaItems.length === 0}>
+                    <Send className="h-4 w-4 mr-1" />
+                    {meeting.agenda_published_at ? 'Republish' : 'Publish to Members'}
+                  </Button>
+                </div>
+              </div>
+            ) : meeting.agenda.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No agenda has been set</p>
+            ) : (
+              <ol className="space-y-2">
+                {meeting.agenda.map((item) => (
+                  <li key={item.id} className="p-3 border rounded-lg">
+                    <div className="flex justify-between">
+                      <span className="font-medium">{item.position}. {item.title}</span>
+                      {item.duration_minutes && <span className="text-sm text-muted-foreground">{item.duration_minutes} min</span>}
+                    </div>
+                    {item.description && <p className="text-sm text-muted-foreground mt-1">{item.description}</p>}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </TabsContent>
+
+          <TabsContent value="attendance" className="space-y-3">
+            <div className="flex flex-wrap gap-2 text-sm">
+              {ATTENDANCE_OPTIONS.map((option) => (
+                <Badge key={option.value} className={ATTENDANCE_BADGES[option.value]}>
+                  {option.label}: {meeting.attendance.filter((a) => a.status === option.value).length}
+                </Badge>
+              ))}
+              {meeting.status === 'scheduled' && (
+                <Badge variant="outline">
+                  Not recorded: {attendees.filter((m) => !meeting.attendance.some((a) => a.member_id === m.id)).length}
+                </Badge>
+              )}
+            </div>
+
+            {attendees.map((member) => {
+              const record = meeting.attendance.find((a) => a.member_id === member.id);
+              const fines = meeting.fines.filter((f) => f.member_id === member.id && f.status !== 'waived');
+              return (
+                <div key={member.id} className="flex items-center justify-between gap-2 p-2 border rounded-lg">
+                  <div>
+                    <p className="font-medium text-sm">{member.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {record?.checked_in_at
+                        ? `${record.method === 'check_in' ? 'Checked in' : 'Recorded'} at ${format(new Date(record.checked_in_at), 'HH:mm')}`
+                        : record?.method === 'auto' ? 'Not recorded before closing' : record?.note ?? ''}
+                      {fines.length > 0 && ` · Fined ${formatCurrency(fines.reduce((total, f) => total + Number(f.amount), 0), currency)}`}
+                    </p>
+                  </div>
+                  {canRecord ? (
+                    <Select
+                      value={record?.status ?? ''}
+                      onValueChange={(status) => recordAttendance.mutate({
+                        meetingId: meeting.id,
+                        memberId: member.id,
+                        status: status as AttendanceStatus,
+                      })}
+                      disabled={recordAttendance.isPending}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue placeholder="Record" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ATTENDANCE_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : record ? (
+                    <Badge className={ATTENDANCE_BADGES[record.status]}>
+                      {ATTENDANCE_OPTIONS.find((o) => o.value === record.status)?.label}
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline">Not recorded</Badge>
+                  )}
+                </div>
+              );
+            })}
+          </TabsContent>
+
+          <TabsContent value="minutes" className="space-y-4">
+            {isOfficer && !minutesLocked && meeting.status !== 'cancelled' ? (
+              <div className="space-y-2">
+                <Textarea
+                  rows={8}
+                  placeholder="Record what was discussed and agreed"
+                  value={minutes}
+                  onChange={(e) => setMinutes(e.target.value)}
+                />
+                <div className="flex gap-2 justify-end">
+                  <Button
+                    variant="outline"
+                    onClick={() => saveMinutes.mutate({ meetingId: meeting.id, content: minutes })}
+                    disabled={saveMinutes.isPending || !minutes.trim()}
+                  >
+                    Save Draft
+                  </Button>
+                  <Button
+                    onClick={() => saveMinutes.mutate({ meetingId: meeting.id, content: minutes, approve: true })}
+                    disabled={saveMinutes.isPending || !minutes.trim()}
+                  >
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    Approve Minutes
+                  </Button>
+                </div>
+              </div>
+            ) : meeting.minutes ? (
+              <div className="p-3 border rounded-lg space-y-2">
+                <Badge className={minutesLocked ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}>
+                  {minutesLocked ? 'Approved' : 'Draft'}
+                </Badge>
+                <p className="text-sm whitespace-pre-wrap">{meeting.minutes.content}</p>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No minutes have been recorded</p>
+            )}
+
+            <div className="space-y-2">
+              <h4 className="font-medium flex items-center gap-2"><Gavel className="h-4 w-4" />Resolutions</h4>
+              {meeting.resolutions.length === 0 && (
+                <p className="text-sm text-muted-foreground">No resolutions recorded</p>
+              )}
+              {meeting.resolutions.map((resolution) => {
+                const status = resolutionStatus(resolution);
+                return (
+                  <div key={resolution.id} className="flex justify-between items-start gap-2 p-2 border rounded-lg">
+                    <div>
+                      <p className="text-sm">{resolution.resolution}</p>
+                      {resolution.vote && <p className="text-xs text-muted-foreground">Vote: {resolution.vote.title}</p>}
+                    </div>
+                    <Badge className={status.className}>{status.label}</Badge>
+                  </div>
+                );
+              })}
+
+              {isOfficer && !minutesLocked && meeting.status !== 'cancelled' && (
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Input
+                    placeholder="Resolution"
+                    value={resolutionText}
+                    onChange={(e) => setResolutionText(e.target.value)}
+                  />
+                  <Select value={resolutionDecision} onValueChange={setResolutionDecision}>
+                    <SelectTrigger className="sm:w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="adopted">Adopted in the meeting</SelectItem>
+                      <SelectItem value="rejected">Rejected in the meeting</SelectItem>
+                      {votes.map((vote) => (
+                        <SelectItem key={vote.id} value={vote.id}>Vote: {vote.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={handleAddResolution} disabled={addResolution.isPending || !resolutionText.trim()}>
+                    Add
+                  </Button>
+                </div>
+              )}
+              {isOfficer && votes.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Create a vote under Active Polls to put a resolution to the members.
+                </p>
+              )}
+            </div>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MeetingDetailsDialog;
@@ -1,5 +1,5 @@
-
 import React, { useState } from 'react';
+import { format } from 'date-fns';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,94 +7,69 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Calendar, Clock, Users, Vote, Video, MapPin, Plus, CheckCircle, XCircle, Clock3 } from 'lucide-react';
-import { useGoogleMeet } from '@/hooks/useGoogleMeet';
+import { Calendar, Users, Vote, Video, MapPin, Plus, CheckCircle, XCircle, Repeat, Gavel, Coins, LogIn, CalendarPlus, Copy } from 'lucide-react';
 import { usePolls } from '@/hooks/usePolls';
 import { useToast } from '@/hooks/use-toast';
-import { useChamaMeetings } from '@/hooks/useChamaMeetings';
+import { useCurrency } from '@/hooks/useCurrency';
+import { formatCurrency } from '@/lib/currency';
+import { isOfficerRole } from '@/hooks/useGroupChat';
+import { ChamaMeeting, isCheckInOpen, MeetingRecurrence, MeetingType, useChamaMeetings } from '@/hooks/useChamaMeetings';
+import MeetingDetailsDialog from './MeetingDetailsDialog';
 
 interface MeetingsVotingProps {
   chamaData: any;
 }
 
+const RECURRENCE_LABELS: Record<MeetingRecurrence, string> = {
+  none: 'Does not repeat',
+  weekly: 'Weekly',
+  biweekly: 'Every two weeks',
+  monthly: 'Monthly',
+};
+
 const MeetingsVoting: React.FC<MeetingsVotingProps> = ({ chamaData }) => {
   const [meetingTitle, setMeetingTitle] = useState('');
   const [meetingDate, setMeetingDate] = useState('');
   const [meetingTime, setMeetingTime] = useState('');
-  const [meetingType, setMeetingType] = useState<'physical' | 'virtual' | 'hybrid'>('virtual');
+  const [meetingDuration, setMeetingDuration] = useState('120');
+  const [meetingType, setMeetingType] = useState<MeetingType>('virtual');
   const [meetingLocation, setMeetingLocation] = useState('');
+  const [meetingLink, setMeetingLink] = useState('');
   const [meetingDescription, setMeetingDescription] = useState('');
+  const [recurrence, setRecurrence] = useState<MeetingRecurrence>('none');
+  const [occurrences, setOccurrences] = useState('6');
+  const [selectedMeetingId, setSelectedMeetingId] = useState<string | null>(null);
   const [pollTitle, setPollTitle] = useState('');
   const [pollDescription, setPollDescription] = useState('');
   const [pollDeadline, setPollDeadline] = useState('');
   
-  const { createMeeting, isCreating } = useGoogleMeet();
   const { polls, createPoll, vote, loading } = usePolls(chamaData.id);
   const { toast } = useToast();
+  const { currency } = useCurrency();
   
   const {
-    meetings,
+    upcomingMeetings,
+    pastMeetings,
+    members,
+    currentMember,
+    policy,
+    outstandingFines,
     isLoading: meetingsLoading,
     scheduleMeeting,
-    isScheduling,
-    updateAttendance,
-    isUpdatingAttendance
+    cancelMeeting,
+    checkIn,
+    closeMeeting,
+    resolveFine,
+    calendarFeed,
+    downloadInvite,
+    createCalendarFeed,
+    revokeCalendarFeed,
   } = useChamaMeetings(chamaData.id);
 
-  // Mock data for meetings
-  const upcomingMeetings = [
-    {
-      id: '1',
-      title: 'Monthly General Meeting',
-      date: '2024-02-15',
-      time: '14:00',
-      type: 'General Meeting',
-      location: 'Community Hall',
-      attendees: 18,
-      status: 'scheduled'
-    },
-    {
-      id: '2',
-      title: 'Loan Committee Review',
-      date: '2024-02-20',
-      time: '16:00',
-      type: 'Committee Meeting',
-      location: 'Virtual (Google Meet)',
-      attendees: 5,
-      status: 'scheduled'
-    },
-    {
-      id: '3',
-      title: 'Investment Strategy Discussion',
-      date: '2024-02-25',
-      time: '15:30',
-      type: 'Special Meeting',
-      location: 'Chairman\'s Office',
-      attendees: 12,
-      status: 'scheduled'
-    }
-  ];
-
-  const meetingHistory = [
-    {
-      id: '1',
-      title: 'January General Meeting',
-      date: '2024-01-15',
-      attendance: '22/25',
-      decisions: ['Approved new loan policy', 'Elected new treasurer'],
-      status: 'completed'
-    },
-    {
-      id: '2',
-      title: 'Emergency Meeting - Policy Changes',
-      date: '2024-01-22',
-      attendance: '19/25',
-      decisions: ['Updated contribution schedule', 'Approved emergency fund'],
-      status: 'completed'
-    }
-  ];
+  const isOfficer = isOfficerRole(currentMember?.role);
+  const memberName = (memberId: string) => members.find((m) => m.id === memberId)?.name ?? 'Former member';
 
-  const handleCreateMeeting = async () => {
+  const handleCreateMeeting = () => {
     if (!meetingTitle || !meetingDate || !meetingTime) {
       toast({
         title: "Incomplete Information",
@@ -104,46 +79,77 @@ const MeetingsVoting: React.FC<MeetingsVotingProps> = ({ chamaData }) => {
       return;
     }
 
-    try {
-      const scheduledDate = new Date(`${meetingDate}T${meetingTime}`).toISOString();
-      
-      // Schedule the meeting in the backend
-      scheduleMeeting({
+    scheduleMeeting.mutate(
+      {
         title: meetingTitle,
-        description: meetingDescription,
-        scheduledDate,
+        description: meetingDescription || undefined,
         meetingType,
-        location: meetingLocation || undefined
-      });
-      
-      // Also create Google Meet if virtual
-      if (meetingType === 'virtual' || meetingType === 'hybrid') {
-        try {
-          const meetLink = await createMeeting(meetingTitle, scheduledDate, 120); // 2 hours duration
-          
-          if (meetLink) {
-            toast({
-              title: "Meeting Scheduled! 📅",
-              description: `${meetingTitle} has been scheduled with Google Meet link created`,
-            });
-          }
-        } catch (error) {
-          console.error('Failed to create Google Meet:', error);
-        }
+        location: meetingLocation || undefined,
+        // Left blank, the server opens a video room for online meetings
+        meetingLink: meetingType !== 'physical' && meetingLink.trim() ? meetingLink.trim() : undefined,
+        scheduledAt: new Date(`${meetingDate}T${meetingTime}`).toISOString(),
+        durationMinutes: Number(meetingDuration) || 120,
+        recurrence,
+        occurrences: recurrence === 'none' ? 1 : Number(occurrences) || 1,
+      },
+      {
+        onSuccess: () => {
+          setMeetingTitle('');
+          setMeetingDate('');
+          setMeetingTime('');
+          setMeetingDuration('120');
+          setMeetingType('virtual');
+          setMeetingLocation('');
+          setMeetingLink('');
+          setMeetingDescription('');
+          setRecurrence('none');
+        },
       }
-      
-      // Reset form
-      setMeetingTitle('');
-      setMeetingDate('');
-      setMeetingTime('');
-      setMeetingType('virtual');
-      setMeetingLocation('');
-      setMeetingDescription('');
-    } catch (error) {
-      console.error('Failed to schedule meeting:', error);
+    );
+  };
+
+  const handleCancelMeeting = (meeting: ChamaMeeting) => {
+    const following = !!meeting.series_id
+      && window.confirm('Also cancel the meetings that follow in this series? Press Cancel to cancel only this one.');
+    const reason = window.prompt('Reason for cancelling (optional)') ?? undefined;
+    cancelMeeting.mutate({ meetingId: meeting.id, following, reason });
+  };
+
+  const handleCloseMeeting = (meeting: ChamaMeeting) => {
+    const unrecorded = members.filter((m) =>
+      m.is_active && !meeting.attendance.some((a) => a.member_id === m.id)
+    ).length;
+    const warning = unrecorded > 0
+      ? `${unrecorded} member(s) have no attendance recorded and will be marked absent and fined. Close the meeting?`
+      : 'Close the meeting and levy any fines?';
+    if (window.confirm(warning)) {
+      closeMeeting.mutate(meeting.id);
+    }
+  };
+
+  const handleWaiveFine = (fineId: string) => {
+    const note = window.prompt('Reason for waiving this fine');
+    if (note?.trim()) {
+      resolveFine.mutate({ fineId, status: 'waived', note });
     }
   };
 
+  const handleCopyFeedLink = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    toast({ title: 'Link copied', description: 'Paste it into your calendar app to subscribe' });
+  };
+
+  const handleStopFeed = () => {
+    if (window.confirm('Stop the calendar subscription? Calendar apps using the link will stop updating.')) {
+      revokeCalendarFeed.mutate(undefined, { onSuccess: () => createCalendarFeed.reset() });
+    }
+  };
+
+  const attendanceSummary = (meeting: ChamaMeeting) => {
+    const attended = meeting.attendance.filter((a) => a.status === 'present' || a.status === 'late').length;
+    return `${attended}/${meeting.attendance.length}`;
+  };
+
   const handleCreatePoll = async () => {
     if (!pollTitle || !pollDescription || !pollDeadline) {
       toast({
@@ -182,6 +188,8 @@ const MeetingsVoting: React.FC<MeetingsVotingProps> = ({ chamaData }) => {
         return <Badge className="bg-green-100 text-green-800"><Vote className="h-3 w-3 mr-1" />Active</Badge>;
       case 'closed':
         return <Badge className="bg-gray-100 text-gray-800"><XCircle className="h-3 w-3 mr-1" />Closed</Badge>;
+      case 'cancelled':
+        return <Badge className="bg-red-100 text-red-800"><XCircle className="h-3 w-3 mr-1" />Cancelled</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -210,39 +218,96 @@ const MeetingsVoting: React.FC<MeetingsVotingProps> = ({ chamaData }) => {
                 <CardDescription>Scheduled chama meetings</CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="space-y-4">
-                  {upcomingMeetings.map((meeting, index) => (
-                    <div key={index} className="p-4 border rounded-lg space-y-2">
-                      <div className="flex justify-between items-start">
-                        <h4 className="font-medium">{meeting.title}</h4>
-                        {getStatusBadge(meeting.status)}
-                      </div>
-                      <div className="space-y-1 text-sm text-muted-foreground">
-                        <div className="flex items-center gap-2">
-                          <Calendar className="h-4 w-4" />
-                          <span>{meeting.date} at {meeting.time}</span>
-                        </div>
-                        <div className="flex items-center gap-2">
-                          <MapPin className="h-4 w-4" />
-                          <span>{meeting.location}</span>
-                        </div>
-                        <div className="flex items-center gap-2">
-                          <Users className="h-4 w-4" />
-                          <span>{meeting.attendees} expected attendees</span>
+                {meetingsLoading ? (
+                  <div className="text-center py-8">Loading meetings...</div>
+                ) : upcomingMeetings.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <Calendar className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                    <p>No meetings scheduled</p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {upcomingMeetings.map((meeting) => {
+                      const myAttendance = meeting.attendance.find((a) => a.member_id === currentMember?.id);
+                      const started = new Date(meeting.scheduled_at).getTime() <= Date.now();
+                      return (
+                        <div key={meeting.id} className="p-4 border rounded-lg space-y-2">
+                          <div className="flex justify-between items-start gap-2">
+                            <h4 className="font-medium">{meeting.title}</h4>
+                            <div className="flex gap-1">
+                              {meeting.recurrence !== 'none' && (
+                                <Badge variant="outline"><Repeat className="h-3 w-3 mr-1" />{RECURRENCE_LABELS[meeting.recurrence]}</Badge>
+                              )}
+                              {getStatusBadge(meeting.status)}
+                            </div>
+                          </div>
+                          <div className="space-y-1 text-sm text-muted-foreground">
+                            <div className="flex items-center gap-2">
+                              <Calendar className="h-4 w-4" />
+                              <span>{format(new Date(meeting.scheduled_at), 'EEE d MMM yyyy')} at {format(new Date(meeting.scheduled_at), 'HH:mm')}</span>
+                            </div>
+                            {meeting.location && (
+                              <div className="flex items-center gap-2">
+                                <MapPin className="h-4 w-4" />
+                                <span>{meeting.location}</span>
+                              </div>
+                            )}
+                            <div className="flex items-center gap-2">
+                              <Users className="h-4 w-4" />
+                              <span>
+                                {meeting.agenda_published_at ? `${meeting.agenda.length} agenda item(s)` : 'Agenda not yet published'}
+                                {started && ` · ${meeting.attendance.length} checked in`}
+                              </span>
+                            </div>
+                          </div>
+                          <div className="flex flex-wrap gap-2 mt-3">
+                            {meeting.meeting_link && (
+                              <Button size="sm" variant="outline" asChild>
+                                <a href={meeting.meeting_link} target="_blank" rel="noopener noreferrer">
+                                  <Video className="h-3 w-3 mr-1" />
+                                  Join Meeting
+                                </a>
+                              </Button>
+                            )}
+                            {myAttendance ? (
+                              <Badge className="bg-green-100 text-green-800 self-center">
+                                <CheckCircle className="h-3 w-3 mr-1" />
+                                {myAttendance.status === 'late' ? 'Checked in late' : myAttendance.status === 'excused' ? 'Apology recorded' : myAttendance.status === 'absent' ? 'Marked absent' : 'Checked in'}
+                              </Badge>
+                            ) : isCheckInOpen(meeting) && (
+                              <Button size="sm" onClick={() => checkIn.mutate(meeting.id)} disabled={checkIn.isPending}>
+                                <LogIn className="h-3 w-3 mr-1" />
+                                Check In
+                              </Button>
+                            )}
+                            <Button size="sm" variant="outline" onClick={() => setSelectedMeetingId(meeting.id)}>
+                              {isOfficer ? 'Manage' : 'View Details'}
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => downloadInvite.mutate(meeting.id)}
+                              disabled={downloadInvite.isPending}
+                            >
+                              <CalendarPlus className="h-3 w-3 mr-1" />
+                              Add to Calendar
+                            </Button>
+                            {isOfficer && started && (
+                              <Button size="sm" variant="outline" onClick={() => handleCloseMeeting(meeting)} disabled={closeMeeting.isPending}>
+                                Close Meeting
+                              </Button>
+                            )}
+                            {isOfficer && !started && (
+                              <Button size="sm" variant="ghost" onClick={() => handleCancelMeeting(meeting)} disabled={cancelMeeting.isPending}>
+                                Cancel
+                              </Button>
+                            )}
+                          </div>
                         </div>
-                      </div>
-                      <div className="flex gap-2 mt-3">
-                        <Button size="sm" variant="outline">
-                          <Video className="h-3 w-3 mr-1" />
-                          Join Meeting
-                        </Button>
-                        <Button size="sm" variant="outline">
-                          View Details
-                        </Button>
-                      </div>
-                    </div>
-                  ))}
-                </div>
+                      );
+                    })}
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -252,37 +317,152 @@ const MeetingsVoting: React.FC<MeetingsVotingProps> = ({ chamaData }) => {
                 <CardDescription>Past meeting records</CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="space-y-4">
-                  {meetingHistory.map((meeting, index) => (
-                    <div key={index} className="p-4 border rounded-lg space-y-2">
-                      <div className="flex justify-between items-start">
-                        <h4 className="font-medium">{meeting.title}</h4>
-                        {getStatusBadge(meeting.status)}
-                      </div>
-                      <div className="space-y-1 text-sm text-muted-foreground">
-                        <div className="flex items-center gap-2">
-                          <Calendar className="h-4 w-4" />
-                          <span>{meeting.date}</span>
+                {pastMeetings.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <p>No past meetings yet</p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {pastMeetings.map((meeting) => (
+                      <div key={meeting.id} className="p-4 border rounded-lg space-y-2">
+                        <div className="flex justify-between items-start">
+                          <h4 className="font-medium">{meeting.title}</h4>
+                          {getStatusBadge(meeting.status)}
                         </div>
-                        <div className="flex items-center gap-2">
-                          <Users className="h-4 w-4" />
-                          <span>Attendance: {meeting.attendance}</span>
+                        <div className="space-y-1 text-sm text-muted-foreground">
+                          <div className="flex items-center gap-2">
+                            <Calendar className="h-4 w-4" />
+                            <span>{format(new Date(meeting.scheduled_at), 'd MMM yyyy')}</span>
+                          </div>
+                          {meeting.status === 'completed' ? (
+                            <div className="flex items-center gap-2">
+                              <Users className="h-4 w-4" />
+                              <span>Attendance: {attendanceSummary(meeting)}</span>
+                            </div>
+                          ) : meeting.cancelled_reason && (
+                            <p>Cancelled: {meeting.cancelled_reason}</p>
+                          )}
                         </div>
+                        {meeting.resolutions.length > 0 && (
+                          <div className="mt-2">
+                            <p className="text-sm font-medium flex items-center gap-1"><Gavel className="h-3 w-3" />Resolutions:</p>
+                            <ul className="text-sm text-muted-foreground list-disc list-inside">
+                              {meeting.resolutions.map((resolution) => (
+                                <li key={resolution.id}>{resolution.resolution}</li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                        {meeting.status === 'completed' && (
+                          <Button size="sm" variant="outline" onClick={() => setSelectedMeetingId(meeting.id)}>
+                            {meeting.minutes?.approved_at ? 'View Minutes' : isOfficer ? 'Record Minutes' : 'View Details'}
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="border-0 shadow-lg">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><Coins className="h-5 w-5" />Meeting Fines</CardTitle>
+              <CardDescription>
+                {policy && (policy.absenceFine > 0 || policy.latenessFine > 0)
+                  ? `${formatCurrency(policy.absenceFine, currency)} for absence, ${formatCurrency(policy.latenessFine, currency)} for arriving more than ${policy.latenessGraceMinutes} minutes late. Members pay fines to the treasurer, who marks them paid here; no wallet is charged. Change these by putting a settings vote to the members.`
+                  : 'This chama has no meeting fines. Members can introduce them by voting on the absence and lateness fine settings.'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {outstandingFines.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No outstanding fines</p>
+              ) : (
+                <div className="space-y-2">
+                  {outstandingFines.map((fine) => (
+                    <div key={fine.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+                      <div>
+                        <p className="font-medium text-sm">{memberName(fine.member_id)}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {fine.reason === 'absence' ? 'Absence' : 'Lateness'} · {format(new Date(fine.created_at), 'd MMM yyyy')}
+                        </p>
                       </div>
-                      <div className="mt-2">
-                        <p className="text-sm font-medium">Key Decisions:</p>
-                        <ul className="text-sm text-muted-foreground list-disc list-inside">
-                          {meeting.decisions.map((decision, idx) => (
-                            <li key={idx}>{decision}</li>
-                          ))}
-                        </ul>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{formatCurrency(fine.amount, currency)}</span>
+                        {isOfficer && (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => resolveFine.mutate({ fineId: fine.id, status: 'paid' })}
+                              disabled={resolveFine.isPending}
+                            >
+                              Mark Paid
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => handleWaiveFine(fine.id)} disabled={resolveFine.isPending}>
+                              Waive
+                            </Button>
+                          </>
+                        )}
                       </div>
                     </div>
                   ))}
                 </div>
-              </CardContent>
-            </Card>
-          </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="border-0 shadow-lg">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><CalendarPlus className="h-5 w-5" />Calendar Subscription</CardTitle>
+              <CardDescription>
+                Subscribe from Google Calendar, Outlook or your phone to see this chama's meetings and contribution dates, kept up to date automatically
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {createCalendarFeed.data ? (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    Your private link is shown only once. Anyone with it can see this calendar, so keep it to yourself.
+                  </p>
+                  <div className="flex gap-2">
+                    <Input readOnly value={createCalendarFeed.data.url} onFocus={(e) => e.target.select()} />
+                    <Button variant="outline" onClick={() => handleCopyFeedLink(createCalendarFeed.data.url)}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={createCalendarFeed.data.webcalUrl}>Open in Calendar App</a>
+                  </Button>
+                </>
+              ) : calendarFeed ? (
+                <p className="text-sm text-muted-foreground">
+                  Subscribed since {format(new Date(calendarFeed.createdAt), 'd MMM yyyy')}
+                  {calendarFeed.lastAccessedAt
+                    ? `; last updated by your calendar ${format(new Date(calendarFeed.lastAccessedAt), 'd MMM yyyy, HH:mm')}`
+                    : '; not yet fetched by a calendar app'}
+                  . Lost the link? Reset it to get a new one.
+                </p>
+              ) : (
+                <p className="text-sm text-muted-foreground">You have not subscribed to this chama's calendar.</p>
+              )}
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => createCalendarFeed.mutate()}
+                  disabled={createCalendarFeed.isPending}
+                >
+                  {calendarFeed ? 'Reset Link' : 'Get Calendar Link'}
+                </Button>
+                {calendarFeed && (
+                  <Button size="sm" variant="ghost" onClick={handleStopFeed} disabled={revokeCalendarFeed.isPending}>
+                    Stop Subscription
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="schedule" className="space-y-6">
@@ -292,6 +472,10 @@ const MeetingsVoting: React.FC<MeetingsVotingProps> = ({ chamaData }) => {
               <CardDescription>Create a new meeting for your chama</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
+              {!isOfficer && !meetingsLoading && (
+                <p className="text-sm text-muted-foreground">Only chama officers can schedule meetings.</p>
+              )}
+
               <div className="space-y-2">
                 <label className="text-sm font-medium">Meeting Title</label>
                 <Input
@@ -301,7 +485,7 @@ const MeetingsVoting: React.FC<MeetingsVotingProps> = ({ chamaData }) => {
                 />
               </div>
 
-              <div className="grid grid-cols-2 gap-4">
+              <div className="grid grid-cols-3 gap-4">
                 <div className="space-y-2">
                   <label className="text-sm font-medium">Date</label>
                   <Input
@@ -318,11 +502,49 @@ const MeetingsVoting: React.FC<MeetingsVotingProps> = ({ chamaData }) => {
                     onChange={(e) => setMeetingTime(e.target.value)}
                   />
                 </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Duration (min)</label>
+                  <Input
+                    type="number"
+                    min={15}
+                    max={720}
+                    value={meetingDuration}
+                    onChange={(e) => setMeetingDuration(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Repeats</label>
+                  <Select value={recurrence} onValueChange={(value) => setRecurrence(value as MeetingRecurrence)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(RECURRENCE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {recurrence !== 'none' && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Number of meetings</label>
+                    <Input
+                      type="number"
+                      min={2}
+                      max={52}
+                      value={occurrences}
+                      onChange={(e) => setOccurrences(e.target.value)}
+                    />
+                  </div>
+                )}
               </div>
 
               <div className="space-y-2">
                 <label className="text-sm font-medium">Meeting Type</label>
-                <Select value={meetingType} onValueChange={(value) => setMeetingType(value as 'physical' | 'virtual' | 'hybrid')}>
+                <Select value={meetingType} onValueChange={(value) => setMeetingType(value as MeetingType)}>
                   <SelectTrigger>
                     <SelectValue placeholder="Select meeting type" />
                   </SelectTrigger>
@@ -337,7 +559,7 @@ const MeetingsVoting: React.FC<MeetingsVotingProps> = ({ chamaData }) => {
               <div className="space-y-2">
                 <label className="text-sm font-medium">Description (Optional)</label>
                 <Textarea
-                  placeholder="Meeting agenda or description"
+                  placeholder="What the meeting is about; add the agenda once it is scheduled"
                   value={meetingDescription}
                   onChange={(e) => setMeetingDescription(e.target.value)}
                 />
@@ -354,12 +576,23 @@ const MeetingsVoting: React.FC<MeetingsVotingProps> = ({ chamaData }) => {
                 </div>
               )}
 
+              {(meetingType === 'virtual' || meetingType === 'hybrid') && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Video Link (Optional)</label>
+                  <Input
+                    placeholder="Leave blank to create a video room automatically"
+                    value={meetingLink}
+                    onChange={(e) => setMeetingLink(e.target.value)}
+                  />
+                </div>
+              )}
+
               <Button 
                 onClick={handleCreateMeeting} 
                 className="w-full" 
-                disabled={isCreating || isScheduling}
+                disabled={!isOfficer || scheduleMeeting.isPending}
               >
-                {isCreating || isScheduling ? (
+                {scheduleMeeting.isPending ? (
                   <>Scheduling Meeting...</>
                 ) : (
                   <>
@@ -506,6 +739,12 @@ const MeetingsVoting: React.FC<MeetingsVotingProps> = ({ chamaData }) => {
           </Card>
         </TabsContent>
       </Tabs>
+
+      <MeetingDetailsDialog
+        chamaId={chamaData.id}
+        meetingId={selectedMeetingId}
+        onOpenChange={(open) => !open && setSelectedMeetingId(null)}
+      />
     </div>
   );
 };
@@ -50,7 +50,7 @@ const MemberReputationCard: React.FC<MemberReputationProps> = ({
           </div>
         </div>
         <CardDescription>
-          {t('member.reputation')} • Updated {new Date(lastCalculated).toLocaleDateString()}
+          {t('member.reputation')} • {t('reputation.updated', { date: lastCalculated })}
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -2,9 +2,13 @@ import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Calendar, Lock, Unlock, RefreshCw, Loader2 } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Calendar, Lock, Loader2, SkipForward, ArrowLeftRight, Check, X, CircleDollarSign } from 'lucide-react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
 
@@ -13,86 +17,126 @@ interface MerryGoRoundScheduleProps {
   isAdmin: boolean;
 }
 
+interface MgrMember {
+  id: string;
+  user_id: string;
+  role: string | null;
+  mgr_turn_order: number | null;
+  profiles: { full_name: string | null; email: string | null } | null;
+}
+
+interface MgrRoundContribution {
+  member_id: string;
+  expected_amount: number;
+  contributed_amount: number;
+  deducted_amount: number;
+  deferred_amount: number;
+  status: 'paid' | 'deducted' | 'deferred';
+}
+
+interface MgrRound {
+  id: string;
+  cycle_number: number;
+  round_number: number;
+  recipient_member_id: string;
+  original_member_id: string;
+  scheduled_date: string;
+  status: 'scheduled' | 'paid' | 'failed';
+  expected_amount: number;
+  pot_amount: number;
+  deducted_amount: number;
+  arrears_withheld: number;
+  payout_amount: number;
+  closed_at: string | null;
+  error: string | null;
+  contributions: MgrRoundContribution[];
+}
+
+interface MgrTurnRequest {
+  id: string;
+  round_id: string;
+  requested_by: string;
+  request_type: 'skip' | 'swap';
+  swap_with_round_id: string | null;
+  reason: string | null;
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  created_at: string;
+}
+
+interface MgrSchedule {
+  chama: { contribution_amount: number | null; contribution_frequency: string | null; mgr_missed_policy: 'deduct' | 'defer' };
+  members: MgrMember[];
+  rounds: MgrRound[];
+  requests: MgrTurnRequest[];
+}
+
+const invokeSchedule = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke('manage-mgr-schedule', { body });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Merry-go-round request failed');
+  return data;
+};
+
+const formatKES = (amount: number) => `KES ${Number(amount).toLocaleString()}`;
+
 export const MerryGoRoundSchedule: React.FC<MerryGoRoundScheduleProps> = ({ chamaId, isAdmin }) => {
   const { toast } = useToast();
+  const { user } = useAuth();
   const queryClient = useQueryClient();
+  const [startDate, setStartDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [swapTargets, setSwapTargets] = useState<Record<string, string>>({});
 
-  const { data: members, isLoading } = useQuery({
+  const { data: schedule, isLoading } = useQuery({
     queryKey: ['chama-mgr-schedule', chamaId],
     queryFn: async () => {
-      const { data, error } = await supabase
-        .from('chama_members')
-        .select(`
-          *,
-          profiles:user_id(full_name, email)
-        `)
-        .eq('chama_id', chamaId)
-        .eq('is_active', true)
-        .order('mgr_turn_order', { ascending: true });
-      
-      if (error) throw error;
-      return data;
+      const data = await invokeSchedule({ chamaId, action: 'get_schedule' });
+      return data.data as MgrSchedule;
     }
   });
 
-  const setNextTurnMutation = useMutation({
-    mutationFn: async () => {
-      const { data, error } = await supabase.functions.invoke('manage-mgr-schedule', {
-        body: {
-          chamaId,
-          action: 'set_next_turn'
-        }
-      });
-
-      if (error) throw error;
-      return data;
-    },
-    onSuccess: () => {
+  const scheduleMutation = useMutation({
+    mutationFn: invokeSchedule,
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['chama-mgr-schedule', chamaId] });
       queryClient.invalidateQueries({ queryKey: ['chama-members', chamaId] });
       toast({
-        title: 'Turn Updated',
-        description: 'Next member\'s turn has been activated'
+        title: 'Merry-Go-Round Updated',
+        description: data.message
       });
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
       toast({
         title: 'Error',
-        description: error.message || 'Failed to set next turn',
+        description: error.message || 'Failed to update the merry-go-round',
         variant: 'destructive'
       });
     }
   });
 
-  const lockAllMutation = useMutation({
-    mutationFn: async () => {
-      const { data, error } = await supabase.functions.invoke('manage-mgr-schedule', {
-        body: {
-          chamaId,
-          action: 'lock_all'
-        }
-      });
+  const run = (action: string, extra: Record<string, unknown> = {}) =>
+    scheduleMutation.mutate({ chamaId, action, ...extra });
 
-      if (error) throw error;
-      return data;
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['chama-mgr-schedule', chamaId] });
-      toast({
-        title: 'All Locked',
-        description: 'All member withdrawals have been locked'
-      });
-    },
-    onError: (error: any) => {
-      toast({
-        title: 'Error',
-        description: error.message || 'Failed to lock withdrawals',
-        variant: 'destructive'
-      });
-    }
-  });
+  const members = schedule?.members ?? [];
+  const rounds = schedule?.rounds ?? [];
+  const requests = schedule?.requests ?? [];
+  const me = members.find(m => m.user_id === user?.id);
+  const upcoming = rounds
+    .filter(r => r.status === 'scheduled')
+    .sort((a, b) => a.scheduled_date.localeCompare(b.scheduled_date));
+  const history = rounds.filter(r => r.status !== 'scheduled');
+  const pendingRequests = requests.filter(r => r.status === 'pending');
+  const nextRound = upcoming[0];
+  const today = format(new Date(), 'yyyy-MM-dd');
 
-  const currentTurn = members?.find(m => !m.withdrawal_locked);
+  const memberName = (memberId: string) => {
+    const member = members.find(m => m.id === memberId);
+    return member?.profiles?.full_name || member?.profiles?.email || 'Member';
+  };
+  const roundLabel = (roundId: string | null) => {
+    const round = rounds.find(r => r.id === roundId);
+    return round ? `Turn ${round.round_number} (${format(new Date(round.scheduled_date), 'MMM dd')})` : '';
+  };
+  const hasPendingRequest = (roundId: string) => pendingRequests.some(r => r.round_id === roundId);
 
   return (
     <Card className="border-0 shadow-lg">
@@ -107,45 +151,33 @@ export const MerryGoRoundSchedule: React.FC<MerryGoRoundScheduleProps> = ({ cham
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => lockAllMutation.mutate()}
-                disabled={lockAllMutation.isPending}
-              >
-                {lockAllMutation.isPending ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                ) : (
-                  <Lock className="h-4 w-4" />
-                )}
-              </Button>
-              <Button
-                size="sm"
-                onClick={() => setNextTurnMutation.mutate()}
-                disabled={setNextTurnMutation.isPending}
+                onClick={() => run('lock_all')}
+                disabled={scheduleMutation.isPending}
               >
-                {setNextTurnMutation.isPending ? (
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                ) : (
-                  <RefreshCw className="mr-2 h-4 w-4" />
-                )}
-                Next Turn
+                <Lock className="h-4 w-4" />
               </Button>
+              {nextRound && (
+                <Button
+                  size="sm"
+                  onClick={() => run('close_round', { roundId: nextRound.id })}
+                  disabled={scheduleMutation.isPending || nextRound.scheduled_date > today}
+                >
+                  {scheduleMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <CircleDollarSign className="mr-2 h-4 w-4" />
+                  )}
+                  Pay Out Round
+                </Button>
+              )}
             </div>
           )}
         </div>
         <CardDescription>
-          Track and manage the merry-go-round payout schedule
+          Rounds follow the chama's {schedule?.chama.contribution_frequency || 'contribution'} cycle and pay out automatically on their date
         </CardDescription>
       </CardHeader>
       <CardContent>
-        {currentTurn && (
-          <div className="mb-4 p-4 bg-green-50 dark:bg-green-900/20 border-2 border-green-500 rounded-lg">
-            <p className="text-sm text-muted-foreground mb-1">Current Turn</p>
-            <p className="font-bold text-lg">
-              {(currentTurn.profiles as any)?.full_name || (currentTurn.profiles as any)?.email || 'Member'}
-            </p>
-            <Badge variant="default" className="mt-2">Active Turn</Badge>
-          </div>
-        )}
-
         {isLoading ? (
           <div className="space-y-2">
             {[1, 2, 3].map(i => (
@@ -153,47 +185,224 @@ export const MerryGoRoundSchedule: React.FC<MerryGoRoundScheduleProps> = ({ cham
             ))}
           </div>
         ) : (
-          <div className="space-y-2">
-            {members?.map((member, index) => (
-              <div
-                key={member.id}
-                className={`flex items-center justify-between p-3 rounded-lg ${
-                  !member.withdrawal_locked 
-                    ? 'bg-green-50 dark:bg-green-900/20 border-2 border-green-500' 
-                    : 'bg-muted/50'
-                }`}
-              >
-                <div className="flex items-center gap-3">
-                  <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center font-bold">
-                    {index + 1}
+          <Tabs defaultValue="upcoming">
+            <TabsList className="mb-4">
+              <TabsTrigger value="upcoming">Upcoming</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+              <TabsTrigger value="requests">
+                Requests{pendingRequests.length > 0 ? ` (${pendingRequests.length})` : ''}
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="upcoming" className="space-y-2">
+              {nextRound && (
+                <div className="mb-4 p-4 bg-green-50 dark:bg-green-900/20 border-2 border-green-500 rounded-lg">
+                  <p className="text-sm text-muted-foreground mb-1">Next Payout</p>
+                  <p className="font-bold text-lg">{memberName(nextRound.recipient_member_id)}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {format(new Date(nextRound.scheduled_date), 'MMM dd, yyyy')} · expected pot {formatKES(nextRound.expected_amount * members.length)}
+                  </p>
+                  {nextRound.error && (
+                    <p className="text-xs text-destructive mt-1">Last payout attempt failed: {nextRound.error}</p>
+                  )}
+                </div>
+              )}
+
+              {upcoming.length === 0 && (
+                <div className="p-4 rounded-lg bg-muted/50 space-y-3">
+                  <p className="text-sm text-muted-foreground">
+                    No rounds are scheduled. {isAdmin ? 'Start a new cycle with one turn per member in the current order.' : 'An admin will start the next cycle.'}
+                  </p>
+                  {isAdmin && (
+                    <div className="flex gap-2">
+                      <Input
+                        type="date"
+                        value={startDate}
+                        min={today}
+                        onChange={(e) => setStartDate(e.target.value)}
+                        className="max-w-[180px]"
+                      />
+                      <Button
+                        onClick={() => run('generate_schedule', { startDate })}
+                        disabled={scheduleMutation.isPending || !startDate}
+                      >
+                        Generate Schedule
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {upcoming.map(round => {
+                const isMine = round.recipient_member_id === me?.id;
+                const swapOptions = upcoming.filter(r => r.id !== round.id);
+                return (
+                  <div
+                    key={round.id}
+                    className={`p-3 rounded-lg ${isMine ? 'bg-primary/5 border border-primary/30' : 'bg-muted/50'}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3">
+                        <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center font-bold">
+                          {round.round_number}
+                        </div>
+                        <div>
+                          <p className="font-medium">{memberName(round.recipient_member_id)}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {format(new Date(round.scheduled_date), 'MMM dd, yyyy')}
+                            {round.original_member_id !== round.recipient_member_id && ' · reordered'}
+                          </p>
+                        </div>
+                      </div>
+                      {isMine && <Badge>Your Turn</Badge>}
+                    </div>
+
+                    {isMine && !hasPendingRequest(round.id) && swapOptions.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => run('request_skip', { roundId: round.id })}
+                          disabled={scheduleMutation.isPending}
+                        >
+                          <SkipForward className="mr-2 h-4 w-4" />
+                          Skip Turn
+                        </Button>
+                        <Select
+                          value={swapTargets[round.id]}
+                          onValueChange={(value) => setSwapTargets(prev => ({ ...prev, [round.id]: value }))}
+                        >
+                          <SelectTrigger className="h-9 w-[200px]">
+                            <SelectValue placeholder="Swap with..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {swapOptions.map(option => (
+                              <SelectItem key={option.id} value={option.id}>
+                                {memberName(option.recipient_member_id)} · {format(new Date(option.scheduled_date), 'MMM dd')}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => run('request_swap', { roundId: round.id, swapWithRoundId: swapTargets[round.id] })}
+                          disabled={scheduleMutation.isPending || !swapTargets[round.id]}
+                        >
+                          <ArrowLeftRight className="mr-2 h-4 w-4" />
+                          Request Swap
+                        </Button>
+                      </div>
+                    )}
+                    {isMine && hasPendingRequest(round.id) && (
+                      <p className="text-xs text-muted-foreground mt-2">Your request is waiting for admin approval</p>
+                    )}
                   </div>
-                  <div>
-                    <p className="font-medium">
-                      {(member.profiles as any)?.full_name || (member.profiles as any)?.email || 'Member'}
-                    </p>
-                    {member.mgr_turn_date && (
+                );
+              })}
+
+              {isAdmin && schedule && (
+                <div className="flex items-center justify-between pt-4">
+                  <p className="text-sm text-muted-foreground">Members who have not contributed</p>
+                  <Select
+                    value={schedule.chama.mgr_missed_policy}
+                    onValueChange={(policy) => run('set_policy', { policy })}
+                  >
+                    <SelectTrigger className="h-9 w-[220px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="deduct">Deduct from savings</SelectItem>
+                      <SelectItem value="defer">Withhold from their payout</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="history" className="space-y-3">
+              {history.length === 0 && (
+                <p className="text-sm text-muted-foreground">No rounds have been paid out yet</p>
+              )}
+              {history.map(round => (
+                <div key={round.id} className="p-3 rounded-lg bg-muted/50">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium">
+                        Cycle {round.cycle_number}, Turn {round.round_number} · {memberName(round.recipient_member_id)}
+                      </p>
                       <p className="text-xs text-muted-foreground">
-                        {format(new Date(member.mgr_turn_date), 'MMM dd, yyyy')}
+                        {format(new Date(round.closed_at ?? round.scheduled_date), 'MMM dd, yyyy')}
                       </p>
-                    )}
+                    </div>
+                    <div className="text-right">
+                      <p className="font-bold">{formatKES(round.payout_amount)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Pot {formatKES(round.pot_amount)}
+                        {round.arrears_withheld > 0 && ` · ${formatKES(round.arrears_withheld)} withheld`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="mt-2 space-y-1">
+                    {round.contributions.map(contribution => (
+                      <div key={contribution.member_id} className="flex items-center justify-between text-xs">
+                        <span>{memberName(contribution.member_id)}</span>
+                        <span className="flex items-center gap-2">
+                          {formatKES(contribution.contributed_amount)}
+                          {contribution.deducted_amount > 0 && ` + ${formatKES(contribution.deducted_amount)} from savings`}
+                          {contribution.deferred_amount > 0 && ` · ${formatKES(contribution.deferred_amount)} owed`}
+                          <Badge
+                            variant={contribution.status === 'paid' ? 'secondary' : 'outline'}
+                            className="text-[10px]"
+                          >
+                            {contribution.status}
+                          </Badge>
+                        </span>
+                      </div>
+                    ))}
                   </div>
                 </div>
-                <div className="flex items-center gap-2">
-                  {member.withdrawal_locked ? (
-                    <Badge variant="secondary" className="flex items-center gap-1">
-                      <Lock className="h-3 w-3" />
-                      Locked
-                    </Badge>
+              ))}
+            </TabsContent>
+
+            <TabsContent value="requests" className="space-y-2">
+              {requests.length === 0 && (
+                <p className="text-sm text-muted-foreground">No skip or swap requests</p>
+              )}
+              {requests.map(request => (
+                <div key={request.id} className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
+                  <div>
+                    <p className="font-medium">
+                      {memberName(request.requested_by)} wants to {request.request_type} {roundLabel(request.round_id)}
+                      {request.request_type === 'swap' && ` with ${roundLabel(request.swap_with_round_id)}`}
+                    </p>
+                    {request.reason && <p className="text-xs text-muted-foreground">{request.reason}</p>}
+                  </div>
+                  {isAdmin && request.status === 'pending' ? (
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => run('review_request', { requestId: request.id, approve: false })}
+                        disabled={scheduleMutation.isPending}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => run('review_request', { requestId: request.id, approve: true })}
+                        disabled={scheduleMutation.isPending}
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                    </div>
                   ) : (
-                    <Badge variant="default" className="flex items-center gap-1 bg-green-500">
-                      <Unlock className="h-3 w-3" />
-                      Active
-                    </Badge>
+                    <Badge variant={request.status === 'approved' ? 'default' : 'secondary'}>{request.status}</Badge>
                   )}
                 </div>
-              </div>
-            ))}
-          </div>
+              ))}
+            </TabsContent>
+          </Tabs>
         )}
       </CardContent>
     </Card>
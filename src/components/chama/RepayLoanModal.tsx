@@ -4,7 +4,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/lib/supabase';
+import { useIdempotencyKey } from '@/hooks/useIdempotencyKey';
+import { invokeWithPinStepUp } from '@/lib/pinStepUp';
 import { DollarSign } from 'lucide-react';
 
 interface RepayLoanModalProps {
@@ -23,6 +24,7 @@ export const RepayLoanModal: React.FC<RepayLoanModalProps> = ({
   const [amount, setAmount] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const { toast } = useToast();
+  const { getIdempotencyHeaders, resetKey } = useIdempotencyKey();
 
   const remaining = loan.amount - (loan.repaid_amount || 0);
 
@@ -51,15 +53,18 @@ export const RepayLoanModal: React.FC<RepayLoanModalProps> = ({
     setIsProcessing(true);
 
     try {
-      const { data, error } = await supabase.functions.invoke('repay-chama-loan', {
-        body: {
-          loanId: loan.id,
-          chamaId,
-          amount: repayAmount
-        }
+      const body = {
+        loanId: loan.id,
+        chamaId,
+        amount: repayAmount
+      };
+      const { data, error } = await invokeWithPinStepUp('repay-chama-loan', {
+        body,
+        headers: getIdempotencyHeaders(body)
       });
 
       if (error) throw error;
+      resetKey();
 
       toast({
         title: "Repayment Successful! 💸",
@@ -1,10 +1,16 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { FileText, DollarSign, Mail, Download } from 'lucide-react';
-import { useReports } from '@/hooks/useReports';
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileText, DollarSign, Mail, Download, Sheet, User, CalendarDays } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useReports, ReportType } from '@/hooks/useReports';
 
 interface ReportsStatementsProps {
   chamaData: any;
@@ -12,12 +18,31 @@ interface ReportsStatementsProps {
 
 const ReportsStatements: React.FC<ReportsStatementsProps> = ({ chamaData }) => {
   const { generateReport, isGenerating } = useReports();
+  const [from, setFrom] = useState(format(new Date(), 'yyyy-MM-01'));
+  const [to, setTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [memberId, setMemberId] = useState('');
+  const [preparedBy, setPreparedBy] = useState('');
+  const [approvedBy, setApprovedBy] = useState('');
 
-  const reportTypes = [
+  const { data: members } = useQuery({
+    queryKey: ['chama-report-members', chamaData.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('chama_members')
+        .select('id, profiles:user_id(full_name, email)')
+        .eq('chama_id', chamaData.id)
+        .order('joined_at', { ascending: true });
+
+      if (error) throw error;
+      return data as unknown as { id: string; profiles: { full_name: string | null; email: string | null } | null }[];
+    }
+  });
+
+  const reportTypes: { id: ReportType; name: string; description: string; icon: typeof FileText }[] = [
     { 
       id: 'monthly_contribution',
-      name: 'Monthly Contribution Report', 
-      description: 'Member contributions for the current month', 
+      name: 'Contribution Report', 
+      description: 'Expected and paid contributions per member, with receipts', 
       icon: DollarSign 
     },
     { 
@@ -37,14 +62,33 @@ const ReportsStatements: React.FC<ReportsStatementsProps> = ({ chamaData }) => {
       name: 'Member Summary', 
       description: 'Individual member activity and standings', 
       icon: FileText 
+    },
+    { 
+      id: 'member_statement',
+      name: 'Member Statement', 
+      description: 'Savings and loan accounts for one member with running balances', 
+      icon: User 
+    },
+    {
+      id: 'meeting_minutes',
+      name: 'Meeting Minutes',
+      description: 'Attendance, agendas, minutes and resolutions of meetings held in the period',
+      icon: CalendarDays
     }
   ];
 
-  const handleGenerateReport = (reportType: string, format: 'pdf' | 'email') => {
+  const handleGenerateReport = (reportType: ReportType, format: 'pdf' | 'email' | 'csv') => {
     generateReport({
       chamaId: chamaData.id,
-      reportType: reportType as any,
-      format
+      reportType,
+      format,
+      from,
+      to,
+      memberId: reportType === 'member_statement' ? memberId : undefined,
+      signatories: {
+        preparedBy: preparedBy || undefined,
+        approvedBy: approvedBy || undefined
+      }
     });
   };
 
@@ -72,9 +116,27 @@ const ReportsStatements: React.FC<ReportsStatementsProps> = ({ chamaData }) => {
             <div className="flex-1">
               <h3 className="font-semibold mb-1">Quick Report Generation</h3>
               <p className="text-sm text-muted-foreground">
-                Select any report type below to generate a PDF or receive it via email. 
-                All reports include up-to-date information and are ready for download immediately.
+                Pick a period, then download any report as a printable PDF or a CSV for spreadsheets.
+                Signature lines default to the chama's treasurer and chairperson.
               </p>
+              <div className="grid gap-3 mt-4 sm:grid-cols-2 lg:grid-cols-4">
+                <div className="space-y-1">
+                  <Label htmlFor="report-from">From</Label>
+                  <Input id="report-from" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="report-to">To</Label>
+                  <Input id="report-to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="report-prepared-by">Prepared by</Label>
+                  <Input id="report-prepared-by" placeholder="Treasurer" value={preparedBy} onChange={(e) => setPreparedBy(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="report-approved-by">Approved by</Label>
+                  <Input id="report-approved-by" placeholder="Chairperson" value={approvedBy} onChange={(e) => setApprovedBy(e.target.value)} />
+                </div>
+              </div>
             </div>
           </div>
         </CardContent>
@@ -94,16 +156,40 @@ const ReportsStatements: React.FC<ReportsStatementsProps> = ({ chamaData }) => {
                 </CardTitle>
                 <CardDescription className="text-sm">{report.description}</CardDescription>
               </CardHeader>
-              <CardContent>
+              <CardContent className="space-y-3">
+                {report.id === 'member_statement' && (
+                  <Select value={memberId} onValueChange={setMemberId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select member" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {members?.map((member) => (
+                        <SelectItem key={member.id} value={member.id}>
+                          {member.profiles?.full_name || member.profiles?.email || 'Member'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
                 <div className="flex gap-2">
                   <Button 
                     size="sm" 
                     onClick={() => handleGenerateReport(report.id, 'pdf')}
-                    disabled={isGenerating}
+                    disabled={isGenerating || (report.id === 'member_statement' && !memberId)}
                     className="flex-1 items-center gap-1"
                   >
                     <Download className="h-3 w-3" />
-                    {isGenerating ? 'Generating...' : 'Download PDF'}
+                    {isGenerating ? 'Generating...' : 'PDF'}
+                  </Button>
+                  <Button 
+                    size="sm" 
+                    variant="outline"
+                    onClick={() => handleGenerateReport(report.id, 'csv')}
+                    disabled={isGenerating || (report.id === 'member_statement' && !memberId)}
+                    className="flex-1 items-center gap-1"
+                  >
+                    <Sheet className="h-3 w-3" />
+                    CSV
                   </Button>
                   <Button 
                     size="sm" 
@@ -49,10 +49,14 @@ export const RoleManagement: React.FC<RoleManagementProps> = ({ chamaId }) => {
       if (error) throw error;
       return data;
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['chama-members-roles', chamaId] });
       queryClient.invalidateQueries({ queryKey: ['chama-members', chamaId] });
-      toast({
+      queryClient.invalidateQueries({ queryKey: ['chama-votes', chamaId] });
+      toast(data?.pending ? {
+        title: 'Awaiting Approval',
+        description: data.message
+      } : {
         title: 'Role Updated',
         description: 'Member role has been updated successfully'
       });
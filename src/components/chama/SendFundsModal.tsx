@@ -4,7 +4,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/lib/supabase';
+import { useIdempotencyKey } from '@/hooks/useIdempotencyKey';
+import { invokeWithPinStepUp } from '@/lib/pinStepUp';
 import { Send } from 'lucide-react';
 
 interface SendFundsModalProps {
@@ -23,6 +24,7 @@ export const SendFundsModal: React.FC<SendFundsModalProps> = ({
   const [amount, setAmount] = useState(loan.amount.toString());
   const [isProcessing, setIsProcessing] = useState(false);
   const { toast } = useToast();
+  const { getIdempotencyHeaders, resetKey } = useIdempotencyKey();
 
   const handleSend = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -40,16 +42,19 @@ export const SendFundsModal: React.FC<SendFundsModalProps> = ({
     setIsProcessing(true);
 
     try {
-      const { data, error } = await supabase.functions.invoke('send-loan-funds', {
-        body: {
-          loanId: loan.id,
-          chamaId,
-          amount: sendAmount,
-          memberPaymentNumber: loan.member_payment_number
-        }
+      const body = {
+        loanId: loan.id,
+        chamaId,
+        amount: sendAmount,
+        memberPaymentNumber: loan.member_payment_number
+      };
+      const { data, error } = await invokeWithPinStepUp('send-loan-funds', {
+        body,
+        headers: getIdempotencyHeaders(body)
       });
 
       if (error) throw error;
+      resetKey();
 
       toast({
         title: "Funds Sent Successfully! 💸",
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { MessageSquare, Save } from 'lucide-react';
+import { SENDER_ID_PATTERN, SmsUsage, useChamaSms } from '@/hooks/useChamaSms';
+
+interface SmsSettingsCardProps {
+  chamaId: string;
+}
+
+const formatCost = (currency: string, amount: number) =>
+  `${currency} ${amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+const UsageSummary: React.FC<{ usage: SmsUsage }> = ({ usage }) => {
+  const costs = Object.entries(usage.costs);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">
+        Since {new Date(usage.since).toLocaleDateString(undefined, { day: 'numeric', month: 'long' })}
+      </p>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {[
+          ['Sent', usage.sent],
+          ['Delivered', usage.delivered],
+          ['Failed', usage.failed],
+          ['Segments', usage.segments],
+        ].map(([label, value]) => (
+          <div key={label} className="p-3 bg-muted/50 rounded-lg">
+            <p className="text-xs text-muted-foreground">{label}</p>
+            <p className="text-lg font-semibold">{value}</p>
+          </div>
+        ))}
+      </div>
+      {costs.length > 0 ? (
+        costs.map(([currency, cost]) => (
+          <p key={currency} className="text-sm text-muted-foreground">
+            Cost {formatCost(currency, cost.total)}
+            {cost.unbilled > 0 && `, of which ${formatCost(currency, cost.unbilled)} is still to be charged to the chama wallet`}
+          </p>
+        ))
+      ) : (
+        <p className="text-sm text-muted-foreground">No SMS costs this month.</p>
+      )}
+      {usage.queued > 0 && (
+        <p className="text-xs text-muted-foreground">{usage.queued} waiting to send</p>
+      )}
+    </div>
+  );
+};
+
+const SmsSettingsCard: React.FC<SmsSettingsCardProps> = ({ chamaId }) => {
+  const { status, isLoading, updateSettings, setOptOut } = useChamaSms(chamaId);
+  const [senderId, setSenderId] = useState('');
+
+  useEffect(() => {
+    setSenderId(status?.usage?.sender_id ?? '');
+  }, [status?.usage?.sender_id]);
+
+  if (isLoading || !status) {
+    return null;
+  }
+
+  const usage = status.usage;
+  const senderIdValid = senderId.trim() === '' || SENDER_ID_PATTERN.test(senderId.trim());
+
+  return (
+    <Card className="border-0 shadow-lg">
+      <CardHeader>
+        <CardTitle>
+          <MessageSquare className="h-5 w-5 inline mr-2" />
+          SMS
+        </CardTitle>
+        <CardDescription>
+          Announcements, payment confirmations and loan reminders sent by text, for members without the app
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {status.isOfficer && usage && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between p-4 bg-muted/50 rounded-lg">
+              <div>
+                <p className="font-medium">Send texts to members</p>
+                <p className="text-sm text-muted-foreground">
+                  Texts are charged to the chama wallet at cost each night
+                </p>
+              </div>
+              <Switch
+                checked={usage.enabled}
+                disabled={updateSettings.isPending}
+                onCheckedChange={(enabled) => updateSettings.mutate({ enabled, senderId: usage.sender_id })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="sms-sender-id">Sender ID</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="sms-sender-id"
+                  value={senderId}
+                  maxLength={11}
+                  onChange={(e) => setSenderId(e.target.value)}
+                  placeholder="Platform default"
+                  className="w-64"
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!senderIdValid || updateSettings.isPending || senderId.trim() === (usage.sender_id ?? '')}
+                  onClick={() => updateSettings.mutate({ enabled: usage.enabled, senderId: senderId.trim() || null })}
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  Save
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {senderIdValid
+                  ? 'The name texts come from, once it is registered with the SMS provider. Leave empty for the default.'
+                  : 'Use 3 to 11 letters, digits or spaces.'}
+              </p>
+            </div>
+
+            <UsageSummary usage={usage} />
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {!status.hasPhone && (
+            <p className="text-sm text-muted-foreground">Add a phone number to your profile to receive texts.</p>
+          )}
+          <div className="flex items-center justify-between">
+            <div>
+              <Label>Texts from this chama</Label>
+              <p className="text-xs text-muted-foreground">Announcements, payments and loan reminders</p>
+            </div>
+            <Switch
+              checked={!status.optedOut && !status.optedOutEverywhere}
+              disabled={!status.hasPhone || status.optedOutEverywhere || setOptOut.isPending}
+              onCheckedChange={(on) => setOptOut.mutate({ optedOut: !on })}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label>Texts from all chamas</Label>
+              <p className="text-xs text-muted-foreground">Security alerts are always sent</p>
+            </div>
+            <Switch
+              checked={!status.optedOutEverywhere}
+              disabled={!status.hasPhone || setOptOut.isPending}
+              onCheckedChange={(on) => setOptOut.mutate({ optedOut: !on, allChamas: true })}
+            />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SmsSettingsCard;
@@ -5,9 +5,10 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { useWithdrawals } from '@/hooks/useWithdrawals';
+import { useIdempotencyKey } from '@/hooks/useIdempotencyKey';
+import { invokeWithPinStepUp } from '@/lib/pinStepUp';
+import { useFeeQuote } from '@/hooks/useFeeCalculation';
 import CurrencyDisplay from '@/components/CurrencyDisplay';
 import { Loader2, ArrowDown, Info, Building2, Smartphone } from 'lucide-react';
 
@@ -31,14 +32,11 @@ export const WithdrawModal: React.FC<WithdrawModalProps> = ({
   const [accountName, setAccountName] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const { toast } = useToast();
-  const { calculateFee } = useWithdrawals();
+  const { getIdempotencyHeaders, resetKey } = useIdempotencyKey();
 
-  // Calculate fee and net amount
-  const withdrawalFee = useMemo(() => {
-    const amountNum = parseFloat(amount);
-    if (isNaN(amountNum) || amountNum <= 0) return 0;
-    return calculateFee(amountNum, paymentMethod);
-  }, [amount, paymentMethod, calculateFee]);
+  // Quoted by the same fee engine withdraw-funds charges with
+  const { data: feeQuote } = useFeeQuote('withdrawal', parseFloat(amount) || 0, { channel: paymentMethod });
+  const withdrawalFee = feeQuote?.fee ?? 0;
 
   const netAmount = useMemo(() => {
     const amountNum = parseFloat(amount);
@@ -87,21 +85,23 @@ export const WithdrawModal: React.FC<WithdrawModalProps> = ({
           };
 
       // Call edge function for withdrawal
-      const { data, error } = await supabase.functions.invoke('withdraw-funds', {
-        body: {
-          amount: amountNum,
-          paymentMethod,
-          destinationDetails,
-          fee: withdrawalFee,
-        }
+      const body = {
+        amount: amountNum,
+        paymentMethod,
+        destinationDetails,
+      };
+      const { data, error } = await invokeWithPinStepUp('withdraw-funds', {
+        body,
+        headers: getIdempotencyHeaders(body)
       });
 
       if (error) throw error;
 
       if (data.success) {
+        resetKey();
         toast({
           title: "✅ Withdrawal Initiated",
-          description: `KES ${netAmount.toLocaleString()} will be sent to ${paymentMethod === 'bank' ? bankName : phoneNumber}. Fee: KES ${withdrawalFee}`,
+          description: `KES ${Number(data.netAmount).toLocaleString()} will be sent to ${paymentMethod === 'bank' ? bankName : phoneNumber}. Fee: KES ${data.fee}`,
         });
 
         onOpenChange(false);
@@ -14,6 +14,7 @@ import {
 import CurrencyDisplay from '@/components/CurrencyDisplay';
 import { useToast } from '@/hooks/use-toast';
 import { useWithdrawals } from '@/hooks/useWithdrawals';
+import { useFeeQuote } from '@/hooks/useFeeCalculation';
 
 interface WithdrawalsPanelProps {
   userWallets: {
@@ -35,7 +36,9 @@ const WithdrawalsPanel: React.FC<WithdrawalsPanelProps> = ({ userWallets, userRo
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const { toast } = useToast();
-  const { withdrawals, limits, calculateFee: calcFee, createWithdrawal, isCreating } = useWithdrawals();
+  const { withdrawals, limits, createWithdrawal, isCreating } = useWithdrawals();
+  const { data: feeQuote } = useFeeQuote('withdrawal', parseFloat(withdrawAmount) || 0, { channel: withdrawMethod });
+  const withdrawalFee = feeQuote?.fee ?? 0;
 
   const getWalletStatus = (wallet: any) => {
     if (wallet.type === 'chama_view_locked') {
@@ -393,12 +396,12 @@ const WithdrawalsPanel: React.FC<WithdrawalsPanelProps> = ({ userWallets, userRo
                     </div>
                     <div className="flex justify-between text-sm">
                       <span>Transaction fee:</span>
-                      <CurrencyDisplay amount={calcFee(parseFloat(withdrawAmount) || 0, withdrawMethod)} showToggle={false} />
+                      <CurrencyDisplay amount={withdrawalFee} showToggle={false} />
                     </div>
                     <div className="flex justify-between text-sm font-medium border-t border-blue-300 pt-2 mt-2">
                       <span>You will receive:</span>
                       <CurrencyDisplay 
-                        amount={(parseFloat(withdrawAmount) || 0) - calcFee(parseFloat(withdrawAmount) || 0, withdrawMethod)} 
+                        amount={feeQuote?.net_amount ?? (parseFloat(withdrawAmount) || 0)} 
                         showToggle={false} 
                       />
                     </div>
@@ -446,7 +449,7 @@ const WithdrawalsPanel: React.FC<WithdrawalsPanelProps> = ({ userWallets, userRo
                         </div>
                         <div className="flex justify-between">
                           <span>Fee:</span>
-                          <CurrencyDisplay amount={calcFee(parseFloat(withdrawAmount) || 0, withdrawMethod)} showToggle={false} />
+                          <CurrencyDisplay amount={withdrawalFee} showToggle={false} />
                         </div>
                         <div className="flex justify-between">
                           <span>Method:</span>
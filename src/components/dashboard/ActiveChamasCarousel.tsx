@@ -53,10 +53,16 @@ export const ActiveChamasCarousel: React.FC<ActiveChamasCarouselProps> = ({
       });
 
       if (error) throw error;
-      return data;
+      // Pending when the deletion has gone to the officers (or a member vote) for approval
+      const result = data as { success?: boolean; pending?: boolean; message?: string } | null;
+      if (result?.success === false) throw new Error(result.message);
+      return result;
     },
-    onSuccess: () => {
-      toast({
+    onSuccess: (result) => {
+      toast(result?.pending ? {
+        title: "Awaiting Approval",
+        description: result.message,
+      } : {
         title: "Chama Deleted",
         description: "The chama has been successfully deleted.",
       });
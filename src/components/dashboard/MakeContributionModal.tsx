@@ -10,6 +10,8 @@ import { useChamas } from '@/hooks/useChamas';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
+import { useIdempotencyKey } from '@/hooks/useIdempotencyKey';
+import { invokeWithPinStepUp } from '@/lib/pinStepUp';
 import { useQueryClient } from '@tanstack/react-query';
 import { useLinkedAccounts } from '@/hooks/useLinkedAccounts';
 import { Alert, AlertDescription } from '@/components/ui/alert';
@@ -37,6 +39,7 @@ export const MakeContributionModal: React.FC<MakeContributionModalProps> = ({
 
   const { user } = useAuth();
   const { toast } = useToast();
+  const { getIdempotencyHeaders, resetKey } = useIdempotencyKey();
   const queryClient = useQueryClient();
   const { data: chamas, isLoading: loadingChamas } = useChamas();
   const { linkedAccounts } = useLinkedAccounts();
@@ -94,16 +97,20 @@ export const MakeContributionModal: React.FC<MakeContributionModalProps> = ({
 
     try {
       // Call the make-contribution edge function
-      const { data, error } = await supabase.functions.invoke('make-contribution', {
-        body: {
-          chamaId: selectedChamaId,
-          amount: contributionAmount,
-          paymentMethod,
-          notes
-        }
-      });
+      const body = {
+        chamaId: selectedChamaId,
+        amount: contributionAmount,
+        paymentMethod,
+        notes
+      };
+      const options = { body, headers: getIdempotencyHeaders(body) };
+      // Only wallet contributions move money out of the member's own balance
+      const { data, error } = paymentMethod === 'wallet'
+        ? await invokeWithPinStepUp('make-contribution', options)
+        : await supabase.functions.invoke('make-contribution', options);
 
       if (error) throw error;
+      resetKey();
 
       toast({
         title: "✅ Contribution Successful!",
@@ -14,12 +14,15 @@ import {
   Loader
 } from 'lucide-react';
 import CurrencyDisplay from '@/components/CurrencyDisplay';
+import { isCurrencyCode } from '@/lib/currency';
 import { useNavigate } from 'react-router-dom';
 
 interface RecentTransaction {
   id: string;
   type: 'contribution' | 'loan_disbursement' | 'loan_repayment' | 'transfer' | 'deposit' | 'withdrawal';
   amount: number;
+  // Currency of the wallet the row was written to
+  currency?: string | null;
   description: string;
   status: 'pending' | 'completed' | 'failed';
   created_at: string;
@@ -167,6 +170,7 @@ export const RecentTransactions: React.FC<RecentTransactionsProps> = ({
               <div className="text-right">
                 <CurrencyDisplay 
                   amount={transaction.amount} 
+                  currency={isCurrencyCode(transaction.currency) ? transaction.currency : undefined}
                   className={`font-semibold text-sm ${getAmountColor(transaction.type, transaction.status)}`}
                   showToggle={false} 
                 />
@@ -0,0 +1,119 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { useLoanArrearsAgeing, ArrearsBucket } from '@/hooks/useAdminLoanOversight';
+import { useCurrency } from '@/hooks/useCurrency';
+import { formatCurrency } from '@/lib/currency';
+
+interface ArrearsAgeingReportProps {
+  // Omit for the platform-wide report (admins only)
+  chamaId?: string;
+}
+
+const BUCKET_LABELS: Record<ArrearsBucket, string> = {
+  current: 'Current',
+  '1-30': '1-30 days',
+  '31-60': '31-60 days',
+  '61-90': '61-90 days',
+  '90+': '90+ days',
+};
+
+const BUCKET_STYLES: Record<ArrearsBucket, string> = {
+  current: 'bg-green-100 text-green-800',
+  '1-30': 'bg-yellow-100 text-yellow-800',
+  '31-60': 'bg-orange-100 text-orange-800',
+  '61-90': 'bg-red-100 text-red-800',
+  '90+': 'bg-red-200 text-red-900',
+};
+
+export const ArrearsAgeingReport: React.FC<ArrearsAgeingReportProps> = ({ chamaId }) => {
+  const { currency } = useCurrency();
+  const { data, isLoading, error } = useLoanArrearsAgeing(chamaId);
+
+  const overdueLoans = (data?.loans ?? []).filter((loan) => loan.ageing_bucket !== 'current');
+
+  return (
+    <Card className="border-0 shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-orange-600" />
+          Arrears Ageing
+        </CardTitle>
+        <CardDescription>
+          Outstanding loans by days overdue, updated daily with late-payment penalties
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">
+            {error instanceof Error ? error.message : 'Failed to load arrears report'}
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {data?.buckets.map((bucket) => (
+                <div key={bucket.bucket} className="rounded-lg border p-3">
+                  <Badge className={BUCKET_STYLES[bucket.bucket]}>{BUCKET_LABELS[bucket.bucket]}</Badge>
+                  <p className="mt-2 text-lg font-bold">{formatCurrency(bucket.bucket === 'current' ? bucket.outstanding : bucket.overdue, currency)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {bucket.loans} loan{bucket.loans === 1 ? '' : 's'}
+                    {bucket.penalties > 0 && ` · ${formatCurrency(bucket.penalties, currency)} penalties`}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            {overdueLoans.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No loans are in arrears</p>
+            ) : (
+              <div className="border rounded-lg overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Borrower</TableHead>
+                      {!chamaId && <TableHead>Loan</TableHead>}
+                      <TableHead>Oldest Due</TableHead>
+                      <TableHead>Days Overdue</TableHead>
+                      <TableHead>Bucket</TableHead>
+                      <TableHead>Overdue</TableHead>
+                      <TableHead>Penalties</TableHead>
+                      <TableHead>Outstanding</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {overdueLoans.map((loan) => (
+                      <TableRow key={`${loan.loan_type}-${loan.loan_id}`}>
+                        <TableCell className="font-medium">{loan.borrower_name}</TableCell>
+                        {!chamaId && (
+                          <TableCell className="text-sm">
+                            {loan.loan_type === 'chama' ? loan.chama_name : 'Personal'}
+                          </TableCell>
+                        )}
+                        <TableCell>
+                          {loan.oldest_due_date ? new Date(loan.oldest_due_date).toLocaleDateString() : '-'}
+                        </TableCell>
+                        <TableCell>{loan.days_overdue}</TableCell>
+                        <TableCell>
+                          <Badge className={BUCKET_STYLES[loan.ageing_bucket]}>{BUCKET_LABELS[loan.ageing_bucket]}</Badge>
+                        </TableCell>
+                        <TableCell>{formatCurrency(loan.overdue_amount, currency)}</TableCell>
+                        <TableCell>{formatCurrency(loan.penalty_amount, currency)}</TableCell>
+                        <TableCell>{formatCurrency(loan.outstanding_amount, currency)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
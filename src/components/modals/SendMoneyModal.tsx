@@ -9,9 +9,12 @@ import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Badge } from '@/components/ui/badge';
 import { Loader2, Send, User, AlertCircle, CreditCard, Building2, Smartphone, Phone, Mail, CheckCircle2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useIdempotencyKey } from '@/hooks/useIdempotencyKey';
+import { invokeWithPinStepUp } from '@/lib/pinStepUp';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import CurrencyDisplay from '@/components/CurrencyDisplay';
+import { formatCurrency } from '@/lib/currency';
 import { useTransactionNotification } from '@/hooks/useTransactionNotification';
 import { usePaystackIntegration } from '@/hooks/usePaystackIntegration';
 import { useLinkedAccounts } from '@/hooks/useLinkedAccounts';
@@ -34,6 +37,7 @@ export const SendMoneyModal: React.FC<SendMoneyModalProps> = ({
 }) => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { getIdempotencyHeaders, resetKey } = useIdempotencyKey();
   const { showTransactionNotification } = useTransactionNotification();
   const { initializePayment, isProcessingPayment } = usePaystackIntegration();
   const { linkedAccounts } = useLinkedAccounts();
@@ -97,16 +101,19 @@ export const SendMoneyModal: React.FC<SendMoneyModalProps> = ({
     setIsLoading(true);
     
     try {
-      const { data, error } = await supabase.functions.invoke('send-money', {
-        body: {
-          senderId: user?.id,
-          recipientEmail: recipient,
-          amount: numericAmount,
-          description: description.trim() || undefined,
-        }
+      const body = {
+        senderId: user?.id,
+        recipientEmail: recipient,
+        amount: numericAmount,
+        description: description.trim() || undefined,
+      };
+      const { data, error } = await invokeWithPinStepUp('send-money', {
+        body,
+        headers: getIdempotencyHeaders(body)
       });
 
       if (error) throw error;
+      resetKey();
 
       const newBalance = walletBalance - numericAmount;
       showTransactionNotification({
@@ -117,9 +124,12 @@ export const SendMoneyModal: React.FC<SendMoneyModalProps> = ({
         newBalance,
       });
 
+      const sent = formatCurrency(numericAmount, data?.currency);
       toast({
         title: "✅ Money Sent!",
-        description: `KES ${numericAmount.toLocaleString()} sent to ${recipient}`,
+        description: data?.recipientCurrency && data.recipientCurrency !== data.currency
+          ? `${sent} sent to ${recipient} (they received ${formatCurrency(data.recipientAmount, data.recipientCurrency)})`
+          : `${sent} sent to ${recipient}`,
       });
 
       resetForm();
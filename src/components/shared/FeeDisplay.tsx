@@ -2,13 +2,15 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Info, Calculator } from 'lucide-react';
+import { Info, Calculator, Loader2, Tag } from 'lucide-react';
 import CurrencyDisplay from "@/components/CurrencyDisplay";
-import { useFeeCalculation } from '@/hooks/useFeeCalculation';
+import { useFeeCalculation, useFeeQuote } from '@/hooks/useFeeCalculation';
 
 interface FeeDisplayProps {
   transactionType: string;
   amount: number;
+  channel?: string;
+  chamaId?: string;
   showDetails?: boolean;
   className?: string;
 }
@@ -16,14 +18,26 @@ interface FeeDisplayProps {
 export const FeeDisplay: React.FC<FeeDisplayProps> = ({
   transactionType,
   amount,
+  channel,
+  chamaId,
   showDetails = true,
   className = ""
 }) => {
-  const { getFeeBreakdown, getTransactionTypeLabel } = useFeeCalculation();
-  
-  const breakdown = getFeeBreakdown(transactionType, amount);
-  
-  if (breakdown.fee === 0) {
+  const { getTransactionTypeLabel } = useFeeCalculation();
+  const { data: quote, isLoading } = useFeeQuote(transactionType, amount, { channel, chamaId });
+
+  if (isLoading) {
+    return (
+      <div className={`text-sm text-gray-500 flex items-center gap-1 ${className}`}>
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Calculating fee...
+      </div>
+    );
+  }
+
+  if (!quote) return null;
+
+  if (quote.fee === 0) {
     return showDetails ? (
       <div className={`text-sm text-green-600 ${className}`}>
         <span className="flex items-center gap-1">
@@ -53,45 +67,60 @@ export const FeeDisplay: React.FC<FeeDisplayProps> = ({
         <div className="space-y-2">
           <div className="flex items-center justify-between">
             <span className="text-sm text-gray-600">Amount:</span>
-            <CurrencyDisplay amount={breakdown.amount} showToggle={false} />
+            <CurrencyDisplay amount={quote.amount} showToggle={false} />
           </div>
           
           <div className="flex items-center justify-between">
             <span className="text-sm text-gray-600">Transaction Fee:</span>
             <span className="text-red-600 font-medium">
-              <CurrencyDisplay amount={breakdown.fee} showToggle={false} />
+              <CurrencyDisplay amount={quote.fee} showToggle={false} />
             </span>
           </div>
+
+          {quote.discount > 0 && (
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-green-700 flex items-center gap-1">
+                <Tag className="h-3 w-3" />
+                {quote.waiver_name || 'Promotion'}:
+              </span>
+              <span className="text-green-700 text-sm">
+                -<CurrencyDisplay amount={quote.discount} showToggle={false} />
+              </span>
+            </div>
+          )}
           
           <Separator />
           
           <div className="flex items-center justify-between font-semibold">
             <span className="text-sm">You'll Pay:</span>
             <span className="text-lg">
-              <CurrencyDisplay amount={breakdown.amount + breakdown.fee} showToggle={false} />
+              <CurrencyDisplay amount={quote.total} showToggle={false} />
             </span>
           </div>
           
           <div className="flex items-center justify-between font-semibold">
             <span className="text-sm">You'll Receive:</span>
             <span className="text-lg text-green-600">
-              <CurrencyDisplay amount={breakdown.netAmount} showToggle={false} />
+              <CurrencyDisplay amount={quote.net_amount} showToggle={false} />
             </span>
           </div>
         </div>
         
-        {showDetails && breakdown.configuration && (
+        {showDetails && quote.fee_type && (
           <>
             <Separator />
             <div className="text-xs text-gray-500 space-y-1">
-              <div>Fee Type: {breakdown.configuration.fee_type}</div>
-              {breakdown.configuration.fee_type === 'percentage' && (
-                <div>Rate: {breakdown.configuration.percentage_rate}%</div>
+              <div>Fee Type: {quote.fee_type}</div>
+              {quote.fee_type === 'percentage' && (
+                <div>Rate: {quote.percentage_rate}%</div>
               )}
-              {breakdown.configuration.fee_type === 'tiered' && (
+              {quote.fee_type === 'tiered' && (
                 <div>Tiered pricing based on amount</div>
               )}
-              <div>Effective Rate: {breakdown.feePercentage.toFixed(2)}%</div>
+              {quote.capped && (
+                <div>Capped at the maximum fee</div>
+              )}
+              <div>Effective Rate: {((quote.fee / quote.amount) * 100).toFixed(2)}%</div>
             </div>
           </>
         )}
@@ -103,6 +132,8 @@ export const FeeDisplay: React.FC<FeeDisplayProps> = ({
 interface SimpleFeeDisplayProps {
   transactionType: string;
   amount: number;
+  channel?: string;
+  chamaId?: string;
   layout?: 'horizontal' | 'vertical';
   showLabel?: boolean;
 }
@@ -110,13 +141,16 @@ interface SimpleFeeDisplayProps {
 export const SimpleFeeDisplay: React.FC<SimpleFeeDisplayProps> = ({
   transactionType,
   amount,
+  channel,
+  chamaId,
   layout = 'horizontal',
   showLabel = true
 }) => {
-  const { getFeeBreakdown } = useFeeCalculation();
-  const breakdown = getFeeBreakdown(transactionType, amount);
-  
-  if (breakdown.fee === 0) {
+  const { data: quote } = useFeeQuote(transactionType, amount, { channel, chamaId });
+
+  if (!quote) return null;
+
+  if (quote.fee === 0) {
     return showLabel ? (
       <span className="text-xs text-green-600">Fee: Free</span>
     ) : null;
@@ -127,7 +161,7 @@ export const SimpleFeeDisplay: React.FC<SimpleFeeDisplayProps> = ({
       <div className="space-y-1 text-sm">
         {showLabel && <div className="text-gray-600 text-xs">Transaction Fee:</div>}
         <div className="text-red-600 font-medium">
-          <CurrencyDisplay amount={breakdown.fee} showToggle={false} />
+          <CurrencyDisplay amount={quote.fee} showToggle={false} />
         </div>
       </div>
     );
@@ -137,7 +171,7 @@ export const SimpleFeeDisplay: React.FC<SimpleFeeDisplayProps> = ({
     <div className="flex items-center justify-between text-sm">
       {showLabel && <span className="text-gray-600">Fee:</span>}
       <span className="text-red-600 font-medium">
-        <CurrencyDisplay amount={breakdown.fee} showToggle={false} />
+        <CurrencyDisplay amount={quote.fee} showToggle={false} />
       </span>
     </div>
   );
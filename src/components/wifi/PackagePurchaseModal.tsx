@@ -8,6 +8,7 @@ import { Separator } from "@/components/ui/separator";
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
+import { invokeWithPinStepUp } from '@/lib/pinStepUp';
 import { 
   Wifi, Clock, Database, CreditCard, 
   AlertCircle, CheckCircle2, Loader2, 
@@ -120,7 +121,7 @@ export const PackagePurchaseModal: React.FC<PackagePurchaseModalProps> = ({
 
       const idempotencyKey = `${user.id}_${pkg.id}_${Date.now()}`;
 
-      const { data, error } = await supabase.functions.invoke('wifi-purchase-package', {
+      const { data, error } = await invokeWithPinStepUp('wifi-purchase-package', {
         body: {
           package_id: pkg.id,
           hotspot_id: hotspot.id,
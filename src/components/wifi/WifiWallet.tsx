@@ -16,6 +16,8 @@ import {
   Smartphone, Wallet, AlertCircle, Loader2,
   TrendingUp, Clock, DollarSign
 } from 'lucide-react';
+import { useCurrency } from '@/hooks/useCurrency';
+import { formatCurrency } from '@/lib/currency';
 
 interface WalletData {
   id: string;
@@ -38,6 +40,7 @@ export const WifiWallet: React.FC = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const { initializePayment, isProcessingPayment } = usePaystackIntegration();
+  const { currency } = useCurrency();
   const [wallet, setWallet] = useState<WalletData | null>(null);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
@@ -157,14 +160,6 @@ export const WifiWallet: React.FC = () => {
     }
   };
 
-  const formatAmount = (amount: number) => {
-    return new Intl.NumberFormat('en-KE', {
-      style: 'currency',
-      currency: 'KES',
-      minimumFractionDigits: 2
-    }).format(amount);
-  };
-
   const getTransactionIcon = (type: string) => {
     switch (type) {
       case 'topup':
@@ -263,21 +258,21 @@ export const WifiWallet: React.FC = () => {
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold mb-2">
-              {formatAmount(wallet?.balance || 0)}
+              {formatCurrency(wallet?.balance || 0, currency)}
             </div>
             <div className="flex items-center gap-4 text-sm text-muted-foreground">
               {wallet?.pending_balance && wallet.pending_balance > 0 && (
                 <>
                   <div className="flex items-center gap-1">
                     <Clock className="h-4 w-4" />
-                    <span>Pending: {formatAmount(wallet.pending_balance)}</span>
+                    <span>Pending: {formatCurrency(wallet.pending_balance, currency)}</span>
                   </div>
                   <span>•</span>
                 </>
               )}
               <div className="flex items-center gap-1">
                 <TrendingUp className="h-4 w-4" />
-                <span>Total Spent: {formatAmount(wallet?.total_spent || 0)}</span>
+                <span>Total Spent: {formatCurrency(wallet?.total_spent || 0, currency)}</span>
               </div>
             </div>
           </CardContent>
@@ -345,7 +340,7 @@ export const WifiWallet: React.FC = () => {
                   </div>
                   <div className={`font-medium ${getTransactionColor(transaction.transaction_type)}`}>
                     {transaction.transaction_type === 'topup' ? '+' : '-'}
-                    {formatAmount(Math.abs(transaction.amount))}
+                    {formatCurrency(Math.abs(transaction.amount), currency)}
                   </div>
                 </div>
               ))}
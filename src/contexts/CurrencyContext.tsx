@@ -0,0 +1,19 @@
+import React, { ReactNode } from 'react';
+import { useWalletCurrency } from '@/hooks/useExchangeRates';
+import { CurrencyContext } from '@/hooks/useCurrency';
+import { CurrencyCode } from '@/lib/currency';
+
+interface CurrencyProviderProps {
+  currency?: CurrencyCode;
+  children: ReactNode;
+}
+
+export const CurrencyProvider = ({ currency, children }: CurrencyProviderProps) => {
+  const walletCurrency = useWalletCurrency();
+
+  return (
+    <CurrencyContext.Provider value={{ currency: currency ?? walletCurrency, walletCurrency }}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+};
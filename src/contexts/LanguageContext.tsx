@@ -1,200 +1,39 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  Catalog,
+  DEFAULT_LANGUAGE,
+  Language,
+  englishCatalog,
+  findMissingKeys,
+  isLanguage,
+  loadCatalog,
+} from '@/i18n/catalogs';
+import { formatMessage, MessageValues } from '@/i18n/format';
 
-type Language = 'en' | 'sw' | 'sheng' | 'giriama';
+export type { Language } from '@/i18n/catalogs';
 
 interface LanguageContextType {
   language: Language;
   setLanguage: (lang: Language) => void;
-  t: (key: string, fallback?: string) => string;
+  /**
+   * Looks `key` up in the current catalog, then English, then the fallback.
+   * Pass values for ICU arguments: t('dashboard.members.due', { count: 3 }).
+   */
+  t: (key: string, valuesOrFallback?: MessageValues | string, fallback?: string) => string;
 }
 
-const translations = {
-  en: {
-    // Navigation
-    'nav.home': 'Home',
-    'nav.chamas': 'Chamas', 
-    'nav.analytics': 'Analytics',
-    'nav.create': 'Create',
-    'nav.welcome': 'Welcome',
-    'nav.signOut': 'Sign Out',
-    'nav.signIn': 'Sign In',
-    
-    // Analytics
-    'analytics.title': 'Analytics Dashboard',
-    'analytics.subtitle': 'Track your financial progress',
-    'analytics.total.savings': 'Total Savings',
-    'analytics.monthly.growth': 'Monthly Growth',
-    'analytics.active.chamas': 'Active Chamas',
-    'analytics.next.payment': 'Next Payment',
-    'analytics.days.remaining': 'Days remaining',
-    'analytics.performing.well': 'All performing well',
-    'analytics.no.chamas': 'No active chamas',
-    'analytics.annual.return': 'Annual return rate',
-    'analytics.contribution.trends': 'Contribution Trends',
-    'analytics.monthly.contributions': 'Your monthly contributions over time',
-    'analytics.chama.performance': 'Chama Performance',
-    'analytics.contributions.by.chama': 'Contributions by Chama group',
-    'analytics.financial.goals': 'Financial Goals Progress',
-    'analytics.track.progress': 'Track your progress towards financial milestones',
-    'analytics.recent.activity': 'Recent Activity Summary',
-    'analytics.contribution.made': 'Contribution Made',
-    'analytics.no.data': 'No contribution data available',
-    'analytics.no.chama.data': 'No chama data available',
-    'analytics.no.recent.activity': 'No recent activity found',
-    
-    // Goals
-    'goals.house': 'House Deposit',
-    'goals.emergency': 'Emergency Fund',
-    'goals.business': 'Business Capital',
-
-    // Dashboard
-    'dashboard.net.worth': 'Net Worth',
-    'dashboard.upcoming.contributions': 'Upcoming Contributions',
-    'dashboard.pending.votes': 'Pending Votes',
-    'dashboard.roi': 'ROI',
-    'dashboard.repayment.performance': 'Repayment Performance',
-    'member.reputation': 'Member Reputation'
-  },
-  sw: {
-    // Navigation
-    'nav.home': 'Nyumbani',
-    'nav.chamas': 'Chama',
-    'nav.analytics': 'Uchambuzi',
-    'nav.create': 'Unda',
-    'nav.welcome': 'Karibu',
-    'nav.signOut': 'Toka',
-    'nav.signIn': 'Ingia',
-    
-    // Analytics
-    'analytics.title': 'Dashibodi ya Uchambuzi',
-    'analytics.subtitle': 'Fuatilia maendeleo yako ya kifedha',
-    'analytics.total.savings': 'Jumla ya Akiba',
-    'analytics.monthly.growth': 'Ukuaji wa Kila Mwezi',
-    'analytics.active.chamas': 'Chama Zinazofanya Kazi',
-    'analytics.next.payment': 'Malipo Yanayofuata',
-    'analytics.days.remaining': 'Siku zilizobaki',
-    'analytics.performing.well': 'Zote zinafanya vizuri',
-    'analytics.no.chamas': 'Hakuna chama zinazofanya kazi',
-    'analytics.annual.return': 'Kiwango cha kurudi kila mwaka',
-    'analytics.contribution.trends': 'Mwelekeo wa Michango',
-    'analytics.monthly.contributions': 'Michango yako ya kila mwezi kwa muda',
-    'analytics.chama.performance': 'Utendaji wa Chama',
-    'analytics.contributions.by.chama': 'Michango kwa kundi la Chama',
-    'analytics.financial.goals': 'Maendeleo ya Malengo ya Kifedha',
-    'analytics.track.progress': 'Fuatilia maendeleo yako kuelekea alama za kifedha',
-    'analytics.recent.activity': 'Muhtasari wa Shughuli za Hivi Karibuni',
-    'analytics.contribution.made': 'Mchango Umefanywa',
-    'analytics.no.data': 'Hakuna data ya michango inapatikana',
-    'analytics.no.chama.data': 'Hakuna data ya chama inapatikana',
-    'analytics.no.recent.activity': 'Hakuna shughuli za hivi karibuni',
-    
-    // Goals
-    'goals.house': 'Amana ya Nyumba',
-    'goals.emergency': 'Fedha za Dharura',
-    'goals.business': 'Mtaji wa Biashara',
-
-    // Dashboard
-    'dashboard.net.worth': 'Thamani Halisi',
-    'dashboard.upcoming.contributions': 'Michango Inayokuja',
-    'dashboard.pending.votes': 'Kura Zinazongoja',
-    'dashboard.roi': 'Faida',
-    'dashboard.repayment.performance': 'Utendaji wa Kulipa',
-    'member.reputation': 'Sifa za Mjumbe'
-  },
-  sheng: {
-    // Navigation
-    'nav.home': 'Home',
-    'nav.chamas': 'Chama',
-    'nav.analytics': 'Analytics',
-    'nav.create': 'Tengeneza',
-    'nav.welcome': 'Sasa',
-    'nav.signOut': 'Toka',
-    'nav.signIn': 'Ingia',
-    
-    // Analytics
-    'analytics.title': 'Analytics Dashboard',
-    'analytics.subtitle': 'Angalia progress ya doo yako',
-    'analytics.total.savings': 'Jumla ya Doo',
-    'analytics.monthly.growth': 'Growth ya Kila Month',
-    'analytics.active.chamas': 'Chama Active',
-    'analytics.next.payment': 'Payment Inayokam',
-    'analytics.days.remaining': 'Siku zimebaki',
-    'analytics.performing.well': 'Zote zinado poa',
-    'analytics.no.chamas': 'Hakuna chama active',
-    'analytics.annual.return': 'Return ya kila year',
-    'analytics.contribution.trends': 'Trend za Contribution',
-    'analytics.monthly.contributions': 'Contribution zako za kila month',
-    'analytics.chama.performance': 'Performance ya Chama',
-    'analytics.contributions.by.chama': 'Contribution kwa group ya Chama',
-    'analytics.financial.goals': 'Progress ya Goals za Doo',
-    'analytics.track.progress': 'Track progress yako ya goals za doo',
-    'analytics.recent.activity': 'Activity za Siku Hizi',
-    'analytics.contribution.made': 'Contribution Imefanywa',
-    'analytics.no.data': 'Hakuna data ya contribution',
-    'analytics.no.chama.data': 'Hakuna data ya chama',
-    'analytics.no.recent.activity': 'Hakuna activity za siku hizi',
-    
-    // Goals
-    'goals.house': 'Deposit ya Nyumba',
-    'goals.emergency': 'Doo ya Emergency',
-    'goals.business': 'Capital ya Biashara',
-
-    // Dashboard
-    'dashboard.net.worth': 'Net Worth',
-    'dashboard.upcoming.contributions': 'Contribution Zinakam',
-    'dashboard.pending.votes': 'Votes Zimengoja',
-    'dashboard.roi': 'ROI',
-    'dashboard.repayment.performance': 'Performance ya Kulipa',
-    'member.reputation': 'Reputation ya Member'
-  },
-  giriama: {
-    // Navigation (keeping some English for now - can be translated more later)
-    'nav.home': 'Mudzi',
-    'nav.chamas': 'Chama',
-    'nav.analytics': 'Analytics',
-    'nav.create': 'Umba',
-    'nav.welcome': 'Karibu',
-    'nav.signOut': 'Soka',
-    'nav.signIn': 'Ngia',
-    
-    // Analytics
-    'analytics.title': 'Analytics Dashboard',
-    'analytics.subtitle': 'Ona maendeleo ga hela yako',
-    'analytics.total.savings': 'Jumla ya Akiba',
-    'analytics.monthly.growth': 'Kukua kwa Mwezi',
-    'analytics.active.chamas': 'Chama Hai',
-    'analytics.next.payment': 'Malipo Galakuja',
-    'analytics.days.remaining': 'Siku zimerema',
-    'analytics.performing.well': 'Zose zinafanya kuheri',
-    'analytics.no.chamas': 'Kugwi chama hai',
-    'analytics.annual.return': 'Kurudi kwa mwaka',
-    'analytics.contribution.trends': 'Muelekeo wa Michango',
-    'analytics.monthly.contributions': 'Michango yako ya kila mwezi',
-    'analytics.chama.performance': 'Utendaji wa Chama',
-    'analytics.contributions.by.chama': 'Michango kwa kikundi cha Chama',
-    'analytics.financial.goals': 'Maendeleo ga Malengo ga Hela',
-    'analytics.track.progress': 'Ona maendeleo yako ga malengo ga hela',
-    'analytics.recent.activity': 'Shughuli za Siku Hizi',
-    'analytics.contribution.made': 'Mchango Umefanywa',
-    'analytics.no.data': 'Kugwi data ya michango',
-    'analytics.no.chama.data': 'Kugwi data ya chama',
-    'analytics.no.recent.activity': 'Kugwi shughuli za siku hizi',
-    
-    // Goals
-    'goals.house': 'Amana ya Nyumba',
-    'goals.emergency': 'Hela za Hatari',
-    'goals.business': 'Mtaji wa Biashara',
-
-    // Dashboard
-    'dashboard.net.worth': 'Thamani Halisi',
-    'dashboard.upcoming.contributions': 'Michango Galakuja',
-    'dashboard.pending.votes': 'Kura Zimerema',
-    'dashboard.roi': 'Faida',
-    'dashboard.repayment.performance': 'Utendaji wa Kulipa',
-    'member.reputation': 'Sifa za Mjumbe'
-  }
+const STORAGE_KEY = 'preferred_language';
+
+const storedLanguage = (): Language => {
+  const stored = typeof window !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+  return isLanguage(stored) ? stored : DEFAULT_LANGUAGE;
 };
 
+// Each missing key is reported once per language while developing
+const reportedMissing = new Set<string>();
+
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
 
 export const useLanguage = (): LanguageContextType => {
@@ -210,12 +49,82 @@ interface LanguageProviderProps {
 }
 
 export const LanguageProvider = ({ children }: LanguageProviderProps) => {
-  const [language, setLanguage] = useState<Language>('en');
+  const { user } = useAuth();
+  const [language, setLanguageState] = useState<Language>(storedLanguage);
+  const [catalog, setCatalog] = useState<Catalog>(englishCatalog);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadCatalog(language)
+      .then((loaded) => {
+        if (cancelled) return;
+        setCatalog(loaded);
+
+        if (import.meta.env.DEV && language !== DEFAULT_LANGUAGE) {
+          const missing = findMissingKeys(loaded);
+          if (missing.length > 0) {
+            console.warn(`[i18n] ${missing.length} untranslated keys in "${language}":`, missing);
+          }
+        }
+      })
+      .catch((error) => {
+        console.error(`Failed to load "${language}" translations:`, error);
+        if (!cancelled) setCatalog(englishCatalog);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [language]);
+
+  // The profile's language wins over this device's choice once signed in
+  useEffect(() => {
+    if (!user) return;
+
+    supabase
+      .from('profiles')
+      .select('preferred_language')
+      .eq('id', user.id)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (isLanguage(data?.preferred_language)) {
+          localStorage.setItem(STORAGE_KEY, data.preferred_language);
+          setLanguageState(data.preferred_language);
+        }
+      });
+  }, [user]);
+
+  const setLanguage = useCallback((lang: Language) => {
+    setLanguageState(lang);
+    localStorage.setItem(STORAGE_KEY, lang);
+
+    if (user) {
+      supabase
+        .from('profiles')
+        .update({ preferred_language: lang })
+        .eq('id', user.id)
+        .then(({ error }) => {
+          if (error) console.error('Error saving preferred language:', error);
+        });
+    }
+  }, [user]);
+
+  const t = useCallback((key: string, valuesOrFallback?: MessageValues | string, fallback?: string): string => {
+    const values = typeof valuesOrFallback === 'object' ? valuesOrFallback : undefined;
+    const defaultText = typeof valuesOrFallback === 'string' ? valuesOrFallback : fallback;
+
+    const message = catalog[key] || englishCatalog[key];
+    if (!message) {
+      if (import.meta.env.DEV && !reportedMissing.has(key)) {
+        reportedMissing.add(key);
+        console.warn(`[i18n] Missing key "${key}" in the English catalog`);
+      }
+      return defaultText ? formatMessage(defaultText, values, language) : key;
+    }
 
-  const t = (key: string, fallback?: string): string => {
-    const value = translations[language]?.[key];
-    return value || fallback || key;
-  };
+    return formatMessage(message, values, language);
+  }, [catalog, language]);
 
   return (
     <LanguageContext.Provider value={{ language, setLanguage, t }}>
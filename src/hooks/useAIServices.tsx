@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
@@ -48,6 +49,54 @@ export interface TrainingData {
   demographics: any;
 }
 
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+  reported: boolean;
+}
+
+type ChatStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; response: string; usage: ChatUsage }
+  | { type: 'error'; error: string };
+
+// ai-finance-chat explains failures (rate limits, provider outages) in `details`
+const chatError = async (error: Error) => {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    if (body?.details) return new Error(body.details);
+  }
+  return error;
+};
+
+// Reads the server-sent events ai-finance-chat sends when asked to stream
+const readChatStream = async (response: Response, onDelta: (text: string) => void) => {
+  if (!response.body) throw new Error('The AI advisor did not respond');
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    const events = buffer.split('\n\n');
+    buffer = events.pop() ?? '';
+
+    for (const event of events) {
+      if (!event.startsWith('data:')) continue;
+      const payload = JSON.parse(event.slice(5).trim()) as ChatStreamEvent;
+
+      if (payload.type === 'delta') onDelta(payload.content);
+      if (payload.type === 'error') throw new Error(payload.error);
+      if (payload.type === 'done') return { response: payload.response, usage: payload.usage };
+    }
+  }
+
+  throw new Error('The AI advisor stopped before finishing its answer');
+};
+
 export const useAIServices = () => {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -71,7 +120,30 @@ export const useAIServices = () => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['ai-chat-history', user?.id] });
-      queryClient.invalidateQueries({ queryKey: ['ai-recommendations', user?.id] });
+    },
+  });
+
+  // Same chat, with the answer passed to onDelta as it is written
+  const streamChatMutation = useMutation({
+    mutationFn: async ({ message, onDelta }: { message: string; onDelta: (text: string) => void }) => {
+      const { data, error } = await supabase.functions.invoke('ai-finance-chat', {
+        body: {
+          message,
+          stream: true,
+          contextData: {
+            timestamp: new Date().toISOString(),
+          }
+        }
+      });
+
+      if (error) throw await chatError(error);
+      return readChatStream(data as Response, onDelta);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ai-chat-history', user?.id] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'AI advisor unavailable', description: error.message, variant: 'destructive' });
     },
   });
 
@@ -167,6 +239,7 @@ export const useAIServices = () => {
   return {
     // Mutations
     chatMutation,
+    streamChatMutation,
     categorizeExpenseMutation,
     collectTrainingDataMutation,
     
@@ -174,7 +247,7 @@ export const useAIServices = () => {
     aiAnalysisQuery,
     
     // Loading states
-    isChatting: chatMutation.isPending,
+    isChatting: chatMutation.isPending || streamChatMutation.isPending,
     isCategorizing: categorizeExpenseMutation.isPending,
     isCollectingData: collectTrainingDataMutation.isPending,
     isAnalyzing: aiAnalysisQuery.isLoading,
@@ -44,6 +44,35 @@ export interface LoanStatistics {
   };
 }
 
+export type ArrearsBucket = 'current' | '1-30' | '31-60' | '61-90' | '90+';
+
+export interface LoanArrearsRow {
+  loan_id: string;
+  loan_type: 'personal' | 'chama';
+  chama_id: string | null;
+  chama_name: string | null;
+  borrower_name: string;
+  outstanding_amount: number;
+  overdue_amount: number | null;
+  penalty_amount: number;
+  days_overdue: number;
+  ageing_bucket: ArrearsBucket;
+  oldest_due_date: string | null;
+}
+
+export interface ArrearsBucketTotal {
+  bucket: ArrearsBucket;
+  loans: number;
+  outstanding: number;
+  overdue: number;
+  penalties: number;
+}
+
+export interface LoanArrearsReport {
+  buckets: ArrearsBucketTotal[];
+  loans: LoanArrearsRow[];
+}
+
 // Hook to fetch all loans for admin oversight
 export const useAdminLoansOverview = () => {
   return useQuery({
@@ -256,4 +285,21 @@ export const useAdminLoanRegions = () => {
       return regions.filter(region => region && region !== 'Unknown');
     },
   });
-};
\ No newline at end of file
+};
+
+// Hook to fetch the arrears ageing report; all loans for admins, or one chama for its officers
+export const useLoanArrearsAgeing = (chamaId?: string) => {
+  return useQuery({
+    queryKey: ['loan-arrears-ageing', chamaId ?? 'all'],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke('loan-arrears-report', {
+        body: { chamaId: chamaId ?? null },
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Failed to load arrears report');
+
+      return { buckets: data.buckets, loans: data.loans } as LoanArrearsReport;
+    },
+  });
+};
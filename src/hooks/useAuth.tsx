@@ -3,6 +3,7 @@ import { useState, useEffect, createContext, useContext } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase, testSupabaseConnection } from '@/lib/supabase';
 import { useToast } from '@/hooks/use-toast';
+import { clearPinStepUp } from '@/lib/pinStepUp';
 
 interface AuthContextType {
   user: User | null;
@@ -72,6 +73,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       if (event === 'SIGNED_IN' && session?.user) {
         // Reset PIN verification on every sign-in for security
         setPinVerified(false);
+        clearPinStepUp();
         
         setTimeout(async () => {
           try {
@@ -136,6 +138,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       if (event === 'SIGNED_OUT') {
         setIsAdmin(false);
         setPinVerified(false);
+        clearPinStepUp();
         setHasPinSetup(null);
       }
     });
@@ -253,6 +256,11 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const signOut = async () => {
     setLoading(true);
     try {
+      // Best effort: marks this device's session as signed out in the device list
+      await supabase.functions.invoke('manage-devices', { body: { action: 'sign_out' } }).catch((endError) => {
+        console.error('Failed to end device session:', endError);
+      });
+
       const { error } = await supabase.auth.signOut();
       if (error) throw error;
 
@@ -2,6 +2,7 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from './useAuth';
 import { useToast } from '@/hooks/use-toast';
+import { AmortizationMethod, RepaymentFrequency, ScheduleInstalment } from '@/lib/loanSchedule';
 
 export interface ChamaLoan {
   id: string;
@@ -22,7 +23,10 @@ export interface ChamaLoan {
   member_payment_number?: string;
   report?: string;
   funds_sent_at?: string;
-  repayment_schedule?: any;
+  amortization_method?: AmortizationMethod;
+  repayment_frequency?: RepaymentFrequency;
+  repayment_schedule?: ScheduleInstalment[] | null;
+  total_repayable?: number | null;
   created_at: string;
   updated_at?: string;
   chama_members?: {
@@ -100,20 +104,44 @@ export const useChamaLoans = (chamaId: string) => {
     enabled: !!user && !!chamaId,
   });
 
+  // Loan terms set by the chama, for previews before applying
+  const loanSettingsQuery = useQuery({
+    queryKey: ['chama-loan-settings', chamaId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('chama_settings')
+        .select('loan_interest_rate, max_loan_amount')
+        .eq('chama_id', chamaId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return {
+        interestRate: data?.loan_interest_rate || 10.0,
+        maxLoanAmount: data?.max_loan_amount || 1000000,
+      };
+    },
+    enabled: !!chamaId,
+  });
+
   // Apply for a loan with credit score calculation
   const applyForLoanMutation = useMutation({
     mutationFn: async ({ 
       amount, 
       purpose, 
-      repaymentPeriodMonths
+      repaymentPeriodMonths,
+      amortizationMethod = 'flat',
+      repaymentFrequency = 'monthly'
     }: {
       amount: number;
       purpose: string;
       repaymentPeriodMonths: number;
+      amortizationMethod?: AmortizationMethod;
+      repaymentFrequency?: RepaymentFrequency;
     }) => {
       if (!user) throw new Error('User not authenticated');
 
-      console.log('Applying for loan:', { amount, purpose, repaymentPeriodMonths });
+      console.log('Applying for loan:', { amount, purpose, repaymentPeriodMonths, amortizationMethod, repaymentFrequency });
 
       // Get current user's member ID
       const { data: memberData, error: memberError } = await (supabase as any)
@@ -142,7 +170,7 @@ export const useChamaLoans = (chamaId: string) => {
         throw new Error(`Maximum loan amount is KES ${maxLoan.toLocaleString()}`);
       }
 
-      // Create loan application
+      // Create loan application; the database attaches the repayment schedule
       const { data, error } = await (supabase as any)
         .from('chama_loans')
         .insert({
@@ -151,6 +179,8 @@ export const useChamaLoans = (chamaId: string) => {
           amount,
           purpose,
           duration_months: repaymentPeriodMonths,
+          amortization_method: amortizationMethod,
+          repayment_frequency: repaymentFrequency,
           status: 'pending',
           interest_rate: interestRate,
           repaid_amount: 0
@@ -336,7 +366,9 @@ export const useChamaLoans = (chamaId: string) => {
     isLoading: loansQuery.isLoading,
     creditScore: creditScoreQuery.data,
     isCreditScoreLoading: creditScoreQuery.isLoading,
+    loanSettings: loanSettingsQuery.data,
     applyForLoan: applyForLoanMutation.mutate,
+    applyForLoanAsync: applyForLoanMutation.mutateAsync,
     isApplying: applyForLoanMutation.isPending,
     approveLoan: approveLoanMutation.mutate,
     isApproving: approveLoanMutation.isPending,
@@ -1,34 +1,315 @@
-import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
 import { useToast } from './use-toast';
 
+export type MeetingType = 'physical' | 'virtual' | 'hybrid';
+export type MeetingRecurrence = 'none' | 'weekly' | 'biweekly' | 'monthly';
+export type AttendanceStatus = 'present' | 'late' | 'absent' | 'excused';
+
+export interface MeetingAgendaItem {
+  id: string;
+  meeting_id: string;
+  position: number;
+  title: string;
+  description: string | null;
+  duration_minutes: number | null;
+}
+
+export interface MeetingAttendance {
+  meeting_id: string;
+  member_id: string;
+  status: AttendanceStatus;
+  method: 'check_in' | 'secretary' | 'auto';
+  checked_in_at: string | null;
+  recorded_by: string | null;
+  note: string | null;
+}
+
+export interface MeetingMinutes {
+  meeting_id: string;
+  content: string;
+  recorded_by: string | null;
+  approved_by: string | null;
+  approved_at: string | null;
+  updated_at: string;
+}
+
+export interface LinkableVote {
+  id: string;
+  title: string;
+  status: string | null;
+  outcome: string | null;
+  deadline: string | null;
+}
+
+export interface MeetingResolution {
+  id: string;
+  meeting_id: string;
+  agenda_item_id: string | null;
+  resolution: string;
+  vote_id: string | null;
+  outcome: 'adopted' | 'rejected' | null;
+  vote: LinkableVote | null;
+  created_at: string;
+}
+
+export interface MeetingFine {
+  id: string;
+  meeting_id: string;
+  member_id: string;
+  reason: 'absence' | 'lateness';
+  amount: number;
+  status: 'outstanding' | 'paid' | 'waived';
+  resolution_note: string | null;
+  created_at: string;
+}
+
+export interface ChamaMeeting {
+  id: string;
+  chama_id: string;
+  series_id: string | null;
+  recurrence: MeetingRecurrence;
+  title: string;
+  description: string | null;
+  meeting_type: MeetingType;
+  location: string | null;
+  meeting_link: string | null;
+  scheduled_at: string;
+  duration_minutes: number;
+  status: 'scheduled' | 'completed' | 'cancelled';
+  agenda_published_at: string | null;
+  cancelled_reason: string | null;
+  closed_at: string | null;
+  agenda: MeetingAgendaItem[];
+  attendance: MeetingAttendance[];
+  minutes: MeetingMinutes | null;
+  resolutions: MeetingResolution[];
+  fines: MeetingFine[];
+}
+
+export interface MeetingMember {
+  id: string;
+  user_id: string;
+  role: string;
+  is_active: boolean;
+  joined_at: string;
+  name: string;
+}
+
+export interface MeetingFinePolicy {
+  absenceFine: number;
+  latenessFine: number;
+  latenessGraceMinutes: number;
+}
+
+export interface CalendarFeedStatus {
+  createdAt: string;
+  lastAccessedAt: string | null;
+}
+
+export interface CalendarFeedLink {
+  url: string;
+  // The same feed for calendar apps that subscribe through webcal:// links
+  webcalUrl: string;
+}
+
+interface MeetingsState {
+  currentMember: { id: string; role: string };
+  members: MeetingMember[];
+  policy: MeetingFinePolicy;
+  votes: LinkableVote[];
+  outstandingFines: MeetingFine[];
+  calendarFeed: CalendarFeedStatus | null;
+  meetings: ChamaMeeting[];
+}
+
+export interface ScheduleMeetingInput {
+  title: string;
+  description?: string;
+  meetingType: MeetingType;
+  location?: string;
+  meetingLink?: string;
+  scheduledAt: string;
+  durationMinutes?: number;
+  recurrence?: MeetingRecurrence;
+  occurrences?: number;
+}
+
+export interface AgendaItemInput {
+  title: string;
+  description?: string;
+  durationMinutes?: number;
+}
+
+// Members may check in from this long before a meeting starts; matches check_in_to_meeting()
+export const CHECK_IN_OPENS_MINUTES = 60;
+
+const invokeMeetings = async <T,>(body: Record<string, unknown>): Promise<{ message: string; data: T }> => {
+  const { data, error } = await supabase.functions.invoke('chama-meetings', { body });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Meeting request failed');
+
+  return { message: data.message, data: data.data as T };
+};
+
+/** Whether a meeting is open for self check-in right now. */
+export const isCheckInOpen = (meeting: ChamaMeeting, now = Date.now()) => {
+  const start = new Date(meeting.scheduled_at).getTime();
+  return meeting.status === 'scheduled'
+    && now >= start - CHECK_IN_OPENS_MINUTES * 60_000
+    && now <= start + meeting.duration_minutes * 60_000;
+};
+
 export const useChamaMeetings = (chamaId: string) => {
   const { toast } = useToast();
-  const [meetings] = useState<any[]>([]);
-  const [isLoading] = useState(false);
-
-  // Simplified meeting management since tables don't exist
-  const scheduleMeeting = async (meetingData: any) => {
-    console.log('Scheduling meeting for chama:', chamaId, meetingData);
-    toast({
-      title: "Meeting Scheduled! 📅",
-      description: "Your meeting has been scheduled successfully",
-    });
+  const queryClient = useQueryClient();
+  const queryKey = ['chama-meetings', chamaId];
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data } = await invokeMeetings<MeetingsState>({ action: 'list', chamaId });
+      return data;
+    },
+    enabled: !!chamaId,
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: 'Error', description: error.message, variant: 'destructive' });
   };
 
-  const updateAttendance = async (attendanceData: any) => {
-    console.log('Updating attendance:', attendanceData);
-    toast({
-      title: "Attendance Updated! ✅",
-      description: "Your attendance status has been updated",
-    });
+  // Every change is announced with the server's message and reloads the list
+  const onChanged = (title: string) => ({ message }: { message: string }) => {
+    toast({ title, description: message });
+    queryClient.invalidateQueries({ queryKey });
   };
 
+  const scheduleMeeting = useMutation({
+    mutationFn: (meeting: ScheduleMeetingInput) => invokeMeetings({ action: 'schedule', chamaId, meeting }),
+    onSuccess: onChanged('Meeting scheduled 📅'),
+    onError,
+  });
+
+  const cancelMeeting = useMutation({
+    mutationFn: ({ meetingId, following, reason }: { meetingId: string; following?: boolean; reason?: string }) =>
+      invokeMeetings({ action: 'cancel', meetingId, following, reason }),
+    onSuccess: onChanged('Meeting cancelled'),
+    onError,
+  });
+
+  const setAgenda = useMutation({
+    mutationFn: ({ meetingId, agenda, publish }: { meetingId: string; agenda: AgendaItemInput[]; publish?: boolean }) =>
+      invokeMeetings({ action: 'set_agenda', meetingId, agenda, publish }),
+    onSuccess: onChanged('Agenda updated'),
+    onError,
+  });
+
+  const checkIn = useMutation({
+    mutationFn: (meetingId: string) => invokeMeetings({ action: 'check_in', meetingId }),
+    onSuccess: onChanged('Attendance recorded ✅'),
+    onError,
+  });
+
+  const recordAttendance = useMutation({
+    mutationFn: ({ meetingId, memberId, status, note }: {
+      meetingId: string;
+      memberId: string;
+      status: AttendanceStatus;
+      note?: string;
+    }) => invokeMeetings({ action: 'record_attendance', meetingId, memberId, status, note }),
+    onSuccess: onChanged('Attendance recorded'),
+    onError,
+  });
+
+  const saveMinutes = useMutation({
+    mutationFn: ({ meetingId, content, approve }: { meetingId: string; content: string; approve?: boolean }) =>
+      invokeMeetings({ action: 'save_minutes', meetingId, content, approve }),
+    onSuccess: onChanged('Minutes updated'),
+    onError,
+  });
+
+  const addResolution = useMutation({
+    mutationFn: ({ meetingId, resolution, voteId, outcome, agendaItemId }: {
+      meetingId: string;
+      resolution: string;
+      voteId?: string;
+      outcome?: 'adopted' | 'rejected';
+      agendaItemId?: string;
+    }) => invokeMeetings({ action: 'add_resolution', meetingId, resolution, voteId, outcome, agendaItemId }),
+    onSuccess: onChanged('Resolution recorded'),
+    onError,
+  });
+
+  const closeMeeting = useMutation({
+    mutationFn: (meetingId: string) => invokeMeetings({ action: 'close', meetingId }),
+    onSuccess: onChanged('Meeting closed'),
+    onError,
+  });
+
+  const resolveFine = useMutation({
+    mutationFn: ({ fineId, status, note }: { fineId: string; status: 'paid' | 'waived'; note?: string }) =>
+      invokeMeetings({ action: 'resolve_fine', fineId, status, note }),
+    onSuccess: onChanged('Fine updated'),
+    onError,
+  });
+
+  const downloadInvite = useMutation({
+    mutationFn: async (meetingId: string) => {
+      const { data } = await invokeMeetings<{ filename: string; content: string }>({ action: 'invite', meetingId });
+      return data;
+    },
+    onSuccess: ({ filename, content }) => {
+      const url = URL.createObjectURL(new Blob([content], { type: 'text/calendar;charset=utf-8' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError,
+  });
+
+  // The link is only ever shown here: the server keeps just a hash of its token
+  const createCalendarFeed = useMutation({
+    mutationFn: async () => {
+      const { data } = await invokeMeetings<CalendarFeedLink>({ action: 'create_calendar_feed', chamaId });
+      return data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError,
+  });
+
+  const revokeCalendarFeed = useMutation({
+    mutationFn: () => invokeMeetings({ action: 'revoke_calendar_feed', chamaId }),
+    onSuccess: onChanged('Calendar subscription stopped'),
+    onError,
+  });
+
+  const meetings = data?.meetings ?? [];
+
   return {
     meetings,
+    upcomingMeetings: meetings.filter((meeting) => meeting.status === 'scheduled'),
+    pastMeetings: meetings.filter((meeting) => meeting.status !== 'scheduled'),
+    members: data?.members ?? [],
+    currentMember: data?.currentMember ?? null,
+    policy: data?.policy ?? null,
+    votes: data?.votes ?? [],
+    outstandingFines: data?.outstandingFines ?? [],
+    calendarFeed: data?.calendarFeed ?? null,
     isLoading,
     scheduleMeeting,
-    isScheduling: false,
-    updateAttendance,
-    isUpdatingAttendance: false,
+    cancelMeeting,
+    setAgenda,
+    checkIn,
+    recordAttendance,
+    saveMinutes,
+    addResolution,
+    closeMeeting,
+    resolveFine,
+    downloadInvite,
+    createCalendarFeed,
+    revokeCalendarFeed,
   };
-};
\ No newline at end of file
+};
@@ -20,24 +20,15 @@ export const useChamaPayments = () => {
     }) => {
       if (!user) throw new Error('User not authenticated');
 
-      // Calculate transaction fee
-      const { data: feeData, error: feeError } = await supabase.rpc('calculate_transaction_fee', {
-        p_transaction_type: 'chama_contribution',
-        p_amount: amount
-      });
-
-      if (feeError) {
-        console.warn('Failed to calculate fee:', feeError);
-      }
-
-      const transactionFee = Number(feeData || 0);
-      const totalAmount = amount + transactionFee;
-
+      // mpesa-integration quotes the fee, adds it to the charge and records the
+      // pending payment before it sends the push
       const { data, error } = await supabase.functions.invoke('mpesa-integration', {
         body: {
           action: 'stk_push',
           phoneNumber,
-          amount: totalAmount, // Include fee in M-Pesa charge
+          amount,
+          purpose: 'contribution',
+          chamaId,
           description: description || 'Chama contribution',
           transactionId: `chama_${chamaId}_${Date.now()}`
         }
@@ -46,38 +37,7 @@ export const useChamaPayments = () => {
       if (error) throw error;
       if (!data.success) throw new Error(data.error);
 
-      // Record the payment attempt in our system
-      const { error: recordError } = await supabase
-        .from('mpesa_transactions')
-        .insert({
-          user_id: user.id,
-          chama_id: chamaId,
-          phone_number: phoneNumber,
-          amount: totalAmount,
-          transaction_type: 'stk_push',
-          purpose: 'contribution',
-          checkout_request_id: data.CheckoutRequestID,
-          merchant_request_id: data.MerchantRequestID,
-          status: 'pending'
-        });
-
-      if (recordError) {
-        console.warn('Failed to record M-Pesa transaction:', recordError);
-      }
-
-      // Record the fee separately
-      if (transactionFee > 0) {
-        await supabase
-          .from('transaction_fees')
-          .insert({
-            transaction_type: 'chama_contribution',
-            amount,
-            fee_amount: transactionFee,
-            user_id: user.id
-          });
-      }
-
-      return { ...data, fee: transactionFee, totalAmount };
+      return data;
     },
     onSuccess: async (data, variables) => {
       // Get chama details
@@ -121,24 +81,12 @@ export const useChamaPayments = () => {
     }) => {
       if (!user) throw new Error('User not authenticated');
 
-      // Calculate transaction fee
-      const { data: feeData, error: feeError } = await supabase.rpc('calculate_transaction_fee', {
-        p_transaction_type: 'wallet_topup',
-        p_amount: amount
-      });
-
-      if (feeError) {
-        console.warn('Failed to calculate fee:', feeError);
-      }
-
-      const transactionFee = Number(feeData || 0);
-      const totalAmount = amount + transactionFee;
-
       const { data, error } = await supabase.functions.invoke('mpesa-integration', {
         body: {
           action: 'stk_push',
           phoneNumber,
-          amount: totalAmount, // Include fee in M-Pesa charge
+          amount,
+          purpose: 'wallet_topup',
           description: description || 'Wallet top-up',
           transactionId: `topup_${user.id}_${Date.now()}`
         }
@@ -147,19 +95,7 @@ export const useChamaPayments = () => {
       if (error) throw error;
       if (!data.success) throw new Error(data.error);
 
-      // Record the fee separately
-      if (transactionFee > 0) {
-        await supabase
-          .from('transaction_fees')
-          .insert({
-            transaction_type: 'wallet_topup',
-            amount,
-            fee_amount: transactionFee,
-            user_id: user.id
-          });
-      }
-
-      return { ...data, fee: transactionFee, totalAmount };
+      return data;
     },
     onSuccess: async (data, variables) => {
       // Get updated wallet balance
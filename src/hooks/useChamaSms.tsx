@@ -0,0 +1,80 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from './use-toast';
+
+export interface SmsUsage {
+  since: string;
+  enabled: boolean;
+  sender_id: string | null;
+  sent: number;
+  delivered: number;
+  failed: number;
+  queued: number;
+  segments: number;
+  // Per provider currency; unbilled is charged to the chama wallet overnight
+  costs: Record<string, { total: number; unbilled: number }>;
+}
+
+export interface SmsStatus {
+  isOfficer: boolean;
+  hasPhone: boolean;
+  optedOut: boolean;
+  optedOutEverywhere: boolean;
+  // Officers only
+  usage: SmsUsage | null;
+}
+
+// Matches chama_settings_sms_sender_id_check
+export const SENDER_ID_PATTERN = /^[A-Za-z0-9 ]{3,11}$/;
+
+const invokeSms = async <T,>(body: Record<string, unknown>): Promise<{ message: string; data: T }> => {
+  const { data, error } = await supabase.functions.invoke('chama-sms', { body });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'SMS request failed');
+  return { message: data.message, data: data.data as T };
+};
+
+export const useChamaSms = (chamaId: string) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ['chama-sms', chamaId];
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data } = await invokeSms<SmsStatus>({ action: 'status', chamaId });
+      return data;
+    },
+    enabled: !!chamaId,
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: 'Error', description: error.message, variant: 'destructive' });
+  };
+
+  const onChanged = (title: string) => ({ message }: { message: string }) => {
+    toast({ title, description: message });
+    queryClient.invalidateQueries({ queryKey });
+  };
+
+  const updateSettings = useMutation({
+    mutationFn: ({ enabled, senderId }: { enabled: boolean; senderId?: string | null }) =>
+      invokeSms({ action: 'update_settings', chamaId, enabled, senderId }),
+    onSuccess: onChanged('SMS settings saved'),
+    onError,
+  });
+
+  const setOptOut = useMutation({
+    mutationFn: ({ optedOut, allChamas }: { optedOut: boolean; allChamas?: boolean }) =>
+      invokeSms({ action: 'set_opt_out', chamaId, optedOut, allChamas }),
+    onSuccess: onChanged('Text preferences updated'),
+    onError,
+  });
+
+  return {
+    status: data,
+    isLoading,
+    updateSettings,
+    setOptOut,
+  };
+};
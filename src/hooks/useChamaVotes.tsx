@@ -1,81 +1,154 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from './useAuth';
 import { useToast } from './use-toast';
 
+export type BallotType = 'yes_no' | 'multiple_choice' | 'ranked';
+export type ApprovalThreshold = 'plurality' | 'simple_majority' | 'two_thirds' | 'unanimous';
+export type VoteWeighting = 'per_member' | 'savings';
+export type VoteOutcome = 'passed' | 'rejected' | 'no_quorum';
+export type VoteAction =
+  | 'approve_loan'
+  | 'update_settings'
+  | 'withdrawal'
+  | 'loan_disbursement'
+  | 'role_change'
+  | 'delete_chama';
+
+export interface VoteOptionTally {
+  index: number;
+  label: string;
+  votes: number;
+  weight: number;
+  percent: number;
+}
+
+export interface VoteResults {
+  options: VoteOptionTally[];
+  rounds: { round: number; tallies: Record<string, number>; continuing_weight: number; eliminated: number | null }[] | null;
+  cast_votes: number;
+  cast_weight: number;
+  eligible_voters: number;
+  eligible_weight: number;
+  turnout_percent: number;
+  quorum_met: boolean;
+  winner_index: number | null;
+  winner_label: string | null;
+  winning_share: number;
+  passed: boolean;
+}
+
+export interface ChamaVote {
+  id: string;
+  chama_id: string;
+  title: string;
+  description: string | null;
+  vote_type: string;
+  status: 'active' | 'completed' | 'expired';
+  deadline: string;
+  created_at: string;
+  ballot_type: BallotType;
+  options: string[];
+  approval_threshold: ApprovalThreshold;
+  quorum_percent: number;
+  weighting: VoteWeighting;
+  is_secret: boolean;
+  // Officer sign-offs on gated actions: only officers vote, and required_approvals yes votes pass it
+  electorate: 'members' | 'officers';
+  required_approvals: number | null;
+  total_eligible_voters: number;
+  eligible_weight: number;
+  yes_votes: number;
+  no_votes: number;
+  action_type: VoteAction | null;
+  reference_id: string | null;
+  action_payload: Record<string, unknown> | null;
+  outcome: VoteOutcome | null;
+  results: VoteResults | null;
+  resolved_at: string | null;
+  action_executed_at: string | null;
+  action_error: string | null;
+  initiator: { id: string; profiles: { full_name: string | null } | null } | null;
+  my_ballot: { option_index: number | null; rankings: number[] | null; weight: number } | null;
+  my_weight: number | null;
+  can_vote: boolean;
+}
+
+export interface NewVote {
+  title: string;
+  description?: string;
+  ballotType: BallotType;
+  options?: string[];
+  approvalThreshold?: ApprovalThreshold;
+  quorumPercent?: number;
+  weighting?: VoteWeighting;
+  isSecret?: boolean;
+  deadline?: string;
+  actionType?: 'approve_loan' | 'update_settings';
+  referenceId?: string;
+  actionPayload?: Record<string, unknown>;
+}
+
+const invokeVotes = async <T,>(body: Record<string, unknown>): Promise<{ data: T; message: string }> => {
+  const { data, error } = await supabase.functions.invoke('manage-chama-votes', { body });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Vote request failed');
+
+  return { data: data.data as T, message: data.message };
+};
+
 export const useChamaVotes = (chamaId: string) => {
-  const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // Fetch votes
+  // Fetch votes, with the current member's ballot and eligibility
   const votesQuery = useQuery({
     queryKey: ['chama-votes', chamaId],
     queryFn: async () => {
-      console.log('Fetching votes for chama:', chamaId);
-
-      const { data, error } = await supabase
-        .from('chama_votes')
-        .select('*')
-        .eq('chama_id', chamaId)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching chama votes:', error);
-        throw error;
-      }
-
-      console.log('Fetched chama votes:', data);
-      return data || [];
+      const { data } = await invokeVotes<ChamaVote[]>({ chamaId, action: 'list' });
+      return data;
     },
     enabled: !!chamaId,
   });
 
-  // Cast vote mutation
-  const castVoteMutation = useMutation({
-    mutationFn: async ({ voteId, response }: { voteId: string; response: boolean }) => {
-      if (!user) throw new Error('User not authenticated');
-
-      console.log('Casting vote:', { voteId, response });
-
-      // Get current user's member ID
-      const { data: memberData, error: memberError } = await supabase
-        .from('chama_members')
-        .select('id')
-        .eq('chama_id', chamaId)
-        .eq('user_id', user.id)
-        .single();
-
-      if (memberError || !memberData) {
-        console.error('Error getting member data:', memberError);
-        throw new Error('You must be a member to vote');
-      }
-
-      // Cast vote (assuming we have a vote_responses table)
-      const { error } = await supabase
-        .from('vote_responses')
-        .insert({
-          vote_id: voteId,
-          voter_id: memberData.id,
-          response
-        });
-
-      if (error) {
-        console.error('Error casting vote:', error);
-        throw error;
-      }
-
-      // Vote counts will be updated by triggers or calculated on query
-    },
+  // Open a vote (officers only)
+  const createVoteMutation = useMutation({
+    mutationFn: (vote: NewVote) => invokeVotes<ChamaVote>({ chamaId, action: 'create', vote }),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['chama-votes'] });
+      queryClient.invalidateQueries({ queryKey: ['chama-votes', chamaId] });
+      toast({
+        title: "Vote Opened 🗳️",
+        description: "Members can now cast their votes",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Open Vote",
+        description: error.message || "Failed to open vote",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Cast or change a ballot: optionIndex for yes/no (0 = yes) and multiple choice, rankings for ranked votes
+  const castVoteMutation = useMutation({
+    mutationFn: ({ voteId, optionIndex, rankings }: { voteId: string; optionIndex?: number; rankings?: number[] }) =>
+      invokeVotes<{ resolved: boolean; outcome: VoteOutcome | null }>({
+        chamaId,
+        action: 'cast',
+        voteId,
+        optionIndex,
+        rankings,
+      }),
+    onSuccess: ({ message }) => {
+      queryClient.invalidateQueries({ queryKey: ['chama-votes', chamaId] });
+      queryClient.invalidateQueries({ queryKey: ['chama-loans'] });
       toast({
         title: "Vote Cast! 🗳️",
-        description: "Your vote has been recorded",
+        description: message,
       });
     },
-    onError: (error: any) => {
-      console.error('Vote casting failed:', error);
+    onError: (error: Error) => {
       toast({
         title: "Vote Failed",
         description: error.message || "Failed to cast vote",
@@ -87,7 +160,9 @@ export const useChamaVotes = (chamaId: string) => {
   return {
     votes: votesQuery.data || [],
     isLoading: votesQuery.isLoading,
+    createVote: createVoteMutation.mutateAsync,
+    isCreating: createVoteMutation.isPending,
     castVote: castVoteMutation.mutate,
     isCasting: castVoteMutation.isPending,
   };
-};
\ No newline at end of file
+};
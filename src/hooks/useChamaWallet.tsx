@@ -2,12 +2,16 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
+import { invokeWithPinStepUp } from '@/lib/pinStepUp';
 
 interface ChamaWalletParams {
   action: string;
   [key: string]: any;
 }
 
+// chama-wallet-api refuses these without a PIN step-up
+const PIN_PROTECTED_ACTIONS = ['contribute_to_chama', 'send_to_member', 'withdraw_funds'];
+
 export const useChamaWallet = () => {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -18,9 +22,9 @@ export const useChamaWallet = () => {
     mutationFn: async (params: ChamaWalletParams) => {
       if (!user) throw new Error('User not authenticated');
 
-      const { data, error } = await supabase.functions.invoke('chama-wallet-api', {
-        body: params
-      });
+      const { data, error } = PIN_PROTECTED_ACTIONS.includes(params.action)
+        ? await invokeWithPinStepUp('chama-wallet-api', { body: params })
+        : await supabase.functions.invoke('chama-wallet-api', { body: params });
 
       if (error) throw error;
       if (!data.success) throw new Error(data.error);
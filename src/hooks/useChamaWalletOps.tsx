@@ -1,6 +1,7 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { invokeWithPinStepUp } from '@/lib/pinStepUp';
 
 interface WalletOperation {
   operation: 'topup' | 'withdraw' | 'send' | 'unlock';
@@ -19,9 +20,10 @@ export const useChamaWalletOps = () => {
     mutationFn: async (params: WalletOperation) => {
       console.log('Invoking wallet operation:', params);
       
-      const { data, error } = await supabase.functions.invoke('chama-wallet-operations', {
-        body: params
-      });
+      // Withdrawals and transfers need a PIN step-up; top-ups and unlocks do not
+      const { data, error } = params.operation === 'withdraw' || params.operation === 'send'
+        ? await invokeWithPinStepUp('chama-wallet-operations', { body: params })
+        : await supabase.functions.invoke('chama-wallet-operations', { body: params });
 
       if (error) {
         console.error('Wallet operation error:', error);
@@ -39,8 +41,13 @@ export const useChamaWalletOps = () => {
       queryClient.invalidateQueries({ queryKey: ['chama-transactions', variables.chamaId] });
       queryClient.invalidateQueries({ queryKey: ['chama-notifications'] });
       
+      // Large withdrawals come back as a proposal awaiting officer or member approval
+      if (data.pending) {
+        queryClient.invalidateQueries({ queryKey: ['chama-votes', variables.chamaId] });
+      }
+
       toast({
-        title: "Success",
+        title: data.pending ? "Awaiting Approval" : "Success",
         description: data.message || "Operation completed successfully"
       });
     },
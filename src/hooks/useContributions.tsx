@@ -1,9 +1,12 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useIdempotencyKey } from '@/hooks/useIdempotencyKey';
+import { invokeWithPinStepUp } from '@/lib/pinStepUp';
 
 export const useContributions = (chamaId: string) => {
   const { toast } = useToast();
+  const { getIdempotencyHeaders, resetKey } = useIdempotencyKey();
   const queryClient = useQueryClient();
 
   const makeContribution = useMutation({
@@ -13,15 +16,19 @@ export const useContributions = (chamaId: string) => {
       paymentReference?: string;
       notes?: string;
     }) => {
-      const { data, error } = await supabase.functions.invoke('make-contribution', {
-        body: {
-          chamaId,
-          ...params
-        }
-      });
+      const body = {
+        chamaId,
+        ...params
+      };
+      const options = { body, headers: getIdempotencyHeaders(body) };
+      // Only wallet contributions move money out of the member's own balance
+      const { data, error } = params.paymentMethod === 'wallet'
+        ? await invokeWithPinStepUp('make-contribution', options)
+        : await supabase.functions.invoke('make-contribution', options);
 
       if (error) throw error;
       if (!data.success) throw new Error(data.error);
+      resetKey();
       return data;
     },
     onSuccess: () => {
@@ -0,0 +1,24 @@
+import { createContext, useContext } from 'react';
+import { CurrencyCode } from '@/lib/currency';
+
+export interface CurrencyContextType {
+  // Currency the amounts shown below this point are held in
+  currency: CurrencyCode;
+  // The signed-in member's own wallet currency, offered as a conversion
+  walletCurrency: CurrencyCode;
+}
+
+export const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+/**
+ * Amounts default to the member's wallet currency. Wrap a chama's pages in
+ * <CurrencyProvider currency={chama currency}> so its figures are shown in
+ * the chama's currency instead.
+ */
+export const useCurrency = (): CurrencyContextType => {
+  const context = useContext(CurrencyContext);
+  if (!context) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+};
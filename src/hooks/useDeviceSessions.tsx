@@ -0,0 +1,119 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { describeDevice, getDeviceKey } from '@/lib/device';
+
+export interface DeviceSession {
+  id: string;
+  user_device_id: string;
+  ip_address: string | null;
+  last_activity: string;
+  created_at: string;
+}
+
+export interface UserDevice {
+  id: string;
+  device_key: string;
+  device_name: string | null;
+  platform: string | null;
+  last_ip: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+  pin_verified_at: string | null;
+  sessions: DeviceSession[];
+}
+
+export interface DeviceRegistration {
+  revoked: boolean;
+  reason?: 'signed_out' | 'revoked' | 'device_revoked';
+  device_id?: string;
+  session_id?: string;
+  device_name?: string | null;
+  is_new_device?: boolean;
+  alert?: boolean;
+  require_pin?: boolean;
+}
+
+const invokeDevices = async <T,>(body: Record<string, unknown>): Promise<{ message: string; data: T }> => {
+  const { data, error } = await supabase.functions.invoke('manage-devices', { body });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Device request failed');
+
+  return { message: data.message, data: data.data as T };
+};
+
+/** Check-in for the device this app runs on; see DeviceSessionGuard. */
+export const registerDevice = async () => {
+  const { name, platform } = describeDevice();
+  const { data } = await invokeDevices<DeviceRegistration>({
+    action: 'register',
+    deviceKey: getDeviceKey(),
+    deviceName: name,
+    platform,
+  });
+  return data;
+};
+
+export const confirmDevicePin = async (pin: string) => {
+  await invokeDevices({ action: 'confirm_pin', deviceKey: getDeviceKey(), pin });
+};
+
+export const useDeviceSessions = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['user-devices', user?.id],
+    queryFn: async () => {
+      const { data } = await invokeDevices<{ devices: UserDevice[]; requirePinOnNewDevice: boolean }>({
+        action: 'list',
+      });
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: 'Error', description: error.message, variant: 'destructive' });
+  };
+
+  const revokeSession = useMutation({
+    mutationFn: (sessionId: string) => invokeDevices({ action: 'revoke_session', sessionId }),
+    onSuccess: ({ message }) => {
+      toast({ title: 'Session signed out', description: message });
+      queryClient.invalidateQueries({ queryKey: ['user-devices'] });
+    },
+    onError,
+  });
+
+  const revokeDevice = useMutation({
+    mutationFn: (deviceId: string) => invokeDevices({ action: 'revoke_device', deviceId }),
+    onSuccess: ({ message }) => {
+      toast({ title: 'Device removed', description: message });
+      queryClient.invalidateQueries({ queryKey: ['user-devices'] });
+    },
+    onError,
+  });
+
+  const setPinRequirement = useMutation({
+    mutationFn: (required: boolean) => invokeDevices({ action: 'set_pin_requirement', required }),
+    onSuccess: ({ message }) => {
+      toast({ title: 'Security settings updated', description: message });
+      queryClient.invalidateQueries({ queryKey: ['user-devices'] });
+    },
+    onError,
+  });
+
+  return {
+    devices: data?.devices ?? [],
+    requirePinOnNewDevice: data?.requirePinOnNewDevice ?? false,
+    currentDeviceKey: getDeviceKey(),
+    isLoading,
+    revokeSession,
+    revokeDevice,
+    setPinRequirement,
+  };
+};
@@ -0,0 +1,152 @@
+import { useCallback } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { CurrencyCode, DEFAULT_CURRENCY, ExchangeRate, findRate, isCurrencyCode } from '@/lib/currency';
+
+export interface ExchangeRateRow extends ExchangeRate {
+  id: string;
+  source: string | null;
+  updated_at: string;
+  is_override?: boolean;
+  override_expires_at?: string | null;
+}
+
+interface RateOverride {
+  fromCurrency: CurrencyCode;
+  toCurrency: CurrencyCode;
+  rate: number;
+  expiresAt?: string | null;
+}
+
+const invokeCurrencies = async <T,>(body: Record<string, unknown>): Promise<{ message: string; data: T }> => {
+  const { data, error } = await supabase.functions.invoke('manage-currencies', { body });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Currency request failed');
+
+  return { message: data.message, data: data.data as T };
+};
+
+export const useExchangeRates = () => {
+  const { data: rates = [], isLoading } = useQuery({
+    queryKey: ['exchange-rates'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .select('*')
+        .order('from_currency')
+        .order('to_currency');
+
+      if (error) throw error;
+      return (data ?? []) as ExchangeRateRow[];
+    },
+    // The sync job refreshes rates hourly; this is only for display
+    staleTime: 10 * 60 * 1000,
+  });
+
+  const getRate = useCallback(
+    (from: string, to: string) => findRate(rates, from, to),
+    [rates]
+  );
+
+  // null when no rate is known, so callers can fall back to the original amount
+  const convert = useCallback(
+    (amount: number, from: string, to: string): number | null => {
+      const rate = findRate(rates, from, to);
+      return rate === null ? null : amount * rate;
+    },
+    [rates]
+  );
+
+  return { rates, isLoading, getRate, convert };
+};
+
+export const useWalletCurrency = () => {
+  const { user } = useAuth();
+
+  const { data } = useQuery({
+    queryKey: ['wallet-currency', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_wallets')
+        .select('currency')
+        .eq('user_id', user!.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data?.currency ?? null;
+    },
+    enabled: !!user,
+  });
+
+  return isCurrencyCode(data) ? data : DEFAULT_CURRENCY;
+};
+
+export const useCurrencySettings = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const onError = (error: Error) => {
+    toast({ title: 'Error', description: error.message, variant: 'destructive' });
+  };
+
+  const setWalletCurrency = useMutation({
+    mutationFn: (currency: CurrencyCode) => invokeCurrencies({ action: 'set_wallet_currency', currency }),
+    onSuccess: ({ message }) => {
+      toast({ title: 'Wallet currency updated', description: message });
+      queryClient.invalidateQueries({ queryKey: ['wallet-currency'] });
+      queryClient.invalidateQueries({ queryKey: ['user-wallets'] });
+    },
+    onError,
+  });
+
+  const setChamaCurrency = useMutation({
+    mutationFn: ({ chamaId, currency }: { chamaId: string; currency: CurrencyCode }) =>
+      invokeCurrencies({ action: 'set_chama_currency', chamaId, currency }),
+    onSuccess: ({ message }) => {
+      toast({ title: 'Chama currency updated', description: message });
+      queryClient.invalidateQueries({ queryKey: ['user-chamas'] });
+    },
+    onError,
+  });
+
+  const overrideRate = useMutation({
+    mutationFn: (override: RateOverride) => invokeCurrencies({ action: 'override_rate', ...override }),
+    onSuccess: ({ message }) => {
+      toast({ title: 'Rate pinned', description: message });
+      queryClient.invalidateQueries({ queryKey: ['exchange-rates'] });
+    },
+    onError,
+  });
+
+  const clearOverride = useMutation({
+    mutationFn: ({ fromCurrency, toCurrency }: Pick<RateOverride, 'fromCurrency' | 'toCurrency'>) =>
+      invokeCurrencies({ action: 'clear_override', fromCurrency, toCurrency }),
+    onSuccess: ({ message }) => {
+      toast({ title: 'Override cleared', description: message });
+      queryClient.invalidateQueries({ queryKey: ['exchange-rates'] });
+    },
+    onError,
+  });
+
+  const syncRates = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke('sync-exchange-rates', { body: {} });
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Rate sync failed');
+      return data.data as { updated: number; skipped_overrides: string[] };
+    },
+    onSuccess: (result) => {
+      toast({
+        title: 'Rates refreshed',
+        description: `${result.updated} rate(s) updated${result.skipped_overrides.length ? `, ${result.skipped_overrides.join(', ')} kept pinned` : ''}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['exchange-rates'] });
+    },
+    onError,
+  });
+
+  return { setWalletCurrency, setChamaCurrency, overrideRate, clearOverride, syncRates };
+};
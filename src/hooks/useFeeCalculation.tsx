@@ -11,6 +11,39 @@ export interface FeeConfiguration {
   percentage_rate: number;
   tiers: any; // Using any for JSON compatibility
   is_active: boolean;
+  channel?: string | null;
+  chama_id?: string | null;
+  user_tier?: string | null;
+  description?: string | null;
+}
+
+// Mirrors the object returned by the quote_fee() fee engine
+export interface FeeQuote {
+  transaction_type: string;
+  amount: number;
+  channel: string | null;
+  chama_id: string | null;
+  user_tier: string;
+  gross_fee: number;
+  discount: number;
+  fee: number;
+  net_amount: number;
+  total: number;
+  capped: boolean;
+  configuration_id: string | null;
+  fee_type: 'fixed' | 'percentage' | 'tiered' | null;
+  percentage_rate: number | null;
+  minimum_fee: number | null;
+  maximum_fee: number | null;
+  waiver_id: string | null;
+  waiver_name: string | null;
+}
+
+export interface FeeQuoteRequest {
+  transactionType: string;
+  amount: number;
+  channel?: string | null;
+  chamaId?: string | null;
 }
 
 export interface TransactionFee {
@@ -23,6 +56,42 @@ export interface TransactionFee {
   created_at: string;
 }
 
+/**
+ * Asks the quote-fee endpoint for the fee the server will charge. Quotes come
+ * from the same engine the payment functions use, so they always match.
+ */
+export const fetchFeeQuotes = async (items: FeeQuoteRequest[]): Promise<FeeQuote[]> => {
+  const { data, error } = await supabase.functions.invoke('quote-fee', {
+    body: { items }
+  });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Failed to quote fee');
+  return data.quotes as FeeQuote[];
+};
+
+export const fetchFeeQuote = async (request: FeeQuoteRequest): Promise<FeeQuote> => {
+  const [quote] = await fetchFeeQuotes([request]);
+  return quote;
+};
+
+// Live quote for a form; stays idle until there is a positive amount
+export const useFeeQuote = (
+  transactionType: string,
+  amount: number,
+  options: { channel?: string | null; chamaId?: string | null; enabled?: boolean } = {}
+) => {
+  const { user } = useAuth();
+  const { channel = null, chamaId = null, enabled = true } = options;
+
+  return useQuery({
+    queryKey: ['fee-quote', user?.id, transactionType, amount, channel, chamaId],
+    queryFn: () => fetchFeeQuote({ transactionType, amount, channel, chamaId }),
+    enabled: !!user && enabled && amount > 0,
+    staleTime: 60000,
+  });
+};
+
 export const useFeeCalculation = () => {
   const { user } = useAuth();
 
@@ -80,10 +149,13 @@ export const useFeeCalculation = () => {
 
   // Get fee configuration for a transaction type
   const getFeeConfiguration = (transactionType: string): FeeConfiguration | null => {
-    return feeConfigurations.find(config => config.transaction_type === transactionType) || null;
+    return feeConfigurations.find(config =>
+      config.transaction_type === transactionType && !config.channel && !config.chama_id && !config.user_tier
+    ) || null;
   };
 
-  // Client-side fee calculation (for preview purposes)
+  // Client-side estimate from the generic rule only; ignores channel, chama
+  // and tier rules and waivers. Use useFeeQuote for the fee that is charged.
   const calculateFeeLocally = (transactionType: string, amount: number): number => {
     const config = getFeeConfiguration(transactionType);
     if (!config) return 0;
@@ -115,21 +187,6 @@ export const useFeeCalculation = () => {
     return Math.round(calculatedFee * 100) / 100; // Round to 2 decimal places
   };
 
-  // Get fee breakdown for display
-  const getFeeBreakdown = (transactionType: string, amount: number) => {
-    const config = getFeeConfiguration(transactionType);
-    const fee = calculateFeeLocally(transactionType, amount);
-    
-    return {
-      transactionType,
-      amount,
-      fee,
-      netAmount: amount - fee,
-      configuration: config,
-      feePercentage: amount > 0 ? (fee / amount) * 100 : 0
-    };
-  };
-
   // Get user-friendly transaction type labels
   const getTransactionTypeLabel = (transactionType: string): string => {
     const labels: Record<string, string> = {
@@ -193,7 +250,6 @@ export const useFeeCalculation = () => {
     calculateFee,
     calculateFeeLocally,
     getFeeConfiguration,
-    getFeeBreakdown,
     getTransactionTypeLabel,
     getMonthlyFeesTotal,
     getFeeStatistics
@@ -1,60 +0,0 @@
-
-import { useState } from 'react';
-import { useToast } from '@/hooks/use-toast';
-
-interface GoogleMeetHook {
-  createMeeting: (title: string, startTime: string, duration: number) => Promise<string | null>;
-  isCreating: boolean;
-}
-
-export const useGoogleMeet = (): GoogleMeetHook => {
-  const [isCreating, setIsCreating] = useState(false);
-  const { toast } = useToast();
-
-  const createMeeting = async (title: string, startTime: string, duration: number): Promise<string | null> => {
-    setIsCreating(true);
-    
-    try {
-      // Generate a more realistic meeting ID format
-      const meetingId = Math.random().toString(36).substring(2, 12);
-      const meetingLink = `https://meet.google.com/${meetingId}`;
-      
-      // In a real implementation, you would:
-      // 1. Use Google Calendar API to create a calendar event
-      // 2. Include the Google Meet link in the event
-      // 3. Send invitations to chama members
-      
-      // For now, we'll simulate the meeting creation with a delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      console.log('Meeting created:', {
-        title,
-        startTime,
-        duration,
-        meetingLink
-      });
-      
-      toast({
-        title: "Meeting Created",
-        description: `Google Meet scheduled: ${title}`,
-      });
-      
-      return meetingLink;
-    } catch (error) {
-      console.error('Error creating Google Meet:', error);
-      toast({
-        title: "Error",
-        description: "Failed to create Google Meet link",
-        variant: "destructive",
-      });
-      return null;
-    } finally {
-      setIsCreating(false);
-    }
-  };
-
-  return {
-    createMeeting,
-    isCreating,
-  };
-};
@@ -1,56 +1,405 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
 import { useToast } from './use-toast';
 
-interface Message {
+export interface ChatMessage {
   id: string;
-  user_id: string;
+  chama_id: string;
+  sender_id: string | null;
   message: string;
-  created_at: string;
-  sent_at?: string;
-  chama_members?: {
-    user_id: string;
-    profiles?: {
-      username: string;
-    };
-  };
-  profiles?: {
-    username: string;
-  };
+  sent_at: string;
+  reply_to_id: string | null;
+  attachment_path: string | null;
+  attachment_name: string | null;
+  attachment_mime_type: string | null;
+  attachment_size: number | null;
+  is_pinned: boolean;
+  pinned_by: string | null;
+  pinned_at: string | null;
+  deleted_at: string | null;
+  deleted_by: string | null;
 }
 
-// Mock implementation since chama_messages table doesn't exist
+export interface ChatMember {
+  id: string;
+  user_id: string;
+  role: string;
+  is_active: boolean;
+  name: string;
+}
+
+export interface ChatMute {
+  member_id: string;
+  muted_until: string | null;
+  reason: string | null;
+}
+
+interface ChatState {
+  currentMember: { id: string; role: string };
+  messages: ChatMessage[];
+  replyTargets: ChatMessage[];
+  pinned: ChatMessage[];
+  hasMore: boolean;
+  members: ChatMember[];
+  reads: { member_id: string; last_read_at: string }[];
+  mutes: ChatMute[];
+}
+
+type ConnectionStatus = 'connected' | 'connecting' | 'disconnected';
+
+// Mirrors is_chama_officer_role()
+const OFFICER_ROLES = ['admin', 'chairman', 'treasurer', 'secretary'];
+export const isOfficerRole = (role: string | null | undefined) => !!role && OFFICER_ROLES.includes(role);
+
+// Matches the chat-attachments bucket
+const ATTACHMENT_BUCKET = 'chat-attachments';
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+const TYPING_THROTTLE_MS = 2000;
+const TYPING_TIMEOUT_MS = 4000;
+
+const invokeChat = async <T,>(body: Record<string, unknown>): Promise<{ message: string; data: T }> => {
+  const { data, error } = await supabase.functions.invoke('chama-chat', { body });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Chat request failed');
+
+  return { message: data.message, data: data.data as T };
+};
+
+const upsertMessage = (list: ChatMessage[], message: ChatMessage) => {
+  const index = list.findIndex((existing) => existing.id === message.id);
+  if (index === -1) {
+    return [...list, message].sort((a, b) => a.sent_at.localeCompare(b.sent_at));
+  }
+  const next = [...list];
+  next[index] = message;
+  return next;
+};
+
 export const useGroupChat = (chamaId: string) => {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [replyTargets, setReplyTargets] = useState<Record<string, ChatMessage>>({});
+  const [pinned, setPinned] = useState<ChatMessage[]>([]);
+  const [members, setMembers] = useState<ChatMember[]>([]);
+  const [reads, setReads] = useState<Record<string, string>>({});
+  const [mutes, setMutes] = useState<ChatMute[]>([]);
+  const [currentMember, setCurrentMember] = useState<{ id: string; role: string } | null>(null);
+  const [hasMore, setHasMore] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('disconnected');
+  const [typing, setTyping] = useState<Record<string, number>>({});
+  const [onlineUserIds, setOnlineUserIds] = useState<string[]>([]);
+
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const lastTypingSentRef = useRef(0);
+  const attachmentUrlsRef = useRef(new Map<string, string>());
+  const markReadTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const lookedUpSendersRef = useRef(new Set<string>());
 
-  const sendMessage = async (message: string) => {
+  const applyState = useCallback((state: ChatState, older = false) => {
+    setCurrentMember(state.currentMember);
+    setMembers(state.members);
+    setReads(Object.fromEntries(state.reads.map((read) => [read.member_id, read.last_read_at])));
+    setMutes(state.mutes);
+    setPinned(state.pinned);
+    setHasMore(state.hasMore);
+    setMessages((prev) => (older ? [...state.messages, ...prev] : state.messages));
+    setReplyTargets((prev) => ({
+      ...prev,
+      ...Object.fromEntries(state.replyTargets.map((message) => [message.id, message])),
+    }));
+  }, []);
+
+  const loadMessages = useCallback(async () => {
     if (!user || !chamaId) return;
 
+    setLoading(true);
     try {
-      // Mock implementation - would save to chama_messages table
+      const { data } = await invokeChat<ChatState>({ action: 'list', chamaId });
+      applyState(data);
+    } catch (error) {
+      console.error('Error loading messages:', error);
       toast({
-        title: "Feature Not Available",
-        description: "Group chat is not available in this version",
+        title: "Error",
+        description: "Failed to load messages",
         variant: "destructive",
       });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, chamaId, applyState, toast]);
+
+  const loadOlderMessages = useCallback(async () => {
+    if (!messages.length || !hasMore) return;
+
+    try {
+      const { data } = await invokeChat<ChatState>({ action: 'list', chamaId, before: messages[0].sent_at });
+      applyState(data, true);
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    }
+  }, [chamaId, messages, hasMore, applyState]);
+
+  const markRead = useCallback(() => {
+    clearTimeout(markReadTimerRef.current);
+    markReadTimerRef.current = setTimeout(() => {
+      if (document.visibilityState !== 'visible') return;
+      invokeChat({ action: 'mark_read', chamaId }).catch((error) => {
+        console.error('Error marking chat as read:', error);
+      });
+    }, 1000);
+  }, [chamaId]);
+
+  useEffect(() => {
+    loadMessages();
+  }, [loadMessages]);
+
+  // Realtime: new and changed messages, read receipts, mutes, typing and presence
+  useEffect(() => {
+    if (!user || !chamaId) return;
+
+    setConnectionStatus('connecting');
+    const filter = `chama_id=eq.${chamaId}`;
+
+    const channel = supabase
+      .channel(`chama-chat:${chamaId}`, { config: { presence: { key: user.id } } })
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'chama_messages', filter }, (payload) => {
+        const message = payload.new as ChatMessage;
+        setMessages((prev) => upsertMessage(prev, message));
+        markRead();
+      })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'chama_messages', filter }, (payload) => {
+        const message = payload.new as ChatMessage;
+        setMessages((prev) => (prev.some((existing) => existing.id === message.id) ? upsertMessage(prev, message) : prev));
+        setReplyTargets((prev) => (prev[message.id] ? { ...prev, [message.id]: message } : prev));
+        setPinned((prev) => {
+          const others = prev.filter((existing) => existing.id !== message.id);
+          return message.is_pinned ? [message, ...others] : others;
+        });
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'chama_chat_reads', filter }, (payload) => {
+        const read = payload.new as { member_id?: string; last_read_at?: string };
+        if (read.member_id && read.last_read_at) {
+          setReads((prev) => ({ ...prev, [read.member_id as string]: read.last_read_at as string }));
+        }
+      })
+      // Deletes are not filtered server-side, so check the chama on the old row
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'chama_chat_mutes' }, (payload) => {
+        if (payload.eventType === 'DELETE') {
+          const removed = payload.old as Partial<ChatMute> & { chama_id?: string };
+          if (removed.chama_id === chamaId) {
+            setMutes((prev) => prev.filter((mute) => mute.member_id !== removed.member_id));
+          }
+          return;
+        }
+        const mute = payload.new as ChatMute & { chama_id: string };
+        if (mute.chama_id !== chamaId) return;
+        setMutes((prev) => [...prev.filter((existing) => existing.member_id !== mute.member_id), mute]);
+      })
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        const memberId = (payload as { memberId?: string }).memberId;
+        if (memberId) {
+          setTyping((prev) => ({ ...prev, [memberId]: Date.now() }));
+        }
+      })
+      .on('presence', { event: 'sync' }, () => {
+        setOnlineUserIds(Object.keys(channel.presenceState()));
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          setConnectionStatus('connected');
+          await channel.track({ online_at: new Date().toISOString() });
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          setConnectionStatus('disconnected');
+        }
+      });
+
+    channelRef.current = channel;
+
+    return () => {
+      channelRef.current = null;
+      clearTimeout(markReadTimerRef.current);
+      supabase.removeChannel(channel);
+    };
+  }, [user, chamaId, markRead]);
+
+  // Typing indicators fade out unless refreshed
+  useEffect(() => {
+    if (Object.keys(typing).length === 0) return;
+
+    const timer = setTimeout(() => {
+      const cutoff = Date.now() - TYPING_TIMEOUT_MS;
+      setTyping((prev) => Object.fromEntries(Object.entries(prev).filter(([, at]) => at > cutoff)));
+    }, TYPING_TIMEOUT_MS);
+
+    return () => clearTimeout(timer);
+  }, [typing]);
+
+  // Catch up on read receipts once the history is on screen
+  useEffect(() => {
+    if (currentMember && messages.length > 0) {
+      markRead();
+    }
+  }, [currentMember, messages.length, markRead]);
+
+  // Someone who joined after the chat loaded has no name yet
+  useEffect(() => {
+    const known = new Set(members.map((member) => member.id));
+    const unknown = messages
+      .map((message) => message.sender_id)
+      .filter((id): id is string => !!id && !known.has(id) && !lookedUpSendersRef.current.has(id));
+
+    if (members.length > 0 && unknown.length > 0) {
+      unknown.forEach((id) => lookedUpSendersRef.current.add(id));
+      invokeChat<ChatState>({ action: 'list', chamaId })
+        .then(({ data }) => setMembers(data.members))
+        .catch((error) => console.error('Error refreshing chat members:', error));
+    }
+  }, [messages, members, chamaId]);
+
+  const sendTypingIndicator = useCallback(() => {
+    const now = Date.now();
+    if (!channelRef.current || !currentMember || now - lastTypingSentRef.current < TYPING_THROTTLE_MS) return;
+
+    lastTypingSentRef.current = now;
+    channelRef.current.send({ type: 'broadcast', event: 'typing', payload: { memberId: currentMember.id } });
+  }, [currentMember]);
+
+  const sendMessage = async (message: string, options: { replyToId?: string; file?: File } = {}) => {
+    if (!user || !chamaId) return;
+
+    try {
+      let attachment: { path: string; name: string; mimeType: string; size: number } | undefined;
+
+      if (options.file) {
+        if (options.file.size > MAX_ATTACHMENT_BYTES) {
+          throw new Error('Attachments must be 10MB or smaller');
+        }
+
+        const safeName = options.file.name.replace(/[^\w.-]+/g, '_');
+        const path = `${chamaId}/${user.id}/${crypto.randomUUID()}-${safeName}`;
+        const { error: uploadError } = await supabase.storage
+          .from(ATTACHMENT_BUCKET)
+          .upload(path, options.file, { contentType: options.file.type });
+
+        if (uploadError) throw uploadError;
+        attachment = { path, name: options.file.name, mimeType: options.file.type, size: options.file.size };
+      }
+
+      const { data } = await invokeChat<ChatMessage>({
+        action: 'send',
+        chamaId,
+        message,
+        replyToId: options.replyToId,
+        attachment,
+      });
+
+      // Realtime delivers it too; this keeps the sender's view instant
+      setMessages((prev) => upsertMessage(prev, data));
     } catch (error) {
       console.error('Error sending message:', error);
       toast({
         title: "Error",
-        description: "Failed to send message",
+        description: error instanceof Error ? error.message : "Failed to send message",
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  const runModeration = async (body: Record<string, unknown>) => {
+    try {
+      const { message } = await invokeChat(body);
+      toast({ title: message });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Action failed",
         variant: "destructive",
       });
     }
   };
 
+  const deleteMessage = (messageId: string) => runModeration({ action: 'delete', messageId });
+
+  const setMessagePinned = (messageId: string, isPinned: boolean) =>
+    runModeration({ action: 'pin', messageId, pinned: isPinned });
+
+  const muteMember = (memberId: string, mutedUntil: string | null, reason?: string) =>
+    runModeration({ action: 'mute', chamaId, memberId, mutedUntil, reason });
+
+  const unmuteMember = (memberId: string) => runModeration({ action: 'unmute', chamaId, memberId });
+
+  // Signed links expire, so they are fetched on demand and cached for the session
+  const getAttachmentUrl = useCallback(async (path: string) => {
+    const cached = attachmentUrlsRef.current.get(path);
+    if (cached) return cached;
+
+    const { data, error } = await supabase.storage.from(ATTACHMENT_BUCKET).createSignedUrl(path, 60 * 60);
+    if (error) throw error;
+
+    attachmentUrlsRef.current.set(path, data.signedUrl);
+    return data.signedUrl;
+  }, []);
+
+  const membersById = useMemo(() => new Map(members.map((member) => [member.id, member])), [members]);
+
+  const messagesById = useMemo(
+    () => ({ ...replyTargets, ...Object.fromEntries(messages.map((message) => [message.id, message])) }),
+    [messages, replyTargets]
+  );
+
+  const isOfficer = isOfficerRole(currentMember?.role);
+
+  const activeMute = mutes.find(
+    (mute) => mute.member_id === currentMember?.id && (!mute.muted_until || new Date(mute.muted_until) > new Date())
+  );
+
+  // Members other than the sender who have read up to the message
+  const getSeenBy = useCallback(
+    (message: ChatMessage) =>
+      Object.entries(reads)
+        .filter(([memberId, readAt]) =>
+          memberId !== message.sender_id && new Date(readAt).getTime() >= new Date(message.sent_at).getTime())
+        .map(([memberId]) => membersById.get(memberId))
+        .filter((member): member is ChatMember => !!member),
+    [reads, membersById]
+  );
+
+  const typingMembers = Object.keys(typing)
+    .filter((memberId) => memberId !== currentMember?.id)
+    .map((memberId) => membersById.get(memberId)?.name)
+    .filter((name): name is string => !!name);
+
+  const onlineMembers = members.filter((member) => member.user_id !== user?.id && onlineUserIds.includes(member.user_id));
+
   return {
     messages,
+    pinnedMessages: pinned,
     isLoading: loading,
+    hasMore,
+    loadOlderMessages,
     sendMessage,
-    connectionStatus: 'disconnected' as 'connected' | 'connecting' | 'disconnected',
-    sendTypingIndicator: () => {},
+    connectionStatus,
+    sendTypingIndicator,
+    typingMembers,
+    onlineMembers,
+    currentMember,
+    isOfficer,
+    mutedUntil: activeMute ? activeMute.muted_until ?? 'indefinitely' : null,
+    mutes,
+    getMember: (memberId: string | null) => (memberId ? membersById.get(memberId) : undefined),
+    getMessage: (messageId: string | null) => (messageId ? messagesById[messageId] : undefined),
+    getSeenBy,
+    getAttachmentUrl,
+    deleteMessage,
+    setMessagePinned,
+    muteMember,
+    unmuteMember,
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,25 @@
+import { useCallback, useRef } from 'react';
+
+/**
+ * Keeps one Idempotency-Key per payload so that retrying the same submission
+ * (after a dropped connection, a double click, etc.) reuses the key and the
+ * server replays the first result instead of moving money twice. Changing the
+ * payload or calling resetKey() after a success starts a fresh key.
+ */
+export const useIdempotencyKey = () => {
+  const current = useRef<{ payload: string; key: string } | null>(null);
+
+  const getIdempotencyHeaders = useCallback((body: unknown) => {
+    const payload = JSON.stringify(body);
+    if (!current.current || current.current.payload !== payload) {
+      current.current = { payload, key: crypto.randomUUID() };
+    }
+    return { 'Idempotency-Key': current.current.key };
+  }, []);
+
+  const resetKey = useCallback(() => {
+    current.current = null;
+  }, []);
+
+  return { getIdempotencyHeaders, resetKey };
+};
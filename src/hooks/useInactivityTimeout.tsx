@@ -1,5 +1,6 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { useAuth } from './useAuth';
+import { clearPinStepUp } from '@/lib/pinStepUp';
 
 interface UseInactivityTimeoutProps {
   timeoutMinutes?: number;
@@ -32,6 +33,7 @@ export const useInactivityTimeout = ({
     timeoutRef.current = setTimeout(() => {
       console.log('Inactivity timeout - requiring PIN verification');
       setPinVerified(false);
+      clearPinStepUp();
       if (onTimeout) {
         onTimeout();
       }
@@ -41,6 +41,8 @@ export interface LoanRepayment {
   interest_amount: number;
   penalty_amount: number;
   amount_paid: number;
+  days_overdue?: number;
+  ageing_bucket?: 'current' | '1-30' | '31-60' | '61-90' | '90+';
   payment_date?: string;
   payment_method?: string;
   payment_reference?: string;
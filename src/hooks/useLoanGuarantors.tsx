@@ -0,0 +1,134 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+export type GuaranteeStatus = 'pending' | 'accepted' | 'declined' | 'withdrawn' | 'released' | 'recovered';
+
+export interface LoanGuarantee {
+  id: string;
+  loan_id: string;
+  chama_id: string;
+  guarantor_member_id: string;
+  guaranteed_amount: number;
+  locked_amount: number;
+  recovered_amount: number;
+  status: GuaranteeStatus;
+  responded_at: string | null;
+  created_at: string;
+  guarantor?: {
+    id: string;
+    profiles: { full_name: string | null } | null;
+  } | null;
+}
+
+export interface GuaranteeRequest extends LoanGuarantee {
+  loan: {
+    id: string;
+    amount: number;
+    purpose: string | null;
+    duration_months: number;
+    status: string;
+    borrower: { id: string; profiles: { full_name: string | null } | null } | null;
+  };
+}
+
+export interface GuarantorPolicy {
+  minGuarantors: number;
+  coveragePercent: number;
+  lockPercent: number;
+  recoveryDays: number;
+}
+
+export interface GuarantorNomination {
+  memberId: string;
+  amount: number;
+}
+
+const invokeGuarantors = async <T,>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('manage-loan-guarantors', { body });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Guarantor request failed');
+
+  return data.data as T;
+};
+
+export const useLoanGuarantors = (chamaId: string) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Every guarantee in the chama, with the chama's guarantor policy
+  const guaranteesQuery = useQuery({
+    queryKey: ['loan-guarantees', chamaId],
+    queryFn: () => invokeGuarantors<{ guarantees: LoanGuarantee[]; policy: GuarantorPolicy }>({
+      chamaId,
+      action: 'list',
+    }),
+    enabled: !!chamaId,
+  });
+
+  // Requests addressed to the current member
+  const myRequestsQuery = useQuery({
+    queryKey: ['guarantee-requests', chamaId],
+    queryFn: () => invokeGuarantors<GuaranteeRequest[]>({ chamaId, action: 'my_requests' }),
+    enabled: !!chamaId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['loan-guarantees', chamaId] });
+    queryClient.invalidateQueries({ queryKey: ['guarantee-requests', chamaId] });
+    queryClient.invalidateQueries({ queryKey: ['chama-loans'] });
+  };
+
+  const nominateMutation = useMutation({
+    mutationFn: ({ loanId, guarantors }: { loanId: string; guarantors: GuarantorNomination[] }) =>
+      invokeGuarantors({ chamaId, action: 'nominate', loanId, guarantors }),
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Guarantors Nominated",
+        description: "Your guarantors have been asked to confirm",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Nomination Failed",
+        description: error.message || "Failed to nominate guarantors",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Resolves to whether the response was recorded, so PIN dialogs can close on success
+  const respond = async (guaranteeId: string, accept: boolean, pin: string) => {
+    try {
+      await invokeGuarantors({ chamaId, action: 'respond', guaranteeId, accept, pin });
+      invalidate();
+      toast({
+        title: accept ? "Guarantee Accepted" : "Guarantee Declined",
+        description: accept
+          ? "Part of your savings is now locked against this loan"
+          : "The borrower has been notified",
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Response Failed",
+        description: error instanceof Error ? error.message : "Failed to record your response",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  return {
+    guarantees: guaranteesQuery.data?.guarantees || [],
+    policy: guaranteesQuery.data?.policy,
+    isLoading: guaranteesQuery.isLoading,
+    myRequests: myRequestsQuery.data || [],
+    isLoadingRequests: myRequestsQuery.isLoading,
+    nominateGuarantors: nominateMutation.mutateAsync,
+    isNominating: nominateMutation.isPending,
+    respond,
+  };
+};
@@ -2,6 +2,7 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
 import { useToast } from './use-toast';
+import { fetchLoanSchedule, summarizeSchedule } from '@/lib/loanSchedule';
 
 export interface MarketplaceLoan {
   id: string;
@@ -130,10 +131,14 @@ export const useLoanMarketplace = () => {
         throw new Error('Requested amount exceeds available amount');
       }
 
-      // Create loan application
-      const monthlyRate = offer.offered_interest_rate / 100 / 12;
-      const monthlyPayment = requestedAmount * (monthlyRate * Math.pow(1 + monthlyRate, requestedTermMonths)) / 
-                            (Math.pow(1 + monthlyRate, requestedTermMonths) - 1);
+      // Create loan application, quoted on the same schedule it will be repaid on
+      const schedule = summarizeSchedule(await fetchLoanSchedule({
+        principal: requestedAmount,
+        annualRate: offer.offered_interest_rate,
+        termMonths: requestedTermMonths,
+        method: 'reducing_balance',
+        frequency: 'monthly',
+      }));
 
       const { data: application, error: appError } = await supabase
         .from('loan_applications')
@@ -142,6 +147,8 @@ export const useLoanMarketplace = () => {
           amount: requestedAmount,
           duration_months: requestedTermMonths,
           interest_rate: offer.offered_interest_rate,
+          monthly_payment: schedule.firstPayment,
+          total_payment: schedule.totalRepayable,
         })
         .select()
         .single();
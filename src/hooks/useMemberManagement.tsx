@@ -23,10 +23,14 @@ export const useMemberManagement = (chamaId: string) => {
       if (error) throw error;
       return data;
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['chama-members', chamaId] });
       queryClient.invalidateQueries({ queryKey: ['user-chama-role'] });
-      toast({
+      queryClient.invalidateQueries({ queryKey: ['chama-votes', chamaId] });
+      toast(data?.pending ? {
+        title: 'Awaiting Approval',
+        description: data.message
+      } : {
         title: 'Role Updated',
         description: 'Member role has been updated successfully'
       });
@@ -4,12 +4,15 @@ import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { useMpesaIntegration } from '@/hooks/useMpesaIntegration';
+import { useIdempotencyKey } from '@/hooks/useIdempotencyKey';
+import { invokeWithPinStepUp } from '@/lib/pinStepUp';
 
 export const useMobileMoneyData = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { stkPushMutation } = useMpesaIntegration();
+  const { getIdempotencyHeaders, resetKey } = useIdempotencyKey();
 
   const mobileMoneyQuery = useQuery({
     queryKey: ['mobile-money-data', user?.id],
@@ -194,60 +197,28 @@ export const useMobileMoneyData = () => {
         throw new Error('Minimum withdrawal amount is KES 10');
       }
 
-      // Check user wallet balance
-      const { data: wallet, error: walletError } = await supabase
-        .from('user_wallets')
-        .select('balance')
-        .eq('user_id', user.id)
-        .single();
-
-      if (walletError) throw walletError;
-
-      if (!wallet || wallet.balance < amount) {
-        throw new Error('Insufficient wallet balance');
-      }
-
-      // Calculate withdrawal fee (2% with minimum KES 5, max KES 200)
-      const feePercentage = 0.02;
-      const calculatedFee = amount * feePercentage;
-      const withdrawalFee = Math.max(5, Math.min(calculatedFee, 200));
-      const totalDeduction = amount + withdrawalFee;
-
-      if (wallet.balance < totalDeduction) {
-        throw new Error(`Insufficient balance. Need KES ${totalDeduction.toFixed(2)} (including KES ${withdrawalFee.toFixed(2)} fee)`);
-      }
-
-      // Create withdrawal transaction
-      const { data, error } = await supabase
-        .from('wallet_transactions')
-        .insert({
-          user_id: user.id,
-          amount: -amount,
-          type: 'withdrawal',
-          currency: 'KES',
-          description: description || `M-Pesa withdrawal to ${phoneNumber}`,
-          status: 'pending'
-        })
-        .select()
-        .single();
+      // withdraw-funds quotes the fee and debits the wallet through the ledger
+      const body = {
+        amount,
+        paymentMethod: 'mpesa',
+        destinationDetails: { phone_number: phoneNumber },
+      };
+      const { data, error } = await invokeWithPinStepUp('withdraw-funds', {
+        body,
+        headers: getIdempotencyHeaders(body),
+      });
 
       if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Withdrawal failed');
 
-      // Deduct from wallet balance
-      const { error: updateError } = await supabase
-        .from('user_wallets')
-        .update({ balance: wallet.balance - totalDeduction })
-        .eq('user_id', user.id);
-
-      if (updateError) throw updateError;
-
-      return { ...data, fee: withdrawalFee, phoneNumber };
+      return { ...data, phoneNumber };
     },
     onSuccess: (data) => {
+      resetKey();
       queryClient.invalidateQueries({ queryKey: ['mobile-money-data'] });
       toast({
         title: "Withdrawal Request Submitted",
-        description: `KES ${Math.abs(data.amount).toFixed(2)} will be sent to ${data.phoneNumber}. Fee: KES ${data.fee.toFixed(2)}`,
+        description: `KES ${Number(data.netAmount).toFixed(2)} will be sent to ${data.phoneNumber}. Fee: KES ${Number(data.fee).toFixed(2)}`,
       });
     },
     onError: (error: any) => {
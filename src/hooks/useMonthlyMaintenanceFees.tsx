@@ -2,6 +2,8 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
+import { useWalletCurrency } from '@/hooks/useExchangeRates';
+import { formatCurrency as formatMoney } from '@/lib/currency';
 
 export interface MonthlyMaintenanceFee {
   id: string;
@@ -20,6 +22,7 @@ export const useMonthlyMaintenanceFees = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const walletCurrency = useWalletCurrency();
 
   // Get user's maintenance fees
   const { data: maintenanceFees = [], isLoading: feesLoading } = useQuery({
@@ -151,13 +154,8 @@ export const useMonthlyMaintenanceFees = () => {
     }
   };
 
-  // Format currency
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-KE', {
-      style: 'currency',
-      currency: 'KES'
-    }).format(amount);
-  };
+  // Fees are charged from the member's wallet, in its currency
+  const formatCurrency = (amount: number) => formatMoney(amount, walletCurrency);
 
   return {
     // Data
@@ -58,8 +58,9 @@ export const usePaymentStatusMonitor = () => {
 
           // Show notification based on status
           if (transaction.status === 'success') {
+            // Settlement stores the fee engine's quote alongside the callback
             const amount = transaction.amount || 0;
-            const fee = amount * 0.025;
+            const fee = Number(transaction.callback_data?.fee_quote?.fee ?? 0);
             const netAmount = amount - fee;
 
             toast({
@@ -71,6 +72,12 @@ export const usePaymentStatusMonitor = () => {
             // Refresh wallet balance
             queryClient.invalidateQueries({ queryKey: ['wallet-balance'] });
             queryClient.invalidateQueries({ queryKey: ['central-wallet'] });
+          } else if (transaction.status === 'amount_mismatch') {
+            toast({
+              title: "⚠️ Payment Under Review",
+              description: transaction.result_desc || 'The amount paid did not match the request. Our team will review it before crediting your wallet.',
+              duration: 10000,
+            });
           } else if (transaction.status === 'failed') {
             const errorMessage = transaction.result_desc || 'Payment failed. Please try again.';
             
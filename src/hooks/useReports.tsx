@@ -3,15 +3,37 @@ import { useMutation } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
 import { useToast } from './use-toast';
 
+export type ReportType = 'monthly_contribution' | 'loan_statement' | 'balance_sheet' | 'member_summary' | 'member_statement' | 'meeting_minutes';
+
+export interface GenerateReportParams {
+  chamaId: string;
+  reportType: ReportType;
+  format: 'pdf' | 'email' | 'csv';
+  // Inclusive YYYY-MM-DD range; defaults to the current month to date
+  from?: string;
+  to?: string;
+  // Required for member_statement
+  memberId?: string;
+  // Names printed on the signature lines instead of the chama's officers
+  signatories?: { preparedBy?: string; approvedBy?: string };
+}
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
+
 export const useReports = () => {
   const { toast } = useToast();
 
   const generateReportMutation = useMutation({
-    mutationFn: async ({ chamaId, reportType, format }: {
-      chamaId: string;
-      reportType: 'monthly_contribution' | 'loan_statement' | 'balance_sheet' | 'member_summary';
-      format: 'pdf' | 'email' | 'csv';
-    }) => {
+    mutationFn: async ({ chamaId, reportType, format, from, to, memberId, signatories }: GenerateReportParams) => {
       console.log('=== Generating Report ===');
       console.log('Chama ID:', chamaId);
       console.log('Report Type:', reportType);
@@ -21,7 +43,11 @@ export const useReports = () => {
         body: {
           chamaId,
           reportType,
-          format
+          format,
+          from,
+          to,
+          memberId,
+          signatories
         }
       });
 
@@ -30,6 +56,8 @@ export const useReports = () => {
         throw error;
       }
 
+      if (!data?.success) throw new Error(data?.error || 'Failed to generate report');
+
       return data;
     },
     onSuccess: (data, variables) => {
@@ -39,15 +67,7 @@ export const useReports = () => {
       if (variables.format === 'csv') {
         // For CSV, create a download link
         if (data.csvData) {
-          const blob = new Blob([data.csvData], { type: 'text/csv' });
-          const url = window.URL.createObjectURL(blob);
-          const link = document.createElement('a');
-          link.href = url;
-          link.download = `${variables.reportType}_report.csv`;
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
-          window.URL.revokeObjectURL(url);
+          downloadBlob(new Blob([data.csvData], { type: 'text/csv' }), data.fileName || `${variables.reportType}_report.csv`);
         }
         
         toast({
@@ -55,14 +75,10 @@ export const useReports = () => {
           description: "Your CSV report has been downloaded.",
         });
       } else if (variables.format === 'pdf') {
-        // For PDF, create a download link
-        if (data.pdfUrl) {
-          const link = document.createElement('a');
-          link.href = data.pdfUrl;
-          link.download = `${variables.reportType}_report.pdf`;
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
+        // The PDF is rendered server-side and sent base64-encoded
+        if (data.pdfBase64) {
+          const bytes = Uint8Array.from(atob(data.pdfBase64), (c) => c.charCodeAt(0));
+          downloadBlob(new Blob([bytes], { type: 'application/pdf' }), data.fileName || `${variables.reportType}_report.pdf`);
         }
         
         toast({
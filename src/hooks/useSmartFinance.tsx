@@ -247,8 +247,29 @@ export const useSmartFinance = () => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['ai-chat-history', user?.id] });
+    },
+  });
+
+  // Fresh AI recommendations, only when the member asks for them
+  const generateRecommendationsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await supabase.functions.invoke('ai-finance-chat', {
+        body: { action: 'recommendations' }
+      });
+
+      if (response.error) throw response.error;
+      return response.data;
+    },
+    onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['ai-recommendations', user?.id] });
     },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Could not get new recommendations. Please try again.",
+        variant: "destructive",
+      });
+    },
   });
 
   // Dismiss Recommendation
@@ -330,6 +351,7 @@ export const useSmartFinance = () => {
     addTransaction: addTransactionMutation.mutate,
     saveGoal: saveGoalMutation.mutate,
     sendChat: sendChatMutation.mutate,
+    generateRecommendations: generateRecommendationsMutation.mutate,
     dismissRecommendation: dismissRecommendationMutation.mutate,
 
     // Mutation states
@@ -337,6 +359,7 @@ export const useSmartFinance = () => {
     isAddingTransaction: addTransactionMutation.isPending,
     isSavingGoal: saveGoalMutation.isPending,
     isSendingChat: sendChatMutation.isPending,
+    isGeneratingRecommendations: generateRecommendationsMutation.isPending,
     isDismissingRecommendation: dismissRecommendationMutation.isPending,
 
     // Refresh functions
@@ -1,22 +1,27 @@
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/hooks/useAuth';
-import { useToast } from '@/hooks/use-toast';
 
+/**
+ * Watches the user's Paystack payments that have been pending for more than
+ * five minutes. Settling them is done server-side by the scheduled
+ * reconcile-paystack-payments job, which verifies each one with Paystack;
+ * this hook only refreshes the wallet once a stuck payment has been resolved.
+ */
 export const useStuckPaymentReconciliation = () => {
   const { user } = useAuth();
-  const { toast } = useToast();
   const queryClient = useQueryClient();
+  const previousCount = useRef(0);
 
   // Check for stuck Paystack payments (pending for >5 minutes)
   const { data: stuckPayments } = useQuery({
     queryKey: ['stuck-payments', user?.id],
     queryFn: async () => {
       if (!user) return [];
-      
+
       const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000).toISOString();
-      
+
       const { data, error } = await supabase
         .from('mpesa_transactions')
         .select('*')
@@ -29,43 +34,17 @@ export const useStuckPaymentReconciliation = () => {
       return data || [];
     },
     enabled: !!user,
-    refetchInterval: 30000, // Check every 30 seconds
+    refetchInterval: 60000, // Check every minute
   });
 
-  // Auto-credit stuck payments
+  // Refresh balances when the reconciler settles one of the stuck payments
   useEffect(() => {
-    if (!stuckPayments || stuckPayments.length === 0) return;
-
-    const creditStuckPayments = async () => {
-      for (const payment of stuckPayments) {
-        try {
-          const { data, error } = await supabase.functions.invoke('manual-credit-payment', {
-            body: { reference: payment.checkout_request_id }
-          });
-
-          if (error) {
-            console.error('Failed to credit payment:', payment.checkout_request_id, error);
-            continue;
-          }
-
-          if (data?.success) {
-            toast({
-              title: "Payment Credited ✅",
-              description: `KES ${data.amount?.toFixed(2)} has been added to your wallet`,
-            });
-            
-            // Invalidate queries to refresh wallet balance
-            await queryClient.invalidateQueries({ queryKey: ['user-wallets'] });
-            await queryClient.invalidateQueries({ queryKey: ['stuck-payments'] });
-          }
-        } catch (err) {
-          console.error('Error crediting stuck payment:', err);
-        }
-      }
-    };
-
-    creditStuckPayments();
-  }, [stuckPayments, toast, queryClient]);
+    const count = stuckPayments?.length ?? 0;
+    if (count < previousCount.current) {
+      queryClient.invalidateQueries({ queryKey: ['user-wallets'] });
+    }
+    previousCount.current = count;
+  }, [stuckPayments, queryClient]);
 
   return { stuckPayments };
 };
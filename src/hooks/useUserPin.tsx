@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
+import { setPinStepUp } from '@/lib/pinStepUp';
 
 export const useUserPin = () => {
   const [isLoading, setIsLoading] = useState(false);
@@ -81,7 +82,8 @@ export const useUserPin = () => {
 
     setIsLoading(true);
     try {
-      const { data, error } = await supabase.rpc('verify_user_pin_v2', {
+      // A correct PIN also mints the step-up token money-moving functions ask for
+      const { data, error } = await supabase.rpc('verify_user_pin_enhanced', {
         p_user_id: user.id,
         p_pin: pin
       });
@@ -91,17 +93,19 @@ export const useUserPin = () => {
         throw error;
       }
 
-      console.log('PIN verification result:', data);
-      
-      if (!data) {
+      const result = data as { success: boolean; message: string; token?: string; expires_at?: string };
+
+      if (!result?.success || !result.token) {
         toast({
           title: "Invalid PIN",
-          description: "The PIN you entered is incorrect",
+          description: result?.message || "The PIN you entered is incorrect",
           variant: "destructive",
         });
+        return false;
       }
 
-      return data as boolean;
+      setPinStepUp(result.token, result.expires_at);
+      return true;
     } catch (error: any) {
       console.error('Error verifying PIN:', error);
       toast({
@@ -2,12 +2,15 @@ import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
+import { useIdempotencyKey } from '@/hooks/useIdempotencyKey';
+import { invokeWithPinStepUp } from '@/lib/pinStepUp';
 import { usePaystackIntegration } from './usePaystackIntegration';
 
 export const useUserWalletOperations = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { getIdempotencyHeaders, resetKey } = useIdempotencyKey();
   const { initializePayment, verifyPayment } = usePaystackIntegration();
 
   // Manual credit function for stuck payments
@@ -94,7 +97,7 @@ export const useUserWalletOperations = () => {
     }) => {
       if (!user) throw new Error('User not authenticated');
 
-      const { data, error } = await supabase.functions.invoke('paystack-integration', {
+      const { data, error } = await invokeWithPinStepUp('paystack-integration', {
         body: {
           action: 'withdraw',
           user_id: user.id,
@@ -127,50 +130,30 @@ export const useUserWalletOperations = () => {
     },
   });
 
-  // Internal transfer to savings (NO Paystack)
+  // Internal transfer to savings (NO Paystack); the wallet is debited on
+  // the server through the ledger
   const transferToSavingsMutation = useMutation({
     mutationFn: async ({ 
       amount, 
-      goalId, 
       goalName 
     }: { 
       amount: number; 
-      goalId?: string; 
       goalName?: string; 
     }) => {
       if (!user) throw new Error('User not authenticated');
 
-      // Check wallet balance
-      const { data: wallet, error: walletError } = await supabase
-        .from('user_wallets')
-        .select('balance')
-        .eq('user_id', user.id)
-        .single();
-
-      if (walletError) throw walletError;
-      if (!wallet || wallet.balance < amount) {
-        throw new Error('Insufficient wallet balance');
-      }
-
-      // Internal transfer - deduct from wallet
-      const { error: deductError } = await supabase
-        .from('user_wallets')
-        .update({ balance: wallet.balance - amount })
-        .eq('user_id', user.id);
-
-      if (deductError) throw deductError;
-
-      // Add to savings goal
-      const { data, error } = await supabase.functions.invoke('personal-savings-ops', {
+      const { data, error } = await invokeWithPinStepUp('personal-savings-ops', {
         body: {
-          action: 'deposit',
+          operation: 'add',
           amount,
-          goal_name: goalName,
-          goal_id: goalId,
+          goalName,
+          frequency: 'one_time',
+          source: 'wallet',
         }
       });
 
       if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Failed to save');
       return data;
     },
     onSuccess: () => {
@@ -216,7 +199,7 @@ export const useUserWalletOperations = () => {
       }
 
       // Use existing make-contribution edge function
-      const { data, error } = await supabase.functions.invoke('make-contribution', {
+      const { data, error } = await invokeWithPinStepUp('make-contribution', {
         body: {
           chama_id: chamaId,
           amount,
@@ -245,7 +228,8 @@ export const useUserWalletOperations = () => {
     },
   });
 
-  // Wallet-to-wallet transfer (NO Paystack)
+  // Wallet-to-wallet transfer (NO Paystack), through send-money so both
+  // wallets and their history move in one ledger transaction
   const p2pTransferMutation = useMutation({
     mutationFn: async ({ 
       recipientId, 
@@ -258,55 +242,21 @@ export const useUserWalletOperations = () => {
     }) => {
       if (!user) throw new Error('User not authenticated');
 
-      // Check wallet balance
-      const { data: wallet, error: walletError } = await supabase
-        .from('user_wallets')
-        .select('balance')
-        .eq('user_id', user.id)
-        .single();
-
-      if (walletError) throw walletError;
-      if (!wallet || wallet.balance < amount) {
-        throw new Error('Insufficient wallet balance');
-      }
-
-      // Deduct from sender
-      await supabase
-        .from('user_wallets')
-        .update({ balance: wallet.balance - amount })
-        .eq('user_id', user.id);
-
-      // Add to recipient
-      const { data: recipientWallet } = await supabase
-        .from('user_wallets')
-        .select('balance')
-        .eq('user_id', recipientId)
-        .single();
-
-      await supabase
-        .from('user_wallets')
-        .update({ balance: (recipientWallet?.balance || 0) + amount })
-        .eq('user_id', recipientId);
-
-      // Record transactions
-      await supabase.from('wallet_transactions').insert([
-        {
-          user_id: user.id,
-          type: 'transfer_out',
-          amount: -amount,
-          description: description || 'Transfer to user',
-          status: 'completed',
-        },
-        {
-          user_id: recipientId,
-          type: 'transfer_in',
-          amount: amount,
-          description: description || 'Transfer from user',
-          status: 'completed',
-        },
-      ]);
+      const body = {
+        senderId: user.id,
+        recipientId,
+        amount,
+        description,
+      };
+      const { data, error } = await invokeWithPinStepUp('send-money', {
+        body,
+        headers: getIdempotencyHeaders(body)
+      });
 
-      return { success: true };
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Failed to transfer funds');
+      resetKey();
+      return data;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['user-wallets'] });
@@ -1,6 +1,7 @@
 import { useMutation, useQueryClient, useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { invokeWithPinStepUp } from '@/lib/pinStepUp';
 
 interface WalletOperationParams {
   operation: 'topup' | 'withdraw' | 'send' | 'unlock' | 'lock';
@@ -22,9 +23,10 @@ export const useWalletOperations = () => {
 
   return useMutation({
     mutationFn: async (params: WalletOperationParams) => {
-      const { data, error } = await supabase.functions.invoke('chama-wallet-operations', {
-        body: params
-      });
+      // Withdrawals and transfers need a PIN step-up; top-ups and unlocks do not
+      const { data, error } = params.operation === 'withdraw' || params.operation === 'send'
+        ? await invokeWithPinStepUp('chama-wallet-operations', { body: params })
+        : await supabase.functions.invoke('chama-wallet-operations', { body: params });
 
       if (error) throw error;
       return data;
@@ -35,8 +37,13 @@ export const useWalletOperations = () => {
       queryClient.invalidateQueries({ queryKey: ['central-wallet'] });
       queryClient.invalidateQueries({ queryKey: ['chama-audit-trail', variables.chamaId] });
       
+      // Large withdrawals come back as a proposal awaiting officer or member approval
+      if (data.pending) {
+        queryClient.invalidateQueries({ queryKey: ['chama-votes', variables.chamaId] });
+      }
+
       toast({
-        title: "Success",
+        title: data.pending ? "Awaiting Approval" : "Success",
         description: data.message || "Operation completed successfully"
       });
     },
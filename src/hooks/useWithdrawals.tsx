@@ -2,6 +2,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
+import { fetchFeeQuote } from '@/hooks/useFeeCalculation';
 
 export interface WithdrawalRequest {
   id: string;
@@ -87,29 +88,6 @@ export const useWithdrawals = () => {
     };
   };
 
-  // Calculate withdrawal fee
-  const calculateFee = (amount: number, method: string): number => {
-    switch (method) {
-      case 'mpesa':
-        if (amount <= 100) return 0;
-        if (amount <= 2500) return 15;
-        if (amount <= 3500) return 25;
-        if (amount <= 5000) return 30;
-        if (amount <= 7500) return 45;
-        if (amount <= 10000) return 50;
-        return Math.max(50, Math.floor(amount * 0.005));
-      case 'bank':
-        return Math.max(25, Math.floor(amount * 0.001));
-      case 'airtel':
-        if (amount <= 100) return 0;
-        if (amount <= 2500) return 15;
-        if (amount <= 5000) return 30;
-        return Math.max(50, Math.floor(amount * 0.005));
-      default:
-        return 0;
-    }
-  };
-
   // Create withdrawal request
   const createWithdrawalMutation = useMutation({
     mutationFn: async ({
@@ -127,8 +105,12 @@ export const useWithdrawals = () => {
     }) => {
       if (!user) throw new Error('User not authenticated');
 
-      const fee = calculateFee(amount, method);
-      const netAmount = amount - fee;
+      // The insert is re-priced by the database, so use the same engine here
+      const { fee, net_amount: netAmount } = await fetchFeeQuote({
+        transactionType: 'withdrawal',
+        amount,
+        channel: method
+      });
 
       const { data, error } = await supabase
         .from('withdrawal_requests')
@@ -201,7 +183,6 @@ export const useWithdrawals = () => {
     isLoading: withdrawalsQuery.isLoading,
     
     // Functions
-    calculateFee,
     createWithdrawal: createWithdrawalMutation.mutate,
     cancelWithdrawal: cancelWithdrawalMutation.mutate,
     
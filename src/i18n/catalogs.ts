@@ -0,0 +1,48 @@
+export type Language = 'en' | 'sw' | 'sheng' | 'giriama';
+
+export type Catalog = Record<string, string>;
+
+export const LANGUAGES: { code: Language; name: string }[] = [
+  { code: 'en', name: 'English' },
+  { code: 'sw', name: 'Kiswahili' },
+  { code: 'sheng', name: 'Sheng' },
+  { code: 'giriama', name: 'Giriama' },
+];
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export const isLanguage = (value: unknown): value is Language =>
+  LANGUAGES.some((lang) => lang.code === value);
+
+// The catalogs are shared with the edge functions, which send SMS, USSD and
+// notification text from the same files.
+// English is bundled as the fallback for every other catalog; the rest are
+// split into their own chunks and fetched on first use
+const englishModule = import.meta.glob<Catalog>('../../supabase/functions/_shared/i18n/locales/en.json', { eager: true, import: 'default' });
+const catalogLoaders = import.meta.glob<Catalog>(
+  ['../../supabase/functions/_shared/i18n/locales/*.json', '!../../supabase/functions/_shared/i18n/locales/en.json'],
+  { import: 'default' }
+);
+
+const catalogPath = (language: Language) => `../../supabase/functions/_shared/i18n/locales/${language}.json`;
+
+export const englishCatalog: Catalog = englishModule[catalogPath('en')] ?? {};
+
+const loaded: Partial<Record<Language, Catalog>> = { en: englishCatalog };
+
+export const loadCatalog = async (language: Language): Promise<Catalog> => {
+  const cached = loaded[language];
+  if (cached) return cached;
+
+  const loader = catalogLoaders[catalogPath(language)];
+  const catalog = loader ? await loader() : {};
+  loaded[language] = catalog;
+  return catalog;
+};
+
+/**
+ * Keys present in the English catalog but absent (or empty) in another one.
+ * The same check runs over all catalogs in `npm run i18n:missing`.
+ */
+export const findMissingKeys = (catalog: Catalog): string[] =>
+  Object.keys(englishCatalog).filter((key) => !catalog[key]);
@@ -0,0 +1,3 @@
+// The formatter lives with the edge functions so they can deploy it; the app
+// and the server format messages with the same code
+export * from '../../supabase/functions/_shared/i18n/format';
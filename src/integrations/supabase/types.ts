@@ -7919,6 +7919,24 @@ export type Database = {
         Args: { application_id: string }
         Returns: boolean
       }
+      build_loan_schedule: {
+        Args: {
+          p_annual_rate: number
+          p_frequency?: string
+          p_method?: string
+          p_principal: number
+          p_start_date?: string
+          p_term_months: number
+        }
+        Returns: {
+          due_date: string
+          interest_amount: number
+          payment_amount: number
+          payment_number: number
+          principal_amount: number
+          remaining_balance: number
+        }[]
+      }
       calculate_credit_score: {
         Args: { user_id_param: string }
         Returns: number
@@ -0,0 +1,81 @@
+export type CurrencyCode = 'KES' | 'UGX' | 'TZS' | 'RWF' | 'USD';
+
+export interface CurrencyInfo {
+  code: CurrencyCode;
+  name: string;
+  // Decimals balances are kept in; matches supported_currencies.minor_units
+  minorUnits: number;
+}
+
+export const CURRENCIES: CurrencyInfo[] = [
+  { code: 'KES', name: 'Kenyan Shilling', minorUnits: 2 },
+  { code: 'UGX', name: 'Ugandan Shilling', minorUnits: 0 },
+  { code: 'TZS', name: 'Tanzanian Shilling', minorUnits: 0 },
+  { code: 'RWF', name: 'Rwandan Franc', minorUnits: 0 },
+  { code: 'USD', name: 'US Dollar', minorUnits: 2 },
+];
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'KES';
+
+export const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+  CURRENCIES.some((currency) => currency.code === value);
+
+/**
+ * The currency a wallet, chama or transaction row is held in. The column is
+ * newer than the generated types, so rows are read loosely and fall back to
+ * shillings like the database default.
+ */
+export const currencyOf = (record: unknown, fallback: CurrencyCode = DEFAULT_CURRENCY): CurrencyCode => {
+  const code = (record as { currency?: unknown } | null | undefined)?.currency;
+  return isCurrencyCode(code) ? code : fallback;
+};
+
+interface FormatOptions {
+  locale?: string;
+  // Drop the cents, as headline figures do
+  wholeUnits?: boolean;
+}
+
+export const formatCurrency = (
+  amount: number | null | undefined,
+  currency: string = DEFAULT_CURRENCY,
+  { locale = 'en-KE', wholeUnits = false }: FormatOptions = {}
+): string => {
+  const info = CURRENCIES.find((c) => c.code === currency);
+  const digits = wholeUnits ? 0 : info?.minorUnits ?? 2;
+
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(Number(amount || 0));
+};
+
+export interface ExchangeRate {
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+}
+
+/**
+ * Units of `to` per one `from`, looked up the way get_exchange_rate() does in
+ * the database: the pair, its inverse, then a cross through USD.
+ */
+export const findRate = (rates: ExchangeRate[], from: string, to: string): number | null => {
+  if (from === to) return 1;
+
+  const direct = rates.find((r) => r.from_currency === from && r.to_currency === to && r.rate > 0);
+  if (direct) return Number(direct.rate);
+
+  const inverse = rates.find((r) => r.from_currency === to && r.to_currency === from && r.rate > 0);
+  if (inverse) return 1 / Number(inverse.rate);
+
+  if (from !== 'USD' && to !== 'USD') {
+    const fromUsd = findRate(rates, from, 'USD');
+    const toUsd = findRate(rates, 'USD', to);
+    if (fromUsd !== null && toUsd !== null) return fromUsd * toUsd;
+  }
+
+  return null;
+};
@@ -0,0 +1,49 @@
+const DEVICE_KEY_STORAGE = 'chama-device-key';
+
+/**
+ * Random id for this browser or app install, kept in local storage. It only
+ * tells the member's own devices apart; it is not a hardware identifier.
+ */
+export const getDeviceKey = (): string => {
+  let key = localStorage.getItem(DEVICE_KEY_STORAGE);
+  if (!key) {
+    key = crypto.randomUUID();
+    localStorage.setItem(DEVICE_KEY_STORAGE, key);
+  }
+  return key;
+};
+
+const PLATFORMS: [RegExp, string][] = [
+  [/android/i, 'Android'],
+  [/iphone|ipad|ipod/i, 'iOS'],
+  [/windows/i, 'Windows'],
+  [/mac os/i, 'macOS'],
+  [/cros/i, 'ChromeOS'],
+  [/linux/i, 'Linux'],
+];
+
+const BROWSERS: [RegExp, string][] = [
+  [/edg\//i, 'Edge'],
+  [/opr\/|opera/i, 'Opera'],
+  [/samsungbrowser/i, 'Samsung Internet'],
+  [/firefox|fxios/i, 'Firefox'],
+  [/chrome|crios/i, 'Chrome'],
+  [/safari/i, 'Safari'],
+];
+
+const match = (userAgent: string, table: [RegExp, string][]) =>
+  table.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+/** A readable name such as "Chrome on Android" for the device list. */
+export const describeDevice = (userAgent = navigator.userAgent) => {
+  const platform = match(userAgent, PLATFORMS) ?? 'Unknown';
+  const browser = match(userAgent, BROWSERS);
+
+  return {
+    platform,
+    name: browser ? `${browser} on ${platform}` : platform,
+  };
+};
+
+export const isMobilePlatform = (platform: string | null | undefined) =>
+  platform === 'Android' || platform === 'iOS';
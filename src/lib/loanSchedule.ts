@@ -0,0 +1,74 @@
+import { supabase } from '@/lib/supabase';
+
+// Loan schedules come from build_loan_schedule() in the database, the same
+// routine that schedules personal and peer loans at disbursement and chama
+// loans when they are requested, so a preview always matches what the
+// member will be asked to repay.
+
+export type AmortizationMethod = 'flat' | 'reducing_balance' | 'interest_only';
+export type RepaymentFrequency = 'weekly' | 'bi_weekly' | 'monthly';
+
+export interface ScheduleInstalment {
+  payment_number: number;
+  due_date: string;
+  payment_amount: number;
+  principal_amount: number;
+  interest_amount: number;
+  remaining_balance: number;
+}
+
+export interface LoanScheduleInput {
+  principal: number;
+  // Annual percentage, e.g. 12 for 12% a year
+  annualRate: number;
+  termMonths: number;
+  method: AmortizationMethod;
+  frequency: RepaymentFrequency;
+  // YYYY-MM-DD; the database uses today when left out
+  startDate?: string;
+}
+
+export const AMORTIZATION_METHODS: { value: AmortizationMethod; label: string; description: string }[] = [
+  { value: 'flat', label: 'Flat rate', description: 'Interest on the full amount for the whole term, spread evenly' },
+  { value: 'reducing_balance', label: 'Reducing balance', description: 'Equal instalments; interest only on what you still owe' },
+  { value: 'interest_only', label: 'Interest only', description: 'Pay interest each period and the principal at the end' },
+];
+
+export const REPAYMENT_FREQUENCIES: { value: RepaymentFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'bi_weekly', label: 'Every 2 weeks' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+export const fetchLoanSchedule = async ({
+  principal,
+  annualRate,
+  termMonths,
+  method,
+  frequency,
+  startDate,
+}: LoanScheduleInput): Promise<ScheduleInstalment[]> => {
+  if (!(principal > 0) || !(termMonths > 0)) return [];
+
+  const { data, error } = await supabase.rpc('build_loan_schedule', {
+    p_principal: principal,
+    p_annual_rate: annualRate || 0,
+    p_term_months: termMonths,
+    p_method: method,
+    p_frequency: frequency,
+    ...(startDate ? { p_start_date: startDate } : {}),
+  });
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+export const summarizeSchedule = (schedule: ScheduleInstalment[]) => ({
+  instalments: schedule.length,
+  firstPayment: schedule[0]?.payment_amount ?? 0,
+  totalInterest: round2(schedule.reduce((sum, row) => sum + row.interest_amount, 0)),
+  totalRepayable: round2(schedule.reduce((sum, row) => sum + row.payment_amount, 0)),
+  finalDueDate: schedule[schedule.length - 1]?.due_date ?? null,
+});
@@ -0,0 +1,96 @@
+import { FunctionsHttpError, type FunctionInvokeOptions } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+
+// Header the money-moving edge functions read the step-up token from
+export const PIN_TOKEN_HEADER = 'x-pin-token';
+
+// Mirrors consume_pin_step_up(): each use extends the token by five idle
+// minutes, up to thirty minutes after the PIN was entered
+const IDLE_MS = 5 * 60 * 1000;
+const MAX_MS = 30 * 60 * 1000;
+
+interface StepUp {
+  token: string;
+  expiresAt: number;
+  maxExpiresAt: number;
+}
+
+let current: StepUp | null = null;
+let prompt: (() => Promise<boolean>) | null = null;
+
+/** Stores the token returned by verify_user_pin_enhanced(). */
+export const setPinStepUp = (token: string, expiresAt?: string) => {
+  const now = Date.now();
+  current = {
+    token,
+    expiresAt: expiresAt ? new Date(expiresAt).getTime() : now + IDLE_MS,
+    maxExpiresAt: now + MAX_MS,
+  };
+};
+
+export const clearPinStepUp = () => {
+  current = null;
+};
+
+/**
+ * Registers the component that asks for the PIN. It resolves true once
+ * verify_user_pin_enhanced() has accepted the PIN and the token is stored.
+ */
+export const registerPinStepUpPrompt = (handler: () => Promise<boolean>) => {
+  prompt = handler;
+  return () => {
+    if (prompt === handler) prompt = null;
+  };
+};
+
+const liveToken = () => {
+  if (!current || current.expiresAt <= Date.now()) {
+    current = null;
+    return null;
+  }
+  current.expiresAt = Math.min(Date.now() + IDLE_MS, current.maxExpiresAt);
+  return current.token;
+};
+
+/**
+ * Headers for a functions.invoke() call that moves money. Reuses a live
+ * step-up token, otherwise asks for the PIN first; throws if the member
+ * cancels so the caller's usual error handling applies.
+ */
+export const requirePinStepUp = async (): Promise<Record<string, string>> => {
+  let token = liveToken();
+
+  if (!token && prompt && (await prompt())) {
+    token = liveToken();
+  }
+
+  if (!token) {
+    throw new Error('Enter your PIN to confirm this transaction');
+  }
+
+  return { [PIN_TOKEN_HEADER]: token };
+};
+
+// Status the edge functions answer with when the token is missing or no
+// longer accepted, e.g. it expired server-side or was used from another device
+const STEP_UP_REQUIRED_STATUS = 428;
+
+/**
+ * functions.invoke() for a call that moves money. Sends a step-up token and,
+ * if the server still answers 428, drops the stored token and asks for the
+ * PIN again before retrying once.
+ */
+export const invokeWithPinStepUp = async (functionName: string, options: FunctionInvokeOptions = {}) => {
+  const invoke = async () =>
+    supabase.functions.invoke(functionName, {
+      ...options,
+      headers: { ...options.headers, ...(await requirePinStepUp()) },
+    });
+
+  const result = await invoke();
+  if (result.error instanceof FunctionsHttpError && result.error.context?.status === STEP_UP_REQUIRED_STATUS) {
+    clearPinStepUp();
+    return invoke();
+  }
+  return result;
+};
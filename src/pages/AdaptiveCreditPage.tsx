@@ -17,10 +17,12 @@ import { useToast } from '@/hooks/use-toast';
 import Navigation from '@/components/Navigation';
 import AssetFinancingHub from '@/components/adaptive-credit/AssetFinancingHub';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from 'recharts';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 const AdaptiveCreditPage = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { t } = useLanguage();
   
   const [loanAmount, setLoanAmount] = useState([50000]);
   const [loanTerm, setLoanTerm] = useState([12]);
@@ -68,7 +70,7 @@ const AdaptiveCreditPage = () => {
   ];
 
   const repaymentSimulation = loanTerm[0] > 0 ? Array.from({ length: Math.min(loanTerm[0], 12) }, (_, i) => ({
-    month: `Month ${i + 1}`,
+    month: t('adaptiveCredit.month', { n: i + 1 }),
     principal: Math.round(loanAmount[0] / loanTerm[0]),
     interest: Math.round((loanAmount[0] * 0.085) / 12),
     balance: Math.round(loanAmount[0] - ((loanAmount[0] / loanTerm[0]) * (i + 1)))
@@ -77,8 +79,8 @@ const AdaptiveCreditPage = () => {
   const handleApplyForLoan = (offerId) => {
     setSelectedOffer(offerId);
     toast({
-      title: "Loan Application Submitted",
-      description: "Your AI-optimized loan application is being processed. You'll receive feedback within 5 minutes.",
+      title: t('adaptiveCredit.submitted'),
+      description: t('adaptiveCredit.submitted.desc'),
     });
   };
 
@@ -96,10 +98,10 @@ const AdaptiveCreditPage = () => {
               </div>
               <div>
                 <h1 className="text-4xl font-bold bg-gradient-to-r from-green-600 to-blue-600 bg-clip-text text-transparent">
-                  Adaptive Credit Lab
+                  {t('adaptiveCredit.title')}
                 </h1>
                 <p className="text-muted-foreground text-lg">
-                  AI-powered loan structuring and growth-focused lending
+                  {t('adaptiveCredit.subtitle')}
                 </p>
               </div>
             </div>
@@ -107,10 +109,10 @@ const AdaptiveCreditPage = () => {
 
           <Tabs defaultValue="assets" className="w-full">
             <TabsList className="grid w-full grid-cols-4">
-              <TabsTrigger value="assets">Asset Financing</TabsTrigger>
-              <TabsTrigger value="simulator">Loan Simulator</TabsTrigger>
-              <TabsTrigger value="offers">AI Offers</TabsTrigger>
-              <TabsTrigger value="microloans">Micro Loans</TabsTrigger>
+              <TabsTrigger value="assets">{t('adaptiveCredit.tabs.assets')}</TabsTrigger>
+              <TabsTrigger value="simulator">{t('adaptiveCredit.tabs.simulator')}</TabsTrigger>
+              <TabsTrigger value="offers">{t('adaptiveCredit.tabs.offers')}</TabsTrigger>
+              <TabsTrigger value="microloans">{t('adaptiveCredit.tabs.microloans')}</TabsTrigger>
             </TabsList>
 
             <TabsContent value="assets">
@@ -124,15 +126,15 @@ const AdaptiveCreditPage = () => {
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <Calculator className="h-5 w-5" />
-                      Interactive Loan Simulator
+                      {t('adaptiveCredit.sim.title')}
                     </CardTitle>
                     <CardDescription>
-                      Customize your loan parameters and see real-time calculations
+                      {t('adaptiveCredit.sim.desc')}
                     </CardDescription>
                   </CardHeader>
                   <CardContent className="space-y-6">
                     <div className="space-y-2">
-                      <Label>Loan Amount: KES {loanAmount[0].toLocaleString()}</Label>
+                      <Label>{t('adaptiveCredit.sim.amount', { amount: loanAmount[0] })}</Label>
                       <Slider
                         value={loanAmount}
                         onValueChange={setLoanAmount}
@@ -142,13 +144,13 @@ const AdaptiveCreditPage = () => {
                         className="w-full"
                       />
                       <div className="flex justify-between text-xs text-muted-foreground">
-                        <span>KES 1,000</span>
-                        <span>KES 500,000</span>
+                        <span>{t('common.amount', { amount: 1000 })}</span>
+                        <span>{t('common.amount', { amount: 500000 })}</span>
                       </div>
                     </div>
 
                     <div className="space-y-2">
-                      <Label>Loan Term: {loanTerm[0]} months</Label>
+                      <Label>{t('adaptiveCredit.sim.term', { count: loanTerm[0] })}</Label>
                       <Slider
                         value={loanTerm}
                         onValueChange={setLoanTerm}
@@ -158,40 +160,40 @@ const AdaptiveCreditPage = () => {
                         className="w-full"
                       />
                       <div className="flex justify-between text-xs text-muted-foreground">
-                        <span>1 month</span>
-                        <span>60 months</span>
+                        <span>{t('adaptiveCredit.months', { count: 1 })}</span>
+                        <span>{t('adaptiveCredit.months', { count: 60 })}</span>
                       </div>
                     </div>
 
                     <div className="space-y-2">
-                      <Label htmlFor="purpose">Loan Purpose</Label>
+                      <Label htmlFor="purpose">{t('adaptiveCredit.sim.purpose')}</Label>
                       <Select value={purpose} onValueChange={setPurpose}>
                         <SelectTrigger>
-                          <SelectValue placeholder="Select loan purpose" />
+                          <SelectValue placeholder={t('adaptiveCredit.sim.purpose.placeholder')} />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="business">Business Expansion</SelectItem>
-                          <SelectItem value="education">Education</SelectItem>
-                          <SelectItem value="emergency">Emergency</SelectItem>
-                          <SelectItem value="debt-consolidation">Debt Consolidation</SelectItem>
-                          <SelectItem value="home-improvement">Home Improvement</SelectItem>
-                          <SelectItem value="asset-purchase">Asset Purchase</SelectItem>
+                          <SelectItem value="business">{t('adaptiveCredit.purpose.business')}</SelectItem>
+                          <SelectItem value="education">{t('adaptiveCredit.purpose.education')}</SelectItem>
+                          <SelectItem value="emergency">{t('adaptiveCredit.purpose.emergency')}</SelectItem>
+                          <SelectItem value="debt-consolidation">{t('adaptiveCredit.purpose.debt')}</SelectItem>
+                          <SelectItem value="home-improvement">{t('adaptiveCredit.purpose.home')}</SelectItem>
+                          <SelectItem value="asset-purchase">{t('adaptiveCredit.purpose.asset')}</SelectItem>
                         </SelectContent>
                       </Select>
                     </div>
 
                     <div className="space-y-2">
-                      <Label>Repayment Pattern</Label>
+                      <Label>{t('adaptiveCredit.sim.pattern')}</Label>
                       <Select value={repaymentPattern} onValueChange={setRepaymentPattern}>
                         <SelectTrigger>
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="monthly">Monthly</SelectItem>
-                          <SelectItem value="bi-weekly">Bi-weekly</SelectItem>
-                          <SelectItem value="weekly">Weekly</SelectItem>
-                          <SelectItem value="seasonal">Seasonal (for farmers)</SelectItem>
-                          <SelectItem value="income-sync">Income Synchronized</SelectItem>
+                          <SelectItem value="monthly">{t('adaptiveCredit.pattern.monthly')}</SelectItem>
+                          <SelectItem value="bi-weekly">{t('adaptiveCredit.pattern.biweekly')}</SelectItem>
+                          <SelectItem value="weekly">{t('adaptiveCredit.pattern.weekly')}</SelectItem>
+                          <SelectItem value="seasonal">{t('adaptiveCredit.pattern.seasonal')}</SelectItem>
+                          <SelectItem value="income-sync">{t('adaptiveCredit.pattern.incomeSync')}</SelectItem>
                         </SelectContent>
                       </Select>
                     </div>
@@ -199,7 +201,7 @@ const AdaptiveCreditPage = () => {
                     <Alert>
                       <Zap className="h-4 w-4" />
                       <AlertDescription>
-                        AI is analyzing your financial profile to generate personalized loan offers
+                        {t('adaptiveCredit.sim.analyzing')}
                       </AlertDescription>
                     </Alert>
                   </CardContent>
@@ -208,7 +210,7 @@ const AdaptiveCreditPage = () => {
                 {/* Repayment Visualization */}
                 <Card>
                   <CardHeader>
-                    <CardTitle>Repayment Schedule Preview</CardTitle>
+                    <CardTitle>{t('adaptiveCredit.preview')}</CardTitle>
                   </CardHeader>
                   <CardContent>
                     {repaymentSimulation.length > 0 ? (
@@ -228,7 +230,7 @@ const AdaptiveCreditPage = () => {
                       <div className="h-80 flex items-center justify-center text-muted-foreground">
                         <div className="text-center">
                           <Calculator className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                          <p>Adjust loan parameters to see repayment schedule</p>
+                          <p>{t('adaptiveCredit.preview.empty')}</p>
                         </div>
                       </div>
                     )}
@@ -242,8 +244,7 @@ const AdaptiveCreditPage = () => {
                 <Alert className="border-blue-200 bg-blue-50">
                   <Brain className="h-4 w-4" />
                   <AlertDescription>
-                    <strong>AI Analysis Complete:</strong> Based on your financial health score of 87 and income patterns, 
-                    here are your personalized loan offers with dynamic pricing.
+                    <strong>{t('adaptiveCredit.offers.analysis')}</strong> {t('adaptiveCredit.offers.analysis.desc', { score: 87 })}
                   </AlertDescription>
                 </Alert>
 
@@ -256,9 +257,9 @@ const AdaptiveCreditPage = () => {
                         <div className="flex items-center justify-between">
                           <CardTitle className="text-xl">{offer.name}</CardTitle>
                           <div className="flex items-center gap-2">
-                            <Badge variant="outline">{offer.riskScore} Risk</Badge>
+                            <Badge variant="outline">{t('adaptiveCredit.offer.risk', { risk: offer.riskScore })}</Badge>
                             <Badge className="bg-green-100 text-green-800">
-                              {offer.approvalOdds}% Approval
+                              {t('adaptiveCredit.offer.approval', { odds: offer.approvalOdds })}
                             </Badge>
                           </div>
                         </div>
@@ -268,25 +269,25 @@ const AdaptiveCreditPage = () => {
                           <div className="space-y-4">
                             <div className="grid grid-cols-2 gap-4">
                               <div>
-                                <p className="text-sm text-muted-foreground">Loan Amount</p>
-                                <p className="text-2xl font-bold">KES {offer.amount.toLocaleString()}</p>
+                                <p className="text-sm text-muted-foreground">{t('adaptiveCredit.offer.amount')}</p>
+                                <p className="text-2xl font-bold">{t('common.amount', { amount: offer.amount })}</p>
                               </div>
                               <div>
-                                <p className="text-sm text-muted-foreground">Interest Rate</p>
+                                <p className="text-sm text-muted-foreground">{t('adaptiveCredit.offer.rate')}</p>
                                 <p className="text-2xl font-bold text-green-600">{offer.interestRate}%</p>
                               </div>
                               <div>
-                                <p className="text-sm text-muted-foreground">Monthly Payment</p>
-                                <p className="text-xl font-semibold">KES {offer.monthlyPayment.toLocaleString()}</p>
+                                <p className="text-sm text-muted-foreground">{t('adaptiveCredit.offer.monthly')}</p>
+                                <p className="text-xl font-semibold">{t('common.amount', { amount: offer.monthlyPayment })}</p>
                               </div>
                               <div>
-                                <p className="text-sm text-muted-foreground">Total Cost</p>
-                                <p className="text-xl font-semibold">KES {offer.totalCost.toLocaleString()}</p>
+                                <p className="text-sm text-muted-foreground">{t('adaptiveCredit.offer.total')}</p>
+                                <p className="text-xl font-semibold">{t('common.amount', { amount: offer.totalCost })}</p>
                               </div>
                             </div>
 
                             <div>
-                              <p className="text-sm text-muted-foreground mb-2">Special Features</p>
+                              <p className="text-sm text-muted-foreground mb-2">{t('adaptiveCredit.offer.features')}</p>
                               <div className="space-y-1">
                                 {offer.features.map((feature, index) => (
                                   <div key={index} className="flex items-center gap-2">
@@ -301,11 +302,11 @@ const AdaptiveCreditPage = () => {
                           <div className="flex flex-col justify-between">
                             <div className="space-y-3">
                               <div className="p-3 bg-muted rounded-lg">
-                                <h4 className="font-medium mb-2">AI Optimization Benefits</h4>
+                                <h4 className="font-medium mb-2">{t('adaptiveCredit.offer.benefits')}</h4>
                                 <ul className="text-sm space-y-1">
-                                  <li>• Rate reduced by 1.2% based on payment history</li>
-                                  <li>• Flexible terms aligned with income cycle</li>
-                                  <li>• Automatic rate reviews for improvements</li>
+                                  <li>{t('adaptiveCredit.offer.benefit1')}</li>
+                                  <li>{t('adaptiveCredit.offer.benefit2')}</li>
+                                  <li>{t('adaptiveCredit.offer.benefit3')}</li>
                                 </ul>
                               </div>
                             </div>
@@ -318,10 +319,10 @@ const AdaptiveCreditPage = () => {
                               {selectedOffer === offer.id ? (
                                 <>
                                   <Clock className="mr-2 h-4 w-4 animate-spin" />
-                                  Processing...
+                                  {t('adaptiveCredit.processing')}
                                 </>
                               ) : (
-                                'Apply for This Loan'
+                                t('adaptiveCredit.offer.apply')
                               )}
                             </Button>
                           </div>
@@ -339,10 +340,10 @@ const AdaptiveCreditPage = () => {
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <Target className="h-5 w-5" />
-                      Goal-Based Micro Lending
+                      {t('adaptiveCredit.micro.title')}
                     </CardTitle>
                     <CardDescription>
-                      Set financial goals and get automated micro-loans as needed
+                      {t('adaptiveCredit.micro.desc')}
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
@@ -353,20 +354,20 @@ const AdaptiveCreditPage = () => {
                             <DollarSign className="h-4 w-4 text-blue-600" />
                           </div>
                           <div>
-                            <h4 className="font-medium">Business Stock</h4>
-                            <p className="text-sm text-muted-foreground">Goal: KES 15,000</p>
+                            <h4 className="font-medium">{t('adaptiveCredit.goal.stock')}</h4>
+                            <p className="text-sm text-muted-foreground">{t('adaptiveCredit.goal', { amount: 15000 })}</p>
                           </div>
                         </div>
                         <div className="space-y-2">
                           <div className="flex justify-between text-sm">
-                            <span>Progress</span>
-                            <span>KES 8,500 / 15,000</span>
+                            <span>{t('adaptiveCredit.goal.progress')}</span>
+                            <span>{t('adaptiveCredit.goal.progressValue', { saved: 8500, target: 15000 })}</span>
                           </div>
                           <div className="w-full bg-gray-200 rounded-full h-2">
                             <div className="bg-blue-600 h-2 rounded-full" style={{ width: '57%' }}></div>
                           </div>
                           <Button size="sm" className="w-full">
-                            Request KES 2,000
+                            {t('adaptiveCredit.goal.request', { amount: 2000 })}
                           </Button>
                         </div>
                       </Card>
@@ -377,20 +378,20 @@ const AdaptiveCreditPage = () => {
                             <Calendar className="h-4 w-4 text-green-600" />
                           </div>
                           <div>
-                            <h4 className="font-medium">School Fees</h4>
-                            <p className="text-sm text-muted-foreground">Goal: KES 25,000</p>
+                            <h4 className="font-medium">{t('adaptiveCredit.goal.fees')}</h4>
+                            <p className="text-sm text-muted-foreground">{t('adaptiveCredit.goal', { amount: 25000 })}</p>
                           </div>
                         </div>
                         <div className="space-y-2">
                           <div className="flex justify-between text-sm">
-                            <span>Progress</span>
-                            <span>KES 18,000 / 25,000</span>
+                            <span>{t('adaptiveCredit.goal.progress')}</span>
+                            <span>{t('adaptiveCredit.goal.progressValue', { saved: 18000, target: 25000 })}</span>
                           </div>
                           <div className="w-full bg-gray-200 rounded-full h-2">
                             <div className="bg-green-600 h-2 rounded-full" style={{ width: '72%' }}></div>
                           </div>
                           <Button size="sm" className="w-full">
-                            Auto-loan Active
+                            {t('adaptiveCredit.goal.autoLoan')}
                           </Button>
                         </div>
                       </Card>
@@ -399,7 +400,7 @@ const AdaptiveCreditPage = () => {
                         <div className="flex items-center justify-center h-full">
                           <Button variant="outline" className="w-full">
                             <Target className="mr-2 h-4 w-4" />
-                            Add New Goal
+                            {t('adaptiveCredit.goal.add')}
                           </Button>
                         </div>
                       </Card>
@@ -409,17 +410,17 @@ const AdaptiveCreditPage = () => {
 
                 <Card>
                   <CardHeader>
-                    <CardTitle>Automated Micro-Loan Rules</CardTitle>
+                    <CardTitle>{t('adaptiveCredit.rules.title')}</CardTitle>
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-4">
                       <div className="flex items-center justify-between p-4 border rounded-lg">
                         <div>
-                          <h4 className="font-medium">Emergency Buffer</h4>
-                          <p className="text-sm text-muted-foreground">Auto-approve up to KES 5,000 for emergencies</p>
+                          <h4 className="font-medium">{t('adaptiveCredit.rules.emergency')}</h4>
+                          <p className="text-sm text-muted-foreground">{t('adaptiveCredit.rules.emergency.desc', { amount: 5000 })}</p>
                         </div>
                         <div className="flex items-center gap-2">
-                          <Badge variant="outline">Active</Badge>
+                          <Badge variant="outline">{t('adaptiveCredit.rules.active')}</Badge>
                           <Button size="sm" variant="outline">
                             <Settings className="h-4 w-4" />
                           </Button>
@@ -428,11 +429,11 @@ const AdaptiveCreditPage = () => {
 
                       <div className="flex items-center justify-between p-4 border rounded-lg">
                         <div>
-                          <h4 className="font-medium">Business Opportunities</h4>
-                          <p className="text-sm text-muted-foreground">Quick loans for time-sensitive business needs</p>
+                          <h4 className="font-medium">{t('adaptiveCredit.rules.business')}</h4>
+                          <p className="text-sm text-muted-foreground">{t('adaptiveCredit.rules.business.desc')}</p>
                         </div>
                         <div className="flex items-center gap-2">
-                          <Badge variant="outline">Active</Badge>
+                          <Badge variant="outline">{t('adaptiveCredit.rules.active')}</Badge>
                           <Button size="sm" variant="outline">
                             <Settings className="h-4 w-4" />
                           </Button>
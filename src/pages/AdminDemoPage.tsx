@@ -1,16 +1,18 @@
 import { AdminPanel } from '@/components/AdminPanel';
 import { ReportsWithAdmin } from '@/components/ReportsWithAdmin';
 import { useAuth } from '@/hooks/useAuth';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 const AdminDemoPage = () => {
   const { user, isAdmin } = useAuth();
+  const { t } = useLanguage();
 
   if (!user) {
     return (
       <div className="container mx-auto px-4 py-8">
         <div className="text-center">
-          <h1 className="text-2xl font-bold mb-4">Admin Demo</h1>
-          <p className="text-muted-foreground">Please sign in to access this page.</p>
+          <h1 className="text-2xl font-bold mb-4">{t('adminDemo.title')}</h1>
+          <p className="text-muted-foreground">{t('adminDemo.signIn')}</p>
         </div>
       </div>
     );
@@ -19,9 +21,9 @@ const AdminDemoPage = () => {
   return (
     <div className="container mx-auto px-4 py-8 space-y-6">
       <div className="text-center mb-8">
-        <h1 className="text-3xl font-bold mb-2">Admin Demo</h1>
+        <h1 className="text-3xl font-bold mb-2">{t('adminDemo.title')}</h1>
         <p className="text-muted-foreground">
-          Demonstration of admin vs regular user features
+          {t('adminDemo.subtitle')}
         </p>
       </div>
 
@@ -32,10 +34,9 @@ const AdminDemoPage = () => {
 
       {isAdmin && (
         <div className="mt-8 p-4 bg-green-50 border border-green-200 rounded-lg">
-          <h3 className="font-semibold text-green-800 mb-2">🎉 Admin Features Unlocked!</h3>
+          <h3 className="font-semibold text-green-800 mb-2">{t('adminDemo.unlocked.title')}</h3>
           <p className="text-green-700">
-            You now have administrator privileges and can access advanced features like CSV reports, 
-            user management, and system settings.
+            {t('adminDemo.unlocked.desc')}
           </p>
         </div>
       )}
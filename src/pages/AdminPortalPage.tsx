@@ -27,6 +27,7 @@ import {
 } from 'lucide-react';
 import Navigation from '@/components/Navigation';
 import { useAuth } from '@/hooks/useAuth';
+import { useLanguage } from '@/contexts/LanguageContext';
 import AdminLogin from '@/components/AdminLogin';
 import AdminUserDirectory from '@/components/admin/AdminUserDirectory';
 import AdminGroupOversight from '@/components/admin/AdminGroupOversight';
@@ -35,12 +36,14 @@ import AdminLoanOversight from '@/components/admin/AdminLoanOversight';
 import AdminUserManagement from '@/components/admin/AdminUserManagement';
 import AdminCreditEngine from '@/components/admin/AdminCreditEngine';
 import AdminMessaging from '@/components/admin/AdminMessaging';
+import AdminExchangeRates from '@/components/admin/AdminExchangeRates';
 import { AdminSellerVerification } from '@/components/admin/AdminSellerVerification';
 
 const AdminPortalPage: React.FC = () => {
   const { user } = useAuth();
   const [activeTab, setActiveTab] = useState('overview');
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const { t } = useLanguage();
 
   const handleLogin = (role: 'admin' | 'bank') => {
     setIsAuthenticated(true);
@@ -66,14 +69,14 @@ const AdminPortalPage: React.FC = () => {
       <div className="container mx-auto px-4 py-8">
         <div className="mb-6">
           <h1 className="text-4xl font-bold tracking-tight bg-gradient-to-r from-blue-600 to-green-600 bg-clip-text text-transparent">
-            Admin Portal
+            {t('adminPortal.title')}
           </h1>
           <p className="text-muted-foreground mt-2">
-            Complete platform oversight and management
+            {t('adminPortal.subtitle')}
           </p>
           <Badge variant="destructive" className="mt-2">
             <Shield className="h-3 w-3 mr-1" />
-            Super Admin Access
+            {t('adminPortal.superAdmin')}
           </Badge>
         </div>
 
@@ -81,67 +84,67 @@ const AdminPortalPage: React.FC = () => {
         <div className="grid gap-4 md:grid-cols-6 mb-8">
           <Card className="border-0 shadow-lg">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Total Users</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('adminPortal.stats.users')}</CardTitle>
               <Users className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">{adminStats.totalUsers.toLocaleString()}</div>
-              <p className="text-xs text-muted-foreground">+12% from last month</p>
+              <p className="text-xs text-muted-foreground">{t('adminPortal.stats.growth', { percent: 12 })}</p>
             </CardContent>
           </Card>
 
           <Card className="border-0 shadow-lg">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Active Chamas</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('adminPortal.stats.chamas')}</CardTitle>
               <Building2 className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">{adminStats.activeChamas.toLocaleString()}</div>
-              <p className="text-xs text-muted-foreground">+8% from last month</p>
+              <p className="text-xs text-muted-foreground">{t('adminPortal.stats.growth', { percent: 8 })}</p>
             </CardContent>
           </Card>
 
           <Card className="border-0 shadow-lg">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Total Loans</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('adminPortal.stats.loans')}</CardTitle>
               <DollarSign className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">{adminStats.totalLoans.toLocaleString()}</div>
-              <p className="text-xs text-muted-foreground">+15% from last month</p>
+              <p className="text-xs text-muted-foreground">{t('adminPortal.stats.growth', { percent: 15 })}</p>
             </CardContent>
           </Card>
 
           <Card className="border-0 shadow-lg">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Platform Volume</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('adminPortal.stats.volume')}</CardTitle>
               <BarChart3 className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">KES {(adminStats.platformVolume / 1000000).toFixed(1)}M</div>
-              <p className="text-xs text-muted-foreground">+22% from last month</p>
+              <p className="text-xs text-muted-foreground">{t('adminPortal.stats.growth', { percent: 22 })}</p>
             </CardContent>
           </Card>
 
           <Card className="border-0 shadow-lg">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Pending Verifications</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('adminPortal.stats.verifications')}</CardTitle>
               <AlertTriangle className="h-4 w-4 text-yellow-600" />
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-yellow-600">{adminStats.pendingVerifications}</div>
-              <p className="text-xs text-muted-foreground">Requires attention</p>
+              <p className="text-xs text-muted-foreground">{t('adminPortal.stats.verifications.hint')}</p>
             </CardContent>
           </Card>
 
           <Card className="border-0 shadow-lg">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Flagged Activities</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('adminPortal.stats.flagged')}</CardTitle>
               <Ban className="h-4 w-4 text-red-600" />
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-red-600">{adminStats.flaggedActivities}</div>
-              <p className="text-xs text-muted-foreground">Urgent review needed</p>
+              <p className="text-xs text-muted-foreground">{t('adminPortal.stats.flagged.hint')}</p>
             </CardContent>
           </Card>
         </div>
@@ -150,43 +153,43 @@ const AdminPortalPage: React.FC = () => {
           <TabsList className="grid w-full grid-cols-5 lg:grid-cols-10 bg-white/50 backdrop-blur-sm mb-6">
             <TabsTrigger value="overview" className="flex items-center gap-1">
               <BarChart3 className="h-3 w-3" />
-              <span className="hidden sm:inline">Overview</span>
+              <span className="hidden sm:inline">{t('adminPortal.tabs.overview')}</span>
             </TabsTrigger>
             <TabsTrigger value="users" className="flex items-center gap-1">
               <Users className="h-3 w-3" />
-              <span className="hidden sm:inline">Users</span>
+              <span className="hidden sm:inline">{t('adminPortal.tabs.users')}</span>
             </TabsTrigger>
             <TabsTrigger value="groups" className="flex items-center gap-1">
               <Building2 className="h-3 w-3" />
-              <span className="hidden sm:inline">Groups</span>
+              <span className="hidden sm:inline">{t('adminPortal.tabs.groups')}</span>
             </TabsTrigger>
             <TabsTrigger value="loans" className="flex items-center gap-1">
               <DollarSign className="h-3 w-3" />
-              <span className="hidden sm:inline">Loans</span>
+              <span className="hidden sm:inline">{t('adminPortal.tabs.loans')}</span>
             </TabsTrigger>
             <TabsTrigger value="sellers" className="flex items-center gap-1">
               <Shield className="h-3 w-3" />
-              <span className="hidden sm:inline">Sellers</span>
+              <span className="hidden sm:inline">{t('adminPortal.tabs.sellers')}</span>
             </TabsTrigger>
             <TabsTrigger value="management" className="flex items-center gap-1">
               <UserCog className="h-3 w-3" />
-              <span className="hidden sm:inline">Manage</span>
+              <span className="hidden sm:inline">{t('adminPortal.tabs.manage')}</span>
             </TabsTrigger>
             <TabsTrigger value="credit" className="flex items-center gap-1">
               <Brain className="h-3 w-3" />
-              <span className="hidden sm:inline">Credit</span>
+              <span className="hidden sm:inline">{t('adminPortal.tabs.credit')}</span>
             </TabsTrigger>
             <TabsTrigger value="messaging" className="flex items-center gap-1">
               <MessageSquare className="h-3 w-3" />
-              <span className="hidden sm:inline">Messages</span>
+              <span className="hidden sm:inline">{t('adminPortal.tabs.messages')}</span>
             </TabsTrigger>
             <TabsTrigger value="testing" className="flex items-center gap-1">
               <TestTube className="h-3 w-3" />
-              <span className="hidden sm:inline">A/B Test</span>
+              <span className="hidden sm:inline">{t('adminPortal.tabs.abTest')}</span>
             </TabsTrigger>
             <TabsTrigger value="settings" className="flex items-center gap-1">
               <Settings className="h-3 w-3" />
-              <span className="hidden sm:inline">Settings</span>
+              <span className="hidden sm:inline">{t('adminPortal.tabs.settings')}</span>
             </TabsTrigger>
           </TabsList>
 
@@ -227,18 +230,18 @@ const AdminPortalPage: React.FC = () => {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <TestTube className="h-5 w-5" />
-                  A/B Testing Console
+                  {t('adminPortal.abTesting.title')}
                 </CardTitle>
                 <CardDescription>
-                  Test new features and improvements with specific user segments
+                  {t('adminPortal.abTesting.desc')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
                   <div className="text-center py-8 text-muted-foreground">
                     <TestTube className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                    <p>A/B Testing features coming soon...</p>
-                    <p className="text-sm">Set up experiments, control groups, and measure feature impact</p>
+                    <p>{t('adminPortal.abTesting.soon')}</p>
+                    <p className="text-sm">{t('adminPortal.abTesting.soon.desc')}</p>
                   </div>
                 </div>
               </CardContent>
@@ -247,30 +250,32 @@ const AdminPortalPage: React.FC = () => {
 
           <TabsContent value="settings">
             <div className="space-y-6">
+              <AdminExchangeRates />
+
               <Card className="border-0 shadow-lg">
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <Settings className="h-5 w-5" />
-                    Platform Settings
+                    {t('adminPortal.settings.title')}
                   </CardTitle>
                   <CardDescription>
-                    Configure platform-wide settings and policies
+                    {t('adminPortal.settings.desc')}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-6">
                     <div className="grid gap-4 md:grid-cols-2">
                       <div>
-                        <Label htmlFor="transaction-fee">Transaction Fee (%)</Label>
+                        <Label htmlFor="transaction-fee">{t('adminPortal.settings.transactionFee')}</Label>
                         <Input id="transaction-fee" type="number" defaultValue="2.5" />
                       </div>
                       <div>
-                        <Label htmlFor="loan-processing-fee">Loan Processing Fee (KES)</Label>
+                        <Label htmlFor="loan-processing-fee">{t('adminPortal.settings.loanFee')}</Label>
                         <Input id="loan-processing-fee" type="number" defaultValue="500" />
                       </div>
                     </div>
                     <div className="flex justify-end">
-                      <Button>Save Settings</Button>
+                      <Button>{t('adminPortal.settings.save')}</Button>
                     </div>
                   </div>
                 </CardContent>
@@ -281,17 +286,17 @@ const AdminPortalPage: React.FC = () => {
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <TestTube className="h-5 w-5" />
-                    Admin Demo
+                    {t('adminDemo.title')}
                   </CardTitle>
                   <CardDescription>
-                    Interactive demo environment for testing admin features
+                    {t('adminPortal.demo.desc')}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
                   <iframe 
                     src="/admin-demo" 
                     className="w-full h-[600px] border rounded-lg"
-                    title="Admin Demo"
+                    title={t('adminDemo.title')}
                   />
                 </CardContent>
               </Card>
@@ -9,6 +9,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Users, DollarSign, TrendingUp, Calendar, Bell, Shield, FileText, MessageSquare, User, LayoutDashboard } from 'lucide-react';
 import Navigation from '@/components/Navigation';
 import CurrencyDisplay from '@/components/CurrencyDisplay';
+import { useLanguage } from '@/contexts/LanguageContext';
 import ChamaOverview from '@/components/chama/ChamaOverview';
 import MemberManagement from '@/components/chama/MemberManagement';
 import SavingsContributions from '@/components/chama/SavingsContributions';
@@ -26,6 +27,7 @@ import AdminDashboard from '@/components/chama/AdminDashboard';
 
 const AdvancedChamaPage: React.FC = () => {
   const [activeTab, setActiveTab] = useState('overview');
+  const { t } = useLanguage();
 
   // Listen for navigation events from quick actions
   useEffect(() => {
@@ -75,7 +77,7 @@ const AdvancedChamaPage: React.FC = () => {
               </h1>
               <p className="text-muted-foreground">{chamaData.description}</p>
               <Badge variant="secondary" className="mt-1">
-                {chamaData.role === 'admin' ? 'Administrator' : 'Member'}
+                {chamaData.role === 'admin' ? t('chamaWorkspace.role.admin') : t('chamaWorkspace.role.member')}
               </Badge>
             </div>
           </div>
@@ -85,63 +87,63 @@ const AdvancedChamaPage: React.FC = () => {
           <TabsList className="grid w-full grid-cols-6 lg:grid-cols-15 bg-white/50 backdrop-blur-sm mb-6">
             <TabsTrigger value="admin-dashboard" className="flex items-center gap-1">
               <LayoutDashboard className="h-3 w-3" />
-              <span className="hidden sm:inline">Dashboard</span>
+              <span className="hidden sm:inline">{t('chamaWorkspace.tabs.dashboard')}</span>
             </TabsTrigger>
             <TabsTrigger value="overview" className="flex items-center gap-1">
               <DollarSign className="h-3 w-3" />
-              <span className="hidden sm:inline">Overview</span>
+              <span className="hidden sm:inline">{t('chamaWorkspace.tabs.overview')}</span>
             </TabsTrigger>
             <TabsTrigger value="members" className="flex items-center gap-1">
               <Users className="h-3 w-3" />
-              <span className="hidden sm:inline">Members</span>
+              <span className="hidden sm:inline">{t('chamaWorkspace.tabs.members')}</span>
             </TabsTrigger>
             <TabsTrigger value="savings" className="flex items-center gap-1">
               <TrendingUp className="h-3 w-3" />
-              <span className="hidden sm:inline">Savings</span>
+              <span className="hidden sm:inline">{t('chamaWorkspace.tabs.savings')}</span>
             </TabsTrigger>
             <TabsTrigger value="loans" className="flex items-center gap-1">
               <FileText className="h-3 w-3" />
-              <span className="hidden sm:inline">Loans</span>
+              <span className="hidden sm:inline">{t('chamaWorkspace.tabs.loans')}</span>
             </TabsTrigger>
             <TabsTrigger value="investments" className="flex items-center gap-1">
               <TrendingUp className="h-3 w-3" />
-              <span className="hidden sm:inline">Invest</span>
+              <span className="hidden sm:inline">{t('chamaWorkspace.tabs.invest')}</span>
             </TabsTrigger>
             <TabsTrigger value="meetings" className="flex items-center gap-1">
               <Calendar className="h-3 w-3" />
-              <span className="hidden sm:inline">Meetings</span>
+              <span className="hidden sm:inline">{t('chamaWorkspace.tabs.meetings')}</span>
             </TabsTrigger>
             <TabsTrigger value="expenses" className="flex items-center gap-1">
               <DollarSign className="h-3 w-3" />
-              <span className="hidden sm:inline">Expenses</span>
+              <span className="hidden sm:inline">{t('chamaWorkspace.tabs.expenses')}</span>
             </TabsTrigger>
             <TabsTrigger value="reports" className="flex items-center gap-1">
               <FileText className="h-3 w-3" />
-              <span className="hidden sm:inline">Reports</span>
+              <span className="hidden sm:inline">{t('chamaWorkspace.tabs.reports')}</span>
             </TabsTrigger>
             <TabsTrigger value="security" className="flex items-center gap-1">
               <Shield className="h-3 w-3" />
-              <span className="hidden sm:inline">Security</span>
+              <span className="hidden sm:inline">{t('chamaWorkspace.tabs.security')}</span>
             </TabsTrigger>
             <TabsTrigger value="community" className="flex items-center gap-1">
               <MessageSquare className="h-3 w-3" />
-              <span className="hidden sm:inline">Community</span>
+              <span className="hidden sm:inline">{t('chamaWorkspace.tabs.community')}</span>
             </TabsTrigger>
             <TabsTrigger value="chat" className="flex items-center gap-1">
               <MessageSquare className="h-3 w-3" />
-              <span className="hidden sm:inline">Chat</span>
+              <span className="hidden sm:inline">{t('chamaWorkspace.tabs.chat')}</span>
             </TabsTrigger>
             <TabsTrigger value="notifications" className="flex items-center gap-1">
               <Bell className="h-3 w-3" />
-              <span className="hidden sm:inline">Alerts</span>
+              <span className="hidden sm:inline">{t('chamaWorkspace.tabs.alerts')}</span>
             </TabsTrigger>
             <TabsTrigger value="admin" className="flex items-center gap-1">
               <User className="h-3 w-3" />
-              <span className="hidden sm:inline">Admin</span>
+              <span className="hidden sm:inline">{t('chamaWorkspace.tabs.admin')}</span>
             </TabsTrigger>
             <TabsTrigger value="generate-reports" className="flex items-center gap-1">
               <FileText className="h-3 w-3" />
-              <span className="hidden sm:inline">Generate Reports</span>
+              <span className="hidden sm:inline">{t('chamaWorkspace.tabs.generateReports')}</span>
             </TabsTrigger>
           </TabsList>
 
@@ -24,7 +24,7 @@ const AnalyticsPage = () => {
         <Navigation />
         <main className="container mx-auto px-4 py-8">
           <div className="flex items-center justify-center h-64">
-            <div className="text-lg">Loading your analytics...</div>
+            <div className="text-lg">{t('analytics.loading')}</div>
           </div>
         </main>
       </div>
@@ -37,7 +37,7 @@ const AnalyticsPage = () => {
         <Navigation />
         <main className="container mx-auto px-4 py-8">
           <div className="flex items-center justify-center h-64">
-            <div className="text-lg text-red-600">Error loading analytics data</div>
+            <div className="text-lg text-red-600">{t('analytics.error')}</div>
           </div>
         </main>
       </div>
@@ -70,10 +70,10 @@ const AnalyticsPage = () => {
   };
 
   const getHealthLabel = (score: number) => {
-    if (score >= 80) return 'Excellent';
-    if (score >= 60) return 'Good';
-    if (score >= 40) return 'Fair';
-    return 'Poor';
+    if (score >= 80) return t('analytics.health.excellent');
+    if (score >= 60) return t('analytics.health.good');
+    if (score >= 40) return t('analytics.health.fair');
+    return t('analytics.health.poor');
   };
 
   return (
@@ -103,9 +103,9 @@ const AnalyticsPage = () => {
                 <div>
                   <CardTitle className="flex items-center gap-2">
                     <Activity className="h-5 w-5" />
-                    Financial Health Score
+                    {t('analytics.health.title')}
                   </CardTitle>
-                  <CardDescription>Overall assessment of your financial well-being</CardDescription>
+                  <CardDescription>{t('analytics.health.desc')}</CardDescription>
                 </div>
                 <div className="text-right">
                   <div className={`text-3xl font-bold ${getHealthColor(financialHealth.score)}`}>
@@ -120,19 +120,19 @@ const AnalyticsPage = () => {
             <CardContent>
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                 <div className="text-center">
-                  <div className="text-sm text-muted-foreground">Savings</div>
+                  <div className="text-sm text-muted-foreground">{t('analytics.health.savings')}</div>
                   <div className="text-lg font-semibold">{financialHealth.factors.savings}/25</div>
                 </div>
                 <div className="text-center">
-                  <div className="text-sm text-muted-foreground">Diversification</div>
+                  <div className="text-sm text-muted-foreground">{t('analytics.health.diversification')}</div>
                   <div className="text-lg font-semibold">{financialHealth.factors.diversification}/25</div>
                 </div>
                 <div className="text-center">
-                  <div className="text-sm text-muted-foreground">Consistency</div>
+                  <div className="text-sm text-muted-foreground">{t('analytics.health.consistency')}</div>
                   <div className="text-lg font-semibold">{financialHealth.factors.consistency}/25</div>
                 </div>
                 <div className="text-center">
-                  <div className="text-sm text-muted-foreground">Debt Management</div>
+                  <div className="text-sm text-muted-foreground">{t('analytics.health.debt')}</div>
                   <div className="text-lg font-semibold">{financialHealth.factors.debt}/25</div>
                 </div>
               </div>
@@ -143,7 +143,7 @@ const AnalyticsPage = () => {
           <div className="grid gap-6 md:grid-cols-4">
             <Card>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Net Worth</CardTitle>
+                <CardTitle className="text-sm font-medium">{t('dashboard.net.worth')}</CardTitle>
                 <DollarSign className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
@@ -154,45 +154,45 @@ const AnalyticsPage = () => {
                   ) : (
                     <TrendingDown className="h-3 w-3 text-red-500" />
                   )}
-                  {Math.abs(overview.monthlyGrowth).toFixed(1)}% from last month
+                  {t('analytics.fromLastMonth', { percent: Math.abs(overview.monthlyGrowth) / 100 })}
                 </p>
               </CardContent>
             </Card>
 
             <Card>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Total Savings</CardTitle>
+                <CardTitle className="text-sm font-medium">{t('analytics.total.savings')}</CardTitle>
                 <TrendingUp className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
                 <CurrencyDisplay amount={overview.totalSavings} className="text-2xl font-bold" showToggle={false} />
                 <p className="text-xs text-muted-foreground">
-                  Chamas + Personal savings
+                  {t('analytics.savingsSources')}
                 </p>
               </CardContent>
             </Card>
 
             <Card>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Active Chamas</CardTitle>
+                <CardTitle className="text-sm font-medium">{t('analytics.active.chamas')}</CardTitle>
                 <Users className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold">{overview.activeChamasCount}</div>
                 <p className="text-xs text-muted-foreground">
-                  {overview.activeChamasCount > 0 ? 'Contributing actively' : 'Join a chama to start'}
+                  {overview.activeChamasCount > 0 ? t('analytics.contributing') : t('analytics.join.to.start')}
                 </p>
               </CardContent>
             </Card>
 
             <Card>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Investments</CardTitle>
+                <CardTitle className="text-sm font-medium">{t('analytics.investments')}</CardTitle>
                 <PieChart className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
                 <CurrencyDisplay amount={overview.totalInvestments} className="text-2xl font-bold" showToggle={false} />
-                <p className="text-xs text-muted-foreground">Portfolio value</p>
+                <p className="text-xs text-muted-foreground">{t('analytics.portfolio')}</p>
               </CardContent>
             </Card>
           </div>
@@ -201,8 +201,8 @@ const AnalyticsPage = () => {
           <div className="grid gap-6 lg:grid-cols-2">
             <Card>
               <CardHeader>
-                <CardTitle>Savings Trends</CardTitle>
-                <CardDescription>Your monthly savings across all sources</CardDescription>
+                <CardTitle>{t('analytics.savingsTrends')}</CardTitle>
+                <CardDescription>{t('analytics.savingsTrends.desc')}</CardDescription>
               </CardHeader>
               <CardContent>
                 {contributionTrends.length > 0 ? (
@@ -212,9 +212,8 @@ const AnalyticsPage = () => {
                       <XAxis dataKey="month" />
                       <YAxis />
                       <Tooltip formatter={(value: any, name: string) => [
-                        `KES ${Number(value).toLocaleString()}`, 
-                        name === 'chamaContributions' ? 'Chama Contributions' : 
-                        name === 'personalSavings' ? 'Personal Savings' : 'Total'
+                        t('common.amount', { amount: Number(value) }),
+                        t('analytics.series', { name })
                       ]} />
                       <Area type="monotone" dataKey="chamaContributions" stackId="1" stroke="#3b82f6" fill="#3b82f6" fillOpacity={0.6} />
                       <Area type="monotone" dataKey="personalSavings" stackId="1" stroke="#10b981" fill="#10b981" fillOpacity={0.6} />
@@ -222,7 +221,7 @@ const AnalyticsPage = () => {
                   </ResponsiveContainer>
                 ) : (
                   <div className="h-[300px] flex items-center justify-center text-muted-foreground">
-                    No savings data available
+                    {t('analytics.noSavingsData')}
                   </div>
                 )}
               </CardContent>
@@ -230,8 +229,8 @@ const AnalyticsPage = () => {
 
             <Card>
               <CardHeader>
-                <CardTitle>Chama Performance</CardTitle>
-                <CardDescription>Your contributions and growth by chama</CardDescription>
+                <CardTitle>{t('analytics.chama.performance')}</CardTitle>
+                <CardDescription>{t('analytics.chamaPerformance.desc')}</CardDescription>
               </CardHeader>
               <CardContent>
                 {chamaAnalytics.length > 0 ? (
@@ -241,8 +240,8 @@ const AnalyticsPage = () => {
                       <XAxis dataKey="name" />
                       <YAxis />
                       <Tooltip formatter={(value: any, name: string) => [
-                        name === 'totalContributed' ? `KES ${Number(value).toLocaleString()}` : `${Number(value).toFixed(1)}%`,
-                        name === 'totalContributed' ? 'Total Contributed' : 'Growth Rate'
+                        name === 'totalContributed' ? t('common.amount', { amount: Number(value) }) : `${Number(value).toFixed(1)}%`,
+                        t('analytics.series', { name })
                       ]} />
                       <Bar dataKey="totalContributed" fill="#3b82f6" />
                     </BarChart>
@@ -251,14 +250,14 @@ const AnalyticsPage = () => {
                   <div className="h-[300px] flex items-center justify-center text-muted-foreground">
                     <div className="text-center">
                       <AlertCircle className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                      <p>No chama data available</p>
+                      <p>{t('analytics.no.chama.data')}</p>
                       <Button 
                         variant="outline" 
                         size="sm" 
                         className="mt-2"
                         onClick={() => navigate('/chamas')}
                       >
-                        Join a Chama
+                        {t('analytics.joinChama')}
                       </Button>
                     </div>
                   </div>
@@ -274,9 +273,9 @@ const AnalyticsPage = () => {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Target className="h-5 w-5" />
-                  Personal Savings Goals
+                  {t('analytics.goals.title')}
                 </CardTitle>
-                <CardDescription>Your progress towards personal financial goals</CardDescription>
+                <CardDescription>{t('analytics.goals.desc')}</CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
@@ -291,21 +290,21 @@ const AnalyticsPage = () => {
                         </div>
                         <Progress value={Math.min(goal.progress, 100)} className="h-2" />
                         <p className="text-xs text-muted-foreground">
-                          {goal.progress.toFixed(1)}% complete
+                          {t('analytics.goals.complete', { percent: goal.progress / 100 })}
                         </p>
                       </div>
                     ))
                   ) : (
                     <div className="text-center py-8 text-muted-foreground">
                       <Target className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                      <p>No personal savings goals set</p>
+                      <p>{t('analytics.goals.empty')}</p>
                       <Button 
                         variant="outline" 
                         size="sm" 
                         className="mt-2"
                         onClick={() => navigate('/personal-savings')}
                       >
-                        Set Goals
+                        {t('analytics.goals.set')}
                       </Button>
                     </div>
                   )}
@@ -316,39 +315,39 @@ const AnalyticsPage = () => {
             {/* Loan Summary */}
             <Card>
               <CardHeader>
-                <CardTitle>Loan Summary</CardTitle>
-                <CardDescription>Overview of your borrowing activity</CardDescription>
+                <CardTitle>{t('analytics.loans.title')}</CardTitle>
+                <CardDescription>{t('analytics.loans.desc')}</CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="grid gap-4">
                   <div className="flex justify-between items-center">
-                    <span className="text-sm text-muted-foreground">Active Loans</span>
+                    <span className="text-sm text-muted-foreground">{t('analytics.loans.active')}</span>
                     <span className="font-medium">{loanSummary.activeLoans}</span>
                   </div>
                   <div className="flex justify-between items-center">
-                    <span className="text-sm text-muted-foreground">Total Borrowed</span>
+                    <span className="text-sm text-muted-foreground">{t('analytics.loans.borrowed')}</span>
                     <CurrencyDisplay amount={loanSummary.totalBorrowed} showToggle={false} className="font-medium" />
                   </div>
                   <div className="flex justify-between items-center">
-                    <span className="text-sm text-muted-foreground">Total Repaid</span>
+                    <span className="text-sm text-muted-foreground">{t('analytics.loans.repaid')}</span>
                     <CurrencyDisplay amount={loanSummary.totalRepaid} showToggle={false} className="font-medium text-green-600" />
                   </div>
                   <div className="flex justify-between items-center">
-                    <span className="text-sm text-muted-foreground">Repayment Rate</span>
+                    <span className="text-sm text-muted-foreground">{t('analytics.loans.rate')}</span>
                     <Badge variant={loanSummary.repaymentRate >= 80 ? 'default' : loanSummary.repaymentRate >= 60 ? 'secondary' : 'destructive'}>
                       {loanSummary.repaymentRate.toFixed(1)}%
                     </Badge>
                   </div>
                   {loanSummary.activeLoans === 0 && loanSummary.totalBorrowed === 0 && (
                     <div className="text-center py-4 text-muted-foreground">
-                      <p className="text-sm">No loan activity</p>
+                      <p className="text-sm">{t('analytics.loans.empty')}</p>
                       <Button 
                         variant="outline" 
                         size="sm" 
                         className="mt-2"
                         onClick={() => navigate('/loans')}
                       >
-                        Explore Loans
+                        {t('analytics.loans.explore')}
                       </Button>
                     </div>
                   )}
@@ -362,9 +361,9 @@ const AnalyticsPage = () => {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Activity className="h-5 w-5" />
-                Recent Activity Summary
+                {t('analytics.recent.activity')}
               </CardTitle>
-              <CardDescription>Your latest financial activities across all platforms</CardDescription>
+              <CardDescription>{t('analytics.activity.desc')}</CardDescription>
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
@@ -395,9 +394,9 @@ const AnalyticsPage = () => {
                         <div className="flex items-center gap-3">
                           <div className="text-lg">{getActivityIcon(activity.type)}</div>
                           <div>
-                            <p className="font-medium capitalize">{activity.type} {activity.chamaName ? `- ${activity.chamaName}` : ''}</p>
+                            <p className="font-medium capitalize">{t('analytics.activity.type', { type: activity.type })} {activity.chamaName ? `- ${activity.chamaName}` : ''}</p>
                             <p className="text-sm text-muted-foreground">
-                              {activity.description} • {new Date(activity.date).toLocaleDateString()}
+                              {activity.description} • {t('analytics.activity.date', { date: new Date(activity.date) })}
                             </p>
                           </div>
                         </div>
@@ -412,8 +411,8 @@ const AnalyticsPage = () => {
                 ) : (
                   <div className="text-center text-muted-foreground py-8">
                     <Activity className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                    <p>No recent activity found</p>
-                    <p className="text-sm mt-1">Start by making a contribution or saving some money!</p>
+                    <p>{t('analytics.no.recent.activity')}</p>
+                    <p className="text-sm mt-1">{t('analytics.activity.empty.desc')}</p>
                   </div>
                 )}
               </div>
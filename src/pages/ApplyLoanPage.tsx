@@ -12,6 +12,7 @@ import { useChamas } from "@/hooks/useChamas";
 import { useChamaLoans } from "@/hooks/useChamaLoans";
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/contexts/LanguageContext";
 import { 
   DollarSign, 
   Calendar, 
@@ -31,6 +32,7 @@ const ApplyLoanPage = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const { data: chamas } = useChamas();
+  const { t } = useLanguage();
   const [selectedChamaId, setSelectedChamaId] = useState<string>("");
   const [loanAmount, setLoanAmount] = useState("");
   const [purpose, setPurpose] = useState("");
@@ -45,8 +47,8 @@ const ApplyLoanPage = () => {
     
     if (!selectedChamaId) {
       toast({
-        title: "Select a Chama",
-        description: "Please select a chama to apply for a loan",
+        title: t('applyLoan.errors.noChama'),
+        description: t('applyLoan.errors.noChama.desc'),
         variant: "destructive",
       });
       return;
@@ -54,8 +56,8 @@ const ApplyLoanPage = () => {
 
     if (!loanAmount || !purpose || !repaymentPeriod) {
       toast({
-        title: "Missing Information",
-        description: "Please fill in all required fields",
+        title: t('applyLoan.errors.missing'),
+        description: t('applyLoan.errors.missing.desc'),
         variant: "destructive",
       });
       return;
@@ -124,7 +126,7 @@ const ApplyLoanPage = () => {
             className="mb-4 hover:bg-accent transition-colors"
           >
             <ArrowLeft className="h-4 w-4 mr-2" />
-            Back
+            {t('applyLoan.back')}
           </Button>
           
           <div className="text-center space-y-4">
@@ -137,17 +139,17 @@ const ApplyLoanPage = () => {
             
             <div className="space-y-2">
               <h1 className="text-4xl font-bold bg-gradient-to-r from-primary to-primary/70 bg-clip-text text-transparent">
-                Apply for Loan
+                {t('applyLoan.title')}
               </h1>
               <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
-                Access funds from your chama with competitive rates and flexible terms designed for your success.
+                {t('applyLoan.subtitle')}
               </p>
             </div>
 
             {/* Progress Indicator */}
             <div className="max-w-md mx-auto space-y-2">
               <div className="flex justify-between text-sm text-muted-foreground">
-                <span>Application Progress</span>
+                <span>{t('applyLoan.progress')}</span>
                 <span>{getApplicationProgress()}%</span>
               </div>
               <Progress value={getApplicationProgress()} className="h-2" />
@@ -166,9 +168,9 @@ const ApplyLoanPage = () => {
                     <Target className="h-5 w-5 text-primary" />
                   </div>
                   <div>
-                    <CardTitle className="text-xl">Loan Application</CardTitle>
+                    <CardTitle className="text-xl">{t('applyLoan.form.title')}</CardTitle>
                     <CardDescription>
-                      Complete your loan application with accurate information for faster processing.
+                      {t('applyLoan.form.desc')}
                     </CardDescription>
                   </div>
                 </div>
@@ -179,20 +181,20 @@ const ApplyLoanPage = () => {
                   <div className="space-y-4 p-6 bg-gradient-to-r from-blue-50/50 to-indigo-50/50 dark:from-slate-800/50 dark:to-slate-700/50 rounded-xl border border-blue-200/20">
                     <div className="flex items-center gap-2">
                       <Badge variant="secondary" className="bg-primary/10 text-primary border-primary/20">
-                        Step 1
+                        {t('applyLoan.step', { step: 1 })}
                       </Badge>
                       <Shield className="h-4 w-4 text-primary" />
-                      <span className="font-medium text-primary">Choose Your Chama</span>
+                      <span className="font-medium text-primary">{t('applyLoan.chama.section')}</span>
                     </div>
                     
                     <div className="space-y-3">
                       <Label htmlFor="chama" className="text-base font-medium flex items-center gap-2">
-                        Select Chama *
+                        {t('applyLoan.chama.label')}
                         {selectedChamaId && <CheckCircle className="h-4 w-4 text-green-500" />}
                       </Label>
                       <Select value={selectedChamaId} onValueChange={setSelectedChamaId}>
                         <SelectTrigger className="h-12 bg-white/70 dark:bg-slate-800/70 hover:bg-white transition-colors">
-                          <SelectValue placeholder="Choose your chama..." />
+                          <SelectValue placeholder={t('applyLoan.chama.placeholder')} />
                         </SelectTrigger>
                         <SelectContent>
                           {chamas?.map((chama) => (
@@ -212,7 +214,7 @@ const ApplyLoanPage = () => {
                         <div className="mt-3 p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
                           <div className="flex items-center gap-2 text-sm text-green-700 dark:text-green-300">
                             <CheckCircle className="h-4 w-4" />
-                            <span className="font-medium">Selected: {selectedChama.name}</span>
+                            <span className="font-medium">{t('applyLoan.chama.selected', { name: selectedChama.name })}</span>
                           </div>
                         </div>
                       )}
@@ -223,15 +225,15 @@ const ApplyLoanPage = () => {
                   <div className="space-y-4 p-6 bg-gradient-to-r from-green-50/50 to-emerald-50/50 dark:from-slate-800/50 dark:to-slate-700/50 rounded-xl border border-green-200/20">
                     <div className="flex items-center gap-2">
                       <Badge variant="secondary" className="bg-primary/10 text-primary border-primary/20">
-                        Step 2
+                        {t('applyLoan.step', { step: 2 })}
                       </Badge>
                       <Calculator className="h-4 w-4 text-primary" />
-                      <span className="font-medium text-primary">Loan Amount</span>
+                      <span className="font-medium text-primary">{t('applyLoan.amount.section')}</span>
                     </div>
                     
                     <div className="space-y-3">
                       <Label htmlFor="amount" className="text-base font-medium flex items-center gap-2">
-                        Loan Amount (KES) *
+                        {t('applyLoan.amount.label')}
                         {loanAmount && <CheckCircle className="h-4 w-4 text-green-500" />}
                       </Label>
                       <div className="relative">
@@ -239,7 +241,7 @@ const ApplyLoanPage = () => {
                         <Input
                           id="amount"
                           type="number"
-                          placeholder="Enter loan amount (min. KES 1,000)"
+                          placeholder={t('applyLoan.amount.placeholder', { min: 1000 })}
                           value={loanAmount}
                           onChange={(e) => setLoanAmount(e.target.value)}
                           min="1000"
@@ -259,7 +261,7 @@ const ApplyLoanPage = () => {
                             onClick={() => setLoanAmount(amount.toString())}
                             className="hover:bg-primary/10 hover:border-primary/20 hover:text-primary transition-all"
                           >
-                            KES {amount.toLocaleString()}
+                            {t('common.amount', { amount })}
                           </Button>
                         ))}
                       </div>
@@ -270,21 +272,21 @@ const ApplyLoanPage = () => {
                   <div className="space-y-4 p-6 bg-gradient-to-r from-purple-50/50 to-pink-50/50 dark:from-slate-800/50 dark:to-slate-700/50 rounded-xl border border-purple-200/20">
                     <div className="flex items-center gap-2">
                       <Badge variant="secondary" className="bg-primary/10 text-primary border-primary/20">
-                        Step 3
+                        {t('applyLoan.step', { step: 3 })}
                       </Badge>
                       <TrendingUp className="h-4 w-4 text-primary" />
-                      <span className="font-medium text-primary">Loan Details</span>
+                      <span className="font-medium text-primary">{t('applyLoan.details.section')}</span>
                     </div>
                     
                     <div className="grid gap-4 md:grid-cols-2">
                       <div className="space-y-3 md:col-span-2">
                         <Label htmlFor="purpose" className="text-base font-medium flex items-center gap-2">
-                          Loan Purpose *
+                          {t('applyLoan.purpose.label')}
                           {purpose && <CheckCircle className="h-4 w-4 text-green-500" />}
                         </Label>
                         <Textarea
                           id="purpose"
-                          placeholder="Describe the purpose of this loan (e.g., business expansion, emergency, education)..."
+                          placeholder={t('applyLoan.purpose.placeholder')}
                           value={purpose}
                           onChange={(e) => setPurpose(e.target.value)}
                           rows={3}
@@ -294,20 +296,20 @@ const ApplyLoanPage = () => {
 
                       <div className="space-y-3">
                         <Label htmlFor="repayment" className="text-base font-medium flex items-center gap-2">
-                          Repayment Period *
+                          {t('applyLoan.period.label')}
                           {repaymentPeriod && <CheckCircle className="h-4 w-4 text-green-500" />}
                         </Label>
                         <Select value={repaymentPeriod} onValueChange={setRepaymentPeriod}>
                           <SelectTrigger className="h-12 bg-white/70 dark:bg-slate-800/70">
                             <Clock className="h-4 w-4 mr-2 text-muted-foreground" />
-                            <SelectValue placeholder="Select period" />
+                            <SelectValue placeholder={t('applyLoan.period.placeholder')} />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="1">1 Month</SelectItem>
-                            <SelectItem value="3">3 Months</SelectItem>
-                            <SelectItem value="6">6 Months</SelectItem>
-                            <SelectItem value="12">12 Months</SelectItem>
-                            <SelectItem value="24">24 Months</SelectItem>
+                            <SelectItem value="1">{t('applyLoan.months', { count: 1 })}</SelectItem>
+                            <SelectItem value="3">{t('applyLoan.months', { count: 3 })}</SelectItem>
+                            <SelectItem value="6">{t('applyLoan.months', { count: 6 })}</SelectItem>
+                            <SelectItem value="12">{t('applyLoan.months', { count: 12 })}</SelectItem>
+                            <SelectItem value="24">{t('applyLoan.months', { count: 24 })}</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
@@ -325,7 +327,7 @@ const ApplyLoanPage = () => {
                       onClick={() => navigate("/loan-management")}
                       className="flex-1 h-12"
                     >
-                      Save as Draft
+                      {t('applyLoan.draft')}
                     </Button>
                     <Button 
                       type="submit" 
@@ -337,12 +339,12 @@ const ApplyLoanPage = () => {
                         {isApplying ? (
                           <>
                             <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
-                            Submitting Application...
+                            {t('applyLoan.submitting')}
                           </>
                         ) : (
                           <>
                             <CreditCard className="h-4 w-4" />
-                            Submit Loan Application
+                            {t('applyLoan.submit')}
                           </>
                         )}
                       </span>
@@ -365,32 +367,32 @@ const ApplyLoanPage = () => {
                       <Calculator className="h-5 w-5 text-primary" />
                     </div>
                     <CardTitle className="text-xl bg-gradient-to-r from-primary to-primary/70 bg-clip-text text-transparent">
-                      Loan Calculator
+                      {t('applyLoan.calc.title')}
                     </CardTitle>
                   </div>
                 </CardHeader>
                 <CardContent className="relative space-y-4">
                   <div className="grid gap-3">
                     <div className="flex justify-between items-center p-3 bg-blue-50/50 dark:bg-blue-900/20 rounded-lg">
-                      <span className="text-sm font-medium text-blue-700 dark:text-blue-300">Loan Amount:</span>
+                      <span className="text-sm font-medium text-blue-700 dark:text-blue-300">{t('applyLoan.calc.amount')}</span>
                       <span className="font-bold text-lg text-blue-900 dark:text-blue-100">
-                        KES {parseFloat(loanAmount).toLocaleString()}
+                        {t('common.amount', { amount: parseFloat(loanAmount) })}
                       </span>
                     </div>
                     
                     <div className="flex justify-between items-center p-3 bg-red-50/50 dark:bg-red-900/20 rounded-lg">
-                      <span className="text-sm font-medium text-red-700 dark:text-red-300">Processing Fee (2%):</span>
+                      <span className="text-sm font-medium text-red-700 dark:text-red-300">{t('applyLoan.calc.fee')}</span>
                       <span className="font-bold text-red-800 dark:text-red-200">
-                        -KES {processingFee.toLocaleString()}
+                        -{t('common.amount', { amount: processingFee })}
                       </span>
                     </div>
                     
                     <Separator />
                     
                     <div className="flex justify-between items-center p-4 bg-gradient-to-r from-green-50 to-emerald-50 dark:from-green-900/20 dark:to-emerald-900/20 rounded-lg border border-green-200/50">
-                      <span className="font-semibold text-green-700 dark:text-green-300">Net Amount Received:</span>
+                      <span className="font-semibold text-green-700 dark:text-green-300">{t('applyLoan.calc.net')}</span>
                       <span className="font-bold text-xl text-green-800 dark:text-green-200">
-                        KES {netAmount.toLocaleString()}
+                        {t('common.amount', { amount: netAmount })}
                       </span>
                     </div>
                     
@@ -399,30 +401,30 @@ const ApplyLoanPage = () => {
                         <Separator />
                         <div className="space-y-3">
                           <div className="flex justify-between items-center p-3 bg-purple-50/50 dark:bg-purple-900/20 rounded-lg">
-                            <span className="text-sm font-medium text-purple-700 dark:text-purple-300">Total Interest:</span>
+                            <span className="text-sm font-medium text-purple-700 dark:text-purple-300">{t('applyLoan.calc.interest')}</span>
                             <span className="font-bold text-purple-800 dark:text-purple-200">
-                              KES {totalInterest.toLocaleString()}
+                              {t('common.amount', { amount: totalInterest })}
                             </span>
                           </div>
                           
                           <div className="flex justify-between items-center p-3 bg-orange-50/50 dark:bg-orange-900/20 rounded-lg">
-                            <span className="text-sm font-medium text-orange-700 dark:text-orange-300">Total Repayment:</span>
+                            <span className="text-sm font-medium text-orange-700 dark:text-orange-300">{t('applyLoan.calc.repayment')}</span>
                             <span className="font-bold text-orange-800 dark:text-orange-200">
-                              KES {totalRepayment.toLocaleString()}
+                              {t('common.amount', { amount: totalRepayment })}
                             </span>
                           </div>
                           
                           <div className="flex justify-between items-center p-4 bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20 rounded-lg border border-blue-200/50">
-                            <span className="font-semibold text-blue-700 dark:text-blue-300">Monthly Payment:</span>
+                            <span className="font-semibold text-blue-700 dark:text-blue-300">{t('applyLoan.calc.monthly')}</span>
                             <span className="font-bold text-xl text-blue-800 dark:text-blue-200">
-                              KES {monthlyPayment.toLocaleString()}
+                              {t('common.amount', { amount: monthlyPayment })}
                             </span>
                           </div>
                           
                           <div className="text-center text-sm text-muted-foreground bg-muted/30 p-3 rounded-lg">
                             <p className="flex items-center justify-center gap-1">
                               <Clock className="h-3 w-3" />
-                              {repaymentPeriod} months • 12.5% annual interest
+                              {t('applyLoan.calc.summary', { count: parseInt(repaymentPeriod), rate: 0.125 })}
                             </p>
                           </div>
                         </div>
@@ -441,18 +443,18 @@ const ApplyLoanPage = () => {
                     <AlertCircle className="h-5 w-5 text-orange-600" />
                   </div>
                   <CardTitle className="text-lg text-orange-800 dark:text-orange-200">
-                    Loan Requirements
+                    {t('applyLoan.req.title')}
                   </CardTitle>
                 </div>
               </CardHeader>
               <CardContent className="space-y-3">
                 <div className="space-y-3">
                   {[
-                    { icon: CheckCircle, text: "Must be an active member of the chama", color: "text-green-600" },
-                    { icon: TrendingUp, text: "Regular contribution history required", color: "text-blue-600" },
-                    { icon: DollarSign, text: "Loan amount subject to chama limits", color: "text-purple-600" },
-                    { icon: Shield, text: "Approval required by chama administrators", color: "text-orange-600" },
-                    { icon: CreditCard, text: "Processing fee applies to all loans", color: "text-red-600" }
+                    { icon: CheckCircle, text: t('applyLoan.req.member'), color: "text-green-600" },
+                    { icon: TrendingUp, text: t('applyLoan.req.history'), color: "text-blue-600" },
+                    { icon: DollarSign, text: t('applyLoan.req.limits'), color: "text-purple-600" },
+                    { icon: Shield, text: t('applyLoan.req.approval'), color: "text-orange-600" },
+                    { icon: CreditCard, text: t('applyLoan.req.fee'), color: "text-red-600" }
                   ].map((req, index) => (
                     <div key={index} className="flex items-start gap-3 p-2 rounded-lg hover:bg-muted/30 transition-colors">
                       <req.icon className={`h-4 w-4 mt-0.5 ${req.color}`} />
@@ -466,13 +468,13 @@ const ApplyLoanPage = () => {
                 <div className="bg-blue-50/50 dark:bg-blue-900/20 p-4 rounded-lg border border-blue-200/30">
                   <div className="flex items-center gap-2 mb-2">
                     <CheckCircle className="h-4 w-4 text-blue-600" />
-                    <span className="font-medium text-blue-800 dark:text-blue-200">Quick Approval Tips</span>
+                    <span className="font-medium text-blue-800 dark:text-blue-200">{t('applyLoan.tips.title')}</span>
                   </div>
                   <ul className="text-xs text-blue-700 dark:text-blue-300 space-y-1 ml-6">
-                    <li>• Provide detailed loan purpose</li>
-                    <li>• Maintain good contribution record</li>
-                    <li>• Offer reasonable collateral</li>
-                    <li>• Choose appropriate repayment period</li>
+                    <li>{t('applyLoan.tips.purpose')}</li>
+                    <li>{t('applyLoan.tips.record')}</li>
+                    <li>{t('applyLoan.tips.collateral')}</li>
+                    <li>{t('applyLoan.tips.period')}</li>
                   </ul>
                 </div>
               </CardContent>
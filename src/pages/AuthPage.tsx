@@ -31,6 +31,7 @@ import SecurityDashboard from '@/components/auth/SecurityDashboard';
 import ComplianceCenter from '@/components/auth/ComplianceCenter';
 import AdminTools from '@/components/auth/AdminTools';
 import { useEnhancedAuth } from '@/hooks/useEnhancedAuth';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 const AuthPage: React.FC = () => {
   const { user, isAdmin } = useAuth();
@@ -38,6 +39,7 @@ const AuthPage: React.FC = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState('profile');
+  const { t } = useLanguage();
 
   // Redirect authenticated users to dashboard
   useEffect(() => {
@@ -47,17 +49,17 @@ const AuthPage: React.FC = () => {
   }, [user, navigate]);
 
   const getVerificationStatus = () => {
-    if (!profile) return { status: 'pending', icon: Clock, color: 'text-gray-500' };
+    if (!profile) return { status: t('profileSettings.kyc.pending'), icon: Clock, color: 'text-gray-500' };
     
     switch (profile.kyc_status) {
       case 'verified':
-        return { status: 'Verified', icon: CheckCircle2, color: 'text-green-600' };
+        return { status: t('profileSettings.kyc.verified'), icon: CheckCircle2, color: 'text-green-600' };
       case 'in_review':
-        return { status: 'Under Review', icon: Clock, color: 'text-blue-600' };
+        return { status: t('profileSettings.kyc.inReview'), icon: Clock, color: 'text-blue-600' };
       case 'rejected':
-        return { status: 'Rejected', icon: AlertTriangle, color: 'text-red-600' };
+        return { status: t('profileSettings.kyc.rejected'), icon: AlertTriangle, color: 'text-red-600' };
       default:
-        return { status: 'Pending', icon: Clock, color: 'text-gray-500' };
+        return { status: t('profileSettings.kyc.pending'), icon: Clock, color: 'text-gray-500' };
     }
   };
 
@@ -82,43 +84,43 @@ const AuthPage: React.FC = () => {
         <div className="hidden lg:flex lg:w-1/2 bg-primary p-12 text-primary-foreground flex-col justify-center">
           <div className="max-w-lg">
             <h1 className="text-4xl font-bold mb-4">
-              Secure Digital Identity
+              {t('auth.hero.title')}
             </h1>
             <p className="text-xl text-primary-foreground/80 mb-8">
-              Complete KYC verification, set up PIN security, and manage your digital financial identity with bank-grade security.
+              {t('auth.hero.subtitle')}
             </p>
             
             <div className="space-y-6">
               {[
                 {
                   icon: Shield,
-                  title: "Enhanced Security",
-                  description: "Multi-layer security with PIN, biometrics, and fraud detection"
+                  title: t('auth.feature.security'),
+                  description: t('auth.feature.security.desc')
                 },
                 {
                   icon: FileCheck,
-                  title: "KYC Verification",
-                  description: "Secure document verification for higher transaction limits"
+                  title: t('auth.feature.kyc'),
+                  description: t('auth.feature.kyc.desc')
                 },
                 {
                   icon: UserCheck,
-                  title: "Identity Management",
-                  description: "Complete profile management with privacy controls"
+                  title: t('auth.feature.identity'),
+                  description: t('auth.feature.identity.desc')
                 },
                 {
                   icon: Award,
-                  title: "Verified Benefits",
-                  description: "Access premium features with verified account status"
+                  title: t('auth.feature.benefits'),
+                  description: t('auth.feature.benefits.desc')
                 },
                 {
                   icon: Activity,
-                  title: "Real-time Monitoring",
-                  description: "24/7 fraud detection and suspicious activity alerts"
+                  title: t('auth.feature.monitoring'),
+                  description: t('auth.feature.monitoring.desc')
                 },
                 {
                   icon: Lock,
-                  title: "Compliance Ready",
-                  description: "GDPR compliant with full audit trails and data protection"
+                  title: t('auth.feature.compliance'),
+                  description: t('auth.feature.compliance.desc')
                 }
               ].map((feature, index) => (
                 <div key={index} className="flex items-start space-x-4">
@@ -136,15 +138,15 @@ const AuthPage: React.FC = () => {
             <div className="mt-12 p-6 bg-primary-foreground/10 rounded-lg backdrop-blur-sm border border-primary-foreground/20">
               <div className="flex items-center space-x-2 mb-3">
                 <CheckCircle2 className="h-5 w-5 text-primary-foreground" />
-                <span className="font-semibold">Bank-grade security standards</span>
+                <span className="font-semibold">{t('auth.hero.bankGrade')}</span>
               </div>
               <div className="flex items-center space-x-2 mb-3">
                 <CheckCircle2 className="h-5 w-5 text-primary-foreground" />
-                <span className="font-semibold">GDPR compliant data protection</span>
+                <span className="font-semibold">{t('auth.hero.gdpr')}</span>
               </div>
               <div className="flex items-center space-x-2">
                 <CheckCircle2 className="h-5 w-5 text-primary-foreground" />
-                <span className="font-semibold">24/7 fraud monitoring</span>
+                <span className="font-semibold">{t('auth.hero.monitoring')}</span>
               </div>
             </div>
           </div>
@@ -158,7 +160,7 @@ const AuthPage: React.FC = () => {
                 ChamaVault
               </div>
               <p className="text-muted-foreground">
-                Secure authentication and identity management
+                {t('auth.tagline')}
               </p>
             </div>
 
@@ -174,7 +176,7 @@ const AuthPage: React.FC = () => {
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
-          <p className="mt-4 text-muted-foreground">Loading your profile...</p>
+          <p className="mt-4 text-muted-foreground">{t('profileSettings.loading')}</p>
         </div>
       </div>
     );
@@ -191,15 +193,15 @@ const AuthPage: React.FC = () => {
         <div className="mb-6 sm:mb-8">
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
             <div>
-              <h1 className="text-2xl sm:text-3xl font-bold text-foreground">Identity & Security Center</h1>
+              <h1 className="text-2xl sm:text-3xl font-bold text-foreground">{t('auth.center.title')}</h1>
               <p className="text-muted-foreground mt-1 text-sm sm:text-base">
-                Manage your profile, security settings, and verification status
+                {t('profileSettings.subtitle')}
               </p>
             </div>
             <Button onClick={() => navigate('/dashboard')} variant="outline" className="self-start sm:self-auto">
               <ChevronRight className="h-4 w-4 mr-2" />
-              <span className="hidden sm:inline">Go to Dashboard</span>
-              <span className="sm:hidden">Dashboard</span>
+              <span className="hidden sm:inline">{t('auth.center.dashboard')}</span>
+              <span className="sm:hidden">{t('chamaWorkspace.tabs.dashboard')}</span>
             </Button>
           </div>
         </div>
@@ -213,8 +215,8 @@ const AuthPage: React.FC = () => {
                   <User className="h-5 w-5 text-blue-600" />
                 </div>
                 <div>
-                  <p className="text-sm text-muted-foreground">Profile</p>
-                  <p className="text-lg font-semibold">{profileCompletion}% Complete</p>
+                  <p className="text-sm text-muted-foreground">{t('profileSettings.tabs.profile')}</p>
+                  <p className="text-lg font-semibold">{t('profileSettings.completion', { percent: profileCompletion })}</p>
                 </div>
               </div>
             </CardContent>
@@ -227,7 +229,7 @@ const AuthPage: React.FC = () => {
                   <verificationStatus.icon className={`h-5 w-5 ${verificationStatus.color}`} />
                 </div>
                 <div>
-                  <p className="text-sm text-muted-foreground">KYC Status</p>
+                  <p className="text-sm text-muted-foreground">{t('profileSettings.kycStatus')}</p>
                   <p className="text-lg font-semibold">{verificationStatus.status}</p>
                 </div>
               </div>
@@ -241,7 +243,7 @@ const AuthPage: React.FC = () => {
                   <Shield className="h-5 w-5 text-purple-600" />
                 </div>
                 <div>
-                  <p className="text-sm text-muted-foreground">Security Score</p>
+                  <p className="text-sm text-muted-foreground">{t('profileSettings.securityScore')}</p>
                   <p className="text-lg font-semibold">{securityScore}/100</p>
                 </div>
               </div>
@@ -255,8 +257,8 @@ const AuthPage: React.FC = () => {
                   <CreditCard className="h-5 w-5 text-yellow-600" />
                 </div>
                 <div>
-                  <p className="text-sm text-muted-foreground">Daily Limit</p>
-                  <p className="text-lg font-semibold">KES {benefits.maxDaily.toLocaleString()}</p>
+                  <p className="text-sm text-muted-foreground">{t('auth.dailyLimit')}</p>
+                  <p className="text-lg font-semibold">{t('common.amount', { amount: benefits.maxDaily })}</p>
                 </div>
               </div>
             </CardContent>
@@ -268,23 +270,23 @@ const AuthPage: React.FC = () => {
           <TabsList className="grid w-full grid-cols-2 sm:grid-cols-3 lg:grid-cols-5">
             <TabsTrigger value="profile" className="flex items-center gap-2">
               <User className="h-4 w-4" />
-              <span className="hidden sm:inline">Profile</span>
+              <span className="hidden sm:inline">{t('profileSettings.tabs.profile')}</span>
             </TabsTrigger>
             <TabsTrigger value="kyc" className="flex items-center gap-2">
               <FileCheck className="h-4 w-4" />
-              <span className="hidden sm:inline">KYC</span>
+              <span className="hidden sm:inline">{t('profileSettings.tabs.kyc')}</span>
             </TabsTrigger>
             <TabsTrigger value="security" className="flex items-center gap-2">
               <Shield className="h-4 w-4" />
-              <span className="hidden sm:inline">Security</span>
+              <span className="hidden sm:inline">{t('profileSettings.tabs.security')}</span>
             </TabsTrigger>
             <TabsTrigger value="pin" className="flex items-center gap-2">
               <Lock className="h-4 w-4" />
-              <span className="hidden sm:inline">PIN</span>
+              <span className="hidden sm:inline">{t('profileSettings.tabs.pin')}</span>
             </TabsTrigger>
             <TabsTrigger value="compliance" className="flex items-center gap-2">
               <Eye className="h-4 w-4" />
-              <span className="hidden sm:inline">Legal</span>
+              <span className="hidden sm:inline">{t('profileSettings.tabs.legal')}</span>
             </TabsTrigger>
           </TabsList>
 
@@ -14,9 +14,11 @@ import { Label } from "@/components/ui/label";
 import { useAvailableChamasToJoin } from '@/hooks/useChamasData';
 import { JoinChamaModal } from '@/components/chama/JoinChamaModal';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useLanguage } from '@/contexts/LanguageContext';
 
 const AvailableChamasPage: React.FC = () => {
   const { toast } = useToast();
+  const { t } = useLanguage();
   const navigate = useNavigate();
   const { stkPushMutation, isProcessingPayment } = useMpesaIntegration();
   const { data: marketplaceChamas, isLoading: loadingMarketplace } = useMarketplaceChamas();
@@ -42,8 +44,8 @@ const AvailableChamasPage: React.FC = () => {
   const handlePayment = async () => {
     if (!selectedChama || !phoneNumber) {
       toast({
-        title: "Missing Information",
-        description: "Phone number is required for payment",
+        title: t('availableChamas.missingInfo'),
+        description: t('availableChamas.missingInfo.desc'),
         variant: "destructive",
       });
       return;
@@ -54,7 +56,7 @@ const AvailableChamasPage: React.FC = () => {
       await stkPushMutation.mutateAsync({
         phoneNumber: phoneNumber,
         amount: selectedChama.purchase_amount,
-        description: `Purchase ${selectedChama.name}`,
+        description: t('availableChamas.purchase.description', { name: selectedChama.name }),
         purpose: 'registration',
         chamaId: selectedChama.id
       });
@@ -86,24 +88,24 @@ const AvailableChamasPage: React.FC = () => {
       <div className="container mx-auto px-4 py-8">
         <div className="mb-8">
           <h1 className="text-4xl font-bold mb-4 bg-gradient-to-r from-primary to-primary/60 bg-clip-text text-transparent">
-            Available Chamas
+            {t('availableChamas.title')}
           </h1>
           <p className="text-lg text-muted-foreground">
-            Browse and join active chamas or purchase pre-made marketplace chamas.
+            {t('availableChamas.subtitle')}
           </p>
         </div>
 
         <Tabs defaultValue="regular" className="w-full">
           <TabsList className="grid w-full max-w-md grid-cols-2">
-            <TabsTrigger value="regular">Regular Chamas</TabsTrigger>
-            <TabsTrigger value="marketplace">Marketplace</TabsTrigger>
+            <TabsTrigger value="regular">{t('availableChamas.tabs.regular')}</TabsTrigger>
+            <TabsTrigger value="marketplace">{t('availableChamas.tabs.marketplace')}</TabsTrigger>
           </TabsList>
 
           {/* Regular Chamas Tab */}
           <TabsContent value="regular" className="mt-6">
             {loadingRegular ? (
               <div className="text-center py-12">
-                <p className="text-muted-foreground">Loading chamas...</p>
+                <p className="text-muted-foreground">{t('availableChamas.loading')}</p>
               </div>
             ) : regularChamas && regularChamas.length > 0 ? (
               <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
@@ -113,29 +115,29 @@ const AvailableChamasPage: React.FC = () => {
                       <div className="flex items-center justify-between mb-2">
                         <Users className="h-8 w-8 text-primary" />
                         <Badge variant="secondary">
-                          {chama.current_members}/{chama.max_members} Members
+                          {t('availableChamas.members', { current: chama.current_members, max: chama.max_members })}
                         </Badge>
                       </div>
                       <CardTitle className="text-xl">{chama.name}</CardTitle>
                       <CardDescription className="line-clamp-2">
-                        {chama.description || 'No description available'}
+                        {chama.description || t('availableChamas.noDescription')}
                       </CardDescription>
                     </CardHeader>
                     
                     <CardContent className="space-y-4">
                       <div className="space-y-2">
                         <div className="flex items-center justify-between text-sm">
-                          <span className="text-muted-foreground">Monthly Contribution:</span>
-                          <span className="font-semibold">KES {chama.contribution_amount?.toLocaleString()}</span>
+                          <span className="text-muted-foreground">{t('availableChamas.contribution')}</span>
+                          <span className="font-semibold">{t('common.amount', { amount: chama.contribution_amount, currency: chama.currency })}</span>
                         </div>
                         <div className="flex items-center justify-between text-sm">
-                          <span className="text-muted-foreground">Frequency:</span>
-                          <span className="font-semibold capitalize">{chama.contribution_frequency}</span>
+                          <span className="text-muted-foreground">{t('availableChamas.frequencyLabel')}</span>
+                          <span className="font-semibold">{t('availableChamas.frequency', { frequency: chama.contribution_frequency })}</span>
                         </div>
                         <div className="flex items-center justify-between text-sm">
-                          <span className="text-muted-foreground">Status:</span>
+                          <span className="text-muted-foreground">{t('availableChamas.statusLabel')}</span>
                           <Badge variant={chama.status === 'active' ? 'default' : 'secondary'}>
-                            {chama.status}
+                            {t('availableChamas.status', { status: chama.status })}
                           </Badge>
                         </div>
                       </div>
@@ -146,7 +148,7 @@ const AvailableChamasPage: React.FC = () => {
                         disabled={chama.current_members >= chama.max_members}
                       >
                         <UserPlus className="h-4 w-4 mr-2" />
-                        {chama.current_members >= chama.max_members ? 'Full' : 'Join Chama'}
+                        {chama.current_members >= chama.max_members ? t('availableChamas.full') : t('availableChamas.join')}
                       </Button>
                     </CardContent>
                   </Card>
@@ -155,9 +157,9 @@ const AvailableChamasPage: React.FC = () => {
             ) : (
               <div className="text-center py-12">
                 <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                <h3 className="text-lg font-semibold mb-2">No Chamas Available</h3>
+                <h3 className="text-lg font-semibold mb-2">{t('availableChamas.empty')}</h3>
                 <p className="text-muted-foreground">
-                  No active chamas to join right now. Check the marketplace or create your own!
+                  {t('availableChamas.empty.regular')}
                 </p>
               </div>
             )}
@@ -167,7 +169,7 @@ const AvailableChamasPage: React.FC = () => {
           <TabsContent value="marketplace" className="mt-6">
             {loadingMarketplace ? (
               <div className="text-center py-12">
-                <p className="text-muted-foreground">Loading marketplace chamas...</p>
+                <p className="text-muted-foreground">{t('availableChamas.loadingMarketplace')}</p>
               </div>
             ) : marketplaceChamas && marketplaceChamas.length > 0 ? (
               <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
@@ -176,7 +178,7 @@ const AvailableChamasPage: React.FC = () => {
                 <CardHeader>
                   <div className="flex items-center justify-between mb-2">
                     <Package className="h-8 w-8 text-primary" />
-                    <Badge variant="secondary">{chama.max_members} Members</Badge>
+                    <Badge variant="secondary">{t('availableChamas.maxMembersBadge', { max: chama.max_members })}</Badge>
                   </div>
                   <CardTitle className="text-xl">{chama.name}</CardTitle>
                   <CardDescription className="line-clamp-2">{chama.description}</CardDescription>
@@ -186,19 +188,19 @@ const AvailableChamasPage: React.FC = () => {
                   <div className="space-y-2">
                     <div className="flex items-center gap-2 text-sm text-muted-foreground">
                       <Users className="h-4 w-4" />
-                      <span>Max Members: {chama.max_members}</span>
+                      <span>{t('availableChamas.maxMembers')} {chama.max_members}</span>
                     </div>
                     <div className="flex items-center gap-2 text-sm text-muted-foreground">
                       <ShoppingCart className="h-4 w-4" />
-                      <span>Monthly Contribution: KES {chama.contribution_amount?.toLocaleString()}</span>
+                      <span>{t('availableChamas.monthlyContribution')} {t('common.amount', { amount: chama.contribution_amount })}</span>
                     </div>
                   </div>
 
                   <div className="pt-4 border-t">
                     <div className="flex justify-between items-center mb-4">
-                      <span className="text-sm font-medium">Purchase Price:</span>
+                      <span className="text-sm font-medium">{t('availableChamas.price')}</span>
                       <span className="text-2xl font-bold text-primary">
-                        KES {chama.purchase_amount}
+                        {t('common.amount', { amount: chama.purchase_amount })}
                       </span>
                     </div>
                     <Button 
@@ -206,7 +208,7 @@ const AvailableChamasPage: React.FC = () => {
                       onClick={() => handlePurchaseChama(chama)}
                       disabled={purchaseMutation.isPending || isProcessingPayment}
                     >
-                      Purchase Chama
+                      {t('availableChamas.purchase')}
                     </Button>
                   </div>
                 </CardContent>
@@ -216,9 +218,9 @@ const AvailableChamasPage: React.FC = () => {
             ) : (
               <div className="text-center py-12">
                 <Package className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                <h3 className="text-lg font-semibold mb-2">No Chamas Available</h3>
+                <h3 className="text-lg font-semibold mb-2">{t('availableChamas.empty')}</h3>
                 <p className="text-muted-foreground">
-                  All marketplace chamas have been purchased. Check back later!
+                  {t('availableChamas.empty.marketplace')}
                 </p>
               </div>
             )}
@@ -229,30 +231,30 @@ const AvailableChamasPage: React.FC = () => {
         <Dialog open={showPaymentDialog} onOpenChange={setShowPaymentDialog}>
           <DialogContent>
             <DialogHeader>
-              <DialogTitle>Purchase Chama</DialogTitle>
+              <DialogTitle>{t('availableChamas.purchase')}</DialogTitle>
               <DialogDescription>
-                Pay KES {selectedChama?.purchase_amount} to purchase {selectedChama?.name}
+                {t('availableChamas.purchase.desc', { amount: selectedChama?.purchase_amount, name: selectedChama?.name })}
               </DialogDescription>
             </DialogHeader>
             
             <div className="space-y-6">
               <div className="bg-primary/10 p-4 rounded-lg space-y-2">
                 <div className="flex items-center justify-between">
-                  <span className="text-sm font-medium">Chama:</span>
+                  <span className="text-sm font-medium">{t('schedulePayment.summary.chama')}</span>
                   <span className="font-bold">{selectedChama?.name}</span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span className="text-sm font-medium">Max Members:</span>
+                  <span className="text-sm font-medium">{t('availableChamas.maxMembers')}</span>
                   <span className="font-bold">{selectedChama?.max_members}</span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span className="text-sm font-medium">Purchase Price:</span>
-                  <span className="font-bold text-lg text-primary">KES {selectedChama?.purchase_amount}</span>
+                  <span className="text-sm font-medium">{t('availableChamas.price')}</span>
+                  <span className="font-bold text-lg text-primary">{t('common.amount', { amount: selectedChama?.purchase_amount })}</span>
                 </div>
               </div>
 
               <div>
-                <Label htmlFor="phoneNumber">M-Pesa Phone Number</Label>
+                <Label htmlFor="phoneNumber">{t('availableChamas.phone')}</Label>
                 <Input
                   id="phoneNumber"
                   value={phoneNumber}
@@ -268,7 +270,7 @@ const AvailableChamasPage: React.FC = () => {
                 disabled={isProcessingPayment || purchaseMutation.isPending || !phoneNumber}
                 size="lg"
               >
-                {isProcessingPayment || purchaseMutation.isPending ? 'Processing...' : 'Pay with M-Pesa'}
+                {isProcessingPayment || purchaseMutation.isPending ? t('availableChamas.processing') : t('availableChamas.payMpesa')}
               </Button>
             </div>
           </DialogContent>
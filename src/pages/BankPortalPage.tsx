@@ -21,6 +21,7 @@ import {
 } from 'lucide-react';
 import Navigation from '@/components/Navigation';
 import { useAuth } from '@/hooks/useAuth';
+import { useLanguage } from '@/contexts/LanguageContext';
 import AdminLogin from '@/components/AdminLogin';
 import BankLoanMarketplace from '@/components/bank/BankLoanMarketplace';
 import BankBorrowerVerification from '@/components/bank/BankBorrowerVerification';
@@ -33,6 +34,7 @@ const BankPortalPage: React.FC = () => {
   const { user } = useAuth();
   const [activeTab, setActiveTab] = useState('overview');
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const { t } = useLanguage();
 
   const handleLogin = (role: 'admin' | 'bank') => {
     setIsAuthenticated(true);
@@ -58,14 +60,14 @@ const BankPortalPage: React.FC = () => {
       <div className="container mx-auto px-4 py-8">
         <div className="mb-6">
           <h1 className="text-2xl md:text-4xl font-bold tracking-tight bg-gradient-to-r from-blue-600 via-indigo-600 to-purple-600 bg-clip-text text-transparent">
-            Bank Partner Portal
+            {t('bankPortal.title')}
           </h1>
           <p className="text-muted-foreground mt-2 text-sm md:text-base">
-            Access verified borrowers and fund impactful loans
+            {t('bankPortal.subtitle')}
           </p>
           <Badge variant="secondary" className="mt-2">
             <Building2 className="h-3 w-3 mr-1" />
-            Verified Partner
+            {t('bankPortal.verified')}
           </Badge>
         </div>
 
@@ -73,67 +75,67 @@ const BankPortalPage: React.FC = () => {
         <div className="grid gap-4 grid-cols-2 md:grid-cols-3 lg:grid-cols-6 mb-8">
           <Card className="border-0 shadow-lg bg-gradient-to-br from-blue-50 to-blue-100">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Available Loans</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('bankPortal.stats.availableLoans')}</CardTitle>
               <Target className="h-4 w-4 text-blue-600" />
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-blue-700">{bankStats.availableLoans}</div>
-              <p className="text-xs text-blue-600">Ready to fund</p>
+              <p className="text-xs text-blue-600">{t('bankPortal.stats.availableLoans.hint')}</p>
             </CardContent>
           </Card>
 
           <Card className="border-0 shadow-lg bg-gradient-to-br from-green-50 to-green-100">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Funded Amount</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('bankPortal.stats.funded')}</CardTitle>
               <DollarSign className="h-4 w-4 text-green-600" />
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-green-700">KES {(bankStats.fundedAmount / 1000000).toFixed(1)}M</div>
-              <p className="text-xs text-green-600">Total disbursed</p>
+              <p className="text-xs text-green-600">{t('bankPortal.stats.funded.hint')}</p>
             </CardContent>
           </Card>
 
           <Card className="border-0 shadow-lg bg-gradient-to-br from-purple-50 to-purple-100">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Active Investments</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('bankPortal.stats.investments')}</CardTitle>
               <TrendingUp className="h-4 w-4 text-purple-600" />
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-purple-700">{bankStats.activeInvestments}</div>
-              <p className="text-xs text-purple-600">Performing loans</p>
+              <p className="text-xs text-purple-600">{t('bankPortal.stats.investments.hint')}</p>
             </CardContent>
           </Card>
 
           <Card className="border-0 shadow-lg bg-gradient-to-br from-orange-50 to-orange-100">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Impact Reach</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('bankPortal.stats.reach')}</CardTitle>
               <Users className="h-4 w-4 text-orange-600" />
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-orange-700">{bankStats.impactReach.toLocaleString()}</div>
-              <p className="text-xs text-orange-600">Lives impacted</p>
+              <p className="text-xs text-orange-600">{t('bankPortal.stats.reach.hint')}</p>
             </CardContent>
           </Card>
 
           <Card className="border-0 shadow-lg bg-gradient-to-br from-teal-50 to-teal-100">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Avg. Return</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('bankPortal.stats.avgReturn')}</CardTitle>
               <BarChart3 className="h-4 w-4 text-teal-600" />
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-teal-700">{bankStats.avgReturn}%</div>
-              <p className="text-xs text-teal-600">Annual return</p>
+              <p className="text-xs text-teal-600">{t('bankPortal.stats.avgReturn.hint')}</p>
             </CardContent>
           </Card>
 
           <Card className="border-0 shadow-lg bg-gradient-to-br from-indigo-50 to-indigo-100">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Verified Borrowers</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('bankPortal.stats.borrowers')}</CardTitle>
               <CheckCircle className="h-4 w-4 text-indigo-600" />
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-indigo-700">{bankStats.verifiedBorrowers.toLocaleString()}</div>
-              <p className="text-xs text-indigo-600">KYC verified</p>
+              <p className="text-xs text-indigo-600">{t('bankPortal.stats.borrowers.hint')}</p>
             </CardContent>
           </Card>
         </div>
@@ -142,31 +144,31 @@ const BankPortalPage: React.FC = () => {
           <TabsList className="grid w-full grid-cols-4 md:grid-cols-7 bg-white/50 backdrop-blur-sm mb-6 overflow-x-auto">
             <TabsTrigger value="overview" className="flex items-center gap-1">
               <BarChart3 className="h-3 w-3" />
-              <span className="hidden sm:inline">Overview</span>
+              <span className="hidden sm:inline">{t('bankPortal.tabs.overview')}</span>
             </TabsTrigger>
             <TabsTrigger value="marketplace" className="flex items-center gap-1">
               <Target className="h-3 w-3" />
-              <span className="hidden sm:inline">Loans</span>
+              <span className="hidden sm:inline">{t('bankPortal.tabs.loans')}</span>
             </TabsTrigger>
             <TabsTrigger value="verification" className="flex items-center gap-1">
               <Eye className="h-3 w-3" />
-              <span className="hidden sm:inline">Verify</span>
+              <span className="hidden sm:inline">{t('bankPortal.tabs.verify')}</span>
             </TabsTrigger>
             <TabsTrigger value="compliance" className="flex items-center gap-1">
               <Shield className="h-3 w-3" />
-              <span className="hidden sm:inline">KYC</span>
+              <span className="hidden sm:inline">{t('bankPortal.tabs.kyc')}</span>
             </TabsTrigger>
             <TabsTrigger value="impact" className="flex items-center gap-1">
               <Globe className="h-3 w-3" />
-              <span className="hidden sm:inline">Impact</span>
+              <span className="hidden sm:inline">{t('bankPortal.tabs.impact')}</span>
             </TabsTrigger>
             <TabsTrigger value="api" className="flex items-center gap-1">
               <Zap className="h-3 w-3" />
-              <span className="hidden sm:inline">API</span>
+              <span className="hidden sm:inline">{t('bankPortal.tabs.api')}</span>
             </TabsTrigger>
             <TabsTrigger value="audit" className="flex items-center gap-1">
               <Lock className="h-3 w-3" />
-              <span className="hidden sm:inline">Audit</span>
+              <span className="hidden sm:inline">{t('bankPortal.tabs.audit')}</span>
             </TabsTrigger>
           </TabsList>
 
@@ -12,6 +12,7 @@ import { Slider } from "@/components/ui/slider";
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import Navigation from '@/components/Navigation';
+import { useLanguage } from '@/contexts/LanguageContext';
 import { 
   Shield, 
   TrendingUp, 
@@ -28,6 +29,7 @@ import {
 const BlockchainLendingPage = () => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { t } = useLanguage();
   const [loanAmount, setLoanAmount] = useState('');
   const [collateralAsset, setCollateralAsset] = useState('BTC');
   const [loanTerm, setLoanTerm] = useState(30);
@@ -93,16 +95,16 @@ const BlockchainLendingPage = () => {
   const handleApplyLoan = () => {
     if (!loanAmount || !collateralAsset) {
       toast({
-        title: "Missing Information",
-        description: "Please fill in all required fields",
+        title: t('blockLending.missingInfo'),
+        description: t('blockLending.missingInfo.desc'),
         variant: "destructive"
       });
       return;
     }
 
     toast({
-      title: "Loan Application Submitted! 🚀",
-      description: `Your collateralized loan for KES ${parseFloat(loanAmount).toLocaleString()} is being processed`,
+      title: t('blockLending.submitted'),
+      description: t('blockLending.submitted.desc', { amount: parseFloat(loanAmount) }),
     });
   };
 
@@ -111,15 +113,15 @@ const BlockchainLendingPage = () => {
       <Navigation />
       <div className="container mx-auto px-4 py-8">
         <div className="mb-8">
-          <h1 className="text-3xl font-bold mb-2">Blockchain Lending</h1>
-          <p className="text-muted-foreground">Secure loans backed by cryptocurrency collateral</p>
+          <h1 className="text-3xl font-bold mb-2">{t('blockLending.title')}</h1>
+          <p className="text-muted-foreground">{t('blockLending.subtitle')}</p>
         </div>
 
         <Tabs defaultValue="borrow" className="space-y-6">
           <TabsList className="grid w-full grid-cols-3">
-            <TabsTrigger value="borrow">Borrow</TabsTrigger>
-            <TabsTrigger value="lend">Lend</TabsTrigger>
-            <TabsTrigger value="portfolio">My Portfolio</TabsTrigger>
+            <TabsTrigger value="borrow">{t('blockLending.tabs.borrow')}</TabsTrigger>
+            <TabsTrigger value="lend">{t('blockLending.tabs.lend')}</TabsTrigger>
+            <TabsTrigger value="portfolio">{t('blockLending.tabs.portfolio')}</TabsTrigger>
           </TabsList>
 
           <TabsContent value="borrow" className="space-y-6">
@@ -129,23 +131,23 @@ const BlockchainLendingPage = () => {
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <Coins className="w-5 h-5" />
-                    Apply for Collateralized Loan
+                    {t('blockLending.apply.title')}
                   </CardTitle>
-                  <CardDescription>Borrow against your crypto assets</CardDescription>
+                  <CardDescription>{t('blockLending.apply.desc')}</CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-6">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div>
-                      <Label>Loan Amount (KES)</Label>
+                      <Label>{t('blockLending.loanAmount')}</Label>
                       <Input 
                         type="number" 
-                        placeholder="Enter amount"
+                        placeholder={t('blockLending.enterAmount')}
                         value={loanAmount}
                         onChange={(e) => setLoanAmount(e.target.value)}
                       />
                     </div>
                     <div>
-                      <Label>Collateral Asset</Label>
+                      <Label>{t('blockLending.collateralAsset')}</Label>
                       <Select value={collateralAsset} onValueChange={setCollateralAsset}>
                         <SelectTrigger>
                           <SelectValue />
@@ -163,8 +165,8 @@ const BlockchainLendingPage = () => {
 
                   <div>
                     <div className="flex justify-between items-center mb-2">
-                      <Label>Loan-to-Value Ratio: {ltv[0]}%</Label>
-                      <Badge variant="outline">Max: {collateralAssets.find(a => a.symbol === collateralAsset)?.maxLTV || 70}%</Badge>
+                      <Label>{t('blockLending.ltv', { ltv: ltv[0] })}</Label>
+                      <Badge variant="outline">{t('blockLending.maxLtv', { ltv: collateralAssets.find(a => a.symbol === collateralAsset)?.maxLTV || 70 })}</Badge>
                     </div>
                     <Slider
                       value={ltv}
@@ -177,23 +179,23 @@ const BlockchainLendingPage = () => {
                   </div>
 
                   <div>
-                    <Label>Loan Term (Days)</Label>
+                    <Label>{t('blockLending.term')}</Label>
                     <Select value={loanTerm.toString()} onValueChange={(value) => setLoanTerm(parseInt(value))}>
                       <SelectTrigger>
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="30">30 Days</SelectItem>
-                        <SelectItem value="60">60 Days</SelectItem>
-                        <SelectItem value="90">90 Days</SelectItem>
-                        <SelectItem value="180">180 Days</SelectItem>
-                        <SelectItem value="365">365 Days</SelectItem>
+                        <SelectItem value="30">{t('blockLending.days', { count: 30 })}</SelectItem>
+                        <SelectItem value="60">{t('blockLending.days', { count: 60 })}</SelectItem>
+                        <SelectItem value="90">{t('blockLending.days', { count: 90 })}</SelectItem>
+                        <SelectItem value="180">{t('blockLending.days', { count: 180 })}</SelectItem>
+                        <SelectItem value="365">{t('blockLending.days', { count: 365 })}</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
 
                   <Button onClick={handleApplyLoan} className="w-full">
-                    Apply for Loan
+                    {t('blockLending.applyLoan')}
                   </Button>
                 </CardContent>
               </Card>
@@ -203,37 +205,37 @@ const BlockchainLendingPage = () => {
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <Calculator className="w-5 h-5" />
-                    Loan Calculator
+                    {t('blockLending.calculator')}
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   {loanAmount && collateralAsset && (
                     <>
                       <div className="p-3 bg-muted rounded-lg">
-                        <div className="text-sm text-muted-foreground mb-1">Collateral Required</div>
+                        <div className="text-sm text-muted-foreground mb-1">{t('blockLending.collateralRequired')}</div>
                         <div className="font-semibold">
                           {calculateCollateralNeeded().toFixed(6)} {collateralAsset}
                         </div>
                       </div>
 
                       <div className="p-3 bg-muted rounded-lg">
-                        <div className="text-sm text-muted-foreground mb-1">Liquidation Price</div>
+                        <div className="text-sm text-muted-foreground mb-1">{t('blockLending.liquidationPrice')}</div>
                         <div className="font-semibold text-red-600">
-                          KES {calculateLiquidationPrice().toLocaleString()}
+                          {t('common.amount', { amount: calculateLiquidationPrice() })}
                         </div>
                       </div>
 
                       <div className="p-3 bg-muted rounded-lg">
-                        <div className="text-sm text-muted-foreground mb-1">Interest Rate</div>
+                        <div className="text-sm text-muted-foreground mb-1">{t('blockLending.interestRate')}</div>
                         <div className="font-semibold text-green-600">
-                          {collateralAssets.find(a => a.symbol === collateralAsset)?.apy || 0}% APY
+                          {t('blockLending.apy', { apy: collateralAssets.find(a => a.symbol === collateralAsset)?.apy || 0 })}
                         </div>
                       </div>
 
                       <div className="p-3 bg-muted rounded-lg">
-                        <div className="text-sm text-muted-foreground mb-1">Total Repayment</div>
+                        <div className="text-sm text-muted-foreground mb-1">{t('blockLending.totalRepayment')}</div>
                         <div className="font-semibold">
-                          KES {(parseFloat(loanAmount) * (1 + ((collateralAssets.find(a => a.symbol === collateralAsset)?.apy || 0) / 100) * (loanTerm / 365))).toLocaleString()}
+                          {t('common.amount', { amount: parseFloat(loanAmount) * (1 + ((collateralAssets.find(a => a.symbol === collateralAsset)?.apy || 0) / 100) * (loanTerm / 365)) })}
                         </div>
                       </div>
                     </>
@@ -251,28 +253,28 @@ const BlockchainLendingPage = () => {
                     <CardTitle className="flex items-center justify-between">
                       {pool.name}
                       <Badge variant={pool.riskScore === 'Low' ? 'default' : 'secondary'}>
-                        {pool.riskScore} Risk
+                        {t('blockLending.risk', { risk: pool.riskScore })}
                       </Badge>
                     </CardTitle>
                     <CardDescription>
-                      Earn {pool.apy}% APY by providing liquidity
+                      {t('blockLending.pool.desc', { apy: pool.apy })}
                     </CardDescription>
                   </CardHeader>
                   <CardContent className="space-y-4">
                     <div className="grid grid-cols-2 gap-4">
                       <div>
-                        <div className="text-sm text-muted-foreground">Total Value</div>
-                        <div className="font-semibold">KES {pool.totalValue.toLocaleString()}</div>
+                        <div className="text-sm text-muted-foreground">{t('blockLending.totalValue')}</div>
+                        <div className="font-semibold">{t('common.amount', { amount: pool.totalValue })}</div>
                       </div>
                       <div>
-                        <div className="text-sm text-muted-foreground">Available</div>
-                        <div className="font-semibold">KES {pool.availableLiquidity.toLocaleString()}</div>
+                        <div className="text-sm text-muted-foreground">{t('blockLending.available')}</div>
+                        <div className="font-semibold">{t('common.amount', { amount: pool.availableLiquidity })}</div>
                       </div>
                     </div>
 
                     <div>
                       <div className="flex justify-between text-sm mb-2">
-                        <span>Utilization</span>
+                        <span>{t('blockLending.utilization')}</span>
                         <span>{pool.utilization}%</span>
                       </div>
                       <Progress value={pool.utilization} className="h-2" />
@@ -280,10 +282,10 @@ const BlockchainLendingPage = () => {
 
                     <div className="flex gap-2">
                       <Button className="flex-1">
-                        Deposit
+                        {t('blockLending.deposit')}
                       </Button>
                       <Button variant="outline" className="flex-1">
-                        View Details
+                        {t('blockLending.viewDetails')}
                       </Button>
                     </div>
                   </CardContent>
@@ -297,7 +299,7 @@ const BlockchainLendingPage = () => {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Wallet className="w-5 h-5" />
-                  My Active Loans
+                  {t('blockLending.myLoans')}
                 </CardTitle>
               </CardHeader>
               <CardContent>
@@ -308,47 +310,47 @@ const BlockchainLendingPage = () => {
                         <div className="flex items-center justify-between mb-4">
                           <div>
                             <div className="font-semibold">
-                              KES {loan.amount.toLocaleString()} Loan
+                              {t('blockLending.loanTitle', { amount: loan.amount })}
                             </div>
                             <div className="text-sm text-muted-foreground">
-                              Collateral: {loan.collateralAmount} {loan.collateralAsset}
+                              {t('blockLending.collateral', { amount: loan.collateralAmount, asset: loan.collateralAsset })}
                             </div>
                           </div>
                           <Badge variant={loan.status === 'active' ? 'default' : 'secondary'}>
-                            {loan.status}
+                            {t('blockLending.status', { status: loan.status })}
                           </Badge>
                         </div>
 
                         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
                           <div>
-                            <div className="text-sm text-muted-foreground">Current LTV</div>
+                            <div className="text-sm text-muted-foreground">{t('blockLending.currentLtv')}</div>
                             <div className="font-semibold">{loan.currentLTV}%</div>
                           </div>
                           <div>
-                            <div className="text-sm text-muted-foreground">Interest Rate</div>
+                            <div className="text-sm text-muted-foreground">{t('blockLending.interestRate')}</div>
                             <div className="font-semibold">{loan.interestRate}%</div>
                           </div>
                           <div>
-                            <div className="text-sm text-muted-foreground">Liquidation Price</div>
+                            <div className="text-sm text-muted-foreground">{t('blockLending.liquidationPrice')}</div>
                             <div className="font-semibold text-red-600">
-                              KES {loan.liquidationPrice.toLocaleString()}
+                              {t('common.amount', { amount: loan.liquidationPrice })}
                             </div>
                           </div>
                           <div>
-                            <div className="text-sm text-muted-foreground">Due Date</div>
-                            <div className="font-semibold">{loan.dueDate}</div>
+                            <div className="text-sm text-muted-foreground">{t('blockLending.dueDate')}</div>
+                            <div className="font-semibold">{t('blockLending.date', { date: new Date(loan.dueDate) })}</div>
                           </div>
                         </div>
 
                         <div className="flex gap-2">
                           <Button size="sm" variant="outline">
-                            Add Collateral
+                            {t('blockLending.addCollateral')}
                           </Button>
                           <Button size="sm" variant="outline">
-                            Partial Repay
+                            {t('blockLending.partialRepay')}
                           </Button>
                           <Button size="sm">
-                            Full Repayment
+                            {t('blockLending.fullRepay')}
                           </Button>
                         </div>
                       </div>
@@ -357,7 +359,7 @@ const BlockchainLendingPage = () => {
                 ) : (
                   <div className="text-center py-8">
                     <Lock className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-                    <p className="text-muted-foreground">No active loans</p>
+                    <p className="text-muted-foreground">{t('blockLending.noLoans')}</p>
                   </div>
                 )}
               </CardContent>
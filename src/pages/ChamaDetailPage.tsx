@@ -6,6 +6,8 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ArrowLeft, Users, DollarSign, TrendingUp, Calendar, Settings, MessageSquare, CreditCard, Bell, Shield, Wallet as WalletIcon } from 'lucide-react';
 import CurrencyDisplay from '@/components/CurrencyDisplay';
+import { CurrencyProvider } from '@/contexts/CurrencyContext';
+import { currencyOf } from '@/lib/currency';
 import Navigation from '@/components/Navigation';
 import { useChamas } from '@/hooks/useChamas';
 import { useChamaMembers } from '@/hooks/useChamaMembers';
@@ -16,6 +18,7 @@ import { WalletCards } from '@/components/chama/WalletCards';
 import { ContributionLeaderboard } from '@/components/chama/ContributionLeaderboard';
 import { RoleBasedDashboard } from '@/components/chama/RoleBasedDashboard';
 import { ChamaLoansTab } from '@/components/chama/ChamaLoansTab';
+import { ChamaVotingTab } from '@/components/chama/ChamaVotingTab';
 import { RealtimeContributionFeed } from '@/components/chama/RealtimeContributionFeed';
 import { MemberUnlockModal } from '@/components/chama/MemberUnlockModal';
 import { MemberManagementTable } from '@/components/chama/MemberManagementTable';
@@ -32,6 +35,7 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 const ChamaDetailPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -45,6 +49,7 @@ const ChamaDetailPage: React.FC = () => {
   const { notifications, unreadCount, markAllAsRead } = useChamaNotifications(id);
   const { exportContributions, exportLoans } = useCSVExportChama();
   const { loans } = useChamaLoans(id!);
+  const { t } = useLanguage();
 
   const [topUpAmount, setTopUpAmount] = useState('');
   const [withdrawAmount, setWithdrawAmount] = useState('');
@@ -79,11 +84,11 @@ const ChamaDetailPage: React.FC = () => {
         <Navigation />
         <div className="container mx-auto px-4 py-8">
           <div className="text-center">
-            <h1 className="text-2xl font-bold text-gray-900 mb-4">Chama Not Found</h1>
-            <p className="text-gray-600 mb-6">The chama you're looking for doesn't exist or you don't have access to it.</p>
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">{t('chamaDetail.notFound')}</h1>
+            <p className="text-gray-600 mb-6">{t('chamaDetail.notFound.desc')}</p>
             <Button onClick={() => navigate('/chamas')} className="bg-gradient-to-r from-blue-600 to-green-600">
               <ArrowLeft className="h-4 w-4 mr-2" />
-              Back to Chamas
+              {t('chamaDetail.back')}
             </Button>
           </div>
         </div>
@@ -92,394 +97,405 @@ const ChamaDetailPage: React.FC = () => {
   }
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-green-50">
-      <Navigation />
-      
-      <div className="container mx-auto px-4 py-8 space-y-6">
-        <div className="flex items-center gap-4 mb-6">
-          <Button 
-            variant="outline" 
-            onClick={() => navigate('/chamas')}
-            className="flex items-center gap-2"
-          >
-            <ArrowLeft className="h-4 w-4" />
-            Back to Chamas
-          </Button>
-          <div className="flex-1">
-            <h1 className="text-3xl font-bold tracking-tight bg-gradient-to-r from-blue-600 to-green-600 bg-clip-text text-transparent">
-              {chama.name}
-            </h1>
-            <p className="text-muted-foreground mt-1">{chama.description}</p>
-          </div>
-          <div className="flex items-center gap-2">
-            <Button variant="outline" size="icon" className="relative">
-              <Bell className="h-4 w-4" />
-              {unreadCount > 0 && (
-                <Badge variant="destructive" className="absolute -top-1 -right-1 h-5 w-5 flex items-center justify-center p-0 text-xs">
-                  {unreadCount}
+    <CurrencyProvider currency={currencyOf(chama)}>
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-green-50">
+        <Navigation />
+        
+        <div className="container mx-auto px-4 py-8 space-y-6">
+          <div className="flex items-center gap-4 mb-6">
+            <Button 
+              variant="outline" 
+              onClick={() => navigate('/chamas')}
+              className="flex items-center gap-2"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              {t('chamaDetail.back')}
+            </Button>
+            <div className="flex-1">
+              <h1 className="text-3xl font-bold tracking-tight bg-gradient-to-r from-blue-600 to-green-600 bg-clip-text text-transparent">
+                {chama.name}
+              </h1>
+              <p className="text-muted-foreground mt-1">{chama.description}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="icon" className="relative">
+                <Bell className="h-4 w-4" />
+                {unreadCount > 0 && (
+                  <Badge variant="destructive" className="absolute -top-1 -right-1 h-5 w-5 flex items-center justify-center p-0 text-xs">
+                    {unreadCount}
+                  </Badge>
+                )}
+              </Button>
+              {userRole && (
+                <Badge variant={isAdmin ? 'default' : 'secondary'} className="ml-auto">
+                  {t('chamaDetail.role', { role: userRole.role })}
                 </Badge>
               )}
-            </Button>
-            {userRole && (
-              <Badge variant={isAdmin ? 'default' : 'secondary'} className="ml-auto">
-                {userRole.role}
-              </Badge>
-            )}
+            </div>
           </div>
-        </div>
-
-        {/* Overview Cards */}
-        <div className="grid gap-4 md:grid-cols-4">
-          <Card className="border-0 shadow-lg">
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Total Savings</CardTitle>
-              <DollarSign className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <CurrencyDisplay amount={chama.total_savings || 0} className="text-2xl font-bold" />
-              <p className="text-xs text-muted-foreground">
-                +12% from last month
-              </p>
-            </CardContent>
-          </Card>
-          
-          <Card className="border-0 shadow-lg">
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Members</CardTitle>
-              <Users className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{chama.current_members}/{chama.max_members}</div>
-              <p className="text-xs text-muted-foreground">
-                Active members
-              </p>
-            </CardContent>
-          </Card>
-
-          <Card className="border-0 shadow-lg">
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Contribution</CardTitle>
-              <TrendingUp className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <CurrencyDisplay amount={chama.contribution_amount} className="text-2xl font-bold" />
-              <p className="text-xs text-muted-foreground">
-                {chama.contribution_frequency}
-              </p>
-            </CardContent>
-          </Card>
-
-          <Card className="border-0 shadow-lg">
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Next Meeting</CardTitle>
-              <Calendar className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">Jan 15</div>
-              <p className="text-xs text-muted-foreground">
-                Monthly meeting
-              </p>
-            </CardContent>
-          </Card>
-        </div>
 
-        {/* Wallet Cards */}
-        {myMembership && (
-          <WalletCards
-            chamaId={id!}
-            savingsBalance={myMembership.savings_balance || 0}
-            mgrBalance={myMembership.mgr_balance || 0}
-            withdrawalLocked={myMembership.withdrawal_locked || false}
-            canUnlock={isAdmin}
-          />
-        )}
-
-        {/* Main Content Tabs */}
-        <Tabs defaultValue="dashboard" className="w-full">
-          <TabsList className="grid w-full grid-cols-9 bg-white/50 backdrop-blur-sm">
-            <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
-            <TabsTrigger value="wallet">
-              <WalletIcon className="h-4 w-4 mr-2" />
-              Wallet
-            </TabsTrigger>
-            <TabsTrigger value="members">Members</TabsTrigger>
-            <TabsTrigger value="invite">Invite</TabsTrigger>
-            <TabsTrigger value="contributions">Contributions</TabsTrigger>
-            <TabsTrigger value="loans">Loans</TabsTrigger>
-            <TabsTrigger value="reports">Reports</TabsTrigger>
-            <TabsTrigger value="announcements">Announcements</TabsTrigger>
-            <TabsTrigger value="settings">Settings</TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="dashboard" className="space-y-4">
-            <RoleBasedDashboard
-              chamaId={id!}
-              userRole={userRole?.role || 'member'}
-              isAdmin={isAdmin}
-              isTreasurer={isTreasurer}
-              isSecretary={isSecretary}
-            />
+          {/* Overview Cards */}
+          <div className="grid gap-4 md:grid-cols-4">
+            <Card className="border-0 shadow-lg">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">{t('chamaDetail.totalSavings')}</CardTitle>
+                <DollarSign className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <CurrencyDisplay amount={chama.total_savings || 0} className="text-2xl font-bold" />
+                <p className="text-xs text-muted-foreground">
+                  {t('chamaDetail.savingsTrend')}
+                </p>
+              </CardContent>
+            </Card>
             
-            <div className="grid gap-4 md:grid-cols-2">
-              <RealtimeContributionFeed chamaId={id!} />
-              <ContributionLeaderboard 
-                chamaId={id!} 
-                canDownload={isAdmin || isTreasurer}
-                canVerify={isAdmin || isTreasurer}
-                userRole={userRole?.role || 'member'}
-              />
-            </div>
-          </TabsContent>
-
-          <TabsContent value="wallet" className="space-y-4">
-            <WalletDashboard
-              user={user}
-              chamaId={id!}
-              userRole={userRole?.role}
-            />
-          </TabsContent>
-
-          <TabsContent value="members" className="space-y-4">
             <Card className="border-0 shadow-lg">
-              <CardHeader className="flex flex-row items-center justify-between">
-                <div>
-                  <CardTitle>Members ({chama.current_members})</CardTitle>
-                  <CardDescription>
-                    Manage chama members, roles, and wallet access
-                  </CardDescription>
-                </div>
-                {isAdmin && (
-                  <Button onClick={() => navigate(`/chama/${id}/invite`)} className="gap-2">
-                    <Users className="h-4 w-4" />
-                    Invite Members
-                  </Button>
-                )}
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">{t('chamaDetail.members')}</CardTitle>
+                <Users className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <MemberManagementTable 
-                  members={members || []} 
-                  isAdmin={isAdmin}
-                  chamaId={id!}
-                />
+                <div className="text-2xl font-bold">{chama.current_members}/{chama.max_members}</div>
+                <p className="text-xs text-muted-foreground">
+                  {t('chamaDetail.activeMembers')}
+                </p>
               </CardContent>
             </Card>
-          </TabsContent>
 
-          <TabsContent value="invite" className="space-y-4">
             <Card className="border-0 shadow-lg">
-              <CardHeader>
-                <CardTitle>Invite Members</CardTitle>
-                <CardDescription>
-                  Send invitations to grow your chama community
-                </CardDescription>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">{t('chamaDetail.contribution')}</CardTitle>
+                <TrendingUp className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                {isAdmin ? (
-                  <Button onClick={() => navigate(`/chama/${id}/invite`)} className="w-full gap-2">
-                    <Users className="h-4 w-4" />
-                    Go to Invitation Center
-                  </Button>
-                ) : (
-                  <p className="text-muted-foreground text-center py-8">
-                    Only admins can invite new members to the chama
-                  </p>
-                )}
+                <CurrencyDisplay amount={chama.contribution_amount} className="text-2xl font-bold" />
+                <p className="text-xs text-muted-foreground">
+                  {t('chamaDetail.frequency', { frequency: chama.contribution_frequency })}
+                </p>
               </CardContent>
             </Card>
-          </TabsContent>
 
-          <TabsContent value="contributions" className="space-y-4">
-            <ContributionLeaderboard 
-              chamaId={id!} 
-              canDownload={isAdmin || isTreasurer}
-            />
-          </TabsContent>
+            <Card className="border-0 shadow-lg">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">{t('chamaDetail.nextMeeting')}</CardTitle>
+                <Calendar className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">Jan 15</div>
+                <p className="text-xs text-muted-foreground">
+                  {t('chamaDetail.monthlyMeeting')}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
 
-          <TabsContent value="loans" className="space-y-4">
-            <ChamaLoansTab
+          {/* Wallet Cards */}
+          {myMembership && (
+            <WalletCards
               chamaId={id!}
-              userRole={userRole?.role}
-              isAdmin={isAdmin}
-            />
-          </TabsContent>
-
-          <TabsContent value="reports" className="space-y-4">
-            <ReportsStatements chamaData={chama} />
-          </TabsContent>
-
-          <TabsContent value="settings" className="space-y-4">
-            <ChamaSettings
-              chamaData={chama}
-              userRole={userRole?.role || 'member'}
-              isAdmin={isAdmin}
-              isTreasurer={isTreasurer}
-              isSecretary={isSecretary}
+              savingsBalance={myMembership.savings_balance || 0}
+              mgrBalance={myMembership.mgr_balance || 0}
+              withdrawalLocked={myMembership.withdrawal_locked || false}
+              canUnlock={isAdmin}
             />
-          </TabsContent>
+          )}
 
-          <TabsContent value="announcements" className="space-y-4">
-            {userRole && ['admin', 'secretary', 'chairman'].includes(userRole.role) && (
-              <AnnouncementComposer chamaId={id!} userRole={userRole.role} />
-            )}
-            <AnnouncementsPanel chamaId={id!} />
-          </TabsContent>
-        </Tabs>
+          {/* Main Content Tabs */}
+          <Tabs defaultValue="dashboard" className="w-full">
+            <TabsList className="grid w-full grid-cols-10 bg-white/50 backdrop-blur-sm">
+              <TabsTrigger value="dashboard">{t('chamaWorkspace.tabs.dashboard')}</TabsTrigger>
+              <TabsTrigger value="wallet">
+                <WalletIcon className="h-4 w-4 mr-2" />
+                {t('chamaDetail.tabs.wallet')}
+              </TabsTrigger>
+              <TabsTrigger value="members">{t('chamaWorkspace.tabs.members')}</TabsTrigger>
+              <TabsTrigger value="invite">{t('chamaDetail.tabs.invite')}</TabsTrigger>
+              <TabsTrigger value="contributions">{t('chamaDetail.tabs.contributions')}</TabsTrigger>
+              <TabsTrigger value="loans">{t('chamaWorkspace.tabs.loans')}</TabsTrigger>
+              <TabsTrigger value="voting">{t('chamaDetail.tabs.voting')}</TabsTrigger>
+              <TabsTrigger value="reports">{t('chamaWorkspace.tabs.reports')}</TabsTrigger>
+              <TabsTrigger value="announcements">{t('chamaDetail.tabs.announcements')}</TabsTrigger>
+              <TabsTrigger value="settings">{t('chamaDetail.tabs.settings')}</TabsTrigger>
+            </TabsList>
 
-        {/* Top Up Dialog */}
-        <Dialog open={showTopUpDialog} onOpenChange={setShowTopUpDialog}>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Top Up MGR Wallet</DialogTitle>
-              <DialogDescription>
-                Transfer funds from your Savings wallet to your MGR wallet
-              </DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4">
-              <div>
-                <Label>Amount</Label>
-                <Input
-                  type="number"
-                  placeholder="Enter amount"
-                  value={topUpAmount}
-                  onChange={(e) => setTopUpAmount(e.target.value)}
+            <TabsContent value="dashboard" className="space-y-4">
+              <RoleBasedDashboard
+                chamaId={id!}
+                userRole={userRole?.role || 'member'}
+                isAdmin={isAdmin}
+                isTreasurer={isTreasurer}
+                isSecretary={isSecretary}
+              />
+              
+              <div className="grid gap-4 md:grid-cols-2">
+                <RealtimeContributionFeed chamaId={id!} />
+                <ContributionLeaderboard 
+                  chamaId={id!} 
+                  canDownload={isAdmin || isTreasurer}
+                  canVerify={isAdmin || isTreasurer}
+                  userRole={userRole?.role || 'member'}
                 />
-                <p className="text-sm text-muted-foreground mt-1">
-                  Available: <CurrencyDisplay amount={myMembership?.savings_balance || 0} />
-                </p>
               </div>
-              <Button
-                className="w-full"
-                onClick={() => {
-                  walletOps.mutate({
-                    operation: 'topup',
-                    chamaId: id!,
-                    amount: parseFloat(topUpAmount)
-                  });
-                  setShowTopUpDialog(false);
-                  setTopUpAmount('');
-                }}
-                disabled={!topUpAmount || walletOps.isPending}
-              >
-                Top Up
-              </Button>
-            </div>
-          </DialogContent>
-        </Dialog>
+            </TabsContent>
 
-        {/* Withdraw Dialog */}
-        <Dialog open={showWithdrawDialog} onOpenChange={setShowWithdrawDialog}>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Withdraw from MGR Wallet</DialogTitle>
-              <DialogDescription>
-                Withdraw funds to your mobile money or bank account
-              </DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4">
-              <div>
-                <Label>Amount</Label>
-                <Input
-                  type="number"
-                  placeholder="Enter amount"
-                  value={withdrawAmount}
-                  onChange={(e) => setWithdrawAmount(e.target.value)}
-                />
-                <p className="text-sm text-muted-foreground mt-1">
-                  Available: <CurrencyDisplay amount={myMembership?.mgr_balance || 0} />
-                </p>
-              </div>
-              <div>
-                <Label>Payment Method</Label>
-                <Select value={paymentMethod} onValueChange={setPaymentMethod}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="mpesa">M-Pesa</SelectItem>
-                    <SelectItem value="airtel">Airtel Money</SelectItem>
-                    <SelectItem value="bank">Bank Account</SelectItem>
-                  </SelectContent>
-                </Select>
+            <TabsContent value="wallet" className="space-y-4">
+              <WalletDashboard
+                user={user}
+                chamaId={id!}
+                userRole={userRole?.role}
+              />
+            </TabsContent>
+
+            <TabsContent value="members" className="space-y-4">
+              <Card className="border-0 shadow-lg">
+                <CardHeader className="flex flex-row items-center justify-between">
+                  <div>
+                    <CardTitle>{t('chamaDetail.members.count', { count: chama.current_members })}</CardTitle>
+                    <CardDescription>
+                      {t('chamaDetail.members.desc')}
+                    </CardDescription>
+                  </div>
+                  {isAdmin && (
+                    <Button onClick={() => navigate(`/chama/${id}/invite`)} className="gap-2">
+                      <Users className="h-4 w-4" />
+                      {t('chamaDetail.invite')}
+                    </Button>
+                  )}
+                </CardHeader>
+                <CardContent>
+                  <MemberManagementTable 
+                    members={members || []} 
+                    isAdmin={isAdmin}
+                    chamaId={id!}
+                  />
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="invite" className="space-y-4">
+              <Card className="border-0 shadow-lg">
+                <CardHeader>
+                  <CardTitle>{t('chamaDetail.invite')}</CardTitle>
+                  <CardDescription>
+                    {t('chamaDetail.invite.desc')}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {isAdmin ? (
+                    <Button onClick={() => navigate(`/chama/${id}/invite`)} className="w-full gap-2">
+                      <Users className="h-4 w-4" />
+                      {t('chamaDetail.invite.center')}
+                    </Button>
+                  ) : (
+                    <p className="text-muted-foreground text-center py-8">
+                      {t('chamaDetail.invite.adminsOnly')}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="contributions" className="space-y-4">
+              <ContributionLeaderboard 
+                chamaId={id!} 
+                canDownload={isAdmin || isTreasurer}
+              />
+            </TabsContent>
+
+            <TabsContent value="loans" className="space-y-4">
+              <ChamaLoansTab
+                chamaId={id!}
+                userRole={userRole?.role}
+                isAdmin={isAdmin}
+              />
+            </TabsContent>
+
+            <TabsContent value="voting" className="space-y-4">
+              <ChamaVotingTab
+                chamaId={id!}
+                userRole={userRole?.role || 'member'}
+                isAdmin={isAdmin}
+              />
+            </TabsContent>
+
+            <TabsContent value="reports" className="space-y-4">
+              <ReportsStatements chamaData={chama} />
+            </TabsContent>
+
+            <TabsContent value="settings" className="space-y-4">
+              <ChamaSettings
+                chamaData={chama}
+                userRole={userRole?.role || 'member'}
+                isAdmin={isAdmin}
+                isTreasurer={isTreasurer}
+                isSecretary={isSecretary}
+              />
+            </TabsContent>
+
+            <TabsContent value="announcements" className="space-y-4">
+              {userRole && ['admin', 'secretary', 'chairman'].includes(userRole.role) && (
+                <AnnouncementComposer chamaId={id!} userRole={userRole.role} />
+              )}
+              <AnnouncementsPanel chamaId={id!} />
+            </TabsContent>
+          </Tabs>
+
+          {/* Top Up Dialog */}
+          <Dialog open={showTopUpDialog} onOpenChange={setShowTopUpDialog}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>{t('chamaDetail.topUp.title')}</DialogTitle>
+                <DialogDescription>
+                  {t('chamaDetail.topUp.desc')}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label>{t('chamaDetail.wallet.amount')}</Label>
+                  <Input
+                    type="number"
+                    placeholder={t('chamaDetail.wallet.enterAmount')}
+                    value={topUpAmount}
+                    onChange={(e) => setTopUpAmount(e.target.value)}
+                  />
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {t('chamaDetail.wallet.available')} <CurrencyDisplay amount={myMembership?.savings_balance || 0} />
+                  </p>
+                </div>
+                <Button
+                  className="w-full"
+                  onClick={() => {
+                    walletOps.mutate({
+                      operation: 'topup',
+                      chamaId: id!,
+                      amount: parseFloat(topUpAmount)
+                    });
+                    setShowTopUpDialog(false);
+                    setTopUpAmount('');
+                  }}
+                  disabled={!topUpAmount || walletOps.isPending}
+                >
+                  {t('chamaDetail.topUp')}
+                </Button>
               </div>
-              <Button
-                className="w-full"
-                onClick={() => {
-                  walletOps.mutate({
-                    operation: 'withdraw',
-                    chamaId: id!,
-                    amount: parseFloat(withdrawAmount),
-                    paymentMethod
-                  });
-                  setShowWithdrawDialog(false);
-                  setWithdrawAmount('');
-                }}
-                disabled={!withdrawAmount || walletOps.isPending}
-              >
-                Withdraw
-              </Button>
-            </div>
-          </DialogContent>
-        </Dialog>
+            </DialogContent>
+          </Dialog>
 
-        {/* Send Dialog */}
-        <Dialog open={showSendDialog} onOpenChange={setShowSendDialog}>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Send to Member</DialogTitle>
-              <DialogDescription>
-                Transfer funds from your MGR wallet to another member
-              </DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4">
-              <div>
-                <Label>Recipient</Label>
-                <Select value={sendRecipient} onValueChange={setSendRecipient}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select member" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {members?.filter(m => m.user_id !== user?.id).map(m => (
-                      <SelectItem key={m.id} value={m.id}>
-                        {(m.profiles as any)?.email || 'Member'}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+          {/* Withdraw Dialog */}
+          <Dialog open={showWithdrawDialog} onOpenChange={setShowWithdrawDialog}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>{t('chamaDetail.withdraw.title')}</DialogTitle>
+                <DialogDescription>
+                  {t('chamaDetail.withdraw.desc')}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label>{t('chamaDetail.wallet.amount')}</Label>
+                  <Input
+                    type="number"
+                    placeholder={t('chamaDetail.wallet.enterAmount')}
+                    value={withdrawAmount}
+                    onChange={(e) => setWithdrawAmount(e.target.value)}
+                  />
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {t('chamaDetail.wallet.available')} <CurrencyDisplay amount={myMembership?.mgr_balance || 0} />
+                  </p>
+                </div>
+                <div>
+                  <Label>{t('chamaDetail.withdraw.method')}</Label>
+                  <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="mpesa">M-Pesa</SelectItem>
+                      <SelectItem value="airtel">Airtel Money</SelectItem>
+                      <SelectItem value="bank">{t('chamaDetail.withdraw.bank')}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  className="w-full"
+                  onClick={() => {
+                    walletOps.mutate({
+                      operation: 'withdraw',
+                      chamaId: id!,
+                      amount: parseFloat(withdrawAmount),
+                      paymentMethod
+                    });
+                    setShowWithdrawDialog(false);
+                    setWithdrawAmount('');
+                  }}
+                  disabled={!withdrawAmount || walletOps.isPending}
+                >
+                  {t('chamaDetail.withdraw')}
+                </Button>
               </div>
-              <div>
-                <Label>Amount</Label>
-                <Input
-                  type="number"
-                  placeholder="Enter amount"
-                  value={sendAmount}
-                  onChange={(e) => setSendAmount(e.target.value)}
-                />
-                <p className="text-sm text-muted-foreground mt-1">
-                  Available: <CurrencyDisplay amount={myMembership?.mgr_balance || 0} />
-                </p>
+            </DialogContent>
+          </Dialog>
+
+          {/* Send Dialog */}
+          <Dialog open={showSendDialog} onOpenChange={setShowSendDialog}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>{t('chamaDetail.send.title')}</DialogTitle>
+                <DialogDescription>
+                  {t('chamaDetail.send.desc')}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label>{t('chamaDetail.send.recipient')}</Label>
+                  <Select value={sendRecipient} onValueChange={setSendRecipient}>
+                    <SelectTrigger>
+                      <SelectValue placeholder={t('chamaDetail.wallet.selectMember')} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {members?.filter(m => m.user_id !== user?.id).map(m => (
+                        <SelectItem key={m.id} value={m.id}>
+                          {(m.profiles as any)?.email || t('chamaWorkspace.role.member')}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>{t('chamaDetail.wallet.amount')}</Label>
+                  <Input
+                    type="number"
+                    placeholder={t('chamaDetail.wallet.enterAmount')}
+                    value={sendAmount}
+                    onChange={(e) => setSendAmount(e.target.value)}
+                  />
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {t('chamaDetail.wallet.available')} <CurrencyDisplay amount={myMembership?.mgr_balance || 0} />
+                  </p>
+                </div>
+                <Button
+                  className="w-full"
+                  onClick={() => {
+                    walletOps.mutate({
+                      operation: 'send',
+                      chamaId: id!,
+                      amount: parseFloat(sendAmount),
+                      recipient: sendRecipient
+                    });
+                    setShowSendDialog(false);
+                    setSendAmount('');
+                    setSendRecipient('');
+                  }}
+                  disabled={!sendAmount || !sendRecipient || walletOps.isPending}
+                >
+                  {t('chamaDetail.send')}
+                </Button>
               </div>
-              <Button
-                className="w-full"
-                onClick={() => {
-                  walletOps.mutate({
-                    operation: 'send',
-                    chamaId: id!,
-                    amount: parseFloat(sendAmount),
-                    recipient: sendRecipient
-                  });
-                  setShowSendDialog(false);
-                  setSendAmount('');
-                  setSendRecipient('');
-                }}
-                disabled={!sendAmount || !sendRecipient || walletOps.isPending}
-              >
-                Send
-              </Button>
-            </div>
-          </DialogContent>
-        </Dialog>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
-    </div>
+    </CurrencyProvider>
   );
 };
 
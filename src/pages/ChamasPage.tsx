@@ -10,6 +10,7 @@ import Navigation from '@/components/Navigation';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -26,6 +27,7 @@ const ChamasPage: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const { data: chamas, isLoading } = useChamas();
   const { toast } = useToast();
+  const { t } = useLanguage();
   const queryClient = useQueryClient();
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [chamaToDelete, setChamaToDelete] = useState<any>(null);
@@ -37,12 +39,18 @@ const ChamasPage: React.FC = () => {
       });
 
       if (error) throw error;
-      return data;
+      // Pending when the deletion has gone to the officers (or a member vote) for approval
+      const result = data as { success?: boolean; pending?: boolean; message?: string } | null;
+      if (result?.success === false) throw new Error(result.message);
+      return result;
     },
-    onSuccess: () => {
-      toast({
-        title: "Chama Deleted",
-        description: "The chama has been successfully deleted.",
+    onSuccess: (result) => {
+      toast(result?.pending ? {
+        title: t('common.awaitingApproval'),
+        description: result.message,
+      } : {
+        title: t('chamas.deleted.title'),
+        description: t('chamas.deleted.desc'),
       });
       queryClient.invalidateQueries({ queryKey: ['chamas'] });
       setDeleteDialogOpen(false);
@@ -50,8 +58,8 @@ const ChamasPage: React.FC = () => {
     },
     onError: (error: any) => {
       toast({
-        title: "Error",
-        description: error.message || "Failed to delete chama",
+        title: t('common.error'),
+        description: error.message || t('chamas.delete.failed'),
         variant: "destructive",
       });
     }
@@ -77,10 +85,10 @@ const ChamasPage: React.FC = () => {
         <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-8">
           <div>
             <h1 className="text-3xl font-bold tracking-tight text-foreground">
-              My Chamas
+              {t('chamas.title')}
             </h1>
             <p className="text-muted-foreground mt-2">
-              Manage your group savings and investment clubs
+              {t('chamas.subtitle')}
             </p>
           </div>
           
@@ -89,13 +97,13 @@ const ChamasPage: React.FC = () => {
             className="flex items-center gap-2"
           >
             <Plus className="h-4 w-4" />
-            Create Chama
+            {t('chama.create')}
           </Button>
         </div>
 
         {isLoading ? (
           <div className="text-center py-12">
-            <p className="text-muted-foreground">Loading your chamas...</p>
+            <p className="text-muted-foreground">{t('chamas.loading')}</p>
           </div>
         ) : chamas && chamas.length > 0 ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -130,26 +138,28 @@ const ChamasPage: React.FC = () => {
                     <div className="flex items-center justify-between text-sm">
                       <span className="text-muted-foreground flex items-center gap-2">
                         <Users className="h-4 w-4" />
-                        Members
+                        {t('chamas.members')}
                       </span>
                       <span className="font-medium">{chama.current_members}/{chama.max_members}</span>
                     </div>
                     <div className="flex items-center justify-between text-sm">
                       <span className="text-muted-foreground flex items-center gap-2">
                         <DollarSign className="h-4 w-4" />
-                        Total Savings
+                        {t('analytics.total.savings')}
                       </span>
-                      <span className="font-medium">KES {chama.total_savings?.toLocaleString() || 0}</span>
+                      <span className="font-medium">{t('common.amount', { amount: chama.total_savings || 0 })}</span>
                     </div>
                     <div className="flex items-center justify-between text-sm">
                       <span className="text-muted-foreground flex items-center gap-2">
                         <Calendar className="h-4 w-4" />
-                        Contribution
+                        {t('chamas.contribution')}
+                      </span>
+                      <span className="font-medium">
+                        {t('chamas.contribution.value', { amount: chama.contribution_amount, frequency: chama.contribution_frequency })}
                       </span>
-                      <span className="font-medium">KES {chama.contribution_amount} / {chama.contribution_frequency}</span>
                     </div>
                     <div className="flex items-center justify-between text-sm">
-                      <span className="text-muted-foreground">Your Role</span>
+                      <span className="text-muted-foreground">{t('chamas.role')}</span>
                       <Badge variant="outline">{chama.userRole}</Badge>
                     </div>
                   </div>
@@ -157,7 +167,7 @@ const ChamasPage: React.FC = () => {
                     className="w-full mt-4"
                     onClick={() => window.location.href = `/chama/${chama.id}`}
                   >
-                    View Chama
+                    {t('chamas.view')}
                   </Button>
                 </CardContent>
               </Card>
@@ -166,16 +176,16 @@ const ChamasPage: React.FC = () => {
         ) : (
           <div className="text-center py-12">
             <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-            <h3 className="text-lg font-semibold text-foreground mb-2">No Chamas Yet</h3>
+            <h3 className="text-lg font-semibold text-foreground mb-2">{t('chamas.empty.title')}</h3>
             <p className="text-muted-foreground mb-6">
-              Start your financial journey by creating your first chama.
+              {t('chamas.empty.desc')}
             </p>
             <Button 
               onClick={() => setShowCreateModal(true)}
               className="bg-gradient-to-r from-primary to-primary/90"
             >
               <Plus className="h-4 w-4 mr-2" />
-              Create Your First Chama
+              {t('chamas.empty.create')}
             </Button>
           </div>
         )}
@@ -189,19 +199,19 @@ const ChamasPage: React.FC = () => {
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete Chama</AlertDialogTitle>
+            <AlertDialogTitle>{t('chamas.delete.title')}</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete "{chamaToDelete?.name}"? This action cannot be undone and will remove all chama data including contributions, loans, and transactions.
+              {t('chamas.delete.confirm', { name: chamaToDelete?.name })}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
             <AlertDialogAction
               onClick={confirmDelete}
               className="bg-destructive hover:bg-destructive/90"
               disabled={deleteChamaMutation.isPending}
             >
-              {deleteChamaMutation.isPending ? "Deleting..." : "Delete"}
+              {deleteChamaMutation.isPending ? t('common.deleting') : t('common.delete')}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
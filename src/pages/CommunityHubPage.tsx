@@ -15,9 +15,11 @@ import {
   CheckCircle, Clock, ArrowRight, UserPlus, MessageCircle
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 const CommunityHubPage = () => {
   const { toast } = useToast();
+  const { t } = useLanguage();
   
   const [selectedMentor, setSelectedMentor] = useState(null);
 
@@ -163,15 +165,15 @@ const CommunityHubPage = () => {
   const handleConnectMentor = (mentorId) => {
     setSelectedMentor(mentorId);
     toast({
-      title: "Mentor Connection Request Sent",
-      description: "Your mentor will respond within 24 hours. Check your notifications.",
+      title: t('communityHub.mentor.sent'),
+      description: t('communityHub.mentor.sent.desc'),
     });
   };
 
   const handleJoinProject = (projectId) => {
     toast({
-      title: "Project Joined Successfully",
-      description: "You'll receive updates on project progress and milestones.",
+      title: t('communityHub.project.joined'),
+      description: t('communityHub.project.joined.desc'),
     });
   };
 
@@ -185,10 +187,10 @@ const CommunityHubPage = () => {
           </div>
           <div>
             <h1 className="text-4xl font-bold bg-gradient-to-r from-green-600 to-blue-600 bg-clip-text text-transparent">
-              Community Empowerment Hub
+              {t('communityHub.title')}
             </h1>
             <p className="text-muted-foreground text-lg">
-              Connect, learn, and grow together in our financial community
+              {t('communityHub.subtitle')}
             </p>
           </div>
         </div>
@@ -196,10 +198,10 @@ const CommunityHubPage = () => {
 
       <Tabs defaultValue="mentorship" className="w-full">
             <TabsList className="grid w-full grid-cols-4">
-              <TabsTrigger value="mentorship">Mentorship</TabsTrigger>
-              <TabsTrigger value="crowdfunding">Crowdfunding</TabsTrigger>
-              <TabsTrigger value="learning">Learning Hub</TabsTrigger>
-              <TabsTrigger value="groups">Group Lending</TabsTrigger>
+              <TabsTrigger value="mentorship">{t('communityHub.tabs.mentorship')}</TabsTrigger>
+              <TabsTrigger value="crowdfunding">{t('communityHub.tabs.crowdfunding')}</TabsTrigger>
+              <TabsTrigger value="learning">{t('communityHub.tabs.learning')}</TabsTrigger>
+              <TabsTrigger value="groups">{t('communityHub.tabs.groups')}</TabsTrigger>
             </TabsList>
 
             <TabsContent value="mentorship">
@@ -210,21 +212,21 @@ const CommunityHubPage = () => {
                     <CardContent className="p-6 text-center">
                       <Users className="h-12 w-12 text-blue-500 mx-auto mb-4" />
                       <h3 className="text-2xl font-bold">50+</h3>
-                      <p className="text-muted-foreground">Certified Mentors</p>
+                      <p className="text-muted-foreground">{t('communityHub.stats.mentors')}</p>
                     </CardContent>
                   </Card>
                   <Card>
                     <CardContent className="p-6 text-center">
                       <MessageSquare className="h-12 w-12 text-green-500 mx-auto mb-4" />
                       <h3 className="text-2xl font-bold">1,200+</h3>
-                      <p className="text-muted-foreground">Success Stories</p>
+                      <p className="text-muted-foreground">{t('communityHub.stats.stories')}</p>
                     </CardContent>
                   </Card>
                   <Card>
                     <CardContent className="p-6 text-center">
                       <Award className="h-12 w-12 text-purple-500 mx-auto mb-4" />
                       <h3 className="text-2xl font-bold">4.8★</h3>
-                      <p className="text-muted-foreground">Average Rating</p>
+                      <p className="text-muted-foreground">{t('communityHub.stats.rating')}</p>
                     </CardContent>
                   </Card>
                 </div>
@@ -234,10 +236,10 @@ const CommunityHubPage = () => {
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <UserPlus className="h-5 w-5" />
-                      Available Mentors
+                      {t('communityHub.mentors.title')}
                     </CardTitle>
                     <CardDescription>
-                      AI-matched mentors based on your financial goals and experience level
+                      {t('communityHub.mentors.desc')}
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
@@ -258,7 +260,7 @@ const CommunityHubPage = () => {
                                 </div>
                               </div>
                               {mentor.available && (
-                                <Badge className="ml-auto bg-green-100 text-green-800">Available</Badge>
+                                <Badge className="ml-auto bg-green-100 text-green-800">{t('communityHub.mentor.available')}</Badge>
                               )}
                             </div>
 
@@ -266,7 +268,7 @@ const CommunityHubPage = () => {
 
                             <div className="space-y-3">
                               <div>
-                                <p className="text-sm font-medium mb-1">Expertise</p>
+                                <p className="text-sm font-medium mb-1">{t('communityHub.mentor.expertise')}</p>
                                 <div className="flex flex-wrap gap-1">
                                   {mentor.expertise.map((skill, idx) => (
                                     <Badge key={idx} variant="outline" className="text-xs">
@@ -278,11 +280,11 @@ const CommunityHubPage = () => {
 
                               <div className="grid grid-cols-2 gap-4 text-sm">
                                 <div>
-                                  <p className="text-muted-foreground">Experience</p>
+                                  <p className="text-muted-foreground">{t('communityHub.mentor.experience')}</p>
                                   <p className="font-medium">{mentor.experience}</p>
                                 </div>
                                 <div>
-                                  <p className="text-muted-foreground">People Helped</p>
+                                  <p className="text-muted-foreground">{t('communityHub.mentor.helped')}</p>
                                   <p className="font-medium">{mentor.helped}</p>
                                 </div>
                               </div>
@@ -292,7 +294,7 @@ const CommunityHubPage = () => {
                                 onClick={() => handleConnectMentor(mentor.id)}
                                 disabled={!mentor.available || selectedMentor === mentor.id}
                               >
-                                {selectedMentor === mentor.id ? 'Request Sent' : 'Connect with Mentor'}
+                                {selectedMentor === mentor.id ? t('communityHub.mentor.requestSent') : t('communityHub.mentor.connect')}
                               </Button>
                             </div>
                           </CardContent>
@@ -307,10 +309,10 @@ const CommunityHubPage = () => {
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <Shield className="h-5 w-5" />
-                      Regulatory Support
+                      {t('communityHub.regulatory.title')}
                     </CardTitle>
                     <CardDescription>
-                      Direct, encrypted channels to regulatory bodies and consumer protection services
+                      {t('communityHub.regulatory.desc')}
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
@@ -319,13 +321,13 @@ const CommunityHubPage = () => {
                         <div className="flex items-center gap-3 mb-3">
                           <Shield className="h-8 w-8 text-blue-600" />
                           <div>
-                            <h4 className="font-medium">Central Bank of Kenya</h4>
-                            <p className="text-sm text-muted-foreground">Digital Credit Providers Office</p>
+                            <h4 className="font-medium">{t('communityHub.regulatory.cbk')}</h4>
+                            <p className="text-sm text-muted-foreground">{t('communityHub.regulatory.cbk.desc')}</p>
                           </div>
                         </div>
                         <Button size="sm" className="w-full">
                           <MessageCircle className="mr-2 h-4 w-4" />
-                          Report Issue
+                          {t('communityHub.regulatory.report')}
                         </Button>
                       </Card>
 
@@ -333,13 +335,13 @@ const CommunityHubPage = () => {
                         <div className="flex items-center gap-3 mb-3">
                           <HelpCircle className="h-8 w-8 text-green-600" />
                           <div>
-                            <h4 className="font-medium">Financial Ombudsman</h4>
-                            <p className="text-sm text-muted-foreground">Consumer Protection Service</p>
+                            <h4 className="font-medium">{t('communityHub.regulatory.ombudsman')}</h4>
+                            <p className="text-sm text-muted-foreground">{t('communityHub.regulatory.ombudsman.desc')}</p>
                           </div>
                         </div>
                         <Button size="sm" className="w-full">
                           <MessageCircle className="mr-2 h-4 w-4" />
-                          Get Help
+                          {t('communityHub.regulatory.help')}
                         </Button>
                       </Card>
                     </div>
@@ -354,10 +356,10 @@ const CommunityHubPage = () => {
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <Heart className="h-5 w-5" />
-                      Featured Projects
+                      {t('communityHub.projects.title')}
                     </CardTitle>
                     <CardDescription>
-                      Support community projects and individual entrepreneurial ventures
+                      {t('communityHub.projects.desc')}
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
@@ -372,7 +374,7 @@ const CommunityHubPage = () => {
                                   {project.verified && (
                                     <Badge className="bg-green-100 text-green-800">
                                       <CheckCircle className="h-3 w-3 mr-1" />
-                                      Verified
+                                      {t('communityHub.project.verified')}
                                     </Badge>
                                   )}
                                 </div>
@@ -385,7 +387,7 @@ const CommunityHubPage = () => {
                               <div>
                                 <div className="flex justify-between mb-2">
                                   <span className="text-sm font-medium">
-                                    KES {project.raised.toLocaleString()} raised of KES {project.target.toLocaleString()}
+                                    {t('communityHub.project.raised', { raised: project.raised, target: project.target })}
                                   </span>
                                   <span className="text-sm text-muted-foreground">
                                     {Math.round((project.raised / project.target) * 100)}%
@@ -396,15 +398,15 @@ const CommunityHubPage = () => {
 
                               <div className="flex justify-between items-center">
                                 <div className="flex gap-4 text-sm">
-                                  <span>{project.backers} backers</span>
-                                  <span>{project.daysLeft} days left</span>
+                                  <span>{t('communityHub.project.backers', { count: project.backers })}</span>
+                                  <span>{t('communityHub.project.daysLeft', { count: project.daysLeft })}</span>
                                 </div>
                                 <div className="flex gap-2">
                                   <Button size="sm" variant="outline">
-                                    Learn More
+                                    {t('communityHub.project.learnMore')}
                                   </Button>
                                   <Button size="sm" onClick={() => handleJoinProject(project.id)}>
-                                    Support Project
+                                    {t('communityHub.project.support')}
                                   </Button>
                                 </div>
                               </div>
@@ -418,31 +420,31 @@ const CommunityHubPage = () => {
 
                 <Card>
                   <CardHeader>
-                    <CardTitle>Start Your Own Campaign</CardTitle>
+                    <CardTitle>{t('communityHub.campaign.title')}</CardTitle>
                     <CardDescription>
-                      Have a community project or business idea? Start crowdfunding today
+                      {t('communityHub.campaign.desc')}
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
                     <div className="grid md:grid-cols-3 gap-6">
                       <div className="text-center">
                         <Target className="h-12 w-12 text-blue-500 mx-auto mb-4" />
-                        <h4 className="font-medium mb-2">Set Your Goal</h4>
-                        <p className="text-sm text-muted-foreground">Define your funding target and timeline</p>
+                        <h4 className="font-medium mb-2">{t('communityHub.campaign.goal')}</h4>
+                        <p className="text-sm text-muted-foreground">{t('communityHub.campaign.goal.desc')}</p>
                       </div>
                       <div className="text-center">
                         <Users className="h-12 w-12 text-green-500 mx-auto mb-4" />
-                        <h4 className="font-medium mb-2">Build Community</h4>
-                        <p className="text-sm text-muted-foreground">Share your story and attract supporters</p>
+                        <h4 className="font-medium mb-2">{t('communityHub.campaign.community')}</h4>
+                        <p className="text-sm text-muted-foreground">{t('communityHub.campaign.community.desc')}</p>
                       </div>
                       <div className="text-center">
                         <CheckCircle className="h-12 w-12 text-purple-500 mx-auto mb-4" />
-                        <h4 className="font-medium mb-2">Achieve Success</h4>
-                        <p className="text-sm text-muted-foreground">Reach your goal and make impact</p>
+                        <h4 className="font-medium mb-2">{t('communityHub.campaign.success')}</h4>
+                        <p className="text-sm text-muted-foreground">{t('communityHub.campaign.success.desc')}</p>
                       </div>
                     </div>
                     <Button className="w-full mt-6">
-                      Start Your Campaign
+                      {t('communityHub.campaign.start')}
                       <ArrowRight className="ml-2 h-4 w-4" />
                     </Button>
                   </CardContent>
@@ -456,10 +458,10 @@ const CommunityHubPage = () => {
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <BookOpen className="h-5 w-5" />
-                      Personalized Learning Paths
+                      {t('communityHub.paths.title')}
                     </CardTitle>
                     <CardDescription>
-                      Gamified financial education tailored to your knowledge level and goals
+                      {t('communityHub.paths.desc')}
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
@@ -472,15 +474,15 @@ const CommunityHubPage = () => {
                                 <h3 className="text-xl font-semibold mb-2">{path.title}</h3>
                                 <p className="text-muted-foreground mb-3">{path.description}</p>
                                 <div className="flex gap-4 text-sm">
-                                  <Badge variant="outline">{path.difficulty}</Badge>
-                                  <span>{path.modules} modules</span>
+                                  <Badge variant="outline">{t('communityHub.path.difficulty', { difficulty: path.difficulty })}</Badge>
+                                  <span>{t('communityHub.path.modules', { count: path.modules })}</span>
                                   <span>{path.duration}</span>
                                 </div>
                               </div>
                               <div className="text-right">
                                 <div className="flex items-center gap-1 mb-2">
                                   <Award className="h-4 w-4 text-yellow-500" />
-                                  <span className="font-medium">{path.points} pts</span>
+                                  <span className="font-medium">{t('communityHub.path.points', { count: path.points })}</span>
                                 </div>
                                 <Badge>{path.badge}</Badge>
                               </div>
@@ -489,14 +491,14 @@ const CommunityHubPage = () => {
                             <div className="space-y-3">
                               <div>
                                 <div className="flex justify-between mb-2">
-                                  <span className="text-sm font-medium">Progress</span>
-                                  <span className="text-sm">{path.completed}/{path.modules} modules</span>
+                                  <span className="text-sm font-medium">{t('communityHub.path.progress')}</span>
+                                  <span className="text-sm">{t('communityHub.path.completed', { completed: path.completed, count: path.modules })}</span>
                                 </div>
                                 <Progress value={(path.completed / path.modules) * 100} />
                               </div>
 
                               <Button className="w-full">
-                                {path.completed > 0 ? 'Continue Learning' : 'Start Path'}
+                                {path.completed > 0 ? t('communityHub.path.continue') : t('communityHub.path.start')}
                                 <ArrowRight className="ml-2 h-4 w-4" />
                               </Button>
                             </div>
@@ -511,7 +513,7 @@ const CommunityHubPage = () => {
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <Lightbulb className="h-5 w-5" />
-                      Weekly Challenges
+                      {t('communityHub.challenges.title')}
                     </CardTitle>
                   </CardHeader>
                   <CardContent>
@@ -522,13 +524,13 @@ const CommunityHubPage = () => {
                             <Target className="h-6 w-6 text-blue-600" />
                           </div>
                           <div>
-                            <h4 className="font-medium">Budgeting Challenge</h4>
-                            <p className="text-sm text-muted-foreground">Create and stick to a weekly budget</p>
+                            <h4 className="font-medium">{t('communityHub.challenges.budget')}</h4>
+                            <p className="text-sm text-muted-foreground">{t('communityHub.challenges.budget.desc')}</p>
                           </div>
                         </div>
                         <div className="flex justify-between items-center">
-                          <Badge className="bg-green-100 text-green-800">+150 points</Badge>
-                          <Button size="sm">Join Challenge</Button>
+                          <Badge className="bg-green-100 text-green-800">{t('communityHub.challenges.points', { count: 150 })}</Badge>
+                          <Button size="sm">{t('communityHub.challenges.join')}</Button>
                         </div>
                       </Card>
 
@@ -538,13 +540,13 @@ const CommunityHubPage = () => {
                             <DollarSign className="h-6 w-6 text-purple-600" />
                           </div>
                           <div>
-                            <h4 className="font-medium">Savings Sprint</h4>
-                            <p className="text-sm text-muted-foreground">Save KES 1,000 this week</p>
+                            <h4 className="font-medium">{t('communityHub.challenges.sprint')}</h4>
+                            <p className="text-sm text-muted-foreground">{t('communityHub.challenges.sprint.desc', { amount: 1000 })}</p>
                           </div>
                         </div>
                         <div className="flex justify-between items-center">
-                          <Badge className="bg-green-100 text-green-800">+200 points</Badge>
-                          <Button size="sm">Join Challenge</Button>
+                          <Badge className="bg-green-100 text-green-800">{t('communityHub.challenges.points', { count: 200 })}</Badge>
+                          <Button size="sm">{t('communityHub.challenges.join')}</Button>
                         </div>
                       </Card>
                     </div>
@@ -559,10 +561,10 @@ const CommunityHubPage = () => {
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <Users className="h-5 w-5" />
-                      Group Lending Circles
+                      {t('communityHub.groups.title')}
                     </CardTitle>
                     <CardDescription>
-                      Join trusted groups for shared liability lending with better rates
+                      {t('communityHub.groups.desc')}
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
@@ -576,7 +578,7 @@ const CommunityHubPage = () => {
                                 <p className="text-muted-foreground mb-3">{group.description}</p>
                               </div>
                               <Badge className="bg-green-100 text-green-800">
-                                Trust Score: {group.trustScore}%
+                                {t('communityHub.group.trust', { score: group.trustScore })}
                               </Badge>
                             </div>
 
@@ -584,19 +586,19 @@ const CommunityHubPage = () => {
                               <div className="space-y-4">
                                 <div className="grid grid-cols-2 gap-4">
                                   <div>
-                                    <p className="text-sm text-muted-foreground">Target Amount</p>
-                                    <p className="font-semibold">KES {group.target.toLocaleString()}</p>
+                                    <p className="text-sm text-muted-foreground">{t('communityHub.group.targetAmount')}</p>
+                                    <p className="font-semibold">{t('common.amount', { amount: group.target })}</p>
                                   </div>
                                   <div>
-                                    <p className="text-sm text-muted-foreground">Interest Rate</p>
+                                    <p className="text-sm text-muted-foreground">{t('communityHub.group.rate')}</p>
                                     <p className="font-semibold text-green-600">{group.interestRate}%</p>
                                   </div>
                                   <div>
-                                    <p className="text-sm text-muted-foreground">Members</p>
+                                    <p className="text-sm text-muted-foreground">{t('communityHub.group.members')}</p>
                                     <p className="font-semibold">{group.members}/15</p>
                                   </div>
                                   <div>
-                                    <p className="text-sm text-muted-foreground">Term</p>
+                                    <p className="text-sm text-muted-foreground">{t('communityHub.group.term')}</p>
                                     <p className="font-semibold">{group.term}</p>
                                   </div>
                                 </div>
@@ -605,16 +607,16 @@ const CommunityHubPage = () => {
                               <div className="space-y-4">
                                 <div>
                                   <div className="flex justify-between mb-2">
-                                    <span className="text-sm font-medium">Funding Progress</span>
+                                    <span className="text-sm font-medium">{t('communityHub.group.funding')}</span>
                                     <span className="text-sm">{Math.round((group.committed / group.target) * 100)}%</span>
                                   </div>
                                   <Progress value={(group.committed / group.target) * 100} />
                                 </div>
 
                                 <div className="flex items-center justify-between">
-                                  <Badge variant="outline">{group.slots} slots available</Badge>
+                                  <Badge variant="outline">{t('communityHub.group.slots', { count: group.slots })}</Badge>
                                   <Button size="sm">
-                                    Join Group
+                                    {t('communityHub.group.join')}
                                     <ArrowRight className="ml-2 h-4 w-4" />
                                   </Button>
                                 </div>
@@ -629,31 +631,31 @@ const CommunityHubPage = () => {
 
                 <Card>
                   <CardHeader>
-                    <CardTitle>Create Your Own Group</CardTitle>
+                    <CardTitle>{t('communityHub.create.title')}</CardTitle>
                     <CardDescription>
-                      Start a lending circle with people you trust
+                      {t('communityHub.create.desc')}
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-4">
                       <div className="grid md:grid-cols-2 gap-4">
                         <div>
-                          <Label htmlFor="groupName">Group Name</Label>
-                          <Input id="groupName" placeholder="e.g., Local Entrepreneurs Circle" />
+                          <Label htmlFor="groupName">{t('communityHub.create.name')}</Label>
+                          <Input id="groupName" placeholder={t('communityHub.create.namePlaceholder')} />
                         </div>
                         <div>
-                          <Label htmlFor="targetAmount">Target Amount (KES)</Label>
+                          <Label htmlFor="targetAmount">{t('communityHub.group.targetAmount')}</Label>
                           <Input id="targetAmount" type="number" placeholder="100000" />
                         </div>
                       </div>
 
                       <div>
-                        <Label htmlFor="description">Description</Label>
-                        <Textarea id="description" placeholder="Describe your group's purpose and membership criteria" />
+                        <Label htmlFor="description">{t('communityHub.create.description')}</Label>
+                        <Textarea id="description" placeholder={t('communityHub.create.descPlaceholder')} />
                       </div>
 
                       <Button className="w-full">
-                        Create Lending Group
+                        {t('communityHub.create.submit')}
                         <Users className="ml-2 h-4 w-4" />
                       </Button>
                      </div>
@@ -18,10 +18,12 @@ import { useCommunityNetworking } from '@/hooks/useCommunityNetworking';
 import { useChamaDiscovery } from '@/hooks/useChamaDiscovery';
 import { useToast } from '@/hooks/use-toast';
 import { useNavigate } from 'react-router-dom';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 const CommunityNetworkingPage = () => {
   const { toast } = useToast();
   const navigate = useNavigate();
+  const { t } = useLanguage();
   
   // Use our custom hooks
   const {
@@ -77,19 +79,19 @@ const CommunityNetworkingPage = () => {
   });
 
   const filters = [
-    { id: 'all', label: 'All', count: stats.total_chamas },
-    { id: 'investment', label: 'Investment', count: getCategoryCounts().investment || 0 },
-    { id: 'youth', label: 'Youth', count: getCategoryCounts().youth || 0 },
-    { id: 'women', label: 'Women', count: getCategoryCounts().women || 0 },
-    { id: 'diaspora', label: 'Diaspora', count: getCategoryCounts().diaspora || 0 },
-    { id: 'agriculture', label: 'Agriculture', count: getCategoryCounts().agriculture || 0 }
+    { id: 'all', label: t('communityNetwork.filters.all'), count: stats.total_chamas },
+    { id: 'investment', label: t('communityNetwork.filters.investment'), count: getCategoryCounts().investment || 0 },
+    { id: 'youth', label: t('communityNetwork.filters.youth'), count: getCategoryCounts().youth || 0 },
+    { id: 'women', label: t('communityNetwork.filters.women'), count: getCategoryCounts().women || 0 },
+    { id: 'diaspora', label: t('communityNetwork.filters.diaspora'), count: getCategoryCounts().diaspora || 0 },
+    { id: 'agriculture', label: t('communityNetwork.filters.agriculture'), count: getCategoryCounts().agriculture || 0 }
   ];
 
   const handleCreateEvent = async () => {
     if (!eventForm.title || !eventForm.event_date || !eventForm.event_time) {
       toast({
-        title: "Error",
-        description: "Please fill in all required fields",
+        title: t('common.error'),
+        description: t('communityNetwork.errors.required'),
         variant: "destructive",
       });
       return;
@@ -110,8 +112,8 @@ const CommunityNetworkingPage = () => {
         max_attendees: 100
       });
       toast({
-        title: "Success",
-        description: "Event created successfully!",
+        title: t('communityNetwork.success'),
+        description: t('communityNetwork.event.created'),
       });
     }
   };
@@ -119,8 +121,8 @@ const CommunityNetworkingPage = () => {
   const handleCreateStory = async () => {
     if (!storyForm.title || !storyForm.description) {
       toast({
-        title: "Error",
-        description: "Please fill in title and description",
+        title: t('common.error'),
+        description: t('communityNetwork.errors.story'),
         variant: "destructive",
       });
       return;
@@ -138,8 +140,8 @@ const CommunityNetworkingPage = () => {
         duration: 0
       });
       toast({
-        title: "Success",
-        description: "Your story has been published!",
+        title: t('communityNetwork.success'),
+        description: t('communityNetwork.story.published'),
       });
     }
   };
@@ -160,10 +162,10 @@ const CommunityNetworkingPage = () => {
       {/* Header */}
       <div className="text-center space-y-4">
         <h1 className="text-4xl font-bold bg-gradient-to-r from-kenyan-navy to-kenyan-red bg-clip-text text-transparent">
-          Community Network
+          {t('communityNetwork.title')}
         </h1>
         <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
-          Connect with chamas, share success stories, and build meaningful relationships across Kenya's savings community
+          {t('communityNetwork.subtitle')}
         </p>
       </div>
 
@@ -173,28 +175,28 @@ const CommunityNetworkingPage = () => {
           <CardContent className="p-6">
             <Trophy className="h-8 w-8 text-kenyan-red mx-auto mb-2" />
             <div className="text-2xl font-bold">{stats.total_chamas}</div>
-            <p className="text-sm text-muted-foreground">Active Chamas</p>
+            <p className="text-sm text-muted-foreground">{t('communityNetwork.stats.chamas')}</p>
           </CardContent>
         </Card>
         <Card className="text-center">
           <CardContent className="p-6">
             <Users className="h-8 w-8 text-kenyan-green mx-auto mb-2" />
             <div className="text-2xl font-bold">{events.length}</div>
-            <p className="text-sm text-muted-foreground">Community Events</p>
+            <p className="text-sm text-muted-foreground">{t('communityNetwork.stats.events')}</p>
           </CardContent>
         </Card>
         <Card className="text-center">
           <CardContent className="p-6">
             <Star className="h-8 w-8 text-yellow-500 mx-auto mb-2" />
             <div className="text-2xl font-bold">{stories.length}</div>
-            <p className="text-sm text-muted-foreground">Success Stories</p>
+            <p className="text-sm text-muted-foreground">{t('communityNetwork.stats.stories')}</p>
           </CardContent>
         </Card>
         <Card className="text-center">
           <CardContent className="p-6">
             <MessageCircle className="h-8 w-8 text-kenyan-navy mx-auto mb-2" />
             <div className="text-2xl font-bold">150+</div>
-            <p className="text-sm text-muted-foreground">Active Connections</p>
+            <p className="text-sm text-muted-foreground">{t('communityNetwork.stats.connections')}</p>
           </CardContent>
         </Card>
       </div>
@@ -204,19 +206,19 @@ const CommunityNetworkingPage = () => {
         <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="discover" className="flex items-center gap-2">
             <Search className="h-4 w-4" />
-            Discover
+            {t('communityNetwork.tabs.discover')}
           </TabsTrigger>
           <TabsTrigger value="events" className="flex items-center gap-2">
             <Calendar className="h-4 w-4" />
-            Events
+            {t('communityNetwork.tabs.events')}
           </TabsTrigger>
           <TabsTrigger value="spotlight" className="flex items-center gap-2">
             <Star className="h-4 w-4" />
-            Spotlight
+            {t('communityNetwork.tabs.spotlight')}
           </TabsTrigger>
           <TabsTrigger value="connections" className="flex items-center gap-2">
             <MessageCircle className="h-4 w-4" />
-            Connections
+            {t('communityNetwork.tabs.connections')}
           </TabsTrigger>
         </TabsList>
 
@@ -228,7 +230,7 @@ const CommunityNetworkingPage = () => {
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
                 <Input
-                  placeholder="Search chamas by name, location, or focus area..."
+                  placeholder={t('communityNetwork.search')}
                   value={searchQuery}
                   onChange={(e) => updateSearchQuery(e.target.value)}
                   className="pl-10"
@@ -238,7 +240,7 @@ const CommunityNetworkingPage = () => {
             <div className="flex gap-2 flex-wrap">
               <Button variant="outline" size="sm" className="gap-2">
                 <Filter className="h-4 w-4" />
-                Filters
+                {t('communityNetwork.filtersButton')}
               </Button>
             </div>
           </div>
@@ -263,7 +265,7 @@ const CommunityNetworkingPage = () => {
 
           {/* Featured Chamas */}
           <div className="space-y-4">
-            <h2 className="text-2xl font-bold">Featured Chamas</h2>
+            <h2 className="text-2xl font-bold">{t('communityNetwork.featured')}</h2>
             <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
               {featuredChamas.slice(0, 6).map((chama, index) => (
                 <Card key={index} className="hover:shadow-md transition-shadow">
@@ -278,7 +280,7 @@ const CommunityNetworkingPage = () => {
                           <h3 className="font-medium">{chama.name}</h3>
                           <p className="text-sm text-muted-foreground flex items-center gap-1">
                             <Users className="h-3 w-3" />
-                            {chama.current_members} members
+                            {t('communityNetwork.members', { count: chama.current_members })}
                           </p>
                         </div>
                       </div>
@@ -288,7 +290,7 @@ const CommunityNetworkingPage = () => {
                         onClick={() => toggleChamaFollow(chama.id)}
                         disabled={communityLoading}
                       >
-                        {isFollowingChama(chama.id) ? "Following" : "Follow"}
+                        {isFollowingChama(chama.id) ? t('communityNetwork.following') : t('communityNetwork.follow')}
                       </Button>
                     </div>
                     <p className="text-sm text-muted-foreground mb-4">{chama.description}</p>
@@ -306,41 +308,41 @@ const CommunityNetworkingPage = () => {
         {/* Events Tab */}
         <TabsContent value="events" className="space-y-6">
           <div className="flex justify-between items-center">
-            <h2 className="text-2xl font-bold">Community Events</h2>
+            <h2 className="text-2xl font-bold">{t('communityNetwork.stats.events')}</h2>
             <Dialog open={showEventModal} onOpenChange={setShowEventModal}>
               <DialogTrigger asChild>
                 <Button className="gap-2">
                   <Plus className="h-4 w-4" />
-                  Create Event
+                  {t('communityNetwork.event.create')}
                 </Button>
               </DialogTrigger>
               <DialogContent className="max-w-md">
                 <DialogHeader>
-                  <DialogTitle>Create Community Event</DialogTitle>
+                  <DialogTitle>{t('communityNetwork.event.dialog')}</DialogTitle>
                 </DialogHeader>
                 <div className="space-y-4">
                   <div>
-                    <Label htmlFor="event-title">Event Title</Label>
+                    <Label htmlFor="event-title">{t('communityNetwork.event.titleLabel')}</Label>
                     <Input
                       id="event-title"
                       value={eventForm.title}
                       onChange={(e) => setEventForm(prev => ({ ...prev, title: e.target.value }))}
-                      placeholder="Enter event title"
+                      placeholder={t('communityNetwork.event.titlePlaceholder')}
                     />
                   </div>
                   <div>
-                    <Label htmlFor="event-description">Description</Label>
+                    <Label htmlFor="event-description">{t('communityNetwork.description')}</Label>
                     <Textarea
                       id="event-description"
                       value={eventForm.description}
                       onChange={(e) => setEventForm(prev => ({ ...prev, description: e.target.value }))}
-                      placeholder="Describe your event..."
+                      placeholder={t('communityNetwork.event.descPlaceholder')}
                       rows={3}
                     />
                   </div>
                   <div className="grid grid-cols-2 gap-4">
                     <div>
-                      <Label htmlFor="event-date">Date</Label>
+                      <Label htmlFor="event-date">{t('communityNetwork.event.date')}</Label>
                       <Input
                         id="event-date"
                         type="date"
@@ -349,7 +351,7 @@ const CommunityNetworkingPage = () => {
                       />
                     </div>
                     <div>
-                      <Label htmlFor="event-time">Time</Label>
+                      <Label htmlFor="event-time">{t('communityNetwork.event.time')}</Label>
                       <Input
                         id="event-time"
                         type="time"
@@ -359,7 +361,7 @@ const CommunityNetworkingPage = () => {
                     </div>
                   </div>
                   <div>
-                    <Label htmlFor="event-type">Event Type</Label>
+                    <Label htmlFor="event-type">{t('communityNetwork.event.typeLabel')}</Label>
                     <Select 
                       value={eventForm.event_type} 
                       onValueChange={(value) => setEventForm(prev => ({ ...prev, event_type: value }))}
@@ -368,10 +370,10 @@ const CommunityNetworkingPage = () => {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="webinar">Webinar</SelectItem>
-                        <SelectItem value="workshop">Workshop</SelectItem>
-                        <SelectItem value="meetup">Meetup</SelectItem>
-                        <SelectItem value="conference">Conference</SelectItem>
+                        <SelectItem value="webinar">{t('communityNetwork.event.webinar')}</SelectItem>
+                        <SelectItem value="workshop">{t('communityNetwork.event.workshop')}</SelectItem>
+                        <SelectItem value="meetup">{t('communityNetwork.event.meetup')}</SelectItem>
+                        <SelectItem value="conference">{t('communityNetwork.event.conference')}</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -381,13 +383,13 @@ const CommunityNetworkingPage = () => {
                       disabled={communityLoading}
                       className="flex-1"
                     >
-                      {communityLoading ? 'Creating...' : 'Create Event'}
+                      {communityLoading ? t('communityNetwork.event.creating') : t('communityNetwork.event.create')}
                     </Button>
                     <Button
                       variant="outline"
                       onClick={() => setShowEventModal(false)}
                     >
-                      Cancel
+                      {t('common.cancel')}
                     </Button>
                   </div>
                 </div>
@@ -400,9 +402,9 @@ const CommunityNetworkingPage = () => {
               <Card key={event.id} className="hover:shadow-md transition-shadow">
                 <CardContent className="p-6">
                   <div className="flex items-start justify-between mb-4">
-                    <Badge variant="outline">{event.event_type}</Badge>
+                    <Badge variant="outline">{t('communityNetwork.event.type', { type: event.event_type })}</Badge>
                     <div className="text-xs text-muted-foreground">
-                      {event.current_attendees}/{event.max_attendees} attending
+                      {t('communityNetwork.event.attending', { current: event.current_attendees, max: event.max_attendees })}
                     </div>
                   </div>
                   <h3 className="font-medium mb-2">{event.title}</h3>
@@ -410,7 +412,7 @@ const CommunityNetworkingPage = () => {
                   <div className="space-y-2 mb-4">
                     <div className="flex items-center gap-2 text-sm">
                       <Calendar className="h-4 w-4 text-muted-foreground" />
-                      <span>{new Date(event.event_date).toLocaleDateString()} at {event.event_time}</span>
+                      <span>{t('communityNetwork.event.when', { date: new Date(event.event_date), time: event.event_time })}</span>
                     </div>
                     {event.location && (
                       <div className="flex items-center gap-2 text-sm">
@@ -426,7 +428,7 @@ const CommunityNetworkingPage = () => {
                     onClick={() => handleRSVP(event.id)}
                     disabled={communityLoading}
                   >
-                    {hasRSVPToEvent(event.id) ? "Attending" : "RSVP"}
+                    {hasRSVPToEvent(event.id) ? t('communityNetwork.event.attendingButton') : t('communityNetwork.event.rsvp')}
                   </Button>
                 </CardContent>
               </Card>
@@ -437,40 +439,40 @@ const CommunityNetworkingPage = () => {
         {/* Spotlight Tab */}
         <TabsContent value="spotlight" className="space-y-6">
           <div className="flex justify-between items-center">
-            <h2 className="text-2xl font-bold">Success Stories</h2>
+            <h2 className="text-2xl font-bold">{t('communityNetwork.stats.stories')}</h2>
             <Dialog open={showStoryModal} onOpenChange={setShowStoryModal}>
               <DialogTrigger asChild>
                 <Button className="gap-2">
                   <Plus className="h-4 w-4" />
-                  Share Your Story
+                  {t('communityNetwork.story.share')}
                 </Button>
               </DialogTrigger>
               <DialogContent className="max-w-md">
                 <DialogHeader>
-                  <DialogTitle>Share Your Success Story</DialogTitle>
+                  <DialogTitle>{t('communityNetwork.story.dialog')}</DialogTitle>
                 </DialogHeader>
                 <div className="space-y-4">
                   <div>
-                    <Label htmlFor="story-title">Title</Label>
+                    <Label htmlFor="story-title">{t('communityNetwork.story.titleLabel')}</Label>
                     <Input
                       id="story-title"
                       value={storyForm.title}
                       onChange={(e) => setStoryForm(prev => ({ ...prev, title: e.target.value }))}
-                      placeholder="Enter story title"
+                      placeholder={t('communityNetwork.story.titlePlaceholder')}
                     />
                   </div>
                   <div>
-                    <Label htmlFor="story-description">Description</Label>
+                    <Label htmlFor="story-description">{t('communityNetwork.description')}</Label>
                     <Textarea
                       id="story-description"
                       value={storyForm.description}
                       onChange={(e) => setStoryForm(prev => ({ ...prev, description: e.target.value }))}
-                      placeholder="Tell your success story..."
+                      placeholder={t('communityNetwork.story.descPlaceholder')}
                       rows={3}
                     />
                   </div>
                   <div>
-                    <Label htmlFor="content-type">Content Type</Label>
+                    <Label htmlFor="content-type">{t('communityNetwork.story.contentType')}</Label>
                     <Select 
                       value={storyForm.content_type} 
                       onValueChange={(value) => setStoryForm(prev => ({ ...prev, content_type: value as 'article' | 'video' }))}
@@ -479,14 +481,14 @@ const CommunityNetworkingPage = () => {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="article">Article</SelectItem>
-                        <SelectItem value="video">Video</SelectItem>
+                        <SelectItem value="article">{t('communityNetwork.story.article')}</SelectItem>
+                        <SelectItem value="video">{t('communityNetwork.story.video')}</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
                   {storyForm.content_type === 'video' && (
                     <div>
-                      <Label htmlFor="content-url">Video URL</Label>
+                      <Label htmlFor="content-url">{t('communityNetwork.story.videoUrl')}</Label>
                       <Input
                         id="content-url"
                         value={storyForm.content_url}
@@ -501,13 +503,13 @@ const CommunityNetworkingPage = () => {
                       disabled={communityLoading}
                       className="flex-1"
                     >
-                      {communityLoading ? 'Publishing...' : 'Publish Story'}
+                      {communityLoading ? t('communityNetwork.story.publishing') : t('communityNetwork.story.publish')}
                     </Button>
                     <Button
                       variant="outline"
                       onClick={() => setShowStoryModal(false)}
                     >
-                      Cancel
+                      {t('common.cancel')}
                     </Button>
                   </div>
                 </div>
@@ -540,8 +542,8 @@ const CommunityNetworkingPage = () => {
                   <h4 className="font-medium mb-2 line-clamp-2">{story.title}</h4>
                   <p className="text-sm text-muted-foreground mb-2 line-clamp-2">{story.description}</p>
                   <div className="flex items-center justify-between text-xs text-muted-foreground">
-                    <span>{story.views} views</span>
-                    <span>{new Date(story.created_at).toLocaleDateString()}</span>
+                    <span>{t('communityNetwork.story.views', { count: story.views })}</span>
+                    <span>{t('communityNetwork.date', { date: new Date(story.created_at) })}</span>
                   </div>
                 </CardContent>
               </Card>
@@ -552,13 +554,13 @@ const CommunityNetworkingPage = () => {
         {/* Connections Tab */}
         <TabsContent value="connections" className="space-y-6">
           <div className="flex justify-between items-center">
-            <h2 className="text-2xl font-bold">Your Connections</h2>
+            <h2 className="text-2xl font-bold">{t('communityNetwork.connections.title')}</h2>
             <Button 
               className="gap-2"
               onClick={() => navigate('/available-chamas')}
             >
               <Plus className="h-4 w-4" />
-              Connect with Chama
+              {t('communityNetwork.connections.connect')}
             </Button>
           </div>
 
@@ -566,12 +568,12 @@ const CommunityNetworkingPage = () => {
           <Card>
             <CardContent className="p-8 text-center">
               <MessageCircle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-              <h3 className="text-lg font-medium mb-2">No connections yet</h3>
+              <h3 className="text-lg font-medium mb-2">{t('communityNetwork.connections.empty')}</h3>
               <p className="text-muted-foreground mb-4">
-                Start connecting with other chamas to collaborate and share opportunities
+                {t('communityNetwork.connections.emptyDesc')}
               </p>
               <Button onClick={() => navigate('/available-chamas')}>
-                Browse Available Chamas
+                {t('communityNetwork.connections.browse')}
               </Button>
             </CardContent>
           </Card>
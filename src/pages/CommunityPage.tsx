@@ -11,6 +11,7 @@ import {
   Shield
 } from 'lucide-react';
 import Navigation from '@/components/Navigation';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 // Import existing page content components
 import CommunityHubPage from './CommunityHubPage';
@@ -19,10 +20,12 @@ import VotingSystemPage from './VotingSystemPage';
 import FinancialNavigatorPage from './FinancialNavigatorPage';
 
 const CommunityPage = () => {
+  const { t } = useLanguage();
+
   const getMainTabs = (): MainTab[] => [
     {
       id: 'hub',
-      label: 'Community Hub',
+      label: t('nav.communityHub'),
       icon: <Users className="h-4 w-4" />,
       content: (
         <div className="pt-4">
@@ -32,7 +35,7 @@ const CommunityPage = () => {
     },
     {
       id: 'networking',
-      label: 'Networking',
+      label: t('nav.networking'),
       icon: <Network className="h-4 w-4" />,
       content: (
         <div className="pt-4">
@@ -42,7 +45,7 @@ const CommunityPage = () => {
     },
     {
       id: 'voting',
-      label: 'Voting System',
+      label: t('nav.votingSystem'),
       icon: <Vote className="h-4 w-4" />,
       content: (
         <div className="pt-4">
@@ -52,7 +55,7 @@ const CommunityPage = () => {
     },
     {
       id: 'navigator',
-      label: 'Financial Navigator',
+      label: t('nav.financialNavigator'),
       icon: <Compass className="h-4 w-4" />,
       content: (
         <div className="pt-4">
@@ -76,10 +79,10 @@ const CommunityPage = () => {
               </div>
               <div>
                 <h1 className="text-4xl font-bold bg-gradient-to-r from-primary to-primary/80 bg-clip-text text-transparent">
-                  Community Platform
+                  {t('community.title')}
                 </h1>
                 <p className="text-muted-foreground text-lg">
-                  Connect, learn, and grow together in our financial community
+                  {t('community.subtitle')}
                 </p>
               </div>
             </div>
@@ -5,6 +5,7 @@ import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/
 import { Input } from "@/components/ui/input";
 import { useNavigate } from "react-router-dom";
 import { useState, useEffect } from "react";
+import { useLanguage } from "@/contexts/LanguageContext";
 import { 
   ArrowRight, Shield, Users, Wallet, TrendingUp, Star, CheckCircle, 
   Quote, Sparkles, Mail, Zap, Target, Heart
@@ -19,6 +20,7 @@ import teamWorkspaceImage from "@/assets/team-workspace.jpg";
 
 const CompanyPage = () => {
   const navigate = useNavigate();
+  const { t } = useLanguage();
   const [email, setEmail] = useState("");
   const [activeUsers, setActiveUsers] = useState(0);
   const [activeChamas, setActiveChamas] = useState(0);
@@ -51,23 +53,23 @@ const CompanyPage = () => {
   const features = [
     {
       icon: <Wallet className="h-8 w-8" />,
-      title: "Digital Wallets",
-      description: "Connect M-Pesa, Airtel Money, and bank accounts for seamless financial integration."
+      title: t('company.features.wallets'),
+      description: t('company.features.wallets.desc')
     },
     {
       icon: <Users className="h-8 w-8" />,
-      title: "Group Savings & Merry-Go-Round",
-      description: "Automate contributions, manage group savings, and handle rotating credit associations."
+      title: t('company.features.savings'),
+      description: t('company.features.savings.desc')
     },
     {
       icon: <Shield className="h-8 w-8" />,
-      title: "Loan Management",
-      description: "Apply, approve, and disburse loans digitally with AI-powered credit assessments."
+      title: t('company.features.loans'),
+      description: t('company.features.loans.desc')
     },
     {
       icon: <TrendingUp className="h-8 w-8" />,
-      title: "Transparency & Analytics",
-      description: "Real-time reports visible to all members with comprehensive financial tracking."
+      title: t('company.features.analytics'),
+      description: t('company.features.analytics.desc')
     }
   ];
 
@@ -97,35 +99,35 @@ const CompanyPage = () => {
 
   const faqs = [
     {
-      question: "How secure is ChamaWallet?",
-      answer: "ChamaWallet uses bank-grade 256-bit SSL encryption, multi-factor authentication, and continuous security monitoring. Your data and funds are protected by the same security standards used by major financial institutions."
+      question: t('company.faq.security'),
+      answer: t('company.faq.security.answer')
     },
     {
-      question: "How much does it cost to use ChamaWallet?",
-      answer: "We offer a freemium model with basic features available for free. Premium features start from KES 500 per month per group. Transaction fees are minimal and transparent, typically 1-2% depending on the transaction type."
+      question: t('company.faq.cost'),
+      answer: t('company.faq.cost.answer', { amount: 500 })
     },
     {
-      question: "Can we integrate with M-Pesa?",
-      answer: "Yes! ChamaWallet has seamless integration with M-Pesa, Airtel Money, and major banks. Members can make contributions and withdrawals directly through their mobile money accounts."
+      question: t('company.faq.mpesa'),
+      answer: t('company.faq.mpesa.answer')
     },
     {
-      question: "What happens if a member disputes a transaction?",
-      answer: "We have a comprehensive dispute resolution system. All transactions are recorded with timestamps and can be reviewed by group admins. Our support team is available to help mediate and resolve any disputes."
+      question: t('company.faq.disputes'),
+      answer: t('company.faq.disputes.answer')
     },
     {
-      question: "How do I get started?",
-      answer: "Simply sign up for free, create your chama profile, invite members, and start managing your group savings digitally. Our onboarding process takes less than 10 minutes!"
+      question: t('company.faq.start'),
+      answer: t('company.faq.start.answer')
     },
     {
-      question: "Is there a mobile app?",
-      answer: "Yes! ChamaWallet is available on both web and mobile (iOS and Android). Access your group savings anytime, anywhere."
+      question: t('company.faq.app'),
+      answer: t('company.faq.app.answer')
     }
   ];
 
   const benefits = [
-    "Mobile-first design for easy access anywhere",
-    "Integrated M-Pesa and mobile money support",
-    "Transparent contribution tracking"
+    t('company.benefits.mobile'),
+    t('company.benefits.mpesa'),
+    t('company.benefits.tracking')
   ];
 
   return (
@@ -140,7 +142,7 @@ const CompanyPage = () => {
               </div>
               <div>
                 <span className="text-xl font-bold text-foreground">ChamaWallet</span>
-                <div className="text-xs text-kenyan-gold font-medium">Empowering Communities</div>
+                <div className="text-xs text-kenyan-gold font-medium">{t('company.tagline')}</div>
               </div>
             </div>
             
@@ -150,20 +152,20 @@ const CompanyPage = () => {
                 onClick={() => navigate("/portal")}
                 className="text-foreground hover:text-kenyan-green transition-colors"
               >
-                Portal
+                {t('company.nav.portal')}
               </Button>
               <Button 
                 variant="ghost" 
                 onClick={() => navigate("/auth")}
                 className="text-foreground hover:text-kenyan-green transition-colors"
               >
-                Login
+                {t('company.nav.login')}
               </Button>
               <Button 
                 onClick={() => navigate("/auth")}
                 className="bg-gradient-to-r from-kenyan-green to-primary hover:from-kenyan-green/90 hover:to-primary/90 text-kenyan-green-foreground shadow-lg hover:shadow-xl transition-all duration-300"
               >
-                Get Started
+                {t('company.nav.start')}
                 <ArrowRight className="ml-2 h-4 w-4" />
               </Button>
             </div>
@@ -184,20 +186,19 @@ const CompanyPage = () => {
               <div className="space-y-6">
                 <Badge variant="secondary" className="w-fit bg-kenyan-green/10 text-kenyan-green border-kenyan-green/20 hover:bg-kenyan-green/20 transition-colors">
                   <Star className="h-3 w-3 mr-1 text-kenyan-gold" />
-                  Trusted by 100+ Active Chamas
+                  {t('company.hero.badge')}
                 </Badge>
                 
                 <h1 className="text-5xl lg:text-7xl font-bold text-foreground leading-tight">
-                  Digitizing Africa's
+                  {t('company.hero.title1')}
                   <span className="text-transparent bg-gradient-to-r from-kenyan-green to-primary bg-clip-text block mt-2">
-                    Grassroots
+                    {t('company.hero.title2')}
                   </span>
-                  <span className="text-kenyan-gold">Savings Culture</span>
+                  <span className="text-kenyan-gold">{t('company.hero.title3')}</span>
                 </h1>
                 
                 <p className="text-xl text-muted-foreground max-w-2xl leading-relaxed">
-                  Empowering communities by transforming Chamas into secure, transparent, 
-                  and scalable digital financial ecosystems across Africa.
+                  {t('company.hero.desc')}
                 </p>
               </div>
               
@@ -207,7 +208,7 @@ const CompanyPage = () => {
                   onClick={() => navigate("/auth")}
                   className="bg-gradient-to-r from-kenyan-green to-primary hover:from-kenyan-green/90 hover:to-primary/90 text-kenyan-green-foreground px-8 py-4 text-lg shadow-xl hover:shadow-2xl transition-all duration-300 hover:scale-105"
                 >
-                  Get Started Free
+                  {t('company.hero.startFree')}
                   <ArrowRight className="ml-2 h-5 w-5" />
                 </Button>
                 
@@ -217,18 +218,18 @@ const CompanyPage = () => {
                   onClick={() => navigate("/auth")}
                   className="border-kenyan-green/30 text-kenyan-green hover:border-kenyan-green hover:bg-kenyan-green/5 px-8 py-4 text-lg transition-all duration-300"
                 >
-                  Request Demo
+                  {t('company.hero.demo')}
                 </Button>
               </div>
 
               <div className="flex items-center space-x-8 pt-4">
                 <div className="flex items-center space-x-2">
                   <div className="w-3 h-3 bg-kenyan-gold rounded-full animate-pulse"></div>
-                  <span className="text-sm text-muted-foreground">Live on Mobile & Web</span>
+                  <span className="text-sm text-muted-foreground">{t('company.hero.live')}</span>
                 </div>
                 <div className="flex items-center space-x-2">
                   <Shield className="h-4 w-4 text-kenyan-green" />
-                  <span className="text-sm text-muted-foreground">Bank-Grade Security</span>
+                  <span className="text-sm text-muted-foreground">{t('company.hero.security')}</span>
                 </div>
               </div>
             </div>
@@ -237,7 +238,7 @@ const CompanyPage = () => {
               <div className="relative z-10 animate-float">
                 <img 
                   src={chamaHeroImage} 
-                  alt="Chama group savings meeting in Kenya" 
+                  alt={t('company.hero.alt')} 
                   className="rounded-3xl shadow-2xl w-full h-auto border border-kenyan-green/10"
                 />
                 <div className="absolute -top-4 -right-4 w-24 h-24 bg-gradient-to-r from-kenyan-gold to-kenyan-green rounded-2xl flex items-center justify-center shadow-xl">
@@ -255,10 +256,10 @@ const CompanyPage = () => {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="text-center space-y-4 mb-16 animate-fade-in-up">
             <h2 className="text-3xl lg:text-4xl font-bold text-foreground">
-              Everything You Need for Group Savings
+              {t('company.features.title')}
             </h2>
             <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
-              Our comprehensive platform provides all the tools your chama needs to thrive
+              {t('company.features.desc')}
             </p>
           </div>
           
@@ -281,7 +282,7 @@ const CompanyPage = () => {
             <div className="relative order-2 lg:order-1 animate-slide-in-left">
               <img 
                 src={mobileMoneyImage} 
-                alt="Mobile money integration" 
+                alt={t('company.mobileMoney.alt')} 
                 className="rounded-2xl shadow-2xl w-full h-auto"
               />
               <div className="absolute -inset-4 bg-gradient-to-r from-primary/20 to-primary/10 rounded-3xl blur-2xl -z-10"></div>
@@ -289,11 +290,10 @@ const CompanyPage = () => {
             
             <div className="space-y-6 order-1 lg:order-2">
               <h3 className="text-2xl lg:text-3xl font-bold text-foreground">
-                Seamless Mobile Money Integration
+                {t('company.mobileMoney.title')}
               </h3>
               <p className="text-lg text-muted-foreground">
-                Connect effortlessly with M-Pesa, Airtel Money, and major banks. 
-                Make contributions and withdrawals with just a few taps on your phone.
+                {t('company.mobileMoney.desc')}
               </p>
               <div className="space-y-3">
                 {benefits.map((benefit, index) => (
@@ -314,13 +314,13 @@ const CompanyPage = () => {
           <div className="text-center space-y-4 mb-16 animate-fade-in-up">
             <Badge className="bg-primary/10 text-primary border-primary/20">
               <Sparkles className="h-3 w-3 mr-1" />
-              Live Impact Metrics
+              {t('company.metrics.badge')}
             </Badge>
             <h2 className="text-3xl lg:text-4xl font-bold text-foreground">
-              Transforming Communities Together
+              {t('company.metrics.title')}
             </h2>
             <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
-              Real numbers from real people building financial futures
+              {t('company.metrics.desc')}
             </p>
           </div>
           
@@ -333,8 +333,8 @@ const CompanyPage = () => {
                 <div className="text-5xl font-bold text-kenyan-green">
                   {activeUsers.toLocaleString()}+
                 </div>
-                <div className="text-xl font-semibold text-foreground">Active Users</div>
-                <div className="text-muted-foreground">Growing community members</div>
+                <div className="text-xl font-semibold text-foreground">{t('company.metrics.users')}</div>
+                <div className="text-muted-foreground">{t('company.metrics.users.desc')}</div>
               </CardContent>
             </Card>
 
@@ -346,8 +346,8 @@ const CompanyPage = () => {
                 <div className="text-5xl font-bold text-kenyan-gold">
                   {activeChamas}+
                 </div>
-                <div className="text-xl font-semibold text-foreground">Active Chamas</div>
-                <div className="text-muted-foreground">Successfully onboarded groups</div>
+                <div className="text-xl font-semibold text-foreground">{t('company.metrics.chamas')}</div>
+                <div className="text-muted-foreground">{t('company.metrics.chamas.desc')}</div>
               </CardContent>
             </Card>
 
@@ -357,10 +357,10 @@ const CompanyPage = () => {
                   <TrendingUp className="h-8 w-8 text-primary-foreground" />
                 </div>
                 <div className="text-5xl font-bold text-primary">
-                  KES {(totalSavings / 1000000).toFixed(1)}M+
+                  {t('company.metrics.savingsValue', { amount: totalSavings })}
                 </div>
-                <div className="text-xl font-semibold text-foreground">Total Savings</div>
-                <div className="text-muted-foreground">Managed through our platform</div>
+                <div className="text-xl font-semibold text-foreground">{t('company.metrics.savings')}</div>
+                <div className="text-muted-foreground">{t('company.metrics.savings.desc')}</div>
               </CardContent>
             </Card>
           </div>
@@ -368,19 +368,17 @@ const CompanyPage = () => {
           <div className="grid lg:grid-cols-2 gap-12 items-center">
             <div className="space-y-8 animate-slide-in-left">
               <h3 className="text-2xl lg:text-3xl font-bold text-foreground">
-                Making Financial Inclusion a Reality
+                {t('company.inclusion.title')}
               </h3>
               <p className="text-lg text-muted-foreground leading-relaxed">
-                Over 80% of Africans rely on informal financial systems. ChamaWallet bridges 
-                the gap between traditional savings groups and modern digital finance, bringing 
-                transparency, security, and scalability to community-driven financial growth.
+                {t('company.inclusion.desc')}
               </p>
               <Button 
                 size="lg"
                 onClick={() => navigate("/auth")}
                 className="bg-gradient-to-r from-kenyan-green to-primary hover:from-kenyan-green/90 hover:to-primary/90 text-kenyan-green-foreground shadow-lg hover:shadow-xl transition-all duration-300"
               >
-                Join Our Community
+                {t('company.inclusion.join')}
                 <ArrowRight className="ml-2 h-5 w-5" />
               </Button>
             </div>
@@ -388,7 +386,7 @@ const CompanyPage = () => {
             <div className="relative animate-slide-in-right">
               <img 
                 src={financialSuccessImage} 
-                alt="Community financial success" 
+                alt={t('company.inclusion.alt')} 
                 className="rounded-2xl shadow-2xl w-full h-auto"
               />
               <div className="absolute -inset-4 bg-gradient-to-r from-primary/20 to-primary/10 rounded-3xl blur-2xl -z-10"></div>
@@ -403,13 +401,13 @@ const CompanyPage = () => {
           <div className="text-center space-y-4 mb-16 animate-fade-in-up">
             <Badge className="bg-kenyan-green/10 text-kenyan-green border-kenyan-green/20">
               <Heart className="h-3 w-3 mr-1" />
-              Community Stories
+              {t('company.stories.badge')}
             </Badge>
             <h2 className="text-3xl lg:text-4xl font-bold text-foreground">
-              Trusted by Community Leaders
+              {t('company.stories.title')}
             </h2>
             <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
-              Hear from the people who are transforming their communities with ChamaWallet
+              {t('company.stories.desc')}
             </p>
           </div>
           
@@ -449,10 +447,10 @@ const CompanyPage = () => {
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="text-center space-y-4 mb-16 animate-fade-in-up">
             <h2 className="text-3xl lg:text-4xl font-bold text-foreground">
-              Frequently Asked Questions
+              {t('company.faq.title')}
             </h2>
             <p className="text-lg text-muted-foreground">
-              Everything you need to know about ChamaWallet
+              {t('company.faq.desc')}
             </p>
           </div>
           
@@ -489,24 +487,24 @@ const CompanyPage = () => {
               </div>
               
               <h2 className="text-3xl lg:text-4xl font-bold text-kenyan-green-foreground">
-                Stay Updated with ChamaWallet
+                {t('company.newsletter.title')}
               </h2>
               <p className="text-lg text-kenyan-green-foreground/80 max-w-2xl mx-auto">
-                Get the latest updates on new features, financial tips, and community success stories delivered to your inbox.
+                {t('company.newsletter.desc')}
               </p>
             </div>
             
             <form 
               onSubmit={(e) => {
                 e.preventDefault();
-                alert(`Thanks for subscribing with ${email}!`);
+                alert(t('company.newsletter.thanks', { email }));
                 setEmail("");
               }}
               className="flex flex-col sm:flex-row gap-4 max-w-xl mx-auto"
             >
               <Input
                 type="email"
-                placeholder="Enter your email address"
+                placeholder={t('company.newsletter.placeholder')}
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
                 required
@@ -517,13 +515,13 @@ const CompanyPage = () => {
                 size="lg"
                 className="bg-kenyan-gold text-kenyan-gold-foreground hover:bg-kenyan-gold/90 shadow-xl hover:shadow-2xl transition-all duration-300 hover:scale-105"
               >
-                Subscribe
+                {t('company.newsletter.subscribe')}
                 <ArrowRight className="ml-2 h-5 w-5" />
               </Button>
             </form>
             
             <p className="text-sm text-kenyan-green-foreground/60">
-              Join 5,000+ subscribers. Unsubscribe anytime. No spam, we promise! 🎉
+              {t('company.newsletter.note')}
             </p>
           </div>
         </div>
@@ -536,17 +534,16 @@ const CompanyPage = () => {
           <div className="space-y-10">
             <div className="space-y-6">
               <Badge className="bg-kenyan-gold/20 text-kenyan-gold border-kenyan-gold/30 hover:bg-kenyan-gold/30">
-                🚀 Join the Revolution
+                {t('company.cta.badge')}
               </Badge>
               <h2 className="text-4xl lg:text-5xl font-bold text-foreground">
-                Ready to Transform Your 
+                {t('company.cta.title')}
                 <span className="text-transparent bg-gradient-to-r from-kenyan-green to-kenyan-gold bg-clip-text block">
-                  Chama Experience?
+                  {t('company.cta.titleHighlight')}
                 </span>
               </h2>
               <p className="text-xl text-muted-foreground max-w-3xl mx-auto leading-relaxed">
-                Join hundreds of groups already using ChamaWallet to manage their savings, 
-                track contributions, and achieve their financial goals together. Start your digital transformation today.
+                {t('company.cta.desc')}
               </p>
             </div>
             
@@ -556,7 +553,7 @@ const CompanyPage = () => {
                 onClick={() => navigate("/auth")}
                 className="bg-gradient-to-r from-kenyan-green to-primary hover:from-kenyan-green/90 hover:to-primary/90 text-kenyan-green-foreground px-10 py-4 text-lg shadow-xl hover:shadow-2xl transition-all duration-300 hover:scale-105"
               >
-                Get Started Free
+                {t('company.hero.startFree')}
                 <ArrowRight className="ml-2 h-5 w-5" />
               </Button>
               
@@ -566,7 +563,7 @@ const CompanyPage = () => {
                 onClick={() => navigate("/auth")}
                 className="border-kenyan-navy/30 text-kenyan-navy hover:border-kenyan-navy hover:bg-kenyan-navy/5 px-10 py-4 text-lg transition-all duration-300"
               >
-                Login to Your Account
+                {t('company.cta.login')}
               </Button>
             </div>
           </div>
@@ -585,29 +582,29 @@ const CompanyPage = () => {
                 <span className="text-xl font-bold">ChamaWallet</span>
               </div>
               <p className="text-kenyan-navy-foreground/80">
-                Transforming Africa's traditional savings groups into secure, transparent digital financial ecosystems.
+                {t('company.footer.desc')}
               </p>
             </div>
 
             <div className="space-y-3">
-              <h3 className="font-semibold text-kenyan-gold">Quick Links</h3>
+              <h3 className="font-semibold text-kenyan-gold">{t('company.footer.links')}</h3>
               <ul className="space-y-2">
-                <li><a href="#" className="text-kenyan-navy-foreground/80 hover:text-kenyan-green transition-colors">About Us</a></li>
-                <li><a href="#" className="text-kenyan-navy-foreground/80 hover:text-kenyan-green transition-colors">Features</a></li>
-                <li><a href="#" className="text-kenyan-navy-foreground/80 hover:text-kenyan-green transition-colors">Pricing</a></li>
-                <li><a href="#" className="text-kenyan-navy-foreground/80 hover:text-kenyan-green transition-colors">Contact</a></li>
+                <li><a href="#" className="text-kenyan-navy-foreground/80 hover:text-kenyan-green transition-colors">{t('company.footer.about')}</a></li>
+                <li><a href="#" className="text-kenyan-navy-foreground/80 hover:text-kenyan-green transition-colors">{t('company.footer.features')}</a></li>
+                <li><a href="#" className="text-kenyan-navy-foreground/80 hover:text-kenyan-green transition-colors">{t('company.footer.pricing')}</a></li>
+                <li><a href="#" className="text-kenyan-navy-foreground/80 hover:text-kenyan-green transition-colors">{t('company.footer.contact')}</a></li>
               </ul>
             </div>
 
             <div className="space-y-3">
-              <h3 className="font-semibold text-kenyan-gold">Legal</h3>
+              <h3 className="font-semibold text-kenyan-gold">{t('company.footer.legal')}</h3>
               <ul className="space-y-2">
                 <li>
                   <button 
                     onClick={() => navigate("/privacy")} 
                     className="text-kenyan-navy-foreground/80 hover:text-kenyan-green transition-colors"
                   >
-                    Privacy Policy
+                    {t('company.footer.privacy')}
                   </button>
                 </li>
                 <li>
@@ -615,7 +612,7 @@ const CompanyPage = () => {
                     onClick={() => navigate("/terms")} 
                     className="text-kenyan-navy-foreground/80 hover:text-kenyan-green transition-colors"
                   >
-                    Terms of Service
+                    {t('company.footer.terms')}
                   </button>
                 </li>
               </ul>
@@ -624,7 +621,7 @@ const CompanyPage = () => {
 
           <div className="border-t border-kenyan-navy-foreground/20 pt-8 text-center">
             <p className="text-kenyan-navy-foreground/60">
-              © 2025 ChamaWallet. All rights reserved. | Empowering Communities Across Africa
+              {t('company.footer.copyright')}
             </p>
           </div>
         </div>
@@ -35,8 +35,8 @@ const CreateChamaPage = () => {
     
     if (!user) {
       toast({
-        title: "Authentication Required",
-        description: "Please log in to create a chama.",
+        title: t('chama.create.authRequired'),
+        description: t('chama.create.authRequired.desc'),
         variant: "destructive",
       });
       return;
@@ -44,8 +44,8 @@ const CreateChamaPage = () => {
     
     if (!formData.name || !formData.contribution_amount) {
       toast({
-        title: "Missing Information",
-        description: "Please fill in all required fields.",
+        title: t('chama.create.missingInfo'),
+        description: t('chama.create.missingInfo.desc'),
         variant: "destructive",
       });
       return;
@@ -101,7 +101,7 @@ const CreateChamaPage = () => {
             </Button>
             <div>
               <h1 className="text-3xl font-bold">{t('chama.create', 'Create New Chama')}</h1>
-              <p className="text-muted-foreground">Set up your savings group</p>
+              <p className="text-muted-foreground">{t('chama.create.subtitle')}</p>
             </div>
           </div>
 
@@ -109,10 +109,10 @@ const CreateChamaPage = () => {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Users className="h-5 w-5" />
-                Chama Details
+                {t('chama.create.details')}
               </CardTitle>
               <CardDescription>
-                Provide the basic information for your new Chama
+                {t('chama.create.details.desc')}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -123,7 +123,7 @@ const CreateChamaPage = () => {
                     id="name"
                     value={formData.name}
                     onChange={(e) => handleInputChange('name', e.target.value)}
-                    placeholder="Enter chama name"
+                    placeholder={t('chama.create.namePlaceholder')}
                     required
                     disabled={isLoading}
                   />
@@ -135,7 +135,7 @@ const CreateChamaPage = () => {
                     id="description"
                     value={formData.description}
                     onChange={(e) => handleInputChange('description', e.target.value)}
-                    placeholder="Describe the purpose and goals of your chama"
+                    placeholder={t('chama.create.descriptionPlaceholder')}
                     rows={3}
                     disabled={isLoading}
                   />
@@ -167,9 +167,9 @@ const CreateChamaPage = () => {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="weekly">Weekly</SelectItem>
-                        <SelectItem value="monthly">Monthly</SelectItem>
-                        <SelectItem value="quarterly">Quarterly</SelectItem>
+                        <SelectItem value="weekly">{t('chama.create.frequency', { frequency: 'weekly' })}</SelectItem>
+                        <SelectItem value="monthly">{t('chama.create.frequency', { frequency: 'monthly' })}</SelectItem>
+                        <SelectItem value="quarterly">{t('chama.create.frequency', { frequency: 'quarterly' })}</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -207,7 +207,7 @@ const CreateChamaPage = () => {
                     {isLoading ? (
                       <>
                         <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Creating...
+                        {t('chama.create.creating')}
                       </>
                     ) : (
                       t('chama.create')
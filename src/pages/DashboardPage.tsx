@@ -21,10 +21,12 @@ import { Badge } from '@/components/ui/badge';
 import { RefreshCw, AlertCircle, Wifi } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 export const DashboardPage: React.FC = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { t } = useLanguage();
   const { recentContribution } = useRealtimeContributions();
   
   // Auto-reconcile stuck Paystack payments
@@ -88,16 +90,16 @@ export const DashboardPage: React.FC = () => {
   const handleNotificationDismiss = (notificationId: string) => {
     // TODO: Implement notification dismissal
     toast({
-      title: "Notification dismissed",
-      description: "The notification has been removed.",
+      title: t('dashboard.notification.dismissed'),
+      description: t('dashboard.notification.dismissed.desc'),
     });
   };
 
   const handleNotificationRead = (notificationId: string) => {
     // TODO: Implement mark as read
     toast({
-      title: "Marked as read",
-      description: "The notification has been marked as read.",
+      title: t('dashboard.notification.read'),
+      description: t('dashboard.notification.read.desc'),
     });
   };
 
@@ -120,16 +122,16 @@ export const DashboardPage: React.FC = () => {
           <Card className="border-0 shadow-lg">
             <CardContent className="p-8 text-center">
               <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
-              <h2 className="text-xl font-semibold mb-2">Unable to Load Dashboard</h2>
+              <h2 className="text-xl font-semibold mb-2">{t('dashboard.error.title')}</h2>
               <p className="text-muted-foreground mb-4">
                 {isOffline 
-                  ? "You're currently offline. Please check your connection."
-                  : "There was an error loading your dashboard data."
+                  ? t('dashboard.error.offline')
+                  : t('dashboard.error.load')
                 }
               </p>
               <Button onClick={refreshDashboard} disabled={isOffline}>
                 <RefreshCw className="h-4 w-4 mr-2" />
-                Try Again
+                {t('dashboard.tryAgain')}
               </Button>
             </CardContent>
           </Card>
@@ -162,11 +164,11 @@ export const DashboardPage: React.FC = () => {
                 <div className="flex items-center gap-2">
                   <Wifi className="h-4 w-4 text-orange-600" />
                   <span className="text-sm text-orange-800">
-                    You're offline. Some features may not be available.
+                    {t('dashboard.offline.banner')}
                   </span>
                 </div>
                 <Badge variant="secondary" className="bg-orange-200 text-orange-800">
-                  Offline Mode
+                  {t('dashboard.offline.badge')}
                 </Badge>
               </CardContent>
             </Card>
@@ -242,7 +244,7 @@ export const DashboardPage: React.FC = () => {
             className="shadow-lg"
           >
             <RefreshCw className="h-4 w-4 mr-2" />
-            Refresh
+            {t('dashboard.refresh')}
           </Button>
         </div>
 
@@ -13,10 +13,12 @@ import {
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import Navigation from '@/components/Navigation';
+import { useLanguage } from '@/contexts/LanguageContext';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area, BarChart, Bar } from 'recharts';
 
 const FinancialNavigatorPage = () => {
   const navigate = useNavigate();
+  const { t } = useLanguage();
   const [selectedTimeframe, setSelectedTimeframe] = useState('30d');
 
   // Mock data for demonstrations
@@ -102,10 +104,10 @@ const FinancialNavigatorPage = () => {
               </div>
               <div>
                 <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
-                  AI Financial Navigator
+                  {t('navigator.title')}
                 </h1>
                 <p className="text-muted-foreground text-lg">
-                  Your intelligent financial companion powered by advanced AI
+                  {t('navigator.subtitle')}
                 </p>
               </div>
             </div>
@@ -113,10 +115,10 @@ const FinancialNavigatorPage = () => {
 
           <Tabs defaultValue="dashboard" className="w-full">
             <TabsList className="grid w-full grid-cols-4">
-              <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
-              <TabsTrigger value="cashflow">Cash Flow</TabsTrigger>
-              <TabsTrigger value="health">Health Score</TabsTrigger>
-              <TabsTrigger value="opportunities">Opportunities</TabsTrigger>
+              <TabsTrigger value="dashboard">{t('navigator.tabs.dashboard')}</TabsTrigger>
+              <TabsTrigger value="cashflow">{t('navigator.tabs.cashflow')}</TabsTrigger>
+              <TabsTrigger value="health">{t('navigator.tabs.health')}</TabsTrigger>
+              <TabsTrigger value="opportunities">{t('navigator.tabs.opportunities')}</TabsTrigger>
             </TabsList>
 
             <TabsContent value="dashboard">
@@ -127,11 +129,11 @@ const FinancialNavigatorPage = () => {
                     <CardContent className="p-6">
                       <div className="flex items-center justify-between">
                         <div>
-                          <p className="text-sm text-muted-foreground">Financial Health</p>
+                          <p className="text-sm text-muted-foreground">{t('navigator.metrics.health')}</p>
                           <p className="text-3xl font-bold text-green-600">{Math.round(overallHealthScore)}</p>
                           <p className="text-xs text-green-600 flex items-center mt-1">
                             <ArrowUp className="h-3 w-3 mr-1" />
-                            +5 this month
+                            {t('navigator.metrics.health.trend')}
                           </p>
                         </div>
                         <Shield className="h-8 w-8 text-green-500" />
@@ -144,9 +146,9 @@ const FinancialNavigatorPage = () => {
                     <CardContent className="p-6">
                       <div className="flex items-center justify-between">
                         <div>
-                          <p className="text-sm text-muted-foreground">Predicted Surplus</p>
-                          <p className="text-3xl font-bold text-blue-600">KES 4,200</p>
-                          <p className="text-xs text-blue-600">Next 30 days</p>
+                          <p className="text-sm text-muted-foreground">{t('navigator.metrics.surplus')}</p>
+                          <p className="text-3xl font-bold text-blue-600">{t('common.amount', { amount: 4200 })}</p>
+                          <p className="text-xs text-blue-600">{t('navigator.metrics.surplus.hint')}</p>
                         </div>
                         <TrendingUp className="h-8 w-8 text-blue-500" />
                       </div>
@@ -158,11 +160,11 @@ const FinancialNavigatorPage = () => {
                     <CardContent className="p-6">
                       <div className="flex items-center justify-between">
                         <div>
-                          <p className="text-sm text-muted-foreground">Savings Rate</p>
+                          <p className="text-sm text-muted-foreground">{t('navigator.metrics.savingsRate')}</p>
                           <p className="text-3xl font-bold text-purple-600">18%</p>
                           <p className="text-xs text-purple-600 flex items-center mt-1">
                             <ArrowUp className="h-3 w-3 mr-1" />
-                            Above average
+                            {t('navigator.metrics.savingsRate.trend')}
                           </p>
                         </div>
                         <PiggyBank className="h-8 w-8 text-purple-500" />
@@ -175,11 +177,11 @@ const FinancialNavigatorPage = () => {
                     <CardContent className="p-6">
                       <div className="flex items-center justify-between">
                         <div>
-                          <p className="text-sm text-muted-foreground">Credit Utilization</p>
+                          <p className="text-sm text-muted-foreground">{t('navigator.metrics.credit')}</p>
                           <p className="text-3xl font-bold text-orange-600">23%</p>
                           <p className="text-xs text-green-600 flex items-center mt-1">
                             <ArrowDown className="h-3 w-3 mr-1" />
-                            Improving
+                            {t('navigator.metrics.credit.trend')}
                           </p>
                         </div>
                         <CreditCard className="h-8 w-8 text-orange-500" />
@@ -193,8 +195,7 @@ const FinancialNavigatorPage = () => {
                 <Alert className="border-blue-200 bg-blue-50">
                   <Zap className="h-4 w-4" />
                   <AlertDescription>
-                    <strong>AI Insight:</strong> Your spending pattern suggests you could save KES 3,200 monthly by optimizing 
-                    recurring expenses. <Button variant="link" className="p-0 h-auto">View recommendations</Button>
+                    <strong>{t('navigator.insight')}</strong> {t('navigator.insight.desc', { amount: 3200 })} <Button variant="link" className="p-0 h-auto">{t('navigator.insight.view')}</Button>
                   </AlertDescription>
                 </Alert>
 
@@ -203,7 +204,7 @@ const FinancialNavigatorPage = () => {
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <Lightbulb className="h-5 w-5" />
-                      Top Opportunities This Week
+                      {t('navigator.topOpportunities')}
                     </CardTitle>
                   </CardHeader>
                   <CardContent>
@@ -217,7 +218,7 @@ const FinancialNavigatorPage = () => {
                           </div>
                           <div className="flex items-center gap-2">
                             <Badge variant={opportunity.urgency === 'high' ? 'destructive' : 'secondary'}>
-                              {opportunity.urgency}
+                              {t('navigator.urgency', { urgency: opportunity.urgency })}
                             </Badge>
                             <Button size="sm" variant="outline">
                               <ArrowRight className="h-4 w-4" />
@@ -235,9 +236,9 @@ const FinancialNavigatorPage = () => {
               <div className="grid gap-6">
                 <Card>
                   <CardHeader>
-                    <CardTitle>Predictive Cash Flow Analysis</CardTitle>
+                    <CardTitle>{t('navigator.cashflow.title')}</CardTitle>
                     <CardDescription>
-                      AI-powered predictions based on your transaction history and income patterns
+                      {t('navigator.cashflow.desc')}
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
@@ -262,7 +263,7 @@ const FinancialNavigatorPage = () => {
                     <CardHeader>
                       <CardTitle className="flex items-center gap-2">
                         <AlertTriangle className="h-5 w-5 text-orange-500" />
-                        Cash Flow Alerts
+                        {t('navigator.alerts.title')}
                       </CardTitle>
                     </CardHeader>
                     <CardContent>
@@ -270,13 +271,13 @@ const FinancialNavigatorPage = () => {
                         <Alert>
                           <AlertTriangle className="h-4 w-4" />
                           <AlertDescription>
-                            Potential shortfall of KES 2,100 expected on March 15th due to school fees payment
+                            {t('navigator.alerts.shortfall', { amount: 2100 })}
                           </AlertDescription>
                         </Alert>
                         <Alert className="border-green-200 bg-green-50">
                           <CheckCircle className="h-4 w-4" />
                           <AlertDescription>
-                            Salary boost detected! KES 5,000 bonus expected March 20th
+                            {t('navigator.alerts.bonus', { amount: 5000 })}
                           </AlertDescription>
                         </Alert>
                       </div>
@@ -285,20 +286,20 @@ const FinancialNavigatorPage = () => {
 
                   <Card>
                     <CardHeader>
-                      <CardTitle>Smart Recommendations</CardTitle>
+                      <CardTitle>{t('navigator.recs.title')}</CardTitle>
                     </CardHeader>
                     <CardContent>
                       <div className="space-y-4">
                         <div className="p-3 border-l-4 border-blue-500 bg-blue-50">
-                          <h4 className="font-medium text-blue-900">Micro-loan Suggestion</h4>
+                          <h4 className="font-medium text-blue-900">{t('navigator.recs.microLoan')}</h4>
                           <p className="text-sm text-blue-700 mt-1">
-                            Consider a KES 3,000 bridge loan at 2.1% interest to cover the March 15th gap
+                            {t('navigator.recs.microLoan.desc', { amount: 3000 })}
                           </p>
                         </div>
                         <div className="p-3 border-l-4 border-green-500 bg-green-50">
-                          <h4 className="font-medium text-green-900">Savings Opportunity</h4>
+                          <h4 className="font-medium text-green-900">{t('navigator.recs.savings')}</h4>
                           <p className="text-sm text-green-700 mt-1">
-                            Redirect KES 2,000 from your March bonus to emergency fund
+                            {t('navigator.recs.savings.desc', { amount: 2000 })}
                           </p>
                         </div>
                       </div>
@@ -314,10 +315,10 @@ const FinancialNavigatorPage = () => {
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <Shield className="h-5 w-5" />
-                      Financial Health Score: {Math.round(overallHealthScore)}
+                      {t('navigator.health.title', { score: Math.round(overallHealthScore) })}
                     </CardTitle>
                     <CardDescription>
-                      Comprehensive assessment beyond traditional credit scores
+                      {t('navigator.health.desc')}
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
@@ -327,7 +328,7 @@ const FinancialNavigatorPage = () => {
                           <div className="flex justify-between items-center">
                             <span className="font-medium">{item.category}</span>
                             <div className="flex items-center gap-2">
-                              <span className="text-sm text-muted-foreground">Weight: {item.weight}%</span>
+                              <span className="text-sm text-muted-foreground">{t('navigator.health.weight', { weight: item.weight })}</span>
                               <Badge variant="outline" style={{ color: item.color }}>
                                 {item.score}/100
                               </Badge>
@@ -343,29 +344,29 @@ const FinancialNavigatorPage = () => {
                 <div className="grid md:grid-cols-2 gap-6">
                   <Card>
                     <CardHeader>
-                      <CardTitle>Score Improvement Actions</CardTitle>
+                      <CardTitle>{t('navigator.improve.title')}</CardTitle>
                     </CardHeader>
                     <CardContent>
                       <div className="space-y-4">
                         <div className="flex items-start gap-3">
                           <CheckCircle className="h-5 w-5 text-green-500 mt-0.5" />
                           <div>
-                            <h4 className="font-medium">Complete Financial Literacy Module</h4>
-                            <p className="text-sm text-muted-foreground">+3 points to overall score</p>
+                            <h4 className="font-medium">{t('navigator.improve.literacy')}</h4>
+                            <p className="text-sm text-muted-foreground">{t('navigator.improve.literacy.desc')}</p>
                           </div>
                         </div>
                         <div className="flex items-start gap-3">
                           <Target className="h-5 w-5 text-blue-500 mt-0.5" />
                           <div>
-                            <h4 className="font-medium">Increase Savings Rate to 20%</h4>
-                            <p className="text-sm text-muted-foreground">+5 points to Savings Behavior</p>
+                            <h4 className="font-medium">{t('navigator.improve.savings')}</h4>
+                            <p className="text-sm text-muted-foreground">{t('navigator.improve.savings.desc')}</p>
                           </div>
                         </div>
                         <div className="flex items-start gap-3">
                           <Calendar className="h-5 w-5 text-purple-500 mt-0.5" />
                           <div>
-                            <h4 className="font-medium">Maintain 6-month Payment Streak</h4>
-                            <p className="text-sm text-muted-foreground">+8 points to Payment History</p>
+                            <h4 className="font-medium">{t('navigator.improve.streak')}</h4>
+                            <p className="text-sm text-muted-foreground">{t('navigator.improve.streak.desc')}</p>
                           </div>
                         </div>
                       </div>
@@ -374,24 +375,24 @@ const FinancialNavigatorPage = () => {
 
                   <Card>
                     <CardHeader>
-                      <CardTitle>Score Benefits</CardTitle>
+                      <CardTitle>{t('navigator.benefits.title')}</CardTitle>
                     </CardHeader>
                     <CardContent>
                       <div className="space-y-4">
                         <div className="p-3 border rounded-lg">
-                          <h4 className="font-medium text-green-600">Current Tier: Gold</h4>
+                          <h4 className="font-medium text-green-600">{t('navigator.tier.current')}</h4>
                           <ul className="text-sm text-muted-foreground mt-2 space-y-1">
-                            <li>• Interest rates from 8.5%</li>
-                            <li>• Credit limit up to KES 150,000</li>
-                            <li>• Priority customer support</li>
+                            <li>{t('navigator.tier.gold.rate')}</li>
+                            <li>{t('navigator.tier.limit', { amount: 150000 })}</li>
+                            <li>{t('navigator.tier.gold.support')}</li>
                           </ul>
                         </div>
                         <div className="p-3 border-2 border-dashed border-blue-300 rounded-lg">
-                          <h4 className="font-medium text-blue-600">Next Tier: Platinum (Score 90+)</h4>
+                          <h4 className="font-medium text-blue-600">{t('navigator.tier.next')}</h4>
                           <ul className="text-sm text-muted-foreground mt-2 space-y-1">
-                            <li>• Interest rates from 6.5%</li>
-                            <li>• Credit limit up to KES 300,000</li>
-                            <li>• Personal relationship manager</li>
+                            <li>{t('navigator.tier.platinum.rate')}</li>
+                            <li>{t('navigator.tier.limit', { amount: 300000 })}</li>
+                            <li>{t('navigator.tier.platinum.manager')}</li>
                           </ul>
                         </div>
                       </div>
@@ -413,7 +414,7 @@ const FinancialNavigatorPage = () => {
                             opportunity.urgency === 'high' ? 'destructive' : 
                             opportunity.urgency === 'medium' ? 'default' : 'secondary'
                           }>
-                            {opportunity.urgency}
+                            {t('navigator.urgency', { urgency: opportunity.urgency })}
                           </Badge>
                         </div>
                         <CardDescription>{opportunity.description}</CardDescription>
@@ -421,15 +422,15 @@ const FinancialNavigatorPage = () => {
                       <CardContent>
                         <div className="space-y-4">
                           <div className="flex items-center justify-between">
-                            <span className="text-sm text-muted-foreground">Potential Benefit</span>
+                            <span className="text-sm text-muted-foreground">{t('navigator.potential')}</span>
                             <span className="font-medium text-green-600">{opportunity.potential}</span>
                           </div>
                           <div className="flex items-center justify-between">
-                            <span className="text-sm text-muted-foreground">Risk Level</span>
-                            <Badge variant="outline">{opportunity.risk}</Badge>
+                            <span className="text-sm text-muted-foreground">{t('navigator.riskLevel')}</span>
+                            <Badge variant="outline">{t('navigator.risk', { risk: opportunity.risk })}</Badge>
                           </div>
                           <Button className="w-full">
-                            Take Action
+                            {t('navigator.takeAction')}
                             <ArrowRight className="ml-2 h-4 w-4" />
                           </Button>
                         </div>
@@ -442,10 +443,10 @@ const FinancialNavigatorPage = () => {
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <TrendingUp className="h-5 w-5" />
-                      Market Insights
+                      {t('navigator.market.title')}
                     </CardTitle>
                     <CardDescription>
-                      Localized economic trends affecting your finances
+                      {t('navigator.market.desc')}
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
@@ -6,9 +6,11 @@ import { Users, Plus, Calendar, DollarSign, TrendingUp, PiggyBank, Smartphone, A
 import CurrencyDisplay from '@/components/CurrencyDisplay';
 import FeaturesCarousel from '@/components/FeaturesCarousel';
 import { useNavigate } from 'react-router-dom';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 const Index = () => {
   const navigate = useNavigate();
+  const { t } = useLanguage();
 
   const upcomingContributions = [
     { chama: 'Unity Savings Group', amount: 5000, date: '2024-01-15', status: 'pending' },
@@ -76,14 +78,14 @@ const Index = () => {
       <div className="container mx-auto px-6 py-8 space-y-12 relative z-10">
         {/* Quick Financial Overview */}
         <div className="mb-8">
-          <h1 className="text-3xl font-bold mb-6">Welcome Back</h1>
+          <h1 className="text-3xl font-bold mb-6">{t('home.welcome')}</h1>
           
           {/* Financial Health Check */}
           <Card className="mb-6 bg-gradient-to-r from-green-50 to-blue-50 border-0 shadow-lg">
             <CardContent className="p-6">
               <div className="flex items-center justify-between mb-4">
-                <h3 className="text-lg font-semibold">Financial Health Score</h3>
-                <Badge variant="default" className="bg-green-500">Excellent</Badge>
+                <h3 className="text-lg font-semibold">{t('home.health')}</h3>
+                <Badge variant="default" className="bg-green-500">{t('home.health.excellent')}</Badge>
               </div>
               <div className="flex items-center gap-4">
                 <div className="w-full bg-gray-200 rounded-full h-3">
@@ -99,26 +101,26 @@ const Index = () => {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Calendar className="h-5 w-5" />
-                Today's Summary
+                {t('home.today')}
               </CardTitle>
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                 <div className="text-center p-3 bg-blue-50 rounded-lg">
                   <div className="text-2xl font-bold text-blue-600">2</div>
-                  <div className="text-sm text-muted-foreground">Due Contributions</div>
+                  <div className="text-sm text-muted-foreground">{t('home.today.due')}</div>
                 </div>
                 <div className="text-center p-3 bg-green-50 rounded-lg">
                   <div className="text-2xl font-bold text-green-600">1</div>
-                  <div className="text-sm text-muted-foreground">Meetings Today</div>
+                  <div className="text-sm text-muted-foreground">{t('home.today.meetings')}</div>
                 </div>
                 <div className="text-center p-3 bg-purple-50 rounded-lg">
                   <CurrencyDisplay amount={5500} className="text-2xl font-bold text-purple-600" showToggle={false} />
-                  <div className="text-sm text-muted-foreground">Expected Income</div>
+                  <div className="text-sm text-muted-foreground">{t('home.today.income')}</div>
                 </div>
                 <div className="text-center p-3 bg-orange-50 rounded-lg">
                   <div className="text-2xl font-bold text-orange-600">3</div>
-                  <div className="text-sm text-muted-foreground">Pending Approvals</div>
+                  <div className="text-sm text-muted-foreground">{t('home.today.approvals')}</div>
                 </div>
               </div>
             </CardContent>
@@ -129,7 +131,7 @@ const Index = () => {
         <div className="grid gap-8 md:grid-cols-2 lg:grid-cols-4">
           <Card className="group relative overflow-hidden border-0 shadow-xl bg-gradient-to-br from-blue-500 to-blue-600 text-white transform hover:scale-110 transition-all duration-300 hover:shadow-2xl">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
-              <CardTitle className="text-sm font-medium text-blue-100">Total Wealth</CardTitle>
+              <CardTitle className="text-sm font-medium text-blue-100">{t('home.stats.wealth')}</CardTitle>
               <div className="p-2 bg-white/20 rounded-lg">
                 <DollarSign className="h-5 w-5 text-white" />
               </div>
@@ -138,7 +140,7 @@ const Index = () => {
               <CurrencyDisplay amount={336000} className="text-4xl font-bold text-white mb-2" showToggle={false} />
               <p className="text-sm text-blue-100 flex items-center">
                 <TrendingUp className="h-4 w-4 mr-2" />
-                +12% from last month
+                {t('home.stats.wealth.trend')}
               </p>
             </CardContent>
             <div className="absolute top-0 right-0 w-24 h-24 bg-white/10 rounded-full -mr-12 -mt-12 group-hover:scale-110 transition-transform duration-300" />
@@ -147,14 +149,14 @@ const Index = () => {
 
           <Card className="group relative overflow-hidden border-0 shadow-xl bg-gradient-to-br from-green-500 to-green-600 text-white transform hover:scale-110 transition-all duration-300 hover:shadow-2xl">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
-              <CardTitle className="text-sm font-medium text-green-100">Active Chamas</CardTitle>
+              <CardTitle className="text-sm font-medium text-green-100">{t('home.stats.chamas')}</CardTitle>
               <div className="p-2 bg-white/20 rounded-lg">
                 <Users className="h-5 w-5 text-white" />
               </div>
             </CardHeader>
             <CardContent>
               <div className="text-4xl font-bold mb-2">2</div>
-              <p className="text-sm text-green-100">Both performing excellently</p>
+              <p className="text-sm text-green-100">{t('home.stats.chamas.desc')}</p>
             </CardContent>
             <div className="absolute top-0 right-0 w-24 h-24 bg-white/10 rounded-full -mr-12 -mt-12 group-hover:scale-110 transition-transform duration-300" />
             <div className="absolute bottom-0 left-0 w-16 h-16 bg-white/5 rounded-full -ml-8 -mb-8" />
@@ -162,14 +164,14 @@ const Index = () => {
 
           <Card className="group relative overflow-hidden border-0 shadow-xl bg-gradient-to-br from-purple-500 to-purple-600 text-white transform hover:scale-110 transition-all duration-300 hover:shadow-2xl">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
-              <CardTitle className="text-sm font-medium text-purple-100">Personal Savings</CardTitle>
+              <CardTitle className="text-sm font-medium text-purple-100">{t('home.personalSavings')}</CardTitle>
               <div className="p-2 bg-white/20 rounded-lg">
                 <PiggyBank className="h-5 w-5 text-white" />
               </div>
             </CardHeader>
             <CardContent>
               <CurrencyDisplay amount={85000} className="text-4xl font-bold text-white mb-2" showToggle={false} />
-              <p className="text-sm text-purple-100">Goal: KES 100,000</p>
+              <p className="text-sm text-purple-100">{t('home.stats.savings.goal', { amount: 100000 })}</p>
             </CardContent>
             <div className="absolute top-0 right-0 w-24 h-24 bg-white/10 rounded-full -mr-12 -mt-12 group-hover:scale-110 transition-transform duration-300" />
             <div className="absolute bottom-0 left-0 w-16 h-16 bg-white/5 rounded-full -ml-8 -mb-8" />
@@ -177,14 +179,14 @@ const Index = () => {
 
           <Card className="group relative overflow-hidden border-0 shadow-xl bg-gradient-to-br from-orange-500 to-orange-600 text-white transform hover:scale-110 transition-all duration-300 hover:shadow-2xl">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
-              <CardTitle className="text-sm font-medium text-orange-100">Growth Rate</CardTitle>
+              <CardTitle className="text-sm font-medium text-orange-100">{t('home.stats.growth')}</CardTitle>
               <div className="p-2 bg-white/20 rounded-lg">
                 <TrendingUp className="h-5 w-5 text-white" />
               </div>
             </CardHeader>
             <CardContent>
               <div className="text-4xl font-bold mb-2">18.5%</div>
-              <p className="text-sm text-orange-100">Annual return</p>
+              <p className="text-sm text-orange-100">{t('home.stats.growth.desc')}</p>
             </CardContent>
             <div className="absolute top-0 right-0 w-24 h-24 bg-white/10 rounded-full -mr-12 -mt-12 group-hover:scale-110 transition-transform duration-300" />
             <div className="absolute bottom-0 left-0 w-16 h-16 bg-white/5 rounded-full -ml-8 -mb-8" />
@@ -194,7 +196,7 @@ const Index = () => {
         {/* Dashboard Section */}
         <div className="text-center space-y-6 py-16 relative">
           <div className="space-y-4">
-            <h2 className="text-5xl font-bold text-foreground">Dashboard</h2>
+            <h2 className="text-5xl font-bold text-foreground">{t('home.dashboard')}</h2>
             <div className="flex items-center justify-center gap-4">
               <CurrencyDisplay amount={5000} className="text-6xl font-bold text-kenyan-green" showToggle={false} />
               <div className="flex items-center text-kenyan-green">
@@ -220,8 +222,8 @@ const Index = () => {
                   <Users className="h-6 w-6 text-white" />
                 </div>
               </div>
-              <h3 className="text-lg font-semibold text-blue-900">My Chamas</h3>
-              <p className="text-sm text-blue-700 mt-1">2 Active</p>
+              <h3 className="text-lg font-semibold text-blue-900">{t('nav.myChamas')}</h3>
+              <p className="text-sm text-blue-700 mt-1">{t('home.action.chamas.desc', { count: 2 })}</p>
             </CardContent>
           </Card>
 
@@ -235,8 +237,8 @@ const Index = () => {
                   <PiggyBank className="h-6 w-6 text-white" />
                 </div>
               </div>
-              <h3 className="text-lg font-semibold text-green-900">Personal Savings</h3>
-              <p className="text-sm text-green-700 mt-1">KES 85,000</p>
+              <h3 className="text-lg font-semibold text-green-900">{t('home.personalSavings')}</h3>
+              <p className="text-sm text-green-700 mt-1">{t('common.amount', { amount: 85000 })}</p>
             </CardContent>
           </Card>
 
@@ -251,7 +253,7 @@ const Index = () => {
                 </div>
               </div>
               <h3 className="text-lg font-semibold text-purple-900">M-Pesa</h3>
-              <p className="text-sm text-purple-700 mt-1">Send & Receive</p>
+              <p className="text-sm text-purple-700 mt-1">{t('home.action.mpesa.desc')}</p>
             </CardContent>
           </Card>
 
@@ -265,8 +267,8 @@ const Index = () => {
                   <Plus className="h-6 w-6 text-white" />
                 </div>
               </div>
-              <h3 className="text-lg font-semibold text-orange-900">Create Chama</h3>
-              <p className="text-sm text-orange-700 mt-1">Start New Group</p>
+              <h3 className="text-lg font-semibold text-orange-900">{t('nav.createChama')}</h3>
+              <p className="text-sm text-orange-700 mt-1">{t('home.action.create.desc')}</p>
             </CardContent>
           </Card>
 
@@ -280,8 +282,8 @@ const Index = () => {
                   <TrendingUp className="h-6 w-6 text-white" />
                 </div>
               </div>
-              <h3 className="text-lg font-semibold text-teal-900">Investments</h3>
-              <p className="text-sm text-teal-700 mt-1">Grow Wealth</p>
+              <h3 className="text-lg font-semibold text-teal-900">{t('nav.investments')}</h3>
+              <p className="text-sm text-teal-700 mt-1">{t('home.action.invest.desc')}</p>
             </CardContent>
           </Card>
 
@@ -295,8 +297,8 @@ const Index = () => {
                   <DollarSign className="h-6 w-6 text-white" />
                 </div>
               </div>
-              <h3 className="text-lg font-semibold text-pink-900">Smart Wallet</h3>
-              <p className="text-sm text-pink-700 mt-1">Digital Payments</p>
+              <h3 className="text-lg font-semibold text-pink-900">{t('home.action.wallet')}</h3>
+              <p className="text-sm text-pink-700 mt-1">{t('home.action.wallet.desc')}</p>
             </CardContent>
           </Card>
 
@@ -310,8 +312,8 @@ const Index = () => {
                   <BarChart3 className="h-6 w-6 text-white" />
                 </div>
               </div>
-              <h3 className="text-lg font-semibold text-indigo-900">Analytics</h3>
-              <p className="text-sm text-indigo-700 mt-1">Track Progress</p>
+              <h3 className="text-lg font-semibold text-indigo-900">{t('nav.analytics')}</h3>
+              <p className="text-sm text-indigo-700 mt-1">{t('home.action.analytics.desc')}</p>
             </CardContent>
           </Card>
 
@@ -325,8 +327,8 @@ const Index = () => {
                   <Globe className="h-6 w-6 text-white" />
                 </div>
               </div>
-              <h3 className="text-lg font-semibold text-yellow-900">Community</h3>
-              <p className="text-sm text-yellow-700 mt-1">Connect & Learn</p>
+              <h3 className="text-lg font-semibold text-yellow-900">{t('nav.community')}</h3>
+              <p className="text-sm text-yellow-700 mt-1">{t('home.action.community.desc')}</p>
             </CardContent>
           </Card>
         </div>
@@ -338,27 +340,27 @@ const Index = () => {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Calendar className="h-5 w-5 text-blue-500" />
-                Upcoming Contributions
+                {t('dashboard.upcoming.contributions')}
               </CardTitle>
-              <CardDescription>Your scheduled payments this month</CardDescription>
+              <CardDescription>{t('home.upcoming.desc')}</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               {upcomingContributions.map((contribution, index) => (
                 <div key={index} className="flex items-center justify-between p-4 bg-gradient-to-r from-blue-50 to-green-50 rounded-lg border">
                   <div>
                     <p className="font-medium">{contribution.chama}</p>
-                    <p className="text-sm text-muted-foreground">{contribution.date}</p>
+                    <p className="text-sm text-muted-foreground">{t('home.date', { date: new Date(contribution.date) })}</p>
                   </div>
                   <div className="text-right">
                     <CurrencyDisplay amount={contribution.amount} showToggle={false} className="font-medium" />
                     <Badge variant={contribution.status === 'due' ? 'destructive' : 'secondary'} className="ml-2">
-                      {contribution.status}
+                      {t('home.contributionStatus', { status: contribution.status })}
                     </Badge>
                   </div>
                 </div>
               ))}
               <Button className="w-full bg-gradient-to-r from-blue-500 to-green-500 hover:from-blue-600 hover:to-green-600">
-                View All Contributions
+                {t('home.viewContributions')}
               </Button>
             </CardContent>
           </Card>
@@ -368,9 +370,9 @@ const Index = () => {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <TrendingUp className="h-5 w-5 text-green-500" />
-                Recent Activity
+                {t('home.activity')}
               </CardTitle>
-              <CardDescription>Your latest financial activities</CardDescription>
+              <CardDescription>{t('home.activity.desc')}</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               {recentActivity.map((activity, index) => (
@@ -381,11 +383,10 @@ const Index = () => {
                   }`} />
                   <div className="flex-1">
                     <p className="font-medium">
-                      {activity.type === 'contribution' ? 'Contribution made' :
-                       activity.type === 'payout' ? 'Payout received' : 'Joined chama'}
+                      {t('home.activity.type', { type: activity.type })}
                     </p>
                     <p className="text-sm text-muted-foreground">{activity.chama}</p>
-                    <p className="text-xs text-muted-foreground">{activity.date}</p>
+                    <p className="text-xs text-muted-foreground">{t('home.date', { date: new Date(activity.date) })}</p>
                   </div>
                   {activity.amount && (
                     <CurrencyDisplay amount={activity.amount} showToggle={false} className="text-sm font-medium" />
@@ -393,7 +394,7 @@ const Index = () => {
                 </div>
               ))}
               <Button className="w-full bg-gradient-to-r from-green-500 to-blue-500 hover:from-green-600 hover:to-blue-600">
-                View All Activity
+                {t('home.viewActivity')}
               </Button>
             </CardContent>
           </Card>
@@ -405,17 +406,16 @@ const Index = () => {
             <div className="flex justify-center mb-6">
               <Award className="h-16 w-16 text-yellow-300" />
             </div>
-            <h2 className="text-3xl font-bold mb-4">Ready to Transform Your Financial Future?</h2>
+            <h2 className="text-3xl font-bold mb-4">{t('home.cta.title')}</h2>
             <p className="text-blue-100 mb-8 max-w-3xl mx-auto text-lg leading-relaxed">
-              Join thousands of Kenyans who are building wealth through community savings, smart investments, and innovative financial tools. 
-              Start your journey today and achieve your financial goals faster than ever before.
+              {t('home.cta.desc')}
             </p>
             <div className="flex gap-4 justify-center flex-wrap">
               <Button size="lg" className="bg-white text-blue-600 hover:bg-blue-50 font-semibold px-8 py-4">
-                Start Your Journey
+                {t('home.cta.start')}
               </Button>
               <Button size="lg" variant="outline" className="text-white border-white hover:bg-white hover:text-blue-600 font-semibold px-8 py-4">
-                Explore Features
+                {t('home.cta.explore')}
               </Button>
             </div>
           </CardContent>
@@ -13,11 +13,13 @@ import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContai
 import Navigation from '@/components/Navigation';
 import CurrencyDisplay from '@/components/CurrencyDisplay';
 import { useInvestmentData } from '@/hooks/useInvestmentData';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8'];
 
 const InvestmentPage = () => {
   const navigate = useNavigate();
+  const { t } = useLanguage();
   const { data, isLoading, investMutation, isInvesting } = useInvestmentData();
   const [selectedProject, setSelectedProject] = useState<string | null>(null);
   const [investmentAmount, setInvestmentAmount] = useState('');
@@ -39,7 +41,7 @@ const InvestmentPage = () => {
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-green-50">
         <Navigation />
         <div className="container mx-auto px-4 py-8">
-          <div className="text-center">Loading investment data...</div>
+          <div className="text-center">{t('investment.loading')}</div>
         </div>
       </div>
     );
@@ -64,8 +66,8 @@ const InvestmentPage = () => {
             <ArrowLeft className="h-4 w-4" />
           </Button>
           <div>
-            <h1 className="text-3xl font-bold">Smart Investment Tracking</h1>
-            <p className="text-muted-foreground">Monitor and grow your investment portfolio</p>
+            <h1 className="text-3xl font-bold">{t('investment.title')}</h1>
+            <p className="text-muted-foreground">{t('investment.subtitle')}</p>
           </div>
         </div>
 
@@ -73,7 +75,7 @@ const InvestmentPage = () => {
         <div className="grid gap-4 md:grid-cols-5 mb-8">
           <Card className="border-0 shadow-lg">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Total Invested</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('investment.stats.invested')}</CardTitle>
               <DollarSign className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
@@ -83,7 +85,7 @@ const InvestmentPage = () => {
 
           <Card className="border-0 shadow-lg">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Total Returns</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('investment.stats.returns')}</CardTitle>
               <TrendingUp className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
@@ -93,7 +95,7 @@ const InvestmentPage = () => {
 
           <Card className="border-0 shadow-lg">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Portfolio Value</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('investment.stats.value')}</CardTitle>
               <BarChart3 className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
@@ -103,7 +105,7 @@ const InvestmentPage = () => {
 
           <Card className="border-0 shadow-lg">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Overall ROI</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('investment.stats.roi')}</CardTitle>
               <TrendingUp className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
@@ -113,7 +115,7 @@ const InvestmentPage = () => {
 
           <Card className="border-0 shadow-lg">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Active Investments</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('investment.stats.active')}</CardTitle>
               <PieChart className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
@@ -126,8 +128,8 @@ const InvestmentPage = () => {
           {/* Performance Chart */}
           <Card className="border-0 shadow-lg">
             <CardHeader>
-              <CardTitle>Investment Performance</CardTitle>
-              <CardDescription>Your returns over time</CardDescription>
+              <CardTitle>{t('investment.performance.title')}</CardTitle>
+              <CardDescription>{t('investment.performance.desc')}</CardDescription>
             </CardHeader>
             <CardContent>
               <ResponsiveContainer width="100%" height={300}>
@@ -146,8 +148,8 @@ const InvestmentPage = () => {
           {/* Portfolio Distribution */}
           <Card className="border-0 shadow-lg">
             <CardHeader>
-              <CardTitle>Portfolio Distribution</CardTitle>
-              <CardDescription>Investment by category</CardDescription>
+              <CardTitle>{t('investment.distribution.title')}</CardTitle>
+              <CardDescription>{t('investment.distribution.desc')}</CardDescription>
             </CardHeader>
             <CardContent>
               <ResponsiveContainer width="100%" height={300}>
@@ -167,8 +169,8 @@ const InvestmentPage = () => {
         {/* Available Investment Opportunities */}
         <Card className="border-0 shadow-lg mb-8">
           <CardHeader>
-            <CardTitle>Available Investment Opportunities</CardTitle>
-            <CardDescription>Discover new projects to invest in</CardDescription>
+            <CardTitle>{t('investment.opportunities.title')}</CardTitle>
+            <CardDescription>{t('investment.opportunities.desc')}</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
@@ -177,46 +179,46 @@ const InvestmentPage = () => {
                   <div className="flex justify-between items-start mb-2">
                     <h3 className="font-medium">{project.title}</h3>
                     <Badge variant={project.risk_score <= 3 ? 'secondary' : project.risk_score <= 6 ? 'default' : 'destructive'}>
-                      Risk: {project.risk_score}/10
+                      {t('investment.project.risk', { score: project.risk_score })}
                     </Badge>
                   </div>
                   <p className="text-sm text-muted-foreground mb-3">{project.description}</p>
                   <div className="space-y-2 text-sm">
                     <div className="flex justify-between">
-                      <span>Target:</span>
+                      <span>{t('investment.project.target')}</span>
                       <CurrencyDisplay amount={project.target_amount} showToggle={false} />
                     </div>
                     <div className="flex justify-between">
-                      <span>Raised:</span>
+                      <span>{t('investment.project.raised')}</span>
                       <CurrencyDisplay amount={project.current_funding} showToggle={false} />
                     </div>
                     <div className="flex justify-between">
-                      <span>Projected ROI:</span>
+                      <span>{t('investment.project.roi')}</span>
                       <span className="text-green-600">{project.projected_roi}%</span>
                     </div>
                     <div className="flex justify-between">
-                      <span>Min Investment:</span>
+                      <span>{t('investment.project.min')}</span>
                       <CurrencyDisplay amount={project.minimum_investment} showToggle={false} />
                     </div>
                   </div>
                   
                   {selectedProject === project.id ? (
                     <div className="mt-4 space-y-2">
-                      <Label htmlFor={`amount-${project.id}`}>Investment Amount</Label>
+                      <Label htmlFor={`amount-${project.id}`}>{t('investment.amount')}</Label>
                       <Input
                         id={`amount-${project.id}`}
                         type="number"
                         value={investmentAmount}
                         onChange={(e) => setInvestmentAmount(e.target.value)}
-                        placeholder={`Min: ${project.minimum_investment}`}
+                        placeholder={t('investment.amount.placeholder', { amount: project.minimum_investment })}
                         min={project.minimum_investment}
                       />
                       <div className="flex gap-2">
                         <Button onClick={handleInvest} disabled={isInvesting} size="sm">
-                          {isInvesting ? 'Investing...' : 'Invest'}
+                          {isInvesting ? t('investment.investing') : t('investment.invest')}
                         </Button>
                         <Button variant="outline" onClick={() => setSelectedProject(null)} size="sm">
-                          Cancel
+                          {t('common.cancel')}
                         </Button>
                       </div>
                     </div>
@@ -226,7 +228,7 @@ const InvestmentPage = () => {
                       size="sm"
                       onClick={() => setSelectedProject(project.id)}
                     >
-                      Invest Now
+                      {t('investment.investNow')}
                     </Button>
                   )}
                 </div>
@@ -238,8 +240,8 @@ const InvestmentPage = () => {
         {/* Current Investments */}
         <Card className="border-0 shadow-lg">
           <CardHeader>
-            <CardTitle>Your Current Investments</CardTitle>
-            <CardDescription>Track your active investment portfolio</CardDescription>
+            <CardTitle>{t('investment.current.title')}</CardTitle>
+            <CardDescription>{t('investment.current.desc')}</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
@@ -247,32 +249,32 @@ const InvestmentPage = () => {
                 <div key={investment.id} className="p-4 border rounded-lg bg-white/50">
                   <div className="flex justify-between items-start mb-3">
                     <div>
-                      <h3 className="font-medium">{(investment.investment_projects as any)?.title || 'Investment'}</h3>
+                      <h3 className="font-medium">{(investment.investment_projects as any)?.title || t('investment.current.fallbackTitle')}</h3>
                       <p className="text-sm text-muted-foreground">{(investment.investment_projects as any)?.category}</p>
                     </div>
                     <Badge variant={investment.status === 'active' ? 'secondary' : 'default'}>
-                      {investment.status}
+                      {t('investment.status', { status: investment.status })}
                     </Badge>
                   </div>
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                     <div>
-                      <p className="text-muted-foreground">Invested</p>
+                      <p className="text-muted-foreground">{t('investment.current.invested')}</p>
                       <p className="font-medium">
                         <CurrencyDisplay amount={investment.amount_invested} showToggle={false} />
                       </p>
                     </div>
                     <div>
-                      <p className="text-muted-foreground">Returns</p>
+                      <p className="text-muted-foreground">{t('investment.current.returns')}</p>
                       <p className="font-medium text-green-600">
                         <CurrencyDisplay amount={investment.returns_earned || 0} showToggle={false} />
                       </p>
                     </div>
                     <div>
-                      <p className="text-muted-foreground">Shares</p>
+                      <p className="text-muted-foreground">{t('investment.current.shares')}</p>
                       <p className="font-medium">{investment.shares_percentage.toFixed(2)}%</p>
                     </div>
                     <div>
-                      <p className="text-muted-foreground">ROI</p>
+                      <p className="text-muted-foreground">{t('investment.current.roi')}</p>
                       <p className="font-medium text-green-600">
                         {investment.amount_invested > 0 ? 
                           (((investment.returns_earned || 0) / investment.amount_invested) * 100).toFixed(1) : 0}%
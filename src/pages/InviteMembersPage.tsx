@@ -9,6 +9,7 @@ import { useNavigate, useParams } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
 import { useInvitations, type Invitation } from '@/hooks/useInvitations';
 import Navigation from '@/components/Navigation';
+import { useLanguage } from '@/contexts/LanguageContext';
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
@@ -16,6 +17,7 @@ const InviteMembersPage = () => {
   const navigate = useNavigate();
   const { id: chamaId } = useParams();
   const { toast } = useToast();
+  const { t } = useLanguage();
   const { invitations, createInvitation, isCreating, revokeInvitation, approveRequest, rejectRequest } = useInvitations(chamaId || '');
   
   const [role, setRole] = useState<string>('member');
@@ -28,13 +30,13 @@ const InviteMembersPage = () => {
   };
 
   const handleApprove = (invitationId: string) => {
-    if (confirm('Approve this join request?')) {
+    if (confirm(t('invite.confirm.approve'))) {
       approveRequest(invitationId);
     }
   };
 
   const handleReject = (invitationId: string) => {
-    if (confirm('Reject this join request?')) {
+    if (confirm(t('invite.confirm.reject'))) {
       rejectRequest(invitationId);
     }
   };
@@ -42,8 +44,8 @@ const InviteMembersPage = () => {
   const copyInviteLink = (invitationId: string, token: string | null | undefined) => {
     if (!token) {
       toast({
-        title: 'Error',
-        description: 'Invitation token not available',
+        title: t('common.error'),
+        description: t('invite.error.noToken'),
         variant: 'destructive',
       });
       return;
@@ -53,14 +55,14 @@ const InviteMembersPage = () => {
     navigator.clipboard.writeText(inviteUrl);
     setCopiedToken(invitationId);
     toast({
-      title: 'Link copied',
-      description: 'Invitation link copied to clipboard',
+      title: t('invite.copied.title'),
+      description: t('invite.copied.desc'),
     });
     setTimeout(() => setCopiedToken(null), 2000);
   };
 
   const handleRevoke = (invitationId: string) => {
-    if (confirm('Are you sure you want to revoke this invitation?')) {
+    if (confirm(t('invite.confirm.revoke'))) {
       revokeInvitation(invitationId);
     }
   };
@@ -68,24 +70,20 @@ const InviteMembersPage = () => {
   const getStatusBadge = (status: Invitation['status']) => {
     switch (status) {
       case 'pending':
-        return <Badge variant="secondary">Pending</Badge>;
+        return <Badge variant="secondary">{t('invite.status.pending')}</Badge>;
       case 'pending_approval':
-        return <Badge className="bg-amber-500">Awaiting Approval</Badge>;
+        return <Badge className="bg-amber-500">{t('common.awaitingApproval')}</Badge>;
       case 'accepted':
-        return <Badge variant="default">Accepted</Badge>;
+        return <Badge variant="default">{t('invite.status.accepted')}</Badge>;
       case 'rejected':
-        return <Badge variant="destructive">Rejected</Badge>;
+        return <Badge variant="destructive">{t('invite.status.rejected')}</Badge>;
       case 'expired':
-        return <Badge variant="outline">Expired</Badge>;
+        return <Badge variant="outline">{t('invite.status.expired')}</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString();
-  };
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-green-50">
       <Navigation />
@@ -101,8 +99,8 @@ const InviteMembersPage = () => {
               <ArrowLeft className="h-4 w-4" />
             </Button>
             <div>
-              <h1 className="text-3xl font-bold">Invite Members</h1>
-              <p className="text-muted-foreground">Grow your Chama community</p>
+              <h1 className="text-3xl font-bold">{t('invite.title')}</h1>
+              <p className="text-muted-foreground">{t('invite.subtitle')}</p>
             </div>
           </div>
 
@@ -110,28 +108,28 @@ const InviteMembersPage = () => {
             {/* Generate Invitation Link */}
             <Card>
               <CardHeader>
-                <CardTitle>Generate Invitation Link</CardTitle>
+                <CardTitle>{t('invite.generate.title')}</CardTitle>
                 <CardDescription>
-                  Create a shareable link for new members to request to join
+                  {t('invite.generate.desc')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <form onSubmit={handleCreateInvite} className="space-y-4">
                   <div className="space-y-2">
-                    <Label htmlFor="role">Default Role</Label>
+                    <Label htmlFor="role">{t('invite.role')}</Label>
                     <Select value={role} onValueChange={setRole}>
                       <SelectTrigger>
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="member">Member</SelectItem>
-                        <SelectItem value="treasurer">Treasurer</SelectItem>
-                        <SelectItem value="secretary">Secretary</SelectItem>
+                        <SelectItem value="member">{t('invite.role.member')}</SelectItem>
+                        <SelectItem value="treasurer">{t('invite.role.treasurer')}</SelectItem>
+                        <SelectItem value="secretary">{t('invite.role.secretary')}</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
                   <Button type="submit" disabled={isCreating} className="w-full">
-                    {isCreating ? 'Generating Link...' : 'Generate Invitation Link'}
+                    {isCreating ? t('invite.generating') : t('invite.generate.title')}
                   </Button>
                 </form>
               </CardContent>
@@ -141,9 +139,9 @@ const InviteMembersPage = () => {
             {invitations.some((inv: Invitation) => inv.status === 'pending_approval') && (
               <Card>
                 <CardHeader>
-                  <CardTitle>Pending Approval Requests</CardTitle>
+                  <CardTitle>{t('invite.pending.title')}</CardTitle>
                   <CardDescription>
-                    Members waiting for your approval
+                    {t('invite.pending.desc')}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -158,7 +156,7 @@ const InviteMembersPage = () => {
                               <div className="text-sm text-muted-foreground space-y-1 mt-1">
                                 <p>📧 {invitation.email}</p>
                                 <p>📱 {invitation.phone_number}</p>
-                                <p className="text-xs mt-2">Requested {formatDate(invitation.created_at)}</p>
+                                <p className="text-xs mt-2">{t('invite.requestedOn', { date: new Date(invitation.created_at) })}</p>
                               </div>
                             </div>
                             <div className="flex gap-2 ml-4">
@@ -168,7 +166,7 @@ const InviteMembersPage = () => {
                                 className="bg-green-600 hover:bg-green-700"
                               >
                                 <Check className="h-3 w-3 mr-1" />
-                                Approve
+                                {t('invite.approve')}
                               </Button>
                               <Button
                                 size="sm"
@@ -176,7 +174,7 @@ const InviteMembersPage = () => {
                                 onClick={() => handleReject(invitation.id)}
                               >
                                 <X className="h-3 w-3 mr-1" />
-                                Reject
+                                {t('invite.reject')}
                               </Button>
                             </div>
                           </div>
@@ -190,15 +188,15 @@ const InviteMembersPage = () => {
             {/* Recent Invitations */}
             <Card>
               <CardHeader>
-                <CardTitle>Invitation Links</CardTitle>
+                <CardTitle>{t('invite.links.title')}</CardTitle>
                 <CardDescription>
-                  Share these links with potential members
+                  {t('invite.links.desc')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 {invitations.filter(inv => inv.status === 'pending' || inv.status === 'accepted').length === 0 ? (
                   <p className="text-center text-muted-foreground py-4">
-                    No invitations yet
+                    {t('invite.links.empty')}
                   </p>
                 ) : (
                   <div className="space-y-3">
@@ -210,14 +208,14 @@ const InviteMembersPage = () => {
                             <div className="flex items-center gap-2 mb-1">
                               {invitation.role && invitation.role !== 'member' && (
                                 <Badge variant="outline" className="text-xs">
-                                  {invitation.role} role
+                                  {t('invite.roleBadge', { role: invitation.role })}
                                 </Badge>
                               )}
                             </div>
                             <p className="text-sm text-muted-foreground mb-2">
-                              Created {formatDate(invitation.created_at)}
+                              {t('invite.createdOn', { date: new Date(invitation.created_at) })}
                               {invitation.expires_at && (
-                                <span> • Expires {formatDate(invitation.expires_at)}</span>
+                                <span> • {t('invite.expiresOn', { date: new Date(invitation.expires_at) })}</span>
                               )}
                             </p>
                             {invitation.status === 'pending' && (
@@ -230,12 +228,12 @@ const InviteMembersPage = () => {
                                   {copiedToken === invitation.id ? (
                                     <>
                                       <Check className="h-3 w-3 mr-1" />
-                                      Copied
+                                      {t('invite.copiedLink')}
                                     </>
                                   ) : (
                                     <>
                                       <LinkIcon className="h-3 w-3 mr-1" />
-                                      Copy Link
+                                      {t('invite.copyLink')}
                                     </>
                                   )}
                                 </Button>
@@ -245,7 +243,7 @@ const InviteMembersPage = () => {
                                   onClick={() => handleRevoke(invitation.id)}
                                 >
                                   <X className="h-3 w-3 mr-1" />
-                                  Revoke
+                                  {t('invite.revoke')}
                                 </Button>
                               </div>
                             )}
@@ -8,18 +8,21 @@ import { useToast } from '@/hooks/use-toast';
 import Navigation from '@/components/Navigation';
 import { Loader2, UserPlus } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { useLanguage } from '@/contexts/LanguageContext';
 import { z } from 'zod';
 
+// Messages are catalog keys, translated when shown
 const joinSchema = z.object({
-  full_name: z.string().trim().min(2, 'Name must be at least 2 characters').max(100),
-  email: z.string().trim().email('Invalid email address').max(255),
-  phone_number: z.string().trim().min(10, 'Phone number must be at least 10 digits').max(15),
+  full_name: z.string().trim().min(2, 'joinChama.error.name').max(100),
+  email: z.string().trim().email('joinChama.error.email').max(255),
+  phone_number: z.string().trim().min(10, 'joinChama.error.phone').max(15),
 });
 
 const JoinChamaPage = () => {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { t } = useLanguage();
   const [invitationToken, setInvitationToken] = useState<string | null>(null);
   const [chamaName, setChamaName] = useState<string>('');
   const [isLoading, setIsLoading] = useState(false);
@@ -71,7 +74,7 @@ const JoinChamaPage = () => {
         const newErrors: Record<string, string> = {};
         error.errors.forEach((err) => {
           if (err.path[0]) {
-            newErrors[err.path[0] as string] = err.message;
+            newErrors[err.path[0] as string] = t(err.message);
           }
         });
         setErrors(newErrors);
@@ -94,12 +97,12 @@ const JoinChamaPage = () => {
 
       const result = data as { success?: boolean; message?: string } | null;
       if (result?.success === false) {
-        throw new Error(result?.message || 'Failed to submit join request');
+        throw new Error(result?.message || t('joinChama.error.submit'));
       }
 
       toast({
-        title: 'Request Submitted!',
-        description: result?.message || 'Your request to join has been sent to the admin for approval.',
+        title: t('joinChama.submitted.title'),
+        description: result?.message || t('joinChama.submitted.desc'),
       });
 
       // Redirect to home
@@ -107,8 +110,8 @@ const JoinChamaPage = () => {
     } catch (error: any) {
       console.error('Error submitting join request:', error);
       toast({
-        title: 'Error',
-        description: error.message || 'Failed to submit join request',
+        title: t('common.error'),
+        description: error.message || t('joinChama.error.submit'),
         variant: 'destructive',
       });
     } finally {
@@ -131,19 +134,19 @@ const JoinChamaPage = () => {
               <div className="w-16 h-16 bg-gradient-to-r from-blue-500 to-green-500 rounded-full flex items-center justify-center mx-auto mb-4">
                 <UserPlus className="h-8 w-8 text-white" />
               </div>
-              <CardTitle>Join {chamaName || 'Chama'}</CardTitle>
+              <CardTitle>{t('joinChama.title', { name: chamaName || 'Chama' })}</CardTitle>
               <CardDescription>
-                Fill in your details to request to join this savings group
+                {t('joinChama.subtitle')}
               </CardDescription>
             </CardHeader>
             <CardContent>
               <form onSubmit={handleSubmit} className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="full_name">Full Name *</Label>
+                  <Label htmlFor="full_name">{t('joinChama.fullName')}</Label>
                   <Input
                     id="full_name"
                     type="text"
-                    placeholder="Enter your full name"
+                    placeholder={t('joinChama.fullName.placeholder')}
                     value={formData.full_name}
                     onChange={(e) => setFormData({ ...formData, full_name: e.target.value })}
                     required
@@ -154,7 +157,7 @@ const JoinChamaPage = () => {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="email">Email Address *</Label>
+                  <Label htmlFor="email">{t('joinChama.email')}</Label>
                   <Input
                     id="email"
                     type="email"
@@ -169,7 +172,7 @@ const JoinChamaPage = () => {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="phone_number">Phone Number *</Label>
+                  <Label htmlFor="phone_number">{t('joinChama.phone')}</Label>
                   <Input
                     id="phone_number"
                     type="tel"
@@ -191,15 +194,15 @@ const JoinChamaPage = () => {
                   {isLoading ? (
                     <>
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Submitting...
+                      {t('joinChama.submitting')}
                     </>
                   ) : (
-                    'Request to Join'
+                    t('joinChama.submit')
                   )}
                 </Button>
 
                 <p className="text-xs text-muted-foreground text-center">
-                  The admin will review your request and you'll be notified once approved
+                  {t('joinChama.footer')}
                 </p>
               </form>
             </CardContent>
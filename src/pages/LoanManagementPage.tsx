@@ -25,7 +25,7 @@ const LoanManagementPage = () => {
         <Navigation />
         <main className="container mx-auto px-4 py-8">
           <div className="flex items-center justify-center h-64">
-            <div className="text-lg">Loading loan data...</div>
+            <div className="text-lg">{t('loanManagement.loading')}</div>
           </div>
         </main>
       </div>
@@ -38,7 +38,7 @@ const LoanManagementPage = () => {
         <Navigation />
         <main className="container mx-auto px-4 py-8">
           <div className="flex items-center justify-center h-64">
-            <div className="text-lg text-red-600">Error loading loan data</div>
+            <div className="text-lg text-red-600">{t('loanManagement.error')}</div>
           </div>
         </main>
       </div>
@@ -80,21 +80,21 @@ const LoanManagementPage = () => {
             <ArrowLeft className="h-4 w-4" />
           </Button>
           <div className="flex-1">
-            <h1 className="text-3xl font-bold">Loan Management</h1>
-            <p className="text-muted-foreground">Manage your loans and track repayments</p>
+            <h1 className="text-3xl font-bold">{t('loanManagement.title')}</h1>
+            <p className="text-muted-foreground">{t('loanManagement.subtitle')}</p>
           </div>
           <Button onClick={() => navigate('/apply-loan')} className="flex items-center gap-2">
             <Plus className="h-4 w-4" />
-            Apply for Loan
+            {t('loanManagement.apply')}
           </Button>
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
           <TabsList className="grid w-full grid-cols-4">
-            <TabsTrigger value="overview">Overview</TabsTrigger>
-            <TabsTrigger value="active">Active Loans</TabsTrigger>
-            <TabsTrigger value="history">History</TabsTrigger>
-            <TabsTrigger value="repayments">Repayments</TabsTrigger>
+            <TabsTrigger value="overview">{t('loanManagement.tabs.overview')}</TabsTrigger>
+            <TabsTrigger value="active">{t('loanManagement.tabs.active')}</TabsTrigger>
+            <TabsTrigger value="history">{t('loanManagement.tabs.history')}</TabsTrigger>
+            <TabsTrigger value="repayments">{t('loanManagement.tabs.repayments')}</TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview" className="space-y-6">
@@ -102,28 +102,28 @@ const LoanManagementPage = () => {
             <div className="grid gap-6 md:grid-cols-4">
               <Card>
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                  <CardTitle className="text-sm font-medium">Total Borrowed</CardTitle>
+                  <CardTitle className="text-sm font-medium">{t('loanManagement.stats.borrowed')}</CardTitle>
                   <DollarSign className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
                   <CurrencyDisplay amount={statistics?.totalBorrowed || 0} className="text-2xl font-bold" showToggle={false} />
                   <p className="text-xs text-muted-foreground">
-                    Across {loanApplications?.length || 0} loans
+                    {t('loanManagement.stats.across', { count: loanApplications?.length || 0 })}
                   </p>
                 </CardContent>
               </Card>
 
               <Card>
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                  <CardTitle className="text-sm font-medium">Total Repaid</CardTitle>
+                  <CardTitle className="text-sm font-medium">{t('loanManagement.stats.repaid')}</CardTitle>
                   <CheckCircle className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
                   <CurrencyDisplay amount={statistics?.totalRepaid || 0} className="text-2xl font-bold" showToggle={false} />
                   <p className="text-xs text-muted-foreground">
                     {statistics?.totalBorrowed > 0 ? 
-                      `${((statistics.totalRepaid / statistics.totalBorrowed) * 100).toFixed(1)}% repaid` : 
-                      'No loans yet'
+                      t('loanManagement.stats.repaidPercent', { percent: statistics.totalRepaid / statistics.totalBorrowed }) : 
+                      t('loanManagement.stats.noLoans')
                     }
                   </p>
                 </CardContent>
@@ -131,26 +131,26 @@ const LoanManagementPage = () => {
 
               <Card>
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                  <CardTitle className="text-sm font-medium">Active Loans</CardTitle>
+                  <CardTitle className="text-sm font-medium">{t('loanManagement.stats.active')}</CardTitle>
                   <Clock className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold">{statistics?.activeLoans || 0}</div>
                   <p className="text-xs text-muted-foreground">
-                    Currently active
+                    {t('loanManagement.stats.currentlyActive')}
                   </p>
                 </CardContent>
               </Card>
 
               <Card>
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                  <CardTitle className="text-sm font-medium">Outstanding Balance</CardTitle>
+                  <CardTitle className="text-sm font-medium">{t('loanManagement.stats.outstanding')}</CardTitle>
                   <AlertTriangle className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
                   <CurrencyDisplay amount={statistics?.outstandingBalance || 0} className="text-2xl font-bold" showToggle={false} />
                   <p className="text-xs text-muted-foreground">
-                    {statistics?.overdueLoans > 0 ? `${statistics.overdueLoans} overdue` : 'All current'}
+                    {statistics?.overdueLoans > 0 ? t('loanManagement.stats.overdue', { count: statistics.overdueLoans }) : t('loanManagement.stats.allCurrent')}
                   </p>
                 </CardContent>
               </Card>
@@ -159,8 +159,8 @@ const LoanManagementPage = () => {
             {/* Loan History Chart */}
             <Card>
               <CardHeader>
-                <CardTitle>Loan History</CardTitle>
-                <CardDescription>Your borrowing activity over time</CardDescription>
+                <CardTitle>{t('loanManagement.history.title')}</CardTitle>
+                <CardDescription>{t('loanManagement.history.desc')}</CardDescription>
               </CardHeader>
               <CardContent>
                 {loanHistory?.length > 0 ? (
@@ -169,13 +169,13 @@ const LoanManagementPage = () => {
                       <CartesianGrid strokeDasharray="3 3" />
                       <XAxis dataKey="month" />
                       <YAxis />
-                      <Tooltip formatter={(value) => [`KES ${value}`, 'Amount']} />
+                      <Tooltip formatter={(value) => [t('common.amount', { amount: Number(value) }), t('loanManagement.amount')]} />
                       <Bar dataKey="amount" fill="#3b82f6" />
                     </BarChart>
                   </ResponsiveContainer>
                 ) : (
                   <div className="h-[300px] flex items-center justify-center text-muted-foreground">
-                    No loan history available
+                    {t('loanManagement.history.empty')}
                   </div>
                 )}
               </CardContent>
@@ -184,7 +184,7 @@ const LoanManagementPage = () => {
             {/* Recent Activities */}
             <Card>
               <CardHeader>
-                <CardTitle>Recent Loan Activities</CardTitle>
+                <CardTitle>{t('loanManagement.recent.title')}</CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
@@ -198,18 +198,18 @@ const LoanManagementPage = () => {
                           <div>
                             <p className="font-medium text-sm">{activity.description}</p>
                             <p className="text-xs text-muted-foreground">
-                              {new Date(activity.date).toLocaleDateString()}
+                              {t('loanManagement.date', { date: new Date(activity.date) })}
                             </p>
                           </div>
                         </div>
                         <Badge variant={getStatusColor(activity.status)}>
-                          {activity.status}
+                          {t('loanManagement.status', { status: activity.status })}
                         </Badge>
                       </div>
                     ))
                   ) : (
                     <div className="text-center text-muted-foreground py-8">
-                      No recent loan activities
+                      {t('loanManagement.recent.empty')}
                     </div>
                   )}
                 </div>
@@ -224,49 +224,49 @@ const LoanManagementPage = () => {
                   <CardContent className="p-6">
                     <div className="flex items-center justify-between mb-4">
                       <div>
-                        <h3 className="font-semibold">{(loan.chamas as any)?.name || 'Unknown Chama'}</h3>
+                        <h3 className="font-semibold">{(loan.chamas as any)?.name || t('loanManagement.unknownChama')}</h3>
                         <p className="text-sm text-muted-foreground">
-                          Loan ID: {loan.id.slice(0, 8)}...
+                          {t('loanManagement.loanId', { id: loan.id.slice(0, 8) })}
                         </p>
                       </div>
                       <Badge variant={getStatusColor(loan.status)} className="flex items-center gap-1">
                         {getStatusIcon(loan.status)}
-                        {loan.status}
+                        {t('loanManagement.status', { status: loan.status })}
                       </Badge>
                     </div>
                     
                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
                       <div>
-                        <p className="text-xs text-muted-foreground">Loan Amount</p>
+                        <p className="text-xs text-muted-foreground">{t('loanManagement.loanAmount')}</p>
                         <CurrencyDisplay amount={loan.amount} className="font-semibold" showToggle={false} />
                       </div>
                       <div>
-                        <p className="text-xs text-muted-foreground">Repaid</p>
+                        <p className="text-xs text-muted-foreground">{t('loanManagement.repaid')}</p>
                         <CurrencyDisplay amount={loan.repaid_amount || 0} className="font-semibold" showToggle={false} />
                       </div>
                       <div>
-                        <p className="text-xs text-muted-foreground">Interest Rate</p>
+                        <p className="text-xs text-muted-foreground">{t('loanManagement.interestRate')}</p>
                         <p className="font-semibold">{loan.interest_rate}%</p>
                       </div>
                       <div>
-                        <p className="text-xs text-muted-foreground">Due Date</p>
+                        <p className="text-xs text-muted-foreground">{t('loanManagement.dueDate')}</p>
                         <p className="font-semibold">
-                          {loan.due_date ? new Date(loan.due_date).toLocaleDateString() : 'Not set'}
+                          {loan.due_date ? t('loanManagement.date', { date: new Date(loan.due_date) }) : t('loanManagement.notSet')}
                         </p>
                       </div>
                     </div>
 
                     <div className="space-y-2">
                       <div className="flex justify-between text-sm">
-                        <span>Repayment Progress</span>
+                        <span>{t('loanManagement.progress')}</span>
                         <span>{loan.amount > 0 ? ((loan.repaid_amount || 0) / loan.amount * 100).toFixed(1) : 0}%</span>
                       </div>
                       <Progress value={loan.amount > 0 ? (loan.repaid_amount || 0) / loan.amount * 100 : 0} className="h-2" />
                     </div>
 
                     <div className="flex gap-2 mt-4">
-                      <Button size="sm" variant="outline">Make Payment</Button>
-                      <Button size="sm" variant="outline">View Details</Button>
+                      <Button size="sm" variant="outline">{t('loanManagement.makePayment')}</Button>
+                      <Button size="sm" variant="outline">{t('loanManagement.viewDetails')}</Button>
                     </div>
                   </CardContent>
                 </Card>
@@ -275,7 +275,7 @@ const LoanManagementPage = () => {
               {loanApplications?.filter(loan => loan.status === 'active').length === 0 && (
                 <Card>
                   <CardContent className="p-6 text-center">
-                    <p className="text-muted-foreground">No active loans found</p>
+                    <p className="text-muted-foreground">{t('loanManagement.active.empty')}</p>
                   </CardContent>
                 </Card>
               )}
@@ -290,28 +290,28 @@ const LoanManagementPage = () => {
                     <div className="flex items-center justify-between">
                       <div className="flex-1">
                         <div className="flex items-center gap-4 mb-2">
-                          <h3 className="font-semibold">{(loan.chamas as any)?.name || 'Unknown Chama'}</h3>
+                          <h3 className="font-semibold">{(loan.chamas as any)?.name || t('loanManagement.unknownChama')}</h3>
                           <Badge variant={getStatusColor(loan.status)} className="flex items-center gap-1">
                             {getStatusIcon(loan.status)}
-                            {loan.status}
+                            {t('loanManagement.status', { status: loan.status })}
                           </Badge>
                         </div>
                         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                           <div>
-                            <p className="text-muted-foreground">Amount</p>
+                            <p className="text-muted-foreground">{t('loanManagement.amount')}</p>
                             <CurrencyDisplay amount={loan.amount} className="font-medium" showToggle={false} />
                           </div>
                           <div>
-                            <p className="text-muted-foreground">Interest</p>
+                            <p className="text-muted-foreground">{t('loanManagement.interest')}</p>
                             <p className="font-medium">{loan.interest_rate}%</p>
                           </div>
                           <div>
-                            <p className="text-muted-foreground">Duration</p>
-                            <p className="font-medium">{loan.duration_months} months</p>
+                            <p className="text-muted-foreground">{t('loanManagement.duration')}</p>
+                            <p className="font-medium">{t('loanManagement.months', { count: loan.duration_months })}</p>
                           </div>
                           <div>
-                            <p className="text-muted-foreground">Applied</p>
-                            <p className="font-medium">{new Date(loan.created_at).toLocaleDateString()}</p>
+                            <p className="text-muted-foreground">{t('loanManagement.applied')}</p>
+                            <p className="font-medium">{t('loanManagement.date', { date: new Date(loan.created_at) })}</p>
                           </div>
                         </div>
                       </div>
@@ -323,7 +323,7 @@ const LoanManagementPage = () => {
               {loanApplications?.length === 0 && (
                 <Card>
                   <CardContent className="p-6 text-center">
-                    <p className="text-muted-foreground">No loan history found</p>
+                    <p className="text-muted-foreground">{t('loanManagement.history.none')}</p>
                   </CardContent>
                 </Card>
               )}
@@ -333,12 +333,12 @@ const LoanManagementPage = () => {
           <TabsContent value="repayments" className="space-y-6">
             <Card>
               <CardHeader>
-                <CardTitle>Repayment Schedule</CardTitle>
-                <CardDescription>Track your upcoming and completed payments</CardDescription>
+                <CardTitle>{t('loanManagement.repayments.title')}</CardTitle>
+                <CardDescription>{t('loanManagement.repayments.desc')}</CardDescription>
               </CardHeader>
               <CardContent>
                 <p className="text-center text-muted-foreground py-8">
-                  Repayment tracking feature coming soon
+                  {t('loanManagement.repayments.soon')}
                 </p>
               </CardContent>
             </Card>
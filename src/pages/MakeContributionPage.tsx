@@ -13,10 +13,12 @@ import CurrencyDisplay from '@/components/CurrencyDisplay';
 import { useMpesaIntegration } from '@/hooks/useMpesaIntegration';
 import { useUserChamas } from '@/hooks/useChamasData';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useLanguage } from '@/contexts/LanguageContext';
 
 const MakeContributionPage = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { t } = useLanguage();
   const { stkPushMutation, isProcessingPayment } = useMpesaIntegration();
   const { data: userChamas, isLoading: isLoadingChamas } = useUserChamas();
   
@@ -28,9 +30,9 @@ const MakeContributionPage = () => {
   const [receiptData, setReceiptData] = useState<any>(null);
 
   const paymentMethods = [
-    { id: 'mpesa', name: 'M-Pesa', icon: '📱', description: 'Fast and secure mobile payment' },
-    { id: 'bank', name: 'Bank Transfer', icon: '🏦', description: 'Direct bank transfer' },
-    { id: 'card', name: 'Debit/Credit Card', icon: '💳', description: 'Visa, Mastercard accepted' }
+    { id: 'mpesa', name: 'M-Pesa', icon: '📱', description: t('contribute.method.mpesa.desc') },
+    { id: 'bank', name: t('contribute.method.bank'), icon: '🏦', description: t('contribute.method.bank.desc') },
+    { id: 'card', name: t('contribute.method.card'), icon: '💳', description: t('contribute.method.card.desc') }
   ];
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -38,8 +40,8 @@ const MakeContributionPage = () => {
     
     if (!selectedChama || !amount || !paymentMethod) {
       toast({
-        title: "Missing Information",
-        description: "Please fill in all required fields",
+        title: t('contribute.missingInfo'),
+        description: t('contribute.missingInfo.desc'),
         variant: "destructive",
       });
       return;
@@ -50,8 +52,8 @@ const MakeContributionPage = () => {
     if (paymentMethod === 'mpesa') {
       if (!phoneNumber) {
         toast({
-          title: "Phone Number Required",
-          description: "Please enter your M-Pesa phone number",
+          title: t('contribute.phoneRequired'),
+          description: t('contribute.phoneRequired.desc'),
           variant: "destructive",
         });
         return;
@@ -61,7 +63,7 @@ const MakeContributionPage = () => {
         await stkPushMutation.mutateAsync({
           phoneNumber: phoneNumber,
           amount: Number(amount),
-          description: `Contribution to ${selectedChamaData?.name}`,
+          description: t('contribute.stkDescription', { name: selectedChamaData?.name }),
           purpose: 'contribution',
           chamaId: selectedChama
         });
@@ -81,8 +83,8 @@ const MakeContributionPage = () => {
       }
     } else {
       toast({
-        title: "Payment Method Not Available",
-        description: `${paymentMethods.find(p => p.id === paymentMethod)?.name} integration coming soon`,
+        title: t('contribute.methodUnavailable'),
+        description: t('contribute.methodUnavailable.desc', { method: paymentMethods.find(p => p.id === paymentMethod)?.name }),
         variant: "destructive",
       });
     }
@@ -92,18 +94,18 @@ const MakeContributionPage = () => {
     if (!receiptData) return;
     
     const receiptText = `
-CONTRIBUTION RECEIPT
+${t('contribute.receipt.heading')}
 ${'='.repeat(40)}
 
-Chama: ${receiptData.chamaName}
-Amount: KES ${receiptData.amount.toLocaleString()}
-Payment Method: ${receiptData.paymentMethod}
-Phone Number: ${receiptData.phoneNumber}
-Date: ${receiptData.date}
-Transaction ID: ${receiptData.transactionId}
+${t('contribute.receipt.chama')} ${receiptData.chamaName}
+${t('contribute.receipt.amount')} ${t('common.amount', { amount: receiptData.amount })}
+${t('contribute.receipt.method')} ${receiptData.paymentMethod}
+${t('contribute.receipt.phone')} ${receiptData.phoneNumber}
+${t('contribute.receipt.date')} ${receiptData.date}
+${t('contribute.receipt.txn')} ${receiptData.transactionId}
 
 ${'='.repeat(40)}
-Thank you for your contribution!
+${t('contribute.receipt.thanks')}
     `;
     
     const blob = new Blob([receiptText], { type: 'text/plain' });
@@ -132,8 +134,8 @@ Thank you for your contribution!
               <ArrowLeft className="h-4 w-4" />
             </Button>
             <div>
-              <h1 className="text-3xl font-bold">Make Contribution</h1>
-              <p className="text-muted-foreground">Contribute to your Chama</p>
+              <h1 className="text-3xl font-bold">{t('contribute.title')}</h1>
+              <p className="text-muted-foreground">{t('contribute.subtitle')}</p>
             </div>
           </div>
 
@@ -141,20 +143,20 @@ Thank you for your contribution!
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <DollarSign className="h-5 w-5" />
-                Contribution Details
+                {t('contribute.details')}
               </CardTitle>
               <CardDescription>
-                Select your Chama and contribution amount
+                {t('contribute.details.desc')}
               </CardDescription>
             </CardHeader>
             <CardContent>
               <form onSubmit={handleSubmit} className="space-y-6">
                 <div className="space-y-2">
-                  <Label htmlFor="chama">Select Chama</Label>
+                  <Label htmlFor="chama">{t('contribute.selectChama')}</Label>
                   <div className="flex gap-2">
                     <Select value={selectedChama} onValueChange={setSelectedChama} disabled={isLoadingChamas}>
                       <SelectTrigger className="flex-1">
-                        <SelectValue placeholder={isLoadingChamas ? "Loading chamas..." : "Choose a Chama"} />
+                        <SelectValue placeholder={isLoadingChamas ? t('contribute.loadingChamas') : t('contribute.chooseChama')} />
                       </SelectTrigger>
                       <SelectContent>
                         {userChamas?.map((chama) => (
@@ -172,38 +174,38 @@ Thank you for your contribution!
                       size="icon"
                       variant="outline"
                       onClick={() => navigate('/create-chama')}
-                      title="Create New Chama"
+                      title={t('contribute.createChama')}
                     >
                       <Plus className="h-4 w-4" />
                     </Button>
                   </div>
                   {selectedChamaData && (
                     <p className="text-sm text-muted-foreground">
-                      Required contribution: <CurrencyDisplay amount={selectedChamaData.contribution_amount} showToggle={false} className="font-medium" />
+                      {t('contribute.required')} <CurrencyDisplay amount={selectedChamaData.contribution_amount} showToggle={false} className="font-medium" />
                     </p>
                   )}
                   {!isLoadingChamas && (!userChamas || userChamas.length === 0) && (
                     <p className="text-sm text-muted-foreground">
-                      No chamas found. Click the + button to create one.
+                      {t('contribute.noChamas')}
                     </p>
                   )}
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="amount">Contribution Amount (KES)</Label>
+                  <Label htmlFor="amount">{t('contribute.amountLabel')}</Label>
                   <Input
                     id="amount"
                     type="number"
                     value={amount}
                     onChange={(e) => setAmount(e.target.value)}
-                    placeholder={selectedChamaData ? selectedChamaData.contribution_amount.toString() : "Enter amount"}
+                    placeholder={selectedChamaData ? selectedChamaData.contribution_amount.toString() : t('contribute.enterAmount')}
                     min="1"
                     step="0.01"
                   />
                 </div>
 
                 <div className="space-y-2">
-                  <Label>Payment Method</Label>
+                  <Label>{t('contribute.paymentMethod')}</Label>
                   <div className="grid gap-3">
                     {paymentMethods.map((method) => (
                       <div
@@ -238,7 +240,7 @@ Thank you for your contribution!
 
                 {paymentMethod === 'mpesa' && (
                   <div className="space-y-2">
-                    <Label htmlFor="phoneNumber">M-Pesa Phone Number</Label>
+                    <Label htmlFor="phoneNumber">{t('contribute.phone')}</Label>
                     <div className="relative">
                       <Smartphone className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                       <Input
@@ -246,12 +248,12 @@ Thank you for your contribution!
                         type="tel"
                         value={phoneNumber}
                         onChange={(e) => setPhoneNumber(e.target.value)}
-                        placeholder="e.g., 254712345678 or 0712345678"
+                        placeholder={t('contribute.phone.placeholder')}
                         className="pl-10"
                       />
                     </div>
                     <p className="text-xs text-muted-foreground">
-                      Enter your phone number in format: 254XXXXXXXXX or 07XXXXXXXX
+                      {t('contribute.phone.hint')}
                     </p>
                   </div>
                 )}
@@ -264,7 +266,7 @@ Thank you for your contribution!
                     className="flex-1"
                     disabled={isProcessingPayment}
                   >
-                    Cancel
+                    {t('common.cancel')}
                   </Button>
                   <Button 
                     type="submit" 
@@ -274,12 +276,12 @@ Thank you for your contribution!
                     {isProcessingPayment ? (
                       <>
                         <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                        Processing...
+                        {t('contribute.processing')}
                       </>
                     ) : (
                       <>
                         <CreditCard className="h-4 w-4 mr-2" />
-                        Make Contribution
+                        {t('contribute.title')}
                       </>
                     )}
                   </Button>
@@ -294,46 +296,46 @@ Thank you for your contribution!
       <Dialog open={showReceipt} onOpenChange={setShowReceipt}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Contribution Receipt</DialogTitle>
+            <DialogTitle>{t('contribute.receipt.title')}</DialogTitle>
           </DialogHeader>
           {receiptData && (
             <div className="space-y-4">
               <div className="border rounded-lg p-4 space-y-2">
                 <div className="flex justify-between">
-                  <span className="text-muted-foreground">Chama:</span>
+                  <span className="text-muted-foreground">{t('contribute.receipt.chama')}</span>
                   <span className="font-medium">{receiptData.chamaName}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-muted-foreground">Amount:</span>
-                  <span className="font-medium">KES {receiptData.amount.toLocaleString()}</span>
+                  <span className="text-muted-foreground">{t('contribute.receipt.amount')}</span>
+                  <span className="font-medium">{t('common.amount', { amount: receiptData.amount })}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-muted-foreground">Payment Method:</span>
+                  <span className="text-muted-foreground">{t('contribute.receipt.method')}</span>
                   <span className="font-medium">{receiptData.paymentMethod}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-muted-foreground">Phone:</span>
+                  <span className="text-muted-foreground">{t('contribute.receipt.phoneShort')}</span>
                   <span className="font-medium">{receiptData.phoneNumber}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-muted-foreground">Date:</span>
+                  <span className="text-muted-foreground">{t('contribute.receipt.date')}</span>
                   <span className="font-medium">{receiptData.date}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-muted-foreground">Transaction ID:</span>
+                  <span className="text-muted-foreground">{t('contribute.receipt.txn')}</span>
                   <span className="font-medium text-xs">{receiptData.transactionId}</span>
                 </div>
               </div>
               <div className="flex gap-2">
                 <Button onClick={downloadReceipt} className="flex-1">
                   <Download className="h-4 w-4 mr-2" />
-                  Download Receipt
+                  {t('contribute.receipt.download')}
                 </Button>
                 <Button variant="outline" onClick={() => {
                   setShowReceipt(false);
                   navigate('/dashboard');
                 }} className="flex-1">
-                  Done
+                  {t('contribute.done')}
                 </Button>
               </div>
             </div>
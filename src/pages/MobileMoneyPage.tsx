@@ -14,9 +14,11 @@ import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContai
 import Navigation from '@/components/Navigation';
 import CurrencyDisplay from '@/components/CurrencyDisplay';
 import { useMobileMoneyData } from '@/hooks/useMobileMoneyData';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 const MobileMoneyPage = () => {
   const navigate = useNavigate();
+  const { t } = useLanguage();
   const { 
     data, 
     isLoading, 
@@ -88,7 +90,7 @@ const MobileMoneyPage = () => {
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-green-50">
         <Navigation />
         <div className="container mx-auto px-4 py-8">
-          <div className="text-center">Loading mobile money data...</div>
+          <div className="text-center">{t('mobileMoney.loading')}</div>
         </div>
       </div>
     );
@@ -108,8 +110,8 @@ const MobileMoneyPage = () => {
             <ArrowLeft className="h-4 w-4" />
           </Button>
           <div>
-            <h1 className="text-3xl font-bold">Mobile Money Integration</h1>
-            <p className="text-muted-foreground">Real M-Pesa payments for your chama</p>
+            <h1 className="text-3xl font-bold">{t('mobileMoney.title')}</h1>
+            <p className="text-muted-foreground">{t('mobileMoney.subtitle')}</p>
           </div>
         </div>
 
@@ -117,45 +119,45 @@ const MobileMoneyPage = () => {
         <div className="grid gap-4 md:grid-cols-4 mb-8">
           <Card className="border-0 shadow-lg">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Total Deposits</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('mobileMoney.stats.deposits')}</CardTitle>
               <ArrowUpRight className="h-4 w-4 text-green-600" />
             </CardHeader>
             <CardContent>
               <CurrencyDisplay amount={data?.statistics.totalDeposits || 0} className="text-2xl font-bold text-green-600" showToggle={false} />
-              <p className="text-xs text-muted-foreground">Money added via M-Pesa</p>
+              <p className="text-xs text-muted-foreground">{t('mobileMoney.stats.deposits.hint')}</p>
             </CardContent>
           </Card>
 
           <Card className="border-0 shadow-lg">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Total Withdrawals</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('mobileMoney.stats.withdrawals')}</CardTitle>
               <ArrowDownLeft className="h-4 w-4 text-red-600" />
             </CardHeader>
             <CardContent>
               <CurrencyDisplay amount={data?.statistics.totalWithdrawals || 0} className="text-2xl font-bold text-red-600" showToggle={false} />
-              <p className="text-xs text-muted-foreground">Money withdrawn</p>
+              <p className="text-xs text-muted-foreground">{t('mobileMoney.stats.withdrawals.hint')}</p>
             </CardContent>
           </Card>
 
           <Card className="border-0 shadow-lg">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Success Rate</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('mobileMoney.stats.success')}</CardTitle>
               <TrendingUp className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">{data?.statistics.successRate.toFixed(1)}%</div>
-              <p className="text-xs text-muted-foreground">M-Pesa success rate</p>
+              <p className="text-xs text-muted-foreground">{t('mobileMoney.stats.success.hint')}</p>
             </CardContent>
           </Card>
 
           <Card className="border-0 shadow-lg">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Connected Accounts</CardTitle>
+              <CardTitle className="text-sm font-medium">{t('mobileMoney.stats.accounts')}</CardTitle>
               <Smartphone className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">{data?.accounts.length || 0}</div>
-              <p className="text-xs text-muted-foreground">M-Pesa accounts</p>
+              <p className="text-xs text-muted-foreground">{t('mobileMoney.stats.accounts.hint')}</p>
             </CardContent>
           </Card>
         </div>
@@ -164,8 +166,8 @@ const MobileMoneyPage = () => {
           {/* Transaction Trends */}
           <Card className="border-0 shadow-lg lg:col-span-2">
             <CardHeader>
-              <CardTitle>Transaction Trends</CardTitle>
-              <CardDescription>Daily M-Pesa deposits and withdrawals over the last 7 days</CardDescription>
+              <CardTitle>{t('mobileMoney.trends')}</CardTitle>
+              <CardDescription>{t('mobileMoney.trends.desc')}</CardDescription>
             </CardHeader>
             <CardContent>
               <ResponsiveContainer width="100%" height={300}>
@@ -174,8 +176,8 @@ const MobileMoneyPage = () => {
                   <XAxis dataKey="date" />
                   <YAxis />
                   <Tooltip />
-                  <Bar dataKey="deposits" fill="#00C49F" name="Deposits" />
-                  <Bar dataKey="withdrawals" fill="#FF8042" name="Withdrawals" />
+                  <Bar dataKey="deposits" fill="#00C49F" name={t('mobileMoney.chart.deposits')} />
+                  <Bar dataKey="withdrawals" fill="#FF8042" name={t('mobileMoney.chart.withdrawals')} />
                 </BarChart>
               </ResponsiveContainer>
             </CardContent>
@@ -184,18 +186,18 @@ const MobileMoneyPage = () => {
           {/* Quick Actions */}
           <Card className="border-0 shadow-lg">
             <CardHeader>
-              <CardTitle>M-Pesa Transactions</CardTitle>
-              <CardDescription>Real M-Pesa payments</CardDescription>
+              <CardTitle>{t('mobileMoney.transactions')}</CardTitle>
+              <CardDescription>{t('mobileMoney.transactions.desc')}</CardDescription>
             </CardHeader>
             <CardContent>
               <Tabs defaultValue="deposit" className="w-full">
                 <TabsList className="grid w-full grid-cols-2">
-                  <TabsTrigger value="deposit">Deposit</TabsTrigger>
-                  <TabsTrigger value="withdraw">Withdraw</TabsTrigger>
+                  <TabsTrigger value="deposit">{t('mobileMoney.tabs.deposit')}</TabsTrigger>
+                  <TabsTrigger value="withdraw">{t('mobileMoney.tabs.withdraw')}</TabsTrigger>
                 </TabsList>
                 <TabsContent value="deposit" className="space-y-4">
                   <div>
-                    <Label htmlFor="deposit-phone">Phone Number</Label>
+                    <Label htmlFor="deposit-phone">{t('mobileMoney.phone')}</Label>
                     <Input
                       id="deposit-phone"
                       type="tel"
@@ -205,7 +207,7 @@ const MobileMoneyPage = () => {
                     />
                   </div>
                   <div>
-                    <Label htmlFor="deposit-amount">Amount (KES)</Label>
+                    <Label htmlFor="deposit-amount">{t('mobileMoney.amount')}</Label>
                     <Input
                       id="deposit-amount"
                       type="number"
@@ -215,12 +217,12 @@ const MobileMoneyPage = () => {
                     />
                   </div>
                   <div>
-                    <Label htmlFor="deposit-description">Description (Optional)</Label>
+                    <Label htmlFor="deposit-description">{t('mobileMoney.description')}</Label>
                     <Input
                       id="deposit-description"
                       value={transactionForm.description}
                       onChange={(e) => setTransactionForm(prev => ({ ...prev, description: e.target.value }))}
-                      placeholder="Chama contribution"
+                      placeholder={t('mobileMoney.deposit.placeholder')}
                     />
                   </div>
                   <Button 
@@ -228,12 +230,12 @@ const MobileMoneyPage = () => {
                     onClick={handleDeposit}
                     disabled={isProcessingDeposit || !transactionForm.amount || !transactionForm.phoneNumber}
                   >
-                    {isProcessingDeposit ? 'Processing...' : 'Send M-Pesa Request'}
+                    {isProcessingDeposit ? t('mobileMoney.processing') : t('mobileMoney.deposit.submit')}
                   </Button>
                 </TabsContent>
                 <TabsContent value="withdraw" className="space-y-4">
                   <div>
-                    <Label htmlFor="withdraw-phone">Phone Number</Label>
+                    <Label htmlFor="withdraw-phone">{t('mobileMoney.phone')}</Label>
                     <Input
                       id="withdraw-phone"
                       type="tel"
@@ -241,10 +243,10 @@ const MobileMoneyPage = () => {
                       onChange={(e) => setTransactionForm(prev => ({ ...prev, phoneNumber: e.target.value }))}
                       placeholder="0712345678"
                     />
-                    <p className="text-xs text-muted-foreground mt-1">Funds will be sent to this M-Pesa number</p>
+                    <p className="text-xs text-muted-foreground mt-1">{t('mobileMoney.withdraw.hint')}</p>
                   </div>
                   <div>
-                    <Label htmlFor="withdraw-amount">Amount (KES)</Label>
+                    <Label htmlFor="withdraw-amount">{t('mobileMoney.amount')}</Label>
                     <Input
                       id="withdraw-amount"
                       type="number"
@@ -254,20 +256,20 @@ const MobileMoneyPage = () => {
                       onChange={(e) => setTransactionForm(prev => ({ ...prev, amount: e.target.value }))}
                       placeholder="500"
                     />
-                    <p className="text-xs text-muted-foreground mt-1">Minimum: KES 10</p>
+                    <p className="text-xs text-muted-foreground mt-1">{t('mobileMoney.withdraw.minimum', { amount: 10 })}</p>
                   </div>
                   <div>
-                    <Label htmlFor="withdraw-description">Description (Optional)</Label>
+                    <Label htmlFor="withdraw-description">{t('mobileMoney.description')}</Label>
                     <Input
                       id="withdraw-description"
                       value={transactionForm.description}
                       onChange={(e) => setTransactionForm(prev => ({ ...prev, description: e.target.value }))}
-                      placeholder="Emergency withdrawal"
+                      placeholder={t('mobileMoney.withdraw.placeholder')}
                     />
                   </div>
                   <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
                     <p className="text-sm text-yellow-800">
-                      <strong>Note:</strong> Withdrawal will be processed within 24 hours. Transaction fee applies.
+                      <strong>{t('mobileMoney.withdraw.note')}</strong> {t('mobileMoney.withdraw.noteText')}
                     </p>
                   </div>
                   <Button 
@@ -275,7 +277,7 @@ const MobileMoneyPage = () => {
                     onClick={handleWithdraw}
                     disabled={isProcessingWithdrawal || !transactionForm.amount || !transactionForm.phoneNumber}
                   >
-                    {isProcessingWithdrawal ? 'Processing...' : 'Request Withdrawal'}
+                    {isProcessingWithdrawal ? t('mobileMoney.processing') : t('mobileMoney.withdraw.submit')}
                   </Button>
                 </TabsContent>
               </Tabs>
@@ -287,28 +289,28 @@ const MobileMoneyPage = () => {
         <Card className="border-0 shadow-lg mb-8">
           <CardHeader className="flex flex-row items-center justify-between">
             <div>
-              <CardTitle>Mobile Money Accounts</CardTitle>
-              <CardDescription>Manage your connected M-Pesa accounts</CardDescription>
+              <CardTitle>{t('mobileMoney.accounts')}</CardTitle>
+              <CardDescription>{t('mobileMoney.accounts.desc')}</CardDescription>
             </div>
             <Button onClick={() => setShowAddAccount(true)} className="flex items-center gap-2">
               <Plus className="h-4 w-4" />
-              Add Account
+              {t('mobileMoney.addAccount')}
             </Button>
           </CardHeader>
           <CardContent>
             {showAddAccount && (
               <div className="mb-6 p-4 border rounded-lg bg-white/50">
-                <h3 className="font-medium mb-4">Add New M-Pesa Account</h3>
+                <h3 className="font-medium mb-4">{t('mobileMoney.addNew')}</h3>
                 <div className="grid gap-4">
                   <div>
-                    <Label htmlFor="provider">Provider</Label>
+                    <Label htmlFor="provider">{t('mobileMoney.provider')}</Label>
                     <select
                       id="provider"
                       value={newAccount.provider}
                       onChange={(e) => setNewAccount(prev => ({ ...prev, provider: e.target.value }))}
                       className="w-full p-2 border rounded-md bg-background"
                     >
-                      <option value="">Select provider</option>
+                      <option value="">{t('mobileMoney.selectProvider')}</option>
                       <option value="M-PESA">M-PESA (Safaricom)</option>
                       <option value="Airtel Money">Airtel Money</option>
                       <option value="T-Kash">T-Kash (Telkom)</option>
@@ -316,7 +318,7 @@ const MobileMoneyPage = () => {
                     </select>
                   </div>
                   <div>
-                    <Label htmlFor="phone">Phone Number</Label>
+                    <Label htmlFor="phone">{t('mobileMoney.phone')}</Label>
                     <Input
                       id="phone"
                       value={newAccount.phoneNumber}
@@ -325,7 +327,7 @@ const MobileMoneyPage = () => {
                     />
                   </div>
                   <div>
-                    <Label htmlFor="account-name">Account Name (Optional)</Label>
+                    <Label htmlFor="account-name">{t('mobileMoney.accountName')}</Label>
                     <Input
                       id="account-name"
                       value={newAccount.accountName}
@@ -338,10 +340,10 @@ const MobileMoneyPage = () => {
                       onClick={handleAddAccount}
                       disabled={isAddingAccount || !newAccount.provider || !newAccount.phoneNumber}
                     >
-                      {isAddingAccount ? 'Adding...' : 'Add Account'}
+                      {isAddingAccount ? t('mobileMoney.adding') : t('mobileMoney.addAccount')}
                     </Button>
                     <Button variant="outline" onClick={() => setShowAddAccount(false)}>
-                      Cancel
+                      {t('common.cancel')}
                     </Button>
                   </div>
                 </div>
@@ -365,10 +367,10 @@ const MobileMoneyPage = () => {
                   </div>
                   <div className="flex items-center gap-2">
                     <Badge variant={account.is_verified ? 'secondary' : 'default'}>
-                      {account.is_verified ? 'Verified' : 'Unverified'}
+                      {account.is_verified ? t('mobileMoney.verified') : t('mobileMoney.unverified')}
                     </Badge>
                     <Badge variant={account.is_active ? 'secondary' : 'destructive'}>
-                      {account.is_active ? 'Active' : 'Inactive'}
+                      {account.is_active ? t('mobileMoney.active') : t('mobileMoney.inactive')}
                     </Badge>
                   </div>
                 </div>
@@ -377,8 +379,8 @@ const MobileMoneyPage = () => {
               {(!data?.accounts || data.accounts.length === 0) && !showAddAccount && (
                 <div className="text-center py-8 text-muted-foreground">
                   <Smartphone className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                  <p>No M-Pesa accounts connected yet</p>
-                  <p className="text-sm">Add an account to start making real payments</p>
+                  <p>{t('mobileMoney.noAccounts')}</p>
+                  <p className="text-sm">{t('mobileMoney.noAccounts.desc')}</p>
                 </div>
               )}
             </div>
@@ -388,8 +390,8 @@ const MobileMoneyPage = () => {
         {/* Recent Transactions */}
         <Card className="border-0 shadow-lg">
           <CardHeader>
-            <CardTitle>Recent M-Pesa Transactions</CardTitle>
-            <CardDescription>Your latest M-Pesa transaction history</CardDescription>
+            <CardTitle>{t('mobileMoney.recent')}</CardTitle>
+            <CardDescription>{t('mobileMoney.recent.desc')}</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
@@ -405,7 +407,7 @@ const MobileMoneyPage = () => {
                       }
                     </div>
                     <div>
-                      <p className="font-medium">{transaction.description || `M-Pesa ${transaction.type}`}</p>
+                      <p className="font-medium">{transaction.description || t('mobileMoney.txType', { type: transaction.type })}</p>
                       <p className="text-sm text-muted-foreground">
                         {new Date(transaction.created_at).toLocaleDateString('en-US', {
                           year: 'numeric',
@@ -428,7 +430,7 @@ const MobileMoneyPage = () => {
                       transaction.status === 'completed' ? 'secondary' :
                       transaction.status === 'pending' ? 'default' : 'destructive'
                     }>
-                      {transaction.status}
+                      {t('mobileMoney.status', { status: transaction.status })}
                     </Badge>
                   </div>
                 </div>
@@ -437,8 +439,8 @@ const MobileMoneyPage = () => {
               {(!data?.transactions || data.transactions.length === 0) && (
                 <div className="text-center py-8 text-muted-foreground">
                   <CreditCard className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                  <p>No M-Pesa transactions yet</p>
-                  <p className="text-sm">Your M-Pesa transactions will appear here</p>
+                  <p>{t('mobileMoney.noTransactions')}</p>
+                  <p className="text-sm">{t('mobileMoney.noTransactions.desc')}</p>
                 </div>
               )}
             </div>
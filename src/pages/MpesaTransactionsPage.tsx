@@ -10,10 +10,12 @@ import { useNavigate } from 'react-router-dom';
 import Navigation from '@/components/Navigation';
 import CurrencyDisplay from '@/components/CurrencyDisplay';
 import { useMpesaIntegration } from '@/hooks/useMpesaIntegration';
+import { useLanguage } from '@/contexts/LanguageContext';
 import { format } from 'date-fns';
 
 const MpesaTransactionsPage = () => {
   const navigate = useNavigate();
+  const { t } = useLanguage();
   const { transactionHistory, isLoadingHistory, pendingTransactions } = useMpesaIntegration();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
@@ -48,15 +50,15 @@ const MpesaTransactionsPage = () => {
   const getPurposeLabel = (purpose: string) => {
     switch (purpose) {
       case 'contribution':
-        return 'Contribution';
+        return t('mpesa.purpose.contribution');
       case 'registration':
-        return 'Registration';
+        return t('mpesa.purpose.registration');
       case 'loan_repayment':
-        return 'Loan Repayment';
+        return t('mpesa.purpose.loanRepayment');
       case 'loan_disbursement':
-        return 'Loan Disbursement';
+        return t('mpesa.purpose.loanDisbursement');
       default:
-        return 'Other';
+        return t('mpesa.purpose.other');
     }
   };
 
@@ -111,8 +113,8 @@ const MpesaTransactionsPage = () => {
               <ArrowLeft className="h-4 w-4" />
             </Button>
             <div>
-              <h1 className="text-3xl font-bold">M-Pesa Transactions</h1>
-              <p className="text-muted-foreground">Track your payment history and transaction status</p>
+              <h1 className="text-3xl font-bold">{t('mpesa.title')}</h1>
+              <p className="text-muted-foreground">{t('mpesa.subtitle')}</p>
             </div>
           </div>
 
@@ -122,11 +124,10 @@ const MpesaTransactionsPage = () => {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2 text-yellow-800">
                   <Clock className="h-5 w-5" />
-                  Pending Transactions
+                  {t('mpesa.pending.title')}
                 </CardTitle>
                 <CardDescription className="text-yellow-700">
-                  You have {pendingTransactions.length} pending M-Pesa transaction(s). 
-                  These will update automatically once payment is completed.
+                  {t('mpesa.pending.desc', { count: pendingTransactions.length })}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -134,14 +135,14 @@ const MpesaTransactionsPage = () => {
                   {pendingTransactions.slice(0, 3).map((transaction) => (
                     <div key={transaction.id} className="flex justify-between items-center p-3 bg-white rounded-lg">
                       <div>
-                        <p className="font-medium">M-Pesa Payment</p>
+                        <p className="font-medium">{t('mpesa.payment')}</p>
                         <p className="text-sm text-muted-foreground">
                           {format(new Date(transaction.created_at), 'MMM d, yyyy HH:mm')}
                         </p>
                       </div>
                       <div className="text-right">
                         <CurrencyDisplay amount={transaction.amount} showToggle={false} className="font-bold" />
-                        <p className="text-sm text-yellow-600">Pending</p>
+                        <p className="text-sm text-yellow-600">{t('mpesa.status.pending')}</p>
                       </div>
                     </div>
                   ))}
@@ -155,7 +156,7 @@ const MpesaTransactionsPage = () => {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Filter className="h-5 w-5" />
-                Filter Transactions
+                {t('mpesa.filter.title')}
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -163,7 +164,7 @@ const MpesaTransactionsPage = () => {
                 <div className="relative">
                   <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                   <Input
-                    placeholder="Search transactions..."
+                    placeholder={t('mpesa.search')}
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
                     className="pl-10"
@@ -172,33 +173,33 @@ const MpesaTransactionsPage = () => {
                 
                 <Select value={statusFilter} onValueChange={setStatusFilter}>
                   <SelectTrigger>
-                    <SelectValue placeholder="Filter by status" />
+                    <SelectValue placeholder={t('mpesa.filter.status')} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="all">All Statuses</SelectItem>
-                    <SelectItem value="success">Success</SelectItem>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="failed">Failed</SelectItem>
+                    <SelectItem value="all">{t('mpesa.filter.allStatuses')}</SelectItem>
+                    <SelectItem value="success">{t('mpesa.filter.success')}</SelectItem>
+                    <SelectItem value="pending">{t('mpesa.status.pending')}</SelectItem>
+                    <SelectItem value="failed">{t('mpesa.filter.failed')}</SelectItem>
                   </SelectContent>
                 </Select>
 
                 <Select value={purposeFilter} onValueChange={setPurposeFilter}>
                   <SelectTrigger>
-                    <SelectValue placeholder="Filter by purpose" />
+                    <SelectValue placeholder={t('mpesa.filter.purpose')} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="all">All Purposes</SelectItem>
-                    <SelectItem value="contribution">Contributions</SelectItem>
-                    <SelectItem value="registration">Registration</SelectItem>
-                    <SelectItem value="loan_repayment">Loan Repayment</SelectItem>
-                    <SelectItem value="loan_disbursement">Loan Disbursement</SelectItem>
-                    <SelectItem value="other">Other</SelectItem>
+                    <SelectItem value="all">{t('mpesa.filter.allPurposes')}</SelectItem>
+                    <SelectItem value="contribution">{t('mpesa.filter.contributions')}</SelectItem>
+                    <SelectItem value="registration">{t('mpesa.purpose.registration')}</SelectItem>
+                    <SelectItem value="loan_repayment">{t('mpesa.purpose.loanRepayment')}</SelectItem>
+                    <SelectItem value="loan_disbursement">{t('mpesa.purpose.loanDisbursement')}</SelectItem>
+                    <SelectItem value="other">{t('mpesa.purpose.other')}</SelectItem>
                   </SelectContent>
                 </Select>
 
                 <Button onClick={exportTransactions} variant="outline">
                   <Download className="h-4 w-4 mr-2" />
-                  Export CSV
+                  {t('mpesa.export')}
                 </Button>
               </div>
             </CardContent>
@@ -208,46 +209,46 @@ const MpesaTransactionsPage = () => {
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
             <Card>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Total Transactions</CardTitle>
+                <CardTitle className="text-sm font-medium">{t('mpesa.stats.total')}</CardTitle>
                 <Smartphone className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold">{transactionHistory?.length || 0}</div>
                 <p className="text-xs text-muted-foreground">
-                  All time M-Pesa transactions
+                  {t('mpesa.stats.total.hint')}
                 </p>
               </CardContent>
             </Card>
 
             <Card>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Successful Payments</CardTitle>
+                <CardTitle className="text-sm font-medium">{t('mpesa.stats.successful')}</CardTitle>
                 <CheckCircle className="h-4 w-4 text-green-500" />
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold text-green-600">
-                  {transactionHistory?.filter(t => t.status === 'success').length || 0}
+                  {transactionHistory?.filter(tx => tx.status === 'success').length || 0}
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  Completed successfully
+                  {t('mpesa.stats.successful.hint')}
                 </p>
               </CardContent>
             </Card>
 
             <Card>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Total Amount</CardTitle>
+                <CardTitle className="text-sm font-medium">{t('mpesa.stats.amount')}</CardTitle>
                 <CurrencyDisplay amount={0} showToggle={false} className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold">
                   <CurrencyDisplay 
-                    amount={transactionHistory?.filter(t => t.status === 'success').reduce((sum, t) => sum + t.amount, 0) || 0}
+                    amount={transactionHistory?.filter(tx => tx.status === 'success').reduce((sum, tx) => sum + tx.amount, 0) || 0}
                     showToggle={false}
                   />
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  Successfully processed
+                  {t('mpesa.stats.amount.hint')}
                 </p>
               </CardContent>
             </Card>
@@ -256,16 +257,16 @@ const MpesaTransactionsPage = () => {
           {/* Transactions List */}
           <Card>
             <CardHeader>
-              <CardTitle>Transaction History</CardTitle>
+              <CardTitle>{t('mpesa.history.title')}</CardTitle>
               <CardDescription>
-                Your complete M-Pesa transaction history
+                {t('mpesa.history.desc')}
               </CardDescription>
             </CardHeader>
             <CardContent>
               {isLoadingHistory ? (
                 <div className="flex items-center justify-center py-8">
                   <RefreshCw className="h-6 w-6 animate-spin" />
-                  <span className="ml-2">Loading transactions...</span>
+                  <span className="ml-2">{t('mpesa.loading')}</span>
                 </div>
               ) : filteredTransactions && filteredTransactions.length > 0 ? (
                 <div className="space-y-4">
@@ -274,13 +275,13 @@ const MpesaTransactionsPage = () => {
                       <div className="flex items-center gap-4">
                         {getStatusIcon(transaction.status)}
                         <div>
-                          <p className="font-medium">M-Pesa Payment</p>
+                          <p className="font-medium">{t('mpesa.payment')}</p>
                           <p className="text-sm text-muted-foreground">
                             {format(new Date(transaction.created_at), 'MMM d, yyyy HH:mm')}
                           </p>
                           {transaction.mpesa_receipt_number && (
                             <p className="text-xs text-green-600">
-                              Receipt: {transaction.mpesa_receipt_number}
+                              {t('mpesa.receipt', { receipt: transaction.mpesa_receipt_number })}
                             </p>
                           )}
                         </div>
@@ -290,10 +291,10 @@ const MpesaTransactionsPage = () => {
                         <CurrencyDisplay amount={transaction.amount} showToggle={false} className="font-bold" />
                         <div className="flex items-center gap-2 mt-1">
                           <Badge variant={getStatusVariant(transaction.status)} className="text-xs">
-                            {transaction.status}
+                            {t('mpesa.status', { status: transaction.status })}
                           </Badge>
                           <Badge variant="outline" className="text-xs">
-                            Chama Transaction
+                            {t('mpesa.chamaTransaction')}
                           </Badge>
                         </div>
                         <p className="text-xs text-muted-foreground mt-1">
@@ -306,11 +307,11 @@ const MpesaTransactionsPage = () => {
               ) : (
                 <div className="text-center py-8">
                   <Smartphone className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                  <h3 className="text-lg font-medium mb-2">No transactions found</h3>
+                  <h3 className="text-lg font-medium mb-2">{t('mpesa.empty.title')}</h3>
                   <p className="text-muted-foreground">
                     {searchTerm || statusFilter !== 'all' || purposeFilter !== 'all'
-                      ? "Try adjusting your filters or search terms"
-                      : "You haven't made any M-Pesa transactions yet"
+                      ? t('mpesa.empty.filtered')
+                      : t('mpesa.empty.none')
                     }
                   </p>
                 </div>
@@ -14,6 +14,7 @@ import { Progress } from "@/components/ui/progress";
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import Navigation from '@/components/Navigation';
+import { useLanguage } from '@/contexts/LanguageContext';
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -30,6 +31,7 @@ import {
 const P2PTradingPage = () => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { t } = useLanguage();
   const [activeTab, setActiveTab] = useState('buy');
   const [selectedAsset, setSelectedAsset] = useState('USDC');
   const [amount, setAmount] = useState('');
@@ -72,23 +74,23 @@ const P2PTradingPage = () => {
   const handleCreateListing = () => {
     if (!amount || !price || !paymentMethod) {
       toast({
-        title: "Missing Information",
-        description: "Please fill in all required fields",
+        title: t('p2p.missingInfo'),
+        description: t('p2p.missingInfo.desc'),
         variant: "destructive"
       });
       return;
     }
 
     toast({
-      title: "Listing Created! 🎉",
-      description: `Your ${activeTab} order for ${amount} ${selectedAsset} has been posted`,
+      title: t('p2p.listingCreated'),
+      description: t('p2p.listingCreated.desc', { side: activeTab, amount, asset: selectedAsset }),
     });
   };
 
   const handleTrade = (listing: any) => {
     toast({
-      title: "Trade Initiated! 🤝",
-      description: `Starting escrow process with ${listing.user.name}`,
+      title: t('p2p.tradeStarted'),
+      description: t('p2p.tradeStarted.desc', { name: listing.user.name }),
     });
   };
 
@@ -97,8 +99,8 @@ const P2PTradingPage = () => {
       <Navigation />
       <div className="container mx-auto px-4 py-8">
         <div className="mb-8">
-          <h1 className="text-3xl font-bold mb-2">P2P Trading Hub</h1>
-          <p className="text-muted-foreground">Trade cryptocurrencies directly with other users in Kenya</p>
+          <h1 className="text-3xl font-bold mb-2">{t('p2p.title')}</h1>
+          <p className="text-muted-foreground">{t('p2p.subtitle')}</p>
         </div>
 
         {/* Market Overview */}
@@ -114,7 +116,7 @@ const P2PTradingPage = () => {
                   </Badge>
                 </div>
                 <div className="text-lg font-bold">KES {pair.price.toLocaleString()}</div>
-                <div className="text-sm text-muted-foreground">Vol: {pair.volume}</div>
+                <div className="text-sm text-muted-foreground">{t('p2p.volume', { volume: pair.volume })}</div>
               </CardContent>
             </Card>
           ))}
@@ -126,20 +128,20 @@ const P2PTradingPage = () => {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Zap className="w-5 h-5" />
-                Create Order
+                {t('p2p.createOrder')}
               </CardTitle>
-              <CardDescription>Post your buy/sell order</CardDescription>
+              <CardDescription>{t('p2p.createOrder.desc')}</CardDescription>
             </CardHeader>
             <CardContent>
               <Tabs value={activeTab} onValueChange={setActiveTab}>
                 <TabsList className="grid w-full grid-cols-2">
-                  <TabsTrigger value="buy" className="text-green-600">Buy</TabsTrigger>
-                  <TabsTrigger value="sell" className="text-red-600">Sell</TabsTrigger>
+                  <TabsTrigger value="buy" className="text-green-600">{t('p2p.buy')}</TabsTrigger>
+                  <TabsTrigger value="sell" className="text-red-600">{t('p2p.sell')}</TabsTrigger>
                 </TabsList>
                 
                 <div className="space-y-4 mt-4">
                   <div>
-                    <Label>Asset</Label>
+                    <Label>{t('p2p.asset')}</Label>
                     <Select value={selectedAsset} onValueChange={setSelectedAsset}>
                       <SelectTrigger>
                         <SelectValue />
@@ -154,41 +156,41 @@ const P2PTradingPage = () => {
                   </div>
 
                   <div>
-                    <Label>Amount ({selectedAsset})</Label>
+                    <Label>{t('p2p.amountIn', { asset: selectedAsset })}</Label>
                     <Input 
                       type="number" 
-                      placeholder="Enter amount"
+                      placeholder={t('p2p.enterAmount')}
                       value={amount}
                       onChange={(e) => setAmount(e.target.value)}
                     />
                   </div>
 
                   <div>
-                    <Label>Price (KES per {selectedAsset})</Label>
+                    <Label>{t('p2p.pricePer', { asset: selectedAsset })}</Label>
                     <Input 
                       type="number" 
-                      placeholder="Enter price"
+                      placeholder={t('p2p.enterPrice')}
                       value={price}
                       onChange={(e) => setPrice(e.target.value)}
                     />
                   </div>
 
                   <div>
-                    <Label>Payment Method</Label>
+                    <Label>{t('p2p.paymentMethod')}</Label>
                     <Select value={paymentMethod} onValueChange={setPaymentMethod}>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select payment method" />
+                        <SelectValue placeholder={t('p2p.selectPaymentMethod')} />
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="mpesa">M-Pesa</SelectItem>
                         <SelectItem value="airtel">Airtel Money</SelectItem>
-                        <SelectItem value="bank">Bank Transfer</SelectItem>
+                        <SelectItem value="bank">{t('p2p.bankTransfer')}</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
 
                   <Button onClick={handleCreateListing} className="w-full">
-                    Create {activeTab === 'buy' ? 'Buy' : 'Sell'} Order
+                    {t('p2p.createSideOrder', { side: activeTab })}
                   </Button>
                 </div>
               </Tabs>
@@ -200,9 +202,9 @@ const P2PTradingPage = () => {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Users className="w-5 h-5" />
-                Active Orders
+                {t('p2p.activeOrders')}
               </CardTitle>
-              <CardDescription>Browse and trade with other users</CardDescription>
+              <CardDescription>{t('p2p.activeOrders.desc')}</CardDescription>
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
@@ -222,31 +224,31 @@ const P2PTradingPage = () => {
                               <span className="text-sm">{listing.user.rating}</span>
                             </div>
                             <Badge variant="outline" className="text-xs">
-                              {listing.user.trades} trades
+                              {t('p2p.trades', { count: listing.user.trades })}
                             </Badge>
                           </div>
                           <div className="text-sm text-muted-foreground">
-                            {listing.completion}% completion rate
+                            {t('p2p.completionRate', { rate: listing.completion })}
                           </div>
                         </div>
                       </div>
                       
                       <div className="text-right">
                         <Badge variant={listing.type === 'buy' ? 'default' : 'secondary'} className="mb-2">
-                          {listing.type === 'buy' ? 'Buying' : 'Selling'} {listing.asset}
+                          {t('p2p.listingSide', { side: listing.type, asset: listing.asset })}
                         </Badge>
                         <div className="text-lg font-bold">
                           KES {listing.price.toLocaleString()}
                         </div>
                         <div className="text-sm text-muted-foreground">
-                          Amount: {listing.amount.toLocaleString()} {listing.asset}
+                          {t('p2p.listingAmount', { amount: listing.amount, asset: listing.asset })}
                         </div>
                       </div>
                     </div>
 
                     <div className="mt-3 flex items-center justify-between">
                       <div className="flex items-center gap-2">
-                        <span className="text-sm text-muted-foreground">Payment:</span>
+                        <span className="text-sm text-muted-foreground">{t('p2p.payment')}</span>
                         {listing.paymentMethods.map((method) => (
                           <Badge key={method} variant="outline" className="text-xs">
                             {method}
@@ -256,26 +258,26 @@ const P2PTradingPage = () => {
                       
                       <div className="flex items-center gap-2">
                         <span className="text-sm text-muted-foreground">
-                          Limits: KES {listing.limits.min.toLocaleString()} - {listing.limits.max.toLocaleString()}
+                          {t('p2p.limits', { min: listing.limits.min, max: listing.limits.max })}
                         </span>
                         <Dialog>
                           <DialogTrigger asChild>
-                            <Button size="sm">Trade</Button>
+                            <Button size="sm">{t('p2p.trade')}</Button>
                           </DialogTrigger>
                           <DialogContent>
                             <DialogHeader>
-                              <DialogTitle>Trade with {listing.user.name}</DialogTitle>
+                              <DialogTitle>{t('p2p.tradeWith', { name: listing.user.name })}</DialogTitle>
                               <DialogDescription>
-                                {listing.type === 'buy' ? 'Sell' : 'Buy'} {listing.asset} at KES {listing.price.toLocaleString()}
+                                {t('p2p.tradeAt', { side: listing.type === 'buy' ? 'sell' : 'buy', asset: listing.asset, price: listing.price })}
                               </DialogDescription>
                             </DialogHeader>
                             <div className="space-y-4">
                               <div>
-                                <Label>Amount to trade</Label>
-                                <Input type="number" placeholder="Enter amount" />
+                                <Label>{t('p2p.amountToTrade')}</Label>
+                                <Input type="number" placeholder={t('p2p.enterAmount')} />
                               </div>
                               <Button onClick={() => handleTrade(listing)} className="w-full">
-                                Start Trade
+                                {t('p2p.startTrade')}
                               </Button>
                             </div>
                           </DialogContent>
@@ -294,7 +296,7 @@ const P2PTradingPage = () => {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Shield className="w-5 h-5" />
-              Security & Protection
+              {t('p2p.security')}
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -303,27 +305,27 @@ const P2PTradingPage = () => {
                 <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-3">
                   <Shield className="w-6 h-6 text-blue-600" />
                 </div>
-                <h3 className="font-semibold mb-2">Escrow Protection</h3>
+                <h3 className="font-semibold mb-2">{t('p2p.escrow')}</h3>
                 <p className="text-sm text-muted-foreground">
-                  Funds are held securely until both parties confirm the trade
+                  {t('p2p.escrow.desc')}
                 </p>
               </div>
               <div className="text-center">
                 <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-3">
                   <Award className="w-6 h-6 text-green-600" />
                 </div>
-                <h3 className="font-semibold mb-2">Verified Users</h3>
+                <h3 className="font-semibold mb-2">{t('p2p.verified')}</h3>
                 <p className="text-sm text-muted-foreground">
-                  Trade with KYC-verified users for added security
+                  {t('p2p.verified.desc')}
                 </p>
               </div>
               <div className="text-center">
                 <div className="w-12 h-12 bg-purple-100 rounded-full flex items-center justify-center mx-auto mb-3">
                   <MessageCircle className="w-6 h-6 text-purple-600" />
                 </div>
-                <h3 className="font-semibold mb-2">Real-time Chat</h3>
+                <h3 className="font-semibold mb-2">{t('p2p.chat')}</h3>
                 <p className="text-sm text-muted-foreground">
-                  Communicate directly with traders during the process
+                  {t('p2p.chat.desc')}
                 </p>
               </div>
             </div>
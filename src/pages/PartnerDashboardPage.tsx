@@ -15,6 +15,7 @@ import CurrencyDisplay from '@/components/CurrencyDisplay';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import AdminLogin from '@/components/AdminLogin';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 interface Partner {
   id: string;
@@ -227,6 +228,7 @@ const mockRequests: AssetRequest[] = [
 
 const PartnerDashboardPage: React.FC = () => {
   const { toast } = useToast();
+  const { t } = useLanguage();
   const [selectedPartner, setSelectedPartner] = useState('all');
   const [statusFilter, setStatusFilter] = useState('all');
   const [priorityFilter, setPriorityFilter] = useState('all');
@@ -261,8 +263,8 @@ const PartnerDashboardPage: React.FC = () => {
 
   const handleRequestAction = (requestId: string, action: string) => {
     toast({
-      title: `Request ${action}`,
-      description: `Request ${requestId} has been ${action.toLowerCase()}`,
+      title: t('partnerDashboard.action.title', { action }),
+      description: t('partnerDashboard.action.desc', { id: requestId, action }),
     });
   };
 
@@ -285,19 +287,19 @@ const PartnerDashboardPage: React.FC = () => {
       <div className="container mx-auto px-4 py-8">
         <div className="mb-8">
           <h1 className="text-4xl font-bold mb-4 bg-gradient-to-r from-purple-600 to-blue-600 bg-clip-text text-transparent">
-            Partner Dashboard
+            {t('partnerDashboard.title')}
           </h1>
           <p className="text-lg text-muted-foreground">
-            Manage asset financing requests and partner relationships
+            {t('partnerDashboard.subtitle')}
           </p>
         </div>
 
         <Tabs defaultValue="overview" className="w-full">
           <TabsList className="grid w-full grid-cols-4">
-            <TabsTrigger value="overview">Overview</TabsTrigger>
-            <TabsTrigger value="requests">Asset Requests</TabsTrigger>
-            <TabsTrigger value="partners">Partners</TabsTrigger>
-            <TabsTrigger value="analytics">Analytics</TabsTrigger>
+            <TabsTrigger value="overview">{t('partnerDashboard.tabs.overview')}</TabsTrigger>
+            <TabsTrigger value="requests">{t('partnerDashboard.tabs.requests')}</TabsTrigger>
+            <TabsTrigger value="partners">{t('partnerDashboard.tabs.partners')}</TabsTrigger>
+            <TabsTrigger value="analytics">{t('partnerDashboard.tabs.analytics')}</TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview" className="space-y-6">
@@ -305,45 +307,45 @@ const PartnerDashboardPage: React.FC = () => {
             <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
               <Card className="border-0 shadow-lg">
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                  <CardTitle className="text-sm font-medium">Total Requests</CardTitle>
+                  <CardTitle className="text-sm font-medium">{t('partnerDashboard.metrics.total')}</CardTitle>
                   <Users className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold">156</div>
-                  <p className="text-xs text-muted-foreground">+12% from last month</p>
+                  <p className="text-xs text-muted-foreground">{t('partnerDashboard.metrics.total.trend')}</p>
                 </CardContent>
               </Card>
 
               <Card className="border-0 shadow-lg">
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                  <CardTitle className="text-sm font-medium">Pending Approval</CardTitle>
+                  <CardTitle className="text-sm font-medium">{t('partnerDashboard.metrics.pending')}</CardTitle>
                   <Clock className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold">23</div>
-                  <p className="text-xs text-muted-foreground">Requires attention</p>
+                  <p className="text-xs text-muted-foreground">{t('partnerDashboard.metrics.pending.desc')}</p>
                 </CardContent>
               </Card>
 
               <Card className="border-0 shadow-lg">
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                  <CardTitle className="text-sm font-medium">Total Value</CardTitle>
+                  <CardTitle className="text-sm font-medium">{t('partnerDashboard.metrics.value')}</CardTitle>
                   <DollarSign className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
                   <CurrencyDisplay amount={12500000} className="text-2xl font-bold" />
-                  <p className="text-xs text-muted-foreground">Financing volume</p>
+                  <p className="text-xs text-muted-foreground">{t('partnerDashboard.metrics.value.desc')}</p>
                 </CardContent>
               </Card>
 
               <Card className="border-0 shadow-lg">
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                  <CardTitle className="text-sm font-medium">Success Rate</CardTitle>
+                  <CardTitle className="text-sm font-medium">{t('partnerDashboard.metrics.success')}</CardTitle>
                   <TrendingUp className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold">89%</div>
-                  <p className="text-xs text-muted-foreground">Approval rate</p>
+                  <p className="text-xs text-muted-foreground">{t('partnerDashboard.metrics.success.desc')}</p>
                 </CardContent>
               </Card>
             </div>
@@ -351,8 +353,8 @@ const PartnerDashboardPage: React.FC = () => {
             {/* Recent Requests */}
             <Card className="border-0 shadow-lg">
               <CardHeader>
-                <CardTitle>Recent Asset Requests</CardTitle>
-                <CardDescription>Latest requests from customers</CardDescription>
+                <CardTitle>{t('partnerDashboard.recent')}</CardTitle>
+                <CardDescription>{t('partnerDashboard.recent.desc')}</CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
@@ -371,10 +373,10 @@ const PartnerDashboardPage: React.FC = () => {
                         </div>
                         <div className="flex items-center gap-2">
                           <Badge className={getPriorityColor(request.priority)}>
-                            {request.priority}
+                            {t('partnerDashboard.priority', { priority: request.priority })}
                           </Badge>
                           <Badge className={getStatusColor(request.status)}>
-                            {request.status}
+                            {t('partnerDashboard.status', { status: request.status })}
                           </Badge>
                         </div>
                       </div>
@@ -391,19 +393,19 @@ const PartnerDashboardPage: React.FC = () => {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Filter className="h-5 w-5" />
-                  Filter Requests
+                  {t('partnerDashboard.filters.title')}
                 </CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="grid gap-4 md:grid-cols-3">
                   <div>
-                    <label className="text-sm font-medium mb-2 block">Partner</label>
+                    <label className="text-sm font-medium mb-2 block">{t('partnerDashboard.filters.partner')}</label>
                     <Select value={selectedPartner} onValueChange={setSelectedPartner}>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select partner" />
+                        <SelectValue placeholder={t('partnerDashboard.filters.selectPartner')} />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="all">All Partners</SelectItem>
+                        <SelectItem value="all">{t('partnerDashboard.filters.allPartners')}</SelectItem>
                         {partners.map((partner) => (
                           <SelectItem key={partner.id} value={partner.id}>
                             {partner.logo} {partner.name}
@@ -414,33 +416,33 @@ const PartnerDashboardPage: React.FC = () => {
                   </div>
 
                   <div>
-                    <label className="text-sm font-medium mb-2 block">Status</label>
+                    <label className="text-sm font-medium mb-2 block">{t('partnerDashboard.filters.status')}</label>
                     <Select value={statusFilter} onValueChange={setStatusFilter}>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select status" />
+                        <SelectValue placeholder={t('partnerDashboard.filters.selectStatus')} />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="all">All Status</SelectItem>
-                        <SelectItem value="pending">Pending</SelectItem>
-                        <SelectItem value="processing">Processing</SelectItem>
-                        <SelectItem value="approved">Approved</SelectItem>
-                        <SelectItem value="rejected">Rejected</SelectItem>
-                        <SelectItem value="completed">Completed</SelectItem>
+                        <SelectItem value="all">{t('partnerDashboard.filters.allStatus')}</SelectItem>
+                        <SelectItem value="pending">{t('partnerDashboard.status', { status: 'pending' })}</SelectItem>
+                        <SelectItem value="processing">{t('partnerDashboard.status', { status: 'processing' })}</SelectItem>
+                        <SelectItem value="approved">{t('partnerDashboard.status', { status: 'approved' })}</SelectItem>
+                        <SelectItem value="rejected">{t('partnerDashboard.status', { status: 'rejected' })}</SelectItem>
+                        <SelectItem value="completed">{t('partnerDashboard.status', { status: 'completed' })}</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
 
                   <div>
-                    <label className="text-sm font-medium mb-2 block">Priority</label>
+                    <label className="text-sm font-medium mb-2 block">{t('partnerDashboard.filters.priority')}</label>
                     <Select value={priorityFilter} onValueChange={setPriorityFilter}>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select priority" />
+                        <SelectValue placeholder={t('partnerDashboard.filters.selectPriority')} />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="all">All Priority</SelectItem>
-                        <SelectItem value="high">High</SelectItem>
-                        <SelectItem value="medium">Medium</SelectItem>
-                        <SelectItem value="low">Low</SelectItem>
+                        <SelectItem value="all">{t('partnerDashboard.filters.allPriority')}</SelectItem>
+                        <SelectItem value="high">{t('partnerDashboard.priority', { priority: 'high' })}</SelectItem>
+                        <SelectItem value="medium">{t('partnerDashboard.priority', { priority: 'medium' })}</SelectItem>
+                        <SelectItem value="low">{t('partnerDashboard.priority', { priority: 'low' })}</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -461,16 +463,16 @@ const PartnerDashboardPage: React.FC = () => {
                           <div>
                             <CardTitle className="text-lg">{request.customerName}</CardTitle>
                             <CardDescription>
-                              {request.assetType} via {partner?.name}
+                              {t('partnerDashboard.request.via', { asset: request.assetType, partner: partner?.name })}
                             </CardDescription>
                           </div>
                         </div>
                         <div className="flex items-center gap-2">
                           <Badge className={getPriorityColor(request.priority)}>
-                            {request.priority}
+                            {t('partnerDashboard.priority', { priority: request.priority })}
                           </Badge>
                           <Badge className={getStatusColor(request.status)}>
-                            {request.status}
+                            {t('partnerDashboard.status', { status: request.status })}
                           </Badge>
                         </div>
                       </div>
@@ -480,42 +482,42 @@ const PartnerDashboardPage: React.FC = () => {
                       <div className="grid gap-4 md:grid-cols-2">
                         <div className="space-y-2">
                           <div className="flex justify-between">
-                            <span className="text-sm text-muted-foreground">Asset Value:</span>
+                            <span className="text-sm text-muted-foreground">{t('partnerDashboard.request.assetValue')}</span>
                             <CurrencyDisplay amount={request.assetValue} showToggle={false} className="font-medium" />
                           </div>
                           <div className="flex justify-between">
-                            <span className="text-sm text-muted-foreground">Requested Amount:</span>
+                            <span className="text-sm text-muted-foreground">{t('partnerDashboard.request.amount')}</span>
                             <CurrencyDisplay amount={request.requestedAmount} showToggle={false} className="font-medium" />
                           </div>
                           <div className="flex justify-between">
-                            <span className="text-sm text-muted-foreground">Credit Score:</span>
+                            <span className="text-sm text-muted-foreground">{t('partnerDashboard.request.creditScore')}</span>
                             <span className="font-medium">{request.creditScore}</span>
                           </div>
                         </div>
                         
                         <div className="space-y-2">
                           <div className="flex justify-between">
-                            <span className="text-sm text-muted-foreground">Phone:</span>
+                            <span className="text-sm text-muted-foreground">{t('partnerDashboard.request.phone')}</span>
                             <span className="font-medium">{request.customerPhone}</span>
                           </div>
                           <div className="flex justify-between">
-                            <span className="text-sm text-muted-foreground">Email:</span>
+                            <span className="text-sm text-muted-foreground">{t('partnerDashboard.request.email')}</span>
                             <span className="font-medium text-sm">{request.customerEmail}</span>
                           </div>
                           <div className="flex justify-between">
-                            <span className="text-sm text-muted-foreground">Submitted:</span>
-                            <span className="font-medium">{request.submittedDate}</span>
+                            <span className="text-sm text-muted-foreground">{t('partnerDashboard.request.submitted')}</span>
+                            <span className="font-medium">{t('partnerDashboard.date', { date: new Date(request.submittedDate) })}</span>
                           </div>
                         </div>
                       </div>
                       
                       <div className="mt-4">
-                        <p className="text-sm text-muted-foreground mb-2">Description:</p>
+                        <p className="text-sm text-muted-foreground mb-2">{t('partnerDashboard.request.description')}</p>
                         <p className="text-sm">{request.description}</p>
                       </div>
                       
                       <div className="mt-4">
-                        <p className="text-sm text-muted-foreground mb-2">Documents:</p>
+                        <p className="text-sm text-muted-foreground mb-2">{t('partnerDashboard.request.documents')}</p>
                         <div className="flex flex-wrap gap-1">
                           {request.documents.map((doc, index) => (
                             <Badge key={index} variant="outline" className="text-xs">
@@ -529,24 +531,24 @@ const PartnerDashboardPage: React.FC = () => {
                         <div className="flex gap-2 mt-4">
                           <Button 
                             size="sm" 
-                            onClick={() => handleRequestAction(request.id, 'Approved')}
+                            onClick={() => handleRequestAction(request.id, 'approved')}
                             className="bg-green-600 hover:bg-green-700"
                           >
-                            Approve
+                            {t('partnerDashboard.request.approve')}
                           </Button>
                           <Button 
                             size="sm" 
                             variant="outline"
-                            onClick={() => handleRequestAction(request.id, 'Processing')}
+                            onClick={() => handleRequestAction(request.id, 'processing')}
                           >
-                            Mark Processing
+                            {t('partnerDashboard.request.markProcessing')}
                           </Button>
                           <Button 
                             size="sm" 
                             variant="destructive"
-                            onClick={() => handleRequestAction(request.id, 'Rejected')}
+                            onClick={() => handleRequestAction(request.id, 'rejected')}
                           >
-                            Reject
+                            {t('partnerDashboard.request.reject')}
                           </Button>
                         </div>
                       )}
@@ -580,11 +582,11 @@ const PartnerDashboardPage: React.FC = () => {
                       </div>
                       <div className="flex items-center gap-2">
                         <CheckCircle className="h-4 w-4 text-green-500" />
-                        <span>{partner.successRate}% success</span>
+                        <span>{t('partnerDashboard.partner.success', { rate: partner.successRate })}</span>
                       </div>
                       <div className="flex items-center gap-2">
                         <TrendingUp className="h-4 w-4 text-blue-500" />
-                        <span>{partner.totalDeals} deals</span>
+                        <span>{t('partnerDashboard.partner.deals', { count: partner.totalDeals })}</span>
                       </div>
                       <div className="flex items-center gap-2">
                         <Clock className="h-4 w-4 text-orange-500" />
@@ -593,7 +595,7 @@ const PartnerDashboardPage: React.FC = () => {
                     </div>
                     
                     <div>
-                      <h4 className="text-sm font-medium mb-2">Specialties:</h4>
+                      <h4 className="text-sm font-medium mb-2">{t('partnerDashboard.partner.specialties')}</h4>
                       <div className="flex flex-wrap gap-1">
                         {partner.specialties.map((specialty, index) => (
                           <Badge key={index} variant="outline" className="text-xs">
@@ -619,7 +621,7 @@ const PartnerDashboardPage: React.FC = () => {
                     </div>
                     
                     <Button variant="outline" className="w-full">
-                      View Partnership Details
+                      {t('partnerDashboard.partner.details')}
                     </Button>
                   </CardContent>
                 </Card>
@@ -631,53 +633,53 @@ const PartnerDashboardPage: React.FC = () => {
             <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
               <Card className="border-0 shadow-lg">
                 <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium">Solar Requests</CardTitle>
+                  <CardTitle className="text-sm font-medium">{t('partnerDashboard.analytics.solar')}</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold">45</div>
-                  <p className="text-xs text-muted-foreground">This month</p>
+                  <p className="text-xs text-muted-foreground">{t('partnerDashboard.analytics.thisMonth')}</p>
                 </CardContent>
               </Card>
 
               <Card className="border-0 shadow-lg">
                 <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium">Vehicle Requests</CardTitle>
+                  <CardTitle className="text-sm font-medium">{t('partnerDashboard.analytics.vehicle')}</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold">67</div>
-                  <p className="text-xs text-muted-foreground">This month</p>
+                  <p className="text-xs text-muted-foreground">{t('partnerDashboard.analytics.thisMonth')}</p>
                 </CardContent>
               </Card>
 
               <Card className="border-0 shadow-lg">
                 <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium">Tech Requests</CardTitle>
+                  <CardTitle className="text-sm font-medium">{t('partnerDashboard.analytics.tech')}</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold">32</div>
-                  <p className="text-xs text-muted-foreground">This month</p>
+                  <p className="text-xs text-muted-foreground">{t('partnerDashboard.analytics.thisMonth')}</p>
                 </CardContent>
               </Card>
 
               <Card className="border-0 shadow-lg">
                 <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium">Equipment Requests</CardTitle>
+                  <CardTitle className="text-sm font-medium">{t('partnerDashboard.analytics.equipment')}</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold">12</div>
-                  <p className="text-xs text-muted-foreground">This month</p>
+                  <p className="text-xs text-muted-foreground">{t('partnerDashboard.analytics.thisMonth')}</p>
                 </CardContent>
               </Card>
             </div>
 
             <Card className="border-0 shadow-lg">
               <CardHeader>
-                <CardTitle>Request Trends</CardTitle>
-                <CardDescription>Asset financing request patterns over time</CardDescription>
+                <CardTitle>{t('partnerDashboard.trends')}</CardTitle>
+                <CardDescription>{t('partnerDashboard.trends.desc')}</CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="h-64 flex items-center justify-center text-muted-foreground">
-                  Analytics charts would be implemented here with actual data
+                  {t('partnerDashboard.trends.placeholder')}
                 </div>
               </CardContent>
             </Card>
@@ -21,10 +21,12 @@ import CurrencyDisplay from '@/components/CurrencyDisplay';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, BarChart, Bar } from 'recharts';
 import { usePersonalSavings } from '@/hooks/usePersonalSavings';
 import PeerLendingContent from '@/components/PeerLendingContent';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 const PersonalSavingsPage = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { t } = useLanguage();
   const { 
     walletData, 
     savingsGoals, 
@@ -55,8 +57,8 @@ const PersonalSavingsPage = () => {
   const handleSave = async () => {
     if (!savingAmount || parseFloat(savingAmount) <= 0) {
       toast({
-        title: "Error",
-        description: "Please enter a valid amount to save",
+        title: t('common.error'),
+        description: t('personalSavings.invalidAmount'),
         variant: "destructive",
       });
       return;
@@ -83,16 +85,16 @@ const PersonalSavingsPage = () => {
   const handleLend = () => {
     if (!lendAmount || !borrowerDetails) {
       toast({
-        title: "Error",
-        description: "Please fill in all lending details",
+        title: t('common.error'),
+        description: t('personalSavings.lendMissing'),
         variant: "destructive",
       });
       return;
     }
 
     toast({
-      title: "Loan Offer Sent",
-      description: `Loan offer of KES ${lendAmount} sent to ${borrowerDetails}`,
+      title: t('personalSavings.offerSent'),
+      description: t('personalSavings.offerSent.desc', { amount: parseFloat(lendAmount), borrower: borrowerDetails }),
     });
     setLendAmount('');
     setBorrowerDetails('');
@@ -112,10 +114,10 @@ const PersonalSavingsPage = () => {
               </div>
               <div>
                 <h1 className="text-4xl font-bold bg-gradient-to-r from-green-600 to-blue-600 bg-clip-text text-transparent">
-                  Personal Savings
+                  {t('personalSavings.title')}
                 </h1>
                 <p className="text-muted-foreground text-lg">
-                  Build your wealth through consistent saving and smart lending
+                  {t('personalSavings.subtitle')}
                 </p>
               </div>
             </div>
@@ -123,9 +125,9 @@ const PersonalSavingsPage = () => {
 
           <Tabs defaultValue="savings" className="w-full">
             <TabsList className="grid w-full grid-cols-3">
-              <TabsTrigger value="savings">My Savings</TabsTrigger>
-              <TabsTrigger value="lending">Peer Lending</TabsTrigger>
-              <TabsTrigger value="analytics">Analytics</TabsTrigger>
+              <TabsTrigger value="savings">{t('personalSavings.tabs.savings')}</TabsTrigger>
+              <TabsTrigger value="lending">{t('personalSavings.tabs.lending')}</TabsTrigger>
+              <TabsTrigger value="analytics">{t('personalSavings.tabs.analytics')}</TabsTrigger>
             </TabsList>
 
             <TabsContent value="savings">
@@ -136,11 +138,11 @@ const PersonalSavingsPage = () => {
                     <CardContent className="p-6">
                       <div className="flex items-center justify-between">
                         <div>
-                          <p className="text-sm text-muted-foreground">Wallet Balance</p>
+                          <p className="text-sm text-muted-foreground">{t('personalSavings.wallet')}</p>
                           <CurrencyDisplay amount={walletData.balance} className="text-3xl font-bold" showToggle={false} />
                           <p className="text-xs text-green-600 flex items-center mt-1">
                             <TrendingUp className="h-3 w-3 mr-1" />
-                            Available for savings
+                            {t('personalSavings.wallet.hint')}
                           </p>
                         </div>
                         <Wallet className="h-8 w-8 text-green-500" />
@@ -153,9 +155,9 @@ const PersonalSavingsPage = () => {
                     <CardContent className="p-6">
                       <div className="flex items-center justify-between">
                         <div>
-                          <p className="text-sm text-muted-foreground">Total Savings</p>
+                          <p className="text-sm text-muted-foreground">{t('personalSavings.total')}</p>
                           <CurrencyDisplay amount={walletData.totalSavings} className="text-3xl font-bold text-blue-600" showToggle={false} />
-                          <p className="text-xs text-blue-600">Across all goals</p>
+                          <p className="text-xs text-blue-600">{t('personalSavings.total.hint')}</p>
                         </div>
                         <Target className="h-8 w-8 text-blue-500" />
                       </div>
@@ -167,9 +169,9 @@ const PersonalSavingsPage = () => {
                     <CardContent className="p-6">
                       <div className="flex items-center justify-between">
                         <div>
-                          <p className="text-sm text-muted-foreground">Monthly Progress</p>
+                          <p className="text-sm text-muted-foreground">{t('personalSavings.monthly')}</p>
                           <CurrencyDisplay amount={savingsData[savingsData.length - 1]?.amount || 0} className="text-3xl font-bold text-purple-600" showToggle={false} />
-                          <p className="text-xs text-purple-600">Goal: KES {walletData.monthlyTarget.toLocaleString()}</p>
+                          <p className="text-xs text-purple-600">{t('personalSavings.goal', { amount: walletData.monthlyTarget })}</p>
                         </div>
                         <Calendar className="h-8 w-8 text-purple-500" />
                       </div>
@@ -182,9 +184,9 @@ const PersonalSavingsPage = () => {
                     <CardContent className="p-6">
                       <div className="flex items-center justify-between">
                         <div>
-                          <p className="text-sm text-muted-foreground">Saving Streak</p>
+                          <p className="text-sm text-muted-foreground">{t('personalSavings.streak')}</p>
                           <p className="text-3xl font-bold text-orange-600">{walletData.currentStreak}</p>
-                          <p className="text-xs text-orange-600">days in a row</p>
+                          <p className="text-xs text-orange-600">{t('personalSavings.streak.hint')}</p>
                         </div>
                         <Clock className="h-8 w-8 text-orange-500" />
                       </div>
@@ -199,54 +201,54 @@ const PersonalSavingsPage = () => {
                     <CardHeader>
                       <CardTitle className="flex items-center gap-2">
                         <Plus className="h-5 w-5" />
-                        Add to Savings
+                        {t('personalSavings.add')}
                       </CardTitle>
-                      <CardDescription>Save money daily or monthly to reach your goals</CardDescription>
+                      <CardDescription>{t('personalSavings.add.desc')}</CardDescription>
                     </CardHeader>
                     <CardContent className="space-y-4">
                       <div className="space-y-2">
-                        <Label htmlFor="amount">Amount to Save</Label>
+                        <Label htmlFor="amount">{t('personalSavings.amount')}</Label>
                         <Input
                           id="amount"
                           type="number"
-                          placeholder="Enter amount"
+                          placeholder={t('personalSavings.enterAmount')}
                           value={savingAmount}
                           onChange={(e) => setSavingAmount(e.target.value)}
                         />
                       </div>
 
                       <div className="space-y-2">
-                        <Label>Saving Frequency</Label>
+                        <Label>{t('personalSavings.frequency')}</Label>
                         <div className="flex gap-2">
                           <Button
                             variant={savingFrequency === 'daily' ? 'default' : 'outline'}
                             size="sm"
                             onClick={() => setSavingFrequency('daily')}
                           >
-                            Daily
+                            {t('personalSavings.daily')}
                           </Button>
                           <Button
                             variant={savingFrequency === 'weekly' ? 'default' : 'outline'}
                             size="sm"
                             onClick={() => setSavingFrequency('weekly')}
                           >
-                            Weekly
+                            {t('personalSavings.weekly')}
                           </Button>
                           <Button
                             variant={savingFrequency === 'monthly' ? 'default' : 'outline'}
                             size="sm"
                             onClick={() => setSavingFrequency('monthly')}
                           >
-                            Monthly
+                            {t('personalSavings.monthlyFreq')}
                           </Button>
                         </div>
                       </div>
 
                       <div className="space-y-2">
-                        <Label htmlFor="goal">Savings Goal (Optional)</Label>
+                        <Label htmlFor="goal">{t('personalSavings.goalLabel')}</Label>
                         <Input
                           id="goal"
-                          placeholder="e.g., Emergency Fund, Vacation"
+                          placeholder={t('personalSavings.goal.placeholder')}
                           value={savingGoal}
                           onChange={(e) => setSavingGoal(e.target.value)}
                         />
@@ -258,14 +260,14 @@ const PersonalSavingsPage = () => {
                         ) : (
                           <PiggyBank className="h-4 w-4 mr-2" />
                         )}
-                        {isSaving ? 'Saving...' : 'Save Money'}
+                        {isSaving ? t('personalSavings.saving') : t('personalSavings.save')}
                       </Button>
                     </CardContent>
                   </Card>
 
                   <Card>
                     <CardHeader>
-                      <CardTitle>Savings Goals Breakdown</CardTitle>
+                      <CardTitle>{t('personalSavings.breakdown')}</CardTitle>
                     </CardHeader>
                     <CardContent>
                       {isLoading ? (
@@ -308,8 +310,8 @@ const PersonalSavingsPage = () => {
                       ) : (
                         <div className="h-64 w-full flex flex-col items-center justify-center text-muted-foreground">
                           <PiggyBank className="h-12 w-12 mb-4" />
-                          <p className="text-center">No savings goals yet</p>
-                          <p className="text-sm text-center">Create your first savings goal to see the breakdown</p>
+                          <p className="text-center">{t('personalSavings.noGoals')}</p>
+                          <p className="text-sm text-center">{t('personalSavings.noGoals.desc')}</p>
                         </div>
                       )}
                     </CardContent>
@@ -327,8 +329,8 @@ const PersonalSavingsPage = () => {
                 {/* Savings Trends */}
                 <Card>
                   <CardHeader>
-                    <CardTitle>Savings Performance</CardTitle>
-                    <CardDescription>Track your monthly savings vs targets</CardDescription>
+                    <CardTitle>{t('personalSavings.performance')}</CardTitle>
+                    <CardDescription>{t('personalSavings.performance.desc')}</CardDescription>
                   </CardHeader>
                   <CardContent>
                     <div className="h-80 w-full">
@@ -338,8 +340,8 @@ const PersonalSavingsPage = () => {
                           <XAxis dataKey="month" />
                           <YAxis />
                           <Tooltip />
-                          <Bar dataKey="amount" fill="#22c55e" name="Saved" />
-                          <Bar dataKey="target" fill="#94a3b8" name="Target" />
+                          <Bar dataKey="amount" fill="#22c55e" name={t('personalSavings.chart.saved')} />
+                          <Bar dataKey="target" fill="#94a3b8" name={t('personalSavings.chart.target')} />
                         </BarChart>
                       </ResponsiveContainer>
                     </div>
@@ -350,26 +352,26 @@ const PersonalSavingsPage = () => {
                 <div className="grid md:grid-cols-2 gap-6">
                   <Card>
                     <CardHeader>
-                      <CardTitle>Savings Insights</CardTitle>
+                      <CardTitle>{t('personalSavings.insights')}</CardTitle>
                     </CardHeader>
                     <CardContent>
                       <div className="space-y-4">
                         <Alert>
                           <TrendingUp className="h-4 w-4" />
                           <AlertDescription>
-                            <strong>Great job!</strong> You're saving 15% more than last month. Keep up the momentum!
+                            <strong>{t('personalSavings.insight.greatJob')}</strong> {t('personalSavings.insight.trend')}
                           </AlertDescription>
                         </Alert>
                         <Alert>
                           <Target className="h-4 w-4" />
                           <AlertDescription>
-                            You're 87% towards your monthly goal. Just KES 2,000 more to reach your target!
+                            {t('personalSavings.insight.goal', { percent: 87, amount: 2000 })}
                           </AlertDescription>
                         </Alert>
                         <Alert>
                           <Calendar className="h-4 w-4" />
                           <AlertDescription>
-                            Your {walletData.currentStreak}-day saving streak is impressive! Daily consistency pays off.
+                            {t('personalSavings.insight.streak', { days: walletData.currentStreak })}
                           </AlertDescription>
                         </Alert>
                       </div>
@@ -378,23 +380,23 @@ const PersonalSavingsPage = () => {
 
                   <Card>
                     <CardHeader>
-                      <CardTitle>Lending Performance</CardTitle>
+                      <CardTitle>{t('personalSavings.lendingPerformance')}</CardTitle>
                     </CardHeader>
                     <CardContent>
                       <div className="space-y-4">
                         <div className="flex justify-between items-center">
-                          <span>Repayment Rate</span>
+                          <span>{t('personalSavings.repaymentRate')}</span>
                           <span className="font-medium">85%</span>
                         </div>
                         <Progress value={85} />
                         
                         <div className="flex justify-between items-center">
-                          <span>Average Interest</span>
+                          <span>{t('personalSavings.avgInterest')}</span>
                           <span className="font-medium">12.5%</span>
                         </div>
                         
                         <div className="flex justify-between items-center">
-                          <span>Total Borrowers</span>
+                          <span>{t('personalSavings.borrowers')}</span>
                           <span className="font-medium">5</span>
                         </div>
                       </div>
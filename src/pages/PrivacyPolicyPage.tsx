@@ -3,9 +3,11 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { ArrowLeft, Shield, Eye, Lock, Database } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 const PrivacyPolicyPage = () => {
   const navigate = useNavigate();
+  const { t } = useLanguage();
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5">
@@ -17,285 +19,285 @@ const PrivacyPolicyPage = () => {
             className="mb-4"
           >
             <ArrowLeft className="mr-2 h-4 w-4" />
-            Back
+            {t('legal.back')}
           </Button>
         </div>
 
         <Card className="shadow-lg">
           <CardHeader className="text-center border-b">
             <CardTitle className="text-3xl font-bold text-primary">
-              Privacy Policy
+              {t('privacy.title')}
             </CardTitle>
             <p className="text-muted-foreground mt-2">
-              Last updated: {new Date().toLocaleDateString()}
+              {t('legal.lastUpdated', { date: new Date() })}
             </p>
             <div className="flex justify-center gap-4 mt-4">
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
                 <Shield className="h-4 w-4" />
-                Your privacy is protected
+                {t('privacy.badge.protected')}
               </div>
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
                 <Lock className="h-4 w-4" />
-                Data encrypted
+                {t('privacy.badge.encrypted')}
               </div>
             </div>
           </CardHeader>
 
           <CardContent className="prose prose-slate max-w-none p-8 space-y-8">
             <section>
-              <h2 className="text-2xl font-semibold text-primary mb-4">1. Introduction</h2>
+              <h2 className="text-2xl font-semibold text-primary mb-4">{t('privacy.s1.title')}</h2>
               <p className="text-muted-foreground leading-relaxed">
-                We are committed to protecting your personal information and your right to privacy. This Privacy Policy explains how we collect, use, disclose, and safeguard your information when you use our Chama management platform. Please read this privacy policy carefully.
+                {t('privacy.s1.body')}
               </p>
             </section>
 
             <section>
-              <h2 className="text-2xl font-semibold text-primary mb-4">2. Information We Collect</h2>
+              <h2 className="text-2xl font-semibold text-primary mb-4">{t('privacy.s2.title')}</h2>
               
               <div className="space-y-6">
                 <div className="p-4 bg-muted rounded-lg">
                   <div className="flex items-center gap-2 mb-3">
                     <Database className="h-5 w-5 text-primary" />
-                    <h3 className="text-lg font-medium">Personal Information</h3>
+                    <h3 className="text-lg font-medium">{t('privacy.s2.personal')}</h3>
                   </div>
                   <ul className="list-disc pl-6 text-muted-foreground space-y-1">
-                    <li>Full name, email address, and phone number</li>
-                    <li>Date of birth and national identification documents</li>
-                    <li>Physical address and location data</li>
-                    <li>Employment information and income details</li>
-                    <li>Bank account and mobile money details</li>
-                    <li>Profile photos and uploaded documents</li>
+                    <li>{t('privacy.s2.personal.1')}</li>
+                    <li>{t('privacy.s2.personal.2')}</li>
+                    <li>{t('privacy.s2.personal.3')}</li>
+                    <li>{t('privacy.s2.personal.4')}</li>
+                    <li>{t('privacy.s2.personal.5')}</li>
+                    <li>{t('privacy.s2.personal.6')}</li>
                   </ul>
                 </div>
 
                 <div className="p-4 bg-muted rounded-lg">
                   <div className="flex items-center gap-2 mb-3">
                     <Eye className="h-5 w-5 text-primary" />
-                    <h3 className="text-lg font-medium">Financial Information</h3>
+                    <h3 className="text-lg font-medium">{t('privacy.s2.financial')}</h3>
                   </div>
                   <ul className="list-disc pl-6 text-muted-foreground space-y-1">
-                    <li>Transaction history and payment details</li>
-                    <li>Savings and investment account information</li>
-                    <li>Credit history and loan applications</li>
-                    <li>Chama membership and contribution records</li>
-                    <li>Budget and spending patterns</li>
-                    <li>Investment preferences and risk assessments</li>
+                    <li>{t('privacy.s2.financial.1')}</li>
+                    <li>{t('privacy.s2.financial.2')}</li>
+                    <li>{t('privacy.s2.financial.3')}</li>
+                    <li>{t('privacy.s2.financial.4')}</li>
+                    <li>{t('privacy.s2.financial.5')}</li>
+                    <li>{t('privacy.s2.financial.6')}</li>
                   </ul>
                 </div>
 
                 <div className="p-4 bg-muted rounded-lg">
                   <div className="flex items-center gap-2 mb-3">
                     <Shield className="h-5 w-5 text-primary" />
-                    <h3 className="text-lg font-medium">Technical Information</h3>
+                    <h3 className="text-lg font-medium">{t('privacy.s2.technical')}</h3>
                   </div>
                   <ul className="list-disc pl-6 text-muted-foreground space-y-1">
-                    <li>Device information (IP address, browser type, operating system)</li>
-                    <li>Usage patterns and app interactions</li>
-                    <li>Log files and error reports</li>
-                    <li>Location data (when location services are enabled)</li>
-                    <li>Cookies and similar tracking technologies</li>
+                    <li>{t('privacy.s2.technical.1')}</li>
+                    <li>{t('privacy.s2.technical.2')}</li>
+                    <li>{t('privacy.s2.technical.3')}</li>
+                    <li>{t('privacy.s2.technical.4')}</li>
+                    <li>{t('privacy.s2.technical.5')}</li>
                   </ul>
                 </div>
               </div>
             </section>
 
             <section>
-              <h2 className="text-2xl font-semibold text-primary mb-4">3. How We Use Your Information</h2>
+              <h2 className="text-2xl font-semibold text-primary mb-4">{t('privacy.s3.title')}</h2>
               <p className="text-muted-foreground leading-relaxed mb-4">
-                We use the information we collect for the following purposes:
+                {t('privacy.s3.intro')}
               </p>
               <div className="grid md:grid-cols-2 gap-4">
                 <div className="space-y-3">
-                  <h3 className="font-medium text-foreground">Service Provision</h3>
+                  <h3 className="font-medium text-foreground">{t('privacy.s3.service')}</h3>
                   <ul className="list-disc pl-6 text-sm text-muted-foreground space-y-1">
-                    <li>Account creation and management</li>
-                    <li>Processing financial transactions</li>
-                    <li>Facilitating Chama operations</li>
-                    <li>Providing customer support</li>
+                    <li>{t('privacy.s3.service.1')}</li>
+                    <li>{t('privacy.s3.service.2')}</li>
+                    <li>{t('privacy.s3.service.3')}</li>
+                    <li>{t('privacy.s3.service.4')}</li>
                   </ul>
                 </div>
                 <div className="space-y-3">
-                  <h3 className="font-medium text-foreground">Compliance & Security</h3>
+                  <h3 className="font-medium text-foreground">{t('privacy.s3.compliance')}</h3>
                   <ul className="list-disc pl-6 text-sm text-muted-foreground space-y-1">
-                    <li>KYC and AML compliance</li>
-                    <li>Fraud prevention and detection</li>
-                    <li>Risk assessment and management</li>
-                    <li>Regulatory reporting requirements</li>
+                    <li>{t('privacy.s3.compliance.1')}</li>
+                    <li>{t('privacy.s3.compliance.2')}</li>
+                    <li>{t('privacy.s3.compliance.3')}</li>
+                    <li>{t('privacy.s3.compliance.4')}</li>
                   </ul>
                 </div>
                 <div className="space-y-3">
-                  <h3 className="font-medium text-foreground">Service Improvement</h3>
+                  <h3 className="font-medium text-foreground">{t('privacy.s3.improvement')}</h3>
                   <ul className="list-disc pl-6 text-sm text-muted-foreground space-y-1">
-                    <li>Platform optimization and development</li>
-                    <li>Personalized financial recommendations</li>
-                    <li>Analytics and usage insights</li>
-                    <li>New feature development</li>
+                    <li>{t('privacy.s3.improvement.1')}</li>
+                    <li>{t('privacy.s3.improvement.2')}</li>
+                    <li>{t('privacy.s3.improvement.3')}</li>
+                    <li>{t('privacy.s3.improvement.4')}</li>
                   </ul>
                 </div>
                 <div className="space-y-3">
-                  <h3 className="font-medium text-foreground">Communication</h3>
+                  <h3 className="font-medium text-foreground">{t('privacy.s3.communication')}</h3>
                   <ul className="list-disc pl-6 text-sm text-muted-foreground space-y-1">
-                    <li>Transaction notifications</li>
-                    <li>Account updates and alerts</li>
-                    <li>Marketing communications (with consent)</li>
-                    <li>Important service announcements</li>
+                    <li>{t('privacy.s3.communication.1')}</li>
+                    <li>{t('privacy.s3.communication.2')}</li>
+                    <li>{t('privacy.s3.communication.3')}</li>
+                    <li>{t('privacy.s3.communication.4')}</li>
                   </ul>
                 </div>
               </div>
             </section>
 
             <section>
-              <h2 className="text-2xl font-semibold text-primary mb-4">4. Information Sharing and Disclosure</h2>
+              <h2 className="text-2xl font-semibold text-primary mb-4">{t('privacy.s4.title')}</h2>
               <div className="space-y-4">
                 <div>
-                  <h3 className="text-lg font-medium mb-2">With Your Consent</h3>
+                  <h3 className="text-lg font-medium mb-2">{t('privacy.s4.consent.title')}</h3>
                   <p className="text-muted-foreground leading-relaxed">
-                    We share your information with third parties only when you have given us explicit consent to do so.
+                    {t('privacy.s4.consent.body')}
                   </p>
                 </div>
                 <div>
-                  <h3 className="text-lg font-medium mb-2">Service Providers</h3>
+                  <h3 className="text-lg font-medium mb-2">{t('privacy.s4.providers.title')}</h3>
                   <p className="text-muted-foreground leading-relaxed">
-                    We work with trusted third-party service providers for payment processing, SMS services, cloud storage, and analytics. These providers are bound by strict confidentiality agreements.
+                    {t('privacy.s4.providers.body')}
                   </p>
                 </div>
                 <div>
-                  <h3 className="text-lg font-medium mb-2">Legal Requirements</h3>
+                  <h3 className="text-lg font-medium mb-2">{t('privacy.s4.legal.title')}</h3>
                   <p className="text-muted-foreground leading-relaxed">
-                    We may disclose your information when required by law, regulation, legal process, or government request, including compliance with KYC, AML, and tax reporting requirements.
+                    {t('privacy.s4.legal.body')}
                   </p>
                 </div>
                 <div>
-                  <h3 className="text-lg font-medium mb-2">Within Chama Groups</h3>
+                  <h3 className="text-lg font-medium mb-2">{t('privacy.s4.chama.title')}</h3>
                   <p className="text-muted-foreground leading-relaxed">
-                    Basic information (name, contribution history) is shared with other members of your Chama groups as necessary for group operations. Financial details remain private unless specifically authorized.
+                    {t('privacy.s4.chama.body')}
                   </p>
                 </div>
               </div>
             </section>
 
             <section>
-              <h2 className="text-2xl font-semibold text-primary mb-4">5. Data Security</h2>
+              <h2 className="text-2xl font-semibold text-primary mb-4">{t('privacy.s5.title')}</h2>
               <div className="grid md:grid-cols-2 gap-4">
                 <div className="p-4 bg-muted rounded-lg">
-                  <h3 className="font-medium mb-2">Encryption</h3>
+                  <h3 className="font-medium mb-2">{t('privacy.s5.encryption')}</h3>
                   <p className="text-sm text-muted-foreground">
-                    All sensitive data is encrypted in transit using TLS/SSL and at rest using AES-256 encryption.
+                    {t('privacy.s5.encryption.body')}
                   </p>
                 </div>
                 <div className="p-4 bg-muted rounded-lg">
-                  <h3 className="font-medium mb-2">Access Controls</h3>
+                  <h3 className="font-medium mb-2">{t('privacy.s5.access')}</h3>
                   <p className="text-sm text-muted-foreground">
-                    Strict access controls ensure only authorized personnel can access your data on a need-to-know basis.
+                    {t('privacy.s5.access.body')}
                   </p>
                 </div>
                 <div className="p-4 bg-muted rounded-lg">
-                  <h3 className="font-medium mb-2">Monitoring</h3>
+                  <h3 className="font-medium mb-2">{t('privacy.s5.monitoring')}</h3>
                   <p className="text-sm text-muted-foreground">
-                    We continuously monitor our systems for security threats and unauthorized access attempts.
+                    {t('privacy.s5.monitoring.body')}
                   </p>
                 </div>
                 <div className="p-4 bg-muted rounded-lg">
-                  <h3 className="font-medium mb-2">Compliance</h3>
+                  <h3 className="font-medium mb-2">{t('privacy.s5.compliance')}</h3>
                   <p className="text-sm text-muted-foreground">
-                    Our security practices comply with industry standards and regulatory requirements.
+                    {t('privacy.s5.compliance.body')}
                   </p>
                 </div>
               </div>
             </section>
 
             <section>
-              <h2 className="text-2xl font-semibold text-primary mb-4">6. Your Privacy Rights</h2>
+              <h2 className="text-2xl font-semibold text-primary mb-4">{t('privacy.s6.title')}</h2>
               <div className="space-y-4">
                 <div className="p-4 bg-primary/5 rounded-lg">
-                  <h3 className="font-medium mb-2">Access and Portability</h3>
+                  <h3 className="font-medium mb-2">{t('privacy.s6.access')}</h3>
                   <p className="text-sm text-muted-foreground">
-                    You have the right to access your personal data and request a copy in a portable format.
+                    {t('privacy.s6.access.body')}
                   </p>
                 </div>
                 <div className="p-4 bg-primary/5 rounded-lg">
-                  <h3 className="font-medium mb-2">Correction and Updates</h3>
+                  <h3 className="font-medium mb-2">{t('privacy.s6.correction')}</h3>
                   <p className="text-sm text-muted-foreground">
-                    You can update your personal information at any time through your account settings.
+                    {t('privacy.s6.correction.body')}
                   </p>
                 </div>
                 <div className="p-4 bg-primary/5 rounded-lg">
-                  <h3 className="font-medium mb-2">Deletion</h3>
+                  <h3 className="font-medium mb-2">{t('privacy.s6.deletion')}</h3>
                   <p className="text-sm text-muted-foreground">
-                    You may request deletion of your account and personal data, subject to legal retention requirements.
+                    {t('privacy.s6.deletion.body')}
                   </p>
                 </div>
                 <div className="p-4 bg-primary/5 rounded-lg">
-                  <h3 className="font-medium mb-2">Marketing Opt-out</h3>
+                  <h3 className="font-medium mb-2">{t('privacy.s6.marketing')}</h3>
                   <p className="text-sm text-muted-foreground">
-                    You can unsubscribe from marketing communications at any time using the unsubscribe link or contacting us.
+                    {t('privacy.s6.marketing.body')}
                   </p>
                 </div>
               </div>
             </section>
 
             <section>
-              <h2 className="text-2xl font-semibold text-primary mb-4">7. Data Retention</h2>
+              <h2 className="text-2xl font-semibold text-primary mb-4">{t('privacy.s7.title')}</h2>
               <p className="text-muted-foreground leading-relaxed">
-                We retain your personal information for as long as necessary to provide our services and comply with legal obligations. Financial transaction data may be retained for up to 7 years as required by law. After this period, data is securely deleted or anonymized.
+                {t('privacy.s7.body')}
               </p>
             </section>
 
             <section>
-              <h2 className="text-2xl font-semibold text-primary mb-4">8. Cookies and Tracking</h2>
+              <h2 className="text-2xl font-semibold text-primary mb-4">{t('privacy.s8.title')}</h2>
               <p className="text-muted-foreground leading-relaxed mb-4">
-                We use cookies and similar technologies to enhance your experience:
+                {t('privacy.s8.intro')}
               </p>
               <ul className="list-disc pl-6 text-muted-foreground space-y-2">
-                <li><strong>Essential Cookies:</strong> Required for basic site functionality</li>
-                <li><strong>Analytics Cookies:</strong> Help us understand how you use our platform</li>
-                <li><strong>Preference Cookies:</strong> Remember your settings and preferences</li>
-                <li><strong>Security Cookies:</strong> Protect against fraud and enhance security</li>
+                <li><strong>{t('privacy.s8.essential')}</strong> {t('privacy.s8.essential.desc')}</li>
+                <li><strong>{t('privacy.s8.analytics')}</strong> {t('privacy.s8.analytics.desc')}</li>
+                <li><strong>{t('privacy.s8.preference')}</strong> {t('privacy.s8.preference.desc')}</li>
+                <li><strong>{t('privacy.s8.security')}</strong> {t('privacy.s8.security.desc')}</li>
               </ul>
               <p className="text-muted-foreground leading-relaxed mt-4">
-                You can control cookies through your browser settings, though disabling essential cookies may affect platform functionality.
+                {t('privacy.s8.control')}
               </p>
             </section>
 
             <section>
-              <h2 className="text-2xl font-semibold text-primary mb-4">9. International Data Transfers</h2>
+              <h2 className="text-2xl font-semibold text-primary mb-4">{t('privacy.s9.title')}</h2>
               <p className="text-muted-foreground leading-relaxed">
-                Your data is primarily stored and processed in Kenya. When we transfer data internationally, we ensure appropriate safeguards are in place, including standard contractual clauses and adequacy decisions.
+                {t('privacy.s9.body')}
               </p>
             </section>
 
             <section>
-              <h2 className="text-2xl font-semibold text-primary mb-4">10. Children's Privacy</h2>
+              <h2 className="text-2xl font-semibold text-primary mb-4">{t('privacy.s10.title')}</h2>
               <p className="text-muted-foreground leading-relaxed">
-                Our services are not intended for individuals under 18 years of age. We do not knowingly collect personal information from children. If we become aware that we have collected personal information from a child, we will delete such information promptly.
+                {t('privacy.s10.body')}
               </p>
             </section>
 
             <section>
-              <h2 className="text-2xl font-semibold text-primary mb-4">11. Changes to This Privacy Policy</h2>
+              <h2 className="text-2xl font-semibold text-primary mb-4">{t('privacy.s11.title')}</h2>
               <p className="text-muted-foreground leading-relaxed">
-                We may update this Privacy Policy from time to time. We will notify you of any material changes by posting the new Privacy Policy on this page and updating the "Last updated" date. We encourage you to review this Privacy Policy periodically.
+                {t('privacy.s11.body')}
               </p>
             </section>
 
             <section>
-              <h2 className="text-2xl font-semibold text-primary mb-4">12. Contact Us</h2>
+              <h2 className="text-2xl font-semibold text-primary mb-4">{t('privacy.s12.title')}</h2>
               <p className="text-muted-foreground leading-relaxed mb-4">
-                If you have any questions about this Privacy Policy or our privacy practices, please contact us:
+                {t('privacy.s12.intro')}
               </p>
               <div className="grid md:grid-cols-2 gap-4">
                 <div className="p-4 bg-muted rounded-lg">
-                  <h3 className="font-medium mb-2">General Inquiries</h3>
+                  <h3 className="font-medium mb-2">{t('privacy.s12.general')}</h3>
                   <p className="text-sm text-muted-foreground">
-                    Email: privacy@chamaapp.com<br />
-                    Phone: +254 XXX XXX XXX
+                    {t('legal.contact.email', { email: 'privacy@chamaapp.com' })}<br />
+                    {t('legal.contact.phone', { phone: '+254 XXX XXX XXX' })}
                   </p>
                 </div>
                 <div className="p-4 bg-muted rounded-lg">
-                  <h3 className="font-medium mb-2">Data Protection Officer</h3>
+                  <h3 className="font-medium mb-2">{t('privacy.s12.dpo')}</h3>
                   <p className="text-sm text-muted-foreground">
-                    Email: dpo@chamaapp.com<br />
-                    Address: Nairobi, Kenya
+                    {t('legal.contact.email', { email: 'dpo@chamaapp.com' })}<br />
+                    {t('legal.contact.address')}
                   </p>
                 </div>
               </div>
@@ -304,7 +306,7 @@ const PrivacyPolicyPage = () => {
             <section className="border-t pt-6">
               <div className="bg-primary/5 p-4 rounded-lg">
                 <p className="text-sm text-muted-foreground italic">
-                  By using our Service, you acknowledge that you have read and understood this Privacy Policy and agree to the collection, use, and disclosure of your information as described herein.
+                  {t('privacy.acknowledgement')}
                 </p>
               </div>
             </section>
@@ -17,35 +17,37 @@ import PinSetupForm from '@/components/auth/PinSetupForm';
 import SecurityDashboard from '@/components/auth/SecurityDashboard';
 import ComplianceCenter from '@/components/auth/ComplianceCenter';
 import { useEnhancedAuth } from '@/hooks/useEnhancedAuth';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 const ProfileSettingsPage: React.FC = () => {
   const navigate = useNavigate();
   const { profile, profileCompletion, securitySettings, loading } = useEnhancedAuth();
   const [activeTab, setActiveTab] = useState('profile');
+  const { t } = useLanguage();
 
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
-          <p className="mt-4 text-muted-foreground">Loading your profile...</p>
+          <p className="mt-4 text-muted-foreground">{t('profileSettings.loading')}</p>
         </div>
       </div>
     );
   }
 
   const getVerificationStatus = () => {
-    if (!profile) return { status: 'pending', color: 'text-gray-500' };
+    if (!profile) return { status: t('profileSettings.kyc.pending'), color: 'text-gray-500' };
     
     switch (profile.kyc_status) {
       case 'verified':
-        return { status: 'Verified', color: 'text-green-600' };
+        return { status: t('profileSettings.kyc.verified'), color: 'text-green-600' };
       case 'in_review':
-        return { status: 'Under Review', color: 'text-blue-600' };
+        return { status: t('profileSettings.kyc.inReview'), color: 'text-blue-600' };
       case 'rejected':
-        return { status: 'Rejected', color: 'text-red-600' };
+        return { status: t('profileSettings.kyc.rejected'), color: 'text-red-600' };
       default:
-        return { status: 'Pending', color: 'text-gray-500' };
+        return { status: t('profileSettings.kyc.pending'), color: 'text-gray-500' };
     }
   };
 
@@ -59,14 +61,14 @@ const ProfileSettingsPage: React.FC = () => {
         <div className="mb-6 sm:mb-8">
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
             <div>
-              <h1 className="text-2xl sm:text-3xl font-bold text-foreground">Profile Settings</h1>
+              <h1 className="text-2xl sm:text-3xl font-bold text-foreground">{t('profileSettings.title')}</h1>
               <p className="text-muted-foreground mt-1 text-sm sm:text-base">
-                Manage your profile, security settings, and verification status
+                {t('profileSettings.subtitle')}
               </p>
             </div>
             <Button onClick={() => navigate('/dashboard')} variant="outline" className="self-start sm:self-auto">
               <ChevronLeft className="h-4 w-4 mr-2" />
-              Back to Dashboard
+              {t('profileSettings.back')}
             </Button>
           </div>
         </div>
@@ -80,8 +82,8 @@ const ProfileSettingsPage: React.FC = () => {
                   <User className="h-5 w-5 text-blue-600" />
                 </div>
                 <div>
-                  <p className="text-sm text-muted-foreground">Profile</p>
-                  <p className="text-lg font-semibold">{profileCompletion}% Complete</p>
+                  <p className="text-sm text-muted-foreground">{t('profileSettings.tabs.profile')}</p>
+                  <p className="text-lg font-semibold">{t('profileSettings.completion', { percent: profileCompletion })}</p>
                 </div>
               </div>
             </CardContent>
@@ -94,7 +96,7 @@ const ProfileSettingsPage: React.FC = () => {
                   <FileCheck className={`h-5 w-5 ${verificationStatus.color}`} />
                 </div>
                 <div>
-                  <p className="text-sm text-muted-foreground">KYC Status</p>
+                  <p className="text-sm text-muted-foreground">{t('profileSettings.kycStatus')}</p>
                   <p className="text-lg font-semibold">{verificationStatus.status}</p>
                 </div>
               </div>
@@ -108,7 +110,7 @@ const ProfileSettingsPage: React.FC = () => {
                   <Shield className="h-5 w-5 text-purple-600" />
                 </div>
                 <div>
-                  <p className="text-sm text-muted-foreground">Security Score</p>
+                  <p className="text-sm text-muted-foreground">{t('profileSettings.securityScore')}</p>
                   <p className="text-lg font-semibold">{securityScore}/100</p>
                 </div>
               </div>
@@ -121,23 +123,23 @@ const ProfileSettingsPage: React.FC = () => {
           <TabsList className="grid w-full grid-cols-2 sm:grid-cols-3 lg:grid-cols-5">
             <TabsTrigger value="profile" className="flex items-center gap-2">
               <User className="h-4 w-4" />
-              <span className="hidden sm:inline">Profile</span>
+              <span className="hidden sm:inline">{t('profileSettings.tabs.profile')}</span>
             </TabsTrigger>
             <TabsTrigger value="kyc" className="flex items-center gap-2">
               <FileCheck className="h-4 w-4" />
-              <span className="hidden sm:inline">KYC</span>
+              <span className="hidden sm:inline">{t('profileSettings.tabs.kyc')}</span>
             </TabsTrigger>
             <TabsTrigger value="security" className="flex items-center gap-2">
               <Shield className="h-4 w-4" />
-              <span className="hidden sm:inline">Security</span>
+              <span className="hidden sm:inline">{t('profileSettings.tabs.security')}</span>
             </TabsTrigger>
             <TabsTrigger value="pin" className="flex items-center gap-2">
               <Lock className="h-4 w-4" />
-              <span className="hidden sm:inline">PIN</span>
+              <span className="hidden sm:inline">{t('profileSettings.tabs.pin')}</span>
             </TabsTrigger>
             <TabsTrigger value="compliance" className="flex items-center gap-2">
               <Eye className="h-4 w-4" />
-              <span className="hidden sm:inline">Legal</span>
+              <span className="hidden sm:inline">{t('profileSettings.tabs.legal')}</span>
             </TabsTrigger>
           </TabsList>
 
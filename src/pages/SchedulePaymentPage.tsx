@@ -10,10 +10,12 @@ import { useNavigate } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
 import Navigation from '@/components/Navigation';
 import CurrencyDisplay from '@/components/CurrencyDisplay';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 const SchedulePaymentPage = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { t } = useLanguage();
   const [selectedChama, setSelectedChama] = useState('');
   const [amount, setAmount] = useState('');
   const [frequency, setFrequency] = useState('');
@@ -25,9 +27,9 @@ const SchedulePaymentPage = () => {
   ];
 
   const frequencies = [
-    { id: 'weekly', name: 'Weekly', description: 'Every week' },
-    { id: 'monthly', name: 'Monthly', description: 'Every month' },
-    { id: 'quarterly', name: 'Quarterly', description: 'Every 3 months' }
+    { id: 'weekly', name: t('schedulePayment.frequency.weekly'), description: t('schedulePayment.frequency.weekly.desc') },
+    { id: 'monthly', name: t('schedulePayment.frequency.monthly'), description: t('schedulePayment.frequency.monthly.desc') },
+    { id: 'quarterly', name: t('schedulePayment.frequency.quarterly'), description: t('schedulePayment.frequency.quarterly.desc') }
   ];
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -37,8 +39,13 @@ const SchedulePaymentPage = () => {
       const selectedFrequency = frequencies.find(f => f.id === frequency);
       
       toast({
-        title: "Payment Scheduled!",
-        description: `${selectedFrequency?.name} payments of ${amount} KES to ${selectedChamaData?.name} starting ${startDate}`,
+        title: t('schedulePayment.scheduled.title'),
+        description: t('schedulePayment.scheduled.desc', {
+          frequency: selectedFrequency?.name,
+          amount: Number(amount),
+          chama: selectedChamaData?.name,
+          startDate: new Date(startDate),
+        }),
       });
       navigate('/');
     }
@@ -62,8 +69,8 @@ const SchedulePaymentPage = () => {
               <ArrowLeft className="h-4 w-4" />
             </Button>
             <div>
-              <h1 className="text-3xl font-bold">Schedule Payment</h1>
-              <p className="text-muted-foreground">Set up automatic contributions</p>
+              <h1 className="text-3xl font-bold">{t('schedulePayment.title')}</h1>
+              <p className="text-muted-foreground">{t('schedulePayment.subtitle')}</p>
             </div>
           </div>
 
@@ -71,19 +78,19 @@ const SchedulePaymentPage = () => {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Clock className="h-5 w-5" />
-                Payment Schedule
+                {t('schedulePayment.card.title')}
               </CardTitle>
               <CardDescription>
-                Configure your automatic contribution schedule
+                {t('schedulePayment.card.desc')}
               </CardDescription>
             </CardHeader>
             <CardContent>
               <form onSubmit={handleSubmit} className="space-y-6">
                 <div className="space-y-2">
-                  <Label htmlFor="chama">Select Chama</Label>
+                  <Label htmlFor="chama">{t('schedulePayment.chama')}</Label>
                   <Select value={selectedChama} onValueChange={setSelectedChama}>
                     <SelectTrigger>
-                      <SelectValue placeholder="Choose a Chama" />
+                      <SelectValue placeholder={t('schedulePayment.chama.placeholder')} />
                     </SelectTrigger>
                     <SelectContent>
                       {chamas.map((chama) => (
@@ -100,18 +107,18 @@ const SchedulePaymentPage = () => {
 
                 <div className="grid gap-4 md:grid-cols-2">
                   <div className="space-y-2">
-                    <Label htmlFor="amount">Amount per Payment (KES)</Label>
+                    <Label htmlFor="amount">{t('schedulePayment.amount')}</Label>
                     <Input
                       id="amount"
                       type="number"
                       value={amount}
                       onChange={(e) => setAmount(e.target.value)}
-                      placeholder={selectedChamaData ? selectedChamaData.requiredAmount.toString() : "Enter amount"}
+                      placeholder={selectedChamaData ? selectedChamaData.requiredAmount.toString() : t('schedulePayment.amount.placeholder')}
                     />
                   </div>
 
                   <div className="space-y-2">
-                    <Label htmlFor="startDate">Start Date</Label>
+                    <Label htmlFor="startDate">{t('schedulePayment.startDate')}</Label>
                     <Input
                       id="startDate"
                       type="date"
@@ -123,7 +130,7 @@ const SchedulePaymentPage = () => {
                 </div>
 
                 <div className="space-y-2">
-                  <Label>Payment Frequency</Label>
+                  <Label>{t('schedulePayment.frequency')}</Label>
                   <div className="grid gap-3">
                     {frequencies.map((freq) => (
                       <div
@@ -154,14 +161,14 @@ const SchedulePaymentPage = () => {
                 {selectedChama && amount && frequency && startDate && (
                   <Card className="bg-muted/50">
                     <CardHeader>
-                      <CardTitle className="text-lg">Schedule Summary</CardTitle>
+                      <CardTitle className="text-lg">{t('schedulePayment.summary')}</CardTitle>
                     </CardHeader>
                     <CardContent>
                       <div className="space-y-2">
-                        <p><strong>Chama:</strong> {selectedChamaData?.name}</p>
-                        <p><strong>Amount:</strong> <CurrencyDisplay amount={parseFloat(amount) || 0} showToggle={false} /></p>
-                        <p><strong>Frequency:</strong> {frequencies.find(f => f.id === frequency)?.name}</p>
-                        <p><strong>Start Date:</strong> {new Date(startDate).toLocaleDateString()}</p>
+                        <p><strong>{t('schedulePayment.summary.chama')}</strong> {selectedChamaData?.name}</p>
+                        <p><strong>{t('schedulePayment.summary.amount')}</strong> <CurrencyDisplay amount={parseFloat(amount) || 0} showToggle={false} /></p>
+                        <p><strong>{t('schedulePayment.summary.frequency')}</strong> {frequencies.find(f => f.id === frequency)?.name}</p>
+                        <p><strong>{t('schedulePayment.summary.startDate')}</strong> {t('schedulePayment.summary.startDate.value', { date: new Date(startDate) })}</p>
                       </div>
                     </CardContent>
                   </Card>
@@ -174,7 +181,7 @@ const SchedulePaymentPage = () => {
                     onClick={() => navigate(-1)}
                     className="flex-1"
                   >
-                    Cancel
+                    {t('common.cancel')}
                   </Button>
                   <Button 
                     type="submit" 
@@ -182,7 +189,7 @@ const SchedulePaymentPage = () => {
                     disabled={!selectedChama || !amount || !frequency || !startDate}
                   >
                     <Calendar className="h-4 w-4 mr-2" />
-                    Schedule Payment
+                    {t('schedulePayment.submit')}
                   </Button>
                 </div>
               </form>
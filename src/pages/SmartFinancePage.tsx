@@ -20,6 +20,7 @@ import { useAIServices } from '@/hooks/useAIServices';
 import CurrencyDisplay from '@/components/CurrencyDisplay';
 import CreateGoalModal from '@/components/CreateGoalModal';
 import GoalContributionModal from '@/components/GoalContributionModal';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 const SmartFinancePage = () => {
   const [chatMessage, setChatMessage] = useState('');
@@ -44,11 +45,14 @@ const SmartFinancePage = () => {
     addTransaction,
     saveGoal,
     sendChat,
+    generateRecommendations,
     dismissRecommendation,
-    isSendingChat
+    isSendingChat,
+    isGeneratingRecommendations
   } = useSmartFinance();
 
   const { aiAnalysisQuery } = useAIServices();
+  const { t } = useLanguage();
 
   // Convert chat history to the expected format
   const formattedChatHistory = chatHistory.map(chat => ({
@@ -104,7 +108,7 @@ const SmartFinancePage = () => {
     const currentMonth = new Date().toISOString().substring(0, 7);
     
     transactions
-      .filter(t => t.transaction_type === 'expense' && t.transaction_date.startsWith(currentMonth))
+      .filter(tx => tx.transaction_type === 'expense' && tx.transaction_date.startsWith(currentMonth))
       .forEach(transaction => {
         if (categories[transaction.category]) {
           categories[transaction.category] += transaction.amount;
@@ -179,9 +183,9 @@ const SmartFinancePage = () => {
             </div>
             <div>
               <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-green-600 bg-clip-text text-transparent">
-                Smart Finance AI
+                {t('smartFinance.title')}
               </h1>
-              <p className="text-gray-600">Your personal AI-powered financial wellness companion</p>
+              <p className="text-gray-600">{t('smartFinance.subtitle')}</p>
             </div>
           </div>
           
@@ -191,7 +195,7 @@ const SmartFinancePage = () => {
               <CardContent className="p-4">
                 <div className="flex items-center justify-between">
                   <div>
-                    <p className="text-blue-100">This Month Income</p>
+                    <p className="text-blue-100">{t('smartFinance.stats.income')}</p>
                     <p className="text-2xl font-bold">
                       <CurrencyDisplay amount={analytics.monthlyIncome} showToggle={false} />
                     </p>
@@ -205,7 +209,7 @@ const SmartFinancePage = () => {
               <CardContent className="p-4">
                 <div className="flex items-center justify-between">
                   <div>
-                    <p className="text-green-100">Saved</p>
+                    <p className="text-green-100">{t('smartFinance.stats.saved')}</p>
                     <p className="text-2xl font-bold">
                       <CurrencyDisplay amount={analytics.monthlySavings} showToggle={false} />
                     </p>
@@ -219,7 +223,7 @@ const SmartFinancePage = () => {
               <CardContent className="p-4">
                 <div className="flex items-center justify-between">
                   <div>
-                    <p className="text-purple-100">AI Score</p>
+                    <p className="text-purple-100">{t('smartFinance.stats.score')}</p>
                     <p className="text-2xl font-bold">{Math.round((creditScore / 850) * 100)}/100</p>
                   </div>
                   <Bot className="h-8 w-8 text-purple-200" />
@@ -231,7 +235,7 @@ const SmartFinancePage = () => {
               <CardContent className="p-4">
                 <div className="flex items-center justify-between">
                   <div>
-                    <p className="text-orange-100">Goals Progress</p>
+                    <p className="text-orange-100">{t('smartFinance.stats.goals')}</p>
                     <p className="text-2xl font-bold">{analytics.activeGoalsCount}/{analytics.activeGoalsCount + analytics.completedGoalsCount}</p>
                   </div>
                   <Target className="h-8 w-8 text-orange-200" />
@@ -246,23 +250,23 @@ const SmartFinancePage = () => {
           <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="advisor" className="flex items-center gap-2">
               <Bot className="h-4 w-4" />
-              AI Advisor
+              {t('smartFinance.tabs.advisor')}
             </TabsTrigger>
             <TabsTrigger value="tracker" className="flex items-center gap-2">
               <PieChart className="h-4 w-4" />
-              Smart Tracker
+              {t('smartFinance.tabs.tracker')}
             </TabsTrigger>
             <TabsTrigger value="goals" className="flex items-center gap-2">
               <Target className="h-4 w-4" />
-              Goals
+              {t('smartFinance.tabs.goals')}
             </TabsTrigger>
             <TabsTrigger value="suggestions" className="flex items-center gap-2">
               <Lightbulb className="h-4 w-4" />
-              Suggestions
+              {t('smartFinance.tabs.suggestions')}
             </TabsTrigger>
             <TabsTrigger value="learn" className="flex items-center gap-2">
               <BookOpen className="h-4 w-4" />
-              Learn
+              {t('smartFinance.tabs.learn')}
             </TabsTrigger>
           </TabsList>
 
@@ -274,7 +278,7 @@ const SmartFinancePage = () => {
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <MessageCircle className="h-5 w-5" />
-                    AI Finance Advisor Chat
+                    {t('smartFinance.advisor.title')}
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
@@ -296,7 +300,7 @@ const SmartFinancePage = () => {
                   
                   <div className="flex gap-2">
                     <Input
-                      placeholder="Ask me anything about your finances..."
+                      placeholder={t('smartFinance.advisor.placeholder')}
                       value={chatMessage}
                       onChange={(e) => setChatMessage(e.target.value)}
                       onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
@@ -315,15 +319,15 @@ const SmartFinancePage = () => {
               <div className="space-y-4">
                 <Card>
                   <CardHeader>
-                    <CardTitle className="text-lg">Quick Questions</CardTitle>
+                    <CardTitle className="text-lg">{t('smartFinance.questions.title')}</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-2">
                     {[
-                      "How can I save more?",
-                      "Best investment for Ksh 5,000?",
-                      "Reduce my expenses by 20%",
-                      "Emergency fund advice",
-                      "Side hustle ideas"
+                      t('smartFinance.questions.saveMore'),
+                      t('smartFinance.questions.bestInvestment', { amount: 5000 }),
+                      t('smartFinance.questions.reduceExpenses'),
+                      t('smartFinance.questions.emergencyFund'),
+                      t('smartFinance.questions.sideHustle')
                     ].map((question, index) => (
                       <Button 
                         key={index}
@@ -339,30 +343,30 @@ const SmartFinancePage = () => {
 
                 <Card>
                   <CardHeader>
-                    <CardTitle className="text-lg">AI Insights</CardTitle>
+                    <CardTitle className="text-lg">{t('smartFinance.insights.title')}</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-3">
                     <div className="flex items-start gap-2">
                       <CheckCircle className="h-5 w-5 text-green-500 mt-0.5" />
                       <div>
-                        <p className="text-sm font-medium">Great Progress!</p>
-                        <p className="text-xs text-gray-600">Your savings rate improved by 15% this month</p>
+                        <p className="text-sm font-medium">{t('smartFinance.insights.progress')}</p>
+                        <p className="text-xs text-gray-600">{t('smartFinance.insights.progress.desc')}</p>
                       </div>
                     </div>
                     
                     <div className="flex items-start gap-2">
                       <AlertTriangle className="h-5 w-5 text-yellow-500 mt-0.5" />
                       <div>
-                        <p className="text-sm font-medium">Watch Out</p>
-                        <p className="text-xs text-gray-600">Transport costs are 20% above average</p>
+                        <p className="text-sm font-medium">{t('smartFinance.insights.warning')}</p>
+                        <p className="text-xs text-gray-600">{t('smartFinance.insights.warning.desc')}</p>
                       </div>
                     </div>
                     
                     <div className="flex items-start gap-2">
                       <Lightbulb className="h-5 w-5 text-blue-500 mt-0.5" />
                       <div>
-                        <p className="text-sm font-medium">Opportunity</p>
-                        <p className="text-xs text-gray-600">You could invest Ksh 1,000 for better returns</p>
+                        <p className="text-sm font-medium">{t('smartFinance.insights.opportunity')}</p>
+                        <p className="text-xs text-gray-600">{t('smartFinance.insights.opportunity.desc', { amount: 1000 })}</p>
                       </div>
                     </div>
                   </CardContent>
@@ -377,7 +381,7 @@ const SmartFinancePage = () => {
               {/* Cash Flow Chart */}
               <Card>
                 <CardHeader>
-                  <CardTitle>Cash Flow Prediction</CardTitle>
+                  <CardTitle>{t('smartFinance.tracker.cashFlow')}</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <ResponsiveContainer width="100%" height={300}>
@@ -397,7 +401,7 @@ const SmartFinancePage = () => {
               {/* Expense Breakdown */}
               <Card>
                 <CardHeader>
-                  <CardTitle>Expense Categories</CardTitle>
+                  <CardTitle>{t('smartFinance.tracker.categories')}</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <ResponsiveContainer width="100%" height={300}>
@@ -427,7 +431,7 @@ const SmartFinancePage = () => {
                           />
                           <span className="text-sm">{category.name}</span>
                         </div>
-                        <span className="text-sm font-medium">Ksh {category.value.toLocaleString()}</span>
+                        <span className="text-sm font-medium">{t('common.amount', { amount: Number(category.value) })}</span>
                       </div>
                     ))}
                   </div>
@@ -438,7 +442,7 @@ const SmartFinancePage = () => {
               {/* Recent Transactions (Auto-categorized) */}
               <Card>
                 <CardHeader>
-                  <CardTitle>Recent Transactions (Auto-categorized)</CardTitle>
+                  <CardTitle>{t('smartFinance.tracker.recent')}</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-3">
@@ -453,7 +457,7 @@ const SmartFinancePage = () => {
                             {transaction.auto_categorized && (
                               <Badge variant="outline" className="text-xs">
                                 <Bot className="h-3 w-3 mr-1" />
-                                Auto
+                                {t('smartFinance.tracker.auto')}
                               </Badge>
                             )}
                           </div>
@@ -469,8 +473,8 @@ const SmartFinancePage = () => {
 
                     {transactions.length === 0 && (
                       <div className="text-center py-8 text-gray-500">
-                        <p>No transactions yet</p>
-                        <p className="text-sm">Start adding transactions to see insights</p>
+                        <p>{t('smartFinance.tracker.empty')}</p>
+                        <p className="text-sm">{t('smartFinance.tracker.empty.desc')}</p>
                       </div>
                     )}
                   </div>
@@ -487,26 +491,26 @@ const SmartFinancePage = () => {
                     <CardTitle className="flex items-center justify-between">
                       <span>{goal.title}</span>
                       <Badge variant={goal.status === 'active' ? 'default' : 'destructive'}>
-                        {goal.status === 'active' ? 'Active' : goal.status}
+                        {t('smartFinance.goals.status', { status: goal.status })}
                       </Badge>
                     </CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-4">
                     <div>
                       <div className="flex justify-between text-sm mb-2">
-                        <span>Progress</span>
+                        <span>{t('smartFinance.goals.progress')}</span>
                         <span><CurrencyDisplay amount={goal.current_amount} showToggle={false} /> / <CurrencyDisplay amount={goal.target_amount} showToggle={false} /></span>
                       </div>
                       <Progress value={(goal.current_amount / goal.target_amount) * 100} className="h-2" />
                       <p className="text-xs text-gray-600 mt-1">
-                        {Math.round((goal.current_amount / goal.target_amount) * 100)}% complete
+                        {t('smartFinance.goals.complete', { percent: (goal.current_amount / goal.target_amount) })}
                       </p>
                     </div>
                     
                     {goal.target_date && (
                       <div className="flex items-center justify-between text-sm">
-                        <span className="text-gray-600">Deadline:</span>
-                        <span className="font-medium">{new Date(goal.target_date).toLocaleDateString()}</span>
+                        <span className="text-gray-600">{t('smartFinance.goals.deadline')}</span>
+                        <span className="font-medium">{t('smartFinance.goals.date', { date: new Date(goal.target_date) })}</span>
                       </div>
                     )}
                     
@@ -519,7 +523,7 @@ const SmartFinancePage = () => {
                        }}
                      >
                        <Plus className="h-4 w-4 mr-2" />
-                       Add Contribution
+                       {t('smartFinance.goals.contribute')}
                      </Button>
                   </CardContent>
                 </Card>
@@ -537,8 +541,8 @@ const SmartFinancePage = () => {
                     <Plus className="h-8 w-8 text-blue-600" />
                   </div>
                   <div>
-                    <h3 className="font-medium text-gray-900">Create New Goal</h3>
-                    <p className="text-sm text-gray-600">Set a financial target and track your progress</p>
+                    <h3 className="font-medium text-gray-900">{t('smartFinance.goals.create')}</h3>
+                    <p className="text-sm text-gray-600">{t('smartFinance.goals.create.desc')}</p>
                   </div>
                 </div>
               </CardContent>
@@ -547,38 +551,51 @@ const SmartFinancePage = () => {
 
           {/* Suggestions Tab */}
           <TabsContent value="suggestions" className="space-y-6">
-            {recommendations.length > 0 && (
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-2">
                     <Bot className="h-5 w-5" />
-                    AI Recommendations
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  {recommendations.slice(0, 3).map((rec) => (
-                    <div key={rec.id} className="p-4 border rounded-lg space-y-3">
-                      <div className="flex items-center justify-between">
-                        <h4 className="font-medium text-green-700">{rec.title}</h4>
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => dismissRecommendation(rec.id)}
-                        >
-                          Dismiss
-                        </Button>
-                      </div>
-                      <p className="text-sm text-gray-600">{rec.description}</p>
-                      {rec.expected_impact && (
-                        <div className="text-sm">
-                          <span className="text-green-600 font-medium">💰 Impact: KES {rec.expected_impact.toLocaleString()}</span>
-                        </div>
-                      )}
+                    {t('smartFinance.recommendations.title')}
+                  </span>
+                  <Button
+                    size="sm"
+                    onClick={() => generateRecommendations()}
+                    disabled={isGeneratingRecommendations}
+                  >
+                    <Zap className="h-4 w-4 mr-2" />
+                    {isGeneratingRecommendations
+                      ? t('smartFinance.recommendations.generating')
+                      : t('smartFinance.recommendations.generate')}
+                  </Button>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {recommendations.length === 0 && (
+                  <p className="text-sm text-gray-600">{t('smartFinance.recommendations.empty')}</p>
+                )}
+                {recommendations.slice(0, 3).map((rec) => (
+                  <div key={rec.id} className="p-4 border rounded-lg space-y-3">
+                    <div className="flex items-center justify-between">
+                      <h4 className="font-medium text-green-700">{rec.title}</h4>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => dismissRecommendation(rec.id)}
+                      >
+                        {t('smartFinance.recommendations.dismiss')}
+                      </Button>
                     </div>
-                  ))}
-                </CardContent>
-              </Card>
-            )}
+                    <p className="text-sm text-gray-600">{rec.description}</p>
+                    {rec.expected_impact && (
+                      <div className="text-sm">
+                        <span className="text-green-600 font-medium">💰 {t('smartFinance.recommendations.impact', { amount: rec.expected_impact })}</span>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
 
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               {/* Investment Suggestions */}
@@ -586,7 +603,7 @@ const SmartFinancePage = () => {
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <TrendingUp className="h-5 w-5" />
-                    Investment Opportunities
+                    {t('smartFinance.investments.title')}
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
@@ -617,15 +634,15 @@ const SmartFinancePage = () => {
                       <div className="flex items-center justify-between">
                         <h4 className="font-medium">{investment.title}</h4>
                         <Badge variant={investment.risk === 'Low' ? 'default' : 'secondary'}>
-                          {investment.risk} Risk
+                          {t('smartFinance.investments.risk', { risk: investment.risk })}
                         </Badge>
                       </div>
                       <p className="text-sm text-gray-600">{investment.description}</p>
                       <div className="flex items-center justify-between text-sm">
-                        <span>Returns: <strong>{investment.returns}</strong></span>
-                        <span>Min: <strong>Ksh {investment.minAmount.toLocaleString()}</strong></span>
+                        <span>{t('smartFinance.investments.returns')} <strong>{investment.returns}</strong></span>
+                        <span>{t('smartFinance.investments.min')} <strong>{t('common.amount', { amount: investment.minAmount })}</strong></span>
                       </div>
-                      <Button size="sm" className="w-full mt-2">Learn More</Button>
+                      <Button size="sm" className="w-full mt-2">{t('smartFinance.investments.learnMore')}</Button>
                     </div>
                   ))}
                     </CardContent>
@@ -636,7 +653,7 @@ const SmartFinancePage = () => {
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <Calculator className="h-5 w-5" />
-                    Loan Opportunities
+                    {t('smartFinance.loans.title')}
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
@@ -667,15 +684,15 @@ const SmartFinancePage = () => {
                       <div className="flex items-center justify-between">
                         <h4 className="font-medium">{loan.title}</h4>
                         <Badge variant={loan.qualification === 'High' ? 'default' : 'secondary'}>
-                          {loan.qualification} Qualification
+                          {t('smartFinance.loans.qualification', { level: loan.qualification })}
                         </Badge>
                       </div>
                       <p className="text-sm text-gray-600">{loan.purpose}</p>
                       <div className="flex items-center justify-between text-sm">
-                        <span>Amount: <strong>Ksh {loan.amount.toLocaleString()}</strong></span>
-                        <span>Rate: <strong>{loan.rate}</strong></span>
+                        <span>{t('smartFinance.loans.amount')} <strong>{t('common.amount', { amount: loan.amount })}</strong></span>
+                        <span>{t('smartFinance.loans.rate')} <strong>{loan.rate}</strong></span>
                       </div>
-                      <Button size="sm" className="w-full mt-2">Apply Now</Button>
+                      <Button size="sm" className="w-full mt-2">{t('smartFinance.loans.apply')}</Button>
                     </div>
                   ))}
                 </CardContent>
@@ -687,7 +704,7 @@ const SmartFinancePage = () => {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Bot className="h-5 w-5" />
-                  Personalized AI Recommendations
+                  {t('smartFinance.personalized.title')}
                 </CardTitle>
               </CardHeader>
               <CardContent>
@@ -742,7 +759,7 @@ const SmartFinancePage = () => {
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <BookOpen className="h-5 w-5" />
-                    Financial Learning Modules
+                    {t('smartFinance.learn.modules')}
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
@@ -756,11 +773,11 @@ const SmartFinancePage = () => {
                         </div>
                         <div>
                           <h4 className="font-medium">{module.title}</h4>
-                          <p className="text-sm text-gray-600">{module.duration} • {module.points} points</p>
+                          <p className="text-sm text-gray-600">{module.duration} • {t('smartFinance.learn.points', { count: module.points })}</p>
                         </div>
                       </div>
                       <Button size="sm" variant={module.completed ? "outline" : "default"}>
-                        {module.completed ? 'Review' : 'Start'}
+                        {module.completed ? t('smartFinance.learn.review') : t('smartFinance.learn.start')}
                       </Button>
                     </div>
                   ))}
@@ -771,29 +788,29 @@ const SmartFinancePage = () => {
               <div className="space-y-4">
                 <Card>
                   <CardHeader>
-                    <CardTitle className="text-lg">Learning Stats</CardTitle>
+                    <CardTitle className="text-lg">{t('smartFinance.learn.stats')}</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-4">
                     <div className="text-center">
                       <div className="text-3xl font-bold text-blue-600">750</div>
-                      <p className="text-sm text-gray-600">Total Points</p>
+                      <p className="text-sm text-gray-600">{t('smartFinance.learn.totalPoints')}</p>
                     </div>
                     
                     <div className="text-center">
                       <div className="text-2xl font-bold text-green-600">5</div>
-                      <p className="text-sm text-gray-600">Courses Completed</p>
+                      <p className="text-sm text-gray-600">{t('smartFinance.learn.courses')}</p>
                     </div>
                     
                     <div className="text-center">
                       <div className="text-2xl font-bold text-purple-600">12</div>
-                      <p className="text-sm text-gray-600">Day Streak</p>
+                      <p className="text-sm text-gray-600">{t('smartFinance.learn.streak')}</p>
                     </div>
                   </CardContent>
                 </Card>
 
                 <Card>
                   <CardHeader>
-                    <CardTitle className="text-lg">Achievements</CardTitle>
+                    <CardTitle className="text-lg">{t('smartFinance.learn.achievements')}</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-3">
                     {achievements.map((achievement, index) => (
@@ -823,7 +840,7 @@ const SmartFinancePage = () => {
             {/* Featured Content */}
             <Card>
               <CardHeader>
-                <CardTitle>What Millionaires Know - Daily Lessons</CardTitle>
+                <CardTitle>{t('smartFinance.lessons.title')}</CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -854,9 +871,9 @@ const SmartFinancePage = () => {
                       <p className="text-sm text-gray-600 mb-3">{lesson.lesson}</p>
                       <div className="flex items-center justify-between">
                         <span className="text-xs text-gray-500">{lesson.time}</span>
-                        {lesson.featured && <Badge>Featured</Badge>}
+                        {lesson.featured && <Badge>{t('smartFinance.lessons.featured')}</Badge>}
                       </div>
-                      <Button size="sm" className="w-full mt-3">Read Now</Button>
+                      <Button size="sm" className="w-full mt-3">{t('smartFinance.lessons.read')}</Button>
                     </div>
                   ))}
                 </div>
@@ -17,12 +17,14 @@ import {
 import { useNavigate } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
 import Navigation from '@/components/Navigation';
+import { useLanguage } from '@/contexts/LanguageContext';
 import SubAccountManager from '@/components/SubAccountManager';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 
 const SmartWalletPage = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { t } = useLanguage();
   
   const [autoRepayEnabled, setAutoRepayEnabled] = useState(true);
   const [savingsStreakActive, setSavingsStreakActive] = useState(true);
@@ -68,8 +70,8 @@ const SmartWalletPage = () => {
 
   const handleOptimizePayment = () => {
     toast({
-      title: "Payment Optimized",
-      description: "Auto-debit scheduled for optimal timing based on your income pattern",
+      title: t('smartWallet.optimized'),
+      description: t('smartWallet.optimized.desc'),
     });
   };
 
@@ -87,10 +89,10 @@ const SmartWalletPage = () => {
               </div>
               <div>
                 <h1 className="text-4xl font-bold bg-gradient-to-r from-purple-600 to-blue-600 bg-clip-text text-transparent">
-                  Smart Wallet
+                  {t('smartWallet.title')}
                 </h1>
                 <p className="text-muted-foreground text-lg">
-                  Intelligent payment management and automated financial habits
+                  {t('smartWallet.subtitle')}
                 </p>
               </div>
             </div>
@@ -98,11 +100,11 @@ const SmartWalletPage = () => {
 
           <Tabs defaultValue="dashboard" className="w-full">
             <TabsList className="grid w-full grid-cols-5">
-              <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
-              <TabsTrigger value="payments">Smart Payments</TabsTrigger>
-              <TabsTrigger value="sub-accounts">Sub-Accounts</TabsTrigger>
-              <TabsTrigger value="gamification">Rewards Hub</TabsTrigger>
-              <TabsTrigger value="analytics">AI Analytics</TabsTrigger>
+              <TabsTrigger value="dashboard">{t('smartWallet.tabs.dashboard')}</TabsTrigger>
+              <TabsTrigger value="payments">{t('smartWallet.tabs.payments')}</TabsTrigger>
+              <TabsTrigger value="sub-accounts">{t('smartWallet.tabs.subAccounts')}</TabsTrigger>
+              <TabsTrigger value="gamification">{t('smartWallet.tabs.rewards')}</TabsTrigger>
+              <TabsTrigger value="analytics">{t('smartWallet.tabs.analytics')}</TabsTrigger>
             </TabsList>
 
             <TabsContent value="dashboard">
@@ -113,11 +115,11 @@ const SmartWalletPage = () => {
                     <CardContent className="p-6">
                       <div className="flex items-center justify-between">
                         <div>
-                          <p className="text-sm text-muted-foreground">Available Balance</p>
-                          <p className="text-3xl font-bold">KES 24,500</p>
+                          <p className="text-sm text-muted-foreground">{t('smartWallet.available')}</p>
+                          <p className="text-3xl font-bold">{t('common.amount', { amount: 24500 })}</p>
                           <p className="text-xs text-green-600 flex items-center mt-1">
                             <TrendingUp className="h-3 w-3 mr-1" />
-                            +12% this month
+                            {t('smartWallet.trend')}
                           </p>
                         </div>
                         <Wallet className="h-8 w-8 text-blue-500" />
@@ -130,9 +132,9 @@ const SmartWalletPage = () => {
                     <CardContent className="p-6">
                       <div className="flex items-center justify-between">
                         <div>
-                          <p className="text-sm text-muted-foreground">Monthly Savings</p>
-                          <p className="text-3xl font-bold text-green-600">KES 15,000</p>
-                          <p className="text-xs text-green-600">Goal: KES 18,000</p>
+                          <p className="text-sm text-muted-foreground">{t('smartWallet.monthlySavings')}</p>
+                          <p className="text-3xl font-bold text-green-600">{t('common.amount', { amount: 15000 })}</p>
+                          <p className="text-xs text-green-600">{t('smartWallet.goal', { amount: 18000 })}</p>
                         </div>
                         <Target className="h-8 w-8 text-green-500" />
                       </div>
@@ -145,7 +147,7 @@ const SmartWalletPage = () => {
                     <CardContent className="p-6">
                       <div className="flex items-center justify-between">
                         <div>
-                          <p className="text-sm text-muted-foreground">Reward Points</p>
+                          <p className="text-sm text-muted-foreground">{t('smartWallet.rewardPoints')}</p>
                           <p className="text-3xl font-bold text-purple-600">{gamificationData.totalPoints}</p>
                           <p className="text-xs text-purple-600">{gamificationData.level}</p>
                         </div>
@@ -159,9 +161,9 @@ const SmartWalletPage = () => {
                     <CardContent className="p-6">
                       <div className="flex items-center justify-between">
                         <div>
-                          <p className="text-sm text-muted-foreground">Payment Streak</p>
+                          <p className="text-sm text-muted-foreground">{t('smartWallet.paymentStreak')}</p>
                           <p className="text-3xl font-bold text-orange-600">{gamificationData.currentStreak}</p>
-                          <p className="text-xs text-orange-600">days on time</p>
+                          <p className="text-xs text-orange-600">{t('smartWallet.daysOnTime')}</p>
                         </div>
                         <Clock className="h-8 w-8 text-orange-500" />
                       </div>
@@ -175,26 +177,26 @@ const SmartWalletPage = () => {
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <Zap className="h-5 w-5" />
-                      Smart Actions
+                      {t('smartWallet.actions')}
                     </CardTitle>
                   </CardHeader>
                   <CardContent>
                     <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4">
                       <Button className="h-20 flex-col gap-2" variant="outline">
                         <CreditCard className="h-6 w-6" />
-                        <span>Quick Payment</span>
+                        <span>{t('smartWallet.actions.pay')}</span>
                       </Button>
                       <Button className="h-20 flex-col gap-2" variant="outline">
                         <Smartphone className="h-6 w-6" />
-                        <span>M-Pesa Sync</span>
+                        <span>{t('smartWallet.actions.sync')}</span>
                       </Button>
                       <Button className="h-20 flex-col gap-2" variant="outline">
                         <Target className="h-6 w-6" />
-                        <span>Set Goal</span>
+                        <span>{t('smartWallet.actions.goal')}</span>
                       </Button>
                       <Button className="h-20 flex-col gap-2" variant="outline">
                         <Settings className="h-6 w-6" />
-                        <span>Auto Settings</span>
+                        <span>{t('smartWallet.actions.auto')}</span>
                       </Button>
                     </div>
                   </CardContent>
@@ -203,8 +205,8 @@ const SmartWalletPage = () => {
                 {/* Monthly Trends */}
                 <Card>
                   <CardHeader>
-                    <CardTitle>Financial Flow</CardTitle>
-                    <CardDescription>Monthly income, expenses, and savings trends</CardDescription>
+                    <CardTitle>{t('smartWallet.flow')}</CardTitle>
+                    <CardDescription>{t('smartWallet.flow.desc')}</CardDescription>
                   </CardHeader>
                   <CardContent>
                     <div className="h-80 w-full">
@@ -232,25 +234,25 @@ const SmartWalletPage = () => {
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <Zap className="h-5 w-5" />
-                      Predictive Payment Management
+                      {t('smartWallet.predictive')}
                     </CardTitle>
                     <CardDescription>
-                      AI-optimized payment scheduling based on your income patterns
+                      {t('smartWallet.predictive.desc')}
                     </CardDescription>
                   </CardHeader>
                   <CardContent className="space-y-6">
                     <div className="flex items-center justify-between">
                       <div>
-                        <h4 className="font-medium">Auto-Repayment Optimization</h4>
-                        <p className="text-sm text-muted-foreground">Automatically schedule payments when funds are available</p>
+                        <h4 className="font-medium">{t('smartWallet.autoRepay')}</h4>
+                        <p className="text-sm text-muted-foreground">{t('smartWallet.autoRepay.desc')}</p>
                       </div>
                       <Switch checked={autoRepayEnabled} onCheckedChange={setAutoRepayEnabled} />
                     </div>
 
                     <div className="flex items-center justify-between">
                       <div>
-                        <h4 className="font-medium">Smart Budget Alerts</h4>
-                        <p className="text-sm text-muted-foreground">Get notified before approaching spending limits</p>
+                        <h4 className="font-medium">{t('smartWallet.budgetAlerts')}</h4>
+                        <p className="text-sm text-muted-foreground">{t('smartWallet.budgetAlerts.desc')}</p>
                       </div>
                       <Switch checked={budgetAlerts} onCheckedChange={setBudgetAlerts} />
                     </div>
@@ -258,7 +260,7 @@ const SmartWalletPage = () => {
                     <Alert>
                       <Bell className="h-4 w-4" />
                       <AlertDescription>
-                        AI detected optimal payment time: <strong>March 15th at 2:00 PM</strong> - Right after salary credit
+                        {t('smartWallet.optimalTime')} <strong>{t('smartWallet.optimalTime.value')}</strong> - {t('smartWallet.optimalTime.reason')}
                       </AlertDescription>
                     </Alert>
                   </CardContent>
@@ -267,7 +269,7 @@ const SmartWalletPage = () => {
                 {/* Upcoming Payments */}
                 <Card>
                   <CardHeader>
-                    <CardTitle>Upcoming Payments</CardTitle>
+                    <CardTitle>{t('smartWallet.upcoming')}</CardTitle>
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-4">
@@ -283,18 +285,18 @@ const SmartWalletPage = () => {
                             </div>
                             <div>
                               <h4 className="font-medium">{payment.name}</h4>
-                              <p className="text-sm text-muted-foreground">Due: {payment.date}</p>
+                              <p className="text-sm text-muted-foreground">{t('smartWallet.due', { date: new Date(payment.date) })}</p>
                             </div>
                           </div>
                           <div className="flex items-center gap-3">
                             <div className="text-right">
-                              <p className="font-medium">KES {payment.amount.toLocaleString()}</p>
+                              <p className="font-medium">{t('common.amount', { amount: payment.amount })}</p>
                               <Badge variant={payment.status === 'scheduled' ? 'default' : 'secondary'}>
-                                {payment.status}
+                                {t('smartWallet.status', { status: payment.status })}
                               </Badge>
                             </div>
                             <Button size="sm" variant="outline" onClick={handleOptimizePayment}>
-                              Optimize
+                              {t('smartWallet.optimize')}
                             </Button>
                           </div>
                         </div>
@@ -306,8 +308,8 @@ const SmartWalletPage = () => {
                 {/* Multi-Source Repayment */}
                 <Card>
                   <CardHeader>
-                    <CardTitle>Multi-Source Payment Setup</CardTitle>
-                    <CardDescription>Consolidate funds from multiple accounts for payments</CardDescription>
+                    <CardTitle>{t('smartWallet.multiSource')}</CardTitle>
+                    <CardDescription>{t('smartWallet.multiSource.desc')}</CardDescription>
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-4">
@@ -317,11 +319,11 @@ const SmartWalletPage = () => {
                             <Smartphone className="h-8 w-8 text-green-600" />
                             <div>
                               <h4 className="font-medium">M-Pesa</h4>
-                              <p className="text-sm text-muted-foreground">Balance: KES 12,500</p>
+                              <p className="text-sm text-muted-foreground">{t('smartWallet.balance', { amount: 12500 })}</p>
                             </div>
                           </div>
                           <Button size="sm" className="w-full mt-3" variant="outline">
-                            Link Account
+                            {t('smartWallet.link')}
                           </Button>
                         </Card>
 
@@ -330,11 +332,11 @@ const SmartWalletPage = () => {
                             <CreditCard className="h-8 w-8 text-blue-600" />
                             <div>
                               <h4 className="font-medium">KCB Bank</h4>
-                              <p className="text-sm text-muted-foreground">Balance: KES 45,200</p>
+                              <p className="text-sm text-muted-foreground">{t('smartWallet.balance', { amount: 45200 })}</p>
                             </div>
                           </div>
                           <Button size="sm" className="w-full mt-3" variant="outline">
-                            Connected
+                            {t('smartWallet.connected')}
                           </Button>
                         </Card>
 
@@ -343,11 +345,11 @@ const SmartWalletPage = () => {
                             <Wallet className="h-8 w-8 text-purple-600" />
                             <div>
                               <h4 className="font-medium">Equity Bank</h4>
-                              <p className="text-sm text-muted-foreground">Balance: KES 8,900</p>
+                              <p className="text-sm text-muted-foreground">{t('smartWallet.balance', { amount: 8900 })}</p>
                             </div>
                           </div>
                           <Button size="sm" className="w-full mt-3" variant="outline">
-                            Link Account
+                            {t('smartWallet.link')}
                           </Button>
                         </Card>
                       </div>
@@ -369,11 +371,11 @@ const SmartWalletPage = () => {
                     <CardContent className="p-6">
                       <Trophy className="h-12 w-12 text-yellow-500 mx-auto mb-4" />
                       <h3 className="text-2xl font-bold">{gamificationData.level}</h3>
-                      <p className="text-muted-foreground">Current Level</p>
+                      <p className="text-muted-foreground">{t('smartWallet.currentLevel')}</p>
                       <div className="mt-4">
                         <Progress value={(gamificationData.totalPoints / gamificationData.nextLevelPoints) * 100} />
                         <p className="text-xs text-muted-foreground mt-2">
-                          {gamificationData.nextLevelPoints - gamificationData.totalPoints} points to Platinum
+                          {t('smartWallet.pointsToNext', { count: gamificationData.nextLevelPoints - gamificationData.totalPoints })}
                         </p>
                       </div>
                     </CardContent>
@@ -383,13 +385,13 @@ const SmartWalletPage = () => {
                     <CardContent className="p-6">
                       <Star className="h-12 w-12 text-blue-500 mx-auto mb-4" />
                       <h3 className="text-2xl font-bold">{gamificationData.totalPoints}</h3>
-                      <p className="text-muted-foreground">Total Points</p>
+                      <p className="text-muted-foreground">{t('smartWallet.totalPoints')}</p>
                       <div className="mt-4 space-y-2">
                         <Button size="sm" className="w-full">
-                          Redeem Airtime
+                          {t('smartWallet.redeem')}
                         </Button>
                         <Button size="sm" variant="outline" className="w-full">
-                          View Rewards
+                          {t('smartWallet.viewRewards')}
                         </Button>
                       </div>
                     </CardContent>
@@ -399,10 +401,10 @@ const SmartWalletPage = () => {
                     <CardContent className="p-6">
                       <Gamepad2 className="h-12 w-12 text-purple-500 mx-auto mb-4" />
                       <h3 className="text-2xl font-bold">{gamificationData.currentStreak}</h3>
-                      <p className="text-muted-foreground">Day Streak</p>
+                      <p className="text-muted-foreground">{t('smartWallet.dayStreak')}</p>
                       <div className="mt-4">
                         <Badge className="w-full py-2">
-                          Streak Bonus: +50 pts daily
+                          {t('smartWallet.streakBonus')}
                         </Badge>
                       </div>
                     </CardContent>
@@ -414,7 +416,7 @@ const SmartWalletPage = () => {
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <Award className="h-5 w-5" />
-                      Badges & Achievements
+                      {t('smartWallet.badges')}
                     </CardTitle>
                   </CardHeader>
                   <CardContent>
@@ -449,34 +451,34 @@ const SmartWalletPage = () => {
                 {/* Financial Literacy Challenges */}
                 <Card>
                   <CardHeader>
-                    <CardTitle>Financial Literacy Challenges</CardTitle>
-                    <CardDescription>Complete challenges to earn points and improve your financial knowledge</CardDescription>
+                    <CardTitle>{t('smartWallet.challenges')}</CardTitle>
+                    <CardDescription>{t('smartWallet.challenges.desc')}</CardDescription>
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-4">
                       <div className="flex items-center justify-between p-4 border rounded-lg">
                         <div>
-                          <h4 className="font-medium">Budgeting Basics Quiz</h4>
-                          <p className="text-sm text-muted-foreground">Learn effective budgeting strategies</p>
-                          <Badge variant="outline" className="mt-1">+100 points</Badge>
+                          <h4 className="font-medium">{t('smartWallet.challenge.budgeting')}</h4>
+                          <p className="text-sm text-muted-foreground">{t('smartWallet.challenge.budgeting.desc')}</p>
+                          <Badge variant="outline" className="mt-1">{t('smartWallet.challenge.points', { count: 100 })}</Badge>
                         </div>
-                        <Button>Start Challenge</Button>
+                        <Button>{t('smartWallet.challenge.start')}</Button>
                       </div>
 
                       <div className="flex items-center justify-between p-4 border rounded-lg">
                         <div>
-                          <h4 className="font-medium">Investment Fundamentals</h4>
-                          <p className="text-sm text-muted-foreground">Understanding basic investment principles</p>
-                          <Badge variant="outline" className="mt-1">+150 points</Badge>
+                          <h4 className="font-medium">{t('smartWallet.challenge.investing')}</h4>
+                          <p className="text-sm text-muted-foreground">{t('smartWallet.challenge.investing.desc')}</p>
+                          <Badge variant="outline" className="mt-1">{t('smartWallet.challenge.points', { count: 150 })}</Badge>
                         </div>
-                        <Button>Start Challenge</Button>
+                        <Button>{t('smartWallet.challenge.start')}</Button>
                       </div>
 
                       <div className="flex items-center justify-between p-4 border rounded-lg bg-green-50">
                         <div>
-                          <h4 className="font-medium text-green-900">Debt Management Mastery</h4>
-                          <p className="text-sm text-green-700">Strategies for managing and reducing debt</p>
-                          <Badge className="bg-green-100 text-green-800 mt-1">Completed +200 points</Badge>
+                          <h4 className="font-medium text-green-900">{t('smartWallet.challenge.debt')}</h4>
+                          <p className="text-sm text-green-700">{t('smartWallet.challenge.debt.desc')}</p>
+                          <Badge className="bg-green-100 text-green-800 mt-1">{t('smartWallet.challenge.completed', { count: 200 })}</Badge>
                         </div>
                         <CheckCircle className="h-8 w-8 text-green-600" />
                       </div>
@@ -492,8 +494,8 @@ const SmartWalletPage = () => {
                 <div className="grid lg:grid-cols-2 gap-6">
                   <Card>
                     <CardHeader>
-                      <CardTitle>AI Expense Categorization</CardTitle>
-                      <CardDescription>Automatic transaction categorization and insights</CardDescription>
+                      <CardTitle>{t('smartWallet.categorization')}</CardTitle>
+                      <CardDescription>{t('smartWallet.categorization.desc')}</CardDescription>
                     </CardHeader>
                     <CardContent>
                       <div className="h-80 w-full">
@@ -520,7 +522,7 @@ const SmartWalletPage = () => {
 
                   <Card>
                     <CardHeader>
-                      <CardTitle>Spending Insights</CardTitle>
+                      <CardTitle>{t('smartWallet.insights')}</CardTitle>
                     </CardHeader>
                     <CardContent>
                       <div className="space-y-4">
@@ -528,7 +530,7 @@ const SmartWalletPage = () => {
                           <div key={index} className="space-y-2">
                             <div className="flex justify-between items-center">
                               <span className="font-medium">{expense.category}</span>
-                              <span className="text-sm">KES {expense.amount.toLocaleString()}</span>
+                              <span className="text-sm">{t('common.amount', { amount: expense.amount })}</span>
                             </div>
                             <div className="flex items-center gap-2">
                               <Progress value={expense.percentage} className="flex-1" />
@@ -539,11 +541,11 @@ const SmartWalletPage = () => {
                       </div>
 
                       <div className="mt-6 p-4 bg-blue-50 rounded-lg">
-                        <h4 className="font-medium text-blue-900 mb-2">AI Recommendations</h4>
+                        <h4 className="font-medium text-blue-900 mb-2">{t('smartWallet.recommendations')}</h4>
                         <ul className="text-sm text-blue-700 space-y-1">
-                          <li>• Consider reducing dining expenses by 15% to boost savings</li>
-                          <li>• Transport costs are above average - explore carpooling options</li>
-                          <li>• Great job keeping utilities under control!</li>
+                          <li>{t('smartWallet.rec.dining')}</li>
+                          <li>{t('smartWallet.rec.transport')}</li>
+                          <li>{t('smartWallet.rec.utilities')}</li>
                         </ul>
                       </div>
                     </CardContent>
@@ -555,7 +557,7 @@ const SmartWalletPage = () => {
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <Bell className="h-5 w-5" />
-                      Smart Budget Alerts
+                      {t('smartWallet.budgetAlerts')}
                     </CardTitle>
                   </CardHeader>
                   <CardContent>
@@ -563,21 +565,21 @@ const SmartWalletPage = () => {
                       <Alert className="border-yellow-200 bg-yellow-50">
                         <AlertTriangle className="h-4 w-4" />
                         <AlertDescription>
-                          <strong>Budget Alert:</strong> You're approaching 80% of your monthly dining budget (KES 10,000 spent of KES 12,500)
+                          <strong>{t('smartWallet.alerts.budget')}</strong> {t('smartWallet.alerts.budget.desc', { spent: 10000, budget: 12500 })}
                         </AlertDescription>
                       </Alert>
 
                       <Alert className="border-green-200 bg-green-50">
                         <CheckCircle className="h-4 w-4" />
                         <AlertDescription>
-                          <strong>Savings Win:</strong> You're 20% ahead of your monthly savings goal! Consider increasing your target.
+                          <strong>{t('smartWallet.alerts.savings')}</strong> {t('smartWallet.alerts.savings.desc')}
                         </AlertDescription>
                       </Alert>
 
                       <Alert className="border-blue-200 bg-blue-50">
                         <TrendingUp className="h-4 w-4" />
                         <AlertDescription>
-                          <strong>Trend Alert:</strong> Your transportation costs have increased by 25% this month. Review recent trips.
+                          <strong>{t('smartWallet.alerts.trend')}</strong> {t('smartWallet.alerts.trend.desc')}
                         </AlertDescription>
                       </Alert>
                     </div>
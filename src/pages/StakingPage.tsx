@@ -10,10 +10,12 @@ import { ArrowLeft, TrendingUp, Coins, Zap, Clock, Plus, Minus, Filter } from 'l
 import { useNavigate } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
 import Navigation from '@/components/Navigation';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 const StakingPage = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { t } = useLanguage();
 
   const [stakeDialogOpen, setStakeDialogOpen] = useState(false);
   const [unstakeDialogOpen, setUnstakeDialogOpen] = useState(false);
@@ -130,8 +132,8 @@ const StakingPage = () => {
 
     // Simulate staking
     toast({
-      title: "Staking Successful",
-      description: `Successfully staked ${stakeAmount} ${pool.token}`,
+      title: t('staking.staked'),
+      description: t('staking.staked.desc', { amount: stakeAmount, token: pool.token }),
     });
 
     setStakeDialogOpen(false);
@@ -145,8 +147,8 @@ const StakingPage = () => {
     if (!pool) return;
 
     toast({
-      title: "Unstaking Initiated",
-      description: `Unstaking ${unstakeAmount} ${pool.token}. Funds will be available after the lock period.`,
+      title: t('staking.unstaked'),
+      description: t('staking.unstaked.desc', { amount: unstakeAmount, token: pool.token }),
     });
 
     setUnstakeDialogOpen(false);
@@ -173,10 +175,10 @@ const StakingPage = () => {
             </Button>
             <div>
               <h1 className="text-4xl font-bold bg-gradient-to-r from-purple-600 to-blue-600 bg-clip-text text-transparent">
-                Staking Pools
+                {t('staking.title')}
               </h1>
               <p className="text-muted-foreground text-lg">
-                Earn passive rewards by staking your tokens
+                {t('staking.subtitle')}
               </p>
             </div>
           </div>
@@ -190,7 +192,7 @@ const StakingPage = () => {
                     <TrendingUp className="h-6 w-6 text-green-600" />
                   </div>
                   <div>
-                    <p className="text-sm text-muted-foreground">Total Staked</p>
+                    <p className="text-sm text-muted-foreground">{t('staking.totalStaked')}</p>
                     <p className="text-2xl font-bold">$12,450</p>
                   </div>
                 </div>
@@ -204,7 +206,7 @@ const StakingPage = () => {
                     <Coins className="h-6 w-6 text-blue-600" />
                   </div>
                   <div>
-                    <p className="text-sm text-muted-foreground">Total Rewards</p>
+                    <p className="text-sm text-muted-foreground">{t('staking.totalRewards')}</p>
                     <p className="text-2xl font-bold">$892.50</p>
                   </div>
                 </div>
@@ -218,7 +220,7 @@ const StakingPage = () => {
                     <Zap className="h-6 w-6 text-purple-600" />
                   </div>
                   <div>
-                    <p className="text-sm text-muted-foreground">Avg APY</p>
+                    <p className="text-sm text-muted-foreground">{t('staking.avgApy')}</p>
                     <p className="text-2xl font-bold">15.2%</p>
                   </div>
                 </div>
@@ -232,7 +234,7 @@ const StakingPage = () => {
                     <Clock className="h-6 w-6 text-orange-600" />
                   </div>
                   <div>
-                    <p className="text-sm text-muted-foreground">Active Pools</p>
+                    <p className="text-sm text-muted-foreground">{t('staking.activePools')}</p>
                     <p className="text-2xl font-bold">6</p>
                   </div>
                 </div>
@@ -247,10 +249,10 @@ const StakingPage = () => {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Risks</SelectItem>
-                <SelectItem value="low">Low Risk</SelectItem>
-                <SelectItem value="medium">Medium Risk</SelectItem>
-                <SelectItem value="high">High Risk</SelectItem>
+                <SelectItem value="all">{t('staking.filter.allRisks')}</SelectItem>
+                <SelectItem value="low">{t('staking.filter.low')}</SelectItem>
+                <SelectItem value="medium">{t('staking.filter.medium')}</SelectItem>
+                <SelectItem value="high">{t('staking.filter.high')}</SelectItem>
               </SelectContent>
             </Select>
 
@@ -259,11 +261,11 @@ const StakingPage = () => {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Types</SelectItem>
-                <SelectItem value="flexible">Flexible</SelectItem>
-                <SelectItem value="fixed">Fixed Term</SelectItem>
-                <SelectItem value="validator">Validator</SelectItem>
-                <SelectItem value="farming">Yield Farming</SelectItem>
+                <SelectItem value="all">{t('staking.filter.allTypes')}</SelectItem>
+                <SelectItem value="flexible">{t('staking.filter.flexible')}</SelectItem>
+                <SelectItem value="fixed">{t('staking.filter.fixed')}</SelectItem>
+                <SelectItem value="validator">{t('staking.filter.validator')}</SelectItem>
+                <SelectItem value="farming">{t('staking.filter.farming')}</SelectItem>
               </SelectContent>
             </Select>
 
@@ -273,7 +275,7 @@ const StakingPage = () => {
               className="flex items-center gap-2"
             >
               <Filter className="h-4 w-4" />
-              My Stakes Only
+              {t('staking.myStakes')}
             </Button>
           </div>
 
@@ -295,7 +297,7 @@ const StakingPage = () => {
                     <Badge 
                       variant={pool.risk === 'low' ? 'secondary' : pool.risk === 'medium' ? 'default' : 'destructive'}
                     >
-                      {pool.risk} risk
+                      {t('staking.risk', { risk: pool.risk })}
                     </Badge>
                   </div>
                 </CardHeader>
@@ -314,15 +316,15 @@ const StakingPage = () => {
 
                   <div className="space-y-2">
                     <div className="flex justify-between text-sm">
-                      <span>Lock Period</span>
+                      <span>{t('staking.lockPeriod')}</span>
                       <span className="font-medium">{pool.lockPeriod}</span>
                     </div>
                     <div className="flex justify-between text-sm">
-                      <span>Min Stake</span>
+                      <span>{t('staking.minStake')}</span>
                       <span className="font-medium">{pool.minStake} {pool.token}</span>
                     </div>
                     <div className="flex justify-between text-sm">
-                      <span>Your Stake</span>
+                      <span>{t('staking.yourStake')}</span>
                       <span className="font-medium">${pool.userStake}</span>
                     </div>
                   </div>
@@ -333,7 +335,7 @@ const StakingPage = () => {
                       className="w-full"
                     >
                       <Plus className="h-4 w-4 mr-2" />
-                      Stake
+                      {t('staking.stake')}
                     </Button>
                     {pool.userStake > 0 && (
                       <Button 
@@ -342,13 +344,13 @@ const StakingPage = () => {
                         className="w-full"
                       >
                         <Minus className="h-4 w-4 mr-2" />
-                        Unstake
+                        {t('staking.unstake')}
                       </Button>
                     )}
                   </div>
 
                   <div className="bg-muted/50 p-3 rounded-lg">
-                    <p className="text-xs text-muted-foreground mb-1">Estimated Daily Rewards</p>
+                    <p className="text-xs text-muted-foreground mb-1">{t('staking.dailyRewards')}</p>
                     <p className="font-semibold">
                       ${calculateRewards(pool.userStake, pool.apy, 1).toFixed(2)}
                     </p>
@@ -362,14 +364,14 @@ const StakingPage = () => {
           <Dialog open={stakeDialogOpen} onOpenChange={setStakeDialogOpen}>
             <DialogContent>
               <DialogHeader>
-                <DialogTitle>Stake Tokens</DialogTitle>
+                <DialogTitle>{t('staking.stakeTitle')}</DialogTitle>
                 <DialogDescription>
-                  Choose the amount you want to stake in this pool
+                  {t('staking.stakeDesc')}
                 </DialogDescription>
               </DialogHeader>
               <div className="space-y-4">
                 <div>
-                  <Label htmlFor="stakeAmount">Amount to Stake</Label>
+                  <Label htmlFor="stakeAmount">{t('staking.stakeAmount')}</Label>
                   <Input
                     id="stakeAmount"
                     type="number"
@@ -380,10 +382,10 @@ const StakingPage = () => {
                 </div>
                 <div className="flex gap-2">
                   <Button onClick={handleStake} className="flex-1">
-                    Confirm Stake
+                    {t('staking.confirmStake')}
                   </Button>
                   <Button variant="outline" onClick={() => setStakeDialogOpen(false)}>
-                    Cancel
+                    {t('common.cancel')}
                   </Button>
                 </div>
               </div>
@@ -394,14 +396,14 @@ const StakingPage = () => {
           <Dialog open={unstakeDialogOpen} onOpenChange={setUnstakeDialogOpen}>
             <DialogContent>
               <DialogHeader>
-                <DialogTitle>Unstake Tokens</DialogTitle>
+                <DialogTitle>{t('staking.unstakeTitle')}</DialogTitle>
                 <DialogDescription>
-                  Choose the amount you want to unstake from this pool
+                  {t('staking.unstakeDesc')}
                 </DialogDescription>
               </DialogHeader>
               <div className="space-y-4">
                 <div>
-                  <Label htmlFor="unstakeAmount">Amount to Unstake</Label>
+                  <Label htmlFor="unstakeAmount">{t('staking.unstakeAmount')}</Label>
                   <Input
                     id="unstakeAmount"
                     type="number"
@@ -412,10 +414,10 @@ const StakingPage = () => {
                 </div>
                 <div className="flex gap-2">
                   <Button onClick={handleUnstake} className="flex-1">
-                    Confirm Unstake
+                    {t('staking.confirmUnstake')}
                   </Button>
                   <Button variant="outline" onClick={() => setUnstakeDialogOpen(false)}>
-                    Cancel
+                    {t('common.cancel')}
                   </Button>
                 </div>
               </div>
@@ -30,11 +30,13 @@ import GameLeaderboard from '@/components/game/GameLeaderboard';
 import GameWallet from '@/components/game/GameWallet';
 import GameSubscription from '@/components/game/GameSubscription';
 import HouseAnalytics from '@/components/game/HouseAnalytics';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 const TriviaGamePage: React.FC = () => {
   const { user, loading: authLoading } = useAuth();
   const { profile, loading: profileLoading } = useProfile();
   const { toast } = useToast();
+  const { t } = useLanguage();
   const [activeMainTab, setActiveMainTab] = useState('game');
   const [currentGameId, setCurrentGameId] = useState<string | null>(null);
 
@@ -54,27 +56,27 @@ const TriviaGamePage: React.FC = () => {
               <Lock className="h-8 w-8 text-red-400" />
             </div>
             <CardTitle className="text-2xl font-bold bg-gradient-to-r from-red-400 to-orange-400 bg-clip-text text-transparent">
-              Authentication Required
+              {t('trivia.auth.title')}
             </CardTitle>
             <CardDescription className="text-slate-300 text-base">
-              Join the premium trivia experience
+              {t('trivia.auth.desc')}
             </CardDescription>
           </CardHeader>
           <CardContent className="text-center space-y-4">
             <div className="p-4 bg-slate-700/30 rounded-lg border border-slate-600/50">
-              <p className="text-slate-200 font-medium mb-2">🎯 What awaits you:</p>
+              <p className="text-slate-200 font-medium mb-2">{t('trivia.auth.awaits')}</p>
               <div className="space-y-2 text-sm text-slate-300">
                 <div className="flex items-center justify-center gap-2">
                   <Trophy className="h-4 w-4 text-yellow-400" />
-                  <span>Real money rewards</span>
+                  <span>{t('trivia.auth.rewards')}</span>
                 </div>
                 <div className="flex items-center justify-center gap-2">
                   <Star className="h-4 w-4 text-blue-400" />
-                  <span>Financial education</span>
+                  <span>{t('trivia.auth.education')}</span>
                 </div>
                 <div className="flex items-center justify-center gap-2">
                   <Users className="h-4 w-4 text-green-400" />
-                  <span>Compete globally</span>
+                  <span>{t('trivia.auth.compete')}</span>
                 </div>
               </div>
             </div>
@@ -84,7 +86,7 @@ const TriviaGamePage: React.FC = () => {
               className="w-full bg-gradient-to-r from-red-500 to-orange-500 hover:from-red-600 hover:to-orange-600 text-white font-semibold py-3 rounded-lg shadow-lg hover-scale transition-all duration-200"
             >
               <Play className="h-4 w-4 mr-2" />
-              Start Playing Now
+              {t('trivia.auth.start')}
             </Button>
           </CardContent>
         </Card>
@@ -96,40 +98,40 @@ const TriviaGamePage: React.FC = () => {
     setCurrentGameId(gameId);
     setActiveMainTab('game');
     toast({
-      title: "Game Starting!",
-      description: "Get ready for the trivia challenge!",
+      title: t('trivia.toast.starting'),
+      description: t('trivia.toast.starting.desc'),
     });
   };
 
   const getMainTabs = (): MainTab[] => [
     {
       id: 'game',
-      label: 'Game Center',
+      label: t('trivia.tabs.game'),
       icon: <Play className="h-4 w-4" />,
       subtabs: [
         {
           id: 'lobby',
-          label: 'Game Lobby',
+          label: t('trivia.tabs.lobby'),
           content: (
             <ScheduledGameLobby onGameStart={handleGameStart} />
           )
         },
         {
           id: 'play',
-          label: 'Play Now',
+          label: t('trivia.tabs.play'),
           content: <EnhancedTriviaGame />
         },
         {
           id: 'scheduled',
-          label: 'Tournament Mode',
+          label: t('trivia.tabs.tournament'),
           content: currentGameId ? (
             <TriviaQuestion 
               gameId={currentGameId}
               onGameEnd={() => {
                 setCurrentGameId(null);
                 toast({
-                  title: "Game Complete!",
-                  description: "Check your wallet for earnings!",
+                  title: t('trivia.toast.complete'),
+                  description: t('trivia.toast.complete.desc'),
                 });
               }}
             />
@@ -139,27 +141,27 @@ const TriviaGamePage: React.FC = () => {
         },
         {
           id: 'leaderboard',
-          label: 'Leaderboard',
+          label: t('trivia.tabs.leaderboard'),
           content: <GameLeaderboard />
         }
       ]
     },
     {
       id: 'wallet',
-      label: 'Wallet & Finance',
+      label: t('trivia.tabs.wallet'),
       icon: <Coins className="h-4 w-4" />,
       subtabs: [
         {
           id: 'balance',
-          label: 'Game Wallet',
+          label: t('trivia.tabs.balance'),
           content: (
             <GameWallet 
               balance={5000}
               points={250}
               onBalanceUpdate={(newBalance) => {
                 toast({
-                  title: "Balance Updated (MOCK)",
-                  description: `New balance: KSh ${newBalance.toLocaleString()}`,
+                  title: t('trivia.toast.balance'),
+                  description: t('trivia.toast.balance.desc', { amount: newBalance }),
                 });
               }}
             />
@@ -167,14 +169,14 @@ const TriviaGamePage: React.FC = () => {
         },
         {
           id: 'premium',
-          label: 'Premium Plans',
+          label: t('trivia.tabs.premium'),
           content: (
             <GameSubscription 
               currentBalance={profile?.balance || 0}
               onSubscribe={(cost) => {
                 toast({
-                  title: "Premium Activated!",
-                  description: "You can now earn double points in games!",
+                  title: t('trivia.toast.premium'),
+                  description: t('trivia.toast.premium.desc'),
                 });
               }}
             />
@@ -184,7 +186,7 @@ const TriviaGamePage: React.FC = () => {
     },
     {
       id: 'analytics',
-      label: 'Analytics',
+      label: t('trivia.tabs.analytics'),
       icon: <TrendingUp className="h-4 w-4" />,
       content: <HouseAnalytics />
     }
@@ -205,8 +207,8 @@ const TriviaGamePage: React.FC = () => {
               <div className="animate-spin h-12 w-12 border-4 border-purple-500/30 border-t-purple-400 rounded-full mx-auto"></div>
               <div className="absolute inset-0 animate-ping h-12 w-12 border-2 border-purple-400/20 rounded-full mx-auto"></div>
             </div>
-            <h3 className="text-xl font-semibold text-slate-200 mb-2">Loading Your Profile</h3>
-            <p className="text-slate-400">Preparing your gaming experience...</p>
+            <h3 className="text-xl font-semibold text-slate-200 mb-2">{t('trivia.loading.title')}</h3>
+            <p className="text-slate-400">{t('trivia.loading.desc')}</p>
             <div className="mt-4 flex justify-center space-x-1">
               <div className="h-2 w-2 bg-purple-400 rounded-full animate-pulse"></div>
               <div className="h-2 w-2 bg-purple-400 rounded-full animate-pulse delay-100"></div>
@@ -231,36 +233,36 @@ const TriviaGamePage: React.FC = () => {
         <div className="mb-8 text-center animate-fade-in">
           <div className="inline-flex items-center justify-center p-2 bg-gradient-to-r from-purple-600/20 to-pink-600/20 rounded-full mb-4 backdrop-blur-sm border border-purple-500/30">
             <Trophy className="h-6 w-6 text-yellow-400 mr-2" />
-            <span className="text-yellow-400 font-medium">Premium Trivia Experience</span>
+            <span className="text-yellow-400 font-medium">{t('trivia.hero.badge')}</span>
           </div>
           
           <h1 className="text-3xl md:text-6xl font-bold tracking-tight mb-4">
             <span className="bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">
-              Investment Trivia
+              {t('trivia.hero.title1')}
             </span>
             <br />
             <span className="bg-gradient-to-r from-yellow-400 via-orange-400 to-red-400 bg-clip-text text-transparent">
-              & Win Real Money
+              {t('trivia.hero.title2')}
             </span>
           </h1>
           
           <p className="text-slate-300 mt-4 text-lg md:text-xl max-w-2xl mx-auto">
-            Master financial knowledge while earning real cash rewards through engaging trivia challenges
+            {t('trivia.hero.subtitle')}
           </p>
           
           <div className="flex flex-wrap items-center justify-center gap-4 mt-6">
             <div className="flex items-center gap-2 px-4 py-2 bg-slate-800/50 rounded-full backdrop-blur-sm border border-slate-700/50">
               <Users className="h-4 w-4 text-cyan-400" />
-              <span className="text-slate-200 font-medium">{profile?.username || 'Player'}</span>
+              <span className="text-slate-200 font-medium">{profile?.username || t('trivia.player')}</span>
             </div>
             <div className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-green-600/20 to-emerald-600/20 rounded-full backdrop-blur-sm border border-green-500/30">
               <Coins className="h-4 w-4 text-green-400" />
-              <span className="text-green-300 font-bold">KSh {(profile?.balance || 0).toLocaleString()}</span>
+              <span className="text-green-300 font-bold">{t('common.amount', { amount: profile?.balance || 0 })}</span>
             </div>
             {profile?.is_premium && (
               <div className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-yellow-600/20 to-orange-600/20 rounded-full backdrop-blur-sm border border-yellow-500/30">
                 <Crown className="h-4 w-4 text-yellow-400" />
-                <span className="text-yellow-300 font-medium">Premium</span>
+                <span className="text-yellow-300 font-medium">{t('trivia.premium')}</span>
               </div>
             )}
           </div>
@@ -273,18 +275,18 @@ const TriviaGamePage: React.FC = () => {
             <Card className="group border-0 bg-gradient-to-br from-slate-800/80 to-slate-900/80 backdrop-blur-xl border border-slate-700/50 hover-scale overflow-hidden relative">
               <div className="absolute inset-0 bg-gradient-to-r from-green-500/10 to-emerald-500/10 opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3 relative z-10">
-                <CardTitle className="text-sm font-medium text-slate-300">Wallet Balance</CardTitle>
+                <CardTitle className="text-sm font-medium text-slate-300">{t('trivia.stats.balance')}</CardTitle>
                 <div className="p-2 rounded-lg bg-green-500/20 border border-green-500/30">
                   <Coins className="h-4 w-4 text-green-400" />
                 </div>
               </CardHeader>
               <CardContent className="relative z-10">
                 <div className="text-2xl md:text-3xl font-bold text-green-400 mb-1">
-                  KSh {(profile.balance ?? 0).toLocaleString()}
+                  {t('common.amount', { amount: profile.balance ?? 0 })}
                 </div>
                 <p className="text-xs text-slate-400 flex items-center gap-1">
                   <TrendingUp className="h-3 w-3" />
-                  Available for games
+                  {t('trivia.stats.balance.hint')}
                 </p>
               </CardContent>
             </Card>
@@ -293,7 +295,7 @@ const TriviaGamePage: React.FC = () => {
             <Card className="group border-0 bg-gradient-to-br from-slate-800/80 to-slate-900/80 backdrop-blur-xl border border-slate-700/50 hover-scale overflow-hidden relative">
               <div className="absolute inset-0 bg-gradient-to-r from-blue-500/10 to-cyan-500/10 opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3 relative z-10">
-                <CardTitle className="text-sm font-medium text-slate-300">Total Points</CardTitle>
+                <CardTitle className="text-sm font-medium text-slate-300">{t('trivia.stats.points')}</CardTitle>
                 <div className="p-2 rounded-lg bg-blue-500/20 border border-blue-500/30">
                   <Star className="h-4 w-4 text-blue-400" />
                 </div>
@@ -304,7 +306,7 @@ const TriviaGamePage: React.FC = () => {
                 </div>
                 <p className="text-xs text-slate-400 flex items-center gap-1">
                   <Zap className="h-3 w-3" />
-                  Skill points earned
+                  {t('trivia.stats.points.hint')}
                 </p>
               </CardContent>
             </Card>
@@ -313,7 +315,7 @@ const TriviaGamePage: React.FC = () => {
             <Card className="group border-0 bg-gradient-to-br from-slate-800/80 to-slate-900/80 backdrop-blur-xl border border-slate-700/50 hover-scale overflow-hidden relative">
               <div className="absolute inset-0 bg-gradient-to-r from-purple-500/10 to-pink-500/10 opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3 relative z-10">
-                <CardTitle className="text-sm font-medium text-slate-300">Games Played</CardTitle>
+                <CardTitle className="text-sm font-medium text-slate-300">{t('trivia.stats.played')}</CardTitle>
                 <div className="p-2 rounded-lg bg-purple-500/20 border border-purple-500/30">
                   <Gamepad2 className="h-4 w-4 text-purple-400" />
                 </div>
@@ -324,7 +326,7 @@ const TriviaGamePage: React.FC = () => {
                 </div>
                 <p className="text-xs text-slate-400 flex items-center gap-1">
                   <Target className="h-3 w-3" />
-                  Total challenges
+                  {t('trivia.stats.played.hint')}
                 </p>
               </CardContent>
             </Card>
@@ -333,7 +335,7 @@ const TriviaGamePage: React.FC = () => {
             <Card className="group border-0 bg-gradient-to-br from-slate-800/80 to-slate-900/80 backdrop-blur-xl border border-slate-700/50 hover-scale overflow-hidden relative">
               <div className="absolute inset-0 bg-gradient-to-r from-orange-500/10 to-yellow-500/10 opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3 relative z-10">
-                <CardTitle className="text-sm font-medium text-slate-300">Win Rate</CardTitle>
+                <CardTitle className="text-sm font-medium text-slate-300">{t('trivia.stats.winRate')}</CardTitle>
                 <div className="p-2 rounded-lg bg-orange-500/20 border border-orange-500/30">
                   <Trophy className="h-4 w-4 text-orange-400" />
                 </div>
@@ -344,7 +346,7 @@ const TriviaGamePage: React.FC = () => {
                 </div>
                 <p className="text-xs text-slate-400 flex items-center gap-1">
                   <TrendingUp className="h-3 w-3" />
-                  Success rate
+                  {t('trivia.stats.winRate.hint')}
                 </p>
               </CardContent>
             </Card>
@@ -353,18 +355,18 @@ const TriviaGamePage: React.FC = () => {
             <Card className="group border-0 bg-gradient-to-br from-slate-800/80 to-slate-900/80 backdrop-blur-xl border border-slate-700/50 hover-scale overflow-hidden relative">
               <div className="absolute inset-0 bg-gradient-to-r from-teal-500/10 to-cyan-500/10 opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3 relative z-10">
-                <CardTitle className="text-sm font-medium text-slate-300">Total Earnings</CardTitle>
+                <CardTitle className="text-sm font-medium text-slate-300">{t('trivia.stats.earnings')}</CardTitle>
                 <div className="p-2 rounded-lg bg-teal-500/20 border border-teal-500/30">
                   <TrendingUp className="h-4 w-4 text-teal-400" />
                 </div>
               </CardHeader>
               <CardContent className="relative z-10">
                 <div className="text-2xl md:text-3xl font-bold text-teal-400 mb-1">
-                  KSh {(profile.total_earnings ?? 0).toLocaleString()}
+                  {t('common.amount', { amount: profile.total_earnings ?? 0 })}
                 </div>
                 <p className="text-xs text-slate-400 flex items-center gap-1">
                   <Coins className="h-3 w-3" />
-                  Lifetime rewards
+                  {t('trivia.stats.earnings.hint')}
                 </p>
               </CardContent>
             </Card>
@@ -373,7 +375,7 @@ const TriviaGamePage: React.FC = () => {
             <Card className="group border-0 bg-gradient-to-br from-slate-800/80 to-slate-900/80 backdrop-blur-xl border border-slate-700/50 hover-scale overflow-hidden relative">
               <div className="absolute inset-0 bg-gradient-to-r from-pink-500/10 to-rose-500/10 opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3 relative z-10">
-                <CardTitle className="text-sm font-medium text-slate-300">Win Streak</CardTitle>
+                <CardTitle className="text-sm font-medium text-slate-300">{t('trivia.stats.streak')}</CardTitle>
                 <div className="p-2 rounded-lg bg-pink-500/20 border border-pink-500/30">
                   <Crown className="h-4 w-4 text-pink-400" />
                 </div>
@@ -384,7 +386,7 @@ const TriviaGamePage: React.FC = () => {
                 </div>
                 <p className="text-xs text-slate-400 flex items-center gap-1">
                   <Zap className="h-3 w-3" />
-                  Current streak
+                  {t('trivia.stats.streak.hint')}
                 </p>
                 {profile.current_streak > 0 && (
                   <div className="mt-2">
@@ -11,11 +11,13 @@ import { WifiWallet } from '@/components/wifi/WifiWallet';
 import { ActiveSessions } from '@/components/wifi/ActiveSessions';
 import { TransactionHistory } from '@/components/wifi/TransactionHistory';
 import { useAuth } from '@/hooks/useAuth';
+import { useLanguage } from '@/contexts/LanguageContext';
 import { useWifiStats } from '@/hooks/useWifiStats';
 import { Wifi, MapPin, Clock, CreditCard, AlertCircle } from 'lucide-react';
 
 const WifiAccessPage = () => {
   const { user } = useAuth();
+  const { t } = useLanguage();
   const { data: stats, isLoading: statsLoading } = useWifiStats();
   const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
@@ -38,7 +40,7 @@ const WifiAccessPage = () => {
           <Alert>
             <AlertCircle className="h-4 w-4" />
             <AlertDescription>
-              Please sign in to access WiFi services.
+              {t('wifi.signIn')}
             </AlertDescription>
           </Alert>
         </div>
@@ -58,9 +60,9 @@ const WifiAccessPage = () => {
               <Wifi className="h-6 w-6 text-primary" />
             </div>
             <div className="flex-1 min-w-0">
-              <h1 className="text-2xl sm:text-3xl font-bold truncate">WiFi Access</h1>
+              <h1 className="text-2xl sm:text-3xl font-bold truncate">{t('wifi.title')}</h1>
               <p className="text-muted-foreground text-sm sm:text-base">
-                Find nearby hotspots, purchase packages, and manage your internet sessions
+                {t('wifi.subtitle')}
               </p>
             </div>
           </div>
@@ -71,7 +73,7 @@ const WifiAccessPage = () => {
               <div className="flex items-center gap-2">
                 <MapPin className="h-4 w-4 text-blue-500 flex-shrink-0" />
                 <div className="min-w-0">
-                  <p className="text-xs sm:text-sm text-muted-foreground truncate">Nearby Hotspots</p>
+                  <p className="text-xs sm:text-sm text-muted-foreground truncate">{t('wifi.stats.nearby')}</p>
                   <p className="text-base sm:text-lg font-semibold">
                     {statsLoading ? '...' : stats?.nearbyHotspots || 0}
                   </p>
@@ -82,7 +84,7 @@ const WifiAccessPage = () => {
               <div className="flex items-center gap-2">
                 <Clock className="h-4 w-4 text-green-500 flex-shrink-0" />
                 <div className="min-w-0">
-                  <p className="text-xs sm:text-sm text-muted-foreground truncate">Active Sessions</p>
+                  <p className="text-xs sm:text-sm text-muted-foreground truncate">{t('wifi.stats.sessions')}</p>
                   <p className="text-base sm:text-lg font-semibold">
                     {statsLoading ? '...' : stats?.activeSessions || 0}
                   </p>
@@ -93,7 +95,7 @@ const WifiAccessPage = () => {
               <div className="flex items-center gap-2">
                 <CreditCard className="h-4 w-4 text-purple-500 flex-shrink-0" />
                 <div className="min-w-0">
-                  <p className="text-xs sm:text-sm text-muted-foreground truncate">Wallet Balance</p>
+                  <p className="text-xs sm:text-sm text-muted-foreground truncate">{t('wifi.stats.balance')}</p>
                   <p className="text-base sm:text-lg font-semibold">
                     {statsLoading ? '...' : `KES ${stats?.walletBalance.toFixed(2) || '0.00'}`}
                   </p>
@@ -104,7 +106,7 @@ const WifiAccessPage = () => {
               <div className="flex items-center gap-2">
                 <Wifi className="h-4 w-4 text-orange-500 flex-shrink-0" />
                 <div className="min-w-0">
-                  <p className="text-xs sm:text-sm text-muted-foreground truncate">Data Used Today</p>
+                  <p className="text-xs sm:text-sm text-muted-foreground truncate">{t('wifi.stats.dataToday')}</p>
                   <p className="text-base sm:text-lg font-semibold">
                     {statsLoading ? '...' : `${stats?.dataUsedToday || '0.0'} GB`}
                   </p>
@@ -117,10 +119,10 @@ const WifiAccessPage = () => {
         {/* Main Content */}
         <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
           <TabsList className="grid w-full grid-cols-4">
-            <TabsTrigger value="hotspots">Find Hotspots</TabsTrigger>
-            <TabsTrigger value="sessions">My Sessions</TabsTrigger>
-            <TabsTrigger value="wallet">Wallet</TabsTrigger>
-            <TabsTrigger value="history">History</TabsTrigger>
+            <TabsTrigger value="hotspots">{t('wifi.tabs.hotspots')}</TabsTrigger>
+            <TabsTrigger value="sessions">{t('wifi.tabs.sessions')}</TabsTrigger>
+            <TabsTrigger value="wallet">{t('wifi.tabs.wallet')}</TabsTrigger>
+            <TabsTrigger value="history">{t('wifi.tabs.history')}</TabsTrigger>
           </TabsList>
 
           <TabsContent value="hotspots" className="space-y-6 mt-6">
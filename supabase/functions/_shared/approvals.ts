@@ -0,0 +1,63 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export type GatedAction = 'withdrawal' | 'loan_disbursement' | 'role_change' | 'delete_chama';
+
+export interface ApprovalRequest {
+  chamaId: string;
+  // chama_members.id of whoever is asking
+  memberId: string;
+  action: GatedAction;
+  title: string;
+  description?: string;
+  // The loan, member or chama the action is about; one open request each
+  referenceId?: string;
+  payload?: Record<string, unknown>;
+  amount?: number;
+}
+
+export interface ApprovalResponse {
+  success: true;
+  pending: boolean;
+  proposalId: string;
+  approvals: number | null;
+  requiredApprovals: number | null;
+  message: string;
+}
+
+/**
+ * Runs a sensitive chama action past the chama's approval policy via
+ * request_chama_approval(). Returns null when no approval is needed and the
+ * caller should carry on; otherwise the proposal has been opened (and, with
+ * a single officer, possibly approved and carried out already), and the
+ * returned body should be sent back as is. Needs the service-role client.
+ */
+export async function requestChamaApproval(
+  supabaseAdmin: SupabaseClient,
+  request: ApprovalRequest
+): Promise<ApprovalResponse | null> {
+  const { data, error } = await supabaseAdmin.rpc('request_chama_approval', {
+    p_chama_id: request.chamaId,
+    p_member_id: request.memberId,
+    p_action_type: request.action,
+    p_title: request.title,
+    p_description: request.description ?? null,
+    p_reference_id: request.referenceId ?? null,
+    p_payload: request.payload ?? {},
+    p_amount: request.amount ?? null,
+  });
+
+  if (error) throw new Error(error.message);
+  if (!data?.requires_approval) return null;
+  if (!data.success) throw new Error(data.message);
+
+  return {
+    success: true,
+    pending: data.pending,
+    proposalId: data.proposal_id,
+    approvals: data.approvals ?? null,
+    requiredApprovals: data.required_approvals ?? null,
+    message: data.message,
+  };
+}
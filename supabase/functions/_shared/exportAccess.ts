@@ -0,0 +1,106 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export class ExportAccessError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ExportAccessError';
+  }
+}
+
+export interface ExportCaller {
+  userId: string;
+  memberId: string;
+  // Admins and treasurers, per is_chama_admin_or_treasurer()
+  isOfficer: boolean;
+}
+
+/**
+ * Authenticates the caller of an export function and resolves their standing
+ * in the chama. Throws ExportAccessError (401/403) for anonymous callers and
+ * non-members; officer-only checks are left to the caller.
+ */
+export async function authorizeExport(req: Request, supabaseAdmin: SupabaseClient, chamaId: string): Promise<ExportCaller> {
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    {
+      global: {
+        headers: { Authorization: req.headers.get('Authorization') ?? '' },
+      },
+    }
+  );
+
+  const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+  if (authError || !user) {
+    throw new ExportAccessError('Unauthorized', 401);
+  }
+
+  if (!chamaId) {
+    throw new ExportAccessError('chamaId is required', 400);
+  }
+
+  const { data: member } = await supabaseAdmin
+    .from('chama_members')
+    .select('id')
+    .eq('chama_id', chamaId)
+    .eq('user_id', user.id)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (!member) {
+    throw new ExportAccessError('You are not a member of this chama', 403);
+  }
+
+  // Checked as the caller so the function sees their auth.uid()
+  const { data: isOfficer, error: roleError } = await supabaseClient.rpc('is_chama_admin_or_treasurer', {
+    chama_id_to_check: chamaId,
+  });
+
+  if (roleError) {
+    throw new Error(`Role check failed: ${roleError.message}`);
+  }
+
+  return { userId: user.id, memberId: member.id, isOfficer: isOfficer === true };
+}
+
+export function maskEmail(email: string | null | undefined): string | null {
+  if (!email) return email ?? null;
+  const [local, domain] = email.split('@');
+  if (!domain) return '***';
+  return `${local.slice(0, 1)}***@${domain}`;
+}
+
+export function maskPhone(phone: string | null | undefined): string | null {
+  if (!phone) return phone ?? null;
+  return phone.length <= 3 ? '***' : `${'*'.repeat(phone.length - 3)}${phone.slice(-3)}`;
+}
+
+interface ExportLogEntry {
+  chamaId: string;
+  actorId: string;
+  action: 'data_export' | 'report_export';
+  targetId?: string | null;
+  details: Record<string, unknown>;
+}
+
+/**
+ * Records who downloaded what in chama_audit_logs. A failed log write fails
+ * the export, so nothing leaves without an audit trail.
+ */
+export async function logExport(supabaseAdmin: SupabaseClient, entry: ExportLogEntry) {
+  const { error } = await supabaseAdmin
+    .from('chama_audit_logs')
+    .insert({
+      chama_id: entry.chamaId,
+      actor_id: entry.actorId,
+      target_id: entry.targetId ?? null,
+      action: entry.action,
+      details: entry.details,
+    });
+
+  if (error) {
+    throw new Error(`Could not record export: ${error.message}`);
+  }
+}
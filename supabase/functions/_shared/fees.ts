@@ -0,0 +1,54 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export interface FeeQuoteRequest {
+  transactionType: string;
+  amount: number;
+  userId?: string | null;
+  // Payment channel the money moves through: mpesa, airtel, bank, card, paystack
+  channel?: string | null;
+  chamaId?: string | null;
+}
+
+export interface FeeQuote {
+  transaction_type: string;
+  amount: number;
+  channel: string | null;
+  chama_id: string | null;
+  user_tier: string;
+  gross_fee: number;
+  discount: number;
+  fee: number;
+  net_amount: number;
+  total: number;
+  capped: boolean;
+  configuration_id: string | null;
+  fee_type: 'fixed' | 'percentage' | 'tiered' | null;
+  percentage_rate: number | null;
+  minimum_fee: number | null;
+  maximum_fee: number | null;
+  waiver_id: string | null;
+  waiver_name: string | null;
+}
+
+/**
+ * Prices a transaction with the quote_fee() fee engine. Every edge function
+ * that charges a platform fee goes through here, and the quote-fee endpoint
+ * returns the same quote to the UI. Needs a service-role client.
+ */
+export async function quoteFee(supabase: SupabaseClient, request: FeeQuoteRequest): Promise<FeeQuote> {
+  const { data, error } = await supabase.rpc('quote_fee', {
+    p_transaction_type: request.transactionType,
+    p_amount: request.amount,
+    p_user_id: request.userId ?? null,
+    p_channel: request.channel ?? null,
+    p_chama_id: request.chamaId ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Fee quote failed: ${error.message}`);
+  }
+
+  return data as FeeQuote;
+}
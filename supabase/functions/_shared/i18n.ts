@@ -0,0 +1,47 @@
+// Messages sent from edge functions (SMS, USSD, notifications) in the
+// member's language. The formatter and the per-language catalogs in ./i18n
+// are the ones the app uses, so a message reads the same in both.
+//
+// Messages use the app's ICU subset: {name}, {n, number[, currency]},
+// {d, date, short|long}, plural and select.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { formatMessage, MessageValues } from './i18n/format.ts'
+import en from './i18n/locales/en.json' with { type: 'json' }
+import sw from './i18n/locales/sw.json' with { type: 'json' }
+import sheng from './i18n/locales/sheng.json' with { type: 'json' }
+import giriama from './i18n/locales/giriama.json' with { type: 'json' }
+
+export { formatMessage } from './i18n/format.ts'
+export type { MessageValue, MessageValues } from './i18n/format.ts'
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export type Language = 'en' | 'sw' | 'sheng' | 'giriama';
+
+// English carries every message; other languages fall back to it key by key
+const CATALOGS: Record<Language, Record<string, string>> = { en, sw, sheng, giriama };
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && value in CATALOGS;
+
+export const translate = (language: string | null | undefined, key: string, values: MessageValues = {}): string => {
+  const lang = isLanguage(language) ? language : 'en';
+  const template = CATALOGS[lang][key] || CATALOGS.en[key];
+  if (!template) {
+    console.warn(`Missing message template "${key}"`);
+    return key;
+  }
+  return formatMessage(template, values, lang);
+};
+
+/** The language a user picked in the app (profiles.preferred_language), English if unset. */
+export async function getPreferredLanguage(supabase: SupabaseClient, userId: string): Promise<Language> {
+  const { data } = await supabase
+    .from('profiles')
+    .select('preferred_language')
+    .eq('id', userId)
+    .maybeSingle();
+
+  return isLanguage(data?.preferred_language) ? data.preferred_language : 'en';
+}
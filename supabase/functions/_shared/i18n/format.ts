@@ -0,0 +1,190 @@
+/**
+ * A small subset of ICU MessageFormat, enough for the catalogs in ./locales.
+ * The app (through src/i18n/format.ts) and the edge functions (through
+ * _shared/i18n.ts) both format with this one module, so it imports nothing.
+ *
+ *   {name}                        plain interpolation
+ *   {amount, number}              grouped number
+ *   {amount, number, currency}    amount in the `currency` value (KES if unset), no decimals
+ *   {amount, number, percent}     0.25 -> 25%
+ *   {date, date, short|long}      localized date
+ *   {count, plural, =0 {...} one {...} other {...}}   # is the formatted count
+ *   {role, select, admin {...} other {...}}
+ *
+ * Branches may nest further arguments. Unknown arguments are left as-is so a
+ * missing value is visible instead of silently blank.
+ */
+
+export type MessageValue = string | number | Date | null | undefined;
+export type MessageValues = Record<string, MessageValue>;
+
+// Intl has no Sheng or Giriama data; both follow Swahili plural and number rules
+const INTL_LOCALES: Record<string, string> = {
+  en: 'en-KE',
+  sw: 'sw-KE',
+  sheng: 'sw-KE',
+  giriama: 'sw-KE',
+};
+
+export const toIntlLocale = (language: string): string => INTL_LOCALES[language] ?? 'en-KE';
+
+const toNumber = (value: MessageValue): number => {
+  if (value instanceof Date) return value.getTime();
+  return typeof value === 'number' ? value : Number(value);
+};
+
+const formatNumber = (value: MessageValue, style: string | undefined, locale: string, currency = 'KES'): string => {
+  const n = toNumber(value);
+  if (Number.isNaN(n)) return String(value ?? '');
+
+  switch (style) {
+    case 'currency':
+      return new Intl.NumberFormat(locale, {
+        style: 'currency',
+        currency,
+        minimumFractionDigits: 0,
+        maximumFractionDigits: 0,
+      }).format(n);
+    case 'percent':
+      return new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 1 }).format(n);
+    case 'integer':
+      return new Intl.NumberFormat(locale, { maximumFractionDigits: 0 }).format(n);
+    default:
+      return new Intl.NumberFormat(locale).format(n);
+  }
+};
+
+const formatDate = (value: MessageValue, style: string | undefined, locale: string): string => {
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  if (Number.isNaN(date.getTime())) return String(value ?? '');
+
+  const options: Intl.DateTimeFormatOptions =
+    style === 'long'
+      ? { day: 'numeric', month: 'long', year: 'numeric' }
+      : style === 'time'
+        ? { hour: '2-digit', minute: '2-digit' }
+        : { day: 'numeric', month: 'short', year: 'numeric' };
+
+  return new Intl.DateTimeFormat(locale, options).format(date);
+};
+
+// Index of the brace closing the one at `start`, honouring nesting
+const findClosingBrace = (message: string, start: number): number => {
+  let depth = 0;
+  for (let i = start; i < message.length; i++) {
+    if (message[i] === '{') depth++;
+    else if (message[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+// Splits "count, plural, one {..} other {..}" into at most three parts on
+// top-level commas
+const splitArgument = (body: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let last = 0;
+  for (let i = 0; i < body.length && parts.length < 2; i++) {
+    if (body[i] === '{') depth++;
+    else if (body[i] === '}') depth--;
+    else if (body[i] === ',' && depth === 0) {
+      parts.push(body.slice(last, i).trim());
+      last = i + 1;
+    }
+  }
+  parts.push(body.slice(last).trim());
+  return parts;
+};
+
+// Parses "=0 {none} one {# item} other {# items}" into selector -> message
+const parseOptions = (body: string): Record<string, string> => {
+  const options: Record<string, string> = {};
+  let i = 0;
+  while (i < body.length) {
+    const open = body.indexOf('{', i);
+    if (open === -1) break;
+    const close = findClosingBrace(body, open);
+    if (close === -1) break;
+    options[body.slice(i, open).trim()] = body.slice(open + 1, close);
+    i = close + 1;
+  }
+  return options;
+};
+
+const formatPlural = (
+  value: MessageValue,
+  optionsBody: string,
+  values: MessageValues,
+  language: string,
+  locale: string
+): string => {
+  const n = toNumber(value);
+  const options = parseOptions(optionsBody);
+  const branch =
+    options[`=${n}`] ??
+    options[new Intl.PluralRules(locale).select(n)] ??
+    options.other ??
+    '';
+
+  // # stands for the count, but only at this level; nested plurals bring their own
+  let result = '';
+  let depth = 0;
+  for (const char of branch) {
+    if (char === '{') depth++;
+    if (char === '}') depth--;
+    result += char === '#' && depth === 0 ? formatNumber(n, undefined, locale) : char;
+  }
+  return formatMessage(result, values, language);
+};
+
+export const formatMessage = (message: string, values: MessageValues = {}, language = 'en'): string => {
+  if (!message.includes('{')) return message;
+
+  const locale = toIntlLocale(language);
+  let output = '';
+  let i = 0;
+
+  while (i < message.length) {
+    const open = message.indexOf('{', i);
+    if (open === -1) {
+      output += message.slice(i);
+      break;
+    }
+    const close = findClosingBrace(message, open);
+    if (close === -1) {
+      output += message.slice(i);
+      break;
+    }
+
+    output += message.slice(i, open);
+    const [name, type, style] = splitArgument(message.slice(open + 1, close));
+
+    if (!(name in values)) {
+      output += message.slice(open, close + 1);
+    } else {
+      const value = values[name];
+      switch (type) {
+        case 'number':
+          output += formatNumber(value, style, locale, typeof values.currency === 'string' ? values.currency : undefined);
+          break;
+        case 'date':
+          output += formatDate(value, style, locale);
+          break;
+        case 'plural':
+          output += formatPlural(value, style ?? '', values, language, locale);
+          break;
+        case 'select': {
+          const options = parseOptions(style ?? '');
+          output += formatMessage(options[String(value)] ?? options.other ?? '', values, language);
+          break;
+        }
+        default:
+          output += value == null ? '' : String(value);
+      }
+    }
+
+    i = close + 1;
+  }
+
+  return output;
+};
@@ -0,0 +1,257 @@
+// iCalendar (RFC 5545) output for meeting invites and members' subscription
+// feeds. Times are written in UTC, which is also how the database steps a
+// recurring series, so the recurrence rules here expand to the same dates as
+// the chama_meetings rows they describe.
+
+const PRODUCT_ID = '-//ChamaVault//Chama Calendar//EN';
+const UID_DOMAIN = 'chamavault.app';
+// Lines longer than this many octets are folded onto continuation lines
+const MAX_LINE_OCTETS = 75;
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  start: Date;
+  // Timed events last this long; all-day events cover the start date only
+  durationMinutes?: number;
+  allDay?: boolean;
+  status?: 'CONFIRMED' | 'CANCELLED';
+  rrule?: string;
+  // Occurrences of the rule that no longer take place
+  exdates?: Date[];
+  // Bumped whenever the event changes so calendar apps replace their copy
+  sequence?: number;
+  lastModified?: Date;
+  alarmMinutesBefore?: number;
+}
+
+export interface CalendarOptions {
+  name: string;
+  description?: string;
+  // How often subscribed calendar apps should fetch the feed again
+  refreshIntervalHours?: number;
+}
+
+export type MeetingRecurrence = 'none' | 'weekly' | 'biweekly' | 'monthly';
+
+export interface CalendarMeeting {
+  id: string;
+  series_id: string | null;
+  recurrence: MeetingRecurrence;
+  title: string;
+  description: string | null;
+  meeting_type: string;
+  location: string | null;
+  meeting_link: string | null;
+  scheduled_at: string;
+  duration_minutes: number;
+  status: 'scheduled' | 'completed' | 'cancelled';
+  agenda_published_at: string | null;
+  updated_at: string;
+}
+
+export interface CalendarAgendaItem {
+  meeting_id: string;
+  position: number;
+  title: string;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const formatDateTime = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+export const formatDate = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+
+export const escapeText = (text: string) =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const encoder = new TextEncoder();
+
+/** Folds a content line at 75 octets without splitting a UTF-8 character. */
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+const formatDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `PT${hours > 0 ? `${hours}H` : ''}${rest > 0 || hours === 0 ? `${rest}M` : ''}`;
+};
+
+export const eventUid = (kind: string, id: string) => `${kind}-${id}@${UID_DOMAIN}`;
+
+/**
+ * The rule a series follows from its first meeting. Monthly meetings set late
+ * in the month fall on the last day of shorter months, as the database does
+ * when it adds months, hence the day-or-last-day form.
+ */
+export function recurrenceRule(recurrence: MeetingRecurrence, firstStart: Date, count: number): string | null {
+  switch (recurrence) {
+    case 'weekly':
+      return `FREQ=WEEKLY;COUNT=${count}`;
+    case 'biweekly':
+      return `FREQ=WEEKLY;INTERVAL=2;COUNT=${count}`;
+    case 'monthly': {
+      const day = firstStart.getUTCDate();
+      return day > 28
+        ? `FREQ=MONTHLY;BYMONTHDAY=${day},-1;BYSETPOS=1;COUNT=${count}`
+        : `FREQ=MONTHLY;COUNT=${count}`;
+    }
+    default:
+      return null;
+  }
+}
+
+function eventLines(event: CalendarEvent, stamp: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatDateTime(stamp)}`,
+  ];
+
+  if (event.allDay) {
+    const end = new Date(event.start.getTime() + 24 * 60 * 60 * 1000);
+    lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start)}`, `DTEND;VALUE=DATE:${formatDate(end)}`);
+  } else {
+    lines.push(`DTSTART:${formatDateTime(event.start)}`, `DURATION:${formatDuration(event.durationMinutes ?? 60)}`);
+  }
+
+  if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+  for (const exdate of event.exdates ?? []) {
+    lines.push(event.allDay ? `EXDATE;VALUE=DATE:${formatDate(exdate)}` : `EXDATE:${formatDateTime(exdate)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  lines.push(`STATUS:${event.status ?? 'CONFIRMED'}`);
+  lines.push(`SEQUENCE:${event.sequence ?? 0}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatDateTime(event.lastModified)}`);
+  if (event.allDay) lines.push('TRANSP:TRANSPARENT');
+
+  if (event.alarmMinutesBefore && event.status !== 'CANCELLED') {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(event.summary)}`,
+      `TRIGGER:-${formatDuration(event.alarmMinutesBefore)}`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/** Serialises events into a VCALENDAR document with CRLF line endings. */
+export function buildCalendar(options: CalendarOptions, events: CalendarEvent[]): string {
+  const stamp = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+  ];
+
+  if (options.description) lines.push(`X-WR-CALDESC:${escapeText(options.description)}`);
+  if (options.refreshIntervalHours) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshIntervalHours}H`,
+      `X-PUBLISHED-TTL:PT${options.refreshIntervalHours}H`
+    );
+  }
+
+  for (const event of events) {
+    lines.push(...eventLines(event, stamp));
+  }
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function meetingDescription(meeting: CalendarMeeting, agenda: CalendarAgendaItem[]) {
+  const sections: string[] = [];
+  if (meeting.description) sections.push(meeting.description);
+  if (meeting.meeting_link) sections.push(`Join online: ${meeting.meeting_link}`);
+
+  const items = agenda.filter((item) => item.meeting_id === meeting.id).sort((a, b) => a.position - b.position);
+  if (meeting.agenda_published_at && items.length > 0) {
+    sections.push(['Agenda:', ...items.map((item) => `${item.position}. ${item.title}`)].join('\n'));
+  }
+
+  return sections.join('\n\n') || undefined;
+}
+
+/**
+ * One event per standalone meeting and one recurring event per series, with
+ * cancelled occurrences excluded. Pass every meeting of a series so the rule
+ * starts from its first occurrence.
+ */
+export function meetingEvents(meetings: CalendarMeeting[], chamaName: string, agenda: CalendarAgendaItem[] = []): CalendarEvent[] {
+  const groups = new Map<string, CalendarMeeting[]>();
+  for (const meeting of meetings) {
+    const key = meeting.series_id ?? meeting.id;
+    groups.set(key, [...(groups.get(key) ?? []), meeting]);
+  }
+
+  return [...groups.entries()].map(([key, group]) => {
+    const occurrences = [...group].sort((a, b) => a.scheduled_at.localeCompare(b.scheduled_at));
+    const first = occurrences[0];
+    const start = new Date(first.scheduled_at);
+    const cancelled = occurrences.filter((meeting) => meeting.status === 'cancelled');
+    const allCancelled = cancelled.length === occurrences.length;
+    // The next occurrence that still takes place carries the current details and agenda
+    const current = occurrences.find((meeting) => meeting.status === 'scheduled') ?? first;
+    const modified = new Date(occurrences.map((meeting) => meeting.updated_at).sort().pop() ?? first.scheduled_at);
+
+    const rrule = occurrences.length > 1 ? recurrenceRule(first.recurrence, start, occurrences.length) : null;
+
+    return {
+      uid: eventUid('meeting', key),
+      summary: `${current.title} (${chamaName})`,
+      description: meetingDescription(current, agenda),
+      location: current.location ?? (current.meeting_type === 'virtual' ? current.meeting_link ?? undefined : undefined),
+      url: current.meeting_link ?? undefined,
+      start,
+      durationMinutes: first.duration_minutes,
+      status: allCancelled ? 'CANCELLED' : 'CONFIRMED',
+      rrule: rrule ?? undefined,
+      exdates: rrule && !allCancelled ? cancelled.map((meeting) => new Date(meeting.scheduled_at)) : [],
+      // Minutes since the epoch only ever grow, so calendar apps take each edit
+      sequence: Math.floor(modified.getTime() / 60000),
+      lastModified: modified,
+      alarmMinutesBefore: 60,
+    };
+  });
+}
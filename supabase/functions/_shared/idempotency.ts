@@ -0,0 +1,160 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, idempotency-key',
+}
+
+type Handler = (req: Request) => Promise<Response>;
+
+// Set on responses given after the request's side effect has happened
+const COMMITTED_HEADER = 'X-Idempotency-Committed';
+
+// Refusals to act until the caller proves who they are again (401) or enters
+// their PIN (428). Nothing ran, and the retry carries the new credentials.
+const CREDENTIAL_STATUSES = [401, 428];
+
+const jsonResponse = (body: unknown, status: number, extraHeaders: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', ...extraHeaders },
+  });
+
+async function hashRequest(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Response for a request whose side effect (a debit, a payout) has already
+ * happened. withIdempotency stores it as the key's outcome even when it is a
+ * server error, so a retry replays it instead of moving the money again.
+ */
+export const committedResponse = (body: unknown, status: number, headers: Record<string, string>) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...headers, 'Content-Type': 'application/json', [COMMITTED_HEADER]: 'true' },
+  });
+
+/**
+ * Wraps a money-moving handler so that requests carrying an Idempotency-Key
+ * header run at most once per user. The first response is stored and replayed
+ * for retries; reusing a key with a different payload returns 422, and a retry
+ * that arrives while the first request is still running returns 409.
+ * Requests without the header are passed straight through.
+ */
+export function withIdempotency(functionName: string, handler: Handler): Handler {
+  return async (req: Request) => {
+    const idempotencyKey = req.headers.get('Idempotency-Key');
+    const authHeader = req.headers.get('Authorization');
+
+    if (req.method === 'OPTIONS' || !idempotencyKey || !authHeader) {
+      return handler(req);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    )
+
+    const { data: { user } } = await supabaseAdmin.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (!user) {
+      // Let the handler produce its usual authentication error
+      return handler(req);
+    }
+
+    const requestHash = await hashRequest(await req.clone().text());
+
+    const { error: claimError } = await supabaseAdmin
+      .from('idempotency_keys')
+      .insert({
+        user_id: user.id,
+        function_name: functionName,
+        idempotency_key: idempotencyKey,
+        request_hash: requestHash,
+      });
+
+    if (claimError) {
+      if (claimError.code !== '23505') {
+        console.error('Idempotency key claim error:', claimError);
+        return jsonResponse({ error: 'Failed to process request' }, 500);
+      }
+
+      const { data: existing } = await supabaseAdmin
+        .from('idempotency_keys')
+        .select('request_hash, status, response_status, response_body')
+        .eq('user_id', user.id)
+        .eq('function_name', functionName)
+        .eq('idempotency_key', idempotencyKey)
+        .single();
+
+      if (!existing || existing.request_hash !== requestHash) {
+        return jsonResponse({ error: 'Idempotency-Key has already been used with a different request' }, 422);
+      }
+
+      if (existing.status !== 'completed') {
+        return jsonResponse({ error: 'A request with this Idempotency-Key is still being processed' }, 409);
+      }
+
+      console.log('Replaying stored response for idempotency key:', idempotencyKey);
+      return new Response(existing.response_body, {
+        status: existing.response_status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Idempotent-Replayed': 'true' },
+      });
+    }
+
+    let response: Response;
+    try {
+      response = await handler(req);
+    } catch (error) {
+      await releaseKey(supabaseAdmin, user.id, functionName, idempotencyKey);
+      throw error;
+    }
+
+    // Server errors and credential refusals are not stored so the client can
+    // safely retry them, unless money already moved before the error
+    const retryable = response.status >= 500 || CREDENTIAL_STATUSES.includes(response.status);
+    if (retryable && !response.headers.has(COMMITTED_HEADER)) {
+      await releaseKey(supabaseAdmin, user.id, functionName, idempotencyKey);
+      return response;
+    }
+
+    const responseBody = await response.text();
+
+    const { error: storeError } = await supabaseAdmin
+      .from('idempotency_keys')
+      .update({
+        status: 'completed',
+        response_status: response.status,
+        response_body: responseBody,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('user_id', user.id)
+      .eq('function_name', functionName)
+      .eq('idempotency_key', idempotencyKey);
+
+    if (storeError) {
+      console.error('Idempotency response store error:', storeError);
+    }
+
+    return new Response(responseBody, {
+      status: response.status,
+      headers: response.headers,
+    });
+  };
+}
+
+async function releaseKey(supabaseAdmin: ReturnType<typeof createClient>, userId: string, functionName: string, idempotencyKey: string) {
+  const { error } = await supabaseAdmin
+    .from('idempotency_keys')
+    .delete()
+    .eq('user_id', userId)
+    .eq('function_name', functionName)
+    .eq('idempotency_key', idempotencyKey);
+
+  if (error) {
+    console.error('Idempotency key release error:', error);
+  }
+}
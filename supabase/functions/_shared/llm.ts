@@ -0,0 +1,339 @@
+// Provider-agnostic access to chat models. Any OpenAI-compatible endpoint
+// works (hosted gateways, OpenAI itself, or a local server such as Ollama or
+// vLLM); the stub provider answers deterministically for tests.
+//
+// Configuration comes from the function's environment, so each deployment
+// picks its own provider:
+//   LLM_PROVIDER                 openai (default) or stub
+//   LLM_BASE_URL                 e.g. http://localhost:11434/v1
+//   LLM_API_KEY                  optional for local servers
+//   LLM_MODEL
+//   LLM_INPUT_COST_PER_1K        USD per 1,000 prompt tokens, for accounting
+//   LLM_OUTPUT_COST_PER_1K       USD per 1,000 completion tokens
+//   LLM_TIMEOUT_MS
+// The same keys prefixed LLM_FALLBACK_ configure an optional second provider
+// that is tried when the first one fails. Without LLM_BASE_URL the Lovable AI
+// gateway is used when LOVABLE_API_KEY is set, as before.
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  // false when the provider did not report usage and it was estimated
+  reported: boolean;
+}
+
+export interface LlmCompletion {
+  content: string;
+  usage: LlmUsage;
+  provider: string;
+  model: string;
+  costUsd: number;
+}
+
+export interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LlmProvider {
+  name: string;
+  model: string;
+  // USD per 1,000 tokens
+  inputCostPer1k: number;
+  outputCostPer1k: number;
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<LlmCompletion>;
+  /** Yields text as it arrives and returns the completion once the stream ends. */
+  stream(messages: ChatMessage[], options?: CompletionOptions): AsyncGenerator<string, LlmCompletion>;
+}
+
+export class LlmError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+const LOVABLE_GATEWAY_URL = 'https://ai.gateway.lovable.dev/v1';
+const DEFAULT_MODEL = 'google/gemini-2.5-flash';
+const DEFAULT_TIMEOUT_MS = 30000;
+
+// Rough count used when a provider does not report usage
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const estimatePromptTokens = (messages: ChatMessage[]) =>
+  messages.reduce((total, message) => total + estimateTokens(message.content) + 4, 0);
+
+export const calculateCost = (provider: Pick<LlmProvider, 'inputCostPer1k' | 'outputCostPer1k'>, usage: LlmUsage) =>
+  Math.round(
+    ((usage.promptTokens / 1000) * provider.inputCostPer1k +
+      (usage.completionTokens / 1000) * provider.outputCostPer1k) * 1e6
+  ) / 1e6;
+
+interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  inputCostPer1k: number;
+  outputCostPer1k: number;
+  timeoutMs: number;
+}
+
+const toUsage = (
+  raw: { prompt_tokens?: number; completion_tokens?: number } | undefined,
+  messages: ChatMessage[],
+  content: string
+): LlmUsage =>
+  raw && typeof raw.prompt_tokens === 'number'
+    ? { promptTokens: raw.prompt_tokens, completionTokens: raw.completion_tokens ?? 0, reported: true }
+    : { promptTokens: estimatePromptTokens(messages), completionTokens: estimateTokens(content), reported: false };
+
+class OpenAICompatibleProvider implements LlmProvider {
+  name: string;
+  model: string;
+  inputCostPer1k: number;
+  outputCostPer1k: number;
+
+  constructor(private config: OpenAICompatibleConfig) {
+    this.name = config.name;
+    this.model = config.model;
+    this.inputCostPer1k = config.inputCostPer1k;
+    this.outputCostPer1k = config.outputCostPer1k;
+  }
+
+  private completion(content: string, usage: LlmUsage): LlmCompletion {
+    return { content, usage, provider: this.name, model: this.model, costUsd: calculateCost(this, usage) };
+  }
+
+  private async request(messages: ChatMessage[], options: CompletionOptions, stream: boolean) {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.model,
+          messages,
+          temperature: options.temperature,
+          max_tokens: options.maxTokens,
+          stream,
+          ...(stream ? { stream_options: { include_usage: true } } : {}),
+        }),
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      });
+    } catch (error) {
+      console.error(`${this.name} request failed:`, error);
+      throw new LlmError(`${this.name} is unavailable`, 503);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`${this.name} error:`, response.status, errorText);
+      if (response.status === 429) {
+        throw new LlmError('The AI provider is busy. Please try again shortly.', 429);
+      }
+      if (response.status === 402) {
+        throw new LlmError('The AI provider has run out of credits.', 402);
+      }
+      throw new LlmError(`${this.name} returned ${response.status}`, 502);
+    }
+
+    return response;
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<LlmCompletion> {
+    const response = await this.request(messages, options, false);
+    const data = await response.json();
+    const content: string = data.choices?.[0]?.message?.content ?? '';
+
+    return this.completion(content, toUsage(data.usage, messages, content));
+  }
+
+  async *stream(messages: ChatMessage[], options: CompletionOptions = {}): AsyncGenerator<string, LlmCompletion> {
+    const response = await this.request(messages, options, true);
+    if (!response.body) {
+      throw new LlmError(`${this.name} returned an empty stream`, 502);
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let content = '';
+    let usage: { prompt_tokens?: number; completion_tokens?: number } | undefined;
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      // Server-sent events: one "data: {...}" line per chunk
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const payload = line.trim();
+        if (!payload.startsWith('data:')) continue;
+
+        const data = payload.slice(5).trim();
+        if (data === '[DONE]') continue;
+
+        try {
+          const chunk = JSON.parse(data);
+          if (chunk.usage) usage = chunk.usage;
+          const delta: string | undefined = chunk.choices?.[0]?.delta?.content;
+          if (delta) {
+            content += delta;
+            yield delta;
+          }
+        } catch (error) {
+          console.error(`${this.name} sent an unreadable chunk:`, error);
+        }
+      }
+    }
+
+    return this.completion(content, toUsage(usage, messages, content));
+  }
+}
+
+/**
+ * Deterministic provider for tests and local development: echoes the last
+ * user message and counts tokens with estimateTokens().
+ */
+export class StubProvider implements LlmProvider {
+  name = 'stub';
+  model = 'stub';
+  inputCostPer1k = 0;
+  outputCostPer1k = 0;
+
+  private reply(messages: ChatMessage[]) {
+    const lastUserMessage = [...messages].reverse().find((message) => message.role === 'user');
+    return `Stub response to: ${lastUserMessage?.content ?? ''}`;
+  }
+
+  complete(messages: ChatMessage[]): Promise<LlmCompletion> {
+    const content = this.reply(messages);
+    return Promise.resolve({
+      content,
+      usage: { promptTokens: estimatePromptTokens(messages), completionTokens: estimateTokens(content), reported: false },
+      provider: this.name,
+      model: this.model,
+      costUsd: 0,
+    });
+  }
+
+  async *stream(messages: ChatMessage[]): AsyncGenerator<string, LlmCompletion> {
+    const completion = await this.complete(messages);
+    for (const word of completion.content.split(/(?<= )/)) {
+      yield word;
+    }
+    return completion;
+  }
+}
+
+/**
+ * Tries each provider in turn. A stream only falls back while nothing has
+ * been sent yet; once text has reached the caller a failure is passed on.
+ */
+class FallbackProvider implements LlmProvider {
+  name: string;
+  model: string;
+  inputCostPer1k: number;
+  outputCostPer1k: number;
+
+  constructor(private providers: LlmProvider[]) {
+    this.name = providers[0].name;
+    this.model = providers[0].model;
+    this.inputCostPer1k = providers[0].inputCostPer1k;
+    this.outputCostPer1k = providers[0].outputCostPer1k;
+  }
+
+  async complete(messages: ChatMessage[], options?: CompletionOptions): Promise<LlmCompletion> {
+    let lastError: unknown;
+    for (const provider of this.providers) {
+      try {
+        return await provider.complete(messages, options);
+      } catch (error) {
+        console.error(`${provider.name} failed, trying the next provider:`, error);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  async *stream(messages: ChatMessage[], options?: CompletionOptions): AsyncGenerator<string, LlmCompletion> {
+    let lastError: unknown;
+    for (const provider of this.providers) {
+      let started = false;
+      try {
+        const iterator = provider.stream(messages, options);
+        while (true) {
+          const next = await iterator.next();
+          if (next.done) return next.value;
+          started = true;
+          yield next.value;
+        }
+      } catch (error) {
+        if (started) throw error;
+        console.error(`${provider.name} failed, trying the next provider:`, error);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+}
+
+const readNumber = (key: string, fallback: number) => {
+  const value = Number.parseFloat(Deno.env.get(key) ?? '');
+  return Number.isFinite(value) ? value : fallback;
+};
+
+const providerFromEnv = (prefix: string): LlmProvider | null => {
+  const kind = Deno.env.get(`${prefix}PROVIDER`) ?? 'openai';
+  if (kind === 'stub') {
+    return new StubProvider();
+  }
+  if (kind !== 'openai') {
+    throw new LlmError(`Unknown AI provider "${kind}"`, 500);
+  }
+
+  const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
+  const configuredUrl = Deno.env.get(`${prefix}BASE_URL`);
+  // Only the primary provider falls back to the Lovable gateway
+  const baseUrl = configuredUrl ?? (prefix === 'LLM_' && lovableApiKey ? LOVABLE_GATEWAY_URL : undefined);
+  if (!baseUrl) {
+    return null;
+  }
+
+  return new OpenAICompatibleProvider({
+    name: new URL(baseUrl).host,
+    baseUrl,
+    apiKey: Deno.env.get(`${prefix}API_KEY`) ?? (configuredUrl ? undefined : lovableApiKey),
+    model: Deno.env.get(`${prefix}MODEL`) ?? DEFAULT_MODEL,
+    inputCostPer1k: readNumber(`${prefix}INPUT_COST_PER_1K`, 0),
+    outputCostPer1k: readNumber(`${prefix}OUTPUT_COST_PER_1K`, 0),
+    timeoutMs: readNumber(`${prefix}TIMEOUT_MS`, DEFAULT_TIMEOUT_MS),
+  });
+};
+
+/** Builds the provider chain configured for this environment. */
+export function createLlmProvider(): LlmProvider {
+  const providers = [providerFromEnv('LLM_'), providerFromEnv('LLM_FALLBACK_')]
+    .filter((provider): provider is LlmProvider => provider !== null);
+
+  if (providers.length === 0) {
+    throw new LlmError('No AI provider is configured', 500);
+  }
+
+  return providers.length === 1 ? providers[0] : new FallbackProvider(providers);
+}
@@ -0,0 +1,92 @@
+// Base URL can be pointed at a local mock server for development and testing
+const paystackBaseUrl = () => Deno.env.get('PAYSTACK_API_BASE_URL') ?? 'https://api.paystack.co';
+
+export interface PaystackVerification {
+  // Paystack transaction status: success, failed, abandoned, reversed, ongoing, pending, ...
+  status: string;
+  amount: number;
+  channel: string | null;
+  paidAt: string | null;
+  gatewayResponse: string | null;
+  raw: Record<string, unknown>;
+}
+
+/**
+ * Asks Paystack for the current state of a transaction reference.
+ * Returns null when Paystack does not know the reference.
+ */
+export async function verifyPaystackTransaction(reference: string): Promise<PaystackVerification | null> {
+  const paystackSecretKey = Deno.env.get('PAYSTACK_SECRET_KEY');
+  if (!paystackSecretKey) {
+    throw new Error('PAYSTACK_SECRET_KEY not configured');
+  }
+
+  const response = await fetch(`${paystackBaseUrl()}/transaction/verify/${encodeURIComponent(reference)}`, {
+    headers: {
+      'Authorization': `Bearer ${paystackSecretKey}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  const result = await response.json();
+  if (response.status === 404 || /reference not found/i.test(result.message ?? '')) {
+    return null;
+  }
+
+  if (!response.ok || !result.status || !result.data) {
+    throw new Error(result.message || `Paystack verify failed with status ${response.status}`);
+  }
+
+  return {
+    status: result.data.status,
+    amount: result.data.amount / 100, // Paystack amount is in kobo/cents
+    channel: result.data.channel ?? null,
+    paidAt: result.data.paid_at ?? null,
+    gatewayResponse: result.data.gateway_response ?? null,
+    raw: result.data,
+  };
+}
+
+export interface PaystackTransferVerification {
+  // Paystack transfer status: success, failed, reversed, pending, otp, received, ...
+  status: string;
+  amount: number;
+  currency: string | null;
+  failureReason: string | null;
+  raw: Record<string, unknown>;
+}
+
+/**
+ * Asks Paystack for the current state of a transfer reference.
+ * Returns null when Paystack does not know the reference.
+ */
+export async function verifyPaystackTransfer(reference: string): Promise<PaystackTransferVerification | null> {
+  const paystackSecretKey = Deno.env.get('PAYSTACK_SECRET_KEY');
+  if (!paystackSecretKey) {
+    throw new Error('PAYSTACK_SECRET_KEY not configured');
+  }
+
+  const response = await fetch(`${paystackBaseUrl()}/transfer/verify/${encodeURIComponent(reference)}`, {
+    headers: {
+      'Authorization': `Bearer ${paystackSecretKey}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  const result = await response.json();
+  if (response.status === 404 || /not found/i.test(result.message ?? '')) {
+    return null;
+  }
+
+  if (!response.ok || !result.status || !result.data) {
+    throw new Error(result.message || `Paystack transfer verify failed with status ${response.status}`);
+  }
+
+  return {
+    status: result.data.status,
+    amount: result.data.amount / 100, // Paystack amount is in kobo/cents
+    currency: result.data.currency ?? null,
+    failureReason: result.data.failures?.reason ?? null,
+    raw: result.data,
+  };
+}
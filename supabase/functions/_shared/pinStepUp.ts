@@ -0,0 +1,37 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Carries the token verify_user_pin_enhanced() returns after a correct PIN
+export const PIN_TOKEN_HEADER = 'x-pin-token';
+
+/**
+ * Checks the caller's PIN step-up token and extends its idle window. Tokens
+ * are bound to the user that minted them, expire after five idle minutes and
+ * are revoked by a PIN lockout or PIN change, so a false result means the
+ * client has to ask for the PIN again.
+ */
+export async function hasPinStepUp(req: Request, supabaseAdmin: SupabaseClient, userId: string): Promise<boolean> {
+  const token = req.headers.get(PIN_TOKEN_HEADER);
+  if (!token) {
+    return false;
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('consume_pin_step_up', {
+    p_user_id: userId,
+    p_token: token,
+  });
+
+  if (error) {
+    console.error('PIN step-up check error:', error);
+    return false;
+  }
+
+  return data === true;
+}
+
+export const pinStepUpRequired = (corsHeaders: Record<string, string>) =>
+  new Response(
+    JSON.stringify({ success: false, error: 'PIN verification required', code: 'PIN_STEP_UP_REQUIRED' }),
+    { status: 428, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
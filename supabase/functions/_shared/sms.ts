@@ -0,0 +1,431 @@
+// Provider-agnostic text messaging. Every text is a row in sms_messages:
+// edge functions queue one and send it straight away with sendSms, while
+// texts queued by the database (announcements, payment confirmations, loan
+// reminders) go out through the sms-dispatch job. Messages are rendered from
+// their template in the recipient's language when they are sent, and
+// delivery reports and opt-outs come back through the sms-callback function.
+//
+// Configuration comes from the function's environment:
+//   SMS_PROVIDER            twilio (default, as before), africastalking or fake
+//   AT_USERNAME             Africa's Talking app username; "sandbox" uses the sandbox API
+//   AT_API_KEY
+//   AT_SENDER_ID            default sender ID or short code (optional)
+//   TWILIO_ACCOUNT_SID
+//   TWILIO_AUTH_TOKEN
+//   TWILIO_PHONE_NUMBER
+//   SMS_CALLBACK_TOKEN      shared secret on sms-callback URLs
+//   SMS_COST_PER_SEGMENT    what a segment costs when the provider does not
+//   SMS_COST_CURRENCY       say at send time (defaults to KES)
+// The fake provider records texts in memory and reports them sent.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getPreferredLanguage, translate, MessageValues } from './i18n.ts'
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export type SmsCategory = 'invitation' | 'security' | 'announcement' | 'payment' | 'loan_reminder' | 'notification';
+export type SmsStatus = 'queued' | 'sending' | 'sent' | 'delivered' | 'failed' | 'rejected';
+
+export interface SmsRequest {
+  category: SmsCategory;
+  // Rendered from the sms.<template> message in i18n.ts
+  template: string;
+  values?: MessageValues;
+  userId?: string;
+  // Needed when there is no user, e.g. invitations; otherwise taken from the profile
+  phone?: string;
+  // The chama paying for the text and whose sender ID it carries
+  chamaId?: string;
+  // Defaults to the user's preferred language
+  language?: string;
+  sourceType?: string;
+  sourceId?: string;
+}
+
+export interface SmsMessage {
+  id: string;
+  chama_id: string | null;
+  user_id: string | null;
+  phone: string;
+  category: SmsCategory;
+  template: string;
+  template_values: Record<string, unknown>;
+  language: string | null;
+  sender_id: string | null;
+  status: SmsStatus;
+  attempts: number;
+}
+
+export interface OutgoingSms {
+  to: string;
+  body: string;
+  senderId?: string | null;
+}
+
+export interface SmsSendResult {
+  providerMessageId: string | null;
+  status: 'sent' | 'failed' | 'rejected';
+  failureReason?: string;
+  cost?: number | null;
+  costCurrency?: string | null;
+  // The provider refused the number because it opted out
+  optedOut?: boolean;
+}
+
+export interface SmsDeliveryReport {
+  providerMessageId: string;
+  status: 'sent' | 'delivered' | 'failed' | 'rejected';
+  failureReason?: string | null;
+  optedOut?: boolean;
+}
+
+export interface SmsProvider {
+  name: string;
+  send(message: OutgoingSms): Promise<SmsSendResult>;
+  /** Reads a delivery report posted to sms-callback; null for reports that change nothing. */
+  parseDeliveryReport(form: URLSearchParams): SmsDeliveryReport | null;
+  /** The number that asked to stop, from an opt-out notice or a STOP reply. */
+  parseOptOut(form: URLSearchParams): string | null;
+}
+
+// Attempts before a text that keeps failing to reach the provider is given up
+const MAX_ATTEMPTS = 3;
+const STOP_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'ACHA', 'SIMAMISHA'];
+// Characters of the GSM 03.38 alphabet; a text with anything else is sent as UCS-2
+const GSM_CHARACTERS = /^[A-Za-z0-9 \r\n@£$¥èéùìòÇØøÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ!"#¤%&'()*+,\-./:;<=>?¡ÄÖÑÜ§¿äöñüà^{}\\[~\]|€]*$/;
+const GSM_EXTENDED = /[\^{}\\[~\]|€]/g;
+
+/** How many segments the provider bills a text as. */
+export function countSegments(body: string): number {
+  if (GSM_CHARACTERS.test(body)) {
+    const length = body.length + (body.match(GSM_EXTENDED)?.length ?? 0);
+    return length <= 160 ? 1 : Math.ceil(length / 153);
+  }
+  const length = [...body].length;
+  return length <= 70 ? 1 : Math.ceil(length / 67);
+}
+
+export const isStopKeyword = (text: string | null) =>
+  !!text && STOP_KEYWORDS.includes(text.trim().toUpperCase());
+
+const callbackUrl = (provider: string, type: 'delivery' | 'inbound') => {
+  const url = new URL(`${Deno.env.get('SUPABASE_URL') ?? ''}/functions/v1/sms-callback`);
+  url.searchParams.set('provider', provider);
+  url.searchParams.set('type', type);
+  url.searchParams.set('token', Deno.env.get('SMS_CALLBACK_TOKEN') ?? '');
+  return url.toString();
+};
+
+// "KES 0.8000" as reported by Africa's Talking
+const parseCost = (cost: string | undefined) => {
+  const match = cost?.match(/^([A-Z]{3})\s+([\d.]+)$/);
+  return match ? { cost: Number(match[2]), costCurrency: match[1] } : {};
+};
+
+export class AfricasTalkingProvider implements SmsProvider {
+  name = 'africastalking';
+
+  constructor(
+    private username: string,
+    private apiKey: string,
+    private defaultSenderId?: string
+  ) {}
+
+  private get baseUrl() {
+    return this.username === 'sandbox'
+      ? 'https://api.sandbox.africastalking.com'
+      : 'https://api.africastalking.com';
+  }
+
+  async send(message: OutgoingSms): Promise<SmsSendResult> {
+    const form = new URLSearchParams({ username: this.username, to: message.to, message: message.body });
+    const senderId = message.senderId ?? this.defaultSenderId;
+    if (senderId) form.set('from', senderId);
+
+    const response = await fetch(`${this.baseUrl}/version1/messaging`, {
+      method: 'POST',
+      headers: {
+        'apiKey': this.apiKey,
+        'Accept': 'application/json',
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: form.toString(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Africa's Talking error ${response.status}: ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    const recipient = data?.SMSMessageData?.Recipients?.[0];
+    if (!recipient) {
+      // No recipients means the whole request was refused, e.g. an unknown sender ID
+      return { providerMessageId: null, status: 'rejected', failureReason: data?.SMSMessageData?.Message ?? 'No recipients' };
+    }
+
+    // 100 Processed, 101 Sent, 102 Queued; anything else was refused
+    const accepted = [100, 101, 102].includes(Number(recipient.statusCode));
+    return {
+      providerMessageId: recipient.messageId && recipient.messageId !== 'None' ? recipient.messageId : null,
+      status: accepted ? 'sent' : 'rejected',
+      failureReason: accepted ? undefined : recipient.status,
+      optedOut: recipient.status === 'UserInBlacklist',
+      ...parseCost(recipient.cost),
+    };
+  }
+
+  parseDeliveryReport(form: URLSearchParams): SmsDeliveryReport | null {
+    const id = form.get('id');
+    const status = form.get('status');
+    if (!id || !status) return null;
+
+    const failureReason = form.get('failureReason');
+    switch (status) {
+      case 'Success':
+        return { providerMessageId: id, status: 'delivered' };
+      case 'Failed':
+        return { providerMessageId: id, status: 'failed', failureReason, optedOut: failureReason === 'UserInBlackList' };
+      case 'Rejected':
+        return { providerMessageId: id, status: 'rejected', failureReason, optedOut: failureReason === 'UserInBlackList' };
+      default:
+        // Sent, Submitted and Buffered: still on its way
+        return null;
+    }
+  }
+
+  parseOptOut(form: URLSearchParams): string | null {
+    // Bulk SMS opt-out notifications carry only the number; inbound texts carry the reply
+    if (form.has('text')) {
+      return isStopKeyword(form.get('text')) ? form.get('from') : null;
+    }
+    return form.get('phoneNumber');
+  }
+}
+
+export class TwilioProvider implements SmsProvider {
+  name = 'twilio';
+
+  constructor(
+    private accountSid: string,
+    private authToken: string,
+    private fromNumber: string
+  ) {}
+
+  async send(message: OutgoingSms): Promise<SmsSendResult> {
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        To: message.to,
+        // Alphanumeric sender IDs work where the destination country allows them
+        From: message.senderId ?? this.fromNumber,
+        Body: message.body,
+        StatusCallback: callbackUrl(this.name, 'delivery'),
+      }).toString(),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      // 21610: the recipient replied STOP to our number
+      if (data.code === 21610) {
+        return { providerMessageId: null, status: 'rejected', failureReason: data.message, optedOut: true };
+      }
+      if (response.status === 400) {
+        return { providerMessageId: null, status: 'rejected', failureReason: data.message };
+      }
+      throw new Error(data.message || `Twilio error ${response.status}`);
+    }
+
+    return { providerMessageId: data.sid, status: 'sent' };
+  }
+
+  parseDeliveryReport(form: URLSearchParams): SmsDeliveryReport | null {
+    const id = form.get('MessageSid');
+    const status = form.get('MessageStatus');
+    if (!id || !status) return null;
+
+    const errorCode = form.get('ErrorCode');
+    switch (status) {
+      case 'delivered':
+        return { providerMessageId: id, status: 'delivered' };
+      case 'undelivered':
+      case 'failed':
+        return {
+          providerMessageId: id,
+          status: 'failed',
+          failureReason: errorCode ? `Twilio error ${errorCode}` : status,
+          optedOut: errorCode === '21610',
+        };
+      default:
+        return null;
+    }
+  }
+
+  parseOptOut(form: URLSearchParams): string | null {
+    return isStopKeyword(form.get('Body')) ? form.get('From') : null;
+  }
+}
+
+export class FakeSmsProvider implements SmsProvider {
+  name = 'fake';
+  sent: OutgoingSms[] = [];
+
+  send(message: OutgoingSms): Promise<SmsSendResult> {
+    this.sent.push(message);
+    console.log(`[fake sms] to ${message.to} from ${message.senderId ?? 'default'}: ${message.body}`);
+    return Promise.resolve({ providerMessageId: `fake-${crypto.randomUUID()}`, status: 'sent' });
+  }
+
+  parseDeliveryReport(form: URLSearchParams): SmsDeliveryReport | null {
+    const id = form.get('id');
+    const status = form.get('status');
+    return id && (status === 'delivered' || status === 'failed') ? { providerMessageId: id, status } : null;
+  }
+
+  parseOptOut(form: URLSearchParams): string | null {
+    return form.get('phone');
+  }
+}
+
+/** The SMS provider named, or the one configured for this environment. */
+export function createSmsProvider(kind: string = Deno.env.get('SMS_PROVIDER') ?? 'twilio'): SmsProvider {
+  switch (kind) {
+    case 'africastalking': {
+      const username = Deno.env.get('AT_USERNAME');
+      const apiKey = Deno.env.get('AT_API_KEY');
+      if (!username || !apiKey) throw new Error("Missing Africa's Talking configuration");
+      return new AfricasTalkingProvider(username, apiKey, Deno.env.get('AT_SENDER_ID') || undefined);
+    }
+    case 'twilio': {
+      const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
+      const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+      const fromNumber = Deno.env.get('TWILIO_PHONE_NUMBER');
+      if (!accountSid || !authToken || !fromNumber) throw new Error('Missing Twilio configuration');
+      return new TwilioProvider(accountSid, authToken, fromNumber);
+    }
+    case 'fake':
+      return new FakeSmsProvider();
+    default:
+      throw new Error(`Unknown SMS provider "${kind}"`);
+  }
+}
+
+// Template values come back from jsonb; nested objects and booleans are dropped
+function messageValues(values: Record<string, unknown>): MessageValues {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value === null || ['string', 'number'].includes(typeof value))
+  ) as MessageValues;
+}
+
+/**
+ * Renders and sends one claimed text, recording the outcome. Texts that could
+ * not reach the provider go back on the queue until they run out of attempts.
+ */
+async function deliver(supabase: SupabaseClient, provider: SmsProvider, message: SmsMessage): Promise<SmsStatus> {
+  const language = message.language
+    ?? (message.user_id ? await getPreferredLanguage(supabase, message.user_id) : 'en');
+  const body = translate(language, `sms.${message.template}`, messageValues(message.template_values ?? {}));
+  const segments = countSegments(body);
+
+  let update: Record<string, unknown>;
+  try {
+    const result = await provider.send({ to: message.phone, body, senderId: message.sender_id });
+    const flatCost = Number(Deno.env.get('SMS_COST_PER_SEGMENT') ?? 0);
+    const cost = result.cost ?? (result.status === 'sent' && flatCost > 0 ? flatCost * segments : null);
+
+    update = {
+      status: result.status,
+      provider: provider.name,
+      provider_message_id: result.providerMessageId,
+      failure_reason: result.failureReason ?? null,
+      cost,
+      cost_currency: cost === null ? null : result.costCurrency ?? Deno.env.get('SMS_COST_CURRENCY') ?? 'KES',
+      sent_at: result.status === 'sent' ? new Date().toISOString() : null,
+    };
+
+    if (result.optedOut) {
+      await supabase.rpc('record_sms_opt_out', { p_phone: message.phone, p_source: 'provider' });
+    }
+  } catch (error) {
+    console.error(`SMS ${message.id} could not be sent:`, error);
+    update = {
+      status: message.attempts >= MAX_ATTEMPTS ? 'failed' : 'queued',
+      provider: provider.name,
+      failure_reason: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const { error } = await supabase
+    .from('sms_messages')
+    .update({ ...update, language, body, segments, updated_at: new Date().toISOString() })
+    .eq('id', message.id);
+  if (error) console.error(`Failed to record SMS ${message.id}:`, error);
+
+  return update.status as SmsStatus;
+}
+
+/** Queues a text for the next dispatch run; null when it is not to be sent (opted out, SMS off). */
+export async function queueSms(supabase: SupabaseClient, request: SmsRequest): Promise<string | null> {
+  const { data, error } = await supabase.rpc('queue_sms', {
+    p_category: request.category,
+    p_template: request.template,
+    p_values: request.values ?? {},
+    p_user_id: request.userId ?? null,
+    p_phone: request.phone ?? null,
+    p_chama_id: request.chamaId ?? null,
+    p_language: request.language ?? null,
+    p_source_type: request.sourceType ?? null,
+    p_source_id: request.sourceId ?? null,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Queues a text and sends it now. Returns the sms_messages id, or null when
+ * the text was not to be sent. Needs a service-role client.
+ */
+export async function sendSms(supabase: SupabaseClient, request: SmsRequest): Promise<string | null> {
+  const id = await queueSms(supabase, request);
+  if (!id) return null;
+
+  // Claim it before the dispatch job does
+  const { data: message, error } = await supabase
+    .from('sms_messages')
+    .update({ status: 'sending', attempts: 1, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'queued')
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!message) return id;
+
+  const status = await deliver(supabase, createSmsProvider(), message as SmsMessage);
+  if (status === 'failed' || status === 'rejected') {
+    throw new Error('Failed to send SMS');
+  }
+
+  return id;
+}
+
+/** Sends queued texts; used by the sms-dispatch job. */
+export async function dispatchQueuedSms(supabase: SupabaseClient, limit = 50): Promise<Record<SmsStatus, number>> {
+  const { data: messages, error } = await supabase.rpc('claim_queued_sms', { p_limit: limit });
+  if (error) throw error;
+
+  const counts: Record<SmsStatus, number> = { queued: 0, sending: 0, sent: 0, delivered: 0, failed: 0, rejected: 0 };
+  if (!messages?.length) return counts;
+
+  const provider = createSmsProvider();
+  for (const message of messages as SmsMessage[]) {
+    counts[await deliver(supabase, provider, message)]++;
+  }
+
+  return counts;
+}
@@ -0,0 +1,252 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'https://esm.sh/pdf-lib@1.17.1'
+
+export interface StatementColumn {
+  header: string;
+  // Relative width; columns share the printable width in proportion
+  width?: number;
+  align?: 'left' | 'right';
+}
+
+export interface StatementSection {
+  title: string;
+  columns: StatementColumn[];
+  rows: string[][];
+  // Optional bold closing row, e.g. totals or closing balance
+  footer?: string[];
+}
+
+export interface Signatory {
+  label: string;
+  name: string | null;
+}
+
+/**
+ * A report as data, so the same statement renders identically to CSV and
+ * PDF. generate-report builds these; the renderers below only lay them out.
+ */
+export interface StatementDocument {
+  chamaName: string;
+  title: string;
+  subtitle?: string;
+  periodFrom: string;
+  periodTo: string;
+  generatedAt: string;
+  summary: [string, string][];
+  sections: StatementSection[];
+  signatories: Signatory[];
+}
+
+// Amounts are shown in the chama's own currency code, e.g. "UGX 1,500.00"
+export function formatMoney(amount: number | null | undefined, currency: string): string {
+  return `${currency} ${Number(amount ?? 0).toLocaleString('en-KE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function csvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function csvLine(values: string[]): string {
+  return values.map(csvCell).join(',');
+}
+
+export function renderStatementCsv(doc: StatementDocument): string {
+  const lines: string[] = [
+    csvLine([doc.chamaName]),
+    csvLine([doc.title]),
+    ...(doc.subtitle ? [csvLine([doc.subtitle])] : []),
+    csvLine(['Period', `${doc.periodFrom} to ${doc.periodTo}`]),
+    csvLine(['Generated', doc.generatedAt]),
+    '',
+    ...doc.summary.map(([label, value]) => csvLine([label, value])),
+  ];
+
+  for (const section of doc.sections) {
+    lines.push('', csvLine([section.title]), csvLine(section.columns.map((c) => c.header)));
+    section.rows.forEach((row) => lines.push(csvLine(row)));
+    if (section.footer) lines.push(csvLine(section.footer));
+  }
+
+  if (doc.signatories.length > 0) {
+    lines.push('', csvLine(['Signatory', 'Name', 'Signature', 'Date']));
+    doc.signatories.forEach((s) => lines.push(csvLine([s.label, s.name ?? '', '', ''])));
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BRAND = rgb(0.09, 0.4, 0.3);
+const MUTED = rgb(0.4, 0.4, 0.4);
+
+// The standard PDF fonts only cover WinAnsi, so anything else is replaced
+function printable(text: string): string {
+  return text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+}
+
+function fitText(font: PDFFont, text: string, size: number, maxWidth: number): string {
+  let value = printable(text);
+  if (font.widthOfTextAtSize(value, size) <= maxWidth) return value;
+  while (value.length > 1 && font.widthOfTextAtSize(value + '...', size) > maxWidth) {
+    value = value.slice(0, -1);
+  }
+  return value + '...';
+}
+
+class PdfWriter {
+  private page!: PDFPage;
+  private y = 0;
+
+  constructor(
+    private pdf: PDFDocument,
+    private font: PDFFont,
+    private bold: PDFFont,
+    private doc: StatementDocument,
+  ) {
+    this.addPage();
+  }
+
+  addPage() {
+    this.page = this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+
+    // Branded header on every page
+    this.page.drawRectangle({ x: 0, y: PAGE_HEIGHT - 8, width: PAGE_WIDTH, height: 8, color: BRAND });
+    this.text(this.doc.chamaName, MARGIN, 16, this.bold, BRAND);
+    this.y -= 20;
+    this.text(this.doc.title, MARGIN, 12, this.bold);
+    this.y -= 15;
+    if (this.doc.subtitle) {
+      this.text(this.doc.subtitle, MARGIN, 10, this.font);
+      this.y -= 13;
+    }
+    this.text(`Period: ${this.doc.periodFrom} to ${this.doc.periodTo}    Generated: ${this.doc.generatedAt}`, MARGIN, 8, this.font, MUTED);
+    this.y -= 8;
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 0.75,
+      color: BRAND,
+    });
+    this.y -= 16;
+  }
+
+  ensureSpace(height: number): boolean {
+    if (this.y - height < MARGIN + 20) {
+      this.addPage();
+      return true;
+    }
+    return false;
+  }
+
+  text(value: string, x: number, size: number, font: PDFFont, color = rgb(0, 0, 0)) {
+    this.page.drawText(printable(value), { x, y: this.y - size, size, font, color });
+  }
+
+  summary(items: [string, string][]) {
+    for (const [label, value] of items) {
+      this.ensureSpace(14);
+      this.text(label, MARGIN, 9, this.font, MUTED);
+      this.text(value, MARGIN + 220, 9, this.bold);
+      this.y -= 14;
+    }
+    this.y -= 8;
+  }
+
+  table(section: StatementSection) {
+    const weights = section.columns.map((c) => c.width ?? 1);
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    const widths = weights.map((w) => (w / totalWeight) * CONTENT_WIDTH);
+    const rowHeight = 14;
+
+    const drawRow = (cells: string[], font: PDFFont, fill?: ReturnType<typeof rgb>) => {
+      if (fill) {
+        this.page.drawRectangle({ x: MARGIN, y: this.y - rowHeight, width: CONTENT_WIDTH, height: rowHeight, color: fill });
+      }
+      let x = MARGIN;
+      cells.forEach((cell, i) => {
+        const width = widths[i] ?? 0;
+        const value = fitText(font, cell ?? '', 8, width - 6);
+        const textX = section.columns[i]?.align === 'right'
+          ? x + width - 3 - font.widthOfTextAtSize(value, 8)
+          : x + 3;
+        this.page.drawText(value, { x: textX, y: this.y - 10, size: 8, font });
+        x += width;
+      });
+      this.y -= rowHeight;
+    };
+
+    const drawHeader = () => drawRow(section.columns.map((c) => c.header), this.bold, rgb(0.9, 0.94, 0.92));
+
+    this.ensureSpace(40);
+    this.text(section.title, MARGIN, 11, this.bold, BRAND);
+    this.y -= 16;
+    drawHeader();
+
+    if (section.rows.length === 0) {
+      drawRow(['No records for this period'], this.font);
+    }
+
+    section.rows.forEach((row, index) => {
+      if (this.ensureSpace(rowHeight)) drawHeader();
+      drawRow(row, this.font, index % 2 === 1 ? rgb(0.97, 0.97, 0.97) : undefined);
+    });
+
+    if (section.footer) {
+      if (this.ensureSpace(rowHeight)) drawHeader();
+      drawRow(section.footer, this.bold, rgb(0.9, 0.94, 0.92));
+    }
+
+    this.y -= 14;
+  }
+
+  signatures(signatories: Signatory[]) {
+    if (signatories.length === 0) return;
+    this.ensureSpace(30 + signatories.length * 42);
+    this.y -= 10;
+    for (const signatory of signatories) {
+      this.text(`${signatory.label}: ${signatory.name ?? '______________________________'}`, MARGIN, 9, this.bold);
+      this.y -= 22;
+      this.text('Signature: ______________________________      Date: __________________', MARGIN, 9, this.font);
+      this.y -= 20;
+    }
+  }
+
+  footers() {
+    const pages = this.pdf.getPages();
+    pages.forEach((page, index) => {
+      const label = `${printable(this.doc.chamaName)} - ${printable(this.doc.title)}    Page ${index + 1} of ${pages.length}`;
+      page.drawText(label, { x: MARGIN, y: MARGIN - 10, size: 7, font: this.font, color: MUTED });
+    });
+  }
+}
+
+export async function renderStatementPdf(doc: StatementDocument): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`${doc.chamaName} - ${doc.title}`);
+
+  const writer = new PdfWriter(
+    pdf,
+    await pdf.embedFont(StandardFonts.Helvetica),
+    await pdf.embedFont(StandardFonts.HelveticaBold),
+    doc,
+  );
+
+  writer.summary(doc.summary);
+  doc.sections.forEach((section) => writer.table(section));
+  writer.signatures(doc.signatories);
+  writer.footers();
+
+  return await pdf.save();
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,213 @@
+// The USSD menu as a state machine: which screen a member is on after a
+// given list of inputs, and the text of that screen. Nothing here touches
+// the database or the network; ussd-callback loads the member's summary,
+// asks for the current screen and carries out contributions and ballots.
+
+import { translate } from './i18n.ts'
+
+// Screens have to fit in 182 characters, so long lists are cut short
+const MAX_LIST_ITEMS = 5;
+const MAX_LABEL_LENGTH = 24;
+
+export interface Chama {
+  chama_id: string;
+  name: string;
+  currency: string;
+  savings: number;
+  chama_balance: number;
+  contribution_amount: number | null;
+}
+
+export interface Loan {
+  // Chama loans carry the chama's name, personal loans none
+  name: string | null;
+  currency: string;
+  outstanding: number;
+  overdue: number;
+  next_due: string | null;
+}
+
+export interface Vote {
+  id: string;
+  title: string;
+  chama: string;
+  ballot_type: 'yes_no' | 'multiple_choice';
+  options: string[] | null;
+}
+
+export interface MemberSummary {
+  wallet: { balance: number; currency: string };
+  chamas: Chama[];
+  loans: Loan[];
+  votes: Vote[];
+}
+
+export type Screen =
+  | { kind: 'main' }
+  | { kind: 'balances' }
+  | { kind: 'loans' }
+  | { kind: 'choose_chama' }
+  | { kind: 'enter_amount'; chama: Chama }
+  | { kind: 'confirm_contribution'; chama: Chama; amount: number }
+  | { kind: 'contribute'; chama: Chama; amount: number }
+  | { kind: 'choose_vote' }
+  | { kind: 'choose_option'; vote: Vote }
+  | { kind: 'cast_vote'; vote: Vote; optionIndex: number }
+  | { kind: 'exit' };
+
+// Plain dots: many feature phones only show the GSM character set
+const truncate = (label: string) =>
+  label.length > MAX_LABEL_LENGTH ? `${label.slice(0, MAX_LABEL_LENGTH - 2)}..` : label;
+
+const numbered = (labels: string[]) =>
+  labels.slice(0, MAX_LIST_ITEMS).map((label, i) => `${i + 1}. ${truncate(label)}`).join('\n');
+
+// The list entry a numeric input picks, or null
+function pick<T>(items: T[], input: string): T | null {
+  if (!/^\d+$/.test(input)) return null;
+  const index = Number(input) - 1;
+  return index >= 0 && index < Math.min(items.length, MAX_LIST_ITEMS) ? items[index] : null;
+}
+
+const voteOptions = (vote: Vote, language: string | null) =>
+  vote.options && vote.options.length > 0
+    ? vote.options
+    : [translate(language, 'ussd.yes'), translate(language, 'ussd.no')];
+
+// The screen an input leads to from the current one, or null if it is not a valid choice
+function nextScreen(screen: Screen, input: string, summary: MemberSummary, language: string | null): Screen | null {
+  switch (screen.kind) {
+    case 'main':
+      return ({
+        '1': { kind: 'balances' },
+        '2': { kind: 'choose_chama' },
+        '3': { kind: 'loans' },
+        '4': { kind: 'choose_vote' },
+      } as Record<string, Screen>)[input] ?? null;
+
+    case 'choose_chama': {
+      const chama = pick(summary.chamas, input);
+      return chama ? { kind: 'enter_amount', chama } : null;
+    }
+
+    case 'enter_amount': {
+      const amount = Number(input);
+      return /^\d+(\.\d{1,2})?$/.test(input) && amount > 0
+        ? { kind: 'confirm_contribution', chama: screen.chama, amount }
+        : null;
+    }
+
+    case 'confirm_contribution':
+      return input === '1' ? { kind: 'contribute', chama: screen.chama, amount: screen.amount } : null;
+
+    case 'choose_vote': {
+      const vote = pick(summary.votes, input);
+      return vote ? { kind: 'choose_option', vote } : null;
+    }
+
+    case 'choose_option': {
+      const option = pick(voteOptions(screen.vote, language), input);
+      return option !== null
+        ? { kind: 'cast_vote', vote: screen.vote, optionIndex: Number(input) - 1 }
+        : null;
+    }
+
+    default:
+      // Balances and loans only offer navigation
+      return null;
+  }
+}
+
+/**
+ * Replays the inputs after the PIN to find the current screen. "0" goes back
+ * one screen (or exits from the main menu), "00" returns to the main menu and
+ * an invalid choice leaves the screen as it was.
+ */
+export function currentScreen(inputs: string[], summary: MemberSummary, language: string | null) {
+  const stack: Screen[] = [{ kind: 'main' }];
+  let invalid = false;
+
+  for (const input of inputs) {
+    invalid = false;
+    if (input === '00') {
+      stack.splice(1);
+    } else if (input === '0') {
+      if (stack.length === 1) return { screen: { kind: 'exit' } as Screen, invalid };
+      stack.pop();
+    } else {
+      const next = nextScreen(stack[stack.length - 1], input, summary, language);
+      if (next) {
+        stack.push(next);
+      } else {
+        invalid = true;
+      }
+    }
+  }
+
+  return { screen: stack[stack.length - 1], invalid };
+}
+
+export function renderScreen(screen: Screen, summary: MemberSummary, language: string | null): string {
+  const t = (key: string, values = {}) => translate(language, key, values);
+  const withNavigation = (text: string) => `${text}\n${t('ussd.navigation')}`;
+
+  switch (screen.kind) {
+    case 'main':
+      return t('ussd.main_menu');
+
+    case 'balances':
+      return withNavigation([
+        t('ussd.wallet_balance', { balance: summary.wallet.balance, currency: summary.wallet.currency }),
+        ...summary.chamas.slice(0, MAX_LIST_ITEMS).map((chama) => t('ussd.chama_balance', {
+          chama: truncate(chama.name),
+          savings: chama.savings,
+          total: chama.chama_balance,
+          currency: chama.currency,
+        })),
+      ].join('\n'));
+
+    case 'loans':
+      return withNavigation(summary.loans.length === 0
+        ? t('ussd.no_loans')
+        : summary.loans.slice(0, MAX_LIST_ITEMS).map((loan) => t('ussd.loan', {
+          name: loan.name ? truncate(loan.name) : t('ussd.personal_loan'),
+          outstanding: loan.outstanding,
+          overdue: loan.overdue,
+          hasOverdue: loan.overdue > 0 ? 'yes' : 'no',
+          nextDue: loan.next_due,
+          hasNextDue: loan.next_due ? 'yes' : 'no',
+          currency: loan.currency,
+        })).join('\n'));
+
+    case 'choose_chama':
+      return withNavigation(summary.chamas.length === 0
+        ? t('ussd.no_chamas')
+        : `${t('ussd.choose_chama')}\n${numbered(summary.chamas.map((chama) => chama.name))}`);
+
+    case 'enter_amount':
+      return withNavigation(t('ussd.enter_amount', {
+        chama: truncate(screen.chama.name),
+        suggested: screen.chama.contribution_amount,
+        hasSuggested: screen.chama.contribution_amount ? 'yes' : 'no',
+        currency: screen.chama.currency,
+      }));
+
+    case 'confirm_contribution':
+      return withNavigation(t('ussd.confirm_contribution', {
+        amount: screen.amount,
+        chama: truncate(screen.chama.name),
+        currency: screen.chama.currency,
+      }));
+
+    case 'choose_vote':
+      return withNavigation(summary.votes.length === 0
+        ? t('ussd.no_votes')
+        : `${t('ussd.choose_vote')}\n${numbered(summary.votes.map((vote) => vote.title))}`);
+
+    case 'choose_option':
+      return withNavigation(`${truncate(screen.vote.title)}\n${numbered(voteOptions(screen.vote, language))}`);
+
+    default:
+      return t('ussd.goodbye');
+  }
+}
@@ -0,0 +1,72 @@
+// Video rooms for virtual and hybrid meetings. The default provider builds
+// Jitsi Meet room links, which need no account or API call: a room exists as
+// soon as someone opens its URL, so the name is made unguessable. Other
+// services plug in by implementing VideoLinkProvider; the stub provider
+// returns predictable links for tests.
+//
+// Configuration comes from the function's environment:
+//   VIDEO_PROVIDER    jitsi (default) or stub
+//   JITSI_BASE_URL    self-hosted Jitsi server, e.g. https://meet.example.org
+//                     (defaults to the public https://meet.jit.si)
+
+export interface VideoRoomRequest {
+  chamaId: string;
+  title: string;
+  scheduledAt: string;
+  durationMinutes: number;
+}
+
+export interface VideoLinkProvider {
+  name: string;
+  /** Returns the link members open to join the meeting. */
+  createRoom(request: VideoRoomRequest): Promise<string>;
+}
+
+const DEFAULT_JITSI_URL = 'https://meet.jit.si';
+// Random bytes in each room name; the name is the only thing keeping a room private
+const ROOM_SECRET_BYTES = 12;
+
+const slugify = (text: string) =>
+  text
+    .normalize('NFKD')
+    .replace(/[^A-Za-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40) || 'meeting';
+
+const randomSuffix = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(ROOM_SECRET_BYTES)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+export class JitsiProvider implements VideoLinkProvider {
+  name = 'jitsi';
+
+  constructor(private baseUrl: string = DEFAULT_JITSI_URL) {}
+
+  createRoom(request: VideoRoomRequest): Promise<string> {
+    const room = `${slugify(request.title)}-${randomSuffix()}`;
+    return Promise.resolve(`${this.baseUrl.replace(/\/$/, '')}/${room}`);
+  }
+}
+
+export class StubVideoProvider implements VideoLinkProvider {
+  name = 'stub';
+  requests: VideoRoomRequest[] = [];
+
+  createRoom(request: VideoRoomRequest): Promise<string> {
+    this.requests.push(request);
+    return Promise.resolve(`https://video.invalid/${slugify(request.title)}-${this.requests.length}`);
+  }
+}
+
+/** The video provider configured for this environment. */
+export function createVideoLinkProvider(): VideoLinkProvider {
+  const kind = Deno.env.get('VIDEO_PROVIDER') ?? 'jitsi';
+
+  switch (kind) {
+    case 'jitsi':
+      return new JitsiProvider(Deno.env.get('JITSI_BASE_URL') ?? DEFAULT_JITSI_URL);
+    case 'stub':
+      return new StubVideoProvider();
+    default:
+      throw new Error(`Unknown video provider "${kind}"`);
+  }
+}
@@ -0,0 +1,191 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Header the reprocess-webhook-event function uses to resend a stored event
+export const REPROCESS_HEADER = 'x-webhook-reprocess';
+
+// An event still 'received' after this long was never finished, because the
+// attempt handling it died, so a retry of it is processed again
+const STALE_RECEIVED_MINUTES = 5;
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export function clientIp(req: Request): string | null {
+  return req.headers.get('x-forwarded-for')?.split(',')[0].trim() || req.headers.get('x-real-ip');
+}
+
+/**
+ * Paystack signs the raw request body with HMAC-SHA512 using the secret key
+ * and sends the hex digest in x-paystack-signature.
+ */
+export async function verifyPaystackSignature(req: Request, rawBody: string): Promise<boolean> {
+  const secretKey = Deno.env.get('PAYSTACK_SECRET_KEY');
+  const signature = req.headers.get('x-paystack-signature');
+  if (!secretKey || !signature) return false;
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secretKey),
+    { name: 'HMAC', hash: 'SHA-512' },
+    false,
+    ['sign'],
+  );
+  const digest = toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(rawBody)));
+  return timingSafeEqual(digest, signature.toLowerCase());
+}
+
+/**
+ * Safaricom and Africa's Talking do not sign callbacks, so they are
+ * authenticated with a shared secret carried in the callback URL
+ * (?token=...) and, when configured, a comma-separated IP allowlist.
+ */
+export function verifyCallbackToken(req: Request, tokenEnv: string, allowlistEnv: string): boolean {
+  const expectedToken = Deno.env.get(tokenEnv);
+  const token = new URL(req.url).searchParams.get('token') ?? req.headers.get('x-callback-token');
+  if (!expectedToken || !token || !timingSafeEqual(token, expectedToken)) {
+    return false;
+  }
+
+  const allowlist = (Deno.env.get(allowlistEnv) ?? '')
+    .split(',')
+    .map((ip) => ip.trim())
+    .filter(Boolean);
+  if (allowlist.length === 0) return true;
+
+  const ip = clientIp(req);
+  return !!ip && allowlist.includes(ip);
+}
+
+/**
+ * True when the request is an admin re-processing a stored event through
+ * reprocess-webhook-event, which authenticates with the service role key.
+ */
+export function isReprocessRequest(req: Request): boolean {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  const header = req.headers.get(REPROCESS_HEADER);
+  return !!serviceKey && !!header && timingSafeEqual(header, serviceKey);
+}
+
+interface WebhookEventInput {
+  provider: string;
+  eventId: string | null;
+  eventType: string | null;
+  rawBody: string;
+  signatureValid: boolean;
+}
+
+export interface LoggedWebhookEvent {
+  id: string | null;
+  duplicate: boolean;
+}
+
+/**
+ * Stores the raw event before it is processed. Events that failed
+ * verification are logged as rejected; an event ID that was already accepted
+ * is logged as a duplicate and reported back so the caller can skip it,
+ * unless its earlier attempt went stale without finishing, in which case the
+ * retry takes over that row. Re-processed events reuse their original log row.
+ */
+export async function logWebhookEvent(
+  supabase: SupabaseClient,
+  req: Request,
+  event: WebhookEventInput,
+): Promise<LoggedWebhookEvent> {
+  const reprocessId = isReprocessRequest(req) ? req.headers.get('x-webhook-event-id') : null;
+  if (reprocessId) {
+    return { id: reprocessId, duplicate: false };
+  }
+
+  const headers: Record<string, string> = {};
+  req.headers.forEach((value, key) => {
+    if (key !== 'authorization' && key !== 'apikey' && key !== REPROCESS_HEADER) {
+      headers[key] = value;
+    }
+  });
+
+  const row = {
+    provider: event.provider,
+    event_id: event.eventId,
+    event_type: event.eventType,
+    raw_body: event.rawBody,
+    headers,
+    source_ip: clientIp(req),
+    signature_valid: event.signatureValid,
+    status: event.signatureValid ? 'received' : 'rejected',
+  };
+
+  const { data, error } = await supabase
+    .from('webhook_events')
+    .insert(row)
+    .select('id')
+    .single();
+
+  if (!error) {
+    return { id: data.id, duplicate: false };
+  }
+
+  if (error.code === '23505') {
+    // Only one retry can move received_at forward, so only one takes over
+    const staleBefore = new Date(Date.now() - STALE_RECEIVED_MINUTES * 60 * 1000).toISOString();
+    const { data: stale } = await supabase
+      .from('webhook_events')
+      .update({ received_at: new Date().toISOString(), headers, source_ip: row.source_ip })
+      .eq('provider', event.provider)
+      .eq('event_id', event.eventId)
+      .eq('status', 'received')
+      .lt('received_at', staleBefore)
+      .select('id')
+      .maybeSingle();
+
+    if (stale) {
+      console.warn('Retrying webhook event left unfinished:', event.provider, event.eventId);
+      return { id: stale.id, duplicate: false };
+    }
+
+    await supabase
+      .from('webhook_events')
+      .insert({ ...row, status: 'duplicate' });
+    return { id: null, duplicate: true };
+  }
+
+  // Logging must never stop a verified payment from being processed
+  console.error('Error logging webhook event:', error);
+  return { id: null, duplicate: false };
+}
+
+export async function finishWebhookEvent(
+  supabase: SupabaseClient,
+  eventId: string | null,
+  error?: unknown,
+) {
+  if (!eventId) return;
+
+  const { error: updateError } = await supabase
+    .from('webhook_events')
+    .update({
+      status: error ? 'failed' : 'processed',
+      error: error ? (error instanceof Error ? error.message : String(error)) : null,
+      processed_at: new Date().toISOString(),
+    })
+    .eq('id', eventId);
+
+  if (updateError) {
+    console.error('Error updating webhook event:', updateError);
+  }
+}
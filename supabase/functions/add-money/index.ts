@@ -1,12 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { withIdempotency } from '../_shared/idempotency.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, idempotency-key',
 }
 
-serve(async (req) => {
+serve(withIdempotency('add-money', async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -60,6 +61,16 @@ serve(async (req) => {
       );
     }
 
+    if (userId !== user.id) {
+      return new Response(
+        JSON.stringify({ error: 'You can only add money to your own wallet' }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
     // Simulate payment processing based on method
     let paymentReference = '';
     let status = 'completed';
@@ -76,13 +87,13 @@ serve(async (req) => {
           );
         }
         // Simulate M-Pesa transaction
-        paymentReference = `MP${Date.now()}${Math.floor(Math.random() * 1000)}`;
+        paymentReference = `MP-${crypto.randomUUID()}`;
         break;
       case 'card':
-        paymentReference = `CARD${Date.now()}${Math.floor(Math.random() * 1000)}`;
+        paymentReference = `CARD-${crypto.randomUUID()}`;
         break;
       case 'bank':
-        paymentReference = `BANK${Date.now()}${Math.floor(Math.random() * 1000)}`;
+        paymentReference = `BANK-${crypto.randomUUID()}`;
         break;
       default:
         return new Response(
@@ -133,15 +144,24 @@ serve(async (req) => {
       wallet = newWallet;
     }
 
-    // Update wallet balance
+    // Credit the wallet through the ledger
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    )
+
     const newBalance = wallet.balance + amount;
-    const { error: updateError } = await supabaseClient
-      .from('user_central_wallets')
-      .update({ 
-        balance: newBalance,
-        updated_at: new Date().toISOString()
-      })
-      .eq('user_id', userId);
+    const { error: updateError } = await supabaseAdmin.rpc('post_ledger_transaction', {
+      p_transaction_type: 'user_deposit',
+      p_debit_account_type: 'external',
+      p_debit_account_id: null,
+      p_credit_account_type: 'user_central_wallet',
+      p_credit_account_id: wallet.id,
+      p_amount: amount,
+      p_reference: paymentReference,
+      p_description: `Add money via ${paymentMethod}`,
+      p_metadata: { payment_method: paymentMethod, user_id: userId }
+    });
 
     if (updateError) {
       console.error('Wallet update error:', updateError);
@@ -198,4 +218,4 @@ serve(async (req) => {
       }
     );
   }
-});
\ No newline at end of file
+}));
\ No newline at end of file
@@ -1,12 +1,64 @@
-import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.4";
+import { ChatMessage, createLlmProvider, LlmCompletion, LlmError, LlmProvider } from '../_shared/llm.ts';
+
+type SupabaseClient = ReturnType<typeof createClient>;
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Per-member limits; each environment can tune them
+const readLimit = (key: string, fallback: number) => {
+  const value = Number.parseInt(Deno.env.get(key) ?? '', 10);
+  return Number.isFinite(value) ? value : fallback;
+};
+const REQUESTS_PER_MINUTE = readLimit('AI_REQUESTS_PER_MINUTE', 10);
+const DAILY_TOKEN_LIMIT = readLimit('AI_DAILY_TOKEN_LIMIT', 50000);
+
+type UsagePurpose = 'chat' | 'recommendations';
+
+async function logUsage(
+  supabase: SupabaseClient,
+  userId: string,
+  purpose: UsagePurpose,
+  provider: LlmProvider,
+  startedAt: number,
+  result: { completion: LlmCompletion } | { error: unknown }
+) {
+  const row = 'completion' in result
+    ? {
+        provider: result.completion.provider,
+        model: result.completion.model,
+        prompt_tokens: result.completion.usage.promptTokens,
+        completion_tokens: result.completion.usage.completionTokens,
+        tokens_reported: result.completion.usage.reported,
+        cost_usd: result.completion.costUsd,
+        status: 'success',
+      }
+    : {
+        provider: provider.name,
+        model: provider.model,
+        status: 'error',
+        error_message: result.error instanceof Error ? result.error.message : String(result.error),
+      };
+
+  const { error } = await supabase
+    .from('ai_usage_logs')
+    .insert({ user_id: userId, purpose, latency_ms: Date.now() - startedAt, ...row });
+
+  if (error) {
+    console.error('Failed to log AI usage:', error);
+  }
+}
+
+const jsonResponse = (body: unknown, status = 200, extraHeaders: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', ...extraHeaders },
+  });
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -14,25 +66,52 @@ serve(async (req) => {
   }
 
   try {
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
-    if (!lovableApiKey) {
-      console.error('LOVABLE_API_KEY is not set');
-      throw new Error('Lovable AI key is not configured');
-    }
-
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    
+
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    const { message, userId, contextData } = await req.json();
+    // The caller is taken from the JWT, not from the request body
+    const authHeader = req.headers.get('Authorization');
+    const { data: { user } } = await supabase.auth.getUser(authHeader?.replace('Bearer ', '') ?? '');
+    if (!user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+    const userId = user.id;
+
+    // action 'recommendations' asks for fresh suggestions instead of a chat answer
+    const { action = 'chat', message, contextData, stream = false } = await req.json();
+
+    if (action !== 'chat' && action !== 'recommendations') {
+      return jsonResponse({ error: 'Unknown action', details: `Unsupported action: ${action}` }, 400);
+    }
 
-    if (!message || !userId) {
-      throw new Error('Message and userId are required');
+    if (action === 'chat' && !message) {
+      return jsonResponse({ error: 'Message is required', details: 'Message is required' }, 400);
     }
 
-    console.log(`Processing AI chat request for user: ${userId}`);
-    console.log(`Message: ${message}`);
+    console.log(`Processing AI ${action} request for user: ${userId}`);
+
+    const { data: allowance, error: limitError } = await supabase.rpc('check_ai_usage_limit', {
+      p_user_id: userId,
+      p_requests_per_minute: REQUESTS_PER_MINUTE,
+      p_daily_token_limit: DAILY_TOKEN_LIMIT,
+    });
+
+    if (limitError) {
+      console.error('AI usage limit check failed:', limitError);
+      throw new Error('Failed to check AI usage limits');
+    }
+
+    if (!allowance.allowed) {
+      return jsonResponse(
+        { error: 'Rate limit exceeded', details: allowance.reason, retryAfterSeconds: allowance.retry_after_seconds },
+        429,
+        { 'Retry-After': String(allowance.retry_after_seconds) }
+      );
+    }
+
+    const provider = createLlmProvider();
 
     // Get user's financial profile for context
     const { data: profile } = await supabase
@@ -67,7 +146,12 @@ serve(async (req) => {
       riskTolerance: profile?.risk_tolerance || 'medium'
     };
 
-    const systemPrompt = `You are a helpful AI financial advisor for ChamaVault, a Kenyan fintech platform. 
+    if (action === 'recommendations') {
+      const recommendations = await generateRecommendations(supabase, provider, userId, financialContext);
+      return jsonResponse({ recommendations });
+    }
+
+    const systemPrompt = `You are a helpful AI financial advisor for ChamaVault, a Kenyan fintech platform.
 
 User Context:
 - Monthly Income: ${financialContext.monthlyIncome ? `KES ${financialContext.monthlyIncome}` : 'Not provided'}
@@ -88,124 +172,179 @@ Provide helpful, practical financial advice in simple language. Focus on:
 
 Keep responses concise, actionable, and encouraging. Use Kenyan context and examples.`;
 
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${lovableApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: message }
-        ],
-      }),
-    });
+    const messages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: message }
+    ];
 
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error('Lovable AI error:', response.status, errorData);
-      if (response.status === 429) {
-        throw new Error('Rate limit exceeded. Please try again later.');
-      }
-      if (response.status === 402) {
-        throw new Error('Payment required. Please add credits to your Lovable AI workspace.');
-      }
-      throw new Error('Failed to get AI response');
+    // Runs once the answer is complete, whether it was streamed or not
+    const finishChat = async (aiResponse: string) => {
+      // Save chat history to database
+      await supabase
+        .from('ai_chat_history')
+        .insert([
+          {
+            user_id: userId,
+            message: message,
+            response: aiResponse,
+            message_type: 'user',
+            context_data: contextData
+          },
+          {
+            user_id: userId,
+            message: aiResponse,
+            response: aiResponse,
+            message_type: 'assistant',
+            context_data: financialContext
+          }
+        ]);
+    };
+
+    const startedAt = Date.now();
+
+    if (stream) {
+      return streamChat(supabase, provider, userId, messages, startedAt, financialContext, finishChat);
     }
 
-    const data = await response.json();
-    const aiResponse = data.choices[0].message.content;
-
-    console.log(`AI Response: ${aiResponse}`);
-
-    // Save chat history to database
-    await supabase
-      .from('ai_chat_history')
-      .insert([
-        {
-          user_id: userId,
-          message: message,
-          response: aiResponse,
-          message_type: 'user',
-          context_data: contextData
-        },
-        {
-          user_id: userId,
-          message: aiResponse,
-          response: aiResponse,
-          message_type: 'assistant',
-          context_data: financialContext
-        }
-      ]);
-
-    // Generate AI recommendations based on the conversation
-    const shouldGenerateRecommendations = message.toLowerCase().includes('save') || 
-                                         message.toLowerCase().includes('invest') ||
-                                         message.toLowerCase().includes('budget') ||
-                                         message.toLowerCase().includes('goal');
-
-    if (shouldGenerateRecommendations && financialContext.profile) {
-      const recommendationPrompt = `Based on the user's financial profile and question "${message}", generate 1-2 specific, actionable financial recommendations. Each should be under 100 characters for the title and description.`;
-      
-      const recResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${lovableApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'google/gemini-2.5-flash',
-          messages: [
-            { role: 'system', content: 'You are a financial advisor. Generate specific recommendations in JSON format with title, description, type, and expected_impact fields.' },
-            { role: 'user', content: recommendationPrompt }
-          ],
-        }),
-      });
-
-      if (recResponse.ok) {
-        const recData = await recResponse.json();
-        const recommendations = recData.choices[0].message.content;
-        
-        try {
-          const parsedRecs = JSON.parse(recommendations);
-          if (Array.isArray(parsedRecs)) {
-            for (const rec of parsedRecs) {
-              await supabase
-                .from('ai_recommendations')
-                .insert({
-                  user_id: userId,
-                  type: rec.type || 'savings',
-                  title: rec.title,
-                  description: rec.description,
-                  confidence_score: 0.8,
-                  expected_impact: rec.expected_impact || null,
-                  priority: 'medium'
-                });
-            }
-          }
-        } catch (e) {
-          console.log('Could not parse recommendations as JSON:', e);
-        }
-      }
+    let completion: LlmCompletion;
+    try {
+      completion = await provider.complete(messages);
+    } catch (error) {
+      await logUsage(supabase, userId, 'chat', provider, startedAt, { error });
+      throw error;
     }
+    await logUsage(supabase, userId, 'chat', provider, startedAt, { completion });
+
+    const aiResponse = completion.content;
+    console.log(`AI response from ${completion.provider}/${completion.model}: ${completion.usage.completionTokens} tokens`);
 
-    return new Response(JSON.stringify({ 
+    await finishChat(aiResponse);
+
+    return jsonResponse({
       response: aiResponse,
-      context: financialContext 
-    }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      context: financialContext,
+      usage: completion.usage,
     });
 
   } catch (error) {
     console.error('Error in ai-finance-chat function:', error);
-    return new Response(JSON.stringify({ 
+    return jsonResponse({
       error: 'Failed to process chat request',
       details: error instanceof Error ? error.message : 'Unknown error occurred'
-    }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+    }, error instanceof LlmError ? error.status : 500);
+  }
+});
+
+/**
+ * Sends the answer as server-sent events: {type:'delta', content} for each
+ * piece of text, then {type:'done', response, usage}, or {type:'error'}.
+ * 'done' goes out as soon as the reply ends; the chat is saved after that
+ * and a failure there is only logged, since the member already has the answer.
+ */
+function streamChat(
+  supabase: SupabaseClient,
+  provider: LlmProvider,
+  userId: string,
+  messages: ChatMessage[],
+  startedAt: number,
+  context: unknown,
+  finishChat: (aiResponse: string) => Promise<void>
+) {
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: Record<string, unknown>) =>
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+
+      try {
+        const iterator = provider.stream(messages);
+        let next = await iterator.next();
+        while (!next.done) {
+          send({ type: 'delta', content: next.value });
+          next = await iterator.next();
+        }
+
+        const completion = next.value;
+        send({ type: 'done', response: completion.content, context, usage: completion.usage });
+
+        try {
+          await logUsage(supabase, userId, 'chat', provider, startedAt, { completion });
+          await finishChat(completion.content);
+        } catch (error) {
+          console.error('Failed to save streamed AI chat:', error);
+        }
+      } catch (error) {
+        console.error('Error streaming AI chat:', error);
+        await logUsage(supabase, userId, 'chat', provider, startedAt, { error });
+        send({ type: 'error', error: error instanceof Error ? error.message : 'Failed to process chat request' });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+  });
+}
+
+/**
+ * Asks for 1-2 suggestions from the member's financial profile and stores
+ * them in ai_recommendations. Only runs when the member asks for it, so a
+ * chat message costs a single completion.
+ */
+async function generateRecommendations(
+  supabase: SupabaseClient,
+  provider: LlmProvider,
+  userId: string,
+  financialContext: Record<string, unknown>
+) {
+  const recommendationPrompt = `Based on this financial profile, generate 1-2 specific, actionable financial recommendations. Each should be under 100 characters for the title and description.
+
+${JSON.stringify(financialContext)}`;
+  const startedAt = Date.now();
+
+  let completion: LlmCompletion;
+  try {
+    completion = await provider.complete([
+      { role: 'system', content: 'You are a financial advisor. Generate specific recommendations as a JSON array of objects with title, description, type, and expected_impact fields.' },
+      { role: 'user', content: recommendationPrompt }
+    ]);
+  } catch (error) {
+    await logUsage(supabase, userId, 'recommendations', provider, startedAt, { error });
+    throw error;
   }
-});
\ No newline at end of file
+  await logUsage(supabase, userId, 'recommendations', provider, startedAt, { completion });
+
+  let parsedRecs: unknown;
+  try {
+    parsedRecs = JSON.parse(completion.content);
+  } catch (e) {
+    console.log('Could not parse recommendations as JSON:', e);
+    return [];
+  }
+  if (!Array.isArray(parsedRecs) || parsedRecs.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('ai_recommendations')
+    .insert(parsedRecs.map((rec) => ({
+      user_id: userId,
+      type: rec.type || 'savings',
+      title: rec.title,
+      description: rec.description,
+      confidence_score: 0.8,
+      expected_impact: rec.expected_impact || null,
+      priority: 'medium'
+    })))
+    .select();
+
+  if (error) {
+    console.error('Failed to save AI recommendations:', error);
+    throw new Error('Failed to save recommendations');
+  }
+
+  return data;
+}
@@ -1,24 +1,56 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+import { quoteFee } from '../_shared/fees.ts';
+import { finishWebhookEvent, isReprocessRequest, logWebhookEvent, verifyCallbackToken } from '../_shared/webhooks.ts';
 
 serve(async (req) => {
   console.log('=== Airtel Money Callback Received ===');
   
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
+  // Server-to-server only: no CORS, and nothing but POST
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
   }
 
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  let loggedEventId: string | null = null;
+
   try {
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
+    const rawBody = await req.text();
+    const signatureValid = isReprocessRequest(req) || verifyCallbackToken(req, 'AIRTEL_CALLBACK_TOKEN', 'AIRTEL_CALLBACK_IPS');
+
+    let callbackData;
+    try {
+      callbackData = JSON.parse(rawBody);
+    } catch {
+      callbackData = null;
+    }
+
+    const loggedEvent = await logWebhookEvent(supabase, req, {
+      provider: 'airtel_money',
+      eventId: callbackData?.transactionId ? `${callbackData.transactionId}:${callbackData.status}` : null,
+      eventType: callbackData?.status ?? null,
+      rawBody,
+      signatureValid,
+    });
+    loggedEventId = loggedEvent.id;
+
+    if (!signatureValid) {
+      console.error('Rejected Airtel Money callback with invalid token from', req.headers.get('x-forwarded-for'));
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    if (!callbackData) {
+      await finishWebhookEvent(supabase, loggedEventId, 'Malformed JSON body');
+      return new Response('Invalid payload', { status: 400 });
+    }
+
+    if (loggedEvent.duplicate) {
+      console.log('Replayed callback ignored:', callbackData.transactionId);
+      return new Response('OK', { status: 200 });
+    }
 
-    const callbackData = await req.json();
     console.log('Callback data:', JSON.stringify(callbackData, null, 2));
 
     const {
@@ -40,12 +72,25 @@ serve(async (req) => {
 
     if (txError || !transaction) {
       console.error('Transaction not found:', txError);
-      return new Response('Transaction not found', { status: 404, headers: corsHeaders });
+      await finishWebhookEvent(supabase, loggedEventId, 'Transaction not found');
+      return new Response('Transaction not found', { status: 404 });
+    }
+
+    // A settled transaction is never credited or failed a second time
+    if (transaction.status !== 'pending') {
+      console.log('Transaction already settled:', transactionId, transaction.status);
+      await finishWebhookEvent(supabase, loggedEventId);
+      return new Response('OK', { status: 200 });
     }
 
     if (status === 'Success') {
       const amount = transaction.amount;
-      const platformFee = amount * 0.025; // 2.5% platform fee
+      const { fee: platformFee } = await quoteFee(supabase, {
+        transactionType: 'wallet_topup',
+        amount,
+        userId: transaction.user_id,
+        channel: 'airtel',
+      });
       const netAmount = amount - platformFee;
 
       console.log('Processing successful payment:', {
@@ -81,19 +126,34 @@ serve(async (req) => {
       }
 
       // Credit user wallet
-      const { error: walletUpdateError } = await supabase
-        .from('user_central_wallets')
-        .update({ 
-          balance: centralWallet.balance + netAmount,
-          updated_at: new Date().toISOString()
-        })
-        .eq('user_id', transaction.user_id);
+      const { error: walletUpdateError } = await supabase.rpc('post_ledger_transaction', {
+        p_transaction_type: 'user_deposit',
+        p_debit_account_type: 'external',
+        p_debit_account_id: null,
+        p_credit_account_type: 'user_central_wallet',
+        p_credit_account_id: centralWallet.id,
+        p_amount: netAmount,
+        p_reference: transactionId,
+        p_description: 'Airtel Money deposit',
+        p_metadata: { provider: 'airtel_money', user_id: transaction.user_id }
+      });
 
       if (walletUpdateError) {
         console.error('Error updating central wallet:', walletUpdateError);
         throw walletUpdateError;
       }
 
+      const { error: feeError } = await supabase.rpc('collect_platform_fee', {
+        p_user_id: transaction.user_id,
+        p_fee_type: 'transaction',
+        p_amount: platformFee,
+        p_payment_reference: transactionId
+      });
+
+      if (feeError) {
+        console.error('Error collecting platform fee:', feeError);
+      }
+
       console.log('Wallet updated successfully:', { 
         userId: transaction.user_id, 
         previousBalance: centralWallet.balance,
@@ -162,10 +222,12 @@ serve(async (req) => {
         .eq('checkout_request_id', transactionId);
     }
 
-    return new Response('OK', { status: 200, headers: corsHeaders });
+    await finishWebhookEvent(supabase, loggedEventId);
+    return new Response('OK', { status: 200 });
 
   } catch (error) {
     console.error('Callback error:', error);
-    return new Response('OK', { status: 200, headers: corsHeaders });
+    await finishWebhookEvent(supabase, loggedEventId, error);
+    return new Response('Processing failed', { status: 500 });
   }
 });
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { requestChamaApproval } from '../_shared/approvals.ts';
+import { getPreferredLanguage, translate } from '../_shared/i18n.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -33,7 +35,7 @@ serve(async (req) => {
     // Verify the requesting user is admin or creator
     const { data: adminMember, error: adminError } = await supabaseClient
       .from('chama_members')
-      .select('role')
+      .select('id, role')
       .eq('user_id', user.id)
       .eq('chama_id', chamaId)
       .eq('is_active', true)
@@ -57,6 +59,29 @@ serve(async (req) => {
 
     const oldRole = targetMember.role;
 
+    // Role changes wait for approval when the chama's policy asks for it;
+    // execute_chama_vote_action() applies them once approved
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const approval = await requestChamaApproval(supabaseAdmin, {
+      chamaId,
+      memberId: adminMember.id,
+      action: 'role_change',
+      title: `Change ${(targetMember.profiles as { full_name?: string } | null)?.full_name ?? 'a member'}'s role from ${oldRole} to ${newRole}`,
+      referenceId: targetMemberId,
+      payload: { new_role: newRole },
+    });
+
+    if (approval) {
+      return new Response(
+        JSON.stringify({ ...approval, data: { oldRole, newRole } }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Update the member's role
     const { error: updateError } = await supabaseClient
       .from('chama_members')
@@ -91,15 +116,16 @@ serve(async (req) => {
         description: `Role changed from ${oldRole} to ${newRole} by admin`
       });
 
-    // Send notification to the member
+    // Send notification to the member, in the language they use the app in
+    const memberLanguage = await getPreferredLanguage(supabaseAdmin, targetMember.user_id);
     await supabaseClient
       .from('chama_notifications')
       .insert({
         user_id: targetMember.user_id,
         chama_id: chamaId,
         type: 'role_change',
-        title: '🎖️ Role Updated',
-        message: `Your role has been updated to ${newRole}`,
+        title: translate(memberLanguage, 'notification.role_change.title'),
+        message: translate(memberLanguage, 'notification.role_change.message', { role: newRole }),
         metadata: { old_role: oldRole, new_role: newRole }
       });
 
@@ -0,0 +1,190 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { buildCalendar, CalendarEvent, CalendarMeeting, eventUid, meetingEvents } from '../_shared/ical.ts'
+
+// Meetings that ended longer ago than this drop out of the feed
+const HISTORY_DAYS = 90;
+// Calendar apps are asked to fetch the feed again this often
+const REFRESH_HOURS = 6;
+
+interface FeedChama {
+  id: string;
+  name: string;
+  currency: string | null;
+  contribution_amount: number | null;
+  contribution_frequency: string | null;
+  contribution_day: number | null;
+  created_at: string;
+}
+
+interface FeedRound {
+  id: string;
+  cycle_number: number;
+  round_number: number;
+  recipient_member_id: string;
+  scheduled_date: string;
+  expected_amount: number;
+}
+
+const formatAmount = (currency: string | null, amount: number | null) =>
+  `${currency ?? 'KES'} ${Number(amount ?? 0).toLocaleString()}`;
+
+/**
+ * The rule contributions fall due by. contribution_day is the day of the month
+ * for monthly and quarterly chamas; other frequencies count from the day the
+ * chama was created, as merry-go-round cycles do.
+ */
+function contributionRule(chama: FeedChama): { start: Date; rrule: string } {
+  const created = new Date(chama.created_at);
+  const frequency = (chama.contribution_frequency ?? 'monthly').toLowerCase();
+
+  switch (frequency) {
+    case 'daily':
+      return { start: created, rrule: 'FREQ=DAILY' };
+    case 'weekly':
+      return { start: created, rrule: 'FREQ=WEEKLY' };
+    case 'bi-weekly':
+    case 'biweekly':
+    case 'fortnightly':
+      return { start: created, rrule: 'FREQ=WEEKLY;INTERVAL=2' };
+  }
+
+  const interval = frequency === 'quarterly' ? ';INTERVAL=3' : '';
+  const day = Math.min(Math.max(chama.contribution_day ?? 1, 1), 31);
+  const lastDay = new Date(Date.UTC(created.getUTCFullYear(), created.getUTCMonth() + 1, 0)).getUTCDate();
+  const start = new Date(Date.UTC(created.getUTCFullYear(), created.getUTCMonth(), Math.min(day, lastDay)));
+
+  // Days past the 28th fall on the last day of shorter months
+  const byDay = day > 28 ? `BYMONTHDAY=${day},-1;BYSETPOS=1` : `BYMONTHDAY=${day}`;
+  return { start, rrule: `FREQ=MONTHLY${interval};${byDay}` };
+}
+
+// Scheduled merry-go-round rounds when the chama runs one, otherwise its regular cycle
+function contributionEvents(chama: FeedChama, rounds: FeedRound[], memberId: string): CalendarEvent[] {
+  if (rounds.length > 0) {
+    return rounds.map((round) => {
+      const yourTurn = round.recipient_member_id === memberId;
+      return {
+        uid: eventUid('mgr-round', round.id),
+        summary: yourTurn
+          ? `Your merry-go-round payout (${chama.name})`
+          : `Contribution due: ${formatAmount(chama.currency, round.expected_amount)} (${chama.name})`,
+        description: `Cycle ${round.cycle_number}, round ${round.round_number}.` +
+          (yourTurn ? ' The pot is paid out to you on this day.' : ' Contribute before the round pays out.'),
+        start: new Date(`${round.scheduled_date}T00:00:00Z`),
+        allDay: true,
+      };
+    });
+  }
+
+  if (!chama.contribution_amount) {
+    return [];
+  }
+
+  const { start, rrule } = contributionRule(chama);
+  return [{
+    uid: eventUid('contribution', chama.id),
+    summary: `Contribution due: ${formatAmount(chama.currency, chama.contribution_amount)} (${chama.name})`,
+    description: `Your ${chama.contribution_frequency ?? 'monthly'} contribution to ${chama.name}.`,
+    start,
+    allDay: true,
+    rrule,
+  }];
+}
+
+serve(async (req) => {
+  // Fetched by calendar apps, which only ever GET
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  const token = new URL(req.url).searchParams.get('token');
+  if (!token) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  try {
+    const { data: feeds, error: feedError } = await supabase.rpc('resolve_calendar_feed', { p_token: token });
+    if (feedError) throw feedError;
+
+    const feed = feeds?.[0];
+    if (!feed) {
+      // Reset, turned off, or the member has left the chama
+      return new Response('Not found', { status: 404 });
+    }
+
+    const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const [chamaResult, meetingsResult, roundsResult] = await Promise.all([
+      supabase
+        .from('chamas')
+        .select('id, name, currency, contribution_amount, contribution_frequency, contribution_day, created_at')
+        .eq('id', feed.chama_id)
+        .single(),
+      supabase
+        .from('chama_meetings')
+        .select('*')
+        .eq('chama_id', feed.chama_id)
+        .gte('scheduled_at', since),
+      supabase
+        .from('mgr_rounds')
+        .select('id, cycle_number, round_number, recipient_member_id, scheduled_date, expected_amount')
+        .eq('chama_id', feed.chama_id)
+        .eq('status', 'scheduled')
+        .order('scheduled_date'),
+    ]);
+
+    if (chamaResult.error) throw chamaResult.error;
+    if (meetingsResult.error) throw meetingsResult.error;
+
+    // A series that began before the window still needs its first meetings for its rule
+    let meetings: CalendarMeeting[] = meetingsResult.data ?? [];
+    const seriesIds = [...new Set(meetings.map((meeting) => meeting.series_id).filter((id): id is string => !!id))];
+    if (seriesIds.length > 0) {
+      const { data: series, error: seriesError } = await supabase
+        .from('chama_meetings')
+        .select('*')
+        .in('series_id', seriesIds)
+        .lt('scheduled_at', since);
+      if (seriesError) throw seriesError;
+      meetings = [...meetings, ...(series ?? [])];
+    }
+
+    const { data: agenda } = meetings.length > 0
+      ? await supabase
+        .from('chama_meeting_agenda_items')
+        .select('meeting_id, position, title')
+        .in('meeting_id', meetings.map((meeting) => meeting.id))
+      : { data: [] };
+
+    const chama: FeedChama = chamaResult.data;
+    const calendar = buildCalendar(
+      {
+        name: chama.name,
+        description: `Meetings and contribution dates for ${chama.name}`,
+        refreshIntervalHours: REFRESH_HOURS,
+      },
+      [
+        ...meetingEvents(meetings, chama.name, agenda ?? []),
+        ...contributionEvents(chama, roundsResult.data ?? [], feed.member_id),
+      ]
+    );
+
+    return new Response(req.method === 'HEAD' ? null : calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="chama.ics"',
+        'Cache-Control': `private, max-age=${15 * 60}`,
+      },
+    });
+
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    return new Response('Calendar unavailable', { status: 500 });
+  }
+});
@@ -0,0 +1,310 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const PAGE_SIZE = 50;
+const ATTACHMENT_BUCKET = 'chat-attachments';
+
+interface ChatRequest {
+  action: 'list' | 'send' | 'mark_read' | 'delete' | 'pin' | 'mute' | 'unmute';
+  chamaId?: string;
+  // list: load messages sent before this time
+  before?: string;
+  message?: string;
+  replyToId?: string;
+  attachment?: {
+    path: string;
+    name: string;
+    mimeType: string;
+    size: number;
+  };
+  messageId?: string;
+  pinned?: boolean;
+  memberId?: string;
+  mutedUntil?: string | null;
+  reason?: string;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Writes run as the caller so the chat functions can check membership and roles
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    const body: ChatRequest = await req.json();
+    console.log('Chama chat:', { action: body.action, chamaId: body.chamaId, user: user.id });
+
+    let result;
+
+    switch (body.action) {
+      case 'list':
+        result = await listMessages(supabaseClient, user.id, body);
+        break;
+
+      case 'send':
+        result = await sendMessage(supabaseClient, body);
+        break;
+
+      case 'mark_read':
+        result = await markRead(supabaseClient, body);
+        break;
+
+      case 'delete':
+        result = await deleteMessage(supabaseClient, body);
+        break;
+
+      case 'pin':
+        result = await pinMessage(supabaseClient, body);
+        break;
+
+      case 'mute':
+        result = await muteMember(supabaseClient, body);
+        break;
+
+      case 'unmute':
+        result = await unmuteMember(supabaseClient, body);
+        break;
+
+      default:
+        throw new Error('Invalid action');
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, message: result.message, data: result.data }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Error in chama chat:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
+
+function requireChama(body: ChatRequest) {
+  if (!body.chamaId) {
+    throw new Error('chamaId is required');
+  }
+  return body.chamaId;
+}
+
+// History, members and chat state for one chama, newest page first
+async function listMessages(supabase: SupabaseClient, userId: string, body: ChatRequest) {
+  const chamaId = requireChama(body);
+
+  const supabaseAdmin = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const { data: currentMember } = await supabaseAdmin
+    .from('chama_members')
+    .select('id, role')
+    .eq('chama_id', chamaId)
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (!currentMember) {
+    throw new Error('You are not a member of this chama');
+  }
+
+  let messagesQuery = supabase
+    .from('chama_messages')
+    .select('*')
+    .eq('chama_id', chamaId)
+    .order('sent_at', { ascending: false })
+    .limit(PAGE_SIZE);
+
+  if (body.before) {
+    messagesQuery = messagesQuery.lt('sent_at', body.before);
+  }
+
+  const [messagesResult, pinnedResult, membersResult, readsResult, mutesResult] = await Promise.all([
+    messagesQuery,
+    supabase
+      .from('chama_messages')
+      .select('*')
+      .eq('chama_id', chamaId)
+      .eq('is_pinned', true)
+      .order('pinned_at', { ascending: false }),
+    // Former members stay listed so their old messages keep a name
+    supabaseAdmin
+      .from('chama_members')
+      .select('id, user_id, role, is_active')
+      .eq('chama_id', chamaId),
+    supabase
+      .from('chama_chat_reads')
+      .select('member_id, last_read_at')
+      .eq('chama_id', chamaId),
+    supabase
+      .from('chama_chat_mutes')
+      .select('member_id, muted_until, reason')
+      .eq('chama_id', chamaId),
+  ]);
+
+  if (messagesResult.error) throw messagesResult.error;
+  if (membersResult.error) throw membersResult.error;
+
+  const members = membersResult.data ?? [];
+  const { data: profiles } = await supabaseAdmin
+    .from('profiles')
+    .select('user_id, full_name, email')
+    .in('user_id', members.map((member) => member.user_id));
+
+  const names = new Map((profiles ?? []).map((profile) => [profile.user_id, profile.full_name || profile.email]));
+
+  // Replies to messages outside this page still need their quoted text
+  const messages = messagesResult.data ?? [];
+  const loadedIds = new Set(messages.map((message) => message.id));
+  const missingReplyIds = [...new Set(
+    messages.map((message) => message.reply_to_id).filter((id) => id && !loadedIds.has(id))
+  )];
+
+  let replyTargets: unknown[] = [];
+  if (missingReplyIds.length > 0) {
+    const { data } = await supabase.from('chama_messages').select('*').in('id', missingReplyIds);
+    replyTargets = data ?? [];
+  }
+
+  const now = Date.now();
+
+  return {
+    message: 'Messages loaded',
+    data: {
+      currentMember,
+      messages: messages.reverse(),
+      replyTargets,
+      pinned: pinnedResult.data ?? [],
+      hasMore: messages.length === PAGE_SIZE,
+      members: members.map((member) => ({
+        ...member,
+        name: names.get(member.user_id) || 'Unknown User',
+      })),
+      reads: readsResult.data ?? [],
+      mutes: (mutesResult.data ?? []).filter((mute) => !mute.muted_until || new Date(mute.muted_until).getTime() > now),
+    },
+  };
+}
+
+async function sendMessage(supabase: SupabaseClient, body: ChatRequest) {
+  const chamaId = requireChama(body);
+
+  const { data, error } = await supabase.rpc('send_chama_message', {
+    p_chama_id: chamaId,
+    p_message: body.message ?? '',
+    p_reply_to_id: body.replyToId ?? null,
+    p_attachment_path: body.attachment?.path ?? null,
+    p_attachment_name: body.attachment?.name ?? null,
+    p_attachment_mime_type: body.attachment?.mimeType ?? null,
+    p_attachment_size: body.attachment?.size ?? null,
+  });
+
+  if (error) {
+    // Don't leave an orphaned upload behind a message that was refused
+    if (body.attachment?.path) {
+      await supabase.storage.from(ATTACHMENT_BUCKET).remove([body.attachment.path]);
+    }
+    throw new Error(error.message);
+  }
+
+  return { message: 'Message sent', data };
+}
+
+async function markRead(supabase: SupabaseClient, body: ChatRequest) {
+  const chamaId = requireChama(body);
+
+  const { data, error } = await supabase.rpc('mark_chama_chat_read', { p_chama_id: chamaId });
+  if (error) throw new Error(error.message);
+
+  return { message: 'Marked as read', data: { lastReadAt: data } };
+}
+
+async function deleteMessage(supabase: SupabaseClient, body: ChatRequest) {
+  if (!body.messageId) {
+    throw new Error('messageId is required');
+  }
+
+  const { data, error } = await supabase.rpc('delete_chama_message', { p_message_id: body.messageId });
+  if (error) throw new Error(error.message);
+
+  if (data?.attachment_path) {
+    const { error: storageError } = await supabase.storage.from(ATTACHMENT_BUCKET).remove([data.attachment_path]);
+    if (storageError) {
+      console.error('Failed to remove chat attachment:', storageError);
+    }
+  }
+
+  return { message: 'Message deleted', data };
+}
+
+async function pinMessage(supabase: SupabaseClient, body: ChatRequest) {
+  if (!body.messageId || typeof body.pinned !== 'boolean') {
+    throw new Error('messageId and pinned are required');
+  }
+
+  const { data, error } = await supabase.rpc('set_chama_message_pinned', {
+    p_message_id: body.messageId,
+    p_pinned: body.pinned,
+  });
+  if (error) throw new Error(error.message);
+
+  return { message: body.pinned ? 'Message pinned' : 'Message unpinned', data };
+}
+
+async function muteMember(supabase: SupabaseClient, body: ChatRequest) {
+  const chamaId = requireChama(body);
+  if (!body.memberId) {
+    throw new Error('memberId is required');
+  }
+
+  const { data, error } = await supabase.rpc('mute_chama_member', {
+    p_chama_id: chamaId,
+    p_member_id: body.memberId,
+    p_muted_until: body.mutedUntil ?? null,
+    p_reason: body.reason ?? null,
+  });
+  if (error) throw new Error(error.message);
+
+  return { message: 'Member muted', data };
+}
+
+async function unmuteMember(supabase: SupabaseClient, body: ChatRequest) {
+  const chamaId = requireChama(body);
+  if (!body.memberId) {
+    throw new Error('memberId is required');
+  }
+
+  const { data, error } = await supabase.rpc('unmute_chama_member', {
+    p_chama_id: chamaId,
+    p_member_id: body.memberId,
+  });
+  if (error) throw new Error(error.message);
+
+  return { message: data ? 'Member unmuted' : 'Member was not muted', data };
+}
@@ -0,0 +1,519 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { buildCalendar, CalendarMeeting, meetingEvents } from '../_shared/ical.ts';
+import { createVideoLinkProvider } from '../_shared/video.ts';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// How many closed or cancelled meetings the list returns
+const HISTORY_SIZE = 20;
+
+interface AgendaItemInput {
+  title: string;
+  description?: string;
+  durationMinutes?: number;
+}
+
+interface MeetingsRequest {
+  action:
+    | 'list'
+    | 'schedule'
+    | 'cancel'
+    | 'set_agenda'
+    | 'check_in'
+    | 'record_attendance'
+    | 'save_minutes'
+    | 'add_resolution'
+    | 'close'
+    | 'resolve_fine'
+    | 'invite'
+    | 'create_calendar_feed'
+    | 'revoke_calendar_feed';
+  chamaId?: string;
+  meetingId?: string;
+  meeting?: {
+    title: string;
+    description?: string;
+    meetingType?: 'physical' | 'virtual' | 'hybrid';
+    location?: string;
+    meetingLink?: string;
+    scheduledAt: string;
+    durationMinutes?: number;
+    recurrence?: 'none' | 'weekly' | 'biweekly' | 'monthly';
+    occurrences?: number;
+  };
+  // cancel: also cancel the later meetings of the series
+  following?: boolean;
+  reason?: string;
+  agenda?: AgendaItemInput[];
+  publish?: boolean;
+  memberId?: string;
+  status?: string;
+  note?: string;
+  content?: string;
+  approve?: boolean;
+  resolution?: string;
+  voteId?: string;
+  outcome?: 'adopted' | 'rejected';
+  agendaItemId?: string;
+  fineId?: string;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Writes run as the caller so the meeting functions can check membership and roles
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    const body: MeetingsRequest = await req.json();
+    console.log('Chama meetings:', { action: body.action, chamaId: body.chamaId, meetingId: body.meetingId, user: user.id });
+
+    let result;
+
+    switch (body.action) {
+      case 'list':
+        result = await listMeetings(supabaseClient, user.id, body);
+        break;
+
+      case 'schedule':
+        result = await scheduleMeeting(supabaseClient, body);
+        break;
+
+      case 'cancel':
+        result = await cancelMeeting(supabaseClient, body);
+        break;
+
+      case 'set_agenda':
+        result = await setAgenda(supabaseClient, body);
+        break;
+
+      case 'check_in':
+        result = await checkIn(supabaseClient, body);
+        break;
+
+      case 'record_attendance':
+        result = await recordAttendance(supabaseClient, body);
+        break;
+
+      case 'save_minutes':
+        result = await saveMinutes(supabaseClient, body);
+        break;
+
+      case 'add_resolution':
+        result = await addResolution(supabaseClient, body);
+        break;
+
+      case 'close':
+        result = await closeMeeting(supabaseClient, body);
+        break;
+
+      case 'resolve_fine':
+        result = await resolveFine(supabaseClient, body);
+        break;
+
+      case 'invite':
+        result = await meetingInvite(supabaseClient, body);
+        break;
+
+      case 'create_calendar_feed':
+        result = await createCalendarFeed(supabaseClient, body);
+        break;
+
+      case 'revoke_calendar_feed':
+        result = await revokeCalendarFeed(supabaseClient, body);
+        break;
+
+      default:
+        throw new Error('Invalid action');
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, message: result.message, data: result.data }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Error in chama meetings:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
+
+function requireMeeting(body: MeetingsRequest) {
+  if (!body.meetingId) {
+    throw new Error('meetingId is required');
+  }
+  return body.meetingId;
+}
+
+// Upcoming meetings, recent history and everything recorded against them
+async function listMeetings(supabase: SupabaseClient, userId: string, body: MeetingsRequest) {
+  if (!body.chamaId) {
+    throw new Error('chamaId is required');
+  }
+  const chamaId = body.chamaId;
+
+  const supabaseAdmin = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const { data: currentMember } = await supabaseAdmin
+    .from('chama_members')
+    .select('id, role')
+    .eq('chama_id', chamaId)
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (!currentMember) {
+    throw new Error('You are not a member of this chama');
+  }
+
+  const [upcomingResult, historyResult, membersResult, settingsResult, votesResult, outstandingResult, feedResult] = await Promise.all([
+    supabase
+      .from('chama_meetings')
+      .select('*')
+      .eq('chama_id', chamaId)
+      .eq('status', 'scheduled')
+      .order('scheduled_at', { ascending: true }),
+    supabase
+      .from('chama_meetings')
+      .select('*')
+      .eq('chama_id', chamaId)
+      .neq('status', 'scheduled')
+      .order('scheduled_at', { ascending: false })
+      .limit(HISTORY_SIZE),
+    supabaseAdmin
+      .from('chama_members')
+      .select('id, user_id, role, is_active, joined_at')
+      .eq('chama_id', chamaId),
+    supabaseAdmin
+      .from('chama_settings')
+      .select('absence_fine, lateness_fine, lateness_grace_minutes')
+      .eq('chama_id', chamaId)
+      .maybeSingle(),
+    // Votes a resolution can be linked to
+    supabase
+      .from('chama_votes')
+      .select('id, title, status, outcome, deadline')
+      .eq('chama_id', chamaId)
+      .order('created_at', { ascending: false })
+      .limit(50),
+    supabase
+      .from('chama_meeting_fines')
+      .select('*')
+      .eq('chama_id', chamaId)
+      .eq('status', 'outstanding')
+      .order('created_at', { ascending: false }),
+    supabase
+      .from('calendar_feed_tokens')
+      .select('created_at, last_accessed_at')
+      .eq('chama_id', chamaId)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .maybeSingle(),
+  ]);
+
+  if (upcomingResult.error) throw upcomingResult.error;
+  if (historyResult.error) throw historyResult.error;
+  if (membersResult.error) throw membersResult.error;
+
+  const meetings = [...(upcomingResult.data ?? []), ...(historyResult.data ?? [])];
+  const meetingIds = meetings.map((meeting) => meeting.id);
+
+  const [agendaResult, attendanceResult, minutesResult, resolutionsResult, finesResult] = meetingIds.length > 0
+    ? await Promise.all([
+      supabase.from('chama_meeting_agenda_items').select('*').in('meeting_id', meetingIds).order('position'),
+      supabase.from('chama_meeting_attendance').select('*').in('meeting_id', meetingIds),
+      supabase.from('chama_meeting_minutes').select('*').in('meeting_id', meetingIds),
+      supabase.from('chama_meeting_resolutions').select('*').in('meeting_id', meetingIds).order('created_at'),
+      supabase.from('chama_meeting_fines').select('*').in('meeting_id', meetingIds),
+    ])
+    : [{ data: [] }, { data: [] }, { data: [] }, { data: [] }, { data: [] }];
+
+  const members = membersResult.data ?? [];
+  const { data: profiles } = await supabaseAdmin
+    .from('profiles')
+    .select('user_id, full_name, email')
+    .in('user_id', members.map((member) => member.user_id));
+
+  const names = new Map((profiles ?? []).map((profile) => [profile.user_id, profile.full_name || profile.email]));
+
+  const byMeeting = <T extends { meeting_id: string }>(rows: T[] | null | undefined, meetingId: string) =>
+    (rows ?? []).filter((row) => row.meeting_id === meetingId);
+
+  const votes = votesResult.data ?? [];
+  const minutes = minutesResult.data ?? [];
+
+  return {
+    message: 'Meetings loaded',
+    data: {
+      currentMember,
+      members: members.map((member) => ({
+        ...member,
+        name: names.get(member.user_id) || 'Unknown User',
+      })),
+      policy: {
+        absenceFine: Number(settingsResult.data?.absence_fine ?? 0),
+        latenessFine: Number(settingsResult.data?.lateness_fine ?? 0),
+        latenessGraceMinutes: settingsResult.data?.lateness_grace_minutes ?? 15,
+      },
+      votes,
+      outstandingFines: outstandingResult.data ?? [],
+      calendarFeed: feedResult.data
+        ? { createdAt: feedResult.data.created_at, lastAccessedAt: feedResult.data.last_accessed_at }
+        : null,
+      meetings: meetings.map((meeting) => ({
+        ...meeting,
+        agenda: byMeeting(agendaResult.data, meeting.id),
+        attendance: byMeeting(attendanceResult.data, meeting.id),
+        minutes: minutes.find((row) => row.meeting_id === meeting.id) ?? null,
+        resolutions: byMeeting(resolutionsResult.data, meeting.id).map((resolution) => ({
+          ...resolution,
+          vote: votes.find((vote) => vote.id === resolution.vote_id) ?? null,
+        })),
+        fines: byMeeting(finesResult.data, meeting.id),
+      })),
+    },
+  };
+}
+
+async function scheduleMeeting(supabase: SupabaseClient, body: MeetingsRequest) {
+  if (!body.chamaId || !body.meeting?.title || !body.meeting.scheduledAt) {
+    throw new Error('chamaId, title and scheduledAt are required');
+  }
+  const meeting = body.meeting;
+  const meetingType = meeting.meetingType ?? 'physical';
+  const durationMinutes = meeting.durationMinutes ?? 120;
+
+  // Online meetings without a link of their own get a room shared by the whole series
+  let meetingLink = meeting.meetingLink?.trim() || null;
+  if (!meetingLink && meetingType !== 'physical') {
+    const provider = createVideoLinkProvider();
+    meetingLink = await provider.createRoom({
+      chamaId: body.chamaId,
+      title: meeting.title,
+      scheduledAt: meeting.scheduledAt,
+      durationMinutes,
+    });
+    console.log('Created video room:', { provider: provider.name, chamaId: body.chamaId });
+  }
+
+  const { data, error } = await supabase.rpc('schedule_chama_meeting', {
+    p_chama_id: body.chamaId,
+    p_title: meeting.title,
+    p_scheduled_at: meeting.scheduledAt,
+    p_duration_minutes: durationMinutes,
+    p_meeting_type: meetingType,
+    p_location: meeting.location ?? null,
+    p_meeting_link: meetingLink,
+    p_description: meeting.description ?? null,
+    p_recurrence: meeting.recurrence ?? 'none',
+    p_occurrences: meeting.occurrences ?? 1,
+  });
+  if (error) throw new Error(error.message);
+
+  const count = Array.isArray(data) ? data.length : 1;
+  return { message: count > 1 ? `${count} meetings scheduled` : 'Meeting scheduled', data };
+}
+
+async function cancelMeeting(supabase: SupabaseClient, body: MeetingsRequest) {
+  const meetingId = requireMeeting(body);
+
+  const { data, error } = await supabase.rpc('cancel_chama_meeting', {
+    p_meeting_id: meetingId,
+    p_following: body.following ?? false,
+    p_reason: body.reason ?? null,
+  });
+  if (error) throw new Error(error.message);
+
+  return { message: data > 1 ? `${data} meetings cancelled` : 'Meeting cancelled', data: { cancelled: data } };
+}
+
+async function setAgenda(supabase: SupabaseClient, body: MeetingsRequest) {
+  const meetingId = requireMeeting(body);
+
+  const { data, error } = await supabase.rpc('set_meeting_agenda', {
+    p_meeting_id: meetingId,
+    p_items: (body.agenda ?? []).map((item) => ({
+      title: item.title,
+      description: item.description ?? null,
+      duration_minutes: item.durationMinutes ?? null,
+    })),
+    p_publish: body.publish ?? false,
+  });
+  if (error) throw new Error(error.message);
+
+  return { message: body.publish ? 'Agenda published to members' : 'Agenda saved', data };
+}
+
+async function checkIn(supabase: SupabaseClient, body: MeetingsRequest) {
+  const meetingId = requireMeeting(body);
+
+  const { data, error } = await supabase.rpc('check_in_to_meeting', { p_meeting_id: meetingId });
+  if (error) throw new Error(error.message);
+
+  return { message: data?.status === 'late' ? 'Checked in late' : 'Checked in', data };
+}
+
+async function recordAttendance(supabase: SupabaseClient, body: MeetingsRequest) {
+  const meetingId = requireMeeting(body);
+  if (!body.memberId || !body.status) {
+    throw new Error('memberId and status are required');
+  }
+
+  const { data, error } = await supabase.rpc('record_meeting_attendance', {
+    p_meeting_id: meetingId,
+    p_member_id: body.memberId,
+    p_status: body.status,
+    p_note: body.note ?? null,
+  });
+  if (error) throw new Error(error.message);
+
+  return { message: 'Attendance recorded', data };
+}
+
+async function saveMinutes(supabase: SupabaseClient, body: MeetingsRequest) {
+  const meetingId = requireMeeting(body);
+
+  const { data, error } = await supabase.rpc('save_meeting_minutes', {
+    p_meeting_id: meetingId,
+    p_content: body.content ?? '',
+    p_approve: body.approve ?? false,
+  });
+  if (error) throw new Error(error.message);
+
+  return { message: body.approve ? 'Minutes approved' : 'Minutes saved', data };
+}
+
+async function addResolution(supabase: SupabaseClient, body: MeetingsRequest) {
+  const meetingId = requireMeeting(body);
+
+  const { data, error } = await supabase.rpc('add_meeting_resolution', {
+    p_meeting_id: meetingId,
+    p_resolution: body.resolution ?? '',
+    p_vote_id: body.voteId ?? null,
+    p_outcome: body.voteId ? null : body.outcome ?? null,
+    p_agenda_item_id: body.agendaItemId ?? null,
+  });
+  if (error) throw new Error(error.message);
+
+  return { message: 'Resolution recorded', data };
+}
+
+async function closeMeeting(supabase: SupabaseClient, body: MeetingsRequest) {
+  const meetingId = requireMeeting(body);
+
+  const { data, error } = await supabase.rpc('close_chama_meeting', { p_meeting_id: meetingId });
+  if (error) throw new Error(error.message);
+
+  const message = data?.fines_levied > 0
+    ? `Meeting closed; ${data.fines_levied} fine(s) levied`
+    : 'Meeting closed';
+  return { message, data };
+}
+
+async function resolveFine(supabase: SupabaseClient, body: MeetingsRequest) {
+  if (!body.fineId || !body.status) {
+    throw new Error('fineId and status are required');
+  }
+
+  const { data, error } = await supabase.rpc('resolve_meeting_fine', {
+    p_fine_id: body.fineId,
+    p_status: body.status,
+    p_note: body.note ?? null,
+  });
+  if (error) throw new Error(error.message);
+
+  return { message: body.status === 'waived' ? 'Fine waived' : 'Fine marked as paid', data };
+}
+
+// An .ics invite for a meeting; a meeting in a series brings the whole series
+async function meetingInvite(supabase: SupabaseClient, body: MeetingsRequest) {
+  const meetingId = requireMeeting(body);
+
+  const { data: meeting, error } = await supabase
+    .from('chama_meetings')
+    .select('*')
+    .eq('id', meetingId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!meeting) throw new Error('Meeting not found');
+
+  let meetings: CalendarMeeting[] = [meeting];
+  if (meeting.series_id) {
+    const { data: series, error: seriesError } = await supabase
+      .from('chama_meetings')
+      .select('*')
+      .eq('series_id', meeting.series_id);
+    if (seriesError) throw new Error(seriesError.message);
+    meetings = series ?? meetings;
+  }
+
+  const [{ data: chama }, { data: agenda }] = await Promise.all([
+    supabase.from('chamas').select('name').eq('id', meeting.chama_id).maybeSingle(),
+    supabase
+      .from('chama_meeting_agenda_items')
+      .select('meeting_id, position, title')
+      .in('meeting_id', meetings.map((row) => row.id)),
+  ]);
+
+  const chamaName = chama?.name ?? 'Chama';
+  const content = buildCalendar({ name: `${chamaName} meetings` }, meetingEvents(meetings, chamaName, agenda ?? []));
+  const filename = `${meeting.title.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'meeting'}.ics`;
+
+  return { message: 'Invite ready', data: { filename, content } };
+}
+
+// The feed is served by the calendar-feed function, which calendar apps call without signing in
+const feedUrls = (token: string) => {
+  const url = `${Deno.env.get('SUPABASE_URL') ?? ''}/functions/v1/calendar-feed?token=${token}`;
+  return { url, webcalUrl: url.replace(/^https?:/, 'webcal:') };
+};
+
+async function createCalendarFeed(supabase: SupabaseClient, body: MeetingsRequest) {
+  if (!body.chamaId) {
+    throw new Error('chamaId is required');
+  }
+
+  const { data: token, error } = await supabase.rpc('create_calendar_feed', { p_chama_id: body.chamaId });
+  if (error) throw new Error(error.message);
+
+  return { message: 'Calendar link created', data: feedUrls(token) };
+}
+
+async function revokeCalendarFeed(supabase: SupabaseClient, body: MeetingsRequest) {
+  if (!body.chamaId) {
+    throw new Error('chamaId is required');
+  }
+
+  const { data, error } = await supabase.rpc('revoke_calendar_feed', { p_chama_id: body.chamaId });
+  if (error) throw new Error(error.message);
+
+  return { message: data ? 'Calendar link turned off' : 'No calendar link to turn off', data: { revoked: data } };
+}
@@ -0,0 +1,166 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Matches is_chama_officer_role()
+const OFFICER_ROLES = ['admin', 'chairman', 'treasurer', 'secretary'];
+
+interface SmsRequest {
+  action: 'status' | 'update_settings' | 'set_opt_out';
+  chamaId?: string;
+  enabled?: boolean;
+  senderId?: string | null;
+  // set_opt_out: stop texts from every chama rather than this one
+  allChamas?: boolean;
+  optedOut?: boolean;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Runs as the caller so the SMS functions can check membership and roles
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    const body: SmsRequest = await req.json();
+    if (!body.chamaId) {
+      throw new Error('chamaId is required');
+    }
+    console.log('Chama SMS:', { action: body.action, chamaId: body.chamaId, user: user.id });
+
+    let result;
+
+    switch (body.action) {
+      case 'status':
+        result = await smsStatus(supabaseClient, user.id, body.chamaId);
+        break;
+
+      case 'update_settings':
+        result = await updateSettings(supabaseClient, body);
+        break;
+
+      case 'set_opt_out':
+        result = await setOptOut(supabaseClient, body);
+        break;
+
+      default:
+        throw new Error('Invalid action');
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, message: result.message, data: result.data }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Error in chama SMS:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
+
+// The caller's opt-outs and phone, plus settings and this month's usage for officers
+async function smsStatus(supabase: SupabaseClient, userId: string, chamaId: string) {
+  const [memberResult, optOutsResult, profileResult] = await Promise.all([
+    supabase
+      .from('chama_members')
+      .select('role')
+      .eq('chama_id', chamaId)
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .maybeSingle(),
+    supabase
+      .from('sms_opt_outs')
+      .select('chama_id')
+      .eq('user_id', userId),
+    supabase
+      .from('profiles')
+      .select('phone, phone_number')
+      .eq('user_id', userId)
+      .maybeSingle(),
+  ]);
+
+  if (!memberResult.data) {
+    throw new Error('You are not a member of this chama');
+  }
+
+  const optOuts = optOutsResult.data ?? [];
+  const isOfficer = OFFICER_ROLES.includes(memberResult.data.role);
+
+  let usage = null;
+  if (isOfficer) {
+    const { data, error } = await supabase.rpc('get_chama_sms_usage', { p_chama_id: chamaId });
+    if (error) throw new Error(error.message);
+    usage = data;
+  }
+
+  return {
+    message: 'SMS status loaded',
+    data: {
+      isOfficer,
+      hasPhone: !!(profileResult.data?.phone_number || profileResult.data?.phone),
+      optedOut: optOuts.some((optOut) => optOut.chama_id === chamaId),
+      optedOutEverywhere: optOuts.some((optOut) => optOut.chama_id === null),
+      usage,
+    },
+  };
+}
+
+async function updateSettings(supabase: SupabaseClient, body: SmsRequest) {
+  if (typeof body.enabled !== 'boolean') {
+    throw new Error('enabled is required');
+  }
+
+  const { data, error } = await supabase.rpc('update_chama_sms_settings', {
+    p_chama_id: body.chamaId,
+    p_enabled: body.enabled,
+    p_sender_id: body.senderId ?? null,
+  });
+  if (error) throw new Error(error.message);
+
+  return {
+    message: body.enabled ? 'Members will get texts from this chama' : 'Texts from this chama are off',
+    data: { enabled: data.sms_enabled, senderId: data.sms_sender_id },
+  };
+}
+
+async function setOptOut(supabase: SupabaseClient, body: SmsRequest) {
+  if (typeof body.optedOut !== 'boolean') {
+    throw new Error('optedOut is required');
+  }
+
+  const { error } = await supabase.rpc('set_sms_opt_out', {
+    p_chama_id: body.allChamas ? null : body.chamaId,
+    p_opted_out: body.optedOut,
+  });
+  if (error) throw new Error(error.message);
+
+  return {
+    message: body.optedOut ? "You won't get texts" : "You'll get texts again",
+    data: { optedOut: body.optedOut },
+  };
+}
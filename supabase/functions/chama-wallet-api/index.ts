@@ -1,9 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { hasPinStepUp, pinStepUpRequired } from "../_shared/pinStepUp.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-pin-token',
 }
 
 interface WalletOperation {
@@ -20,6 +21,9 @@ interface WalletOperation {
   name?: string;
 }
 
+// Actions that move money out of one of the caller's wallets
+const PIN_PROTECTED_ACTIONS = ['contribute_to_chama', 'send_to_member', 'withdraw_funds'];
+
 serve(async (req) => {
   console.log('=== Chama Wallet API Called ===');
   console.log('Request method:', req.method);
@@ -57,6 +61,10 @@ serve(async (req) => {
     const userId = user.id;
     console.log('Authenticated user:', userId);
 
+    if (PIN_PROTECTED_ACTIONS.includes(action) && !(await hasPinStepUp(req, supabase, userId))) {
+      return pinStepUpRequired(corsHeaders);
+    }
+
     switch (action) {
       case 'create_chama':
         return await createChama(supabase, userId, params);
@@ -255,72 +263,16 @@ async function contributeToChama(supabase: any, userId: string, params: any) {
   
   console.log('Contributing to chama:', { chama_id, amount });
   
-  // Get user's chama view-only wallet
-  const { data: userWallet, error: walletError } = await supabase
-    .from('wallets')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('chama_id', chama_id)
-    .eq('wallet_type', 'chama_view_only')
-    .single();
-
-  if (walletError) throw new Error('User chama wallet not found');
-
-  // Get chama central wallet
-  const { data: centralWallet, error: centralError } = await supabase
-    .from('wallets')
-    .select('*')
-    .eq('chama_id', chama_id)
-    .eq('wallet_type', 'chama_central')
-    .single();
-
-  if (centralError) throw new Error('Chama central wallet not found');
-
-  // Update balances and create transaction
-  const { data: transaction, error: transactionError } = await supabase
-    .from('chama_transactions')
-    .insert({
-      from_user_id: userId,
-      from_wallet_id: userWallet.id,
-      to_wallet_id: centralWallet.id,
-      chama_id,
-      amount,
-      transaction_type: 'contribution',
-      status: 'completed',
-      description: description || 'Chama contribution'
-    })
-    .select()
-    .single();
-
-  if (transactionError) throw transactionError;
-
-  // Update wallet balances
-  await supabase
-    .from('wallets')
-    .update({ balance: userWallet.balance + amount })
-    .eq('id', userWallet.id);
-
-  await supabase
-    .from('wallets')
-    .update({ balance: centralWallet.balance + amount })
-    .eq('id', centralWallet.id);
-
-  // Update member contribution total
-  const { data: member } = await supabase
-    .from('chama_members')
-    .select('total_contributions')
-    .eq('user_id', userId)
-    .eq('chama_id', chama_id)
-    .single();
+  // Move the money, record the chama transaction, update the member's
+  // view-only mirror and contribution total in one database transaction
+  const { data: transaction, error: contributionError } = await supabase.rpc('contribute_from_personal_wallet', {
+    p_user_id: userId,
+    p_chama_id: chama_id,
+    p_amount: amount,
+    p_description: description || 'Chama contribution'
+  });
 
-  await supabase
-    .from('chama_members')
-    .update({ 
-      total_contributions: (member?.total_contributions || 0) + amount,
-      last_contribution_date: new Date().toISOString()
-    })
-    .eq('user_id', userId)
-    .eq('chama_id', chama_id);
+  if (contributionError) throw new Error(contributionError.message);
 
   return new Response(JSON.stringify({
     success: true,
@@ -369,6 +321,23 @@ async function sendToMember(supabase: any, userId: string, params: any) {
 
   if (recipientWalletError) throw new Error('Recipient wallet not found');
 
+  const { error: transferError } = await supabase.rpc('transfer_funds', {
+    p_transaction_type: 'wallet_transfer',
+    p_from_account_type: 'chama_wallet',
+    p_from_account_id: senderWallet.id,
+    p_to_account_type: 'chama_wallet',
+    p_to_account_id: recipientWallet.id,
+    p_amount: amount,
+    p_description: description || 'Member transfer',
+    p_metadata: { sender_id: userId, recipient_id: recipientProfile.user_id },
+    p_wallet_entries: [
+      { user_id: userId, type: 'transfer_out', amount: -amount },
+      { user_id: recipientProfile.user_id, type: 'transfer_in', amount: amount }
+    ]
+  });
+
+  if (transferError) throw new Error(transferError.message);
+
   // Create transaction
   const { data: transaction, error: transactionError } = await supabase
     .from('chama_transactions')
@@ -387,17 +356,6 @@ async function sendToMember(supabase: any, userId: string, params: any) {
 
   if (transactionError) throw transactionError;
 
-  // Update balances
-  await supabase
-    .from('wallets')
-    .update({ balance: senderWallet.balance - amount })
-    .eq('id', senderWallet.id);
-
-  await supabase
-    .from('wallets')
-    .update({ balance: recipientWallet.balance + amount })
-    .eq('id', recipientWallet.id);
-
   return new Response(JSON.stringify({
     success: true,
     data: transaction
@@ -412,45 +370,17 @@ async function withdrawFunds(supabase: any, userId: string, params: any) {
   
   console.log('Withdrawing funds:', { wallet_id, amount });
   
-  const { data: wallet, error: walletError } = await supabase
-    .from('wallets')
-    .select('*')
-    .eq('id', wallet_id)
-    .eq('user_id', userId)
-    .single();
-
-  if (walletError) throw new Error('Wallet not found');
-
-  if (wallet.is_locked) {
-    throw new Error('Wallet is locked for withdrawals');
-  }
-
-  if (wallet.balance < amount) {
-    throw new Error('Insufficient balance');
-  }
-
-  // Create withdrawal transaction
-  const { data: transaction, error: transactionError } = await supabase
-    .from('chama_transactions')
-    .insert({
-      from_user_id: userId,
-      from_wallet_id: wallet_id,
-      amount: -amount,
-      transaction_type: 'withdrawal',
-      status: 'pending',
-      description: `Withdrawal to ${payment_method}`,
-      metadata: { payment_method, phone_number }
-    })
-    .select()
-    .single();
-
-  if (transactionError) throw transactionError;
+  // Only a personal wallet pays out here: chama_view_only mirrors hold no
+  // money, and chama money goes through chama-wallet-ops and its approvals
+  const { data: transaction, error: withdrawalError } = await supabase.rpc('withdraw_from_personal_wallet', {
+    p_user_id: userId,
+    p_wallet_id: wallet_id,
+    p_amount: amount,
+    p_payment_method: payment_method,
+    p_phone_number: phone_number ?? null
+  });
 
-  // Update wallet balance
-  await supabase
-    .from('wallets')
-    .update({ balance: wallet.balance - amount })
-    .eq('id', wallet_id);
+  if (withdrawalError) throw new Error(withdrawalError.message);
 
   return new Response(JSON.stringify({
     success: true,
@@ -1,8 +1,10 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { requestChamaApproval } from '../_shared/approvals.ts';
+import { hasPinStepUp, pinStepUpRequired } from '../_shared/pinStepUp.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-pin-token',
 };
 
 interface WalletOperation {
@@ -54,7 +56,7 @@ Deno.serve(async (req) => {
     // Get member record
     const { data: member, error: memberError } = await supabaseClient
       .from('chama_members')
-      .select('id, user_id, role, savings_balance, mgr_balance, withdrawal_locked, chama_id')
+      .select('id, user_id, role, savings_balance, locked_savings, mgr_balance, withdrawal_locked, chama_id')
       .eq('user_id', user.id)
       .eq('chama_id', body.chamaId)
       .eq('is_active', true)
@@ -64,17 +66,27 @@ Deno.serve(async (req) => {
       throw new Error('Member not found in this chama');
     }
 
+    // Service client for ledger postings (the ledger RPCs are not exposed to users)
+    const ledgerClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    if ((body.operation === 'withdraw' || body.operation === 'send') && !(await hasPinStepUp(req, ledgerClient, user.id))) {
+      return pinStepUpRequired(corsHeaders);
+    }
+
     let result;
 
     switch (body.operation) {
       case 'topup':
-        result = await handleTopUp(supabaseClient, member, body.amount!);
+        result = await handleTopUp(supabaseClient, ledgerClient, member, body.amount!);
         break;
       case 'withdraw':
-        result = await handleWithdraw(supabaseClient, member, body.amount!, body.payoutMethod!, body.payoutDetails);
+        result = await handleWithdraw(supabaseClient, ledgerClient, member, body.amount!, body.payoutMethod!, body.payoutDetails);
         break;
       case 'send':
-        result = await handleSend(supabaseClient, member, body.amount!, body.recipientMemberId!, body.payoutMethod!, body.payoutDetails);
+        result = await handleSend(supabaseClient, ledgerClient, member, body.amount!, body.recipientMemberId!, body.payoutMethod!, body.payoutDetails);
         break;
       case 'unlock':
         result = await handleUnlock(supabaseClient, member, body.targetMemberId!);
@@ -104,26 +116,19 @@ Deno.serve(async (req) => {
   }
 });
 
-async function handleTopUp(supabase: any, member: any, amount: number) {
+async function handleTopUp(supabase: any, ledger: ReturnType<typeof createClient>, member: any, amount: number) {
   console.log('Processing top-up from savings to MGR:', amount);
   
-  // Check savings balance
-  if (member.savings_balance < amount) {
-    throw new Error(`Insufficient savings balance. Available: KES ${member.savings_balance.toFixed(2)}`);
-  }
+  // Savings locked against loan guarantees stay put; the check and the move
+  // happen together on the locked member row
+  const { data: balances, error: topUpError } = await ledger.rpc('move_savings_to_mgr', {
+    p_member_id: member.id,
+    p_amount: amount
+  });
 
-  // Deduct from savings balance
-  const { error: deductError } = await supabase
-    .from('chama_members')
-    .update({ 
-      savings_balance: member.savings_balance - amount,
-      mgr_balance: member.mgr_balance + amount
-    })
-    .eq('id', member.id);
-
-  if (deductError) {
-    console.error('Error updating balances:', deductError);
-    throw new Error('Failed to transfer funds');
+  if (topUpError) {
+    console.error('Error updating balances:', topUpError);
+    throw new Error(topUpError.message);
   }
 
   // Log audit trail
@@ -137,8 +142,8 @@ async function handleTopUp(supabase: any, member: any, amount: number) {
       to: 'mgr_balance',
       previous_savings: member.savings_balance,
       previous_mgr: member.mgr_balance,
-      new_savings: member.savings_balance - amount,
-      new_mgr: member.mgr_balance + amount
+      new_savings: balances.savings_balance,
+      new_mgr: balances.mgr_balance
     }
   });
 
@@ -154,12 +159,12 @@ async function handleTopUp(supabase: any, member: any, amount: number) {
   return { 
     success: true, 
     message: `Successfully topped up KES ${amount} to MGR wallet`, 
-    newMgrBalance: member.mgr_balance + amount,
-    newSavingsBalance: member.savings_balance - amount
+    newMgrBalance: balances.mgr_balance,
+    newSavingsBalance: balances.savings_balance
   };
 }
 
-async function handleWithdraw(supabase: any, member: any, amount: number, payoutMethod: string, payoutDetails: any) {
+async function handleWithdraw(supabase: any, ledger: ReturnType<typeof createClient>, member: any, amount: number, payoutMethod: string, payoutDetails: any) {
   console.log('Processing withdrawal:', amount, payoutMethod);
 
   // Check if withdrawal is locked
@@ -171,29 +176,33 @@ async function handleWithdraw(supabase: any, member: any, amount: number, payout
     throw new Error(`Insufficient MGR balance. Available: ${member.mgr_balance}`);
   }
 
-  // Deduct from MGR balance
-  const { error: updateError } = await supabase
-    .from('chama_members')
-    .update({ 
-      mgr_balance: member.mgr_balance - amount
-    })
-    .eq('id', member.id);
-
-  if (updateError) throw updateError;
-
-  // Process payout based on method
-  let payoutStatus = 'pending';
-  let payoutReference = `WD-${Date.now()}`;
-
-  if (payoutMethod === 'internal') {
-    // Add to central wallet
-    await supabase.from('user_central_wallets').update({
-      balance: supabase.raw(`balance + ${amount}`),
-      updated_at: new Date().toISOString()
-    }).eq('user_id', member.user_id);
-    payoutStatus = 'completed';
-  } else {
-    // For external payouts (Mpesa/Airtel/Bank), create a pending transaction
+  // Withdrawals over the chama's threshold wait for approval and are paid
+  // out by execute_chama_vote_action() once approved
+  const approval = await requestChamaApproval(ledger, {
+    chamaId: member.chama_id,
+    memberId: member.id,
+    action: 'withdrawal',
+    title: `Withdraw KES ${amount} via ${payoutMethod}`,
+    amount,
+    payload: { member_id: member.id, payout_method: payoutMethod, payout_details: payoutDetails ?? {} },
+  });
+  if (approval) return approval;
+
+  // Pay out of the member's MGR account: to their central wallet for
+  // internal payouts, otherwise out to the provider
+  const payoutReference = `WD-${Date.now()}`;
+  const { data: payoutStatus, error: payoutError } = await ledger.rpc('pay_out_member_mgr', {
+    p_member_id: member.id,
+    p_amount: amount,
+    p_method: payoutMethod,
+    p_reference: payoutReference,
+    p_metadata: { payout_details: payoutDetails ?? {} }
+  });
+
+  if (payoutError) throw new Error(payoutError.message);
+
+  if (payoutMethod !== 'internal') {
+    // For external payouts (Mpesa/Airtel/Bank) the transfer is still pending
     // In production, this would trigger actual payment processing
     console.log('External payout:', payoutMethod, payoutDetails);
   }
@@ -220,7 +229,7 @@ async function handleWithdraw(supabase: any, member: any, amount: number, payout
   };
 }
 
-async function handleSend(supabase: any, sender: any, amount: number, recipientMemberId: string, method: string, details: any) {
+async function handleSend(supabase: any, ledger: ReturnType<typeof createClient>, sender: any, amount: number, recipientMemberId: string, method: string, details: any) {
   console.log('Processing send:', amount, recipientMemberId);
 
   if (sender.mgr_balance < amount) {
@@ -230,7 +239,7 @@ async function handleSend(supabase: any, sender: any, amount: number, recipientM
   // Get recipient
   const { data: recipient, error: recipientError } = await supabase
     .from('chama_members')
-    .select('id, user_id, mgr_balance')
+    .select('id, user_id')
     .eq('id', recipientMemberId)
     .eq('chama_id', sender.chama_id)
     .eq('is_active', true)
@@ -240,15 +249,20 @@ async function handleSend(supabase: any, sender: any, amount: number, recipientM
     throw new Error('Recipient not found');
   }
 
-  // Deduct from sender
-  await supabase.from('chama_members')
-    .update({ mgr_balance: sender.mgr_balance - amount })
-    .eq('id', sender.id);
+  // Move between the two MGR accounts in one ledger transaction, which
+  // locks both and refuses to overdraw the sender
+  const { error: transferError } = await ledger.rpc('transfer_funds', {
+    p_transaction_type: 'mgr_transfer',
+    p_from_account_type: 'member_mgr',
+    p_from_account_id: sender.id,
+    p_to_account_type: 'member_mgr',
+    p_to_account_id: recipient.id,
+    p_amount: amount,
+    p_description: 'Transfer to member',
+    p_metadata: { chama_id: sender.chama_id, from_member_id: sender.id, to_member_id: recipient.id, method }
+  });
 
-  // Add to recipient
-  await supabase.from('chama_members')
-    .update({ mgr_balance: recipient.mgr_balance + amount })
-    .eq('id', recipient.id);
+  if (transferError) throw new Error(transferError.message);
 
   // Log audit trail
   await supabase.from('chama_audit_trail').insert({
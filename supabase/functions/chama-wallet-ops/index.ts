@@ -1,9 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { requestChamaApproval } from '../_shared/approvals.ts';
+import { hasPinStepUp, pinStepUpRequired } from '../_shared/pinStepUp.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-pin-token',
 };
 
 serve(async (req) => {
@@ -43,19 +45,29 @@ serve(async (req) => {
       throw new Error('You are not a member of this chama');
     }
 
+    // request_chama_approval(), consume_pin_step_up() and the ledger are only open to the service role
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    if ((operation === 'withdraw' || operation === 'send') && !(await hasPinStepUp(req, supabaseAdmin, user.id))) {
+      return pinStepUpRequired(corsHeaders);
+    }
+
     let result;
 
     switch (operation) {
       case 'topup':
-        result = await handleTopUp(supabaseClient, member, amount, chamaId);
+        result = await handleTopUp(supabaseClient, supabaseAdmin, member, amount, chamaId);
         break;
       
       case 'withdraw':
-        result = await handleWithdraw(supabaseClient, member, amount, chamaId, paymentMethod, recipient);
+        result = await handleWithdraw(supabaseClient, supabaseAdmin, member, amount, chamaId, paymentMethod, recipient);
         break;
       
       case 'send':
-        result = await handleSend(supabaseClient, member, amount, chamaId, recipient);
+        result = await handleSend(supabaseClient, supabaseAdmin, member, amount, chamaId, recipient);
         break;
       
       case 'unlock':
@@ -80,20 +92,15 @@ serve(async (req) => {
   }
 });
 
-async function handleTopUp(supabase: any, member: any, amount: number, chamaId: string) {
-  if (member.savings_balance < amount) {
-    throw new Error('Insufficient savings balance');
-  }
-
-  const { error: updateError } = await supabase
-    .from('chama_members')
-    .update({
-      savings_balance: member.savings_balance - amount,
-      mgr_balance: member.mgr_balance + amount
-    })
-    .eq('id', member.id);
+async function handleTopUp(supabase: any, supabaseAdmin: ReturnType<typeof createClient>, member: any, amount: number, chamaId: string) {
+  // Savings locked against loan guarantees cannot be moved; the check and
+  // the move happen together on the locked member row
+  const { data: balances, error: topUpError } = await supabaseAdmin.rpc('move_savings_to_mgr', {
+    p_member_id: member.id,
+    p_amount: amount
+  });
 
-  if (updateError) throw updateError;
+  if (topUpError) throw new Error(topUpError.message);
 
   await supabase
     .from('chama_wallet_transactions')
@@ -118,24 +125,40 @@ async function handleTopUp(supabase: any, member: any, amount: number, chamaId:
 
   return {
     message: `Successfully topped up KES ${amount} to your MGR wallet`,
-    data: { newSavingsBalance: member.savings_balance - amount, newMgrBalance: member.mgr_balance + amount }
+    data: { newSavingsBalance: balances.savings_balance, newMgrBalance: balances.mgr_balance }
   };
 }
 
-async function handleWithdraw(supabase: any, member: any, amount: number, chamaId: string, paymentMethod: string, recipient: string) {
+async function handleWithdraw(supabase: any, supabaseAdmin: ReturnType<typeof createClient>, member: any, amount: number, chamaId: string, paymentMethod: string, recipient: string) {
   // Allow withdrawals regardless of lock status
   if (member.mgr_balance < amount) {
     throw new Error('Insufficient MGR wallet balance');
   }
 
-  const { error: updateError } = await supabase
-    .from('chama_members')
-    .update({
-      mgr_balance: member.mgr_balance - amount
-    })
-    .eq('id', member.id);
+  // Withdrawals over the chama's threshold wait for approval
+  const approval = await requestChamaApproval(supabaseAdmin, {
+    chamaId,
+    memberId: member.id,
+    action: 'withdrawal',
+    title: `Withdraw KES ${amount} to ${paymentMethod}`,
+    amount,
+    payload: { member_id: member.id, payout_method: paymentMethod, payout_details: { recipient } },
+  });
+  if (approval) {
+    return { message: approval.message, data: approval };
+  }
+
+  // The MGR account is debited by the ledger, which refuses to go below zero
+  const payoutReference = `WD-${Date.now()}`;
+  const { data: payoutStatus, error: payoutError } = await supabaseAdmin.rpc('pay_out_member_mgr', {
+    p_member_id: member.id,
+    p_amount: amount,
+    p_method: paymentMethod,
+    p_reference: payoutReference,
+    p_metadata: { recipient }
+  });
 
-  if (updateError) throw updateError;
+  if (payoutError) throw new Error(payoutError.message);
 
   await supabase
     .from('chama_wallet_transactions')
@@ -147,7 +170,7 @@ async function handleWithdraw(supabase: any, member: any, amount: number, chamaI
       processed_by: member.id,
       payment_method: paymentMethod,
       payment_reference: recipient,
-      status: 'completed'
+      status: payoutStatus
     });
 
   await supabase
@@ -166,7 +189,7 @@ async function handleWithdraw(supabase: any, member: any, amount: number, chamaI
   };
 }
 
-async function handleSend(supabase: any, member: any, amount: number, chamaId: string, recipientMemberId: string) {
+async function handleSend(supabase: any, supabaseAdmin: ReturnType<typeof createClient>, member: any, amount: number, chamaId: string, recipientMemberId: string) {
   if (member.mgr_balance < amount) {
     throw new Error('Insufficient MGR wallet balance');
   }
@@ -183,23 +206,20 @@ async function handleSend(supabase: any, member: any, amount: number, chamaId: s
     throw new Error('Recipient not found');
   }
 
-  const { error: senderError } = await supabase
-    .from('chama_members')
-    .update({
-      mgr_balance: member.mgr_balance - amount
-    })
-    .eq('id', member.id);
-
-  if (senderError) throw senderError;
-
-  const { error: recipientUpdateError } = await supabase
-    .from('chama_members')
-    .update({
-      mgr_balance: recipient.mgr_balance + amount
-    })
-    .eq('id', recipientMemberId);
-
-  if (recipientUpdateError) throw recipientUpdateError;
+  // Both MGR accounts move in one ledger transaction, which locks them and
+  // refuses to overdraw the sender
+  const { data: transfer, error: transferError } = await supabaseAdmin.rpc('transfer_funds', {
+    p_transaction_type: 'mgr_transfer',
+    p_from_account_type: 'member_mgr',
+    p_from_account_id: member.id,
+    p_to_account_type: 'member_mgr',
+    p_to_account_id: recipient.id,
+    p_amount: amount,
+    p_description: 'Transfer to member',
+    p_metadata: { chama_id: chamaId, from_member_id: member.id, to_member_id: recipient.id }
+  });
+
+  if (transferError) throw new Error(transferError.message);
 
   await supabase
     .from('chama_wallet_transactions')
@@ -224,7 +244,7 @@ async function handleSend(supabase: any, member: any, amount: number, chamaId: s
 
   return {
     message: `Successfully sent KES ${amount} to member`,
-    data: { newMgrBalance: member.mgr_balance - amount }
+    data: { newMgrBalance: transfer.from_balance }
   };
 }
 
@@ -1,9 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { requestChamaApproval } from '../_shared/approvals.ts';
+import { getPreferredLanguage, translate } from '../_shared/i18n.ts';
+import { hasPinStepUp, pinStepUpRequired } from '../_shared/pinStepUp.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-pin-token',
 };
 
 serve(async (req) => {
@@ -23,6 +26,10 @@ serve(async (req) => {
 
     if (!user) throw new Error('Not authenticated');
 
+    if (!(await hasPinStepUp(req, supabase, user.id))) {
+      return pinStepUpRequired(corsHeaders);
+    }
+
     const { loanId, chamaId } = await req.json();
 
     console.log('Disbursing loan:', { loanId, chamaId });
@@ -48,6 +55,31 @@ serve(async (req) => {
 
     if (!loan) throw new Error('Loan not found');
 
+    const { data: chama } = await supabase
+      .from('chamas')
+      .select('currency')
+      .eq('id', chamaId)
+      .single();
+    const currency = chama?.currency ?? 'KES';
+
+    // Large disbursements wait for approval and are carried out by
+    // execute_chama_vote_action() once approved
+    const approval = await requestChamaApproval(supabase, {
+      chamaId,
+      memberId: adminMember.id,
+      action: 'loan_disbursement',
+      title: `Disburse loan of ${currency} ${loan.amount}`,
+      description: loan.purpose,
+      referenceId: loanId,
+      amount: Number(loan.amount),
+    });
+
+    if (approval) {
+      return new Response(JSON.stringify(approval), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     // Update loan to disbursed status
     await supabase
       .from('chama_loan_requests')
@@ -57,15 +89,16 @@ serve(async (req) => {
       })
       .eq('id', loanId);
 
-    // Send notification to borrower
+    // Send notification to borrower, in the language they use the app in
+    const borrowerLanguage = await getPreferredLanguage(supabase, loan.chama_members.user_id);
     await supabase
       .from('chama_notifications')
       .insert({
         chama_id: chamaId,
         user_id: loan.chama_members.user_id,
         type: 'loan',
-        title: 'Loan Disbursed',
-        message: 'Your loan has been disbursed. Please provide your payment details to receive the funds.',
+        title: translate(borrowerLanguage, 'notification.loan_disbursed.title'),
+        message: translate(borrowerLanguage, 'notification.loan_disbursed.message', { amount: Number(loan.amount), currency }),
         metadata: { loan_id: loanId }
       });
 
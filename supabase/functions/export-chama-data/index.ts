@@ -1,6 +1,7 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { authorizeExport, ExportAccessError, logExport } from '../_shared/exportAccess.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -20,7 +21,13 @@ serve(async (req) => {
 
     const { chamaId } = await req.json();
 
-    console.log('Exporting data for chama:', chamaId);
+    // A full export carries every member's contact details, so it is officers only
+    const caller = await authorizeExport(req, supabase, chamaId);
+    if (!caller.isOfficer) {
+      throw new ExportAccessError('Only chama admins and treasurers can export chama data', 403);
+    }
+
+    console.log('Exporting data for chama:', chamaId, 'by', caller.userId);
 
     // Get all chama data
     const [chamaResult, membersResult, contributionsResult, loansResult, activitiesResult] = await Promise.all([
@@ -46,6 +53,19 @@ serve(async (req) => {
       }
     };
 
+    await logExport(supabase, {
+      chamaId,
+      actorId: caller.userId,
+      action: 'data_export',
+      details: {
+        format: 'json',
+        members: exportData.summary.totalMembers,
+        contributions: exportData.contributions.length,
+        loans: exportData.loans.length,
+        activities: exportData.summary.totalActivities,
+      },
+    });
+
     return new Response(JSON.stringify(exportData), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
@@ -55,7 +75,7 @@ serve(async (req) => {
     return new Response(JSON.stringify({
       error: error instanceof Error ? error.message : 'Export failed'
     }), {
-      status: 500,
+      status: error instanceof ExportAccessError ? error.status : 500,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
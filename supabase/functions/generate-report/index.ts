@@ -1,11 +1,150 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { authorizeExport, ExportAccessError, logExport, maskEmail, maskPhone } from '../_shared/exportAccess.ts'
+import {
+  formatMoney,
+  renderStatementCsv,
+  renderStatementPdf,
+  Signatory,
+  StatementDocument,
+  toBase64,
+} from '../_shared/statements.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+type SupabaseClient = ReturnType<typeof createClient>;
+
+type ReportType = 'monthly_contribution' | 'loan_statement' | 'balance_sheet' | 'member_summary' | 'member_statement' | 'meeting_minutes';
+
+interface Member {
+  id: string;
+  user_id: string;
+  role: string | null;
+  is_active: boolean | null;
+  joined_at: string | null;
+  savings_balance: number | null;
+  total_contributed: number | null;
+  last_contribution_date: string | null;
+  name: string;
+  email: string;
+  phone: string;
+}
+
+interface Contribution {
+  id: string;
+  member_id: string;
+  amount: number;
+  contribution_date: string;
+  payment_method: string | null;
+  payment_reference: string | null;
+  status: string | null;
+}
+
+interface Loan {
+  id: string;
+  borrower_id: string;
+  amount: number;
+  interest_rate: number | null;
+  duration_months: number;
+  repaid_amount: number | null;
+  status: string | null;
+  due_date: string | null;
+  created_at: string;
+  approved_at: string | null;
+}
+
+interface Repayment {
+  loan_id: string;
+  amount: number;
+  payment_date: string | null;
+  created_at: string | null;
+  payment_method: string | null;
+}
+
+interface RoundShare {
+  round_id: string;
+  member_id: string;
+  contributed_amount: number;
+  deducted_amount: number;
+  mgr_rounds: { scheduled_date: string; round_number: number; closed_at: string | null };
+}
+
+interface MgrPayout {
+  recipient_member_id: string;
+  payout_amount: number;
+  closed_at: string;
+  round_number: number;
+}
+
+interface Meeting {
+  id: string;
+  title: string;
+  scheduled_at: string;
+  meeting_type: string;
+  location: string | null;
+  agenda: { position: number; title: string }[];
+  attendance: { member_id: string; status: string; checked_in_at: string | null }[];
+  minutes: { content: string; approved_at: string | null } | null;
+  resolutions: { resolution: string; outcome: string | null; vote: { title: string; status: string | null; outcome: string | null } | null }[];
+}
+
+interface MeetingFine {
+  meeting_id: string;
+  member_id: string;
+  reason: string;
+  amount: number;
+  status: string;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+interface ReportData {
+  chama: { name: string; currency: string; contribution_amount: number | null; contribution_frequency: string | null };
+  members: Member[];
+  contributions: Contribution[];
+  loans: Loan[];
+  repayments: Repayment[];
+  roundShares: RoundShare[];
+  payouts: MgrPayout[];
+  meetings: Meeting[];
+  fines: MeetingFine[];
+  from: string;
+  to: string;
+}
+
+const REPORT_TITLES: Record<ReportType, string> = {
+  monthly_contribution: 'Contribution Report',
+  loan_statement: 'Loan Statement',
+  balance_sheet: 'Balance Sheet',
+  member_summary: 'Member Summary',
+  member_statement: 'Member Statement',
+  meeting_minutes: 'Meeting Minutes',
+};
+
+// Days in one contribution period, used to work out what was expected in a range
+const FREQUENCY_DAYS: Record<string, number> = {
+  daily: 1,
+  weekly: 7,
+  'bi-weekly': 14,
+  monthly: 30,
+  quarterly: 91,
+};
+
+// Reports ordinary members may run; the rest are for admins and treasurers
+const MEMBER_REPORTS: ReportType[] = ['monthly_contribution', 'member_summary', 'member_statement', 'meeting_minutes'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const day = (value: string | null | undefined) => (value ?? '').slice(0, 10);
+const inRange = (value: string | null | undefined, from: string, to: string) => {
+  const d = day(value);
+  return d >= from && d <= to;
+};
+const sum = (values: number[]) => values.reduce((total, value) => total + Number(value || 0), 0);
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -17,304 +156,754 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    const { chamaId, reportType, format } = await req.json();
-    
-    console.log('Generating report:', { chamaId, reportType, format });
+    const { chamaId, reportType, format, from, to, signatories, ...body } = await req.json();
 
-    // Get chama data
-    const { data: chama, error: chamaError } = await supabase
-      .from('chamas')
-      .select('*')
-      .eq('id', chamaId)
-      .single();
-
-    if (chamaError) {
-      throw new Error('Chama not found');
+    if (!(reportType in REPORT_TITLES)) {
+      throw new Error('Unknown report type');
     }
 
-    // Get members data with user profiles
-    const { data: members, error: membersError } = await supabase
-      .from('chama_members')
-      .select('*')
-      .eq('chama_id', chamaId)
-      .eq('is_active', true);
+    const caller = await authorizeExport(req, supabase, chamaId);
 
-    if (membersError) {
-      console.error('Error fetching members:', membersError);
+    // Members get their own statement and the group reports, with other
+    // members' contact details masked
+    let memberId: string | undefined = body.memberId;
+    if (!caller.isOfficer) {
+      if (!MEMBER_REPORTS.includes(reportType)) {
+        throw new ExportAccessError('Only chama admins and treasurers can generate this report', 403);
+      }
+      if (reportType === 'member_statement') {
+        if (memberId && memberId !== caller.memberId) {
+          throw new ExportAccessError('You can only download your own statement', 403);
+        }
+        memberId = caller.memberId;
+      }
     }
 
-    // Fetch profiles separately for each member
-    const membersWithProfiles = await Promise.all(
-      (members || []).map(async (member) => {
-        const { data: profile } = await supabase
-          .from('profiles')
-          .select('full_name, email, phone_number')
-          .eq('user_id', member.user_id)
-          .single();
-        
-        return {
-          ...member,
-          profile: profile || { full_name: 'N/A', email: 'N/A', phone_number: 'N/A' }
-        };
-      })
-    );
+    console.log('Generating report:', { chamaId, reportType, format, from, to, memberId, by: caller.userId });
 
-    // Get contributions data
-    const { data: contributions, error: contributionsError } = await supabase
-      .from('chama_contributions_new')
-      .select('*')
-      .eq('chama_id', chamaId)
-      .order('contribution_date', { ascending: false });
-
-    if (contributionsError) {
-      console.error('Error fetching contributions:', contributionsError);
+    // Defaults to the current month to date
+    const today = new Date().toISOString().slice(0, 10);
+    const periodTo = to || today;
+    const periodFrom = from || `${periodTo.slice(0, 7)}-01`;
+    if (!DATE_PATTERN.test(periodFrom) || !DATE_PATTERN.test(periodTo) || periodFrom > periodTo) {
+      throw new Error('from and to must be dates (YYYY-MM-DD) with from on or before to');
     }
 
-    // Get loans data
-    const { data: loans, error: loansError } = await supabase
-      .from('chama_loans')
-      .select('*')
-      .eq('chama_id', chamaId)
-      .order('created_at', { ascending: false });
+    if (reportType === 'member_statement' && !memberId) {
+      throw new Error('memberId is required for a member statement');
+    }
 
-    if (loansError) {
-      console.error('Error fetching loans:', loansError);
+    const data = await loadReportData(supabase, chamaId, periodFrom, periodTo);
+    if (!caller.isOfficer) {
+      data.members = data.members.map((m) => m.id === caller.memberId
+        ? m
+        : { ...m, email: maskEmail(m.email) ?? 'N/A', phone: maskPhone(m.phone) ?? 'N/A' });
     }
 
+    const doc = buildReport(reportType as ReportType, data, memberId);
+    doc.signatories = resolveSignatories(reportType as ReportType, data.members, signatories);
+
+    const fileName = `${slug(data.chama.name)}_${reportType}_${periodFrom}_${periodTo}`;
+
+    await logExport(supabase, {
+      chamaId,
+      actorId: caller.userId,
+      action: 'report_export',
+      targetId: memberId ? data.members.find((m) => m.id === memberId)?.user_id : null,
+      details: {
+        report_type: reportType,
+        format,
+        from: periodFrom,
+        to: periodTo,
+        member_id: memberId ?? null,
+        masked: !caller.isOfficer,
+      },
+    });
+
     if (format === 'csv') {
-      // Generate CSV content
-      let csvContent = '';
-      
-      switch (reportType) {
-        case 'monthly_contribution':
-          csvContent = 'Member Name,Email,Amount Contributed,Date,Status\n';
-          const currentMonth = new Date().getMonth();
-          const monthlyContributions = contributions?.filter(c => 
-            new Date(c.contribution_date).getMonth() === currentMonth
-          ) || [];
-          
-          membersWithProfiles?.forEach(member => {
-            const memberContributions = monthlyContributions.filter(c => c.member_id === member.id);
-            const totalContributed = memberContributions.reduce((sum, c) => sum + c.amount, 0);
-            const status = totalContributed >= chama.contribution_amount ? 'Complete' : 'Pending';
-            csvContent += `"${member.profile?.full_name || 'N/A'}","${member.profile?.email || 'N/A'}",${totalContributed},"${memberContributions[0]?.contribution_date || 'No contribution'}","${status}"\n`;
-          });
-          break;
-          
-        case 'loan_statement':
-          csvContent = 'Borrower,Amount,Interest Rate,Duration,Repaid Amount,Status,Due Date\n';
-          loans?.forEach(loan => {
-            csvContent += `"Member ${loan.borrower_id}",${loan.amount},${loan.interest_rate}%,${loan.duration_months} months,${loan.repaid_amount || 0},"${loan.status}","${loan.due_date || 'N/A'}"\n`;
-          });
-          break;
-          
-        case 'balance_sheet':
-          const totalContributions = contributions?.reduce((sum, c) => sum + c.amount, 0) || 0;
-          const totalLoans = loans?.reduce((sum, l) => sum + l.amount, 0) || 0;
-          const totalRepayments = loans?.reduce((sum, l) => sum + (l.repaid_amount || 0), 0) || 0;
-          
-          csvContent = 'Item,Amount\n';
-          csvContent += `"Cash (Total Contributions)",${totalContributions}\n`;
-          csvContent += `"Loans Receivable",${totalLoans - totalRepayments}\n`;
-          csvContent += `"Total Assets",${totalContributions + totalLoans - totalRepayments}\n`;
-          csvContent += `"Member Savings",${totalContributions}\n`;
-          csvContent += `"Retained Earnings",${totalRepayments - totalLoans}\n`;
-          break;
-          
-        case 'member_summary':
-          csvContent = 'Member Name,Email,Total Contributed,Last Contribution,Role,Status\n';
-          membersWithProfiles?.forEach(member => {
-            csvContent += `"${member.profile?.full_name || 'N/A'}","${member.profile?.email || 'N/A'}",${member.total_contributed || 0},"${member.last_contribution_date || 'Never'}","${member.role}","${member.is_active ? 'Active' : 'Inactive'}"\n`;
-          });
-          break;
-      }
-      
       return new Response(JSON.stringify({
         success: true,
-        csvData: csvContent,
+        csvData: renderStatementCsv(doc),
+        fileName: `${fileName}.csv`,
         message: 'CSV report generated successfully'
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    // Generate report content for PDF/Email (existing HTML generation)
-    let reportContent = '';
-    const currentDate = new Date().toLocaleDateString();
-
-    switch (reportType) {
-      case 'monthly_contribution':
-        const currentMonth = new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long' });
-        const monthlyContributions = contributions?.filter(c => 
-          new Date(c.contribution_date).getMonth() === new Date().getMonth()
-        ) || [];
-        
-        reportContent = `
-          <h1>${chama.name} - Monthly Contribution Report</h1>
-          <h2>Period: ${currentMonth}</h2>
-          <p>Generated on: ${currentDate}</p>
-          
-          <h3>Summary</h3>
-          <p>Total Members: ${membersWithProfiles?.length || 0}</p>
-          <p>Total Contributions This Month: KES ${monthlyContributions.reduce((sum, c) => sum + c.amount, 0).toLocaleString()}</p>
-          <p>Expected Monthly Collection: KES ${(chama.contribution_amount * (membersWithProfiles?.length || 0)).toLocaleString()}</p>
-          
-          <h3>Member Contributions</h3>
-          <table border="1" style="width: 100%; border-collapse: collapse;">
-            <thead>
-              <tr>
-                <th>Member Name</th>
-                <th>Email</th>
-                <th>Amount Contributed</th>
-                <th>Date</th>
-                <th>Status</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${membersWithProfiles?.map(member => {
-                const memberContributions = monthlyContributions.filter(c => c.member_id === member.id);
-                const totalContributed = memberContributions.reduce((sum, c) => sum + c.amount, 0);
-                return `
-                  <tr>
-                    <td>${member.profile?.full_name || 'N/A'}</td>
-                    <td>${member.profile?.email || 'N/A'}</td>
-                    <td>KES ${totalContributed.toLocaleString()}</td>
-                    <td>${memberContributions[0]?.contribution_date || 'No contribution'}</td>
-                    <td>${totalContributed >= chama.contribution_amount ? 'Complete' : 'Pending'}</td>
-                  </tr>
-                `;
-              }).join('') || '<tr><td colspan="5">No data available</td></tr>'}
-            </tbody>
-          </table>
-        `;
-        break;
-
-      case 'loan_statement':
-        reportContent = `
-          <h1>${chama.name} - Loan Statement</h1>
-          <p>Generated on: ${currentDate}</p>
-          
-          <h3>Loan Portfolio Summary</h3>
-          <p>Total Active Loans: ${loans?.filter(l => l.status === 'active').length || 0}</p>
-          <p>Total Loan Amount: KES ${loans?.reduce((sum, l) => sum + l.amount, 0).toLocaleString() || 0}</p>
-          <p>Total Repaid: KES ${loans?.reduce((sum, l) => sum + (l.repaid_amount || 0), 0).toLocaleString() || 0}</p>
-          
-          <h3>Loan Details</h3>
-          <table border="1" style="width: 100%; border-collapse: collapse;">
-            <thead>
-              <tr>
-                <th>Borrower</th>
-                <th>Amount</th>
-                <th>Interest Rate</th>
-                <th>Duration</th>
-                <th>Repaid Amount</th>
-                <th>Status</th>
-                <th>Due Date</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${loans?.map(loan => `
-                <tr>
-                  <td>Member ${loan.borrower_id}</td>
-                  <td>KES ${loan.amount.toLocaleString()}</td>
-                  <td>${loan.interest_rate}%</td>
-                  <td>${loan.duration_months} months</td>
-                  <td>KES ${(loan.repaid_amount || 0).toLocaleString()}</td>
-                  <td>${loan.status}</td>
-                  <td>${loan.due_date || 'N/A'}</td>
-                </tr>
-              `).join('') || '<tr><td colspan="7">No loans available</td></tr>'}
-            </tbody>
-          </table>
-        `;
-        break;
-
-      case 'balance_sheet':
-        const totalContributions = contributions?.reduce((sum, c) => sum + c.amount, 0) || 0;
-        const totalLoans = loans?.reduce((sum, l) => sum + l.amount, 0) || 0;
-        const totalRepayments = loans?.reduce((sum, l) => sum + (l.repaid_amount || 0), 0) || 0;
-        
-        reportContent = `
-          <h1>${chama.name} - Balance Sheet</h1>
-          <p>Generated on: ${currentDate}</p>
-          
-          <h3>Assets</h3>
-          <table border="1" style="width: 100%; border-collapse: collapse;">
-            <tr><td>Cash (Total Contributions)</td><td>KES ${totalContributions.toLocaleString()}</td></tr>
-            <tr><td>Loans Receivable</td><td>KES ${(totalLoans - totalRepayments).toLocaleString()}</td></tr>
-            <tr><td><strong>Total Assets</strong></td><td><strong>KES ${(totalContributions + totalLoans - totalRepayments).toLocaleString()}</strong></td></tr>
-          </table>
-          
-          <h3>Liabilities & Equity</h3>
-          <table border="1" style="width: 100%; border-collapse: collapse;">
-            <tr><td>Member Savings</td><td>KES ${totalContributions.toLocaleString()}</td></tr>
-            <tr><td>Retained Earnings</td><td>KES ${(totalRepayments - totalLoans).toLocaleString()}</td></tr>
-            <tr><td><strong>Total Liabilities & Equity</strong></td><td><strong>KES ${totalContributions.toLocaleString()}</strong></td></tr>
-          </table>
-        `;
-        break;
-
-      case 'member_summary':
-        reportContent = `
-          <h1>${chama.name} - Member Summary</h1>
-          <p>Generated on: ${currentDate}</p>
-          
-          <h3>Member Activity Summary</h3>
-          <table border="1" style="width: 100%; border-collapse: collapse;">
-            <thead>
-              <tr>
-                <th>Member Name</th>
-                <th>Email</th>
-                <th>Total Contributed</th>
-                <th>Last Contribution</th>
-                <th>Role</th>
-                <th>Status</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${membersWithProfiles?.map(member => `
-                <tr>
-                  <td>${member.profile?.full_name || 'N/A'}</td>
-                  <td>${member.profile?.email || 'N/A'}</td>
-                  <td>KES ${(member.total_contributed || 0).toLocaleString()}</td>
-                  <td>${member.last_contribution_date || 'Never'}</td>
-                  <td>${member.role}</td>
-                  <td>${member.is_active ? 'Active' : 'Inactive'}</td>
-                </tr>
-              `).join('') || '<tr><td colspan="6">No members available</td></tr>'}
-            </tbody>
-          </table>
-        `;
-        break;
-    }
-
     if (format === 'pdf') {
-      // For PDF format
+      const pdfBytes = await renderStatementPdf(doc);
       return new Response(JSON.stringify({
         success: true,
-        pdfData: reportContent,
+        pdfBase64: toBase64(pdfBytes),
+        fileName: `${fileName}.pdf`,
         message: 'Report generated successfully'
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
-    } else {
-      // Email format
-      return new Response(JSON.stringify({
-        success: true,
-        message: 'Report sent to email successfully'
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
     }
 
+    // Email format
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'Report sent to email successfully'
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
   } catch (error) {
     console.error('Report generation error:', error);
     return new Response(JSON.stringify({
       success: false,
       error: error instanceof Error ? error.message : 'Report generation failed'
     }), {
-      status: 500,
+      status: error instanceof ExportAccessError ? error.status : 500,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
-});
\ No newline at end of file
+});
+
+function slug(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'chama';
+}
+
+async function loadReportData(supabase: SupabaseClient, chamaId: string, from: string, to: string): Promise<ReportData> {
+  const { data: chama, error: chamaError } = await supabase
+    .from('chamas')
+    .select('name, currency, contribution_amount, contribution_frequency')
+    .eq('id', chamaId)
+    .single();
+
+  if (chamaError || !chama) {
+    throw new Error('Chama not found');
+  }
+
+  // Everything up to the end of the range is loaded so opening balances can be worked out
+  const toEnd = `${to}T23:59:59.999Z`;
+
+  const [membersResult, contributionsResult, loansResult, sharesResult, payoutsResult, meetingsResult, finesResult] = await Promise.all([
+    supabase
+      .from('chama_members')
+      .select('id, user_id, role, is_active, joined_at, savings_balance, total_contributed, last_contribution_date')
+      .eq('chama_id', chamaId),
+    supabase
+      .from('chama_contributions_new')
+      .select('id, member_id, amount, contribution_date, payment_method, payment_reference, status')
+      .eq('chama_id', chamaId)
+      .eq('status', 'completed')
+      .lte('contribution_date', toEnd)
+      .order('contribution_date', { ascending: true }),
+    supabase
+      .from('chama_loans')
+      .select('id, borrower_id, amount, interest_rate, duration_months, repaid_amount, status, due_date, created_at, approved_at')
+      .eq('chama_id', chamaId)
+      .lte('created_at', toEnd)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('mgr_round_contributions')
+      .select('round_id, member_id, contributed_amount, deducted_amount, mgr_rounds!inner(chama_id, scheduled_date, round_number, closed_at)')
+      .eq('mgr_rounds.chama_id', chamaId)
+      .lte('mgr_rounds.closed_at', toEnd),
+    supabase
+      .from('mgr_rounds')
+      .select('recipient_member_id, payout_amount, closed_at, round_number')
+      .eq('chama_id', chamaId)
+      .eq('status', 'paid')
+      .lte('closed_at', toEnd),
+    supabase
+      .from('chama_meetings')
+      .select(`
+        id, title, scheduled_at, meeting_type, location,
+        agenda:chama_meeting_agenda_items(position, title),
+        attendance:chama_meeting_attendance(member_id, status, checked_in_at),
+        minutes:chama_meeting_minutes(content, approved_at),
+        resolutions:chama_meeting_resolutions(resolution, outcome, vote:chama_votes(title, status, outcome))
+      `)
+      .eq('chama_id', chamaId)
+      .eq('status', 'completed')
+      .gte('scheduled_at', from)
+      .lte('scheduled_at', toEnd)
+      .order('scheduled_at', { ascending: true }),
+    supabase
+      .from('chama_meeting_fines')
+      .select('meeting_id, member_id, reason, amount, status, created_at, resolved_at')
+      .eq('chama_id', chamaId)
+      .lte('created_at', toEnd)
+      .order('created_at', { ascending: true }),
+  ]);
+
+  for (const result of [membersResult, contributionsResult, loansResult, sharesResult, payoutsResult, meetingsResult, finesResult]) {
+    if (result.error) throw new Error(result.error.message);
+  }
+
+  const rawMembers = membersResult.data ?? [];
+  const { data: profiles } = await supabase
+    .from('profiles')
+    .select('user_id, full_name, email, phone_number')
+    .in('user_id', rawMembers.map((m) => m.user_id));
+
+  const members: Member[] = rawMembers.map((member) => {
+    const profile = profiles?.find((p) => p.user_id === member.user_id);
+    return {
+      ...member,
+      name: profile?.full_name || profile?.email || 'Member',
+      email: profile?.email || 'N/A',
+      phone: profile?.phone_number || 'N/A',
+    } as Member;
+  });
+
+  const loans = (loansResult.data ?? []) as Loan[];
+  const { data: repayments, error: repaymentsError } = loans.length > 0
+    ? await supabase
+      .from('chama_loan_repayments')
+      .select('loan_id, amount, payment_date, created_at, payment_method')
+      .in('loan_id', loans.map((l) => l.id))
+      .order('payment_date', { ascending: true })
+    : { data: [], error: null };
+
+  if (repaymentsError) throw new Error(repaymentsError.message);
+
+  return {
+    chama,
+    members,
+    contributions: (contributionsResult.data ?? []) as Contribution[],
+    loans,
+    repayments: ((repayments ?? []) as Repayment[]).filter((r) => day(r.payment_date ?? r.created_at) <= to),
+    roundShares: (sharesResult.data ?? []) as unknown as RoundShare[],
+    payouts: (payoutsResult.data ?? []) as MgrPayout[],
+    meetings: (meetingsResult.data ?? []) as unknown as Meeting[],
+    fines: (finesResult.data ?? []) as MeetingFine[],
+    from,
+    to,
+  };
+}
+
+function buildReport(reportType: ReportType, data: ReportData, memberId?: string): StatementDocument {
+  const doc: StatementDocument = {
+    chamaName: data.chama.name,
+    title: REPORT_TITLES[reportType],
+    periodFrom: data.from,
+    periodTo: data.to,
+    generatedAt: new Date().toISOString().replace('T', ' ').slice(0, 16) + ' UTC',
+    summary: [],
+    sections: [],
+    signatories: [],
+  };
+
+  switch (reportType) {
+    case 'monthly_contribution':
+      return contributionReport(doc, data);
+    case 'loan_statement':
+      return loanStatement(doc, data);
+    case 'balance_sheet':
+      return balanceSheet(doc, data);
+    case 'member_summary':
+      return memberSummary(doc, data);
+    case 'member_statement':
+      return memberStatement(doc, data, memberId!);
+    case 'meeting_minutes':
+      return meetingMinutes(doc, data);
+  }
+}
+
+function memberName(data: ReportData, memberId: string) {
+  return data.members.find((m) => m.id === memberId)?.name ?? 'Former member';
+}
+
+// Older loans only carry repaid_amount, without individual repayment rows
+function loanRepaid(data: ReportData, loan: Loan, until: string) {
+  const repayments = data.repayments.filter((r) => r.loan_id === loan.id);
+  if (repayments.length === 0) return Number(loan.repaid_amount ?? 0);
+  return sum(repayments
+    .filter((r) => day(r.payment_date ?? r.created_at) <= until)
+    .map((r) => r.amount));
+}
+
+function contributionReport(doc: StatementDocument, data: ReportData): StatementDocument {
+  const periodDays = (Date.parse(data.to) - Date.parse(data.from)) / 86_400_000 + 1;
+  const frequencyDays = FREQUENCY_DAYS[(data.chama.contribution_frequency ?? 'monthly').toLowerCase()] ?? 30;
+  const periods = Math.max(1, Math.round(periodDays / frequencyDays));
+  const expectedPerMember = Number(data.chama.contribution_amount ?? 0) * periods;
+
+  const inPeriod = data.contributions.filter((c) => inRange(c.contribution_date, data.from, data.to));
+  const activeMembers = data.members.filter((m) => m.is_active);
+
+  const rows = activeMembers.map((member) => {
+    const paid = sum(inPeriod.filter((c) => c.member_id === member.id).map((c) => c.amount));
+    const last = inPeriod.filter((c) => c.member_id === member.id).at(-1);
+    return [
+      member.name,
+      formatMoney(expectedPerMember, data.chama.currency),
+      formatMoney(paid, data.chama.currency),
+      formatMoney(Math.max(expectedPerMember - paid, 0), data.chama.currency),
+      last ? day(last.contribution_date) : 'None',
+      paid >= expectedPerMember ? 'Complete' : paid > 0 ? 'Partial' : 'Pending',
+    ];
+  });
+
+  const total = sum(inPeriod.map((c) => c.amount));
+
+  doc.summary = [
+    ['Active members', String(activeMembers.length)],
+    ['Contribution periods in range', `${periods} (${data.chama.contribution_frequency ?? 'monthly'})`],
+    ['Expected collection', formatMoney(expectedPerMember * activeMembers.length, data.chama.currency)],
+    ['Total collected', formatMoney(total, data.chama.currency)],
+  ];
+
+  doc.sections = [
+    {
+      title: 'Contributions by member',
+      columns: [
+        { header: 'Member', width: 3 },
+        { header: 'Expected', width: 2, align: 'right' },
+        { header: 'Paid', width: 2, align: 'right' },
+        { header: 'Balance', width: 2, align: 'right' },
+        { header: 'Last paid', width: 1.6 },
+        { header: 'Status', width: 1.4 },
+      ],
+      rows,
+      footer: ['Total', formatMoney(expectedPerMember * activeMembers.length, data.chama.currency), formatMoney(total, data.chama.currency), '', '', ''],
+    },
+    {
+      title: 'Contribution receipts',
+      columns: [
+        { header: 'Date', width: 1.6 },
+        { header: 'Member', width: 3 },
+        { header: 'Method', width: 1.4 },
+        { header: 'Reference', width: 2.6 },
+        { header: 'Amount', width: 2, align: 'right' },
+      ],
+      rows: inPeriod.map((c) => [
+        day(c.contribution_date),
+        memberName(data, c.member_id),
+        c.payment_method ?? '',
+        c.payment_reference ?? '',
+        formatMoney(c.amount, data.chama.currency),
+      ]),
+    },
+  ];
+
+  return doc;
+}
+
+function loanStatement(doc: StatementDocument, data: ReportData): StatementDocument {
+  const rows = data.loans.map((loan) => {
+    const repaidToDate = loanRepaid(data, loan, data.to);
+    const repaidInPeriod = sum(data.repayments
+      .filter((r) => r.loan_id === loan.id && inRange(r.payment_date ?? r.created_at, data.from, data.to))
+      .map((r) => r.amount));
+    const totalDue = loan.amount * (1 + Number(loan.interest_rate ?? 0) / 100);
+    return [
+      memberName(data, loan.borrower_id),
+      day(loan.approved_at ?? loan.created_at),
+      formatMoney(loan.amount, data.chama.currency),
+      `${loan.interest_rate ?? 0}%`,
+      formatMoney(repaidInPeriod, data.chama.currency),
+      formatMoney(repaidToDate, data.chama.currency),
+      formatMoney(Math.max(totalDue - repaidToDate, 0), data.chama.currency),
+      loan.status ?? '',
+      day(loan.due_date) || 'N/A',
+    ];
+  });
+
+  const issuedInPeriod = data.loans.filter((l) => inRange(l.created_at, data.from, data.to));
+
+  doc.summary = [
+    ['Loans on book', String(data.loans.length)],
+    ['Active loans', String(data.loans.filter((l) => l.status === 'active').length)],
+    ['Issued in period', `${issuedInPeriod.length} (${formatMoney(sum(issuedInPeriod.map((l) => l.amount)), data.chama.currency)})`],
+    ['Repaid in period', formatMoney(sum(data.repayments.filter((r) => inRange(r.payment_date ?? r.created_at, data.from, data.to)).map((r) => r.amount)), data.chama.currency)],
+  ];
+
+  doc.sections = [{
+    title: 'Loan portfolio',
+    columns: [
+      { header: 'Borrower', width: 2.4 },
+      { header: 'Issued', width: 1.5 },
+      { header: 'Principal', width: 1.8, align: 'right' },
+      { header: 'Rate', width: 0.8, align: 'right' },
+      { header: 'Repaid (period)', width: 1.8, align: 'right' },
+      { header: 'Repaid (total)', width: 1.8, align: 'right' },
+      { header: 'Outstanding', width: 1.8, align: 'right' },
+      { header: 'Status', width: 1.2 },
+      { header: 'Due', width: 1.4 },
+    ],
+    rows,
+  }];
+
+  return doc;
+}
+
+function balanceSheet(doc: StatementDocument, data: ReportData): StatementDocument {
+  const contributions = sum(data.contributions.map((c) => c.amount));
+  const disbursed = sum(data.loans.filter((l) => l.status !== 'pending' && l.status !== 'rejected').map((l) => l.amount));
+  const repaid = sum(data.loans.map((l) => loanRepaid(data, l, data.to)));
+  const paidOut = sum(data.payouts.map((p) => p.payout_amount));
+
+  const loansReceivable = Math.max(disbursed - repaid, 0);
+  const cash = contributions + repaid - disbursed - paidOut;
+  const totalAssets = cash + loansReceivable;
+  const memberSavings = contributions - paidOut;
+  const retained = totalAssets - memberSavings;
+
+  doc.subtitle = `Position as at ${data.to}`;
+  doc.summary = [
+    ['Total assets', formatMoney(totalAssets, data.chama.currency)],
+    ['Member savings', formatMoney(memberSavings, data.chama.currency)],
+  ];
+
+  const columns = [{ header: 'Item', width: 4 }, { header: 'Amount', width: 2, align: 'right' as const }];
+  doc.sections = [
+    {
+      title: 'Assets',
+      columns,
+      rows: [
+        ['Cash at hand and in wallet', formatMoney(cash, data.chama.currency)],
+        ['Loans receivable', formatMoney(loansReceivable, data.chama.currency)],
+      ],
+      footer: ['Total assets', formatMoney(totalAssets, data.chama.currency)],
+    },
+    {
+      title: 'Liabilities and equity',
+      columns,
+      rows: [
+        ['Member savings (contributions less merry-go-round payouts)', formatMoney(memberSavings, data.chama.currency)],
+        ['Retained earnings', formatMoney(retained, data.chama.currency)],
+      ],
+      footer: ['Total liabilities and equity', formatMoney(memberSavings + retained, data.chama.currency)],
+    },
+  ];
+
+  return doc;
+}
+
+function memberSummary(doc: StatementDocument, data: ReportData): StatementDocument {
+  const rows = data.members.map((member) => {
+    const periodPaid = sum(data.contributions
+      .filter((c) => c.member_id === member.id && inRange(c.contribution_date, data.from, data.to))
+      .map((c) => c.amount));
+    const totalPaid = sum(data.contributions.filter((c) => c.member_id === member.id).map((c) => c.amount));
+    const outstanding = sum(data.loans
+      .filter((l) => l.borrower_id === member.id && l.status === 'active')
+      .map((l) => l.amount * (1 + Number(l.interest_rate ?? 0) / 100) - loanRepaid(data, l, data.to)));
+    return [
+      member.name,
+      member.phone,
+      member.role ?? 'member',
+      day(member.joined_at),
+      formatMoney(periodPaid, data.chama.currency),
+      formatMoney(totalPaid, data.chama.currency),
+      formatMoney(member.savings_balance, data.chama.currency),
+      formatMoney(Math.max(outstanding, 0), data.chama.currency),
+      member.is_active ? 'Active' : 'Inactive',
+    ];
+  });
+
+  doc.summary = [
+    ['Members', String(data.members.length)],
+    ['Active members', String(data.members.filter((m) => m.is_active).length)],
+    ['Contributed in period', formatMoney(sum(data.contributions.filter((c) => inRange(c.contribution_date, data.from, data.to)).map((c) => c.amount)), data.chama.currency)],
+  ];
+
+  doc.sections = [{
+    title: 'Member standings',
+    columns: [
+      { header: 'Member', width: 2.6 },
+      { header: 'Phone', width: 1.6 },
+      { header: 'Role', width: 1.2 },
+      { header: 'Joined', width: 1.4 },
+      { header: 'Paid (period)', width: 1.8, align: 'right' },
+      { header: 'Paid (total)', width: 1.8, align: 'right' },
+      { header: 'Savings', width: 1.8, align: 'right' },
+      { header: 'Loan balance', width: 1.8, align: 'right' },
+      { header: 'Status', width: 1.1 },
+    ],
+    rows,
+  }];
+
+  return doc;
+}
+
+interface StatementEntry {
+  date: string;
+  description: string;
+  reference: string;
+  credit: number;
+  debit: number;
+}
+
+function runningBalance(entries: StatementEntry[], from: string, to: string, currency: string) {
+  const sorted = [...entries].sort((a, b) => a.date.localeCompare(b.date));
+  const opening = sum(sorted.filter((e) => e.date < from).map((e) => e.credit - e.debit));
+  let balance = opening;
+  const rows = sorted
+    .filter((e) => e.date >= from && e.date <= to)
+    .map((e) => {
+      balance += e.credit - e.debit;
+      return [
+        e.date,
+        e.description,
+        e.reference,
+        e.debit ? formatMoney(e.debit, currency) : '',
+        e.credit ? formatMoney(e.credit, currency) : '',
+        formatMoney(balance, currency),
+      ];
+    });
+  return { opening, closing: balance, rows };
+}
+
+function memberStatement(doc: StatementDocument, data: ReportData, memberId: string): StatementDocument {
+  const member = data.members.find((m) => m.id === memberId);
+  if (!member) {
+    throw new Error('Member not found in this chama');
+  }
+
+  // Savings: contributions in, merry-go-round pot shares out
+  const savingsEntries: StatementEntry[] = [
+    ...data.contributions
+      .filter((c) => c.member_id === memberId)
+      .map((c) => ({
+        date: day(c.contribution_date),
+        description: `Contribution${c.payment_method ? ` (${c.payment_method})` : ''}`,
+        reference: c.payment_reference ?? '',
+        credit: Number(c.amount),
+        debit: 0,
+      })),
+    ...data.roundShares
+      .filter((s) => s.member_id === memberId)
+      .map((s) => ({
+        date: day(s.mgr_rounds.closed_at ?? s.mgr_rounds.scheduled_date),
+        description: `Merry-go-round round ${s.mgr_rounds.round_number} pot${Number(s.deducted_amount) > 0 ? ' (incl. shortfall from savings)' : ''}`,
+        reference: '',
+        credit: 0,
+        debit: Number(s.contributed_amount) + Number(s.deducted_amount),
+      })),
+  ];
+
+  // Loans: disbursements increase what is owed, repayments reduce it
+  const memberLoans = data.loans.filter((l) => l.borrower_id === memberId && l.status !== 'pending' && l.status !== 'rejected');
+  const loanEntries: StatementEntry[] = [
+    ...memberLoans.map((l) => ({
+      date: day(l.approved_at ?? l.created_at),
+      description: `Loan issued at ${l.interest_rate ?? 0}% over ${l.duration_months} months`,
+      reference: l.id.slice(0, 8),
+      credit: l.amount * (1 + Number(l.interest_rate ?? 0) / 100),
+      debit: 0,
+    })),
+    ...data.repayments
+      .filter((r) => memberLoans.some((l) => l.id === r.loan_id))
+      .map((r) => ({
+        date: day(r.payment_date ?? r.created_at),
+        description: `Loan repayment${r.payment_method ? ` (${r.payment_method})` : ''}`,
+        reference: r.loan_id.slice(0, 8),
+        credit: 0,
+        debit: Number(r.amount),
+      })),
+    ...memberLoans
+      .filter((l) => Number(l.repaid_amount ?? 0) > 0 && !data.repayments.some((r) => r.loan_id === l.id))
+      .map((l) => ({
+        date: day(l.approved_at ?? l.created_at),
+        description: 'Repayments recorded before itemised history',
+        reference: l.id.slice(0, 8),
+        credit: 0,
+        debit: Number(l.repaid_amount),
+      })),
+  ];
+
+  // Meeting fines: levied fines are owed, paying or waiving one clears it
+  const meetingTitle = (meetingId: string) => data.meetings.find((m) => m.id === meetingId)?.title ?? 'meeting';
+  const fineEntries: StatementEntry[] = data.fines
+    .filter((f) => f.member_id === memberId)
+    .flatMap((f) => [
+      {
+        date: day(f.created_at),
+        description: `${f.reason === 'absence' ? 'Absence' : 'Lateness'} fine (${meetingTitle(f.meeting_id)})`,
+        reference: f.meeting_id.slice(0, 8),
+        credit: Number(f.amount),
+        debit: 0,
+      },
+      ...(f.status !== 'outstanding' && f.resolved_at
+        ? [{
+          date: day(f.resolved_at),
+          description: f.status === 'paid' ? 'Fine paid' : 'Fine waived',
+          reference: f.meeting_id.slice(0, 8),
+          credit: 0,
+          debit: Number(f.amount),
+        }]
+        : []),
+    ]);
+
+  const savings = runningBalance(savingsEntries, data.from, data.to, data.chama.currency);
+  const loans = runningBalance(loanEntries, data.from, data.to, data.chama.currency);
+  const fines = runningBalance(fineEntries, data.from, data.to, data.chama.currency);
+  const payouts = data.payouts.filter((p) => p.recipient_member_id === memberId && inRange(p.closed_at, data.from, data.to));
+
+  const columns = [
+    { header: 'Date', width: 1.4 },
+    { header: 'Description', width: 4 },
+    { header: 'Reference', width: 1.8 },
+    { header: 'Debit', width: 1.6, align: 'right' as const },
+    { header: 'Credit', width: 1.6, align: 'right' as const },
+    { header: 'Balance', width: 1.8, align: 'right' as const },
+  ];
+
+  doc.subtitle = `${member.name} - ${member.phone !== 'N/A' ? member.phone : member.email}`;
+  doc.summary = [
+    ['Member since', day(member.joined_at) || 'N/A'],
+    ['Savings opening balance', formatMoney(savings.opening, data.chama.currency)],
+    ['Savings closing balance', formatMoney(savings.closing, data.chama.currency)],
+    ['Loan balance at close', formatMoney(loans.closing, data.chama.currency)],
+    ['Meeting fines outstanding', formatMoney(fines.closing, data.chama.currency)],
+    ['Merry-go-round payouts received', formatMoney(sum(payouts.map((p) => p.payout_amount)), data.chama.currency)],
+  ];
+
+  doc.sections = [
+    {
+      title: 'Savings account',
+      columns,
+      rows: [['', 'Opening balance', '', '', '', formatMoney(savings.opening, data.chama.currency)], ...savings.rows],
+      footer: ['', 'Closing balance', '', '', '', formatMoney(savings.closing, data.chama.currency)],
+    },
+    {
+      title: 'Loan account',
+      columns,
+      rows: [['', 'Opening balance', '', '', '', formatMoney(loans.opening, data.chama.currency)], ...loans.rows],
+      footer: ['', 'Closing balance', '', '', '', formatMoney(loans.closing, data.chama.currency)],
+    },
+  ];
+
+  if (fineEntries.length > 0) {
+    doc.sections.push({
+      title: 'Meeting fines',
+      columns,
+      rows: [['', 'Opening balance', '', '', '', formatMoney(fines.opening, data.chama.currency)], ...fines.rows],
+      footer: ['', 'Closing balance', '', '', '', formatMoney(fines.closing, data.chama.currency)],
+    });
+  }
+
+  if (payouts.length > 0) {
+    doc.sections.push({
+      title: 'Merry-go-round payouts',
+      columns: [{ header: 'Date', width: 1.4 }, { header: 'Round', width: 4 }, { header: 'Amount', width: 2, align: 'right' }],
+      rows: payouts.map((p) => [day(p.closed_at), `Round ${p.round_number}`, formatMoney(p.payout_amount, data.chama.currency)]),
+    });
+  }
+
+  return doc;
+}
+
+// Table cells are a single line, so long minutes are split into rows
+function wrapText(text: string, width = 95): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      if (line && line.length + word.length + 1 > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+const ATTENDANCE_LABELS: Record<string, string> = {
+  present: 'Present',
+  late: 'Late',
+  absent: 'Absent',
+  excused: 'Absent with apology',
+};
+
+function resolutionOutcome(resolution: Meeting['resolutions'][number]) {
+  if (!resolution.vote) return resolution.outcome === 'adopted' ? 'Adopted' : 'Rejected';
+  if (resolution.vote.outcome === 'passed') return `Passed by vote: ${resolution.vote.title}`;
+  if (resolution.vote.outcome) return `Not passed (${resolution.vote.outcome.replace('_', ' ')}): ${resolution.vote.title}`;
+  return `Vote open: ${resolution.vote.title}`;
+}
+
+function meetingMinutes(doc: StatementDocument, data: ReportData): StatementDocument {
+  const count = (meeting: Meeting, ...statuses: string[]) =>
+    meeting.attendance.filter((a) => statuses.includes(a.status)).length;
+  const meetingFines = (meeting: Meeting) =>
+    data.fines.filter((f) => f.meeting_id === meeting.id && f.status !== 'waived');
+
+  doc.summary = [
+    ['Meetings held', String(data.meetings.length)],
+    ['Resolutions passed', String(data.meetings.flatMap((m) => m.resolutions).filter((r) => r.vote ? r.vote.outcome === 'passed' : r.outcome === 'adopted').length)],
+    ['Fines levied', formatMoney(sum(data.meetings.flatMap(meetingFines).map((f) => f.amount)), data.chama.currency)],
+  ];
+
+  doc.sections = [{
+    title: 'Meetings and attendance',
+    columns: [
+      { header: 'Date', width: 1.4 },
+      { header: 'Meeting', width: 3.4 },
+      { header: 'Present', width: 1, align: 'right' },
+      { header: 'Late', width: 0.8, align: 'right' },
+      { header: 'Absent', width: 1, align: 'right' },
+      { header: 'Apology', width: 1, align: 'right' },
+      { header: 'Fines', width: 1.8, align: 'right' },
+    ],
+    rows: data.meetings.map((meeting) => [
+      day(meeting.scheduled_at),
+      meeting.title,
+      String(count(meeting, 'present')),
+      String(count(meeting, 'late')),
+      String(count(meeting, 'absent')),
+      String(count(meeting, 'excused')),
+      formatMoney(sum(meetingFines(meeting).map((f) => f.amount)), data.chama.currency),
+    ]),
+  }];
+
+  for (const meeting of data.meetings) {
+    const agenda = [...meeting.agenda].sort((a, b) => a.position - b.position);
+    const rows: string[][] = [
+      ['Venue', meeting.meeting_type === 'virtual' ? 'Online' : meeting.location ?? ''],
+      ...meeting.attendance
+        .map((a) => [memberName(data, a.member_id), ATTENDANCE_LABELS[a.status] ?? a.status])
+        .sort((a, b) => a[0].localeCompare(b[0]))
+        .map(([name, status], index) => [index === 0 ? 'Attendance' : '', `${name}: ${status}`]),
+      ...agenda.map((item, index) => [index === 0 ? 'Agenda' : '', `${item.position}. ${item.title}`]),
+      ...wrapText(meeting.minutes?.content ?? 'No minutes recorded')
+        .map((line, index) => [index === 0 ? 'Minutes' : '', line]),
+      ...meeting.resolutions.map((resolution, index) => [
+        index === 0 ? 'Resolutions' : '',
+        `${resolution.resolution} - ${resolutionOutcome(resolution)}`,
+      ]),
+    ];
+
+    doc.sections.push({
+      title: `${meeting.title} (${day(meeting.scheduled_at)})`,
+      columns: [{ header: '', width: 1.4 }, { header: meeting.minutes?.approved_at ? 'Approved minutes' : 'Draft minutes', width: 8 }],
+      rows,
+    });
+  }
+
+  return doc;
+}
+
+/**
+ * Signature blocks default to the chama's treasurer (secretary for minutes)
+ * and chairperson; the caller can override the names (e.g. a bank asking for
+ * specific officers).
+ */
+function resolveSignatories(
+  reportType: ReportType,
+  members: Member[],
+  overrides?: Partial<Record<'preparedBy' | 'approvedBy', string>>
+): Signatory[] {
+  const byRole = (...roles: string[]) =>
+    members.find((m) => m.is_active && roles.includes(m.role ?? ''))?.name ?? null;
+
+  const preparer = reportType === 'meeting_minutes'
+    ? { label: 'Recorded by (Secretary)', role: 'secretary' }
+    : { label: 'Prepared by (Treasurer)', role: 'treasurer' };
+
+  return [
+    { label: preparer.label, name: overrides?.preparedBy || byRole(preparer.role) },
+    { label: 'Approved by (Chairperson)', name: overrides?.approvedBy || byRole('chairman', 'chairperson', 'admin') },
+  ];
+}
@@ -1,47 +1,71 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { finishWebhookEvent, isReprocessRequest, logWebhookEvent, verifyPaystackSignature } from '../_shared/webhooks.ts';
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+const jsonHeaders = { 'Content-Type': 'application/json' };
 
 serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
+  // Server-to-server only: no CORS, and nothing but POST
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      { status: 405, headers: jsonHeaders }
+    );
   }
 
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+  let loggedEventId: string | null = null;
+
   try {
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    );
+    // Paystack signs the exact bytes it sent, so verify before parsing
+    const rawBody = await req.text();
+    const signatureValid = isReprocessRequest(req) || await verifyPaystackSignature(req, rawBody);
 
-    const body = await req.json();
-    console.log('Link account callback received:', body);
+    let body;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      body = null;
+    }
 
-    // Verify Paystack webhook signature
-    const paystackSecretKey = Deno.env.get('PAYSTACK_SECRET_KEY');
-    const signature = req.headers.get('x-paystack-signature');
-    
-    if (signature && paystackSecretKey) {
-      const hash = await crypto.subtle.digest(
-        'SHA-512',
-        new TextEncoder().encode(paystackSecretKey + JSON.stringify(body))
+    const loggedEvent = await logWebhookEvent(supabaseClient, req, {
+      provider: 'paystack_link',
+      eventId: body?.data?.id ? `${body.event}:${body.data.id}` : null,
+      eventType: body?.event ?? null,
+      rawBody,
+      signatureValid,
+    });
+    loggedEventId = loggedEvent.id;
+
+    if (!signatureValid) {
+      console.error('Invalid webhook signature');
+      return new Response(
+        JSON.stringify({ error: 'Invalid signature' }),
+        { status: 401, headers: jsonHeaders }
       );
-      const computedSignature = Array.from(new Uint8Array(hash))
-        .map(b => b.toString(16).padStart(2, '0'))
-        .join('');
-      
-      if (signature !== computedSignature) {
-        console.error('Invalid webhook signature');
-        return new Response(
-          JSON.stringify({ error: 'Invalid signature' }),
-          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
     }
 
+    if (!body) {
+      await finishWebhookEvent(supabaseClient, loggedEventId, 'Malformed JSON body');
+      return new Response(
+        JSON.stringify({ error: 'Invalid payload' }),
+        { status: 400, headers: jsonHeaders }
+      );
+    }
+
+    if (loggedEvent.duplicate) {
+      console.log('Replayed webhook ignored:', body.event, body.data?.reference);
+      return new Response(
+        JSON.stringify({ success: true, message: 'Duplicate event ignored' }),
+        { headers: jsonHeaders }
+      );
+    }
+
+    console.log('Link account callback received:', body);
+
     // Process successful payment for account linking
     if (body.event === 'charge.success' && body.data?.status === 'success') {
       const metadata = body.data?.metadata;
@@ -94,16 +118,23 @@ serve(async (req) => {
         // Get current wallet balance
         const { data: wallet } = await supabaseClient
           .from('user_wallets')
-          .select('balance')
+          .select('id, balance')
           .eq('user_id', metadata.user_id)
           .single();
 
         if (wallet) {
           // Update wallet with refund
-          await supabaseClient
-            .from('user_wallets')
-            .update({ balance: wallet.balance + refundAmount })
-            .eq('user_id', metadata.user_id);
+          await supabaseClient.rpc('post_ledger_transaction', {
+            p_transaction_type: 'verification_refund',
+            p_debit_account_type: 'external',
+            p_debit_account_id: null,
+            p_credit_account_type: 'user_wallet',
+            p_credit_account_id: wallet.id,
+            p_amount: refundAmount,
+            p_reference: body.data?.reference,
+            p_description: 'Account verification refund',
+            p_metadata: { user_id: metadata.user_id }
+          });
 
           // Record the refund transaction
           await supabaseClient
@@ -129,28 +160,31 @@ serve(async (req) => {
             body: 'You can now use this account for seamless payments.',
           });
 
+        await finishWebhookEvent(supabaseClient, loggedEventId);
         return new Response(
           JSON.stringify({ 
             success: true, 
             message: 'Account linked successfully',
             account_id: linkedAccount.id 
           }),
-          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          { headers: jsonHeaders }
         );
       }
     }
 
+    await finishWebhookEvent(supabaseClient, loggedEventId);
     return new Response(
       JSON.stringify({ success: true, message: 'Webhook processed' }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      { headers: jsonHeaders }
     );
 
   } catch (error: unknown) {
     console.error('Error in link-account-callback:', error);
+    await finishWebhookEvent(supabaseClient, loggedEventId, error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     return new Response(
       JSON.stringify({ error: errorMessage }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      { status: 500, headers: jsonHeaders }
     );
   }
 });
@@ -0,0 +1,89 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const BUCKETS = ['current', '1-30', '31-60', '61-90', '90+'];
+
+interface ArrearsRow {
+  loan_id: string;
+  loan_type: 'personal' | 'chama';
+  chama_id: string | null;
+  chama_name: string | null;
+  borrower_name: string;
+  outstanding_amount: number;
+  overdue_amount: number | null;
+  penalty_amount: number;
+  days_overdue: number;
+  ageing_bucket: string;
+  oldest_due_date: string | null;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    )
+
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser()
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { chamaId } = await req.json().catch(() => ({}));
+
+    // Run as the caller: the function itself allows platform admins, or officers of chamaId
+    const { data, error } = await supabaseClient.rpc('get_loan_arrears_ageing', {
+      p_chama_id: chamaId ?? null,
+    });
+
+    if (error) {
+      const denied = error.message.includes('Access denied');
+      return new Response(
+        JSON.stringify({ success: false, error: error.message }),
+        { status: denied ? 403 : 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const loans = (data ?? []) as ArrearsRow[];
+    const buckets = BUCKETS.map((bucket) => {
+      const inBucket = loans.filter((loan) => loan.ageing_bucket === bucket);
+      return {
+        bucket,
+        loans: inBucket.length,
+        outstanding: inBucket.reduce((sum, loan) => sum + Number(loan.outstanding_amount || 0), 0),
+        overdue: inBucket.reduce((sum, loan) => sum + Number(loan.overdue_amount || 0), 0),
+        penalties: inBucket.reduce((sum, loan) => sum + Number(loan.penalty_amount || 0), 0),
+      };
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, buckets, loans }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Error in loan-arrears-report:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
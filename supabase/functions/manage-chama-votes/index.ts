@@ -0,0 +1,227 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Matches is_chama_admin_or_treasurer(), which guards inserts into chama_votes
+const OFFICER_ROLES = ['admin', 'treasurer'];
+
+interface Caller {
+  id: string;
+  role: string | null;
+}
+
+interface NewVote {
+  title: string;
+  description?: string;
+  voteType?: string;
+  ballotType?: 'yes_no' | 'multiple_choice' | 'ranked';
+  options?: string[];
+  approvalThreshold?: 'plurality' | 'simple_majority' | 'two_thirds' | 'unanimous';
+  quorumPercent?: number;
+  weighting?: 'per_member' | 'savings';
+  isSecret?: boolean;
+  deadline?: string;
+  actionType?: 'approve_loan' | 'update_settings';
+  referenceId?: string;
+  actionPayload?: Record<string, unknown>;
+}
+
+interface VoteRequest {
+  chamaId: string;
+  action: 'list' | 'create' | 'cast';
+  vote?: NewVote;
+  voteId?: string;
+  optionIndex?: number;
+  rankings?: number[];
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Creating and casting run as the caller so RLS and cast_ballot() see auth.uid()
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    const body: VoteRequest = await req.json();
+    const { chamaId, action } = body;
+    console.log('Managing chama votes:', { chamaId, action, user: user.id });
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: caller, error: memberError } = await supabaseAdmin
+      .from('chama_members')
+      .select('id, role')
+      .eq('user_id', user.id)
+      .eq('chama_id', chamaId)
+      .eq('is_active', true)
+      .single();
+
+    if (memberError || !caller) {
+      throw new Error('You are not a member of this chama');
+    }
+
+    let result;
+
+    switch (action) {
+      case 'list':
+        result = await listVotes(supabaseAdmin, chamaId, caller);
+        break;
+
+      case 'create':
+        if (!OFFICER_ROLES.includes(caller.role ?? '')) {
+          throw new Error('Only chama officers can open a vote');
+        }
+        result = await createVote(supabaseClient, chamaId, caller, body.vote);
+        break;
+
+      case 'cast':
+        result = await castBallot(supabaseClient, body);
+        break;
+
+      default:
+        throw new Error('Invalid action');
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, message: result.message, data: result.data }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Error managing chama votes:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
+
+async function listVotes(supabase: SupabaseClient, chamaId: string, caller: Caller) {
+  const { data: votes, error } = await supabase
+    .from('chama_votes')
+    .select('*, initiator:chama_members!chama_votes_initiated_by_fkey(id, profiles:user_id(full_name))')
+    .eq('chama_id', chamaId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  const voteIds = (votes ?? []).map((vote) => vote.id);
+  if (voteIds.length === 0) {
+    return { message: 'Votes loaded', data: [] };
+  }
+
+  // The caller's own ballots and eligibility; other members' ballots are never returned
+  const [ballotsResult, electorateResult] = await Promise.all([
+    supabase
+      .from('vote_responses')
+      .select('vote_id, option_index, rankings, weight')
+      .in('vote_id', voteIds)
+      .eq('member_id', caller.id),
+    supabase
+      .from('chama_vote_electorate')
+      .select('vote_id, weight')
+      .in('vote_id', voteIds)
+      .eq('member_id', caller.id),
+  ]);
+
+  if (ballotsResult.error) throw ballotsResult.error;
+  if (electorateResult.error) throw electorateResult.error;
+
+  const ballots = new Map((ballotsResult.data ?? []).map((ballot) => [ballot.vote_id, ballot]));
+  const electorate = new Map((electorateResult.data ?? []).map((entry) => [entry.vote_id, entry.weight]));
+
+  return {
+    message: 'Votes loaded',
+    data: (votes ?? []).map((vote) => ({
+      ...vote,
+      my_ballot: ballots.get(vote.id) ?? null,
+      my_weight: electorate.get(vote.id) ?? null,
+      can_vote: vote.status === 'active' && electorate.has(vote.id),
+    })),
+  };
+}
+
+async function createVote(supabase: SupabaseClient, chamaId: string, caller: Caller, vote?: NewVote) {
+  if (!vote?.title?.trim()) {
+    throw new Error('A vote needs a title');
+  }
+
+  const ballotType = vote.ballotType ?? 'yes_no';
+  const options = (vote.options ?? []).map((option) => option.trim()).filter(Boolean);
+
+  if (ballotType !== 'yes_no' && options.length < 2) {
+    throw new Error('Add at least two options');
+  }
+
+  // Rules left out fall back to the chama's defaults in prepare_chama_vote()
+  const { data, error } = await supabase
+    .from('chama_votes')
+    .insert({
+      chama_id: chamaId,
+      title: vote.title.trim(),
+      description: vote.description?.trim() || null,
+      vote_type: vote.voteType ?? vote.actionType ?? 'general',
+      ballot_type: ballotType,
+      options,
+      approval_threshold: vote.approvalThreshold ?? null,
+      quorum_percent: vote.quorumPercent ?? null,
+      weighting: vote.weighting ?? null,
+      is_secret: vote.isSecret ?? false,
+      deadline: vote.deadline ?? null,
+      action_type: vote.actionType ?? null,
+      reference_id: vote.referenceId ?? null,
+      action_payload: vote.actionPayload ?? null,
+      initiated_by: caller.id,
+    })
+    .select()
+    .single();
+
+  if (error) throw new Error(error.message);
+
+  return { message: 'Vote opened', data };
+}
+
+async function castBallot(supabase: SupabaseClient, body: VoteRequest) {
+  if (!body.voteId) {
+    throw new Error('voteId is required');
+  }
+
+  const { data, error } = await supabase.rpc('cast_ballot', {
+    p_vote_id: body.voteId,
+    p_option_index: body.optionIndex ?? null,
+    p_rankings: body.rankings ?? null,
+  });
+
+  if (error) throw new Error(error.message);
+  if (!data?.success) throw new Error(data?.message || 'Could not record your vote');
+
+  return {
+    message: data.resolved ? 'Your vote was the last one; the vote is now closed' : 'Your vote has been recorded',
+    data,
+  };
+}
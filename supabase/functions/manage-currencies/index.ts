@@ -0,0 +1,146 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface CurrencyRequest {
+  action: 'list' | 'set_wallet_currency' | 'set_chama_currency' | 'override_rate' | 'clear_override';
+  currency?: string;
+  chamaId?: string;
+  fromCurrency?: string;
+  toCurrency?: string;
+  rate?: number;
+  expiresAt?: string | null;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Every action runs as the caller: the RPCs check auth.uid(), chama roles and is_admin()
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    const body: CurrencyRequest = await req.json();
+    console.log('Managing currencies:', { action: body.action, user: user.id });
+
+    let result;
+
+    switch (body.action) {
+      case 'list':
+        result = await listCurrencies(supabaseClient);
+        break;
+
+      case 'set_wallet_currency':
+        result = await setWalletCurrency(supabaseClient, body);
+        break;
+
+      case 'set_chama_currency':
+        result = await setChamaCurrency(supabaseClient, body);
+        break;
+
+      case 'override_rate':
+      case 'clear_override':
+        result = await overrideRate(supabaseClient, body);
+        break;
+
+      default:
+        throw new Error('Invalid action');
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, message: result.message, data: result.data }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Error managing currencies:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
+
+async function listCurrencies(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from('supported_currencies')
+    .select('code, name, symbol, minor_units')
+    .eq('is_active', true)
+    .order('code');
+
+  if (error) throw error;
+
+  return { message: 'Currencies loaded', data: data ?? [] };
+}
+
+async function setWalletCurrency(supabase: SupabaseClient, body: CurrencyRequest) {
+  if (!body.currency) {
+    throw new Error('currency is required');
+  }
+
+  const { data, error } = await supabase.rpc('set_wallet_currency', { p_currency: body.currency });
+  if (error) throw new Error(error.message);
+
+  return { message: `Your wallets now hold ${data.currency}`, data };
+}
+
+async function setChamaCurrency(supabase: SupabaseClient, body: CurrencyRequest) {
+  if (!body.chamaId || !body.currency) {
+    throw new Error('chamaId and currency are required');
+  }
+
+  const { data, error } = await supabase.rpc('set_chama_currency', {
+    p_chama_id: body.chamaId,
+    p_currency: body.currency,
+  });
+  if (error) throw new Error(error.message);
+
+  return { message: `The chama now holds ${data.currency}`, data };
+}
+
+async function overrideRate(supabase: SupabaseClient, body: CurrencyRequest) {
+  if (!body.fromCurrency || !body.toCurrency) {
+    throw new Error('fromCurrency and toCurrency are required');
+  }
+
+  const clearing = body.action === 'clear_override';
+  if (!clearing && !(Number(body.rate) > 0)) {
+    throw new Error('A positive rate is required');
+  }
+
+  const { data, error } = await supabase.rpc('set_exchange_rate_override', {
+    p_from_currency: body.fromCurrency,
+    p_to_currency: body.toCurrency,
+    p_rate: clearing ? null : Number(body.rate),
+    p_expires_at: clearing ? null : body.expiresAt ?? null,
+  });
+  if (error) throw new Error(error.message);
+
+  return {
+    message: clearing
+      ? `${data.from_currency}/${data.to_currency} follows the rates feed again`
+      : `${data.from_currency}/${data.to_currency} pinned at ${data.rate}`,
+    data,
+  };
+}
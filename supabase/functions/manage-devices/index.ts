@@ -0,0 +1,266 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getPreferredLanguage, translate } from '../_shared/i18n.ts';
+import { sendSms } from '../_shared/sms.ts';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface DeviceRequest {
+  action: 'register' | 'list' | 'confirm_pin' | 'revoke_session' | 'revoke_device' | 'sign_out' | 'set_pin_requirement';
+  deviceKey?: string;
+  deviceName?: string;
+  platform?: string;
+  pin?: string;
+  sessionId?: string;
+  deviceId?: string;
+  required?: boolean;
+}
+
+interface Registration {
+  revoked: boolean;
+  device_id?: string;
+  device_name?: string | null;
+  alert?: boolean;
+  require_pin?: boolean;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // The RPCs run as the caller: they read auth.uid() and the auth session id from the JWT
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    const body: DeviceRequest = await req.json();
+    console.log('Managing devices:', { action: body.action, user: user.id });
+
+    let result;
+
+    switch (body.action) {
+      case 'register':
+        result = await registerDevice(req, supabaseClient, user.id, body);
+        break;
+
+      case 'list':
+        result = await listDevices(supabaseClient, user.id);
+        break;
+
+      case 'confirm_pin':
+        result = await confirmPin(supabaseClient, body);
+        break;
+
+      case 'revoke_session':
+        result = await revokeSession(supabaseClient, body);
+        break;
+
+      case 'revoke_device':
+        result = await revokeDevice(supabaseClient, body);
+        break;
+
+      case 'sign_out':
+        result = await signOut(supabaseClient);
+        break;
+
+      case 'set_pin_requirement':
+        result = await setPinRequirement(supabaseClient, body);
+        break;
+
+      default:
+        throw new Error('Invalid action');
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, message: result.message, data: result.data }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Error managing devices:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
+
+async function registerDevice(req: Request, supabase: SupabaseClient, userId: string, body: DeviceRequest) {
+  if (!body.deviceKey) {
+    throw new Error('deviceKey is required');
+  }
+
+  const ipAddress = req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null;
+
+  const { data, error } = await supabase.rpc('register_device_session', {
+    p_device_key: body.deviceKey,
+    p_device_name: body.deviceName ?? null,
+    p_platform: body.platform ?? null,
+    p_user_agent: req.headers.get('user-agent'),
+    p_ip_address: ipAddress,
+  });
+  if (error) throw new Error(error.message);
+
+  const registration = data as Registration;
+  if (registration.alert) {
+    await alertNewDevice(userId, registration.device_name || 'a new device', ipAddress);
+  }
+
+  return { message: registration.revoked ? 'This session was signed out' : 'Device registered', data: registration };
+}
+
+// Best effort: a failed alert must not block the sign-in it reports
+async function alertNewDevice(userId: string, device: string, ipAddress: string | null) {
+  const supabaseAdmin = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const language = await getPreferredLanguage(supabaseAdmin, userId);
+
+  const { error: notificationError } = await supabaseAdmin
+    .from('chama_notifications')
+    .insert({
+      user_id: userId,
+      title: translate(language, 'notification.new_device.title'),
+      message: translate(language, 'notification.new_device.message', { device, ip: ipAddress ?? 'none' }),
+      type: 'security',
+      metadata: { device, ip_address: ipAddress },
+    });
+
+  if (notificationError) {
+    console.error('New device notification error:', notificationError);
+  }
+
+  try {
+    // Goes to the number on the profile, if there is one
+    await sendSms(supabaseAdmin, {
+      category: 'security',
+      template: 'new_device',
+      values: { device },
+      userId,
+      language,
+    });
+  } catch (smsError) {
+    console.error('New device SMS error:', smsError);
+  }
+}
+
+async function listDevices(supabase: SupabaseClient, userId: string) {
+  const [devicesResult, sessionsResult, settingsResult] = await Promise.all([
+    supabase
+      .from('user_devices')
+      .select('id, device_key, device_name, platform, last_ip, first_seen_at, last_seen_at, pin_verified_at')
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .order('last_seen_at', { ascending: false }),
+    supabase
+      .from('user_sessions')
+      .select('id, user_device_id, ip_address, last_activity, created_at')
+      .eq('user_id', userId)
+      .is('ended_at', null)
+      .not('user_device_id', 'is', null)
+      .order('last_activity', { ascending: false }),
+    supabase
+      .from('user_security_settings')
+      .select('require_pin_on_new_device')
+      .eq('user_id', userId)
+      .maybeSingle(),
+  ]);
+
+  if (devicesResult.error) throw devicesResult.error;
+  if (sessionsResult.error) throw sessionsResult.error;
+
+  const sessions = sessionsResult.data ?? [];
+  const devices = (devicesResult.data ?? []).map((device) => ({
+    ...device,
+    sessions: sessions.filter((session) => session.user_device_id === device.id),
+  }));
+
+  return {
+    message: 'Devices loaded',
+    data: {
+      devices,
+      requirePinOnNewDevice: settingsResult.data?.require_pin_on_new_device ?? false,
+    },
+  };
+}
+
+async function confirmPin(supabase: SupabaseClient, body: DeviceRequest) {
+  if (!body.deviceKey || !body.pin) {
+    throw new Error('deviceKey and pin are required');
+  }
+
+  const { data, error } = await supabase.rpc('confirm_device_pin', {
+    p_device_key: body.deviceKey,
+    p_pin: body.pin,
+  });
+  if (error) throw new Error(error.message);
+  if (!data?.success) throw new Error(data?.message || 'Invalid PIN');
+
+  return { message: data.message, data };
+}
+
+async function revokeSession(supabase: SupabaseClient, body: DeviceRequest) {
+  if (!body.sessionId) {
+    throw new Error('sessionId is required');
+  }
+
+  const { data, error } = await supabase.rpc('revoke_device_session', { p_session_id: body.sessionId });
+  if (error) throw new Error(error.message);
+
+  return { message: data.message, data };
+}
+
+async function revokeDevice(supabase: SupabaseClient, body: DeviceRequest) {
+  if (!body.deviceId) {
+    throw new Error('deviceId is required');
+  }
+
+  const { data, error } = await supabase.rpc('revoke_user_device', { p_device_id: body.deviceId });
+  if (error) throw new Error(error.message);
+
+  return { message: data.message, data };
+}
+
+async function signOut(supabase: SupabaseClient) {
+  const { error } = await supabase.rpc('end_current_session');
+  if (error) throw new Error(error.message);
+
+  return { message: 'Session ended', data: null };
+}
+
+async function setPinRequirement(supabase: SupabaseClient, body: DeviceRequest) {
+  if (typeof body.required !== 'boolean') {
+    throw new Error('required must be true or false');
+  }
+
+  const { data, error } = await supabase.rpc('set_new_device_pin_requirement', { p_required: body.required });
+  if (error) throw new Error(error.message);
+
+  return {
+    message: body.required
+      ? 'New devices will need your PIN before they can be used'
+      : 'New devices no longer need your PIN',
+    data,
+  };
+}
@@ -0,0 +1,189 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface Caller {
+  id: string;
+  role: string | null;
+}
+
+interface GuarantorRequest {
+  chamaId: string;
+  action: 'list' | 'my_requests' | 'nominate' | 'respond';
+  loanId?: string;
+  guarantors?: { memberId: string; amount: number }[];
+  guaranteeId?: string;
+  accept?: boolean;
+  pin?: string;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Nominating and responding run as the caller: the RPCs check auth.uid() and the PIN
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    const body: GuarantorRequest = await req.json();
+    const { chamaId, action } = body;
+    console.log('Managing loan guarantors:', { chamaId, action, user: user.id });
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: caller, error: memberError } = await supabaseAdmin
+      .from('chama_members')
+      .select('id, role')
+      .eq('user_id', user.id)
+      .eq('chama_id', chamaId)
+      .eq('is_active', true)
+      .single();
+
+    if (memberError || !caller) {
+      throw new Error('You are not a member of this chama');
+    }
+
+    let result;
+
+    switch (action) {
+      case 'list':
+        result = await listGuarantees(supabaseAdmin, chamaId);
+        break;
+
+      case 'my_requests':
+        result = await listMyRequests(supabaseAdmin, chamaId, caller);
+        break;
+
+      case 'nominate':
+        result = await nominate(supabaseClient, body);
+        break;
+
+      case 'respond':
+        result = await respond(supabaseClient, body);
+        break;
+
+      default:
+        throw new Error('Invalid action');
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, message: result.message, data: result.data }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Error managing loan guarantors:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
+
+async function listGuarantees(supabase: SupabaseClient, chamaId: string) {
+  const [guaranteesResult, settingsResult] = await Promise.all([
+    supabase
+      .from('chama_loan_guarantors')
+      .select('*, guarantor:chama_members!chama_loan_guarantors_guarantor_member_id_fkey(id, profiles:user_id(full_name))')
+      .eq('chama_id', chamaId)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('chama_settings')
+      .select('min_guarantors, guarantor_coverage_percent, guarantor_lock_percent, guarantor_recovery_days')
+      .eq('chama_id', chamaId)
+      .maybeSingle(),
+  ]);
+
+  if (guaranteesResult.error) throw guaranteesResult.error;
+  if (settingsResult.error) throw settingsResult.error;
+
+  return {
+    message: 'Guarantees loaded',
+    data: {
+      guarantees: guaranteesResult.data ?? [],
+      policy: {
+        minGuarantors: settingsResult.data?.min_guarantors ?? 1,
+        coveragePercent: Number(settingsResult.data?.guarantor_coverage_percent ?? 100),
+        lockPercent: Number(settingsResult.data?.guarantor_lock_percent ?? 100),
+        recoveryDays: settingsResult.data?.guarantor_recovery_days ?? 60,
+      },
+    },
+  };
+}
+
+async function listMyRequests(supabase: SupabaseClient, chamaId: string, caller: Caller) {
+  const { data, error } = await supabase
+    .from('chama_loan_guarantors')
+    .select(`
+      *,
+      loan:chama_loans!inner(id, amount, purpose, duration_months, status,
+        borrower:chama_members!chama_loans_borrower_id_fkey(id, profiles:user_id(full_name)))
+    `)
+    .eq('chama_id', chamaId)
+    .eq('guarantor_member_id', caller.id)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return { message: 'Guarantee requests loaded', data: data ?? [] };
+}
+
+async function nominate(supabase: SupabaseClient, body: GuarantorRequest) {
+  if (!body.loanId || !body.guarantors?.length) {
+    throw new Error('loanId and at least one guarantor are required');
+  }
+
+  const { data, error } = await supabase.rpc('nominate_chama_loan_guarantors', {
+    p_loan_id: body.loanId,
+    p_guarantors: body.guarantors.map((g) => ({ member_id: g.memberId, amount: g.amount })),
+  });
+
+  if (error) throw new Error(error.message);
+  if (!data?.success) throw new Error(data?.message || 'Could not nominate guarantors');
+
+  return { message: `Asked ${data.nominated} member(s) to guarantee your loan`, data };
+}
+
+async function respond(supabase: SupabaseClient, body: GuarantorRequest) {
+  if (!body.guaranteeId || typeof body.accept !== 'boolean' || !body.pin) {
+    throw new Error('guaranteeId, accept and pin are required');
+  }
+
+  const { data, error } = await supabase.rpc('respond_to_loan_guarantee', {
+    p_guarantee_id: body.guaranteeId,
+    p_accept: body.accept,
+    p_user_pin: body.pin,
+  });
+
+  if (error) throw new Error(error.message);
+  if (!data?.success) throw new Error(data?.message || 'Could not record your response');
+
+  return {
+    message: body.accept ? 'You are now guaranteeing this loan' : 'You declined to guarantee this loan',
+    data,
+  };
+}
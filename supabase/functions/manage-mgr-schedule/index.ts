@@ -1,11 +1,34 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 
+type SupabaseClient = ReturnType<typeof createClient>;
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Actions any active member may take; everything else needs a chama admin
+const MEMBER_ACTIONS = ['get_schedule', 'request_skip', 'request_swap'];
+
+interface Caller {
+  id: string;
+  role: string | null;
+}
+
+interface ScheduleRequest {
+  chamaId: string;
+  action: string;
+  startDate?: string;
+  memberOrder?: string[];
+  roundId?: string;
+  swapWithRoundId?: string;
+  requestId?: string;
+  approve?: boolean;
+  reason?: string;
+  policy?: string;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -27,37 +50,64 @@ serve(async (req) => {
       throw new Error('Unauthorized');
     }
 
-    const { chamaId, action, schedule } = await req.json();
+    const body: ScheduleRequest = await req.json();
+    const { chamaId, action } = body;
     console.log('Managing MGR schedule:', { chamaId, action, user: user.id });
 
-    // Verify user is admin
-    const { data: adminMember, error: adminError } = await supabaseClient
+    // Rotation RPCs are service-role only, so authorization happens here
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: caller, error: memberError } = await supabaseAdmin
       .from('chama_members')
-      .select('role')
+      .select('id, role')
       .eq('user_id', user.id)
       .eq('chama_id', chamaId)
       .eq('is_active', true)
       .single();
 
-    if (adminError || !adminMember || adminMember.role !== 'admin') {
+    if (memberError || !caller) {
+      throw new Error('You are not a member of this chama');
+    }
+
+    if (!MEMBER_ACTIONS.includes(action) && caller.role !== 'admin') {
       throw new Error('Only admins can manage MGR schedule');
     }
 
     let result;
 
     switch (action) {
-      case 'set_schedule':
-        result = await setSchedule(supabaseClient, chamaId, schedule);
+      case 'get_schedule':
+        result = await getSchedule(supabaseAdmin, chamaId);
+        break;
+
+      case 'request_skip':
+      case 'request_swap':
+        result = await requestTurnChange(supabaseAdmin, chamaId, caller, body);
+        break;
+
+      case 'generate_schedule':
+        result = await generateSchedule(supabaseAdmin, chamaId, body);
+        break;
+
+      case 'close_round':
+        result = await closeRound(supabaseAdmin, chamaId, body.roundId, user.id);
+        break;
+
+      case 'review_request':
+        result = await reviewRequest(supabaseAdmin, chamaId, caller, body);
         break;
-      
-      case 'set_next_turn':
-        result = await setNextTurn(supabaseClient, chamaId);
+
+      case 'set_policy':
+        result = await setMissedPolicy(supabaseAdmin, chamaId, body.policy);
         break;
-      
+
       case 'lock_all':
-        result = await lockAllWithdrawals(supabaseClient, chamaId);
+        result = await lockAllWithdrawals(supabaseAdmin, chamaId);
         break;
-      
+
       default:
         throw new Error('Invalid action');
     }
@@ -67,117 +117,227 @@ serve(async (req) => {
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
-  } catch (error: any) {
+  } catch (error: unknown) {
     console.error('Error managing MGR schedule:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     return new Response(
-      JSON.stringify({ success: false, error: error.message }),
+      JSON.stringify({ success: false, error: errorMessage }),
       { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
 });
 
-async function setSchedule(supabase: any, chamaId: string, schedule: any[]) {
-  // schedule should be an array of { member_id, turn_order, turn_date }
-  
-  for (const item of schedule) {
-    await supabase
+async function getSchedule(supabase: SupabaseClient, chamaId: string) {
+  const [chamaResult, membersResult, roundsResult, requestsResult] = await Promise.all([
+    supabase
+      .from('chamas')
+      .select('contribution_amount, contribution_frequency, mgr_missed_policy')
+      .eq('id', chamaId)
+      .single(),
+    supabase
       .from('chama_members')
-      .update({
-        mgr_turn_order: item.turn_order,
-        mgr_turn_date: item.turn_date,
-        withdrawal_locked: true // Lock by default
-      })
-      .eq('id', item.member_id);
+      .select('id, user_id, role, mgr_turn_order, profiles:user_id(full_name, email)')
+      .eq('chama_id', chamaId)
+      .eq('is_active', true)
+      .order('mgr_turn_order', { ascending: true }),
+    supabase
+      .from('mgr_rounds')
+      .select('*, contributions:mgr_round_contributions(*)')
+      .eq('chama_id', chamaId)
+      .order('cycle_number', { ascending: false })
+      .order('round_number', { ascending: true }),
+    supabase
+      .from('mgr_turn_requests')
+      .select('*')
+      .eq('chama_id', chamaId)
+      .order('created_at', { ascending: false })
+      .limit(50),
+  ]);
+
+  for (const { error } of [chamaResult, membersResult, roundsResult, requestsResult]) {
+    if (error) throw error;
   }
 
-  // Log activity
-  await supabase
-    .from('chama_activities')
+  return {
+    message: 'MGR schedule loaded',
+    data: {
+      chama: chamaResult.data,
+      members: membersResult.data,
+      rounds: roundsResult.data,
+      requests: requestsResult.data,
+    }
+  };
+}
+
+async function requestTurnChange(supabase: SupabaseClient, chamaId: string, caller: Caller, body: ScheduleRequest) {
+  const requestType = body.action === 'request_swap' ? 'swap' : 'skip';
+
+  const { data: round, error: roundError } = await supabase
+    .from('mgr_rounds')
+    .select('id, status, recipient_member_id, round_number')
+    .eq('id', body.roundId)
+    .eq('chama_id', chamaId)
+    .single();
+
+  if (roundError || !round) throw new Error('Round not found');
+  if (round.status !== 'scheduled') throw new Error('This round has already closed');
+  if (round.recipient_member_id !== caller.id) throw new Error('You can only change your own turn');
+
+  if (requestType === 'swap') {
+    const { data: other } = await supabase
+      .from('mgr_rounds')
+      .select('id, status')
+      .eq('id', body.swapWithRoundId)
+      .eq('chama_id', chamaId)
+      .single();
+
+    if (!other || other.status !== 'scheduled' || other.id === round.id) {
+      throw new Error('Pick another upcoming turn to swap with');
+    }
+  }
+
+  const { data: pending } = await supabase
+    .from('mgr_turn_requests')
+    .select('id')
+    .eq('round_id', round.id)
+    .eq('status', 'pending')
+    .maybeSingle();
+
+  if (pending) throw new Error('There is already a pending request for this turn');
+
+  const { data: request, error } = await supabase
+    .from('mgr_turn_requests')
     .insert({
       chama_id: chamaId,
-      activity_type: 'mgr_schedule_set',
-      description: 'Merry-go-round schedule has been configured'
-    });
+      round_id: round.id,
+      requested_by: caller.id,
+      request_type: requestType,
+      swap_with_round_id: requestType === 'swap' ? body.swapWithRoundId : null,
+      reason: body.reason ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  // Let the admins know there is something to approve
+  const { data: admins } = await supabase
+    .from('chama_members')
+    .select('user_id')
+    .eq('chama_id', chamaId)
+    .eq('role', 'admin')
+    .eq('is_active', true);
+
+  if (admins && admins.length > 0) {
+    await supabase
+      .from('chama_notifications')
+      .insert(admins.map((admin) => ({
+        user_id: admin.user_id,
+        chama_id: chamaId,
+        type: 'mgr_turn_request',
+        title: requestType === 'swap' ? 'Turn swap requested' : 'Turn skip requested',
+        message: `A member has asked to ${requestType} merry-go-round turn ${round.round_number}`,
+        metadata: { request_id: request.id }
+      })));
+  }
 
   return {
-    message: 'MGR schedule set successfully',
-    data: schedule
+    message: 'Request sent to the chama admins',
+    data: request
   };
 }
 
-async function setNextTurn(supabase: any, chamaId: string) {
-  // Get all members ordered by turn
-  const { data: members, error } = await supabase
-    .from('chama_members')
-    .select('*')
+async function generateSchedule(supabase: SupabaseClient, chamaId: string, body: ScheduleRequest) {
+  const { data, error } = await supabase.rpc('generate_mgr_schedule', {
+    p_chama_id: chamaId,
+    p_start_date: body.startDate,
+    p_member_order: body.memberOrder && body.memberOrder.length > 0 ? body.memberOrder : null,
+  });
+
+  if (error) throw new Error(error.message);
+
+  return {
+    message: 'MGR schedule generated successfully',
+    data
+  };
+}
+
+async function closeRound(supabase: SupabaseClient, chamaId: string, roundId: string | undefined, userId: string) {
+  const { data: round } = await supabase
+    .from('mgr_rounds')
+    .select('id')
+    .eq('id', roundId)
     .eq('chama_id', chamaId)
-    .eq('is_active', true)
-    .order('mgr_turn_order', { ascending: true });
+    .maybeSingle();
 
-  if (error) throw error;
+  if (!round) throw new Error('Round not found');
 
-  if (!members || members.length === 0) {
-    throw new Error('No members found');
-  }
+  const { data, error } = await supabase.rpc('close_mgr_round', {
+    p_round_id: round.id,
+    p_closed_by: userId,
+  });
 
-  // Find current turn (first one that's unlocked)
-  const currentTurn = members.find((m: any) => !m.withdrawal_locked);
-  
-  // Find next member in order
-  let nextMember;
-  if (currentTurn) {
-    const currentIndex = members.findIndex((m: any) => m.id === currentTurn.id);
-    nextMember = members[(currentIndex + 1) % members.length];
-  } else {
-    nextMember = members[0]; // Start from first if none unlocked
-  }
+  if (error) throw new Error(error.message);
 
-  // Lock current member if exists
-  if (currentTurn) {
-    await supabase
-      .from('chama_members')
-      .update({ withdrawal_locked: true })
-      .eq('id', currentTurn.id);
+  return {
+    message: 'Round closed and pot paid out',
+    data
+  };
+}
+
+async function reviewRequest(supabase: SupabaseClient, chamaId: string, caller: Caller, body: ScheduleRequest) {
+  const { data: request } = await supabase
+    .from('mgr_turn_requests')
+    .select('id')
+    .eq('id', body.requestId)
+    .eq('chama_id', chamaId)
+    .maybeSingle();
+
+  if (!request) throw new Error('Request not found');
+
+  const { data, error } = await supabase.rpc('review_mgr_turn_request', {
+    p_request_id: request.id,
+    p_approve: body.approve === true,
+    p_reviewer_member_id: caller.id,
+  });
+
+  if (error) throw new Error(error.message);
+
+  return {
+    message: body.approve ? 'Request approved' : 'Request rejected',
+    data
+  };
+}
+
+async function setMissedPolicy(supabase: SupabaseClient, chamaId: string, policy: string | undefined) {
+  if (policy !== 'deduct' && policy !== 'defer') {
+    throw new Error('Policy must be deduct or defer');
   }
 
-  // Unlock next member
-  await supabase
-    .from('chama_members')
-    .update({ 
-      withdrawal_locked: false,
-      mgr_turn_date: new Date().toISOString()
-    })
-    .eq('id', nextMember.id);
+  const { error } = await supabase
+    .from('chamas')
+    .update({ mgr_missed_policy: policy })
+    .eq('id', chamaId);
 
-  // Log activity
-  await supabase
-    .from('chama_activities')
-    .insert({
-      chama_id: chamaId,
-      member_id: nextMember.id,
-      activity_type: 'mgr_turn_started',
-      description: 'Started their merry-go-round turn'
-    });
+  if (error) throw error;
 
-  // Send notification
   await supabase
-    .from('chama_notifications')
+    .from('chama_activities')
     .insert({
-      user_id: nextMember.user_id,
       chama_id: chamaId,
-      type: 'mgr_turn',
-      title: '🎯 Your Turn!',
-      message: "It's your turn for the merry-go-round payout",
-      metadata: { turn_order: nextMember.mgr_turn_order }
+      activity_type: 'mgr_policy_changed',
+      description: policy === 'deduct'
+        ? 'Missed merry-go-round contributions will be deducted from savings'
+        : 'Missed merry-go-round contributions will be withheld from the member\'s payout'
     });
 
   return {
-    message: 'Next turn activated successfully',
-    data: { nextMember: nextMember.id }
+    message: 'Missed contribution policy updated',
+    data: { policy }
   };
 }
 
-async function lockAllWithdrawals(supabase: any, chamaId: string) {
+async function lockAllWithdrawals(supabase: SupabaseClient, chamaId: string) {
   const { error } = await supabase
     .from('chama_members')
     .update({ withdrawal_locked: true })
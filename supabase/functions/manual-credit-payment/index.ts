@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { verifyPaystackTransaction } from '../_shared/paystack.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -20,96 +21,67 @@ serve(async (req) => {
     
     console.log('Manually crediting payment for reference:', reference);
 
-    // Get transaction details
-    const { data: transaction, error: txError } = await supabase
-      .from('mpesa_transactions')
-      .select('*')
-      .eq('checkout_request_id', reference)
-      .single();
+    // Never credit on the client's word: confirm the charge with Paystack first
+    const verification = await verifyPaystackTransaction(reference);
 
-    if (txError || !transaction) {
-      throw new Error('Transaction not found');
+    if (!verification) {
+      throw new Error('Transaction not found on Paystack');
     }
 
-    const amount = transaction.amount;
-    const platformFee = amount * 0.025;
-    const netAmount = amount - platformFee;
-
-    // Get or create user wallet
-    let { data: wallet, error: walletFetchError } = await supabase
-      .from('user_central_wallets')
-      .select('*')
-      .eq('user_id', transaction.user_id)
-      .single();
-
-    if (walletFetchError && walletFetchError.code !== 'PGRST116') {
-      console.error('Error fetching wallet:', walletFetchError);
+    if (verification.status !== 'success') {
+      throw new Error(`Payment has not been completed (Paystack status: ${verification.status})`);
     }
 
-    if (!wallet) {
-      const { data: newWallet, error: createWalletError } = await supabase
-        .from('user_central_wallets')
-        .insert({ user_id: transaction.user_id, balance: 0 })
-        .select()
-        .single();
+    const { data: settlement, error: settleError } = await supabase.rpc('credit_paystack_payment', {
+      p_reference: reference,
+      p_amount_paid: verification.amount,
+      p_channel: verification.channel,
+      p_paid_at: verification.paidAt,
+      p_provider_data: verification.raw,
+      p_settled_by: 'manual'
+    });
 
-      if (createWalletError) {
-        throw createWalletError;
-      }
-      wallet = newWallet;
+    if (settleError) {
+      throw settleError;
     }
 
-    // Add money to wallet
-    const { error: walletUpdateError } = await supabase
-      .from('user_central_wallets')
-      .update({ 
-        balance: wallet.balance + netAmount,
-        updated_at: new Date().toISOString()
-      })
-      .eq('user_id', transaction.user_id);
-
-    if (walletUpdateError) {
-      throw walletUpdateError;
+    if (!settlement.success) {
+      throw new Error(settlement.error);
     }
 
-    // Record wallet transaction
-    await supabase
-      .from('wallet_transactions')
-      .insert({
-        user_id: transaction.user_id,
-        type: 'deposit',
-        amount: netAmount,
-        description: `Wallet top-up via Paystack (Fee: KES ${platformFee.toFixed(2)})`,
-        status: 'completed',
-        reference_id: reference,
-        payment_method: 'paystack'
-      });
+    if (settlement.already_settled) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Payment has already been processed',
+          status: settlement.status
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 409 }
+      );
+    }
 
-    // Update transaction status
-    await supabase
-      .from('mpesa_transactions')
-      .update({
-        status: 'success',
-        result_code: 0,
-        result_desc: 'Payment verified and credited manually',
-        mpesa_receipt_number: reference,
-        transaction_date: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      })
-      .eq('checkout_request_id', reference);
+    if (settlement.held_for_review) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `Paystack received ${settlement.amount_paid} but the payment was for ${settlement.expected_amount}; it has been held for review`,
+          status: settlement.status
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 409 }
+      );
+    }
 
     console.log('Payment credited successfully:', {
-      userId: transaction.user_id,
-      netAmount,
-      newBalance: wallet.balance + netAmount
+      userId: settlement.user_id,
+      netAmount: settlement.amount,
+      fee: settlement.fee
     });
 
     return new Response(
       JSON.stringify({
         success: true,
         message: 'Payment credited successfully',
-        amount: netAmount,
-        newBalance: wallet.balance + netAmount
+        amount: settlement.amount
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
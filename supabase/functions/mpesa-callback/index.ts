@@ -1,55 +1,167 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { finishWebhookEvent, isReprocessRequest, logWebhookEvent, verifyCallbackToken } from '../_shared/webhooks.ts'
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+interface CallbackItem {
+  Name: string;
+  Value?: string | number;
+}
+
+// Daraja sends TransactionDate as a yyyyMMddHHmmss number in Kenyan time (UTC+3)
+function parseMpesaDate(value: string | number | undefined): string | null {
+  const raw = value?.toString();
+  if (!raw || raw.length !== 14) return null;
+  return `${raw.slice(0, 4)}-${raw.slice(4, 6)}-${raw.slice(6, 8)}T${raw.slice(8, 10)}:${raw.slice(10, 12)}:${raw.slice(12, 14)}+03:00`;
 }
 
 serve(async (req) => {
   console.log('=== M-Pesa Callback Received ===');
-  
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
+
+  // Server-to-server only: no CORS, and nothing but POST
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
   }
 
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  let loggedEventId: string | null = null;
+
   try {
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
+    const rawBody = await req.text();
+    const signatureValid = isReprocessRequest(req) || verifyCallbackToken(req, 'MPESA_CALLBACK_TOKEN', 'MPESA_CALLBACK_IPS');
+
+    let callbackData;
+    try {
+      callbackData = JSON.parse(rawBody);
+    } catch {
+      callbackData = null;
+    }
+
+    const stkCallback = callbackData?.Body?.stkCallback;
+
+    const loggedEvent = await logWebhookEvent(supabase, req, {
+      provider: 'mpesa',
+      eventId: stkCallback?.CheckoutRequestID ?? null,
+      eventType: 'stk_callback',
+      rawBody,
+      signatureValid,
+    });
+    loggedEventId = loggedEvent.id;
+
+    if (!signatureValid) {
+      console.error('Rejected M-Pesa callback with invalid token from', req.headers.get('x-forwarded-for'));
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    if (loggedEvent.duplicate) {
+      console.log('Replayed callback ignored:', stkCallback?.CheckoutRequestID);
+      return new Response('OK', { status: 200 });
+    }
 
-    const callbackData = await req.json();
     console.log('Callback data:', JSON.stringify(callbackData, null, 2));
 
-    const { Body } = callbackData;
-    const { stkCallback } = Body || {};
-    
     if (!stkCallback) {
+      await finishWebhookEvent(supabase, loggedEventId, 'Missing stkCallback');
       return new Response('OK', { status: 200 });
     }
 
-    const { CheckoutRequestID, ResultCode, ResultDesc } = stkCallback;
+    const { CheckoutRequestID, ResultCode, ResultDesc, CallbackMetadata } = stkCallback;
 
-    // Update transaction status
-    const { error: updateError } = await supabase
-      .from('mpesa_transactions')
-      .update({
-        result_code: ResultCode,
-        result_desc: ResultDesc,
-        status: ResultCode === 0 ? 'success' : 'failed',
-        callback_data: callbackData,
-        updated_at: new Date().toISOString()
-      })
-      .eq('checkout_request_id', CheckoutRequestID);
+    // Only successful pushes carry metadata
+    const items: CallbackItem[] = CallbackMetadata?.Item || [];
+    const metadata = Object.fromEntries(items.map((item) => [item.Name, item.Value]));
 
-    if (updateError) {
-      console.error('Error updating transaction:', updateError);
+    const amount = metadata.Amount !== undefined ? Number(metadata.Amount) : null;
+    const receiptNumber = metadata.MpesaReceiptNumber?.toString() ?? null;
+    const phoneNumber = metadata.PhoneNumber?.toString() ?? null;
+    const transactionDate = parseMpesaDate(metadata.TransactionDate);
+
+    console.log('Processing STK callback:', { CheckoutRequestID, ResultCode, amount, receiptNumber });
+
+    // Validates the amount, routes the money by purpose and collects the fee,
+    // once per checkout request however many times Safaricom retries
+    const { data: settlement, error: settleError } = await supabase.rpc('settle_mpesa_payment', {
+      p_checkout_request_id: CheckoutRequestID,
+      p_result_code: Number(ResultCode),
+      p_result_desc: ResultDesc,
+      p_receipt_number: receiptNumber,
+      p_amount: amount,
+      p_phone_number: phoneNumber,
+      p_transaction_date: transactionDate,
+      p_callback_data: callbackData
+    });
+
+    // An unsettled callback is answered with an error so Safaricom delivers
+    // it again; the failed event also stays open for reprocess-webhook-event
+    if (settleError) {
+      console.error('Error settling M-Pesa payment:', settleError);
+      await finishWebhookEvent(supabase, loggedEventId, settleError.message);
+      return new Response('Processing failed', { status: 500 });
+    }
+
+    if (!settlement.success) {
+      console.error('Error settling M-Pesa payment:', settlement.error);
+      await finishWebhookEvent(supabase, loggedEventId, settlement.error);
+      return new Response('Processing failed', { status: 500 });
+    }
+
+    if (settlement.already_settled) {
+      console.log('Duplicate callback ignored:', CheckoutRequestID);
+      await finishWebhookEvent(supabase, loggedEventId);
+      return new Response('OK', { status: 200 });
+    }
+
+    let notification;
+    if (settlement.outcome === 'credited') {
+      notification = {
+        type: 'payment_success',
+        title: '💰 Payment Successful',
+        message: settlement.routed_to === 'chama'
+          ? `${settlement.currency} ${Number(settlement.amount).toFixed(2)} contributed via M-Pesa`
+          : `${settlement.currency} ${Number(settlement.amount).toFixed(2)} added to your wallet via M-Pesa`,
+      };
+    } else if (settlement.outcome === 'amount_mismatch') {
+      console.error('M-Pesa amount mismatch:', { CheckoutRequestID, amount });
+      notification = {
+        type: 'payment_failed',
+        title: '⚠️ Payment Under Review',
+        message: `We received ${settlement.currency} ${amount} for a request that did not match. Our team will review it and contact you.`,
+      };
+    } else {
+      notification = {
+        type: 'payment_failed',
+        title: '❌ Payment Failed',
+        message: ResultDesc || 'M-Pesa payment failed',
+      };
     }
 
-    return new Response('OK', { status: 200, headers: corsHeaders });
+    // Send notification to user
+    await supabase
+      .from('chama_notifications')
+      .insert({
+        user_id: settlement.user_id,
+        chama_id: settlement.chama_id || null,
+        ...notification,
+        data: {
+          amount: settlement.amount,
+          channel: 'mpesa',
+          reference: receiptNumber || CheckoutRequestID,
+          timestamp: transactionDate,
+          fee: settlement.fee,
+          fee_currency: settlement.fee_currency,
+          currency: settlement.currency,
+        },
+      });
+
+    console.log('M-Pesa callback processed:', settlement.outcome);
+
+    await finishWebhookEvent(supabase, loggedEventId);
+    return new Response('OK', { status: 200 });
 
   } catch (error) {
     console.error('Callback error:', error);
-    return new Response('OK', { status: 200, headers: corsHeaders });
+    await finishWebhookEvent(supabase, loggedEventId, error);
+    return new Response('Processing failed', { status: 500 });
   }
-});
\ No newline at end of file
+});
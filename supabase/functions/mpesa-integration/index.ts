@@ -1,5 +1,7 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { quoteFee } from '../_shared/fees.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -81,7 +83,8 @@ async function initiateSTKPush(accessToken: string, phoneNumber: string, amount:
     PartyA: formattedPhone,
     PartyB: businessShortCode,
     PhoneNumber: formattedPhone,
-    CallBackURL: 'https://yrywjbxqlqpdzrudfupm.supabase.co/functions/v1/mpesa-callback',
+    // Safaricom does not sign callbacks; mpesa-callback checks this token instead
+    CallBackURL: `https://yrywjbxqlqpdzrudfupm.supabase.co/functions/v1/mpesa-callback?token=${encodeURIComponent(Deno.env.get('MPESA_CALLBACK_TOKEN') ?? '')}`,
     AccountReference: transactionId || 'Payment',
     TransactionDesc: description || 'Chama transaction'
   };
@@ -137,7 +140,7 @@ serve(async (req) => {
     const requestBody = await req.json();
     console.log('Request body:', JSON.stringify(requestBody, null, 2));
 
-    const { action, phoneNumber, amount, description, transactionId } = requestBody;
+    const { action, phoneNumber, amount, description, transactionId, purpose, chamaId } = requestBody;
 
     console.log('=== Processing M-Pesa Action ===');
     console.log('Action:', action);
@@ -191,11 +194,98 @@ serve(async (req) => {
         });
       }
 
-      // Get access token and initiate STK Push
-      const accessToken = await getAccessToken(consumerKey, consumerSecret);
-      const stkResponse = await initiateSTKPush(accessToken, phoneNumber, amount, description, transactionId);
-      
-      return new Response(JSON.stringify(stkResponse), {
+      const supabaseClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+        {
+          global: {
+            headers: { Authorization: req.headers.get('Authorization') ?? '' },
+          },
+        }
+      );
+
+      const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+      if (userError || !user) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Unauthorized'
+        }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const supabaseAdmin = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      );
+
+      const paymentPurpose = purpose === 'contribution' ? 'contribution' : 'wallet_topup';
+      const paymentChamaId = paymentPurpose === 'contribution' ? chamaId ?? null : null;
+
+      // The fee is quoted once, on the amount the user wants to pay in, and
+      // added to the charge. Settlement reads it back from the pending payment.
+      const feeQuote = await quoteFee(supabaseAdmin, {
+        transactionType: paymentPurpose === 'contribution' ? 'chama_contribution' : 'wallet_topup',
+        amount,
+        userId: user.id,
+        channel: 'mpesa',
+        chamaId: paymentChamaId,
+      });
+      const totalAmount = amount + feeQuote.fee;
+
+      // Recorded before the push so the callback always finds it
+      const { data: payment, error: paymentError } = await supabaseAdmin
+        .from('mpesa_transactions')
+        .insert({
+          user_id: user.id,
+          chama_id: paymentChamaId,
+          phone_number: phoneNumber,
+          amount: totalAmount,
+          transaction_type: 'stk_push',
+          purpose: paymentPurpose,
+          status: 'pending',
+          metadata: { net_amount: amount, fee: feeQuote.fee, fee_quote: feeQuote },
+        })
+        .select('id')
+        .single();
+
+      if (paymentError) {
+        throw new Error(`Failed to record payment: ${paymentError.message}`);
+      }
+
+      // Get access token and initiate STK Push. A failure to reach M-Pesa
+      // fails the pending payment rather than leaving it open.
+      const stkResponse = await getAccessToken(consumerKey, consumerSecret)
+        .then((accessToken) => initiateSTKPush(accessToken, phoneNumber, totalAmount, description, transactionId))
+        .catch((error) => ({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to reach M-Pesa',
+        }));
+
+      const { error: updateError } = await supabaseAdmin
+        .from('mpesa_transactions')
+        .update(stkResponse.success
+          ? {
+            checkout_request_id: stkResponse.CheckoutRequestID,
+            merchant_request_id: stkResponse.MerchantRequestID,
+          }
+          : {
+            status: 'failed',
+            result_desc: stkResponse.error,
+          })
+        .eq('id', payment.id);
+
+      if (updateError) {
+        console.error('Failed to update pending payment:', updateError);
+      }
+
+      return new Response(JSON.stringify({
+        ...stkResponse,
+        paymentId: payment.id,
+        fee: feeQuote.fee,
+        totalAmount,
+      }), {
         status: stkResponse.success ? 200 : 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
@@ -1,45 +1,61 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
-import { createHmac } from "https://deno.land/std@0.168.0/node/crypto.ts"
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-paystack-signature',
-}
+import { finishWebhookEvent, isReprocessRequest, logWebhookEvent, verifyPaystackSignature } from '../_shared/webhooks.ts'
 
 serve(async (req) => {
   console.log('=== Paystack Callback Received ===');
   
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
+  // Server-to-server only: no CORS, and nothing but POST
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
   }
 
-  try {
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const paystackSecretKey = Deno.env.get('PAYSTACK_SECRET_KEY');
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  let loggedEventId: string | null = null;
 
-    if (!paystackSecretKey) {
+  try {
+    if (!Deno.env.get('PAYSTACK_SECRET_KEY')) {
       console.error('PAYSTACK_SECRET_KEY not configured');
       return new Response('Configuration error', { status: 500 });
     }
 
-    const supabase = createClient(supabaseUrl, supabaseKey);
-    
-    // Verify webhook signature for security
-    const signature = req.headers.get('x-paystack-signature');
     const body = await req.text();
-    
-    const hash = createHmac('sha512', paystackSecretKey)
-      .update(body)
-      .digest('hex');
+    const signatureValid = isReprocessRequest(req) || await verifyPaystackSignature(req, body);
+
+    let callbackData;
+    try {
+      callbackData = JSON.parse(body);
+    } catch {
+      callbackData = null;
+    }
 
-    if (hash !== signature) {
+    // Paystack has no event ID, but an event type never repeats for one transaction
+    const loggedEvent = await logWebhookEvent(supabase, req, {
+      provider: 'paystack',
+      eventId: callbackData?.data?.id ? `${callbackData.event}:${callbackData.data.id}` : null,
+      eventType: callbackData?.event ?? null,
+      rawBody: body,
+      signatureValid,
+    });
+    loggedEventId = loggedEvent.id;
+
+    if (!signatureValid) {
       console.error('Invalid signature - possible security breach attempt');
       return new Response('Invalid signature', { status: 401 });
     }
 
-    const callbackData = JSON.parse(body);
+    if (!callbackData) {
+      await finishWebhookEvent(supabase, loggedEventId, 'Malformed JSON body');
+      return new Response('Invalid payload', { status: 400 });
+    }
+
+    if (loggedEvent.duplicate) {
+      console.log('Replayed webhook ignored:', callbackData.event, callbackData.data?.reference);
+      return new Response('OK', { status: 200 });
+    }
+
     console.log('Webhook event:', callbackData.event);
     console.log('Callback data:', JSON.stringify(callbackData, null, 2));
 
@@ -56,144 +72,75 @@ serve(async (req) => {
       } = data;
 
       const amountPaid = amount / 100; // Paystack amount is in kobo/cents
-      const platformFee = amountPaid * 0.025; // 2.5% platform fee
-      const netAmount = amountPaid - platformFee;
 
       console.log('Processing successful payment:', reference);
-      console.log('Amount (KES):', amountPaid);
+      console.log('Amount:', amountPaid, data.currency);
       console.log('Channel:', channel); // Will show 'mobile_money' for M-Pesa
       console.log('Customer:', customer.email);
-      
-      const { data: transaction, error: txError } = await supabase
-        .from('mpesa_transactions')
-        .select('user_id, purpose, metadata, chama_id')
-        .eq('checkout_request_id', reference)
-        .single();
 
-      if (txError) {
-        console.error('Error fetching transaction:', txError);
+      // Credits the wallet and collects the fee once per reference, even if the
+      // reconciler or a retried webhook got here first
+      const { data: settlement, error: settleError } = await supabase.rpc('credit_paystack_payment', {
+        p_reference: reference,
+        p_amount_paid: amountPaid,
+        p_channel: channel,
+        p_paid_at: paid_at,
+        p_provider_data: callbackData,
+        p_settled_by: 'webhook'
+      });
+
+      // Unsettled payments are thrown to the handler below so the event is
+      // logged as failed and can be re-processed
+      if (settleError) {
+        throw new Error(`Error settling payment: ${settleError.message}`);
       }
-
-      // Update transaction status
-      const { error: updateError } = await supabase
-        .from('mpesa_transactions')
-        .update({
-          status: 'success',
-          result_code: 0,
-          result_desc: `Payment via ${channel} successful`,
-          mpesa_receipt_number: reference,
-          transaction_date: paid_at,
-          callback_data: callbackData,
-          updated_at: new Date().toISOString()
-        })
-        .eq('checkout_request_id', reference);
-
-      if (updateError) {
-        console.error('Error updating transaction:', updateError);
+      if (!settlement.success) {
+        throw new Error(`Error settling payment: ${settlement.error}`);
       }
 
-      if (transaction) {
-        console.log('Processing payment:', { amountPaid, platformFee, netAmount, purpose: transaction.purpose, channel });
-
-        // Update user wallet based on payment purpose
-        if (transaction.purpose === 'other' || transaction.purpose === 'wallet_topup') {
-          // Get or create user central wallet
-          let { data: centralWallet, error: centralWalletFetchError } = await supabase
-            .from('user_central_wallets')
-            .select('*')
-            .eq('user_id', transaction.user_id)
-            .single();
-
-          if (centralWalletFetchError && centralWalletFetchError.code !== 'PGRST116') {
-            console.error('Error fetching central wallet:', centralWalletFetchError);
-          }
-
-          if (!centralWallet) {
-            // Create central wallet if it doesn't exist
-            const { data: newWallet, error: createWalletError } = await supabase
-              .from('user_central_wallets')
-              .insert({ user_id: transaction.user_id, balance: 0 })
-              .select()
-              .single();
-
-            if (createWalletError) {
-              console.error('Error creating central wallet:', createWalletError);
-            } else {
-              centralWallet = newWallet;
-            }
-          }
-
-          if (centralWallet) {
-            // Add money to central wallet (net amount after platform fee)
-            const { error: walletUpdateError } = await supabase
-              .from('user_central_wallets')
-              .update({ 
-                balance: centralWallet.balance + netAmount,
-                updated_at: new Date().toISOString()
-              })
-              .eq('user_id', transaction.user_id);
-
-            if (walletUpdateError) {
-              console.error('Error updating central wallet:', walletUpdateError);
-            } else {
-              console.log('Central wallet updated successfully:', { 
-                userId: transaction.user_id, 
-                previousBalance: centralWallet.balance,
-                amountAdded: netAmount,
-                newBalance: centralWallet.balance + netAmount,
-                paymentChannel: channel
-              });
-
-              // Record wallet transaction
-              await supabase
-                .from('wallet_transactions')
-                .insert({
-                  user_id: transaction.user_id,
-                  type: 'deposit',
-                  amount: netAmount,
-                  description: `${channel === 'mobile_money' ? 'M-Pesa' : channel === 'bank' ? 'Bank Transfer' : channel === 'card' ? 'Card' : 'Paystack'} deposit (Fee: KES ${platformFee.toFixed(2)})`,
-                  status: 'completed',
-                  reference_id: reference,
-                  payment_method: channel,
-                  currency: 'KES',
-                });
-
-              // Send notification to user
-              await supabase
-                .from('chama_notifications')
-                .insert({
-                  user_id: transaction.user_id,
-                  chama_id: transaction.chama_id || null,
-                  type: 'payment_success',
-                  title: '💰 Payment Successful',
-                  message: `KES ${netAmount.toFixed(2)} added via ${channel === 'mobile_money' ? 'M-Pesa/Airtel Money' : channel === 'bank' ? 'Bank Transfer' : channel === 'card' ? 'Card Payment' : 'Paystack'}`,
-                  data: {
-                    amount: netAmount,
-                    channel,
-                    reference,
-                    timestamp: paid_at,
-                  },
-                });
-
-              console.log('Payment processed successfully - central wallet credited');
-            }
-          }
-        }
-
-        // Collect platform fee separately
-        const { error: feeError } = await supabase.rpc('collect_platform_fee', {
-          p_user_id: transaction.user_id,
-          p_fee_type: 'transaction',
-          p_amount: platformFee,
-          p_source_transaction_id: transaction.metadata?.transaction_id,
-          p_payment_reference: reference
-        });
-
-        if (feeError) {
-          console.error('Error collecting platform fee:', feeError);
-        } else {
-          console.log('Platform fee collected:', platformFee);
-        }
+      if (settlement.already_settled) {
+        console.log('Payment already settled, ignoring duplicate:', reference);
+      } else if (settlement.held_for_review) {
+        console.warn('Paid amount differs from the request, held for review:', reference, settlement.amount_paid, settlement.expected_amount);
+
+        await supabase
+          .from('chama_notifications')
+          .insert({
+            user_id: settlement.user_id,
+            chama_id: settlement.chama_id || null,
+            type: 'payment_failed',
+            title: '⚠️ Payment Under Review',
+            message: `We received ${settlement.currency} ${Number(settlement.amount_paid).toFixed(2)} but expected ${settlement.currency} ${Number(settlement.expected_amount).toFixed(2)}. Our team will review the payment before it is credited.`,
+            data: {
+              amount: settlement.amount_paid,
+              expected_amount: settlement.expected_amount,
+              currency: settlement.currency,
+              channel,
+              reference,
+            },
+          });
+      } else if (settlement.credited) {
+        const netAmount = settlement.amount;
+
+        // Send notification to user
+        await supabase
+          .from('chama_notifications')
+          .insert({
+            user_id: settlement.user_id,
+            chama_id: settlement.chama_id || null,
+            type: 'payment_success',
+            title: '💰 Payment Successful',
+            message: `${settlement.currency} ${netAmount.toFixed(2)} added via ${channel === 'mobile_money' ? 'M-Pesa/Airtel Money' : channel === 'bank' ? 'Bank Transfer' : channel === 'card' ? 'Card Payment' : 'Paystack'}`,
+            data: {
+              amount: netAmount,
+              currency: settlement.currency,
+              channel,
+              reference,
+              timestamp: paid_at,
+            },
+          });
+
+        console.log('Payment processed successfully - central wallet credited');
       }
     } else if (event === 'charge.failed') {
       const {
@@ -227,20 +174,20 @@ serve(async (req) => {
         userMessage = `💳 ${channel === 'mobile_money' ? 'Mobile Money' : 'Payment'} transaction failed\n${parsedMessage}\n🔁 Please try again or contact your provider.`;
       }
 
-      await supabase
-        .from('mpesa_transactions')
-        .update({
-          status: 'failed',
-          result_code: 1,
-          result_desc: userMessage,
-          callback_data: {
-            ...callbackData,
-            available_balance: availableBalance,
-            original_message: gateway_response,
-          },
-          updated_at: new Date().toISOString()
-        })
-        .eq('checkout_request_id', reference);
+      const { error: failError } = await supabase.rpc('fail_paystack_payment', {
+        p_reference: reference,
+        p_reason: userMessage,
+        p_provider_data: {
+          ...callbackData,
+          available_balance: availableBalance,
+          original_message: gateway_response,
+        },
+        p_settled_by: 'webhook'
+      });
+
+      if (failError) {
+        throw new Error(`Error marking payment failed: ${failError.message}`);
+      }
 
       // Fetch user from transaction
       const { data: transaction } = await supabase
@@ -270,12 +217,58 @@ serve(async (req) => {
       }
 
       console.log('Failed payment recorded with user-friendly message');
+    } else if (event === 'transfer.success' || event === 'transfer.failed' || event === 'transfer.reversed') {
+      const { reference, failures } = data;
+      const outcome = event.slice('transfer.'.length);
+      const reason = failures?.reason || `Transfer ${outcome}`;
+
+      console.log('Processing withdrawal transfer:', reference, outcome);
+
+      // Completes the withdrawal, or refunds the wallet and fee when the
+      // money did not go out; once per reference, whoever gets here first
+      const { data: settlement, error: settleError } = await supabase.rpc('settle_user_withdrawal', {
+        p_reference: reference,
+        p_outcome: outcome,
+        p_reason: outcome === 'success' ? null : reason,
+        p_provider_data: callbackData,
+        p_settled_by: 'webhook'
+      });
+
+      if (settleError) {
+        throw new Error(`Error settling withdrawal: ${settleError.message}`);
+      }
+
+      if (!settlement.success) {
+        // Transfers this app did not start as a wallet withdrawal
+        console.warn('Transfer has no matching withdrawal, ignoring:', reference);
+      } else if (settlement.already_settled) {
+        console.log('Withdrawal already settled, ignoring duplicate:', reference);
+      } else if (settlement.refunded) {
+        await supabase
+          .from('chama_notifications')
+          .insert({
+            user_id: settlement.user_id,
+            type: 'payment_failed',
+            title: '↩️ Withdrawal Refunded',
+            message: `Your withdrawal of ${settlement.currency} ${Number(settlement.amount).toFixed(2)} did not go through and has been returned to your wallet.`,
+            data: {
+              amount: settlement.amount,
+              currency: settlement.currency,
+              reference,
+              reason,
+            },
+          });
+      }
     }
 
-    return new Response('OK', { status: 200, headers: corsHeaders });
+    await finishWebhookEvent(supabase, loggedEventId);
+    return new Response('OK', { status: 200 });
 
   } catch (error) {
+    // Answered with an error so Paystack retries the event; the failed event
+    // gives up its slot, so the retry is processed rather than dropped
     console.error('Callback error:', error);
-    return new Response('OK', { status: 200, headers: corsHeaders });
+    await finishWebhookEvent(supabase, loggedEventId, error);
+    return new Response('Processing failed', { status: 500 });
   }
 });
@@ -1,9 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { hasPinStepUp, pinStepUpRequired } from "../_shared/pinStepUp.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-pin-token',
 }
 
 interface InitializePaymentRequest {
@@ -132,97 +133,33 @@ serve(async (req) => {
         });
       }
 
-      // Update transaction in database
-      const status = verifyData.data.status === 'success' ? 'success' : 'failed';
-      await supabase
-        .from('mpesa_transactions')
-        .update({
-          status,
-          result_code: verifyData.data.status === 'success' ? 0 : 1,
-          result_desc: verifyData.data.gateway_response,
-          mpesa_receipt_number: verifyData.data.reference,
-          transaction_date: verifyData.data.paid_at,
-        })
-        .eq('checkout_request_id', reference);
-
-      // If successful, credit the user's wallet (fallback in case webhook fails or is delayed)
-      if (status === 'success') {
-        const amountPaid = verifyData.data.amount / 100; // Paystack returns amount in kobo/cents
-        const platformFee = amountPaid * 0.025;
-        const netAmount = amountPaid - platformFee;
-
-        // Find the original transaction to get the user and purpose
-        const { data: transaction, error: txError } = await supabase
-          .from('mpesa_transactions')
-          .select('user_id, purpose, metadata')
-          .eq('checkout_request_id', reference)
-          .single();
-
-        if (!txError && transaction?.user_id) {
-          // Get or create user wallet
-          let { data: wallet, error: walletFetchError } = await supabase
-            .from('user_wallets')
-            .select('*')
-            .eq('user_id', transaction.user_id)
-            .single();
-
-          if (walletFetchError && walletFetchError.code !== 'PGRST116') {
-            console.error('Verify: error fetching wallet:', walletFetchError);
-          }
-
-          if (!wallet) {
-            const { data: newWallet, error: createWalletError } = await supabase
-              .from('user_wallets')
-              .insert({ user_id: transaction.user_id, balance: 0 })
-              .select()
-              .single();
+      // Settle through the same functions as the webhook, so the payment is
+      // credited once at the fee-engine price whichever path gets there first
+      if (verifyData.data.status === 'success') {
+        const { data: settlement, error: settleError } = await supabase.rpc('credit_paystack_payment', {
+          p_reference: reference,
+          p_amount_paid: verifyData.data.amount / 100, // Paystack returns amount in kobo/cents
+          p_channel: verifyData.data.channel,
+          p_paid_at: verifyData.data.paid_at,
+          p_provider_data: verifyData.data,
+          p_settled_by: 'verify',
+        });
 
-            if (createWalletError) {
-              console.error('Verify: error creating wallet:', createWalletError);
-            } else {
-              wallet = newWallet;
-            }
-          }
+        if (settleError || !settlement?.success) {
+          console.error('Verify: error settling payment:', settleError || settlement?.error);
+        } else if (settlement.held_for_review) {
+          console.warn('Verify: paid amount differs from the request, held for review:', reference);
+        }
+      } else if (['failed', 'abandoned', 'reversed'].includes(verifyData.data.status)) {
+        const { error: failError } = await supabase.rpc('fail_paystack_payment', {
+          p_reference: reference,
+          p_reason: verifyData.data.gateway_response || `Payment ${verifyData.data.status}`,
+          p_provider_data: verifyData.data,
+          p_settled_by: 'verify',
+        });
 
-          if (wallet) {
-            const { error: walletUpdateError } = await supabase
-              .from('user_wallets')
-              .update({
-                balance: wallet.balance + netAmount,
-                updated_at: new Date().toISOString(),
-              })
-              .eq('user_id', transaction.user_id);
-
-            if (walletUpdateError) {
-              console.error('Verify: error updating wallet:', walletUpdateError);
-            } else {
-              // Record wallet transaction
-              await supabase
-                .from('wallet_transactions')
-                .insert({
-                  user_id: transaction.user_id,
-                  type: 'deposit',
-                  amount: netAmount,
-                  description: `Wallet top-up via Paystack (Fee: KES ${platformFee.toFixed(2)})`,
-                  status: 'completed',
-                  reference_id: reference,
-                  payment_method: 'paystack',
-                });
-
-              // Collect platform fee
-              const { error: feeError } = await supabase.rpc('collect_platform_fee', {
-                p_user_id: transaction.user_id,
-                p_fee_type: 'transaction',
-                p_amount: platformFee,
-                p_source_transaction_id: transaction.metadata?.transaction_id,
-                p_payment_reference: reference,
-              });
-
-              if (feeError) {
-                console.error('Verify: error collecting platform fee:', feeError);
-              }
-            }
-          }
+        if (failError) {
+          console.error('Verify: error marking payment failed:', failError);
         }
       }
 
@@ -257,10 +194,28 @@ serve(async (req) => {
         });
       }
 
+      // Withdrawals leave the caller's own wallet and need a fresh PIN step-up
+      const { data: { user } } = await supabase.auth.getUser(
+        (req.headers.get('Authorization') ?? '').replace('Bearer ', '')
+      );
+      if (!user || user.id !== user_id) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'You can only withdraw from your own wallet'
+        }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (!(await hasPinStepUp(req, supabase, user.id))) {
+        return pinStepUpRequired(corsHeaders);
+      }
+
       // Check user wallet balance
       const { data: wallet, error: walletError } = await supabase
         .from('user_wallets')
-        .select('balance')
+        .select('id, balance')
         .eq('user_id', user_id)
         .single();
 
@@ -318,56 +273,110 @@ serve(async (req) => {
         });
       }
 
-      // Initiate transfer
-      const transferResponse = await fetch('https://api.paystack.co/transfer', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${paystackSecretKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          source: 'balance',
-          amount: amountInKobo,
-          recipient: recipientData.data.recipient_code,
-          reason: `Withdrawal from wallet`,
-        }),
+      // Debit the wallet through the ledger before the transfer goes out, so
+      // money can never leave without the wallet being debited for it
+      const transferReference = `WD${Date.now()}${user_id.substring(0, 8)}`;
+
+      const { error: ledgerError } = await supabase.rpc('post_user_withdrawal', {
+        p_user_id: user_id,
+        p_wallet_id: wallet.id,
+        p_net_amount: amount,
+        p_fee: 0,
+        p_reference: transferReference,
+        p_payment_method: 'bank',
       });
 
-      const transferData = await transferResponse.json();
-      console.log('Transfer response:', JSON.stringify(transferData, null, 2));
-
-      if (!transferResponse.ok || !transferData.status) {
+      if (ledgerError) {
+        console.error('Ledger posting error before Paystack transfer:', ledgerError);
         return new Response(JSON.stringify({
           success: false,
-          error: transferData.message || 'Failed to process withdrawal'
+          error: ledgerError.message?.includes('Insufficient balance') ? 'Insufficient wallet balance' : 'Failed to update wallet'
         }), {
           status: 400,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
 
-      // Deduct from user wallet
-      await supabase
-        .from('user_wallets')
-        .update({ balance: currentBalance - amount })
-        .eq('user_id', user_id);
-
-      // Record transaction
       await supabase
         .from('wallet_transactions')
-        .insert({
-          user_id: user_id,
-          type: 'withdrawal',
-          amount: -amount,
-          description: `Withdrawal to ${account_number}`,
-          status: 'completed',
-          currency: 'NGN'
+        .update({ description: `Withdrawal to ${account_number}` })
+        .eq('reference_id', transferReference)
+        .eq('type', 'withdrawal');
+
+      // Initiate transfer. It stays pending until paystack-callback or
+      // reconcile-paystack-withdrawals learns its outcome; if Paystack cannot
+      // be reached or fails on its side the transfer may still go out, so the
+      // debit stays and it is pending too.
+      let transferStatus = 'pending';
+      let transferData: { status?: boolean; message?: string; data?: { transfer_code?: string; status?: string } } | null = null;
+      try {
+        const transferResponse = await fetch('https://api.paystack.co/transfer', {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${paystackSecretKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            source: 'balance',
+            amount: amountInKobo,
+            recipient: recipientData.data.recipient_code,
+            reason: `Withdrawal from wallet`,
+            reference: transferReference,
+          }),
         });
 
+        if (transferResponse.status >= 500) {
+          console.error('Transfer outcome unknown:', transferReference, transferResponse.status);
+        } else {
+          transferData = await transferResponse.json();
+          console.log('Transfer response:', JSON.stringify(transferData, null, 2));
+
+          if (!transferResponse.ok || !transferData.status) {
+            // Refused outright, so nothing was sent: put the money back
+            const { error: reverseError } = await supabase.rpc('settle_user_withdrawal', {
+              p_reference: transferReference,
+              p_outcome: 'failed',
+              p_reason: transferData.message || 'Transfer failed',
+              p_provider_data: transferData,
+              p_settled_by: 'paystack-integration',
+            });
+            if (reverseError) {
+              console.error('Withdrawal reversal error:', transferReference, reverseError);
+            }
+
+            return new Response(JSON.stringify({
+              success: false,
+              error: transferData.message || 'Failed to process withdrawal'
+            }), {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
+          }
+
+          if (transferData.data?.status === 'success') {
+            const { error: completeError } = await supabase.rpc('settle_user_withdrawal', {
+              p_reference: transferReference,
+              p_outcome: 'success',
+              p_provider_data: transferData,
+              p_settled_by: 'paystack-integration',
+            });
+            if (completeError) {
+              console.error('Error completing withdrawal:', transferReference, completeError);
+            } else {
+              transferStatus = 'completed';
+            }
+          }
+        }
+      } catch (error) {
+        console.error('Transfer outcome unknown:', transferReference, error);
+      }
+
       return new Response(JSON.stringify({
         success: true,
-        message: 'Withdrawal processed successfully',
-        transfer_code: transferData.data.transfer_code,
+        message: transferStatus === 'completed' ? 'Withdrawal processed successfully' : 'Withdrawal is being processed',
+        status: transferStatus,
+        transfer_code: transferData?.data?.transfer_code,
+        reference: transferReference,
         amount: amount
       }), {
         status: 200,
@@ -1,9 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { hasPinStepUp, pinStepUpRequired } from '../_shared/pinStepUp.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-pin-token',
 };
 
 serve(async (req) => {
@@ -27,25 +28,39 @@ serve(async (req) => {
       throw new Error('Unauthorized');
     }
 
+    // Balance changes are posted to the ledger with the service role
+    const ledgerClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
     const { operation, amount, goalName, frequency, source, pin, goalId } = await req.json();
     console.log('Personal savings operation:', { operation, amount, source, user: user.id });
 
-    // Verify PIN
-    const pinValid = await verifyUserPin(supabaseClient, user.id, pin);
-    if (!pinValid) {
-      return new Response(
-        JSON.stringify({ success: false, error: 'Invalid PIN' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    // A PIN typed into the savings form counts as a step-up of its own, and
+    // goes through the same lockout as every other PIN check
+    if (pin) {
+      const { data: pinResult, error: pinError } = await supabaseClient.rpc('verify_user_pin_enhanced', {
+        p_user_id: user.id,
+        p_pin: pin,
+      });
+      if (pinError || !pinResult?.success) {
+        return new Response(
+          JSON.stringify({ success: false, error: pinResult?.message ?? 'Invalid PIN' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    } else if (!(await hasPinStepUp(req, ledgerClient, user.id))) {
+      return pinStepUpRequired(corsHeaders);
     }
 
     let result;
     switch (operation) {
       case 'add':
-        result = await handleAddSavings(supabaseClient, user.id, amount, goalName, frequency, source);
+        result = await handleAddSavings(supabaseClient, ledgerClient, user.id, amount, goalName, frequency, source);
         break;
       case 'withdraw':
-        result = await handleWithdrawSavings(supabaseClient, user.id, amount, goalId);
+        result = await handleWithdrawSavings(supabaseClient, ledgerClient, user.id, amount, goalId);
         break;
       default:
         throw new Error('Invalid operation');
@@ -65,71 +80,53 @@ serve(async (req) => {
   }
 });
 
-async function verifyUserPin(supabase: any, userId: string, pin: string) {
-  try {
-    const { data: pinData, error } = await supabase
-      .from('user_pins_enhanced')
-      .select('pin_hash, salt, failed_attempts, locked_until')
-      .eq('user_id', userId)
-      .single();
-
-    if (error || !pinData) return false;
-
-    // Check if account is locked
-    if (pinData.locked_until && new Date(pinData.locked_until) > new Date()) {
-      throw new Error('Account is temporarily locked due to failed attempts');
-    }
-
-    // Hash the provided PIN with the stored salt
-    const encoder = new TextEncoder();
-    const data = encoder.encode(pinData.salt + pin);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-
-    if (hashHex === pinData.pin_hash) {
-      // Reset failed attempts on successful verification
-      await supabase
-        .from('user_pins_enhanced')
-        .update({ failed_attempts: 0 })
-        .eq('user_id', userId);
-      return true;
-    } else {
-      // Increment failed attempts
-      const newFailedAttempts = (pinData.failed_attempts || 0) + 1;
-      const lockUntil = newFailedAttempts >= 5 
-        ? new Date(Date.now() + 15 * 60 * 1000).toISOString() 
-        : null;
-
-      await supabase
-        .from('user_pins_enhanced')
-        .update({ 
-          failed_attempts: newFailedAttempts,
-          locked_until: lockUntil 
-        })
-        .eq('user_id', userId);
-
-      return false;
-    }
-  } catch (error) {
-    console.error('PIN verification error:', error);
-    return false;
-  }
-}
-
 async function handleAddSavings(
   supabase: any, 
+  ledger: ReturnType<typeof createClient>,
   userId: string, 
   amount: number, 
   goalName: string, 
   frequency: string, 
   source: string
 ) {
-  // Verify sufficient funds based on source
+  // Find or create the savings goal first so the deposit can be posted to it
+  let goalId = null;
+  const { data: existingGoal } = await supabase
+    .from('personal_savings_goals')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('goal_name', goalName || 'General Savings')
+    .eq('status', 'active')
+    .single();
+
+  if (existingGoal) {
+    goalId = existingGoal.id;
+  } else {
+    const { data: newGoal, error: goalError } = await supabase
+      .from('personal_savings_goals')
+      .insert({
+        user_id: userId,
+        goal_name: goalName || 'General Savings',
+        target_amount: amount * 10, // Default target is 10x first contribution
+        current_amount: 0
+      })
+      .select()
+      .single();
+
+    if (goalError || !newGoal) throw new Error('Failed to create savings goal');
+    goalId = newGoal.id;
+  }
+
+  // Work out which ledger account the deposit comes from, checking funds
+  // up front; the ledger refuses to overdraw it either way
+  let debitAccountType = 'external';
+  let debitAccountId: string | null = null;
+  let description = `Personal savings deposit via ${source}`;
+
   if (source === 'central_wallet') {
     const { data: wallet } = await supabase
       .from('user_central_wallets')
-      .select('balance')
+      .select('id, balance')
       .eq('user_id', userId)
       .single();
 
@@ -137,73 +134,54 @@ async function handleAddSavings(
       throw new Error('Insufficient balance in central wallet');
     }
 
-    // Deduct from central wallet
-    await supabase
-      .from('user_central_wallets')
-      .update({ balance: wallet.balance - amount })
-      .eq('user_id', userId);
+    debitAccountType = 'user_central_wallet';
+    debitAccountId = wallet.id;
+    description = 'Personal savings deposit';
+
+  } else if (source === 'wallet') {
+    const { data: wallet } = await supabase
+      .from('user_wallets')
+      .select('id, balance')
+      .eq('user_id', userId)
+      .single();
+
+    if (!wallet || (wallet.balance || 0) < amount) {
+      throw new Error('Insufficient wallet balance');
+    }
+
+    debitAccountType = 'user_wallet';
+    debitAccountId = wallet.id;
 
   } else if (source === 'merry_go_round') {
-    // Check member's merry-go-round balance across their chamas
+    // Savings come out of one chama's merry-go-round balance, the first
+    // that can cover the whole amount
     const { data: members } = await supabase
       .from('chama_members')
       .select('mgr_balance, id')
       .eq('user_id', userId);
 
-    const totalMgrBalance = members?.reduce((sum: number, m: any) => sum + (m.mgr_balance || 0), 0) || 0;
-    if (totalMgrBalance < amount) {
+    const member = (members || []).find((m: any) => (m.mgr_balance || 0) >= amount);
+    if (!member) {
       throw new Error('Insufficient balance in merry-go-round');
     }
 
-    // Deduct from the first member record with sufficient balance
-    for (const member of members || []) {
-      if (member.mgr_balance >= amount) {
-        await supabase
-          .from('chama_members')
-          .update({ mgr_balance: member.mgr_balance - amount })
-          .eq('id', member.id);
-        break;
-      }
-    }
+    debitAccountType = 'member_mgr';
+    debitAccountId = member.id;
   }
   // For M-Pesa, assume payment is already processed
 
-  // Find or create savings goal
-  let goalId = null;
-  if (goalName) {
-    const { data: existingGoal } = await supabase
-      .from('personal_savings_goals')
-      .select('id, current_amount')
-      .eq('user_id', userId)
-      .eq('goal_name', goalName)
-      .eq('status', 'active')
-      .single();
+  const { error: ledgerError } = await ledger.rpc('post_ledger_transaction', {
+    p_transaction_type: 'savings_deposit',
+    p_debit_account_type: debitAccountType,
+    p_debit_account_id: debitAccountId,
+    p_credit_account_type: 'savings_goal',
+    p_credit_account_id: goalId,
+    p_amount: amount,
+    p_description: description,
+    p_metadata: { user_id: userId, source }
+  });
 
-    if (existingGoal) {
-      goalId = existingGoal.id;
-      // Update goal amount
-      await supabase
-        .from('personal_savings_goals')
-        .update({ 
-          current_amount: existingGoal.current_amount + amount,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', goalId);
-    } else {
-      // Create new goal
-      const { data: newGoal } = await supabase
-        .from('personal_savings_goals')
-        .insert({
-          user_id: userId,
-          goal_name: goalName,
-          target_amount: amount * 10, // Default target is 10x first contribution
-          current_amount: amount
-        })
-        .select()
-        .single();
-      goalId = newGoal?.id;
-    }
-  }
+  if (ledgerError) throw new Error(ledgerError.message);
 
   // Create transaction record
   const { data: transaction } = await supabase
@@ -228,6 +206,7 @@ async function handleAddSavings(
 
 async function handleWithdrawSavings(
   supabase: any, 
+  ledger: ReturnType<typeof createClient>,
   userId: string, 
   amount: number, 
   goalId: string
@@ -248,27 +227,29 @@ async function handleWithdrawSavings(
     throw new Error('Insufficient savings balance');
   }
 
-  // Update goal amount
-  await supabase
-    .from('personal_savings_goals')
-    .update({ 
-      current_amount: goal.current_amount - amount,
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', goalId);
-
-  // Add to central wallet
+  // Move funds from the goal back to the central wallet
   const { data: wallet } = await supabase
     .from('user_central_wallets')
-    .select('balance')
+    .select('id, balance')
     .eq('user_id', userId)
     .single();
 
-  const newBalance = (wallet?.balance || 0) + amount;
-  await supabase
-    .from('user_central_wallets')
-    .update({ balance: newBalance })
-    .eq('user_id', userId);
+  if (!wallet) throw new Error('Central wallet not found');
+
+  const { error: ledgerError } = await ledger.rpc('post_ledger_transaction', {
+    p_transaction_type: 'savings_withdrawal',
+    p_debit_account_type: 'savings_goal',
+    p_debit_account_id: goalId,
+    p_credit_account_type: 'user_central_wallet',
+    p_credit_account_id: wallet.id,
+    p_amount: amount,
+    p_description: 'Personal savings withdrawal',
+    p_metadata: { user_id: userId }
+  });
+
+  if (ledgerError) throw new Error(ledgerError.message);
+
+  const newBalance = wallet.balance + amount;
 
   // Create transaction record
   await supabase
@@ -0,0 +1,88 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { quoteFee } from '../_shared/fees.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Enough for a fee table's worth of examples in one round trip
+const MAX_ITEMS = 50;
+
+interface QuoteItem {
+  transactionType: string;
+  amount: number;
+  channel?: string | null;
+  chamaId?: string | null;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseClient = createClient(
+      supabaseUrl,
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    )
+
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser()
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Accepts a single quote or { items: [...] } for several at once
+    const body = await req.json();
+    const items: QuoteItem[] = Array.isArray(body.items) ? body.items : [body];
+
+    if (items.length === 0 || items.length > MAX_ITEMS) {
+      return new Response(
+        JSON.stringify({ error: `Between 1 and ${MAX_ITEMS} quotes can be requested at once` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    for (const item of items) {
+      if (!item.transactionType || !(Number(item.amount) > 0)) {
+        return new Response(
+          JSON.stringify({ error: 'Each quote needs a transactionType and a positive amount' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    // Quotes are always for the caller, so tier and personal waivers come from the JWT
+    const supabaseAdmin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+    const quotes = await Promise.all(items.map((item) => quoteFee(supabaseAdmin, {
+      transactionType: item.transactionType,
+      amount: Number(item.amount),
+      userId: user.id,
+      channel: item.channel,
+      chamaId: item.chamaId,
+    })));
+
+    return new Response(
+      JSON.stringify({ success: true, quotes }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Error in quote-fee:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
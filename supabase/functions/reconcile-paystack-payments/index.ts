@@ -0,0 +1,188 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { verifyPaystackTransaction } from '../_shared/paystack.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+}
+
+// Payments younger than this may still be completing on the customer's phone
+const STALE_AFTER_MINUTES = 5;
+// Payments Paystack still reports as in progress after this long are given up on
+const ABANDON_AFTER_HOURS = 24;
+const BATCH_SIZE = 100;
+
+const FAILED_STATUSES = ['failed', 'abandoned', 'reversed'];
+
+interface ReconciliationItem {
+  reference: string;
+  user_id: string;
+  amount: number;
+  outcome: 'credited' | 'already_settled' | 'amount_mismatch' | 'failed' | 'pending' | 'error';
+  provider_status?: string;
+  provider_amount?: number;
+  detail?: string;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Called by the scheduler with the shared cron secret, or by an admin on demand
+    let triggeredBy = 'schedule';
+    const cronSecret = Deno.env.get('CRON_SECRET');
+    if (!cronSecret || req.headers.get('x-cron-secret') !== cronSecret) {
+      const authHeader = req.headers.get('Authorization');
+      if (!authHeader) {
+        throw new Error('Unauthorized');
+      }
+
+      const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+        global: { headers: { Authorization: authHeader } },
+      });
+
+      const { data: { user } } = await userClient.auth.getUser();
+      const { data: isAdmin } = await userClient.rpc('is_admin');
+      if (!user || !isAdmin) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Only admins can run reconciliation' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      triggeredBy = user.id;
+    }
+
+    const { data: run, error: runError } = await supabase
+      .from('payment_reconciliation_runs')
+      .insert({ provider: 'paystack', triggered_by: triggeredBy })
+      .select('id')
+      .single();
+
+    if (runError) throw runError;
+
+    const staleBefore = new Date(Date.now() - STALE_AFTER_MINUTES * 60 * 1000).toISOString();
+    const abandonBefore = Date.now() - ABANDON_AFTER_HOURS * 60 * 60 * 1000;
+
+    const { data: pendingPayments, error: pendingError } = await supabase
+      .from('mpesa_transactions')
+      .select('checkout_request_id, user_id, amount, created_at')
+      .eq('transaction_type', 'paystack')
+      .eq('status', 'pending')
+      .lt('created_at', staleBefore)
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (pendingError) throw pendingError;
+
+    console.log(`Reconciling ${pendingPayments?.length ?? 0} pending Paystack payments`);
+
+    const items: ReconciliationItem[] = [];
+
+    for (const payment of pendingPayments ?? []) {
+      const reference = payment.checkout_request_id;
+      const item: ReconciliationItem = {
+        reference,
+        user_id: payment.user_id,
+        amount: payment.amount,
+        outcome: 'pending',
+      };
+
+      try {
+        const verification = await verifyPaystackTransaction(reference);
+
+        if (!verification) {
+          item.provider_status = 'not_found';
+          if (new Date(payment.created_at).getTime() < abandonBefore) {
+            await supabase.rpc('fail_paystack_payment', {
+              p_reference: reference,
+              p_reason: 'Payment was never received by Paystack',
+              p_settled_by: 'reconciler',
+            });
+            item.outcome = 'failed';
+          }
+        } else {
+          item.provider_status = verification.status;
+          item.provider_amount = verification.amount;
+
+          if (verification.status === 'success') {
+            const { data: settlement, error: settleError } = await supabase.rpc('credit_paystack_payment', {
+              p_reference: reference,
+              p_amount_paid: verification.amount,
+              p_channel: verification.channel,
+              p_paid_at: verification.paidAt,
+              p_provider_data: verification.raw,
+              p_settled_by: 'reconciler',
+            });
+
+            if (settleError) throw settleError;
+            if (!settlement.success) throw new Error(settlement.error);
+
+            if (settlement.held_for_review) {
+              item.outcome = 'amount_mismatch';
+              item.detail = `Paystack amount ${verification.amount} differs from requested ${payment.amount}`;
+            } else {
+              item.outcome = settlement.already_settled ? 'already_settled' : 'credited';
+            }
+          } else if (FAILED_STATUSES.includes(verification.status)
+            || new Date(payment.created_at).getTime() < abandonBefore) {
+            await supabase.rpc('fail_paystack_payment', {
+              p_reference: reference,
+              p_reason: verification.gatewayResponse || `Payment ${verification.status}`,
+              p_provider_data: verification.raw,
+              p_settled_by: 'reconciler',
+            });
+            item.outcome = 'failed';
+          }
+        }
+      } catch (error) {
+        console.error('Error reconciling payment:', reference, error);
+        item.outcome = 'error';
+        item.detail = error instanceof Error ? error.message : String(error);
+      }
+
+      items.push(item);
+    }
+
+    const summary = {
+      checked_count: items.length,
+      credited_count: items.filter((item) => item.outcome === 'credited').length,
+      failed_count: items.filter((item) => item.outcome === 'failed').length,
+      pending_count: items.filter((item) => item.outcome === 'pending').length,
+      error_count: items.filter((item) => item.outcome === 'error').length,
+      credited_amount: items
+        .filter((item) => item.outcome === 'credited')
+        .reduce((total, item) => total + (item.provider_amount ?? 0), 0),
+    };
+
+    const { error: reportError } = await supabase
+      .from('payment_reconciliation_runs')
+      .update({ ...summary, items, finished_at: new Date().toISOString() })
+      .eq('id', run.id);
+
+    if (reportError) {
+      console.error('Error saving reconciliation report:', reportError);
+    }
+
+    console.log('Reconciliation finished:', summary);
+
+    return new Response(
+      JSON.stringify({ success: true, run_id: run.id, ...summary }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Reconciliation error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    );
+  }
+});
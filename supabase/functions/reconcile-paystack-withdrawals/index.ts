@@ -0,0 +1,198 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { verifyPaystackTransfer } from '../_shared/paystack.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+}
+
+// Withdrawals younger than this are normally settled by the transfer webhook
+const STALE_AFTER_MINUTES = 15;
+// A withdrawal Paystack has never heard of after this long was never sent
+const ABANDON_AFTER_HOURS = 1;
+const BATCH_SIZE = 100;
+
+const FAILED_STATUSES = ['failed', 'abandoned', 'rejected', 'blocked'];
+
+interface ReconciliationItem {
+  reference: string;
+  user_id: string;
+  amount: number;
+  outcome: 'completed' | 'refunded' | 'already_settled' | 'pending' | 'error';
+  provider_status?: string;
+  provider_amount?: number;
+  detail?: string;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Called by the scheduler with the shared cron secret, or by an admin on demand
+    let triggeredBy = 'schedule';
+    const cronSecret = Deno.env.get('CRON_SECRET');
+    if (!cronSecret || req.headers.get('x-cron-secret') !== cronSecret) {
+      const authHeader = req.headers.get('Authorization');
+      if (!authHeader) {
+        throw new Error('Unauthorized');
+      }
+
+      const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+        global: { headers: { Authorization: authHeader } },
+      });
+
+      const { data: { user } } = await userClient.auth.getUser();
+      const { data: isAdmin } = await userClient.rpc('is_admin');
+      if (!user || !isAdmin) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Only admins can run reconciliation' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      triggeredBy = user.id;
+    }
+
+    // Runs share the payments report table: completed payouts are counted as
+    // credited and refunded ones as failed
+    const { data: run, error: runError } = await supabase
+      .from('payment_reconciliation_runs')
+      .insert({ provider: 'paystack_transfer', triggered_by: triggeredBy })
+      .select('id')
+      .single();
+
+    if (runError) throw runError;
+
+    const staleBefore = new Date(Date.now() - STALE_AFTER_MINUTES * 60 * 1000).toISOString();
+    const abandonBefore = Date.now() - ABANDON_AFTER_HOURS * 60 * 60 * 1000;
+
+    const { data: pendingWithdrawals, error: pendingError } = await supabase
+      .from('wallet_transactions')
+      .select('reference_id, user_id, amount, created_at')
+      .eq('type', 'withdrawal')
+      .eq('status', 'pending')
+      .like('reference_id', 'WD%')
+      .lt('created_at', staleBefore)
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (pendingError) throw pendingError;
+
+    console.log(`Reconciling ${pendingWithdrawals?.length ?? 0} pending Paystack withdrawals`);
+
+    const items: ReconciliationItem[] = [];
+
+    for (const withdrawal of pendingWithdrawals ?? []) {
+      const reference = withdrawal.reference_id;
+      const item: ReconciliationItem = {
+        reference,
+        user_id: withdrawal.user_id,
+        amount: -withdrawal.amount,
+        outcome: 'pending',
+      };
+
+      try {
+        const verification = await verifyPaystackTransfer(reference);
+
+        let outcome: 'success' | 'failed' | 'reversed' | null = null;
+        let reason: string | null = null;
+        if (!verification) {
+          item.provider_status = 'not_found';
+          if (new Date(withdrawal.created_at).getTime() < abandonBefore) {
+            outcome = 'failed';
+            reason = 'Transfer was never received by Paystack';
+          }
+        } else {
+          item.provider_status = verification.status;
+          item.provider_amount = verification.amount;
+
+          if (verification.status === 'success') {
+            outcome = 'success';
+          } else if (verification.status === 'reversed') {
+            outcome = 'reversed';
+            reason = verification.failureReason || 'Transfer reversed';
+          } else if (FAILED_STATUSES.includes(verification.status)) {
+            outcome = 'failed';
+            reason = verification.failureReason || `Transfer ${verification.status}`;
+          }
+        }
+
+        if (outcome) {
+          const { data: settlement, error: settleError } = await supabase.rpc('settle_user_withdrawal', {
+            p_reference: reference,
+            p_outcome: outcome,
+            p_reason: reason,
+            p_provider_data: verification?.raw ?? {},
+            p_settled_by: 'reconciler',
+          });
+
+          if (settleError) throw settleError;
+          if (!settlement.success) throw new Error(settlement.error);
+
+          item.outcome = settlement.already_settled
+            ? 'already_settled'
+            : outcome === 'success' ? 'completed' : 'refunded';
+
+          if (item.outcome === 'refunded') {
+            await supabase
+              .from('chama_notifications')
+              .insert({
+                user_id: withdrawal.user_id,
+                type: 'payment_failed',
+                title: '↩️ Withdrawal Refunded',
+                message: `Your withdrawal of ${settlement.currency} ${Number(settlement.amount).toFixed(2)} did not go through and has been returned to your wallet.`,
+                data: { reference, amount: settlement.amount, currency: settlement.currency, reason },
+              });
+          }
+        }
+      } catch (error) {
+        console.error('Error reconciling withdrawal:', reference, error);
+        item.outcome = 'error';
+        item.detail = error instanceof Error ? error.message : String(error);
+      }
+
+      items.push(item);
+    }
+
+    const summary = {
+      checked_count: items.length,
+      credited_count: items.filter((item) => item.outcome === 'completed').length,
+      failed_count: items.filter((item) => item.outcome === 'refunded').length,
+      pending_count: items.filter((item) => item.outcome === 'pending').length,
+      error_count: items.filter((item) => item.outcome === 'error').length,
+      credited_amount: items
+        .filter((item) => item.outcome === 'completed')
+        .reduce((total, item) => total + (item.provider_amount ?? 0), 0),
+    };
+
+    const { error: reportError } = await supabase
+      .from('payment_reconciliation_runs')
+      .update({ ...summary, items, finished_at: new Date().toISOString() })
+      .eq('id', run.id);
+
+    if (reportError) {
+      console.error('Error saving reconciliation report:', reportError);
+    }
+
+    console.log('Withdrawal reconciliation finished:', summary);
+
+    return new Response(
+      JSON.stringify({ success: true, run_id: run.id, ...summary }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Withdrawal reconciliation error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    );
+  }
+});
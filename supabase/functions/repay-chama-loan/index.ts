@@ -1,12 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { withIdempotency } from '../_shared/idempotency.ts';
+import { hasPinStepUp, pinStepUpRequired } from '../_shared/pinStepUp.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, idempotency-key, x-pin-token',
 };
 
-serve(async (req) => {
+serve(withIdempotency('repay-chama-loan', async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
@@ -23,6 +25,10 @@ serve(async (req) => {
 
     if (!user) throw new Error('Not authenticated');
 
+    if (!(await hasPinStepUp(req, supabase, user.id))) {
+      return pinStepUpRequired(corsHeaders);
+    }
+
     const { loanId, chamaId, amount } = await req.json();
 
     console.log('Repaying loan:', { loanId, chamaId, amount });
@@ -48,7 +54,7 @@ serve(async (req) => {
     // Get member wallet
     const { data: memberWallet } = await supabase
       .from('member_wallets')
-      .select('balance')
+      .select('id, balance')
       .eq('member_id', member.id)
       .eq('chama_id', chamaId)
       .single();
@@ -57,24 +63,28 @@ serve(async (req) => {
       throw new Error('Insufficient wallet balance');
     }
 
-    // Deduct from member wallet
-    await supabase
-      .from('member_wallets')
-      .update({ balance: memberWallet.balance - amount })
-      .eq('member_id', member.id)
-      .eq('chama_id', chamaId);
-
-    // Add to chama central wallet
     const { data: centralWallet } = await supabase
       .from('chama_central_wallets')
-      .select('balance')
+      .select('id')
       .eq('chama_id', chamaId)
       .single();
 
-    await supabase
-      .from('chama_central_wallets')
-      .update({ balance: (centralWallet?.balance || 0) + amount })
-      .eq('chama_id', chamaId);
+    if (!centralWallet) throw new Error('Chama central wallet not found');
+
+    // Move the repayment from the member wallet to the chama central wallet
+    const { error: ledgerError } = await supabase.rpc('post_ledger_transaction', {
+      p_transaction_type: 'loan_repayment',
+      p_debit_account_type: 'member_wallet',
+      p_debit_account_id: memberWallet.id,
+      p_credit_account_type: 'chama_central_wallet',
+      p_credit_account_id: centralWallet.id,
+      p_amount: amount,
+      p_reference: loanId,
+      p_description: 'Chama loan repayment',
+      p_metadata: { loan_id: loanId, chama_id: chamaId, member_id: member.id }
+    });
+
+    if (ledgerError) throw new Error(ledgerError.message);
 
     // Update loan repayment
     const newAmountPaid = (loan.amount_paid || 0) + amount;
@@ -133,4 +143,4 @@ serve(async (req) => {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
-});
\ No newline at end of file
+}));
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { REPROCESS_HEADER } from '../_shared/webhooks.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Which callback handles a logged event
+const PROVIDER_FUNCTIONS: Record<string, string> = {
+  paystack: 'paystack-callback',
+  paystack_link: 'link-account-callback',
+  mpesa: 'mpesa-callback',
+  airtel_money: 'airtel-money-callback',
+}
+
+// Original headers worth forwarding; the rest describe the original hop
+const FORWARDED_HEADERS = ['content-type', 'x-paystack-signature'];
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Unauthorized');
+    }
+
+    const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user } } = await userClient.auth.getUser();
+    const { data: isAdmin } = await userClient.rpc('is_admin');
+    if (!user || !isAdmin) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Only admins can re-process webhook events' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { eventId } = await req.json();
+    if (!eventId) {
+      throw new Error('eventId is required');
+    }
+
+    const { data: event, error: eventError } = await supabase
+      .from('webhook_events')
+      .select('*')
+      .eq('id', eventId)
+      .single();
+
+    if (eventError || !event) {
+      throw new Error('Webhook event not found');
+    }
+
+    // Only events that were accepted can be replayed; a rejected event never
+    // proved it came from the provider and a duplicate points at its original
+    if (!['received', 'processed', 'failed'].includes(event.status)) {
+      throw new Error(`Cannot re-process a ${event.status} event`);
+    }
+
+    const functionName = PROVIDER_FUNCTIONS[event.provider];
+    if (!functionName) {
+      throw new Error(`No callback handles provider ${event.provider}`);
+    }
+
+    const { error: claimError } = await supabase
+      .from('webhook_events')
+      .update({ reprocess_count: event.reprocess_count + 1, status: 'received', error: null })
+      .eq('id', event.id);
+
+    // A failed event gives up its slot, so the provider's own retry may have
+    // been accepted since
+    if (claimError?.code === '23505') {
+      throw new Error('A later delivery of this event has already been accepted');
+    }
+    if (claimError) {
+      throw claimError;
+    }
+
+    const headers: Record<string, string> = {
+      [REPROCESS_HEADER]: supabaseKey,
+      'x-webhook-event-id': event.id,
+      'Authorization': `Bearer ${supabaseKey}`,
+    };
+    for (const name of FORWARDED_HEADERS) {
+      if (event.headers?.[name]) headers[name] = event.headers[name];
+    }
+
+    console.log('Re-processing webhook event:', { id: event.id, provider: event.provider, by: user.id });
+
+    const response = await fetch(`${supabaseUrl}/functions/v1/${functionName}`, {
+      method: 'POST',
+      headers,
+      body: event.raw_body,
+    });
+    const responseBody = await response.text();
+
+    const { data: updated } = await supabase
+      .from('webhook_events')
+      .select('status, error, reprocess_count, processed_at')
+      .eq('id', event.id)
+      .single();
+
+    return new Response(
+      JSON.stringify({
+        success: response.ok && updated?.status === 'processed',
+        callback_status: response.status,
+        callback_response: responseBody,
+        event: updated,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Error in reprocess-webhook-event:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,12 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { withIdempotency } from '../_shared/idempotency.ts';
+import { hasPinStepUp, pinStepUpRequired } from '../_shared/pinStepUp.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, idempotency-key, x-pin-token',
 };
 
-serve(async (req) => {
+serve(withIdempotency('send-loan-funds', async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
@@ -23,6 +25,10 @@ serve(async (req) => {
 
     if (!user) throw new Error('Not authenticated');
 
+    if (!(await hasPinStepUp(req, supabase, user.id))) {
+      return pinStepUpRequired(corsHeaders);
+    }
+
     const { loanId, chamaId, amount, memberPaymentNumber } = await req.json();
 
     console.log('Sending loan funds:', { loanId, chamaId, amount, memberPaymentNumber });
@@ -51,7 +57,7 @@ serve(async (req) => {
     // Get chama central wallet
     const { data: centralWallet } = await supabase
       .from('chama_central_wallets')
-      .select('balance')
+      .select('id, balance')
       .eq('chama_id', chamaId)
       .single();
 
@@ -59,25 +65,29 @@ serve(async (req) => {
       throw new Error('Insufficient chama central wallet balance');
     }
 
-    // Deduct from chama central wallet
-    await supabase
-      .from('chama_central_wallets')
-      .update({ balance: centralWallet.balance - amount })
-      .eq('chama_id', chamaId);
-
-    // Add to member wallet
     const { data: memberWallet } = await supabase
       .from('member_wallets')
-      .select('balance')
+      .select('id')
       .eq('member_id', loan.chama_members.id)
       .eq('chama_id', chamaId)
       .single();
 
-    await supabase
-      .from('member_wallets')
-      .update({ balance: (memberWallet?.balance || 0) + amount })
-      .eq('member_id', loan.chama_members.id)
-      .eq('chama_id', chamaId);
+    if (!memberWallet) throw new Error('Member wallet not found');
+
+    // Move funds from the chama central wallet to the member wallet
+    const { error: ledgerError } = await supabase.rpc('post_ledger_transaction', {
+      p_transaction_type: 'loan_disbursement',
+      p_debit_account_type: 'chama_central_wallet',
+      p_debit_account_id: centralWallet.id,
+      p_credit_account_type: 'member_wallet',
+      p_credit_account_id: memberWallet.id,
+      p_amount: amount,
+      p_reference: loanId,
+      p_description: 'Chama loan disbursement',
+      p_metadata: { loan_id: loanId, chama_id: chamaId, disbursed_by: user.id }
+    });
+
+    if (ledgerError) throw new Error(ledgerError.message);
 
     // Update loan status
     await supabase
@@ -139,4 +149,4 @@ serve(async (req) => {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
-});
\ No newline at end of file
+}));
\ No newline at end of file
@@ -1,12 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { withIdempotency } from '../_shared/idempotency.ts'
+import { hasPinStepUp, pinStepUpRequired } from '../_shared/pinStepUp.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, idempotency-key, x-pin-token',
 }
 
-serve(async (req) => {
+serve(withIdempotency('send-money', async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -30,12 +32,13 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
     )
 
-    const { senderId, recipientEmail, amount, description } = await req.json();
+    // The recipient is given by email, or by user ID when the app already knows them
+    const { senderId, recipientEmail, recipientId: requestedRecipientId, amount, description } = await req.json();
 
-    console.log('Send money request:', { senderId, recipientEmail, amount });
+    console.log('Send money request:', { senderId, recipientEmail, recipientId: requestedRecipientId, amount });
 
     // Validate input
-    if (!senderId || !recipientEmail || !amount) {
+    if (!senderId || !(recipientEmail || requestedRecipientId) || !amount) {
       return new Response(
         JSON.stringify({ error: 'Missing required fields' }),
         { 
@@ -67,21 +70,41 @@ serve(async (req) => {
       );
     }
 
-    // Find recipient by email using admin client
-    const { data: authUsers, error: listError } = await supabaseAdmin.auth.admin.listUsers();
-    
-    if (listError) {
-      console.error('Error listing users:', listError);
+    if (senderId !== user.id) {
       return new Response(
-        JSON.stringify({ error: 'Failed to find recipient' }),
-        { 
-          status: 500, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        JSON.stringify({ error: 'You can only send money from your own wallet' }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       );
     }
 
-    const matchingUser = authUsers.users?.find(user => user.email?.toLowerCase() === recipientEmail.toLowerCase());
+    if (!(await hasPinStepUp(req, supabaseAdmin, user.id))) {
+      return pinStepUpRequired(corsHeaders);
+    }
+
+    // Find recipient using admin client
+    let matchingUser;
+    if (requestedRecipientId) {
+      const { data: recipientUser } = await supabaseAdmin.auth.admin.getUserById(requestedRecipientId);
+      matchingUser = recipientUser?.user;
+    } else {
+      const { data: authUsers, error: listError } = await supabaseAdmin.auth.admin.listUsers();
+      
+      if (listError) {
+        console.error('Error listing users:', listError);
+        return new Response(
+          JSON.stringify({ error: 'Failed to find recipient' }),
+          { 
+            status: 500, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+
+      matchingUser = authUsers.users?.find(user => user.email?.toLowerCase() === recipientEmail.toLowerCase());
+    }
     
     if (!matchingUser) {
       return new Response(
@@ -94,6 +117,7 @@ serve(async (req) => {
     }
 
     const recipientId = matchingUser.id;
+    const recipientLabel = recipientEmail || matchingUser.email || 'user';
 
     if (senderId === recipientId) {
       return new Response(
@@ -171,95 +195,45 @@ serve(async (req) => {
       recipientWallet = newWallet;
     }
 
-    const transactionRef = `TXN${Date.now()}${Math.floor(Math.random() * 1000)}`;
-
-    // Update sender's wallet (deduct amount)
-    const { error: senderUpdateError } = await supabaseClient
-      .from('user_wallets')
-      .update({ 
-        balance: senderWallet.balance - amount,
-        updated_at: new Date().toISOString()
-      })
-      .eq('user_id', senderId);
-
-    if (senderUpdateError) {
-      console.error('Sender wallet update error:', senderUpdateError);
-      return new Response(
-        JSON.stringify({ error: 'Failed to process payment' }),
-        { 
-          status: 500, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      );
-    }
-
-    // Update recipient's wallet (add amount)
-    const { error: recipientUpdateError } = await supabaseClient
-      .from('user_wallets')
-      .update({ 
-        balance: recipientWallet.balance + amount,
-        updated_at: new Date().toISOString()
-      })
-      .eq('user_id', recipientId);
-
-    if (recipientUpdateError) {
-      console.error('Recipient wallet update error:', recipientUpdateError);
-      
-      // Rollback sender's wallet
-      await supabaseClient
-        .from('user_wallets')
-        .update({ 
-          balance: senderWallet.balance,
-          updated_at: new Date().toISOString()
-        })
-        .eq('user_id', senderId);
+    const transactionRef = `TXN-${crypto.randomUUID()}`;
+
+    // Move the money and write both wallet history rows in one transaction
+    const { data: transfer, error: transferError } = await supabaseAdmin.rpc('transfer_funds', {
+      p_transaction_type: 'wallet_transfer',
+      p_from_account_type: 'user_wallet',
+      p_from_account_id: senderWallet.id,
+      p_to_account_type: 'user_wallet',
+      p_to_account_id: recipientWallet.id,
+      p_amount: amount,
+      p_reference: transactionRef,
+      p_description: description || `Transfer to ${recipientLabel}`,
+      p_metadata: { sender_id: senderId, recipient_id: recipientId },
+      p_wallet_entries: [
+        { user_id: senderId, type: 'transfer_out', amount: -amount, description: description || `Sent to ${recipientLabel}` },
+        { user_id: recipientId, type: 'transfer_in', amount: amount, description: description || `Received from ${user.email}` }
+      ]
+    });
 
+    if (transferError) {
+      console.error('Transfer error:', transferError);
       return new Response(
-        JSON.stringify({ error: 'Failed to complete transfer' }),
+        JSON.stringify({ error: transferError.message === 'Insufficient balance' ? 'Insufficient balance' : 'Failed to process payment' }),
         { 
-          status: 500, 
+          status: transferError.message === 'Insufficient balance' ? 400 : 500, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
         }
       );
     }
 
-    // Record sender's transaction
-    const { error: senderTransactionError } = await supabaseClient
-      .from('wallet_transactions')
-      .insert([{
-        user_id: senderId,
-        type: 'transfer_out',
-        amount: -amount,
-        description: description || `Sent to ${recipientEmail}`,
-        status: 'completed',
-        reference_id: transactionRef,
-        recipient_id: recipientId
-      }]);
-
-    // Record recipient's transaction
-    const { error: recipientTransactionError } = await supabaseClient
-      .from('wallet_transactions')
-      .insert([{
-        user_id: recipientId,
-        type: 'transfer_in',
-        amount: amount,
-        description: description || `Received from ${user.email}`,
-        status: 'completed',
-        reference_id: transactionRef,
-        sender_id: senderId
-      }]);
-
-    if (senderTransactionError || recipientTransactionError) {
-      console.error('Transaction record error:', { senderTransactionError, recipientTransactionError });
-      // Don't return error here as money was already transferred
-    }
-
     console.log('Send money completed:', { 
       senderId, 
       recipientId, 
       amount, 
-      senderNewBalance: senderWallet.balance - amount,
-      recipientNewBalance: recipientWallet.balance + amount
+      currency: transfer.from_currency,
+      recipientAmount: transfer.to_amount,
+      recipientCurrency: transfer.to_currency,
+      senderNewBalance: transfer.from_balance,
+      recipientNewBalance: transfer.to_balance
     });
 
     return new Response(
@@ -267,9 +241,14 @@ serve(async (req) => {
         success: true, 
         message: 'Money sent successfully',
         amount: amount,
-        recipientEmail,
+        currency: transfer.from_currency,
+        // What the recipient was credited, in their wallet's currency
+        recipientAmount: transfer.to_amount,
+        recipientCurrency: transfer.to_currency,
+        exchangeRate: transfer.exchange_rate,
+        recipientEmail: recipientLabel,
         transactionReference: transactionRef,
-        newBalance: senderWallet.balance - amount
+        newBalance: transfer.from_balance
       }),
       { 
         status: 200, 
@@ -287,4 +266,4 @@ serve(async (req) => {
       }
     );
   }
-});
\ No newline at end of file
+}));
\ No newline at end of file
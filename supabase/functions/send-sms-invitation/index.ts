@@ -1,8 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const TWILIO_ACCOUNT_SID = Deno.env.get('TWILIO_ACCOUNT_SID');
-const TWILIO_AUTH_TOKEN = Deno.env.get('TWILIO_AUTH_TOKEN');
-const TWILIO_PHONE_NUMBER = Deno.env.get('TWILIO_PHONE_NUMBER');
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sendSms } from '../_shared/sms.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,6 +12,8 @@ interface SMSInvitationRequest {
   chamaName: string;
   invitationToken: string;
   inviterName?: string;
+  // The inviter's app language; the invitee has no profile yet
+  language?: string;
 }
 
 serve(async (req) => {
@@ -23,12 +23,7 @@ serve(async (req) => {
   }
 
   try {
-    // Validate environment variables
-    if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_PHONE_NUMBER) {
-      throw new Error('Missing Twilio configuration');
-    }
-
-    const { phoneNumber, chamaName, invitationToken, inviterName }: SMSInvitationRequest = await req.json();
+    const { phoneNumber, chamaName, invitationToken, inviterName, language }: SMSInvitationRequest = await req.json();
 
     // Validate input
     if (!phoneNumber || !chamaName || !invitationToken) {
@@ -41,51 +36,43 @@ serve(async (req) => {
       );
     }
 
-    // Format phone number (ensure it starts with +)
-    const formattedPhone = phoneNumber.startsWith('+') ? phoneNumber : `+${phoneNumber}`;
-
     // Create invitation URL
     const invitationUrl = `${req.headers.get('origin') || 'https://yourdomain.com'}/invite/${invitationToken}`;
 
-    // Create SMS message
-    const message = inviterName 
-      ? `${inviterName} has invited you to join "${chamaName}" chama. Click here to accept: ${invitationUrl}`
-      : `You've been invited to join "${chamaName}" chama. Click here to accept: ${invitationUrl}`;
-
-    console.log('Sending SMS to:', formattedPhone);
-
-    // Send SMS via Twilio
-    const auth = btoa(`${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`);
-    const twilioUrl = `https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Messages.json`;
-
-    const formData = new URLSearchParams({
-      To: formattedPhone,
-      From: TWILIO_PHONE_NUMBER,
-      Body: message,
-    });
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
 
-    const twilioResponse = await fetch(twilioUrl, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${auth}`,
-        'Content-Type': 'application/x-www-form-urlencoded',
+    // The inviting chama pays for the text and it carries the chama's sender ID
+    const { data: invitation } = await supabaseAdmin
+      .from('member_invitations')
+      .select('id, chama_id')
+      .eq('invitation_token', invitationToken)
+      .maybeSingle();
+
+    const messageId = await sendSms(supabaseAdmin, {
+      category: 'invitation',
+      template: 'invitation',
+      values: {
+        hasInviter: inviterName ? 'yes' : 'no',
+        inviter: inviterName,
+        chama: chamaName,
+        url: invitationUrl,
       },
-      body: formData.toString(),
+      phone: phoneNumber,
+      chamaId: invitation?.chama_id,
+      language: language ?? 'en',
+      sourceType: invitation ? 'member_invitation' : undefined,
+      sourceId: invitation?.id,
     });
 
-    const twilioData = await twilioResponse.json();
-
-    if (!twilioResponse.ok) {
-      console.error('Twilio error:', twilioData);
-      throw new Error(twilioData.message || 'Failed to send SMS');
-    }
-
-    console.log('SMS sent successfully:', twilioData.sid);
+    console.log('SMS sent successfully:', messageId);
 
     return new Response(
       JSON.stringify({ 
         success: true, 
-        messageSid: twilioData.sid,
+        messageId,
         message: 'SMS invitation sent successfully'
       }),
       {
@@ -0,0 +1,108 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { createSmsProvider } from '../_shared/sms.ts'
+import { finishWebhookEvent, logWebhookEvent, verifyCallbackToken } from '../_shared/webhooks.ts'
+
+// Providers post here with ?provider=<name>&type=<kind>&token=<SMS_CALLBACK_TOKEN>:
+//   delivery   delivery reports for sent texts
+//   opt_out    provider opt-out notices (Africa's Talking bulk SMS)
+//   inbound    replies to our number or short code; STOP and friends opt out
+const CALLBACK_TYPES = ['delivery', 'opt_out', 'inbound'];
+
+// Twilio expects TwiML back from inbound message webhooks; an empty response sends no reply
+const reply = (provider: string) =>
+  provider === 'twilio'
+    ? new Response('<Response></Response>', { status: 200, headers: { 'Content-Type': 'text/xml' } })
+    : new Response('OK', { status: 200 });
+
+serve(async (req) => {
+  // Server-to-server only: no CORS, and nothing but POST
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  const params = new URL(req.url).searchParams;
+  const providerName = params.get('provider') ?? '';
+  const type = params.get('type') ?? 'delivery';
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+  let loggedEventId: string | null = null;
+
+  try {
+    const rawBody = await req.text();
+    const signatureValid = verifyCallbackToken(req, 'SMS_CALLBACK_TOKEN', 'SMS_CALLBACK_IPS');
+
+    let provider;
+    try {
+      provider = createSmsProvider(providerName);
+    } catch {
+      return new Response('Unknown provider', { status: 404 });
+    }
+
+    if (!CALLBACK_TYPES.includes(type)) {
+      return new Response('Unknown callback type', { status: 404 });
+    }
+
+    // Both providers post form-encoded bodies
+    const form = new URLSearchParams(rawBody);
+    const report = type === 'delivery' ? provider.parseDeliveryReport(form) : null;
+
+    const loggedEvent = await logWebhookEvent(supabase, req, {
+      provider: `${provider.name}_sms`,
+      // A report moves a message to a status once
+      eventId: report ? `${report.providerMessageId}:${report.status}` : null,
+      eventType: type,
+      rawBody,
+      signatureValid,
+    });
+    loggedEventId = loggedEvent.id;
+
+    if (!signatureValid) {
+      console.error('Rejected SMS callback with invalid token from', req.headers.get('x-forwarded-for'));
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    if (loggedEvent.duplicate) {
+      return reply(provider.name);
+    }
+
+    if (type === 'delivery') {
+      if (report) {
+        const { data: matched, error } = await supabase.rpc('record_sms_delivery', {
+          p_provider: provider.name,
+          p_provider_message_id: report.providerMessageId,
+          p_status: report.status,
+          p_failure_reason: report.failureReason ?? null,
+          p_opted_out: report.optedOut ?? false,
+        });
+        if (error) throw error;
+
+        if (!matched) {
+          console.warn('Delivery report for unknown SMS:', report.providerMessageId);
+        }
+      }
+    } else {
+      const phone = provider.parseOptOut(form);
+      if (phone) {
+        const { error } = await supabase.rpc('record_sms_opt_out', {
+          p_phone: phone,
+          p_source: type === 'inbound' ? 'keyword' : 'provider',
+        });
+        if (error) throw error;
+        console.log('SMS opt-out recorded via', provider.name);
+      }
+    }
+
+    await finishWebhookEvent(supabase, loggedEventId);
+    return reply(provider.name);
+
+  } catch (error) {
+    console.error('Error processing SMS callback:', error);
+    await finishWebhookEvent(supabase, loggedEventId, error);
+    // A 500 makes the provider retry later
+    return new Response('Error', { status: 500 });
+  }
+});
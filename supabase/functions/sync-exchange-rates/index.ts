@@ -0,0 +1,81 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+}
+
+// Any feed returning { rates: { KES: 129.3, ... } } per one USD works here
+const DEFAULT_RATES_URL = 'https://open.er-api.com/v6/latest/USD';
+const BASE_CURRENCY = 'USD';
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Called by the scheduler with the shared cron secret, or by an admin on demand
+    const cronSecret = Deno.env.get('CRON_SECRET');
+    if (!cronSecret || req.headers.get('x-cron-secret') !== cronSecret) {
+      const authHeader = req.headers.get('Authorization');
+      if (!authHeader) {
+        throw new Error('Unauthorized');
+      }
+
+      const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+        global: { headers: { Authorization: authHeader } },
+      });
+
+      const { data: { user } } = await userClient.auth.getUser();
+      const { data: isAdmin } = await userClient.rpc('is_admin');
+      if (!user || !isAdmin) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Only admins can sync exchange rates' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const ratesUrl = Deno.env.get('EXCHANGE_RATES_API_URL') || DEFAULT_RATES_URL;
+    const response = await fetch(ratesUrl);
+    if (!response.ok) {
+      throw new Error(`Rates feed returned ${response.status}`);
+    }
+
+    const feed = await response.json();
+    if (!feed?.rates || typeof feed.rates !== 'object') {
+      throw new Error('Rates feed returned no rates');
+    }
+
+    const { data, error } = await supabase.rpc('ingest_exchange_rates', {
+      p_base: feed.base_code || feed.base || BASE_CURRENCY,
+      p_rates: feed.rates,
+      p_source: new URL(ratesUrl).hostname,
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    console.log('Exchange rates synced:', data);
+
+    return new Response(
+      JSON.stringify({ success: true, message: 'Exchange rates updated', data }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Exchange rate sync error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    );
+  }
+});
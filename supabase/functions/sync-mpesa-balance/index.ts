@@ -84,19 +84,8 @@ serve(async (req) => {
       throw updateError;
     }
 
-    // Update user's central wallet balance
-    const { data: wallet, error: walletError } = await supabaseClient
-      .from('user_central_wallets')
-      .select('balance')
-      .eq('user_id', user.id)
-      .single();
-
-    if (!walletError && wallet) {
-      await supabaseClient
-        .from('user_central_wallets')
-        .update({ balance: balance })
-        .eq('user_id', user.id);
-    }
+    // The provider balance is informational only. The central wallet balance
+    // is owned by the ledger and must not be overwritten here.
 
     return new Response(
       JSON.stringify({
@@ -0,0 +1,79 @@
+// Tests for the ICU message subset in _shared/i18n/format.ts, which both the
+// app and the edge functions format with, and for translate()'s fallbacks.
+//
+// Needs no database:
+//   deno test supabase/functions/tests/i18n-format-test.ts
+
+import { assert, assertEquals, assertStringIncludes } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { formatMessage, toIntlLocale } from '../_shared/i18n/format.ts';
+import { translate } from '../_shared/i18n.ts';
+
+Deno.test('i18n format: plain text and interpolation', () => {
+  assertEquals(formatMessage('No arguments here'), 'No arguments here');
+  assertEquals(formatMessage('Hello {name}', { name: 'Wanjiru' }), 'Hello Wanjiru');
+  assertEquals(formatMessage('Hello {name}', { name: null }), 'Hello ');
+  // A missing value stays visible
+  assertEquals(formatMessage('Hello {name}', {}), 'Hello {name}');
+});
+
+Deno.test('i18n format: numbers, percentages and currencies', () => {
+  assertEquals(formatMessage('{n, number}', { n: 1234567.5 }), '1,234,567.5');
+  assertEquals(formatMessage('{rate, number, percent}', { rate: 0.125 }), '12.5%');
+
+  const kes = formatMessage('{amount, number, currency}', { amount: 1500.4 });
+  assertStringIncludes(kes, '1,500');
+  assert(!kes.includes('.4'), 'currency amounts are whole');
+
+  // The currency value picks the currency; KES when there is none
+  const ugx = formatMessage('{amount, number, currency}', { amount: 2500, currency: 'UGX' });
+  assertStringIncludes(ugx, 'UGX');
+  assertStringIncludes(ugx, '2,500');
+  assert(kes !== formatMessage('{amount, number, currency}', { amount: 1500.4, currency: 'USD' }));
+
+  assertEquals(formatMessage('{n, number}', { n: 'abc' }), 'abc');
+});
+
+Deno.test('i18n format: dates', () => {
+  const date = new Date('2025-03-09T12:00:00Z');
+  assertEquals(formatMessage('{d, date}', { d: date }), formatMessage('{d, date, short}', { d: date }));
+  assertStringIncludes(formatMessage('{d, date, long}', { d: date }), 'March');
+  assertStringIncludes(formatMessage('{d, date, long}', { d: '2025-03-09T12:00:00Z' }), '2025');
+  assertEquals(formatMessage('{d, date}', { d: 'not a date' }), 'not a date');
+});
+
+Deno.test('i18n format: plurals pick exact, category and other branches', () => {
+  const message = '{count, plural, =0 {No members} one {# member} other {# members}}';
+  assertEquals(formatMessage(message, { count: 0 }), 'No members');
+  assertEquals(formatMessage(message, { count: 1 }), '1 member');
+  assertEquals(formatMessage(message, { count: 1200 }), '1,200 members');
+
+  // # is the count of its own plural only
+  const nested = '{a, plural, other {# chamas, {b, plural, one {# meeting} other {# meetings}}}}';
+  assertEquals(formatMessage(nested, { a: 3, b: 1 }), '3 chamas, 1 meeting');
+});
+
+Deno.test('i18n format: selects fall back to other and may nest arguments', () => {
+  const message = '{role, select, admin {Admin {name}} treasurer {Treasurer} other {Member}}';
+  assertEquals(formatMessage(message, { role: 'admin', name: 'Otieno' }), 'Admin Otieno');
+  assertEquals(formatMessage(message, { role: 'treasurer' }), 'Treasurer');
+  assertEquals(formatMessage(message, { role: 'secretary' }), 'Member');
+});
+
+Deno.test('i18n format: Sheng and Giriama format like Swahili', () => {
+  assertEquals(toIntlLocale('en'), 'en-KE');
+  assertEquals(toIntlLocale('sheng'), 'sw-KE');
+  assertEquals(toIntlLocale('giriama'), 'sw-KE');
+  assertEquals(toIntlLocale('fr'), 'en-KE');
+});
+
+Deno.test('i18n format: translate falls back to English, then to the key', () => {
+  assertEquals(translate('sw', 'ussd.goodbye'), 'Kwaheri.');
+  assertEquals(translate('fr', 'ussd.goodbye'), translate('en', 'ussd.goodbye'));
+  assertEquals(translate(null, 'ussd.goodbye'), translate('en', 'ussd.goodbye'));
+  const unknownKey = 'no.such.key';
+  assertEquals(translate('en', unknownKey), unknownKey);
+  assertEquals(
+    translate('en', 'ussd.vote_done', { title: 'New treasurer' }),
+    'Your vote on "New treasurer" is recorded.'
+  );
+});
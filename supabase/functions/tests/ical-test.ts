@@ -0,0 +1,164 @@
+// Tests for the iCalendar output in _shared/ical.ts: escaping, line folding,
+// recurrence rules and how a chama's meetings become calendar events.
+//
+// Needs no database:
+//   deno test supabase/functions/tests/ical-test.ts
+
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import {
+  buildCalendar,
+  CalendarMeeting,
+  escapeText,
+  foldLine,
+  formatDate,
+  formatDateTime,
+  meetingEvents,
+  recurrenceRule,
+} from '../_shared/ical.ts';
+
+const encoder = new TextEncoder();
+
+function meeting(overrides: Partial<CalendarMeeting>): CalendarMeeting {
+  return {
+    id: crypto.randomUUID(),
+    series_id: null,
+    recurrence: 'none',
+    title: 'Monthly meeting',
+    description: null,
+    meeting_type: 'physical',
+    location: 'Community hall',
+    meeting_link: null,
+    scheduled_at: '2025-03-01T15:00:00.000Z',
+    duration_minutes: 90,
+    status: 'scheduled',
+    agenda_published_at: null,
+    updated_at: '2025-02-20T08:00:00.000Z',
+    ...overrides,
+  };
+}
+
+Deno.test('ical: dates are written in UTC', () => {
+  const date = new Date('2025-03-01T18:05:09+03:00');
+  assertEquals(formatDateTime(date), '20250301T150509Z');
+  assertEquals(formatDate(date), '20250301');
+});
+
+Deno.test('ical: text escapes backslashes, separators and newlines', () => {
+  assertEquals(escapeText('Savings; loans, fines\\fees\nAOB'), 'Savings\\; loans\\, fines\\\\fees\\nAOB');
+});
+
+Deno.test('ical: long lines fold at 75 octets without splitting characters', () => {
+  const ascii = foldLine(`SUMMARY:${'a'.repeat(200)}`);
+  const asciiParts = ascii.split('\r\n');
+  assertEquals(asciiParts[0].length, 75);
+  for (const part of asciiParts.slice(1)) {
+    assert(part.startsWith(' '));
+    assert(part.length <= 75);
+  }
+  assertEquals(asciiParts.map((part, i) => (i === 0 ? part : part.slice(1))).join(''), `SUMMARY:${'a'.repeat(200)}`);
+
+  // Every "é" is two octets, so a fold never falls inside one
+  const accented = `SUMMARY:${'é'.repeat(60)}`;
+  for (const part of foldLine(accented).split('\r\n')) {
+    assert(encoder.encode(part).length <= 75);
+    assert(!part.includes('�'));
+  }
+
+  assertEquals(foldLine('SUMMARY:Short'), 'SUMMARY:Short');
+});
+
+Deno.test('ical: recurrence rules match how the database steps a series', () => {
+  const early = new Date('2025-01-15T15:00:00Z');
+  const late = new Date('2025-01-31T15:00:00Z');
+
+  assertEquals(recurrenceRule('weekly', early, 4), 'FREQ=WEEKLY;COUNT=4');
+  assertEquals(recurrenceRule('biweekly', early, 6), 'FREQ=WEEKLY;INTERVAL=2;COUNT=6');
+  assertEquals(recurrenceRule('monthly', early, 12), 'FREQ=MONTHLY;COUNT=12');
+  // Late in the month falls back to the last day of shorter months
+  assertEquals(recurrenceRule('monthly', late, 12), 'FREQ=MONTHLY;BYMONTHDAY=31,-1;BYSETPOS=1;COUNT=12');
+  assertEquals(recurrenceRule('none', early, 1), null);
+});
+
+Deno.test('ical: a calendar uses CRLF line endings and has an alarm for live events', () => {
+  const start = new Date('2025-03-01T15:00:00Z');
+  const calendar = buildCalendar({ name: 'Umoja, Chama', refreshIntervalHours: 6 }, [
+    { uid: 'a@test', summary: 'Live', start, durationMinutes: 90, alarmMinutesBefore: 60 },
+    { uid: 'b@test', summary: 'Called off', start, status: 'CANCELLED', alarmMinutesBefore: 60 },
+  ]);
+
+  assert(calendar.endsWith('END:VCALENDAR\r\n'));
+  assert(!calendar.replace(/\r\n/g, '').includes('\n'));
+
+  const lines = calendar.split('\r\n');
+  assertEquals(lines[0], 'BEGIN:VCALENDAR');
+  assert(lines.includes('X-WR-CALNAME:Umoja\\, Chama'));
+  assert(lines.includes('REFRESH-INTERVAL;VALUE=DURATION:PT6H'));
+  assert(lines.includes('DTSTART:20250301T150000Z'));
+  assert(lines.includes('DURATION:PT1H30M'));
+  assert(lines.includes('STATUS:CANCELLED'));
+  // Only the event that still takes place reminds anyone
+  assertEquals(lines.filter((line) => line === 'BEGIN:VALARM').length, 1);
+  assertEquals(lines.filter((line) => line === 'TRIGGER:-PT1H').length, 1);
+});
+
+Deno.test('ical: a standalone meeting becomes one event', () => {
+  const single = meeting({ description: 'Bring passbooks', meeting_link: 'https://meet.example/umoja' });
+  const [event] = meetingEvents([single], 'Umoja');
+
+  assertEquals(event.uid, `meeting-${single.id}@chamavault.app`);
+  assertEquals(event.summary, 'Monthly meeting (Umoja)');
+  assertEquals(event.description, 'Bring passbooks\n\nJoin online: https://meet.example/umoja');
+  assertEquals(event.location, 'Community hall');
+  assertEquals(event.status, 'CONFIRMED');
+  assertEquals(event.rrule, undefined);
+  assertEquals(event.durationMinutes, 90);
+  assertEquals(event.alarmMinutesBefore, 60);
+});
+
+Deno.test('ical: a series becomes one recurring event without its cancelled meetings', () => {
+  const seriesId = crypto.randomUUID();
+  const series = [
+    meeting({ series_id: seriesId, recurrence: 'monthly', scheduled_at: '2025-02-01T15:00:00.000Z', status: 'completed' }),
+    meeting({
+      series_id: seriesId,
+      recurrence: 'monthly',
+      scheduled_at: '2025-03-01T15:00:00.000Z',
+      status: 'cancelled',
+      updated_at: '2025-02-25T10:30:00.000Z',
+    }),
+    meeting({ series_id: seriesId, recurrence: 'monthly', scheduled_at: '2025-04-01T15:00:00.000Z', title: 'AGM' }),
+  ];
+  const agenda = [
+    { meeting_id: series[2].id, position: 2, title: 'Elections' },
+    { meeting_id: series[2].id, position: 1, title: 'Accounts' },
+  ];
+  series[2].agenda_published_at = '2025-03-20T09:00:00.000Z';
+
+  // Order of the rows does not matter
+  const events = meetingEvents([series[2], series[0], series[1]], 'Umoja', agenda);
+  assertEquals(events.length, 1);
+
+  const [event] = events;
+  assertEquals(event.uid, `meeting-${seriesId}@chamavault.app`);
+  assertEquals(event.start.toISOString(), '2025-02-01T15:00:00.000Z');
+  assertEquals(event.rrule, 'FREQ=MONTHLY;COUNT=3');
+  assertEquals(event.exdates?.map((date) => date.toISOString()), ['2025-03-01T15:00:00.000Z']);
+  // The next meeting still to come carries the details
+  assertEquals(event.summary, 'AGM (Umoja)');
+  assertEquals(event.description, 'Agenda:\n1. Accounts\n2. Elections');
+  assertEquals(event.status, 'CONFIRMED');
+  assertEquals(event.lastModified?.toISOString(), '2025-02-25T10:30:00.000Z');
+  assertEquals(event.sequence, Math.floor(Date.parse('2025-02-25T10:30:00.000Z') / 60000));
+});
+
+Deno.test('ical: a series with every meeting cancelled is cancelled', () => {
+  const seriesId = crypto.randomUUID();
+  const [event] = meetingEvents([
+    meeting({ series_id: seriesId, recurrence: 'weekly', scheduled_at: '2025-03-01T15:00:00.000Z', status: 'cancelled' }),
+    meeting({ series_id: seriesId, recurrence: 'weekly', scheduled_at: '2025-03-08T15:00:00.000Z', status: 'cancelled' }),
+  ], 'Umoja');
+
+  assertEquals(event.status, 'CANCELLED');
+  assertEquals(event.rrule, 'FREQ=WEEKLY;COUNT=2');
+  assertEquals(event.exdates, []);
+});
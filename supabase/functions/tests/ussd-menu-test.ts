@@ -0,0 +1,143 @@
+// Tests for the USSD menu state machine in _shared/ussdMenu.ts: navigation,
+// input validation and what each screen shows on a feature phone.
+//
+// Needs no database:
+//   deno test supabase/functions/tests/ussd-menu-test.ts
+
+import { assert, assertEquals, assertStringIncludes } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { currentScreen, MemberSummary, renderScreen } from '../_shared/ussdMenu.ts';
+import { translate } from '../_shared/i18n.ts';
+
+// Africa's Talking cuts screens off beyond this
+const MAX_SCREEN_LENGTH = 182;
+
+const umoja = {
+  chama_id: 'chama-1',
+  name: 'Umoja Women Group',
+  currency: 'KES',
+  savings: 12000,
+  chama_balance: 250000,
+  contribution_amount: 500,
+};
+
+const summary: MemberSummary = {
+  wallet: { balance: 3400, currency: 'KES' },
+  chamas: [
+    umoja,
+    { ...umoja, chama_id: 'chama-2', name: 'Kilimo Bora Farmers Savings Association', contribution_amount: null },
+  ],
+  loans: [{ name: 'Umoja Women Group', currency: 'KES', outstanding: 8000, overdue: 1000, next_due: '2025-04-01' }],
+  votes: [
+    { id: 'vote-1', title: 'Elect a new treasurer', chama: 'Umoja', ballot_type: 'multiple_choice', options: ['Akinyi', 'Njeri'] },
+    { id: 'vote-2', title: 'Buy a water tank', chama: 'Umoja', ballot_type: 'yes_no', options: null },
+  ],
+};
+
+const empty: MemberSummary = { wallet: { balance: 0, currency: 'KES' }, chamas: [], loans: [], votes: [] };
+
+const screenAfter = (inputs: string[], member = summary) => currentScreen(inputs, member, 'en');
+
+Deno.test('ussd menu: starts on the main menu', () => {
+  const { screen, invalid } = screenAfter([]);
+  assertEquals(screen.kind, 'main');
+  assertEquals(invalid, false);
+  assertEquals(renderScreen(screen, summary, 'en'), translate('en', 'ussd.main_menu'));
+});
+
+Deno.test('ussd menu: 0 goes back a screen and exits from the main menu', () => {
+  assertEquals(screenAfter(['1']).screen.kind, 'balances');
+  assertEquals(screenAfter(['1', '0']).screen.kind, 'main');
+  assertEquals(screenAfter(['2', '1', '0']).screen.kind, 'choose_chama');
+  assertEquals(screenAfter(['0']).screen.kind, 'exit');
+  assertEquals(screenAfter(['1', '0', '0']).screen.kind, 'exit');
+  assertEquals(renderScreen({ kind: 'exit' }, summary, 'en'), translate('en', 'ussd.goodbye'));
+});
+
+Deno.test('ussd menu: 00 returns to the main menu from anywhere', () => {
+  assertEquals(screenAfter(['2', '1', '500', '00']).screen.kind, 'main');
+  assertEquals(screenAfter(['4', '1', '00', '3']).screen.kind, 'loans');
+});
+
+Deno.test('ussd menu: an invalid choice keeps the screen and is flagged once', () => {
+  const wrong = screenAfter(['9']);
+  assertEquals(wrong.screen.kind, 'main');
+  assertEquals(wrong.invalid, true);
+
+  // Only the chamas on screen can be picked
+  assertEquals(screenAfter(['2', '3']).screen.kind, 'choose_chama');
+  assertEquals(screenAfter(['2', '3']).invalid, true);
+
+  // The next valid input clears it
+  const recovered = screenAfter(['9', '1']);
+  assertEquals(recovered.screen.kind, 'balances');
+  assertEquals(recovered.invalid, false);
+
+  // Balances only offer navigation
+  assertEquals(screenAfter(['1', '1']).invalid, true);
+});
+
+Deno.test('ussd menu: a contribution needs a positive amount and a confirmation', () => {
+  for (const amount of ['-5', '0.00', 'abc', '10.555', '']) {
+    const { screen, invalid } = screenAfter(['2', '1', amount]);
+    assertEquals(screen.kind, 'enter_amount', `amount ${JSON.stringify(amount)}`);
+    assertEquals(invalid, true);
+  }
+
+  const confirm = screenAfter(['2', '1', '750.50']).screen;
+  assertEquals(confirm.kind, 'confirm_contribution');
+  assertEquals(confirm.kind === 'confirm_contribution' && confirm.amount, 750.5);
+
+  assertEquals(screenAfter(['2', '1', '750', '2']).screen.kind, 'confirm_contribution');
+
+  const contribute = screenAfter(['2', '2', '750', '1']).screen;
+  assertEquals(contribute.kind, 'contribute');
+  assertEquals(contribute.kind === 'contribute' && contribute.chama.chama_id, 'chama-2');
+});
+
+Deno.test('ussd menu: votes offer their options, or yes and no', () => {
+  const named = screenAfter(['4', '1', '2']).screen;
+  assertEquals(named.kind, 'cast_vote');
+  assertEquals(named.kind === 'cast_vote' && named.optionIndex, 1);
+
+  const yesNo = screenAfter(['4', '2']).screen;
+  const text = renderScreen(yesNo, summary, 'en');
+  assertStringIncludes(text, '1. Yes');
+  assertStringIncludes(text, '2. No');
+  assertEquals(screenAfter(['4', '2', '3']).invalid, true);
+  assertEquals(screenAfter(['4', '2', '2']).screen.kind, 'cast_vote');
+
+  assertStringIncludes(renderScreen(yesNo, summary, 'sw'), '1. Ndiyo');
+});
+
+Deno.test('ussd menu: screens show balances, loans and lists with navigation', () => {
+  const balances = renderScreen(screenAfter(['1']).screen, summary, 'en');
+  assertStringIncludes(balances, '3,400');
+  assertStringIncludes(balances, '250,000');
+  assert(balances.endsWith(translate('en', 'ussd.navigation')));
+
+  const loans = renderScreen(screenAfter(['3']).screen, summary, 'en');
+  assertStringIncludes(loans, '8,000');
+  assertStringIncludes(loans, 'overdue');
+
+  // Long names are cut with plain dots
+  const chamas = renderScreen(screenAfter(['2']).screen, summary, 'en');
+  assertStringIncludes(chamas, '1. Umoja Women Group');
+  assertStringIncludes(chamas, '2. Kilimo Bora Farmers Sa..');
+
+  const amount = renderScreen(screenAfter(['2', '1']).screen, summary, 'en');
+  assertStringIncludes(amount, '500');
+  const noSuggestion = renderScreen(screenAfter(['2', '2']).screen, summary, 'en');
+  assert(!noSuggestion.includes('usually'));
+
+  for (const inputs of [['1'], ['2'], ['3'], ['4'], ['2', '1'], ['2', '1', '500'], ['4', '1']]) {
+    const text = renderScreen(screenAfter(inputs).screen, summary, 'en');
+    assert(text.length <= MAX_SCREEN_LENGTH, `${inputs.join('*')} is ${text.length} characters`);
+  }
+});
+
+Deno.test('ussd menu: empty lists say so', () => {
+  assertStringIncludes(renderScreen(screenAfter(['2'], empty).screen, empty, 'en'), translate('en', 'ussd.no_chamas'));
+  assertStringIncludes(renderScreen(screenAfter(['3'], empty).screen, empty, 'en'), translate('en', 'ussd.no_loans'));
+  assertStringIncludes(renderScreen(screenAfter(['4'], empty).screen, empty, 'en'), translate('en', 'ussd.no_votes'));
+  assertEquals(screenAfter(['2', '1'], empty).invalid, true);
+});
@@ -0,0 +1,214 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { translate } from '../_shared/i18n.ts'
+import { currentScreen, MemberSummary, renderScreen } from '../_shared/ussdMenu.ts'
+import { verifyCallbackToken } from '../_shared/webhooks.ts'
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Africa's Talking posts each step of a USSD session here
+// (?token=<USSD_CALLBACK_TOKEN>) as a form with sessionId, serviceCode,
+// phoneNumber, networkCode and text, where text is every input so far
+// joined by '*'. The reply is plain text: "CON ..." shows a screen and
+// waits for input, "END ..." shows it and closes the session.
+//
+// The first input is always the member's PIN. It is checked with
+// check_user_pin() on the step it is entered, and the session remembers
+// that. Everything runs on the service role: contributions and ballots go
+// through ussd_contribute() and ussd_cast_ballot(), which take the member
+// found by phone number and check the PIN again before acting.
+
+// Africa's Talking drops sessions after about three minutes of inactivity
+const SESSION_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface Member {
+  userId: string;
+  fullName: string | null;
+  language: string | null;
+}
+
+const con = (text: string) => reply(`CON ${text}`);
+const end = (text: string) => reply(`END ${text}`);
+
+function reply(text: string) {
+  return new Response(text, { status: 200, headers: { 'Content-Type': 'text/plain' } });
+}
+
+const PIN_FAILURE_MESSAGES: Record<string, string> = {
+  locked: 'ussd.pin_locked',
+  pin_not_set: 'ussd.pin_not_set',
+};
+
+interface ActionResult {
+  success: boolean;
+  // Set when the PIN check refused the action
+  code?: string;
+  message?: string;
+}
+
+// Checks the PIN, counting failures towards the shared lockout
+async function verifyPin(supabase: SupabaseClient, userId: string, pin: string) {
+  const { data, error } = await supabase.rpc('check_user_pin', { p_user_id: userId, p_pin: pin });
+  if (error) throw error;
+
+  return data as ActionResult;
+}
+
+async function findMember(supabase: SupabaseClient, phone: string): Promise<Member | null> {
+  const { data, error } = await supabase.rpc('ussd_user_for_phone', { p_phone: phone });
+  if (error) throw error;
+
+  const row = (data ?? [])[0];
+  return row ? { userId: row.user_id, fullName: row.full_name, language: row.preferred_language } : null;
+}
+
+serve(async (req) => {
+  // Server-to-server only: no CORS, and nothing but POST
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  if (!verifyCallbackToken(req, 'USSD_CALLBACK_TOKEN', 'USSD_CALLBACK_IPS')) {
+    console.error('Rejected USSD request with invalid token from', req.headers.get('x-forwarded-for'));
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  // Requests carry the PIN, so they are not stored in webhook_events
+  const form = new URLSearchParams(await req.text());
+  const sessionId = form.get('sessionId') ?? '';
+  const phone = form.get('phoneNumber') ?? '';
+  const text = form.get('text') ?? '';
+  const inputs = text === '' ? [] : text.split('*');
+  let language: string | null = null;
+
+  try {
+    if (!sessionId || !phone) {
+      return new Response('Bad request', { status: 400 });
+    }
+
+    const member = await findMember(supabase, phone);
+    if (!member) {
+      return end(translate(null, 'ussd.unknown_number'));
+    }
+    language = member.language;
+    const t = (key: string, values = {}) => translate(language, key, values);
+
+    // First step: open the session and ask for the PIN
+    if (inputs.length === 0) {
+      const { error } = await supabase.from('ussd_sessions').upsert({
+        session_id: sessionId,
+        phone,
+        user_id: member.userId,
+        service_code: form.get('serviceCode'),
+        network_code: form.get('networkCode'),
+        last_seen_at: new Date().toISOString(),
+      });
+      if (error) throw error;
+
+      return con(t('ussd.welcome', { name: member.fullName?.split(' ')[0] || 'none' }));
+    }
+
+    const { data: session, error: sessionError } = await supabase
+      .from('ussd_sessions')
+      .select('*')
+      .eq('session_id', sessionId)
+      .maybeSingle();
+    if (sessionError) throw sessionError;
+
+    if (!session || session.user_id !== member.userId || session.phone !== phone
+      || Date.now() - new Date(session.last_seen_at).getTime() > SESSION_TIMEOUT_MS) {
+      return end(t('ussd.session_expired'));
+    }
+
+    const pin = inputs[0];
+    const pinFailure = (result: ActionResult) => t(PIN_FAILURE_MESSAGES[result.code ?? ''] ?? 'ussd.wrong_pin');
+
+    if (inputs.length === 1) {
+      const result = await verifyPin(supabase, member.userId, pin);
+      if (!result.success) {
+        console.log('USSD PIN rejected:', { sessionId, code: result.code ?? 'wrong_pin' });
+        return end(pinFailure(result));
+      }
+
+      await supabase
+        .from('ussd_sessions')
+        .update({ pin_verified_at: new Date().toISOString(), steps: session.steps + 1, last_seen_at: new Date().toISOString() })
+        .eq('session_id', sessionId);
+
+      return con(t('ussd.main_menu'));
+    }
+
+    if (!session.pin_verified_at) {
+      return end(t('ussd.session_expired'));
+    }
+
+    await supabase
+      .from('ussd_sessions')
+      .update({ steps: session.steps + 1, last_seen_at: new Date().toISOString() })
+      .eq('session_id', sessionId);
+
+    const { data: summary, error: summaryError } = await supabase.rpc('ussd_member_summary', {
+      p_user_id: member.userId,
+    });
+    if (summaryError) throw summaryError;
+
+    const { screen, invalid } = currentScreen(inputs.slice(1), summary as MemberSummary, language);
+
+    switch (screen.kind) {
+      case 'exit':
+        return end(t('ussd.goodbye'));
+
+      case 'contribute': {
+        // A session confirms at most one contribution, however often the step is retried
+        const { data, error } = await supabase.rpc('ussd_contribute', {
+          p_user_id: member.userId,
+          p_pin: pin,
+          p_chama_id: screen.chama.chama_id,
+          p_amount: screen.amount,
+          p_reference: `USSD-${sessionId}`,
+        });
+        if (error) throw error;
+        const result = data as ActionResult;
+        await supabase.from('ussd_sessions').update({ last_action: 'contribution' }).eq('session_id', sessionId);
+        console.log('USSD contribution:', { sessionId, chamaId: screen.chama.chama_id, success: result.success });
+
+        if (result.code) return end(pinFailure(result));
+        return end(result.success
+          ? t('ussd.contribution_done', { amount: screen.amount, chama: screen.chama.name, currency: screen.chama.currency })
+          : t('ussd.contribution_failed', { reason: result.message ?? t('ussd.error') }));
+      }
+
+      case 'cast_vote': {
+        const { data, error } = await supabase.rpc('ussd_cast_ballot', {
+          p_user_id: member.userId,
+          p_pin: pin,
+          p_vote_id: screen.vote.id,
+          p_option_index: screen.optionIndex,
+        });
+        if (error) throw error;
+        const result = data as ActionResult;
+        await supabase.from('ussd_sessions').update({ last_action: 'vote' }).eq('session_id', sessionId);
+
+        if (result.code) return end(pinFailure(result));
+        return end(result.success
+          ? t('ussd.vote_done', { title: screen.vote.title })
+          : t('ussd.vote_failed', { reason: result.message ?? t('ussd.error') }));
+      }
+
+      default: {
+        const body = renderScreen(screen, summary as MemberSummary, language);
+        return con(invalid ? `${t('ussd.invalid_choice')}\n${body}` : body);
+      }
+    }
+
+  } catch (error) {
+    console.error('Error handling USSD request:', error);
+    // The provider shows whatever we return, so fail with a message rather than a status
+    return end(translate(language, 'ussd.error'));
+  }
+});
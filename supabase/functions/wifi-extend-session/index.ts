@@ -1,9 +1,10 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { hasPinStepUp, pinStepUpRequired } from "../_shared/pinStepUp.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-pin-token',
 };
 
 interface ExtendRequest {
@@ -36,6 +37,16 @@ const handler = async (req: Request): Promise<Response> => {
       throw new Error('Unauthorized');
     }
 
+    // Step-up tokens are only readable with the service role
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    if (!(await hasPinStepUp(req, supabaseAdmin, user.id))) {
+      return pinStepUpRequired(corsHeaders);
+    }
+
     const { session_id, extension_minutes }: ExtendRequest = await req.json();
 
     console.log('Processing session extension:', { session_id, extension_minutes, user_id: user.id });
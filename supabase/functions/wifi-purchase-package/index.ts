@@ -1,9 +1,10 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { hasPinStepUp, pinStepUpRequired } from "../_shared/pinStepUp.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-pin-token',
 };
 
 interface PurchaseRequest {
@@ -39,6 +40,16 @@ const handler = async (req: Request): Promise<Response> => {
       throw new Error('Unauthorized');
     }
 
+    // Step-up tokens are only readable with the service role
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    if (!(await hasPinStepUp(req, supabaseAdmin, user.id))) {
+      return pinStepUpRequired(corsHeaders);
+    }
+
     const { package_id, hotspot_id, payment_method, payment_reference, idempotency_key }: PurchaseRequest = await req.json();
 
     console.log('Processing package purchase:', { package_id, hotspot_id, user_id: user.id });
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { quoteFee } from "../_shared/fees.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -111,8 +112,12 @@ const handler = async (req: Request): Promise<Response> => {
     }
 
     // For other payment methods, process immediately (demo purposes)
-    // Calculate platform fee (2.5%)
-    const platformFee = amount * 0.025;
+    const { fee: platformFee } = await quoteFee(supabaseAdmin, {
+      transactionType: 'wifi_topup',
+      amount,
+      userId: user.id,
+      channel: payment_method,
+    });
     const netAmount = amount - platformFee;
     const newBalance = (wallet.balance || 0) + netAmount;
 
@@ -1,12 +1,15 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { committedResponse, withIdempotency } from '../_shared/idempotency.ts'
+import { quoteFee } from '../_shared/fees.ts'
+import { hasPinStepUp, pinStepUpRequired } from '../_shared/pinStepUp.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, idempotency-key, x-pin-token',
 }
 
-serve(async (req) => {
+serve(withIdempotency('withdraw-funds', async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
@@ -30,9 +33,18 @@ serve(async (req) => {
       );
     }
 
-    const { amount, paymentMethod, destinationDetails, fee = 0 } = await req.json();
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    )
+
+    if (!(await hasPinStepUp(req, supabaseAdmin, user.id))) {
+      return pinStepUpRequired(corsHeaders);
+    }
+
+    const { amount, paymentMethod, destinationDetails } = await req.json();
 
-    console.log('Withdrawal request:', { userId: user.id, amount, paymentMethod, destinationDetails, fee });
+    console.log('Withdrawal request:', { userId: user.id, amount, paymentMethod, destinationDetails });
 
     // Validate input
     if (!amount || amount <= 0) {
@@ -69,7 +81,7 @@ serve(async (req) => {
     // Get user wallet
     const { data: wallet, error: walletError } = await supabaseClient
       .from('user_wallets')
-      .select('balance')
+      .select('id, balance, currency')
       .eq('user_id', user.id)
       .single();
 
@@ -96,8 +108,16 @@ serve(async (req) => {
       );
     }
 
-    // Calculate net amount after fee
+    // The fee comes from the fee engine, never from the client
+    const { fee } = await quoteFee(supabaseAdmin, {
+      transactionType: 'withdrawal',
+      amount,
+      userId: user.id,
+      channel: paymentMethod,
+    });
     const netAmount = amount - fee;
+    // Amounts are in the wallet's currency, so the payout is sent in it too
+    const currency = wallet.currency || 'KES';
     
     // Create/get transfer recipient first
     let recipientCode;
@@ -114,7 +134,7 @@ serve(async (req) => {
           type: 'mobile_money',
           name: user.email || 'User',
           account_number: destinationDetails.phone_number,
-          currency: 'KES',
+          currency,
           metadata: {
             provider: paymentMethod,
           }
@@ -148,7 +168,7 @@ serve(async (req) => {
           name: destinationDetails.account_name,
           account_number: destinationDetails.account_number,
           bank_code: destinationDetails.bank_name,
-          currency: 'KES',
+          currency,
         }),
       });
 
@@ -168,95 +188,159 @@ serve(async (req) => {
       recipientCode = recipientData.data.recipient_code;
     }
 
-    // Initialize transfer
-    const transferResponse = await fetch('https://api.paystack.co/transfer', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${paystackSecretKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        source: 'balance',
-        amount: Math.round(netAmount * 100), // Convert to kobo/cents (net amount after fee)
-        recipient: recipientCode,
-        reason: `Wallet withdrawal via ${paymentMethod}`,
-        reference: `WD${Date.now()}${user.id.substring(0, 8)}`,
-      }),
-    });
-
-    const transferData = await transferResponse.json();
+    // Take the money out of the wallet before asking Paystack to send it:
+    // the net amount leaves to the payout provider and the fee goes to
+    // platform revenue, in one transaction. A retry can then never pay out
+    // money the wallet was not debited for.
+    const transferReference = `WD${Date.now()}${user.id.substring(0, 8)}`;
 
-    if (!transferResponse.ok || !transferData.status) {
-      console.error('Transfer failed:', transferData);
-      return new Response(
-        JSON.stringify({ 
-          error: transferData.message || 'Transfer failed',
-          success: false 
-        }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Deduct from wallet
-    const { error: updateError } = await supabaseClient
-      .from('user_wallets')
-      .update({ 
-        balance: wallet.balance - amount,
-        updated_at: new Date().toISOString()
-      })
-      .eq('user_id', user.id);
+    const { error: updateError } = await supabaseAdmin.rpc('post_user_withdrawal', {
+      p_user_id: user.id,
+      p_wallet_id: wallet.id,
+      p_net_amount: netAmount,
+      p_fee: fee,
+      p_reference: transferReference,
+      p_payment_method: paymentMethod
+    });
 
     if (updateError) {
       console.error('Wallet update error:', updateError);
+      const insufficient = updateError.message?.includes('Insufficient balance');
       return new Response(
-        JSON.stringify({ error: 'Failed to update wallet' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: insufficient ? 'Insufficient balance' : 'Failed to update wallet' }),
+        { status: insufficient ? 400 : 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Record transaction
+    // The wallet is debited from here on, so every response below is the
+    // final outcome for this Idempotency-Key
+
     const destination = paymentMethod === 'bank' 
       ? `${destinationDetails.bank_name} - ${destinationDetails.account_number}`
       : destinationDetails.phone_number;
 
-    await supabaseClient
+    // post_user_withdrawal() recorded the withdrawal as pending; its status
+    // belongs to settle_user_withdrawal(), so only the destination is added
+    await supabaseAdmin
       .from('wallet_transactions')
-      .insert({
-        user_id: user.id,
-        type: 'withdrawal',
-        amount: -amount,
-        description: `Withdrawal to ${destination} (Fee: KES ${fee})`,
-        status: 'completed',
-        reference_id: transferData.data?.reference || `WD${Date.now()}`,
+      .update({
+        description: `Withdrawal to ${destination} (Fee: ${currency} ${fee})`,
         metadata: {
           payment_method: paymentMethod,
           destination_details: destinationDetails,
           fee,
           net_amount: amount - fee,
         }
+      })
+      .eq('reference_id', transferReference)
+      .eq('type', 'withdrawal');
+
+    // Initialize transfer. An accepted transfer stays pending until Paystack
+    // reports it sent (transfer.success) or not (transfer.failed/reversed),
+    // through paystack-callback or reconcile-paystack-withdrawals. A network
+    // error or a Paystack server error leaves its fate unknown, so it is
+    // pending too rather than risking a second payout.
+    let transferStatus: 'completed' | 'pending' = 'pending';
+    let transferData: { status?: boolean; message?: string; data?: { status?: string } } | null = null;
+    try {
+      const transferResponse = await fetch('https://api.paystack.co/transfer', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${paystackSecretKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          source: 'balance',
+          amount: Math.round(netAmount * 100), // Convert to kobo/cents (net amount after fee)
+          currency,
+          recipient: recipientCode,
+          reason: `Wallet withdrawal via ${paymentMethod}`,
+          reference: transferReference,
+        }),
       });
 
+      if (transferResponse.status >= 500) {
+        console.error('Transfer outcome unknown:', transferReference, transferResponse.status);
+      } else {
+        transferData = await transferResponse.json();
+
+        if (!transferResponse.ok || !transferData.status) {
+          // Paystack refused the transfer, so nothing was sent: put the money back
+          console.error('Transfer failed:', transferData);
+          const { data: settlement, error: reverseError } = await supabaseAdmin.rpc('settle_user_withdrawal', {
+            p_reference: transferReference,
+            p_outcome: 'failed',
+            p_reason: transferData.message || 'Transfer failed',
+            p_provider_data: transferData,
+            p_settled_by: 'withdraw-funds'
+          });
+
+          if (reverseError || !settlement?.success) {
+            console.error('Withdrawal reversal error:', transferReference, reverseError);
+            return committedResponse(
+              {
+                error: 'Transfer failed and the refund to your wallet is delayed. Contact support with this reference.',
+                success: false,
+                reference: transferReference
+              },
+              500,
+              corsHeaders
+            );
+          }
+
+          return new Response(
+            JSON.stringify({ 
+              error: transferData.message || 'Transfer failed',
+              success: false 
+            }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (transferData.data?.status === 'success') {
+          const { error: completeError } = await supabaseAdmin.rpc('settle_user_withdrawal', {
+            p_reference: transferReference,
+            p_outcome: 'success',
+            p_provider_data: transferData,
+            p_settled_by: 'withdraw-funds'
+          });
+
+          if (completeError) {
+            // The webhook or the reconciler completes it later
+            console.error('Error completing withdrawal:', transferReference, completeError);
+          } else {
+            transferStatus = 'completed';
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Transfer outcome unknown:', transferReference, error);
+    }
+
     console.log('Withdrawal successful:', { 
       userId: user.id, 
       amount, 
       fee,
       netAmount: amount - fee,
+      status: transferStatus,
       newBalance: wallet.balance - amount 
     });
 
     return new Response(
       JSON.stringify({ 
         success: true,
-        message: 'Withdrawal successful',
+        message: transferStatus === 'completed' ? 'Withdrawal successful' : 'Withdrawal is being processed',
+        status: transferStatus,
         amount,
         fee,
         netAmount: amount - fee,
+        currency,
         destination,
         paymentMethod,
-        reference: transferData.data?.reference,
+        reference: transferReference,
         newBalance: wallet.balance - amount
       }),
-      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      { status: transferStatus === 'completed' ? 200 : 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
@@ -266,4 +350,4 @@ serve(async (req) => {
       { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
-});
+}));
@@ -0,0 +1,421 @@
+-- ============================================
+-- UNIFIED DOUBLE-ENTRY LEDGER
+-- ============================================
+-- Every money movement is posted as a balanced debit/credit pair through
+-- post_ledger_transaction(). The wallet tables keep their balance columns
+-- for fast reads, but those columns are only changed by the ledger, and
+-- get_ledger_discrepancies() lists any wallet whose stored balance no longer
+-- matches the sum of its entries.
+--
+-- Ledger account types:
+--   user_wallet           -> user_wallets
+--   user_central_wallet   -> user_central_wallets
+--   chama_wallet          -> wallets
+--   chama_central_wallet  -> chama_central_wallets
+--   member_wallet         -> member_wallets
+--   savings_goal          -> personal_savings_goals (current_amount)
+--   platform_revenue      -> platform_accounts
+--   external              -> money entering/leaving the platform (M-Pesa,
+--                            Paystack, Airtel, bank). Has no stored balance.
+-- ============================================
+
+-- 1. Index ledger entries by payment reference for tracing callbacks
+CREATE INDEX IF NOT EXISTS idx_transaction_ledger_reference ON public.transaction_ledger(reference);
+
+-- 2. Apply a signed delta to the balance row behind a ledger account
+CREATE OR REPLACE FUNCTION public.apply_ledger_delta(
+  p_account_type VARCHAR,
+  p_account_id UUID,
+  p_delta NUMERIC
+) RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance NUMERIC;
+BEGIN
+  IF p_account_type = 'external' THEN
+    RETURN 0;
+  END IF;
+
+  CASE p_account_type
+    WHEN 'user_wallet' THEN
+      UPDATE public.user_wallets
+      SET balance = COALESCE(balance, 0) + p_delta, updated_at = now()
+      WHERE id = p_account_id
+      RETURNING balance INTO v_balance;
+    WHEN 'user_central_wallet' THEN
+      UPDATE public.user_central_wallets
+      SET balance = balance + p_delta, updated_at = now()
+      WHERE id = p_account_id
+      RETURNING balance INTO v_balance;
+    WHEN 'chama_wallet' THEN
+      UPDATE public.wallets
+      SET balance = balance + p_delta, updated_at = now()
+      WHERE id = p_account_id
+      RETURNING balance INTO v_balance;
+    WHEN 'chama_central_wallet' THEN
+      UPDATE public.chama_central_wallets
+      SET balance = balance + p_delta, updated_at = now()
+      WHERE id = p_account_id
+      RETURNING balance INTO v_balance;
+    WHEN 'member_wallet' THEN
+      UPDATE public.member_wallets
+      SET balance = balance + p_delta, updated_at = now()
+      WHERE id = p_account_id
+      RETURNING balance INTO v_balance;
+    WHEN 'savings_goal' THEN
+      UPDATE public.personal_savings_goals
+      SET current_amount = COALESCE(current_amount, 0) + p_delta, updated_at = now()
+      WHERE id = p_account_id
+      RETURNING current_amount INTO v_balance;
+    WHEN 'platform_revenue' THEN
+      UPDATE public.platform_accounts
+      SET balance = balance + p_delta, updated_at = now()
+      WHERE id = p_account_id
+      RETURNING balance INTO v_balance;
+    ELSE
+      RAISE EXCEPTION 'Unknown ledger account type: %', p_account_type;
+  END CASE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ledger account not found: % %', p_account_type, p_account_id;
+  END IF;
+
+  IF v_balance < 0 THEN
+    RAISE EXCEPTION 'Insufficient balance';
+  END IF;
+
+  RETURN v_balance;
+END;
+$$;
+
+-- 3. Post one balanced transaction: debit (source) and credit (destination)
+CREATE OR REPLACE FUNCTION public.post_ledger_transaction(
+  p_transaction_type VARCHAR,
+  p_debit_account_type VARCHAR,
+  p_debit_account_id UUID,
+  p_credit_account_type VARCHAR,
+  p_credit_account_id UUID,
+  p_amount NUMERIC,
+  p_reference VARCHAR DEFAULT NULL,
+  p_description TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}',
+  p_currency VARCHAR DEFAULT 'KES'
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction_id UUID := gen_random_uuid();
+  v_debit_balance NUMERIC;
+  v_credit_balance NUMERIC;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Ledger amount must be greater than 0';
+  END IF;
+
+  IF p_debit_account_type = p_credit_account_type
+     AND p_debit_account_id IS NOT DISTINCT FROM p_credit_account_id THEN
+    RAISE EXCEPTION 'Cannot post a transaction to the same account';
+  END IF;
+
+  v_debit_balance := public.apply_ledger_delta(p_debit_account_type, p_debit_account_id, -p_amount);
+  v_credit_balance := public.apply_ledger_delta(p_credit_account_type, p_credit_account_id, p_amount);
+
+  INSERT INTO public.transaction_ledger (
+    transaction_id, transaction_type, account_type, account_id,
+    debit_amount, credit_amount, balance_after, currency, reference, description, metadata
+  ) VALUES
+  (
+    v_transaction_id, p_transaction_type, p_debit_account_type, p_debit_account_id,
+    p_amount, 0, v_debit_balance, p_currency, p_reference, p_description, p_metadata
+  ),
+  (
+    v_transaction_id, p_transaction_type, p_credit_account_type, p_credit_account_id,
+    0, p_amount, v_credit_balance, p_currency, p_reference, p_description, p_metadata
+  );
+
+  RETURN v_transaction_id;
+END;
+$$;
+
+-- 4. Keep the old entry point working, routed through the new poster
+CREATE OR REPLACE FUNCTION public.record_ledger_entry(
+  p_transaction_id UUID,
+  p_transaction_type VARCHAR,
+  p_debit_account_type VARCHAR,
+  p_debit_account_id UUID,
+  p_credit_account_type VARCHAR,
+  p_credit_account_id UUID,
+  p_amount NUMERIC,
+  p_currency VARCHAR DEFAULT 'KES',
+  p_description TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.post_ledger_transaction(
+    p_transaction_type,
+    p_debit_account_type,
+    p_debit_account_id,
+    p_credit_account_type,
+    p_credit_account_id,
+    p_amount,
+    p_transaction_id::TEXT,
+    p_description,
+    p_metadata,
+    p_currency
+  );
+END;
+$$;
+
+-- 5. Collect platform fees through the ledger. The fee leaves the given
+--    source account (the payment provider by default, since callback fees
+--    are withheld before the user is credited).
+DROP FUNCTION IF EXISTS public.collect_platform_fee(UUID, VARCHAR, NUMERIC, UUID, VARCHAR);
+
+CREATE OR REPLACE FUNCTION public.collect_platform_fee(
+  p_user_id UUID,
+  p_fee_type VARCHAR,
+  p_amount NUMERIC,
+  p_source_transaction_id UUID DEFAULT NULL,
+  p_payment_reference VARCHAR DEFAULT NULL,
+  p_source_account_type VARCHAR DEFAULT 'external',
+  p_source_account_id UUID DEFAULT NULL
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fee_id UUID;
+  v_platform_account_id UUID;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO v_platform_account_id
+  FROM public.platform_accounts
+  WHERE account_type = p_fee_type AND is_active = true
+  LIMIT 1;
+
+  IF v_platform_account_id IS NULL THEN
+    INSERT INTO public.platform_accounts (account_type, description)
+    VALUES (p_fee_type, 'Platform revenue from ' || p_fee_type)
+    RETURNING id INTO v_platform_account_id;
+  END IF;
+
+  INSERT INTO public.fee_collections (
+    user_id, fee_type, amount, platform_account_id,
+    source_transaction_id, paystack_reference, status
+  ) VALUES (
+    p_user_id, p_fee_type, p_amount, v_platform_account_id,
+    p_source_transaction_id, p_payment_reference, 'collected'
+  ) RETURNING id INTO v_fee_id;
+
+  PERFORM public.post_ledger_transaction(
+    'fee_collection',
+    p_source_account_type,
+    p_source_account_id,
+    'platform_revenue',
+    v_platform_account_id,
+    p_amount,
+    p_payment_reference,
+    FORMAT('Fee collection: %s', p_fee_type),
+    jsonb_build_object('fee_type', p_fee_type, 'user_id', p_user_id, 'fee_id', v_fee_id)
+  );
+
+  UPDATE public.platform_accounts
+  SET total_collected = total_collected + p_amount
+  WHERE id = v_platform_account_id;
+
+  RETURN v_fee_id;
+END;
+$$;
+
+-- 6. Withdrawals: the net amount leaves to the provider, the fee to revenue
+CREATE OR REPLACE FUNCTION public.process_user_withdrawal(
+  p_withdrawal_request_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request RECORD;
+BEGIN
+  SELECT * INTO v_request
+  FROM public.withdrawal_requests
+  WHERE id = p_withdrawal_request_id
+  AND status = 'approved'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Withdrawal request not found or not approved');
+  END IF;
+
+  BEGIN
+    PERFORM public.post_ledger_transaction(
+      'user_withdrawal',
+      'user_wallet',
+      v_request.wallet_id,
+      'external',
+      NULL,
+      v_request.net_amount,
+      v_request.paystack_reference,
+      'Withdrawal payout',
+      jsonb_build_object('withdrawal_request_id', p_withdrawal_request_id, 'method', v_request.withdrawal_method)
+    );
+
+    IF v_request.fee_amount > 0 THEN
+      PERFORM public.collect_platform_fee(
+        v_request.user_id,
+        'withdrawal',
+        v_request.fee_amount,
+        p_withdrawal_request_id,
+        v_request.paystack_reference,
+        'user_wallet',
+        v_request.wallet_id
+      );
+    END IF;
+  EXCEPTION
+    WHEN OTHERS THEN
+      RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+  END;
+
+  UPDATE public.withdrawal_requests
+  SET status = 'processing',
+      processed_at = now(),
+      updated_at = now()
+  WHERE id = p_withdrawal_request_id;
+
+  INSERT INTO public.wallet_transactions (
+    user_id, type, amount, status, description
+  ) VALUES (
+    v_request.user_id,
+    'withdrawal',
+    -v_request.amount,
+    'completed',
+    FORMAT('Withdrawal: Net KES %s, Fee KES %s', v_request.net_amount, v_request.fee_amount)
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'withdrawal_id', p_withdrawal_request_id,
+    'amount', v_request.amount,
+    'fee', v_request.fee_amount,
+    'net_amount', v_request.net_amount
+  );
+END;
+$$;
+
+-- 7. Ledger balance of a single account (credits minus debits)
+CREATE OR REPLACE FUNCTION public.get_ledger_balance(
+  p_account_type VARCHAR,
+  p_account_id UUID
+) RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(credit_amount) - SUM(debit_amount), 0)
+  FROM public.transaction_ledger
+  WHERE account_type = p_account_type AND account_id = p_account_id;
+$$;
+
+-- 8. Stored wallet balances next to the balances their entries add up to
+CREATE OR REPLACE VIEW public.ledger_wallet_balances AS
+WITH wallet_balances AS (
+  SELECT 'user_wallet'::VARCHAR AS account_type, id AS account_id, user_id AS owner_id, COALESCE(balance, 0)::NUMERIC AS stored_balance
+  FROM public.user_wallets
+  UNION ALL
+  SELECT 'user_central_wallet', id, user_id, balance FROM public.user_central_wallets
+  UNION ALL
+  -- view-only wallets mirror a member's share and hold no money of their own
+  SELECT 'chama_wallet', id, user_id, balance FROM public.wallets WHERE wallet_type <> 'chama_view_only'
+  UNION ALL
+  SELECT 'chama_central_wallet', id, chama_id, balance FROM public.chama_central_wallets
+  UNION ALL
+  SELECT 'member_wallet', id, member_id, balance FROM public.member_wallets
+  UNION ALL
+  SELECT 'savings_goal', id, user_id, COALESCE(current_amount, 0) FROM public.personal_savings_goals
+  UNION ALL
+  SELECT 'platform_revenue', id, NULL, balance FROM public.platform_accounts
+),
+ledger_balances AS (
+  SELECT account_type, account_id, SUM(credit_amount) - SUM(debit_amount) AS ledger_balance
+  FROM public.transaction_ledger
+  WHERE account_id IS NOT NULL
+  GROUP BY account_type, account_id
+)
+SELECT
+  w.account_type,
+  w.account_id,
+  w.owner_id,
+  w.stored_balance,
+  COALESCE(l.ledger_balance, 0) AS ledger_balance,
+  w.stored_balance - COALESCE(l.ledger_balance, 0) AS difference
+FROM wallet_balances w
+LEFT JOIN ledger_balances l
+  ON l.account_type = w.account_type AND l.account_id = w.account_id;
+
+-- 9. Admin check for wallets that disagree with the ledger
+CREATE OR REPLACE FUNCTION public.get_ledger_discrepancies()
+RETURNS TABLE (
+  account_type VARCHAR,
+  account_id UUID,
+  owner_id UUID,
+  stored_balance NUMERIC,
+  ledger_balance NUMERIC,
+  difference NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() AND auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Only admins can view ledger discrepancies';
+  END IF;
+
+  RETURN QUERY
+  SELECT b.account_type, b.account_id, b.owner_id, b.stored_balance, b.ledger_balance, b.difference
+  FROM public.ledger_wallet_balances b
+  WHERE b.difference <> 0
+  ORDER BY ABS(b.difference) DESC;
+END;
+$$;
+
+-- 10. Opening balances so existing wallets start out reconciled
+INSERT INTO public.transaction_ledger (
+  transaction_id, transaction_type, account_type, account_id,
+  debit_amount, credit_amount, balance_after, reference, description
+)
+SELECT
+  gen_random_uuid(), 'opening_balance', b.account_type, b.account_id,
+  CASE WHEN b.difference < 0 THEN -b.difference ELSE 0 END,
+  CASE WHEN b.difference > 0 THEN b.difference ELSE 0 END,
+  b.stored_balance, 'opening_balance', 'Opening balance carried into the ledger'
+FROM public.ledger_wallet_balances b
+WHERE b.difference <> 0;
+
+-- 11. Only the service role may move money; users read through views/RPCs
+REVOKE EXECUTE ON FUNCTION public.apply_ledger_delta(VARCHAR, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_ledger_transaction(VARCHAR, VARCHAR, UUID, VARCHAR, UUID, NUMERIC, VARCHAR, TEXT, JSONB, VARCHAR) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_ledger_entry(UUID, VARCHAR, VARCHAR, UUID, VARCHAR, UUID, NUMERIC, VARCHAR, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.collect_platform_fee(UUID, VARCHAR, NUMERIC, UUID, VARCHAR, VARCHAR, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE SELECT ON public.ledger_wallet_balances FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_ledger_discrepancies() TO authenticated;
+
+COMMENT ON FUNCTION public.post_ledger_transaction IS 'Posts a balanced debit/credit pair and applies it to the wallet balances';
+COMMENT ON FUNCTION public.collect_platform_fee IS 'Collects a platform fee from a ledger account into platform revenue';
+COMMENT ON VIEW public.ledger_wallet_balances IS 'Stored wallet balances compared with the balances derived from transaction_ledger';
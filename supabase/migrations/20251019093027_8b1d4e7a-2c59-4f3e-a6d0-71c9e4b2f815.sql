@@ -0,0 +1,138 @@
+-- ============================================
+-- ATOMIC WALLET TRANSFERS
+-- ============================================
+-- transfer_funds() moves money between two ledger accounts and writes the
+-- matching wallet_transactions rows in the same database transaction, so a
+-- transfer either happens completely or not at all. Both balance rows are
+-- locked in a fixed order before either is changed, which keeps two opposite
+-- transfers between the same wallets from deadlocking each other.
+-- ============================================
+
+-- 1. Let wallet history rows carry the transfer reference
+ALTER TABLE public.wallet_transactions ADD COLUMN IF NOT EXISTS reference_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_reference_id ON public.wallet_transactions(reference_id);
+
+-- 2. Post ledger transactions with deterministic lock ordering.
+--    apply_ledger_delta() takes the row lock with its UPDATE and checks the
+--    resulting balance under that lock, so applying the two sides in a fixed
+--    account order is enough to serialise concurrent transfers safely.
+CREATE OR REPLACE FUNCTION public.post_ledger_transaction(
+  p_transaction_type VARCHAR,
+  p_debit_account_type VARCHAR,
+  p_debit_account_id UUID,
+  p_credit_account_type VARCHAR,
+  p_credit_account_id UUID,
+  p_amount NUMERIC,
+  p_reference VARCHAR DEFAULT NULL,
+  p_description TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}',
+  p_currency VARCHAR DEFAULT 'KES'
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction_id UUID := gen_random_uuid();
+  v_debit_balance NUMERIC;
+  v_credit_balance NUMERIC;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Ledger amount must be greater than 0';
+  END IF;
+
+  IF p_debit_account_type = p_credit_account_type
+     AND p_debit_account_id IS NOT DISTINCT FROM p_credit_account_id THEN
+    RAISE EXCEPTION 'Cannot post a transaction to the same account';
+  END IF;
+
+  IF p_debit_account_type || ':' || COALESCE(p_debit_account_id::TEXT, '')
+     <= p_credit_account_type || ':' || COALESCE(p_credit_account_id::TEXT, '') THEN
+    v_debit_balance := public.apply_ledger_delta(p_debit_account_type, p_debit_account_id, -p_amount);
+    v_credit_balance := public.apply_ledger_delta(p_credit_account_type, p_credit_account_id, p_amount);
+  ELSE
+    v_credit_balance := public.apply_ledger_delta(p_credit_account_type, p_credit_account_id, p_amount);
+    v_debit_balance := public.apply_ledger_delta(p_debit_account_type, p_debit_account_id, -p_amount);
+  END IF;
+
+  INSERT INTO public.transaction_ledger (
+    transaction_id, transaction_type, account_type, account_id,
+    debit_amount, credit_amount, balance_after, currency, reference, description, metadata
+  ) VALUES
+  (
+    v_transaction_id, p_transaction_type, p_debit_account_type, p_debit_account_id,
+    p_amount, 0, v_debit_balance, p_currency, p_reference, p_description, p_metadata
+  ),
+  (
+    v_transaction_id, p_transaction_type, p_credit_account_type, p_credit_account_id,
+    0, p_amount, v_credit_balance, p_currency, p_reference, p_description, p_metadata
+  );
+
+  RETURN v_transaction_id;
+END;
+$$;
+
+-- 3. Transfer between two accounts and record the wallet history rows.
+--    p_wallet_entries is an array of {user_id, type, amount, description}
+--    objects written to wallet_transactions with the transfer reference.
+CREATE OR REPLACE FUNCTION public.transfer_funds(
+  p_transaction_type VARCHAR,
+  p_from_account_type VARCHAR,
+  p_from_account_id UUID,
+  p_to_account_type VARCHAR,
+  p_to_account_id UUID,
+  p_amount NUMERIC,
+  p_reference VARCHAR DEFAULT NULL,
+  p_description TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}',
+  p_wallet_entries JSONB DEFAULT '[]',
+  p_currency VARCHAR DEFAULT 'KES'
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction_id UUID;
+  v_from_balance NUMERIC;
+  v_to_balance NUMERIC;
+BEGIN
+  v_transaction_id := public.post_ledger_transaction(
+    p_transaction_type,
+    p_from_account_type,
+    p_from_account_id,
+    p_to_account_type,
+    p_to_account_id,
+    p_amount,
+    p_reference,
+    p_description,
+    p_metadata,
+    p_currency
+  );
+
+  SELECT balance_after INTO v_from_balance
+  FROM public.transaction_ledger
+  WHERE transaction_id = v_transaction_id AND debit_amount > 0;
+
+  SELECT balance_after INTO v_to_balance
+  FROM public.transaction_ledger
+  WHERE transaction_id = v_transaction_id AND credit_amount > 0;
+
+  INSERT INTO public.wallet_transactions (user_id, type, amount, description, status, reference_id, currency)
+  SELECT e.user_id, e.type, e.amount, COALESCE(e.description, p_description), 'completed', p_reference, p_currency
+  FROM jsonb_to_recordset(COALESCE(p_wallet_entries, '[]')) AS e(user_id UUID, type TEXT, amount NUMERIC, description TEXT);
+
+  RETURN jsonb_build_object(
+    'transaction_id', v_transaction_id,
+    'from_balance', v_from_balance,
+    'to_balance', v_to_balance
+  );
+END;
+$$;
+
+-- 4. Only edge functions (service role) may move money
+REVOKE EXECUTE ON FUNCTION public.post_ledger_transaction(VARCHAR, VARCHAR, UUID, VARCHAR, UUID, NUMERIC, VARCHAR, TEXT, JSONB, VARCHAR) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.transfer_funds(VARCHAR, VARCHAR, UUID, VARCHAR, UUID, NUMERIC, VARCHAR, TEXT, JSONB, JSONB, VARCHAR) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.transfer_funds IS 'Atomically moves funds between two ledger accounts and records the wallet_transactions rows for both users';
@@ -0,0 +1,49 @@
+-- ============================================
+-- IDEMPOTENCY KEYS FOR MONEY-MOVING FUNCTIONS
+-- ============================================
+-- Edge functions that move money accept an Idempotency-Key header. The first
+-- request with a key claims a row here, and its response is stored so that
+-- retries with the same key get the same answer instead of moving money twice.
+-- ============================================
+
+-- 1. Stored requests and responses, one per (user, function, key)
+CREATE TABLE IF NOT EXISTS public.idempotency_keys (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  function_name TEXT NOT NULL,
+  idempotency_key TEXT NOT NULL,
+  request_hash TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+  response_status INTEGER,
+  response_body TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (user_id, function_name, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_created_at ON public.idempotency_keys(created_at);
+
+-- 2. Only the service role reads or writes this table
+ALTER TABLE public.idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+-- 3. Keys only need to outlive client retries
+CREATE OR REPLACE FUNCTION public.purge_expired_idempotency_keys(p_older_than INTERVAL DEFAULT INTERVAL '24 hours')
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  DELETE FROM public.idempotency_keys
+  WHERE created_at < now() - p_older_than;
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_idempotency_keys(INTERVAL) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.idempotency_keys IS 'First response for each Idempotency-Key sent to a money-moving edge function, replayed for retries';
@@ -0,0 +1,192 @@
+-- ============================================
+-- SERVER-SIDE PAYSTACK RECONCILIATION
+-- ============================================
+-- Pending Paystack payments are reconciled by the reconcile-paystack-payments
+-- edge function on a schedule. Each reference is verified with Paystack before
+-- anything is credited, and credit_paystack_payment() settles a payment at most
+-- once no matter whether the webhook, the reconciler or a manual retry gets
+-- there first.
+-- ============================================
+
+-- 1. Settle a verified Paystack payment exactly once
+CREATE OR REPLACE FUNCTION public.credit_paystack_payment(
+  p_reference TEXT,
+  p_amount_paid NUMERIC,
+  p_channel TEXT DEFAULT NULL,
+  p_paid_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_provider_data JSONB DEFAULT '{}',
+  p_settled_by TEXT DEFAULT 'webhook'
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction RECORD;
+  v_wallet_id UUID;
+  v_platform_fee NUMERIC;
+  v_net_amount NUMERIC;
+  v_credited BOOLEAN := false;
+BEGIN
+  -- Lock the payment row so concurrent settlers queue up behind each other
+  SELECT * INTO v_transaction
+  FROM public.mpesa_transactions
+  WHERE checkout_request_id = p_reference
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Transaction not found');
+  END IF;
+
+  IF v_transaction.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_settled', true,
+      'status', v_transaction.status,
+      'user_id', v_transaction.user_id
+    );
+  END IF;
+
+  v_platform_fee := ROUND(p_amount_paid * 0.025, 2);
+  v_net_amount := p_amount_paid - v_platform_fee;
+
+  IF v_transaction.purpose IN ('other', 'wallet_topup') THEN
+    INSERT INTO public.user_central_wallets (user_id, balance)
+    VALUES (v_transaction.user_id, 0)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    SELECT id INTO v_wallet_id
+    FROM public.user_central_wallets
+    WHERE user_id = v_transaction.user_id;
+
+    PERFORM public.post_ledger_transaction(
+      'user_deposit',
+      'external',
+      NULL,
+      'user_central_wallet',
+      v_wallet_id,
+      v_net_amount,
+      p_reference,
+      'Paystack ' || COALESCE(p_channel, '') || ' deposit',
+      jsonb_build_object('provider', 'paystack', 'channel', p_channel, 'user_id', v_transaction.user_id, 'settled_by', p_settled_by)
+    );
+
+    INSERT INTO public.wallet_transactions (user_id, type, amount, description, status, reference_id, currency)
+    VALUES (
+      v_transaction.user_id,
+      'deposit',
+      v_net_amount,
+      'Wallet top-up via Paystack (Fee: KES ' || to_char(v_platform_fee, 'FM999999990.00') || ')',
+      'completed',
+      p_reference,
+      'KES'
+    );
+
+    v_credited := true;
+  END IF;
+
+  PERFORM public.collect_platform_fee(
+    v_transaction.user_id,
+    'transaction',
+    v_platform_fee,
+    NULL,
+    p_reference
+  );
+
+  UPDATE public.mpesa_transactions
+  SET status = 'success',
+      result_code = 0,
+      result_desc = 'Payment via ' || COALESCE(p_channel, 'paystack') || ' successful',
+      mpesa_receipt_number = p_reference,
+      transaction_date = COALESCE(p_paid_at, now()),
+      callback_data = COALESCE(callback_data, '{}'::jsonb) || jsonb_build_object('settled_by', p_settled_by, 'provider_data', p_provider_data),
+      updated_at = now()
+  WHERE id = v_transaction.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'already_settled', false,
+    'credited', v_credited,
+    'user_id', v_transaction.user_id,
+    'chama_id', v_transaction.chama_id,
+    'purpose', v_transaction.purpose,
+    'amount', v_net_amount,
+    'fee', v_platform_fee
+  );
+END;
+$$;
+
+-- 2. Mark a pending payment failed (no-op if it was settled meanwhile)
+CREATE OR REPLACE FUNCTION public.fail_paystack_payment(
+  p_reference TEXT,
+  p_reason TEXT,
+  p_provider_data JSONB DEFAULT '{}',
+  p_settled_by TEXT DEFAULT 'webhook'
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.mpesa_transactions
+  SET status = 'failed',
+      result_code = 1,
+      result_desc = p_reason,
+      callback_data = COALESCE(callback_data, '{}'::jsonb) || jsonb_build_object('settled_by', p_settled_by, 'provider_data', p_provider_data),
+      updated_at = now()
+  WHERE checkout_request_id = p_reference
+    AND status = 'pending';
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.credit_paystack_payment(TEXT, NUMERIC, TEXT, TIMESTAMP WITH TIME ZONE, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fail_paystack_payment(TEXT, TEXT, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- 3. Reconciliation reports
+CREATE TABLE IF NOT EXISTS public.payment_reconciliation_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider TEXT NOT NULL DEFAULT 'paystack',
+  triggered_by TEXT NOT NULL DEFAULT 'schedule',
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  checked_count INTEGER NOT NULL DEFAULT 0,
+  credited_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  pending_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  credited_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  items JSONB NOT NULL DEFAULT '[]'
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_reconciliation_runs_started_at ON public.payment_reconciliation_runs(started_at DESC);
+
+ALTER TABLE public.payment_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view reconciliation runs"
+ON public.payment_reconciliation_runs FOR SELECT
+USING (is_admin());
+
+-- 4. Run the reconciler every 10 minutes. The project URL and the shared
+--    cron secret are read from Vault so they never live in the migration.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'reconcile-paystack-payments',
+  '*/10 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/reconcile-paystack-payments',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+COMMENT ON FUNCTION public.credit_paystack_payment IS 'Credits a verified Paystack payment and marks it successful; safe to call more than once per reference';
+COMMENT ON TABLE public.payment_reconciliation_runs IS 'One row per reconciliation run with the outcome for each pending payment checked';
@@ -0,0 +1,217 @@
+-- ============================================
+-- M-PESA STK CALLBACK SETTLEMENT
+-- ============================================
+-- settle_mpesa_payment() is called by the mpesa-callback edge function with
+-- the parsed STK callback. It settles each checkout request at most once:
+-- failed pushes are marked failed, successful ones are checked against the
+-- requested amount and the money is routed by the payment's purpose.
+--   contribution (with chama) -> chama central wallet + contribution record
+--   anything else             -> the payer's central wallet
+-- The platform fee is computed here from fee_configurations, never trusted
+-- from the client.
+-- ============================================
+
+-- 1. Look up receipts quickly when reconciling against M-Pesa statements
+CREATE INDEX IF NOT EXISTS idx_mpesa_transactions_receipt ON public.mpesa_transactions(mpesa_receipt_number);
+
+-- 2. Settle an STK push callback exactly once
+CREATE OR REPLACE FUNCTION public.settle_mpesa_payment(
+  p_checkout_request_id TEXT,
+  p_result_code INTEGER,
+  p_result_desc TEXT,
+  p_receipt_number TEXT DEFAULT NULL,
+  p_amount NUMERIC DEFAULT NULL,
+  p_phone_number TEXT DEFAULT NULL,
+  p_transaction_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_callback_data JSONB DEFAULT '{}'
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction RECORD;
+  v_fee_type VARCHAR;
+  v_platform_fee NUMERIC;
+  v_net_amount NUMERIC;
+  v_wallet_id UUID;
+  v_member_id UUID;
+  v_routed_to TEXT;
+BEGIN
+  SELECT * INTO v_transaction
+  FROM public.mpesa_transactions
+  WHERE checkout_request_id = p_checkout_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Transaction not found');
+  END IF;
+
+  -- Safaricom retries callbacks; only the first one for a request counts
+  IF v_transaction.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_settled', true,
+      'status', v_transaction.status,
+      'user_id', v_transaction.user_id
+    );
+  END IF;
+
+  IF p_result_code <> 0 THEN
+    UPDATE public.mpesa_transactions
+    SET status = 'failed',
+        result_code = p_result_code,
+        result_desc = p_result_desc,
+        callback_data = p_callback_data,
+        updated_at = now()
+    WHERE id = v_transaction.id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_settled', false,
+      'outcome', 'failed',
+      'user_id', v_transaction.user_id,
+      'chama_id', v_transaction.chama_id,
+      'amount', v_transaction.amount
+    );
+  END IF;
+
+  -- The paid amount must match what was requested before any money moves
+  IF p_amount IS NULL OR p_amount <> v_transaction.amount THEN
+    UPDATE public.mpesa_transactions
+    SET status = 'amount_mismatch',
+        result_code = p_result_code,
+        result_desc = 'Paid amount ' || COALESCE(p_amount::TEXT, 'unknown') || ' does not match requested ' || v_transaction.amount,
+        mpesa_receipt_number = p_receipt_number,
+        transaction_date = p_transaction_date,
+        callback_data = p_callback_data,
+        updated_at = now()
+    WHERE id = v_transaction.id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_settled', false,
+      'outcome', 'amount_mismatch',
+      'user_id', v_transaction.user_id,
+      'chama_id', v_transaction.chama_id,
+      'amount', p_amount
+    );
+  END IF;
+
+  v_fee_type := CASE WHEN v_transaction.purpose = 'contribution' THEN 'chama_contribution' ELSE 'wallet_topup' END;
+  v_platform_fee := LEAST(ROUND(public.calculate_transaction_fee(v_fee_type, p_amount), 2), p_amount);
+  v_net_amount := p_amount - v_platform_fee;
+
+  IF v_transaction.purpose = 'contribution' AND v_transaction.chama_id IS NOT NULL THEN
+    SELECT id INTO v_member_id
+    FROM public.chama_members
+    WHERE chama_id = v_transaction.chama_id
+      AND user_id = v_transaction.user_id
+      AND is_active = true;
+  END IF;
+
+  IF v_member_id IS NOT NULL THEN
+    SELECT id INTO v_wallet_id
+    FROM public.chama_central_wallets
+    WHERE chama_id = v_transaction.chama_id;
+
+    IF v_net_amount > 0 THEN
+      PERFORM public.post_ledger_transaction(
+        'chama_contribution',
+        'external',
+        NULL,
+        'chama_central_wallet',
+        v_wallet_id,
+        v_net_amount,
+        p_receipt_number,
+        'M-Pesa contribution',
+        jsonb_build_object('provider', 'mpesa', 'chama_id', v_transaction.chama_id, 'member_id', v_member_id, 'user_id', v_transaction.user_id)
+      );
+    END IF;
+
+    INSERT INTO public.chama_contributions_new (chama_id, member_id, amount, payment_method, payment_reference, status)
+    VALUES (v_transaction.chama_id, v_member_id, v_net_amount, 'mpesa', p_receipt_number, 'completed');
+
+    UPDATE public.chama_members
+    SET savings_balance = COALESCE(savings_balance, 0) + v_net_amount,
+        total_contributed = COALESCE(total_contributed, 0) + v_net_amount,
+        last_contribution_date = now()
+    WHERE id = v_member_id;
+
+    UPDATE public.chamas
+    SET total_savings = COALESCE(total_savings, 0) + v_net_amount
+    WHERE id = v_transaction.chama_id;
+
+    v_routed_to := 'chama';
+  ELSE
+    INSERT INTO public.user_central_wallets (user_id, balance)
+    VALUES (v_transaction.user_id, 0)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    SELECT id INTO v_wallet_id
+    FROM public.user_central_wallets
+    WHERE user_id = v_transaction.user_id;
+
+    IF v_net_amount > 0 THEN
+      PERFORM public.post_ledger_transaction(
+        'user_deposit',
+        'external',
+        NULL,
+        'user_central_wallet',
+        v_wallet_id,
+        v_net_amount,
+        p_receipt_number,
+        'M-Pesa deposit',
+        jsonb_build_object('provider', 'mpesa', 'purpose', v_transaction.purpose, 'user_id', v_transaction.user_id)
+      );
+    END IF;
+
+    INSERT INTO public.wallet_transactions (user_id, type, amount, description, status, reference_id, currency)
+    VALUES (
+      v_transaction.user_id,
+      'deposit',
+      v_net_amount,
+      'M-Pesa deposit (Fee: KES ' || to_char(v_platform_fee, 'FM999999990.00') || ')',
+      'completed',
+      p_receipt_number,
+      'KES'
+    );
+
+    v_routed_to := 'wallet';
+  END IF;
+
+  PERFORM public.collect_platform_fee(
+    v_transaction.user_id,
+    'transaction',
+    v_platform_fee,
+    NULL,
+    p_receipt_number
+  );
+
+  UPDATE public.mpesa_transactions
+  SET status = 'success',
+      result_code = p_result_code,
+      result_desc = p_result_desc,
+      mpesa_receipt_number = p_receipt_number,
+      transaction_date = COALESCE(p_transaction_date, now()),
+      phone_number = COALESCE(p_phone_number, phone_number),
+      callback_data = p_callback_data,
+      updated_at = now()
+  WHERE id = v_transaction.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'already_settled', false,
+    'outcome', 'credited',
+    'routed_to', v_routed_to,
+    'user_id', v_transaction.user_id,
+    'chama_id', v_transaction.chama_id,
+    'amount', v_net_amount,
+    'fee', v_platform_fee
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_mpesa_payment(TEXT, INTEGER, TEXT, TEXT, NUMERIC, TEXT, TIMESTAMP WITH TIME ZONE, JSONB) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.settle_mpesa_payment IS 'Settles an M-Pesa STK callback once: validates the amount, routes funds by purpose and collects the platform fee';
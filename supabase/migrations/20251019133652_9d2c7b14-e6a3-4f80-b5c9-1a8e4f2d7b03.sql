@@ -0,0 +1,44 @@
+-- ============================================
+-- INBOUND WEBHOOK EVENT LOG
+-- ============================================
+-- Every request that reaches a payment callback (Paystack, M-Pesa, Airtel,
+-- account linking) is stored here verbatim before it is acted on, whether or
+-- not it passed verification. The log lets admins audit what providers sent
+-- and re-process an event, and the unique index on accepted events is what
+-- rejects replays of an event that was already received.
+-- ============================================
+
+-- 1. Raw event log
+CREATE TABLE IF NOT EXISTS public.webhook_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider TEXT NOT NULL,
+  event_id TEXT,
+  event_type TEXT,
+  raw_body TEXT NOT NULL,
+  headers JSONB NOT NULL DEFAULT '{}',
+  source_ip TEXT,
+  signature_valid BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processed', 'failed', 'rejected', 'duplicate')),
+  error TEXT,
+  reprocess_count INTEGER NOT NULL DEFAULT 0,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  processed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- 2. An event ID is accepted once per provider; rejected and duplicate
+--    deliveries are still logged but do not take the slot
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_events_accepted
+  ON public.webhook_events(provider, event_id)
+  WHERE status IN ('received', 'processed', 'failed');
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_received_at ON public.webhook_events(received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON public.webhook_events(status);
+
+-- 3. Admins can review the log; only the service role writes to it
+ALTER TABLE public.webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view webhook events"
+ON public.webhook_events FOR SELECT
+USING (is_admin());
+
+COMMENT ON TABLE public.webhook_events IS 'Raw log of every inbound payment webhook, used for auditing, replay protection and admin re-processing';
@@ -0,0 +1,610 @@
+-- ============================================
+-- PLATFORM FEE ENGINE
+-- ============================================
+-- quote_fee() is the single place a platform fee is worked out. Edge
+-- functions call it before charging and the quote-fee endpoint returns the
+-- same result to the UI, so the fee shown before a payment is the fee taken.
+--   * rules in fee_configurations can be scoped to a channel (mpesa, airtel,
+--     bank, card, paystack), a chama and a user tier; the most specific
+--     active rule wins
+--   * maximum_fee caps every fee type, and no fee exceeds the amount
+--   * fee_waivers grant full, percentage or fixed discounts for a date range
+-- calculate_transaction_fee() is kept for existing callers and now delegates
+-- to quote_fee().
+-- ============================================
+
+-- 1. Scope fee rules by channel, chama and user tier
+ALTER TABLE public.fee_configurations
+  ADD COLUMN IF NOT EXISTS channel VARCHAR,
+  ADD COLUMN IF NOT EXISTS chama_id UUID,
+  ADD COLUMN IF NOT EXISTS user_tier VARCHAR,
+  ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS description TEXT;
+
+-- One rule per transaction type and scope instead of one per transaction type
+ALTER TABLE public.fee_configurations DROP CONSTRAINT IF EXISTS fee_configurations_transaction_type_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fee_configurations_scope
+  ON public.fee_configurations(
+    transaction_type,
+    COALESCE(channel, ''),
+    COALESCE(chama_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(user_tier, '')
+  );
+
+CREATE POLICY "Admins can manage fee configurations"
+ON public.fee_configurations FOR ALL
+USING (is_admin())
+WITH CHECK (is_admin());
+
+-- 2. Promotional waivers
+CREATE TABLE IF NOT EXISTS public.fee_waivers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  transaction_type VARCHAR,
+  channel VARCHAR,
+  chama_id UUID,
+  user_id UUID,
+  user_tier VARCHAR,
+  discount_type VARCHAR NOT NULL DEFAULT 'full' CHECK (discount_type IN ('full', 'percentage', 'fixed')),
+  discount_value NUMERIC NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ends_at TIMESTAMP WITH TIME ZONE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT fee_waivers_valid_period CHECK (ends_at IS NULL OR ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fee_waivers_active ON public.fee_waivers(transaction_type, starts_at, ends_at) WHERE is_active = true;
+
+ALTER TABLE public.fee_waivers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view waivers that apply to them"
+ON public.fee_waivers FOR SELECT
+USING (is_active = true AND (user_id IS NULL OR user_id = auth.uid()));
+
+CREATE POLICY "Admins can manage fee waivers"
+ON public.fee_waivers FOR ALL
+USING (is_admin())
+WITH CHECK (is_admin());
+
+CREATE TRIGGER update_fee_waivers_updated_at
+  BEFORE UPDATE ON public.fee_waivers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 3. The pricing tier a user's fees are looked up under
+CREATE OR REPLACE FUNCTION public.get_user_fee_tier(p_user_id UUID)
+RETURNS VARCHAR
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT subscription_type
+      FROM public.premium_subscriptions
+      WHERE user_id = p_user_id
+        AND status = 'active'
+        AND (expires_at IS NULL OR expires_at > now())
+      ORDER BY created_at DESC
+      LIMIT 1
+    ),
+    'standard'
+  );
+$$;
+
+-- 4. Quote a fee
+CREATE OR REPLACE FUNCTION public.quote_fee(
+  p_transaction_type VARCHAR,
+  p_amount NUMERIC,
+  p_user_id UUID DEFAULT NULL,
+  p_channel VARCHAR DEFAULT NULL,
+  p_chama_id UUID DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tier VARCHAR;
+  v_config public.fee_configurations%ROWTYPE;
+  v_tier_rule JSONB;
+  v_waiver_id UUID;
+  v_waiver_name TEXT;
+  v_gross_fee NUMERIC := 0;
+  v_discount NUMERIC := 0;
+  v_fee NUMERIC;
+  v_capped BOOLEAN := false;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero';
+  END IF;
+
+  v_tier := CASE WHEN p_user_id IS NULL THEN 'standard' ELSE public.get_user_fee_tier(p_user_id) END;
+
+  -- The most specific matching rule wins: chama, then tier, then channel
+  SELECT * INTO v_config
+  FROM public.fee_configurations
+  WHERE transaction_type = p_transaction_type
+    AND is_active = true
+    AND (channel IS NULL OR channel = p_channel)
+    AND (chama_id IS NULL OR chama_id = p_chama_id)
+    AND (user_tier IS NULL OR user_tier = v_tier)
+  ORDER BY (chama_id IS NOT NULL) DESC,
+           (user_tier IS NOT NULL) DESC,
+           (channel IS NOT NULL) DESC,
+           priority DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    CASE v_config.fee_type
+      WHEN 'fixed' THEN
+        v_gross_fee := COALESCE(v_config.minimum_fee, 0);
+
+      WHEN 'percentage' THEN
+        v_gross_fee := GREATEST(p_amount * (COALESCE(v_config.percentage_rate, 0) / 100), COALESCE(v_config.minimum_fee, 0));
+
+      WHEN 'tiered' THEN
+        -- A tier charges a flat fee, a rate, or both
+        FOR v_tier_rule IN SELECT * FROM jsonb_array_elements(COALESCE(v_config.tiers, '[]'::jsonb))
+        LOOP
+          IF p_amount >= (v_tier_rule->>'min')::numeric AND
+             (v_tier_rule->>'max' IS NULL OR p_amount <= (v_tier_rule->>'max')::numeric) THEN
+            v_gross_fee := COALESCE((v_tier_rule->>'fee')::numeric, 0)
+              + p_amount * COALESCE((v_tier_rule->>'rate')::numeric, 0) / 100;
+            v_gross_fee := GREATEST(v_gross_fee, COALESCE((v_tier_rule->>'min_fee')::numeric, 0));
+            EXIT;
+          END IF;
+        END LOOP;
+      ELSE
+        v_gross_fee := 0;
+    END CASE;
+
+    IF v_config.maximum_fee IS NOT NULL AND v_gross_fee > v_config.maximum_fee THEN
+      v_gross_fee := v_config.maximum_fee;
+      v_capped := true;
+    END IF;
+  END IF;
+
+  IF v_gross_fee > p_amount THEN
+    v_gross_fee := p_amount;
+    v_capped := true;
+  END IF;
+
+  v_gross_fee := ROUND(v_gross_fee, 2);
+
+  -- Apply the most generous waiver running right now
+  IF v_gross_fee > 0 THEN
+    SELECT w.id,
+           w.name,
+           CASE w.discount_type
+             WHEN 'full' THEN v_gross_fee
+             WHEN 'percentage' THEN ROUND(v_gross_fee * LEAST(w.discount_value, 100) / 100, 2)
+             ELSE LEAST(w.discount_value, v_gross_fee)
+           END AS discount
+    INTO v_waiver_id, v_waiver_name, v_discount
+    FROM public.fee_waivers w
+    WHERE w.is_active = true
+      AND w.starts_at <= now()
+      AND (w.ends_at IS NULL OR w.ends_at > now())
+      AND (w.transaction_type IS NULL OR w.transaction_type = p_transaction_type)
+      AND (w.channel IS NULL OR w.channel = p_channel)
+      AND (w.chama_id IS NULL OR w.chama_id = p_chama_id)
+      AND (w.user_id IS NULL OR w.user_id = p_user_id)
+      AND (w.user_tier IS NULL OR w.user_tier = v_tier)
+    ORDER BY discount DESC, w.created_at
+    LIMIT 1;
+  END IF;
+
+  v_fee := v_gross_fee - COALESCE(v_discount, 0);
+
+  RETURN jsonb_build_object(
+    'transaction_type', p_transaction_type,
+    'amount', p_amount,
+    'channel', p_channel,
+    'chama_id', p_chama_id,
+    'user_tier', v_tier,
+    'gross_fee', v_gross_fee,
+    'discount', COALESCE(v_discount, 0),
+    'fee', v_fee,
+    'net_amount', p_amount - v_fee,
+    'total', p_amount + v_fee,
+    'capped', v_capped,
+    'configuration_id', v_config.id,
+    'fee_type', v_config.fee_type,
+    'percentage_rate', v_config.percentage_rate,
+    'minimum_fee', v_config.minimum_fee,
+    'maximum_fee', v_config.maximum_fee,
+    'waiver_id', v_waiver_id,
+    'waiver_name', v_waiver_name
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.quote_fee(VARCHAR, NUMERIC, UUID, VARCHAR, UUID) FROM PUBLIC, anon, authenticated;
+
+-- 5. Existing callers get the engine's fee for the signed-in user
+CREATE OR REPLACE FUNCTION public.calculate_transaction_fee(
+  p_transaction_type VARCHAR,
+  p_amount NUMERIC
+) RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  RETURN (public.quote_fee(p_transaction_type, p_amount, auth.uid()) ->> 'fee')::numeric;
+END;
+$$;
+
+-- 6. Per-channel withdrawal pricing, previously hard-coded in the app
+INSERT INTO public.fee_configurations (transaction_type, channel, fee_type, minimum_fee, maximum_fee, percentage_rate, tiers, description) VALUES
+('withdrawal', 'mpesa', 'tiered', 0, NULL, 0, '[
+  {"min": 0, "max": 100, "fee": 0},
+  {"min": 100.01, "max": 2500, "fee": 15},
+  {"min": 2500.01, "max": 3500, "fee": 25},
+  {"min": 3500.01, "max": 5000, "fee": 30},
+  {"min": 5000.01, "max": 7500, "fee": 45},
+  {"min": 7500.01, "max": 10000, "fee": 50},
+  {"min": 10000.01, "rate": 0.5, "min_fee": 50}
+]'::jsonb, 'M-Pesa withdrawals'),
+('withdrawal', 'airtel', 'tiered', 0, NULL, 0, '[
+  {"min": 0, "max": 100, "fee": 0},
+  {"min": 100.01, "max": 2500, "fee": 15},
+  {"min": 2500.01, "max": 5000, "fee": 30},
+  {"min": 5000.01, "rate": 0.5, "min_fee": 50}
+]'::jsonb, 'Airtel Money withdrawals'),
+('withdrawal', 'bank', 'percentage', 25, NULL, 0.1, '[]'::jsonb, 'Bank withdrawals')
+ON CONFLICT DO NOTHING;
+
+-- 7. Withdrawal requests are always priced by the engine, whatever the client sent
+CREATE OR REPLACE FUNCTION public.price_withdrawal_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.fee_amount := (public.quote_fee('withdrawal', NEW.amount, NEW.user_id, NEW.withdrawal_method) ->> 'fee')::numeric;
+  NEW.net_amount := NEW.amount - NEW.fee_amount;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS price_withdrawal_request ON public.withdrawal_requests;
+CREATE TRIGGER price_withdrawal_request
+  BEFORE INSERT ON public.withdrawal_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.price_withdrawal_request();
+
+-- 8. Paystack settlement charges the quoted fee instead of a flat 2.5%
+CREATE OR REPLACE FUNCTION public.credit_paystack_payment(
+  p_reference TEXT,
+  p_amount_paid NUMERIC,
+  p_channel TEXT DEFAULT NULL,
+  p_paid_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_provider_data JSONB DEFAULT '{}',
+  p_settled_by TEXT DEFAULT 'webhook'
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction RECORD;
+  v_wallet_id UUID;
+  v_quote JSONB;
+  v_platform_fee NUMERIC;
+  v_net_amount NUMERIC;
+  v_credited BOOLEAN := false;
+BEGIN
+  -- Lock the payment row so concurrent settlers queue up behind each other
+  SELECT * INTO v_transaction
+  FROM public.mpesa_transactions
+  WHERE checkout_request_id = p_reference
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Transaction not found');
+  END IF;
+
+  IF v_transaction.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_settled', true,
+      'status', v_transaction.status,
+      'user_id', v_transaction.user_id
+    );
+  END IF;
+
+  v_quote := public.quote_fee(
+    CASE WHEN v_transaction.purpose = 'contribution' THEN 'chama_contribution' ELSE 'wallet_topup' END,
+    p_amount_paid,
+    v_transaction.user_id,
+    'paystack',
+    v_transaction.chama_id
+  );
+  v_platform_fee := (v_quote ->> 'fee')::numeric;
+  v_net_amount := p_amount_paid - v_platform_fee;
+
+  IF v_transaction.purpose IN ('other', 'wallet_topup') THEN
+    INSERT INTO public.user_central_wallets (user_id, balance)
+    VALUES (v_transaction.user_id, 0)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    SELECT id INTO v_wallet_id
+    FROM public.user_central_wallets
+    WHERE user_id = v_transaction.user_id;
+
+    IF v_net_amount > 0 THEN
+      PERFORM public.post_ledger_transaction(
+        'user_deposit',
+        'external',
+        NULL,
+        'user_central_wallet',
+        v_wallet_id,
+        v_net_amount,
+        p_reference,
+        'Paystack ' || COALESCE(p_channel, '') || ' deposit',
+        jsonb_build_object('provider', 'paystack', 'channel', p_channel, 'user_id', v_transaction.user_id, 'settled_by', p_settled_by)
+      );
+    END IF;
+
+    INSERT INTO public.wallet_transactions (user_id, type, amount, description, status, reference_id, currency)
+    VALUES (
+      v_transaction.user_id,
+      'deposit',
+      v_net_amount,
+      'Wallet top-up via Paystack (Fee: KES ' || to_char(v_platform_fee, 'FM999999990.00') || ')',
+      'completed',
+      p_reference,
+      'KES'
+    );
+
+    v_credited := true;
+  END IF;
+
+  PERFORM public.collect_platform_fee(
+    v_transaction.user_id,
+    'transaction',
+    v_platform_fee,
+    NULL,
+    p_reference
+  );
+
+  UPDATE public.mpesa_transactions
+  SET status = 'success',
+      result_code = 0,
+      result_desc = 'Payment via ' || COALESCE(p_channel, 'paystack') || ' successful',
+      mpesa_receipt_number = p_reference,
+      transaction_date = COALESCE(p_paid_at, now()),
+      callback_data = COALESCE(callback_data, '{}'::jsonb) || jsonb_build_object('settled_by', p_settled_by, 'provider_data', p_provider_data, 'fee_quote', v_quote),
+      updated_at = now()
+  WHERE id = v_transaction.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'already_settled', false,
+    'credited', v_credited,
+    'user_id', v_transaction.user_id,
+    'chama_id', v_transaction.chama_id,
+    'purpose', v_transaction.purpose,
+    'amount', v_net_amount,
+    'fee', v_platform_fee
+  );
+END;
+$$;
+
+-- 9. M-Pesa settlement prices by channel, chama and the payer's tier
+CREATE OR REPLACE FUNCTION public.settle_mpesa_payment(
+  p_checkout_request_id TEXT,
+  p_result_code INTEGER,
+  p_result_desc TEXT,
+  p_receipt_number TEXT DEFAULT NULL,
+  p_amount NUMERIC DEFAULT NULL,
+  p_phone_number TEXT DEFAULT NULL,
+  p_transaction_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_callback_data JSONB DEFAULT '{}'
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction RECORD;
+  v_fee_type VARCHAR;
+  v_quote JSONB;
+  v_platform_fee NUMERIC;
+  v_net_amount NUMERIC;
+  v_wallet_id UUID;
+  v_member_id UUID;
+  v_routed_to TEXT;
+BEGIN
+  SELECT * INTO v_transaction
+  FROM public.mpesa_transactions
+  WHERE checkout_request_id = p_checkout_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Transaction not found');
+  END IF;
+
+  -- Safaricom retries callbacks; only the first one for a request counts
+  IF v_transaction.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_settled', true,
+      'status', v_transaction.status,
+      'user_id', v_transaction.user_id
+    );
+  END IF;
+
+  IF p_result_code <> 0 THEN
+    UPDATE public.mpesa_transactions
+    SET status = 'failed',
+        result_code = p_result_code,
+        result_desc = p_result_desc,
+        callback_data = p_callback_data,
+        updated_at = now()
+    WHERE id = v_transaction.id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_settled', false,
+      'outcome', 'failed',
+      'user_id', v_transaction.user_id,
+      'chama_id', v_transaction.chama_id,
+      'amount', v_transaction.amount
+    );
+  END IF;
+
+  -- The paid amount must match what was requested before any money moves
+  IF p_amount IS NULL OR p_amount <> v_transaction.amount THEN
+    UPDATE public.mpesa_transactions
+    SET status = 'amount_mismatch',
+        result_code = p_result_code,
+        result_desc = 'Paid amount ' || COALESCE(p_amount::TEXT, 'unknown') || ' does not match requested ' || v_transaction.amount,
+        mpesa_receipt_number = p_receipt_number,
+        transaction_date = p_transaction_date,
+        callback_data = p_callback_data,
+        updated_at = now()
+    WHERE id = v_transaction.id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_settled', false,
+      'outcome', 'amount_mismatch',
+      'user_id', v_transaction.user_id,
+      'chama_id', v_transaction.chama_id,
+      'amount', p_amount
+    );
+  END IF;
+
+  v_fee_type := CASE WHEN v_transaction.purpose = 'contribution' THEN 'chama_contribution' ELSE 'wallet_topup' END;
+  v_quote := public.quote_fee(v_fee_type, p_amount, v_transaction.user_id, 'mpesa', v_transaction.chama_id);
+  v_platform_fee := (v_quote ->> 'fee')::numeric;
+  v_net_amount := p_amount - v_platform_fee;
+
+  IF v_transaction.purpose = 'contribution' AND v_transaction.chama_id IS NOT NULL THEN
+    SELECT id INTO v_member_id
+    FROM public.chama_members
+    WHERE chama_id = v_transaction.chama_id
+      AND user_id = v_transaction.user_id
+      AND is_active = true;
+  END IF;
+
+  IF v_member_id IS NOT NULL THEN
+    SELECT id INTO v_wallet_id
+    FROM public.chama_central_wallets
+    WHERE chama_id = v_transaction.chama_id;
+
+    IF v_net_amount > 0 THEN
+      PERFORM public.post_ledger_transaction(
+        'chama_contribution',
+        'external',
+        NULL,
+        'chama_central_wallet',
+        v_wallet_id,
+        v_net_amount,
+        p_receipt_number,
+        'M-Pesa contribution',
+        jsonb_build_object('provider', 'mpesa', 'chama_id', v_transaction.chama_id, 'member_id', v_member_id, 'user_id', v_transaction.user_id)
+      );
+    END IF;
+
+    INSERT INTO public.chama_contributions_new (chama_id, member_id, amount, payment_method, payment_reference, status)
+    VALUES (v_transaction.chama_id, v_member_id, v_net_amount, 'mpesa', p_receipt_number, 'completed');
+
+    UPDATE public.chama_members
+    SET savings_balance = COALESCE(savings_balance, 0) + v_net_amount,
+        total_contributed = COALESCE(total_contributed, 0) + v_net_amount,
+        last_contribution_date = now()
+    WHERE id = v_member_id;
+
+    UPDATE public.chamas
+    SET total_savings = COALESCE(total_savings, 0) + v_net_amount
+    WHERE id = v_transaction.chama_id;
+
+    v_routed_to := 'chama';
+  ELSE
+    INSERT INTO public.user_central_wallets (user_id, balance)
+    VALUES (v_transaction.user_id, 0)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    SELECT id INTO v_wallet_id
+    FROM public.user_central_wallets
+    WHERE user_id = v_transaction.user_id;
+
+    IF v_net_amount > 0 THEN
+      PERFORM public.post_ledger_transaction(
+        'user_deposit',
+        'external',
+        NULL,
+        'user_central_wallet',
+        v_wallet_id,
+        v_net_amount,
+        p_receipt_number,
+        'M-Pesa deposit',
+        jsonb_build_object('provider', 'mpesa', 'purpose', v_transaction.purpose, 'user_id', v_transaction.user_id)
+      );
+    END IF;
+
+    INSERT INTO public.wallet_transactions (user_id, type, amount, description, status, reference_id, currency)
+    VALUES (
+      v_transaction.user_id,
+      'deposit',
+      v_net_amount,
+      'M-Pesa deposit (Fee: KES ' || to_char(v_platform_fee, 'FM999999990.00') || ')',
+      'completed',
+      p_receipt_number,
+      'KES'
+    );
+
+    v_routed_to := 'wallet';
+  END IF;
+
+  PERFORM public.collect_platform_fee(
+    v_transaction.user_id,
+    'transaction',
+    v_platform_fee,
+    NULL,
+    p_receipt_number
+  );
+
+  UPDATE public.mpesa_transactions
+  SET status = 'success',
+      result_code = p_result_code,
+      result_desc = p_result_desc,
+      mpesa_receipt_number = p_receipt_number,
+      transaction_date = COALESCE(p_transaction_date, now()),
+      phone_number = COALESCE(p_phone_number, phone_number),
+      callback_data = p_callback_data || jsonb_build_object('fee_quote', v_quote),
+      updated_at = now()
+  WHERE id = v_transaction.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'already_settled', false,
+    'outcome', 'credited',
+    'routed_to', v_routed_to,
+    'user_id', v_transaction.user_id,
+    'chama_id', v_transaction.chama_id,
+    'amount', v_net_amount,
+    'fee', v_platform_fee
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.quote_fee IS 'Quotes the platform fee for a transaction from the most specific active fee rule, applying caps and any running waiver';
+COMMENT ON TABLE public.fee_waivers IS 'Promotional fee discounts, optionally scoped to a transaction type, channel, chama, user or tier, for a date range';
@@ -0,0 +1,562 @@
+-- ============================================
+-- MERRY-GO-ROUND ROTATION ENGINE
+-- ============================================
+-- A merry-go-round cycle is a list of rounds, one per member, spaced by the
+-- chama's contribution_frequency. Each round collects what members actually
+-- contributed (chama_contributions_new) during its window and pays the pot to
+-- that round's recipient from the chama central wallet when it closes.
+--   * members who fell short either have the shortfall deducted from their
+--     savings into the pot ('deduct') or carried as arrears that are withheld
+--     from their own payout later ('defer'), per chamas.mgr_missed_policy
+--   * a member can ask to skip their turn (moving to the end of the cycle) or
+--     to swap turns with another member; a chama admin approves either
+--   * close_due_mgr_rounds() runs daily and closes every round that is due
+-- All functions are called by the manage-mgr-schedule edge function or by
+-- pg_cron, never directly by users.
+-- ============================================
+
+-- 1. How a chama treats members who have not contributed when a round closes
+ALTER TABLE public.chamas
+  ADD COLUMN IF NOT EXISTS mgr_missed_policy TEXT NOT NULL DEFAULT 'deduct'
+  CHECK (mgr_missed_policy IN ('deduct', 'defer'));
+
+-- 2. Rounds
+CREATE TABLE IF NOT EXISTS public.mgr_rounds (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  chama_id UUID NOT NULL REFERENCES public.chamas(id) ON DELETE CASCADE,
+  cycle_number INTEGER NOT NULL,
+  round_number INTEGER NOT NULL,
+  recipient_member_id UUID NOT NULL REFERENCES public.chama_members(id),
+  original_member_id UUID NOT NULL REFERENCES public.chama_members(id),
+  period_start DATE NOT NULL,
+  scheduled_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'paid', 'failed')),
+  expected_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  contributed_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  deducted_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  pot_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  arrears_withheld NUMERIC(15,2) NOT NULL DEFAULT 0,
+  payout_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  payout_transaction_id UUID,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  closed_by TEXT,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (chama_id, cycle_number, round_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mgr_rounds_due ON public.mgr_rounds(scheduled_date) WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_mgr_rounds_recipient ON public.mgr_rounds(recipient_member_id);
+
+-- 3. What each member owed and paid towards a round
+CREATE TABLE IF NOT EXISTS public.mgr_round_contributions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  round_id UUID NOT NULL REFERENCES public.mgr_rounds(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES public.chama_members(id),
+  expected_amount NUMERIC(15,2) NOT NULL,
+  contributed_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  deducted_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  deferred_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  status TEXT NOT NULL CHECK (status IN ('paid', 'deducted', 'deferred')),
+  arrears_settled_in_round_id UUID REFERENCES public.mgr_rounds(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (round_id, member_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mgr_round_contributions_arrears
+  ON public.mgr_round_contributions(member_id)
+  WHERE deferred_amount > 0 AND arrears_settled_in_round_id IS NULL;
+
+-- 4. Skip and swap requests
+CREATE TABLE IF NOT EXISTS public.mgr_turn_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  chama_id UUID NOT NULL REFERENCES public.chamas(id) ON DELETE CASCADE,
+  round_id UUID NOT NULL REFERENCES public.mgr_rounds(id) ON DELETE CASCADE,
+  requested_by UUID NOT NULL REFERENCES public.chama_members(id),
+  request_type TEXT NOT NULL CHECK (request_type IN ('skip', 'swap')),
+  swap_with_round_id UUID REFERENCES public.mgr_rounds(id) ON DELETE CASCADE,
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  reviewed_by UUID REFERENCES public.chama_members(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT mgr_turn_requests_swap_target CHECK ((request_type = 'swap') = (swap_with_round_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_mgr_turn_requests_chama ON public.mgr_turn_requests(chama_id, status);
+
+-- 5. Members can read their chama's rotation; all writes go through the functions below
+ALTER TABLE public.mgr_rounds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mgr_round_contributions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mgr_turn_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their chama rounds"
+ON public.mgr_rounds FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.chama_members cm
+  WHERE cm.chama_id = mgr_rounds.chama_id AND cm.user_id = auth.uid() AND cm.is_active = true
+));
+
+CREATE POLICY "Members can view their chama round contributions"
+ON public.mgr_round_contributions FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.mgr_rounds r
+  JOIN public.chama_members cm ON cm.chama_id = r.chama_id
+  WHERE r.id = mgr_round_contributions.round_id AND cm.user_id = auth.uid() AND cm.is_active = true
+));
+
+CREATE POLICY "Members can view their chama turn requests"
+ON public.mgr_turn_requests FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.chama_members cm
+  WHERE cm.chama_id = mgr_turn_requests.chama_id AND cm.user_id = auth.uid() AND cm.is_active = true
+));
+
+CREATE TRIGGER update_mgr_rounds_updated_at
+  BEFORE UPDATE ON public.mgr_rounds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 6. Length of one round for a contribution frequency
+CREATE OR REPLACE FUNCTION public.mgr_round_interval(p_frequency TEXT)
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE lower(COALESCE(p_frequency, 'monthly'))
+    WHEN 'daily' THEN INTERVAL '1 day'
+    WHEN 'weekly' THEN INTERVAL '7 days'
+    WHEN 'bi-weekly' THEN INTERVAL '14 days'
+    WHEN 'biweekly' THEN INTERVAL '14 days'
+    WHEN 'fortnightly' THEN INTERVAL '14 days'
+    WHEN 'quarterly' THEN INTERVAL '3 months'
+    ELSE INTERVAL '1 month'
+  END;
+$$;
+
+-- 7. Generate the next cycle, one round per active member
+CREATE OR REPLACE FUNCTION public.generate_mgr_schedule(
+  p_chama_id UUID,
+  p_start_date DATE,
+  p_member_order UUID[] DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_chama RECORD;
+  v_interval INTERVAL;
+  v_cycle INTEGER;
+  v_members UUID[];
+  v_round_date DATE;
+  i INTEGER;
+BEGIN
+  SELECT * INTO v_chama FROM public.chamas WHERE id = p_chama_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Chama not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.mgr_rounds WHERE chama_id = p_chama_id AND status = 'scheduled') THEN
+    RAISE EXCEPTION 'The current merry-go-round cycle still has rounds to close';
+  END IF;
+
+  IF p_start_date IS NULL OR p_start_date < current_date THEN
+    RAISE EXCEPTION 'The first payout date must be today or later';
+  END IF;
+
+  -- Use the admin's order when given, otherwise the existing turn order
+  IF p_member_order IS NOT NULL AND array_length(p_member_order, 1) > 0 THEN
+    IF (SELECT count(DISTINCT m) FROM unnest(p_member_order) m) <> array_length(p_member_order, 1)
+       OR EXISTS (
+         SELECT 1 FROM unnest(p_member_order) m
+         WHERE NOT EXISTS (
+           SELECT 1 FROM public.chama_members cm
+           WHERE cm.id = m AND cm.chama_id = p_chama_id AND cm.is_active = true
+         )
+       ) THEN
+      RAISE EXCEPTION 'Member order must list distinct active members of this chama';
+    END IF;
+    v_members := p_member_order;
+  ELSE
+    SELECT array_agg(id ORDER BY mgr_turn_order NULLS LAST, joined_at, id) INTO v_members
+    FROM public.chama_members
+    WHERE chama_id = p_chama_id AND is_active = true;
+  END IF;
+
+  IF v_members IS NULL OR array_length(v_members, 1) < 2 THEN
+    RAISE EXCEPTION 'A merry-go-round needs at least two active members';
+  END IF;
+
+  v_interval := public.mgr_round_interval(v_chama.contribution_frequency);
+
+  SELECT COALESCE(max(cycle_number), 0) + 1 INTO v_cycle
+  FROM public.mgr_rounds
+  WHERE chama_id = p_chama_id;
+
+  FOR i IN 1..array_length(v_members, 1) LOOP
+    v_round_date := (p_start_date + (i - 1) * v_interval)::date;
+
+    INSERT INTO public.mgr_rounds (
+      chama_id, cycle_number, round_number, recipient_member_id, original_member_id,
+      period_start, scheduled_date, expected_amount
+    ) VALUES (
+      p_chama_id, v_cycle, i, v_members[i], v_members[i],
+      (v_round_date - v_interval)::date, v_round_date, COALESCE(v_chama.contribution_amount, 0)
+    );
+
+    -- Keep the per-member turn fields in step for existing screens
+    UPDATE public.chama_members
+    SET mgr_turn_order = i,
+        mgr_turn_date = v_round_date
+    WHERE id = v_members[i];
+  END LOOP;
+
+  INSERT INTO public.chama_activities (chama_id, activity_type, description)
+  VALUES (p_chama_id, 'mgr_schedule_set', 'Merry-go-round cycle ' || v_cycle || ' scheduled with ' || array_length(v_members, 1) || ' rounds');
+
+  RETURN jsonb_build_object(
+    'cycle_number', v_cycle,
+    'rounds', array_length(v_members, 1),
+    'first_payout', p_start_date,
+    'last_payout', (p_start_date + (array_length(v_members, 1) - 1) * v_interval)::date
+  );
+END;
+$$;
+
+-- 8. Close a round: collect the pot, apply the missed-contribution policy and pay out
+CREATE OR REPLACE FUNCTION public.close_mgr_round(
+  p_round_id UUID,
+  p_closed_by TEXT DEFAULT 'schedule'
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_round RECORD;
+  v_chama RECORD;
+  v_member RECORD;
+  v_recipient RECORD;
+  v_contributed NUMERIC;
+  v_shortfall NUMERIC;
+  v_deducted NUMERIC;
+  v_deferred NUMERIC;
+  v_total_contributed NUMERIC := 0;
+  v_total_deducted NUMERIC := 0;
+  v_pot NUMERIC;
+  v_arrears NUMERIC;
+  v_payout NUMERIC;
+  v_chama_wallet_id UUID;
+  v_recipient_wallet_id UUID;
+  v_transfer JSONB;
+BEGIN
+  SELECT * INTO v_round FROM public.mgr_rounds WHERE id = p_round_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF v_round.status <> 'scheduled' THEN
+    RETURN jsonb_build_object('success', true, 'already_closed', true, 'status', v_round.status);
+  END IF;
+
+  IF v_round.scheduled_date > current_date THEN
+    RAISE EXCEPTION 'Round is not due until %', v_round.scheduled_date;
+  END IF;
+
+  -- Rounds close in order so every window is settled once
+  IF EXISTS (
+    SELECT 1 FROM public.mgr_rounds
+    WHERE chama_id = v_round.chama_id
+      AND status = 'scheduled'
+      AND (cycle_number, round_number) < (v_round.cycle_number, v_round.round_number)
+  ) THEN
+    RAISE EXCEPTION 'Earlier rounds must be closed first';
+  END IF;
+
+  SELECT * INTO v_chama FROM public.chamas WHERE id = v_round.chama_id FOR UPDATE;
+
+  FOR v_member IN
+    SELECT * FROM public.chama_members
+    WHERE chama_id = v_round.chama_id AND is_active = true
+    ORDER BY id
+    FOR UPDATE
+  LOOP
+    SELECT COALESCE(sum(amount), 0) INTO v_contributed
+    FROM public.chama_contributions_new
+    WHERE chama_id = v_round.chama_id
+      AND member_id = v_member.id
+      AND status = 'completed'
+      AND contribution_date::date > v_round.period_start
+      AND contribution_date::date <= v_round.scheduled_date;
+
+    v_shortfall := GREATEST(v_round.expected_amount - v_contributed, 0);
+    v_deducted := 0;
+    v_deferred := 0;
+
+    IF v_shortfall > 0 AND v_chama.mgr_missed_policy = 'deduct' THEN
+      -- Take what savings can cover; anything left becomes arrears
+      v_deducted := LEAST(v_shortfall, GREATEST(COALESCE(v_member.savings_balance, 0) - v_contributed, 0));
+      v_deferred := v_shortfall - v_deducted;
+    ELSIF v_shortfall > 0 THEN
+      v_deferred := v_shortfall;
+    END IF;
+
+    -- Money in the pot stops counting as the member's savings
+    UPDATE public.chama_members
+    SET savings_balance = GREATEST(COALESCE(savings_balance, 0) - v_contributed - v_deducted, 0)
+    WHERE id = v_member.id;
+
+    INSERT INTO public.mgr_round_contributions (
+      round_id, member_id, expected_amount, contributed_amount, deducted_amount, deferred_amount, status
+    ) VALUES (
+      v_round.id, v_member.id, v_round.expected_amount, v_contributed, v_deducted, v_deferred,
+      CASE WHEN v_deferred > 0 THEN 'deferred' WHEN v_deducted > 0 THEN 'deducted' ELSE 'paid' END
+    );
+
+    v_total_contributed := v_total_contributed + v_contributed;
+    v_total_deducted := v_total_deducted + v_deducted;
+  END LOOP;
+
+  v_pot := v_total_contributed + v_total_deducted;
+
+  -- The recipient's own unpaid arrears, including this round's, are withheld
+  SELECT * INTO v_recipient FROM public.chama_members WHERE id = v_round.recipient_member_id;
+
+  SELECT COALESCE(sum(deferred_amount), 0) INTO v_arrears
+  FROM public.mgr_round_contributions
+  WHERE member_id = v_round.recipient_member_id
+    AND deferred_amount > 0
+    AND arrears_settled_in_round_id IS NULL;
+
+  v_arrears := LEAST(v_arrears, v_pot);
+  v_payout := v_pot - v_arrears;
+
+  UPDATE public.mgr_round_contributions
+  SET arrears_settled_in_round_id = v_round.id
+  WHERE member_id = v_round.recipient_member_id
+    AND deferred_amount > 0
+    AND arrears_settled_in_round_id IS NULL;
+
+  IF v_payout > 0 THEN
+    SELECT id INTO v_chama_wallet_id FROM public.chama_central_wallets WHERE chama_id = v_round.chama_id;
+
+    INSERT INTO public.user_central_wallets (user_id, balance)
+    VALUES (v_recipient.user_id, 0)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    SELECT id INTO v_recipient_wallet_id FROM public.user_central_wallets WHERE user_id = v_recipient.user_id;
+
+    v_transfer := public.transfer_funds(
+      'mgr_payout',
+      'chama_central_wallet',
+      v_chama_wallet_id,
+      'user_central_wallet',
+      v_recipient_wallet_id,
+      v_payout,
+      'MGR-' || v_round.id,
+      'Merry-go-round payout, cycle ' || v_round.cycle_number || ' round ' || v_round.round_number,
+      jsonb_build_object('chama_id', v_round.chama_id, 'round_id', v_round.id, 'member_id', v_recipient.id),
+      jsonb_build_array(jsonb_build_object(
+        'user_id', v_recipient.user_id,
+        'type', 'mgr_payout',
+        'amount', v_payout,
+        'description', 'Merry-go-round payout from ' || v_chama.name
+      ))
+    );
+
+    UPDATE public.chamas
+    SET total_savings = GREATEST(COALESCE(total_savings, 0) - v_payout, 0)
+    WHERE id = v_round.chama_id;
+  END IF;
+
+  UPDATE public.mgr_rounds
+  SET status = 'paid',
+      contributed_amount = v_total_contributed,
+      deducted_amount = v_total_deducted,
+      pot_amount = v_pot,
+      arrears_withheld = v_arrears,
+      payout_amount = v_payout,
+      payout_transaction_id = (v_transfer ->> 'transaction_id')::uuid,
+      closed_at = now(),
+      closed_by = p_closed_by
+  WHERE id = v_round.id;
+
+  INSERT INTO public.chama_activities (chama_id, member_id, activity_type, description, amount)
+  VALUES (v_round.chama_id, v_recipient.id, 'mgr_payout', 'Received the merry-go-round pot for round ' || v_round.round_number, v_payout);
+
+  INSERT INTO public.chama_notifications (user_id, chama_id, type, title, message, metadata)
+  VALUES (
+    v_recipient.user_id,
+    v_round.chama_id,
+    'mgr_turn',
+    '🎯 Merry-go-round payout',
+    'KES ' || to_char(v_payout, 'FM999999990.00') || ' from ' || v_chama.name || ' has been paid to your wallet'
+      || CASE WHEN v_arrears > 0 THEN ' (KES ' || to_char(v_arrears, 'FM999999990.00') || ' withheld for missed contributions)' ELSE '' END,
+    jsonb_build_object('round_id', v_round.id, 'pot', v_pot, 'payout', v_payout, 'arrears_withheld', v_arrears)
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'already_closed', false,
+    'round_id', v_round.id,
+    'recipient_member_id', v_recipient.id,
+    'pot', v_pot,
+    'contributed', v_total_contributed,
+    'deducted', v_total_deducted,
+    'arrears_withheld', v_arrears,
+    'payout', v_payout
+  );
+END;
+$$;
+
+-- 9. Close every round that has reached its payout date (run daily)
+CREATE OR REPLACE FUNCTION public.close_due_mgr_rounds()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_round RECORD;
+  v_closed INTEGER := 0;
+BEGIN
+  FOR v_round IN
+    SELECT id FROM public.mgr_rounds
+    WHERE status = 'scheduled' AND scheduled_date <= current_date
+    ORDER BY chama_id, cycle_number, round_number
+  LOOP
+    BEGIN
+      PERFORM public.close_mgr_round(v_round.id, 'schedule');
+      v_closed := v_closed + 1;
+    EXCEPTION WHEN OTHERS THEN
+      -- One chama's problem (e.g. an empty wallet) must not hold up the rest
+      UPDATE public.mgr_rounds SET error = SQLERRM WHERE id = v_round.id;
+    END;
+  END LOOP;
+
+  RETURN v_closed;
+END;
+$$;
+
+-- 10. Approve or reject a skip or swap request
+CREATE OR REPLACE FUNCTION public.review_mgr_turn_request(
+  p_request_id UUID,
+  p_approve BOOLEAN,
+  p_reviewer_member_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request RECORD;
+  v_round RECORD;
+  v_other RECORD;
+  v_recipients UUID[];
+  v_round_ids UUID[];
+  i INTEGER;
+BEGIN
+  SELECT * INTO v_request FROM public.mgr_turn_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Request has already been %', v_request.status;
+  END IF;
+
+  IF NOT p_approve THEN
+    UPDATE public.mgr_turn_requests
+    SET status = 'rejected', reviewed_by = p_reviewer_member_id, reviewed_at = now()
+    WHERE id = p_request_id;
+    RETURN jsonb_build_object('status', 'rejected');
+  END IF;
+
+  SELECT * INTO v_round FROM public.mgr_rounds WHERE id = v_request.round_id FOR UPDATE;
+  IF v_round.status <> 'scheduled' OR v_round.recipient_member_id <> v_request.requested_by THEN
+    RAISE EXCEPTION 'The requested turn is no longer open';
+  END IF;
+
+  IF v_request.request_type = 'swap' THEN
+    SELECT * INTO v_other FROM public.mgr_rounds WHERE id = v_request.swap_with_round_id FOR UPDATE;
+    IF v_other.status <> 'scheduled' OR v_other.chama_id <> v_round.chama_id THEN
+      RAISE EXCEPTION 'The turn to swap with is no longer open';
+    END IF;
+
+    UPDATE public.mgr_rounds SET recipient_member_id = v_other.recipient_member_id WHERE id = v_round.id;
+    UPDATE public.mgr_rounds SET recipient_member_id = v_round.recipient_member_id WHERE id = v_other.id;
+  ELSE
+    -- Skipping moves the member to the last round of the cycle; everyone
+    -- after them moves up one turn and keeps the existing dates
+    SELECT array_agg(recipient_member_id ORDER BY round_number), array_agg(id ORDER BY round_number)
+    INTO v_recipients, v_round_ids
+    FROM public.mgr_rounds
+    WHERE chama_id = v_round.chama_id
+      AND cycle_number = v_round.cycle_number
+      AND round_number >= v_round.round_number
+      AND status = 'scheduled';
+
+    IF array_length(v_round_ids, 1) < 2 THEN
+      RAISE EXCEPTION 'The last turn of a cycle cannot be skipped';
+    END IF;
+
+    v_recipients := v_recipients[2:] || v_recipients[1];
+    FOR i IN 1..array_length(v_round_ids, 1) LOOP
+      UPDATE public.mgr_rounds SET recipient_member_id = v_recipients[i] WHERE id = v_round_ids[i];
+    END LOOP;
+  END IF;
+
+  -- Keep the per-member turn fields in step with the new order
+  UPDATE public.chama_members cm
+  SET mgr_turn_order = r.round_number,
+      mgr_turn_date = r.scheduled_date
+  FROM public.mgr_rounds r
+  WHERE r.recipient_member_id = cm.id
+    AND r.chama_id = v_round.chama_id
+    AND r.cycle_number = v_round.cycle_number;
+
+  UPDATE public.mgr_turn_requests
+  SET status = 'approved', reviewed_by = p_reviewer_member_id, reviewed_at = now()
+  WHERE id = p_request_id;
+
+  -- Other pending requests against the rounds that just changed are now stale
+  UPDATE public.mgr_turn_requests
+  SET status = 'cancelled', reviewed_at = now()
+  WHERE status = 'pending'
+    AND id <> p_request_id
+    AND chama_id = v_round.chama_id
+    AND (round_id IN (v_request.round_id, v_request.swap_with_round_id)
+         OR swap_with_round_id IN (v_request.round_id, v_request.swap_with_round_id)
+         OR v_request.request_type = 'skip');
+
+  INSERT INTO public.chama_activities (chama_id, member_id, activity_type, description)
+  VALUES (
+    v_round.chama_id,
+    v_request.requested_by,
+    'mgr_turn_' || v_request.request_type,
+    CASE WHEN v_request.request_type = 'skip' THEN 'Skipped their merry-go-round turn' ELSE 'Swapped merry-go-round turns' END
+  );
+
+  RETURN jsonb_build_object('status', 'approved', 'request_type', v_request.request_type);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_mgr_schedule(UUID, DATE, UUID[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.close_mgr_round(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.close_due_mgr_rounds() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.review_mgr_turn_request(UUID, BOOLEAN, UUID) FROM PUBLIC, anon, authenticated;
+
+-- 11. Close due rounds every morning (06:00 EAT)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'close-due-mgr-rounds',
+  '0 3 * * *',
+  $$SELECT public.close_due_mgr_rounds();$$
+);
+
+COMMENT ON TABLE public.mgr_rounds IS 'Merry-go-round rounds: who receives each pot, when, and what was collected and paid';
+COMMENT ON TABLE public.mgr_round_contributions IS 'Per-member outcome of a closed merry-go-round round, including deducted and deferred shortfalls';
+COMMENT ON TABLE public.mgr_turn_requests IS 'Member requests to skip or swap a merry-go-round turn, approved by a chama admin';
@@ -0,0 +1,423 @@
+-- ============================================
+-- LOAN ARREARS AGEING AND LATE-PAYMENT PENALTIES
+-- ============================================
+-- age_loan_arrears() runs daily and, for every unpaid instalment past its
+-- due date:
+--   * records how many days it is overdue and its ageing bucket
+--     (current, 1-30, 31-60, 61-90, 90+)
+--   * charges the late-payment penalty policy that applies to the loan:
+--     the chama's chama_settings.late_payment_penalty for chama loans,
+--     otherwise the platform 'late_payment_penalty' row in loan_policies
+--   * notifies the borrower and any guarantors when the instalment moves
+--     into a worse bucket or a penalty is charged
+-- Personal loans are aged per instalment (loan_repayments). Chama loans have
+-- no instalments yet and are aged as a whole against chama_loans.due_date.
+-- get_loan_arrears_ageing() feeds the ageing report for platform admins and
+-- chama officers.
+-- ============================================
+
+-- 1. Ageing and penalty state on instalments and chama loans
+ALTER TABLE public.loan_repayments
+  ADD COLUMN IF NOT EXISTS due_date DATE,
+  ADD COLUMN IF NOT EXISTS payment_amount NUMERIC(15,2),
+  ADD COLUMN IF NOT EXISTS amount_paid NUMERIC(15,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS penalty_amount NUMERIC(15,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS penalty_periods INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS days_overdue INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS ageing_bucket TEXT NOT NULL DEFAULT 'current',
+  ADD COLUMN IF NOT EXISTS aged_at DATE;
+
+ALTER TABLE public.chama_loans
+  ADD COLUMN IF NOT EXISTS penalty_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS penalty_periods INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS days_overdue INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS ageing_bucket TEXT NOT NULL DEFAULT 'current',
+  ADD COLUMN IF NOT EXISTS aged_at DATE;
+
+CREATE INDEX IF NOT EXISTS idx_loan_repayments_overdue
+  ON public.loan_repayments(due_date)
+  WHERE status IS DISTINCT FROM 'paid';
+
+-- 2. Every penalty charge, one per instalment per day at most
+CREATE TABLE IF NOT EXISTS public.loan_penalty_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  loan_repayment_id UUID REFERENCES public.loan_repayments(id) ON DELETE CASCADE,
+  chama_loan_id UUID REFERENCES public.chama_loans(id) ON DELETE CASCADE,
+  applied_on DATE NOT NULL DEFAULT current_date,
+  days_overdue INTEGER NOT NULL,
+  ageing_bucket TEXT NOT NULL,
+  periods INTEGER NOT NULL,
+  amount NUMERIC(15,2) NOT NULL,
+  policy JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT loan_penalty_events_one_target CHECK ((loan_repayment_id IS NULL) <> (chama_loan_id IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loan_penalty_events_instalment_day
+  ON public.loan_penalty_events(loan_repayment_id, applied_on) WHERE loan_repayment_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loan_penalty_events_chama_loan_day
+  ON public.loan_penalty_events(chama_loan_id, applied_on) WHERE chama_loan_id IS NOT NULL;
+
+ALTER TABLE public.loan_penalty_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view penalty events"
+ON public.loan_penalty_events FOR SELECT
+USING (is_admin());
+
+CREATE POLICY "Chama officers can view their chama penalty events"
+ON public.loan_penalty_events FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.chama_loans cl
+  WHERE cl.id = loan_penalty_events.chama_loan_id
+    AND is_chama_admin_or_treasurer(cl.chama_id)
+));
+
+-- 3. Default platform penalty policy, used when a chama has not set its own
+INSERT INTO public.loan_policies (policy_type, policy_value, is_active)
+SELECT 'late_payment_penalty',
+       '{"type": "percentage", "rate": 5, "grace_days": 3, "frequency": "monthly", "max_penalty_percent": 25}'::jsonb,
+       true
+WHERE NOT EXISTS (SELECT 1 FROM public.loan_policies WHERE policy_type = 'late_payment_penalty');
+
+-- 4. Ageing bucket for a number of days overdue
+CREATE OR REPLACE FUNCTION public.loan_ageing_bucket(p_days_overdue INTEGER)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN COALESCE(p_days_overdue, 0) <= 0 THEN 'current'
+    WHEN p_days_overdue <= 30 THEN '1-30'
+    WHEN p_days_overdue <= 60 THEN '31-60'
+    WHEN p_days_overdue <= 90 THEN '61-90'
+    ELSE '90+'
+  END;
+$$;
+
+-- 5. Penalty policy for a loan: the chama's own rate, else the platform policy
+CREATE OR REPLACE FUNCTION public.get_late_penalty_policy(p_chama_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_platform JSONB;
+  v_chama_rate NUMERIC;
+BEGIN
+  SELECT policy_value INTO v_platform
+  FROM public.loan_policies
+  WHERE policy_type = 'late_payment_penalty' AND is_active = true
+  ORDER BY updated_at DESC NULLS LAST
+  LIMIT 1;
+
+  v_platform := COALESCE(v_platform, '{"type": "percentage", "rate": 0, "grace_days": 0, "frequency": "monthly"}'::jsonb)
+    || jsonb_build_object('source', 'loan_policies');
+
+  IF p_chama_id IS NOT NULL THEN
+    SELECT late_payment_penalty INTO v_chama_rate
+    FROM public.chama_settings
+    WHERE chama_id = p_chama_id;
+
+    -- A chama sets a percentage rate; grace and cap follow the platform policy
+    IF v_chama_rate IS NOT NULL AND v_chama_rate > 0 THEN
+      RETURN v_platform || jsonb_build_object('type', 'percentage', 'rate', v_chama_rate, 'source', 'chama_settings');
+    END IF;
+  END IF;
+
+  RETURN v_platform;
+END;
+$$;
+
+-- 6. Penalty periods owed after a number of days overdue
+CREATE OR REPLACE FUNCTION public.loan_penalty_periods(p_days_overdue INTEGER, p_policy JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_days INTEGER := p_days_overdue - COALESCE((p_policy ->> 'grace_days')::int, 0);
+BEGIN
+  IF v_days <= 0 OR COALESCE((p_policy ->> 'rate')::numeric, 0) <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  RETURN CASE COALESCE(p_policy ->> 'frequency', 'monthly')
+    WHEN 'once' THEN 1
+    WHEN 'daily' THEN v_days
+    ELSE 1 + (v_days - 1) / 30
+  END;
+END;
+$$;
+
+-- 7. Charge for a number of penalty periods, capped at max_penalty_percent of the base
+CREATE OR REPLACE FUNCTION public.loan_penalty_charge(
+  p_policy JSONB,
+  p_periods INTEGER,
+  p_overdue NUMERIC,
+  p_base NUMERIC,
+  p_already_charged NUMERIC
+) RETURNS NUMERIC
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_charge NUMERIC;
+  v_cap NUMERIC;
+BEGIN
+  IF p_periods <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  IF p_policy ->> 'type' = 'fixed' THEN
+    v_charge := (p_policy ->> 'rate')::numeric * p_periods;
+  ELSE
+    v_charge := round(GREATEST(p_overdue, 0) * (p_policy ->> 'rate')::numeric / 100, 2) * p_periods;
+  END IF;
+
+  IF p_policy ? 'max_penalty_percent' THEN
+    v_cap := round(p_base * (p_policy ->> 'max_penalty_percent')::numeric / 100, 2);
+    v_charge := LEAST(v_charge, GREATEST(v_cap - COALESCE(p_already_charged, 0), 0));
+  END IF;
+
+  RETURN GREATEST(v_charge, 0);
+END;
+$$;
+
+-- 8. Guarantors recorded on a personal loan application (user IDs or {user_id} objects)
+CREATE OR REPLACE FUNCTION public.loan_application_guarantor_ids(p_application_id UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT (COALESCE(g ->> 'user_id', g #>> '{}'))::uuid
+  FROM public.loan_applications la,
+       jsonb_array_elements(CASE WHEN jsonb_typeof(la.guarantors::jsonb) = 'array' THEN la.guarantors::jsonb ELSE '[]'::jsonb END) g
+  WHERE la.id = p_application_id
+    AND COALESCE(g ->> 'user_id', g #>> '{}') ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+$$;
+
+-- 9. Daily ageing run
+CREATE OR REPLACE FUNCTION public.age_loan_arrears()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row RECORD;
+  v_policy JSONB;
+  v_days INTEGER;
+  v_bucket TEXT;
+  v_outstanding NUMERIC;
+  v_periods INTEGER;
+  v_charge NUMERIC;
+  v_message TEXT;
+  v_aged INTEGER := 0;
+  v_penalised INTEGER := 0;
+  v_notified INTEGER := 0;
+  v_guarantor UUID;
+BEGIN
+  v_policy := public.get_late_penalty_policy(NULL);
+
+  -- Personal loan instalments
+  FOR v_row IN
+    SELECT lr.*, la.borrower_id
+    FROM public.loan_repayments lr
+    JOIN public.loan_applications la ON la.id = lr.loan_application_id
+    WHERE lr.due_date IS NOT NULL
+      AND COALESCE(lr.status, 'pending') NOT IN ('paid', 'completed', 'cancelled')
+      AND (lr.aged_at IS NULL OR lr.aged_at < current_date)
+    FOR UPDATE OF lr
+  LOOP
+    v_days := GREATEST(current_date - v_row.due_date, 0);
+    v_bucket := public.loan_ageing_bucket(v_days);
+    v_outstanding := GREATEST(COALESCE(v_row.payment_amount, v_row.amount, 0) - COALESCE(v_row.amount_paid, 0), 0);
+    v_periods := public.loan_penalty_periods(v_days, v_policy) - v_row.penalty_periods;
+    v_charge := CASE WHEN v_periods > 0 AND v_outstanding > 0
+      THEN public.loan_penalty_charge(v_policy, v_periods, v_outstanding, COALESCE(v_row.payment_amount, v_row.amount, 0), v_row.penalty_amount)
+      ELSE 0 END;
+
+    UPDATE public.loan_repayments
+    SET days_overdue = v_days,
+        ageing_bucket = v_bucket,
+        aged_at = current_date,
+        status = CASE WHEN v_days > 0 THEN 'overdue' ELSE status END,
+        penalty_amount = COALESCE(penalty_amount, 0) + v_charge,
+        penalty_periods = penalty_periods + GREATEST(v_periods, 0)
+    WHERE id = v_row.id;
+    v_aged := v_aged + 1;
+
+    IF v_charge > 0 THEN
+      INSERT INTO public.loan_penalty_events (loan_repayment_id, days_overdue, ageing_bucket, periods, amount, policy)
+      VALUES (v_row.id, v_days, v_bucket, v_periods, v_charge, v_policy);
+      v_penalised := v_penalised + 1;
+    END IF;
+
+    IF v_bucket <> 'current' AND (v_bucket <> v_row.ageing_bucket OR v_charge > 0) THEN
+      v_message := 'Your loan instalment due ' || to_char(v_row.due_date, 'DD Mon YYYY') || ' is ' || v_days || ' days overdue (KES '
+        || to_char(v_outstanding, 'FM999999990.00') || ' unpaid)'
+        || CASE WHEN v_charge > 0 THEN '. A late penalty of KES ' || to_char(v_charge, 'FM999999990.00') || ' has been added.' ELSE '.' END;
+
+      INSERT INTO public.loan_notifications (user_id, loan_application_id, notification_type, title, message, sent_at)
+      VALUES (v_row.borrower_id, v_row.loan_application_id, 'arrears', 'Loan repayment overdue', v_message, now());
+
+      FOR v_guarantor IN SELECT public.loan_application_guarantor_ids(v_row.loan_application_id) LOOP
+        INSERT INTO public.loan_notifications (user_id, loan_application_id, notification_type, title, message, sent_at)
+        VALUES (
+          v_guarantor, v_row.loan_application_id, 'guarantor_arrears', 'A loan you guaranteed is overdue',
+          'An instalment on a loan you guaranteed is ' || v_days || ' days overdue (KES ' || to_char(v_outstanding, 'FM999999990.00') || ' unpaid).',
+          now()
+        );
+      END LOOP;
+      v_notified := v_notified + 1;
+    END IF;
+  END LOOP;
+
+  -- Chama loans, aged as a whole against their due date
+  FOR v_row IN
+    SELECT cl.*, cm.user_id AS borrower_user_id
+    FROM public.chama_loans cl
+    JOIN public.chama_members cm ON cm.id = cl.borrower_id
+    WHERE cl.status = 'active'
+      AND cl.due_date IS NOT NULL
+      AND (cl.aged_at IS NULL OR cl.aged_at < current_date)
+    FOR UPDATE OF cl
+  LOOP
+    v_policy := public.get_late_penalty_policy(v_row.chama_id);
+    v_days := GREATEST(current_date - v_row.due_date::date, 0);
+    v_bucket := public.loan_ageing_bucket(v_days);
+    v_outstanding := GREATEST(v_row.amount * (1 + COALESCE(v_row.interest_rate, 0) / 100) - COALESCE(v_row.repaid_amount, 0), 0);
+    v_periods := public.loan_penalty_periods(v_days, v_policy) - v_row.penalty_periods;
+    v_charge := CASE WHEN v_periods > 0 AND v_outstanding > 0
+      THEN public.loan_penalty_charge(v_policy, v_periods, v_outstanding, v_row.amount, v_row.penalty_amount)
+      ELSE 0 END;
+
+    UPDATE public.chama_loans
+    SET days_overdue = v_days,
+        ageing_bucket = v_bucket,
+        aged_at = current_date,
+        penalty_amount = penalty_amount + v_charge,
+        penalty_periods = penalty_periods + GREATEST(v_periods, 0)
+    WHERE id = v_row.id;
+    v_aged := v_aged + 1;
+
+    IF v_charge > 0 THEN
+      INSERT INTO public.loan_penalty_events (chama_loan_id, days_overdue, ageing_bucket, periods, amount, policy)
+      VALUES (v_row.id, v_days, v_bucket, v_periods, v_charge, v_policy);
+      v_penalised := v_penalised + 1;
+    END IF;
+
+    IF v_bucket <> 'current' AND (v_bucket <> v_row.ageing_bucket OR v_charge > 0) THEN
+      INSERT INTO public.chama_notifications (user_id, chama_id, type, title, message, metadata)
+      VALUES (
+        v_row.borrower_user_id,
+        v_row.chama_id,
+        'loan_arrears',
+        'Loan repayment overdue',
+        'Your chama loan is ' || v_days || ' days overdue (KES ' || to_char(v_outstanding, 'FM999999990.00') || ' unpaid)'
+          || CASE WHEN v_charge > 0 THEN '. A late penalty of KES ' || to_char(v_charge, 'FM999999990.00') || ' has been added.' ELSE '.' END,
+        jsonb_build_object('loan_id', v_row.id, 'days_overdue', v_days, 'ageing_bucket', v_bucket, 'penalty', v_charge)
+      );
+      v_notified := v_notified + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('aged', v_aged, 'penalised', v_penalised, 'notified', v_notified);
+END;
+$$;
+
+-- 10. Arrears ageing report: all loans for platform admins, one chama for its officers
+CREATE OR REPLACE FUNCTION public.get_loan_arrears_ageing(p_chama_id UUID DEFAULT NULL)
+RETURNS TABLE(
+  loan_id UUID,
+  loan_type TEXT,
+  chama_id UUID,
+  chama_name TEXT,
+  borrower_name TEXT,
+  outstanding_amount NUMERIC,
+  overdue_amount NUMERIC,
+  penalty_amount NUMERIC,
+  days_overdue INTEGER,
+  ageing_bucket TEXT,
+  oldest_due_date DATE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_chama_id IS NULL AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Access denied. Admin role required.';
+  END IF;
+
+  IF p_chama_id IS NOT NULL AND NOT (is_admin() OR is_chama_admin_or_treasurer(p_chama_id)) THEN
+    RAISE EXCEPTION 'Access denied. Chama admin or treasurer role required.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    la.id,
+    'personal'::text,
+    NULL::uuid,
+    NULL::text,
+    COALESCE(p.full_name, 'Unknown')::text,
+    sum(GREATEST(COALESCE(lr.payment_amount, lr.amount, 0) - COALESCE(lr.amount_paid, 0), 0)),
+    sum(GREATEST(COALESCE(lr.payment_amount, lr.amount, 0) - COALESCE(lr.amount_paid, 0), 0)) FILTER (WHERE lr.due_date < current_date),
+    sum(COALESCE(lr.penalty_amount, 0)),
+    max(lr.days_overdue),
+    public.loan_ageing_bucket(max(lr.days_overdue)),
+    min(lr.due_date) FILTER (WHERE lr.due_date < current_date)
+  FROM public.loan_repayments lr
+  JOIN public.loan_applications la ON la.id = lr.loan_application_id
+  LEFT JOIN public.profiles p ON p.user_id = la.borrower_id
+  WHERE p_chama_id IS NULL
+    AND COALESCE(lr.status, 'pending') NOT IN ('paid', 'completed', 'cancelled')
+  GROUP BY la.id, p.full_name
+
+  UNION ALL
+
+  SELECT
+    cl.id,
+    'chama'::text,
+    cl.chama_id,
+    c.name::text,
+    COALESCE(p.full_name, 'Unknown')::text,
+    round(GREATEST(cl.amount * (1 + COALESCE(cl.interest_rate, 0) / 100) - COALESCE(cl.repaid_amount, 0), 0), 2),
+    CASE WHEN cl.due_date::date < current_date
+      THEN round(GREATEST(cl.amount * (1 + COALESCE(cl.interest_rate, 0) / 100) - COALESCE(cl.repaid_amount, 0), 0), 2)
+      ELSE 0 END,
+    cl.penalty_amount,
+    cl.days_overdue,
+    cl.ageing_bucket,
+    CASE WHEN cl.due_date::date < current_date THEN cl.due_date::date END
+  FROM public.chama_loans cl
+  JOIN public.chamas c ON c.id = cl.chama_id
+  LEFT JOIN public.chama_members cm ON cm.id = cl.borrower_id
+  LEFT JOIN public.profiles p ON p.user_id = cm.user_id
+  WHERE cl.status = 'active'
+    AND (p_chama_id IS NULL OR cl.chama_id = p_chama_id)
+
+  ORDER BY 9 DESC, 6 DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.age_loan_arrears() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_loan_arrears_ageing(UUID) TO authenticated;
+
+-- 11. Age arrears every morning (05:30 EAT)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'age-loan-arrears',
+  '30 2 * * *',
+  $$SELECT public.age_loan_arrears();$$
+);
+
+COMMENT ON TABLE public.loan_penalty_events IS 'Late-payment penalties charged by age_loan_arrears(), with the policy that priced them';
+COMMENT ON FUNCTION public.age_loan_arrears() IS 'Daily job: ages overdue instalments and chama loans, charges penalties and notifies borrowers and guarantors';
+COMMENT ON FUNCTION public.get_loan_arrears_ageing(UUID) IS 'Arrears ageing report by loan; all loans for admins, one chama for its officers';
@@ -0,0 +1,528 @@
+-- ============================================
+-- LOAN REPAYMENT SCHEDULES
+-- ============================================
+-- build_loan_schedule() is the one amortization routine for personal, peer
+-- (marketplace) and chama loans. It supports:
+--   * flat           - interest on the original principal for the whole
+--                      term, spread evenly (the usual chama loan)
+--   * reducing_balance - equal instalments, interest on the balance
+--   * interest_only  - interest each period, principal as a final balloon
+-- paid weekly, bi-weekly or monthly. Rates are annual percentages.
+-- Personal and peer loans get loan_repayments rows at disbursement via
+-- generate_repayment_schedule(); chama loans keep their schedule in
+-- chama_loans.repayment_schedule, set when the loan is requested and
+-- re-dated when it goes active. Chama loan arrears are now aged against the
+-- oldest unpaid instalment instead of the final due date.
+-- ============================================
+
+-- 1. Amortization settings on loans
+ALTER TABLE public.loan_applications
+  ADD COLUMN IF NOT EXISTS amortization_method TEXT NOT NULL DEFAULT 'reducing_balance',
+  ADD COLUMN IF NOT EXISTS repayment_frequency TEXT NOT NULL DEFAULT 'monthly';
+
+ALTER TABLE public.chama_loans
+  ADD COLUMN IF NOT EXISTS amortization_method TEXT NOT NULL DEFAULT 'flat',
+  ADD COLUMN IF NOT EXISTS repayment_frequency TEXT NOT NULL DEFAULT 'monthly',
+  ADD COLUMN IF NOT EXISTS total_repayable NUMERIC(15,2);
+
+ALTER TABLE public.loan_applications
+  ADD CONSTRAINT loan_applications_amortization_method_check
+    CHECK (amortization_method IN ('flat', 'reducing_balance', 'interest_only')),
+  ADD CONSTRAINT loan_applications_repayment_frequency_check
+    CHECK (repayment_frequency IN ('weekly', 'bi_weekly', 'monthly'));
+
+ALTER TABLE public.chama_loans
+  ADD CONSTRAINT chama_loans_amortization_method_check
+    CHECK (amortization_method IN ('flat', 'reducing_balance', 'interest_only')),
+  ADD CONSTRAINT chama_loans_repayment_frequency_check
+    CHECK (repayment_frequency IN ('weekly', 'bi_weekly', 'monthly'));
+
+ALTER TABLE public.loan_repayments
+  ADD COLUMN IF NOT EXISTS payment_number INTEGER,
+  ADD COLUMN IF NOT EXISTS principal_amount NUMERIC(15,2),
+  ADD COLUMN IF NOT EXISTS interest_amount NUMERIC(15,2),
+  ADD COLUMN IF NOT EXISTS remaining_balance NUMERIC(15,2);
+
+-- 2. The schedule generator
+CREATE OR REPLACE FUNCTION public.build_loan_schedule(
+  p_principal NUMERIC,
+  p_annual_rate NUMERIC,
+  p_term_months INTEGER,
+  p_method TEXT DEFAULT 'reducing_balance',
+  p_frequency TEXT DEFAULT 'monthly',
+  p_start_date DATE DEFAULT current_date
+) RETURNS TABLE(
+  payment_number INTEGER,
+  due_date DATE,
+  payment_amount NUMERIC,
+  principal_amount NUMERIC,
+  interest_amount NUMERIC,
+  remaining_balance NUMERIC
+)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_per_year INTEGER;
+  v_count INTEGER;
+  v_rate NUMERIC;
+  v_balance NUMERIC := round(p_principal, 2);
+  v_instalment NUMERIC;
+  v_flat_interest NUMERIC;
+  v_interest NUMERIC;
+  v_principal NUMERIC;
+BEGIN
+  IF p_principal IS NULL OR p_principal <= 0 OR p_term_months IS NULL OR p_term_months <= 0 THEN
+    RAISE EXCEPTION 'Loan amount and term must be positive';
+  END IF;
+
+  IF p_method NOT IN ('flat', 'reducing_balance', 'interest_only') THEN
+    RAISE EXCEPTION 'Unknown amortization method: %', p_method;
+  END IF;
+
+  v_per_year := CASE p_frequency
+    WHEN 'weekly' THEN 52
+    WHEN 'bi_weekly' THEN 26
+    WHEN 'monthly' THEN 12
+  END;
+
+  IF v_per_year IS NULL THEN
+    RAISE EXCEPTION 'Unknown repayment frequency: %', p_frequency;
+  END IF;
+
+  v_count := ceil(p_term_months * v_per_year / 12.0)::int;
+  v_rate := COALESCE(p_annual_rate, 0) / 100 / v_per_year;
+  v_flat_interest := round(v_balance * COALESCE(p_annual_rate, 0) / 100 * p_term_months / 12.0, 2);
+
+  IF p_method = 'reducing_balance' THEN
+    v_instalment := CASE WHEN v_rate = 0
+      THEN round(v_balance / v_count, 2)
+      ELSE round(v_balance * v_rate / (1 - power(1 + v_rate, -v_count)), 2)
+    END;
+  END IF;
+
+  FOR i IN 1..v_count LOOP
+    IF p_method = 'flat' THEN
+      -- Even shares, with rounding settled on the last instalment
+      v_interest := CASE WHEN i = v_count
+        THEN v_flat_interest - round(v_flat_interest / v_count, 2) * (v_count - 1)
+        ELSE round(v_flat_interest / v_count, 2) END;
+      v_principal := CASE WHEN i = v_count THEN v_balance ELSE round(p_principal / v_count, 2) END;
+    ELSIF p_method = 'interest_only' THEN
+      v_interest := round(v_balance * v_rate, 2);
+      v_principal := CASE WHEN i = v_count THEN v_balance ELSE 0 END;
+    ELSE
+      v_interest := round(v_balance * v_rate, 2);
+      v_principal := CASE WHEN i = v_count THEN v_balance ELSE LEAST(v_instalment - v_interest, v_balance) END;
+    END IF;
+
+    v_balance := v_balance - v_principal;
+
+    payment_number := i;
+    due_date := CASE v_per_year
+      WHEN 12 THEN (p_start_date + make_interval(months => i))::date
+      ELSE p_start_date + i * (364 / v_per_year)
+    END;
+    payment_amount := v_principal + v_interest;
+    principal_amount := v_principal;
+    interest_amount := v_interest;
+    remaining_balance := v_balance;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- 3. Personal and peer loans: instalments at disbursement
+-- Replaces the monthly-only version, which read columns loan_applications
+-- no longer has and skipped loans disburse_loan() had already made active.
+CREATE OR REPLACE FUNCTION public.generate_repayment_schedule(application_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_app public.loan_applications%ROWTYPE;
+BEGIN
+  SELECT * INTO v_app FROM public.loan_applications WHERE id = application_id;
+
+  IF NOT FOUND OR v_app.status NOT IN ('approved', 'active') THEN
+    RETURN;
+  END IF;
+
+  -- Already scheduled; a retried disbursement must not duplicate instalments
+  IF EXISTS (
+    SELECT 1 FROM public.loan_repayments
+    WHERE loan_application_id = application_id AND payment_number IS NOT NULL
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.loan_repayments (
+    loan_application_id,
+    payment_number,
+    due_date,
+    amount,
+    payment_amount,
+    principal_amount,
+    interest_amount,
+    remaining_balance,
+    amount_paid,
+    payment_method,
+    status
+  )
+  SELECT
+    application_id,
+    s.payment_number,
+    s.due_date,
+    s.payment_amount,
+    s.payment_amount,
+    s.principal_amount,
+    s.interest_amount,
+    s.remaining_balance,
+    0,
+    'wallet',
+    'pending'
+  FROM public.build_loan_schedule(
+    v_app.amount, v_app.interest_rate, v_app.duration_months,
+    v_app.amortization_method, v_app.repayment_frequency, current_date
+  ) s;
+
+  UPDATE public.loan_applications la
+  SET monthly_payment = s.first_payment,
+      total_payment = s.total,
+      next_payment_due = s.first_due
+  FROM (
+    SELECT
+      (array_agg(payment_amount ORDER BY payment_number))[1] AS first_payment,
+      sum(payment_amount) AS total,
+      min(due_date) AS first_due
+    FROM public.loan_repayments
+    WHERE loan_application_id = application_id
+  ) s
+  WHERE la.id = application_id;
+END;
+$$;
+
+-- 4. Chama loans: schedule kept on the loan
+CREATE OR REPLACE FUNCTION public.set_chama_loan_schedule()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_schedule JSONB;
+  v_activated BOOLEAN;
+  v_terms_changed BOOLEAN;
+BEGIN
+  -- Quoted on request, re-quoted while the terms change, re-dated once the money goes out
+  IF TG_OP = 'UPDATE' THEN
+    v_activated := NEW.status = 'active' AND OLD.status IS DISTINCT FROM 'active';
+    v_terms_changed :=
+      (NEW.amount, NEW.interest_rate, NEW.duration_months, NEW.amortization_method, NEW.repayment_frequency)
+      IS DISTINCT FROM
+      (OLD.amount, OLD.interest_rate, OLD.duration_months, OLD.amortization_method, OLD.repayment_frequency);
+
+    IF NOT v_activated AND (NOT v_terms_changed OR NEW.status = 'active') THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF NEW.status IN ('rejected', 'completed') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT jsonb_agg(to_jsonb(s) ORDER BY s.payment_number) INTO v_schedule
+  FROM public.build_loan_schedule(
+    NEW.amount, NEW.interest_rate, NEW.duration_months,
+    NEW.amortization_method, NEW.repayment_frequency, current_date
+  ) s;
+
+  NEW.repayment_schedule := v_schedule;
+  NEW.total_repayable := (SELECT sum((i ->> 'payment_amount')::numeric) FROM jsonb_array_elements(v_schedule) i);
+  NEW.due_date := (v_schedule -> -1 ->> 'due_date')::date;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_chama_loan_schedule ON public.chama_loans;
+CREATE TRIGGER set_chama_loan_schedule
+BEFORE INSERT OR UPDATE ON public.chama_loans
+FOR EACH ROW EXECUTE FUNCTION public.set_chama_loan_schedule();
+
+-- 5. Where a chama loan stands against its schedule. Repayments settle the
+-- earliest instalments first; loans from before schedules fall due in full
+-- on due_date.
+CREATE OR REPLACE FUNCTION public.chama_loan_position(p_loan_id UUID)
+RETURNS TABLE(
+  total_repayable NUMERIC,
+  outstanding_amount NUMERIC,
+  overdue_amount NUMERIC,
+  oldest_unpaid_due DATE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH loan AS (
+    SELECT cl.*,
+           jsonb_typeof(cl.repayment_schedule::jsonb) = 'array'
+             AND jsonb_array_length(cl.repayment_schedule::jsonb) > 0 AS has_schedule
+    FROM public.chama_loans cl
+    WHERE cl.id = p_loan_id
+  ),
+  instalments AS (
+    SELECT (i ->> 'payment_number')::int AS n,
+           (i ->> 'due_date')::date AS due_date,
+           (i ->> 'payment_amount')::numeric AS amount
+    FROM loan, jsonb_array_elements(loan.repayment_schedule::jsonb) i
+    WHERE loan.has_schedule
+    UNION ALL
+    SELECT 1, loan.due_date::date, round(loan.amount * (1 + COALESCE(loan.interest_rate, 0) / 100), 2)
+    FROM loan
+    WHERE NOT loan.has_schedule
+  ),
+  running AS (
+    SELECT due_date, amount, sum(amount) OVER (ORDER BY n) AS cumulative
+    FROM instalments
+  )
+  SELECT
+    sum(r.amount),
+    GREATEST(sum(r.amount) - COALESCE(loan.repaid_amount, 0), 0),
+    GREATEST(COALESCE(sum(r.amount) FILTER (WHERE r.due_date < current_date), 0) - COALESCE(loan.repaid_amount, 0), 0),
+    min(r.due_date) FILTER (WHERE r.cumulative > COALESCE(loan.repaid_amount, 0))
+  FROM running r, loan
+  GROUP BY loan.repaid_amount;
+$$;
+
+-- Quote schedules for chama loans still awaiting disbursement
+UPDATE public.chama_loans cl
+SET repayment_schedule = q.schedule,
+    total_repayable = q.total,
+    due_date = q.last_due
+FROM (
+  SELECT
+    l.id,
+    jsonb_agg(to_jsonb(s) ORDER BY s.payment_number) AS schedule,
+    sum(s.payment_amount) AS total,
+    max(s.due_date) AS last_due
+  FROM public.chama_loans l,
+       public.build_loan_schedule(l.amount, l.interest_rate, l.duration_months, l.amortization_method, l.repayment_frequency, current_date) s
+  WHERE l.repayment_schedule IS NULL
+    AND l.status IN ('pending', 'approved')
+  GROUP BY l.id
+) q
+WHERE cl.id = q.id;
+
+-- 6. Age chama loans by instalment
+CREATE OR REPLACE FUNCTION public.age_loan_arrears()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row RECORD;
+  v_policy JSONB;
+  v_days INTEGER;
+  v_bucket TEXT;
+  v_outstanding NUMERIC;
+  v_periods INTEGER;
+  v_charge NUMERIC;
+  v_message TEXT;
+  v_aged INTEGER := 0;
+  v_penalised INTEGER := 0;
+  v_notified INTEGER := 0;
+  v_guarantor UUID;
+  v_position RECORD;
+BEGIN
+  v_policy := public.get_late_penalty_policy(NULL);
+
+  -- Personal loan instalments
+  FOR v_row IN
+    SELECT lr.*, la.borrower_id
+    FROM public.loan_repayments lr
+    JOIN public.loan_applications la ON la.id = lr.loan_application_id
+    WHERE lr.due_date IS NOT NULL
+      AND COALESCE(lr.status, 'pending') NOT IN ('paid', 'completed', 'cancelled')
+      AND (lr.aged_at IS NULL OR lr.aged_at < current_date)
+    FOR UPDATE OF lr
+  LOOP
+    v_days := GREATEST(current_date - v_row.due_date, 0);
+    v_bucket := public.loan_ageing_bucket(v_days);
+    v_outstanding := GREATEST(COALESCE(v_row.payment_amount, v_row.amount, 0) - COALESCE(v_row.amount_paid, 0), 0);
+    v_periods := public.loan_penalty_periods(v_days, v_policy) - v_row.penalty_periods;
+    v_charge := CASE WHEN v_periods > 0 AND v_outstanding > 0
+      THEN public.loan_penalty_charge(v_policy, v_periods, v_outstanding, COALESCE(v_row.payment_amount, v_row.amount, 0), v_row.penalty_amount)
+      ELSE 0 END;
+
+    UPDATE public.loan_repayments
+    SET days_overdue = v_days,
+        ageing_bucket = v_bucket,
+        aged_at = current_date,
+        status = CASE WHEN v_days > 0 THEN 'overdue' ELSE status END,
+        penalty_amount = COALESCE(penalty_amount, 0) + v_charge,
+        penalty_periods = penalty_periods + GREATEST(v_periods, 0)
+    WHERE id = v_row.id;
+    v_aged := v_aged + 1;
+
+    IF v_charge > 0 THEN
+      INSERT INTO public.loan_penalty_events (loan_repayment_id, days_overdue, ageing_bucket, periods, amount, policy)
+      VALUES (v_row.id, v_days, v_bucket, v_periods, v_charge, v_policy);
+      v_penalised := v_penalised + 1;
+    END IF;
+
+    IF v_bucket <> 'current' AND (v_bucket <> v_row.ageing_bucket OR v_charge > 0) THEN
+      v_message := 'Your loan instalment due ' || to_char(v_row.due_date, 'DD Mon YYYY') || ' is ' || v_days || ' days overdue (KES '
+        || to_char(v_outstanding, 'FM999999990.00') || ' unpaid)'
+        || CASE WHEN v_charge > 0 THEN '. A late penalty of KES ' || to_char(v_charge, 'FM999999990.00') || ' has been added.' ELSE '.' END;
+
+      INSERT INTO public.loan_notifications (user_id, loan_application_id, notification_type, title, message, sent_at)
+      VALUES (v_row.borrower_id, v_row.loan_application_id, 'arrears', 'Loan repayment overdue', v_message, now());
+
+      FOR v_guarantor IN SELECT public.loan_application_guarantor_ids(v_row.loan_application_id) LOOP
+        INSERT INTO public.loan_notifications (user_id, loan_application_id, notification_type, title, message, sent_at)
+        VALUES (
+          v_guarantor, v_row.loan_application_id, 'guarantor_arrears', 'A loan you guaranteed is overdue',
+          'An instalment on a loan you guaranteed is ' || v_days || ' days overdue (KES ' || to_char(v_outstanding, 'FM999999990.00') || ' unpaid).',
+          now()
+        );
+      END LOOP;
+      v_notified := v_notified + 1;
+    END IF;
+  END LOOP;
+
+  -- Chama loans, aged against their oldest unpaid instalment
+  FOR v_row IN
+    SELECT cl.*, cm.user_id AS borrower_user_id
+    FROM public.chama_loans cl
+    JOIN public.chama_members cm ON cm.id = cl.borrower_id
+    WHERE cl.status = 'active'
+      AND (cl.due_date IS NOT NULL OR cl.repayment_schedule IS NOT NULL)
+      AND (cl.aged_at IS NULL OR cl.aged_at < current_date)
+    FOR UPDATE OF cl
+  LOOP
+    SELECT * INTO v_position FROM public.chama_loan_position(v_row.id);
+    v_policy := public.get_late_penalty_policy(v_row.chama_id);
+    v_days := GREATEST(current_date - COALESCE(v_position.oldest_unpaid_due, current_date), 0);
+    v_bucket := public.loan_ageing_bucket(v_days);
+    v_outstanding := v_position.overdue_amount;
+    v_periods := public.loan_penalty_periods(v_days, v_policy) - v_row.penalty_periods;
+    v_charge := CASE WHEN v_periods > 0 AND v_outstanding > 0
+      THEN public.loan_penalty_charge(v_policy, v_periods, v_outstanding, v_row.amount, v_row.penalty_amount)
+      ELSE 0 END;
+
+    UPDATE public.chama_loans
+    SET days_overdue = v_days,
+        ageing_bucket = v_bucket,
+        aged_at = current_date,
+        penalty_amount = penalty_amount + v_charge,
+        penalty_periods = penalty_periods + GREATEST(v_periods, 0)
+    WHERE id = v_row.id;
+    v_aged := v_aged + 1;
+
+    IF v_charge > 0 THEN
+      INSERT INTO public.loan_penalty_events (chama_loan_id, days_overdue, ageing_bucket, periods, amount, policy)
+      VALUES (v_row.id, v_days, v_bucket, v_periods, v_charge, v_policy);
+      v_penalised := v_penalised + 1;
+    END IF;
+
+    IF v_bucket <> 'current' AND (v_bucket <> v_row.ageing_bucket OR v_charge > 0) THEN
+      INSERT INTO public.chama_notifications (user_id, chama_id, type, title, message, metadata)
+      VALUES (
+        v_row.borrower_user_id,
+        v_row.chama_id,
+        'loan_arrears',
+        'Loan repayment overdue',
+        'Your chama loan repayment is ' || v_days || ' days overdue (KES ' || to_char(v_outstanding, 'FM999999990.00') || ' unpaid)'
+          || CASE WHEN v_charge > 0 THEN '. A late penalty of KES ' || to_char(v_charge, 'FM999999990.00') || ' has been added.' ELSE '.' END,
+        jsonb_build_object('loan_id', v_row.id, 'days_overdue', v_days, 'ageing_bucket', v_bucket, 'penalty', v_charge)
+      );
+      v_notified := v_notified + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('aged', v_aged, 'penalised', v_penalised, 'notified', v_notified);
+END;
+$$;
+
+-- 7. Report chama loan arrears by instalment
+CREATE OR REPLACE FUNCTION public.get_loan_arrears_ageing(p_chama_id UUID DEFAULT NULL)
+RETURNS TABLE(
+  loan_id UUID,
+  loan_type TEXT,
+  chama_id UUID,
+  chama_name TEXT,
+  borrower_name TEXT,
+  outstanding_amount NUMERIC,
+  overdue_amount NUMERIC,
+  penalty_amount NUMERIC,
+  days_overdue INTEGER,
+  ageing_bucket TEXT,
+  oldest_due_date DATE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_chama_id IS NULL AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Access denied. Admin role required.';
+  END IF;
+
+  IF p_chama_id IS NOT NULL AND NOT (is_admin() OR is_chama_admin_or_treasurer(p_chama_id)) THEN
+    RAISE EXCEPTION 'Access denied. Chama admin or treasurer role required.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    la.id,
+    'personal'::text,
+    NULL::uuid,
+    NULL::text,
+    COALESCE(p.full_name, 'Unknown')::text,
+    sum(GREATEST(COALESCE(lr.payment_amount, lr.amount, 0) - COALESCE(lr.amount_paid, 0), 0)),
+    sum(GREATEST(COALESCE(lr.payment_amount, lr.amount, 0) - COALESCE(lr.amount_paid, 0), 0)) FILTER (WHERE lr.due_date < current_date),
+    sum(COALESCE(lr.penalty_amount, 0)),
+    max(lr.days_overdue),
+    public.loan_ageing_bucket(max(lr.days_overdue)),
+    min(lr.due_date) FILTER (WHERE lr.due_date < current_date)
+  FROM public.loan_repayments lr
+  JOIN public.loan_applications la ON la.id = lr.loan_application_id
+  LEFT JOIN public.profiles p ON p.user_id = la.borrower_id
+  WHERE p_chama_id IS NULL
+    AND COALESCE(lr.status, 'pending') NOT IN ('paid', 'completed', 'cancelled')
+  GROUP BY la.id, p.full_name
+
+  UNION ALL
+
+  SELECT
+    cl.id,
+    'chama'::text,
+    cl.chama_id,
+    c.name::text,
+    COALESCE(p.full_name, 'Unknown')::text,
+    pos.outstanding_amount,
+    pos.overdue_amount,
+    cl.penalty_amount,
+    cl.days_overdue,
+    cl.ageing_bucket,
+    CASE WHEN pos.oldest_unpaid_due < current_date THEN pos.oldest_unpaid_due END
+  FROM public.chama_loans cl
+  CROSS JOIN LATERAL public.chama_loan_position(cl.id) pos
+  JOIN public.chamas c ON c.id = cl.chama_id
+  LEFT JOIN public.chama_members cm ON cm.id = cl.borrower_id
+  LEFT JOIN public.profiles p ON p.user_id = cm.user_id
+  WHERE cl.status = 'active'
+    AND (p_chama_id IS NULL OR cl.chama_id = p_chama_id)
+
+  ORDER BY 9 DESC, 6 DESC;
+END;
+$$;
+
+COMMENT ON FUNCTION public.build_loan_schedule(NUMERIC, NUMERIC, INTEGER, TEXT, TEXT, DATE) IS 'Amortization schedule (flat, reducing_balance, interest_only) shared by personal, peer and chama loans';
+COMMENT ON FUNCTION public.chama_loan_position(UUID) IS 'Total, outstanding and overdue amounts of a chama loan against its repayment schedule';
+COMMENT ON COLUMN public.chama_loans.repayment_schedule IS 'Instalments from build_loan_schedule(); re-dated when the loan goes active';
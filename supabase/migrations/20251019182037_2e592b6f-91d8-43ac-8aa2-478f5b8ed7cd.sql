@@ -0,0 +1,477 @@
+-- ============================================
+-- GUARANTORS FOR CHAMA LOANS
+-- ============================================
+-- Borrowers nominate fellow members to guarantee a chama loan. Each
+-- guarantor accepts or declines with their PIN; accepting locks part of
+-- their savings (chama_members.locked_savings) until the loan is repaid.
+-- A loan can only be approved once accepted guarantees cover the share of
+-- the principal the chama requires. When a loan stays overdue past the
+-- chama's recovery threshold, the outstanding balance is recovered from the
+-- guarantors' locked savings.
+-- Locked savings extend the chama-wide are_funds_locked() switch down to the
+-- member: are_member_funds_locked() refuses any withdrawal or transfer that
+-- would dip into them.
+-- ============================================
+
+-- 1. Guarantor policy per chama
+ALTER TABLE public.chama_settings
+  ADD COLUMN IF NOT EXISTS min_guarantors INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS guarantor_coverage_percent NUMERIC(5,2) NOT NULL DEFAULT 100,
+  ADD COLUMN IF NOT EXISTS guarantor_lock_percent NUMERIC(5,2) NOT NULL DEFAULT 100,
+  ADD COLUMN IF NOT EXISTS guarantor_recovery_days INTEGER NOT NULL DEFAULT 60;
+
+-- 2. Savings held against guarantees
+ALTER TABLE public.chama_members
+  ADD COLUMN IF NOT EXISTS locked_savings NUMERIC(15,2) NOT NULL DEFAULT 0;
+
+-- 3. Guarantees
+CREATE TABLE IF NOT EXISTS public.chama_loan_guarantors (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  loan_id UUID NOT NULL REFERENCES public.chama_loans(id) ON DELETE CASCADE,
+  chama_id UUID NOT NULL REFERENCES public.chamas(id) ON DELETE CASCADE,
+  guarantor_member_id UUID NOT NULL REFERENCES public.chama_members(id) ON DELETE CASCADE,
+  guaranteed_amount NUMERIC(15,2) NOT NULL CHECK (guaranteed_amount > 0),
+  locked_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  recovered_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'declined', 'withdrawn', 'released', 'recovered')),
+  responded_at TIMESTAMP WITH TIME ZONE,
+  released_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (loan_id, guarantor_member_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chama_loan_guarantors_member
+  ON public.chama_loan_guarantors(guarantor_member_id, status);
+
+ALTER TABLE public.chama_loan_guarantors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view guarantees in their chama"
+ON public.chama_loan_guarantors FOR SELECT
+USING (is_chama_member(chama_id));
+
+-- 4. Savings a member can still move
+CREATE OR REPLACE FUNCTION public.member_available_savings(p_member_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT GREATEST(COALESCE(savings_balance, 0) - COALESCE(locked_savings, 0), 0)
+  FROM public.chama_members
+  WHERE id = p_member_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.are_member_funds_locked(p_member_id UUID, p_amount NUMERIC)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.are_funds_locked(cm.chama_id)
+      OR p_amount > public.member_available_savings(cm.id)
+  FROM public.chama_members cm
+  WHERE cm.id = p_member_id;
+$$;
+
+DROP POLICY IF EXISTS "Members can create deposits to their savings accounts" ON public.chama_savings_transactions;
+CREATE POLICY "Members can create deposits to their savings accounts"
+ON public.chama_savings_transactions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  (member_id IN (
+    SELECT chama_members.id
+    FROM chama_members
+    WHERE chama_members.user_id = auth.uid()
+    AND chama_members.chama_id = chama_savings_transactions.chama_id
+  )) AND (
+    transaction_type = 'deposit' OR
+    (transaction_type = 'withdrawal' AND NOT are_member_funds_locked(member_id, amount))
+  )
+);
+
+-- 5. Borrower nominates guarantors: [{"member_id": uuid, "amount": number}, ...]
+CREATE OR REPLACE FUNCTION public.nominate_chama_loan_guarantors(p_loan_id UUID, p_guarantors JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_loan public.chama_loans%ROWTYPE;
+  v_borrower public.chama_members%ROWTYPE;
+  v_entry JSONB;
+  v_member public.chama_members%ROWTYPE;
+  v_amount NUMERIC;
+  v_borrower_name TEXT;
+  v_count INTEGER := 0;
+BEGIN
+  SELECT * INTO v_loan FROM public.chama_loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Loan not found');
+  END IF;
+
+  SELECT * INTO v_borrower FROM public.chama_members WHERE id = v_loan.borrower_id;
+  IF v_borrower.user_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Only the borrower can nominate guarantors');
+  END IF;
+
+  IF v_loan.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Guarantors can only be nominated while the loan is pending');
+  END IF;
+
+  IF jsonb_typeof(p_guarantors) <> 'array' OR jsonb_array_length(p_guarantors) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Nominate at least one guarantor');
+  END IF;
+
+  v_borrower_name := COALESCE((SELECT full_name FROM public.profiles WHERE user_id = v_borrower.user_id), 'A member');
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(p_guarantors) LOOP
+    v_amount := round((v_entry ->> 'amount')::numeric, 2);
+
+    SELECT * INTO v_member
+    FROM public.chama_members
+    WHERE id = (v_entry ->> 'member_id')::uuid
+      AND chama_id = v_loan.chama_id
+      AND is_active = true;
+
+    IF NOT FOUND OR v_member.id = v_borrower.id THEN
+      RAISE EXCEPTION 'Guarantors must be other active members of this chama';
+    END IF;
+
+    IF v_amount IS NULL OR v_amount <= 0 THEN
+      RAISE EXCEPTION 'Each guarantor needs a positive amount';
+    END IF;
+
+    -- Re-nominating someone who declined asks them again
+    INSERT INTO public.chama_loan_guarantors (loan_id, chama_id, guarantor_member_id, guaranteed_amount)
+    VALUES (p_loan_id, v_loan.chama_id, v_member.id, v_amount)
+    ON CONFLICT (loan_id, guarantor_member_id) DO UPDATE
+      SET guaranteed_amount = EXCLUDED.guaranteed_amount,
+          status = 'pending',
+          responded_at = NULL,
+          updated_at = now()
+      WHERE chama_loan_guarantors.status IN ('pending', 'declined', 'withdrawn');
+
+    INSERT INTO public.chama_notifications (user_id, chama_id, type, title, message, metadata)
+    VALUES (
+      v_member.user_id,
+      v_loan.chama_id,
+      'guarantor_request',
+      'Guarantor request',
+      v_borrower_name || ' has asked you to guarantee KES ' || to_char(v_amount, 'FM999999990.00') || ' of their loan.',
+      jsonb_build_object('loan_id', p_loan_id, 'amount', v_amount)
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'nominated', v_count);
+END;
+$$;
+
+-- 6. Guarantor accepts (locking savings) or declines, confirmed with their PIN
+CREATE OR REPLACE FUNCTION public.respond_to_loan_guarantee(p_guarantee_id UUID, p_accept BOOLEAN, p_user_pin TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_guarantee public.chama_loan_guarantors%ROWTYPE;
+  v_member public.chama_members%ROWTYPE;
+  v_loan public.chama_loans%ROWTYPE;
+  v_borrower_user UUID;
+  v_lock_percent NUMERIC;
+  v_lock NUMERIC;
+BEGIN
+  SELECT * INTO v_guarantee FROM public.chama_loan_guarantors WHERE id = p_guarantee_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Guarantee request not found');
+  END IF;
+
+  SELECT * INTO v_member FROM public.chama_members WHERE id = v_guarantee.guarantor_member_id FOR UPDATE;
+  IF v_member.user_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Unauthorized');
+  END IF;
+
+  IF v_guarantee.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'This request has already been answered');
+  END IF;
+
+  IF NOT public.verify_user_pin_v2(auth.uid(), p_user_pin) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Invalid PIN');
+  END IF;
+
+  SELECT * INTO v_loan FROM public.chama_loans WHERE id = v_guarantee.loan_id;
+  SELECT user_id INTO v_borrower_user FROM public.chama_members WHERE id = v_loan.borrower_id;
+
+  IF v_loan.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'This loan is no longer awaiting guarantors');
+  END IF;
+
+  IF p_accept THEN
+    SELECT COALESCE(guarantor_lock_percent, 100) INTO v_lock_percent
+    FROM public.chama_settings WHERE chama_id = v_guarantee.chama_id;
+    v_lock := round(v_guarantee.guaranteed_amount * COALESCE(v_lock_percent, 100) / 100, 2);
+
+    IF public.member_available_savings(v_member.id) < v_lock THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'message', 'You need KES ' || to_char(v_lock, 'FM999999990.00') || ' of unlocked savings to accept this guarantee'
+      );
+    END IF;
+
+    UPDATE public.chama_members
+    SET locked_savings = locked_savings + v_lock
+    WHERE id = v_member.id;
+  END IF;
+
+  UPDATE public.chama_loan_guarantors
+  SET status = CASE WHEN p_accept THEN 'accepted' ELSE 'declined' END,
+      locked_amount = COALESCE(v_lock, 0),
+      responded_at = now(),
+      updated_at = now()
+  WHERE id = p_guarantee_id;
+
+  INSERT INTO public.chama_notifications (user_id, chama_id, type, title, message, metadata)
+  VALUES (
+    v_borrower_user,
+    v_guarantee.chama_id,
+    CASE WHEN p_accept THEN 'guarantor_accepted' ELSE 'guarantor_declined' END,
+    CASE WHEN p_accept THEN 'Guarantor accepted' ELSE 'Guarantor declined' END,
+    COALESCE((SELECT full_name FROM public.profiles WHERE user_id = v_member.user_id), 'A member')
+      || CASE WHEN p_accept THEN ' has agreed to guarantee ' ELSE ' has declined to guarantee ' END
+      || 'KES ' || to_char(v_guarantee.guaranteed_amount, 'FM999999990.00') || ' of your loan.',
+    jsonb_build_object('loan_id', v_guarantee.loan_id, 'guarantee_id', p_guarantee_id)
+  );
+
+  RETURN jsonb_build_object('success', true, 'status', CASE WHEN p_accept THEN 'accepted' ELSE 'declined' END, 'locked', COALESCE(v_lock, 0));
+END;
+$$;
+
+-- 7. How far accepted guarantees cover a loan
+CREATE OR REPLACE FUNCTION public.chama_loan_guarantee_coverage(p_loan_id UUID)
+RETURNS TABLE(
+  accepted_guarantors INTEGER,
+  guaranteed_amount NUMERIC,
+  required_guarantors INTEGER,
+  required_amount NUMERIC,
+  is_covered BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    g.accepted,
+    g.total,
+    COALESCE(cs.min_guarantors, 1),
+    round(cl.amount * COALESCE(cs.guarantor_coverage_percent, 100) / 100, 2),
+    g.accepted >= COALESCE(cs.min_guarantors, 1)
+      AND g.total >= round(cl.amount * COALESCE(cs.guarantor_coverage_percent, 100) / 100, 2)
+  FROM public.chama_loans cl
+  LEFT JOIN public.chama_settings cs ON cs.chama_id = cl.chama_id
+  CROSS JOIN LATERAL (
+    SELECT count(*)::int AS accepted, COALESCE(sum(clg.guaranteed_amount), 0) AS total
+    FROM public.chama_loan_guarantors clg
+    WHERE clg.loan_id = cl.id AND clg.status = 'accepted'
+  ) g
+  WHERE cl.id = p_loan_id;
+$$;
+
+-- 8. Approval needs cover; finishing or rejecting a loan frees the guarantors
+CREATE OR REPLACE FUNCTION public.enforce_chama_loan_guarantees()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_cover RECORD;
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status = 'pending' THEN
+    SELECT * INTO v_cover FROM public.chama_loan_guarantee_coverage(NEW.id);
+    IF NOT v_cover.is_covered THEN
+      RAISE EXCEPTION 'Loan needs % accepted guarantor(s) covering KES %; has % covering KES %',
+        v_cover.required_guarantors, v_cover.required_amount, v_cover.accepted_guarantors, v_cover.guaranteed_amount;
+    END IF;
+  END IF;
+
+  IF NEW.status IN ('completed', 'rejected') AND OLD.status IS DISTINCT FROM NEW.status THEN
+    UPDATE public.chama_members cm
+    SET locked_savings = GREATEST(cm.locked_savings - g.locked_amount, 0)
+    FROM public.chama_loan_guarantors g
+    WHERE g.loan_id = NEW.id
+      AND g.status = 'accepted'
+      AND cm.id = g.guarantor_member_id;
+
+    UPDATE public.chama_loan_guarantors
+    SET status = CASE WHEN status = 'accepted' THEN 'released' ELSE 'withdrawn' END,
+        locked_amount = 0,
+        released_at = now(),
+        updated_at = now()
+    WHERE loan_id = NEW.id
+      AND status IN ('pending', 'accepted');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_chama_loan_guarantees ON public.chama_loans;
+CREATE TRIGGER enforce_chama_loan_guarantees
+BEFORE UPDATE OF status ON public.chama_loans
+FOR EACH ROW EXECUTE FUNCTION public.enforce_chama_loan_guarantees();
+
+-- 9. Recover defaulted loans from guarantors, in proportion to what each has locked
+CREATE OR REPLACE FUNCTION public.recover_defaulted_chama_loans()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_loan RECORD;
+  v_guarantee RECORD;
+  v_need NUMERIC;
+  v_locked_left NUMERIC;
+  v_take NUMERIC;
+  v_recovered NUMERIC;
+  v_loans INTEGER := 0;
+  v_total NUMERIC := 0;
+BEGIN
+  FOR v_loan IN
+    SELECT cl.*, cm.user_id AS borrower_user_id, pos.outstanding_amount
+    FROM public.chama_loans cl
+    JOIN public.chama_members cm ON cm.id = cl.borrower_id
+    LEFT JOIN public.chama_settings cs ON cs.chama_id = cl.chama_id
+    CROSS JOIN LATERAL public.chama_loan_position(cl.id) pos
+    WHERE cl.status = 'active'
+      AND cl.days_overdue >= COALESCE(cs.guarantor_recovery_days, 60)
+      AND pos.outstanding_amount > 0
+      AND EXISTS (
+        SELECT 1 FROM public.chama_loan_guarantors g
+        WHERE g.loan_id = cl.id AND g.status = 'accepted' AND g.locked_amount > 0
+      )
+    FOR UPDATE OF cl
+  LOOP
+    v_need := v_loan.outstanding_amount;
+    v_recovered := 0;
+
+    SELECT COALESCE(sum(locked_amount), 0) INTO v_locked_left
+    FROM public.chama_loan_guarantors
+    WHERE loan_id = v_loan.id AND status = 'accepted';
+
+    FOR v_guarantee IN
+      SELECT g.*, m.user_id AS guarantor_user_id, m.savings_balance
+      FROM public.chama_loan_guarantors g
+      JOIN public.chama_members m ON m.id = g.guarantor_member_id
+      WHERE g.loan_id = v_loan.id AND g.status = 'accepted' AND g.locked_amount > 0
+      ORDER BY g.locked_amount, g.id
+      FOR UPDATE OF g, m
+    LOOP
+      EXIT WHEN v_need <= 0;
+
+      -- The last guarantor in the loop absorbs rounding
+      v_take := LEAST(
+        v_guarantee.locked_amount,
+        COALESCE(v_guarantee.savings_balance, 0),
+        CASE WHEN v_locked_left <= v_guarantee.locked_amount THEN v_need
+             ELSE round(v_need * v_guarantee.locked_amount / v_locked_left, 2) END
+      );
+      v_locked_left := v_locked_left - v_guarantee.locked_amount;
+
+      CONTINUE WHEN v_take <= 0;
+
+      UPDATE public.chama_members
+      SET savings_balance = savings_balance - v_take,
+          locked_savings = GREATEST(locked_savings - v_take, 0)
+      WHERE id = v_guarantee.guarantor_member_id;
+
+      UPDATE public.chama_loan_guarantors
+      SET locked_amount = locked_amount - v_take,
+          recovered_amount = recovered_amount + v_take,
+          status = CASE WHEN locked_amount - v_take <= 0 THEN 'recovered' ELSE status END,
+          updated_at = now()
+      WHERE id = v_guarantee.id;
+
+      INSERT INTO public.chama_notifications (user_id, chama_id, type, title, message, metadata)
+      VALUES (
+        v_guarantee.guarantor_user_id,
+        v_loan.chama_id,
+        'guarantor_recovery',
+        'Guaranteed loan recovered from your savings',
+        'A loan you guaranteed has been in arrears for ' || v_loan.days_overdue || ' days. KES '
+          || to_char(v_take, 'FM999999990.00') || ' has been recovered from your savings.',
+        jsonb_build_object('loan_id', v_loan.id, 'amount', v_take)
+      );
+
+      v_need := v_need - v_take;
+      v_recovered := v_recovered + v_take;
+    END LOOP;
+
+    CONTINUE WHEN v_recovered <= 0;
+
+    INSERT INTO public.chama_loan_repayments (loan_id, amount, payment_method, status)
+    VALUES (v_loan.id, v_recovered, 'guarantor_recovery', 'completed');
+
+    -- Savings leave the members' share of the pot and pay the loan back into it
+    UPDATE public.chamas
+    SET total_savings = GREATEST(COALESCE(total_savings, 0) - v_recovered, 0)
+    WHERE id = v_loan.chama_id;
+
+    UPDATE public.chama_loans
+    SET repaid_amount = COALESCE(repaid_amount, 0) + v_recovered,
+        status = CASE WHEN v_need <= 0 THEN 'completed' ELSE status END
+    WHERE id = v_loan.id;
+
+    INSERT INTO public.chama_notifications (user_id, chama_id, type, title, message, metadata)
+    VALUES (
+      v_loan.borrower_user_id,
+      v_loan.chama_id,
+      'loan_guarantor_recovery',
+      'Loan recovered from guarantors',
+      'Your loan was ' || v_loan.days_overdue || ' days in arrears, so KES ' || to_char(v_recovered, 'FM999999990.00')
+        || ' was recovered from your guarantors'' savings.',
+      jsonb_build_object('loan_id', v_loan.id, 'amount', v_recovered)
+    );
+
+    INSERT INTO public.chama_activities (chama_id, member_id, activity_type, description, amount)
+    VALUES (
+      v_loan.chama_id,
+      v_loan.borrower_id,
+      'loan_guarantor_recovery',
+      'Recovered KES ' || to_char(v_recovered, 'FM999999990.00') || ' of a defaulted loan from guarantors',
+      v_recovered
+    );
+
+    v_loans := v_loans + 1;
+    v_total := v_total + v_recovered;
+  END LOOP;
+
+  RETURN jsonb_build_object('loans', v_loans, 'recovered', v_total);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.recover_defaulted_chama_loans() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.nominate_chama_loan_guarantors(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.respond_to_loan_guarantee(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- 10. Recover after the morning ageing run (06:00 EAT)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'recover-defaulted-chama-loans',
+  '0 3 * * *',
+  $$SELECT public.recover_defaulted_chama_loans();$$
+);
+
+COMMENT ON TABLE public.chama_loan_guarantors IS 'Members guaranteeing chama loans, with the savings each has locked and any amount recovered';
+COMMENT ON COLUMN public.chama_members.locked_savings IS 'Savings locked against accepted loan guarantees; not available to withdraw or transfer';
+COMMENT ON FUNCTION public.recover_defaulted_chama_loans() IS 'Daily job: recovers loans overdue past guarantor_recovery_days from guarantors'' locked savings';
@@ -0,0 +1,688 @@
+-- ============================================
+-- GOVERNANCE VOTING
+-- ============================================
+-- Chama votes grow from a yes/no headcount into constitution-aware ballots:
+-- * yes/no, multiple-choice and ranked (instant-runoff) ballots
+-- * approval thresholds: plurality, simple majority, two-thirds, unanimous
+-- * a quorum, as a share of the eligible voting weight
+-- * one member one vote, or votes weighted by each member's savings
+-- * secret ballots, whose choices and running totals stay hidden until close
+-- The electorate and each member's weight are fixed when a vote opens, so
+-- joining or topping up savings mid-vote does not change the count.
+-- Votes resolve on their own at the deadline (or as soon as everyone has
+-- voted) and a passed vote can carry out an action: approving a loan or
+-- changing chama_settings.
+-- ============================================
+
+-- 1. Each chama's voting rules; chama_settings.voting_threshold (a percentage)
+-- already holds the default approval threshold
+ALTER TABLE public.chama_settings
+  ADD COLUMN IF NOT EXISTS vote_quorum_percent NUMERIC(5,2) NOT NULL DEFAULT 50,
+  ADD COLUMN IF NOT EXISTS vote_weighting TEXT NOT NULL DEFAULT 'per_member';
+
+ALTER TABLE public.chama_settings
+  DROP CONSTRAINT IF EXISTS chama_settings_vote_weighting_check;
+ALTER TABLE public.chama_settings
+  ADD CONSTRAINT chama_settings_vote_weighting_check CHECK (vote_weighting IN ('per_member', 'savings'));
+
+-- 2. Ballot definition, rules and outcome
+ALTER TABLE public.chama_votes
+  ADD COLUMN IF NOT EXISTS ballot_type TEXT NOT NULL DEFAULT 'yes_no',
+  ADD COLUMN IF NOT EXISTS options JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS approval_threshold TEXT,
+  ADD COLUMN IF NOT EXISTS quorum_percent NUMERIC(5,2),
+  ADD COLUMN IF NOT EXISTS weighting TEXT,
+  ADD COLUMN IF NOT EXISTS is_secret BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS eligible_weight NUMERIC(15,2),
+  ADD COLUMN IF NOT EXISTS action_type TEXT,
+  ADD COLUMN IF NOT EXISTS action_payload JSONB,
+  ADD COLUMN IF NOT EXISTS outcome TEXT,
+  ADD COLUMN IF NOT EXISTS results JSONB,
+  ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS action_executed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS action_error TEXT;
+
+ALTER TABLE public.chama_votes
+  DROP CONSTRAINT IF EXISTS chama_votes_ballot_type_check,
+  DROP CONSTRAINT IF EXISTS chama_votes_approval_threshold_check,
+  DROP CONSTRAINT IF EXISTS chama_votes_weighting_check,
+  DROP CONSTRAINT IF EXISTS chama_votes_action_type_check,
+  DROP CONSTRAINT IF EXISTS chama_votes_outcome_check;
+ALTER TABLE public.chama_votes
+  ADD CONSTRAINT chama_votes_ballot_type_check CHECK (ballot_type IN ('yes_no', 'multiple_choice', 'ranked')),
+  ADD CONSTRAINT chama_votes_approval_threshold_check
+    CHECK (approval_threshold IN ('plurality', 'simple_majority', 'two_thirds', 'unanimous')),
+  ADD CONSTRAINT chama_votes_weighting_check CHECK (weighting IN ('per_member', 'savings')),
+  ADD CONSTRAINT chama_votes_action_type_check CHECK (action_type IN ('approve_loan', 'update_settings')),
+  ADD CONSTRAINT chama_votes_outcome_check CHECK (outcome IN ('passed', 'rejected', 'no_quorum'));
+
+CREATE INDEX IF NOT EXISTS idx_chama_votes_due
+  ON public.chama_votes(deadline)
+  WHERE status = 'active';
+
+-- 3. Who may vote, and with what weight, fixed when the vote opens
+CREATE TABLE IF NOT EXISTS public.chama_vote_electorate (
+  vote_id UUID NOT NULL REFERENCES public.chama_votes(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES public.chama_members(id) ON DELETE CASCADE,
+  weight NUMERIC(15,2) NOT NULL,
+  PRIMARY KEY (vote_id, member_id)
+);
+
+ALTER TABLE public.chama_vote_electorate ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view the electorate of their chama votes"
+ON public.chama_vote_electorate FOR SELECT
+USING (
+  vote_id IN (SELECT id FROM public.chama_votes WHERE is_chama_member(chama_id))
+);
+
+-- 4. Ballots: option_index for yes/no (0 = yes, 1 = no) and multiple choice,
+-- rankings (option indexes, most preferred first) for ranked votes
+ALTER TABLE public.vote_responses
+  ADD COLUMN IF NOT EXISTS member_id UUID REFERENCES public.chama_members(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS option_index INTEGER,
+  ADD COLUMN IF NOT EXISTS rankings INTEGER[],
+  ADD COLUMN IF NOT EXISTS weight NUMERIC(15,2) NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.vote_responses ALTER COLUMN response DROP NOT NULL;
+
+UPDATE public.vote_responses
+SET option_index = CASE WHEN response THEN 0 ELSE 1 END
+WHERE option_index IS NULL AND response IS NOT NULL;
+
+-- Ballots are only cast through cast_ballot(), which applies the weight;
+-- secret ballots are visible to the voter alone
+DROP POLICY IF EXISTS "Members can vote in their chamas" ON public.vote_responses;
+DROP POLICY IF EXISTS "Members can insert their own votes" ON public.vote_responses;
+DROP POLICY IF EXISTS "Members can update their own votes" ON public.vote_responses;
+DROP POLICY IF EXISTS "Members can view votes in their chamas" ON public.vote_responses;
+
+CREATE POLICY "Members can view open ballots and their own"
+ON public.vote_responses FOR SELECT
+USING (
+  voter_id = auth.uid()
+  OR vote_id IN (
+    SELECT id FROM public.chama_votes
+    WHERE NOT is_secret AND is_chama_member(chama_id)
+  )
+);
+
+-- 5. Fill in the chama's rules and check the ballot before a vote opens
+CREATE OR REPLACE FUNCTION public.prepare_chama_vote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings public.chama_settings%ROWTYPE;
+  v_option_count INTEGER;
+  v_key TEXT;
+  v_value JSONB;
+  v_type TEXT;
+BEGIN
+  SELECT * INTO v_settings FROM public.chama_settings WHERE chama_id = NEW.chama_id;
+
+  NEW.status := 'active';
+  NEW.deadline := COALESCE(NEW.deadline, now() + INTERVAL '7 days');
+  NEW.quorum_percent := COALESCE(NEW.quorum_percent, v_settings.vote_quorum_percent, 50);
+  NEW.weighting := COALESCE(NEW.weighting, v_settings.vote_weighting, 'per_member');
+  NEW.approval_threshold := COALESCE(
+    NEW.approval_threshold,
+    CASE
+      WHEN v_settings.voting_threshold >= 100 THEN 'unanimous'
+      WHEN v_settings.voting_threshold >= 66 THEN 'two_thirds'
+      ELSE 'simple_majority'
+    END
+  );
+
+  IF NEW.deadline <= now() THEN
+    RAISE EXCEPTION 'The voting deadline must be in the future';
+  END IF;
+
+  IF NEW.quorum_percent < 0 OR NEW.quorum_percent > 100 THEN
+    RAISE EXCEPTION 'Quorum must be between 0 and 100 percent';
+  END IF;
+
+  IF NEW.initiated_by IS NULL THEN
+    SELECT id INTO NEW.initiated_by
+    FROM public.chama_members
+    WHERE chama_id = NEW.chama_id AND user_id = auth.uid() AND is_active = true;
+  END IF;
+
+  IF NEW.ballot_type = 'yes_no' THEN
+    NEW.options := '["Yes", "No"]'::jsonb;
+  ELSE
+    v_option_count := CASE WHEN jsonb_typeof(NEW.options) = 'array' THEN jsonb_array_length(NEW.options) ELSE 0 END;
+    IF v_option_count < 2 THEN
+      RAISE EXCEPTION 'Multiple-choice and ranked votes need at least two options';
+    END IF;
+    IF NEW.action_type IS NOT NULL THEN
+      RAISE EXCEPTION 'Only yes/no votes can carry out an action';
+    END IF;
+  END IF;
+
+  IF NEW.action_type = 'approve_loan' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.chama_loans
+      WHERE id = NEW.reference_id AND chama_id = NEW.chama_id AND status = 'pending'
+    ) THEN
+      RAISE EXCEPTION 'A loan approval vote needs a pending loan in this chama';
+    END IF;
+  ELSIF NEW.action_type = 'update_settings' THEN
+    IF jsonb_typeof(NEW.action_payload) IS DISTINCT FROM 'object' OR NEW.action_payload = '{}'::jsonb THEN
+      RAISE EXCEPTION 'A settings vote needs the settings to change';
+    END IF;
+
+    -- Catch unknown settings and bad values now rather than when the vote passes
+    FOR v_key, v_value IN SELECT * FROM jsonb_each(NEW.action_payload) LOOP
+      v_type := public.chama_setting_type(v_key);
+      IF v_type IS NULL THEN
+        RAISE EXCEPTION 'Unknown chama setting: %', v_key;
+      END IF;
+      EXECUTE format('SELECT ($1 #>> ''{}'')::%s', v_type) USING v_value;
+    END LOOP;
+  END IF;
+
+  -- Fix the electorate's size and weight; the members themselves are
+  -- recorded once the vote row exists
+  SELECT
+    count(*),
+    CASE WHEN NEW.weighting = 'savings' THEN COALESCE(sum(GREATEST(COALESCE(savings_balance, 0), 0)), 0)
+         ELSE count(*) END
+  INTO NEW.total_eligible_voters, NEW.eligible_weight
+  FROM public.chama_members
+  WHERE chama_id = NEW.chama_id AND is_active = true;
+
+  IF NEW.eligible_weight <= 0 THEN
+    RAISE EXCEPTION 'No member has savings to weight this vote by';
+  END IF;
+
+  NEW.yes_votes := 0;
+  NEW.no_votes := 0;
+  NEW.outcome := NULL;
+  NEW.results := NULL;
+  NEW.resolved_at := NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Column type of a chama setting a vote may change, or NULL if it can't be voted on
+CREATE OR REPLACE FUNCTION public.chama_setting_type(p_setting TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT format_type(a.atttypid, a.atttypmod)
+  FROM pg_attribute a
+  WHERE a.attrelid = 'public.chama_settings'::regclass
+    AND a.attname = p_setting
+    AND a.attnum > 0
+    AND NOT a.attisdropped
+    AND a.attname NOT IN ('id', 'chama_id', 'created_at', 'updated_at');
+$$;
+
+CREATE OR REPLACE FUNCTION public.snapshot_chama_vote_electorate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.chama_vote_electorate (vote_id, member_id, weight)
+  SELECT
+    NEW.id,
+    cm.id,
+    CASE WHEN NEW.weighting = 'savings' THEN GREATEST(COALESCE(cm.savings_balance, 0), 0) ELSE 1 END
+  FROM public.chama_members cm
+  WHERE cm.chama_id = NEW.chama_id AND cm.is_active = true;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prepare_chama_vote ON public.chama_votes;
+CREATE TRIGGER prepare_chama_vote
+BEFORE INSERT ON public.chama_votes
+FOR EACH ROW EXECUTE FUNCTION public.prepare_chama_vote();
+
+DROP TRIGGER IF EXISTS snapshot_chama_vote_electorate ON public.chama_votes;
+CREATE TRIGGER snapshot_chama_vote_electorate
+AFTER INSERT ON public.chama_votes
+FOR EACH ROW EXECUTE FUNCTION public.snapshot_chama_vote_electorate();
+
+-- 6. Count a vote: turnout, quorum, per-option weight and, for ranked
+-- ballots, each instant-runoff round
+CREATE OR REPLACE FUNCTION public.tally_chama_vote(p_vote_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vote public.chama_votes%ROWTYPE;
+  v_option_count INTEGER;
+  v_cast_votes INTEGER;
+  v_cast_weight NUMERIC;
+  v_turnout NUMERIC;
+  v_quorum_met BOOLEAN;
+  v_options JSONB;
+  v_rounds JSONB := '[]'::jsonb;
+  v_round JSONB;
+  v_eliminated INTEGER[] := '{}';
+  v_continuing NUMERIC;
+  v_remaining INTEGER;
+  v_leader INTEGER;
+  v_leader_weight NUMERIC;
+  v_leaders INTEGER;
+  v_loser INTEGER;
+  v_decisive NUMERIC;
+  v_share NUMERIC;
+  v_passed BOOLEAN;
+BEGIN
+  SELECT * INTO v_vote FROM public.chama_votes WHERE id = p_vote_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_option_count := jsonb_array_length(v_vote.options);
+
+  SELECT count(*), COALESCE(sum(weight), 0)
+  INTO v_cast_votes, v_cast_weight
+  FROM public.vote_responses
+  WHERE vote_id = p_vote_id;
+
+  v_turnout := CASE WHEN COALESCE(v_vote.eligible_weight, 0) > 0
+                    THEN round(v_cast_weight * 100 / v_vote.eligible_weight, 2) ELSE 0 END;
+  v_quorum_met := v_cast_votes > 0 AND v_turnout >= COALESCE(v_vote.quorum_percent, 0);
+
+  -- First preferences (the only preference outside ranked votes)
+  SELECT jsonb_agg(
+           jsonb_build_object(
+             'index', o.idx,
+             'label', v_vote.options ->> o.idx,
+             'votes', COALESCE(t.votes, 0),
+             'weight', COALESCE(t.weight, 0),
+             'percent', CASE WHEN v_cast_weight > 0 THEN round(COALESCE(t.weight, 0) * 100 / v_cast_weight, 2) ELSE 0 END
+           ) ORDER BY o.idx)
+  INTO v_options
+  FROM generate_series(0, v_option_count - 1) AS o(idx)
+  LEFT JOIN (
+    SELECT
+      CASE WHEN v_vote.ballot_type = 'ranked' THEN vr.rankings[1] ELSE vr.option_index END AS idx,
+      count(*) AS votes,
+      sum(vr.weight) AS weight
+    FROM public.vote_responses vr
+    WHERE vr.vote_id = p_vote_id
+    GROUP BY 1
+  ) t ON t.idx = o.idx;
+
+  IF v_vote.ballot_type = 'ranked' THEN
+    LOOP
+      -- Each ballot counts for its highest-ranked option still standing
+      SELECT COALESCE(jsonb_object_agg(top, w), '{}'::jsonb), COALESCE(sum(w), 0)
+      INTO v_round, v_continuing
+      FROM (
+        SELECT b.top, sum(b.weight) AS w
+        FROM (
+          SELECT
+            (SELECT r FROM unnest(vr.rankings) WITH ORDINALITY AS u(r, ord)
+             WHERE NOT (r = ANY (v_eliminated))
+             ORDER BY ord LIMIT 1) AS top,
+            vr.weight
+          FROM public.vote_responses vr
+          WHERE vr.vote_id = p_vote_id
+        ) b
+        WHERE b.top IS NOT NULL
+        GROUP BY b.top
+      ) t;
+
+      v_remaining := v_option_count - cardinality(v_eliminated);
+
+      SELECT idx, COALESCE((v_round ->> idx::text)::numeric, 0)
+      INTO v_leader, v_leader_weight
+      FROM generate_series(0, v_option_count - 1) AS idx
+      WHERE NOT (idx = ANY (v_eliminated))
+      ORDER BY COALESCE((v_round ->> idx::text)::numeric, 0) DESC, idx
+      LIMIT 1;
+
+      SELECT idx INTO v_loser
+      FROM generate_series(0, v_option_count - 1) AS idx
+      WHERE NOT (idx = ANY (v_eliminated))
+      ORDER BY COALESCE((v_round ->> idx::text)::numeric, 0), idx DESC
+      LIMIT 1;
+
+      v_rounds := v_rounds || jsonb_build_array(jsonb_build_object(
+        'round', jsonb_array_length(v_rounds) + 1,
+        'tallies', v_round,
+        'continuing_weight', v_continuing,
+        'eliminated', CASE WHEN v_continuing > 0 AND v_leader_weight * 2 <= v_continuing AND v_remaining > 2
+                           THEN v_loser END
+      ));
+
+      EXIT WHEN v_continuing = 0 OR v_leader_weight * 2 > v_continuing OR v_remaining <= 2;
+      v_eliminated := v_eliminated || v_loser;
+    END LOOP;
+
+    SELECT count(*) INTO v_leaders
+    FROM generate_series(0, v_option_count - 1) AS idx
+    WHERE NOT (idx = ANY (v_eliminated))
+      AND COALESCE((v_round ->> idx::text)::numeric, 0) = v_leader_weight;
+    v_decisive := v_continuing;
+  ELSE
+    SELECT (o ->> 'index')::int, (o ->> 'weight')::numeric
+    INTO v_leader, v_leader_weight
+    FROM jsonb_array_elements(v_options) o
+    ORDER BY (o ->> 'weight')::numeric DESC, (o ->> 'index')::int
+    LIMIT 1;
+
+    SELECT count(*) INTO v_leaders
+    FROM jsonb_array_elements(v_options) o
+    WHERE (o ->> 'weight')::numeric = v_leader_weight;
+    v_decisive := v_cast_weight;
+
+    -- A yes/no vote is decided by the share voting yes
+    IF v_vote.ballot_type = 'yes_no' THEN
+      v_leader := 0;
+      v_leader_weight := (v_options -> 0 ->> 'weight')::numeric;
+      v_leaders := CASE WHEN v_leader_weight > (v_options -> 1 ->> 'weight')::numeric THEN 1 ELSE 0 END;
+    END IF;
+  END IF;
+
+  v_share := CASE WHEN v_decisive > 0 THEN v_leader_weight / v_decisive ELSE 0 END;
+  v_passed := v_quorum_met AND v_leader_weight > 0 AND CASE v_vote.approval_threshold
+    WHEN 'plurality' THEN v_leaders = 1
+    WHEN 'two_thirds' THEN v_share >= 2.0 / 3
+    WHEN 'unanimous' THEN v_share = 1
+    ELSE v_share > 0.5
+  END;
+
+  RETURN jsonb_build_object(
+    'options', v_options,
+    'rounds', CASE WHEN v_vote.ballot_type = 'ranked' THEN v_rounds END,
+    'cast_votes', v_cast_votes,
+    'cast_weight', v_cast_weight,
+    'eligible_voters', v_vote.total_eligible_voters,
+    'eligible_weight', v_vote.eligible_weight,
+    'turnout_percent', v_turnout,
+    'quorum_met', v_quorum_met,
+    'winner_index', CASE WHEN v_passed THEN v_leader END,
+    'winner_label', CASE WHEN v_passed THEN v_vote.options ->> v_leader END,
+    'winning_share', round(v_share * 100, 2),
+    'passed', v_passed
+  );
+END;
+$$;
+
+-- 7. Carry out what a passed (or, for loans, rejected) vote decided
+CREATE OR REPLACE FUNCTION public.execute_chama_vote_action(p_vote_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vote public.chama_votes%ROWTYPE;
+  v_key TEXT;
+  v_value JSONB;
+BEGIN
+  SELECT * INTO v_vote FROM public.chama_votes WHERE id = p_vote_id;
+
+  IF v_vote.action_type = 'approve_loan' THEN
+    UPDATE public.chama_loans
+    SET status = CASE WHEN v_vote.outcome = 'passed' THEN 'approved' ELSE 'rejected' END,
+        approved_at = CASE WHEN v_vote.outcome = 'passed' THEN now() ELSE approved_at END,
+        updated_at = now()
+    WHERE id = v_vote.reference_id
+      AND chama_id = v_vote.chama_id
+      AND status = 'pending';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The loan is no longer pending';
+    END IF;
+
+  ELSIF v_vote.action_type = 'update_settings' AND v_vote.outcome = 'passed' THEN
+    FOR v_key, v_value IN SELECT * FROM jsonb_each(v_vote.action_payload) LOOP
+      EXECUTE format(
+        'UPDATE public.chama_settings SET %I = ($1 #>> ''{}'')::%s, updated_at = now() WHERE chama_id = $2',
+        v_key, public.chama_setting_type(v_key)
+      ) USING v_value, v_vote.chama_id;
+    END LOOP;
+  END IF;
+END;
+$$;
+
+-- 8. Close a vote, record the outcome, act on it and tell the members
+CREATE OR REPLACE FUNCTION public.resolve_chama_vote(p_vote_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vote public.chama_votes%ROWTYPE;
+  v_results JSONB;
+  v_outcome TEXT;
+  v_summary TEXT;
+  v_action_error TEXT;
+BEGIN
+  SELECT * INTO v_vote FROM public.chama_votes WHERE id = p_vote_id FOR UPDATE;
+  IF NOT FOUND OR v_vote.status <> 'active' THEN
+    RETURN NULL;
+  END IF;
+
+  v_results := public.tally_chama_vote(p_vote_id);
+  v_outcome := CASE
+    WHEN NOT (v_results ->> 'quorum_met')::boolean THEN 'no_quorum'
+    WHEN (v_results ->> 'passed')::boolean THEN 'passed'
+    ELSE 'rejected'
+  END;
+
+  UPDATE public.chama_votes
+  SET status = CASE WHEN v_outcome = 'no_quorum' THEN 'expired' ELSE 'completed' END,
+      outcome = v_outcome,
+      results = v_results,
+      resolved_at = now(),
+      yes_votes = CASE WHEN ballot_type = 'yes_no' THEN (v_results -> 'options' -> 0 ->> 'votes')::int ELSE yes_votes END,
+      no_votes = CASE WHEN ballot_type = 'yes_no' THEN (v_results -> 'options' -> 1 ->> 'votes')::int ELSE no_votes END
+  WHERE id = p_vote_id
+  RETURNING * INTO v_vote;
+
+  IF v_vote.action_type IS NOT NULL AND v_outcome <> 'no_quorum' THEN
+    BEGIN
+      PERFORM public.execute_chama_vote_action(p_vote_id);
+      UPDATE public.chama_votes SET action_executed_at = now() WHERE id = p_vote_id;
+    EXCEPTION WHEN OTHERS THEN
+      v_action_error := SQLERRM;
+      UPDATE public.chama_votes SET action_error = v_action_error WHERE id = p_vote_id;
+    END;
+  END IF;
+
+  v_summary := CASE v_outcome
+    WHEN 'no_quorum' THEN 'closed without reaching quorum (' || (v_results ->> 'turnout_percent') || '% turnout)'
+    WHEN 'passed' THEN CASE WHEN v_vote.ballot_type = 'yes_no' THEN 'passed'
+                            ELSE 'was won by "' || (v_results ->> 'winner_label') || '"' END
+    ELSE CASE WHEN v_vote.ballot_type = 'yes_no' THEN 'was rejected'
+              ELSE 'closed with no option reaching the threshold' END
+  END;
+
+  INSERT INTO public.chama_notifications (user_id, chama_id, type, title, message, metadata)
+  SELECT
+    cm.user_id,
+    v_vote.chama_id,
+    'vote_resolved',
+    'Vote closed: ' || v_vote.title,
+    '"' || v_vote.title || '" ' || v_summary || '.'
+      || CASE WHEN v_action_error IS NOT NULL THEN ' The follow-up action could not be completed: ' || v_action_error ELSE '' END,
+    jsonb_build_object('vote_id', p_vote_id, 'outcome', v_outcome)
+  FROM public.chama_members cm
+  WHERE cm.chama_id = v_vote.chama_id AND cm.is_active = true;
+
+  INSERT INTO public.chama_activities (chama_id, member_id, activity_type, description)
+  VALUES (v_vote.chama_id, v_vote.initiated_by, 'vote_resolved', 'Vote "' || v_vote.title || '" ' || v_summary);
+
+  RETURN jsonb_build_object('outcome', v_outcome, 'results', v_results, 'action_error', v_action_error);
+END;
+$$;
+
+-- 9. Cast or change a ballot: p_option_index for yes/no (0 = yes, 1 = no)
+-- and multiple-choice votes, p_rankings for ranked votes
+CREATE OR REPLACE FUNCTION public.cast_ballot(
+  p_vote_id UUID,
+  p_option_index INTEGER DEFAULT NULL,
+  p_rankings INTEGER[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vote public.chama_votes%ROWTYPE;
+  v_voter RECORD;
+  v_option_count INTEGER;
+  v_cast INTEGER;
+  v_resolution JSONB;
+BEGIN
+  SELECT * INTO v_vote FROM public.chama_votes WHERE id = p_vote_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Vote not found');
+  END IF;
+
+  IF v_vote.status <> 'active' OR v_vote.deadline <= now() THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Voting has closed');
+  END IF;
+
+  SELECT cm.id, e.weight INTO v_voter
+  FROM public.chama_vote_electorate e
+  JOIN public.chama_members cm ON cm.id = e.member_id
+  WHERE e.vote_id = p_vote_id
+    AND cm.user_id = auth.uid()
+    AND cm.is_active = true;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Only members who were active when this vote opened can vote');
+  END IF;
+
+  v_option_count := jsonb_array_length(v_vote.options);
+
+  IF v_vote.ballot_type = 'ranked' THEN
+    IF p_rankings IS NULL OR cardinality(p_rankings) = 0
+       OR EXISTS (SELECT 1 FROM unnest(p_rankings) r WHERE r IS NULL OR r < 0 OR r >= v_option_count)
+       OR (SELECT count(DISTINCT r) FROM unnest(p_rankings) r) <> cardinality(p_rankings) THEN
+      RETURN jsonb_build_object('success', false, 'message', 'Rank each option at most once');
+    END IF;
+    p_option_index := NULL;
+  ELSE
+    IF p_option_index IS NULL OR p_option_index < 0 OR p_option_index >= v_option_count THEN
+      RETURN jsonb_build_object('success', false, 'message', 'Choose one of the options');
+    END IF;
+    p_rankings := NULL;
+  END IF;
+
+  INSERT INTO public.vote_responses (vote_id, voter_id, member_id, response, option_index, rankings, weight)
+  VALUES (
+    p_vote_id,
+    auth.uid(),
+    v_voter.id,
+    CASE WHEN v_vote.ballot_type = 'yes_no' THEN p_option_index = 0 END,
+    p_option_index,
+    p_rankings,
+    v_voter.weight
+  )
+  ON CONFLICT (vote_id, voter_id) DO UPDATE
+    SET response = EXCLUDED.response,
+        option_index = EXCLUDED.option_index,
+        rankings = EXCLUDED.rankings,
+        weight = EXCLUDED.weight,
+        updated_at = now();
+
+  -- Open ballots show running totals; secret ones only at close
+  IF NOT v_vote.is_secret THEN
+    UPDATE public.chama_votes
+    SET yes_votes = (SELECT count(*) FROM public.vote_responses WHERE vote_id = p_vote_id AND option_index = 0),
+        no_votes = (SELECT count(*) FROM public.vote_responses WHERE vote_id = p_vote_id AND option_index = 1),
+        results = public.tally_chama_vote(p_vote_id)
+    WHERE id = p_vote_id;
+  END IF;
+
+  -- Nothing left to wait for once the whole electorate has voted
+  SELECT count(*) INTO v_cast FROM public.vote_responses WHERE vote_id = p_vote_id;
+  IF v_cast >= v_vote.total_eligible_voters THEN
+    v_resolution := public.resolve_chama_vote(p_vote_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'resolved', v_resolution IS NOT NULL,
+    'outcome', v_resolution ->> 'outcome'
+  );
+END;
+$$;
+
+-- The original yes/no entry point, kept for existing callers
+CREATE OR REPLACE FUNCTION public.cast_vote(vote_id UUID, voter_choice BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result JSONB;
+BEGIN
+  v_result := public.cast_ballot(cast_vote.vote_id, CASE WHEN voter_choice THEN 0 ELSE 1 END);
+  IF NOT (v_result ->> 'success')::boolean THEN
+    RAISE EXCEPTION '%', v_result ->> 'message';
+  END IF;
+END;
+$$;
+
+-- 10. Resolve every vote whose deadline has passed
+CREATE OR REPLACE FUNCTION public.resolve_due_chama_votes()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vote_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_vote_id IN
+    SELECT id FROM public.chama_votes
+    WHERE status = 'active' AND deadline <= now()
+    ORDER BY deadline
+  LOOP
+    IF public.resolve_chama_vote(v_vote_id) IS NOT NULL THEN
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_chama_vote(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.resolve_due_chama_votes() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.execute_chama_vote_action(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cast_ballot(UUID, INTEGER, INTEGER[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cast_vote(UUID, BOOLEAN) TO authenticated;
+
+-- 11. Check for due votes every 10 minutes
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'resolve-chama-votes',
+  '*/10 * * * *',
+  $$SELECT public.resolve_due_chama_votes();$$
+);
+
+COMMENT ON TABLE public.chama_vote_electorate IS 'Members eligible to vote on a chama vote and their voting weight, fixed when the vote opened';
+COMMENT ON COLUMN public.chama_votes.results IS 'Tally from tally_chama_vote(); live for open ballots, filled at close for secret ones';
+COMMENT ON COLUMN public.chama_votes.action_type IS 'What a passed vote does: approve_loan (reference_id) or update_settings (action_payload)';
+COMMENT ON FUNCTION public.resolve_due_chama_votes() IS 'Every 10 minutes: closes votes past their deadline and carries out their actions';
@@ -0,0 +1,1057 @@
+-- ============================================
+-- APPROVAL-GATED CHAMA ACTIONS
+-- ============================================
+-- Large withdrawals, large loan disbursements, role changes and deleting a
+-- chama no longer happen on one officer's say-so. Each chama sets a policy:
+-- * officers: N of the chama's officers (admin, chairman, treasurer,
+--   secretary) must approve; the officer asking counts as the first approval
+-- * member_vote: the request goes to a member vote under the chama's
+--   usual quorum and threshold
+-- A gated request opens a proposal in chama_votes carrying the action; the
+-- action runs only once the proposal passes, and every step (request,
+-- approvals, execution or rejection) is written to chama_audit_trail.
+-- ============================================
+
+-- 1. Each chama's approval policy; a NULL threshold means that action is never gated
+ALTER TABLE public.chama_settings
+  ADD COLUMN IF NOT EXISTS sensitive_approval_mode TEXT NOT NULL DEFAULT 'officers',
+  ADD COLUMN IF NOT EXISTS sensitive_approvals_required INTEGER NOT NULL DEFAULT 2,
+  ADD COLUMN IF NOT EXISTS withdrawal_approval_threshold NUMERIC(15,2) DEFAULT 50000,
+  ADD COLUMN IF NOT EXISTS disbursement_approval_threshold NUMERIC(15,2) DEFAULT 50000,
+  ADD COLUMN IF NOT EXISTS role_change_requires_approval BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS deletion_requires_approval BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE public.chama_settings
+  DROP CONSTRAINT IF EXISTS chama_settings_sensitive_approval_mode_check,
+  DROP CONSTRAINT IF EXISTS chama_settings_sensitive_approvals_required_check;
+ALTER TABLE public.chama_settings
+  ADD CONSTRAINT chama_settings_sensitive_approval_mode_check
+    CHECK (sensitive_approval_mode IN ('officers', 'member_vote')),
+  ADD CONSTRAINT chama_settings_sensitive_approvals_required_check
+    CHECK (sensitive_approvals_required >= 1);
+
+-- 2. Proposals: the new actions, and who signs off on them
+ALTER TABLE public.chama_votes
+  ADD COLUMN IF NOT EXISTS electorate TEXT NOT NULL DEFAULT 'members',
+  ADD COLUMN IF NOT EXISTS required_approvals INTEGER;
+
+ALTER TABLE public.chama_votes
+  DROP CONSTRAINT IF EXISTS chama_votes_action_type_check,
+  DROP CONSTRAINT IF EXISTS chama_votes_electorate_check;
+ALTER TABLE public.chama_votes
+  ADD CONSTRAINT chama_votes_action_type_check CHECK (action_type IN (
+    'approve_loan', 'update_settings', 'withdrawal', 'loan_disbursement', 'role_change', 'delete_chama'
+  )),
+  ADD CONSTRAINT chama_votes_electorate_check CHECK (electorate IN ('members', 'officers'));
+
+CREATE OR REPLACE FUNCTION public.is_chama_officer_role(p_role TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(p_role IN ('admin', 'chairman', 'treasurer', 'secretary'), false);
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_sensitive_chama_action(p_action_type TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(p_action_type IN ('withdrawal', 'loan_disbursement', 'role_change', 'delete_chama'), false);
+$$;
+
+-- Whether the chama's policy puts this action up for approval
+CREATE OR REPLACE FUNCTION public.chama_action_requires_approval(
+  p_chama_id UUID,
+  p_action_type TEXT,
+  p_amount NUMERIC DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings public.chama_settings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_settings FROM public.chama_settings WHERE chama_id = p_chama_id;
+
+  RETURN COALESCE(CASE p_action_type
+    WHEN 'withdrawal' THEN p_amount >= v_settings.withdrawal_approval_threshold
+    WHEN 'loan_disbursement' THEN p_amount >= v_settings.disbursement_approval_threshold
+    WHEN 'role_change' THEN COALESCE(v_settings.role_change_requires_approval, true)
+    WHEN 'delete_chama' THEN COALESCE(v_settings.deletion_requires_approval, true)
+  END, false);
+END;
+$$;
+
+-- 3. Fill in the chama's rules and check the ballot before a vote opens;
+-- proposals for gated actions always follow the approval policy
+CREATE OR REPLACE FUNCTION public.prepare_chama_vote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings public.chama_settings%ROWTYPE;
+  v_option_count INTEGER;
+  v_officers INTEGER;
+  v_key TEXT;
+  v_value JSONB;
+  v_type TEXT;
+BEGIN
+  SELECT * INTO v_settings FROM public.chama_settings WHERE chama_id = NEW.chama_id;
+
+  -- A signed-in member can only open a vote in their own name
+  IF auth.uid() IS NOT NULL THEN
+    SELECT id INTO NEW.initiated_by
+    FROM public.chama_members
+    WHERE chama_id = NEW.chama_id AND user_id = auth.uid() AND is_active = true;
+  END IF;
+
+  NEW.electorate := 'members';
+  NEW.required_approvals := NULL;
+
+  IF public.is_sensitive_chama_action(NEW.action_type) THEN
+    NEW.ballot_type := 'yes_no';
+    NEW.is_secret := false;
+    NEW.approval_threshold := NULL;
+    NEW.quorum_percent := NULL;
+    NEW.weighting := NULL;
+
+    IF COALESCE(v_settings.sensitive_approval_mode, 'officers') = 'officers' THEN
+      SELECT count(*) INTO v_officers
+      FROM public.chama_members
+      WHERE chama_id = NEW.chama_id AND is_active = true AND public.is_chama_officer_role(role);
+
+      IF v_officers = 0 THEN
+        RAISE EXCEPTION 'This chama has no officers to approve the request';
+      END IF;
+
+      -- Never ask for more approvals than there are officers
+      NEW.electorate := 'officers';
+      NEW.required_approvals := LEAST(COALESCE(v_settings.sensitive_approvals_required, 2), v_officers);
+      NEW.approval_threshold := 'simple_majority';
+      NEW.quorum_percent := 0;
+      NEW.weighting := 'per_member';
+    END IF;
+  END IF;
+
+  NEW.status := 'active';
+  NEW.deadline := COALESCE(NEW.deadline, now() + INTERVAL '7 days');
+  NEW.quorum_percent := COALESCE(NEW.quorum_percent, v_settings.vote_quorum_percent, 50);
+  NEW.weighting := COALESCE(NEW.weighting, v_settings.vote_weighting, 'per_member');
+  NEW.approval_threshold := COALESCE(
+    NEW.approval_threshold,
+    CASE
+      WHEN v_settings.voting_threshold >= 100 THEN 'unanimous'
+      WHEN v_settings.voting_threshold >= 66 THEN 'two_thirds'
+      ELSE 'simple_majority'
+    END
+  );
+
+  IF NEW.deadline <= now() THEN
+    RAISE EXCEPTION 'The voting deadline must be in the future';
+  END IF;
+
+  IF NEW.quorum_percent < 0 OR NEW.quorum_percent > 100 THEN
+    RAISE EXCEPTION 'Quorum must be between 0 and 100 percent';
+  END IF;
+
+  IF NEW.ballot_type = 'yes_no' THEN
+    NEW.options := '["Yes", "No"]'::jsonb;
+  ELSE
+    v_option_count := CASE WHEN jsonb_typeof(NEW.options) = 'array' THEN jsonb_array_length(NEW.options) ELSE 0 END;
+    IF v_option_count < 2 THEN
+      RAISE EXCEPTION 'Multiple-choice and ranked votes need at least two options';
+    END IF;
+    IF NEW.action_type IS NOT NULL THEN
+      RAISE EXCEPTION 'Only yes/no votes can carry out an action';
+    END IF;
+  END IF;
+
+  IF NEW.action_type = 'approve_loan' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.chama_loans
+      WHERE id = NEW.reference_id AND chama_id = NEW.chama_id AND status = 'pending'
+    ) THEN
+      RAISE EXCEPTION 'A loan approval vote needs a pending loan in this chama';
+    END IF;
+  ELSIF NEW.action_type = 'update_settings' THEN
+    IF jsonb_typeof(NEW.action_payload) IS DISTINCT FROM 'object' OR NEW.action_payload = '{}'::jsonb THEN
+      RAISE EXCEPTION 'A settings vote needs the settings to change';
+    END IF;
+
+    -- Catch unknown settings and bad values now rather than when the vote passes
+    FOR v_key, v_value IN SELECT * FROM jsonb_each(NEW.action_payload) LOOP
+      v_type := public.chama_setting_type(v_key);
+      IF v_type IS NULL THEN
+        RAISE EXCEPTION 'Unknown chama setting: %', v_key;
+      END IF;
+      EXECUTE format('SELECT ($1 #>> ''{}'')::%s', v_type) USING v_value;
+    END LOOP;
+  ELSIF NEW.action_type = 'withdrawal' THEN
+    IF (NEW.action_payload ->> 'member_id')::uuid IS DISTINCT FROM NEW.initiated_by THEN
+      RAISE EXCEPTION 'Members can only ask to withdraw their own funds';
+    END IF;
+    IF COALESCE((NEW.action_payload ->> 'amount')::numeric, 0) <= 0 THEN
+      RAISE EXCEPTION 'A withdrawal request needs an amount';
+    END IF;
+  ELSIF NEW.action_type = 'loan_disbursement' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.chama_loan_requests
+      WHERE id = NEW.reference_id AND chama_id = NEW.chama_id AND NOT COALESCE(disbursement_status, false)
+    ) THEN
+      RAISE EXCEPTION 'A disbursement request needs an undisbursed loan in this chama';
+    END IF;
+  ELSIF NEW.action_type = 'role_change' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.chama_members
+      WHERE id = NEW.reference_id AND chama_id = NEW.chama_id AND is_active = true
+    ) THEN
+      RAISE EXCEPTION 'A role change needs an active member of this chama';
+    END IF;
+    IF COALESCE(NEW.action_payload ->> 'new_role', '') NOT IN ('admin', 'chairman', 'treasurer', 'secretary', 'member') THEN
+      RAISE EXCEPTION 'Unknown role: %', NEW.action_payload ->> 'new_role';
+    END IF;
+  ELSIF NEW.action_type = 'delete_chama' THEN
+    NEW.reference_id := NEW.chama_id;
+  END IF;
+
+  -- Fix the electorate's size and weight; the members themselves are
+  -- recorded once the vote row exists
+  SELECT
+    count(*),
+    CASE WHEN NEW.weighting = 'savings' THEN COALESCE(sum(GREATEST(COALESCE(savings_balance, 0), 0)), 0)
+         ELSE count(*) END
+  INTO NEW.total_eligible_voters, NEW.eligible_weight
+  FROM public.chama_members
+  WHERE chama_id = NEW.chama_id
+    AND is_active = true
+    AND (NEW.electorate = 'members' OR public.is_chama_officer_role(role));
+
+  IF NEW.eligible_weight <= 0 THEN
+    RAISE EXCEPTION 'No member has savings to weight this vote by';
+  END IF;
+
+  NEW.yes_votes := 0;
+  NEW.no_votes := 0;
+  NEW.outcome := NULL;
+  NEW.results := NULL;
+  NEW.resolved_at := NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Record the electorate and, for gated actions, log the request and ask for approval
+CREATE OR REPLACE FUNCTION public.snapshot_chama_vote_electorate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.chama_vote_electorate (vote_id, member_id, weight)
+  SELECT
+    NEW.id,
+    cm.id,
+    CASE WHEN NEW.weighting = 'savings' THEN GREATEST(COALESCE(cm.savings_balance, 0), 0) ELSE 1 END
+  FROM public.chama_members cm
+  WHERE cm.chama_id = NEW.chama_id
+    AND cm.is_active = true
+    AND (NEW.electorate = 'members' OR public.is_chama_officer_role(cm.role));
+
+  IF public.is_sensitive_chama_action(NEW.action_type) THEN
+    INSERT INTO public.chama_audit_trail (chama_id, actor_id, action, target_member_id, amount, details)
+    VALUES (
+      NEW.chama_id,
+      NEW.initiated_by,
+      'approval_requested',
+      CASE NEW.action_type
+        WHEN 'withdrawal' THEN (NEW.action_payload ->> 'member_id')::uuid
+        WHEN 'role_change' THEN NEW.reference_id
+      END,
+      (NEW.action_payload ->> 'amount')::numeric,
+      jsonb_build_object(
+        'vote_id', NEW.id,
+        'action_type', NEW.action_type,
+        'reference_id', NEW.reference_id,
+        'payload', NEW.action_payload,
+        'electorate', NEW.electorate,
+        'required_approvals', NEW.required_approvals
+      )
+    );
+
+    INSERT INTO public.chama_notifications (user_id, chama_id, type, title, message, metadata)
+    SELECT
+      cm.user_id,
+      NEW.chama_id,
+      'approval_requested',
+      'Approval needed: ' || NEW.title,
+      CASE WHEN NEW.electorate = 'officers'
+           THEN format('"%s" needs %s officer approvals before it goes ahead.', NEW.title, NEW.required_approvals)
+           ELSE format('"%s" has been put to a member vote.', NEW.title) END,
+      jsonb_build_object('vote_id', NEW.id, 'action_type', NEW.action_type)
+    FROM public.chama_vote_electorate e
+    JOIN public.chama_members cm ON cm.id = e.member_id
+    WHERE e.vote_id = NEW.id
+      AND cm.id IS DISTINCT FROM NEW.initiated_by;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 4. Log every officer's approval or refusal of a gated action
+CREATE OR REPLACE FUNCTION public.audit_chama_approval_ballot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vote public.chama_votes%ROWTYPE;
+BEGIN
+  SELECT * INTO v_vote FROM public.chama_votes WHERE id = NEW.vote_id;
+
+  IF public.is_sensitive_chama_action(v_vote.action_type)
+     AND (TG_OP = 'INSERT' OR NEW.option_index IS DISTINCT FROM OLD.option_index) THEN
+    INSERT INTO public.chama_audit_trail (chama_id, actor_id, action, details)
+    VALUES (
+      v_vote.chama_id,
+      NEW.member_id,
+      CASE WHEN NEW.option_index = 0 THEN 'approval_granted' ELSE 'approval_declined' END,
+      jsonb_build_object('vote_id', v_vote.id, 'action_type', v_vote.action_type, 'reference_id', v_vote.reference_id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_chama_approval_ballot ON public.vote_responses;
+CREATE TRIGGER audit_chama_approval_ballot
+AFTER INSERT OR UPDATE ON public.vote_responses
+FOR EACH ROW EXECUTE FUNCTION public.audit_chama_approval_ballot();
+
+-- 5. Delete a chama outright; only reached once any required approval is in
+CREATE OR REPLACE FUNCTION public.purge_chama(p_chama_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Delete related mpesa_transactions first
+  DELETE FROM public.mpesa_transactions WHERE chama_id = p_chama_id;
+
+  -- Delete chama (cascading deletes will handle other related records)
+  DELETE FROM public.chamas WHERE id = p_chama_id;
+END;
+$$;
+
+-- 6. Carry out what a passed (or, for loans, rejected) vote decided
+CREATE OR REPLACE FUNCTION public.execute_chama_vote_action(p_vote_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vote public.chama_votes%ROWTYPE;
+  v_key TEXT;
+  v_value JSONB;
+  v_member public.chama_members%ROWTYPE;
+  v_initiator_user UUID;
+  v_amount NUMERIC;
+  v_method TEXT;
+  v_reference TEXT;
+  v_wallet_id UUID;
+  v_status TEXT;
+  v_loan RECORD;
+  v_old_role TEXT;
+  v_new_role TEXT;
+  v_chama_name TEXT;
+BEGIN
+  SELECT * INTO v_vote FROM public.chama_votes WHERE id = p_vote_id;
+
+  IF v_vote.action_type = 'approve_loan' THEN
+    UPDATE public.chama_loans
+    SET status = CASE WHEN v_vote.outcome = 'passed' THEN 'approved' ELSE 'rejected' END,
+        approved_at = CASE WHEN v_vote.outcome = 'passed' THEN now() ELSE approved_at END,
+        updated_at = now()
+    WHERE id = v_vote.reference_id
+      AND chama_id = v_vote.chama_id
+      AND status = 'pending';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The loan is no longer pending';
+    END IF;
+
+  ELSIF v_vote.outcome IS DISTINCT FROM 'passed' THEN
+    -- Nothing to undo: a refused request simply never happens
+    RETURN;
+
+  ELSIF v_vote.action_type = 'update_settings' THEN
+    -- Lets guard_chama_approval_policy() accept approval rules changed by vote
+    PERFORM set_config('chama.approved_action', 'on', true);
+
+    FOR v_key, v_value IN SELECT * FROM jsonb_each(v_vote.action_payload) LOOP
+      EXECUTE format(
+        'UPDATE public.chama_settings SET %I = ($1 #>> ''{}'')::%s, updated_at = now() WHERE chama_id = $2',
+        v_key, public.chama_setting_type(v_key)
+      ) USING v_value, v_vote.chama_id;
+    END LOOP;
+
+    PERFORM set_config('chama.approved_action', '', true);
+
+  ELSIF v_vote.action_type = 'withdrawal' THEN
+    v_amount := (v_vote.action_payload ->> 'amount')::numeric;
+    v_method := COALESCE(v_vote.action_payload ->> 'payout_method', 'mpesa');
+
+    SELECT * INTO v_member
+    FROM public.chama_members
+    WHERE id = (v_vote.action_payload ->> 'member_id')::uuid
+      AND chama_id = v_vote.chama_id
+      AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The member is no longer active in this chama';
+    END IF;
+
+    IF v_member.withdrawal_locked THEN
+      RAISE EXCEPTION 'Withdrawals are locked for this member';
+    END IF;
+
+    IF COALESCE(v_member.mgr_balance, 0) < v_amount THEN
+      RAISE EXCEPTION 'Insufficient MGR balance. Available: %', COALESCE(v_member.mgr_balance, 0);
+    END IF;
+
+    UPDATE public.chama_members
+    SET mgr_balance = mgr_balance - v_amount
+    WHERE id = v_member.id;
+
+    v_reference := 'WD-' || (extract(epoch FROM clock_timestamp()) * 1000)::bigint;
+    v_status := 'pending';
+
+    IF v_method = 'internal' THEN
+      -- MGR balances live on chama_members, outside the ledger, so the
+      -- central wallet credit is posted as an inflow
+      SELECT id INTO v_wallet_id FROM public.user_central_wallets WHERE user_id = v_member.user_id;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Central wallet not found';
+      END IF;
+
+      PERFORM public.post_ledger_transaction(
+        'mgr_payout',
+        'external',
+        NULL,
+        'user_central_wallet',
+        v_wallet_id,
+        v_amount,
+        v_reference,
+        'Merry-go-round withdrawal to central wallet',
+        jsonb_build_object('chama_id', v_vote.chama_id, 'member_id', v_member.id, 'source', 'mgr_balance', 'vote_id', p_vote_id)
+      );
+      v_status := 'completed';
+    END IF;
+
+    INSERT INTO public.chama_audit_trail (chama_id, actor_id, action, amount, details)
+    VALUES (
+      v_vote.chama_id,
+      v_member.id,
+      'withdraw_mgr_wallet',
+      v_amount,
+      jsonb_build_object('method', v_method, 'status', v_status, 'reference', v_reference, 'vote_id', p_vote_id)
+        || COALESCE(v_vote.action_payload -> 'payout_details', '{}'::jsonb)
+    );
+
+    INSERT INTO public.chama_notifications (user_id, chama_id, type, title, message, metadata)
+    VALUES (
+      v_member.user_id,
+      v_vote.chama_id,
+      'withdrawal',
+      'Withdrawal Approved',
+      format('Your withdrawal of KES %s has been approved and initiated via %s.', v_amount, v_method),
+      jsonb_build_object('vote_id', p_vote_id, 'reference', v_reference)
+    );
+
+  ELSIF v_vote.action_type = 'loan_disbursement' THEN
+    SELECT lr.id, lr.amount, lr.disbursement_status, cm.user_id AS borrower_user_id
+    INTO v_loan
+    FROM public.chama_loan_requests lr
+    LEFT JOIN public.chama_members cm ON cm.id = lr.borrower_id
+    WHERE lr.id = v_vote.reference_id AND lr.chama_id = v_vote.chama_id
+    FOR UPDATE OF lr;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Loan not found';
+    END IF;
+
+    IF v_loan.disbursement_status THEN
+      RAISE EXCEPTION 'The loan has already been disbursed';
+    END IF;
+
+    UPDATE public.chama_loan_requests
+    SET disbursement_status = true,
+        status = 'approved'
+    WHERE id = v_loan.id;
+
+    INSERT INTO public.chama_notifications (user_id, chama_id, type, title, message, metadata)
+    VALUES (
+      v_loan.borrower_user_id,
+      v_vote.chama_id,
+      'loan',
+      'Loan Disbursed',
+      'Your loan has been disbursed. Please provide your payment details to receive the funds.',
+      jsonb_build_object('loan_id', v_loan.id, 'vote_id', p_vote_id)
+    );
+
+    INSERT INTO public.chama_activities (chama_id, activity_type, description, amount)
+    VALUES (v_vote.chama_id, 'loan_disbursed', format('Loan of KES %s disbursed after approval', v_loan.amount), v_loan.amount);
+
+  ELSIF v_vote.action_type = 'role_change' THEN
+    v_new_role := v_vote.action_payload ->> 'new_role';
+
+    SELECT * INTO v_member
+    FROM public.chama_members
+    WHERE id = v_vote.reference_id AND chama_id = v_vote.chama_id AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The member is no longer active in this chama';
+    END IF;
+
+    v_old_role := v_member.role;
+
+    UPDATE public.chama_members SET role = v_new_role WHERE id = v_member.id;
+
+    SELECT user_id INTO v_initiator_user FROM public.chama_members WHERE id = v_vote.initiated_by;
+
+    INSERT INTO public.chama_audit_logs (chama_id, actor_id, target_id, action, old_value, new_value, details)
+    VALUES (
+      v_vote.chama_id,
+      COALESCE(v_initiator_user, v_member.user_id),
+      v_member.user_id,
+      'role_change',
+      v_old_role,
+      v_new_role,
+      jsonb_build_object('member_id', v_member.id, 'vote_id', p_vote_id)
+    );
+
+    INSERT INTO public.chama_activities (chama_id, member_id, activity_type, description)
+    VALUES (v_vote.chama_id, v_member.id, 'role_assigned', format('Role changed from %s to %s after approval', v_old_role, v_new_role));
+
+    INSERT INTO public.chama_notifications (user_id, chama_id, type, title, message, metadata)
+    VALUES (
+      v_member.user_id,
+      v_vote.chama_id,
+      'role_change',
+      '🎖️ Role Updated',
+      format('Your role has been updated to %s', v_new_role),
+      jsonb_build_object('old_role', v_old_role, 'new_role', v_new_role, 'vote_id', p_vote_id)
+    );
+
+  ELSIF v_vote.action_type = 'delete_chama' THEN
+    SELECT name INTO v_chama_name FROM public.chamas WHERE id = v_vote.chama_id;
+    SELECT user_id INTO v_initiator_user FROM public.chama_members WHERE id = v_vote.initiated_by;
+
+    -- The chama's own audit trail and notifications go with it, so the
+    -- record of the deletion is kept outside the chama
+    INSERT INTO public.audit_logs (user_id, action, resource_type, resource_id, old_values)
+    VALUES (
+      v_initiator_user,
+      'chama_deleted',
+      'chama',
+      v_vote.chama_id,
+      jsonb_build_object(
+        'name', v_chama_name,
+        'vote_id', p_vote_id,
+        'approvals', v_vote.yes_votes,
+        'required_approvals', v_vote.required_approvals,
+        'approved_by', (
+          SELECT jsonb_agg(cm.user_id)
+          FROM public.vote_responses vr
+          JOIN public.chama_members cm ON cm.id = vr.member_id
+          WHERE vr.vote_id = p_vote_id AND vr.option_index = 0
+        )
+      )
+    );
+
+    INSERT INTO public.notifications (user_id, title, message, type)
+    SELECT cm.user_id, 'Chama Deleted', format('The chama "%s" has been deleted after approval.', v_chama_name), 'chama_deleted'
+    FROM public.chama_members cm
+    WHERE cm.chama_id = v_vote.chama_id AND cm.is_active = true;
+
+    PERFORM public.purge_chama(v_vote.chama_id);
+  END IF;
+END;
+$$;
+
+-- 7. Close a vote, record the outcome, act on it and tell the members.
+-- Officer sign-offs pass on their approval count alone.
+CREATE OR REPLACE FUNCTION public.resolve_chama_vote(p_vote_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vote public.chama_votes%ROWTYPE;
+  v_results JSONB;
+  v_outcome TEXT;
+  v_summary TEXT;
+  v_action_error TEXT;
+  v_approvals INTEGER;
+BEGIN
+  SELECT * INTO v_vote FROM public.chama_votes WHERE id = p_vote_id FOR UPDATE;
+  IF NOT FOUND OR v_vote.status <> 'active' THEN
+    RETURN NULL;
+  END IF;
+
+  v_results := public.tally_chama_vote(p_vote_id);
+
+  IF v_vote.required_approvals IS NOT NULL THEN
+    v_approvals := (v_results -> 'options' -> 0 ->> 'votes')::int;
+    v_results := v_results || jsonb_build_object(
+      'quorum_met', true,
+      'passed', v_approvals >= v_vote.required_approvals,
+      'approvals', v_approvals,
+      'required_approvals', v_vote.required_approvals
+    );
+  END IF;
+
+  v_outcome := CASE
+    WHEN NOT (v_results ->> 'quorum_met')::boolean THEN 'no_quorum'
+    WHEN (v_results ->> 'passed')::boolean THEN 'passed'
+    ELSE 'rejected'
+  END;
+
+  UPDATE public.chama_votes
+  SET status = CASE WHEN v_outcome = 'no_quorum' THEN 'expired' ELSE 'completed' END,
+      outcome = v_outcome,
+      results = v_results,
+      resolved_at = now(),
+      yes_votes = CASE WHEN ballot_type = 'yes_no' THEN (v_results -> 'options' -> 0 ->> 'votes')::int ELSE yes_votes END,
+      no_votes = CASE WHEN ballot_type = 'yes_no' THEN (v_results -> 'options' -> 1 ->> 'votes')::int ELSE no_votes END
+  WHERE id = p_vote_id
+  RETURNING * INTO v_vote;
+
+  IF v_vote.action_type IS NOT NULL AND v_outcome <> 'no_quorum' THEN
+    BEGIN
+      PERFORM public.execute_chama_vote_action(p_vote_id);
+      UPDATE public.chama_votes SET action_executed_at = now() WHERE id = p_vote_id;
+    EXCEPTION WHEN OTHERS THEN
+      v_action_error := SQLERRM;
+      UPDATE public.chama_votes SET action_error = v_action_error WHERE id = p_vote_id;
+    END;
+  END IF;
+
+  -- A deleted chama takes its votes, members and trail with it; the
+  -- deletion itself was recorded by execute_chama_vote_action()
+  IF NOT EXISTS (SELECT 1 FROM public.chamas WHERE id = v_vote.chama_id) THEN
+    RETURN jsonb_build_object('outcome', v_outcome, 'results', v_results, 'action_error', NULL);
+  END IF;
+
+  IF public.is_sensitive_chama_action(v_vote.action_type) THEN
+    INSERT INTO public.chama_audit_trail (chama_id, actor_id, action, target_member_id, amount, details)
+    VALUES (
+      v_vote.chama_id,
+      v_vote.initiated_by,
+      CASE
+        WHEN v_action_error IS NOT NULL THEN 'approved_action_failed'
+        WHEN v_outcome = 'passed' THEN 'approved_action_executed'
+        ELSE 'approval_refused'
+      END,
+      CASE v_vote.action_type
+        WHEN 'withdrawal' THEN (v_vote.action_payload ->> 'member_id')::uuid
+        WHEN 'role_change' THEN v_vote.reference_id
+      END,
+      (v_vote.action_payload ->> 'amount')::numeric,
+      jsonb_build_object(
+        'vote_id', p_vote_id,
+        'action_type', v_vote.action_type,
+        'reference_id', v_vote.reference_id,
+        'outcome', v_outcome,
+        'approvals', (v_results -> 'options' -> 0 ->> 'votes')::int,
+        'refusals', (v_results -> 'options' -> 1 ->> 'votes')::int,
+        'required_approvals', v_vote.required_approvals,
+        'error', v_action_error
+      )
+    );
+  END IF;
+
+  v_summary := CASE
+    WHEN v_vote.required_approvals IS NOT NULL THEN
+      CASE WHEN v_outcome = 'passed' THEN 'was approved by the officers'
+           ELSE format('was not approved (%s of %s approvals)', v_approvals, v_vote.required_approvals) END
+    WHEN v_outcome = 'no_quorum' THEN 'closed without reaching quorum (' || (v_results ->> 'turnout_percent') || '% turnout)'
+    WHEN v_outcome = 'passed' THEN CASE WHEN v_vote.ballot_type = 'yes_no' THEN 'passed'
+                                        ELSE 'was won by "' || (v_results ->> 'winner_label') || '"' END
+    ELSE CASE WHEN v_vote.ballot_type = 'yes_no' THEN 'was rejected'
+              ELSE 'closed with no option reaching the threshold' END
+  END;
+
+  -- Officer sign-offs are reported to the officers and whoever asked
+  INSERT INTO public.chama_notifications (user_id, chama_id, type, title, message, metadata)
+  SELECT
+    cm.user_id,
+    v_vote.chama_id,
+    'vote_resolved',
+    'Vote closed: ' || v_vote.title,
+    '"' || v_vote.title || '" ' || v_summary || '.'
+      || CASE WHEN v_action_error IS NOT NULL THEN ' The follow-up action could not be completed: ' || v_action_error ELSE '' END,
+    jsonb_build_object('vote_id', p_vote_id, 'outcome', v_outcome)
+  FROM public.chama_members cm
+  WHERE cm.chama_id = v_vote.chama_id
+    AND cm.is_active = true
+    AND (
+      v_vote.electorate = 'members'
+      OR cm.id = v_vote.initiated_by
+      OR cm.id IN (SELECT member_id FROM public.chama_vote_electorate WHERE vote_id = p_vote_id)
+    );
+
+  INSERT INTO public.chama_activities (chama_id, member_id, activity_type, description)
+  VALUES (v_vote.chama_id, v_vote.initiated_by, 'vote_resolved', 'Vote "' || v_vote.title || '" ' || v_summary);
+
+  RETURN jsonb_build_object('outcome', v_outcome, 'results', v_results, 'action_error', v_action_error);
+END;
+$$;
+
+-- 8. Record a member's ballot. cast_ballot() is the signed-in entry point;
+-- request_chama_approval() uses this directly for the requesting officer.
+CREATE OR REPLACE FUNCTION public.record_chama_ballot(
+  p_vote_id UUID,
+  p_member_id UUID,
+  p_option_index INTEGER DEFAULT NULL,
+  p_rankings INTEGER[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vote public.chama_votes%ROWTYPE;
+  v_voter RECORD;
+  v_option_count INTEGER;
+  v_cast INTEGER;
+  v_yes INTEGER;
+  v_no INTEGER;
+  v_resolution JSONB;
+BEGIN
+  SELECT * INTO v_vote FROM public.chama_votes WHERE id = p_vote_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Vote not found');
+  END IF;
+
+  IF v_vote.status <> 'active' OR v_vote.deadline <= now() THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Voting has closed');
+  END IF;
+
+  SELECT cm.id, cm.user_id, e.weight INTO v_voter
+  FROM public.chama_vote_electorate e
+  JOIN public.chama_members cm ON cm.id = e.member_id
+  WHERE e.vote_id = p_vote_id
+    AND cm.id = p_member_id
+    AND cm.is_active = true;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', CASE WHEN v_vote.electorate = 'officers'
+                      THEN 'Only the chama officers can approve this request'
+                      ELSE 'Only members who were active when this vote opened can vote' END
+    );
+  END IF;
+
+  v_option_count := jsonb_array_length(v_vote.options);
+
+  IF v_vote.ballot_type = 'ranked' THEN
+    IF p_rankings IS NULL OR cardinality(p_rankings) = 0
+       OR EXISTS (SELECT 1 FROM unnest(p_rankings) r WHERE r IS NULL OR r < 0 OR r >= v_option_count)
+       OR (SELECT count(DISTINCT r) FROM unnest(p_rankings) r) <> cardinality(p_rankings) THEN
+      RETURN jsonb_build_object('success', false, 'message', 'Rank each option at most once');
+    END IF;
+    p_option_index := NULL;
+  ELSE
+    IF p_option_index IS NULL OR p_option_index < 0 OR p_option_index >= v_option_count THEN
+      RETURN jsonb_build_object('success', false, 'message', 'Choose one of the options');
+    END IF;
+    p_rankings := NULL;
+  END IF;
+
+  INSERT INTO public.vote_responses (vote_id, voter_id, member_id, response, option_index, rankings, weight)
+  VALUES (
+    p_vote_id,
+    v_voter.user_id,
+    v_voter.id,
+    CASE WHEN v_vote.ballot_type = 'yes_no' THEN p_option_index = 0 END,
+    p_option_index,
+    p_rankings,
+    v_voter.weight
+  )
+  ON CONFLICT (vote_id, voter_id) DO UPDATE
+    SET response = EXCLUDED.response,
+        option_index = EXCLUDED.option_index,
+        rankings = EXCLUDED.rankings,
+        weight = EXCLUDED.weight,
+        updated_at = now();
+
+  -- Open ballots show running totals; secret ones only at close
+  IF NOT v_vote.is_secret THEN
+    UPDATE public.chama_votes
+    SET yes_votes = (SELECT count(*) FROM public.vote_responses WHERE vote_id = p_vote_id AND option_index = 0),
+        no_votes = (SELECT count(*) FROM public.vote_responses WHERE vote_id = p_vote_id AND option_index = 1),
+        results = public.tally_chama_vote(p_vote_id)
+    WHERE id = p_vote_id;
+  END IF;
+
+  -- Nothing left to wait for once the whole electorate has voted, or once
+  -- an officer sign-off has its approvals or can no longer get them
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE option_index = 0),
+    count(*) FILTER (WHERE option_index = 1)
+  INTO v_cast, v_yes, v_no
+  FROM public.vote_responses
+  WHERE vote_id = p_vote_id;
+
+  IF v_cast >= v_vote.total_eligible_voters
+     OR (v_vote.required_approvals IS NOT NULL
+         AND (v_yes >= v_vote.required_approvals
+              OR v_no > v_vote.total_eligible_voters - v_vote.required_approvals)) THEN
+    v_resolution := public.resolve_chama_vote(p_vote_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'resolved', v_resolution IS NOT NULL,
+    'outcome', v_resolution ->> 'outcome',
+    'action_error', v_resolution ->> 'action_error'
+  );
+END;
+$$;
+
+-- Cast or change a ballot: p_option_index for yes/no (0 = yes, 1 = no)
+-- and multiple-choice votes, p_rankings for ranked votes
+CREATE OR REPLACE FUNCTION public.cast_ballot(
+  p_vote_id UUID,
+  p_option_index INTEGER DEFAULT NULL,
+  p_rankings INTEGER[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member_id UUID;
+BEGIN
+  SELECT cm.id INTO v_member_id
+  FROM public.chama_votes v
+  JOIN public.chama_members cm ON cm.chama_id = v.chama_id
+  WHERE v.id = p_vote_id
+    AND cm.user_id = auth.uid()
+    AND cm.is_active = true;
+
+  RETURN public.record_chama_ballot(p_vote_id, v_member_id, p_option_index, p_rankings);
+END;
+$$;
+
+-- 9. Open an approval request for a gated action, or report that none is
+-- needed so the caller can go ahead. The requesting officer's approval is
+-- recorded straight away, so a chama with a single officer is never stuck.
+CREATE OR REPLACE FUNCTION public.request_chama_approval(
+  p_chama_id UUID,
+  p_member_id UUID,
+  p_action_type TEXT,
+  p_title TEXT,
+  p_description TEXT DEFAULT NULL,
+  p_reference_id UUID DEFAULT NULL,
+  p_payload JSONB DEFAULT '{}'::jsonb,
+  p_amount NUMERIC DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vote public.chama_votes%ROWTYPE;
+  v_vote_id UUID;
+BEGIN
+  IF NOT public.is_sensitive_chama_action(p_action_type) THEN
+    RAISE EXCEPTION 'Unknown gated action: %', p_action_type;
+  END IF;
+
+  IF NOT public.chama_action_requires_approval(p_chama_id, p_action_type, p_amount) THEN
+    RETURN jsonb_build_object('success', true, 'requires_approval', false);
+  END IF;
+
+  -- One open request per loan, member role or chama
+  IF p_reference_id IS NOT NULL THEN
+    SELECT * INTO v_vote
+    FROM public.chama_votes
+    WHERE chama_id = p_chama_id
+      AND action_type = p_action_type
+      AND reference_id = p_reference_id
+      AND status = 'active';
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'success', true,
+        'requires_approval', true,
+        'pending', true,
+        'proposal_id', v_vote.id,
+        'message', 'This request is already awaiting approval'
+      );
+    END IF;
+  END IF;
+
+  INSERT INTO public.chama_votes (chama_id, title, description, vote_type, action_type, reference_id, action_payload, initiated_by)
+  VALUES (
+    p_chama_id,
+    p_title,
+    p_description,
+    p_action_type,
+    p_action_type,
+    p_reference_id,
+    COALESCE(p_payload, '{}'::jsonb) || CASE WHEN p_amount IS NOT NULL THEN jsonb_build_object('amount', p_amount) ELSE '{}'::jsonb END,
+    p_member_id
+  )
+  RETURNING id INTO v_vote_id;
+
+  IF EXISTS (
+    SELECT 1 FROM public.chama_votes v
+    JOIN public.chama_vote_electorate e ON e.vote_id = v.id
+    WHERE v.id = v_vote_id AND v.electorate = 'officers' AND e.member_id = p_member_id
+  ) THEN
+    PERFORM public.record_chama_ballot(v_vote_id, p_member_id, 0);
+  END IF;
+
+  SELECT * INTO v_vote FROM public.chama_votes WHERE id = v_vote_id;
+
+  IF NOT FOUND THEN
+    -- Approved at once and the chama is gone
+    RETURN jsonb_build_object(
+      'success', true,
+      'requires_approval', true,
+      'pending', false,
+      'proposal_id', v_vote_id,
+      'outcome', 'passed',
+      'message', 'Approved and carried out'
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', v_vote.action_error IS NULL,
+    'requires_approval', true,
+    'pending', v_vote.status = 'active',
+    'proposal_id', v_vote.id,
+    'outcome', v_vote.outcome,
+    'approvals', v_vote.yes_votes,
+    'required_approvals', v_vote.required_approvals,
+    'message', CASE
+      WHEN v_vote.action_error IS NOT NULL THEN 'Approved, but could not be carried out: ' || v_vote.action_error
+      WHEN v_vote.status <> 'active' THEN 'Approved and carried out'
+      WHEN v_vote.electorate = 'officers' THEN
+        format('Awaiting officer approval (%s of %s approvals)', v_vote.yes_votes, v_vote.required_approvals)
+      ELSE 'Put to a member vote'
+    END
+  );
+END;
+$$;
+
+-- 10. Deleting a chama goes through the approval policy
+CREATE OR REPLACE FUNCTION public.delete_chama(p_chama_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+declare
+  v_chama_name text;
+  v_member_id uuid;
+  v_request jsonb;
+begin
+  -- Check if user is admin of the chama
+  if not public.is_chama_admin(p_chama_id) then
+    raise exception 'Only admins can delete chamas';
+  end if;
+
+  -- Get chama name for logging
+  select name into v_chama_name from public.chamas where id = p_chama_id;
+
+  select id into v_member_id
+  from public.chama_members
+  where chama_id = p_chama_id and user_id = auth.uid() and is_active = true;
+
+  v_request := public.request_chama_approval(
+    p_chama_id,
+    v_member_id,
+    'delete_chama',
+    format('Delete the chama "%s"', v_chama_name),
+    'Deleting the chama permanently removes its members, savings records, loans and history.',
+    p_chama_id
+  );
+
+  if (v_request ->> 'requires_approval')::boolean then
+    return v_request;
+  end if;
+
+  perform public.purge_chama(p_chama_id);
+
+  return jsonb_build_object(
+    'success', true,
+    'message', format('Chama "%s" has been deleted successfully', v_chama_name)
+  );
+end;
+$$;
+
+-- 11. Approval rules change only by member vote, not by a single officer
+CREATE OR REPLACE FUNCTION public.guard_chama_approval_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND current_setting('chama.approved_action', true) IS DISTINCT FROM 'on'
+     AND (
+       NEW.sensitive_approval_mode, NEW.sensitive_approvals_required,
+       NEW.withdrawal_approval_threshold, NEW.disbursement_approval_threshold,
+       NEW.role_change_requires_approval, NEW.deletion_requires_approval
+     ) IS DISTINCT FROM (
+       OLD.sensitive_approval_mode, OLD.sensitive_approvals_required,
+       OLD.withdrawal_approval_threshold, OLD.disbursement_approval_threshold,
+       OLD.role_change_requires_approval, OLD.deletion_requires_approval
+     ) THEN
+    RAISE EXCEPTION 'Approval rules can only be changed by a member vote';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_chama_approval_policy ON public.chama_settings;
+CREATE TRIGGER guard_chama_approval_policy
+BEFORE UPDATE ON public.chama_settings
+FOR EACH ROW EXECUTE FUNCTION public.guard_chama_approval_policy();
+
+REVOKE EXECUTE ON FUNCTION public.record_chama_ballot(UUID, UUID, INTEGER, INTEGER[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.request_chama_approval(UUID, UUID, TEXT, TEXT, TEXT, UUID, JSONB, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.purge_chama(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.chama_action_requires_approval(UUID, TEXT, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_chama(UUID) TO authenticated;
+
+COMMENT ON COLUMN public.chama_settings.sensitive_approval_mode IS 'Who approves gated actions: officers (sensitive_approvals_required of them) or member_vote';
+COMMENT ON COLUMN public.chama_settings.withdrawal_approval_threshold IS 'MGR withdrawals of at least this amount need approval; NULL never gates';
+COMMENT ON COLUMN public.chama_settings.disbursement_approval_threshold IS 'Loan disbursements of at least this amount need approval; NULL never gates';
+COMMENT ON COLUMN public.chama_votes.required_approvals IS 'Officer sign-offs: yes votes needed to pass, in place of quorum and threshold';
+COMMENT ON COLUMN public.chama_votes.action_type IS 'What a passed vote does: approve_loan, update_settings, or a gated withdrawal, loan_disbursement, role_change or delete_chama';
+COMMENT ON FUNCTION public.request_chama_approval(UUID, UUID, TEXT, TEXT, TEXT, UUID, JSONB, NUMERIC) IS 'Opens an approval proposal for a gated chama action, or returns requires_approval = false';
@@ -0,0 +1,757 @@
+-- ============================================
+-- MULTI-CURRENCY WALLETS AND CHAMAS
+-- ============================================
+-- Wallets and chamas now carry a currency (KES, UGX, TZS, RWF or USD).
+-- Every ledger account resolves to one through ledger_account_currency(),
+-- and post_ledger_transaction() converts at posting time when the two sides
+-- differ: the debit side pays in its own currency into an fx_conversion
+-- account, which pays the credit side in its currency. Both legs share the
+-- transaction id and record the rate used, and transfer_funds() writes the
+-- converted amounts and the rate onto each wallet_transactions row.
+--
+-- Rates live in exchange_rates. sync-exchange-rates refreshes them hourly
+-- through ingest_exchange_rates(); an admin can pin a pair with
+-- set_exchange_rate_override(), which the sync leaves alone until the
+-- override expires or is cleared.
+-- ============================================
+
+-- 1. Currencies we hold balances in
+CREATE TABLE IF NOT EXISTS public.supported_currencies (
+  code VARCHAR(3) PRIMARY KEY,
+  name TEXT NOT NULL,
+  symbol TEXT NOT NULL,
+  -- digits after the decimal point amounts are rounded to
+  minor_units SMALLINT NOT NULL DEFAULT 2,
+  is_active BOOLEAN NOT NULL DEFAULT true
+);
+
+INSERT INTO public.supported_currencies (code, name, symbol, minor_units) VALUES
+  ('KES', 'Kenyan Shilling', 'KSh', 2),
+  ('UGX', 'Ugandan Shilling', 'USh', 0),
+  ('TZS', 'Tanzanian Shilling', 'TSh', 0),
+  ('RWF', 'Rwandan Franc', 'FRw', 0),
+  ('USD', 'US Dollar', '$', 2)
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE public.supported_currencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view supported currencies"
+ON public.supported_currencies FOR SELECT
+USING (true);
+
+-- 2. Exchange rates, one row per pair, with an optional admin override
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  from_currency VARCHAR(3) NOT NULL,
+  to_currency VARCHAR(3) NOT NULL,
+  rate NUMERIC NOT NULL,
+  source TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.exchange_rates
+  ADD COLUMN IF NOT EXISTS is_override BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS override_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS overridden_by UUID REFERENCES auth.users(id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_exchange_rates_pair ON public.exchange_rates(from_currency, to_currency);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view exchange rates" ON public.exchange_rates;
+CREATE POLICY "Anyone can view exchange rates"
+ON public.exchange_rates FOR SELECT
+USING (true);
+
+-- Starting rates so conversions work before the first sync runs
+INSERT INTO public.exchange_rates (from_currency, to_currency, rate, source) VALUES
+  ('USD', 'KES', 129.25, 'seed'),
+  ('USD', 'UGX', 3650, 'seed'),
+  ('USD', 'TZS', 2450, 'seed'),
+  ('USD', 'RWF', 1440, 'seed')
+ON CONFLICT (from_currency, to_currency) DO NOTHING;
+
+-- 3. Currency of wallets and chamas. Existing balances are all shillings.
+UPDATE public.user_wallets SET currency = 'KES' WHERE currency IS NULL;
+ALTER TABLE public.user_wallets ALTER COLUMN currency SET DEFAULT 'KES';
+ALTER TABLE public.user_wallets ALTER COLUMN currency SET NOT NULL;
+ALTER TABLE public.user_wallets
+  ADD CONSTRAINT user_wallets_currency_fkey FOREIGN KEY (currency) REFERENCES public.supported_currencies(code) NOT VALID;
+
+ALTER TABLE public.user_central_wallets
+  ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT 'KES' REFERENCES public.supported_currencies(code);
+
+-- New chamas take their creator's wallet currency (see section 11)
+ALTER TABLE public.chamas
+  ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT 'KES' REFERENCES public.supported_currencies(code);
+ALTER TABLE public.chamas ALTER COLUMN currency DROP DEFAULT;
+
+-- 4. Record the conversion on history and ledger rows
+ALTER TABLE public.wallet_transactions
+  ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC,
+  ADD COLUMN IF NOT EXISTS original_amount NUMERIC,
+  ADD COLUMN IF NOT EXISTS original_currency VARCHAR(3);
+
+ALTER TABLE public.transaction_ledger ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC;
+
+-- 5. The currency a ledger account holds; NULL for accounts that hold none
+--    of their own (external, fx_conversion)
+CREATE OR REPLACE FUNCTION public.ledger_account_currency(
+  p_account_type VARCHAR,
+  p_account_id UUID
+) RETURNS VARCHAR
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_currency VARCHAR;
+BEGIN
+  CASE p_account_type
+    WHEN 'user_wallet' THEN
+      SELECT currency INTO v_currency FROM public.user_wallets WHERE id = p_account_id;
+    WHEN 'user_central_wallet' THEN
+      SELECT currency INTO v_currency FROM public.user_central_wallets WHERE id = p_account_id;
+    WHEN 'chama_wallet' THEN
+      -- personal wallets outside a chama follow their owner's main wallet
+      SELECT COALESCE(c.currency, uw.currency, 'KES') INTO v_currency
+      FROM public.wallets w
+      LEFT JOIN public.chamas c ON c.id = w.chama_id
+      LEFT JOIN public.user_wallets uw ON uw.user_id = w.user_id
+      WHERE w.id = p_account_id;
+    WHEN 'chama_central_wallet' THEN
+      SELECT c.currency INTO v_currency
+      FROM public.chama_central_wallets ccw
+      JOIN public.chamas c ON c.id = ccw.chama_id
+      WHERE ccw.id = p_account_id;
+    WHEN 'member_wallet' THEN
+      SELECT c.currency INTO v_currency
+      FROM public.member_wallets mw
+      JOIN public.chamas c ON c.id = mw.chama_id
+      WHERE mw.id = p_account_id;
+    WHEN 'savings_goal' THEN
+      SELECT COALESCE(uw.currency, 'KES') INTO v_currency
+      FROM public.personal_savings_goals g
+      LEFT JOIN public.user_wallets uw ON uw.user_id = g.user_id
+      WHERE g.id = p_account_id;
+    WHEN 'platform_revenue' THEN
+      SELECT currency INTO v_currency FROM public.platform_accounts WHERE id = p_account_id;
+    ELSE
+      v_currency := NULL;
+  END CASE;
+
+  RETURN v_currency;
+END;
+$$;
+
+-- 6. Rate to multiply an amount in from_curr by to get to_curr. Uses the
+--    pair itself, its inverse, or crosses through USD (the sync's base).
+CREATE OR REPLACE FUNCTION public.get_exchange_rate(from_curr VARCHAR, to_curr VARCHAR)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_from VARCHAR := UPPER(from_curr);
+  v_to VARCHAR := UPPER(to_curr);
+  v_rate NUMERIC;
+  v_from_usd NUMERIC;
+  v_to_usd NUMERIC;
+BEGIN
+  IF v_from = v_to THEN
+    RETURN 1;
+  END IF;
+
+  SELECT rate INTO v_rate FROM public.exchange_rates
+  WHERE from_currency = v_from AND to_currency = v_to AND rate > 0;
+  IF v_rate IS NOT NULL THEN
+    RETURN v_rate;
+  END IF;
+
+  SELECT 1 / rate INTO v_rate FROM public.exchange_rates
+  WHERE from_currency = v_to AND to_currency = v_from AND rate > 0;
+  IF v_rate IS NOT NULL THEN
+    RETURN v_rate;
+  END IF;
+
+  IF v_from <> 'USD' AND v_to <> 'USD' THEN
+    v_from_usd := public.get_exchange_rate(v_from, 'USD');
+    v_to_usd := public.get_exchange_rate('USD', v_to);
+    IF v_from_usd IS NOT NULL AND v_to_usd IS NOT NULL THEN
+      RETURN v_from_usd * v_to_usd;
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- 7. Convert an amount, rounded to the target currency's minor units
+CREATE OR REPLACE FUNCTION public.convert_amount(
+  p_amount NUMERIC,
+  p_from_currency VARCHAR,
+  p_to_currency VARCHAR
+) RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rate NUMERIC;
+  v_minor_units SMALLINT;
+BEGIN
+  IF UPPER(p_from_currency) = UPPER(p_to_currency) THEN
+    RETURN p_amount;
+  END IF;
+
+  v_rate := public.get_exchange_rate(p_from_currency, p_to_currency);
+  IF v_rate IS NULL THEN
+    RAISE EXCEPTION 'No exchange rate from % to %', p_from_currency, p_to_currency;
+  END IF;
+
+  SELECT minor_units INTO v_minor_units FROM public.supported_currencies WHERE code = UPPER(p_to_currency);
+
+  RETURN ROUND(p_amount * v_rate, COALESCE(v_minor_units, 2));
+END;
+$$;
+
+-- 8. fx_conversion is the clearing account conversions pass through. Like
+--    external it has no stored balance; its entries net to zero per currency
+--    pair only at the posted rate.
+CREATE OR REPLACE FUNCTION public.apply_ledger_delta(
+  p_account_type VARCHAR,
+  p_account_id UUID,
+  p_delta NUMERIC
+) RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance NUMERIC;
+BEGIN
+  IF p_account_type IN ('external', 'fx_conversion') THEN
+    RETURN 0;
+  END IF;
+
+  CASE p_account_type
+    WHEN 'user_wallet' THEN
+      UPDATE public.user_wallets
+      SET balance = COALESCE(balance, 0) + p_delta, updated_at = now()
+      WHERE id = p_account_id
+      RETURNING balance INTO v_balance;
+    WHEN 'user_central_wallet' THEN
+      UPDATE public.user_central_wallets
+      SET balance = balance + p_delta, updated_at = now()
+      WHERE id = p_account_id
+      RETURNING balance INTO v_balance;
+    WHEN 'chama_wallet' THEN
+      UPDATE public.wallets
+      SET balance = balance + p_delta, updated_at = now()
+      WHERE id = p_account_id
+      RETURNING balance INTO v_balance;
+    WHEN 'chama_central_wallet' THEN
+      UPDATE public.chama_central_wallets
+      SET balance = balance + p_delta, updated_at = now()
+      WHERE id = p_account_id
+      RETURNING balance INTO v_balance;
+    WHEN 'member_wallet' THEN
+      UPDATE public.member_wallets
+      SET balance = balance + p_delta, updated_at = now()
+      WHERE id = p_account_id
+      RETURNING balance INTO v_balance;
+    WHEN 'savings_goal' THEN
+      UPDATE public.personal_savings_goals
+      SET current_amount = COALESCE(current_amount, 0) + p_delta, updated_at = now()
+      WHERE id = p_account_id
+      RETURNING current_amount INTO v_balance;
+    WHEN 'platform_revenue' THEN
+      UPDATE public.platform_accounts
+      SET balance = balance + p_delta, updated_at = now()
+      WHERE id = p_account_id
+      RETURNING balance INTO v_balance;
+    ELSE
+      RAISE EXCEPTION 'Unknown ledger account type: %', p_account_type;
+  END CASE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ledger account not found: % %', p_account_type, p_account_id;
+  END IF;
+
+  IF v_balance < 0 THEN
+    RAISE EXCEPTION 'Insufficient balance';
+  END IF;
+
+  RETURN v_balance;
+END;
+$$;
+
+-- 9. Post a balanced transaction, converting when the accounts hold
+--    different currencies. p_amount is in p_currency, which defaults to the
+--    debit account's currency.
+CREATE OR REPLACE FUNCTION public.post_ledger_transaction(
+  p_transaction_type VARCHAR,
+  p_debit_account_type VARCHAR,
+  p_debit_account_id UUID,
+  p_credit_account_type VARCHAR,
+  p_credit_account_id UUID,
+  p_amount NUMERIC,
+  p_reference VARCHAR DEFAULT NULL,
+  p_description TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}',
+  p_currency VARCHAR DEFAULT NULL
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction_id UUID := gen_random_uuid();
+  v_debit_currency VARCHAR := public.ledger_account_currency(p_debit_account_type, p_debit_account_id);
+  v_credit_currency VARCHAR := public.ledger_account_currency(p_credit_account_type, p_credit_account_id);
+  v_currency VARCHAR;
+  v_debit_amount NUMERIC;
+  v_credit_amount NUMERIC;
+  v_rate NUMERIC;
+  v_metadata JSONB := COALESCE(p_metadata, '{}');
+  v_debit_balance NUMERIC;
+  v_credit_balance NUMERIC;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Ledger amount must be greater than 0';
+  END IF;
+
+  IF p_debit_account_type = p_credit_account_type
+     AND p_debit_account_id IS NOT DISTINCT FROM p_credit_account_id THEN
+    RAISE EXCEPTION 'Cannot post a transaction to the same account';
+  END IF;
+
+  v_currency := UPPER(COALESCE(p_currency, v_debit_currency, v_credit_currency, 'KES'));
+  -- Accounts without a currency of their own take the amount's
+  v_debit_currency := COALESCE(v_debit_currency, v_currency);
+  v_credit_currency := COALESCE(v_credit_currency, v_currency);
+
+  v_debit_amount := public.convert_amount(p_amount, v_currency, v_debit_currency);
+  v_credit_amount := public.convert_amount(p_amount, v_currency, v_credit_currency);
+
+  IF v_debit_amount <= 0 OR v_credit_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount is too small to convert';
+  END IF;
+
+  IF v_debit_currency <> v_credit_currency THEN
+    v_rate := public.get_exchange_rate(v_debit_currency, v_credit_currency);
+  ELSIF v_currency <> v_debit_currency THEN
+    v_rate := public.get_exchange_rate(v_currency, v_debit_currency);
+  END IF;
+
+  IF v_rate IS NOT NULL THEN
+    v_metadata := v_metadata || jsonb_build_object(
+      'exchange_rate', v_rate,
+      'original_amount', p_amount,
+      'original_currency', v_currency,
+      'debit_amount', v_debit_amount,
+      'debit_currency', v_debit_currency,
+      'credit_amount', v_credit_amount,
+      'credit_currency', v_credit_currency
+    );
+  END IF;
+
+  IF p_debit_account_type || ':' || COALESCE(p_debit_account_id::TEXT, '')
+     <= p_credit_account_type || ':' || COALESCE(p_credit_account_id::TEXT, '') THEN
+    v_debit_balance := public.apply_ledger_delta(p_debit_account_type, p_debit_account_id, -v_debit_amount);
+    v_credit_balance := public.apply_ledger_delta(p_credit_account_type, p_credit_account_id, v_credit_amount);
+  ELSE
+    v_credit_balance := public.apply_ledger_delta(p_credit_account_type, p_credit_account_id, v_credit_amount);
+    v_debit_balance := public.apply_ledger_delta(p_debit_account_type, p_debit_account_id, -v_debit_amount);
+  END IF;
+
+  INSERT INTO public.transaction_ledger (
+    transaction_id, transaction_type, account_type, account_id,
+    debit_amount, credit_amount, balance_after, currency, exchange_rate, reference, description, metadata
+  ) VALUES (
+    v_transaction_id, p_transaction_type, p_debit_account_type, p_debit_account_id,
+    v_debit_amount, 0, v_debit_balance, v_debit_currency, v_rate, p_reference, p_description, v_metadata
+  );
+
+  IF v_debit_currency <> v_credit_currency THEN
+    -- Each currency balances on its own: the debit side pays into the
+    -- conversion account, which pays out the credit side
+    INSERT INTO public.transaction_ledger (
+      transaction_id, transaction_type, account_type, account_id,
+      debit_amount, credit_amount, balance_after, currency, exchange_rate, reference, description, metadata
+    ) VALUES
+    (
+      v_transaction_id, p_transaction_type, 'fx_conversion', NULL,
+      0, v_debit_amount, 0, v_debit_currency, v_rate, p_reference, p_description, v_metadata
+    ),
+    (
+      v_transaction_id, p_transaction_type, 'fx_conversion', NULL,
+      v_credit_amount, 0, 0, v_credit_currency, v_rate, p_reference, p_description, v_metadata
+    );
+  END IF;
+
+  INSERT INTO public.transaction_ledger (
+    transaction_id, transaction_type, account_type, account_id,
+    debit_amount, credit_amount, balance_after, currency, exchange_rate, reference, description, metadata
+  ) VALUES (
+    v_transaction_id, p_transaction_type, p_credit_account_type, p_credit_account_id,
+    0, v_credit_amount, v_credit_balance, v_credit_currency, v_rate, p_reference, p_description, v_metadata
+  );
+
+  RETURN v_transaction_id;
+END;
+$$;
+
+-- 10. Transfers write each wallet history row in the currency of its side.
+--     p_wallet_entries amounts are in the transfer's currency: negative
+--     entries belong to the sender, positive ones to the recipient.
+CREATE OR REPLACE FUNCTION public.transfer_funds(
+  p_transaction_type VARCHAR,
+  p_from_account_type VARCHAR,
+  p_from_account_id UUID,
+  p_to_account_type VARCHAR,
+  p_to_account_id UUID,
+  p_amount NUMERIC,
+  p_reference VARCHAR DEFAULT NULL,
+  p_description TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}',
+  p_wallet_entries JSONB DEFAULT '[]',
+  p_currency VARCHAR DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction_id UUID;
+  v_from public.transaction_ledger%ROWTYPE;
+  v_to public.transaction_ledger%ROWTYPE;
+  v_currency VARCHAR;
+BEGIN
+  v_currency := UPPER(COALESCE(
+    p_currency,
+    public.ledger_account_currency(p_from_account_type, p_from_account_id),
+    public.ledger_account_currency(p_to_account_type, p_to_account_id),
+    'KES'
+  ));
+
+  v_transaction_id := public.post_ledger_transaction(
+    p_transaction_type,
+    p_from_account_type,
+    p_from_account_id,
+    p_to_account_type,
+    p_to_account_id,
+    p_amount,
+    p_reference,
+    p_description,
+    p_metadata,
+    v_currency
+  );
+
+  SELECT * INTO v_from
+  FROM public.transaction_ledger
+  WHERE transaction_id = v_transaction_id
+    AND account_type = p_from_account_type
+    AND account_id IS NOT DISTINCT FROM p_from_account_id
+    AND debit_amount > 0;
+
+  SELECT * INTO v_to
+  FROM public.transaction_ledger
+  WHERE transaction_id = v_transaction_id
+    AND account_type = p_to_account_type
+    AND account_id IS NOT DISTINCT FROM p_to_account_id
+    AND credit_amount > 0;
+
+  INSERT INTO public.wallet_transactions (
+    user_id, type, amount, description, status, reference_id, currency,
+    exchange_rate, original_amount, original_currency
+  )
+  SELECT
+    e.user_id,
+    e.type,
+    public.convert_amount(e.amount, v_currency, s.currency),
+    COALESCE(e.description, p_description),
+    'completed',
+    p_reference,
+    s.currency,
+    v_from.exchange_rate,
+    CASE WHEN s.currency <> v_currency THEN e.amount END,
+    CASE WHEN s.currency <> v_currency THEN v_currency END
+  FROM jsonb_to_recordset(COALESCE(p_wallet_entries, '[]')) AS e(user_id UUID, type TEXT, amount NUMERIC, description TEXT)
+  CROSS JOIN LATERAL (
+    SELECT CASE WHEN e.amount < 0 THEN v_from.currency ELSE v_to.currency END AS currency
+  ) s;
+
+  RETURN jsonb_build_object(
+    'transaction_id', v_transaction_id,
+    'from_balance', v_from.balance_after,
+    'to_balance', v_to.balance_after,
+    'from_amount', v_from.debit_amount,
+    'from_currency', v_from.currency,
+    'to_amount', v_to.credit_amount,
+    'to_currency', v_to.currency,
+    'exchange_rate', v_from.exchange_rate
+  );
+END;
+$$;
+
+-- 11. A new chama holds its creator's currency unless one is given
+CREATE OR REPLACE FUNCTION public.set_new_chama_currency()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.currency IS NULL THEN
+    SELECT currency INTO NEW.currency FROM public.user_wallets WHERE user_id = NEW.created_by;
+    NEW.currency := COALESCE(NEW.currency, 'KES');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_new_chama_currency ON public.chamas;
+CREATE TRIGGER set_new_chama_currency
+BEFORE INSERT ON public.chamas
+FOR EACH ROW
+EXECUTE FUNCTION public.set_new_chama_currency();
+
+-- 12. Rates feed. p_rates maps currency codes to units per one p_base;
+--     pairs under an active admin override are skipped.
+CREATE OR REPLACE FUNCTION public.ingest_exchange_rates(
+  p_base VARCHAR,
+  p_rates JSONB,
+  p_source TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_base VARCHAR := UPPER(p_base);
+  v_code VARCHAR;
+  v_rate NUMERIC;
+  v_updated INTEGER := 0;
+  v_skipped TEXT[] := ARRAY[]::TEXT[];
+BEGIN
+  FOR v_code IN
+    SELECT code FROM public.supported_currencies WHERE is_active AND code <> v_base
+  LOOP
+    v_rate := NULLIF(p_rates ->> v_code, '')::NUMERIC;
+    IF v_rate IS NULL OR v_rate <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.exchange_rates
+      WHERE from_currency = v_base AND to_currency = v_code
+        AND is_override
+        AND (override_expires_at IS NULL OR override_expires_at > now())
+    ) THEN
+      v_skipped := v_skipped || v_code::TEXT;
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.exchange_rates (from_currency, to_currency, rate, source, updated_at)
+    VALUES (v_base, v_code, v_rate, p_source, now())
+    ON CONFLICT (from_currency, to_currency) DO UPDATE SET
+      rate = EXCLUDED.rate,
+      source = EXCLUDED.source,
+      updated_at = now(),
+      is_override = false,
+      override_expires_at = NULL,
+      overridden_by = NULL;
+
+    v_updated := v_updated + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('updated', v_updated, 'skipped_overrides', to_jsonb(v_skipped));
+END;
+$$;
+
+-- 13. Admin override for one pair. A NULL rate clears the override; the
+--     next sync then replaces the pinned rate.
+CREATE OR REPLACE FUNCTION public.set_exchange_rate_override(
+  p_from_currency VARCHAR,
+  p_to_currency VARCHAR,
+  p_rate NUMERIC,
+  p_expires_at TIMESTAMPTZ DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_from VARCHAR := UPPER(p_from_currency);
+  v_to VARCHAR := UPPER(p_to_currency);
+  v_old_rate NUMERIC;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can override exchange rates';
+  END IF;
+
+  IF v_from = v_to THEN
+    RAISE EXCEPTION 'Choose two different currencies';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.supported_currencies WHERE code = v_from)
+     OR NOT EXISTS (SELECT 1 FROM public.supported_currencies WHERE code = v_to) THEN
+    RAISE EXCEPTION 'Unsupported currency';
+  END IF;
+
+  IF p_rate IS NOT NULL AND p_rate <= 0 THEN
+    RAISE EXCEPTION 'Rate must be greater than 0';
+  END IF;
+
+  IF p_expires_at IS NOT NULL AND p_expires_at <= now() THEN
+    RAISE EXCEPTION 'Override expiry must be in the future';
+  END IF;
+
+  SELECT rate INTO v_old_rate FROM public.exchange_rates WHERE from_currency = v_from AND to_currency = v_to;
+
+  IF p_rate IS NULL THEN
+    UPDATE public.exchange_rates
+    SET is_override = false, override_expires_at = NULL, overridden_by = NULL, updated_at = now()
+    WHERE from_currency = v_from AND to_currency = v_to;
+  ELSE
+    INSERT INTO public.exchange_rates (
+      from_currency, to_currency, rate, source, updated_at, is_override, override_expires_at, overridden_by
+    ) VALUES (
+      v_from, v_to, p_rate, 'manual', now(), true, p_expires_at, auth.uid()
+    )
+    ON CONFLICT (from_currency, to_currency) DO UPDATE SET
+      rate = EXCLUDED.rate,
+      source = 'manual',
+      updated_at = now(),
+      is_override = true,
+      override_expires_at = EXCLUDED.override_expires_at,
+      overridden_by = EXCLUDED.overridden_by;
+  END IF;
+
+  INSERT INTO public.audit_logs (admin_id, action, resource_type, old_values, new_values)
+  VALUES (
+    auth.uid(),
+    CASE WHEN p_rate IS NULL THEN 'exchange_rate_override_cleared' ELSE 'exchange_rate_override_set' END,
+    'exchange_rates',
+    jsonb_build_object('from_currency', v_from, 'to_currency', v_to, 'rate', v_old_rate),
+    jsonb_build_object('from_currency', v_from, 'to_currency', v_to, 'rate', p_rate, 'expires_at', p_expires_at)
+  );
+
+  RETURN jsonb_build_object('success', true, 'from_currency', v_from, 'to_currency', v_to, 'rate', COALESCE(p_rate, v_old_rate));
+END;
+$$;
+
+-- 14. A member picks the currency of their wallets while they are empty
+CREATE OR REPLACE FUNCTION public.set_wallet_currency(p_currency VARCHAR)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_currency VARCHAR := UPPER(p_currency);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.supported_currencies WHERE code = v_currency AND is_active) THEN
+    RAISE EXCEPTION 'Unsupported currency: %', p_currency;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.user_wallets
+    WHERE user_id = v_user_id AND (COALESCE(balance, 0) <> 0 OR COALESCE(locked_collateral, 0) <> 0)
+  ) OR EXISTS (
+    SELECT 1 FROM public.user_central_wallets WHERE user_id = v_user_id AND COALESCE(balance, 0) <> 0
+  ) OR EXISTS (
+    SELECT 1 FROM public.personal_savings_goals WHERE user_id = v_user_id AND COALESCE(current_amount, 0) <> 0
+  ) THEN
+    RAISE EXCEPTION 'Empty your wallets and savings goals before changing their currency';
+  END IF;
+
+  UPDATE public.user_wallets SET currency = v_currency, updated_at = now() WHERE user_id = v_user_id;
+  UPDATE public.user_central_wallets SET currency = v_currency, updated_at = now() WHERE user_id = v_user_id;
+
+  RETURN jsonb_build_object('success', true, 'currency', v_currency);
+END;
+$$;
+
+-- 15. A chama admin changes the chama's currency while it holds no money
+CREATE OR REPLACE FUNCTION public.set_chama_currency(p_chama_id UUID, p_currency VARCHAR)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_currency VARCHAR := UPPER(p_currency);
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.chama_members
+    WHERE chama_id = p_chama_id AND user_id = auth.uid() AND role = 'admin' AND is_active
+  ) THEN
+    RAISE EXCEPTION 'Only the chama admin can change its currency';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.supported_currencies WHERE code = v_currency AND is_active) THEN
+    RAISE EXCEPTION 'Unsupported currency: %', p_currency;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.chama_central_wallets WHERE chama_id = p_chama_id AND balance <> 0)
+     OR EXISTS (SELECT 1 FROM public.member_wallets WHERE chama_id = p_chama_id AND balance <> 0)
+     OR EXISTS (SELECT 1 FROM public.wallets WHERE chama_id = p_chama_id AND balance <> 0 AND wallet_type <> 'chama_view_only') THEN
+    RAISE EXCEPTION 'A chama can only change currency while its wallets are empty';
+  END IF;
+
+  UPDATE public.chamas SET currency = v_currency, updated_at = now() WHERE id = p_chama_id;
+
+  RETURN jsonb_build_object('success', true, 'currency', v_currency);
+END;
+$$;
+
+-- 16. Refresh rates every hour. The project URL and the shared cron secret
+--     are read from Vault so they never live in the migration.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'sync-exchange-rates',
+  '5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/sync-exchange-rates',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+-- 17. Money movement and the rates feed stay with the service role
+REVOKE EXECUTE ON FUNCTION public.apply_ledger_delta(VARCHAR, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_ledger_transaction(VARCHAR, VARCHAR, UUID, VARCHAR, UUID, NUMERIC, VARCHAR, TEXT, JSONB, VARCHAR) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.transfer_funds(VARCHAR, VARCHAR, UUID, VARCHAR, UUID, NUMERIC, VARCHAR, TEXT, JSONB, JSONB, VARCHAR) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.ledger_account_currency(VARCHAR, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_new_chama_currency() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.ingest_exchange_rates(VARCHAR, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_exchange_rate(VARCHAR, VARCHAR) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.convert_amount(NUMERIC, VARCHAR, VARCHAR) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_exchange_rate_override(VARCHAR, VARCHAR, NUMERIC, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_wallet_currency(VARCHAR) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_chama_currency(UUID, VARCHAR) TO authenticated;
+
+COMMENT ON TABLE public.supported_currencies IS 'Currencies wallets and chamas can hold, with the minor units amounts are rounded to';
+COMMENT ON COLUMN public.exchange_rates.is_override IS 'Set by an admin; the rates sync leaves the pair alone until override_expires_at';
+COMMENT ON COLUMN public.wallet_transactions.exchange_rate IS 'Rate applied when the transfer crossed currencies; original_amount/original_currency hold the amount as sent';
+COMMENT ON FUNCTION public.post_ledger_transaction IS 'Posts a balanced debit/credit pair, converting through fx_conversion when the accounts hold different currencies';
+COMMENT ON FUNCTION public.ingest_exchange_rates IS 'Upserts rates from the sync job, skipping pairs under an active admin override';
+COMMENT ON FUNCTION public.set_exchange_rate_override IS 'Admin-only: pins (or with a NULL rate, releases) the rate for one currency pair';
@@ -0,0 +1,392 @@
+-- ============================================
+-- SERVER-ENFORCED PIN STEP-UP
+-- ============================================
+-- A correct PIN now mints a short-lived step-up token. verify_user_pin_enhanced()
+-- returns it to the app, which sends it as x-pin-token to every edge function
+-- that moves money; the function calls consume_pin_step_up() and refuses to
+-- run without a live token. Only a hash of the token is stored.
+--
+-- Both PIN tables (user_pins from the PIN gate, user_pins_enhanced from the
+-- KYC flow) are checked through check_user_pin(), which owns the failed
+-- attempt counter and the lockout, so every PIN prompt shares them. Each
+-- step-up, failure and lockout is written to audit_logs.
+-- ============================================
+
+-- 1. Lockout state for the PIN gate's table; user_pins_enhanced already has it
+ALTER TABLE public.user_pins
+  ADD COLUMN IF NOT EXISTS failed_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_verified TIMESTAMPTZ;
+
+-- 2. Issued step-up tokens
+CREATE TABLE IF NOT EXISTS public.pin_step_up_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Slides forward on each use, never past max_expires_at
+  expires_at TIMESTAMPTZ NOT NULL,
+  max_expires_at TIMESTAMPTZ NOT NULL,
+  last_used_at TIMESTAMPTZ,
+  use_count INTEGER NOT NULL DEFAULT 0,
+  revoked_at TIMESTAMPTZ,
+  ip_address INET,
+  user_agent TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_pin_step_up_tokens_user
+  ON public.pin_step_up_tokens (user_id, expires_at DESC);
+
+-- Tokens are only ever read through the functions below
+ALTER TABLE public.pin_step_up_tokens ENABLE ROW LEVEL SECURITY;
+
+-- 3. Caller details PostgREST passes through, for the audit trail
+CREATE OR REPLACE FUNCTION public.request_client_info()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_headers JSONB := NULLIF(current_setting('request.headers', true), '')::JSONB;
+  v_ip INET;
+BEGIN
+  BEGIN
+    v_ip := NULLIF(TRIM(split_part(COALESCE(v_headers ->> 'x-forwarded-for', ''), ',', 1)), '')::INET;
+  EXCEPTION WHEN invalid_text_representation THEN
+    v_ip := NULL;
+  END;
+
+  RETURN jsonb_build_object('ip_address', v_ip, 'user_agent', v_headers ->> 'user-agent');
+END;
+$$;
+
+-- 4. Check a PIN against whichever table holds it, counting failures.
+--    Five wrong PINs in a row lock PIN entry for 30 minutes and revoke any
+--    outstanding step-up tokens.
+CREATE OR REPLACE FUNCTION public.check_user_pin(p_user_id UUID, p_pin TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  c_max_attempts CONSTANT INTEGER := 5;
+  c_lockout CONSTANT INTERVAL := INTERVAL '30 minutes';
+  v_enhanced BOOLEAN := true;
+  v_hash TEXT;
+  v_salt TEXT;
+  v_failed INTEGER;
+  v_locked_until TIMESTAMPTZ;
+  v_client JSONB := public.request_client_info();
+BEGIN
+  -- Callers with a user session may only check their own PIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'You can only verify your own PIN';
+  END IF;
+
+  SELECT pin_hash, salt, COALESCE(failed_attempts, 0), locked_until
+  INTO v_hash, v_salt, v_failed, v_locked_until
+  FROM public.user_pins_enhanced
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_hash IS NULL THEN
+    v_enhanced := false;
+    SELECT pin_hash, salt, failed_attempts, locked_until
+    INTO v_hash, v_salt, v_failed, v_locked_until
+    FROM public.user_pins
+    WHERE user_id = p_user_id
+    FOR UPDATE;
+  END IF;
+
+  IF v_hash IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'code', 'pin_not_set', 'message', 'PIN not set');
+  END IF;
+
+  IF v_locked_until IS NOT NULL AND v_locked_until > now() THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'code', 'locked',
+      'locked_until', v_locked_until,
+      'message', 'Too many failed attempts. Try again later.'
+    );
+  END IF;
+
+  IF encode(digest(v_salt || p_pin, 'sha256'), 'hex') = v_hash THEN
+    IF v_enhanced THEN
+      UPDATE public.user_pins_enhanced
+      SET failed_attempts = 0, locked_until = NULL, last_verified = now()
+      WHERE user_id = p_user_id;
+    ELSE
+      UPDATE public.user_pins
+      SET failed_attempts = 0, locked_until = NULL, last_verified = now()
+      WHERE user_id = p_user_id;
+    END IF;
+
+    RETURN jsonb_build_object('success', true, 'message', 'PIN verified successfully');
+  END IF;
+
+  v_failed := v_failed + 1;
+  v_locked_until := CASE WHEN v_failed >= c_max_attempts THEN now() + c_lockout END;
+
+  IF v_enhanced THEN
+    UPDATE public.user_pins_enhanced
+    SET failed_attempts = v_failed, locked_until = v_locked_until
+    WHERE user_id = p_user_id;
+  ELSE
+    UPDATE public.user_pins
+    SET failed_attempts = v_failed, locked_until = v_locked_until
+    WHERE user_id = p_user_id;
+  END IF;
+
+  INSERT INTO public.audit_logs (user_id, action, resource_type, new_values, ip_address, user_agent)
+  VALUES (
+    p_user_id,
+    CASE WHEN v_locked_until IS NOT NULL THEN 'pin_locked' ELSE 'pin_failed' END,
+    'pin_step_up',
+    jsonb_build_object('failed_attempts', v_failed, 'locked_until', v_locked_until),
+    (v_client ->> 'ip_address')::INET,
+    v_client ->> 'user_agent'
+  );
+
+  IF v_locked_until IS NOT NULL THEN
+    UPDATE public.pin_step_up_tokens
+    SET revoked_at = now()
+    WHERE user_id = p_user_id AND revoked_at IS NULL AND expires_at > now();
+
+    RETURN jsonb_build_object(
+      'success', false,
+      'code', 'locked',
+      'locked_until', v_locked_until,
+      'message', 'Too many failed attempts. PIN entry is locked for 30 minutes.'
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', false,
+    'code', 'invalid_pin',
+    'attempts_remaining', c_max_attempts - v_failed,
+    'message', FORMAT('Invalid PIN. %s attempts remaining.', c_max_attempts - v_failed)
+  );
+END;
+$$;
+
+-- 5. The PIN gate's boolean check, now with the shared lockout. Database
+--    functions that take p_user_pin (guarantees, savings) go through here.
+CREATE OR REPLACE FUNCTION public.verify_user_pin_v2(p_user_id UUID, p_pin TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN COALESCE((public.check_user_pin(p_user_id, p_pin) ->> 'success')::BOOLEAN, false);
+END;
+$$;
+
+-- 6. Verify the caller's PIN and mint a step-up token. The token is
+--    returned once; a new one is issued on every successful verification.
+CREATE OR REPLACE FUNCTION public.verify_user_pin_enhanced(p_user_id UUID, p_pin TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  c_idle_ttl CONSTANT INTERVAL := INTERVAL '5 minutes';
+  c_max_ttl CONSTANT INTERVAL := INTERVAL '30 minutes';
+  v_result JSONB;
+  v_token TEXT;
+  v_token_id UUID;
+  v_expires_at TIMESTAMPTZ := now() + c_idle_ttl;
+  v_client JSONB := public.request_client_info();
+BEGIN
+  IF auth.uid() IS NULL OR auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'You can only verify your own PIN';
+  END IF;
+
+  v_result := public.check_user_pin(p_user_id, p_pin);
+  IF NOT (v_result ->> 'success')::BOOLEAN THEN
+    RETURN v_result;
+  END IF;
+
+  v_token := encode(gen_random_bytes(32), 'hex');
+
+  INSERT INTO public.pin_step_up_tokens (
+    user_id, token_hash, expires_at, max_expires_at, ip_address, user_agent
+  ) VALUES (
+    p_user_id,
+    encode(digest(v_token, 'sha256'), 'hex'),
+    v_expires_at,
+    now() + c_max_ttl,
+    (v_client ->> 'ip_address')::INET,
+    v_client ->> 'user_agent'
+  )
+  RETURNING id INTO v_token_id;
+
+  INSERT INTO public.audit_logs (user_id, action, resource_type, resource_id, new_values, ip_address, user_agent)
+  VALUES (
+    p_user_id,
+    'pin_step_up',
+    'pin_step_up',
+    v_token_id,
+    jsonb_build_object('expires_at', v_expires_at),
+    (v_client ->> 'ip_address')::INET,
+    v_client ->> 'user_agent'
+  );
+
+  RETURN v_result || jsonb_build_object('token', v_token, 'expires_at', v_expires_at);
+END;
+$$;
+
+-- 7. Called by edge functions before moving money. Returns whether the
+--    token is live for this user and slides its expiry forward.
+CREATE OR REPLACE FUNCTION public.consume_pin_step_up(p_user_id UUID, p_token TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  c_idle_ttl CONSTANT INTERVAL := INTERVAL '5 minutes';
+  v_token_id UUID;
+BEGIN
+  IF p_user_id IS NULL OR p_token IS NULL OR p_token = '' THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.pin_step_up_tokens
+  SET last_used_at = now(),
+      use_count = use_count + 1,
+      expires_at = LEAST(now() + c_idle_ttl, max_expires_at)
+  WHERE token_hash = encode(digest(p_token, 'sha256'), 'hex')
+    AND user_id = p_user_id
+    AND revoked_at IS NULL
+    AND expires_at > now()
+  RETURNING id INTO v_token_id;
+
+  RETURN v_token_id IS NOT NULL;
+END;
+$$;
+
+-- 8. Sign-out and the inactivity timeout drop the caller's tokens
+CREATE OR REPLACE FUNCTION public.revoke_pin_step_up()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.pin_step_up_tokens
+  SET revoked_at = now()
+  WHERE user_id = auth.uid() AND revoked_at IS NULL AND expires_at > now();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- 9. Setting a PIN is limited to the caller's own account and ends any
+--    step-up made with the old one
+CREATE OR REPLACE FUNCTION public.set_user_pin(p_user_id UUID, p_pin TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_salt TEXT := encode(gen_random_bytes(16), 'hex');
+  v_client JSONB := public.request_client_info();
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'You can only set your own PIN';
+  END IF;
+
+  INSERT INTO public.user_pins (user_id, pin_hash, salt)
+  VALUES (p_user_id, encode(digest(v_salt || p_pin, 'sha256'), 'hex'), v_salt)
+  ON CONFLICT (user_id) DO UPDATE SET
+    pin_hash = EXCLUDED.pin_hash,
+    salt = EXCLUDED.salt,
+    failed_attempts = 0,
+    locked_until = NULL,
+    updated_at = now();
+
+  UPDATE public.pin_step_up_tokens
+  SET revoked_at = now()
+  WHERE user_id = p_user_id AND revoked_at IS NULL AND expires_at > now();
+
+  INSERT INTO public.audit_logs (user_id, action, resource_type, ip_address, user_agent)
+  VALUES (p_user_id, 'pin_set', 'pin_step_up', (v_client ->> 'ip_address')::INET, v_client ->> 'user_agent');
+
+  RETURN jsonb_build_object('success', true, 'message', 'PIN set successfully');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_user_pin_enhanced(p_user_id UUID, p_pin TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_salt TEXT := encode(gen_random_bytes(32), 'hex');
+  v_client JSONB := public.request_client_info();
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'You can only set your own PIN';
+  END IF;
+
+  INSERT INTO public.user_pins_enhanced (user_id, pin_hash, salt)
+  VALUES (p_user_id, encode(digest(v_salt || p_pin, 'sha256'), 'hex'), v_salt)
+  ON CONFLICT (user_id) DO UPDATE SET
+    pin_hash = EXCLUDED.pin_hash,
+    salt = EXCLUDED.salt,
+    failed_attempts = 0,
+    locked_until = NULL,
+    updated_at = now();
+
+  UPDATE public.pin_step_up_tokens
+  SET revoked_at = now()
+  WHERE user_id = p_user_id AND revoked_at IS NULL AND expires_at > now();
+
+  INSERT INTO public.audit_logs (user_id, action, resource_type, ip_address, user_agent)
+  VALUES (p_user_id, 'pin_set', 'pin_step_up', (v_client ->> 'ip_address')::INET, v_client ->> 'user_agent');
+
+  RETURN jsonb_build_object('success', true, 'message', 'PIN set successfully');
+END;
+$$;
+
+-- 10. The old unbounded check has no lockout; route it through the same path
+CREATE OR REPLACE FUNCTION public.verify_user_pin(p_user_id UUID, p_pin TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN public.verify_user_pin_v2(p_user_id, p_pin);
+END;
+$$;
+
+-- 11. Permissions
+REVOKE EXECUTE ON FUNCTION public.check_user_pin(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.consume_pin_step_up(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.request_client_info() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.verify_user_pin_enhanced(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.verify_user_pin_v2(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.verify_user_pin(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_user_pin(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_user_pin_enhanced(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.verify_user_pin_enhanced(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_user_pin_v2(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_user_pin(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_user_pin_enhanced(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_pin_step_up() TO authenticated;
+
+COMMENT ON TABLE public.pin_step_up_tokens IS 'Short-lived tokens minted by a correct PIN; money-moving edge functions require one';
+COMMENT ON FUNCTION public.check_user_pin IS 'Checks a PIN against user_pins_enhanced or user_pins with a shared 5-attempt lockout';
+COMMENT ON FUNCTION public.verify_user_pin_enhanced IS 'Verifies the caller''s PIN and returns a step-up token valid for 5 idle minutes (30 at most)';
+COMMENT ON FUNCTION public.consume_pin_step_up IS 'Service role only: true when the token is live for the user; extends its idle expiry';
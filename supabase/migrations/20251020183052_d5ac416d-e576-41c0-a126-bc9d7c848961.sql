@@ -0,0 +1,436 @@
+-- ============================================
+-- DEVICE AND SESSION MANAGEMENT
+-- ============================================
+-- The app registers the device it runs on (a random key kept in local
+-- storage) and the auth session it holds each time it starts and every few
+-- minutes after. That gives members a list of where they are signed in, with
+-- the last IP and last seen time, and lets them end any one session or forget
+-- a whole device from another phone.
+--
+-- Ending a session deletes it from auth.sessions, so its refresh token stops
+-- working and auth.getUser() (which every edge function calls) rejects it at
+-- once; the app on that device learns it was signed out on its next check-in.
+-- Any live PIN step-up is revoked as well.
+--
+-- A sign-in from a device the member has not used before is flagged so the
+-- manage-devices function can send an in-app notification and an SMS, and
+-- members can ask for their PIN to be entered on every new device before it
+-- can be used.
+-- ============================================
+
+-- 1. Devices a member has signed in from
+CREATE TABLE IF NOT EXISTS public.user_devices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Random id the app keeps in local storage; not a hardware identifier
+  device_key TEXT NOT NULL,
+  device_name TEXT,
+  platform TEXT,
+  user_agent TEXT,
+  last_ip INET,
+  first_seen_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Set once the PIN has been entered on the device (or it was already in use
+  -- when the member turned on the new-device PIN requirement)
+  pin_verified_at TIMESTAMPTZ,
+  -- A forgotten device counts as new again if it signs back in
+  revoked_at TIMESTAMPTZ,
+  UNIQUE (user_id, device_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_devices_user
+  ON public.user_devices (user_id, last_seen_at DESC);
+
+ALTER TABLE public.user_devices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own devices" ON public.user_devices;
+CREATE POLICY "Users can view their own devices" ON public.user_devices
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- 2. Tie sessions to a device and to the auth session behind them
+ALTER TABLE public.user_sessions
+  ADD COLUMN IF NOT EXISTS user_device_id UUID REFERENCES public.user_devices(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS auth_session_id UUID,
+  ADD COLUMN IF NOT EXISTS ended_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS ended_reason TEXT CHECK (ended_reason IN ('signed_out', 'revoked', 'device_revoked'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_sessions_auth_session
+  ON public.user_sessions (auth_session_id) WHERE auth_session_id IS NOT NULL;
+
+-- Sessions used to be writable by anyone; they now change only through the
+-- functions below
+DROP POLICY IF EXISTS "System can manage sessions" ON public.user_sessions;
+
+-- 3. Member preference
+ALTER TABLE public.user_security_settings
+  ADD COLUMN IF NOT EXISTS require_pin_on_new_device BOOLEAN NOT NULL DEFAULT false;
+
+-- The table never had a policy, so members could not read their own row
+DROP POLICY IF EXISTS "Users can view their own security settings" ON public.user_security_settings;
+CREATE POLICY "Users can view their own security settings" ON public.user_security_settings
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- 4. Account-level notices (such as new-device sign-ins) belong to no chama
+ALTER TABLE public.chama_notifications ALTER COLUMN chama_id DROP NOT NULL;
+
+-- 5. Check-in from the app: registers the device and the current session,
+--    and tells the app whether it was signed out remotely or needs the PIN
+CREATE OR REPLACE FUNCTION public.register_device_session(
+  p_device_key TEXT,
+  p_device_name TEXT DEFAULT NULL,
+  p_platform TEXT DEFAULT NULL,
+  p_user_agent TEXT DEFAULT NULL,
+  p_ip_address TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_claims JSONB := auth.jwt();
+  v_auth_session_id UUID;
+  v_expires_at TIMESTAMPTZ;
+  v_ip INET;
+  v_device public.user_devices%ROWTYPE;
+  v_session public.user_sessions%ROWTYPE;
+  v_is_new BOOLEAN := false;
+  v_had_devices BOOLEAN;
+  v_require_pin BOOLEAN;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF p_device_key IS NULL OR length(trim(p_device_key)) = 0 THEN
+    RAISE EXCEPTION 'A device key is required';
+  END IF;
+
+  BEGIN
+    v_ip := NULLIF(trim(p_ip_address), '')::INET;
+  EXCEPTION WHEN invalid_text_representation THEN
+    v_ip := NULL;
+  END;
+
+  BEGIN
+    v_auth_session_id := NULLIF(v_claims ->> 'session_id', '')::UUID;
+  EXCEPTION WHEN invalid_text_representation THEN
+    v_auth_session_id := NULL;
+  END;
+
+  -- A session that was ended elsewhere stays ended; the app signs itself out
+  IF v_auth_session_id IS NOT NULL THEN
+    SELECT * INTO v_session
+    FROM public.user_sessions
+    WHERE auth_session_id = v_auth_session_id;
+
+    IF FOUND AND v_session.ended_at IS NOT NULL THEN
+      RETURN jsonb_build_object('revoked', true, 'reason', v_session.ended_reason);
+    END IF;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_devices
+    WHERE user_id = v_user_id AND device_key <> p_device_key AND revoked_at IS NULL
+  ) INTO v_had_devices;
+
+  SELECT * INTO v_device
+  FROM public.user_devices
+  WHERE user_id = v_user_id AND device_key = p_device_key
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    v_is_new := true;
+    INSERT INTO public.user_devices (user_id, device_key, device_name, platform, user_agent, last_ip)
+    VALUES (v_user_id, p_device_key, p_device_name, p_platform, p_user_agent, v_ip)
+    RETURNING * INTO v_device;
+  ELSE
+    v_is_new := v_device.revoked_at IS NOT NULL;
+    UPDATE public.user_devices
+    SET device_name = COALESCE(p_device_name, device_name),
+        platform = COALESCE(p_platform, platform),
+        user_agent = COALESCE(p_user_agent, user_agent),
+        last_ip = COALESCE(v_ip, last_ip),
+        last_seen_at = now(),
+        first_seen_at = CASE WHEN v_is_new THEN now() ELSE first_seen_at END,
+        pin_verified_at = CASE WHEN v_is_new THEN NULL ELSE pin_verified_at END,
+        revoked_at = NULL
+    WHERE id = v_device.id
+    RETURNING * INTO v_device;
+  END IF;
+
+  IF v_auth_session_id IS NOT NULL THEN
+    v_expires_at := COALESCE(to_timestamp((v_claims ->> 'exp')::DOUBLE PRECISION), now() + INTERVAL '1 hour');
+
+    INSERT INTO public.user_sessions (
+      user_id, session_token, auth_session_id, user_device_id, device_info,
+      ip_address, is_active, last_activity, expires_at
+    )
+    VALUES (
+      v_user_id, v_auth_session_id::TEXT, v_auth_session_id, v_device.id,
+      jsonb_build_object('name', v_device.device_name, 'platform', v_device.platform, 'user_agent', v_device.user_agent),
+      v_ip, true, now(), v_expires_at
+    )
+    ON CONFLICT (auth_session_id) WHERE auth_session_id IS NOT NULL DO UPDATE SET
+      user_device_id = EXCLUDED.user_device_id,
+      device_info = EXCLUDED.device_info,
+      ip_address = COALESCE(EXCLUDED.ip_address, user_sessions.ip_address),
+      last_activity = now(),
+      expires_at = EXCLUDED.expires_at
+    RETURNING * INTO v_session;
+  END IF;
+
+  SELECT COALESCE(bool_or(require_pin_on_new_device), false) INTO v_require_pin
+  FROM public.user_security_settings
+  WHERE user_id = v_user_id;
+
+  IF v_is_new THEN
+    INSERT INTO public.audit_logs (user_id, action, resource_type, resource_id, new_values, ip_address, user_agent)
+    VALUES (
+      v_user_id, 'device_registered', 'user_device', v_device.id,
+      jsonb_build_object('device_name', v_device.device_name, 'platform', v_device.platform),
+      v_ip, p_user_agent
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'revoked', false,
+    'device_id', v_device.id,
+    'session_id', v_session.id,
+    'device_name', v_device.device_name,
+    'is_new_device', v_is_new,
+    -- The very first device a member registers is not worth an alert
+    'alert', v_is_new AND v_had_devices,
+    'require_pin', v_require_pin AND v_device.pin_verified_at IS NULL
+  );
+END;
+$$;
+
+-- 6. PIN entry on a new device; shares check_user_pin()'s lockout
+CREATE OR REPLACE FUNCTION public.confirm_device_pin(p_device_key TEXT, p_pin TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_result JSONB;
+  v_device_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  v_result := public.check_user_pin(v_user_id, p_pin);
+  IF NOT COALESCE((v_result ->> 'success')::BOOLEAN, false) THEN
+    RETURN v_result;
+  END IF;
+
+  UPDATE public.user_devices
+  SET pin_verified_at = now()
+  WHERE user_id = v_user_id AND device_key = p_device_key AND revoked_at IS NULL
+  RETURNING id INTO v_device_id;
+
+  IF v_device_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'message', 'This device is not registered');
+  END IF;
+
+  INSERT INTO public.audit_logs (user_id, action, resource_type, resource_id, ip_address, user_agent)
+  SELECT v_user_id, 'device_pin_verified', 'user_device', v_device_id,
+         (c ->> 'ip_address')::INET, c ->> 'user_agent'
+  FROM public.request_client_info() c;
+
+  RETURN jsonb_build_object('success', true, 'message', 'Device confirmed');
+END;
+$$;
+
+-- Shared by the revoke functions: ends sessions, kills their auth sessions
+-- and any live PIN step-up for the member
+CREATE OR REPLACE FUNCTION public.end_user_sessions(p_user_id UUID, p_session_ids UUID[], p_reason TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_auth_sessions UUID[];
+  v_count INTEGER;
+BEGIN
+  WITH ended AS (
+    UPDATE public.user_sessions
+    SET ended_at = now(), ended_reason = p_reason, is_active = false
+    WHERE user_id = p_user_id AND id = ANY (p_session_ids) AND ended_at IS NULL
+    RETURNING auth_session_id
+  )
+  SELECT array_agg(auth_session_id) FILTER (WHERE auth_session_id IS NOT NULL), count(*)
+  INTO v_auth_sessions, v_count
+  FROM ended;
+
+  IF v_auth_sessions IS NOT NULL THEN
+    DELETE FROM auth.sessions WHERE id = ANY (v_auth_sessions) AND user_id = p_user_id;
+  END IF;
+
+  UPDATE public.pin_step_up_tokens
+  SET revoked_at = now()
+  WHERE user_id = p_user_id AND revoked_at IS NULL AND expires_at > now();
+
+  RETURN v_count;
+END;
+$$;
+
+-- 7. Remote sign-out of one session
+CREATE OR REPLACE FUNCTION public.revoke_device_session(p_session_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_session public.user_sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_session
+  FROM public.user_sessions
+  WHERE id = p_session_id AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  IF v_session.ended_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', true, 'message', 'Session already ended');
+  END IF;
+
+  PERFORM public.end_user_sessions(v_user_id, ARRAY[p_session_id], 'revoked');
+
+  INSERT INTO public.audit_logs (user_id, action, resource_type, resource_id, old_values, ip_address, user_agent)
+  SELECT v_user_id, 'session_revoked', 'user_session', p_session_id,
+         jsonb_build_object('device_id', v_session.user_device_id, 'ip_address', v_session.ip_address),
+         (c ->> 'ip_address')::INET, c ->> 'user_agent'
+  FROM public.request_client_info() c;
+
+  RETURN jsonb_build_object('success', true, 'message', 'Session signed out');
+END;
+$$;
+
+-- 8. Forget a device: every session on it ends and it counts as new if it
+--    signs in again
+CREATE OR REPLACE FUNCTION public.revoke_user_device(p_device_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_device public.user_devices%ROWTYPE;
+  v_ended INTEGER;
+BEGIN
+  SELECT * INTO v_device
+  FROM public.user_devices
+  WHERE id = p_device_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Device not found';
+  END IF;
+
+  v_ended := public.end_user_sessions(
+    v_user_id,
+    ARRAY(SELECT id FROM public.user_sessions WHERE user_device_id = p_device_id AND ended_at IS NULL),
+    'device_revoked'
+  );
+
+  UPDATE public.user_devices SET revoked_at = now() WHERE id = p_device_id;
+
+  INSERT INTO public.audit_logs (user_id, action, resource_type, resource_id, old_values, ip_address, user_agent)
+  SELECT v_user_id, 'device_revoked', 'user_device', p_device_id,
+         jsonb_build_object('device_name', v_device.device_name, 'sessions_ended', v_ended),
+         (c ->> 'ip_address')::INET, c ->> 'user_agent'
+  FROM public.request_client_info() c;
+
+  RETURN jsonb_build_object('success', true, 'message', 'Device signed out', 'sessions_ended', v_ended);
+END;
+$$;
+
+-- 9. Sign-out from the app itself
+CREATE OR REPLACE FUNCTION public.end_current_session()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.user_sessions
+  SET ended_at = now(), ended_reason = 'signed_out', is_active = false
+  WHERE user_id = auth.uid()
+    AND auth_session_id = NULLIF(auth.jwt() ->> 'session_id', '')::UUID
+    AND ended_at IS NULL;
+
+  PERFORM public.revoke_pin_step_up();
+END;
+$$;
+
+-- 10. Turning the new-device PIN requirement on trusts the devices already in
+--     use, so only devices added afterwards are asked
+CREATE OR REPLACE FUNCTION public.set_new_device_pin_requirement(p_required BOOLEAN)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  -- Otherwise the member would lock themselves out of their next device
+  IF p_required AND NOT EXISTS (SELECT 1 FROM public.user_pins WHERE user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Set up a PIN before requiring it on new devices';
+  END IF;
+
+  INSERT INTO public.user_security_settings (user_id, require_pin_on_new_device)
+  VALUES (v_user_id, p_required)
+  ON CONFLICT (user_id) DO UPDATE SET
+    require_pin_on_new_device = EXCLUDED.require_pin_on_new_device,
+    updated_at = now();
+
+  IF p_required THEN
+    UPDATE public.user_devices
+    SET pin_verified_at = now()
+    WHERE user_id = v_user_id AND revoked_at IS NULL AND pin_verified_at IS NULL;
+  END IF;
+
+  INSERT INTO public.audit_logs (user_id, action, resource_type, new_values, ip_address, user_agent)
+  SELECT v_user_id, 'security_settings_updated', 'user_security_settings',
+         jsonb_build_object('require_pin_on_new_device', p_required),
+         (c ->> 'ip_address')::INET, c ->> 'user_agent'
+  FROM public.request_client_info() c;
+
+  RETURN jsonb_build_object('success', true, 'require_pin_on_new_device', p_required);
+END;
+$$;
+
+-- 11. Permissions
+REVOKE EXECUTE ON FUNCTION public.end_user_sessions(UUID, UUID[], TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.register_device_session(TEXT, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.confirm_device_pin(TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.revoke_device_session(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.revoke_user_device(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.end_current_session() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_new_device_pin_requirement(BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.register_device_session(TEXT, TEXT, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.confirm_device_pin(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_device_session(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_user_device(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.end_current_session() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_new_device_pin_requirement(BOOLEAN) TO authenticated;
+
+COMMENT ON TABLE public.user_devices IS 'Devices a member has signed in from, keyed by a random id the app stores locally';
+COMMENT ON FUNCTION public.register_device_session IS 'App check-in: records the device and auth session; reports remote sign-out, new devices and pending PIN entry';
+COMMENT ON FUNCTION public.revoke_device_session IS 'Signs one of the caller''s sessions out by deleting its auth session';
+COMMENT ON FUNCTION public.revoke_user_device IS 'Signs a device out everywhere and makes it count as new on its next sign-in';
@@ -0,0 +1,150 @@
+-- ============================================
+-- AI USAGE ACCOUNTING AND RATE LIMITS
+-- ============================================
+-- ai-finance-chat now talks to whichever model provider the environment
+-- configures (see _shared/llm.ts). Every call it makes is logged here with
+-- the provider, model, token counts and cost, so usage can be reported and
+-- billed per member whatever the provider.
+--
+-- check_ai_usage_limit() is called before each chat message with the limits
+-- the function is configured with; it counts requests in the last minute and
+-- tokens in the last 24 hours from the same log.
+-- ============================================
+
+-- 1. One row per model call
+CREATE TABLE IF NOT EXISTS public.ai_usage_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- What the call was for: chat, recommendations
+  purpose TEXT NOT NULL DEFAULT 'chat',
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER GENERATED ALWAYS AS (prompt_tokens + completion_tokens) STORED,
+  -- false when the provider did not report usage and it was estimated
+  tokens_reported BOOLEAN NOT NULL DEFAULT true,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  latency_ms INTEGER,
+  status TEXT NOT NULL DEFAULT 'success' CHECK (status IN ('success', 'error')),
+  error_message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_logs_user_created
+  ON public.ai_usage_logs (user_id, created_at DESC);
+
+ALTER TABLE public.ai_usage_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own AI usage" ON public.ai_usage_logs;
+CREATE POLICY "Users can view their own AI usage" ON public.ai_usage_logs
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view all AI usage" ON public.ai_usage_logs;
+CREATE POLICY "Admins can view all AI usage" ON public.ai_usage_logs
+  FOR SELECT USING (public.is_admin());
+
+-- 2. Per-member limits, checked before a message is sent to the model
+CREATE OR REPLACE FUNCTION public.check_ai_usage_limit(
+  p_user_id UUID,
+  p_requests_per_minute INTEGER,
+  p_daily_token_limit INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recent_requests INTEGER;
+  v_oldest_recent TIMESTAMPTZ;
+  v_tokens_today BIGINT;
+  v_oldest_today TIMESTAMPTZ;
+BEGIN
+  -- Only chat messages count towards the request rate; the recommendation
+  -- call that can follow one is part of the same message
+  SELECT count(*), min(created_at) INTO v_recent_requests, v_oldest_recent
+  FROM public.ai_usage_logs
+  WHERE user_id = p_user_id
+    AND purpose = 'chat'
+    AND created_at > now() - INTERVAL '1 minute';
+
+  IF p_requests_per_minute IS NOT NULL AND v_recent_requests >= p_requests_per_minute THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'Too many messages. Please wait a moment before asking again.',
+      'retry_after_seconds', GREATEST(1, CEIL(EXTRACT(EPOCH FROM (v_oldest_recent + INTERVAL '1 minute' - now()))))
+    );
+  END IF;
+
+  SELECT COALESCE(sum(total_tokens), 0), min(created_at) INTO v_tokens_today, v_oldest_today
+  FROM public.ai_usage_logs
+  WHERE user_id = p_user_id
+    AND created_at > now() - INTERVAL '24 hours';
+
+  IF p_daily_token_limit IS NOT NULL AND v_tokens_today >= p_daily_token_limit THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'You have reached your daily AI advisor limit. Please try again tomorrow.',
+      'retry_after_seconds', GREATEST(1, CEIL(EXTRACT(EPOCH FROM (v_oldest_today + INTERVAL '24 hours' - now())))),
+      'tokens_used', v_tokens_today
+    );
+  END IF;
+
+  RETURN jsonb_build_object('allowed', true, 'tokens_used', v_tokens_today);
+END;
+$$;
+
+-- 3. Usage per member for a period, for reporting
+CREATE OR REPLACE FUNCTION public.get_ai_usage_summary(
+  p_since TIMESTAMPTZ DEFAULT date_trunc('month', now()),
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id UUID,
+  requests BIGINT,
+  prompt_tokens BIGINT,
+  completion_tokens BIGINT,
+  total_tokens BIGINT,
+  cost_usd NUMERIC,
+  last_used_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  -- Members see their own usage; admins can see everyone's
+  IF NOT public.is_admin() AND p_user_id IS DISTINCT FROM auth.uid() THEN
+    p_user_id := auth.uid();
+  END IF;
+
+  RETURN QUERY
+  SELECT l.user_id,
+         count(*) FILTER (WHERE l.status = 'success'),
+         COALESCE(sum(l.prompt_tokens), 0)::BIGINT,
+         COALESCE(sum(l.completion_tokens), 0)::BIGINT,
+         COALESCE(sum(l.total_tokens), 0)::BIGINT,
+         COALESCE(sum(l.cost_usd), 0),
+         max(l.created_at)
+  FROM public.ai_usage_logs l
+  WHERE l.created_at >= p_since
+    AND (p_user_id IS NULL OR l.user_id = p_user_id)
+  GROUP BY l.user_id
+  ORDER BY sum(l.cost_usd) DESC;
+END;
+$$;
+
+-- 4. Permissions
+REVOKE EXECUTE ON FUNCTION public.check_ai_usage_limit(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.check_ai_usage_limit(UUID, INTEGER, INTEGER) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.get_ai_usage_summary(TIMESTAMPTZ, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_ai_usage_summary(TIMESTAMPTZ, UUID) TO authenticated;
+
+COMMENT ON TABLE public.ai_usage_logs IS 'Model calls made for each member, with provider, token counts and cost';
+COMMENT ON FUNCTION public.check_ai_usage_limit IS 'Whether a member may send another AI chat message under the given per-minute and daily token limits';
+COMMENT ON FUNCTION public.get_ai_usage_summary IS 'AI requests, tokens and cost per member since a date; members see only their own';
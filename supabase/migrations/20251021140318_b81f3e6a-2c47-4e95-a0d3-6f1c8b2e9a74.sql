@@ -0,0 +1,466 @@
+-- ============================================
+-- CHAMA GROUP CHAT
+-- ============================================
+-- Messages live in chama_messages, one row per message, sent by a
+-- chama_members row. Members read them directly (RLS) and receive new ones
+-- over Supabase realtime; every write goes through the functions below so
+-- membership, mutes and officer rights are checked in one place.
+--
+-- Read receipts keep one "read up to" time per member rather than a row per
+-- message: a message has been seen by every member whose last_read_at is at
+-- or after it was sent. Attachments are uploaded to the private
+-- chat-attachments bucket under <chama_id>/<user_id>/ and only the path is
+-- stored on the message. Typing indicators and presence never touch the
+-- database; they are realtime broadcast and presence on the chat channel.
+--
+-- Officers (admin, chairman, treasurer, secretary) can pin messages, delete
+-- anyone's message and mute members; members can delete their own.
+-- ============================================
+
+-- 1. Messages
+CREATE TABLE IF NOT EXISTS public.chama_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chama_id UUID REFERENCES public.chamas(id) ON DELETE CASCADE,
+  sender_id UUID REFERENCES public.chama_members(id) ON DELETE SET NULL,
+  message TEXT NOT NULL,
+  sent_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.chama_messages
+  ADD COLUMN IF NOT EXISTS reply_to_id UUID REFERENCES public.chama_messages(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS attachment_path TEXT,
+  ADD COLUMN IF NOT EXISTS attachment_name TEXT,
+  ADD COLUMN IF NOT EXISTS attachment_mime_type TEXT,
+  ADD COLUMN IF NOT EXISTS attachment_size INTEGER,
+  ADD COLUMN IF NOT EXISTS is_pinned BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS pinned_by UUID REFERENCES public.chama_members(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS pinned_at TIMESTAMPTZ,
+  -- Deleted messages keep their row (replies point at it) but lose their content
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES public.chama_members(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_chama_messages_chama_sent
+  ON public.chama_messages (chama_id, sent_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_chama_messages_pinned
+  ON public.chama_messages (chama_id) WHERE is_pinned;
+
+ALTER TABLE public.chama_messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view their chama messages" ON public.chama_messages;
+CREATE POLICY "Members can view their chama messages" ON public.chama_messages
+  FOR SELECT USING (public.is_chama_member(chama_id));
+
+-- 2. How far each member has read
+CREATE TABLE IF NOT EXISTS public.chama_chat_reads (
+  chama_id UUID NOT NULL REFERENCES public.chamas(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES public.chama_members(id) ON DELETE CASCADE,
+  last_read_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (chama_id, member_id)
+);
+
+ALTER TABLE public.chama_chat_reads ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view read receipts in their chama" ON public.chama_chat_reads;
+CREATE POLICY "Members can view read receipts in their chama" ON public.chama_chat_reads
+  FOR SELECT USING (public.is_chama_member(chama_id));
+
+-- 3. Members an officer has muted; muted_until NULL means until unmuted
+CREATE TABLE IF NOT EXISTS public.chama_chat_mutes (
+  chama_id UUID NOT NULL REFERENCES public.chamas(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES public.chama_members(id) ON DELETE CASCADE,
+  muted_by UUID REFERENCES public.chama_members(id) ON DELETE SET NULL,
+  reason TEXT,
+  muted_until TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (chama_id, member_id)
+);
+
+ALTER TABLE public.chama_chat_mutes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view mutes in their chama" ON public.chama_chat_mutes;
+CREATE POLICY "Members can view mutes in their chama" ON public.chama_chat_mutes
+  FOR SELECT USING (public.is_chama_member(chama_id));
+
+-- 4. Attachments: <chama_id>/<user_id>/<file>
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'chat-attachments',
+  'chat-attachments',
+  false,
+  10485760, -- 10MB limit
+  ARRAY[
+    'image/jpeg', 'image/png', 'image/webp', 'image/gif',
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'text/plain'
+  ]
+) ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Members can upload chat attachments" ON storage.objects;
+CREATE POLICY "Members can upload chat attachments" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'chat-attachments' AND
+    auth.uid()::text = (storage.foldername(name))[2] AND
+    EXISTS (
+      SELECT 1 FROM public.chama_members
+      WHERE chama_id::text = (storage.foldername(name))[1] AND user_id = auth.uid() AND is_active = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can view chat attachments" ON storage.objects;
+CREATE POLICY "Members can view chat attachments" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'chat-attachments' AND
+    EXISTS (
+      SELECT 1 FROM public.chama_members
+      WHERE chama_id::text = (storage.foldername(name))[1] AND user_id = auth.uid() AND is_active = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Uploaders and officers can delete chat attachments" ON storage.objects;
+CREATE POLICY "Uploaders and officers can delete chat attachments" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'chat-attachments' AND (
+      auth.uid()::text = (storage.foldername(name))[2] OR
+      EXISTS (
+        SELECT 1 FROM public.chama_members
+        WHERE chama_id::text = (storage.foldername(name))[1] AND user_id = auth.uid()
+          AND is_active = true AND public.is_chama_officer_role(role)
+      )
+    )
+  );
+
+-- 5. The caller's membership, or an error
+CREATE OR REPLACE FUNCTION public.chat_member(p_chama_id UUID)
+RETURNS public.chama_members
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member public.chama_members%ROWTYPE;
+BEGIN
+  SELECT * INTO v_member
+  FROM public.chama_members
+  WHERE chama_id = p_chama_id AND user_id = auth.uid() AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a member of this chama';
+  END IF;
+
+  RETURN v_member;
+END;
+$$;
+
+-- 6. Send a message, optionally replying to another or carrying an attachment
+CREATE OR REPLACE FUNCTION public.send_chama_message(
+  p_chama_id UUID,
+  p_message TEXT,
+  p_reply_to_id UUID DEFAULT NULL,
+  p_attachment_path TEXT DEFAULT NULL,
+  p_attachment_name TEXT DEFAULT NULL,
+  p_attachment_mime_type TEXT DEFAULT NULL,
+  p_attachment_size INTEGER DEFAULT NULL
+)
+RETURNS public.chama_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member public.chama_members := public.chat_member(p_chama_id);
+  v_mute public.chama_chat_mutes%ROWTYPE;
+  v_text TEXT := COALESCE(trim(p_message), '');
+  v_message public.chama_messages%ROWTYPE;
+BEGIN
+  SELECT * INTO v_mute
+  FROM public.chama_chat_mutes
+  WHERE chama_id = p_chama_id AND member_id = v_member.id
+    AND (muted_until IS NULL OR muted_until > now());
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'You have been muted in this chat%',
+      CASE WHEN v_mute.muted_until IS NULL THEN '' ELSE ' until ' || to_char(v_mute.muted_until, 'DD Mon YYYY HH24:MI') END;
+  END IF;
+
+  IF v_text = '' AND p_attachment_path IS NULL THEN
+    RAISE EXCEPTION 'A message needs text or an attachment';
+  END IF;
+
+  IF length(v_text) > 2000 THEN
+    RAISE EXCEPTION 'Messages are limited to 2000 characters';
+  END IF;
+
+  -- Uploads are only accepted from the sender's own folder in this chama
+  IF p_attachment_path IS NOT NULL
+     AND p_attachment_path NOT LIKE p_chama_id::TEXT || '/' || auth.uid()::TEXT || '/%' THEN
+    RAISE EXCEPTION 'Invalid attachment';
+  END IF;
+
+  IF p_reply_to_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.chama_messages WHERE id = p_reply_to_id AND chama_id = p_chama_id
+  ) THEN
+    RAISE EXCEPTION 'The message you are replying to is not in this chat';
+  END IF;
+
+  INSERT INTO public.chama_messages (
+    chama_id, sender_id, message, reply_to_id,
+    attachment_path, attachment_name, attachment_mime_type, attachment_size
+  )
+  VALUES (
+    p_chama_id, v_member.id, v_text, p_reply_to_id,
+    p_attachment_path,
+    CASE WHEN p_attachment_path IS NULL THEN NULL ELSE p_attachment_name END,
+    CASE WHEN p_attachment_path IS NULL THEN NULL ELSE p_attachment_mime_type END,
+    CASE WHEN p_attachment_path IS NULL THEN NULL ELSE p_attachment_size END
+  )
+  RETURNING * INTO v_message;
+
+  -- Senders have read everything up to their own message
+  INSERT INTO public.chama_chat_reads (chama_id, member_id, last_read_at)
+  VALUES (p_chama_id, v_member.id, v_message.sent_at)
+  ON CONFLICT (chama_id, member_id) DO UPDATE
+    SET last_read_at = GREATEST(chama_chat_reads.last_read_at, EXCLUDED.last_read_at);
+
+  RETURN v_message;
+END;
+$$;
+
+-- 7. Read receipts
+CREATE OR REPLACE FUNCTION public.mark_chama_chat_read(p_chama_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member public.chama_members := public.chat_member(p_chama_id);
+  v_read_at TIMESTAMPTZ;
+BEGIN
+  INSERT INTO public.chama_chat_reads (chama_id, member_id, last_read_at)
+  VALUES (p_chama_id, v_member.id, now())
+  ON CONFLICT (chama_id, member_id) DO UPDATE SET last_read_at = EXCLUDED.last_read_at
+  RETURNING last_read_at INTO v_read_at;
+
+  RETURN v_read_at;
+END;
+$$;
+
+-- 8. Delete a message: the sender, or an officer for anyone's
+CREATE OR REPLACE FUNCTION public.delete_chama_message(p_message_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message public.chama_messages%ROWTYPE;
+  v_member public.chama_members%ROWTYPE;
+  v_sender_user UUID;
+BEGIN
+  SELECT * INTO v_message FROM public.chama_messages WHERE id = p_message_id FOR UPDATE;
+  IF NOT FOUND OR v_message.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  v_member := public.chat_member(v_message.chama_id);
+
+  IF v_message.sender_id IS DISTINCT FROM v_member.id AND NOT public.is_chama_officer_role(v_member.role) THEN
+    RAISE EXCEPTION 'Only chama officers can delete other members'' messages';
+  END IF;
+
+  UPDATE public.chama_messages
+  SET message = '',
+      attachment_path = NULL,
+      attachment_name = NULL,
+      attachment_mime_type = NULL,
+      attachment_size = NULL,
+      is_pinned = false,
+      pinned_by = NULL,
+      pinned_at = NULL,
+      deleted_at = now(),
+      deleted_by = v_member.id
+  WHERE id = p_message_id;
+
+  IF v_message.sender_id IS DISTINCT FROM v_member.id THEN
+    SELECT user_id INTO v_sender_user FROM public.chama_members WHERE id = v_message.sender_id;
+
+    INSERT INTO public.chama_audit_logs (chama_id, actor_id, target_id, action, old_value, details)
+    VALUES (
+      v_message.chama_id,
+      auth.uid(),
+      v_sender_user,
+      'chat_message_deleted',
+      v_message.message,
+      jsonb_build_object('message_id', p_message_id, 'attachment_path', v_message.attachment_path)
+    );
+  END IF;
+
+  -- The caller removes the file from storage
+  RETURN jsonb_build_object('success', true, 'attachment_path', v_message.attachment_path);
+END;
+$$;
+
+-- 9. Pin or unpin a message (officers)
+CREATE OR REPLACE FUNCTION public.set_chama_message_pinned(p_message_id UUID, p_pinned BOOLEAN)
+RETURNS public.chama_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message public.chama_messages%ROWTYPE;
+  v_member public.chama_members%ROWTYPE;
+BEGIN
+  SELECT * INTO v_message FROM public.chama_messages WHERE id = p_message_id FOR UPDATE;
+  IF NOT FOUND OR v_message.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  v_member := public.chat_member(v_message.chama_id);
+
+  IF NOT public.is_chama_officer_role(v_member.role) THEN
+    RAISE EXCEPTION 'Only chama officers can pin messages';
+  END IF;
+
+  UPDATE public.chama_messages
+  SET is_pinned = p_pinned,
+      pinned_by = CASE WHEN p_pinned THEN v_member.id END,
+      pinned_at = CASE WHEN p_pinned THEN now() END
+  WHERE id = p_message_id
+  RETURNING * INTO v_message;
+
+  RETURN v_message;
+END;
+$$;
+
+-- 10. Mute and unmute members (officers; officers cannot be muted)
+CREATE OR REPLACE FUNCTION public.mute_chama_member(
+  p_chama_id UUID,
+  p_member_id UUID,
+  p_muted_until TIMESTAMPTZ DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.chama_chat_mutes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_officer public.chama_members := public.chat_member(p_chama_id);
+  v_target public.chama_members%ROWTYPE;
+  v_mute public.chama_chat_mutes%ROWTYPE;
+BEGIN
+  IF NOT public.is_chama_officer_role(v_officer.role) THEN
+    RAISE EXCEPTION 'Only chama officers can mute members';
+  END IF;
+
+  SELECT * INTO v_target
+  FROM public.chama_members
+  WHERE id = p_member_id AND chama_id = p_chama_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member not found in this chama';
+  END IF;
+
+  IF public.is_chama_officer_role(v_target.role) THEN
+    RAISE EXCEPTION 'Officers cannot be muted';
+  END IF;
+
+  IF p_muted_until IS NOT NULL AND p_muted_until <= now() THEN
+    RAISE EXCEPTION 'The mute must end in the future';
+  END IF;
+
+  INSERT INTO public.chama_chat_mutes (chama_id, member_id, muted_by, reason, muted_until)
+  VALUES (p_chama_id, p_member_id, v_officer.id, NULLIF(trim(p_reason), ''), p_muted_until)
+  ON CONFLICT (chama_id, member_id) DO UPDATE SET
+    muted_by = EXCLUDED.muted_by,
+    reason = EXCLUDED.reason,
+    muted_until = EXCLUDED.muted_until,
+    created_at = now()
+  RETURNING * INTO v_mute;
+
+  INSERT INTO public.chama_audit_logs (chama_id, actor_id, target_id, action, new_value, details)
+  VALUES (
+    p_chama_id,
+    auth.uid(),
+    v_target.user_id,
+    'chat_member_muted',
+    COALESCE(p_muted_until::TEXT, 'indefinitely'),
+    jsonb_build_object('member_id', p_member_id, 'reason', v_mute.reason)
+  );
+
+  RETURN v_mute;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.unmute_chama_member(p_chama_id UUID, p_member_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_officer public.chama_members := public.chat_member(p_chama_id);
+  v_target_user UUID;
+BEGIN
+  IF NOT public.is_chama_officer_role(v_officer.role) THEN
+    RAISE EXCEPTION 'Only chama officers can unmute members';
+  END IF;
+
+  DELETE FROM public.chama_chat_mutes WHERE chama_id = p_chama_id AND member_id = p_member_id;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  SELECT user_id INTO v_target_user FROM public.chama_members WHERE id = p_member_id;
+
+  INSERT INTO public.chama_audit_logs (chama_id, actor_id, target_id, action, details)
+  VALUES (p_chama_id, auth.uid(), v_target_user, 'chat_member_unmuted', jsonb_build_object('member_id', p_member_id));
+
+  RETURN true;
+END;
+$$;
+
+-- 11. Realtime delivery
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['chama_messages', 'chama_chat_reads', 'chama_chat_mutes'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- 12. Permissions
+REVOKE EXECUTE ON FUNCTION public.chat_member(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.send_chama_message(UUID, TEXT, UUID, TEXT, TEXT, TEXT, INTEGER) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.mark_chama_chat_read(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.delete_chama_message(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_chama_message_pinned(UUID, BOOLEAN) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.mute_chama_member(UUID, UUID, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.unmute_chama_member(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.send_chama_message(UUID, TEXT, UUID, TEXT, TEXT, TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_chama_chat_read(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_chama_message(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_chama_message_pinned(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mute_chama_member(UUID, UUID, TIMESTAMPTZ, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.unmute_chama_member(UUID, UUID) TO authenticated;
+
+COMMENT ON TABLE public.chama_messages IS 'Group chat messages; written only through send_chama_message() and the moderation functions';
+COMMENT ON TABLE public.chama_chat_reads IS 'Per-member read position in a chama chat, used for read receipts';
+COMMENT ON TABLE public.chama_chat_mutes IS 'Members an officer has muted in a chama chat';
+COMMENT ON FUNCTION public.send_chama_message IS 'Posts a chat message as the calling member, refusing muted members and attachments outside their folder';
+COMMENT ON FUNCTION public.delete_chama_message IS 'Clears a chat message; senders can delete their own, officers anyone''s (audited)';
+COMMENT ON FUNCTION public.mute_chama_member IS 'Stops a member posting in the chama chat until a time or until unmuted; officers only';
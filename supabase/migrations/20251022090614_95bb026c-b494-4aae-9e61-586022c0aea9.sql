@@ -0,0 +1,1005 @@
+-- ============================================
+-- CHAMA MEETINGS
+-- ============================================
+-- Officers (admin, chairman, treasurer, secretary) schedule meetings, one-off
+-- or as a weekly, fortnightly or monthly series. Each occurrence of a series
+-- is its own chama_meetings row sharing a series_id, so one meeting can be
+-- moved or cancelled without touching the rest.
+--
+-- A meeting carries an agenda (published to members when ready), one
+-- attendance row per member, minutes and resolutions. A resolution is either
+-- decided in the room (adopted / rejected) or linked to a chama_votes ballot
+-- whose outcome it then reports.
+--
+-- Members check themselves in from an hour before the start until the
+-- meeting ends; checking in after the chama's grace period marks them late.
+-- The secretary can record or correct anyone's attendance. Closing a meeting
+-- marks everyone still unrecorded absent and levies the chama's absence and
+-- lateness fines (chama_settings.absence_fine / lateness_fine, changed by
+-- vote like any other setting). Correcting attendance after the meeting
+-- closed levies or waives fines to match.
+--
+-- close_finished_meetings() runs daily and closes meetings that ended over a
+-- day ago, but only those where attendance was taken; a meeting nobody
+-- recorded is left for the secretary rather than fining the whole chama.
+-- ============================================
+
+-- 1. Fine policy, per chama
+ALTER TABLE public.chama_settings
+  ADD COLUMN IF NOT EXISTS absence_fine NUMERIC(15,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS lateness_fine NUMERIC(15,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS lateness_grace_minutes INTEGER NOT NULL DEFAULT 15;
+
+ALTER TABLE public.chama_settings
+  DROP CONSTRAINT IF EXISTS chama_settings_meeting_fines_check;
+ALTER TABLE public.chama_settings
+  ADD CONSTRAINT chama_settings_meeting_fines_check
+  CHECK (absence_fine >= 0 AND lateness_fine >= 0 AND lateness_grace_minutes >= 0);
+
+-- 2. Meetings
+CREATE TABLE IF NOT EXISTS public.chama_meetings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chama_id UUID NOT NULL REFERENCES public.chamas(id) ON DELETE CASCADE,
+  -- The first meeting of a recurring series; NULL for one-off meetings
+  series_id UUID REFERENCES public.chama_meetings(id) ON DELETE SET NULL,
+  recurrence TEXT NOT NULL DEFAULT 'none'
+    CHECK (recurrence IN ('none', 'weekly', 'biweekly', 'monthly')),
+  title TEXT NOT NULL,
+  description TEXT,
+  meeting_type TEXT NOT NULL DEFAULT 'physical'
+    CHECK (meeting_type IN ('physical', 'virtual', 'hybrid')),
+  location TEXT,
+  meeting_link TEXT,
+  scheduled_at TIMESTAMPTZ NOT NULL,
+  duration_minutes INTEGER NOT NULL DEFAULT 120 CHECK (duration_minutes BETWEEN 15 AND 720),
+  status TEXT NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'completed', 'cancelled')),
+  agenda_published_at TIMESTAMPTZ,
+  cancelled_reason TEXT,
+  closed_at TIMESTAMPTZ,
+  closed_by UUID REFERENCES public.chama_members(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES public.chama_members(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chama_meetings_chama_scheduled
+  ON public.chama_meetings (chama_id, scheduled_at);
+
+CREATE INDEX IF NOT EXISTS idx_chama_meetings_open
+  ON public.chama_meetings (scheduled_at) WHERE status = 'scheduled';
+
+-- 3. Agenda items, in order
+CREATE TABLE IF NOT EXISTS public.chama_meeting_agenda_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  meeting_id UUID NOT NULL REFERENCES public.chama_meetings(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  duration_minutes INTEGER,
+  UNIQUE (meeting_id, position)
+);
+
+-- 4. Attendance, one row per member per meeting
+CREATE TABLE IF NOT EXISTS public.chama_meeting_attendance (
+  meeting_id UUID NOT NULL REFERENCES public.chama_meetings(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES public.chama_members(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('present', 'late', 'absent', 'excused')),
+  -- check_in: the member themselves; secretary: an officer; auto: unrecorded at close
+  method TEXT NOT NULL CHECK (method IN ('check_in', 'secretary', 'auto')),
+  checked_in_at TIMESTAMPTZ,
+  recorded_by UUID REFERENCES public.chama_members(id) ON DELETE SET NULL,
+  note TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (meeting_id, member_id)
+);
+
+-- 5. Minutes, one document per meeting; approved minutes are final
+CREATE TABLE IF NOT EXISTS public.chama_meeting_minutes (
+  meeting_id UUID PRIMARY KEY REFERENCES public.chama_meetings(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  recorded_by UUID REFERENCES public.chama_members(id) ON DELETE SET NULL,
+  approved_by UUID REFERENCES public.chama_members(id) ON DELETE SET NULL,
+  approved_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- 6. Resolutions, decided in the room or by a linked vote
+CREATE TABLE IF NOT EXISTS public.chama_meeting_resolutions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  meeting_id UUID NOT NULL REFERENCES public.chama_meetings(id) ON DELETE CASCADE,
+  agenda_item_id UUID REFERENCES public.chama_meeting_agenda_items(id) ON DELETE SET NULL,
+  resolution TEXT NOT NULL,
+  vote_id UUID REFERENCES public.chama_votes(id) ON DELETE SET NULL,
+  -- Only for resolutions without a vote; linked ones report the vote's outcome
+  outcome TEXT CHECK (outcome IN ('adopted', 'rejected')),
+  recorded_by UUID REFERENCES public.chama_members(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT chama_meeting_resolutions_decided CHECK ((vote_id IS NULL) = (outcome IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_chama_meeting_resolutions_meeting
+  ON public.chama_meeting_resolutions (meeting_id);
+
+-- 7. Fines levied for absence and lateness
+CREATE TABLE IF NOT EXISTS public.chama_meeting_fines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chama_id UUID NOT NULL REFERENCES public.chamas(id) ON DELETE CASCADE,
+  meeting_id UUID NOT NULL REFERENCES public.chama_meetings(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES public.chama_members(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN ('absence', 'lateness')),
+  amount NUMERIC(15,2) NOT NULL CHECK (amount > 0),
+  status TEXT NOT NULL DEFAULT 'outstanding' CHECK (status IN ('outstanding', 'paid', 'waived')),
+  resolved_by UUID REFERENCES public.chama_members(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  resolution_note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (meeting_id, member_id, reason)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chama_meeting_fines_member
+  ON public.chama_meeting_fines (chama_id, member_id);
+
+-- 8. Members read everything about their chama's meetings; writes go through the functions below
+ALTER TABLE public.chama_meetings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chama_meeting_agenda_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chama_meeting_attendance ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chama_meeting_minutes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chama_meeting_resolutions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chama_meeting_fines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view their chama meetings" ON public.chama_meetings;
+CREATE POLICY "Members can view their chama meetings" ON public.chama_meetings
+  FOR SELECT USING (public.is_chama_member(chama_id));
+
+DROP POLICY IF EXISTS "Members can view meeting agendas" ON public.chama_meeting_agenda_items;
+CREATE POLICY "Members can view meeting agendas" ON public.chama_meeting_agenda_items
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.chama_meetings m WHERE m.id = meeting_id AND public.is_chama_member(m.chama_id))
+  );
+
+DROP POLICY IF EXISTS "Members can view meeting attendance" ON public.chama_meeting_attendance;
+CREATE POLICY "Members can view meeting attendance" ON public.chama_meeting_attendance
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.chama_meetings m WHERE m.id = meeting_id AND public.is_chama_member(m.chama_id))
+  );
+
+DROP POLICY IF EXISTS "Members can view meeting minutes" ON public.chama_meeting_minutes;
+CREATE POLICY "Members can view meeting minutes" ON public.chama_meeting_minutes
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.chama_meetings m WHERE m.id = meeting_id AND public.is_chama_member(m.chama_id))
+  );
+
+DROP POLICY IF EXISTS "Members can view meeting resolutions" ON public.chama_meeting_resolutions;
+CREATE POLICY "Members can view meeting resolutions" ON public.chama_meeting_resolutions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.chama_meetings m WHERE m.id = meeting_id AND public.is_chama_member(m.chama_id))
+  );
+
+DROP POLICY IF EXISTS "Members can view their chama meeting fines" ON public.chama_meeting_fines;
+CREATE POLICY "Members can view their chama meeting fines" ON public.chama_meeting_fines
+  FOR SELECT USING (public.is_chama_member(chama_id));
+
+-- 9. The calling officer for a meeting's chama, or an error
+CREATE OR REPLACE FUNCTION public.meeting_officer(p_chama_id UUID)
+RETURNS public.chama_members
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member public.chama_members := public.chat_member(p_chama_id);
+BEGIN
+  IF NOT public.is_chama_officer_role(v_member.role) THEN
+    RAISE EXCEPTION 'Only chama officers can manage meetings';
+  END IF;
+
+  RETURN v_member;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_chama_members(
+  p_chama_id UUID,
+  p_type TEXT,
+  p_title TEXT,
+  p_message TEXT,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.chama_notifications (chama_id, user_id, type, title, message, metadata)
+  SELECT p_chama_id, cm.user_id, p_type, p_title, p_message, p_metadata
+  FROM public.chama_members cm
+  WHERE cm.chama_id = p_chama_id AND cm.is_active = true;
+$$;
+
+-- 10. Schedule a meeting, or a series of up to 52 occurrences
+CREATE OR REPLACE FUNCTION public.schedule_chama_meeting(
+  p_chama_id UUID,
+  p_title TEXT,
+  p_scheduled_at TIMESTAMPTZ,
+  p_duration_minutes INTEGER DEFAULT 120,
+  p_meeting_type TEXT DEFAULT 'physical',
+  p_location TEXT DEFAULT NULL,
+  p_meeting_link TEXT DEFAULT NULL,
+  p_description TEXT DEFAULT NULL,
+  p_recurrence TEXT DEFAULT 'none',
+  p_occurrences INTEGER DEFAULT 1
+)
+RETURNS SETOF public.chama_meetings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_officer public.chama_members := public.meeting_officer(p_chama_id);
+  v_step INTERVAL;
+  v_count INTEGER := CASE WHEN p_recurrence = 'none' THEN 1 ELSE COALESCE(p_occurrences, 1) END;
+  v_first public.chama_meetings%ROWTYPE;
+  v_meeting public.chama_meetings%ROWTYPE;
+BEGIN
+  IF NULLIF(trim(p_title), '') IS NULL THEN
+    RAISE EXCEPTION 'A meeting needs a title';
+  END IF;
+
+  IF p_scheduled_at <= now() THEN
+    RAISE EXCEPTION 'Meetings must be scheduled in the future';
+  END IF;
+
+  v_step := CASE p_recurrence
+    WHEN 'none' THEN NULL
+    WHEN 'weekly' THEN INTERVAL '1 week'
+    WHEN 'biweekly' THEN INTERVAL '2 weeks'
+    WHEN 'monthly' THEN INTERVAL '1 month'
+  END;
+
+  IF p_recurrence <> 'none' AND v_step IS NULL THEN
+    RAISE EXCEPTION 'Unknown recurrence: %', p_recurrence;
+  END IF;
+
+  IF v_count < 1 OR v_count > 52 THEN
+    RAISE EXCEPTION 'A series can have between 1 and 52 meetings';
+  END IF;
+
+  IF p_meeting_type IN ('virtual', 'hybrid') AND NULLIF(trim(p_meeting_link), '') IS NULL THEN
+    RAISE EXCEPTION 'Virtual and hybrid meetings need a meeting link';
+  END IF;
+
+  IF p_meeting_type IN ('physical', 'hybrid') AND NULLIF(trim(p_location), '') IS NULL THEN
+    RAISE EXCEPTION 'Physical and hybrid meetings need a location';
+  END IF;
+
+  FOR i IN 0 .. v_count - 1 LOOP
+    INSERT INTO public.chama_meetings (
+      chama_id, series_id, recurrence, title, description, meeting_type, location,
+      meeting_link, scheduled_at, duration_minutes, created_by
+    )
+    VALUES (
+      p_chama_id,
+      v_first.id,
+      p_recurrence,
+      trim(p_title),
+      NULLIF(trim(p_description), ''),
+      p_meeting_type,
+      NULLIF(trim(p_location), ''),
+      NULLIF(trim(p_meeting_link), ''),
+      -- Monthly steps are added from the first date so the 31st stays the month end
+      p_scheduled_at + COALESCE(v_step * i, INTERVAL '0'),
+      COALESCE(p_duration_minutes, 120),
+      v_officer.id
+    )
+    RETURNING * INTO v_meeting;
+
+    IF i = 0 AND v_count > 1 THEN
+      UPDATE public.chama_meetings SET series_id = id WHERE id = v_meeting.id
+      RETURNING * INTO v_meeting;
+    END IF;
+
+    IF i = 0 THEN
+      v_first := v_meeting;
+    END IF;
+
+    RETURN NEXT v_meeting;
+  END LOOP;
+
+  PERFORM public.notify_chama_members(
+    p_chama_id,
+    'meeting_scheduled',
+    'Meeting scheduled',
+    format(
+      '%s on %s%s',
+      v_first.title,
+      to_char(v_first.scheduled_at AT TIME ZONE 'Africa/Nairobi', 'Dy DD Mon YYYY, HH24:MI'),
+      CASE WHEN v_count > 1 THEN format(' (first of %s %s meetings)', v_count, replace(p_recurrence, 'biweekly', 'fortnightly')) ELSE '' END
+    ),
+    jsonb_build_object('meeting_id', v_first.id, 'series_id', v_first.series_id)
+  );
+END;
+$$;
+
+-- 11. Cancel a meeting, or it and the rest of its series
+CREATE OR REPLACE FUNCTION public.cancel_chama_meeting(
+  p_meeting_id UUID,
+  p_following BOOLEAN DEFAULT false,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_meeting public.chama_meetings%ROWTYPE;
+  v_officer public.chama_members%ROWTYPE;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_meeting FROM public.chama_meetings WHERE id = p_meeting_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Meeting not found';
+  END IF;
+
+  v_officer := public.meeting_officer(v_meeting.chama_id);
+
+  IF v_meeting.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'Only scheduled meetings can be cancelled';
+  END IF;
+
+  UPDATE public.chama_meetings
+  SET status = 'cancelled', cancelled_reason = NULLIF(trim(p_reason), ''), updated_at = now()
+  WHERE status = 'scheduled'
+    AND (
+      id = p_meeting_id
+      OR (p_following AND v_meeting.series_id IS NOT NULL
+          AND series_id = v_meeting.series_id AND scheduled_at > v_meeting.scheduled_at)
+    );
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  INSERT INTO public.chama_audit_logs (chama_id, actor_id, action, details)
+  VALUES (
+    v_meeting.chama_id,
+    auth.uid(),
+    'meeting_cancelled',
+    jsonb_build_object('meeting_id', p_meeting_id, 'meetings', v_count, 'reason', NULLIF(trim(p_reason), ''))
+  );
+
+  PERFORM public.notify_chama_members(
+    v_meeting.chama_id,
+    'meeting_cancelled',
+    'Meeting cancelled',
+    format(
+      '%s on %s has been cancelled%s',
+      v_meeting.title,
+      to_char(v_meeting.scheduled_at AT TIME ZONE 'Africa/Nairobi', 'Dy DD Mon YYYY'),
+      CASE WHEN v_count > 1 THEN format(', with the %s meetings after it', v_count - 1) ELSE '' END
+    ),
+    jsonb_build_object('meeting_id', p_meeting_id)
+  );
+
+  RETURN v_count;
+END;
+$$;
+
+-- 12. Replace a meeting's agenda; publishing sends it to members
+CREATE OR REPLACE FUNCTION public.set_meeting_agenda(
+  p_meeting_id UUID,
+  p_items JSONB,
+  p_publish BOOLEAN DEFAULT false
+)
+RETURNS SETOF public.chama_meeting_agenda_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_meeting public.chama_meetings%ROWTYPE;
+  v_officer public.chama_members%ROWTYPE;
+  v_item JSONB;
+  v_position INTEGER := 0;
+BEGIN
+  SELECT * INTO v_meeting FROM public.chama_meetings WHERE id = p_meeting_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Meeting not found';
+  END IF;
+
+  v_officer := public.meeting_officer(v_meeting.chama_id);
+
+  IF v_meeting.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'The agenda can only be changed before the meeting closes';
+  END IF;
+
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Agenda items must be a list';
+  END IF;
+
+  -- Resolutions keep their text if the item they were raised under is removed
+  DELETE FROM public.chama_meeting_agenda_items WHERE meeting_id = p_meeting_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    IF NULLIF(trim(v_item->>'title'), '') IS NULL THEN
+      RAISE EXCEPTION 'Every agenda item needs a title';
+    END IF;
+
+    v_position := v_position + 1;
+    INSERT INTO public.chama_meeting_agenda_items (meeting_id, position, title, description, duration_minutes)
+    VALUES (
+      p_meeting_id,
+      v_position,
+      trim(v_item->>'title'),
+      NULLIF(trim(v_item->>'description'), ''),
+      NULLIF(v_item->>'duration_minutes', '')::INTEGER
+    );
+  END LOOP;
+
+  IF p_publish THEN
+    IF v_position = 0 THEN
+      RAISE EXCEPTION 'Add at least one agenda item before publishing';
+    END IF;
+
+    UPDATE public.chama_meetings SET agenda_published_at = now(), updated_at = now() WHERE id = p_meeting_id;
+
+    PERFORM public.notify_chama_members(
+      v_meeting.chama_id,
+      'meeting_agenda',
+      CASE WHEN v_meeting.agenda_published_at IS NULL THEN 'Meeting agenda published' ELSE 'Meeting agenda updated' END,
+      format('%s: %s agenda item(s)', v_meeting.title, v_position),
+      jsonb_build_object('meeting_id', p_meeting_id)
+    );
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.chama_meeting_agenda_items WHERE meeting_id = p_meeting_id ORDER BY position;
+END;
+$$;
+
+-- 13. Levy (or waive) fines so they match a closed meeting's attendance
+CREATE OR REPLACE FUNCTION public.apply_meeting_fines(p_meeting_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_meeting public.chama_meetings%ROWTYPE;
+  v_absence_fine NUMERIC(15,2);
+  v_lateness_fine NUMERIC(15,2);
+  v_fine RECORD;
+  v_levied INTEGER := 0;
+BEGIN
+  SELECT * INTO v_meeting FROM public.chama_meetings WHERE id = p_meeting_id;
+  IF v_meeting.status IS DISTINCT FROM 'completed' THEN
+    RETURN 0;
+  END IF;
+
+  SELECT COALESCE(cs.absence_fine, 0), COALESCE(cs.lateness_fine, 0)
+  INTO v_absence_fine, v_lateness_fine
+  FROM public.chama_settings cs
+  WHERE cs.chama_id = v_meeting.chama_id;
+
+  -- A corrected attendance record takes back fines that no longer apply
+  UPDATE public.chama_meeting_fines f
+  SET status = 'waived', resolved_at = now(), resolution_note = 'Attendance corrected'
+  FROM public.chama_meeting_attendance a
+  WHERE f.meeting_id = p_meeting_id
+    AND f.status = 'outstanding'
+    AND a.meeting_id = f.meeting_id
+    AND a.member_id = f.member_id
+    AND a.status <> CASE f.reason WHEN 'absence' THEN 'absent' ELSE 'late' END;
+
+  FOR v_fine IN
+    INSERT INTO public.chama_meeting_fines (chama_id, meeting_id, member_id, reason, amount)
+    SELECT
+      v_meeting.chama_id,
+      p_meeting_id,
+      a.member_id,
+      CASE a.status WHEN 'absent' THEN 'absence' ELSE 'lateness' END,
+      CASE a.status WHEN 'absent' THEN v_absence_fine ELSE v_lateness_fine END
+    FROM public.chama_meeting_attendance a
+    WHERE a.meeting_id = p_meeting_id
+      AND ((a.status = 'absent' AND COALESCE(v_absence_fine, 0) > 0)
+        OR (a.status = 'late' AND COALESCE(v_lateness_fine, 0) > 0))
+    ON CONFLICT (meeting_id, member_id, reason) DO NOTHING
+    RETURNING member_id, reason, amount
+  LOOP
+    v_levied := v_levied + 1;
+
+    INSERT INTO public.chama_notifications (chama_id, user_id, type, title, message, metadata)
+    SELECT
+      v_meeting.chama_id,
+      cm.user_id,
+      'meeting_fine',
+      CASE v_fine.reason WHEN 'absence' THEN 'Absence fine' ELSE 'Lateness fine' END,
+      format('KES %s for %s at %s on %s',
+        to_char(v_fine.amount, 'FM999,999,990.00'),
+        CASE v_fine.reason WHEN 'absence' THEN 'missing' ELSE 'arriving late' END,
+        v_meeting.title,
+        to_char(v_meeting.scheduled_at AT TIME ZONE 'Africa/Nairobi', 'DD Mon YYYY')),
+      jsonb_build_object('meeting_id', p_meeting_id, 'reason', v_fine.reason, 'amount', v_fine.amount)
+    FROM public.chama_members cm
+    WHERE cm.id = v_fine.member_id;
+  END LOOP;
+
+  RETURN v_levied;
+END;
+$$;
+
+-- 14. Members check themselves in
+CREATE OR REPLACE FUNCTION public.check_in_to_meeting(p_meeting_id UUID)
+RETURNS public.chama_meeting_attendance
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_meeting public.chama_meetings%ROWTYPE;
+  v_member public.chama_members%ROWTYPE;
+  v_grace INTEGER;
+  v_attendance public.chama_meeting_attendance%ROWTYPE;
+BEGIN
+  SELECT * INTO v_meeting FROM public.chama_meetings WHERE id = p_meeting_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Meeting not found';
+  END IF;
+
+  v_member := public.chat_member(v_meeting.chama_id);
+
+  IF v_meeting.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'This meeting is %', v_meeting.status;
+  END IF;
+
+  IF now() < v_meeting.scheduled_at - INTERVAL '1 hour' THEN
+    RAISE EXCEPTION 'Check-in opens an hour before the meeting starts';
+  END IF;
+
+  IF now() > v_meeting.scheduled_at + make_interval(mins => v_meeting.duration_minutes) THEN
+    RAISE EXCEPTION 'This meeting has ended; ask the secretary to record your attendance';
+  END IF;
+
+  SELECT COALESCE(cs.lateness_grace_minutes, 15) INTO v_grace
+  FROM public.chama_settings cs
+  WHERE cs.chama_id = v_meeting.chama_id;
+
+  INSERT INTO public.chama_meeting_attendance (meeting_id, member_id, status, method, checked_in_at, recorded_by)
+  VALUES (
+    p_meeting_id,
+    v_member.id,
+    CASE WHEN now() > v_meeting.scheduled_at + make_interval(mins => COALESCE(v_grace, 15)) THEN 'late' ELSE 'present' END,
+    'check_in',
+    now(),
+    v_member.id
+  )
+  ON CONFLICT (meeting_id, member_id) DO NOTHING
+  RETURNING * INTO v_attendance;
+
+  IF v_attendance.meeting_id IS NULL THEN
+    RAISE EXCEPTION 'Your attendance has already been recorded';
+  END IF;
+
+  RETURN v_attendance;
+END;
+$$;
+
+-- 15. The secretary records or corrects a member's attendance
+CREATE OR REPLACE FUNCTION public.record_meeting_attendance(
+  p_meeting_id UUID,
+  p_member_id UUID,
+  p_status TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.chama_meeting_attendance
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_meeting public.chama_meetings%ROWTYPE;
+  v_officer public.chama_members%ROWTYPE;
+  v_target public.chama_members%ROWTYPE;
+  v_previous TEXT;
+  v_attendance public.chama_meeting_attendance%ROWTYPE;
+BEGIN
+  SELECT * INTO v_meeting FROM public.chama_meetings WHERE id = p_meeting_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Meeting not found';
+  END IF;
+
+  v_officer := public.meeting_officer(v_meeting.chama_id);
+
+  IF v_meeting.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This meeting was cancelled';
+  END IF;
+
+  IF p_status NOT IN ('present', 'late', 'absent', 'excused') THEN
+    RAISE EXCEPTION 'Unknown attendance status: %', p_status;
+  END IF;
+
+  IF v_meeting.scheduled_at - INTERVAL '1 hour' > now() THEN
+    RAISE EXCEPTION 'Attendance can be taken from an hour before the meeting';
+  END IF;
+
+  SELECT * INTO v_target
+  FROM public.chama_members
+  WHERE id = p_member_id AND chama_id = v_meeting.chama_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member not found in this chama';
+  END IF;
+
+  SELECT status INTO v_previous
+  FROM public.chama_meeting_attendance
+  WHERE meeting_id = p_meeting_id AND member_id = p_member_id;
+
+  INSERT INTO public.chama_meeting_attendance (meeting_id, member_id, status, method, checked_in_at, recorded_by, note)
+  VALUES (
+    p_meeting_id,
+    p_member_id,
+    p_status,
+    'secretary',
+    CASE WHEN p_status IN ('present', 'late') THEN now() END,
+    v_officer.id,
+    NULLIF(trim(p_note), '')
+  )
+  ON CONFLICT (meeting_id, member_id) DO UPDATE SET
+    status = EXCLUDED.status,
+    method = EXCLUDED.method,
+    -- A correction keeps the member's own check-in time
+    checked_in_at = CASE WHEN EXCLUDED.status IN ('present', 'late')
+      THEN COALESCE(public.chama_meeting_attendance.checked_in_at, EXCLUDED.checked_in_at) END,
+    recorded_by = EXCLUDED.recorded_by,
+    note = EXCLUDED.note,
+    updated_at = now()
+  RETURNING * INTO v_attendance;
+
+  -- Changing a record after the fact moves money, so it is audited
+  IF v_previous IS NOT NULL AND v_previous <> p_status THEN
+    INSERT INTO public.chama_audit_logs (chama_id, actor_id, target_id, action, old_value, new_value, details)
+    VALUES (
+      v_meeting.chama_id,
+      auth.uid(),
+      v_target.user_id,
+      'meeting_attendance_corrected',
+      v_previous,
+      p_status,
+      jsonb_build_object('meeting_id', p_meeting_id, 'member_id', p_member_id, 'note', v_attendance.note)
+    );
+  END IF;
+
+  PERFORM public.apply_meeting_fines(p_meeting_id);
+
+  RETURN v_attendance;
+END;
+$$;
+
+-- 16. Minutes; once approved they cannot be edited
+CREATE OR REPLACE FUNCTION public.save_meeting_minutes(
+  p_meeting_id UUID,
+  p_content TEXT,
+  p_approve BOOLEAN DEFAULT false
+)
+RETURNS public.chama_meeting_minutes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_meeting public.chama_meetings%ROWTYPE;
+  v_officer public.chama_members%ROWTYPE;
+  v_minutes public.chama_meeting_minutes%ROWTYPE;
+BEGIN
+  SELECT * INTO v_meeting FROM public.chama_meetings WHERE id = p_meeting_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Meeting not found';
+  END IF;
+
+  v_officer := public.meeting_officer(v_meeting.chama_id);
+
+  IF v_meeting.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This meeting was cancelled';
+  END IF;
+
+  IF NULLIF(trim(p_content), '') IS NULL THEN
+    RAISE EXCEPTION 'Minutes cannot be empty';
+  END IF;
+
+  SELECT * INTO v_minutes FROM public.chama_meeting_minutes WHERE meeting_id = p_meeting_id FOR UPDATE;
+  IF FOUND AND v_minutes.approved_at IS NOT NULL THEN
+    RAISE EXCEPTION 'These minutes have been approved and can no longer be changed';
+  END IF;
+
+  INSERT INTO public.chama_meeting_minutes (meeting_id, content, recorded_by, approved_by, approved_at)
+  VALUES (
+    p_meeting_id,
+    trim(p_content),
+    v_officer.id,
+    CASE WHEN p_approve THEN v_officer.id END,
+    CASE WHEN p_approve THEN now() END
+  )
+  ON CONFLICT (meeting_id) DO UPDATE SET
+    content = EXCLUDED.content,
+    recorded_by = EXCLUDED.recorded_by,
+    approved_by = EXCLUDED.approved_by,
+    approved_at = EXCLUDED.approved_at,
+    updated_at = now()
+  RETURNING * INTO v_minutes;
+
+  IF p_approve THEN
+    INSERT INTO public.chama_audit_logs (chama_id, actor_id, action, details)
+    VALUES (v_meeting.chama_id, auth.uid(), 'meeting_minutes_approved', jsonb_build_object('meeting_id', p_meeting_id));
+  END IF;
+
+  RETURN v_minutes;
+END;
+$$;
+
+-- 17. Resolutions, decided in the room or linked to a chama vote
+CREATE OR REPLACE FUNCTION public.add_meeting_resolution(
+  p_meeting_id UUID,
+  p_resolution TEXT,
+  p_vote_id UUID DEFAULT NULL,
+  p_outcome TEXT DEFAULT NULL,
+  p_agenda_item_id UUID DEFAULT NULL
+)
+RETURNS public.chama_meeting_resolutions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_meeting public.chama_meetings%ROWTYPE;
+  v_officer public.chama_members%ROWTYPE;
+  v_resolution public.chama_meeting_resolutions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_meeting FROM public.chama_meetings WHERE id = p_meeting_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Meeting not found';
+  END IF;
+
+  v_officer := public.meeting_officer(v_meeting.chama_id);
+
+  IF v_meeting.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This meeting was cancelled';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.chama_meeting_minutes WHERE meeting_id = p_meeting_id AND approved_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'The minutes of this meeting have been approved';
+  END IF;
+
+  IF NULLIF(trim(p_resolution), '') IS NULL THEN
+    RAISE EXCEPTION 'A resolution needs its wording';
+  END IF;
+
+  IF p_vote_id IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM public.chama_votes WHERE id = p_vote_id AND chama_id = v_meeting.chama_id) THEN
+      RAISE EXCEPTION 'Vote not found in this chama';
+    END IF;
+  ELSIF p_outcome IS NULL OR p_outcome NOT IN ('adopted', 'rejected') THEN
+    RAISE EXCEPTION 'A resolution without a vote must be adopted or rejected';
+  END IF;
+
+  IF p_agenda_item_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.chama_meeting_agenda_items WHERE id = p_agenda_item_id AND meeting_id = p_meeting_id
+  ) THEN
+    RAISE EXCEPTION 'Agenda item not found on this meeting';
+  END IF;
+
+  INSERT INTO public.chama_meeting_resolutions (meeting_id, agenda_item_id, resolution, vote_id, outcome, recorded_by)
+  VALUES (
+    p_meeting_id,
+    p_agenda_item_id,
+    trim(p_resolution),
+    p_vote_id,
+    CASE WHEN p_vote_id IS NULL THEN p_outcome END,
+    v_officer.id
+  )
+  RETURNING * INTO v_resolution;
+
+  RETURN v_resolution;
+END;
+$$;
+
+-- 18. Close a meeting: unrecorded members are absent, then fines are levied
+CREATE OR REPLACE FUNCTION public.finalize_chama_meeting(p_meeting_id UUID, p_closed_by UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_meeting public.chama_meetings%ROWTYPE;
+  v_levied INTEGER;
+  v_summary JSONB;
+BEGIN
+  SELECT * INTO v_meeting FROM public.chama_meetings WHERE id = p_meeting_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Meeting not found';
+  END IF;
+
+  IF v_meeting.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'This meeting is already %', v_meeting.status;
+  END IF;
+
+  -- Members who joined after the meeting are not expected at it
+  INSERT INTO public.chama_meeting_attendance (meeting_id, member_id, status, method)
+  SELECT p_meeting_id, cm.id, 'absent', 'auto'
+  FROM public.chama_members cm
+  WHERE cm.chama_id = v_meeting.chama_id
+    AND cm.is_active = true
+    AND cm.joined_at <= v_meeting.scheduled_at
+  ON CONFLICT (meeting_id, member_id) DO NOTHING;
+
+  UPDATE public.chama_meetings
+  SET status = 'completed', closed_at = now(), closed_by = p_closed_by, updated_at = now()
+  WHERE id = p_meeting_id;
+
+  v_levied := public.apply_meeting_fines(p_meeting_id);
+
+  SELECT jsonb_build_object(
+    'present', count(*) FILTER (WHERE a.status = 'present'),
+    'late', count(*) FILTER (WHERE a.status = 'late'),
+    'absent', count(*) FILTER (WHERE a.status = 'absent'),
+    'excused', count(*) FILTER (WHERE a.status = 'excused'),
+    'fines_levied', v_levied,
+    'fines_total', (
+      SELECT COALESCE(sum(amount), 0) FROM public.chama_meeting_fines
+      WHERE meeting_id = p_meeting_id AND status <> 'waived'
+    )
+  )
+  INTO v_summary
+  FROM public.chama_meeting_attendance a
+  WHERE a.meeting_id = p_meeting_id;
+
+  RETURN v_summary;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.close_chama_meeting(p_meeting_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_meeting public.chama_meetings%ROWTYPE;
+  v_officer public.chama_members%ROWTYPE;
+BEGIN
+  SELECT * INTO v_meeting FROM public.chama_meetings WHERE id = p_meeting_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Meeting not found';
+  END IF;
+
+  v_officer := public.meeting_officer(v_meeting.chama_id);
+
+  IF v_meeting.scheduled_at > now() THEN
+    RAISE EXCEPTION 'A meeting cannot be closed before it starts';
+  END IF;
+
+  RETURN public.finalize_chama_meeting(p_meeting_id, v_officer.id);
+END;
+$$;
+
+-- 19. Daily: close meetings that ended over a day ago and had attendance taken
+CREATE OR REPLACE FUNCTION public.close_finished_meetings()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_meeting_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_meeting_id IN
+    SELECT m.id
+    FROM public.chama_meetings m
+    WHERE m.status = 'scheduled'
+      AND m.scheduled_at + make_interval(mins => m.duration_minutes) < now() - INTERVAL '1 day'
+      AND EXISTS (SELECT 1 FROM public.chama_meeting_attendance a WHERE a.meeting_id = m.id)
+  LOOP
+    PERFORM public.finalize_chama_meeting(v_meeting_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- 20. Officers settle or waive fines
+CREATE OR REPLACE FUNCTION public.resolve_meeting_fine(
+  p_fine_id UUID,
+  p_status TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.chama_meeting_fines
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fine public.chama_meeting_fines%ROWTYPE;
+  v_officer public.chama_members%ROWTYPE;
+BEGIN
+  SELECT * INTO v_fine FROM public.chama_meeting_fines WHERE id = p_fine_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fine not found';
+  END IF;
+
+  v_officer := public.meeting_officer(v_fine.chama_id);
+
+  IF p_status NOT IN ('paid', 'waived') THEN
+    RAISE EXCEPTION 'A fine can only be marked paid or waived';
+  END IF;
+
+  IF v_fine.status <> 'outstanding' THEN
+    RAISE EXCEPTION 'This fine is already %', v_fine.status;
+  END IF;
+
+  IF p_status = 'waived' AND NULLIF(trim(p_note), '') IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for waiving the fine';
+  END IF;
+
+  UPDATE public.chama_meeting_fines
+  SET status = p_status, resolved_by = v_officer.id, resolved_at = now(), resolution_note = NULLIF(trim(p_note), '')
+  WHERE id = p_fine_id
+  RETURNING * INTO v_fine;
+
+  INSERT INTO public.chama_audit_logs (chama_id, actor_id, target_id, action, old_value, new_value, details)
+  SELECT
+    v_fine.chama_id,
+    auth.uid(),
+    cm.user_id,
+    'meeting_fine_' || p_status,
+    'outstanding',
+    p_status,
+    jsonb_build_object('fine_id', p_fine_id, 'amount', v_fine.amount, 'reason', v_fine.reason, 'note', v_fine.resolution_note)
+  FROM public.chama_members cm
+  WHERE cm.id = v_fine.member_id;
+
+  RETURN v_fine;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.meeting_officer(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.notify_chama_members(UUID, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.apply_meeting_fines(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.finalize_chama_meeting(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.close_finished_meetings() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.schedule_chama_meeting(UUID, TEXT, TIMESTAMPTZ, INTEGER, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.cancel_chama_meeting(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_meeting_agenda(UUID, JSONB, BOOLEAN) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.check_in_to_meeting(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.record_meeting_attendance(UUID, UUID, TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.save_meeting_minutes(UUID, TEXT, BOOLEAN) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.add_meeting_resolution(UUID, TEXT, UUID, TEXT, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.close_chama_meeting(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.resolve_meeting_fine(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.schedule_chama_meeting(UUID, TEXT, TIMESTAMPTZ, INTEGER, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_chama_meeting(UUID, BOOLEAN, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_meeting_agenda(UUID, JSONB, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.check_in_to_meeting(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_meeting_attendance(UUID, UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.save_meeting_minutes(UUID, TEXT, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.add_meeting_resolution(UUID, TEXT, UUID, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.close_chama_meeting(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_meeting_fine(UUID, TEXT, TEXT) TO authenticated;
+
+-- 21. Close finished meetings every morning (06:00 EAT)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'close-finished-meetings',
+  '0 3 * * *',
+  $$SELECT public.close_finished_meetings();$$
+);
+
+COMMENT ON TABLE public.chama_meetings IS 'Chama meetings; recurring series share series_id, one row per occurrence';
+COMMENT ON TABLE public.chama_meeting_attendance IS 'Who attended a meeting, by self check-in, secretary entry or marked absent at close';
+COMMENT ON TABLE public.chama_meeting_resolutions IS 'Resolutions recorded at a meeting, decided in the room or by a linked chama vote';
+COMMENT ON TABLE public.chama_meeting_fines IS 'Absence and lateness fines levied from chama_settings when a meeting closes';
+COMMENT ON COLUMN public.chama_settings.lateness_grace_minutes IS 'Minutes after a meeting starts before a check-in counts as late';
+COMMENT ON FUNCTION public.schedule_chama_meeting IS 'Schedules a meeting or a weekly, fortnightly or monthly series and notifies members; officers only';
+COMMENT ON FUNCTION public.record_meeting_attendance IS 'Records or corrects a member''s attendance (audited when changed); fines follow on closed meetings';
+COMMENT ON FUNCTION public.close_chama_meeting IS 'Closes a meeting, marks unrecorded members absent and levies fines; officers only';
+COMMENT ON FUNCTION public.close_finished_meetings() IS 'Daily job: closes meetings that ended over a day ago and had attendance taken';
@@ -0,0 +1,105 @@
+-- ============================================
+-- CALENDAR SUBSCRIPTION FEEDS
+-- ============================================
+-- Each member can subscribe their calendar app to a private iCalendar feed of
+-- a chama's meetings and contribution due dates. Calendar apps fetch the feed
+-- without signing in, so the calendar-feed edge function finds the member by
+-- a secret token in the URL. Only a hash of the token is stored: the link is
+-- shown once when it is created and resetting it revokes the old one.
+-- ============================================
+
+-- 1. Issued feed tokens, at most one live per member and chama
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  chama_id UUID NOT NULL REFERENCES public.chamas(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_accessed_at TIMESTAMPTZ,
+  access_count INTEGER NOT NULL DEFAULT 0,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_feed_tokens_live
+  ON public.calendar_feed_tokens (user_id, chama_id)
+  WHERE revoked_at IS NULL;
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Members can see when their feeds were created and last fetched
+CREATE POLICY "Users can view their calendar feeds"
+  ON public.calendar_feed_tokens FOR SELECT
+  USING (user_id = auth.uid());
+
+-- 2. Create (or reset) the caller's feed for a chama and return the new token
+CREATE OR REPLACE FUNCTION public.create_calendar_feed(p_chama_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token TEXT := encode(gen_random_bytes(32), 'hex');
+BEGIN
+  -- Raises unless the caller is an active member
+  PERFORM public.chat_member(p_chama_id);
+
+  UPDATE public.calendar_feed_tokens
+  SET revoked_at = now()
+  WHERE user_id = auth.uid() AND chama_id = p_chama_id AND revoked_at IS NULL;
+
+  INSERT INTO public.calendar_feed_tokens (user_id, chama_id, token_hash)
+  VALUES (auth.uid(), p_chama_id, encode(digest(v_token, 'sha256'), 'hex'));
+
+  RETURN v_token;
+END;
+$$;
+
+-- 3. Stop the caller's feed for a chama
+CREATE OR REPLACE FUNCTION public.revoke_calendar_feed(p_chama_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.calendar_feed_tokens
+  SET revoked_at = now()
+  WHERE user_id = auth.uid() AND chama_id = p_chama_id AND revoked_at IS NULL;
+
+  RETURN FOUND;
+END;
+$$;
+
+-- 4. Resolve a feed token for the calendar-feed function (service role only).
+-- Feeds of members who have since left the chama stop resolving.
+CREATE OR REPLACE FUNCTION public.resolve_calendar_feed(p_token TEXT)
+RETURNS TABLE (user_id UUID, chama_id UUID, member_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.calendar_feed_tokens t
+  SET last_accessed_at = now(), access_count = t.access_count + 1
+  FROM public.chama_members cm
+  WHERE t.token_hash = encode(digest(p_token, 'sha256'), 'hex')
+    AND t.revoked_at IS NULL
+    AND cm.chama_id = t.chama_id
+    AND cm.user_id = t.user_id
+    AND cm.is_active = true
+  RETURNING t.user_id, t.chama_id, cm.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_calendar_feed(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.revoke_calendar_feed(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.resolve_calendar_feed(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_calendar_feed(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_calendar_feed(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_calendar_feed(TEXT) TO service_role;
+
+COMMENT ON TABLE public.calendar_feed_tokens IS 'Secret links to members'' iCalendar feeds of a chama; only the token hash is kept';
+COMMENT ON FUNCTION public.create_calendar_feed(UUID) IS 'Creates or resets the caller''s calendar feed for a chama and returns the token once';
+COMMENT ON FUNCTION public.resolve_calendar_feed(TEXT) IS 'Looks up a live feed token for an active member and records the fetch; service role only';
@@ -0,0 +1,684 @@
+-- ============================================
+-- SMS GATEWAY
+-- ============================================
+-- Every text the platform sends is a row in sms_messages. Edge functions
+-- queue and send straight away through _shared/sms.ts; the database queues
+-- texts for announcements, payment confirmations and loan reminders from the
+-- notifications it writes, and the sms-dispatch function sends those every
+-- minute. The message is rendered at send time from its template in the
+-- recipient's language, through whichever provider is configured (Africa's
+-- Talking, Twilio or a local fake).
+--
+-- Providers post delivery reports and opt-outs to sms-callback, which
+-- updates the message and the opt-out list. Chamas opt in to SMS, may use
+-- their own registered sender ID, and are charged what their texts cost from
+-- the chama wallet once a day.
+-- ============================================
+
+-- 1. Per-chama SMS settings; officers change these directly
+ALTER TABLE public.chama_settings
+  ADD COLUMN IF NOT EXISTS sms_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS sms_sender_id TEXT;
+
+ALTER TABLE public.chama_settings DROP CONSTRAINT IF EXISTS chama_settings_sms_sender_id_check;
+ALTER TABLE public.chama_settings
+  ADD CONSTRAINT chama_settings_sms_sender_id_check
+  CHECK (sms_sender_id IS NULL OR sms_sender_id ~ '^[A-Za-z0-9 ]{3,11}$');
+
+-- 2. Sent and queued messages
+CREATE TABLE IF NOT EXISTS public.sms_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- The chama paying for the text; NULL when the platform pays
+  chama_id UUID REFERENCES public.chamas(id) ON DELETE SET NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  phone TEXT NOT NULL,
+  category TEXT NOT NULL
+    CHECK (category IN ('invitation', 'security', 'announcement', 'payment', 'loan_reminder', 'notification')),
+  template TEXT NOT NULL,
+  template_values JSONB NOT NULL DEFAULT '{}',
+  -- Rendered in the recipient's language when sent
+  language TEXT,
+  body TEXT,
+  sender_id TEXT,
+  provider TEXT,
+  provider_message_id TEXT,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'sending', 'sent', 'delivered', 'failed', 'rejected')),
+  failure_reason TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  segments INTEGER,
+  cost NUMERIC(12,4),
+  cost_currency VARCHAR(3),
+  fee_collection_id UUID REFERENCES public.fee_collections(id),
+  charged_at TIMESTAMPTZ,
+  -- What caused the text, e.g. the chama_notifications row
+  source_type TEXT,
+  source_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  sent_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sms_messages_provider_id
+  ON public.sms_messages (provider, provider_message_id)
+  WHERE provider_message_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sms_messages_queue
+  ON public.sms_messages (created_at)
+  WHERE status IN ('queued', 'sending');
+
+CREATE INDEX IF NOT EXISTS idx_sms_messages_chama
+  ON public.sms_messages (chama_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_sms_messages_uncharged
+  ON public.sms_messages (chama_id)
+  WHERE charged_at IS NULL AND cost > 0;
+
+ALTER TABLE public.sms_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view texts sent to them"
+  ON public.sms_messages FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Chama officers can view their chama's texts"
+  ON public.sms_messages FOR SELECT
+  USING (
+    chama_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.chama_members cm
+      WHERE cm.chama_id = sms_messages.chama_id
+        AND cm.user_id = auth.uid()
+        AND cm.is_active = true
+        AND public.is_chama_officer_role(cm.role::TEXT)
+    )
+  );
+
+CREATE POLICY "Admins can view all texts"
+  ON public.sms_messages FOR SELECT
+  USING (is_admin());
+
+-- 3. Numbers that asked not to be texted, for one chama or (chama_id NULL) at all
+CREATE TABLE IF NOT EXISTS public.sms_opt_outs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  phone TEXT NOT NULL,
+  chama_id UUID REFERENCES public.chamas(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  source TEXT NOT NULL CHECK (source IN ('app', 'keyword', 'provider')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sms_opt_outs_phone_chama
+  ON public.sms_opt_outs (phone, COALESCE(chama_id, '00000000-0000-0000-0000-000000000000'::UUID));
+
+ALTER TABLE public.sms_opt_outs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their SMS opt-outs"
+  ON public.sms_opt_outs FOR SELECT
+  USING (user_id = auth.uid());
+
+-- 4. Phone numbers in E.164; bare Kenyan numbers get +254
+CREATE OR REPLACE FUNCTION public.normalize_phone(p_phone TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN v.digits = '' THEN NULL
+    WHEN v.digits ~ '^0[17][0-9]{8}$' THEN '+254' || substr(v.digits, 2)
+    WHEN v.digits ~ '^[17][0-9]{8}$' THEN '+254' || v.digits
+    ELSE '+' || v.digits
+  END
+  FROM (SELECT regexp_replace(COALESCE(p_phone, ''), '[^0-9]', '', 'g') AS digits) v;
+$$;
+
+-- 5. The profile number texts to a user go to
+CREATE OR REPLACE FUNCTION public.user_sms_phone(p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.normalize_phone(COALESCE(NULLIF(phone_number, ''), NULLIF(phone, '')))
+  FROM public.profiles
+  WHERE user_id = p_user_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sms_opted_out(p_phone TEXT, p_chama_id UUID DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.sms_opt_outs
+    WHERE phone = public.normalize_phone(p_phone)
+      AND (chama_id IS NULL OR chama_id = p_chama_id)
+  );
+$$;
+
+-- 6. Queue a text. Returns NULL when it should not be sent: no number, the
+-- number opted out, or the chama paying for it has SMS turned off. Security
+-- alerts and invitations ignore both, and the platform pays for them when the
+-- chama has not turned SMS on.
+CREATE OR REPLACE FUNCTION public.queue_sms(
+  p_category TEXT,
+  p_template TEXT,
+  p_values JSONB DEFAULT '{}',
+  p_user_id UUID DEFAULT NULL,
+  p_phone TEXT DEFAULT NULL,
+  p_chama_id UUID DEFAULT NULL,
+  p_language TEXT DEFAULT NULL,
+  p_source_type TEXT DEFAULT NULL,
+  p_source_id UUID DEFAULT NULL
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_phone TEXT := public.normalize_phone(COALESCE(p_phone, public.user_sms_phone(p_user_id)));
+  v_chama_id UUID := p_chama_id;
+  v_enabled BOOLEAN;
+  v_sender_id TEXT;
+  v_id UUID;
+  v_mandatory BOOLEAN := p_category IN ('security', 'invitation');
+BEGIN
+  IF v_phone IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT v_mandatory AND public.sms_opted_out(v_phone, p_chama_id) THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_chama_id IS NOT NULL THEN
+    SELECT sms_enabled, sms_sender_id INTO v_enabled, v_sender_id
+    FROM public.chama_settings
+    WHERE chama_id = p_chama_id;
+
+    IF NOT COALESCE(v_enabled, false) THEN
+      IF NOT v_mandatory THEN
+        RETURN NULL;
+      END IF;
+      v_chama_id := NULL;
+      v_sender_id := NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO public.sms_messages (
+    chama_id, user_id, phone, category, template, template_values, language,
+    sender_id, source_type, source_id
+  ) VALUES (
+    v_chama_id, p_user_id, v_phone, p_category, p_template, COALESCE(p_values, '{}'), p_language,
+    v_sender_id, p_source_type, p_source_id
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- 7. Take queued texts for sending. Texts stuck in 'sending' (the sender
+-- died) are retried; after three attempts they are failed.
+CREATE OR REPLACE FUNCTION public.claim_queued_sms(p_limit INTEGER DEFAULT 50)
+RETURNS SETOF public.sms_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.sms_messages
+  SET status = 'failed', failure_reason = 'Gave up after 3 attempts', updated_at = now()
+  WHERE status = 'sending' AND attempts >= 3 AND updated_at < now() - INTERVAL '10 minutes';
+
+  RETURN QUERY
+  UPDATE public.sms_messages m
+  SET status = 'sending', attempts = m.attempts + 1, updated_at = now()
+  WHERE m.id IN (
+    SELECT id FROM public.sms_messages
+    WHERE status = 'queued'
+       OR (status = 'sending' AND updated_at < now() - INTERVAL '10 minutes')
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING m.*;
+END;
+$$;
+
+-- 8. Delivery reports. Statuses only move forward, so a late 'sent' report
+-- never overwrites 'delivered'. A provider refusing a number that blocked us
+-- records an opt-out.
+CREATE OR REPLACE FUNCTION public.record_sms_delivery(
+  p_provider TEXT,
+  p_provider_message_id TEXT,
+  p_status TEXT,
+  p_failure_reason TEXT DEFAULT NULL,
+  p_cost NUMERIC DEFAULT NULL,
+  p_cost_currency VARCHAR DEFAULT NULL,
+  p_opted_out BOOLEAN DEFAULT false
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message public.sms_messages%ROWTYPE;
+BEGIN
+  IF p_status NOT IN ('sent', 'delivered', 'failed', 'rejected') THEN
+    RAISE EXCEPTION 'Unknown SMS status %', p_status;
+  END IF;
+
+  SELECT * INTO v_message
+  FROM public.sms_messages
+  WHERE provider = p_provider AND provider_message_id = p_provider_message_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.sms_messages
+  SET status = CASE
+        WHEN v_message.status IN ('delivered', 'failed', 'rejected') THEN v_message.status
+        ELSE p_status
+      END,
+      failure_reason = COALESCE(p_failure_reason, failure_reason),
+      delivered_at = CASE WHEN p_status = 'delivered' THEN COALESCE(delivered_at, now()) ELSE delivered_at END,
+      -- Charged texts keep the cost they were billed at
+      cost = CASE WHEN charged_at IS NULL THEN COALESCE(p_cost, cost) ELSE cost END,
+      cost_currency = CASE WHEN charged_at IS NULL THEN COALESCE(p_cost_currency, cost_currency) ELSE cost_currency END,
+      updated_at = now()
+  WHERE id = v_message.id;
+
+  IF p_opted_out THEN
+    INSERT INTO public.sms_opt_outs (phone, user_id, source)
+    VALUES (v_message.phone, v_message.user_id, 'provider')
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- 9. Opt-outs from STOP replies and provider opt-out callbacks, for every chama
+CREATE OR REPLACE FUNCTION public.record_sms_opt_out(p_phone TEXT, p_source TEXT DEFAULT 'keyword')
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_phone TEXT := public.normalize_phone(p_phone);
+BEGIN
+  IF v_phone IS NULL THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.sms_opt_outs (phone, user_id, source)
+  VALUES (
+    v_phone,
+    (SELECT user_id FROM public.profiles
+     WHERE public.normalize_phone(COALESCE(NULLIF(phone_number, ''), NULLIF(phone, ''))) = v_phone
+     LIMIT 1),
+    p_source
+  )
+  ON CONFLICT DO NOTHING;
+
+  RETURN true;
+END;
+$$;
+
+-- 10. Members opt their own number out of (or back into) one chama's texts,
+-- or all of them when p_chama_id is NULL
+CREATE OR REPLACE FUNCTION public.set_sms_opt_out(p_chama_id UUID, p_opted_out BOOLEAN)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_phone TEXT := public.user_sms_phone(auth.uid());
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Add a phone number to your profile first';
+  END IF;
+  IF p_chama_id IS NOT NULL THEN
+    PERFORM public.chat_member(p_chama_id);
+  END IF;
+
+  IF p_opted_out THEN
+    INSERT INTO public.sms_opt_outs (phone, chama_id, user_id, source)
+    VALUES (v_phone, p_chama_id, auth.uid(), 'app')
+    ON CONFLICT DO NOTHING;
+  ELSE
+    DELETE FROM public.sms_opt_outs
+    WHERE phone = v_phone AND chama_id IS NOT DISTINCT FROM p_chama_id;
+  END IF;
+
+  RETURN p_opted_out;
+END;
+$$;
+
+-- 11. Officers turn SMS on or off for their chama and set its sender ID
+CREATE OR REPLACE FUNCTION public.update_chama_sms_settings(
+  p_chama_id UUID,
+  p_enabled BOOLEAN,
+  p_sender_id TEXT DEFAULT NULL
+) RETURNS public.chama_settings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member public.chama_members := public.chat_member(p_chama_id);
+  v_old public.chama_settings%ROWTYPE;
+  v_settings public.chama_settings%ROWTYPE;
+BEGIN
+  IF NOT public.is_chama_officer_role(v_member.role::TEXT) THEN
+    RAISE EXCEPTION 'Only chama officers can change SMS settings';
+  END IF;
+  IF NULLIF(trim(p_sender_id), '') !~ '^[A-Za-z0-9 ]{3,11}$' THEN
+    RAISE EXCEPTION 'Sender IDs are 3 to 11 letters, digits or spaces';
+  END IF;
+
+  SELECT * INTO v_old FROM public.chama_settings WHERE chama_id = p_chama_id;
+
+  INSERT INTO public.chama_settings (chama_id, sms_enabled, sms_sender_id)
+  VALUES (p_chama_id, p_enabled, NULLIF(trim(p_sender_id), ''))
+  ON CONFLICT (chama_id) DO UPDATE
+  SET sms_enabled = EXCLUDED.sms_enabled,
+      sms_sender_id = EXCLUDED.sms_sender_id,
+      updated_at = now()
+  RETURNING * INTO v_settings;
+
+  INSERT INTO public.chama_audit_logs (chama_id, actor_id, action, old_value, new_value)
+  VALUES (
+    p_chama_id,
+    auth.uid(),
+    'sms_settings_changed',
+    jsonb_build_object('sms_enabled', v_old.sms_enabled, 'sms_sender_id', v_old.sms_sender_id)::TEXT,
+    jsonb_build_object('sms_enabled', v_settings.sms_enabled, 'sms_sender_id', v_settings.sms_sender_id)::TEXT
+  );
+
+  RETURN v_settings;
+END;
+$$;
+
+-- 12. Texts that follow notifications. Announcements, payment results and
+-- loan arrears are sent; chatter such as other members' contributions is not.
+CREATE OR REPLACE FUNCTION public.queue_chama_notification_sms()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_details JSONB := COALESCE(NEW.metadata, '{}') || COALESCE(NEW.data, '{}');
+  v_chama RECORD;
+BEGIN
+  IF NEW.type NOT IN ('announcement', 'payment_success', 'payment_failed', 'loan_arrears') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name, currency INTO v_chama FROM public.chamas WHERE id = NEW.chama_id;
+
+  PERFORM public.queue_sms(
+    CASE NEW.type
+      WHEN 'announcement' THEN 'announcement'
+      WHEN 'loan_arrears' THEN 'loan_reminder'
+      ELSE 'payment'
+    END,
+    CASE NEW.type
+      WHEN 'payment_success' THEN
+        CASE WHEN v_details ? 'amount' THEN 'payment_received' ELSE 'notification' END
+      ELSE NEW.type
+    END,
+    jsonb_build_object(
+      'chama', COALESCE(v_chama.name, ''),
+      'title', NEW.title,
+      'message', NEW.message,
+      'amount', v_details -> 'amount',
+      'currency', COALESCE(v_details ->> 'currency', v_chama.currency, 'KES'),
+      'reference', COALESCE(v_details ->> 'reference', 'none'),
+      'days', v_details -> 'days_overdue'
+    ),
+    NEW.user_id,
+    NULL,
+    NEW.chama_id,
+    NULL,
+    'chama_notification',
+    NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_chama_notification_sms ON public.chama_notifications;
+CREATE TRIGGER queue_chama_notification_sms
+  AFTER INSERT ON public.chama_notifications
+  FOR EACH ROW EXECUTE FUNCTION public.queue_chama_notification_sms();
+
+-- Personal loan arrears; the platform pays for these
+CREATE OR REPLACE FUNCTION public.queue_loan_notification_sms()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.notification_type IN ('arrears', 'guarantor_arrears') THEN
+    PERFORM public.queue_sms(
+      'loan_reminder',
+      'notification',
+      jsonb_build_object('title', NEW.title, 'message', NEW.message),
+      NEW.user_id,
+      NULL,
+      NULL,
+      NULL,
+      'loan_notification',
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_loan_notification_sms ON public.loan_notifications;
+CREATE TRIGGER queue_loan_notification_sms
+  AFTER INSERT ON public.loan_notifications
+  FOR EACH ROW EXECUTE FUNCTION public.queue_loan_notification_sms();
+
+-- 13. Charge each chama what its texts cost, from its central wallet, in the
+-- wallet's currency. A chama that cannot cover the bill is tried again the
+-- next day; its officers are told each time.
+CREATE OR REPLACE FUNCTION public.charge_chama_sms_costs()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_chama RECORD;
+  v_wallet public.chama_central_wallets%ROWTYPE;
+  v_currency VARCHAR;
+  v_total NUMERIC;
+  v_fee_id UUID;
+  v_charged INTEGER := 0;
+  v_skipped INTEGER := 0;
+BEGIN
+  FOR v_chama IN
+    SELECT chama_id, array_agg(id) AS message_ids
+    FROM public.sms_messages
+    WHERE chama_id IS NOT NULL AND charged_at IS NULL AND cost > 0
+      AND status IN ('sent', 'delivered', 'failed', 'rejected')
+    GROUP BY chama_id
+  LOOP
+    BEGIN
+      SELECT * INTO v_wallet
+      FROM public.chama_central_wallets
+      WHERE chama_id = v_chama.chama_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Chama has no central wallet';
+      END IF;
+
+      v_currency := public.ledger_account_currency('chama_central_wallet', v_wallet.id);
+
+      SELECT round(sum(public.convert_amount(cost, COALESCE(cost_currency, 'KES'), v_currency)), 2)
+      INTO v_total
+      FROM public.sms_messages
+      WHERE id = ANY (v_chama.message_ids);
+
+      IF v_total > v_wallet.balance THEN
+        INSERT INTO public.chama_notifications (chama_id, user_id, type, title, message, metadata)
+        SELECT v_chama.chama_id, cm.user_id, 'sms_billing', 'SMS charges unpaid',
+          'The chama wallet cannot cover ' || v_currency || ' ' || to_char(v_total, 'FM999999990.00')
+            || ' in SMS charges. Top it up or turn SMS off in settings.',
+          jsonb_build_object('amount', v_total, 'currency', v_currency)
+        FROM public.chama_members cm
+        WHERE cm.chama_id = v_chama.chama_id
+          AND cm.is_active = true
+          AND public.is_chama_officer_role(cm.role::TEXT);
+        v_skipped := v_skipped + 1;
+        CONTINUE;
+      END IF;
+
+      IF v_total > 0 THEN
+        v_fee_id := public.collect_platform_fee(
+          NULL,
+          'sms',
+          v_total,
+          NULL,
+          'SMS-' || to_char(now(), 'YYYYMMDD') || '-' || left(v_chama.chama_id::TEXT, 8),
+          'chama_central_wallet',
+          v_wallet.id
+        );
+      END IF;
+
+      UPDATE public.sms_messages
+      SET fee_collection_id = v_fee_id, charged_at = now(), updated_at = now()
+      WHERE id = ANY (v_chama.message_ids);
+
+      v_charged := v_charged + 1;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'SMS charge for chama % failed: %', v_chama.chama_id, SQLERRM;
+      v_skipped := v_skipped + 1;
+    END;
+  END LOOP;
+
+  RETURN jsonb_build_object('chamas_charged', v_charged, 'chamas_skipped', v_skipped);
+END;
+$$;
+
+-- 14. What a chama's texts have cost, for its officers
+CREATE OR REPLACE FUNCTION public.get_chama_sms_usage(p_chama_id UUID, p_since TIMESTAMPTZ DEFAULT date_trunc('month', now()))
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member public.chama_members := public.chat_member(p_chama_id);
+  v_settings RECORD;
+  v_usage JSONB;
+BEGIN
+  IF NOT public.is_chama_officer_role(v_member.role::TEXT) THEN
+    RAISE EXCEPTION 'Only chama officers can view SMS usage';
+  END IF;
+
+  SELECT sms_enabled, sms_sender_id INTO v_settings
+  FROM public.chama_settings
+  WHERE chama_id = p_chama_id;
+
+  SELECT jsonb_build_object(
+    'sent', count(*) FILTER (WHERE status IN ('sent', 'delivered')),
+    'delivered', count(*) FILTER (WHERE status = 'delivered'),
+    'failed', count(*) FILTER (WHERE status IN ('failed', 'rejected')),
+    'queued', count(*) FILTER (WHERE status IN ('queued', 'sending')),
+    'segments', COALESCE(sum(segments), 0),
+    'costs', COALESCE((
+      SELECT jsonb_object_agg(currency, jsonb_build_object('total', total, 'unbilled', unbilled))
+      FROM (
+        SELECT COALESCE(cost_currency, 'KES') AS currency,
+          sum(cost) AS total,
+          COALESCE(sum(cost) FILTER (WHERE charged_at IS NULL), 0) AS unbilled
+        FROM public.sms_messages
+        WHERE chama_id = p_chama_id AND created_at >= p_since AND cost > 0
+        GROUP BY 1
+      ) c
+    ), '{}'::JSONB)
+  )
+  INTO v_usage
+  FROM public.sms_messages
+  WHERE chama_id = p_chama_id AND created_at >= p_since;
+
+  RETURN v_usage || jsonb_build_object(
+    'since', p_since,
+    'enabled', COALESCE(v_settings.sms_enabled, false),
+    'sender_id', v_settings.sms_sender_id
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.user_sms_phone(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sms_opted_out(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.queue_sms(TEXT, TEXT, JSONB, UUID, TEXT, UUID, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_queued_sms(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_sms_delivery(TEXT, TEXT, TEXT, TEXT, NUMERIC, VARCHAR, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_sms_opt_out(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.queue_chama_notification_sms() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.queue_loan_notification_sms() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.charge_chama_sms_costs() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_sms_opt_out(UUID, BOOLEAN) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.update_chama_sms_settings(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_chama_sms_usage(UUID, TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.queue_sms(TEXT, TEXT, JSONB, UUID, TEXT, UUID, TEXT, TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_queued_sms(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_sms_delivery(TEXT, TEXT, TEXT, TEXT, NUMERIC, VARCHAR, BOOLEAN) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_sms_opt_out(TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.set_sms_opt_out(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_chama_sms_settings(UUID, BOOLEAN, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_chama_sms_usage(UUID, TIMESTAMPTZ) TO authenticated;
+
+-- 15. Send queued texts every minute and bill chamas each night (00:30 EAT)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'dispatch-queued-sms',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/sms-dispatch',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+    ),
+    body := '{}'::jsonb
+  )
+  WHERE EXISTS (SELECT 1 FROM public.sms_messages WHERE status = 'queued');
+  $$
+);
+
+SELECT cron.schedule(
+  'charge-chama-sms-costs',
+  '30 21 * * *',
+  $$SELECT public.charge_chama_sms_costs();$$
+);
+
+COMMENT ON TABLE public.sms_messages IS 'Every text sent or queued, with its provider, delivery status and cost';
+COMMENT ON TABLE public.sms_opt_outs IS 'Numbers that opted out of texts from one chama, or from all when chama_id is NULL';
+COMMENT ON COLUMN public.chama_settings.sms_sender_id IS 'Alphanumeric sender ID registered with the SMS provider; the platform default when NULL';
+COMMENT ON FUNCTION public.queue_sms IS 'Queues a templated text unless the number opted out or the paying chama has SMS off; service role only';
+COMMENT ON FUNCTION public.record_sms_delivery IS 'Applies a provider delivery report to the matching text; service role only';
+COMMENT ON FUNCTION public.charge_chama_sms_costs() IS 'Daily job: charges each chama''s unbilled SMS costs to its central wallet';
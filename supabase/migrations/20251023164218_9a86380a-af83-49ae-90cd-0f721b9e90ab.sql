@@ -0,0 +1,164 @@
+-- ============================================
+-- USSD CHANNEL
+-- ============================================
+-- Members on feature phones dial the chama's USSD code. Africa's Talking
+-- posts every step of the session to the ussd-callback function, which finds
+-- the member by the dialling number and asks for their app PIN before
+-- showing anything. Money moves and ballots go through make-contribution and
+-- cast_ballot() as the member, exactly as they do from the app; the reads
+-- each screen needs come from ussd_member_summary() in one round trip.
+-- ============================================
+
+-- 1. Sessions, keyed by the provider's session ID
+CREATE TABLE IF NOT EXISTS public.ussd_sessions (
+  session_id TEXT PRIMARY KEY,
+  phone TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  service_code TEXT,
+  network_code TEXT,
+  -- Set once the member enters the right PIN; later steps rely on it
+  pin_verified_at TIMESTAMPTZ,
+  steps INTEGER NOT NULL DEFAULT 0,
+  -- What the session did, e.g. 'contribution' or 'vote', for support
+  last_action TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ussd_sessions_user
+  ON public.ussd_sessions (user_id, created_at DESC);
+
+ALTER TABLE public.ussd_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their USSD sessions"
+  ON public.ussd_sessions FOR SELECT
+  USING (user_id = auth.uid());
+
+-- Members are found by the number they dial from
+CREATE INDEX IF NOT EXISTS idx_profiles_sms_phone
+  ON public.profiles (public.normalize_phone(COALESCE(NULLIF(phone_number, ''), NULLIF(phone, ''))));
+
+-- 2. The member a phone number belongs to. A number on more than one profile
+-- matches nobody, so a shared phone cannot open someone else's account.
+CREATE OR REPLACE FUNCTION public.ussd_user_for_phone(p_phone TEXT)
+RETURNS TABLE (user_id UUID, full_name TEXT, preferred_language TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH matches AS (
+    SELECT p.user_id, p.full_name, p.preferred_language
+    FROM public.profiles p
+    WHERE public.normalize_phone(COALESCE(NULLIF(p.phone_number, ''), NULLIF(p.phone, ''))) = public.normalize_phone(p_phone)
+  )
+  SELECT m.user_id, m.full_name, m.preferred_language
+  FROM matches m
+  WHERE (SELECT count(*) FROM matches) = 1;
+$$;
+
+-- 3. Everything the USSD menus show a member: wallet, chamas, loans and the
+-- votes they can cast from a feature phone (ranked ballots need the app)
+CREATE OR REPLACE FUNCTION public.ussd_member_summary(p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_wallet JSONB;
+  v_chamas JSONB;
+  v_loans JSONB;
+  v_votes JSONB;
+BEGIN
+  SELECT jsonb_build_object('balance', COALESCE(w.balance, 0), 'currency', COALESCE(w.currency, 'KES'))
+  INTO v_wallet
+  FROM public.user_central_wallets w
+  WHERE w.user_id = p_user_id;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'chama_id', c.id,
+      'member_id', cm.id,
+      'name', c.name,
+      'currency', COALESCE(c.currency, 'KES'),
+      'savings', COALESCE(cm.savings_balance, 0),
+      'chama_balance', COALESCE(ccw.balance, 0),
+      'contribution_amount', c.contribution_amount
+    ) ORDER BY cm.joined_at), '[]'::JSONB)
+  INTO v_chamas
+  FROM public.chama_members cm
+  JOIN public.chamas c ON c.id = cm.chama_id
+  LEFT JOIN public.chama_central_wallets ccw ON ccw.chama_id = c.id
+  WHERE cm.user_id = p_user_id AND cm.is_active = true;
+
+  SELECT COALESCE(jsonb_agg(l ORDER BY l ->> 'next_due'), '[]'::JSONB)
+  INTO v_loans
+  FROM (
+    -- Chama loans, by instalment
+    SELECT jsonb_build_object(
+      'name', c.name,
+      'currency', COALESCE(c.currency, 'KES'),
+      'outstanding', pos.outstanding_amount + COALESCE(cl.penalty_amount, 0),
+      'overdue', pos.overdue_amount,
+      'next_due', pos.oldest_unpaid_due
+    ) AS l
+    FROM public.chama_loans cl
+    JOIN public.chama_members cm ON cm.id = cl.borrower_id
+    JOIN public.chamas c ON c.id = cl.chama_id
+    CROSS JOIN LATERAL public.chama_loan_position(cl.id) pos
+    WHERE cm.user_id = p_user_id AND cl.status = 'active'
+
+    UNION ALL
+
+    -- Personal loans, by their unpaid repayments; no name, the menu labels them
+    SELECT jsonb_build_object(
+      'name', NULL,
+      'currency', 'KES',
+      'outstanding', sum(GREATEST(COALESCE(lr.payment_amount, lr.amount, 0) - COALESCE(lr.amount_paid, 0), 0) + COALESCE(lr.penalty_amount, 0)),
+      'overdue', COALESCE(sum(GREATEST(COALESCE(lr.payment_amount, lr.amount, 0) - COALESCE(lr.amount_paid, 0), 0)) FILTER (WHERE lr.due_date < current_date), 0),
+      'next_due', min(lr.due_date)
+    )
+    FROM public.loan_repayments lr
+    JOIN public.loan_applications la ON la.id = lr.loan_application_id
+    WHERE la.borrower_id = p_user_id
+      AND COALESCE(lr.status, 'pending') NOT IN ('paid', 'completed', 'cancelled')
+    GROUP BY la.id
+  ) loans;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'id', v.id,
+      'title', v.title,
+      'chama', c.name,
+      'ballot_type', v.ballot_type,
+      'options', v.options,
+      'deadline', v.deadline
+    ) ORDER BY v.deadline), '[]'::JSONB)
+  INTO v_votes
+  FROM public.chama_votes v
+  JOIN public.chama_vote_electorate e ON e.vote_id = v.id
+  JOIN public.chama_members cm ON cm.id = e.member_id
+  JOIN public.chamas c ON c.id = v.chama_id
+  WHERE cm.user_id = p_user_id
+    AND cm.is_active = true
+    AND v.status = 'active'
+    AND v.deadline > now()
+    AND v.ballot_type IN ('yes_no', 'multiple_choice');
+
+  RETURN jsonb_build_object(
+    'wallet', COALESCE(v_wallet, jsonb_build_object('balance', 0, 'currency', 'KES')),
+    'chamas', v_chamas,
+    'loans', v_loans,
+    'votes', v_votes
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ussd_user_for_phone(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.ussd_member_summary(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ussd_user_for_phone(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.ussd_member_summary(UUID) TO service_role;
+
+COMMENT ON TABLE public.ussd_sessions IS 'USSD sessions by provider session ID, with the member and when their PIN was checked';
+COMMENT ON FUNCTION public.ussd_user_for_phone(TEXT) IS 'The one member whose profile carries this phone number; service role only';
+COMMENT ON FUNCTION public.ussd_member_summary(UUID) IS 'Wallet, chama balances, loans and open votes for the USSD menus; service role only';
@@ -0,0 +1,671 @@
+-- ============================================
+-- MERRY-GO-ROUND BALANCES ON THE LEDGER
+-- ============================================
+-- chama_members.mgr_balance becomes the member_mgr ledger account, so
+-- top-ups, payouts, transfers and savings moved out of the merry-go-round
+-- are posted like every other balance change instead of being written
+-- straight onto the member row. The remaining multi-step money moves that
+-- edge functions stitched together (withdrawal plus its fee, a chama
+-- contribution plus the member's view-only mirror) become single
+-- functions so they commit or fail as one.
+-- ============================================
+
+-- 1. The currency of a member's MGR balance is the chama's
+CREATE OR REPLACE FUNCTION public.ledger_account_currency(
+  p_account_type VARCHAR,
+  p_account_id UUID
+) RETURNS VARCHAR
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_currency VARCHAR;
+BEGIN
+  CASE p_account_type
+    WHEN 'user_wallet' THEN
+      SELECT currency INTO v_currency FROM public.user_wallets WHERE id = p_account_id;
+    WHEN 'user_central_wallet' THEN
+      SELECT currency INTO v_currency FROM public.user_central_wallets WHERE id = p_account_id;
+    WHEN 'chama_wallet' THEN
+      -- personal wallets outside a chama follow their owner's main wallet
+      SELECT COALESCE(c.currency, uw.currency, 'KES') INTO v_currency
+      FROM public.wallets w
+      LEFT JOIN public.chamas c ON c.id = w.chama_id
+      LEFT JOIN public.user_wallets uw ON uw.user_id = w.user_id
+      WHERE w.id = p_account_id;
+    WHEN 'chama_central_wallet' THEN
+      SELECT c.currency INTO v_currency
+      FROM public.chama_central_wallets ccw
+      JOIN public.chamas c ON c.id = ccw.chama_id
+      WHERE ccw.id = p_account_id;
+    WHEN 'member_wallet' THEN
+      SELECT c.currency INTO v_currency
+      FROM public.member_wallets mw
+      JOIN public.chamas c ON c.id = mw.chama_id
+      WHERE mw.id = p_account_id;
+    WHEN 'member_mgr' THEN
+      SELECT c.currency INTO v_currency
+      FROM public.chama_members cm
+      JOIN public.chamas c ON c.id = cm.chama_id
+      WHERE cm.id = p_account_id;
+    WHEN 'savings_goal' THEN
+      SELECT COALESCE(uw.currency, 'KES') INTO v_currency
+      FROM public.personal_savings_goals g
+      LEFT JOIN public.user_wallets uw ON uw.user_id = g.user_id
+      WHERE g.id = p_account_id;
+    WHEN 'platform_revenue' THEN
+      SELECT currency INTO v_currency FROM public.platform_accounts WHERE id = p_account_id;
+    ELSE
+      v_currency := NULL;
+  END CASE;
+
+  RETURN v_currency;
+END;
+$$;
+
+-- 2. member_mgr is stored on the member row, keyed by chama_members.id
+CREATE OR REPLACE FUNCTION public.apply_ledger_delta(
+  p_account_type VARCHAR,
+  p_account_id UUID,
+  p_delta NUMERIC
+) RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance NUMERIC;
+BEGIN
+  IF p_account_type IN ('external', 'fx_conversion') THEN
+    RETURN 0;
+  END IF;
+
+  CASE p_account_type
+    WHEN 'user_wallet' THEN
+      UPDATE public.user_wallets
+      SET balance = COALESCE(balance, 0) + p_delta, updated_at = now()
+      WHERE id = p_account_id
+      RETURNING balance INTO v_balance;
+    WHEN 'user_central_wallet' THEN
+      UPDATE public.user_central_wallets
+      SET balance = balance + p_delta, updated_at = now()
+      WHERE id = p_account_id
+      RETURNING balance INTO v_balance;
+    WHEN 'chama_wallet' THEN
+      UPDATE public.wallets
+      SET balance = balance + p_delta, updated_at = now()
+      WHERE id = p_account_id
+      RETURNING balance INTO v_balance;
+    WHEN 'chama_central_wallet' THEN
+      UPDATE public.chama_central_wallets
+      SET balance = balance + p_delta, updated_at = now()
+      WHERE id = p_account_id
+      RETURNING balance INTO v_balance;
+    WHEN 'member_wallet' THEN
+      UPDATE public.member_wallets
+      SET balance = balance + p_delta, updated_at = now()
+      WHERE id = p_account_id
+      RETURNING balance INTO v_balance;
+    WHEN 'member_mgr' THEN
+      UPDATE public.chama_members
+      SET mgr_balance = COALESCE(mgr_balance, 0) + p_delta
+      WHERE id = p_account_id
+      RETURNING mgr_balance INTO v_balance;
+    WHEN 'savings_goal' THEN
+      UPDATE public.personal_savings_goals
+      SET current_amount = COALESCE(current_amount, 0) + p_delta, updated_at = now()
+      WHERE id = p_account_id
+      RETURNING current_amount INTO v_balance;
+    WHEN 'platform_revenue' THEN
+      UPDATE public.platform_accounts
+      SET balance = balance + p_delta, updated_at = now()
+      WHERE id = p_account_id
+      RETURNING balance INTO v_balance;
+    ELSE
+      RAISE EXCEPTION 'Unknown ledger account type: %', p_account_type;
+  END CASE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ledger account not found: % %', p_account_type, p_account_id;
+  END IF;
+
+  IF v_balance < 0 THEN
+    RAISE EXCEPTION 'Insufficient balance';
+  END IF;
+
+  RETURN v_balance;
+END;
+$$;
+
+-- 3. Reconcile MGR balances along with the wallets
+CREATE OR REPLACE VIEW public.ledger_wallet_balances AS
+WITH wallet_balances AS (
+  SELECT 'user_wallet'::VARCHAR AS account_type, id AS account_id, user_id AS owner_id, COALESCE(balance, 0)::NUMERIC AS stored_balance
+  FROM public.user_wallets
+  UNION ALL
+  SELECT 'user_central_wallet', id, user_id, balance FROM public.user_central_wallets
+  UNION ALL
+  -- view-only wallets mirror a member's share and hold no money of their own
+  SELECT 'chama_wallet', id, user_id, balance FROM public.wallets WHERE wallet_type <> 'chama_view_only'
+  UNION ALL
+  SELECT 'chama_central_wallet', id, chama_id, balance FROM public.chama_central_wallets
+  UNION ALL
+  SELECT 'member_wallet', id, member_id, balance FROM public.member_wallets
+  UNION ALL
+  SELECT 'member_mgr', id, user_id, COALESCE(mgr_balance, 0) FROM public.chama_members
+  UNION ALL
+  SELECT 'savings_goal', id, user_id, COALESCE(current_amount, 0) FROM public.personal_savings_goals
+  UNION ALL
+  SELECT 'platform_revenue', id, NULL, balance FROM public.platform_accounts
+),
+ledger_balances AS (
+  SELECT account_type, account_id, SUM(credit_amount) - SUM(debit_amount) AS ledger_balance
+  FROM public.transaction_ledger
+  WHERE account_id IS NOT NULL
+  GROUP BY account_type, account_id
+)
+SELECT
+  w.account_type,
+  w.account_id,
+  w.owner_id,
+  w.stored_balance,
+  COALESCE(l.ledger_balance, 0) AS ledger_balance,
+  w.stored_balance - COALESCE(l.ledger_balance, 0) AS difference
+FROM wallet_balances w
+LEFT JOIN ledger_balances l
+  ON l.account_type = w.account_type AND l.account_id = w.account_id;
+
+-- 4. Opening balances for the MGR balances members already hold
+INSERT INTO public.transaction_ledger (
+  transaction_id, transaction_type, account_type, account_id,
+  debit_amount, credit_amount, balance_after, reference, description
+)
+SELECT
+  gen_random_uuid(), 'opening_balance', b.account_type, b.account_id,
+  CASE WHEN b.difference < 0 THEN -b.difference ELSE 0 END,
+  CASE WHEN b.difference > 0 THEN b.difference ELSE 0 END,
+  b.stored_balance, 'opening_balance', 'Opening balance carried into the ledger'
+FROM public.ledger_wallet_balances b
+WHERE b.account_type = 'member_mgr' AND b.difference <> 0;
+
+-- 5. A wallet withdrawal: the net amount leaves to the payout provider and
+--    the fee goes to platform revenue in the same transaction
+CREATE OR REPLACE FUNCTION public.post_user_withdrawal(
+  p_user_id UUID,
+  p_wallet_id UUID,
+  p_net_amount NUMERIC,
+  p_fee NUMERIC,
+  p_reference VARCHAR,
+  p_payment_method VARCHAR
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction_id UUID;
+BEGIN
+  v_transaction_id := public.post_ledger_transaction(
+    'user_withdrawal',
+    'user_wallet',
+    p_wallet_id,
+    'external',
+    NULL,
+    p_net_amount,
+    p_reference,
+    FORMAT('Withdrawal via %s', p_payment_method),
+    jsonb_build_object('payment_method', p_payment_method, 'user_id', p_user_id)
+  );
+
+  IF COALESCE(p_fee, 0) > 0 THEN
+    PERFORM public.collect_platform_fee(
+      p_user_id,
+      'withdrawal',
+      p_fee,
+      v_transaction_id,
+      p_reference,
+      'user_wallet',
+      p_wallet_id
+    );
+  END IF;
+
+  RETURN v_transaction_id;
+END;
+$$;
+
+-- 6. Savings to MGR: the member's share of the chama's central wallet moves
+--    into their MGR balance. Savings locked against loan guarantees stay put.
+CREATE OR REPLACE FUNCTION public.move_savings_to_mgr(
+  p_member_id UUID,
+  p_amount NUMERIC
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member public.chama_members%ROWTYPE;
+  v_central_wallet_id UUID;
+  v_available NUMERIC;
+  v_mgr_balance NUMERIC;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive';
+  END IF;
+
+  SELECT * INTO v_member
+  FROM public.chama_members
+  WHERE id = p_member_id AND is_active = true
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member not found in this chama';
+  END IF;
+
+  v_available := COALESCE(v_member.savings_balance, 0) - COALESCE(v_member.locked_savings, 0);
+  IF v_available < p_amount THEN
+    RAISE EXCEPTION 'Insufficient savings balance. Available: %', GREATEST(v_available, 0);
+  END IF;
+
+  SELECT id INTO v_central_wallet_id
+  FROM public.chama_central_wallets
+  WHERE chama_id = v_member.chama_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Chama wallet not found';
+  END IF;
+
+  UPDATE public.chama_members
+  SET savings_balance = savings_balance - p_amount
+  WHERE id = v_member.id;
+
+  PERFORM public.post_ledger_transaction(
+    'mgr_topup',
+    'chama_central_wallet',
+    v_central_wallet_id,
+    'member_mgr',
+    v_member.id,
+    p_amount,
+    NULL,
+    'Top-up to MGR wallet from savings',
+    jsonb_build_object('chama_id', v_member.chama_id, 'member_id', v_member.id)
+  );
+
+  SELECT mgr_balance INTO v_mgr_balance FROM public.chama_members WHERE id = v_member.id;
+
+  RETURN jsonb_build_object(
+    'savings_balance', v_member.savings_balance - p_amount,
+    'mgr_balance', v_mgr_balance
+  );
+END;
+$$;
+
+-- 7. MGR payouts: to the member's central wallet for 'internal', otherwise
+--    out to the provider. Returns the payout status.
+CREATE OR REPLACE FUNCTION public.pay_out_member_mgr(
+  p_member_id UUID,
+  p_amount NUMERIC,
+  p_method TEXT,
+  p_reference VARCHAR,
+  p_metadata JSONB DEFAULT '{}'::JSONB
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member public.chama_members%ROWTYPE;
+  v_wallet_id UUID;
+BEGIN
+  SELECT * INTO v_member FROM public.chama_members WHERE id = p_member_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member not found in this chama';
+  END IF;
+
+  IF p_method = 'internal' THEN
+    SELECT id INTO v_wallet_id FROM public.user_central_wallets WHERE user_id = v_member.user_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Central wallet not found';
+    END IF;
+
+    PERFORM public.post_ledger_transaction(
+      'mgr_payout',
+      'member_mgr',
+      v_member.id,
+      'user_central_wallet',
+      v_wallet_id,
+      p_amount,
+      p_reference,
+      'Merry-go-round withdrawal to central wallet',
+      jsonb_build_object('chama_id', v_member.chama_id, 'member_id', v_member.id) || COALESCE(p_metadata, '{}'::JSONB)
+    );
+    RETURN 'completed';
+  END IF;
+
+  PERFORM public.post_ledger_transaction(
+    'mgr_payout',
+    'member_mgr',
+    v_member.id,
+    'external',
+    NULL,
+    p_amount,
+    p_reference,
+    FORMAT('Merry-go-round withdrawal via %s', p_method),
+    jsonb_build_object('chama_id', v_member.chama_id, 'member_id', v_member.id, 'payout_method', p_method) || COALESCE(p_metadata, '{}'::JSONB)
+  );
+  RETURN 'pending';
+END;
+$$;
+
+-- 8. A contribution from the member's personal wallet to the chama's
+--    central wallet, with the chama transaction, the view-only mirror of the
+--    member's share and their contribution total
+CREATE OR REPLACE FUNCTION public.contribute_from_personal_wallet(
+  p_user_id UUID,
+  p_chama_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_personal_wallet_id UUID;
+  v_view_wallet_id UUID;
+  v_central_wallet_id UUID;
+  v_description TEXT := COALESCE(p_description, 'Chama contribution');
+  v_transaction public.chama_transactions%ROWTYPE;
+BEGIN
+  SELECT id INTO v_personal_wallet_id
+  FROM public.wallets
+  WHERE user_id = p_user_id AND wallet_type = 'personal';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Personal wallet not found';
+  END IF;
+
+  SELECT id INTO v_view_wallet_id
+  FROM public.wallets
+  WHERE user_id = p_user_id AND chama_id = p_chama_id AND wallet_type = 'chama_view_only';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User chama wallet not found';
+  END IF;
+
+  SELECT id INTO v_central_wallet_id
+  FROM public.wallets
+  WHERE chama_id = p_chama_id AND wallet_type = 'chama_central';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Chama central wallet not found';
+  END IF;
+
+  PERFORM public.transfer_funds(
+    'chama_contribution',
+    'chama_wallet',
+    v_personal_wallet_id,
+    'chama_wallet',
+    v_central_wallet_id,
+    p_amount,
+    NULL,
+    v_description,
+    jsonb_build_object('chama_id', p_chama_id, 'user_id', p_user_id),
+    jsonb_build_array(jsonb_build_object('user_id', p_user_id, 'type', 'chama_contribution', 'amount', -p_amount))
+  );
+
+  INSERT INTO public.chama_transactions (
+    from_user_id, from_wallet_id, to_wallet_id, chama_id, amount,
+    transaction_type, status, description
+  ) VALUES (
+    p_user_id, v_view_wallet_id, v_central_wallet_id, p_chama_id, p_amount,
+    'contribution', 'completed', v_description
+  ) RETURNING * INTO v_transaction;
+
+  -- The mirror holds no money of its own and is not a ledger account
+  UPDATE public.wallets
+  SET balance = balance + p_amount, updated_at = now()
+  WHERE id = v_view_wallet_id;
+
+  UPDATE public.chama_members
+  SET total_contributions = COALESCE(total_contributions, 0) + p_amount,
+      last_contribution_date = now()
+  WHERE user_id = p_user_id AND chama_id = p_chama_id;
+
+  RETURN to_jsonb(v_transaction);
+END;
+$$;
+
+-- 9. Approved MGR withdrawals are paid out of the member's MGR account
+CREATE OR REPLACE FUNCTION public.execute_chama_vote_action(p_vote_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vote public.chama_votes%ROWTYPE;
+  v_key TEXT;
+  v_value JSONB;
+  v_member public.chama_members%ROWTYPE;
+  v_initiator_user UUID;
+  v_amount NUMERIC;
+  v_method TEXT;
+  v_reference TEXT;
+  v_status TEXT;
+  v_loan RECORD;
+  v_old_role TEXT;
+  v_new_role TEXT;
+  v_chama_name TEXT;
+BEGIN
+  SELECT * INTO v_vote FROM public.chama_votes WHERE id = p_vote_id;
+
+  IF v_vote.action_type = 'approve_loan' THEN
+    UPDATE public.chama_loans
+    SET status = CASE WHEN v_vote.outcome = 'passed' THEN 'approved' ELSE 'rejected' END,
+        approved_at = CASE WHEN v_vote.outcome = 'passed' THEN now() ELSE approved_at END,
+        updated_at = now()
+    WHERE id = v_vote.reference_id
+      AND chama_id = v_vote.chama_id
+      AND status = 'pending';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The loan is no longer pending';
+    END IF;
+
+  ELSIF v_vote.outcome IS DISTINCT FROM 'passed' THEN
+    -- Nothing to undo: a refused request simply never happens
+    RETURN;
+
+  ELSIF v_vote.action_type = 'update_settings' THEN
+    -- Lets guard_chama_approval_policy() accept approval rules changed by vote
+    PERFORM set_config('chama.approved_action', 'on', true);
+
+    FOR v_key, v_value IN SELECT * FROM jsonb_each(v_vote.action_payload) LOOP
+      EXECUTE format(
+        'UPDATE public.chama_settings SET %I = ($1 #>> ''{}'')::%s, updated_at = now() WHERE chama_id = $2',
+        v_key, public.chama_setting_type(v_key)
+      ) USING v_value, v_vote.chama_id;
+    END LOOP;
+
+    PERFORM set_config('chama.approved_action', '', true);
+
+  ELSIF v_vote.action_type = 'withdrawal' THEN
+    v_amount := (v_vote.action_payload ->> 'amount')::numeric;
+    v_method := COALESCE(v_vote.action_payload ->> 'payout_method', 'mpesa');
+
+    SELECT * INTO v_member
+    FROM public.chama_members
+    WHERE id = (v_vote.action_payload ->> 'member_id')::uuid
+      AND chama_id = v_vote.chama_id
+      AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The member is no longer active in this chama';
+    END IF;
+
+    IF v_member.withdrawal_locked THEN
+      RAISE EXCEPTION 'Withdrawals are locked for this member';
+    END IF;
+
+    IF COALESCE(v_member.mgr_balance, 0) < v_amount THEN
+      RAISE EXCEPTION 'Insufficient MGR balance. Available: %', COALESCE(v_member.mgr_balance, 0);
+    END IF;
+
+    v_reference := 'WD-' || (extract(epoch FROM clock_timestamp()) * 1000)::bigint;
+    v_status := public.pay_out_member_mgr(
+      v_member.id,
+      v_amount,
+      v_method,
+      v_reference,
+      jsonb_build_object('vote_id', p_vote_id)
+    );
+
+    INSERT INTO public.chama_audit_trail (chama_id, actor_id, action, amount, details)
+    VALUES (
+      v_vote.chama_id,
+      v_member.id,
+      'withdraw_mgr_wallet',
+      v_amount,
+      jsonb_build_object('method', v_method, 'status', v_status, 'reference', v_reference, 'vote_id', p_vote_id)
+        || COALESCE(v_vote.action_payload -> 'payout_details', '{}'::jsonb)
+    );
+
+    INSERT INTO public.chama_notifications (user_id, chama_id, type, title, message, metadata)
+    VALUES (
+      v_member.user_id,
+      v_vote.chama_id,
+      'withdrawal',
+      'Withdrawal Approved',
+      format('Your withdrawal of KES %s has been approved and initiated via %s.', v_amount, v_method),
+      jsonb_build_object('vote_id', p_vote_id, 'reference', v_reference)
+    );
+
+  ELSIF v_vote.action_type = 'loan_disbursement' THEN
+    SELECT lr.id, lr.amount, lr.disbursement_status, cm.user_id AS borrower_user_id
+    INTO v_loan
+    FROM public.chama_loan_requests lr
+    LEFT JOIN public.chama_members cm ON cm.id = lr.borrower_id
+    WHERE lr.id = v_vote.reference_id AND lr.chama_id = v_vote.chama_id
+    FOR UPDATE OF lr;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Loan not found';
+    END IF;
+
+    IF v_loan.disbursement_status THEN
+      RAISE EXCEPTION 'The loan has already been disbursed';
+    END IF;
+
+    UPDATE public.chama_loan_requests
+    SET disbursement_status = true,
+        status = 'approved'
+    WHERE id = v_loan.id;
+
+    INSERT INTO public.chama_notifications (user_id, chama_id, type, title, message, metadata)
+    VALUES (
+      v_loan.borrower_user_id,
+      v_vote.chama_id,
+      'loan',
+      'Loan Disbursed',
+      'Your loan has been disbursed. Please provide your payment details to receive the funds.',
+      jsonb_build_object('loan_id', v_loan.id, 'vote_id', p_vote_id)
+    );
+
+    INSERT INTO public.chama_activities (chama_id, activity_type, description, amount)
+    VALUES (v_vote.chama_id, 'loan_disbursed', format('Loan of KES %s disbursed after approval', v_loan.amount), v_loan.amount);
+
+  ELSIF v_vote.action_type = 'role_change' THEN
+    v_new_role := v_vote.action_payload ->> 'new_role';
+
+    SELECT * INTO v_member
+    FROM public.chama_members
+    WHERE id = v_vote.reference_id AND chama_id = v_vote.chama_id AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The member is no longer active in this chama';
+    END IF;
+
+    v_old_role := v_member.role;
+
+    UPDATE public.chama_members SET role = v_new_role WHERE id = v_member.id;
+
+    SELECT user_id INTO v_initiator_user FROM public.chama_members WHERE id = v_vote.initiated_by;
+
+    INSERT INTO public.chama_audit_logs (chama_id, actor_id, target_id, action, old_value, new_value, details)
+    VALUES (
+      v_vote.chama_id,
+      COALESCE(v_initiator_user, v_member.user_id),
+      v_member.user_id,
+      'role_change',
+      v_old_role,
+      v_new_role,
+      jsonb_build_object('member_id', v_member.id, 'vote_id', p_vote_id)
+    );
+
+    INSERT INTO public.chama_activities (chama_id, member_id, activity_type, description)
+    VALUES (v_vote.chama_id, v_member.id, 'role_assigned', format('Role changed from %s to %s after approval', v_old_role, v_new_role));
+
+    INSERT INTO public.chama_notifications (user_id, chama_id, type, title, message, metadata)
+    VALUES (
+      v_member.user_id,
+      v_vote.chama_id,
+      'role_change',
+      '🎖️ Role Updated',
+      format('Your role has been updated to %s', v_new_role),
+      jsonb_build_object('old_role', v_old_role, 'new_role', v_new_role, 'vote_id', p_vote_id)
+    );
+
+  ELSIF v_vote.action_type = 'delete_chama' THEN
+    SELECT name INTO v_chama_name FROM public.chamas WHERE id = v_vote.chama_id;
+    SELECT user_id INTO v_initiator_user FROM public.chama_members WHERE id = v_vote.initiated_by;
+
+    -- The chama's own audit trail and notifications go with it, so the
+    -- record of the deletion is kept outside the chama
+    INSERT INTO public.audit_logs (user_id, action, resource_type, resource_id, old_values)
+    VALUES (
+      v_initiator_user,
+      'chama_deleted',
+      'chama',
+      v_vote.chama_id,
+      jsonb_build_object(
+        'name', v_chama_name,
+        'vote_id', p_vote_id,
+        'approvals', v_vote.yes_votes,
+        'required_approvals', v_vote.required_approvals,
+        'approved_by', (
+          SELECT jsonb_agg(cm.user_id)
+          FROM public.vote_responses vr
+          JOIN public.chama_members cm ON cm.id = vr.member_id
+          WHERE vr.vote_id = p_vote_id AND vr.option_index = 0
+        )
+      )
+    );
+
+    INSERT INTO public.notifications (user_id, title, message, type)
+    SELECT cm.user_id, 'Chama Deleted', format('The chama "%s" has been deleted after approval.', v_chama_name), 'chama_deleted'
+    FROM public.chama_members cm
+    WHERE cm.chama_id = v_vote.chama_id AND cm.is_active = true;
+
+    PERFORM public.purge_chama(v_vote.chama_id);
+  END IF;
+END;
+$$;
+
+-- 10. Service role only, like the rest of the ledger
+REVOKE EXECUTE ON FUNCTION public.post_user_withdrawal(UUID, UUID, NUMERIC, NUMERIC, VARCHAR, VARCHAR) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.move_savings_to_mgr(UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.pay_out_member_mgr(UUID, NUMERIC, TEXT, VARCHAR, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.contribute_from_personal_wallet(UUID, UUID, NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.post_user_withdrawal(UUID, UUID, NUMERIC, NUMERIC, VARCHAR, VARCHAR) TO service_role;
+GRANT EXECUTE ON FUNCTION public.move_savings_to_mgr(UUID, NUMERIC) TO service_role;
+GRANT EXECUTE ON FUNCTION public.pay_out_member_mgr(UUID, NUMERIC, TEXT, VARCHAR, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.contribute_from_personal_wallet(UUID, UUID, NUMERIC, TEXT) TO service_role;
+
+COMMENT ON FUNCTION public.post_user_withdrawal(UUID, UUID, NUMERIC, NUMERIC, VARCHAR, VARCHAR) IS 'Debits a wallet withdrawal and its fee in one transaction';
+COMMENT ON FUNCTION public.move_savings_to_mgr(UUID, NUMERIC) IS 'Moves unlocked chama savings into the member''s MGR balance through the ledger';
+COMMENT ON FUNCTION public.pay_out_member_mgr(UUID, NUMERIC, TEXT, VARCHAR, JSONB) IS 'Pays an MGR withdrawal to the member''s central wallet or out to the provider; returns the payout status';
+COMMENT ON FUNCTION public.contribute_from_personal_wallet(UUID, UUID, NUMERIC, TEXT) IS 'Personal wallet contribution to a chama with its transaction record and view-only mirror, atomically';
+COMMENT ON COLUMN public.chama_members.mgr_balance IS 'Merry-go-round balance; the member_mgr ledger account, changed only through post_ledger_transaction()';
@@ -0,0 +1,93 @@
+-- ============================================
+-- WITHDRAWALS DEBIT BEFORE THEY PAY OUT
+-- ============================================
+-- withdraw-funds now debits the wallet (and its fee) before asking Paystack
+-- to send the money, so a failure after the transfer can no longer leave
+-- the wallet untouched for a retry to pay out again. When Paystack refuses
+-- the transfer outright nothing was sent, and the debit is reversed here.
+-- ============================================
+
+-- 1. Put a refused withdrawal back: the net amount from the provider and the
+--    fee from platform revenue. Returns false when there is nothing left to
+--    reverse, so calling it twice is harmless.
+CREATE OR REPLACE FUNCTION public.reverse_user_withdrawal(
+  p_reference VARCHAR,
+  p_reason TEXT DEFAULT NULL
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_withdrawal RECORD;
+  v_fee RECORD;
+BEGIN
+  -- One reversal at a time per withdrawal
+  PERFORM pg_advisory_xact_lock(hashtext('withdrawal_reversal:' || p_reference));
+
+  IF EXISTS (
+    SELECT 1 FROM public.transaction_ledger
+    WHERE reference = p_reference AND transaction_type = 'withdrawal_reversal'
+  ) THEN
+    RETURN false;
+  END IF;
+
+  SELECT account_id, debit_amount, currency, metadata INTO v_withdrawal
+  FROM public.transaction_ledger
+  WHERE reference = p_reference
+    AND transaction_type = 'user_withdrawal'
+    AND account_type = 'user_wallet'
+    AND debit_amount > 0;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  PERFORM public.post_ledger_transaction(
+    'withdrawal_reversal',
+    'external',
+    NULL,
+    'user_wallet',
+    v_withdrawal.account_id,
+    v_withdrawal.debit_amount,
+    p_reference,
+    'Withdrawal reversed',
+    jsonb_build_object('reason', p_reason) || COALESCE(v_withdrawal.metadata, '{}'::JSONB),
+    v_withdrawal.currency
+  );
+
+  FOR v_fee IN
+    SELECT id, amount, platform_account_id, user_id
+    FROM public.fee_collections
+    WHERE paystack_reference = p_reference
+      AND fee_type = 'withdrawal'
+      AND status = 'collected'
+    FOR UPDATE
+  LOOP
+    PERFORM public.post_ledger_transaction(
+      'fee_refund',
+      'platform_revenue',
+      v_fee.platform_account_id,
+      'user_wallet',
+      v_withdrawal.account_id,
+      v_fee.amount,
+      p_reference,
+      'Withdrawal fee refunded',
+      jsonb_build_object('fee_id', v_fee.id, 'user_id', v_fee.user_id, 'reason', p_reason)
+    );
+
+    UPDATE public.fee_collections SET status = 'refunded' WHERE id = v_fee.id;
+
+    UPDATE public.platform_accounts
+    SET total_collected = total_collected - v_fee.amount
+    WHERE id = v_fee.platform_account_id;
+  END LOOP;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reverse_user_withdrawal(VARCHAR, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reverse_user_withdrawal(VARCHAR, TEXT) TO service_role;
+
+COMMENT ON FUNCTION public.reverse_user_withdrawal(VARCHAR, TEXT) IS 'Refunds a wallet withdrawal and its fee when the payout provider refused it; false if already reversed';
@@ -0,0 +1,157 @@
+-- ============================================
+-- PAYSTACK AMOUNT MISMATCHES ARE HELD FOR REVIEW
+-- ============================================
+-- credit_paystack_payment() used to credit whatever amount Paystack reported,
+-- even when it differed from the amount the payment was started for. Such a
+-- payment is now left uncredited as 'amount_mismatch', the same way M-Pesa
+-- settlement treats one, with both amounts recorded for an admin to review.
+-- ============================================
+
+-- 1. Settle a verified Paystack payment exactly once, unless the amount is off
+CREATE OR REPLACE FUNCTION public.credit_paystack_payment(
+  p_reference TEXT,
+  p_amount_paid NUMERIC,
+  p_channel TEXT DEFAULT NULL,
+  p_paid_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_provider_data JSONB DEFAULT '{}',
+  p_settled_by TEXT DEFAULT 'webhook'
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction RECORD;
+  v_wallet_id UUID;
+  v_quote JSONB;
+  v_platform_fee NUMERIC;
+  v_net_amount NUMERIC;
+  v_credited BOOLEAN := false;
+  v_expected NUMERIC;
+BEGIN
+  -- Lock the payment row so concurrent settlers queue up behind each other
+  SELECT * INTO v_transaction
+  FROM public.mpesa_transactions
+  WHERE checkout_request_id = p_reference
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Transaction not found');
+  END IF;
+
+  IF v_transaction.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_settled', true,
+      'status', v_transaction.status,
+      'user_id', v_transaction.user_id
+    );
+  END IF;
+
+  -- Paystack charges in cents, so compare at that precision
+  v_expected := round(v_transaction.amount, 2);
+
+  IF p_amount_paid IS DISTINCT FROM v_expected THEN
+    UPDATE public.mpesa_transactions
+    SET status = 'amount_mismatch',
+        result_desc = format('Paid amount %s differs from the requested %s', p_amount_paid, v_expected),
+        callback_data = COALESCE(callback_data, '{}'::jsonb) || jsonb_build_object(
+          'settled_by', p_settled_by,
+          'provider_data', p_provider_data,
+          'amount_mismatch', jsonb_build_object('expected', v_expected, 'paid', p_amount_paid)
+        ),
+        updated_at = now()
+    WHERE id = v_transaction.id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_settled', false,
+      'credited', false,
+      'held_for_review', true,
+      'status', 'amount_mismatch',
+      'user_id', v_transaction.user_id,
+      'chama_id', v_transaction.chama_id,
+      'expected_amount', v_expected,
+      'amount_paid', p_amount_paid
+    );
+  END IF;
+
+  v_quote := public.quote_fee(
+    CASE WHEN v_transaction.purpose = 'contribution' THEN 'chama_contribution' ELSE 'wallet_topup' END,
+    p_amount_paid,
+    v_transaction.user_id,
+    'paystack',
+    v_transaction.chama_id
+  );
+  v_platform_fee := (v_quote ->> 'fee')::numeric;
+  v_net_amount := p_amount_paid - v_platform_fee;
+
+  IF v_transaction.purpose IN ('other', 'wallet_topup') THEN
+    INSERT INTO public.user_central_wallets (user_id, balance)
+    VALUES (v_transaction.user_id, 0)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    SELECT id INTO v_wallet_id
+    FROM public.user_central_wallets
+    WHERE user_id = v_transaction.user_id;
+
+    IF v_net_amount > 0 THEN
+      PERFORM public.post_ledger_transaction(
+        'user_deposit',
+        'external',
+        NULL,
+        'user_central_wallet',
+        v_wallet_id,
+        v_net_amount,
+        p_reference,
+        'Paystack ' || COALESCE(p_channel, '') || ' deposit',
+        jsonb_build_object('provider', 'paystack', 'channel', p_channel, 'user_id', v_transaction.user_id, 'settled_by', p_settled_by)
+      );
+    END IF;
+
+    INSERT INTO public.wallet_transactions (user_id, type, amount, description, status, reference_id, currency)
+    VALUES (
+      v_transaction.user_id,
+      'deposit',
+      v_net_amount,
+      'Wallet top-up via Paystack (Fee: KES ' || to_char(v_platform_fee, 'FM999999990.00') || ')',
+      'completed',
+      p_reference,
+      'KES'
+    );
+
+    v_credited := true;
+  END IF;
+
+  PERFORM public.collect_platform_fee(
+    v_transaction.user_id,
+    'transaction',
+    v_platform_fee,
+    NULL,
+    p_reference
+  );
+
+  UPDATE public.mpesa_transactions
+  SET status = 'success',
+      result_code = 0,
+      result_desc = 'Payment via ' || COALESCE(p_channel, 'paystack') || ' successful',
+      mpesa_receipt_number = p_reference,
+      transaction_date = COALESCE(p_paid_at, now()),
+      callback_data = COALESCE(callback_data, '{}'::jsonb) || jsonb_build_object('settled_by', p_settled_by, 'provider_data', p_provider_data, 'fee_quote', v_quote),
+      updated_at = now()
+  WHERE id = v_transaction.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'already_settled', false,
+    'credited', v_credited,
+    'user_id', v_transaction.user_id,
+    'chama_id', v_transaction.chama_id,
+    'purpose', v_transaction.purpose,
+    'amount', v_net_amount,
+    'fee', v_platform_fee
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.credit_paystack_payment IS 'Credits a verified Paystack payment once per reference; holds it as amount_mismatch when the paid amount differs from the request';
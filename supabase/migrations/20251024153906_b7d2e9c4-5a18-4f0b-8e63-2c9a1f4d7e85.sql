@@ -0,0 +1,15 @@
+-- ============================================
+-- FAILED WEBHOOK EVENTS GIVE UP THEIR SLOT
+-- ============================================
+-- The replay guard counted failed events as accepted, so when processing an
+-- event failed, every retry the provider sent afterwards was logged as a
+-- duplicate and dropped. Only events still being handled or already
+-- processed now hold the event ID; a failed one can be delivered again.
+-- ============================================
+
+-- 1. An event ID is accepted once per provider unless its processing failed
+DROP INDEX IF EXISTS public.idx_webhook_events_accepted;
+
+CREATE UNIQUE INDEX idx_webhook_events_accepted
+  ON public.webhook_events(provider, event_id)
+  WHERE status IN ('received', 'processed');
@@ -0,0 +1,388 @@
+-- ============================================
+-- PAYMENT SETTLEMENT USES THE WALLET'S CURRENCY
+-- ============================================
+-- Paystack and M-Pesa settlement still wrote 'KES' into the fee description
+-- and the currency of the wallet history row, whatever currency the wallet
+-- holds. Both now use the currency of the wallet the payment settles into
+-- and return it, so the callbacks can word their notifications with it.
+-- ============================================
+
+-- 1. Paystack settlement
+CREATE OR REPLACE FUNCTION public.credit_paystack_payment(
+  p_reference TEXT,
+  p_amount_paid NUMERIC,
+  p_channel TEXT DEFAULT NULL,
+  p_paid_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_provider_data JSONB DEFAULT '{}',
+  p_settled_by TEXT DEFAULT 'webhook'
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction RECORD;
+  v_wallet_id UUID;
+  v_quote JSONB;
+  v_platform_fee NUMERIC;
+  v_net_amount NUMERIC;
+  v_credited BOOLEAN := false;
+  v_expected NUMERIC;
+  v_currency VARCHAR;
+BEGIN
+  -- Lock the payment row so concurrent settlers queue up behind each other
+  SELECT * INTO v_transaction
+  FROM public.mpesa_transactions
+  WHERE checkout_request_id = p_reference
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Transaction not found');
+  END IF;
+
+  IF v_transaction.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_settled', true,
+      'status', v_transaction.status,
+      'user_id', v_transaction.user_id
+    );
+  END IF;
+
+  -- Amounts are reported in the currency of the wallet being credited; a
+  -- wallet that does not exist yet is opened in the default, shillings
+  SELECT COALESCE(
+    (SELECT currency FROM public.user_central_wallets WHERE user_id = v_transaction.user_id),
+    'KES'
+  ) INTO v_currency;
+
+  -- Paystack charges in cents, so compare at that precision
+  v_expected := round(v_transaction.amount, 2);
+
+  IF p_amount_paid IS DISTINCT FROM v_expected THEN
+    UPDATE public.mpesa_transactions
+    SET status = 'amount_mismatch',
+        result_desc = format('Paid amount %s differs from the requested %s', p_amount_paid, v_expected),
+        callback_data = COALESCE(callback_data, '{}'::jsonb) || jsonb_build_object(
+          'settled_by', p_settled_by,
+          'provider_data', p_provider_data,
+          'amount_mismatch', jsonb_build_object('expected', v_expected, 'paid', p_amount_paid)
+        ),
+        updated_at = now()
+    WHERE id = v_transaction.id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_settled', false,
+      'credited', false,
+      'held_for_review', true,
+      'status', 'amount_mismatch',
+      'user_id', v_transaction.user_id,
+      'chama_id', v_transaction.chama_id,
+      'expected_amount', v_expected,
+      'amount_paid', p_amount_paid,
+      'currency', v_currency
+    );
+  END IF;
+
+  v_quote := public.quote_fee(
+    CASE WHEN v_transaction.purpose = 'contribution' THEN 'chama_contribution' ELSE 'wallet_topup' END,
+    p_amount_paid,
+    v_transaction.user_id,
+    'paystack',
+    v_transaction.chama_id
+  );
+  v_platform_fee := (v_quote ->> 'fee')::numeric;
+  v_net_amount := p_amount_paid - v_platform_fee;
+
+  IF v_transaction.purpose IN ('other', 'wallet_topup') THEN
+    INSERT INTO public.user_central_wallets (user_id, balance)
+    VALUES (v_transaction.user_id, 0)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    SELECT id INTO v_wallet_id
+    FROM public.user_central_wallets
+    WHERE user_id = v_transaction.user_id;
+
+    IF v_net_amount > 0 THEN
+      PERFORM public.post_ledger_transaction(
+        'user_deposit',
+        'external',
+        NULL,
+        'user_central_wallet',
+        v_wallet_id,
+        v_net_amount,
+        p_reference,
+        'Paystack ' || COALESCE(p_channel, '') || ' deposit',
+        jsonb_build_object('provider', 'paystack', 'channel', p_channel, 'user_id', v_transaction.user_id, 'settled_by', p_settled_by)
+      );
+    END IF;
+
+    INSERT INTO public.wallet_transactions (user_id, type, amount, description, status, reference_id, currency)
+    VALUES (
+      v_transaction.user_id,
+      'deposit',
+      v_net_amount,
+      'Wallet top-up via Paystack (Fee: ' || v_currency || ' ' || to_char(v_platform_fee, 'FM999999990.00') || ')',
+      'completed',
+      p_reference,
+      v_currency
+    );
+
+    v_credited := true;
+  END IF;
+
+  PERFORM public.collect_platform_fee(
+    v_transaction.user_id,
+    'transaction',
+    v_platform_fee,
+    NULL,
+    p_reference
+  );
+
+  UPDATE public.mpesa_transactions
+  SET status = 'success',
+      result_code = 0,
+      result_desc = 'Payment via ' || COALESCE(p_channel, 'paystack') || ' successful',
+      mpesa_receipt_number = p_reference,
+      transaction_date = COALESCE(p_paid_at, now()),
+      callback_data = COALESCE(callback_data, '{}'::jsonb) || jsonb_build_object('settled_by', p_settled_by, 'provider_data', p_provider_data, 'fee_quote', v_quote),
+      updated_at = now()
+  WHERE id = v_transaction.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'already_settled', false,
+    'credited', v_credited,
+    'user_id', v_transaction.user_id,
+    'chama_id', v_transaction.chama_id,
+    'purpose', v_transaction.purpose,
+    'amount', v_net_amount,
+    'fee', v_platform_fee,
+    'currency', v_currency
+  );
+END;
+$$;
+
+-- 2. M-Pesa settlement
+CREATE OR REPLACE FUNCTION public.settle_mpesa_payment(
+  p_checkout_request_id TEXT,
+  p_result_code INTEGER,
+  p_result_desc TEXT,
+  p_receipt_number TEXT DEFAULT NULL,
+  p_amount NUMERIC DEFAULT NULL,
+  p_phone_number TEXT DEFAULT NULL,
+  p_transaction_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_callback_data JSONB DEFAULT '{}'
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction RECORD;
+  v_fee_type VARCHAR;
+  v_quote JSONB;
+  v_platform_fee NUMERIC;
+  v_net_amount NUMERIC;
+  v_wallet_id UUID;
+  v_member_id UUID;
+  v_routed_to TEXT;
+  v_currency VARCHAR;
+BEGIN
+  SELECT * INTO v_transaction
+  FROM public.mpesa_transactions
+  WHERE checkout_request_id = p_checkout_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Transaction not found');
+  END IF;
+
+  -- Safaricom retries callbacks; only the first one for a request counts
+  IF v_transaction.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_settled', true,
+      'status', v_transaction.status,
+      'user_id', v_transaction.user_id
+    );
+  END IF;
+
+  -- Amounts are reported in the currency of the wallet the payment settles
+  -- into: the chama's for a contribution, otherwise the payer's own, which is
+  -- opened in the default, shillings, if it does not exist yet
+  SELECT COALESCE(
+    CASE WHEN v_transaction.purpose = 'contribution'
+      THEN (SELECT currency FROM public.chamas WHERE id = v_transaction.chama_id)
+    END,
+    (SELECT currency FROM public.user_central_wallets WHERE user_id = v_transaction.user_id),
+    'KES'
+  ) INTO v_currency;
+
+  IF p_result_code <> 0 THEN
+    UPDATE public.mpesa_transactions
+    SET status = 'failed',
+        result_code = p_result_code,
+        result_desc = p_result_desc,
+        callback_data = p_callback_data,
+        updated_at = now()
+    WHERE id = v_transaction.id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_settled', false,
+      'outcome', 'failed',
+      'user_id', v_transaction.user_id,
+      'chama_id', v_transaction.chama_id,
+      'amount', v_transaction.amount,
+      'currency', v_currency
+    );
+  END IF;
+
+  -- The paid amount must match what was requested before any money moves
+  IF p_amount IS NULL OR p_amount <> v_transaction.amount THEN
+    UPDATE public.mpesa_transactions
+    SET status = 'amount_mismatch',
+        result_code = p_result_code,
+        result_desc = 'Paid amount ' || COALESCE(p_amount::TEXT, 'unknown') || ' does not match requested ' || v_transaction.amount,
+        mpesa_receipt_number = p_receipt_number,
+        transaction_date = p_transaction_date,
+        callback_data = p_callback_data,
+        updated_at = now()
+    WHERE id = v_transaction.id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_settled', false,
+      'outcome', 'amount_mismatch',
+      'user_id', v_transaction.user_id,
+      'chama_id', v_transaction.chama_id,
+      'amount', p_amount,
+      'currency', v_currency
+    );
+  END IF;
+
+  -- The fee was quoted on the net amount when the push was started and added
+  -- on top of the charge, so it is read back rather than quoted again on the
+  -- total. Requests from before that still carry no fee and are priced here.
+  IF v_transaction.metadata ? 'fee' THEN
+    v_platform_fee := (v_transaction.metadata ->> 'fee')::numeric;
+    v_quote := COALESCE(v_transaction.metadata -> 'fee_quote', jsonb_build_object('fee', v_platform_fee));
+  ELSE
+    v_fee_type := CASE WHEN v_transaction.purpose = 'contribution' THEN 'chama_contribution' ELSE 'wallet_topup' END;
+    v_quote := public.quote_fee(v_fee_type, p_amount, v_transaction.user_id, 'mpesa', v_transaction.chama_id);
+    v_platform_fee := (v_quote ->> 'fee')::numeric;
+  END IF;
+  v_net_amount := p_amount - v_platform_fee;
+
+  IF v_transaction.purpose = 'contribution' AND v_transaction.chama_id IS NOT NULL THEN
+    SELECT id INTO v_member_id
+    FROM public.chama_members
+    WHERE chama_id = v_transaction.chama_id
+      AND user_id = v_transaction.user_id
+      AND is_active = true;
+  END IF;
+
+  IF v_member_id IS NOT NULL THEN
+    SELECT id INTO v_wallet_id
+    FROM public.chama_central_wallets
+    WHERE chama_id = v_transaction.chama_id;
+
+    IF v_net_amount > 0 THEN
+      PERFORM public.post_ledger_transaction(
+        'chama_contribution',
+        'external',
+        NULL,
+        'chama_central_wallet',
+        v_wallet_id,
+        v_net_amount,
+        p_receipt_number,
+        'M-Pesa contribution',
+        jsonb_build_object('provider', 'mpesa', 'chama_id', v_transaction.chama_id, 'member_id', v_member_id, 'user_id', v_transaction.user_id)
+      );
+    END IF;
+
+    INSERT INTO public.chama_contributions_new (chama_id, member_id, amount, payment_method, payment_reference, status)
+    VALUES (v_transaction.chama_id, v_member_id, v_net_amount, 'mpesa', p_receipt_number, 'completed');
+
+    UPDATE public.chama_members
+    SET savings_balance = COALESCE(savings_balance, 0) + v_net_amount,
+        total_contributed = COALESCE(total_contributed, 0) + v_net_amount,
+        last_contribution_date = now()
+    WHERE id = v_member_id;
+
+    UPDATE public.chamas
+    SET total_savings = COALESCE(total_savings, 0) + v_net_amount
+    WHERE id = v_transaction.chama_id;
+
+    v_routed_to := 'chama';
+  ELSE
+    INSERT INTO public.user_central_wallets (user_id, balance)
+    VALUES (v_transaction.user_id, 0)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    SELECT id INTO v_wallet_id
+    FROM public.user_central_wallets
+    WHERE user_id = v_transaction.user_id;
+
+    IF v_net_amount > 0 THEN
+      PERFORM public.post_ledger_transaction(
+        'user_deposit',
+        'external',
+        NULL,
+        'user_central_wallet',
+        v_wallet_id,
+        v_net_amount,
+        p_receipt_number,
+        'M-Pesa deposit',
+        jsonb_build_object('provider', 'mpesa', 'purpose', v_transaction.purpose, 'user_id', v_transaction.user_id)
+      );
+    END IF;
+
+    INSERT INTO public.wallet_transactions (user_id, type, amount, description, status, reference_id, currency)
+    VALUES (
+      v_transaction.user_id,
+      'deposit',
+      v_net_amount,
+      'M-Pesa deposit (Fee: ' || v_currency || ' ' || to_char(v_platform_fee, 'FM999999990.00') || ')',
+      'completed',
+      p_receipt_number,
+      v_currency
+    );
+
+    v_routed_to := 'wallet';
+  END IF;
+
+  PERFORM public.collect_platform_fee(
+    v_transaction.user_id,
+    'transaction',
+    v_platform_fee,
+    NULL,
+    p_receipt_number
+  );
+
+  UPDATE public.mpesa_transactions
+  SET status = 'success',
+      result_code = p_result_code,
+      result_desc = p_result_desc,
+      mpesa_receipt_number = p_receipt_number,
+      transaction_date = COALESCE(p_transaction_date, now()),
+      phone_number = COALESCE(p_phone_number, phone_number),
+      callback_data = p_callback_data || jsonb_build_object('fee_quote', v_quote),
+      updated_at = now()
+  WHERE id = v_transaction.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'already_settled', false,
+    'outcome', 'credited',
+    'routed_to', v_routed_to,
+    'user_id', v_transaction.user_id,
+    'chama_id', v_transaction.chama_id,
+    'amount', v_net_amount,
+    'fee', v_platform_fee,
+    'currency', v_currency
+  );
+END;
+$$;
@@ -0,0 +1,165 @@
+-- ============================================
+-- USSD ACTS THROUGH SERVICE-ROLE RPCS
+-- ============================================
+-- ussd-callback used to sign a short-lived access token for the member and
+-- call make-contribution and cast_ballot() with it, which meant holding the
+-- project's JWT secret in a function. It now stays on the service role: the
+-- member comes from ussd_user_for_phone(), and every action that moves
+-- money or casts a ballot takes that user ID together with the PIN the
+-- session started with and checks it through check_user_pin() first, so
+-- nothing happens for a member without their PIN.
+-- ============================================
+
+-- 1. The PIN step of a session checks the PIN directly
+GRANT EXECUTE ON FUNCTION public.check_user_pin(UUID, TEXT) TO service_role;
+
+-- 2. A contribution from the member's central wallet, as make-contribution
+--    makes it. A session confirms at most one contribution, so the session's
+--    reference is checked first and a retried step reports the first result.
+CREATE OR REPLACE FUNCTION public.ussd_contribute(
+  p_user_id UUID,
+  p_pin TEXT,
+  p_chama_id UUID,
+  p_amount NUMERIC,
+  p_reference TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pin JSONB;
+  v_member public.chama_members%ROWTYPE;
+  v_wallet RECORD;
+  v_chama_wallet_id UUID;
+  v_currency TEXT;
+  v_contribution public.chama_contributions_new%ROWTYPE;
+  v_contributor TEXT;
+BEGIN
+  v_pin := public.check_user_pin(p_user_id, p_pin);
+  IF NOT COALESCE((v_pin ->> 'success')::BOOLEAN, false) THEN
+    RETURN v_pin;
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Invalid amount');
+  END IF;
+
+  SELECT * INTO v_member
+  FROM public.chama_members
+  WHERE user_id = p_user_id AND chama_id = p_chama_id AND is_active = true
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'You are not a member of this chama');
+  END IF;
+
+  -- The member row lock above serialises retries of the same step
+  SELECT * INTO v_contribution
+  FROM public.chama_contributions_new
+  WHERE member_id = v_member.id AND payment_reference = p_reference;
+  IF FOUND THEN
+    RETURN jsonb_build_object('success', true, 'already_recorded', true, 'contribution_id', v_contribution.id);
+  END IF;
+
+  SELECT id, balance INTO v_wallet FROM public.user_central_wallets WHERE user_id = p_user_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Central wallet not found');
+  END IF;
+
+  SELECT id INTO v_chama_wallet_id FROM public.chama_central_wallets WHERE chama_id = p_chama_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Chama wallet not found');
+  END IF;
+
+  SELECT COALESCE(currency, 'KES') INTO v_currency FROM public.chamas WHERE id = p_chama_id;
+
+  IF v_wallet.balance < p_amount THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', format('Insufficient balance. Available: %s %s', v_currency, to_char(v_wallet.balance, 'FM999999990.00'))
+    );
+  END IF;
+
+  PERFORM public.transfer_funds(
+    'chama_contribution',
+    'user_central_wallet',
+    v_wallet.id,
+    'chama_central_wallet',
+    v_chama_wallet_id,
+    p_amount,
+    p_reference,
+    'Contribution to chama',
+    jsonb_build_object('chama_id', p_chama_id, 'member_id', v_member.id, 'user_id', p_user_id, 'channel', 'ussd'),
+    jsonb_build_array(jsonb_build_object('user_id', p_user_id, 'type', 'chama_contribution', 'amount', -p_amount))
+  );
+
+  INSERT INTO public.chama_contributions_new (
+    chama_id, member_id, amount, payment_method, payment_reference, notes, status
+  ) VALUES (
+    p_chama_id, v_member.id, p_amount, 'wallet', p_reference, 'Contributed by USSD', 'completed'
+  ) RETURNING * INTO v_contribution;
+
+  UPDATE public.chama_members
+  SET savings_balance = COALESCE(savings_balance, 0) + p_amount,
+      total_contributed = COALESCE(total_contributed, 0) + p_amount,
+      last_contribution_date = now()
+  WHERE id = v_member.id;
+
+  UPDATE public.chamas
+  SET total_savings = COALESCE(total_savings, 0) + p_amount
+  WHERE id = p_chama_id;
+
+  INSERT INTO public.chama_activities (chama_id, member_id, activity_type, description, amount)
+  VALUES (p_chama_id, v_member.id, 'contribution_made', format('Contributed %s %s', v_currency, p_amount), p_amount);
+
+  SELECT COALESCE(full_name, email, 'A member') INTO v_contributor FROM public.profiles WHERE user_id = p_user_id;
+
+  INSERT INTO public.chama_notifications (user_id, chama_id, type, title, message, metadata)
+  SELECT cm.user_id, p_chama_id, 'contribution', '🎉 New Contribution!',
+         format('%s contributed %s %s', COALESCE(v_contributor, 'A member'), v_currency, p_amount),
+         jsonb_build_object('contribution_id', v_contribution.id, 'amount', p_amount)
+  FROM public.chama_members cm
+  WHERE cm.chama_id = p_chama_id AND cm.is_active = true AND cm.user_id <> p_user_id;
+
+  RETURN jsonb_build_object('success', true, 'already_recorded', false, 'contribution_id', v_contribution.id);
+END;
+$$;
+
+-- 3. A ballot in one of the member's chamas, as cast_ballot() records it
+CREATE OR REPLACE FUNCTION public.ussd_cast_ballot(
+  p_user_id UUID,
+  p_pin TEXT,
+  p_vote_id UUID,
+  p_option_index INTEGER
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pin JSONB;
+  v_member_id UUID;
+BEGIN
+  v_pin := public.check_user_pin(p_user_id, p_pin);
+  IF NOT COALESCE((v_pin ->> 'success')::BOOLEAN, false) THEN
+    RETURN v_pin;
+  END IF;
+
+  SELECT cm.id INTO v_member_id
+  FROM public.chama_votes v
+  JOIN public.chama_members cm ON cm.chama_id = v.chama_id
+  WHERE v.id = p_vote_id
+    AND cm.user_id = p_user_id
+    AND cm.is_active = true;
+
+  RETURN public.record_chama_ballot(p_vote_id, v_member_id, p_option_index, NULL);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ussd_contribute(UUID, TEXT, UUID, NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.ussd_cast_ballot(UUID, TEXT, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ussd_contribute(UUID, TEXT, UUID, NUMERIC, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.ussd_cast_ballot(UUID, TEXT, UUID, INTEGER) TO service_role;
+
+COMMENT ON FUNCTION public.ussd_contribute(UUID, TEXT, UUID, NUMERIC, TEXT) IS 'A PIN-checked wallet contribution for the USSD channel, once per reference; service role only';
+COMMENT ON FUNCTION public.ussd_cast_ballot(UUID, TEXT, UUID, INTEGER) IS 'A PIN-checked ballot for the USSD channel; service role only';
@@ -0,0 +1,76 @@
+-- ============================================
+-- ONLY PERSONAL WALLETS PAY OUT FROM CHAMA-WALLET-API
+-- ============================================
+-- withdraw_funds in chama-wallet-api debited whichever of the member's
+-- wallets rows it was given. A contribution credits the chama_view_only
+-- mirror, which holds no money of its own, so the same money could leave
+-- again from there, and chama-linked wallets skipped the chama's approval
+-- policy. The withdrawal now runs here and only from a personal wallet;
+-- chama money leaves through chama-wallet-ops, which applies the policy.
+-- ============================================
+
+-- 1. Debit the personal wallet into the payout and record the pending
+--    chama transaction in one database transaction
+CREATE OR REPLACE FUNCTION public.withdraw_from_personal_wallet(
+  p_user_id UUID,
+  p_wallet_id UUID,
+  p_amount NUMERIC,
+  p_payment_method TEXT,
+  p_phone_number TEXT DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_wallet public.wallets%ROWTYPE;
+  v_transaction public.chama_transactions%ROWTYPE;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid amount';
+  END IF;
+
+  SELECT * INTO v_wallet
+  FROM public.wallets
+  WHERE id = p_wallet_id AND user_id = p_user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Wallet not found';
+  END IF;
+
+  IF v_wallet.wallet_type::TEXT <> 'personal' THEN
+    RAISE EXCEPTION 'Only your personal wallet can be withdrawn from here; chama funds are withdrawn from the chama wallet';
+  END IF;
+
+  IF v_wallet.is_locked THEN
+    RAISE EXCEPTION 'Wallet is locked for withdrawals';
+  END IF;
+
+  -- The ledger locks the wallet row and refuses to overdraw it
+  PERFORM public.post_ledger_transaction(
+    'user_withdrawal',
+    'chama_wallet',
+    p_wallet_id,
+    'external',
+    NULL,
+    p_amount,
+    NULL,
+    format('Withdrawal to %s', p_payment_method),
+    jsonb_build_object('payment_method', p_payment_method, 'phone_number', p_phone_number, 'user_id', p_user_id)
+  );
+
+  INSERT INTO public.chama_transactions (
+    from_user_id, from_wallet_id, amount, transaction_type, status, description, metadata
+  ) VALUES (
+    p_user_id, p_wallet_id, -p_amount, 'withdrawal', 'pending',
+    format('Withdrawal to %s', p_payment_method),
+    jsonb_build_object('payment_method', p_payment_method, 'phone_number', p_phone_number)
+  ) RETURNING * INTO v_transaction;
+
+  RETURN to_jsonb(v_transaction);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.withdraw_from_personal_wallet(UUID, UUID, NUMERIC, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.withdraw_from_personal_wallet(UUID, UUID, NUMERIC, TEXT, TEXT) TO service_role;
+
+COMMENT ON FUNCTION public.withdraw_from_personal_wallet(UUID, UUID, NUMERIC, TEXT, TEXT) IS 'Debits a personal wallet for a payout and records the pending withdrawal; other wallet types are refused';
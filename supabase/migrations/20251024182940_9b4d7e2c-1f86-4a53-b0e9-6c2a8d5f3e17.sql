@@ -0,0 +1,56 @@
+-- ============================================
+-- BALANCE COLUMNS ARE WRITTEN BY THE LEDGER ONLY
+-- ============================================
+-- The ledger keeps every stored balance in step with transaction_ledger,
+-- but members could still write those columns straight from the app:
+-- user_central_wallets had a FOR ALL policy on the owner's row, and the
+-- other wallet tables let their owners insert and update every column.
+-- Members keep read access and the rights they need on the other columns;
+-- balances only change through apply_ledger_delta(), which runs as the
+-- function owner.
+-- ============================================
+
+-- 1. Members read their central wallet; rows come from the sign-up
+--    trigger and balances from the ledger
+DROP POLICY IF EXISTS "Users manage own central wallet" ON public.user_central_wallets;
+DROP POLICY IF EXISTS "Users can view their own central wallet" ON public.user_central_wallets;
+CREATE POLICY "Users can view their own central wallet"
+  ON public.user_central_wallets FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- 2. No direct INSERT or UPDATE of a ledger account's balance, on any table
+--    apply_ledger_delta() writes to
+DO $$
+DECLARE
+  v_account RECORD;
+  v_columns TEXT;
+BEGIN
+  FOR v_account IN
+    SELECT * FROM (VALUES
+      ('user_wallets', ARRAY['balance']),
+      ('user_central_wallets', ARRAY['balance']),
+      ('wallets', ARRAY['balance']),
+      ('chama_central_wallets', ARRAY['balance']),
+      ('member_wallets', ARRAY['balance']),
+      ('chama_members', ARRAY['mgr_balance']),
+      ('personal_savings_goals', ARRAY['current_amount']),
+      ('platform_accounts', ARRAY['balance', 'total_collected'])
+    ) AS a (table_name, balance_columns)
+  LOOP
+    CONTINUE WHEN to_regclass('public.' || v_account.table_name) IS NULL;
+
+    EXECUTE format('REVOKE INSERT, UPDATE ON public.%I FROM anon, authenticated', v_account.table_name);
+
+    SELECT string_agg(quote_ident(column_name), ', ' ORDER BY ordinal_position) INTO v_columns
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = v_account.table_name
+      AND column_name <> ALL (v_account.balance_columns);
+
+    EXECUTE format(
+      'GRANT INSERT (%s), UPDATE (%s) ON public.%I TO authenticated',
+      v_columns, v_columns, v_account.table_name
+    );
+  END LOOP;
+END;
+$$;
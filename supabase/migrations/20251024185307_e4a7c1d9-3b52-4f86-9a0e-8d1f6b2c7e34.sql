@@ -0,0 +1,108 @@
+-- ============================================
+-- CONTRIBUTIONS IN ONE TRANSACTION
+-- ============================================
+-- make-contribution moved the money with transfer_funds() and then wrote
+-- the contribution, the member's savings and the chama's total as separate
+-- read-then-write calls. Concurrent contributions could lose an update, and
+-- a failure after the transfer left the money moved with nothing recorded.
+-- record_chama_contribution() now does all of it in one transaction.
+-- ============================================
+
+-- 1. A member's contribution: from their central wallet when paid by
+--    wallet, then the contribution row, savings, chama total, activity and
+--    a notification to the other members. Raises on any failure, so either
+--    everything happens or nothing does.
+CREATE OR REPLACE FUNCTION public.record_chama_contribution(
+  p_user_id UUID,
+  p_chama_id UUID,
+  p_amount NUMERIC,
+  p_payment_method TEXT DEFAULT 'wallet',
+  p_payment_reference TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment_method TEXT := COALESCE(p_payment_method, 'wallet');
+  v_member public.chama_members%ROWTYPE;
+  v_wallet_id UUID;
+  v_chama_wallet_id UUID;
+  v_contribution public.chama_contributions_new%ROWTYPE;
+  v_contributor TEXT;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid amount';
+  END IF;
+
+  SELECT * INTO v_member
+  FROM public.chama_members
+  WHERE user_id = p_user_id AND chama_id = p_chama_id AND is_active = true
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a member of this chama';
+  END IF;
+
+  IF v_payment_method = 'wallet' THEN
+    SELECT id INTO v_wallet_id FROM public.user_central_wallets WHERE user_id = p_user_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Central wallet not found';
+    END IF;
+
+    SELECT id INTO v_chama_wallet_id FROM public.chama_central_wallets WHERE chama_id = p_chama_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Chama wallet not found';
+    END IF;
+
+    -- Refuses to overdraw the member's wallet
+    PERFORM public.transfer_funds(
+      'chama_contribution',
+      'user_central_wallet',
+      v_wallet_id,
+      'chama_central_wallet',
+      v_chama_wallet_id,
+      p_amount,
+      p_payment_reference,
+      'Contribution to chama',
+      jsonb_build_object('chama_id', p_chama_id, 'member_id', v_member.id, 'user_id', p_user_id),
+      jsonb_build_array(jsonb_build_object('user_id', p_user_id, 'type', 'chama_contribution', 'amount', -p_amount))
+    );
+  END IF;
+
+  INSERT INTO public.chama_contributions_new (
+    chama_id, member_id, amount, payment_method, payment_reference, notes, status
+  ) VALUES (
+    p_chama_id, v_member.id, p_amount, v_payment_method, p_payment_reference, p_notes, 'completed'
+  ) RETURNING * INTO v_contribution;
+
+  UPDATE public.chama_members
+  SET savings_balance = COALESCE(savings_balance, 0) + p_amount,
+      total_contributed = COALESCE(total_contributed, 0) + p_amount,
+      last_contribution_date = now()
+  WHERE id = v_member.id;
+
+  UPDATE public.chamas
+  SET total_savings = COALESCE(total_savings, 0) + p_amount
+  WHERE id = p_chama_id;
+
+  INSERT INTO public.chama_activities (chama_id, member_id, activity_type, description, amount)
+  VALUES (p_chama_id, v_member.id, 'contribution_made', format('Contributed KES %s', p_amount), p_amount);
+
+  SELECT COALESCE(full_name, email) INTO v_contributor FROM public.profiles WHERE user_id = p_user_id;
+
+  INSERT INTO public.chama_notifications (user_id, chama_id, type, title, message, metadata)
+  SELECT cm.user_id, p_chama_id, 'contribution', '🎉 New Contribution!',
+         format('%s contributed KES %s', COALESCE(v_contributor, 'A member'), p_amount),
+         jsonb_build_object('contribution_id', v_contribution.id, 'amount', p_amount)
+  FROM public.chama_members cm
+  WHERE cm.chama_id = p_chama_id AND cm.is_active = true AND cm.user_id <> p_user_id;
+
+  RETURN to_jsonb(v_contribution);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_chama_contribution(UUID, UUID, NUMERIC, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_chama_contribution(UUID, UUID, NUMERIC, TEXT, TEXT, TEXT) TO service_role;
+
+COMMENT ON FUNCTION public.record_chama_contribution(UUID, UUID, NUMERIC, TEXT, TEXT, TEXT) IS 'Moves and records a member contribution with its savings, chama total, activity and notifications in one transaction';
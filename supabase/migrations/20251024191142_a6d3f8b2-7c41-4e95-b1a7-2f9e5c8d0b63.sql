@@ -0,0 +1,55 @@
+-- ============================================
+-- USSD CONTRIBUTIONS REUSE THE APP'S CONTRIBUTION
+-- ============================================
+-- ussd_contribute() had its own copy of make-contribution's logic. It now
+-- keeps only what is particular to USSD, the PIN check and one contribution
+-- per session, and hands the contribution to record_chama_contribution(),
+-- the function make-contribution calls.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.ussd_contribute(
+  p_user_id UUID,
+  p_pin TEXT,
+  p_chama_id UUID,
+  p_amount NUMERIC,
+  p_reference TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pin JSONB;
+  v_contribution JSONB;
+BEGIN
+  v_pin := public.check_user_pin(p_user_id, p_pin);
+  IF NOT COALESCE((v_pin ->> 'success')::BOOLEAN, false) THEN
+    RETURN v_pin;
+  END IF;
+
+  -- A session confirms at most one contribution, so a retried step reports
+  -- the first result
+  PERFORM pg_advisory_xact_lock(hashtext('ussd_contribution:' || p_reference));
+
+  SELECT to_jsonb(c) INTO v_contribution
+  FROM public.chama_contributions_new c
+  JOIN public.chama_members cm ON cm.id = c.member_id
+  WHERE c.payment_reference = p_reference AND cm.user_id = p_user_id;
+  IF FOUND THEN
+    RETURN jsonb_build_object('success', true, 'already_recorded', true, 'contribution_id', v_contribution ->> 'id');
+  END IF;
+
+  BEGIN
+    v_contribution := public.record_chama_contribution(
+      p_user_id, p_chama_id, p_amount, 'wallet', p_reference, 'Contributed by USSD'
+    );
+  EXCEPTION WHEN raise_exception THEN
+    -- Refusals such as an insufficient balance are shown on the phone
+    RETURN jsonb_build_object('success', false, 'message', SQLERRM);
+  END;
+
+  RETURN jsonb_build_object('success', true, 'already_recorded', false, 'contribution_id', v_contribution ->> 'id');
+END;
+$$;
+
+COMMENT ON FUNCTION public.ussd_contribute(UUID, TEXT, UUID, NUMERIC, TEXT) IS 'A PIN-checked wallet contribution for the USSD channel through record_chama_contribution(), once per reference; service role only';
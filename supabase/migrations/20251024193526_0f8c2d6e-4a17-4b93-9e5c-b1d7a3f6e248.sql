@@ -0,0 +1,497 @@
+-- ============================================
+-- MONEY IS BOOKED IN THE CURRENCY IT MOVES IN
+-- ============================================
+-- Contributions and payment settlement posted to the ledger without saying
+-- what currency the amount was in, so the ledger read it in the receiving
+-- or paying wallet's currency: a UGX wallet topped up by M-Pesa was credited
+-- the shilling figure, and a contribution typed in the chama's currency was
+-- taken from a wallet in another one unconverted. Each posting now names the
+-- currency of the money (the chama's for contributions, shillings for
+-- M-Pesa, the charge's for Paystack) and the ledger converts, and the
+-- chama's and wallet's own figures are kept in what they actually received.
+-- ============================================
+
+-- 1. Contributions are in the chama's currency
+CREATE OR REPLACE FUNCTION public.record_chama_contribution(
+  p_user_id UUID,
+  p_chama_id UUID,
+  p_amount NUMERIC,
+  p_payment_method TEXT DEFAULT 'wallet',
+  p_payment_reference TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment_method TEXT := COALESCE(p_payment_method, 'wallet');
+  v_member public.chama_members%ROWTYPE;
+  v_wallet_id UUID;
+  v_chama_wallet_id UUID;
+  v_contribution public.chama_contributions_new%ROWTYPE;
+  v_contributor TEXT;
+  v_currency VARCHAR;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid amount';
+  END IF;
+
+  SELECT * INTO v_member
+  FROM public.chama_members
+  WHERE user_id = p_user_id AND chama_id = p_chama_id AND is_active = true
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a member of this chama';
+  END IF;
+
+  SELECT COALESCE(currency, 'KES') INTO v_currency FROM public.chamas WHERE id = p_chama_id;
+
+  IF v_payment_method = 'wallet' THEN
+    SELECT id INTO v_wallet_id FROM public.user_central_wallets WHERE user_id = p_user_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Central wallet not found';
+    END IF;
+
+    SELECT id INTO v_chama_wallet_id FROM public.chama_central_wallets WHERE chama_id = p_chama_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Chama wallet not found';
+    END IF;
+
+    -- The amount is in the chama's currency; the ledger converts the debit
+    -- into the wallet's and refuses to overdraw it
+    PERFORM public.transfer_funds(
+      'chama_contribution',
+      'user_central_wallet',
+      v_wallet_id,
+      'chama_central_wallet',
+      v_chama_wallet_id,
+      p_amount,
+      p_payment_reference,
+      'Contribution to chama',
+      jsonb_build_object('chama_id', p_chama_id, 'member_id', v_member.id, 'user_id', p_user_id),
+      jsonb_build_array(jsonb_build_object('user_id', p_user_id, 'type', 'chama_contribution', 'amount', -p_amount)),
+      v_currency
+    );
+  END IF;
+
+  INSERT INTO public.chama_contributions_new (
+    chama_id, member_id, amount, payment_method, payment_reference, notes, status
+  ) VALUES (
+    p_chama_id, v_member.id, p_amount, v_payment_method, p_payment_reference, p_notes, 'completed'
+  ) RETURNING * INTO v_contribution;
+
+  UPDATE public.chama_members
+  SET savings_balance = COALESCE(savings_balance, 0) + p_amount,
+      total_contributed = COALESCE(total_contributed, 0) + p_amount,
+      last_contribution_date = now()
+  WHERE id = v_member.id;
+
+  UPDATE public.chamas
+  SET total_savings = COALESCE(total_savings, 0) + p_amount
+  WHERE id = p_chama_id;
+
+  INSERT INTO public.chama_activities (chama_id, member_id, activity_type, description, amount)
+  VALUES (p_chama_id, v_member.id, 'contribution_made', format('Contributed %s %s', v_currency, p_amount), p_amount);
+
+  SELECT COALESCE(full_name, email) INTO v_contributor FROM public.profiles WHERE user_id = p_user_id;
+
+  INSERT INTO public.chama_notifications (user_id, chama_id, type, title, message, metadata)
+  SELECT cm.user_id, p_chama_id, 'contribution', '🎉 New Contribution!',
+         format('%s contributed %s %s', COALESCE(v_contributor, 'A member'), v_currency, p_amount),
+         jsonb_build_object('contribution_id', v_contribution.id, 'amount', p_amount)
+  FROM public.chama_members cm
+  WHERE cm.chama_id = p_chama_id AND cm.is_active = true AND cm.user_id <> p_user_id;
+
+  RETURN to_jsonb(v_contribution);
+END;
+$$;
+
+-- 2. Paystack settlement, in the charge's currency
+CREATE OR REPLACE FUNCTION public.credit_paystack_payment(
+  p_reference TEXT,
+  p_amount_paid NUMERIC,
+  p_channel TEXT DEFAULT NULL,
+  p_paid_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_provider_data JSONB DEFAULT '{}',
+  p_settled_by TEXT DEFAULT 'webhook'
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction RECORD;
+  v_wallet_id UUID;
+  v_quote JSONB;
+  v_platform_fee NUMERIC;
+  v_net_amount NUMERIC;
+  v_credited BOOLEAN := false;
+  v_expected NUMERIC;
+  v_currency VARCHAR;
+  v_charge_currency VARCHAR;
+  v_credited_amount NUMERIC := 0;
+BEGIN
+  -- Lock the payment row so concurrent settlers queue up behind each other
+  SELECT * INTO v_transaction
+  FROM public.mpesa_transactions
+  WHERE checkout_request_id = p_reference
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Transaction not found');
+  END IF;
+
+  IF v_transaction.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_settled', true,
+      'status', v_transaction.status,
+      'user_id', v_transaction.user_id
+    );
+  END IF;
+
+  -- The charge carries its own currency: the webhook passes the whole
+  -- event, the verify API just its data
+  v_charge_currency := UPPER(COALESCE(
+    p_provider_data -> 'data' ->> 'currency',
+    p_provider_data ->> 'currency',
+    'KES'
+  ));
+
+  -- Paystack charges in cents, so compare at that precision
+  v_expected := round(v_transaction.amount, 2);
+
+  IF p_amount_paid IS DISTINCT FROM v_expected THEN
+    UPDATE public.mpesa_transactions
+    SET status = 'amount_mismatch',
+        result_desc = format('Paid amount %s differs from the requested %s', p_amount_paid, v_expected),
+        callback_data = COALESCE(callback_data, '{}'::jsonb) || jsonb_build_object(
+          'settled_by', p_settled_by,
+          'provider_data', p_provider_data,
+          'amount_mismatch', jsonb_build_object('expected', v_expected, 'paid', p_amount_paid)
+        ),
+        updated_at = now()
+    WHERE id = v_transaction.id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_settled', false,
+      'credited', false,
+      'held_for_review', true,
+      'status', 'amount_mismatch',
+      'user_id', v_transaction.user_id,
+      'chama_id', v_transaction.chama_id,
+      'expected_amount', v_expected,
+      'amount_paid', p_amount_paid,
+      'currency', v_charge_currency
+    );
+  END IF;
+
+  v_quote := public.quote_fee(
+    CASE WHEN v_transaction.purpose = 'contribution' THEN 'chama_contribution' ELSE 'wallet_topup' END,
+    p_amount_paid,
+    v_transaction.user_id,
+    'paystack',
+    v_transaction.chama_id
+  );
+  v_platform_fee := (v_quote ->> 'fee')::numeric;
+  v_net_amount := p_amount_paid - v_platform_fee;
+
+  IF v_transaction.purpose IN ('other', 'wallet_topup') THEN
+    INSERT INTO public.user_central_wallets (user_id, balance)
+    VALUES (v_transaction.user_id, 0)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    SELECT id, COALESCE(currency, 'KES') INTO v_wallet_id, v_currency
+    FROM public.user_central_wallets
+    WHERE user_id = v_transaction.user_id;
+
+    -- The ledger converts the charge into the wallet's currency
+    IF v_net_amount > 0 THEN
+      PERFORM public.post_ledger_transaction(
+        'user_deposit',
+        'external',
+        NULL,
+        'user_central_wallet',
+        v_wallet_id,
+        v_net_amount,
+        p_reference,
+        'Paystack ' || COALESCE(p_channel, '') || ' deposit',
+        jsonb_build_object('provider', 'paystack', 'channel', p_channel, 'user_id', v_transaction.user_id, 'settled_by', p_settled_by),
+        v_charge_currency
+      );
+      v_credited_amount := public.convert_amount(v_net_amount, v_charge_currency, v_currency);
+    END IF;
+
+    INSERT INTO public.wallet_transactions (user_id, type, amount, description, status, reference_id, currency)
+    VALUES (
+      v_transaction.user_id,
+      'deposit',
+      v_credited_amount,
+      'Wallet top-up via Paystack (Fee: ' || v_charge_currency || ' ' || to_char(v_platform_fee, 'FM999999990.00') || ')',
+      'completed',
+      p_reference,
+      v_currency
+    );
+
+    v_credited := true;
+  END IF;
+
+  PERFORM public.collect_platform_fee(
+    v_transaction.user_id,
+    'transaction',
+    v_platform_fee,
+    NULL,
+    p_reference
+  );
+
+  UPDATE public.mpesa_transactions
+  SET status = 'success',
+      result_code = 0,
+      result_desc = 'Payment via ' || COALESCE(p_channel, 'paystack') || ' successful',
+      mpesa_receipt_number = p_reference,
+      transaction_date = COALESCE(p_paid_at, now()),
+      callback_data = COALESCE(callback_data, '{}'::jsonb) || jsonb_build_object('settled_by', p_settled_by, 'provider_data', p_provider_data, 'fee_quote', v_quote),
+      updated_at = now()
+  WHERE id = v_transaction.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'already_settled', false,
+    'credited', v_credited,
+    'user_id', v_transaction.user_id,
+    'chama_id', v_transaction.chama_id,
+    'purpose', v_transaction.purpose,
+    -- What reached the wallet, in its currency; the charge's net otherwise
+    'amount', CASE WHEN v_credited THEN v_credited_amount ELSE v_net_amount END,
+    'currency', CASE WHEN v_credited THEN v_currency ELSE v_charge_currency END,
+    'fee', v_platform_fee,
+    'fee_currency', v_charge_currency
+  );
+END;
+$$;
+
+-- 3. M-Pesa settlement, always in shillings
+CREATE OR REPLACE FUNCTION public.settle_mpesa_payment(
+  p_checkout_request_id TEXT,
+  p_result_code INTEGER,
+  p_result_desc TEXT,
+  p_receipt_number TEXT DEFAULT NULL,
+  p_amount NUMERIC DEFAULT NULL,
+  p_phone_number TEXT DEFAULT NULL,
+  p_transaction_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_callback_data JSONB DEFAULT '{}'
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction RECORD;
+  v_fee_type VARCHAR;
+  v_quote JSONB;
+  v_platform_fee NUMERIC;
+  v_net_amount NUMERIC;
+  v_wallet_id UUID;
+  v_member_id UUID;
+  v_routed_to TEXT;
+  v_currency VARCHAR;
+  -- Safaricom only ever charges shillings
+  v_charge_currency CONSTANT VARCHAR := 'KES';
+  v_credited_amount NUMERIC := 0;
+BEGIN
+  SELECT * INTO v_transaction
+  FROM public.mpesa_transactions
+  WHERE checkout_request_id = p_checkout_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Transaction not found');
+  END IF;
+
+  -- Safaricom retries callbacks; only the first one for a request counts
+  IF v_transaction.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_settled', true,
+      'status', v_transaction.status,
+      'user_id', v_transaction.user_id
+    );
+  END IF;
+
+  IF p_result_code <> 0 THEN
+    UPDATE public.mpesa_transactions
+    SET status = 'failed',
+        result_code = p_result_code,
+        result_desc = p_result_desc,
+        callback_data = p_callback_data,
+        updated_at = now()
+    WHERE id = v_transaction.id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_settled', false,
+      'outcome', 'failed',
+      'user_id', v_transaction.user_id,
+      'chama_id', v_transaction.chama_id,
+      'amount', v_transaction.amount,
+      'currency', v_charge_currency
+    );
+  END IF;
+
+  -- The paid amount must match what was requested before any money moves
+  IF p_amount IS NULL OR p_amount <> v_transaction.amount THEN
+    UPDATE public.mpesa_transactions
+    SET status = 'amount_mismatch',
+        result_code = p_result_code,
+        result_desc = 'Paid amount ' || COALESCE(p_amount::TEXT, 'unknown') || ' does not match requested ' || v_transaction.amount,
+        mpesa_receipt_number = p_receipt_number,
+        transaction_date = p_transaction_date,
+        callback_data = p_callback_data,
+        updated_at = now()
+    WHERE id = v_transaction.id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_settled', false,
+      'outcome', 'amount_mismatch',
+      'user_id', v_transaction.user_id,
+      'chama_id', v_transaction.chama_id,
+      'amount', p_amount,
+      'currency', v_charge_currency
+    );
+  END IF;
+
+  -- The fee was quoted on the net amount when the push was started and added
+  -- on top of the charge, so it is read back rather than quoted again on the
+  -- total. Requests from before that still carry no fee and are priced here.
+  IF v_transaction.metadata ? 'fee' THEN
+    v_platform_fee := (v_transaction.metadata ->> 'fee')::numeric;
+    v_quote := COALESCE(v_transaction.metadata -> 'fee_quote', jsonb_build_object('fee', v_platform_fee));
+  ELSE
+    v_fee_type := CASE WHEN v_transaction.purpose = 'contribution' THEN 'chama_contribution' ELSE 'wallet_topup' END;
+    v_quote := public.quote_fee(v_fee_type, p_amount, v_transaction.user_id, 'mpesa', v_transaction.chama_id);
+    v_platform_fee := (v_quote ->> 'fee')::numeric;
+  END IF;
+  v_net_amount := p_amount - v_platform_fee;
+
+  IF v_transaction.purpose = 'contribution' AND v_transaction.chama_id IS NOT NULL THEN
+    SELECT id INTO v_member_id
+    FROM public.chama_members
+    WHERE chama_id = v_transaction.chama_id
+      AND user_id = v_transaction.user_id
+      AND is_active = true;
+  END IF;
+
+  IF v_member_id IS NOT NULL THEN
+    SELECT ccw.id, COALESCE(c.currency, 'KES') INTO v_wallet_id, v_currency
+    FROM public.chama_central_wallets ccw
+    JOIN public.chamas c ON c.id = ccw.chama_id
+    WHERE ccw.chama_id = v_transaction.chama_id;
+
+    -- The ledger converts the shillings into the chama's currency, and the
+    -- chama's own figures are kept in that currency
+    IF v_net_amount > 0 THEN
+      PERFORM public.post_ledger_transaction(
+        'chama_contribution',
+        'external',
+        NULL,
+        'chama_central_wallet',
+        v_wallet_id,
+        v_net_amount,
+        p_receipt_number,
+        'M-Pesa contribution',
+        jsonb_build_object('provider', 'mpesa', 'chama_id', v_transaction.chama_id, 'member_id', v_member_id, 'user_id', v_transaction.user_id),
+        v_charge_currency
+      );
+      v_credited_amount := public.convert_amount(v_net_amount, v_charge_currency, v_currency);
+    END IF;
+
+    INSERT INTO public.chama_contributions_new (chama_id, member_id, amount, payment_method, payment_reference, status)
+    VALUES (v_transaction.chama_id, v_member_id, v_credited_amount, 'mpesa', p_receipt_number, 'completed');
+
+    UPDATE public.chama_members
+    SET savings_balance = COALESCE(savings_balance, 0) + v_credited_amount,
+        total_contributed = COALESCE(total_contributed, 0) + v_credited_amount,
+        last_contribution_date = now()
+    WHERE id = v_member_id;
+
+    UPDATE public.chamas
+    SET total_savings = COALESCE(total_savings, 0) + v_credited_amount
+    WHERE id = v_transaction.chama_id;
+
+    v_routed_to := 'chama';
+  ELSE
+    INSERT INTO public.user_central_wallets (user_id, balance)
+    VALUES (v_transaction.user_id, 0)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    SELECT id, COALESCE(currency, 'KES') INTO v_wallet_id, v_currency
+    FROM public.user_central_wallets
+    WHERE user_id = v_transaction.user_id;
+
+    IF v_net_amount > 0 THEN
+      PERFORM public.post_ledger_transaction(
+        'user_deposit',
+        'external',
+        NULL,
+        'user_central_wallet',
+        v_wallet_id,
+        v_net_amount,
+        p_receipt_number,
+        'M-Pesa deposit',
+        jsonb_build_object('provider', 'mpesa', 'purpose', v_transaction.purpose, 'user_id', v_transaction.user_id),
+        v_charge_currency
+      );
+      v_credited_amount := public.convert_amount(v_net_amount, v_charge_currency, v_currency);
+    END IF;
+
+    INSERT INTO public.wallet_transactions (user_id, type, amount, description, status, reference_id, currency)
+    VALUES (
+      v_transaction.user_id,
+      'deposit',
+      v_credited_amount,
+      'M-Pesa deposit (Fee: ' || v_charge_currency || ' ' || to_char(v_platform_fee, 'FM999999990.00') || ')',
+      'completed',
+      p_receipt_number,
+      v_currency
+    );
+
+    v_routed_to := 'wallet';
+  END IF;
+
+  PERFORM public.collect_platform_fee(
+    v_transaction.user_id,
+    'transaction',
+    v_platform_fee,
+    NULL,
+    p_receipt_number
+  );
+
+  UPDATE public.mpesa_transactions
+  SET status = 'success',
+      result_code = p_result_code,
+      result_desc = p_result_desc,
+      mpesa_receipt_number = p_receipt_number,
+      transaction_date = COALESCE(p_transaction_date, now()),
+      phone_number = COALESCE(p_phone_number, phone_number),
+      callback_data = p_callback_data || jsonb_build_object('fee_quote', v_quote),
+      updated_at = now()
+  WHERE id = v_transaction.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'already_settled', false,
+    'outcome', 'credited',
+    'routed_to', v_routed_to,
+    'user_id', v_transaction.user_id,
+    'chama_id', v_transaction.chama_id,
+    -- What reached the chama or wallet, in its currency
+    'amount', v_credited_amount,
+    'currency', v_currency,
+    'fee', v_platform_fee,
+    'fee_currency', v_charge_currency
+  );
+END;
+$$;
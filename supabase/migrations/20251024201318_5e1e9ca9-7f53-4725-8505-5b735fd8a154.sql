@@ -0,0 +1,258 @@
+-- ============================================
+-- PAYSTACK WITHDRAWALS ARE SETTLED BY THEIR OUTCOME
+-- ============================================
+-- A withdrawal whose transfer Paystack accepted was recorded as completed
+-- or pending and never looked at again, so a payout that failed or was
+-- reversed later kept the member's money. The pending withdrawal is now
+-- recorded with its debit, and settle_user_withdrawal() moves it to
+-- completed, failed or reversed when paystack-callback receives the
+-- transfer event or reconcile-paystack-withdrawals asks Paystack, refunding
+-- the wallet through reverse_user_withdrawal() when the money did not go out.
+-- ============================================
+
+-- 1. The debit and its pending wallet transaction are written together, so
+--    every debited withdrawal has a row for the settlement to find
+CREATE OR REPLACE FUNCTION public.post_user_withdrawal(
+  p_user_id UUID,
+  p_wallet_id UUID,
+  p_net_amount NUMERIC,
+  p_fee NUMERIC,
+  p_reference VARCHAR,
+  p_payment_method VARCHAR
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction_id UUID;
+  v_currency TEXT;
+BEGIN
+  v_transaction_id := public.post_ledger_transaction(
+    'user_withdrawal',
+    'user_wallet',
+    p_wallet_id,
+    'external',
+    NULL,
+    p_net_amount,
+    p_reference,
+    FORMAT('Withdrawal via %s', p_payment_method),
+    jsonb_build_object('payment_method', p_payment_method, 'user_id', p_user_id)
+  );
+
+  IF COALESCE(p_fee, 0) > 0 THEN
+    PERFORM public.collect_platform_fee(
+      p_user_id,
+      'withdrawal',
+      p_fee,
+      v_transaction_id,
+      p_reference,
+      'user_wallet',
+      p_wallet_id
+    );
+  END IF;
+
+  SELECT COALESCE(currency, 'KES') INTO v_currency FROM public.user_wallets WHERE id = p_wallet_id;
+
+  INSERT INTO public.wallet_transactions (user_id, type, amount, description, status, reference_id, currency, metadata)
+  VALUES (
+    p_user_id,
+    'withdrawal',
+    -(p_net_amount + COALESCE(p_fee, 0)),
+    FORMAT('Withdrawal via %s (Fee: %s %s)', p_payment_method, v_currency, COALESCE(p_fee, 0)),
+    'pending',
+    p_reference,
+    v_currency,
+    jsonb_build_object('payment_method', p_payment_method, 'fee', COALESCE(p_fee, 0), 'net_amount', p_net_amount)
+  );
+
+  RETURN v_transaction_id;
+END;
+$$;
+
+-- 2. Settle a withdrawal from the transfer's outcome: success completes a
+--    pending withdrawal; failed refunds a pending one; reversed refunds a
+--    pending or completed one. Safe to call more than once per reference.
+CREATE OR REPLACE FUNCTION public.settle_user_withdrawal(
+  p_reference VARCHAR,
+  p_outcome TEXT,
+  p_reason TEXT DEFAULT NULL,
+  p_provider_data JSONB DEFAULT '{}',
+  p_settled_by TEXT DEFAULT 'webhook'
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_withdrawal public.wallet_transactions%ROWTYPE;
+  v_status TEXT;
+  v_refunded BOOLEAN := false;
+BEGIN
+  IF p_outcome NOT IN ('success', 'failed', 'reversed') THEN
+    RAISE EXCEPTION 'Unknown withdrawal outcome: %', p_outcome;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('withdrawal_settlement:' || p_reference));
+
+  SELECT * INTO v_withdrawal
+  FROM public.wallet_transactions
+  WHERE reference_id = p_reference AND type = 'withdrawal'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Withdrawal not found');
+  END IF;
+
+  v_status := CASE p_outcome WHEN 'success' THEN 'completed' ELSE p_outcome END;
+
+  IF v_withdrawal.status IN ('failed', 'reversed')
+     OR v_withdrawal.status = v_status
+     OR (v_withdrawal.status = 'completed' AND p_outcome = 'failed') THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_settled', true,
+      'status', v_withdrawal.status,
+      'user_id', v_withdrawal.user_id
+    );
+  END IF;
+
+  IF p_outcome <> 'success' THEN
+    v_refunded := public.reverse_user_withdrawal(p_reference, COALESCE(p_reason, 'Transfer ' || p_outcome));
+  END IF;
+
+  UPDATE public.wallet_transactions
+  SET status = v_status,
+      metadata = COALESCE(metadata, '{}'::JSONB) || jsonb_build_object(
+        'settlement', jsonb_build_object(
+          'outcome', p_outcome,
+          'reason', p_reason,
+          'settled_by', p_settled_by,
+          'settled_at', now(),
+          'provider_data', COALESCE(p_provider_data, '{}'::JSONB)
+        )
+      )
+  WHERE id = v_withdrawal.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'already_settled', false,
+    'status', v_status,
+    'refunded', v_refunded,
+    'user_id', v_withdrawal.user_id,
+    'amount', -v_withdrawal.amount,
+    'currency', v_withdrawal.currency
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_user_withdrawal(VARCHAR, TEXT, TEXT, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.settle_user_withdrawal(VARCHAR, TEXT, TEXT, JSONB, TEXT) TO service_role;
+
+-- 3. The fee was taken in the wallet's currency, so it is refunded in it
+--    rather than read as an amount of platform revenue's currency
+CREATE OR REPLACE FUNCTION public.reverse_user_withdrawal(
+  p_reference VARCHAR,
+  p_reason TEXT DEFAULT NULL
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_withdrawal RECORD;
+  v_fee RECORD;
+BEGIN
+  -- One reversal at a time per withdrawal
+  PERFORM pg_advisory_xact_lock(hashtext('withdrawal_reversal:' || p_reference));
+
+  IF EXISTS (
+    SELECT 1 FROM public.transaction_ledger
+    WHERE reference = p_reference AND transaction_type = 'withdrawal_reversal'
+  ) THEN
+    RETURN false;
+  END IF;
+
+  SELECT account_id, debit_amount, currency, metadata INTO v_withdrawal
+  FROM public.transaction_ledger
+  WHERE reference = p_reference
+    AND transaction_type = 'user_withdrawal'
+    AND account_type = 'user_wallet'
+    AND debit_amount > 0;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  PERFORM public.post_ledger_transaction(
+    'withdrawal_reversal',
+    'external',
+    NULL,
+    'user_wallet',
+    v_withdrawal.account_id,
+    v_withdrawal.debit_amount,
+    p_reference,
+    'Withdrawal reversed',
+    jsonb_build_object('reason', p_reason) || COALESCE(v_withdrawal.metadata, '{}'::JSONB),
+    v_withdrawal.currency
+  );
+
+  FOR v_fee IN
+    SELECT id, amount, platform_account_id, user_id
+    FROM public.fee_collections
+    WHERE paystack_reference = p_reference
+      AND fee_type = 'withdrawal'
+      AND status = 'collected'
+    FOR UPDATE
+  LOOP
+    PERFORM public.post_ledger_transaction(
+      'fee_refund',
+      'platform_revenue',
+      v_fee.platform_account_id,
+      'user_wallet',
+      v_withdrawal.account_id,
+      v_fee.amount,
+      p_reference,
+      'Withdrawal fee refunded',
+      jsonb_build_object('fee_id', v_fee.id, 'user_id', v_fee.user_id, 'reason', p_reason),
+      v_withdrawal.currency
+    );
+
+    UPDATE public.fee_collections SET status = 'refunded' WHERE id = v_fee.id;
+
+    UPDATE public.platform_accounts
+    SET total_collected = total_collected - v_fee.amount
+    WHERE id = v_fee.platform_account_id;
+  END LOOP;
+
+  RETURN true;
+END;
+$$;
+
+-- 4. Pending withdrawals are looked up by status and age
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_pending_withdrawals
+  ON public.wallet_transactions(created_at)
+  WHERE type = 'withdrawal' AND status = 'pending';
+
+-- 5. Check pending withdrawals with Paystack every 15 minutes, like the
+--    payment reconciler
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'reconcile-paystack-withdrawals',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/reconcile-paystack-withdrawals',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+COMMENT ON FUNCTION public.post_user_withdrawal(UUID, UUID, NUMERIC, NUMERIC, VARCHAR, VARCHAR) IS 'Debits a wallet withdrawal and its fee and records it as pending, in one transaction';
+COMMENT ON FUNCTION public.settle_user_withdrawal(VARCHAR, TEXT, TEXT, JSONB, TEXT) IS 'Completes, fails or reverses a pending withdrawal from its transfer outcome, refunding the wallet when no money went out; safe to call more than once';
@@ -0,0 +1,11 @@
+-- ============================================
+-- LOAN SCHEDULE PREVIEWS
+-- ============================================
+-- The loan request forms now preview instalments by calling
+-- build_loan_schedule() instead of repeating the amortization in the
+-- browser, so the preview and the stored schedule cannot drift apart.
+-- The function only does arithmetic on its arguments and reads no tables,
+-- so signed-in members may call it directly.
+-- ============================================
+
+GRANT EXECUTE ON FUNCTION public.build_loan_schedule(NUMERIC, NUMERIC, INTEGER, TEXT, TEXT, DATE) TO authenticated;
@@ -0,0 +1,386 @@
+-- ============================================
+-- GUARANTEES IN THE CHAMA'S CURRENCY, RECOVERY ON THE LEDGER
+-- ============================================
+-- Guarantor requests, answers, approval errors and recovery notices quoted
+-- every amount in KES whatever the chama holds; they now use the chama's
+-- currency. Recovering a defaulted loan from guarantors moved their savings
+-- onto the loan without touching the ledger. Each guarantor's share is now
+-- posted through post_ledger_transaction(): released from the chama's
+-- central wallet to their chama wallet and paid back in as a loan
+-- repayment, so the central wallet ends where it started and
+-- transaction_ledger shows where the repayment came from.
+-- ============================================
+
+-- 1. Nomination requests
+CREATE OR REPLACE FUNCTION public.nominate_chama_loan_guarantors(p_loan_id UUID, p_guarantors JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_loan public.chama_loans%ROWTYPE;
+  v_borrower public.chama_members%ROWTYPE;
+  v_entry JSONB;
+  v_member public.chama_members%ROWTYPE;
+  v_amount NUMERIC;
+  v_borrower_name TEXT;
+  v_currency VARCHAR;
+  v_count INTEGER := 0;
+BEGIN
+  SELECT * INTO v_loan FROM public.chama_loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Loan not found');
+  END IF;
+
+  SELECT * INTO v_borrower FROM public.chama_members WHERE id = v_loan.borrower_id;
+  IF v_borrower.user_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Only the borrower can nominate guarantors');
+  END IF;
+
+  IF v_loan.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Guarantors can only be nominated while the loan is pending');
+  END IF;
+
+  IF jsonb_typeof(p_guarantors) <> 'array' OR jsonb_array_length(p_guarantors) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Nominate at least one guarantor');
+  END IF;
+
+  SELECT currency INTO v_currency FROM public.chamas WHERE id = v_loan.chama_id;
+  v_borrower_name := COALESCE((SELECT full_name FROM public.profiles WHERE user_id = v_borrower.user_id), 'A member');
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(p_guarantors) LOOP
+    v_amount := round((v_entry ->> 'amount')::numeric, 2);
+
+    SELECT * INTO v_member
+    FROM public.chama_members
+    WHERE id = (v_entry ->> 'member_id')::uuid
+      AND chama_id = v_loan.chama_id
+      AND is_active = true;
+
+    IF NOT FOUND OR v_member.id = v_borrower.id THEN
+      RAISE EXCEPTION 'Guarantors must be other active members of this chama';
+    END IF;
+
+    IF v_amount IS NULL OR v_amount <= 0 THEN
+      RAISE EXCEPTION 'Each guarantor needs a positive amount';
+    END IF;
+
+    -- Re-nominating someone who declined asks them again
+    INSERT INTO public.chama_loan_guarantors (loan_id, chama_id, guarantor_member_id, guaranteed_amount)
+    VALUES (p_loan_id, v_loan.chama_id, v_member.id, v_amount)
+    ON CONFLICT (loan_id, guarantor_member_id) DO UPDATE
+      SET guaranteed_amount = EXCLUDED.guaranteed_amount,
+          status = 'pending',
+          responded_at = NULL,
+          updated_at = now()
+      WHERE chama_loan_guarantors.status IN ('pending', 'declined', 'withdrawn');
+
+    INSERT INTO public.chama_notifications (user_id, chama_id, type, title, message, metadata)
+    VALUES (
+      v_member.user_id,
+      v_loan.chama_id,
+      'guarantor_request',
+      'Guarantor request',
+      v_borrower_name || ' has asked you to guarantee ' || v_currency || ' ' || to_char(v_amount, 'FM999999990.00') || ' of their loan.',
+      jsonb_build_object('loan_id', p_loan_id, 'amount', v_amount)
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'nominated', v_count);
+END;
+$$;
+
+-- 2. Accepting or declining
+CREATE OR REPLACE FUNCTION public.respond_to_loan_guarantee(p_guarantee_id UUID, p_accept BOOLEAN, p_user_pin TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_guarantee public.chama_loan_guarantors%ROWTYPE;
+  v_member public.chama_members%ROWTYPE;
+  v_loan public.chama_loans%ROWTYPE;
+  v_borrower_user UUID;
+  v_lock_percent NUMERIC;
+  v_lock NUMERIC;
+  v_currency VARCHAR;
+BEGIN
+  SELECT * INTO v_guarantee FROM public.chama_loan_guarantors WHERE id = p_guarantee_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Guarantee request not found');
+  END IF;
+
+  SELECT * INTO v_member FROM public.chama_members WHERE id = v_guarantee.guarantor_member_id FOR UPDATE;
+  IF v_member.user_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Unauthorized');
+  END IF;
+
+  IF v_guarantee.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'This request has already been answered');
+  END IF;
+
+  IF NOT public.verify_user_pin_v2(auth.uid(), p_user_pin) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Invalid PIN');
+  END IF;
+
+  SELECT * INTO v_loan FROM public.chama_loans WHERE id = v_guarantee.loan_id;
+  SELECT currency INTO v_currency FROM public.chamas WHERE id = v_guarantee.chama_id;
+  SELECT user_id INTO v_borrower_user FROM public.chama_members WHERE id = v_loan.borrower_id;
+
+  IF v_loan.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'This loan is no longer awaiting guarantors');
+  END IF;
+
+  IF p_accept THEN
+    SELECT COALESCE(guarantor_lock_percent, 100) INTO v_lock_percent
+    FROM public.chama_settings WHERE chama_id = v_guarantee.chama_id;
+    v_lock := round(v_guarantee.guaranteed_amount * COALESCE(v_lock_percent, 100) / 100, 2);
+
+    IF public.member_available_savings(v_member.id) < v_lock THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'message', 'You need ' || v_currency || ' ' || to_char(v_lock, 'FM999999990.00') || ' of unlocked savings to accept this guarantee'
+      );
+    END IF;
+
+    UPDATE public.chama_members
+    SET locked_savings = locked_savings + v_lock
+    WHERE id = v_member.id;
+  END IF;
+
+  UPDATE public.chama_loan_guarantors
+  SET status = CASE WHEN p_accept THEN 'accepted' ELSE 'declined' END,
+      locked_amount = COALESCE(v_lock, 0),
+      responded_at = now(),
+      updated_at = now()
+  WHERE id = p_guarantee_id;
+
+  INSERT INTO public.chama_notifications (user_id, chama_id, type, title, message, metadata)
+  VALUES (
+    v_borrower_user,
+    v_guarantee.chama_id,
+    CASE WHEN p_accept THEN 'guarantor_accepted' ELSE 'guarantor_declined' END,
+    CASE WHEN p_accept THEN 'Guarantor accepted' ELSE 'Guarantor declined' END,
+    COALESCE((SELECT full_name FROM public.profiles WHERE user_id = v_member.user_id), 'A member')
+      || CASE WHEN p_accept THEN ' has agreed to guarantee ' ELSE ' has declined to guarantee ' END
+      || v_currency || ' ' || to_char(v_guarantee.guaranteed_amount, 'FM999999990.00') || ' of your loan.',
+    jsonb_build_object('loan_id', v_guarantee.loan_id, 'guarantee_id', p_guarantee_id)
+  );
+
+  RETURN jsonb_build_object('success', true, 'status', CASE WHEN p_accept THEN 'accepted' ELSE 'declined' END, 'locked', COALESCE(v_lock, 0));
+END;
+$$;
+
+-- 3. Approval needs cover
+CREATE OR REPLACE FUNCTION public.enforce_chama_loan_guarantees()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_cover RECORD;
+  v_currency VARCHAR;
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status = 'pending' THEN
+    SELECT * INTO v_cover FROM public.chama_loan_guarantee_coverage(NEW.id);
+    IF NOT v_cover.is_covered THEN
+      SELECT currency INTO v_currency FROM public.chamas WHERE id = NEW.chama_id;
+      RAISE EXCEPTION 'Loan needs % accepted guarantor(s) covering % %; has % covering % %',
+        v_cover.required_guarantors, v_currency, v_cover.required_amount,
+        v_cover.accepted_guarantors, v_currency, v_cover.guaranteed_amount;
+    END IF;
+  END IF;
+
+  IF NEW.status IN ('completed', 'rejected') AND OLD.status IS DISTINCT FROM NEW.status THEN
+    UPDATE public.chama_members cm
+    SET locked_savings = GREATEST(cm.locked_savings - g.locked_amount, 0)
+    FROM public.chama_loan_guarantors g
+    WHERE g.loan_id = NEW.id
+      AND g.status = 'accepted'
+      AND cm.id = g.guarantor_member_id;
+
+    UPDATE public.chama_loan_guarantors
+    SET status = CASE WHEN status = 'accepted' THEN 'released' ELSE 'withdrawn' END,
+        locked_amount = 0,
+        released_at = now(),
+        updated_at = now()
+    WHERE loan_id = NEW.id
+      AND status IN ('pending', 'accepted');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 4. Recovery from guarantors
+CREATE OR REPLACE FUNCTION public.recover_defaulted_chama_loans()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_loan RECORD;
+  v_guarantee RECORD;
+  v_need NUMERIC;
+  v_locked_left NUMERIC;
+  v_take NUMERIC;
+  v_recovered NUMERIC;
+  v_loans INTEGER := 0;
+  v_total NUMERIC := 0;
+BEGIN
+  FOR v_loan IN
+    SELECT cl.*, cm.user_id AS borrower_user_id, pos.outstanding_amount, c.currency,
+           ccw.id AS central_wallet_id
+    FROM public.chama_loans cl
+    JOIN public.chama_members cm ON cm.id = cl.borrower_id
+    JOIN public.chamas c ON c.id = cl.chama_id
+    JOIN public.chama_central_wallets ccw ON ccw.chama_id = cl.chama_id
+    LEFT JOIN public.chama_settings cs ON cs.chama_id = cl.chama_id
+    CROSS JOIN LATERAL public.chama_loan_position(cl.id) pos
+    WHERE cl.status = 'active'
+      AND cl.days_overdue >= COALESCE(cs.guarantor_recovery_days, 60)
+      AND pos.outstanding_amount > 0
+      AND EXISTS (
+        SELECT 1 FROM public.chama_loan_guarantors g
+        WHERE g.loan_id = cl.id AND g.status = 'accepted' AND g.locked_amount > 0
+      )
+    FOR UPDATE OF cl
+  LOOP
+    v_need := v_loan.outstanding_amount;
+    v_recovered := 0;
+
+    SELECT COALESCE(sum(locked_amount), 0) INTO v_locked_left
+    FROM public.chama_loan_guarantors
+    WHERE loan_id = v_loan.id AND status = 'accepted';
+
+    FOR v_guarantee IN
+      SELECT g.*, m.user_id AS guarantor_user_id, m.savings_balance, mw.id AS member_wallet_id
+      FROM public.chama_loan_guarantors g
+      JOIN public.chama_members m ON m.id = g.guarantor_member_id
+      JOIN public.member_wallets mw ON mw.member_id = m.id AND mw.chama_id = m.chama_id
+      WHERE g.loan_id = v_loan.id AND g.status = 'accepted' AND g.locked_amount > 0
+      ORDER BY g.locked_amount, g.id
+      FOR UPDATE OF g, m, mw
+    LOOP
+      EXIT WHEN v_need <= 0;
+
+      -- The last guarantor in the loop absorbs rounding
+      v_take := LEAST(
+        v_guarantee.locked_amount,
+        COALESCE(v_guarantee.savings_balance, 0),
+        CASE WHEN v_locked_left <= v_guarantee.locked_amount THEN v_need
+             ELSE round(v_need * v_guarantee.locked_amount / v_locked_left, 2) END
+      );
+      v_locked_left := v_locked_left - v_guarantee.locked_amount;
+
+      CONTINUE WHEN v_take <= 0;
+
+      UPDATE public.chama_members
+      SET savings_balance = savings_balance - v_take,
+          locked_savings = GREATEST(locked_savings - v_take, 0)
+      WHERE id = v_guarantee.guarantor_member_id;
+
+      -- The savings sit in the chama's central wallet: release the guarantor's
+      -- share to their chama wallet, then repay the loan from there as the
+      -- borrower would
+      PERFORM public.post_ledger_transaction(
+        'guarantor_recovery',
+        'chama_central_wallet',
+        v_loan.central_wallet_id,
+        'member_wallet',
+        v_guarantee.member_wallet_id,
+        v_take,
+        v_loan.id::TEXT,
+        'Guaranteed savings released to repay a defaulted loan',
+        jsonb_build_object('loan_id', v_loan.id, 'chama_id', v_loan.chama_id, 'member_id', v_guarantee.guarantor_member_id)
+      );
+
+      PERFORM public.post_ledger_transaction(
+        'loan_repayment',
+        'member_wallet',
+        v_guarantee.member_wallet_id,
+        'chama_central_wallet',
+        v_loan.central_wallet_id,
+        v_take,
+        v_loan.id::TEXT,
+        'Chama loan repayment recovered from a guarantor',
+        jsonb_build_object(
+          'loan_id', v_loan.id,
+          'chama_id', v_loan.chama_id,
+          'member_id', v_guarantee.guarantor_member_id,
+          'borrower_id', v_loan.borrower_id
+        )
+      );
+
+      UPDATE public.chama_loan_guarantors
+      SET locked_amount = locked_amount - v_take,
+          recovered_amount = recovered_amount + v_take,
+          status = CASE WHEN locked_amount - v_take <= 0 THEN 'recovered' ELSE status END,
+          updated_at = now()
+      WHERE id = v_guarantee.id;
+
+      INSERT INTO public.chama_notifications (user_id, chama_id, type, title, message, metadata)
+      VALUES (
+        v_guarantee.guarantor_user_id,
+        v_loan.chama_id,
+        'guarantor_recovery',
+        'Guaranteed loan recovered from your savings',
+        'A loan you guaranteed has been in arrears for ' || v_loan.days_overdue || ' days. '
+          || v_loan.currency || ' ' || to_char(v_take, 'FM999999990.00') || ' has been recovered from your savings.',
+        jsonb_build_object('loan_id', v_loan.id, 'amount', v_take)
+      );
+
+      v_need := v_need - v_take;
+      v_recovered := v_recovered + v_take;
+    END LOOP;
+
+    CONTINUE WHEN v_recovered <= 0;
+
+    INSERT INTO public.chama_loan_repayments (loan_id, amount, payment_method, status)
+    VALUES (v_loan.id, v_recovered, 'guarantor_recovery', 'completed');
+
+    -- Savings leave the members' share of the pot and pay the loan back into it
+    UPDATE public.chamas
+    SET total_savings = GREATEST(COALESCE(total_savings, 0) - v_recovered, 0)
+    WHERE id = v_loan.chama_id;
+
+    UPDATE public.chama_loans
+    SET repaid_amount = COALESCE(repaid_amount, 0) + v_recovered,
+        status = CASE WHEN v_need <= 0 THEN 'completed' ELSE status END
+    WHERE id = v_loan.id;
+
+    INSERT INTO public.chama_notifications (user_id, chama_id, type, title, message, metadata)
+    VALUES (
+      v_loan.borrower_user_id,
+      v_loan.chama_id,
+      'loan_guarantor_recovery',
+      'Loan recovered from guarantors',
+      'Your loan was ' || v_loan.days_overdue || ' days in arrears, so ' || v_loan.currency || ' ' || to_char(v_recovered, 'FM999999990.00')
+        || ' was recovered from your guarantors'' savings.',
+      jsonb_build_object('loan_id', v_loan.id, 'amount', v_recovered)
+    );
+
+    INSERT INTO public.chama_activities (chama_id, member_id, activity_type, description, amount)
+    VALUES (
+      v_loan.chama_id,
+      v_loan.borrower_id,
+      'loan_guarantor_recovery',
+      'Recovered ' || v_loan.currency || ' ' || to_char(v_recovered, 'FM999999990.00') || ' of a defaulted loan from guarantors',
+      v_recovered
+    );
+
+    v_loans := v_loans + 1;
+    v_total := v_total + v_recovered;
+  END LOOP;
+
+  RETURN jsonb_build_object('loans', v_loans, 'recovered', v_total);
+END;
+$$;
+
+COMMENT ON FUNCTION public.recover_defaulted_chama_loans() IS 'Daily job: recovers loans overdue past guarantor_recovery_days from guarantors'' locked savings, posting each share through the ledger';
@@ -0,0 +1,91 @@
+-- ============================================
+-- MEETING FINES ARE RECORDS, IN THE CHAMA'S CURRENCY
+-- ============================================
+-- Meeting fines never move money. Closing a meeting records what each absent
+-- or late member owes in chama_meeting_fines; the member pays the treasurer
+-- (usually in cash at the next meeting) and the treasurer marks the fine
+-- paid, or waives it, with resolve_meeting_fine(). Neither step posts to the
+-- ledger or touches a wallet, so a fine can never overdraw a member. The
+-- fine notice now says so and quotes the amount in the chama's currency
+-- rather than KES.
+-- ============================================
+
+-- 1. Fine notices in the chama's currency
+CREATE OR REPLACE FUNCTION public.apply_meeting_fines(p_meeting_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_meeting public.chama_meetings%ROWTYPE;
+  v_absence_fine NUMERIC(15,2);
+  v_lateness_fine NUMERIC(15,2);
+  v_currency VARCHAR;
+  v_fine RECORD;
+  v_levied INTEGER := 0;
+BEGIN
+  SELECT * INTO v_meeting FROM public.chama_meetings WHERE id = p_meeting_id;
+  IF v_meeting.status IS DISTINCT FROM 'completed' THEN
+    RETURN 0;
+  END IF;
+
+  SELECT COALESCE(cs.absence_fine, 0), COALESCE(cs.lateness_fine, 0)
+  INTO v_absence_fine, v_lateness_fine
+  FROM public.chama_settings cs
+  WHERE cs.chama_id = v_meeting.chama_id;
+
+  SELECT currency INTO v_currency FROM public.chamas WHERE id = v_meeting.chama_id;
+
+  -- A corrected attendance record takes back fines that no longer apply
+  UPDATE public.chama_meeting_fines f
+  SET status = 'waived', resolved_at = now(), resolution_note = 'Attendance corrected'
+  FROM public.chama_meeting_attendance a
+  WHERE f.meeting_id = p_meeting_id
+    AND f.status = 'outstanding'
+    AND a.meeting_id = f.meeting_id
+    AND a.member_id = f.member_id
+    AND a.status <> CASE f.reason WHEN 'absence' THEN 'absent' ELSE 'late' END;
+
+  FOR v_fine IN
+    INSERT INTO public.chama_meeting_fines (chama_id, meeting_id, member_id, reason, amount)
+    SELECT
+      v_meeting.chama_id,
+      p_meeting_id,
+      a.member_id,
+      CASE a.status WHEN 'absent' THEN 'absence' ELSE 'lateness' END,
+      CASE a.status WHEN 'absent' THEN v_absence_fine ELSE v_lateness_fine END
+    FROM public.chama_meeting_attendance a
+    WHERE a.meeting_id = p_meeting_id
+      AND ((a.status = 'absent' AND COALESCE(v_absence_fine, 0) > 0)
+        OR (a.status = 'late' AND COALESCE(v_lateness_fine, 0) > 0))
+    ON CONFLICT (meeting_id, member_id, reason) DO NOTHING
+    RETURNING member_id, reason, amount
+  LOOP
+    v_levied := v_levied + 1;
+
+    INSERT INTO public.chama_notifications (chama_id, user_id, type, title, message, metadata)
+    SELECT
+      v_meeting.chama_id,
+      cm.user_id,
+      'meeting_fine',
+      CASE v_fine.reason WHEN 'absence' THEN 'Absence fine' ELSE 'Lateness fine' END,
+      format('%s %s for %s at %s on %s. Pay it to your treasurer, who will mark it paid.',
+        v_currency,
+        to_char(v_fine.amount, 'FM999,999,990.00'),
+        CASE v_fine.reason WHEN 'absence' THEN 'missing' ELSE 'arriving late' END,
+        v_meeting.title,
+        to_char(v_meeting.scheduled_at AT TIME ZONE 'Africa/Nairobi', 'DD Mon YYYY')),
+      jsonb_build_object('meeting_id', p_meeting_id, 'reason', v_fine.reason, 'amount', v_fine.amount, 'currency', v_currency)
+    FROM public.chama_members cm
+    WHERE cm.id = v_fine.member_id;
+  END LOOP;
+
+  RETURN v_levied;
+END;
+$$;
+
+COMMENT ON TABLE public.chama_meeting_fines IS 'Absence and lateness fines levied from chama_settings when a meeting closes, in the chama''s currency; records only, paid to the treasurer outside the app and never posted to the ledger';
+COMMENT ON COLUMN public.chama_meeting_fines.status IS 'outstanding until an officer marks it paid (collected by the treasurer) or waived; no wallet is charged either way';
+COMMENT ON FUNCTION public.apply_meeting_fines(UUID) IS 'Records and notifies the fines a closed meeting''s attendance calls for, waiving those a correction no longer supports; charges no wallet';
+COMMENT ON FUNCTION public.resolve_meeting_fine(UUID, TEXT, TEXT) IS 'Marks a fine paid or waived (with a reason); records the outcome only, no money moves; officers only';